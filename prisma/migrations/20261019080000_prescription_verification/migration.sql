@@ -0,0 +1,53 @@
+-- CreateEnum
+CREATE TYPE "PrescriptionStatus" AS ENUM ('PENDING', 'APPROVED', 'REJECTED');
+
+-- CreateEnum
+CREATE TYPE "PrescriptionFileType" AS ENUM ('IMAGE', 'PDF');
+
+-- AlterEnum
+ALTER TYPE "OrderStatus" ADD VALUE 'PENDING_VERIFICATION' BEFORE 'PLACED';
+
+-- AlterTable
+ALTER TABLE "cart_item" ADD COLUMN     "prescriptionId" TEXT;
+
+-- AlterTable
+ALTER TABLE "order_item" ADD COLUMN     "prescriptionId" TEXT;
+
+-- CreateTable
+CREATE TABLE "prescription" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "fileUrl" TEXT NOT NULL,
+    "fileType" "PrescriptionFileType" NOT NULL DEFAULT 'IMAGE',
+    "patientName" TEXT NOT NULL,
+    "doctorName" TEXT NOT NULL,
+    "doctorRegNo" TEXT,
+    "issueDate" TIMESTAMP(3) NOT NULL,
+    "expiryDate" TIMESTAMP(3),
+    "status" "PrescriptionStatus" NOT NULL DEFAULT 'PENDING',
+    "reviewedBy" TEXT,
+    "reviewedAt" TIMESTAMP(3),
+    "reviewNote" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "prescription_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "prescription_userId_idx" ON "prescription"("userId");
+
+-- CreateIndex
+CREATE INDEX "prescription_status_idx" ON "prescription"("status");
+
+-- CreateIndex
+CREATE INDEX "order_item_prescriptionId_idx" ON "order_item"("prescriptionId");
+
+-- AddForeignKey
+ALTER TABLE "cart_item" ADD CONSTRAINT "cart_item_prescriptionId_fkey" FOREIGN KEY ("prescriptionId") REFERENCES "prescription"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "order_item" ADD CONSTRAINT "order_item_prescriptionId_fkey" FOREIGN KEY ("prescriptionId") REFERENCES "prescription"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "prescription" ADD CONSTRAINT "prescription_userId_fkey" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE CASCADE;
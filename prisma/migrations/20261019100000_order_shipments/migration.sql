@@ -0,0 +1,67 @@
+-- AlterEnum
+ALTER TYPE "OrderStatus" ADD VALUE 'PARTIALLY_SHIPPED' BEFORE 'SHIPPED';
+
+-- AlterTable
+ALTER TABLE "order_item" ADD COLUMN     "shipmentId" TEXT;
+
+-- AlterTable
+ALTER TABLE "order_status_history" ADD COLUMN     "shipmentId" TEXT;
+
+-- CreateTable
+CREATE TABLE "shipment" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "sellerId" TEXT,
+    "status" "OrderStatus" NOT NULL DEFAULT 'PLACED',
+    "subtotal" DOUBLE PRECISION NOT NULL,
+    "trackingNumber" TEXT,
+    "carrier" TEXT,
+    "shippedAt" TIMESTAMP(3),
+    "deliveredAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "shipment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "shipment_sellerId_idx" ON "shipment"("sellerId");
+
+-- CreateIndex
+CREATE INDEX "shipment_status_idx" ON "shipment"("status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "shipment_orderId_sellerId_key" ON "shipment"("orderId", "sellerId");
+
+-- CreateIndex
+CREATE INDEX "order_item_shipmentId_idx" ON "order_item"("shipmentId");
+
+-- CreateIndex
+CREATE INDEX "order_status_history_shipmentId_idx" ON "order_status_history"("shipmentId");
+
+-- AddForeignKey
+ALTER TABLE "order_item" ADD CONSTRAINT "order_item_shipmentId_fkey" FOREIGN KEY ("shipmentId") REFERENCES "shipment"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "shipment" ADD CONSTRAINT "shipment_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "order"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "shipment" ADD CONSTRAINT "shipment_sellerId_fkey" FOREIGN KEY ("sellerId") REFERENCES "user"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "order_status_history" ADD CONSTRAINT "order_status_history_shipmentId_fkey" FOREIGN KEY ("shipmentId") REFERENCES "shipment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: one shipment per (order, seller) for existing orders
+INSERT INTO "shipment" ("id", "orderId", "sellerId", "status", "subtotal", "createdAt", "updatedAt")
+SELECT gen_random_uuid()::text, oi."orderId", m."sellerId", o."status", SUM(oi."unitPrice" * oi."quantity"), o."createdAt", CURRENT_TIMESTAMP
+FROM "order_item" oi
+JOIN "medicine" m ON m."id" = oi."medicineId"
+JOIN "order" o ON o."id" = oi."orderId"
+GROUP BY oi."orderId", m."sellerId", o."status", o."createdAt";
+
+UPDATE "order_item" oi
+SET "shipmentId" = s."id"
+FROM "medicine" m, "shipment" s
+WHERE m."id" = oi."medicineId"
+  AND s."orderId" = oi."orderId"
+  AND s."sellerId" IS NOT DISTINCT FROM m."sellerId";
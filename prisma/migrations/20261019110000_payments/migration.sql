@@ -0,0 +1,66 @@
+-- CreateEnum
+CREATE TYPE "PaymentProvider" AS ENUM ('COD', 'MOCK', 'STRIPE', 'SSLCOMMERZ');
+
+-- CreateEnum
+CREATE TYPE "PaymentStatus" AS ENUM ('PENDING', 'SUCCEEDED', 'FAILED', 'CANCELLED', 'REFUNDED');
+
+-- CreateTable
+CREATE TABLE "payment" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "provider" "PaymentProvider" NOT NULL DEFAULT 'COD',
+    "status" "PaymentStatus" NOT NULL DEFAULT 'PENDING',
+    "amount" DOUBLE PRECISION NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'BDT',
+    "providerRef" TEXT,
+    "redirectUrl" TEXT,
+    "rawPayload" JSONB,
+    "failureReason" TEXT,
+    "paidAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "payment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "payment_webhook_event" (
+    "id" TEXT NOT NULL,
+    "provider" "PaymentProvider" NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "paymentId" TEXT,
+    "payload" JSONB NOT NULL,
+    "receivedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "payment_webhook_event_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "payment_orderId_idx" ON "payment"("orderId");
+
+-- CreateIndex
+CREATE INDEX "payment_status_idx" ON "payment"("status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payment_provider_providerRef_key" ON "payment"("provider", "providerRef");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payment_webhook_event_provider_eventId_key" ON "payment_webhook_event"("provider", "eventId");
+
+-- AddForeignKey
+ALTER TABLE "payment" ADD CONSTRAINT "payment_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "order"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payment" ADD CONSTRAINT "payment_userId_fkey" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: existing orders were cash on delivery
+INSERT INTO "payment" ("id", "orderId", "userId", "provider", "status", "amount", "paidAt", "createdAt", "updatedAt")
+SELECT gen_random_uuid()::text, o."id", o."userId", 'COD',
+       CASE WHEN o."status" = 'DELIVERED' THEN 'SUCCEEDED'::"PaymentStatus"
+            WHEN o."status" = 'CANCELLED' THEN 'CANCELLED'::"PaymentStatus"
+            ELSE 'PENDING'::"PaymentStatus" END,
+       o."total",
+       CASE WHEN o."status" = 'DELIVERED' THEN o."updatedAt" END,
+       o."createdAt", CURRENT_TIMESTAMP
+FROM "order" o;
@@ -0,0 +1,99 @@
+-- CreateEnum
+CREATE TYPE "ReturnStatus" AS ENUM ('REQUESTED', 'APPROVED', 'REJECTED', 'REFUNDED');
+
+-- CreateEnum
+CREATE TYPE "ReturnCondition" AS ENUM ('RESELLABLE', 'DAMAGED');
+
+-- CreateEnum
+CREATE TYPE "RefundStatus" AS ENUM ('PENDING', 'COMPLETED');
+
+-- AlterTable
+ALTER TABLE "order_item" ADD COLUMN     "returnedQuantity" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "order_status_history" ADD COLUMN     "returnRequestId" TEXT,
+ADD COLUMN     "returnStatus" "ReturnStatus";
+
+-- CreateTable
+CREATE TABLE "return_request" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "orderItemId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "reason" TEXT NOT NULL,
+    "photos" TEXT[],
+    "status" "ReturnStatus" NOT NULL DEFAULT 'REQUESTED',
+    "condition" "ReturnCondition",
+    "restocked" BOOLEAN NOT NULL DEFAULT false,
+    "reviewedBy" TEXT,
+    "reviewedAt" TIMESTAMP(3),
+    "reviewNote" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "return_request_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "refund" (
+    "id" TEXT NOT NULL,
+    "returnRequestId" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "paymentId" TEXT,
+    "method" "PaymentProvider" NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "status" "RefundStatus" NOT NULL DEFAULT 'PENDING',
+    "reference" TEXT,
+    "processedBy" TEXT,
+    "processedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "refund_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "order_status_history_returnRequestId_idx" ON "order_status_history"("returnRequestId");
+
+-- CreateIndex
+CREATE INDEX "return_request_orderId_idx" ON "return_request"("orderId");
+
+-- CreateIndex
+CREATE INDEX "return_request_orderItemId_idx" ON "return_request"("orderItemId");
+
+-- CreateIndex
+CREATE INDEX "return_request_userId_idx" ON "return_request"("userId");
+
+-- CreateIndex
+CREATE INDEX "return_request_status_idx" ON "return_request"("status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "refund_returnRequestId_key" ON "refund"("returnRequestId");
+
+-- CreateIndex
+CREATE INDEX "refund_orderId_idx" ON "refund"("orderId");
+
+-- CreateIndex
+CREATE INDEX "refund_paymentId_idx" ON "refund"("paymentId");
+
+-- CreateIndex
+CREATE INDEX "refund_status_idx" ON "refund"("status");
+
+-- AddForeignKey
+ALTER TABLE "order_status_history" ADD CONSTRAINT "order_status_history_returnRequestId_fkey" FOREIGN KEY ("returnRequestId") REFERENCES "return_request"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "return_request" ADD CONSTRAINT "return_request_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "order"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "return_request" ADD CONSTRAINT "return_request_orderItemId_fkey" FOREIGN KEY ("orderItemId") REFERENCES "order_item"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "return_request" ADD CONSTRAINT "return_request_userId_fkey" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "refund" ADD CONSTRAINT "refund_returnRequestId_fkey" FOREIGN KEY ("returnRequestId") REFERENCES "return_request"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "refund" ADD CONSTRAINT "refund_paymentId_fkey" FOREIGN KEY ("paymentId") REFERENCES "payment"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,42 @@
+-- CreateEnum
+CREATE TYPE "StockMovementType" AS ENUM ('INITIAL', 'ORDER_PLACED', 'ORDER_CANCELLED', 'RETURNED', 'ADJUSTMENT', 'IMPORT', 'EXPIRY_WRITE_OFF');
+
+-- AlterTable
+ALTER TABLE "medicine" ADD COLUMN     "stockDrift" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "stockReconciledAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "stock_movement" (
+    "id" TEXT NOT NULL,
+    "medicineId" TEXT NOT NULL,
+    "type" "StockMovementType" NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "balanceAfter" INTEGER NOT NULL,
+    "actorId" TEXT,
+    "reason" TEXT,
+    "orderId" TEXT,
+    "returnRequestId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "stock_movement_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "stock_movement_medicineId_createdAt_idx" ON "stock_movement"("medicineId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "stock_movement_orderId_idx" ON "stock_movement"("orderId");
+
+-- CreateIndex
+CREATE INDEX "stock_movement_type_idx" ON "stock_movement"("type");
+
+-- AddForeignKey
+ALTER TABLE "stock_movement" ADD CONSTRAINT "stock_movement_medicineId_fkey" FOREIGN KEY ("medicineId") REFERENCES "medicine"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_movement" ADD CONSTRAINT "stock_movement_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "user"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill: opening balance so the ledger matches current stock
+INSERT INTO "stock_movement" ("id", "medicineId", "type", "quantity", "balanceAfter", "actorId", "reason", "createdAt")
+SELECT gen_random_uuid()::text, m."id", 'INITIAL', m."stock", m."stock", m."sellerId", 'Opening balance', CURRENT_TIMESTAMP
+FROM "medicine" m;
@@ -0,0 +1,69 @@
+-- AlterEnum
+ALTER TYPE "StockMovementType" ADD VALUE 'RECEIVED';
+
+-- AlterTable
+ALTER TABLE "stock_movement" ADD COLUMN     "batchId" TEXT;
+
+-- CreateTable
+CREATE TABLE "medicine_batch" (
+    "id" TEXT NOT NULL,
+    "medicineId" TEXT NOT NULL,
+    "batchNumber" TEXT NOT NULL,
+    "manufactureDate" TIMESTAMP(3),
+    "expiryDate" TIMESTAMP(3),
+    "quantity" INTEGER NOT NULL DEFAULT 0,
+    "purchaseCost" DOUBLE PRECISION,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "medicine_batch_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "order_item_batch" (
+    "id" TEXT NOT NULL,
+    "orderItemId" TEXT NOT NULL,
+    "batchId" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "order_item_batch_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "medicine_batch_expiryDate_idx" ON "medicine_batch"("expiryDate");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "medicine_batch_medicineId_batchNumber_key" ON "medicine_batch"("medicineId", "batchNumber");
+
+-- CreateIndex
+CREATE INDEX "order_item_batch_batchId_idx" ON "order_item_batch"("batchId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "order_item_batch_orderItemId_batchId_key" ON "order_item_batch"("orderItemId", "batchId");
+
+-- CreateIndex
+CREATE INDEX "stock_movement_batchId_idx" ON "stock_movement"("batchId");
+
+-- AddForeignKey
+ALTER TABLE "stock_movement" ADD CONSTRAINT "stock_movement_batchId_fkey" FOREIGN KEY ("batchId") REFERENCES "medicine_batch"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "medicine_batch" ADD CONSTRAINT "medicine_batch_medicineId_fkey" FOREIGN KEY ("medicineId") REFERENCES "medicine"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "order_item_batch" ADD CONSTRAINT "order_item_batch_orderItemId_fkey" FOREIGN KEY ("orderItemId") REFERENCES "order_item"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "order_item_batch" ADD CONSTRAINT "order_item_batch_batchId_fkey" FOREIGN KEY ("batchId") REFERENCES "medicine_batch"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Backfill: existing stock has no lot information; hold it in an UNBATCHED batch per medicine
+INSERT INTO "medicine_batch" ("id", "medicineId", "batchNumber", "quantity", "createdAt", "updatedAt")
+SELECT gen_random_uuid()::text, m."id", 'UNBATCHED', m."stock", CURRENT_TIMESTAMP, CURRENT_TIMESTAMP
+FROM "medicine" m
+WHERE m."stock" > 0;
+
+UPDATE "stock_movement" sm
+SET "batchId" = b."id"
+FROM "medicine_batch" b
+WHERE b."medicineId" = sm."medicineId" AND b."batchNumber" = 'UNBATCHED';
@@ -0,0 +1,80 @@
+-- CreateEnum
+CREATE TYPE "RecallSeverity" AS ENUM ('CLASS_I', 'CLASS_II', 'CLASS_III');
+
+-- CreateEnum
+CREATE TYPE "RecallStatus" AS ENUM ('ACTIVE', 'CLOSED');
+
+-- AlterEnum
+ALTER TYPE "StockMovementType" ADD VALUE 'RECALLED';
+
+-- AlterTable
+ALTER TABLE "medicine_batch" ADD COLUMN     "recallId" TEXT;
+
+-- CreateTable
+CREATE TABLE "recall" (
+    "id" TEXT NOT NULL,
+    "medicineId" TEXT NOT NULL,
+    "batchNumbers" TEXT[],
+    "manufacturedFrom" TIMESTAMP(3),
+    "manufacturedTo" TIMESTAMP(3),
+    "severity" "RecallSeverity" NOT NULL,
+    "status" "RecallStatus" NOT NULL DEFAULT 'ACTIVE',
+    "reason" TEXT NOT NULL,
+    "instructions" TEXT NOT NULL,
+    "createdBy" TEXT,
+    "closedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "recall_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "recall_notice" (
+    "id" TEXT NOT NULL,
+    "recallId" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "orderItemId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "notifiedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "recall_notice_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "medicine_batch_recallId_idx" ON "medicine_batch"("recallId");
+
+-- CreateIndex
+CREATE INDEX "recall_medicineId_idx" ON "recall"("medicineId");
+
+-- CreateIndex
+CREATE INDEX "recall_status_idx" ON "recall"("status");
+
+-- CreateIndex
+CREATE INDEX "recall_notice_orderId_idx" ON "recall_notice"("orderId");
+
+-- CreateIndex
+CREATE INDEX "recall_notice_userId_idx" ON "recall_notice"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "recall_notice_recallId_orderItemId_key" ON "recall_notice"("recallId", "orderItemId");
+
+-- AddForeignKey
+ALTER TABLE "medicine_batch" ADD CONSTRAINT "medicine_batch_recallId_fkey" FOREIGN KEY ("recallId") REFERENCES "recall"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "recall" ADD CONSTRAINT "recall_medicineId_fkey" FOREIGN KEY ("medicineId") REFERENCES "medicine"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "recall_notice" ADD CONSTRAINT "recall_notice_recallId_fkey" FOREIGN KEY ("recallId") REFERENCES "recall"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "recall_notice" ADD CONSTRAINT "recall_notice_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "order"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "recall_notice" ADD CONSTRAINT "recall_notice_orderItemId_fkey" FOREIGN KEY ("orderItemId") REFERENCES "order_item"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "recall_notice" ADD CONSTRAINT "recall_notice_userId_fkey" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,96 @@
+-- CreateEnum
+CREATE TYPE "CouponType" AS ENUM ('PERCENTAGE', 'FIXED', 'FREE_SHIPPING');
+
+-- CreateEnum
+CREATE TYPE "CouponScope" AS ENUM ('ORDER', 'CATEGORY', 'SELLER');
+
+-- AlterTable
+ALTER TABLE "order" ADD COLUMN     "discount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "subtotal" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- Backfill: orders placed before coupons were never discounted
+UPDATE "order" SET "subtotal" = "total";
+
+-- CreateTable
+CREATE TABLE "coupon" (
+    "id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "description" TEXT,
+    "type" "CouponType" NOT NULL,
+    "value" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "maxDiscount" DOUBLE PRECISION,
+    "scope" "CouponScope" NOT NULL DEFAULT 'ORDER',
+    "categoryId" TEXT,
+    "sellerId" TEXT,
+    "minOrderValue" DOUBLE PRECISION,
+    "usageLimit" INTEGER,
+    "perUserLimit" INTEGER,
+    "usedCount" INTEGER NOT NULL DEFAULT 0,
+    "stackable" BOOLEAN NOT NULL DEFAULT false,
+    "startsAt" TIMESTAMP(3),
+    "endsAt" TIMESTAMP(3),
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "coupon_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "cart_coupon" (
+    "cartId" TEXT NOT NULL,
+    "couponId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "cart_coupon_pkey" PRIMARY KEY ("cartId","couponId")
+);
+
+-- CreateTable
+CREATE TABLE "coupon_redemption" (
+    "id" TEXT NOT NULL,
+    "couponId" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "discount" DOUBLE PRECISION NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "coupon_redemption_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "coupon_code_key" ON "coupon"("code");
+
+-- CreateIndex
+CREATE INDEX "coupon_sellerId_idx" ON "coupon"("sellerId");
+
+-- CreateIndex
+CREATE INDEX "coupon_categoryId_idx" ON "coupon"("categoryId");
+
+-- CreateIndex
+CREATE INDEX "coupon_redemption_couponId_userId_idx" ON "coupon_redemption"("couponId", "userId");
+
+-- CreateIndex
+CREATE INDEX "coupon_redemption_orderId_idx" ON "coupon_redemption"("orderId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "coupon_redemption_couponId_orderId_key" ON "coupon_redemption"("couponId", "orderId");
+
+-- AddForeignKey
+ALTER TABLE "coupon" ADD CONSTRAINT "coupon_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "category"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "coupon" ADD CONSTRAINT "coupon_sellerId_fkey" FOREIGN KEY ("sellerId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "cart_coupon" ADD CONSTRAINT "cart_coupon_cartId_fkey" FOREIGN KEY ("cartId") REFERENCES "cart"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "cart_coupon" ADD CONSTRAINT "cart_coupon_couponId_fkey" FOREIGN KEY ("couponId") REFERENCES "coupon"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "coupon_redemption" ADD CONSTRAINT "coupon_redemption_couponId_fkey" FOREIGN KEY ("couponId") REFERENCES "coupon"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "coupon_redemption" ADD CONSTRAINT "coupon_redemption_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "order"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,42 @@
+-- CreateEnum
+CREATE TYPE "ShippingFeeType" AS ENUM ('FLAT', 'WEIGHT_BASED');
+
+-- AlterTable
+ALTER TABLE "category" ADD COLUMN     "vatRate" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "medicine" ADD COLUMN     "weightGrams" INTEGER;
+
+-- AlterTable
+ALTER TABLE "order" ADD COLUMN     "shippingDiscount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "shippingFee" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "shippingZoneId" TEXT,
+ADD COLUMN     "tax" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "order_item" ADD COLUMN     "taxAmount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "vatRate" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "shipping_zone" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "areas" TEXT[],
+    "isDefault" BOOLEAN NOT NULL DEFAULT false,
+    "feeType" "ShippingFeeType" NOT NULL DEFAULT 'FLAT',
+    "baseFee" DOUBLE PRECISION NOT NULL,
+    "baseWeightGrams" INTEGER,
+    "perKgFee" DOUBLE PRECISION,
+    "freeShippingThreshold" DOUBLE PRECISION,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "shipping_zone_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "shipping_zone_name_key" ON "shipping_zone"("name");
+
+-- AddForeignKey
+ALTER TABLE "order" ADD CONSTRAINT "order_shippingZoneId_fkey" FOREIGN KEY ("shippingZoneId") REFERENCES "shipping_zone"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,38 @@
+-- AlterTable
+ALTER TABLE "order" ADD COLUMN     "addressId" TEXT,
+ADD COLUMN     "shippingDistrict" TEXT,
+ADD COLUMN     "shippingDivision" TEXT,
+ADD COLUMN     "shippingLatitude" DOUBLE PRECISION,
+ADD COLUMN     "shippingLongitude" DOUBLE PRECISION,
+ADD COLUMN     "shippingPostalCode" TEXT,
+ADD COLUMN     "shippingUpazila" TEXT;
+
+-- CreateTable
+CREATE TABLE "address" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "label" TEXT,
+    "recipientName" TEXT NOT NULL,
+    "phone" TEXT NOT NULL,
+    "division" TEXT NOT NULL,
+    "district" TEXT NOT NULL,
+    "upazila" TEXT,
+    "street" TEXT NOT NULL,
+    "postalCode" TEXT,
+    "latitude" DOUBLE PRECISION,
+    "longitude" DOUBLE PRECISION,
+    "isDefault" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "address_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "address_userId_idx" ON "address"("userId");
+
+-- AddForeignKey
+ALTER TABLE "order" ADD CONSTRAINT "order_addressId_fkey" FOREIGN KEY ("addressId") REFERENCES "address"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "address" ADD CONSTRAINT "address_userId_fkey" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE CASCADE;
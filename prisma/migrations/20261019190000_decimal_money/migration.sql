@@ -0,0 +1,45 @@
+-- Money columns move from DOUBLE PRECISION to DECIMAL(12,2).
+-- Existing values are rounded half-up to 2 decimal places while converting.
+
+-- AlterTable
+ALTER TABLE "medicine" ALTER COLUMN "price" SET DATA TYPE DECIMAL(12,2) USING ROUND("price"::numeric, 2);
+
+-- AlterTable
+ALTER TABLE "cart_item" ALTER COLUMN "unitPrice" SET DATA TYPE DECIMAL(12,2) USING ROUND("unitPrice"::numeric, 2);
+
+-- AlterTable
+ALTER TABLE "order" ALTER COLUMN "subtotal" SET DATA TYPE DECIMAL(12,2) USING ROUND("subtotal"::numeric, 2),
+ALTER COLUMN "discount" SET DATA TYPE DECIMAL(12,2) USING ROUND("discount"::numeric, 2),
+ALTER COLUMN "shippingFee" SET DATA TYPE DECIMAL(12,2) USING ROUND("shippingFee"::numeric, 2),
+ALTER COLUMN "shippingDiscount" SET DATA TYPE DECIMAL(12,2) USING ROUND("shippingDiscount"::numeric, 2),
+ALTER COLUMN "tax" SET DATA TYPE DECIMAL(12,2) USING ROUND("tax"::numeric, 2),
+ALTER COLUMN "total" SET DATA TYPE DECIMAL(12,2) USING ROUND("total"::numeric, 2);
+
+-- AlterTable
+ALTER TABLE "order_item" ALTER COLUMN "unitPrice" SET DATA TYPE DECIMAL(12,2) USING ROUND("unitPrice"::numeric, 2),
+ALTER COLUMN "taxAmount" SET DATA TYPE DECIMAL(12,2) USING ROUND("taxAmount"::numeric, 2);
+
+-- AlterTable
+ALTER TABLE "shipment" ALTER COLUMN "subtotal" SET DATA TYPE DECIMAL(12,2) USING ROUND("subtotal"::numeric, 2);
+
+-- AlterTable
+ALTER TABLE "payment" ALTER COLUMN "amount" SET DATA TYPE DECIMAL(12,2) USING ROUND("amount"::numeric, 2);
+
+-- AlterTable
+ALTER TABLE "refund" ALTER COLUMN "amount" SET DATA TYPE DECIMAL(12,2) USING ROUND("amount"::numeric, 2);
+
+-- AlterTable
+ALTER TABLE "medicine_batch" ALTER COLUMN "purchaseCost" SET DATA TYPE DECIMAL(12,2) USING ROUND("purchaseCost"::numeric, 2);
+
+-- AlterTable
+ALTER TABLE "coupon" ALTER COLUMN "value" SET DATA TYPE DECIMAL(12,2) USING ROUND("value"::numeric, 2),
+ALTER COLUMN "maxDiscount" SET DATA TYPE DECIMAL(12,2) USING ROUND("maxDiscount"::numeric, 2),
+ALTER COLUMN "minOrderValue" SET DATA TYPE DECIMAL(12,2) USING ROUND("minOrderValue"::numeric, 2);
+
+-- AlterTable
+ALTER TABLE "coupon_redemption" ALTER COLUMN "discount" SET DATA TYPE DECIMAL(12,2) USING ROUND("discount"::numeric, 2);
+
+-- AlterTable
+ALTER TABLE "shipping_zone" ALTER COLUMN "baseFee" SET DATA TYPE DECIMAL(12,2) USING ROUND("baseFee"::numeric, 2),
+ALTER COLUMN "perKgFee" SET DATA TYPE DECIMAL(12,2) USING ROUND("perKgFee"::numeric, 2),
+ALTER COLUMN "freeShippingThreshold" SET DATA TYPE DECIMAL(12,2) USING ROUND("freeShippingThreshold"::numeric, 2);
@@ -0,0 +1,30 @@
+-- AlterTable
+ALTER TABLE "user" ADD COLUMN     "currency" TEXT NOT NULL DEFAULT 'BDT';
+
+-- AlterTable
+ALTER TABLE "order" ADD COLUMN     "currency" TEXT NOT NULL DEFAULT 'BDT',
+ADD COLUMN     "exchangeRate" DECIMAL(18,8) NOT NULL DEFAULT 1;
+
+-- AlterTable
+ALTER TABLE "order_item" ADD COLUMN     "baseCurrency" TEXT,
+ADD COLUMN     "basePrice" DECIMAL(12,2),
+ADD COLUMN     "exchangeRate" DECIMAL(18,8) NOT NULL DEFAULT 1;
+
+-- CreateTable
+CREATE TABLE "exchange_rate" (
+    "id" TEXT NOT NULL,
+    "baseCurrency" TEXT NOT NULL,
+    "quoteCurrency" TEXT NOT NULL,
+    "rate" DECIMAL(18,8) NOT NULL,
+    "effectiveFrom" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "exchange_rate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "exchange_rate_baseCurrency_quoteCurrency_effectiveFrom_idx" ON "exchange_rate"("baseCurrency", "quoteCurrency", "effectiveFrom");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "exchange_rate_baseCurrency_quoteCurrency_effectiveFrom_key" ON "exchange_rate"("baseCurrency", "quoteCurrency", "effectiveFrom");
@@ -0,0 +1,18 @@
+-- CreateExtension
+CREATE EXTENSION IF NOT EXISTS "pg_trgm";
+
+-- AlterTable
+ALTER TABLE "medicine" ADD COLUMN     "searchVector" tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('simple', coalesce("name", '')), 'A') ||
+    setweight(to_tsvector('simple', coalesce("genericName", '')), 'B') ||
+    setweight(to_tsvector('english', coalesce("description", '')), 'C')
+) STORED;
+
+-- CreateIndex
+CREATE INDEX "medicine_searchVector_idx" ON "medicine" USING GIN ("searchVector");
+
+-- CreateIndex
+CREATE INDEX "medicine_name_trgm_idx" ON "medicine" USING GIN ("name" gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "medicine_genericName_trgm_idx" ON "medicine" USING GIN ("genericName" gin_trgm_ops);
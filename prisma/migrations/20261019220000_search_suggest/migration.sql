@@ -0,0 +1,5 @@
+-- CreateIndex
+CREATE INDEX "medicine_manufacturer_trgm_idx" ON "medicine" USING GIN ("manufacturer" gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "category_name_trgm_idx" ON "category" USING GIN ("name" gin_trgm_ops);
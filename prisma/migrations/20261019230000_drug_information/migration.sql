@@ -0,0 +1,40 @@
+-- CreateEnum
+CREATE TYPE "DosageForm" AS ENUM ('TABLET', 'CAPSULE', 'SYRUP', 'SUSPENSION', 'INJECTION', 'CREAM', 'OINTMENT', 'GEL', 'DROPS', 'INHALER', 'POWDER', 'SUPPOSITORY', 'OTHER');
+
+-- CreateEnum
+CREATE TYPE "AdministrationRoute" AS ENUM ('ORAL', 'SUBLINGUAL', 'TOPICAL', 'TRANSDERMAL', 'INTRAVENOUS', 'INTRAMUSCULAR', 'SUBCUTANEOUS', 'INHALATION', 'NASAL', 'OPHTHALMIC', 'OTIC', 'RECTAL', 'VAGINAL', 'OTHER');
+
+-- AlterTable
+ALTER TABLE "medicine" ADD COLUMN     "dosageForm" "DosageForm",
+ADD COLUMN     "packSize" INTEGER,
+ADD COLUMN     "registrationNumber" TEXT,
+ADD COLUMN     "route" "AdministrationRoute",
+ADD COLUMN     "storageConditions" TEXT,
+ADD COLUMN     "strength" DOUBLE PRECISION,
+ADD COLUMN     "strengthUnit" TEXT;
+
+-- CreateTable
+CREATE TABLE "medicine_ingredient" (
+    "id" TEXT NOT NULL,
+    "medicineId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "amount" DOUBLE PRECISION,
+    "unit" TEXT,
+
+    CONSTRAINT "medicine_ingredient_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "medicine_dosageForm_idx" ON "medicine"("dosageForm");
+
+-- CreateIndex
+CREATE INDEX "medicine_registrationNumber_idx" ON "medicine"("registrationNumber");
+
+-- CreateIndex
+CREATE INDEX "medicine_ingredient_medicineId_idx" ON "medicine_ingredient"("medicineId");
+
+-- CreateIndex
+CREATE INDEX "medicine_ingredient_name_idx" ON "medicine_ingredient"("name");
+
+-- AddForeignKey
+ALTER TABLE "medicine_ingredient" ADD CONSTRAINT "medicine_ingredient_medicineId_fkey" FOREIGN KEY ("medicineId") REFERENCES "medicine"("id") ON DELETE CASCADE ON UPDATE CASCADE;
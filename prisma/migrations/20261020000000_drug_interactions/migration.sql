@@ -0,0 +1,50 @@
+-- CreateEnum
+CREATE TYPE "InteractionSeverity" AS ENUM ('MINOR', 'MODERATE', 'MAJOR', 'CONTRAINDICATED');
+
+-- CreateTable
+CREATE TABLE "drug_interaction" (
+    "id" TEXT NOT NULL,
+    "ingredientA" TEXT NOT NULL,
+    "ingredientB" TEXT NOT NULL,
+    "severity" "InteractionSeverity" NOT NULL,
+    "description" TEXT NOT NULL,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "drug_interaction_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "interaction_override" (
+    "id" TEXT NOT NULL,
+    "interactionId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "approvedBy" TEXT NOT NULL,
+    "reason" TEXT NOT NULL,
+    "orderId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "interaction_override_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "drug_interaction_ingredientB_idx" ON "drug_interaction"("ingredientB");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "drug_interaction_ingredientA_ingredientB_key" ON "drug_interaction"("ingredientA", "ingredientB");
+
+-- CreateIndex
+CREATE INDEX "interaction_override_userId_interactionId_idx" ON "interaction_override"("userId", "interactionId");
+
+-- CreateIndex
+CREATE INDEX "interaction_override_orderId_idx" ON "interaction_override"("orderId");
+
+-- AddForeignKey
+ALTER TABLE "interaction_override" ADD CONSTRAINT "interaction_override_interactionId_fkey" FOREIGN KEY ("interactionId") REFERENCES "drug_interaction"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "interaction_override" ADD CONSTRAINT "interaction_override_userId_fkey" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "interaction_override" ADD CONSTRAINT "interaction_override_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "order"("id") ON DELETE SET NULL ON UPDATE CASCADE;
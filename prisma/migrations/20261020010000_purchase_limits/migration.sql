@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "category" ADD COLUMN     "limitPeriodDays" INTEGER,
+ADD COLUMN     "maxPerOrder" INTEGER,
+ADD COLUMN     "maxPerPeriod" INTEGER;
+
+-- AlterTable
+ALTER TABLE "medicine" ADD COLUMN     "limitPeriodDays" INTEGER,
+ADD COLUMN     "maxPerOrder" INTEGER,
+ADD COLUMN     "maxPerPeriod" INTEGER;
+
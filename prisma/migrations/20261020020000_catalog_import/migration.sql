@@ -0,0 +1,38 @@
+-- CreateEnum
+CREATE TYPE "ImportJobStatus" AS ENUM ('PENDING', 'PROCESSING', 'COMPLETED', 'FAILED');
+
+-- AlterTable
+ALTER TABLE "medicine" ADD COLUMN     "sku" TEXT;
+
+-- CreateTable
+CREATE TABLE "import_job" (
+    "id" TEXT NOT NULL,
+    "sellerId" TEXT NOT NULL,
+    "format" TEXT NOT NULL,
+    "fileName" TEXT,
+    "dryRun" BOOLEAN NOT NULL DEFAULT false,
+    "status" "ImportJobStatus" NOT NULL DEFAULT 'PENDING',
+    "mapping" JSONB,
+    "totalRows" INTEGER NOT NULL DEFAULT 0,
+    "processedRows" INTEGER NOT NULL DEFAULT 0,
+    "createdCount" INTEGER NOT NULL DEFAULT 0,
+    "updatedCount" INTEGER NOT NULL DEFAULT 0,
+    "failedCount" INTEGER NOT NULL DEFAULT 0,
+    "errors" JSONB,
+    "error" TEXT,
+    "startedAt" TIMESTAMP(3),
+    "finishedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "import_job_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "import_job_sellerId_createdAt_idx" ON "import_job"("sellerId", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "medicine_sellerId_sku_key" ON "medicine"("sellerId", "sku");
+
+-- AddForeignKey
+ALTER TABLE "import_job" ADD CONSTRAINT "import_job_sellerId_fkey" FOREIGN KEY ("sellerId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE CASCADE;
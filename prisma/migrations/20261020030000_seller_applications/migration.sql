@@ -0,0 +1,58 @@
+-- CreateEnum
+CREATE TYPE "SellerApplicationStatus" AS ENUM ('PENDING', 'CHANGES_REQUESTED', 'APPROVED', 'REJECTED', 'SUSPENDED');
+
+-- CreateEnum
+CREATE TYPE "SellerDocumentType" AS ENUM ('TRADE_LICENSE', 'PHARMACY_LICENSE', 'NATIONAL_ID', 'OTHER');
+
+-- AlterTable
+ALTER TABLE "medicine" ADD COLUMN     "licenseSuspended" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "seller_application" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "businessName" TEXT NOT NULL,
+    "tradeLicenseNumber" TEXT NOT NULL,
+    "pharmacyLicenseNumber" TEXT NOT NULL,
+    "licenseExpiresAt" TIMESTAMP(3) NOT NULL,
+    "status" "SellerApplicationStatus" NOT NULL DEFAULT 'PENDING',
+    "reviewedBy" TEXT,
+    "reviewedAt" TIMESTAMP(3),
+    "reviewNote" TEXT,
+    "submittedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "suspendedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "seller_application_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "seller_document" (
+    "id" TEXT NOT NULL,
+    "applicationId" TEXT NOT NULL,
+    "type" "SellerDocumentType" NOT NULL,
+    "fileUrl" TEXT NOT NULL,
+    "fileName" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "seller_document_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "seller_application_userId_key" ON "seller_application"("userId");
+
+-- CreateIndex
+CREATE INDEX "seller_application_status_submittedAt_idx" ON "seller_application"("status", "submittedAt");
+
+-- CreateIndex
+CREATE INDEX "seller_application_licenseExpiresAt_idx" ON "seller_application"("licenseExpiresAt");
+
+-- CreateIndex
+CREATE INDEX "seller_document_applicationId_idx" ON "seller_document"("applicationId");
+
+-- AddForeignKey
+ALTER TABLE "seller_application" ADD CONSTRAINT "seller_application_userId_fkey" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "seller_document" ADD CONSTRAINT "seller_document_applicationId_fkey" FOREIGN KEY ("applicationId") REFERENCES "seller_application"("id") ON DELETE CASCADE ON UPDATE CASCADE;
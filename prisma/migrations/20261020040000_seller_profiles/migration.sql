@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "seller_profile" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "storeName" TEXT NOT NULL,
+    "slug" TEXT NOT NULL,
+    "logoUrl" TEXT,
+    "description" TEXT,
+    "address" TEXT,
+    "operatingHours" JSONB,
+    "rating" DOUBLE PRECISION,
+    "reviewCount" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "seller_profile_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "seller_profile_userId_key" ON "seller_profile"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "seller_profile_slug_key" ON "seller_profile"("slug");
+
+-- AddForeignKey
+ALTER TABLE "seller_profile" ADD CONSTRAINT "seller_profile_userId_fkey" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE CASCADE;
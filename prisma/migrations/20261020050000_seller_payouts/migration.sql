@@ -0,0 +1,96 @@
+-- CreateEnum
+CREATE TYPE "LedgerEntryType" AS ENUM ('SALE', 'REFUND', 'PAYOUT');
+
+-- CreateEnum
+CREATE TYPE "PayoutStatus" AS ENUM ('REQUESTED', 'PAID', 'REJECTED');
+
+-- CreateTable
+CREATE TABLE "commission_rate" (
+    "id" TEXT NOT NULL,
+    "categoryId" TEXT,
+    "sellerId" TEXT,
+    "rate" DOUBLE PRECISION NOT NULL,
+    "updatedBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "commission_rate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "seller_ledger_entry" (
+    "id" TEXT NOT NULL,
+    "sellerId" TEXT NOT NULL,
+    "type" "LedgerEntryType" NOT NULL,
+    "amount" DECIMAL(12,2) NOT NULL,
+    "grossAmount" DECIMAL(12,2),
+    "commission" DECIMAL(12,2),
+    "commissionRate" DOUBLE PRECISION,
+    "orderId" TEXT,
+    "orderItemId" TEXT,
+    "refundId" TEXT,
+    "payoutId" TEXT,
+    "description" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "seller_ledger_entry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "payout_request" (
+    "id" TEXT NOT NULL,
+    "sellerId" TEXT NOT NULL,
+    "amount" DECIMAL(12,2) NOT NULL,
+    "status" "PayoutStatus" NOT NULL DEFAULT 'REQUESTED',
+    "note" TEXT,
+    "reviewedBy" TEXT,
+    "reviewedAt" TIMESTAMP(3),
+    "reviewNote" TEXT,
+    "reference" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "payout_request_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "commission_rate_categoryId_key" ON "commission_rate"("categoryId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "commission_rate_sellerId_key" ON "commission_rate"("sellerId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "seller_ledger_entry_refundId_key" ON "seller_ledger_entry"("refundId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "seller_ledger_entry_payoutId_key" ON "seller_ledger_entry"("payoutId");
+
+-- CreateIndex
+CREATE INDEX "seller_ledger_entry_sellerId_createdAt_idx" ON "seller_ledger_entry"("sellerId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "seller_ledger_entry_orderItemId_idx" ON "seller_ledger_entry"("orderItemId");
+
+-- CreateIndex
+CREATE INDEX "payout_request_sellerId_status_idx" ON "payout_request"("sellerId", "status");
+
+-- CreateIndex
+CREATE INDEX "payout_request_status_createdAt_idx" ON "payout_request"("status", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "commission_rate" ADD CONSTRAINT "commission_rate_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "category"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "commission_rate" ADD CONSTRAINT "commission_rate_sellerId_fkey" FOREIGN KEY ("sellerId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "seller_ledger_entry" ADD CONSTRAINT "seller_ledger_entry_sellerId_fkey" FOREIGN KEY ("sellerId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "seller_ledger_entry" ADD CONSTRAINT "seller_ledger_entry_orderItemId_fkey" FOREIGN KEY ("orderItemId") REFERENCES "order_item"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "seller_ledger_entry" ADD CONSTRAINT "seller_ledger_entry_payoutId_fkey" FOREIGN KEY ("payoutId") REFERENCES "payout_request"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payout_request" ADD CONSTRAINT "payout_request_sellerId_fkey" FOREIGN KEY ("sellerId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE CASCADE;
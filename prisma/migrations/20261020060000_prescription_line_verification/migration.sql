@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "order_item" ADD COLUMN     "prescriptionVerifiedAt" TIMESTAMP(3),
+ADD COLUMN     "prescriptionVerifiedBy" TEXT;
+
+-- Backfill: lines already covered by an approved prescription count as verified by its reviewer
+UPDATE "order_item" oi
+SET "prescriptionVerifiedAt" = COALESCE(p."reviewedAt", p."updatedAt"),
+    "prescriptionVerifiedBy" = p."reviewedBy"
+FROM "prescription" p
+WHERE oi."prescriptionId" = p."id" AND p."status" = 'APPROVED';
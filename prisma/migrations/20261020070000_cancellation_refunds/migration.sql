@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "refund" ADD COLUMN     "reason" TEXT,
+ADD COLUMN     "shipmentId" TEXT,
+ALTER COLUMN "returnRequestId" DROP NOT NULL;
@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "seller_application" ADD COLUMN     "approvedUntil" TIMESTAMP(3);
+
+-- Backfill: sellers from before onboarding are grandfathered for 30 days, then suspended until they renew with their licenses
+INSERT INTO "seller_application" ("id", "userId", "businessName", "tradeLicenseNumber", "pharmacyLicenseNumber", "licenseExpiresAt", "status", "reviewedAt", "reviewNote", "submittedAt", "createdAt", "updatedAt")
+SELECT gen_random_uuid()::text, u."id", COALESCE(sp."storeName", u."name"), 'UNVERIFIED', 'UNVERIFIED',
+    CURRENT_TIMESTAMP + INTERVAL '30 days', 'APPROVED', CURRENT_TIMESTAMP,
+    'Existing seller: submit your licenses and documents within 30 days to keep listing medicines',
+    CURRENT_TIMESTAMP, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP
+FROM "user" u
+LEFT JOIN "seller_profile" sp ON sp."userId" = u."id"
+WHERE u."role" = 'SELLER'
+    AND NOT EXISTS (SELECT 1 FROM "seller_application" a WHERE a."userId" = u."id");
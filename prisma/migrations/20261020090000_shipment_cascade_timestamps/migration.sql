@@ -0,0 +1,20 @@
+-- Backfill: shipments moved by an admin order status change were left without shippedAt / deliveredAt
+UPDATE "shipment" s
+SET "shippedAt" = h."changedAt"
+FROM (
+    SELECT "shipmentId", MIN("changedAt") AS "changedAt"
+    FROM "order_status_history"
+    WHERE "status" = 'SHIPPED' AND "shipmentId" IS NOT NULL
+    GROUP BY "shipmentId"
+) h
+WHERE s."id" = h."shipmentId" AND s."shippedAt" IS NULL;
+
+UPDATE "shipment" s
+SET "deliveredAt" = h."changedAt"
+FROM (
+    SELECT "shipmentId", MIN("changedAt") AS "changedAt"
+    FROM "order_status_history"
+    WHERE "status" = 'DELIVERED' AND "shipmentId" IS NOT NULL
+    GROUP BY "shipmentId"
+) h
+WHERE s."id" = h."shipmentId" AND s."deliveredAt" IS NULL;
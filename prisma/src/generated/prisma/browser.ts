@@ -17,6 +17,21 @@ import * as Prisma from './internal/prismaNamespaceBrowser'
 export { Prisma }
 export * as $Enums from './enums'
 export * from './enums';
+/**
+ * Model Address
+ * 
+ */
+export type Address = Prisma.AddressModel
+/**
+ * Model MedicineBatch
+ * 
+ */
+export type MedicineBatch = Prisma.MedicineBatchModel
+/**
+ * Model OrderItemBatch
+ * 
+ */
+export type OrderItemBatch = Prisma.OrderItemBatchModel
 /**
  * Model Cart
  * 
@@ -27,16 +42,56 @@ export type Cart = Prisma.CartModel
  * 
  */
 export type CartItem = Prisma.CartItemModel
+/**
+ * Model ImportJob
+ * 
+ */
+export type ImportJob = Prisma.ImportJobModel
 /**
  * Model Category
  * 
  */
 export type Category = Prisma.CategoryModel
+/**
+ * Model Coupon
+ * 
+ */
+export type Coupon = Prisma.CouponModel
+/**
+ * Model CartCoupon
+ * 
+ */
+export type CartCoupon = Prisma.CartCouponModel
+/**
+ * Model CouponRedemption
+ * 
+ */
+export type CouponRedemption = Prisma.CouponRedemptionModel
+/**
+ * Model ExchangeRate
+ * 
+ */
+export type ExchangeRate = Prisma.ExchangeRateModel
+/**
+ * Model DrugInteraction
+ * 
+ */
+export type DrugInteraction = Prisma.DrugInteractionModel
+/**
+ * Model InteractionOverride
+ * 
+ */
+export type InteractionOverride = Prisma.InteractionOverrideModel
 /**
  * Model Medicine
  * 
  */
 export type Medicine = Prisma.MedicineModel
+/**
+ * Model MedicineIngredient
+ * 
+ */
+export type MedicineIngredient = Prisma.MedicineIngredientModel
 /**
  * Model Order
  * 
@@ -47,16 +102,96 @@ export type Order = Prisma.OrderModel
  * 
  */
 export type OrderItem = Prisma.OrderItemModel
+/**
+ * Model Shipment
+ * 
+ */
+export type Shipment = Prisma.ShipmentModel
 /**
  * Model OrderStatusHistory
  * 
  */
 export type OrderStatusHistory = Prisma.OrderStatusHistoryModel
+/**
+ * Model Payment
+ * 
+ */
+export type Payment = Prisma.PaymentModel
+/**
+ * Model PaymentWebhookEvent
+ * 
+ */
+export type PaymentWebhookEvent = Prisma.PaymentWebhookEventModel
+/**
+ * Model CommissionRate
+ * 
+ */
+export type CommissionRate = Prisma.CommissionRateModel
+/**
+ * Model SellerLedgerEntry
+ * 
+ */
+export type SellerLedgerEntry = Prisma.SellerLedgerEntryModel
+/**
+ * Model PayoutRequest
+ * 
+ */
+export type PayoutRequest = Prisma.PayoutRequestModel
+/**
+ * Model Prescription
+ * 
+ */
+export type Prescription = Prisma.PrescriptionModel
+/**
+ * Model Recall
+ * 
+ */
+export type Recall = Prisma.RecallModel
+/**
+ * Model RecallNotice
+ * 
+ */
+export type RecallNotice = Prisma.RecallNoticeModel
+/**
+ * Model ReturnRequest
+ * 
+ */
+export type ReturnRequest = Prisma.ReturnRequestModel
+/**
+ * Model Refund
+ * 
+ */
+export type Refund = Prisma.RefundModel
 /**
  * Model Review
  * 
  */
 export type Review = Prisma.ReviewModel
+/**
+ * Model SellerApplication
+ * 
+ */
+export type SellerApplication = Prisma.SellerApplicationModel
+/**
+ * Model SellerDocument
+ * 
+ */
+export type SellerDocument = Prisma.SellerDocumentModel
+/**
+ * Model SellerProfile
+ * 
+ */
+export type SellerProfile = Prisma.SellerProfileModel
+/**
+ * Model ShippingZone
+ * 
+ */
+export type ShippingZone = Prisma.ShippingZoneModel
+/**
+ * Model StockMovement
+ * 
+ */
+export type StockMovement = Prisma.StockMovementModel
 /**
  * Model User
  * 
@@ -29,8 +29,8 @@ export * from "./enums"
  * @example
  * ```
  * const prisma = new PrismaClient()
- * // Fetch zero or more Carts
- * const carts = await prisma.cart.findMany()
+ * // Fetch zero or more Addresses
+ * const addresses = await prisma.address.findMany()
  * ```
  * 
  * Read more in our [docs](https://pris.ly/d/client).
@@ -39,6 +39,21 @@ export const PrismaClient = $Class.getPrismaClientClass()
 export type PrismaClient<LogOpts extends Prisma.LogLevel = never, OmitOpts extends Prisma.PrismaClientOptions["omit"] = Prisma.PrismaClientOptions["omit"], ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = $Class.PrismaClient<LogOpts, OmitOpts, ExtArgs>
 export { Prisma }
 
+/**
+ * Model Address
+ * 
+ */
+export type Address = Prisma.AddressModel
+/**
+ * Model MedicineBatch
+ * 
+ */
+export type MedicineBatch = Prisma.MedicineBatchModel
+/**
+ * Model OrderItemBatch
+ * 
+ */
+export type OrderItemBatch = Prisma.OrderItemBatchModel
 /**
  * Model Cart
  * 
@@ -49,16 +64,56 @@ export type Cart = Prisma.CartModel
  * 
  */
 export type CartItem = Prisma.CartItemModel
+/**
+ * Model ImportJob
+ * 
+ */
+export type ImportJob = Prisma.ImportJobModel
 /**
  * Model Category
  * 
  */
 export type Category = Prisma.CategoryModel
+/**
+ * Model Coupon
+ * 
+ */
+export type Coupon = Prisma.CouponModel
+/**
+ * Model CartCoupon
+ * 
+ */
+export type CartCoupon = Prisma.CartCouponModel
+/**
+ * Model CouponRedemption
+ * 
+ */
+export type CouponRedemption = Prisma.CouponRedemptionModel
+/**
+ * Model ExchangeRate
+ * 
+ */
+export type ExchangeRate = Prisma.ExchangeRateModel
+/**
+ * Model DrugInteraction
+ * 
+ */
+export type DrugInteraction = Prisma.DrugInteractionModel
+/**
+ * Model InteractionOverride
+ * 
+ */
+export type InteractionOverride = Prisma.InteractionOverrideModel
 /**
  * Model Medicine
  * 
  */
 export type Medicine = Prisma.MedicineModel
+/**
+ * Model MedicineIngredient
+ * 
+ */
+export type MedicineIngredient = Prisma.MedicineIngredientModel
 /**
  * Model Order
  * 
@@ -69,16 +124,96 @@ export type Order = Prisma.OrderModel
  * 
  */
 export type OrderItem = Prisma.OrderItemModel
+/**
+ * Model Shipment
+ * 
+ */
+export type Shipment = Prisma.ShipmentModel
 /**
  * Model OrderStatusHistory
  * 
  */
 export type OrderStatusHistory = Prisma.OrderStatusHistoryModel
+/**
+ * Model Payment
+ * 
+ */
+export type Payment = Prisma.PaymentModel
+/**
+ * Model PaymentWebhookEvent
+ * 
+ */
+export type PaymentWebhookEvent = Prisma.PaymentWebhookEventModel
+/**
+ * Model CommissionRate
+ * 
+ */
+export type CommissionRate = Prisma.CommissionRateModel
+/**
+ * Model SellerLedgerEntry
+ * 
+ */
+export type SellerLedgerEntry = Prisma.SellerLedgerEntryModel
+/**
+ * Model PayoutRequest
+ * 
+ */
+export type PayoutRequest = Prisma.PayoutRequestModel
+/**
+ * Model Prescription
+ * 
+ */
+export type Prescription = Prisma.PrescriptionModel
+/**
+ * Model Recall
+ * 
+ */
+export type Recall = Prisma.RecallModel
+/**
+ * Model RecallNotice
+ * 
+ */
+export type RecallNotice = Prisma.RecallNoticeModel
+/**
+ * Model ReturnRequest
+ * 
+ */
+export type ReturnRequest = Prisma.ReturnRequestModel
+/**
+ * Model Refund
+ * 
+ */
+export type Refund = Prisma.RefundModel
 /**
  * Model Review
  * 
  */
 export type Review = Prisma.ReviewModel
+/**
+ * Model SellerApplication
+ * 
+ */
+export type SellerApplication = Prisma.SellerApplicationModel
+/**
+ * Model SellerDocument
+ * 
+ */
+export type SellerDocument = Prisma.SellerDocumentModel
+/**
+ * Model SellerProfile
+ * 
+ */
+export type SellerProfile = Prisma.SellerProfileModel
+/**
+ * Model ShippingZone
+ * 
+ */
+export type ShippingZone = Prisma.ShippingZoneModel
+/**
+ * Model StockMovement
+ * 
+ */
+export type StockMovement = Prisma.StockMovementModel
 /**
  * Model User
  * 
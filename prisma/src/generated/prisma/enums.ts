@@ -9,11 +9,90 @@
 * 🟢 You can import this file directly.
 */
 
+export const ImportJobStatus = {
+  PENDING: 'PENDING',
+  PROCESSING: 'PROCESSING',
+  COMPLETED: 'COMPLETED',
+  FAILED: 'FAILED'
+} as const
+
+export type ImportJobStatus = (typeof ImportJobStatus)[keyof typeof ImportJobStatus]
+
+
+export const CouponType = {
+  PERCENTAGE: 'PERCENTAGE',
+  FIXED: 'FIXED',
+  FREE_SHIPPING: 'FREE_SHIPPING'
+} as const
+
+export type CouponType = (typeof CouponType)[keyof typeof CouponType]
+
+
+export const CouponScope = {
+  ORDER: 'ORDER',
+  CATEGORY: 'CATEGORY',
+  SELLER: 'SELLER'
+} as const
+
+export type CouponScope = (typeof CouponScope)[keyof typeof CouponScope]
+
+
+export const InteractionSeverity = {
+  MINOR: 'MINOR',
+  MODERATE: 'MODERATE',
+  MAJOR: 'MAJOR',
+  CONTRAINDICATED: 'CONTRAINDICATED'
+} as const
+
+export type InteractionSeverity = (typeof InteractionSeverity)[keyof typeof InteractionSeverity]
+
+
+export const DosageForm = {
+  TABLET: 'TABLET',
+  CAPSULE: 'CAPSULE',
+  SYRUP: 'SYRUP',
+  SUSPENSION: 'SUSPENSION',
+  INJECTION: 'INJECTION',
+  CREAM: 'CREAM',
+  OINTMENT: 'OINTMENT',
+  GEL: 'GEL',
+  DROPS: 'DROPS',
+  INHALER: 'INHALER',
+  POWDER: 'POWDER',
+  SUPPOSITORY: 'SUPPOSITORY',
+  OTHER: 'OTHER'
+} as const
+
+export type DosageForm = (typeof DosageForm)[keyof typeof DosageForm]
+
+
+export const AdministrationRoute = {
+  ORAL: 'ORAL',
+  SUBLINGUAL: 'SUBLINGUAL',
+  TOPICAL: 'TOPICAL',
+  TRANSDERMAL: 'TRANSDERMAL',
+  INTRAVENOUS: 'INTRAVENOUS',
+  INTRAMUSCULAR: 'INTRAMUSCULAR',
+  SUBCUTANEOUS: 'SUBCUTANEOUS',
+  INHALATION: 'INHALATION',
+  NASAL: 'NASAL',
+  OPHTHALMIC: 'OPHTHALMIC',
+  OTIC: 'OTIC',
+  RECTAL: 'RECTAL',
+  VAGINAL: 'VAGINAL',
+  OTHER: 'OTHER'
+} as const
+
+export type AdministrationRoute = (typeof AdministrationRoute)[keyof typeof AdministrationRoute]
+
+
 export const OrderStatus = {
+  PENDING_VERIFICATION: 'PENDING_VERIFICATION',
   PLACED: 'PLACED',
   CANCELLED: 'CANCELLED',
   CONFIRMS: 'CONFIRMS',
   PROCESSING: 'PROCESSING',
+  PARTIALLY_SHIPPED: 'PARTIALLY_SHIPPED',
   SHIPPED: 'SHIPPED',
   DELIVERED: 'DELIVERED'
 } as const
@@ -21,6 +100,149 @@ export const OrderStatus = {
 export type OrderStatus = (typeof OrderStatus)[keyof typeof OrderStatus]
 
 
+export const PaymentProvider = {
+  COD: 'COD',
+  MOCK: 'MOCK',
+  STRIPE: 'STRIPE',
+  SSLCOMMERZ: 'SSLCOMMERZ'
+} as const
+
+export type PaymentProvider = (typeof PaymentProvider)[keyof typeof PaymentProvider]
+
+
+export const PaymentStatus = {
+  PENDING: 'PENDING',
+  SUCCEEDED: 'SUCCEEDED',
+  FAILED: 'FAILED',
+  CANCELLED: 'CANCELLED',
+  REFUNDED: 'REFUNDED'
+} as const
+
+export type PaymentStatus = (typeof PaymentStatus)[keyof typeof PaymentStatus]
+
+
+export const LedgerEntryType = {
+  SALE: 'SALE',
+  REFUND: 'REFUND',
+  PAYOUT: 'PAYOUT'
+} as const
+
+export type LedgerEntryType = (typeof LedgerEntryType)[keyof typeof LedgerEntryType]
+
+
+export const PayoutStatus = {
+  REQUESTED: 'REQUESTED',
+  PAID: 'PAID',
+  REJECTED: 'REJECTED'
+} as const
+
+export type PayoutStatus = (typeof PayoutStatus)[keyof typeof PayoutStatus]
+
+
+export const PrescriptionStatus = {
+  PENDING: 'PENDING',
+  APPROVED: 'APPROVED',
+  REJECTED: 'REJECTED'
+} as const
+
+export type PrescriptionStatus = (typeof PrescriptionStatus)[keyof typeof PrescriptionStatus]
+
+
+export const PrescriptionFileType = {
+  IMAGE: 'IMAGE',
+  PDF: 'PDF'
+} as const
+
+export type PrescriptionFileType = (typeof PrescriptionFileType)[keyof typeof PrescriptionFileType]
+
+
+export const RecallSeverity = {
+  CLASS_I: 'CLASS_I',
+  CLASS_II: 'CLASS_II',
+  CLASS_III: 'CLASS_III'
+} as const
+
+export type RecallSeverity = (typeof RecallSeverity)[keyof typeof RecallSeverity]
+
+
+export const RecallStatus = {
+  ACTIVE: 'ACTIVE',
+  CLOSED: 'CLOSED'
+} as const
+
+export type RecallStatus = (typeof RecallStatus)[keyof typeof RecallStatus]
+
+
+export const ReturnStatus = {
+  REQUESTED: 'REQUESTED',
+  APPROVED: 'APPROVED',
+  REJECTED: 'REJECTED',
+  REFUNDED: 'REFUNDED'
+} as const
+
+export type ReturnStatus = (typeof ReturnStatus)[keyof typeof ReturnStatus]
+
+
+export const ReturnCondition = {
+  RESELLABLE: 'RESELLABLE',
+  DAMAGED: 'DAMAGED'
+} as const
+
+export type ReturnCondition = (typeof ReturnCondition)[keyof typeof ReturnCondition]
+
+
+export const RefundStatus = {
+  PENDING: 'PENDING',
+  COMPLETED: 'COMPLETED'
+} as const
+
+export type RefundStatus = (typeof RefundStatus)[keyof typeof RefundStatus]
+
+
+export const SellerApplicationStatus = {
+  PENDING: 'PENDING',
+  CHANGES_REQUESTED: 'CHANGES_REQUESTED',
+  APPROVED: 'APPROVED',
+  REJECTED: 'REJECTED',
+  SUSPENDED: 'SUSPENDED'
+} as const
+
+export type SellerApplicationStatus = (typeof SellerApplicationStatus)[keyof typeof SellerApplicationStatus]
+
+
+export const SellerDocumentType = {
+  TRADE_LICENSE: 'TRADE_LICENSE',
+  PHARMACY_LICENSE: 'PHARMACY_LICENSE',
+  NATIONAL_ID: 'NATIONAL_ID',
+  OTHER: 'OTHER'
+} as const
+
+export type SellerDocumentType = (typeof SellerDocumentType)[keyof typeof SellerDocumentType]
+
+
+export const ShippingFeeType = {
+  FLAT: 'FLAT',
+  WEIGHT_BASED: 'WEIGHT_BASED'
+} as const
+
+export type ShippingFeeType = (typeof ShippingFeeType)[keyof typeof ShippingFeeType]
+
+
+export const StockMovementType = {
+  INITIAL: 'INITIAL',
+  RECEIVED: 'RECEIVED',
+  ORDER_PLACED: 'ORDER_PLACED',
+  ORDER_CANCELLED: 'ORDER_CANCELLED',
+  RETURNED: 'RETURNED',
+  ADJUSTMENT: 'ADJUSTMENT',
+  IMPORT: 'IMPORT',
+  EXPIRY_WRITE_OFF: 'EXPIRY_WRITE_OFF',
+  RECALLED: 'RECALLED'
+} as const
+
+export type StockMovementType = (typeof StockMovementType)[keyof typeof StockMovementType]
+
+
 export const UserRole = {
   CUSTOMER: 'CUSTOMER',
   SELLER: 'SELLER',
@@ -20,7 +20,7 @@ const config: runtime.GetPrismaClientConfig = {
   "clientVersion": "7.3.0",
   "engineVersion": "9d6ad21cbbceab97458517b147a6a09ff43aa735",
   "activeProvider": "postgresql",
-  "inlineSchema": "model Cart {\n  id        String     @id @default(uuid())\n  userId    String     @unique\n  user      User       @relation(fields: [userId], references: [id], onDelete: Cascade)\n  items     CartItem[]\n  createdAt DateTime   @default(now())\n  updatedAt DateTime   @updatedAt\n\n  @@map(\"cart\")\n}\n\nmodel CartItem {\n  id         String   @id @default(uuid())\n  cartId     String\n  medicineId String\n  quantity   Int\n  unitPrice  Float\n  createdAt  DateTime @default(now())\n  updatedAt  DateTime @updatedAt\n\n  cart     Cart     @relation(fields: [cartId], references: [id], onDelete: Cascade)\n  medicine Medicine @relation(fields: [medicineId], references: [id])\n\n  @@unique([cartId, medicineId])\n  @@index([cartId])\n  @@index([medicineId])\n  @@map(\"cart_item\")\n}\n\nmodel Category {\n  id                     String   @id @default(uuid())\n  name                   String   @unique\n  slug                   String?  @unique\n  description            String?\n  isPrescriptionRequired Boolean? @default(false)\n  createdAt              DateTime @default(now())\n  updatedAt              DateTime @updatedAt\n\n  medicines Medicine[]\n\n  @@map(\"category\")\n}\n\nmodel Medicine {\n  id           String   @id @default(uuid())\n  name         String\n  genericName  String?\n  description  String?\n  price        Float\n  stock        Int\n  manufacturer String?\n  imageUrl     String?\n  isFeatured   Boolean  @default(false)\n  isActive     Boolean  @default(true)\n  createdAt    DateTime @default(now())\n  updatedAt    DateTime @updatedAt\n\n  categoryId String?\n  category   Category?   @relation(fields: [categoryId], references: [id])\n  sellerId   String?\n  seller     User?       @relation(\"SellerMedicines\", fields: [sellerId], references: [id], onDelete: Cascade)\n  cartItems  CartItem[]\n  orderItems OrderItem[]\n  reviews    Review[]\n\n  @@index([name])\n  @@index([categoryId])\n  @@map(\"medicine\")\n}\n\nenum OrderStatus {\n  PLACED\n  CANCELLED\n  CONFIRMS\n  PROCESSING\n  SHIPPED\n  DELIVERED\n}\n\nmodel Order {\n  id              String      @id @default(uuid())\n  userId          String\n  total           Float\n  status          OrderStatus @default(PLACED)\n  shippingName    String?\n  shippingPhone   String\n  shippingAddress String\n  createdAt       DateTime    @default(now())\n  updatedAt       DateTime    @updatedAt\n\n  user          User                 @relation(fields: [userId], references: [id], onDelete: Cascade)\n  items         OrderItem[]\n  statusHistory OrderStatusHistory[]\n\n  @@index([userId])\n  @@index([status])\n  @@map(\"order\")\n}\n\nmodel OrderItem {\n  id              String      @id @default(uuid())\n  orderId         String\n  medicineId      String\n  quantity        Int\n  unitPrice       Float\n  orderItemStatus OrderStatus @default(PLACED)\n  createdAt       DateTime    @default(now())\n  updatedAt       DateTime    @updatedAt\n\n  order    Order    @relation(fields: [orderId], references: [id], onDelete: Cascade)\n  medicine Medicine @relation(fields: [medicineId], references: [id])\n\n  @@index([orderId])\n  @@index([medicineId])\n  @@map(\"order_item\")\n}\n\nmodel OrderStatusHistory {\n  id        String      @id @default(uuid())\n  orderId   String\n  status    OrderStatus\n  changedAt DateTime    @default(now())\n  changedBy String? // কে change করেছে (admin/seller id)\n  notes     String? // optional notes\n  createdAt DateTime    @default(now())\n\n  order Order @relation(fields: [orderId], references: [id], onDelete: Cascade)\n\n  @@index([orderId])\n  @@index([status])\n  @@map(\"order_status_history\")\n}\n\nmodel Review {\n  id         String   @id @default(uuid())\n  userId     String\n  medicineId String\n  rating     Int\n  comment    String?\n  createdAt  DateTime @default(now())\n  updatedAt  DateTime @updatedAt\n\n  user     User     @relation(fields: [userId], references: [id], onDelete: Cascade)\n  medicine Medicine @relation(fields: [medicineId], references: [id], onDelete: Cascade)\n\n  @@unique([userId, medicineId])\n  @@index([medicineId])\n  @@map(\"review\")\n}\n\n// This is your Prisma schema file\n// https://pris.ly/d/prisma-schema\n\ngenerator client {\n  provider = \"prisma-client\"\n  output   = \"../src/generated/prisma\"\n}\n\ndatasource db {\n  provider = \"postgresql\"\n}\n\nenum UserRole {\n  CUSTOMER\n  SELLER\n  ADMIN\n}\n\nenum UserStatus {\n  UNBAN\n  BAN\n}\n\nmodel User {\n  id            String     @id @default(uuid())\n  name          String\n  email         String     @unique\n  password      String?\n  emailVerified Boolean    @default(false)\n  image         String?\n  phone         String?\n  role          UserRole   @default(CUSTOMER)\n  status        UserStatus @default(UNBAN)\n  createdAt     DateTime   @default(now())\n  updatedAt     DateTime   @updatedAt\n\n  // relations\n  sessions        Session[]\n  accounts        Account[]\n  cart            Cart?\n  sellerMedicines Medicine[] @relation(\"SellerMedicines\")\n  orders          Order[]\n  reviews         Review[]\n\n  @@map(\"user\")\n}\n\nmodel Session {\n  id        String   @id @default(uuid())\n  expiresAt DateTime\n  token     String   @unique\n  ipAddress String?\n  userAgent String?\n  createdAt DateTime @default(now())\n  updatedAt DateTime @updatedAt\n\n  userId String\n  user   User   @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  @@index([userId])\n  @@map(\"session\")\n}\n\nmodel Account {\n  id                    String    @id @default(uuid())\n  accountId             String\n  providerId            String\n  accessToken           String?\n  refreshToken          String?\n  idToken               String?\n  accessTokenExpiresAt  DateTime?\n  refreshTokenExpiresAt DateTime?\n  scope                 String?\n  password              String?\n  createdAt             DateTime  @default(now())\n  updatedAt             DateTime  @updatedAt\n\n  userId String\n  user   User   @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  @@index([userId])\n  @@map(\"account\")\n}\n\nmodel Verification {\n  id         String   @id @default(uuid())\n  identifier String\n  value      String\n  expiresAt  DateTime\n  createdAt  DateTime @default(now())\n  updatedAt  DateTime @updatedAt\n\n  @@index([identifier])\n  @@map(\"verification\")\n}\n",
+  "inlineSchema": "// Customer address book; orders keep a snapshot of the address used\nmodel Address {\n  id            String   @id @default(uuid())\n  userId        String\n  label         String? // e.g. Home, Office\n  recipientName String\n  phone         String\n  division      String\n  district      String\n  upazila       String?\n  street        String\n  postalCode    String?\n  latitude      Float?\n  longitude     Float?\n  isDefault     Boolean  @default(false)\n  createdAt     DateTime @default(now())\n  updatedAt     DateTime @updatedAt\n\n  user   User    @relation(fields: [userId], references: [id], onDelete: Cascade)\n  orders Order[]\n\n  @@index([userId])\n  @@map(\"address\")\n}\n\n// Lot of a medicine received from a supplier; sellable stock is held per batch\nmodel MedicineBatch {\n  id              String    @id @default(uuid())\n  medicineId      String\n  batchNumber     String\n  manufactureDate DateTime?\n  expiryDate      DateTime? // null only for stock recorded without a batch (\"UNBATCHED\")\n  quantity        Int       @default(0) // units on hand\n  purchaseCost    Decimal?  @db.Decimal(12, 2) // per unit\n  recallId        String? // set when the lot is recalled; recalled lots are never sellable\n  createdAt       DateTime  @default(now())\n  updatedAt       DateTime  @updatedAt\n\n  medicine       Medicine         @relation(fields: [medicineId], references: [id], onDelete: Cascade)\n  recall         Recall?          @relation(fields: [recallId], references: [id], onDelete: SetNull)\n  allocations    OrderItemBatch[]\n  stockMovements StockMovement[]\n\n  @@unique([medicineId, batchNumber])\n  @@index([expiryDate])\n  @@index([recallId])\n  @@map(\"medicine_batch\")\n}\n\n// Which batch(es) an order item was picked from (FEFO), for recall traceability\nmodel OrderItemBatch {\n  id          String   @id @default(uuid())\n  orderItemId String\n  batchId     String\n  quantity    Int\n  createdAt   DateTime @default(now())\n\n  orderItem OrderItem     @relation(fields: [orderItemId], references: [id], onDelete: Cascade)\n  batch     MedicineBatch @relation(fields: [batchId], references: [id])\n\n  @@unique([orderItemId, batchId])\n  @@index([batchId])\n  @@map(\"order_item_batch\")\n}\n\nmodel Cart {\n  id        String       @id @default(uuid())\n  userId    String       @unique\n  user      User         @relation(fields: [userId], references: [id], onDelete: Cascade)\n  items     CartItem[]\n  coupons   CartCoupon[]\n  createdAt DateTime     @default(now())\n  updatedAt DateTime     @updatedAt\n\n  @@map(\"cart\")\n}\n\nmodel CartItem {\n  id             String   @id @default(uuid())\n  cartId         String\n  medicineId     String\n  quantity       Int\n  unitPrice      Decimal  @db.Decimal(12, 2)\n  prescriptionId String?\n  createdAt      DateTime @default(now())\n  updatedAt      DateTime @updatedAt\n\n  cart         Cart          @relation(fields: [cartId], references: [id], onDelete: Cascade)\n  medicine     Medicine      @relation(fields: [medicineId], references: [id])\n  prescription Prescription? @relation(fields: [prescriptionId], references: [id], onDelete: SetNull)\n\n  @@unique([cartId, medicineId])\n  @@index([cartId])\n  @@index([medicineId])\n  @@map(\"cart_item\")\n}\n\nenum ImportJobStatus {\n  PENDING\n  PROCESSING\n  COMPLETED\n  FAILED\n}\n\n// Bulk medicine import (CSV / XLSX) queued for the import worker; rows are upserted by seller SKU\nmodel ImportJob {\n  id            String          @id @default(uuid())\n  sellerId      String\n  format        String // csv | xlsx\n  fileName      String?\n  dryRun        Boolean         @default(false) // validate and report only\n  status        ImportJobStatus @default(PENDING)\n  mapping       Json? // file column -> medicine field\n  totalRows     Int             @default(0)\n  processedRows Int             @default(0)\n  createdCount  Int             @default(0)\n  updatedCount  Int             @default(0)\n  failedCount   Int             @default(0)\n  errors        Json? // [{ row, sku, message }]\n  error         String? // why the whole job failed\n  startedAt     DateTime?\n  finishedAt    DateTime?\n  createdAt     DateTime        @default(now())\n  updatedAt     DateTime        @updatedAt\n\n  // mapped rows waiting for the worker; cleared once the job finishes\n  rows Json?\n\n  seller User @relation(fields: [sellerId], references: [id], onDelete: Cascade)\n\n  @@index([sellerId, createdAt])\n  @@map(\"import_job\")\n}\n\nmodel Category {\n  id                     String   @id @default(uuid())\n  name                   String   @unique\n  slug                   String?  @unique\n  description            String?\n  isPrescriptionRequired Boolean? @default(false)\n  vatRate                Float    @default(0) // VAT % charged on medicines in this category\n  createdAt              DateTime @default(now())\n  updatedAt              DateTime @updatedAt\n\n  // per-customer purchase limits on all medicines of the category combined; null = no limit\n  maxPerOrder     Int?\n  maxPerPeriod    Int?\n  limitPeriodDays Int?\n\n  medicines Medicine[]\n  coupons   Coupon[]\n\n  commissionRate CommissionRate? // overrides the global commission rate\n\n  @@index([name(ops: raw(\"gin_trgm_ops\"))], map: \"category_name_trgm_idx\", type: Gin)\n  @@map(\"category\")\n}\n\nenum CouponType {\n  PERCENTAGE\n  FIXED\n  FREE_SHIPPING\n}\n\n// What part of the cart a coupon discounts\nenum CouponScope {\n  ORDER\n  CATEGORY\n  SELLER\n}\n\nmodel Coupon {\n  id            String      @id @default(uuid())\n  code          String      @unique // stored upper-case\n  description   String?\n  type          CouponType\n  value         Decimal     @default(0) @db.Decimal(12, 2) // percent for PERCENTAGE, amount for FIXED\n  maxDiscount   Decimal?    @db.Decimal(12, 2) // cap for PERCENTAGE\n  scope         CouponScope @default(ORDER)\n  categoryId    String?\n  sellerId      String?\n  minOrderValue Decimal?    @db.Decimal(12, 2) // checked against the eligible subtotal\n  usageLimit    Int? // total redemptions\n  perUserLimit  Int?\n  usedCount     Int         @default(0)\n  stackable     Boolean     @default(false) // non-stackable coupons must be used alone\n  startsAt      DateTime?\n  endsAt        DateTime?\n  isActive      Boolean     @default(true)\n  createdBy     String?\n  createdAt     DateTime    @default(now())\n  updatedAt     DateTime    @updatedAt\n\n  category    Category?          @relation(fields: [categoryId], references: [id], onDelete: Cascade)\n  seller      User?              @relation(\"SellerCoupons\", fields: [sellerId], references: [id], onDelete: Cascade)\n  carts       CartCoupon[]\n  redemptions CouponRedemption[]\n\n  @@index([sellerId])\n  @@index([categoryId])\n  @@map(\"coupon\")\n}\n\n// Coupons applied to a cart, evaluated on every getCart and again at checkout\nmodel CartCoupon {\n  cartId    String\n  couponId  String\n  createdAt DateTime @default(now())\n\n  cart   Cart   @relation(fields: [cartId], references: [id], onDelete: Cascade)\n  coupon Coupon @relation(fields: [couponId], references: [id], onDelete: Cascade)\n\n  @@id([cartId, couponId])\n  @@map(\"cart_coupon\")\n}\n\n// Discount granted to an order by one coupon\nmodel CouponRedemption {\n  id        String   @id @default(uuid())\n  couponId  String\n  orderId   String\n  userId    String\n  code      String\n  discount  Decimal  @db.Decimal(12, 2)\n  createdAt DateTime @default(now())\n\n  coupon Coupon @relation(fields: [couponId], references: [id], onDelete: Cascade)\n  order  Order  @relation(fields: [orderId], references: [id], onDelete: Cascade)\n\n  @@unique([couponId, orderId])\n  @@index([couponId, userId])\n  @@index([orderId])\n  @@map(\"coupon_redemption\")\n}\n\n// Admin-managed conversion rate: 1 baseCurrency = rate quoteCurrency, valid from effectiveFrom\nmodel ExchangeRate {\n  id            String   @id @default(uuid())\n  baseCurrency  String\n  quoteCurrency String\n  rate          Decimal  @db.Decimal(18, 8)\n  effectiveFrom DateTime @default(now())\n  createdBy     String?\n  createdAt     DateTime @default(now())\n\n  @@unique([baseCurrency, quoteCurrency, effectiveFrom])\n  @@index([baseCurrency, quoteCurrency, effectiveFrom])\n  @@map(\"exchange_rate\")\n}\n\nenum InteractionSeverity {\n  MINOR\n  MODERATE\n  MAJOR\n  CONTRAINDICATED\n}\n\n// Known interaction between two active ingredients (stored lower-case, ingredientA < ingredientB)\nmodel DrugInteraction {\n  id          String              @id @default(uuid())\n  ingredientA String\n  ingredientB String\n  severity    InteractionSeverity\n  description String\n  createdBy   String?\n  createdAt   DateTime            @default(now())\n  updatedAt   DateTime            @updatedAt\n\n  overrides InteractionOverride[]\n\n  @@unique([ingredientA, ingredientB])\n  @@index([ingredientB])\n  @@map(\"drug_interaction\")\n}\n\n// Pharmacist approval letting a customer check out despite a contraindicated interaction; used by one order\nmodel InteractionOverride {\n  id            String   @id @default(uuid())\n  interactionId String\n  userId        String // customer\n  approvedBy    String // admin / seller pharmacist\n  reason        String\n  orderId       String? // set when consumed at checkout\n  createdAt     DateTime @default(now())\n\n  interaction DrugInteraction @relation(fields: [interactionId], references: [id], onDelete: Cascade)\n  user        User            @relation(fields: [userId], references: [id], onDelete: Cascade)\n  order       Order?          @relation(fields: [orderId], references: [id], onDelete: SetNull)\n\n  @@index([userId, interactionId])\n  @@index([orderId])\n  @@map(\"interaction_override\")\n}\n\nenum DosageForm {\n  TABLET\n  CAPSULE\n  SYRUP\n  SUSPENSION\n  INJECTION\n  CREAM\n  OINTMENT\n  GEL\n  DROPS\n  INHALER\n  POWDER\n  SUPPOSITORY\n  OTHER\n}\n\nenum AdministrationRoute {\n  ORAL\n  SUBLINGUAL\n  TOPICAL\n  TRANSDERMAL\n  INTRAVENOUS\n  INTRAMUSCULAR\n  SUBCUTANEOUS\n  INHALATION\n  NASAL\n  OPHTHALMIC\n  OTIC\n  RECTAL\n  VAGINAL\n  OTHER\n}\n\nmodel Medicine {\n  id                String    @id @default(uuid())\n  name              String\n  genericName       String?\n  description       String?\n  price             Decimal   @db.Decimal(12, 2)\n  stock             Int\n  stockDrift        Int       @default(0) // stock minus ledger balance at last reconciliation\n  stockReconciledAt DateTime?\n  manufacturer      String?\n  imageUrl          String?\n  weightGrams       Int? // shipping weight per unit\n  isFeatured        Boolean   @default(false)\n  isActive          Boolean   @default(true)\n  licenseSuspended  Boolean   @default(false) // deactivated because the seller's license lapsed\n  createdAt         DateTime  @default(now())\n  updatedAt         DateTime  @updatedAt\n\n  // structured drug information\n  dosageForm         DosageForm?\n  strength           Float? // e.g. 500 (with strengthUnit \"mg\")\n  strengthUnit       String? // lower-case: mg, mcg, g, ml, iu, %, mg/5ml ...\n  packSize           Int? // units per pack, e.g. 10 tablets\n  route              AdministrationRoute?\n  storageConditions  String?\n  registrationNumber String? // DAR / drug registration number\n\n  sku String? // seller's own stock-keeping code, unique per seller (bulk import key)\n\n  // per-customer purchase limits, checked alongside the category's; null = no limit\n  maxPerOrder     Int? // units per order\n  maxPerPeriod    Int? // units per rolling limitPeriodDays\n  limitPeriodDays Int?\n\n  // weighted full-text document: name (A) > genericName (B) > description (C); generated column\n  searchVector Unsupported(\"tsvector\")?\n\n  categoryId     String?\n  category       Category?            @relation(fields: [categoryId], references: [id])\n  sellerId       String?\n  seller         User?                @relation(\"SellerMedicines\", fields: [sellerId], references: [id], onDelete: Cascade)\n  cartItems      CartItem[]\n  orderItems     OrderItem[]\n  reviews        Review[]\n  stockMovements StockMovement[]\n  batches        MedicineBatch[]\n  recalls        Recall[]\n  ingredients    MedicineIngredient[]\n\n  @@unique([sellerId, sku])\n  @@index([name])\n  @@index([categoryId])\n  @@index([dosageForm])\n  @@index([registrationNumber])\n  @@index([searchVector], type: Gin)\n  @@index([name(ops: raw(\"gin_trgm_ops\"))], map: \"medicine_name_trgm_idx\", type: Gin)\n  @@index([genericName(ops: raw(\"gin_trgm_ops\"))], map: \"medicine_genericName_trgm_idx\", type: Gin)\n  @@index([manufacturer(ops: raw(\"gin_trgm_ops\"))], map: \"medicine_manufacturer_trgm_idx\", type: Gin)\n  @@map(\"medicine\")\n}\n\n// Active ingredient of a medicine, e.g. Paracetamol 500 mg + Caffeine 65 mg\nmodel MedicineIngredient {\n  id         String  @id @default(uuid())\n  medicineId String\n  name       String\n  amount     Float?\n  unit       String?\n\n  medicine Medicine @relation(fields: [medicineId], references: [id], onDelete: Cascade)\n\n  @@index([medicineId])\n  @@index([name])\n  @@map(\"medicine_ingredient\")\n}\n\nenum OrderStatus {\n  PENDING_VERIFICATION\n  PLACED\n  CANCELLED\n  CONFIRMS\n  PROCESSING\n  PARTIALLY_SHIPPED\n  SHIPPED\n  DELIVERED\n}\n\nmodel Order {\n  id                 String      @id @default(uuid())\n  userId             String\n  subtotal           Decimal     @default(0) @db.Decimal(12, 2) // items before discount\n  discount           Decimal     @default(0) @db.Decimal(12, 2) // coupon discount on items\n  shippingFee        Decimal     @default(0) @db.Decimal(12, 2)\n  shippingDiscount   Decimal     @default(0) @db.Decimal(12, 2) // free-shipping coupon\n  tax                Decimal     @default(0) @db.Decimal(12, 2) // VAT on discounted items\n  total              Decimal     @db.Decimal(12, 2) // subtotal - discount + shippingFee - shippingDiscount + tax\n  currency           String      @default(\"BDT\") // checkout currency of all amounts above\n  exchangeRate       Decimal     @default(1) @db.Decimal(18, 8) // 1 store currency = exchangeRate checkout currency\n  shippingZoneId     String?\n  status             OrderStatus @default(PLACED)\n  shippingName       String?\n  shippingPhone      String\n  shippingAddress    String\n  // snapshot of the saved address used at checkout\n  addressId          String?\n  shippingDivision   String?\n  shippingDistrict   String?\n  shippingUpazila    String?\n  shippingPostalCode String?\n  shippingLatitude   Float?\n  shippingLongitude  Float?\n  createdAt          DateTime    @default(now())\n  updatedAt          DateTime    @updatedAt\n\n  user                 User                  @relation(fields: [userId], references: [id], onDelete: Cascade)\n  shippingZone         ShippingZone?         @relation(fields: [shippingZoneId], references: [id], onDelete: SetNull)\n  address              Address?              @relation(fields: [addressId], references: [id], onDelete: SetNull)\n  items                OrderItem[]\n  shipments            Shipment[]\n  payments             Payment[]\n  returns              ReturnRequest[]\n  recallNotices        RecallNotice[]\n  coupons              CouponRedemption[]\n  statusHistory        OrderStatusHistory[]\n  interactionOverrides InteractionOverride[]\n\n  @@index([userId])\n  @@index([status])\n  @@map(\"order\")\n}\n\nmodel OrderItem {\n  id               String      @id @default(uuid())\n  orderId          String\n  medicineId       String\n  quantity         Int\n  unitPrice        Decimal     @db.Decimal(12, 2) // in the order currency\n  basePrice        Decimal?    @db.Decimal(12, 2) // seller's price in the seller currency\n  baseCurrency     String?\n  exchangeRate     Decimal     @default(1) @db.Decimal(18, 8) // 1 baseCurrency = exchangeRate order currency\n  vatRate          Float       @default(0) // category VAT % at checkout\n  taxAmount        Decimal     @default(0) @db.Decimal(12, 2) // VAT charged on the line after discounts\n  orderItemStatus  OrderStatus @default(PLACED)\n  returnedQuantity Int         @default(0) // units approved for return\n  shipmentId       String?\n  prescriptionId   String?\n  createdAt        DateTime    @default(now())\n  updatedAt        DateTime    @updatedAt\n\n  // a reviewer checked this line against its prescription\n  prescriptionVerifiedAt DateTime?\n  prescriptionVerifiedBy String?\n\n  order         Order            @relation(fields: [orderId], references: [id], onDelete: Cascade)\n  medicine      Medicine         @relation(fields: [medicineId], references: [id])\n  shipment      Shipment?        @relation(fields: [shipmentId], references: [id], onDelete: SetNull)\n  prescription  Prescription?    @relation(fields: [prescriptionId], references: [id], onDelete: SetNull)\n  returns       ReturnRequest[]\n  batches       OrderItemBatch[]\n  recallNotices RecallNotice[]\n\n  ledgerEntries SellerLedgerEntry[] // seller credit / refund debits for this line\n\n  @@index([orderId])\n  @@index([medicineId])\n  @@index([shipmentId])\n  @@index([prescriptionId])\n  @@map(\"order_item\")\n}\n\n// One fulfillment group per seller under a parent order\nmodel Shipment {\n  id             String      @id @default(uuid())\n  orderId        String\n  sellerId       String?\n  status         OrderStatus @default(PLACED)\n  subtotal       Decimal     @db.Decimal(12, 2)\n  trackingNumber String?\n  carrier        String?\n  shippedAt      DateTime?\n  deliveredAt    DateTime?\n  createdAt      DateTime    @default(now())\n  updatedAt      DateTime    @updatedAt\n\n  order         Order                @relation(fields: [orderId], references: [id], onDelete: Cascade)\n  seller        User?                @relation(\"SellerShipments\", fields: [sellerId], references: [id], onDelete: SetNull)\n  items         OrderItem[]\n  statusHistory OrderStatusHistory[]\n\n  @@unique([orderId, sellerId])\n  @@index([sellerId])\n  @@index([status])\n  @@map(\"shipment\")\n}\n\nmodel OrderStatusHistory {\n  id              String        @id @default(uuid())\n  orderId         String\n  shipmentId      String? // set when the entry belongs to a seller shipment\n  returnRequestId String? // set when the entry records a return step\n  returnStatus    ReturnStatus?\n  status          OrderStatus\n  changedAt       DateTime      @default(now())\n  changedBy       String? // কে change করেছে (admin/seller id)\n  notes           String? // optional notes\n  createdAt       DateTime      @default(now())\n\n  order         Order          @relation(fields: [orderId], references: [id], onDelete: Cascade)\n  shipment      Shipment?      @relation(fields: [shipmentId], references: [id], onDelete: Cascade)\n  returnRequest ReturnRequest? @relation(fields: [returnRequestId], references: [id], onDelete: Cascade)\n\n  @@index([orderId])\n  @@index([shipmentId])\n  @@index([returnRequestId])\n  @@index([status])\n  @@map(\"order_status_history\")\n}\n\nenum PaymentProvider {\n  COD\n  MOCK\n  STRIPE\n  SSLCOMMERZ\n}\n\nenum PaymentStatus {\n  PENDING\n  SUCCEEDED\n  FAILED\n  CANCELLED\n  REFUNDED\n}\n\nmodel Payment {\n  id            String          @id @default(uuid())\n  orderId       String\n  userId        String\n  provider      PaymentProvider @default(COD)\n  status        PaymentStatus   @default(PENDING)\n  amount        Decimal         @db.Decimal(12, 2)\n  currency      String          @default(\"BDT\")\n  providerRef   String? // gateway transaction / intent id\n  redirectUrl   String?\n  rawPayload    Json? // last callback payload received from the gateway\n  failureReason String?\n  paidAt        DateTime?\n  createdAt     DateTime        @default(now())\n  updatedAt     DateTime        @updatedAt\n\n  order   Order    @relation(fields: [orderId], references: [id], onDelete: Cascade)\n  user    User     @relation(fields: [userId], references: [id], onDelete: Cascade)\n  refunds Refund[]\n\n  @@unique([provider, providerRef])\n  @@index([orderId])\n  @@index([status])\n  @@map(\"payment\")\n}\n\n// Processed gateway callbacks, used to make webhook handling idempotent\nmodel PaymentWebhookEvent {\n  id         String          @id @default(uuid())\n  provider   PaymentProvider\n  eventId    String\n  paymentId  String?\n  payload    Json\n  receivedAt DateTime        @default(now())\n\n  @@unique([provider, eventId])\n  @@map(\"payment_webhook_event\")\n}\n\nenum LedgerEntryType {\n  SALE // seller's share of a delivered order item\n  REFUND // reverses (part of) a sale after a refunded return\n  PAYOUT // settlement paid out to the seller\n}\n\nenum PayoutStatus {\n  REQUESTED\n  PAID\n  REJECTED\n}\n\n// Platform commission in % of the net sale; no category / seller = the global rate.\n// Precedence: seller > category > global.\nmodel CommissionRate {\n  id         String   @id @default(uuid())\n  categoryId String?  @unique\n  sellerId   String?  @unique\n  rate       Float\n  updatedBy  String? // admin id\n  createdAt  DateTime @default(now())\n  updatedAt  DateTime @updatedAt\n\n  category Category? @relation(fields: [categoryId], references: [id], onDelete: Cascade)\n  seller   User?     @relation(\"SellerCommissionRate\", fields: [sellerId], references: [id], onDelete: Cascade)\n\n  @@map(\"commission_rate\")\n}\n\n// Seller balance ledger in the store currency; balance = sum(amount)\nmodel SellerLedgerEntry {\n  id             String          @id @default(uuid())\n  sellerId       String\n  type           LedgerEntryType\n  amount         Decimal         @db.Decimal(12, 2) // credit > 0, debit < 0\n  grossAmount    Decimal?        @db.Decimal(12, 2) // net sale / refund before commission\n  commission     Decimal?        @db.Decimal(12, 2)\n  commissionRate Float?\n  orderId        String?\n  orderItemId    String?\n  refundId       String?         @unique\n  payoutId       String?         @unique\n  description    String?\n  createdAt      DateTime        @default(now())\n\n  seller    User           @relation(\"SellerLedger\", fields: [sellerId], references: [id], onDelete: Cascade)\n  orderItem OrderItem?     @relation(fields: [orderItemId], references: [id], onDelete: SetNull)\n  payout    PayoutRequest? @relation(fields: [payoutId], references: [id], onDelete: SetNull)\n\n  @@index([sellerId, createdAt])\n  @@index([orderItemId])\n  @@map(\"seller_ledger_entry\")\n}\n\n// Seller's request to be paid out of their balance; an admin settles or rejects it\nmodel PayoutRequest {\n  id         String       @id @default(uuid())\n  sellerId   String\n  amount     Decimal      @db.Decimal(12, 2)\n  status     PayoutStatus @default(REQUESTED)\n  note       String?\n  reviewedBy String?\n  reviewedAt DateTime?\n  reviewNote String?\n  reference  String? // bank / mobile wallet transfer id\n  createdAt  DateTime     @default(now())\n  updatedAt  DateTime     @updatedAt\n\n  seller      User               @relation(\"SellerPayouts\", fields: [sellerId], references: [id], onDelete: Cascade)\n  ledgerEntry SellerLedgerEntry?\n\n  @@index([sellerId, status])\n  @@index([status, createdAt])\n  @@map(\"payout_request\")\n}\n\nenum PrescriptionStatus {\n  PENDING\n  APPROVED\n  REJECTED\n}\n\nenum PrescriptionFileType {\n  IMAGE\n  PDF\n}\n\nmodel Prescription {\n  id          String               @id @default(uuid())\n  userId      String\n  fileUrl     String\n  fileType    PrescriptionFileType @default(IMAGE)\n  patientName String\n  doctorName  String\n  doctorRegNo String?\n  issueDate   DateTime\n  expiryDate  DateTime?\n  status      PrescriptionStatus   @default(PENDING)\n  reviewedBy  String? // admin/seller id who reviewed\n  reviewedAt  DateTime?\n  reviewNote  String?\n  createdAt   DateTime             @default(now())\n  updatedAt   DateTime             @updatedAt\n\n  user       User        @relation(fields: [userId], references: [id], onDelete: Cascade)\n  cartItems  CartItem[]\n  orderItems OrderItem[]\n\n  @@index([userId])\n  @@index([status])\n  @@map(\"prescription\")\n}\n\n// Regulatory recall classes: CLASS_I is the most serious (risk of serious harm)\nenum RecallSeverity {\n  CLASS_I\n  CLASS_II\n  CLASS_III\n}\n\nenum RecallStatus {\n  ACTIVE\n  CLOSED\n}\n\n// Recall of a medicine's lots, by batch number and/or manufacture date range\nmodel Recall {\n  id               String         @id @default(uuid())\n  medicineId       String\n  batchNumbers     String[]\n  manufacturedFrom DateTime?\n  manufacturedTo   DateTime?\n  severity         RecallSeverity\n  status           RecallStatus   @default(ACTIVE)\n  reason           String\n  instructions     String\n  createdBy        String?\n  closedAt         DateTime?\n  createdAt        DateTime       @default(now())\n  updatedAt        DateTime       @updatedAt\n\n  medicine Medicine        @relation(fields: [medicineId], references: [id], onDelete: Cascade)\n  batches  MedicineBatch[]\n  notices  RecallNotice[]\n\n  @@index([medicineId])\n  @@index([status])\n  @@map(\"recall\")\n}\n\n// One affected order item; drives the customer notification list and order detail notice\nmodel RecallNotice {\n  id          String    @id @default(uuid())\n  recallId    String\n  orderId     String\n  orderItemId String\n  userId      String\n  quantity    Int // units of the item picked from recalled batches\n  notifiedAt  DateTime?\n  createdAt   DateTime  @default(now())\n\n  recall    Recall    @relation(fields: [recallId], references: [id], onDelete: Cascade)\n  order     Order     @relation(fields: [orderId], references: [id], onDelete: Cascade)\n  orderItem OrderItem @relation(fields: [orderItemId], references: [id], onDelete: Cascade)\n  user      User      @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  @@unique([recallId, orderItemId])\n  @@index([orderId])\n  @@index([userId])\n  @@map(\"recall_notice\")\n}\n\nenum ReturnStatus {\n  REQUESTED\n  APPROVED\n  REJECTED\n  REFUNDED\n}\n\n// Decides restocking: only resellable units go back to inventory\nenum ReturnCondition {\n  RESELLABLE\n  DAMAGED\n}\n\nenum RefundStatus {\n  PENDING\n  COMPLETED\n}\n\n// Customer return request for (part of) a delivered order item\nmodel ReturnRequest {\n  id          String           @id @default(uuid())\n  orderId     String\n  orderItemId String\n  userId      String\n  quantity    Int\n  reason      String\n  photos      String[]\n  status      ReturnStatus     @default(REQUESTED)\n  condition   ReturnCondition?\n  restocked   Boolean          @default(false)\n  reviewedBy  String?\n  reviewedAt  DateTime?\n  reviewNote  String?\n  createdAt   DateTime         @default(now())\n  updatedAt   DateTime         @updatedAt\n\n  order         Order                @relation(fields: [orderId], references: [id], onDelete: Cascade)\n  orderItem     OrderItem            @relation(fields: [orderItemId], references: [id], onDelete: Cascade)\n  user          User                 @relation(fields: [userId], references: [id], onDelete: Cascade)\n  refund        Refund?\n  statusHistory OrderStatusHistory[]\n\n  @@index([orderId])\n  @@index([orderItemId])\n  @@index([userId])\n  @@index([status])\n  @@map(\"return_request\")\n}\n\n// Money owed back for an approved return, or for a paid order or shipment that was cancelled;\n// paymentId is the original payment (online or COD)\nmodel Refund {\n  id              String          @id @default(uuid())\n  returnRequestId String?         @unique\n  orderId         String\n  paymentId       String?\n  method          PaymentProvider\n  amount          Decimal         @db.Decimal(12, 2)\n  status          RefundStatus    @default(PENDING)\n  reference       String? // gateway refund id / cash voucher no.\n  processedBy     String?\n  processedAt     DateTime?\n  createdAt       DateTime        @default(now())\n  updatedAt       DateTime        @updatedAt\n\n  // cancellation refunds have no return request\n  shipmentId String? // cancelled shipment, when only part of the order was cancelled\n  reason     String?\n\n  returnRequest ReturnRequest? @relation(fields: [returnRequestId], references: [id], onDelete: Cascade)\n  payment       Payment?       @relation(fields: [paymentId], references: [id], onDelete: SetNull)\n\n  @@index([orderId])\n  @@index([paymentId])\n  @@index([status])\n  @@map(\"refund\")\n}\n\nmodel Review {\n  id         String   @id @default(uuid())\n  userId     String\n  medicineId String\n  rating     Int\n  comment    String?\n  createdAt  DateTime @default(now())\n  updatedAt  DateTime @updatedAt\n\n  user     User     @relation(fields: [userId], references: [id], onDelete: Cascade)\n  medicine Medicine @relation(fields: [medicineId], references: [id], onDelete: Cascade)\n\n  @@unique([userId, medicineId])\n  @@index([medicineId])\n  @@map(\"review\")\n}\n\n// This is your Prisma schema file\n// https://pris.ly/d/prisma-schema\n\ngenerator client {\n  provider = \"prisma-client\"\n  output   = \"../src/generated/prisma\"\n}\n\ndatasource db {\n  provider = \"postgresql\"\n}\n\nenum SellerApplicationStatus {\n  PENDING\n  CHANGES_REQUESTED\n  APPROVED\n  REJECTED\n  SUSPENDED // pharmacy license lapsed; listings are hidden until a renewal is approved\n}\n\nenum SellerDocumentType {\n  TRADE_LICENSE\n  PHARMACY_LICENSE\n  NATIONAL_ID\n  OTHER\n}\n\n// KYC application a user files to sell on the marketplace; one per user, resubmitted after review\nmodel SellerApplication {\n  id                    String                  @id @default(uuid())\n  userId                String                  @unique\n  businessName          String\n  tradeLicenseNumber    String\n  pharmacyLicenseNumber String // drug / pharmacy license\n  licenseExpiresAt      DateTime\n  status                SellerApplicationStatus @default(PENDING)\n  reviewedBy            String? // admin id who reviewed\n  reviewedAt            DateTime?\n  reviewNote            String?\n  submittedAt           DateTime                @default(now())\n  suspendedAt           DateTime?\n  createdAt             DateTime                @default(now())\n  updatedAt             DateTime                @updatedAt\n\n  // while a renewal of an approved application is reviewed, the seller keeps listing until this date\n  approvedUntil DateTime?\n\n  user      User             @relation(fields: [userId], references: [id], onDelete: Cascade)\n  documents SellerDocument[]\n\n  @@index([status, submittedAt])\n  @@index([licenseExpiresAt])\n  @@map(\"seller_application\")\n}\n\n// Uploaded KYC document (file already stored, e.g. Cloudinary)\nmodel SellerDocument {\n  id            String             @id @default(uuid())\n  applicationId String\n  type          SellerDocumentType\n  fileUrl       String\n  fileName      String?\n  createdAt     DateTime           @default(now())\n\n  application SellerApplication @relation(fields: [applicationId], references: [id], onDelete: Cascade)\n\n  @@index([applicationId])\n  @@map(\"seller_document\")\n}\n\n// Public storefront of an approved seller, served at /api/sellers/:slug\nmodel SellerProfile {\n  id             String   @id @default(uuid())\n  userId         String   @unique\n  storeName      String\n  slug           String   @unique\n  logoUrl        String?\n  description    String?\n  address        String?\n  operatingHours Json? // { mon: { open: \"09:00\", close: \"21:00\" }, ..., sun: null } - null = closed\n  rating         Float? // average review rating across the seller's medicines\n  reviewCount    Int      @default(0)\n  createdAt      DateTime @default(now())\n  updatedAt      DateTime @updatedAt\n\n  user User @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  @@map(\"seller_profile\")\n}\n\nenum ShippingFeeType {\n  FLAT\n  WEIGHT_BASED\n}\n\n// Delivery zone, matched against the shipping address (e.g. inside / outside Dhaka)\nmodel ShippingZone {\n  id                    String          @id @default(uuid())\n  name                  String          @unique\n  areas                 String[] // lower-case city/area keywords looked up in the address\n  isDefault             Boolean         @default(false) // used when no area matches\n  feeType               ShippingFeeType @default(FLAT)\n  baseFee               Decimal         @db.Decimal(12, 2)\n  baseWeightGrams       Int? // WEIGHT_BASED: weight covered by baseFee\n  perKgFee              Decimal?        @db.Decimal(12, 2) // WEIGHT_BASED: charged per started kg above baseWeightGrams\n  freeShippingThreshold Decimal?        @db.Decimal(12, 2) // subtotal from which delivery is free\n  isActive              Boolean         @default(true)\n  createdAt             DateTime        @default(now())\n  updatedAt             DateTime        @updatedAt\n\n  orders Order[]\n\n  @@map(\"shipping_zone\")\n}\n\nenum StockMovementType {\n  INITIAL\n  RECEIVED\n  ORDER_PLACED\n  ORDER_CANCELLED\n  RETURNED\n  ADJUSTMENT\n  IMPORT\n  EXPIRY_WRITE_OFF\n  RECALLED\n}\n\n// Append-only inventory ledger; Medicine.stock must equal the sum of quantity per medicine\n// (and MedicineBatch.quantity the sum per batch)\nmodel StockMovement {\n  id              String            @id @default(uuid())\n  medicineId      String\n  batchId         String?\n  type            StockMovementType\n  quantity        Int // signed delta: negative takes units out of stock\n  balanceAfter    Int\n  actorId         String? // user who caused the movement (null = system)\n  reason          String?\n  orderId         String?\n  returnRequestId String?\n  createdAt       DateTime          @default(now())\n\n  medicine Medicine       @relation(fields: [medicineId], references: [id], onDelete: Cascade)\n  batch    MedicineBatch? @relation(fields: [batchId], references: [id], onDelete: SetNull)\n  actor    User?          @relation(\"StockMovementActor\", fields: [actorId], references: [id], onDelete: SetNull)\n\n  @@index([medicineId, createdAt])\n  @@index([batchId])\n  @@index([orderId])\n  @@index([type])\n  @@map(\"stock_movement\")\n}\n\nenum UserRole {\n  CUSTOMER\n  SELLER\n  ADMIN\n}\n\nenum UserStatus {\n  UNBAN\n  BAN\n}\n\nmodel User {\n  id            String     @id @default(uuid())\n  name          String\n  email         String     @unique\n  password      String?\n  emailVerified Boolean    @default(false)\n  image         String?\n  phone         String?\n  role          UserRole   @default(CUSTOMER)\n  status        UserStatus @default(UNBAN)\n  banReason     String?\n  banExpires    DateTime? // null = permanent ban\n  currency      String     @default(\"BDT\") // seller base currency: medicine prices are in it\n  createdAt     DateTime   @default(now())\n  updatedAt     DateTime   @updatedAt\n\n  // relations\n  sessions             Session[]\n  accounts             Account[]\n  cart                 Cart?\n  sellerMedicines      Medicine[]            @relation(\"SellerMedicines\")\n  orders               Order[]\n  sellerShipments      Shipment[]            @relation(\"SellerShipments\")\n  reviews              Review[]\n  prescriptions        Prescription[]\n  payments             Payment[]\n  returnRequests       ReturnRequest[]\n  stockMovements       StockMovement[]       @relation(\"StockMovementActor\")\n  recallNotices        RecallNotice[]\n  sellerCoupons        Coupon[]              @relation(\"SellerCoupons\")\n  addresses            Address[]\n  interactionOverrides InteractionOverride[]\n  importJobs           ImportJob[]\n  sellerApplication    SellerApplication?\n  sellerProfile        SellerProfile?\n  commissionRate       CommissionRate?       @relation(\"SellerCommissionRate\")\n  ledgerEntries        SellerLedgerEntry[]   @relation(\"SellerLedger\")\n  payoutRequests       PayoutRequest[]       @relation(\"SellerPayouts\")\n\n  @@map(\"user\")\n}\n\nmodel Session {\n  id        String   @id @default(uuid())\n  expiresAt DateTime\n  token     String   @unique\n  ipAddress String?\n  userAgent String?\n  createdAt DateTime @default(now())\n  updatedAt DateTime @updatedAt\n\n  userId String\n  user   User   @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  @@index([userId])\n  @@map(\"session\")\n}\n\nmodel Account {\n  id                    String    @id @default(uuid())\n  accountId             String\n  providerId            String\n  accessToken           String?\n  refreshToken          String?\n  idToken               String?\n  accessTokenExpiresAt  DateTime?\n  refreshTokenExpiresAt DateTime?\n  scope                 String?\n  password              String?\n  createdAt             DateTime  @default(now())\n  updatedAt             DateTime  @updatedAt\n\n  userId String\n  user   User   @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  @@index([userId])\n  @@map(\"account\")\n}\n\nmodel Verification {\n  id         String   @id @default(uuid())\n  identifier String\n  value      String\n  expiresAt  DateTime\n  createdAt  DateTime @default(now())\n  updatedAt  DateTime @updatedAt\n\n  @@index([identifier])\n  @@map(\"verification\")\n}\n",
   "runtimeDataModel": {
     "models": {},
     "enums": {},
@@ -28,7 +28,7 @@ const config: runtime.GetPrismaClientConfig = {
   }
 }
 
-config.runtimeDataModel = JSON.parse("{\"models\":{\"Cart\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"CartToUser\"},{\"name\":\"items\",\"kind\":\"object\",\"type\":\"CartItem\",\"relationName\":\"CartToCartItem\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"cart\"},\"CartItem\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"cartId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"medicineId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"quantity\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"unitPrice\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"cart\",\"kind\":\"object\",\"type\":\"Cart\",\"relationName\":\"CartToCartItem\"},{\"name\":\"medicine\",\"kind\":\"object\",\"type\":\"Medicine\",\"relationName\":\"CartItemToMedicine\"}],\"dbName\":\"cart_item\"},\"Category\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"slug\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"isPrescriptionRequired\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"medicines\",\"kind\":\"object\",\"type\":\"Medicine\",\"relationName\":\"CategoryToMedicine\"}],\"dbName\":\"category\"},\"Medicine\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"genericName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"price\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"stock\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"manufacturer\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"imageUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"isFeatured\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"isActive\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"categoryId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"category\",\"kind\":\"object\",\"type\":\"Category\",\"relationName\":\"CategoryToMedicine\"},{\"name\":\"sellerId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"seller\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"SellerMedicines\"},{\"name\":\"cartItems\",\"kind\":\"object\",\"type\":\"CartItem\",\"relationName\":\"CartItemToMedicine\"},{\"name\":\"orderItems\",\"kind\":\"object\",\"type\":\"OrderItem\",\"relationName\":\"MedicineToOrderItem\"},{\"name\":\"reviews\",\"kind\":\"object\",\"type\":\"Review\",\"relationName\":\"MedicineToReview\"}],\"dbName\":\"medicine\"},\"Order\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"total\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"OrderStatus\"},{\"name\":\"shippingName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"shippingPhone\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"shippingAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"OrderToUser\"},{\"name\":\"items\",\"kind\":\"object\",\"type\":\"OrderItem\",\"relationName\":\"OrderToOrderItem\"},{\"name\":\"statusHistory\",\"kind\":\"object\",\"type\":\"OrderStatusHistory\",\"relationName\":\"OrderToOrderStatusHistory\"}],\"dbName\":\"order\"},\"OrderItem\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"orderId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"medicineId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"quantity\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"unitPrice\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"orderItemStatus\",\"kind\":\"enum\",\"type\":\"OrderStatus\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"order\",\"kind\":\"object\",\"type\":\"Order\",\"relationName\":\"OrderToOrderItem\"},{\"name\":\"medicine\",\"kind\":\"object\",\"type\":\"Medicine\",\"relationName\":\"MedicineToOrderItem\"}],\"dbName\":\"order_item\"},\"OrderStatusHistory\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"orderId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"OrderStatus\"},{\"name\":\"changedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"changedBy\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"notes\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"order\",\"kind\":\"object\",\"type\":\"Order\",\"relationName\":\"OrderToOrderStatusHistory\"}],\"dbName\":\"order_status_history\"},\"Review\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"medicineId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"rating\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"comment\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"ReviewToUser\"},{\"name\":\"medicine\",\"kind\":\"object\",\"type\":\"Medicine\",\"relationName\":\"MedicineToReview\"}],\"dbName\":\"review\"},\"User\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"email\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"password\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"emailVerified\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"image\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"phone\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"role\",\"kind\":\"enum\",\"type\":\"UserRole\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"UserStatus\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"sessions\",\"kind\":\"object\",\"type\":\"Session\",\"relationName\":\"SessionToUser\"},{\"name\":\"accounts\",\"kind\":\"object\",\"type\":\"Account\",\"relationName\":\"AccountToUser\"},{\"name\":\"cart\",\"kind\":\"object\",\"type\":\"Cart\",\"relationName\":\"CartToUser\"},{\"name\":\"sellerMedicines\",\"kind\":\"object\",\"type\":\"Medicine\",\"relationName\":\"SellerMedicines\"},{\"name\":\"orders\",\"kind\":\"object\",\"type\":\"Order\",\"relationName\":\"OrderToUser\"},{\"name\":\"reviews\",\"kind\":\"object\",\"type\":\"Review\",\"relationName\":\"ReviewToUser\"}],\"dbName\":\"user\"},\"Session\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"expiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"token\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"ipAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userAgent\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"SessionToUser\"}],\"dbName\":\"session\"},\"Account\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"accountId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"providerId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"accessToken\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"refreshToken\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"idToken\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"accessTokenExpiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"refreshTokenExpiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"scope\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"password\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"AccountToUser\"}],\"dbName\":\"account\"},\"Verification\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"identifier\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"value\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"expiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"verification\"}},\"enums\":{},\"types\":{}}")
+config.runtimeDataModel = JSON.parse("{\"models\":{\"Address\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"label\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"recipientName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"phone\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"division\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"district\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"upazila\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"street\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"postalCode\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"latitude\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"longitude\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"isDefault\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"AddressToUser\"},{\"name\":\"orders\",\"kind\":\"object\",\"type\":\"Order\",\"relationName\":\"AddressToOrder\"}],\"dbName\":\"address\"},\"MedicineBatch\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"medicineId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"batchNumber\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"manufactureDate\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"expiryDate\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"quantity\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"purchaseCost\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"recallId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"medicine\",\"kind\":\"object\",\"type\":\"Medicine\",\"relationName\":\"MedicineToMedicineBatch\"},{\"name\":\"recall\",\"kind\":\"object\",\"type\":\"Recall\",\"relationName\":\"MedicineBatchToRecall\"},{\"name\":\"allocations\",\"kind\":\"object\",\"type\":\"OrderItemBatch\",\"relationName\":\"MedicineBatchToOrderItemBatch\"},{\"name\":\"stockMovements\",\"kind\":\"object\",\"type\":\"StockMovement\",\"relationName\":\"MedicineBatchToStockMovement\"}],\"dbName\":\"medicine_batch\"},\"OrderItemBatch\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"orderItemId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"batchId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"quantity\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"orderItem\",\"kind\":\"object\",\"type\":\"OrderItem\",\"relationName\":\"OrderItemToOrderItemBatch\"},{\"name\":\"batch\",\"kind\":\"object\",\"type\":\"MedicineBatch\",\"relationName\":\"MedicineBatchToOrderItemBatch\"}],\"dbName\":\"order_item_batch\"},\"Cart\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"CartToUser\"},{\"name\":\"items\",\"kind\":\"object\",\"type\":\"CartItem\",\"relationName\":\"CartToCartItem\"},{\"name\":\"coupons\",\"kind\":\"object\",\"type\":\"CartCoupon\",\"relationName\":\"CartToCartCoupon\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"cart\"},\"CartItem\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"cartId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"medicineId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"quantity\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"unitPrice\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"prescriptionId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"cart\",\"kind\":\"object\",\"type\":\"Cart\",\"relationName\":\"CartToCartItem\"},{\"name\":\"medicine\",\"kind\":\"object\",\"type\":\"Medicine\",\"relationName\":\"CartItemToMedicine\"},{\"name\":\"prescription\",\"kind\":\"object\",\"type\":\"Prescription\",\"relationName\":\"CartItemToPrescription\"}],\"dbName\":\"cart_item\"},\"ImportJob\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"sellerId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"format\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"fileName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"dryRun\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"ImportJobStatus\"},{\"name\":\"mapping\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"totalRows\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"processedRows\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"createdCount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"updatedCount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"failedCount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"errors\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"error\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"startedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"finishedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"rows\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"seller\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"ImportJobToUser\"}],\"dbName\":\"import_job\"},\"Category\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"slug\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"isPrescriptionRequired\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"vatRate\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"maxPerOrder\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"maxPerPeriod\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"limitPeriodDays\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"medicines\",\"kind\":\"object\",\"type\":\"Medicine\",\"relationName\":\"CategoryToMedicine\"},{\"name\":\"coupons\",\"kind\":\"object\",\"type\":\"Coupon\",\"relationName\":\"CategoryToCoupon\"},{\"name\":\"commissionRate\",\"kind\":\"object\",\"type\":\"CommissionRate\",\"relationName\":\"CategoryToCommissionRate\"}],\"dbName\":\"category\"},\"Coupon\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"code\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"type\",\"kind\":\"enum\",\"type\":\"CouponType\"},{\"name\":\"value\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"maxDiscount\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"scope\",\"kind\":\"enum\",\"type\":\"CouponScope\"},{\"name\":\"categoryId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"sellerId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"minOrderValue\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"usageLimit\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"perUserLimit\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"usedCount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"stackable\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"startsAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"endsAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"isActive\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"createdBy\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"category\",\"kind\":\"object\",\"type\":\"Category\",\"relationName\":\"CategoryToCoupon\"},{\"name\":\"seller\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"SellerCoupons\"},{\"name\":\"carts\",\"kind\":\"object\",\"type\":\"CartCoupon\",\"relationName\":\"CartCouponToCoupon\"},{\"name\":\"redemptions\",\"kind\":\"object\",\"type\":\"CouponRedemption\",\"relationName\":\"CouponToCouponRedemption\"}],\"dbName\":\"coupon\"},\"CartCoupon\":{\"fields\":[{\"name\":\"cartId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"couponId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"cart\",\"kind\":\"object\",\"type\":\"Cart\",\"relationName\":\"CartToCartCoupon\"},{\"name\":\"coupon\",\"kind\":\"object\",\"type\":\"Coupon\",\"relationName\":\"CartCouponToCoupon\"}],\"dbName\":\"cart_coupon\"},\"CouponRedemption\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"couponId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"orderId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"code\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"discount\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"coupon\",\"kind\":\"object\",\"type\":\"Coupon\",\"relationName\":\"CouponToCouponRedemption\"},{\"name\":\"order\",\"kind\":\"object\",\"type\":\"Order\",\"relationName\":\"CouponRedemptionToOrder\"}],\"dbName\":\"coupon_redemption\"},\"ExchangeRate\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"baseCurrency\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"quoteCurrency\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"rate\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"effectiveFrom\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdBy\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"exchange_rate\"},\"DrugInteraction\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"ingredientA\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"ingredientB\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"severity\",\"kind\":\"enum\",\"type\":\"InteractionSeverity\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdBy\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"overrides\",\"kind\":\"object\",\"type\":\"InteractionOverride\",\"relationName\":\"DrugInteractionToInteractionOverride\"}],\"dbName\":\"drug_interaction\"},\"InteractionOverride\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"interactionId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"approvedBy\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"reason\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"orderId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"interaction\",\"kind\":\"object\",\"type\":\"DrugInteraction\",\"relationName\":\"DrugInteractionToInteractionOverride\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"InteractionOverrideToUser\"},{\"name\":\"order\",\"kind\":\"object\",\"type\":\"Order\",\"relationName\":\"InteractionOverrideToOrder\"}],\"dbName\":\"interaction_override\"},\"Medicine\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"genericName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"price\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"stock\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"stockDrift\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"stockReconciledAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"manufacturer\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"imageUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"weightGrams\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"isFeatured\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"isActive\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"licenseSuspended\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"dosageForm\",\"kind\":\"enum\",\"type\":\"DosageForm\"},{\"name\":\"strength\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"strengthUnit\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"packSize\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"route\",\"kind\":\"enum\",\"type\":\"AdministrationRoute\"},{\"name\":\"storageConditions\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"registrationNumber\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"sku\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"maxPerOrder\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"maxPerPeriod\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"limitPeriodDays\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"categoryId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"category\",\"kind\":\"object\",\"type\":\"Category\",\"relationName\":\"CategoryToMedicine\"},{\"name\":\"sellerId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"seller\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"SellerMedicines\"},{\"name\":\"cartItems\",\"kind\":\"object\",\"type\":\"CartItem\",\"relationName\":\"CartItemToMedicine\"},{\"name\":\"orderItems\",\"kind\":\"object\",\"type\":\"OrderItem\",\"relationName\":\"MedicineToOrderItem\"},{\"name\":\"reviews\",\"kind\":\"object\",\"type\":\"Review\",\"relationName\":\"MedicineToReview\"},{\"name\":\"stockMovements\",\"kind\":\"object\",\"type\":\"StockMovement\",\"relationName\":\"MedicineToStockMovement\"},{\"name\":\"batches\",\"kind\":\"object\",\"type\":\"MedicineBatch\",\"relationName\":\"MedicineToMedicineBatch\"},{\"name\":\"recalls\",\"kind\":\"object\",\"type\":\"Recall\",\"relationName\":\"MedicineToRecall\"},{\"name\":\"ingredients\",\"kind\":\"object\",\"type\":\"MedicineIngredient\",\"relationName\":\"MedicineToMedicineIngredient\"}],\"dbName\":\"medicine\"},\"MedicineIngredient\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"medicineId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"amount\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"unit\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"medicine\",\"kind\":\"object\",\"type\":\"Medicine\",\"relationName\":\"MedicineToMedicineIngredient\"}],\"dbName\":\"medicine_ingredient\"},\"Order\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"subtotal\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"discount\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"shippingFee\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"shippingDiscount\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"tax\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"total\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"currency\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"exchangeRate\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"shippingZoneId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"OrderStatus\"},{\"name\":\"shippingName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"shippingPhone\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"shippingAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"addressId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"shippingDivision\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"shippingDistrict\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"shippingUpazila\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"shippingPostalCode\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"shippingLatitude\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"shippingLongitude\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"OrderToUser\"},{\"name\":\"shippingZone\",\"kind\":\"object\",\"type\":\"ShippingZone\",\"relationName\":\"OrderToShippingZone\"},{\"name\":\"address\",\"kind\":\"object\",\"type\":\"Address\",\"relationName\":\"AddressToOrder\"},{\"name\":\"items\",\"kind\":\"object\",\"type\":\"OrderItem\",\"relationName\":\"OrderToOrderItem\"},{\"name\":\"shipments\",\"kind\":\"object\",\"type\":\"Shipment\",\"relationName\":\"OrderToShipment\"},{\"name\":\"payments\",\"kind\":\"object\",\"type\":\"Payment\",\"relationName\":\"OrderToPayment\"},{\"name\":\"returns\",\"kind\":\"object\",\"type\":\"ReturnRequest\",\"relationName\":\"OrderToReturnRequest\"},{\"name\":\"recallNotices\",\"kind\":\"object\",\"type\":\"RecallNotice\",\"relationName\":\"OrderToRecallNotice\"},{\"name\":\"coupons\",\"kind\":\"object\",\"type\":\"CouponRedemption\",\"relationName\":\"CouponRedemptionToOrder\"},{\"name\":\"statusHistory\",\"kind\":\"object\",\"type\":\"OrderStatusHistory\",\"relationName\":\"OrderToOrderStatusHistory\"},{\"name\":\"interactionOverrides\",\"kind\":\"object\",\"type\":\"InteractionOverride\",\"relationName\":\"InteractionOverrideToOrder\"}],\"dbName\":\"order\"},\"OrderItem\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"orderId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"medicineId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"quantity\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"unitPrice\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"basePrice\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"baseCurrency\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"exchangeRate\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"vatRate\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"taxAmount\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"orderItemStatus\",\"kind\":\"enum\",\"type\":\"OrderStatus\"},{\"name\":\"returnedQuantity\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"shipmentId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"prescriptionId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"prescriptionVerifiedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"prescriptionVerifiedBy\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"order\",\"kind\":\"object\",\"type\":\"Order\",\"relationName\":\"OrderToOrderItem\"},{\"name\":\"medicine\",\"kind\":\"object\",\"type\":\"Medicine\",\"relationName\":\"MedicineToOrderItem\"},{\"name\":\"shipment\",\"kind\":\"object\",\"type\":\"Shipment\",\"relationName\":\"OrderItemToShipment\"},{\"name\":\"prescription\",\"kind\":\"object\",\"type\":\"Prescription\",\"relationName\":\"OrderItemToPrescription\"},{\"name\":\"returns\",\"kind\":\"object\",\"type\":\"ReturnRequest\",\"relationName\":\"OrderItemToReturnRequest\"},{\"name\":\"batches\",\"kind\":\"object\",\"type\":\"OrderItemBatch\",\"relationName\":\"OrderItemToOrderItemBatch\"},{\"name\":\"recallNotices\",\"kind\":\"object\",\"type\":\"RecallNotice\",\"relationName\":\"OrderItemToRecallNotice\"},{\"name\":\"ledgerEntries\",\"kind\":\"object\",\"type\":\"SellerLedgerEntry\",\"relationName\":\"OrderItemToSellerLedgerEntry\"}],\"dbName\":\"order_item\"},\"Shipment\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"orderId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"sellerId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"OrderStatus\"},{\"name\":\"subtotal\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"trackingNumber\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"carrier\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"shippedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"deliveredAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"order\",\"kind\":\"object\",\"type\":\"Order\",\"relationName\":\"OrderToShipment\"},{\"name\":\"seller\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"SellerShipments\"},{\"name\":\"items\",\"kind\":\"object\",\"type\":\"OrderItem\",\"relationName\":\"OrderItemToShipment\"},{\"name\":\"statusHistory\",\"kind\":\"object\",\"type\":\"OrderStatusHistory\",\"relationName\":\"OrderStatusHistoryToShipment\"}],\"dbName\":\"shipment\"},\"OrderStatusHistory\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"orderId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"shipmentId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"returnRequestId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"returnStatus\",\"kind\":\"enum\",\"type\":\"ReturnStatus\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"OrderStatus\"},{\"name\":\"changedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"changedBy\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"notes\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"order\",\"kind\":\"object\",\"type\":\"Order\",\"relationName\":\"OrderToOrderStatusHistory\"},{\"name\":\"shipment\",\"kind\":\"object\",\"type\":\"Shipment\",\"relationName\":\"OrderStatusHistoryToShipment\"},{\"name\":\"returnRequest\",\"kind\":\"object\",\"type\":\"ReturnRequest\",\"relationName\":\"OrderStatusHistoryToReturnRequest\"}],\"dbName\":\"order_status_history\"},\"Payment\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"orderId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"provider\",\"kind\":\"enum\",\"type\":\"PaymentProvider\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"PaymentStatus\"},{\"name\":\"amount\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"currency\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"providerRef\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"redirectUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"rawPayload\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"failureReason\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"paidAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"order\",\"kind\":\"object\",\"type\":\"Order\",\"relationName\":\"OrderToPayment\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"PaymentToUser\"},{\"name\":\"refunds\",\"kind\":\"object\",\"type\":\"Refund\",\"relationName\":\"PaymentToRefund\"}],\"dbName\":\"payment\"},\"PaymentWebhookEvent\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"provider\",\"kind\":\"enum\",\"type\":\"PaymentProvider\"},{\"name\":\"eventId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"paymentId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"payload\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"receivedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"payment_webhook_event\"},\"CommissionRate\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"categoryId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"sellerId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"rate\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"updatedBy\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"category\",\"kind\":\"object\",\"type\":\"Category\",\"relationName\":\"CategoryToCommissionRate\"},{\"name\":\"seller\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"SellerCommissionRate\"}],\"dbName\":\"commission_rate\"},\"SellerLedgerEntry\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"sellerId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"type\",\"kind\":\"enum\",\"type\":\"LedgerEntryType\"},{\"name\":\"amount\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"grossAmount\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"commission\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"commissionRate\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"orderId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"orderItemId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"refundId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"payoutId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"seller\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"SellerLedger\"},{\"name\":\"orderItem\",\"kind\":\"object\",\"type\":\"OrderItem\",\"relationName\":\"OrderItemToSellerLedgerEntry\"},{\"name\":\"payout\",\"kind\":\"object\",\"type\":\"PayoutRequest\",\"relationName\":\"PayoutRequestToSellerLedgerEntry\"}],\"dbName\":\"seller_ledger_entry\"},\"PayoutRequest\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"sellerId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"amount\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"PayoutStatus\"},{\"name\":\"note\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"reviewedBy\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"reviewedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"reviewNote\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"reference\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"seller\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"SellerPayouts\"},{\"name\":\"ledgerEntry\",\"kind\":\"object\",\"type\":\"SellerLedgerEntry\",\"relationName\":\"PayoutRequestToSellerLedgerEntry\"}],\"dbName\":\"payout_request\"},\"Prescription\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"fileUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"fileType\",\"kind\":\"enum\",\"type\":\"PrescriptionFileType\"},{\"name\":\"patientName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"doctorName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"doctorRegNo\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"issueDate\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"expiryDate\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"PrescriptionStatus\"},{\"name\":\"reviewedBy\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"reviewedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"reviewNote\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"PrescriptionToUser\"},{\"name\":\"cartItems\",\"kind\":\"object\",\"type\":\"CartItem\",\"relationName\":\"CartItemToPrescription\"},{\"name\":\"orderItems\",\"kind\":\"object\",\"type\":\"OrderItem\",\"relationName\":\"OrderItemToPrescription\"}],\"dbName\":\"prescription\"},\"Recall\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"medicineId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"batchNumbers\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"manufacturedFrom\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"manufacturedTo\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"severity\",\"kind\":\"enum\",\"type\":\"RecallSeverity\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"RecallStatus\"},{\"name\":\"reason\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"instructions\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdBy\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"closedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"medicine\",\"kind\":\"object\",\"type\":\"Medicine\",\"relationName\":\"MedicineToRecall\"},{\"name\":\"batches\",\"kind\":\"object\",\"type\":\"MedicineBatch\",\"relationName\":\"MedicineBatchToRecall\"},{\"name\":\"notices\",\"kind\":\"object\",\"type\":\"RecallNotice\",\"relationName\":\"RecallToRecallNotice\"}],\"dbName\":\"recall\"},\"RecallNotice\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"recallId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"orderId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"orderItemId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"quantity\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"notifiedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"recall\",\"kind\":\"object\",\"type\":\"Recall\",\"relationName\":\"RecallToRecallNotice\"},{\"name\":\"order\",\"kind\":\"object\",\"type\":\"Order\",\"relationName\":\"OrderToRecallNotice\"},{\"name\":\"orderItem\",\"kind\":\"object\",\"type\":\"OrderItem\",\"relationName\":\"OrderItemToRecallNotice\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"RecallNoticeToUser\"}],\"dbName\":\"recall_notice\"},\"ReturnRequest\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"orderId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"orderItemId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"quantity\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"reason\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"photos\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"ReturnStatus\"},{\"name\":\"condition\",\"kind\":\"enum\",\"type\":\"ReturnCondition\"},{\"name\":\"restocked\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"reviewedBy\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"reviewedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"reviewNote\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"order\",\"kind\":\"object\",\"type\":\"Order\",\"relationName\":\"OrderToReturnRequest\"},{\"name\":\"orderItem\",\"kind\":\"object\",\"type\":\"OrderItem\",\"relationName\":\"OrderItemToReturnRequest\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"ReturnRequestToUser\"},{\"name\":\"refund\",\"kind\":\"object\",\"type\":\"Refund\",\"relationName\":\"RefundToReturnRequest\"},{\"name\":\"statusHistory\",\"kind\":\"object\",\"type\":\"OrderStatusHistory\",\"relationName\":\"OrderStatusHistoryToReturnRequest\"}],\"dbName\":\"return_request\"},\"Refund\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"returnRequestId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"orderId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"paymentId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"method\",\"kind\":\"enum\",\"type\":\"PaymentProvider\"},{\"name\":\"amount\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"RefundStatus\"},{\"name\":\"reference\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"processedBy\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"processedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"shipmentId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"reason\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"returnRequest\",\"kind\":\"object\",\"type\":\"ReturnRequest\",\"relationName\":\"RefundToReturnRequest\"},{\"name\":\"payment\",\"kind\":\"object\",\"type\":\"Payment\",\"relationName\":\"PaymentToRefund\"}],\"dbName\":\"refund\"},\"Review\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"medicineId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"rating\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"comment\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"ReviewToUser\"},{\"name\":\"medicine\",\"kind\":\"object\",\"type\":\"Medicine\",\"relationName\":\"MedicineToReview\"}],\"dbName\":\"review\"},\"SellerApplication\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"businessName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"tradeLicenseNumber\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"pharmacyLicenseNumber\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"licenseExpiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"SellerApplicationStatus\"},{\"name\":\"reviewedBy\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"reviewedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"reviewNote\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"submittedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"suspendedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"approvedUntil\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"SellerApplicationToUser\"},{\"name\":\"documents\",\"kind\":\"object\",\"type\":\"SellerDocument\",\"relationName\":\"SellerApplicationToSellerDocument\"}],\"dbName\":\"seller_application\"},\"SellerDocument\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"applicationId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"type\",\"kind\":\"enum\",\"type\":\"SellerDocumentType\"},{\"name\":\"fileUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"fileName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"application\",\"kind\":\"object\",\"type\":\"SellerApplication\",\"relationName\":\"SellerApplicationToSellerDocument\"}],\"dbName\":\"seller_document\"},\"SellerProfile\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"storeName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"slug\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"logoUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"address\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"operatingHours\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"rating\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"reviewCount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"SellerProfileToUser\"}],\"dbName\":\"seller_profile\"},\"ShippingZone\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"areas\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"isDefault\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"feeType\",\"kind\":\"enum\",\"type\":\"ShippingFeeType\"},{\"name\":\"baseFee\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"baseWeightGrams\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"perKgFee\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"freeShippingThreshold\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"isActive\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"orders\",\"kind\":\"object\",\"type\":\"Order\",\"relationName\":\"OrderToShippingZone\"}],\"dbName\":\"shipping_zone\"},\"StockMovement\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"medicineId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"batchId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"type\",\"kind\":\"enum\",\"type\":\"StockMovementType\"},{\"name\":\"quantity\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"balanceAfter\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"actorId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"reason\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"orderId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"returnRequestId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"medicine\",\"kind\":\"object\",\"type\":\"Medicine\",\"relationName\":\"MedicineToStockMovement\"},{\"name\":\"batch\",\"kind\":\"object\",\"type\":\"MedicineBatch\",\"relationName\":\"MedicineBatchToStockMovement\"},{\"name\":\"actor\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"StockMovementActor\"}],\"dbName\":\"stock_movement\"},\"User\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"email\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"password\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"emailVerified\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"image\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"phone\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"role\",\"kind\":\"enum\",\"type\":\"UserRole\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"UserStatus\"},{\"name\":\"banReason\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"banExpires\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"currency\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"sessions\",\"kind\":\"object\",\"type\":\"Session\",\"relationName\":\"SessionToUser\"},{\"name\":\"accounts\",\"kind\":\"object\",\"type\":\"Account\",\"relationName\":\"AccountToUser\"},{\"name\":\"cart\",\"kind\":\"object\",\"type\":\"Cart\",\"relationName\":\"CartToUser\"},{\"name\":\"sellerMedicines\",\"kind\":\"object\",\"type\":\"Medicine\",\"relationName\":\"SellerMedicines\"},{\"name\":\"orders\",\"kind\":\"object\",\"type\":\"Order\",\"relationName\":\"OrderToUser\"},{\"name\":\"sellerShipments\",\"kind\":\"object\",\"type\":\"Shipment\",\"relationName\":\"SellerShipments\"},{\"name\":\"reviews\",\"kind\":\"object\",\"type\":\"Review\",\"relationName\":\"ReviewToUser\"},{\"name\":\"prescriptions\",\"kind\":\"object\",\"type\":\"Prescription\",\"relationName\":\"PrescriptionToUser\"},{\"name\":\"payments\",\"kind\":\"object\",\"type\":\"Payment\",\"relationName\":\"PaymentToUser\"},{\"name\":\"returnRequests\",\"kind\":\"object\",\"type\":\"ReturnRequest\",\"relationName\":\"ReturnRequestToUser\"},{\"name\":\"stockMovements\",\"kind\":\"object\",\"type\":\"StockMovement\",\"relationName\":\"StockMovementActor\"},{\"name\":\"recallNotices\",\"kind\":\"object\",\"type\":\"RecallNotice\",\"relationName\":\"RecallNoticeToUser\"},{\"name\":\"sellerCoupons\",\"kind\":\"object\",\"type\":\"Coupon\",\"relationName\":\"SellerCoupons\"},{\"name\":\"addresses\",\"kind\":\"object\",\"type\":\"Address\",\"relationName\":\"AddressToUser\"},{\"name\":\"interactionOverrides\",\"kind\":\"object\",\"type\":\"InteractionOverride\",\"relationName\":\"InteractionOverrideToUser\"},{\"name\":\"importJobs\",\"kind\":\"object\",\"type\":\"ImportJob\",\"relationName\":\"ImportJobToUser\"},{\"name\":\"sellerApplication\",\"kind\":\"object\",\"type\":\"SellerApplication\",\"relationName\":\"SellerApplicationToUser\"},{\"name\":\"sellerProfile\",\"kind\":\"object\",\"type\":\"SellerProfile\",\"relationName\":\"SellerProfileToUser\"},{\"name\":\"commissionRate\",\"kind\":\"object\",\"type\":\"CommissionRate\",\"relationName\":\"SellerCommissionRate\"},{\"name\":\"ledgerEntries\",\"kind\":\"object\",\"type\":\"SellerLedgerEntry\",\"relationName\":\"SellerLedger\"},{\"name\":\"payoutRequests\",\"kind\":\"object\",\"type\":\"PayoutRequest\",\"relationName\":\"SellerPayouts\"}],\"dbName\":\"user\"},\"Session\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"expiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"token\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"ipAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userAgent\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"SessionToUser\"}],\"dbName\":\"session\"},\"Account\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"accountId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"providerId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"accessToken\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"refreshToken\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"idToken\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"accessTokenExpiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"refreshTokenExpiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"scope\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"password\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"AccountToUser\"}],\"dbName\":\"account\"},\"Verification\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"identifier\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"value\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"expiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"verification\"}},\"enums\":{},\"types\":{}}")
 
 async function decodeBase64AsWasm(wasmBase64: string): Promise<WebAssembly.Module> {
   const { Buffer } = await import('node:buffer')
@@ -60,8 +60,8 @@ export interface PrismaClientConstructor {
    * @example
    * ```
    * const prisma = new PrismaClient()
-   * // Fetch zero or more Carts
-   * const carts = await prisma.cart.findMany()
+   * // Fetch zero or more Addresses
+   * const addresses = await prisma.address.findMany()
    * ```
    * 
    * Read more in our [docs](https://pris.ly/d/client).
@@ -82,8 +82,8 @@ export interface PrismaClientConstructor {
  * @example
  * ```
  * const prisma = new PrismaClient()
- * // Fetch zero or more Carts
- * const carts = await prisma.cart.findMany()
+ * // Fetch zero or more Addresses
+ * const addresses = await prisma.address.findMany()
  * ```
  * 
  * Read more in our [docs](https://pris.ly/d/client).
@@ -177,6 +177,36 @@ export interface PrismaClient<
   }>>
 
       /**
+   * `prisma.address`: Exposes CRUD operations for the **Address** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more Addresses
+    * const addresses = await prisma.address.findMany()
+    * ```
+    */
+  get address(): Prisma.AddressDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.medicineBatch`: Exposes CRUD operations for the **MedicineBatch** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more MedicineBatches
+    * const medicineBatches = await prisma.medicineBatch.findMany()
+    * ```
+    */
+  get medicineBatch(): Prisma.MedicineBatchDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.orderItemBatch`: Exposes CRUD operations for the **OrderItemBatch** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more OrderItemBatches
+    * const orderItemBatches = await prisma.orderItemBatch.findMany()
+    * ```
+    */
+  get orderItemBatch(): Prisma.OrderItemBatchDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
    * `prisma.cart`: Exposes CRUD operations for the **Cart** model.
     * Example usage:
     * ```ts
@@ -196,6 +226,16 @@ export interface PrismaClient<
     */
   get cartItem(): Prisma.CartItemDelegate<ExtArgs, { omit: OmitOpts }>;
 
+  /**
+   * `prisma.importJob`: Exposes CRUD operations for the **ImportJob** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more ImportJobs
+    * const importJobs = await prisma.importJob.findMany()
+    * ```
+    */
+  get importJob(): Prisma.ImportJobDelegate<ExtArgs, { omit: OmitOpts }>;
+
   /**
    * `prisma.category`: Exposes CRUD operations for the **Category** model.
     * Example usage:
@@ -206,6 +246,66 @@ export interface PrismaClient<
     */
   get category(): Prisma.CategoryDelegate<ExtArgs, { omit: OmitOpts }>;
 
+  /**
+   * `prisma.coupon`: Exposes CRUD operations for the **Coupon** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more Coupons
+    * const coupons = await prisma.coupon.findMany()
+    * ```
+    */
+  get coupon(): Prisma.CouponDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.cartCoupon`: Exposes CRUD operations for the **CartCoupon** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more CartCoupons
+    * const cartCoupons = await prisma.cartCoupon.findMany()
+    * ```
+    */
+  get cartCoupon(): Prisma.CartCouponDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.couponRedemption`: Exposes CRUD operations for the **CouponRedemption** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more CouponRedemptions
+    * const couponRedemptions = await prisma.couponRedemption.findMany()
+    * ```
+    */
+  get couponRedemption(): Prisma.CouponRedemptionDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.exchangeRate`: Exposes CRUD operations for the **ExchangeRate** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more ExchangeRates
+    * const exchangeRates = await prisma.exchangeRate.findMany()
+    * ```
+    */
+  get exchangeRate(): Prisma.ExchangeRateDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.drugInteraction`: Exposes CRUD operations for the **DrugInteraction** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more DrugInteractions
+    * const drugInteractions = await prisma.drugInteraction.findMany()
+    * ```
+    */
+  get drugInteraction(): Prisma.DrugInteractionDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.interactionOverride`: Exposes CRUD operations for the **InteractionOverride** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more InteractionOverrides
+    * const interactionOverrides = await prisma.interactionOverride.findMany()
+    * ```
+    */
+  get interactionOverride(): Prisma.InteractionOverrideDelegate<ExtArgs, { omit: OmitOpts }>;
+
   /**
    * `prisma.medicine`: Exposes CRUD operations for the **Medicine** model.
     * Example usage:
@@ -216,6 +316,16 @@ export interface PrismaClient<
     */
   get medicine(): Prisma.MedicineDelegate<ExtArgs, { omit: OmitOpts }>;
 
+  /**
+   * `prisma.medicineIngredient`: Exposes CRUD operations for the **MedicineIngredient** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more MedicineIngredients
+    * const medicineIngredients = await prisma.medicineIngredient.findMany()
+    * ```
+    */
+  get medicineIngredient(): Prisma.MedicineIngredientDelegate<ExtArgs, { omit: OmitOpts }>;
+
   /**
    * `prisma.order`: Exposes CRUD operations for the **Order** model.
     * Example usage:
@@ -236,6 +346,16 @@ export interface PrismaClient<
     */
   get orderItem(): Prisma.OrderItemDelegate<ExtArgs, { omit: OmitOpts }>;
 
+  /**
+   * `prisma.shipment`: Exposes CRUD operations for the **Shipment** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more Shipments
+    * const shipments = await prisma.shipment.findMany()
+    * ```
+    */
+  get shipment(): Prisma.ShipmentDelegate<ExtArgs, { omit: OmitOpts }>;
+
   /**
    * `prisma.orderStatusHistory`: Exposes CRUD operations for the **OrderStatusHistory** model.
     * Example usage:
@@ -246,6 +366,106 @@ export interface PrismaClient<
     */
   get orderStatusHistory(): Prisma.OrderStatusHistoryDelegate<ExtArgs, { omit: OmitOpts }>;
 
+  /**
+   * `prisma.payment`: Exposes CRUD operations for the **Payment** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more Payments
+    * const payments = await prisma.payment.findMany()
+    * ```
+    */
+  get payment(): Prisma.PaymentDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.paymentWebhookEvent`: Exposes CRUD operations for the **PaymentWebhookEvent** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more PaymentWebhookEvents
+    * const paymentWebhookEvents = await prisma.paymentWebhookEvent.findMany()
+    * ```
+    */
+  get paymentWebhookEvent(): Prisma.PaymentWebhookEventDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.commissionRate`: Exposes CRUD operations for the **CommissionRate** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more CommissionRates
+    * const commissionRates = await prisma.commissionRate.findMany()
+    * ```
+    */
+  get commissionRate(): Prisma.CommissionRateDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.sellerLedgerEntry`: Exposes CRUD operations for the **SellerLedgerEntry** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more SellerLedgerEntries
+    * const sellerLedgerEntries = await prisma.sellerLedgerEntry.findMany()
+    * ```
+    */
+  get sellerLedgerEntry(): Prisma.SellerLedgerEntryDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.payoutRequest`: Exposes CRUD operations for the **PayoutRequest** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more PayoutRequests
+    * const payoutRequests = await prisma.payoutRequest.findMany()
+    * ```
+    */
+  get payoutRequest(): Prisma.PayoutRequestDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.prescription`: Exposes CRUD operations for the **Prescription** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more Prescriptions
+    * const prescriptions = await prisma.prescription.findMany()
+    * ```
+    */
+  get prescription(): Prisma.PrescriptionDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.recall`: Exposes CRUD operations for the **Recall** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more Recalls
+    * const recalls = await prisma.recall.findMany()
+    * ```
+    */
+  get recall(): Prisma.RecallDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.recallNotice`: Exposes CRUD operations for the **RecallNotice** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more RecallNotices
+    * const recallNotices = await prisma.recallNotice.findMany()
+    * ```
+    */
+  get recallNotice(): Prisma.RecallNoticeDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.returnRequest`: Exposes CRUD operations for the **ReturnRequest** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more ReturnRequests
+    * const returnRequests = await prisma.returnRequest.findMany()
+    * ```
+    */
+  get returnRequest(): Prisma.ReturnRequestDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.refund`: Exposes CRUD operations for the **Refund** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more Refunds
+    * const refunds = await prisma.refund.findMany()
+    * ```
+    */
+  get refund(): Prisma.RefundDelegate<ExtArgs, { omit: OmitOpts }>;
+
   /**
    * `prisma.review`: Exposes CRUD operations for the **Review** model.
     * Example usage:
@@ -256,6 +476,56 @@ export interface PrismaClient<
     */
   get review(): Prisma.ReviewDelegate<ExtArgs, { omit: OmitOpts }>;
 
+  /**
+   * `prisma.sellerApplication`: Exposes CRUD operations for the **SellerApplication** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more SellerApplications
+    * const sellerApplications = await prisma.sellerApplication.findMany()
+    * ```
+    */
+  get sellerApplication(): Prisma.SellerApplicationDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.sellerDocument`: Exposes CRUD operations for the **SellerDocument** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more SellerDocuments
+    * const sellerDocuments = await prisma.sellerDocument.findMany()
+    * ```
+    */
+  get sellerDocument(): Prisma.SellerDocumentDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.sellerProfile`: Exposes CRUD operations for the **SellerProfile** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more SellerProfiles
+    * const sellerProfiles = await prisma.sellerProfile.findMany()
+    * ```
+    */
+  get sellerProfile(): Prisma.SellerProfileDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.shippingZone`: Exposes CRUD operations for the **ShippingZone** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more ShippingZones
+    * const shippingZones = await prisma.shippingZone.findMany()
+    * ```
+    */
+  get shippingZone(): Prisma.ShippingZoneDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.stockMovement`: Exposes CRUD operations for the **StockMovement** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more StockMovements
+    * const stockMovements = await prisma.stockMovement.findMany()
+    * ```
+    */
+  get stockMovement(): Prisma.StockMovementDelegate<ExtArgs, { omit: OmitOpts }>;
+
   /**
    * `prisma.user`: Exposes CRUD operations for the **User** model.
     * Example usage:
@@ -51,14 +51,41 @@ export const AnyNull = runtime.AnyNull
 
 
 export const ModelName = {
+  Address: 'Address',
+  MedicineBatch: 'MedicineBatch',
+  OrderItemBatch: 'OrderItemBatch',
   Cart: 'Cart',
   CartItem: 'CartItem',
+  ImportJob: 'ImportJob',
   Category: 'Category',
+  Coupon: 'Coupon',
+  CartCoupon: 'CartCoupon',
+  CouponRedemption: 'CouponRedemption',
+  ExchangeRate: 'ExchangeRate',
+  DrugInteraction: 'DrugInteraction',
+  InteractionOverride: 'InteractionOverride',
   Medicine: 'Medicine',
+  MedicineIngredient: 'MedicineIngredient',
   Order: 'Order',
   OrderItem: 'OrderItem',
+  Shipment: 'Shipment',
   OrderStatusHistory: 'OrderStatusHistory',
+  Payment: 'Payment',
+  PaymentWebhookEvent: 'PaymentWebhookEvent',
+  CommissionRate: 'CommissionRate',
+  SellerLedgerEntry: 'SellerLedgerEntry',
+  PayoutRequest: 'PayoutRequest',
+  Prescription: 'Prescription',
+  Recall: 'Recall',
+  RecallNotice: 'RecallNotice',
+  ReturnRequest: 'ReturnRequest',
+  Refund: 'Refund',
   Review: 'Review',
+  SellerApplication: 'SellerApplication',
+  SellerDocument: 'SellerDocument',
+  SellerProfile: 'SellerProfile',
+  ShippingZone: 'ShippingZone',
+  StockMovement: 'StockMovement',
   User: 'User',
   Session: 'Session',
   Account: 'Account',
@@ -81,6 +108,54 @@ export const TransactionIsolationLevel = runtime.makeStrictEnum({
 export type TransactionIsolationLevel = (typeof TransactionIsolationLevel)[keyof typeof TransactionIsolationLevel]
 
 
+export const AddressScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  label: 'label',
+  recipientName: 'recipientName',
+  phone: 'phone',
+  division: 'division',
+  district: 'district',
+  upazila: 'upazila',
+  street: 'street',
+  postalCode: 'postalCode',
+  latitude: 'latitude',
+  longitude: 'longitude',
+  isDefault: 'isDefault',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type AddressScalarFieldEnum = (typeof AddressScalarFieldEnum)[keyof typeof AddressScalarFieldEnum]
+
+
+export const MedicineBatchScalarFieldEnum = {
+  id: 'id',
+  medicineId: 'medicineId',
+  batchNumber: 'batchNumber',
+  manufactureDate: 'manufactureDate',
+  expiryDate: 'expiryDate',
+  quantity: 'quantity',
+  purchaseCost: 'purchaseCost',
+  recallId: 'recallId',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type MedicineBatchScalarFieldEnum = (typeof MedicineBatchScalarFieldEnum)[keyof typeof MedicineBatchScalarFieldEnum]
+
+
+export const OrderItemBatchScalarFieldEnum = {
+  id: 'id',
+  orderItemId: 'orderItemId',
+  batchId: 'batchId',
+  quantity: 'quantity',
+  createdAt: 'createdAt'
+} as const
+
+export type OrderItemBatchScalarFieldEnum = (typeof OrderItemBatchScalarFieldEnum)[keyof typeof OrderItemBatchScalarFieldEnum]
+
+
 export const CartScalarFieldEnum = {
   id: 'id',
   userId: 'userId',
@@ -97,6 +172,7 @@ export const CartItemScalarFieldEnum = {
   medicineId: 'medicineId',
   quantity: 'quantity',
   unitPrice: 'unitPrice',
+  prescriptionId: 'prescriptionId',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt'
 } as const
@@ -104,19 +180,136 @@ export const CartItemScalarFieldEnum = {
 export type CartItemScalarFieldEnum = (typeof CartItemScalarFieldEnum)[keyof typeof CartItemScalarFieldEnum]
 
 
+export const ImportJobScalarFieldEnum = {
+  id: 'id',
+  sellerId: 'sellerId',
+  format: 'format',
+  fileName: 'fileName',
+  dryRun: 'dryRun',
+  status: 'status',
+  mapping: 'mapping',
+  totalRows: 'totalRows',
+  processedRows: 'processedRows',
+  createdCount: 'createdCount',
+  updatedCount: 'updatedCount',
+  failedCount: 'failedCount',
+  errors: 'errors',
+  error: 'error',
+  startedAt: 'startedAt',
+  finishedAt: 'finishedAt',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt',
+  rows: 'rows'
+} as const
+
+export type ImportJobScalarFieldEnum = (typeof ImportJobScalarFieldEnum)[keyof typeof ImportJobScalarFieldEnum]
+
+
 export const CategoryScalarFieldEnum = {
   id: 'id',
   name: 'name',
   slug: 'slug',
   description: 'description',
   isPrescriptionRequired: 'isPrescriptionRequired',
+  vatRate: 'vatRate',
   createdAt: 'createdAt',
-  updatedAt: 'updatedAt'
+  updatedAt: 'updatedAt',
+  maxPerOrder: 'maxPerOrder',
+  maxPerPeriod: 'maxPerPeriod',
+  limitPeriodDays: 'limitPeriodDays'
 } as const
 
 export type CategoryScalarFieldEnum = (typeof CategoryScalarFieldEnum)[keyof typeof CategoryScalarFieldEnum]
 
 
+export const CouponScalarFieldEnum = {
+  id: 'id',
+  code: 'code',
+  description: 'description',
+  type: 'type',
+  value: 'value',
+  maxDiscount: 'maxDiscount',
+  scope: 'scope',
+  categoryId: 'categoryId',
+  sellerId: 'sellerId',
+  minOrderValue: 'minOrderValue',
+  usageLimit: 'usageLimit',
+  perUserLimit: 'perUserLimit',
+  usedCount: 'usedCount',
+  stackable: 'stackable',
+  startsAt: 'startsAt',
+  endsAt: 'endsAt',
+  isActive: 'isActive',
+  createdBy: 'createdBy',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type CouponScalarFieldEnum = (typeof CouponScalarFieldEnum)[keyof typeof CouponScalarFieldEnum]
+
+
+export const CartCouponScalarFieldEnum = {
+  cartId: 'cartId',
+  couponId: 'couponId',
+  createdAt: 'createdAt'
+} as const
+
+export type CartCouponScalarFieldEnum = (typeof CartCouponScalarFieldEnum)[keyof typeof CartCouponScalarFieldEnum]
+
+
+export const CouponRedemptionScalarFieldEnum = {
+  id: 'id',
+  couponId: 'couponId',
+  orderId: 'orderId',
+  userId: 'userId',
+  code: 'code',
+  discount: 'discount',
+  createdAt: 'createdAt'
+} as const
+
+export type CouponRedemptionScalarFieldEnum = (typeof CouponRedemptionScalarFieldEnum)[keyof typeof CouponRedemptionScalarFieldEnum]
+
+
+export const ExchangeRateScalarFieldEnum = {
+  id: 'id',
+  baseCurrency: 'baseCurrency',
+  quoteCurrency: 'quoteCurrency',
+  rate: 'rate',
+  effectiveFrom: 'effectiveFrom',
+  createdBy: 'createdBy',
+  createdAt: 'createdAt'
+} as const
+
+export type ExchangeRateScalarFieldEnum = (typeof ExchangeRateScalarFieldEnum)[keyof typeof ExchangeRateScalarFieldEnum]
+
+
+export const DrugInteractionScalarFieldEnum = {
+  id: 'id',
+  ingredientA: 'ingredientA',
+  ingredientB: 'ingredientB',
+  severity: 'severity',
+  description: 'description',
+  createdBy: 'createdBy',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type DrugInteractionScalarFieldEnum = (typeof DrugInteractionScalarFieldEnum)[keyof typeof DrugInteractionScalarFieldEnum]
+
+
+export const InteractionOverrideScalarFieldEnum = {
+  id: 'id',
+  interactionId: 'interactionId',
+  userId: 'userId',
+  approvedBy: 'approvedBy',
+  reason: 'reason',
+  orderId: 'orderId',
+  createdAt: 'createdAt'
+} as const
+
+export type InteractionOverrideScalarFieldEnum = (typeof InteractionOverrideScalarFieldEnum)[keyof typeof InteractionOverrideScalarFieldEnum]
+
+
 export const MedicineScalarFieldEnum = {
   id: 'id',
   name: 'name',
@@ -124,12 +317,27 @@ export const MedicineScalarFieldEnum = {
   description: 'description',
   price: 'price',
   stock: 'stock',
+  stockDrift: 'stockDrift',
+  stockReconciledAt: 'stockReconciledAt',
   manufacturer: 'manufacturer',
   imageUrl: 'imageUrl',
+  weightGrams: 'weightGrams',
   isFeatured: 'isFeatured',
   isActive: 'isActive',
+  licenseSuspended: 'licenseSuspended',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt',
+  dosageForm: 'dosageForm',
+  strength: 'strength',
+  strengthUnit: 'strengthUnit',
+  packSize: 'packSize',
+  route: 'route',
+  storageConditions: 'storageConditions',
+  registrationNumber: 'registrationNumber',
+  sku: 'sku',
+  maxPerOrder: 'maxPerOrder',
+  maxPerPeriod: 'maxPerPeriod',
+  limitPeriodDays: 'limitPeriodDays',
   categoryId: 'categoryId',
   sellerId: 'sellerId'
 } as const
@@ -137,14 +345,40 @@ export const MedicineScalarFieldEnum = {
 export type MedicineScalarFieldEnum = (typeof MedicineScalarFieldEnum)[keyof typeof MedicineScalarFieldEnum]
 
 
+export const MedicineIngredientScalarFieldEnum = {
+  id: 'id',
+  medicineId: 'medicineId',
+  name: 'name',
+  amount: 'amount',
+  unit: 'unit'
+} as const
+
+export type MedicineIngredientScalarFieldEnum = (typeof MedicineIngredientScalarFieldEnum)[keyof typeof MedicineIngredientScalarFieldEnum]
+
+
 export const OrderScalarFieldEnum = {
   id: 'id',
   userId: 'userId',
+  subtotal: 'subtotal',
+  discount: 'discount',
+  shippingFee: 'shippingFee',
+  shippingDiscount: 'shippingDiscount',
+  tax: 'tax',
   total: 'total',
+  currency: 'currency',
+  exchangeRate: 'exchangeRate',
+  shippingZoneId: 'shippingZoneId',
   status: 'status',
   shippingName: 'shippingName',
   shippingPhone: 'shippingPhone',
   shippingAddress: 'shippingAddress',
+  addressId: 'addressId',
+  shippingDivision: 'shippingDivision',
+  shippingDistrict: 'shippingDistrict',
+  shippingUpazila: 'shippingUpazila',
+  shippingPostalCode: 'shippingPostalCode',
+  shippingLatitude: 'shippingLatitude',
+  shippingLongitude: 'shippingLongitude',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt'
 } as const
@@ -158,17 +392,47 @@ export const OrderItemScalarFieldEnum = {
   medicineId: 'medicineId',
   quantity: 'quantity',
   unitPrice: 'unitPrice',
+  basePrice: 'basePrice',
+  baseCurrency: 'baseCurrency',
+  exchangeRate: 'exchangeRate',
+  vatRate: 'vatRate',
+  taxAmount: 'taxAmount',
   orderItemStatus: 'orderItemStatus',
+  returnedQuantity: 'returnedQuantity',
+  shipmentId: 'shipmentId',
+  prescriptionId: 'prescriptionId',
   createdAt: 'createdAt',
-  updatedAt: 'updatedAt'
+  updatedAt: 'updatedAt',
+  prescriptionVerifiedAt: 'prescriptionVerifiedAt',
+  prescriptionVerifiedBy: 'prescriptionVerifiedBy'
 } as const
 
 export type OrderItemScalarFieldEnum = (typeof OrderItemScalarFieldEnum)[keyof typeof OrderItemScalarFieldEnum]
 
 
+export const ShipmentScalarFieldEnum = {
+  id: 'id',
+  orderId: 'orderId',
+  sellerId: 'sellerId',
+  status: 'status',
+  subtotal: 'subtotal',
+  trackingNumber: 'trackingNumber',
+  carrier: 'carrier',
+  shippedAt: 'shippedAt',
+  deliveredAt: 'deliveredAt',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type ShipmentScalarFieldEnum = (typeof ShipmentScalarFieldEnum)[keyof typeof ShipmentScalarFieldEnum]
+
+
 export const OrderStatusHistoryScalarFieldEnum = {
   id: 'id',
   orderId: 'orderId',
+  shipmentId: 'shipmentId',
+  returnRequestId: 'returnRequestId',
+  returnStatus: 'returnStatus',
   status: 'status',
   changedAt: 'changedAt',
   changedBy: 'changedBy',
@@ -179,6 +443,182 @@ export const OrderStatusHistoryScalarFieldEnum = {
 export type OrderStatusHistoryScalarFieldEnum = (typeof OrderStatusHistoryScalarFieldEnum)[keyof typeof OrderStatusHistoryScalarFieldEnum]
 
 
+export const PaymentScalarFieldEnum = {
+  id: 'id',
+  orderId: 'orderId',
+  userId: 'userId',
+  provider: 'provider',
+  status: 'status',
+  amount: 'amount',
+  currency: 'currency',
+  providerRef: 'providerRef',
+  redirectUrl: 'redirectUrl',
+  rawPayload: 'rawPayload',
+  failureReason: 'failureReason',
+  paidAt: 'paidAt',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type PaymentScalarFieldEnum = (typeof PaymentScalarFieldEnum)[keyof typeof PaymentScalarFieldEnum]
+
+
+export const PaymentWebhookEventScalarFieldEnum = {
+  id: 'id',
+  provider: 'provider',
+  eventId: 'eventId',
+  paymentId: 'paymentId',
+  payload: 'payload',
+  receivedAt: 'receivedAt'
+} as const
+
+export type PaymentWebhookEventScalarFieldEnum = (typeof PaymentWebhookEventScalarFieldEnum)[keyof typeof PaymentWebhookEventScalarFieldEnum]
+
+
+export const CommissionRateScalarFieldEnum = {
+  id: 'id',
+  categoryId: 'categoryId',
+  sellerId: 'sellerId',
+  rate: 'rate',
+  updatedBy: 'updatedBy',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type CommissionRateScalarFieldEnum = (typeof CommissionRateScalarFieldEnum)[keyof typeof CommissionRateScalarFieldEnum]
+
+
+export const SellerLedgerEntryScalarFieldEnum = {
+  id: 'id',
+  sellerId: 'sellerId',
+  type: 'type',
+  amount: 'amount',
+  grossAmount: 'grossAmount',
+  commission: 'commission',
+  commissionRate: 'commissionRate',
+  orderId: 'orderId',
+  orderItemId: 'orderItemId',
+  refundId: 'refundId',
+  payoutId: 'payoutId',
+  description: 'description',
+  createdAt: 'createdAt'
+} as const
+
+export type SellerLedgerEntryScalarFieldEnum = (typeof SellerLedgerEntryScalarFieldEnum)[keyof typeof SellerLedgerEntryScalarFieldEnum]
+
+
+export const PayoutRequestScalarFieldEnum = {
+  id: 'id',
+  sellerId: 'sellerId',
+  amount: 'amount',
+  status: 'status',
+  note: 'note',
+  reviewedBy: 'reviewedBy',
+  reviewedAt: 'reviewedAt',
+  reviewNote: 'reviewNote',
+  reference: 'reference',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type PayoutRequestScalarFieldEnum = (typeof PayoutRequestScalarFieldEnum)[keyof typeof PayoutRequestScalarFieldEnum]
+
+
+export const PrescriptionScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  fileUrl: 'fileUrl',
+  fileType: 'fileType',
+  patientName: 'patientName',
+  doctorName: 'doctorName',
+  doctorRegNo: 'doctorRegNo',
+  issueDate: 'issueDate',
+  expiryDate: 'expiryDate',
+  status: 'status',
+  reviewedBy: 'reviewedBy',
+  reviewedAt: 'reviewedAt',
+  reviewNote: 'reviewNote',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type PrescriptionScalarFieldEnum = (typeof PrescriptionScalarFieldEnum)[keyof typeof PrescriptionScalarFieldEnum]
+
+
+export const RecallScalarFieldEnum = {
+  id: 'id',
+  medicineId: 'medicineId',
+  batchNumbers: 'batchNumbers',
+  manufacturedFrom: 'manufacturedFrom',
+  manufacturedTo: 'manufacturedTo',
+  severity: 'severity',
+  status: 'status',
+  reason: 'reason',
+  instructions: 'instructions',
+  createdBy: 'createdBy',
+  closedAt: 'closedAt',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type RecallScalarFieldEnum = (typeof RecallScalarFieldEnum)[keyof typeof RecallScalarFieldEnum]
+
+
+export const RecallNoticeScalarFieldEnum = {
+  id: 'id',
+  recallId: 'recallId',
+  orderId: 'orderId',
+  orderItemId: 'orderItemId',
+  userId: 'userId',
+  quantity: 'quantity',
+  notifiedAt: 'notifiedAt',
+  createdAt: 'createdAt'
+} as const
+
+export type RecallNoticeScalarFieldEnum = (typeof RecallNoticeScalarFieldEnum)[keyof typeof RecallNoticeScalarFieldEnum]
+
+
+export const ReturnRequestScalarFieldEnum = {
+  id: 'id',
+  orderId: 'orderId',
+  orderItemId: 'orderItemId',
+  userId: 'userId',
+  quantity: 'quantity',
+  reason: 'reason',
+  photos: 'photos',
+  status: 'status',
+  condition: 'condition',
+  restocked: 'restocked',
+  reviewedBy: 'reviewedBy',
+  reviewedAt: 'reviewedAt',
+  reviewNote: 'reviewNote',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type ReturnRequestScalarFieldEnum = (typeof ReturnRequestScalarFieldEnum)[keyof typeof ReturnRequestScalarFieldEnum]
+
+
+export const RefundScalarFieldEnum = {
+  id: 'id',
+  returnRequestId: 'returnRequestId',
+  orderId: 'orderId',
+  paymentId: 'paymentId',
+  method: 'method',
+  amount: 'amount',
+  status: 'status',
+  reference: 'reference',
+  processedBy: 'processedBy',
+  processedAt: 'processedAt',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt',
+  shipmentId: 'shipmentId',
+  reason: 'reason'
+} as const
+
+export type RefundScalarFieldEnum = (typeof RefundScalarFieldEnum)[keyof typeof RefundScalarFieldEnum]
+
+
 export const ReviewScalarFieldEnum = {
   id: 'id',
   userId: 'userId',
@@ -192,6 +632,92 @@ export const ReviewScalarFieldEnum = {
 export type ReviewScalarFieldEnum = (typeof ReviewScalarFieldEnum)[keyof typeof ReviewScalarFieldEnum]
 
 
+export const SellerApplicationScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  businessName: 'businessName',
+  tradeLicenseNumber: 'tradeLicenseNumber',
+  pharmacyLicenseNumber: 'pharmacyLicenseNumber',
+  licenseExpiresAt: 'licenseExpiresAt',
+  status: 'status',
+  reviewedBy: 'reviewedBy',
+  reviewedAt: 'reviewedAt',
+  reviewNote: 'reviewNote',
+  submittedAt: 'submittedAt',
+  suspendedAt: 'suspendedAt',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt',
+  approvedUntil: 'approvedUntil'
+} as const
+
+export type SellerApplicationScalarFieldEnum = (typeof SellerApplicationScalarFieldEnum)[keyof typeof SellerApplicationScalarFieldEnum]
+
+
+export const SellerDocumentScalarFieldEnum = {
+  id: 'id',
+  applicationId: 'applicationId',
+  type: 'type',
+  fileUrl: 'fileUrl',
+  fileName: 'fileName',
+  createdAt: 'createdAt'
+} as const
+
+export type SellerDocumentScalarFieldEnum = (typeof SellerDocumentScalarFieldEnum)[keyof typeof SellerDocumentScalarFieldEnum]
+
+
+export const SellerProfileScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  storeName: 'storeName',
+  slug: 'slug',
+  logoUrl: 'logoUrl',
+  description: 'description',
+  address: 'address',
+  operatingHours: 'operatingHours',
+  rating: 'rating',
+  reviewCount: 'reviewCount',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type SellerProfileScalarFieldEnum = (typeof SellerProfileScalarFieldEnum)[keyof typeof SellerProfileScalarFieldEnum]
+
+
+export const ShippingZoneScalarFieldEnum = {
+  id: 'id',
+  name: 'name',
+  areas: 'areas',
+  isDefault: 'isDefault',
+  feeType: 'feeType',
+  baseFee: 'baseFee',
+  baseWeightGrams: 'baseWeightGrams',
+  perKgFee: 'perKgFee',
+  freeShippingThreshold: 'freeShippingThreshold',
+  isActive: 'isActive',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type ShippingZoneScalarFieldEnum = (typeof ShippingZoneScalarFieldEnum)[keyof typeof ShippingZoneScalarFieldEnum]
+
+
+export const StockMovementScalarFieldEnum = {
+  id: 'id',
+  medicineId: 'medicineId',
+  batchId: 'batchId',
+  type: 'type',
+  quantity: 'quantity',
+  balanceAfter: 'balanceAfter',
+  actorId: 'actorId',
+  reason: 'reason',
+  orderId: 'orderId',
+  returnRequestId: 'returnRequestId',
+  createdAt: 'createdAt'
+} as const
+
+export type StockMovementScalarFieldEnum = (typeof StockMovementScalarFieldEnum)[keyof typeof StockMovementScalarFieldEnum]
+
+
 export const UserScalarFieldEnum = {
   id: 'id',
   name: 'name',
@@ -202,6 +728,9 @@ export const UserScalarFieldEnum = {
   phone: 'phone',
   role: 'role',
   status: 'status',
+  banReason: 'banReason',
+  banExpires: 'banExpires',
+  currency: 'currency',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt'
 } as const
@@ -262,6 +791,21 @@ export const SortOrder = {
 export type SortOrder = (typeof SortOrder)[keyof typeof SortOrder]
 
 
+export const NullableJsonNullValueInput = {
+  DbNull: DbNull,
+  JsonNull: JsonNull
+} as const
+
+export type NullableJsonNullValueInput = (typeof NullableJsonNullValueInput)[keyof typeof NullableJsonNullValueInput]
+
+
+export const JsonNullValueInput = {
+  JsonNull: JsonNull
+} as const
+
+export type JsonNullValueInput = (typeof JsonNullValueInput)[keyof typeof JsonNullValueInput]
+
+
 export const QueryMode = {
   default: 'default',
   insensitive: 'insensitive'
@@ -277,3 +821,12 @@ export const NullsOrder = {
 
 export type NullsOrder = (typeof NullsOrder)[keyof typeof NullsOrder]
 
+
+export const JsonNullValueFilter = {
+  DbNull: DbNull,
+  JsonNull: JsonNull,
+  AnyNull: AnyNull
+} as const
+
+export type JsonNullValueFilter = (typeof JsonNullValueFilter)[keyof typeof JsonNullValueFilter]
+
@@ -8,14 +8,41 @@
  *
  * 🟢 You can import this file directly.
  */
+export type * from './models/Address'
+export type * from './models/MedicineBatch'
+export type * from './models/OrderItemBatch'
 export type * from './models/Cart'
 export type * from './models/CartItem'
+export type * from './models/ImportJob'
 export type * from './models/Category'
+export type * from './models/Coupon'
+export type * from './models/CartCoupon'
+export type * from './models/CouponRedemption'
+export type * from './models/ExchangeRate'
+export type * from './models/DrugInteraction'
+export type * from './models/InteractionOverride'
 export type * from './models/Medicine'
+export type * from './models/MedicineIngredient'
 export type * from './models/Order'
 export type * from './models/OrderItem'
+export type * from './models/Shipment'
 export type * from './models/OrderStatusHistory'
+export type * from './models/Payment'
+export type * from './models/PaymentWebhookEvent'
+export type * from './models/CommissionRate'
+export type * from './models/SellerLedgerEntry'
+export type * from './models/PayoutRequest'
+export type * from './models/Prescription'
+export type * from './models/Recall'
+export type * from './models/RecallNotice'
+export type * from './models/ReturnRequest'
+export type * from './models/Refund'
 export type * from './models/Review'
+export type * from './models/SellerApplication'
+export type * from './models/SellerDocument'
+export type * from './models/SellerProfile'
+export type * from './models/ShippingZone'
+export type * from './models/StockMovement'
 export type * from './models/User'
 export type * from './models/Session'
 export type * from './models/Account'
@@ -0,0 +1,1384 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `CartCoupon` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model CartCoupon
+ * 
+ */
+export type CartCouponModel = runtime.Types.Result.DefaultSelection<Prisma.$CartCouponPayload>
+
+export type AggregateCartCoupon = {
+  _count: CartCouponCountAggregateOutputType | null
+  _min: CartCouponMinAggregateOutputType | null
+  _max: CartCouponMaxAggregateOutputType | null
+}
+
+export type CartCouponMinAggregateOutputType = {
+  cartId: string | null
+  couponId: string | null
+  createdAt: Date | null
+}
+
+export type CartCouponMaxAggregateOutputType = {
+  cartId: string | null
+  couponId: string | null
+  createdAt: Date | null
+}
+
+export type CartCouponCountAggregateOutputType = {
+  cartId: number
+  couponId: number
+  createdAt: number
+  _all: number
+}
+
+
+export type CartCouponMinAggregateInputType = {
+  cartId?: true
+  couponId?: true
+  createdAt?: true
+}
+
+export type CartCouponMaxAggregateInputType = {
+  cartId?: true
+  couponId?: true
+  createdAt?: true
+}
+
+export type CartCouponCountAggregateInputType = {
+  cartId?: true
+  couponId?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type CartCouponAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which CartCoupon to aggregate.
+   */
+  where?: Prisma.CartCouponWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of CartCoupons to fetch.
+   */
+  orderBy?: Prisma.CartCouponOrderByWithRelationInput | Prisma.CartCouponOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.CartCouponWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` CartCoupons from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` CartCoupons.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned CartCoupons
+  **/
+  _count?: true | CartCouponCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: CartCouponMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: CartCouponMaxAggregateInputType
+}
+
+export type GetCartCouponAggregateType<T extends CartCouponAggregateArgs> = {
+      [P in keyof T & keyof AggregateCartCoupon]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateCartCoupon[P]>
+    : Prisma.GetScalarType<T[P], AggregateCartCoupon[P]>
+}
+
+
+
+
+export type CartCouponGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.CartCouponWhereInput
+  orderBy?: Prisma.CartCouponOrderByWithAggregationInput | Prisma.CartCouponOrderByWithAggregationInput[]
+  by: Prisma.CartCouponScalarFieldEnum[] | Prisma.CartCouponScalarFieldEnum
+  having?: Prisma.CartCouponScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: CartCouponCountAggregateInputType | true
+  _min?: CartCouponMinAggregateInputType
+  _max?: CartCouponMaxAggregateInputType
+}
+
+export type CartCouponGroupByOutputType = {
+  cartId: string
+  couponId: string
+  createdAt: Date
+  _count: CartCouponCountAggregateOutputType | null
+  _min: CartCouponMinAggregateOutputType | null
+  _max: CartCouponMaxAggregateOutputType | null
+}
+
+type GetCartCouponGroupByPayload<T extends CartCouponGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<CartCouponGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof CartCouponGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], CartCouponGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], CartCouponGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type CartCouponWhereInput = {
+  AND?: Prisma.CartCouponWhereInput | Prisma.CartCouponWhereInput[]
+  OR?: Prisma.CartCouponWhereInput[]
+  NOT?: Prisma.CartCouponWhereInput | Prisma.CartCouponWhereInput[]
+  cartId?: Prisma.StringFilter<"CartCoupon"> | string
+  couponId?: Prisma.StringFilter<"CartCoupon"> | string
+  createdAt?: Prisma.DateTimeFilter<"CartCoupon"> | Date | string
+  cart?: Prisma.XOR<Prisma.CartScalarRelationFilter, Prisma.CartWhereInput>
+  coupon?: Prisma.XOR<Prisma.CouponScalarRelationFilter, Prisma.CouponWhereInput>
+}
+
+export type CartCouponOrderByWithRelationInput = {
+  cartId?: Prisma.SortOrder
+  couponId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  cart?: Prisma.CartOrderByWithRelationInput
+  coupon?: Prisma.CouponOrderByWithRelationInput
+}
+
+export type CartCouponWhereUniqueInput = Prisma.AtLeast<{
+  cartId_couponId?: Prisma.CartCouponCartIdCouponIdCompoundUniqueInput
+  AND?: Prisma.CartCouponWhereInput | Prisma.CartCouponWhereInput[]
+  OR?: Prisma.CartCouponWhereInput[]
+  NOT?: Prisma.CartCouponWhereInput | Prisma.CartCouponWhereInput[]
+  cartId?: Prisma.StringFilter<"CartCoupon"> | string
+  couponId?: Prisma.StringFilter<"CartCoupon"> | string
+  createdAt?: Prisma.DateTimeFilter<"CartCoupon"> | Date | string
+  cart?: Prisma.XOR<Prisma.CartScalarRelationFilter, Prisma.CartWhereInput>
+  coupon?: Prisma.XOR<Prisma.CouponScalarRelationFilter, Prisma.CouponWhereInput>
+}, "cartId_couponId">
+
+export type CartCouponOrderByWithAggregationInput = {
+  cartId?: Prisma.SortOrder
+  couponId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.CartCouponCountOrderByAggregateInput
+  _max?: Prisma.CartCouponMaxOrderByAggregateInput
+  _min?: Prisma.CartCouponMinOrderByAggregateInput
+}
+
+export type CartCouponScalarWhereWithAggregatesInput = {
+  AND?: Prisma.CartCouponScalarWhereWithAggregatesInput | Prisma.CartCouponScalarWhereWithAggregatesInput[]
+  OR?: Prisma.CartCouponScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.CartCouponScalarWhereWithAggregatesInput | Prisma.CartCouponScalarWhereWithAggregatesInput[]
+  cartId?: Prisma.StringWithAggregatesFilter<"CartCoupon"> | string
+  couponId?: Prisma.StringWithAggregatesFilter<"CartCoupon"> | string
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"CartCoupon"> | Date | string
+}
+
+export type CartCouponCreateInput = {
+  createdAt?: Date | string
+  cart: Prisma.CartCreateNestedOneWithoutCouponsInput
+  coupon: Prisma.CouponCreateNestedOneWithoutCartsInput
+}
+
+export type CartCouponUncheckedCreateInput = {
+  cartId: string
+  couponId: string
+  createdAt?: Date | string
+}
+
+export type CartCouponUpdateInput = {
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  cart?: Prisma.CartUpdateOneRequiredWithoutCouponsNestedInput
+  coupon?: Prisma.CouponUpdateOneRequiredWithoutCartsNestedInput
+}
+
+export type CartCouponUncheckedUpdateInput = {
+  cartId?: Prisma.StringFieldUpdateOperationsInput | string
+  couponId?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type CartCouponCreateManyInput = {
+  cartId: string
+  couponId: string
+  createdAt?: Date | string
+}
+
+export type CartCouponUpdateManyMutationInput = {
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type CartCouponUncheckedUpdateManyInput = {
+  cartId?: Prisma.StringFieldUpdateOperationsInput | string
+  couponId?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type CartCouponListRelationFilter = {
+  every?: Prisma.CartCouponWhereInput
+  some?: Prisma.CartCouponWhereInput
+  none?: Prisma.CartCouponWhereInput
+}
+
+export type CartCouponOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type CartCouponCartIdCouponIdCompoundUniqueInput = {
+  cartId: string
+  couponId: string
+}
+
+export type CartCouponCountOrderByAggregateInput = {
+  cartId?: Prisma.SortOrder
+  couponId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type CartCouponMaxOrderByAggregateInput = {
+  cartId?: Prisma.SortOrder
+  couponId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type CartCouponMinOrderByAggregateInput = {
+  cartId?: Prisma.SortOrder
+  couponId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type CartCouponCreateNestedManyWithoutCartInput = {
+  create?: Prisma.XOR<Prisma.CartCouponCreateWithoutCartInput, Prisma.CartCouponUncheckedCreateWithoutCartInput> | Prisma.CartCouponCreateWithoutCartInput[] | Prisma.CartCouponUncheckedCreateWithoutCartInput[]
+  connectOrCreate?: Prisma.CartCouponCreateOrConnectWithoutCartInput | Prisma.CartCouponCreateOrConnectWithoutCartInput[]
+  createMany?: Prisma.CartCouponCreateManyCartInputEnvelope
+  connect?: Prisma.CartCouponWhereUniqueInput | Prisma.CartCouponWhereUniqueInput[]
+}
+
+export type CartCouponUncheckedCreateNestedManyWithoutCartInput = {
+  create?: Prisma.XOR<Prisma.CartCouponCreateWithoutCartInput, Prisma.CartCouponUncheckedCreateWithoutCartInput> | Prisma.CartCouponCreateWithoutCartInput[] | Prisma.CartCouponUncheckedCreateWithoutCartInput[]
+  connectOrCreate?: Prisma.CartCouponCreateOrConnectWithoutCartInput | Prisma.CartCouponCreateOrConnectWithoutCartInput[]
+  createMany?: Prisma.CartCouponCreateManyCartInputEnvelope
+  connect?: Prisma.CartCouponWhereUniqueInput | Prisma.CartCouponWhereUniqueInput[]
+}
+
+export type CartCouponUpdateManyWithoutCartNestedInput = {
+  create?: Prisma.XOR<Prisma.CartCouponCreateWithoutCartInput, Prisma.CartCouponUncheckedCreateWithoutCartInput> | Prisma.CartCouponCreateWithoutCartInput[] | Prisma.CartCouponUncheckedCreateWithoutCartInput[]
+  connectOrCreate?: Prisma.CartCouponCreateOrConnectWithoutCartInput | Prisma.CartCouponCreateOrConnectWithoutCartInput[]
+  upsert?: Prisma.CartCouponUpsertWithWhereUniqueWithoutCartInput | Prisma.CartCouponUpsertWithWhereUniqueWithoutCartInput[]
+  createMany?: Prisma.CartCouponCreateManyCartInputEnvelope
+  set?: Prisma.CartCouponWhereUniqueInput | Prisma.CartCouponWhereUniqueInput[]
+  disconnect?: Prisma.CartCouponWhereUniqueInput | Prisma.CartCouponWhereUniqueInput[]
+  delete?: Prisma.CartCouponWhereUniqueInput | Prisma.CartCouponWhereUniqueInput[]
+  connect?: Prisma.CartCouponWhereUniqueInput | Prisma.CartCouponWhereUniqueInput[]
+  update?: Prisma.CartCouponUpdateWithWhereUniqueWithoutCartInput | Prisma.CartCouponUpdateWithWhereUniqueWithoutCartInput[]
+  updateMany?: Prisma.CartCouponUpdateManyWithWhereWithoutCartInput | Prisma.CartCouponUpdateManyWithWhereWithoutCartInput[]
+  deleteMany?: Prisma.CartCouponScalarWhereInput | Prisma.CartCouponScalarWhereInput[]
+}
+
+export type CartCouponUncheckedUpdateManyWithoutCartNestedInput = {
+  create?: Prisma.XOR<Prisma.CartCouponCreateWithoutCartInput, Prisma.CartCouponUncheckedCreateWithoutCartInput> | Prisma.CartCouponCreateWithoutCartInput[] | Prisma.CartCouponUncheckedCreateWithoutCartInput[]
+  connectOrCreate?: Prisma.CartCouponCreateOrConnectWithoutCartInput | Prisma.CartCouponCreateOrConnectWithoutCartInput[]
+  upsert?: Prisma.CartCouponUpsertWithWhereUniqueWithoutCartInput | Prisma.CartCouponUpsertWithWhereUniqueWithoutCartInput[]
+  createMany?: Prisma.CartCouponCreateManyCartInputEnvelope
+  set?: Prisma.CartCouponWhereUniqueInput | Prisma.CartCouponWhereUniqueInput[]
+  disconnect?: Prisma.CartCouponWhereUniqueInput | Prisma.CartCouponWhereUniqueInput[]
+  delete?: Prisma.CartCouponWhereUniqueInput | Prisma.CartCouponWhereUniqueInput[]
+  connect?: Prisma.CartCouponWhereUniqueInput | Prisma.CartCouponWhereUniqueInput[]
+  update?: Prisma.CartCouponUpdateWithWhereUniqueWithoutCartInput | Prisma.CartCouponUpdateWithWhereUniqueWithoutCartInput[]
+  updateMany?: Prisma.CartCouponUpdateManyWithWhereWithoutCartInput | Prisma.CartCouponUpdateManyWithWhereWithoutCartInput[]
+  deleteMany?: Prisma.CartCouponScalarWhereInput | Prisma.CartCouponScalarWhereInput[]
+}
+
+export type CartCouponCreateNestedManyWithoutCouponInput = {
+  create?: Prisma.XOR<Prisma.CartCouponCreateWithoutCouponInput, Prisma.CartCouponUncheckedCreateWithoutCouponInput> | Prisma.CartCouponCreateWithoutCouponInput[] | Prisma.CartCouponUncheckedCreateWithoutCouponInput[]
+  connectOrCreate?: Prisma.CartCouponCreateOrConnectWithoutCouponInput | Prisma.CartCouponCreateOrConnectWithoutCouponInput[]
+  createMany?: Prisma.CartCouponCreateManyCouponInputEnvelope
+  connect?: Prisma.CartCouponWhereUniqueInput | Prisma.CartCouponWhereUniqueInput[]
+}
+
+export type CartCouponUncheckedCreateNestedManyWithoutCouponInput = {
+  create?: Prisma.XOR<Prisma.CartCouponCreateWithoutCouponInput, Prisma.CartCouponUncheckedCreateWithoutCouponInput> | Prisma.CartCouponCreateWithoutCouponInput[] | Prisma.CartCouponUncheckedCreateWithoutCouponInput[]
+  connectOrCreate?: Prisma.CartCouponCreateOrConnectWithoutCouponInput | Prisma.CartCouponCreateOrConnectWithoutCouponInput[]
+  createMany?: Prisma.CartCouponCreateManyCouponInputEnvelope
+  connect?: Prisma.CartCouponWhereUniqueInput | Prisma.CartCouponWhereUniqueInput[]
+}
+
+export type CartCouponUpdateManyWithoutCouponNestedInput = {
+  create?: Prisma.XOR<Prisma.CartCouponCreateWithoutCouponInput, Prisma.CartCouponUncheckedCreateWithoutCouponInput> | Prisma.CartCouponCreateWithoutCouponInput[] | Prisma.CartCouponUncheckedCreateWithoutCouponInput[]
+  connectOrCreate?: Prisma.CartCouponCreateOrConnectWithoutCouponInput | Prisma.CartCouponCreateOrConnectWithoutCouponInput[]
+  upsert?: Prisma.CartCouponUpsertWithWhereUniqueWithoutCouponInput | Prisma.CartCouponUpsertWithWhereUniqueWithoutCouponInput[]
+  createMany?: Prisma.CartCouponCreateManyCouponInputEnvelope
+  set?: Prisma.CartCouponWhereUniqueInput | Prisma.CartCouponWhereUniqueInput[]
+  disconnect?: Prisma.CartCouponWhereUniqueInput | Prisma.CartCouponWhereUniqueInput[]
+  delete?: Prisma.CartCouponWhereUniqueInput | Prisma.CartCouponWhereUniqueInput[]
+  connect?: Prisma.CartCouponWhereUniqueInput | Prisma.CartCouponWhereUniqueInput[]
+  update?: Prisma.CartCouponUpdateWithWhereUniqueWithoutCouponInput | Prisma.CartCouponUpdateWithWhereUniqueWithoutCouponInput[]
+  updateMany?: Prisma.CartCouponUpdateManyWithWhereWithoutCouponInput | Prisma.CartCouponUpdateManyWithWhereWithoutCouponInput[]
+  deleteMany?: Prisma.CartCouponScalarWhereInput | Prisma.CartCouponScalarWhereInput[]
+}
+
+export type CartCouponUncheckedUpdateManyWithoutCouponNestedInput = {
+  create?: Prisma.XOR<Prisma.CartCouponCreateWithoutCouponInput, Prisma.CartCouponUncheckedCreateWithoutCouponInput> | Prisma.CartCouponCreateWithoutCouponInput[] | Prisma.CartCouponUncheckedCreateWithoutCouponInput[]
+  connectOrCreate?: Prisma.CartCouponCreateOrConnectWithoutCouponInput | Prisma.CartCouponCreateOrConnectWithoutCouponInput[]
+  upsert?: Prisma.CartCouponUpsertWithWhereUniqueWithoutCouponInput | Prisma.CartCouponUpsertWithWhereUniqueWithoutCouponInput[]
+  createMany?: Prisma.CartCouponCreateManyCouponInputEnvelope
+  set?: Prisma.CartCouponWhereUniqueInput | Prisma.CartCouponWhereUniqueInput[]
+  disconnect?: Prisma.CartCouponWhereUniqueInput | Prisma.CartCouponWhereUniqueInput[]
+  delete?: Prisma.CartCouponWhereUniqueInput | Prisma.CartCouponWhereUniqueInput[]
+  connect?: Prisma.CartCouponWhereUniqueInput | Prisma.CartCouponWhereUniqueInput[]
+  update?: Prisma.CartCouponUpdateWithWhereUniqueWithoutCouponInput | Prisma.CartCouponUpdateWithWhereUniqueWithoutCouponInput[]
+  updateMany?: Prisma.CartCouponUpdateManyWithWhereWithoutCouponInput | Prisma.CartCouponUpdateManyWithWhereWithoutCouponInput[]
+  deleteMany?: Prisma.CartCouponScalarWhereInput | Prisma.CartCouponScalarWhereInput[]
+}
+
+export type CartCouponCreateWithoutCartInput = {
+  createdAt?: Date | string
+  coupon: Prisma.CouponCreateNestedOneWithoutCartsInput
+}
+
+export type CartCouponUncheckedCreateWithoutCartInput = {
+  couponId: string
+  createdAt?: Date | string
+}
+
+export type CartCouponCreateOrConnectWithoutCartInput = {
+  where: Prisma.CartCouponWhereUniqueInput
+  create: Prisma.XOR<Prisma.CartCouponCreateWithoutCartInput, Prisma.CartCouponUncheckedCreateWithoutCartInput>
+}
+
+export type CartCouponCreateManyCartInputEnvelope = {
+  data: Prisma.CartCouponCreateManyCartInput | Prisma.CartCouponCreateManyCartInput[]
+  skipDuplicates?: boolean
+}
+
+export type CartCouponUpsertWithWhereUniqueWithoutCartInput = {
+  where: Prisma.CartCouponWhereUniqueInput
+  update: Prisma.XOR<Prisma.CartCouponUpdateWithoutCartInput, Prisma.CartCouponUncheckedUpdateWithoutCartInput>
+  create: Prisma.XOR<Prisma.CartCouponCreateWithoutCartInput, Prisma.CartCouponUncheckedCreateWithoutCartInput>
+}
+
+export type CartCouponUpdateWithWhereUniqueWithoutCartInput = {
+  where: Prisma.CartCouponWhereUniqueInput
+  data: Prisma.XOR<Prisma.CartCouponUpdateWithoutCartInput, Prisma.CartCouponUncheckedUpdateWithoutCartInput>
+}
+
+export type CartCouponUpdateManyWithWhereWithoutCartInput = {
+  where: Prisma.CartCouponScalarWhereInput
+  data: Prisma.XOR<Prisma.CartCouponUpdateManyMutationInput, Prisma.CartCouponUncheckedUpdateManyWithoutCartInput>
+}
+
+export type CartCouponScalarWhereInput = {
+  AND?: Prisma.CartCouponScalarWhereInput | Prisma.CartCouponScalarWhereInput[]
+  OR?: Prisma.CartCouponScalarWhereInput[]
+  NOT?: Prisma.CartCouponScalarWhereInput | Prisma.CartCouponScalarWhereInput[]
+  cartId?: Prisma.StringFilter<"CartCoupon"> | string
+  couponId?: Prisma.StringFilter<"CartCoupon"> | string
+  createdAt?: Prisma.DateTimeFilter<"CartCoupon"> | Date | string
+}
+
+export type CartCouponCreateWithoutCouponInput = {
+  createdAt?: Date | string
+  cart: Prisma.CartCreateNestedOneWithoutCouponsInput
+}
+
+export type CartCouponUncheckedCreateWithoutCouponInput = {
+  cartId: string
+  createdAt?: Date | string
+}
+
+export type CartCouponCreateOrConnectWithoutCouponInput = {
+  where: Prisma.CartCouponWhereUniqueInput
+  create: Prisma.XOR<Prisma.CartCouponCreateWithoutCouponInput, Prisma.CartCouponUncheckedCreateWithoutCouponInput>
+}
+
+export type CartCouponCreateManyCouponInputEnvelope = {
+  data: Prisma.CartCouponCreateManyCouponInput | Prisma.CartCouponCreateManyCouponInput[]
+  skipDuplicates?: boolean
+}
+
+export type CartCouponUpsertWithWhereUniqueWithoutCouponInput = {
+  where: Prisma.CartCouponWhereUniqueInput
+  update: Prisma.XOR<Prisma.CartCouponUpdateWithoutCouponInput, Prisma.CartCouponUncheckedUpdateWithoutCouponInput>
+  create: Prisma.XOR<Prisma.CartCouponCreateWithoutCouponInput, Prisma.CartCouponUncheckedCreateWithoutCouponInput>
+}
+
+export type CartCouponUpdateWithWhereUniqueWithoutCouponInput = {
+  where: Prisma.CartCouponWhereUniqueInput
+  data: Prisma.XOR<Prisma.CartCouponUpdateWithoutCouponInput, Prisma.CartCouponUncheckedUpdateWithoutCouponInput>
+}
+
+export type CartCouponUpdateManyWithWhereWithoutCouponInput = {
+  where: Prisma.CartCouponScalarWhereInput
+  data: Prisma.XOR<Prisma.CartCouponUpdateManyMutationInput, Prisma.CartCouponUncheckedUpdateManyWithoutCouponInput>
+}
+
+export type CartCouponCreateManyCartInput = {
+  couponId: string
+  createdAt?: Date | string
+}
+
+export type CartCouponUpdateWithoutCartInput = {
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  coupon?: Prisma.CouponUpdateOneRequiredWithoutCartsNestedInput
+}
+
+export type CartCouponUncheckedUpdateWithoutCartInput = {
+  couponId?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type CartCouponUncheckedUpdateManyWithoutCartInput = {
+  couponId?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type CartCouponCreateManyCouponInput = {
+  cartId: string
+  createdAt?: Date | string
+}
+
+export type CartCouponUpdateWithoutCouponInput = {
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  cart?: Prisma.CartUpdateOneRequiredWithoutCouponsNestedInput
+}
+
+export type CartCouponUncheckedUpdateWithoutCouponInput = {
+  cartId?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type CartCouponUncheckedUpdateManyWithoutCouponInput = {
+  cartId?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type CartCouponSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  cartId?: boolean
+  couponId?: boolean
+  createdAt?: boolean
+  cart?: boolean | Prisma.CartDefaultArgs<ExtArgs>
+  coupon?: boolean | Prisma.CouponDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["cartCoupon"]>
+
+export type CartCouponSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  cartId?: boolean
+  couponId?: boolean
+  createdAt?: boolean
+  cart?: boolean | Prisma.CartDefaultArgs<ExtArgs>
+  coupon?: boolean | Prisma.CouponDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["cartCoupon"]>
+
+export type CartCouponSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  cartId?: boolean
+  couponId?: boolean
+  createdAt?: boolean
+  cart?: boolean | Prisma.CartDefaultArgs<ExtArgs>
+  coupon?: boolean | Prisma.CouponDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["cartCoupon"]>
+
+export type CartCouponSelectScalar = {
+  cartId?: boolean
+  couponId?: boolean
+  createdAt?: boolean
+}
+
+export type CartCouponOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"cartId" | "couponId" | "createdAt", ExtArgs["result"]["cartCoupon"]>
+export type CartCouponInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  cart?: boolean | Prisma.CartDefaultArgs<ExtArgs>
+  coupon?: boolean | Prisma.CouponDefaultArgs<ExtArgs>
+}
+export type CartCouponIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  cart?: boolean | Prisma.CartDefaultArgs<ExtArgs>
+  coupon?: boolean | Prisma.CouponDefaultArgs<ExtArgs>
+}
+export type CartCouponIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  cart?: boolean | Prisma.CartDefaultArgs<ExtArgs>
+  coupon?: boolean | Prisma.CouponDefaultArgs<ExtArgs>
+}
+
+export type $CartCouponPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "CartCoupon"
+  objects: {
+    cart: Prisma.$CartPayload<ExtArgs>
+    coupon: Prisma.$CouponPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    cartId: string
+    couponId: string
+    createdAt: Date
+  }, ExtArgs["result"]["cartCoupon"]>
+  composites: {}
+}
+
+export type CartCouponGetPayload<S extends boolean | null | undefined | CartCouponDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$CartCouponPayload, S>
+
+export type CartCouponCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<CartCouponFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: CartCouponCountAggregateInputType | true
+  }
+
+export interface CartCouponDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['CartCoupon'], meta: { name: 'CartCoupon' } }
+  /**
+   * Find zero or one CartCoupon that matches the filter.
+   * @param {CartCouponFindUniqueArgs} args - Arguments to find a CartCoupon
+   * @example
+   * // Get one CartCoupon
+   * const cartCoupon = await prisma.cartCoupon.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends CartCouponFindUniqueArgs>(args: Prisma.SelectSubset<T, CartCouponFindUniqueArgs<ExtArgs>>): Prisma.Prisma__CartCouponClient<runtime.Types.Result.GetResult<Prisma.$CartCouponPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one CartCoupon that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {CartCouponFindUniqueOrThrowArgs} args - Arguments to find a CartCoupon
+   * @example
+   * // Get one CartCoupon
+   * const cartCoupon = await prisma.cartCoupon.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends CartCouponFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, CartCouponFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__CartCouponClient<runtime.Types.Result.GetResult<Prisma.$CartCouponPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first CartCoupon that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CartCouponFindFirstArgs} args - Arguments to find a CartCoupon
+   * @example
+   * // Get one CartCoupon
+   * const cartCoupon = await prisma.cartCoupon.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends CartCouponFindFirstArgs>(args?: Prisma.SelectSubset<T, CartCouponFindFirstArgs<ExtArgs>>): Prisma.Prisma__CartCouponClient<runtime.Types.Result.GetResult<Prisma.$CartCouponPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first CartCoupon that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CartCouponFindFirstOrThrowArgs} args - Arguments to find a CartCoupon
+   * @example
+   * // Get one CartCoupon
+   * const cartCoupon = await prisma.cartCoupon.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends CartCouponFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, CartCouponFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__CartCouponClient<runtime.Types.Result.GetResult<Prisma.$CartCouponPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more CartCoupons that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CartCouponFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all CartCoupons
+   * const cartCoupons = await prisma.cartCoupon.findMany()
+   * 
+   * // Get first 10 CartCoupons
+   * const cartCoupons = await prisma.cartCoupon.findMany({ take: 10 })
+   * 
+   * // Only select the `cartId`
+   * const cartCouponWithCartIdOnly = await prisma.cartCoupon.findMany({ select: { cartId: true } })
+   * 
+   */
+  findMany<T extends CartCouponFindManyArgs>(args?: Prisma.SelectSubset<T, CartCouponFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$CartCouponPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a CartCoupon.
+   * @param {CartCouponCreateArgs} args - Arguments to create a CartCoupon.
+   * @example
+   * // Create one CartCoupon
+   * const CartCoupon = await prisma.cartCoupon.create({
+   *   data: {
+   *     // ... data to create a CartCoupon
+   *   }
+   * })
+   * 
+   */
+  create<T extends CartCouponCreateArgs>(args: Prisma.SelectSubset<T, CartCouponCreateArgs<ExtArgs>>): Prisma.Prisma__CartCouponClient<runtime.Types.Result.GetResult<Prisma.$CartCouponPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many CartCoupons.
+   * @param {CartCouponCreateManyArgs} args - Arguments to create many CartCoupons.
+   * @example
+   * // Create many CartCoupons
+   * const cartCoupon = await prisma.cartCoupon.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends CartCouponCreateManyArgs>(args?: Prisma.SelectSubset<T, CartCouponCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many CartCoupons and returns the data saved in the database.
+   * @param {CartCouponCreateManyAndReturnArgs} args - Arguments to create many CartCoupons.
+   * @example
+   * // Create many CartCoupons
+   * const cartCoupon = await prisma.cartCoupon.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many CartCoupons and only return the `cartId`
+   * const cartCouponWithCartIdOnly = await prisma.cartCoupon.createManyAndReturn({
+   *   select: { cartId: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends CartCouponCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, CartCouponCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$CartCouponPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a CartCoupon.
+   * @param {CartCouponDeleteArgs} args - Arguments to delete one CartCoupon.
+   * @example
+   * // Delete one CartCoupon
+   * const CartCoupon = await prisma.cartCoupon.delete({
+   *   where: {
+   *     // ... filter to delete one CartCoupon
+   *   }
+   * })
+   * 
+   */
+  delete<T extends CartCouponDeleteArgs>(args: Prisma.SelectSubset<T, CartCouponDeleteArgs<ExtArgs>>): Prisma.Prisma__CartCouponClient<runtime.Types.Result.GetResult<Prisma.$CartCouponPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one CartCoupon.
+   * @param {CartCouponUpdateArgs} args - Arguments to update one CartCoupon.
+   * @example
+   * // Update one CartCoupon
+   * const cartCoupon = await prisma.cartCoupon.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends CartCouponUpdateArgs>(args: Prisma.SelectSubset<T, CartCouponUpdateArgs<ExtArgs>>): Prisma.Prisma__CartCouponClient<runtime.Types.Result.GetResult<Prisma.$CartCouponPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more CartCoupons.
+   * @param {CartCouponDeleteManyArgs} args - Arguments to filter CartCoupons to delete.
+   * @example
+   * // Delete a few CartCoupons
+   * const { count } = await prisma.cartCoupon.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends CartCouponDeleteManyArgs>(args?: Prisma.SelectSubset<T, CartCouponDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more CartCoupons.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CartCouponUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many CartCoupons
+   * const cartCoupon = await prisma.cartCoupon.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends CartCouponUpdateManyArgs>(args: Prisma.SelectSubset<T, CartCouponUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more CartCoupons and returns the data updated in the database.
+   * @param {CartCouponUpdateManyAndReturnArgs} args - Arguments to update many CartCoupons.
+   * @example
+   * // Update many CartCoupons
+   * const cartCoupon = await prisma.cartCoupon.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more CartCoupons and only return the `cartId`
+   * const cartCouponWithCartIdOnly = await prisma.cartCoupon.updateManyAndReturn({
+   *   select: { cartId: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends CartCouponUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, CartCouponUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$CartCouponPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one CartCoupon.
+   * @param {CartCouponUpsertArgs} args - Arguments to update or create a CartCoupon.
+   * @example
+   * // Update or create a CartCoupon
+   * const cartCoupon = await prisma.cartCoupon.upsert({
+   *   create: {
+   *     // ... data to create a CartCoupon
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the CartCoupon we want to update
+   *   }
+   * })
+   */
+  upsert<T extends CartCouponUpsertArgs>(args: Prisma.SelectSubset<T, CartCouponUpsertArgs<ExtArgs>>): Prisma.Prisma__CartCouponClient<runtime.Types.Result.GetResult<Prisma.$CartCouponPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of CartCoupons.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CartCouponCountArgs} args - Arguments to filter CartCoupons to count.
+   * @example
+   * // Count the number of CartCoupons
+   * const count = await prisma.cartCoupon.count({
+   *   where: {
+   *     // ... the filter for the CartCoupons we want to count
+   *   }
+   * })
+  **/
+  count<T extends CartCouponCountArgs>(
+    args?: Prisma.Subset<T, CartCouponCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], CartCouponCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a CartCoupon.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CartCouponAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends CartCouponAggregateArgs>(args: Prisma.Subset<T, CartCouponAggregateArgs>): Prisma.PrismaPromise<GetCartCouponAggregateType<T>>
+
+  /**
+   * Group by CartCoupon.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CartCouponGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends CartCouponGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: CartCouponGroupByArgs['orderBy'] }
+      : { orderBy?: CartCouponGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, CartCouponGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetCartCouponGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the CartCoupon model
+ */
+readonly fields: CartCouponFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for CartCoupon.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__CartCouponClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  cart<T extends Prisma.CartDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.CartDefaultArgs<ExtArgs>>): Prisma.Prisma__CartClient<runtime.Types.Result.GetResult<Prisma.$CartPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  coupon<T extends Prisma.CouponDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.CouponDefaultArgs<ExtArgs>>): Prisma.Prisma__CouponClient<runtime.Types.Result.GetResult<Prisma.$CouponPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the CartCoupon model
+ */
+export interface CartCouponFieldRefs {
+  readonly cartId: Prisma.FieldRef<"CartCoupon", 'String'>
+  readonly couponId: Prisma.FieldRef<"CartCoupon", 'String'>
+  readonly createdAt: Prisma.FieldRef<"CartCoupon", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * CartCoupon findUnique
+ */
+export type CartCouponFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CartCoupon
+   */
+  select?: Prisma.CartCouponSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CartCoupon
+   */
+  omit?: Prisma.CartCouponOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CartCouponInclude<ExtArgs> | null
+  /**
+   * Filter, which CartCoupon to fetch.
+   */
+  where: Prisma.CartCouponWhereUniqueInput
+}
+
+/**
+ * CartCoupon findUniqueOrThrow
+ */
+export type CartCouponFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CartCoupon
+   */
+  select?: Prisma.CartCouponSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CartCoupon
+   */
+  omit?: Prisma.CartCouponOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CartCouponInclude<ExtArgs> | null
+  /**
+   * Filter, which CartCoupon to fetch.
+   */
+  where: Prisma.CartCouponWhereUniqueInput
+}
+
+/**
+ * CartCoupon findFirst
+ */
+export type CartCouponFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CartCoupon
+   */
+  select?: Prisma.CartCouponSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CartCoupon
+   */
+  omit?: Prisma.CartCouponOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CartCouponInclude<ExtArgs> | null
+  /**
+   * Filter, which CartCoupon to fetch.
+   */
+  where?: Prisma.CartCouponWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of CartCoupons to fetch.
+   */
+  orderBy?: Prisma.CartCouponOrderByWithRelationInput | Prisma.CartCouponOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for CartCoupons.
+   */
+  cursor?: Prisma.CartCouponWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` CartCoupons from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` CartCoupons.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of CartCoupons.
+   */
+  distinct?: Prisma.CartCouponScalarFieldEnum | Prisma.CartCouponScalarFieldEnum[]
+}
+
+/**
+ * CartCoupon findFirstOrThrow
+ */
+export type CartCouponFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CartCoupon
+   */
+  select?: Prisma.CartCouponSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CartCoupon
+   */
+  omit?: Prisma.CartCouponOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CartCouponInclude<ExtArgs> | null
+  /**
+   * Filter, which CartCoupon to fetch.
+   */
+  where?: Prisma.CartCouponWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of CartCoupons to fetch.
+   */
+  orderBy?: Prisma.CartCouponOrderByWithRelationInput | Prisma.CartCouponOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for CartCoupons.
+   */
+  cursor?: Prisma.CartCouponWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` CartCoupons from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` CartCoupons.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of CartCoupons.
+   */
+  distinct?: Prisma.CartCouponScalarFieldEnum | Prisma.CartCouponScalarFieldEnum[]
+}
+
+/**
+ * CartCoupon findMany
+ */
+export type CartCouponFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CartCoupon
+   */
+  select?: Prisma.CartCouponSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CartCoupon
+   */
+  omit?: Prisma.CartCouponOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CartCouponInclude<ExtArgs> | null
+  /**
+   * Filter, which CartCoupons to fetch.
+   */
+  where?: Prisma.CartCouponWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of CartCoupons to fetch.
+   */
+  orderBy?: Prisma.CartCouponOrderByWithRelationInput | Prisma.CartCouponOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing CartCoupons.
+   */
+  cursor?: Prisma.CartCouponWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` CartCoupons from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` CartCoupons.
+   */
+  skip?: number
+  distinct?: Prisma.CartCouponScalarFieldEnum | Prisma.CartCouponScalarFieldEnum[]
+}
+
+/**
+ * CartCoupon create
+ */
+export type CartCouponCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CartCoupon
+   */
+  select?: Prisma.CartCouponSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CartCoupon
+   */
+  omit?: Prisma.CartCouponOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CartCouponInclude<ExtArgs> | null
+  /**
+   * The data needed to create a CartCoupon.
+   */
+  data: Prisma.XOR<Prisma.CartCouponCreateInput, Prisma.CartCouponUncheckedCreateInput>
+}
+
+/**
+ * CartCoupon createMany
+ */
+export type CartCouponCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many CartCoupons.
+   */
+  data: Prisma.CartCouponCreateManyInput | Prisma.CartCouponCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * CartCoupon createManyAndReturn
+ */
+export type CartCouponCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CartCoupon
+   */
+  select?: Prisma.CartCouponSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the CartCoupon
+   */
+  omit?: Prisma.CartCouponOmit<ExtArgs> | null
+  /**
+   * The data used to create many CartCoupons.
+   */
+  data: Prisma.CartCouponCreateManyInput | Prisma.CartCouponCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CartCouponIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * CartCoupon update
+ */
+export type CartCouponUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CartCoupon
+   */
+  select?: Prisma.CartCouponSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CartCoupon
+   */
+  omit?: Prisma.CartCouponOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CartCouponInclude<ExtArgs> | null
+  /**
+   * The data needed to update a CartCoupon.
+   */
+  data: Prisma.XOR<Prisma.CartCouponUpdateInput, Prisma.CartCouponUncheckedUpdateInput>
+  /**
+   * Choose, which CartCoupon to update.
+   */
+  where: Prisma.CartCouponWhereUniqueInput
+}
+
+/**
+ * CartCoupon updateMany
+ */
+export type CartCouponUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update CartCoupons.
+   */
+  data: Prisma.XOR<Prisma.CartCouponUpdateManyMutationInput, Prisma.CartCouponUncheckedUpdateManyInput>
+  /**
+   * Filter which CartCoupons to update
+   */
+  where?: Prisma.CartCouponWhereInput
+  /**
+   * Limit how many CartCoupons to update.
+   */
+  limit?: number
+}
+
+/**
+ * CartCoupon updateManyAndReturn
+ */
+export type CartCouponUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CartCoupon
+   */
+  select?: Prisma.CartCouponSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the CartCoupon
+   */
+  omit?: Prisma.CartCouponOmit<ExtArgs> | null
+  /**
+   * The data used to update CartCoupons.
+   */
+  data: Prisma.XOR<Prisma.CartCouponUpdateManyMutationInput, Prisma.CartCouponUncheckedUpdateManyInput>
+  /**
+   * Filter which CartCoupons to update
+   */
+  where?: Prisma.CartCouponWhereInput
+  /**
+   * Limit how many CartCoupons to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CartCouponIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * CartCoupon upsert
+ */
+export type CartCouponUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CartCoupon
+   */
+  select?: Prisma.CartCouponSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CartCoupon
+   */
+  omit?: Prisma.CartCouponOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CartCouponInclude<ExtArgs> | null
+  /**
+   * The filter to search for the CartCoupon to update in case it exists.
+   */
+  where: Prisma.CartCouponWhereUniqueInput
+  /**
+   * In case the CartCoupon found by the `where` argument doesn't exist, create a new CartCoupon with this data.
+   */
+  create: Prisma.XOR<Prisma.CartCouponCreateInput, Prisma.CartCouponUncheckedCreateInput>
+  /**
+   * In case the CartCoupon was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.CartCouponUpdateInput, Prisma.CartCouponUncheckedUpdateInput>
+}
+
+/**
+ * CartCoupon delete
+ */
+export type CartCouponDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CartCoupon
+   */
+  select?: Prisma.CartCouponSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CartCoupon
+   */
+  omit?: Prisma.CartCouponOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CartCouponInclude<ExtArgs> | null
+  /**
+   * Filter which CartCoupon to delete.
+   */
+  where: Prisma.CartCouponWhereUniqueInput
+}
+
+/**
+ * CartCoupon deleteMany
+ */
+export type CartCouponDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which CartCoupons to delete
+   */
+  where?: Prisma.CartCouponWhereInput
+  /**
+   * Limit how many CartCoupons to delete.
+   */
+  limit?: number
+}
+
+/**
+ * CartCoupon without action
+ */
+export type CartCouponDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CartCoupon
+   */
+  select?: Prisma.CartCouponSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CartCoupon
+   */
+  omit?: Prisma.CartCouponOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CartCouponInclude<ExtArgs> | null
+}
@@ -28,12 +28,12 @@ export type AggregateCartItem = {
 
 export type CartItemAvgAggregateOutputType = {
   quantity: number | null
-  unitPrice: number | null
+  unitPrice: runtime.Decimal | null
 }
 
 export type CartItemSumAggregateOutputType = {
   quantity: number | null
-  unitPrice: number | null
+  unitPrice: runtime.Decimal | null
 }
 
 export type CartItemMinAggregateOutputType = {
@@ -41,7 +41,8 @@ export type CartItemMinAggregateOutputType = {
   cartId: string | null
   medicineId: string | null
   quantity: number | null
-  unitPrice: number | null
+  unitPrice: runtime.Decimal | null
+  prescriptionId: string | null
   createdAt: Date | null
   updatedAt: Date | null
 }
@@ -51,7 +52,8 @@ export type CartItemMaxAggregateOutputType = {
   cartId: string | null
   medicineId: string | null
   quantity: number | null
-  unitPrice: number | null
+  unitPrice: runtime.Decimal | null
+  prescriptionId: string | null
   createdAt: Date | null
   updatedAt: Date | null
 }
@@ -62,6 +64,7 @@ export type CartItemCountAggregateOutputType = {
   medicineId: number
   quantity: number
   unitPrice: number
+  prescriptionId: number
   createdAt: number
   updatedAt: number
   _all: number
@@ -84,6 +87,7 @@ export type CartItemMinAggregateInputType = {
   medicineId?: true
   quantity?: true
   unitPrice?: true
+  prescriptionId?: true
   createdAt?: true
   updatedAt?: true
 }
@@ -94,6 +98,7 @@ export type CartItemMaxAggregateInputType = {
   medicineId?: true
   quantity?: true
   unitPrice?: true
+  prescriptionId?: true
   createdAt?: true
   updatedAt?: true
 }
@@ -104,6 +109,7 @@ export type CartItemCountAggregateInputType = {
   medicineId?: true
   quantity?: true
   unitPrice?: true
+  prescriptionId?: true
   createdAt?: true
   updatedAt?: true
   _all?: true
@@ -200,7 +206,8 @@ export type CartItemGroupByOutputType = {
   cartId: string
   medicineId: string
   quantity: number
-  unitPrice: number
+  unitPrice: runtime.Decimal
+  prescriptionId: string | null
   createdAt: Date
   updatedAt: Date
   _count: CartItemCountAggregateOutputType | null
@@ -233,11 +240,13 @@ export type CartItemWhereInput = {
   cartId?: Prisma.StringFilter<"CartItem"> | string
   medicineId?: Prisma.StringFilter<"CartItem"> | string
   quantity?: Prisma.IntFilter<"CartItem"> | number
-  unitPrice?: Prisma.FloatFilter<"CartItem"> | number
+  unitPrice?: Prisma.DecimalFilter<"CartItem"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  prescriptionId?: Prisma.StringNullableFilter<"CartItem"> | string | null
   createdAt?: Prisma.DateTimeFilter<"CartItem"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"CartItem"> | Date | string
   cart?: Prisma.XOR<Prisma.CartScalarRelationFilter, Prisma.CartWhereInput>
   medicine?: Prisma.XOR<Prisma.MedicineScalarRelationFilter, Prisma.MedicineWhereInput>
+  prescription?: Prisma.XOR<Prisma.PrescriptionNullableScalarRelationFilter, Prisma.PrescriptionWhereInput> | null
 }
 
 export type CartItemOrderByWithRelationInput = {
@@ -246,10 +255,12 @@ export type CartItemOrderByWithRelationInput = {
   medicineId?: Prisma.SortOrder
   quantity?: Prisma.SortOrder
   unitPrice?: Prisma.SortOrder
+  prescriptionId?: Prisma.SortOrderInput | Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   cart?: Prisma.CartOrderByWithRelationInput
   medicine?: Prisma.MedicineOrderByWithRelationInput
+  prescription?: Prisma.PrescriptionOrderByWithRelationInput
 }
 
 export type CartItemWhereUniqueInput = Prisma.AtLeast<{
@@ -261,11 +272,13 @@ export type CartItemWhereUniqueInput = Prisma.AtLeast<{
   cartId?: Prisma.StringFilter<"CartItem"> | string
   medicineId?: Prisma.StringFilter<"CartItem"> | string
   quantity?: Prisma.IntFilter<"CartItem"> | number
-  unitPrice?: Prisma.FloatFilter<"CartItem"> | number
+  unitPrice?: Prisma.DecimalFilter<"CartItem"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  prescriptionId?: Prisma.StringNullableFilter<"CartItem"> | string | null
   createdAt?: Prisma.DateTimeFilter<"CartItem"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"CartItem"> | Date | string
   cart?: Prisma.XOR<Prisma.CartScalarRelationFilter, Prisma.CartWhereInput>
   medicine?: Prisma.XOR<Prisma.MedicineScalarRelationFilter, Prisma.MedicineWhereInput>
+  prescription?: Prisma.XOR<Prisma.PrescriptionNullableScalarRelationFilter, Prisma.PrescriptionWhereInput> | null
 }, "id" | "cartId_medicineId">
 
 export type CartItemOrderByWithAggregationInput = {
@@ -274,6 +287,7 @@ export type CartItemOrderByWithAggregationInput = {
   medicineId?: Prisma.SortOrder
   quantity?: Prisma.SortOrder
   unitPrice?: Prisma.SortOrder
+  prescriptionId?: Prisma.SortOrderInput | Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   _count?: Prisma.CartItemCountOrderByAggregateInput
@@ -291,7 +305,8 @@ export type CartItemScalarWhereWithAggregatesInput = {
   cartId?: Prisma.StringWithAggregatesFilter<"CartItem"> | string
   medicineId?: Prisma.StringWithAggregatesFilter<"CartItem"> | string
   quantity?: Prisma.IntWithAggregatesFilter<"CartItem"> | number
-  unitPrice?: Prisma.FloatWithAggregatesFilter<"CartItem"> | number
+  unitPrice?: Prisma.DecimalWithAggregatesFilter<"CartItem"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  prescriptionId?: Prisma.StringNullableWithAggregatesFilter<"CartItem"> | string | null
   createdAt?: Prisma.DateTimeWithAggregatesFilter<"CartItem"> | Date | string
   updatedAt?: Prisma.DateTimeWithAggregatesFilter<"CartItem"> | Date | string
 }
@@ -299,11 +314,12 @@ export type CartItemScalarWhereWithAggregatesInput = {
 export type CartItemCreateInput = {
   id?: string
   quantity: number
-  unitPrice: number
+  unitPrice: runtime.Decimal | runtime.DecimalJsLike | number | string
   createdAt?: Date | string
   updatedAt?: Date | string
   cart: Prisma.CartCreateNestedOneWithoutItemsInput
   medicine: Prisma.MedicineCreateNestedOneWithoutCartItemsInput
+  prescription?: Prisma.PrescriptionCreateNestedOneWithoutCartItemsInput
 }
 
 export type CartItemUncheckedCreateInput = {
@@ -311,7 +327,8 @@ export type CartItemUncheckedCreateInput = {
   cartId: string
   medicineId: string
   quantity: number
-  unitPrice: number
+  unitPrice: runtime.Decimal | runtime.DecimalJsLike | number | string
+  prescriptionId?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
 }
@@ -319,11 +336,12 @@ export type CartItemUncheckedCreateInput = {
 export type CartItemUpdateInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   quantity?: Prisma.IntFieldUpdateOperationsInput | number
-  unitPrice?: Prisma.FloatFieldUpdateOperationsInput | number
+  unitPrice?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   cart?: Prisma.CartUpdateOneRequiredWithoutItemsNestedInput
   medicine?: Prisma.MedicineUpdateOneRequiredWithoutCartItemsNestedInput
+  prescription?: Prisma.PrescriptionUpdateOneWithoutCartItemsNestedInput
 }
 
 export type CartItemUncheckedUpdateInput = {
@@ -331,7 +349,8 @@ export type CartItemUncheckedUpdateInput = {
   cartId?: Prisma.StringFieldUpdateOperationsInput | string
   medicineId?: Prisma.StringFieldUpdateOperationsInput | string
   quantity?: Prisma.IntFieldUpdateOperationsInput | number
-  unitPrice?: Prisma.FloatFieldUpdateOperationsInput | number
+  unitPrice?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  prescriptionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -341,7 +360,8 @@ export type CartItemCreateManyInput = {
   cartId: string
   medicineId: string
   quantity: number
-  unitPrice: number
+  unitPrice: runtime.Decimal | runtime.DecimalJsLike | number | string
+  prescriptionId?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
 }
@@ -349,7 +369,7 @@ export type CartItemCreateManyInput = {
 export type CartItemUpdateManyMutationInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   quantity?: Prisma.IntFieldUpdateOperationsInput | number
-  unitPrice?: Prisma.FloatFieldUpdateOperationsInput | number
+  unitPrice?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -359,7 +379,8 @@ export type CartItemUncheckedUpdateManyInput = {
   cartId?: Prisma.StringFieldUpdateOperationsInput | string
   medicineId?: Prisma.StringFieldUpdateOperationsInput | string
   quantity?: Prisma.IntFieldUpdateOperationsInput | number
-  unitPrice?: Prisma.FloatFieldUpdateOperationsInput | number
+  unitPrice?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  prescriptionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -385,6 +406,7 @@ export type CartItemCountOrderByAggregateInput = {
   medicineId?: Prisma.SortOrder
   quantity?: Prisma.SortOrder
   unitPrice?: Prisma.SortOrder
+  prescriptionId?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
 }
@@ -400,6 +422,7 @@ export type CartItemMaxOrderByAggregateInput = {
   medicineId?: Prisma.SortOrder
   quantity?: Prisma.SortOrder
   unitPrice?: Prisma.SortOrder
+  prescriptionId?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
 }
@@ -410,6 +433,7 @@ export type CartItemMinOrderByAggregateInput = {
   medicineId?: Prisma.SortOrder
   quantity?: Prisma.SortOrder
   unitPrice?: Prisma.SortOrder
+  prescriptionId?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
 }
@@ -461,20 +485,12 @@ export type CartItemUncheckedUpdateManyWithoutCartNestedInput = {
   deleteMany?: Prisma.CartItemScalarWhereInput | Prisma.CartItemScalarWhereInput[]
 }
 
-export type IntFieldUpdateOperationsInput = {
-  set?: number
-  increment?: number
-  decrement?: number
-  multiply?: number
-  divide?: number
-}
-
-export type FloatFieldUpdateOperationsInput = {
-  set?: number
-  increment?: number
-  decrement?: number
-  multiply?: number
-  divide?: number
+export type DecimalFieldUpdateOperationsInput = {
+  set?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  increment?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  decrement?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  multiply?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  divide?: runtime.Decimal | runtime.DecimalJsLike | number | string
 }
 
 export type CartItemCreateNestedManyWithoutMedicineInput = {
@@ -519,20 +535,64 @@ export type CartItemUncheckedUpdateManyWithoutMedicineNestedInput = {
   deleteMany?: Prisma.CartItemScalarWhereInput | Prisma.CartItemScalarWhereInput[]
 }
 
+export type CartItemCreateNestedManyWithoutPrescriptionInput = {
+  create?: Prisma.XOR<Prisma.CartItemCreateWithoutPrescriptionInput, Prisma.CartItemUncheckedCreateWithoutPrescriptionInput> | Prisma.CartItemCreateWithoutPrescriptionInput[] | Prisma.CartItemUncheckedCreateWithoutPrescriptionInput[]
+  connectOrCreate?: Prisma.CartItemCreateOrConnectWithoutPrescriptionInput | Prisma.CartItemCreateOrConnectWithoutPrescriptionInput[]
+  createMany?: Prisma.CartItemCreateManyPrescriptionInputEnvelope
+  connect?: Prisma.CartItemWhereUniqueInput | Prisma.CartItemWhereUniqueInput[]
+}
+
+export type CartItemUncheckedCreateNestedManyWithoutPrescriptionInput = {
+  create?: Prisma.XOR<Prisma.CartItemCreateWithoutPrescriptionInput, Prisma.CartItemUncheckedCreateWithoutPrescriptionInput> | Prisma.CartItemCreateWithoutPrescriptionInput[] | Prisma.CartItemUncheckedCreateWithoutPrescriptionInput[]
+  connectOrCreate?: Prisma.CartItemCreateOrConnectWithoutPrescriptionInput | Prisma.CartItemCreateOrConnectWithoutPrescriptionInput[]
+  createMany?: Prisma.CartItemCreateManyPrescriptionInputEnvelope
+  connect?: Prisma.CartItemWhereUniqueInput | Prisma.CartItemWhereUniqueInput[]
+}
+
+export type CartItemUpdateManyWithoutPrescriptionNestedInput = {
+  create?: Prisma.XOR<Prisma.CartItemCreateWithoutPrescriptionInput, Prisma.CartItemUncheckedCreateWithoutPrescriptionInput> | Prisma.CartItemCreateWithoutPrescriptionInput[] | Prisma.CartItemUncheckedCreateWithoutPrescriptionInput[]
+  connectOrCreate?: Prisma.CartItemCreateOrConnectWithoutPrescriptionInput | Prisma.CartItemCreateOrConnectWithoutPrescriptionInput[]
+  upsert?: Prisma.CartItemUpsertWithWhereUniqueWithoutPrescriptionInput | Prisma.CartItemUpsertWithWhereUniqueWithoutPrescriptionInput[]
+  createMany?: Prisma.CartItemCreateManyPrescriptionInputEnvelope
+  set?: Prisma.CartItemWhereUniqueInput | Prisma.CartItemWhereUniqueInput[]
+  disconnect?: Prisma.CartItemWhereUniqueInput | Prisma.CartItemWhereUniqueInput[]
+  delete?: Prisma.CartItemWhereUniqueInput | Prisma.CartItemWhereUniqueInput[]
+  connect?: Prisma.CartItemWhereUniqueInput | Prisma.CartItemWhereUniqueInput[]
+  update?: Prisma.CartItemUpdateWithWhereUniqueWithoutPrescriptionInput | Prisma.CartItemUpdateWithWhereUniqueWithoutPrescriptionInput[]
+  updateMany?: Prisma.CartItemUpdateManyWithWhereWithoutPrescriptionInput | Prisma.CartItemUpdateManyWithWhereWithoutPrescriptionInput[]
+  deleteMany?: Prisma.CartItemScalarWhereInput | Prisma.CartItemScalarWhereInput[]
+}
+
+export type CartItemUncheckedUpdateManyWithoutPrescriptionNestedInput = {
+  create?: Prisma.XOR<Prisma.CartItemCreateWithoutPrescriptionInput, Prisma.CartItemUncheckedCreateWithoutPrescriptionInput> | Prisma.CartItemCreateWithoutPrescriptionInput[] | Prisma.CartItemUncheckedCreateWithoutPrescriptionInput[]
+  connectOrCreate?: Prisma.CartItemCreateOrConnectWithoutPrescriptionInput | Prisma.CartItemCreateOrConnectWithoutPrescriptionInput[]
+  upsert?: Prisma.CartItemUpsertWithWhereUniqueWithoutPrescriptionInput | Prisma.CartItemUpsertWithWhereUniqueWithoutPrescriptionInput[]
+  createMany?: Prisma.CartItemCreateManyPrescriptionInputEnvelope
+  set?: Prisma.CartItemWhereUniqueInput | Prisma.CartItemWhereUniqueInput[]
+  disconnect?: Prisma.CartItemWhereUniqueInput | Prisma.CartItemWhereUniqueInput[]
+  delete?: Prisma.CartItemWhereUniqueInput | Prisma.CartItemWhereUniqueInput[]
+  connect?: Prisma.CartItemWhereUniqueInput | Prisma.CartItemWhereUniqueInput[]
+  update?: Prisma.CartItemUpdateWithWhereUniqueWithoutPrescriptionInput | Prisma.CartItemUpdateWithWhereUniqueWithoutPrescriptionInput[]
+  updateMany?: Prisma.CartItemUpdateManyWithWhereWithoutPrescriptionInput | Prisma.CartItemUpdateManyWithWhereWithoutPrescriptionInput[]
+  deleteMany?: Prisma.CartItemScalarWhereInput | Prisma.CartItemScalarWhereInput[]
+}
+
 export type CartItemCreateWithoutCartInput = {
   id?: string
   quantity: number
-  unitPrice: number
+  unitPrice: runtime.Decimal | runtime.DecimalJsLike | number | string
   createdAt?: Date | string
   updatedAt?: Date | string
   medicine: Prisma.MedicineCreateNestedOneWithoutCartItemsInput
+  prescription?: Prisma.PrescriptionCreateNestedOneWithoutCartItemsInput
 }
 
 export type CartItemUncheckedCreateWithoutCartInput = {
   id?: string
   medicineId: string
   quantity: number
-  unitPrice: number
+  unitPrice: runtime.Decimal | runtime.DecimalJsLike | number | string
+  prescriptionId?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
 }
@@ -571,7 +631,8 @@ export type CartItemScalarWhereInput = {
   cartId?: Prisma.StringFilter<"CartItem"> | string
   medicineId?: Prisma.StringFilter<"CartItem"> | string
   quantity?: Prisma.IntFilter<"CartItem"> | number
-  unitPrice?: Prisma.FloatFilter<"CartItem"> | number
+  unitPrice?: Prisma.DecimalFilter<"CartItem"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  prescriptionId?: Prisma.StringNullableFilter<"CartItem"> | string | null
   createdAt?: Prisma.DateTimeFilter<"CartItem"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"CartItem"> | Date | string
 }
@@ -579,17 +640,19 @@ export type CartItemScalarWhereInput = {
 export type CartItemCreateWithoutMedicineInput = {
   id?: string
   quantity: number
-  unitPrice: number
+  unitPrice: runtime.Decimal | runtime.DecimalJsLike | number | string
   createdAt?: Date | string
   updatedAt?: Date | string
   cart: Prisma.CartCreateNestedOneWithoutItemsInput
+  prescription?: Prisma.PrescriptionCreateNestedOneWithoutCartItemsInput
 }
 
 export type CartItemUncheckedCreateWithoutMedicineInput = {
   id?: string
   cartId: string
   quantity: number
-  unitPrice: number
+  unitPrice: runtime.Decimal | runtime.DecimalJsLike | number | string
+  prescriptionId?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
 }
@@ -620,11 +683,58 @@ export type CartItemUpdateManyWithWhereWithoutMedicineInput = {
   data: Prisma.XOR<Prisma.CartItemUpdateManyMutationInput, Prisma.CartItemUncheckedUpdateManyWithoutMedicineInput>
 }
 
+export type CartItemCreateWithoutPrescriptionInput = {
+  id?: string
+  quantity: number
+  unitPrice: runtime.Decimal | runtime.DecimalJsLike | number | string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  cart: Prisma.CartCreateNestedOneWithoutItemsInput
+  medicine: Prisma.MedicineCreateNestedOneWithoutCartItemsInput
+}
+
+export type CartItemUncheckedCreateWithoutPrescriptionInput = {
+  id?: string
+  cartId: string
+  medicineId: string
+  quantity: number
+  unitPrice: runtime.Decimal | runtime.DecimalJsLike | number | string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type CartItemCreateOrConnectWithoutPrescriptionInput = {
+  where: Prisma.CartItemWhereUniqueInput
+  create: Prisma.XOR<Prisma.CartItemCreateWithoutPrescriptionInput, Prisma.CartItemUncheckedCreateWithoutPrescriptionInput>
+}
+
+export type CartItemCreateManyPrescriptionInputEnvelope = {
+  data: Prisma.CartItemCreateManyPrescriptionInput | Prisma.CartItemCreateManyPrescriptionInput[]
+  skipDuplicates?: boolean
+}
+
+export type CartItemUpsertWithWhereUniqueWithoutPrescriptionInput = {
+  where: Prisma.CartItemWhereUniqueInput
+  update: Prisma.XOR<Prisma.CartItemUpdateWithoutPrescriptionInput, Prisma.CartItemUncheckedUpdateWithoutPrescriptionInput>
+  create: Prisma.XOR<Prisma.CartItemCreateWithoutPrescriptionInput, Prisma.CartItemUncheckedCreateWithoutPrescriptionInput>
+}
+
+export type CartItemUpdateWithWhereUniqueWithoutPrescriptionInput = {
+  where: Prisma.CartItemWhereUniqueInput
+  data: Prisma.XOR<Prisma.CartItemUpdateWithoutPrescriptionInput, Prisma.CartItemUncheckedUpdateWithoutPrescriptionInput>
+}
+
+export type CartItemUpdateManyWithWhereWithoutPrescriptionInput = {
+  where: Prisma.CartItemScalarWhereInput
+  data: Prisma.XOR<Prisma.CartItemUpdateManyMutationInput, Prisma.CartItemUncheckedUpdateManyWithoutPrescriptionInput>
+}
+
 export type CartItemCreateManyCartInput = {
   id?: string
   medicineId: string
   quantity: number
-  unitPrice: number
+  unitPrice: runtime.Decimal | runtime.DecimalJsLike | number | string
+  prescriptionId?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
 }
@@ -632,17 +742,19 @@ export type CartItemCreateManyCartInput = {
 export type CartItemUpdateWithoutCartInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   quantity?: Prisma.IntFieldUpdateOperationsInput | number
-  unitPrice?: Prisma.FloatFieldUpdateOperationsInput | number
+  unitPrice?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   medicine?: Prisma.MedicineUpdateOneRequiredWithoutCartItemsNestedInput
+  prescription?: Prisma.PrescriptionUpdateOneWithoutCartItemsNestedInput
 }
 
 export type CartItemUncheckedUpdateWithoutCartInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   medicineId?: Prisma.StringFieldUpdateOperationsInput | string
   quantity?: Prisma.IntFieldUpdateOperationsInput | number
-  unitPrice?: Prisma.FloatFieldUpdateOperationsInput | number
+  unitPrice?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  prescriptionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -651,7 +763,8 @@ export type CartItemUncheckedUpdateManyWithoutCartInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   medicineId?: Prisma.StringFieldUpdateOperationsInput | string
   quantity?: Prisma.IntFieldUpdateOperationsInput | number
-  unitPrice?: Prisma.FloatFieldUpdateOperationsInput | number
+  unitPrice?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  prescriptionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -660,7 +773,8 @@ export type CartItemCreateManyMedicineInput = {
   id?: string
   cartId: string
   quantity: number
-  unitPrice: number
+  unitPrice: runtime.Decimal | runtime.DecimalJsLike | number | string
+  prescriptionId?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
 }
@@ -668,17 +782,19 @@ export type CartItemCreateManyMedicineInput = {
 export type CartItemUpdateWithoutMedicineInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   quantity?: Prisma.IntFieldUpdateOperationsInput | number
-  unitPrice?: Prisma.FloatFieldUpdateOperationsInput | number
+  unitPrice?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   cart?: Prisma.CartUpdateOneRequiredWithoutItemsNestedInput
+  prescription?: Prisma.PrescriptionUpdateOneWithoutCartItemsNestedInput
 }
 
 export type CartItemUncheckedUpdateWithoutMedicineInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   cartId?: Prisma.StringFieldUpdateOperationsInput | string
   quantity?: Prisma.IntFieldUpdateOperationsInput | number
-  unitPrice?: Prisma.FloatFieldUpdateOperationsInput | number
+  unitPrice?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  prescriptionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -687,7 +803,48 @@ export type CartItemUncheckedUpdateManyWithoutMedicineInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   cartId?: Prisma.StringFieldUpdateOperationsInput | string
   quantity?: Prisma.IntFieldUpdateOperationsInput | number
-  unitPrice?: Prisma.FloatFieldUpdateOperationsInput | number
+  unitPrice?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  prescriptionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type CartItemCreateManyPrescriptionInput = {
+  id?: string
+  cartId: string
+  medicineId: string
+  quantity: number
+  unitPrice: runtime.Decimal | runtime.DecimalJsLike | number | string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type CartItemUpdateWithoutPrescriptionInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  unitPrice?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  cart?: Prisma.CartUpdateOneRequiredWithoutItemsNestedInput
+  medicine?: Prisma.MedicineUpdateOneRequiredWithoutCartItemsNestedInput
+}
+
+export type CartItemUncheckedUpdateWithoutPrescriptionInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  cartId?: Prisma.StringFieldUpdateOperationsInput | string
+  medicineId?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  unitPrice?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type CartItemUncheckedUpdateManyWithoutPrescriptionInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  cartId?: Prisma.StringFieldUpdateOperationsInput | string
+  medicineId?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  unitPrice?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -700,10 +857,12 @@ export type CartItemSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs
   medicineId?: boolean
   quantity?: boolean
   unitPrice?: boolean
+  prescriptionId?: boolean
   createdAt?: boolean
   updatedAt?: boolean
   cart?: boolean | Prisma.CartDefaultArgs<ExtArgs>
   medicine?: boolean | Prisma.MedicineDefaultArgs<ExtArgs>
+  prescription?: boolean | Prisma.CartItem$prescriptionArgs<ExtArgs>
 }, ExtArgs["result"]["cartItem"]>
 
 export type CartItemSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
@@ -712,10 +871,12 @@ export type CartItemSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Exte
   medicineId?: boolean
   quantity?: boolean
   unitPrice?: boolean
+  prescriptionId?: boolean
   createdAt?: boolean
   updatedAt?: boolean
   cart?: boolean | Prisma.CartDefaultArgs<ExtArgs>
   medicine?: boolean | Prisma.MedicineDefaultArgs<ExtArgs>
+  prescription?: boolean | Prisma.CartItem$prescriptionArgs<ExtArgs>
 }, ExtArgs["result"]["cartItem"]>
 
 export type CartItemSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
@@ -724,10 +885,12 @@ export type CartItemSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Exte
   medicineId?: boolean
   quantity?: boolean
   unitPrice?: boolean
+  prescriptionId?: boolean
   createdAt?: boolean
   updatedAt?: boolean
   cart?: boolean | Prisma.CartDefaultArgs<ExtArgs>
   medicine?: boolean | Prisma.MedicineDefaultArgs<ExtArgs>
+  prescription?: boolean | Prisma.CartItem$prescriptionArgs<ExtArgs>
 }, ExtArgs["result"]["cartItem"]>
 
 export type CartItemSelectScalar = {
@@ -736,22 +899,26 @@ export type CartItemSelectScalar = {
   medicineId?: boolean
   quantity?: boolean
   unitPrice?: boolean
+  prescriptionId?: boolean
   createdAt?: boolean
   updatedAt?: boolean
 }
 
-export type CartItemOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "cartId" | "medicineId" | "quantity" | "unitPrice" | "createdAt" | "updatedAt", ExtArgs["result"]["cartItem"]>
+export type CartItemOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "cartId" | "medicineId" | "quantity" | "unitPrice" | "prescriptionId" | "createdAt" | "updatedAt", ExtArgs["result"]["cartItem"]>
 export type CartItemInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   cart?: boolean | Prisma.CartDefaultArgs<ExtArgs>
   medicine?: boolean | Prisma.MedicineDefaultArgs<ExtArgs>
+  prescription?: boolean | Prisma.CartItem$prescriptionArgs<ExtArgs>
 }
 export type CartItemIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   cart?: boolean | Prisma.CartDefaultArgs<ExtArgs>
   medicine?: boolean | Prisma.MedicineDefaultArgs<ExtArgs>
+  prescription?: boolean | Prisma.CartItem$prescriptionArgs<ExtArgs>
 }
 export type CartItemIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   cart?: boolean | Prisma.CartDefaultArgs<ExtArgs>
   medicine?: boolean | Prisma.MedicineDefaultArgs<ExtArgs>
+  prescription?: boolean | Prisma.CartItem$prescriptionArgs<ExtArgs>
 }
 
 export type $CartItemPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
@@ -759,13 +926,15 @@ export type $CartItemPayload<ExtArgs extends runtime.Types.Extensions.InternalAr
   objects: {
     cart: Prisma.$CartPayload<ExtArgs>
     medicine: Prisma.$MedicinePayload<ExtArgs>
+    prescription: Prisma.$PrescriptionPayload<ExtArgs> | null
   }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
     id: string
     cartId: string
     medicineId: string
     quantity: number
-    unitPrice: number
+    unitPrice: runtime.Decimal
+    prescriptionId: string | null
     createdAt: Date
     updatedAt: Date
   }, ExtArgs["result"]["cartItem"]>
@@ -1164,6 +1333,7 @@ export interface Prisma__CartItemClient<T, Null = never, ExtArgs extends runtime
   readonly [Symbol.toStringTag]: "PrismaPromise"
   cart<T extends Prisma.CartDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.CartDefaultArgs<ExtArgs>>): Prisma.Prisma__CartClient<runtime.Types.Result.GetResult<Prisma.$CartPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
   medicine<T extends Prisma.MedicineDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.MedicineDefaultArgs<ExtArgs>>): Prisma.Prisma__MedicineClient<runtime.Types.Result.GetResult<Prisma.$MedicinePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  prescription<T extends Prisma.CartItem$prescriptionArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.CartItem$prescriptionArgs<ExtArgs>>): Prisma.Prisma__PrescriptionClient<runtime.Types.Result.GetResult<Prisma.$PrescriptionPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
    * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -1197,7 +1367,8 @@ export interface CartItemFieldRefs {
   readonly cartId: Prisma.FieldRef<"CartItem", 'String'>
   readonly medicineId: Prisma.FieldRef<"CartItem", 'String'>
   readonly quantity: Prisma.FieldRef<"CartItem", 'Int'>
-  readonly unitPrice: Prisma.FieldRef<"CartItem", 'Float'>
+  readonly unitPrice: Prisma.FieldRef<"CartItem", 'Decimal'>
+  readonly prescriptionId: Prisma.FieldRef<"CartItem", 'String'>
   readonly createdAt: Prisma.FieldRef<"CartItem", 'DateTime'>
   readonly updatedAt: Prisma.FieldRef<"CartItem", 'DateTime'>
 }
@@ -1595,6 +1766,25 @@ export type CartItemDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.Inte
   limit?: number
 }
 
+/**
+ * CartItem.prescription
+ */
+export type CartItem$prescriptionArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Prescription
+   */
+  select?: Prisma.PrescriptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Prescription
+   */
+  omit?: Prisma.PrescriptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PrescriptionInclude<ExtArgs> | null
+  where?: Prisma.PrescriptionWhereInput
+}
+
 /**
  * CartItem without action
  */
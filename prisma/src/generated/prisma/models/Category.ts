@@ -20,18 +20,38 @@ export type CategoryModel = runtime.Types.Result.DefaultSelection<Prisma.$Catego
 
 export type AggregateCategory = {
   _count: CategoryCountAggregateOutputType | null
+  _avg: CategoryAvgAggregateOutputType | null
+  _sum: CategorySumAggregateOutputType | null
   _min: CategoryMinAggregateOutputType | null
   _max: CategoryMaxAggregateOutputType | null
 }
 
+export type CategoryAvgAggregateOutputType = {
+  vatRate: number | null
+  maxPerOrder: number | null
+  maxPerPeriod: number | null
+  limitPeriodDays: number | null
+}
+
+export type CategorySumAggregateOutputType = {
+  vatRate: number | null
+  maxPerOrder: number | null
+  maxPerPeriod: number | null
+  limitPeriodDays: number | null
+}
+
 export type CategoryMinAggregateOutputType = {
   id: string | null
   name: string | null
   slug: string | null
   description: string | null
   isPrescriptionRequired: boolean | null
+  vatRate: number | null
   createdAt: Date | null
   updatedAt: Date | null
+  maxPerOrder: number | null
+  maxPerPeriod: number | null
+  limitPeriodDays: number | null
 }
 
 export type CategoryMaxAggregateOutputType = {
@@ -40,8 +60,12 @@ export type CategoryMaxAggregateOutputType = {
   slug: string | null
   description: string | null
   isPrescriptionRequired: boolean | null
+  vatRate: number | null
   createdAt: Date | null
   updatedAt: Date | null
+  maxPerOrder: number | null
+  maxPerPeriod: number | null
+  limitPeriodDays: number | null
 }
 
 export type CategoryCountAggregateOutputType = {
@@ -50,20 +74,42 @@ export type CategoryCountAggregateOutputType = {
   slug: number
   description: number
   isPrescriptionRequired: number
+  vatRate: number
   createdAt: number
   updatedAt: number
+  maxPerOrder: number
+  maxPerPeriod: number
+  limitPeriodDays: number
   _all: number
 }
 
 
+export type CategoryAvgAggregateInputType = {
+  vatRate?: true
+  maxPerOrder?: true
+  maxPerPeriod?: true
+  limitPeriodDays?: true
+}
+
+export type CategorySumAggregateInputType = {
+  vatRate?: true
+  maxPerOrder?: true
+  maxPerPeriod?: true
+  limitPeriodDays?: true
+}
+
 export type CategoryMinAggregateInputType = {
   id?: true
   name?: true
   slug?: true
   description?: true
   isPrescriptionRequired?: true
+  vatRate?: true
   createdAt?: true
   updatedAt?: true
+  maxPerOrder?: true
+  maxPerPeriod?: true
+  limitPeriodDays?: true
 }
 
 export type CategoryMaxAggregateInputType = {
@@ -72,8 +118,12 @@ export type CategoryMaxAggregateInputType = {
   slug?: true
   description?: true
   isPrescriptionRequired?: true
+  vatRate?: true
   createdAt?: true
   updatedAt?: true
+  maxPerOrder?: true
+  maxPerPeriod?: true
+  limitPeriodDays?: true
 }
 
 export type CategoryCountAggregateInputType = {
@@ -82,8 +132,12 @@ export type CategoryCountAggregateInputType = {
   slug?: true
   description?: true
   isPrescriptionRequired?: true
+  vatRate?: true
   createdAt?: true
   updatedAt?: true
+  maxPerOrder?: true
+  maxPerPeriod?: true
+  limitPeriodDays?: true
   _all?: true
 }
 
@@ -122,6 +176,18 @@ export type CategoryAggregateArgs<ExtArgs extends runtime.Types.Extensions.Inter
    * Count returned Categories
   **/
   _count?: true | CategoryCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: CategoryAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: CategorySumAggregateInputType
   /**
    * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
    * 
@@ -155,6 +221,8 @@ export type CategoryGroupByArgs<ExtArgs extends runtime.Types.Extensions.Interna
   take?: number
   skip?: number
   _count?: CategoryCountAggregateInputType | true
+  _avg?: CategoryAvgAggregateInputType
+  _sum?: CategorySumAggregateInputType
   _min?: CategoryMinAggregateInputType
   _max?: CategoryMaxAggregateInputType
 }
@@ -165,9 +233,15 @@ export type CategoryGroupByOutputType = {
   slug: string | null
   description: string | null
   isPrescriptionRequired: boolean | null
+  vatRate: number
   createdAt: Date
   updatedAt: Date
+  maxPerOrder: number | null
+  maxPerPeriod: number | null
+  limitPeriodDays: number | null
   _count: CategoryCountAggregateOutputType | null
+  _avg: CategoryAvgAggregateOutputType | null
+  _sum: CategorySumAggregateOutputType | null
   _min: CategoryMinAggregateOutputType | null
   _max: CategoryMaxAggregateOutputType | null
 }
@@ -196,9 +270,15 @@ export type CategoryWhereInput = {
   slug?: Prisma.StringNullableFilter<"Category"> | string | null
   description?: Prisma.StringNullableFilter<"Category"> | string | null
   isPrescriptionRequired?: Prisma.BoolNullableFilter<"Category"> | boolean | null
+  vatRate?: Prisma.FloatFilter<"Category"> | number
   createdAt?: Prisma.DateTimeFilter<"Category"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"Category"> | Date | string
+  maxPerOrder?: Prisma.IntNullableFilter<"Category"> | number | null
+  maxPerPeriod?: Prisma.IntNullableFilter<"Category"> | number | null
+  limitPeriodDays?: Prisma.IntNullableFilter<"Category"> | number | null
   medicines?: Prisma.MedicineListRelationFilter
+  coupons?: Prisma.CouponListRelationFilter
+  commissionRate?: Prisma.XOR<Prisma.CommissionRateNullableScalarRelationFilter, Prisma.CommissionRateWhereInput> | null
 }
 
 export type CategoryOrderByWithRelationInput = {
@@ -207,9 +287,15 @@ export type CategoryOrderByWithRelationInput = {
   slug?: Prisma.SortOrderInput | Prisma.SortOrder
   description?: Prisma.SortOrderInput | Prisma.SortOrder
   isPrescriptionRequired?: Prisma.SortOrderInput | Prisma.SortOrder
+  vatRate?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
+  maxPerOrder?: Prisma.SortOrderInput | Prisma.SortOrder
+  maxPerPeriod?: Prisma.SortOrderInput | Prisma.SortOrder
+  limitPeriodDays?: Prisma.SortOrderInput | Prisma.SortOrder
   medicines?: Prisma.MedicineOrderByRelationAggregateInput
+  coupons?: Prisma.CouponOrderByRelationAggregateInput
+  commissionRate?: Prisma.CommissionRateOrderByWithRelationInput
 }
 
 export type CategoryWhereUniqueInput = Prisma.AtLeast<{
@@ -221,9 +307,15 @@ export type CategoryWhereUniqueInput = Prisma.AtLeast<{
   NOT?: Prisma.CategoryWhereInput | Prisma.CategoryWhereInput[]
   description?: Prisma.StringNullableFilter<"Category"> | string | null
   isPrescriptionRequired?: Prisma.BoolNullableFilter<"Category"> | boolean | null
+  vatRate?: Prisma.FloatFilter<"Category"> | number
   createdAt?: Prisma.DateTimeFilter<"Category"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"Category"> | Date | string
+  maxPerOrder?: Prisma.IntNullableFilter<"Category"> | number | null
+  maxPerPeriod?: Prisma.IntNullableFilter<"Category"> | number | null
+  limitPeriodDays?: Prisma.IntNullableFilter<"Category"> | number | null
   medicines?: Prisma.MedicineListRelationFilter
+  coupons?: Prisma.CouponListRelationFilter
+  commissionRate?: Prisma.XOR<Prisma.CommissionRateNullableScalarRelationFilter, Prisma.CommissionRateWhereInput> | null
 }, "id" | "name" | "slug">
 
 export type CategoryOrderByWithAggregationInput = {
@@ -232,11 +324,17 @@ export type CategoryOrderByWithAggregationInput = {
   slug?: Prisma.SortOrderInput | Prisma.SortOrder
   description?: Prisma.SortOrderInput | Prisma.SortOrder
   isPrescriptionRequired?: Prisma.SortOrderInput | Prisma.SortOrder
+  vatRate?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
+  maxPerOrder?: Prisma.SortOrderInput | Prisma.SortOrder
+  maxPerPeriod?: Prisma.SortOrderInput | Prisma.SortOrder
+  limitPeriodDays?: Prisma.SortOrderInput | Prisma.SortOrder
   _count?: Prisma.CategoryCountOrderByAggregateInput
+  _avg?: Prisma.CategoryAvgOrderByAggregateInput
   _max?: Prisma.CategoryMaxOrderByAggregateInput
   _min?: Prisma.CategoryMinOrderByAggregateInput
+  _sum?: Prisma.CategorySumOrderByAggregateInput
 }
 
 export type CategoryScalarWhereWithAggregatesInput = {
@@ -248,8 +346,12 @@ export type CategoryScalarWhereWithAggregatesInput = {
   slug?: Prisma.StringNullableWithAggregatesFilter<"Category"> | string | null
   description?: Prisma.StringNullableWithAggregatesFilter<"Category"> | string | null
   isPrescriptionRequired?: Prisma.BoolNullableWithAggregatesFilter<"Category"> | boolean | null
+  vatRate?: Prisma.FloatWithAggregatesFilter<"Category"> | number
   createdAt?: Prisma.DateTimeWithAggregatesFilter<"Category"> | Date | string
   updatedAt?: Prisma.DateTimeWithAggregatesFilter<"Category"> | Date | string
+  maxPerOrder?: Prisma.IntNullableWithAggregatesFilter<"Category"> | number | null
+  maxPerPeriod?: Prisma.IntNullableWithAggregatesFilter<"Category"> | number | null
+  limitPeriodDays?: Prisma.IntNullableWithAggregatesFilter<"Category"> | number | null
 }
 
 export type CategoryCreateInput = {
@@ -258,9 +360,15 @@ export type CategoryCreateInput = {
   slug?: string | null
   description?: string | null
   isPrescriptionRequired?: boolean | null
+  vatRate?: number
   createdAt?: Date | string
   updatedAt?: Date | string
+  maxPerOrder?: number | null
+  maxPerPeriod?: number | null
+  limitPeriodDays?: number | null
   medicines?: Prisma.MedicineCreateNestedManyWithoutCategoryInput
+  coupons?: Prisma.CouponCreateNestedManyWithoutCategoryInput
+  commissionRate?: Prisma.CommissionRateCreateNestedOneWithoutCategoryInput
 }
 
 export type CategoryUncheckedCreateInput = {
@@ -269,9 +377,15 @@ export type CategoryUncheckedCreateInput = {
   slug?: string | null
   description?: string | null
   isPrescriptionRequired?: boolean | null
+  vatRate?: number
   createdAt?: Date | string
   updatedAt?: Date | string
+  maxPerOrder?: number | null
+  maxPerPeriod?: number | null
+  limitPeriodDays?: number | null
   medicines?: Prisma.MedicineUncheckedCreateNestedManyWithoutCategoryInput
+  coupons?: Prisma.CouponUncheckedCreateNestedManyWithoutCategoryInput
+  commissionRate?: Prisma.CommissionRateUncheckedCreateNestedOneWithoutCategoryInput
 }
 
 export type CategoryUpdateInput = {
@@ -280,9 +394,15 @@ export type CategoryUpdateInput = {
   slug?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   isPrescriptionRequired?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
+  vatRate?: Prisma.FloatFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  maxPerOrder?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxPerPeriod?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  limitPeriodDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   medicines?: Prisma.MedicineUpdateManyWithoutCategoryNestedInput
+  coupons?: Prisma.CouponUpdateManyWithoutCategoryNestedInput
+  commissionRate?: Prisma.CommissionRateUpdateOneWithoutCategoryNestedInput
 }
 
 export type CategoryUncheckedUpdateInput = {
@@ -291,9 +411,15 @@ export type CategoryUncheckedUpdateInput = {
   slug?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   isPrescriptionRequired?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
+  vatRate?: Prisma.FloatFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  maxPerOrder?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxPerPeriod?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  limitPeriodDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   medicines?: Prisma.MedicineUncheckedUpdateManyWithoutCategoryNestedInput
+  coupons?: Prisma.CouponUncheckedUpdateManyWithoutCategoryNestedInput
+  commissionRate?: Prisma.CommissionRateUncheckedUpdateOneWithoutCategoryNestedInput
 }
 
 export type CategoryCreateManyInput = {
@@ -302,8 +428,12 @@ export type CategoryCreateManyInput = {
   slug?: string | null
   description?: string | null
   isPrescriptionRequired?: boolean | null
+  vatRate?: number
   createdAt?: Date | string
   updatedAt?: Date | string
+  maxPerOrder?: number | null
+  maxPerPeriod?: number | null
+  limitPeriodDays?: number | null
 }
 
 export type CategoryUpdateManyMutationInput = {
@@ -312,8 +442,12 @@ export type CategoryUpdateManyMutationInput = {
   slug?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   isPrescriptionRequired?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
+  vatRate?: Prisma.FloatFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  maxPerOrder?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxPerPeriod?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  limitPeriodDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
 }
 
 export type CategoryUncheckedUpdateManyInput = {
@@ -322,8 +456,12 @@ export type CategoryUncheckedUpdateManyInput = {
   slug?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   isPrescriptionRequired?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
+  vatRate?: Prisma.FloatFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  maxPerOrder?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxPerPeriod?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  limitPeriodDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
 }
 
 export type CategoryCountOrderByAggregateInput = {
@@ -332,8 +470,19 @@ export type CategoryCountOrderByAggregateInput = {
   slug?: Prisma.SortOrder
   description?: Prisma.SortOrder
   isPrescriptionRequired?: Prisma.SortOrder
+  vatRate?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
+  maxPerOrder?: Prisma.SortOrder
+  maxPerPeriod?: Prisma.SortOrder
+  limitPeriodDays?: Prisma.SortOrder
+}
+
+export type CategoryAvgOrderByAggregateInput = {
+  vatRate?: Prisma.SortOrder
+  maxPerOrder?: Prisma.SortOrder
+  maxPerPeriod?: Prisma.SortOrder
+  limitPeriodDays?: Prisma.SortOrder
 }
 
 export type CategoryMaxOrderByAggregateInput = {
@@ -342,8 +491,12 @@ export type CategoryMaxOrderByAggregateInput = {
   slug?: Prisma.SortOrder
   description?: Prisma.SortOrder
   isPrescriptionRequired?: Prisma.SortOrder
+  vatRate?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
+  maxPerOrder?: Prisma.SortOrder
+  maxPerPeriod?: Prisma.SortOrder
+  limitPeriodDays?: Prisma.SortOrder
 }
 
 export type CategoryMinOrderByAggregateInput = {
@@ -352,8 +505,19 @@ export type CategoryMinOrderByAggregateInput = {
   slug?: Prisma.SortOrder
   description?: Prisma.SortOrder
   isPrescriptionRequired?: Prisma.SortOrder
+  vatRate?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
+  maxPerOrder?: Prisma.SortOrder
+  maxPerPeriod?: Prisma.SortOrder
+  limitPeriodDays?: Prisma.SortOrder
+}
+
+export type CategorySumOrderByAggregateInput = {
+  vatRate?: Prisma.SortOrder
+  maxPerOrder?: Prisma.SortOrder
+  maxPerPeriod?: Prisma.SortOrder
+  limitPeriodDays?: Prisma.SortOrder
 }
 
 export type CategoryNullableScalarRelationFilter = {
@@ -361,14 +525,42 @@ export type CategoryNullableScalarRelationFilter = {
   isNot?: Prisma.CategoryWhereInput | null
 }
 
-export type NullableStringFieldUpdateOperationsInput = {
-  set?: string | null
-}
-
 export type NullableBoolFieldUpdateOperationsInput = {
   set?: boolean | null
 }
 
+export type FloatFieldUpdateOperationsInput = {
+  set?: number
+  increment?: number
+  decrement?: number
+  multiply?: number
+  divide?: number
+}
+
+export type NullableIntFieldUpdateOperationsInput = {
+  set?: number | null
+  increment?: number
+  decrement?: number
+  multiply?: number
+  divide?: number
+}
+
+export type CategoryCreateNestedOneWithoutCouponsInput = {
+  create?: Prisma.XOR<Prisma.CategoryCreateWithoutCouponsInput, Prisma.CategoryUncheckedCreateWithoutCouponsInput>
+  connectOrCreate?: Prisma.CategoryCreateOrConnectWithoutCouponsInput
+  connect?: Prisma.CategoryWhereUniqueInput
+}
+
+export type CategoryUpdateOneWithoutCouponsNestedInput = {
+  create?: Prisma.XOR<Prisma.CategoryCreateWithoutCouponsInput, Prisma.CategoryUncheckedCreateWithoutCouponsInput>
+  connectOrCreate?: Prisma.CategoryCreateOrConnectWithoutCouponsInput
+  upsert?: Prisma.CategoryUpsertWithoutCouponsInput
+  disconnect?: Prisma.CategoryWhereInput | boolean
+  delete?: Prisma.CategoryWhereInput | boolean
+  connect?: Prisma.CategoryWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.CategoryUpdateToOneWithWhereWithoutCouponsInput, Prisma.CategoryUpdateWithoutCouponsInput>, Prisma.CategoryUncheckedUpdateWithoutCouponsInput>
+}
+
 export type CategoryCreateNestedOneWithoutMedicinesInput = {
   create?: Prisma.XOR<Prisma.CategoryCreateWithoutMedicinesInput, Prisma.CategoryUncheckedCreateWithoutMedicinesInput>
   connectOrCreate?: Prisma.CategoryCreateOrConnectWithoutMedicinesInput
@@ -385,14 +577,116 @@ export type CategoryUpdateOneWithoutMedicinesNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.CategoryUpdateToOneWithWhereWithoutMedicinesInput, Prisma.CategoryUpdateWithoutMedicinesInput>, Prisma.CategoryUncheckedUpdateWithoutMedicinesInput>
 }
 
+export type CategoryCreateNestedOneWithoutCommissionRateInput = {
+  create?: Prisma.XOR<Prisma.CategoryCreateWithoutCommissionRateInput, Prisma.CategoryUncheckedCreateWithoutCommissionRateInput>
+  connectOrCreate?: Prisma.CategoryCreateOrConnectWithoutCommissionRateInput
+  connect?: Prisma.CategoryWhereUniqueInput
+}
+
+export type CategoryUpdateOneWithoutCommissionRateNestedInput = {
+  create?: Prisma.XOR<Prisma.CategoryCreateWithoutCommissionRateInput, Prisma.CategoryUncheckedCreateWithoutCommissionRateInput>
+  connectOrCreate?: Prisma.CategoryCreateOrConnectWithoutCommissionRateInput
+  upsert?: Prisma.CategoryUpsertWithoutCommissionRateInput
+  disconnect?: Prisma.CategoryWhereInput | boolean
+  delete?: Prisma.CategoryWhereInput | boolean
+  connect?: Prisma.CategoryWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.CategoryUpdateToOneWithWhereWithoutCommissionRateInput, Prisma.CategoryUpdateWithoutCommissionRateInput>, Prisma.CategoryUncheckedUpdateWithoutCommissionRateInput>
+}
+
+export type CategoryCreateWithoutCouponsInput = {
+  id?: string
+  name: string
+  slug?: string | null
+  description?: string | null
+  isPrescriptionRequired?: boolean | null
+  vatRate?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  maxPerOrder?: number | null
+  maxPerPeriod?: number | null
+  limitPeriodDays?: number | null
+  medicines?: Prisma.MedicineCreateNestedManyWithoutCategoryInput
+  commissionRate?: Prisma.CommissionRateCreateNestedOneWithoutCategoryInput
+}
+
+export type CategoryUncheckedCreateWithoutCouponsInput = {
+  id?: string
+  name: string
+  slug?: string | null
+  description?: string | null
+  isPrescriptionRequired?: boolean | null
+  vatRate?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  maxPerOrder?: number | null
+  maxPerPeriod?: number | null
+  limitPeriodDays?: number | null
+  medicines?: Prisma.MedicineUncheckedCreateNestedManyWithoutCategoryInput
+  commissionRate?: Prisma.CommissionRateUncheckedCreateNestedOneWithoutCategoryInput
+}
+
+export type CategoryCreateOrConnectWithoutCouponsInput = {
+  where: Prisma.CategoryWhereUniqueInput
+  create: Prisma.XOR<Prisma.CategoryCreateWithoutCouponsInput, Prisma.CategoryUncheckedCreateWithoutCouponsInput>
+}
+
+export type CategoryUpsertWithoutCouponsInput = {
+  update: Prisma.XOR<Prisma.CategoryUpdateWithoutCouponsInput, Prisma.CategoryUncheckedUpdateWithoutCouponsInput>
+  create: Prisma.XOR<Prisma.CategoryCreateWithoutCouponsInput, Prisma.CategoryUncheckedCreateWithoutCouponsInput>
+  where?: Prisma.CategoryWhereInput
+}
+
+export type CategoryUpdateToOneWithWhereWithoutCouponsInput = {
+  where?: Prisma.CategoryWhereInput
+  data: Prisma.XOR<Prisma.CategoryUpdateWithoutCouponsInput, Prisma.CategoryUncheckedUpdateWithoutCouponsInput>
+}
+
+export type CategoryUpdateWithoutCouponsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  slug?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  isPrescriptionRequired?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
+  vatRate?: Prisma.FloatFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  maxPerOrder?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxPerPeriod?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  limitPeriodDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  medicines?: Prisma.MedicineUpdateManyWithoutCategoryNestedInput
+  commissionRate?: Prisma.CommissionRateUpdateOneWithoutCategoryNestedInput
+}
+
+export type CategoryUncheckedUpdateWithoutCouponsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  slug?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  isPrescriptionRequired?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
+  vatRate?: Prisma.FloatFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  maxPerOrder?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxPerPeriod?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  limitPeriodDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  medicines?: Prisma.MedicineUncheckedUpdateManyWithoutCategoryNestedInput
+  commissionRate?: Prisma.CommissionRateUncheckedUpdateOneWithoutCategoryNestedInput
+}
+
 export type CategoryCreateWithoutMedicinesInput = {
   id?: string
   name: string
   slug?: string | null
   description?: string | null
   isPrescriptionRequired?: boolean | null
+  vatRate?: number
   createdAt?: Date | string
   updatedAt?: Date | string
+  maxPerOrder?: number | null
+  maxPerPeriod?: number | null
+  limitPeriodDays?: number | null
+  coupons?: Prisma.CouponCreateNestedManyWithoutCategoryInput
+  commissionRate?: Prisma.CommissionRateCreateNestedOneWithoutCategoryInput
 }
 
 export type CategoryUncheckedCreateWithoutMedicinesInput = {
@@ -401,8 +695,14 @@ export type CategoryUncheckedCreateWithoutMedicinesInput = {
   slug?: string | null
   description?: string | null
   isPrescriptionRequired?: boolean | null
+  vatRate?: number
   createdAt?: Date | string
   updatedAt?: Date | string
+  maxPerOrder?: number | null
+  maxPerPeriod?: number | null
+  limitPeriodDays?: number | null
+  coupons?: Prisma.CouponUncheckedCreateNestedManyWithoutCategoryInput
+  commissionRate?: Prisma.CommissionRateUncheckedCreateNestedOneWithoutCategoryInput
 }
 
 export type CategoryCreateOrConnectWithoutMedicinesInput = {
@@ -427,8 +727,14 @@ export type CategoryUpdateWithoutMedicinesInput = {
   slug?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   isPrescriptionRequired?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
+  vatRate?: Prisma.FloatFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  maxPerOrder?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxPerPeriod?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  limitPeriodDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  coupons?: Prisma.CouponUpdateManyWithoutCategoryNestedInput
+  commissionRate?: Prisma.CommissionRateUpdateOneWithoutCategoryNestedInput
 }
 
 export type CategoryUncheckedUpdateWithoutMedicinesInput = {
@@ -437,8 +743,94 @@ export type CategoryUncheckedUpdateWithoutMedicinesInput = {
   slug?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   isPrescriptionRequired?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
+  vatRate?: Prisma.FloatFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  maxPerOrder?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxPerPeriod?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  limitPeriodDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  coupons?: Prisma.CouponUncheckedUpdateManyWithoutCategoryNestedInput
+  commissionRate?: Prisma.CommissionRateUncheckedUpdateOneWithoutCategoryNestedInput
+}
+
+export type CategoryCreateWithoutCommissionRateInput = {
+  id?: string
+  name: string
+  slug?: string | null
+  description?: string | null
+  isPrescriptionRequired?: boolean | null
+  vatRate?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  maxPerOrder?: number | null
+  maxPerPeriod?: number | null
+  limitPeriodDays?: number | null
+  medicines?: Prisma.MedicineCreateNestedManyWithoutCategoryInput
+  coupons?: Prisma.CouponCreateNestedManyWithoutCategoryInput
+}
+
+export type CategoryUncheckedCreateWithoutCommissionRateInput = {
+  id?: string
+  name: string
+  slug?: string | null
+  description?: string | null
+  isPrescriptionRequired?: boolean | null
+  vatRate?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  maxPerOrder?: number | null
+  maxPerPeriod?: number | null
+  limitPeriodDays?: number | null
+  medicines?: Prisma.MedicineUncheckedCreateNestedManyWithoutCategoryInput
+  coupons?: Prisma.CouponUncheckedCreateNestedManyWithoutCategoryInput
+}
+
+export type CategoryCreateOrConnectWithoutCommissionRateInput = {
+  where: Prisma.CategoryWhereUniqueInput
+  create: Prisma.XOR<Prisma.CategoryCreateWithoutCommissionRateInput, Prisma.CategoryUncheckedCreateWithoutCommissionRateInput>
+}
+
+export type CategoryUpsertWithoutCommissionRateInput = {
+  update: Prisma.XOR<Prisma.CategoryUpdateWithoutCommissionRateInput, Prisma.CategoryUncheckedUpdateWithoutCommissionRateInput>
+  create: Prisma.XOR<Prisma.CategoryCreateWithoutCommissionRateInput, Prisma.CategoryUncheckedCreateWithoutCommissionRateInput>
+  where?: Prisma.CategoryWhereInput
+}
+
+export type CategoryUpdateToOneWithWhereWithoutCommissionRateInput = {
+  where?: Prisma.CategoryWhereInput
+  data: Prisma.XOR<Prisma.CategoryUpdateWithoutCommissionRateInput, Prisma.CategoryUncheckedUpdateWithoutCommissionRateInput>
+}
+
+export type CategoryUpdateWithoutCommissionRateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  slug?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  isPrescriptionRequired?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
+  vatRate?: Prisma.FloatFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  maxPerOrder?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxPerPeriod?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  limitPeriodDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  medicines?: Prisma.MedicineUpdateManyWithoutCategoryNestedInput
+  coupons?: Prisma.CouponUpdateManyWithoutCategoryNestedInput
+}
+
+export type CategoryUncheckedUpdateWithoutCommissionRateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  slug?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  isPrescriptionRequired?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
+  vatRate?: Prisma.FloatFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  maxPerOrder?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxPerPeriod?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  limitPeriodDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  medicines?: Prisma.MedicineUncheckedUpdateManyWithoutCategoryNestedInput
+  coupons?: Prisma.CouponUncheckedUpdateManyWithoutCategoryNestedInput
 }
 
 
@@ -448,10 +840,12 @@ export type CategoryUncheckedUpdateWithoutMedicinesInput = {
 
 export type CategoryCountOutputType = {
   medicines: number
+  coupons: number
 }
 
 export type CategoryCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   medicines?: boolean | CategoryCountOutputTypeCountMedicinesArgs
+  coupons?: boolean | CategoryCountOutputTypeCountCouponsArgs
 }
 
 /**
@@ -471,6 +865,13 @@ export type CategoryCountOutputTypeCountMedicinesArgs<ExtArgs extends runtime.Ty
   where?: Prisma.MedicineWhereInput
 }
 
+/**
+ * CategoryCountOutputType without action
+ */
+export type CategoryCountOutputTypeCountCouponsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.CouponWhereInput
+}
+
 
 export type CategorySelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
@@ -478,9 +879,15 @@ export type CategorySelect<ExtArgs extends runtime.Types.Extensions.InternalArgs
   slug?: boolean
   description?: boolean
   isPrescriptionRequired?: boolean
+  vatRate?: boolean
   createdAt?: boolean
   updatedAt?: boolean
+  maxPerOrder?: boolean
+  maxPerPeriod?: boolean
+  limitPeriodDays?: boolean
   medicines?: boolean | Prisma.Category$medicinesArgs<ExtArgs>
+  coupons?: boolean | Prisma.Category$couponsArgs<ExtArgs>
+  commissionRate?: boolean | Prisma.Category$commissionRateArgs<ExtArgs>
   _count?: boolean | Prisma.CategoryCountOutputTypeDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["category"]>
 
@@ -490,8 +897,12 @@ export type CategorySelectCreateManyAndReturn<ExtArgs extends runtime.Types.Exte
   slug?: boolean
   description?: boolean
   isPrescriptionRequired?: boolean
+  vatRate?: boolean
   createdAt?: boolean
   updatedAt?: boolean
+  maxPerOrder?: boolean
+  maxPerPeriod?: boolean
+  limitPeriodDays?: boolean
 }, ExtArgs["result"]["category"]>
 
 export type CategorySelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
@@ -500,8 +911,12 @@ export type CategorySelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Exte
   slug?: boolean
   description?: boolean
   isPrescriptionRequired?: boolean
+  vatRate?: boolean
   createdAt?: boolean
   updatedAt?: boolean
+  maxPerOrder?: boolean
+  maxPerPeriod?: boolean
+  limitPeriodDays?: boolean
 }, ExtArgs["result"]["category"]>
 
 export type CategorySelectScalar = {
@@ -510,13 +925,19 @@ export type CategorySelectScalar = {
   slug?: boolean
   description?: boolean
   isPrescriptionRequired?: boolean
+  vatRate?: boolean
   createdAt?: boolean
   updatedAt?: boolean
+  maxPerOrder?: boolean
+  maxPerPeriod?: boolean
+  limitPeriodDays?: boolean
 }
 
-export type CategoryOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "name" | "slug" | "description" | "isPrescriptionRequired" | "createdAt" | "updatedAt", ExtArgs["result"]["category"]>
+export type CategoryOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "name" | "slug" | "description" | "isPrescriptionRequired" | "vatRate" | "createdAt" | "updatedAt" | "maxPerOrder" | "maxPerPeriod" | "limitPeriodDays", ExtArgs["result"]["category"]>
 export type CategoryInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   medicines?: boolean | Prisma.Category$medicinesArgs<ExtArgs>
+  coupons?: boolean | Prisma.Category$couponsArgs<ExtArgs>
+  commissionRate?: boolean | Prisma.Category$commissionRateArgs<ExtArgs>
   _count?: boolean | Prisma.CategoryCountOutputTypeDefaultArgs<ExtArgs>
 }
 export type CategoryIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {}
@@ -526,6 +947,8 @@ export type $CategoryPayload<ExtArgs extends runtime.Types.Extensions.InternalAr
   name: "Category"
   objects: {
     medicines: Prisma.$MedicinePayload<ExtArgs>[]
+    coupons: Prisma.$CouponPayload<ExtArgs>[]
+    commissionRate: Prisma.$CommissionRatePayload<ExtArgs> | null
   }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
     id: string
@@ -533,8 +956,12 @@ export type $CategoryPayload<ExtArgs extends runtime.Types.Extensions.InternalAr
     slug: string | null
     description: string | null
     isPrescriptionRequired: boolean | null
+    vatRate: number
     createdAt: Date
     updatedAt: Date
+    maxPerOrder: number | null
+    maxPerPeriod: number | null
+    limitPeriodDays: number | null
   }, ExtArgs["result"]["category"]>
   composites: {}
 }
@@ -930,6 +1357,8 @@ readonly fields: CategoryFieldRefs;
 export interface Prisma__CategoryClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
   readonly [Symbol.toStringTag]: "PrismaPromise"
   medicines<T extends Prisma.Category$medicinesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Category$medicinesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$MedicinePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  coupons<T extends Prisma.Category$couponsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Category$couponsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$CouponPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  commissionRate<T extends Prisma.Category$commissionRateArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Category$commissionRateArgs<ExtArgs>>): Prisma.Prisma__CommissionRateClient<runtime.Types.Result.GetResult<Prisma.$CommissionRatePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
    * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -964,8 +1393,12 @@ export interface CategoryFieldRefs {
   readonly slug: Prisma.FieldRef<"Category", 'String'>
   readonly description: Prisma.FieldRef<"Category", 'String'>
   readonly isPrescriptionRequired: Prisma.FieldRef<"Category", 'Boolean'>
+  readonly vatRate: Prisma.FieldRef<"Category", 'Float'>
   readonly createdAt: Prisma.FieldRef<"Category", 'DateTime'>
   readonly updatedAt: Prisma.FieldRef<"Category", 'DateTime'>
+  readonly maxPerOrder: Prisma.FieldRef<"Category", 'Int'>
+  readonly maxPerPeriod: Prisma.FieldRef<"Category", 'Int'>
+  readonly limitPeriodDays: Prisma.FieldRef<"Category", 'Int'>
 }
     
 
@@ -1377,6 +1810,49 @@ export type Category$medicinesArgs<ExtArgs extends runtime.Types.Extensions.Inte
   distinct?: Prisma.MedicineScalarFieldEnum | Prisma.MedicineScalarFieldEnum[]
 }
 
+/**
+ * Category.coupons
+ */
+export type Category$couponsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Coupon
+   */
+  select?: Prisma.CouponSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Coupon
+   */
+  omit?: Prisma.CouponOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CouponInclude<ExtArgs> | null
+  where?: Prisma.CouponWhereInput
+  orderBy?: Prisma.CouponOrderByWithRelationInput | Prisma.CouponOrderByWithRelationInput[]
+  cursor?: Prisma.CouponWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.CouponScalarFieldEnum | Prisma.CouponScalarFieldEnum[]
+}
+
+/**
+ * Category.commissionRate
+ */
+export type Category$commissionRateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CommissionRate
+   */
+  select?: Prisma.CommissionRateSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CommissionRate
+   */
+  omit?: Prisma.CommissionRateOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CommissionRateInclude<ExtArgs> | null
+  where?: Prisma.CommissionRateWhereInput
+}
+
 /**
  * Category without action
  */
@@ -0,0 +1,1530 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `CommissionRate` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model CommissionRate
+ * 
+ */
+export type CommissionRateModel = runtime.Types.Result.DefaultSelection<Prisma.$CommissionRatePayload>
+
+export type AggregateCommissionRate = {
+  _count: CommissionRateCountAggregateOutputType | null
+  _avg: CommissionRateAvgAggregateOutputType | null
+  _sum: CommissionRateSumAggregateOutputType | null
+  _min: CommissionRateMinAggregateOutputType | null
+  _max: CommissionRateMaxAggregateOutputType | null
+}
+
+export type CommissionRateAvgAggregateOutputType = {
+  rate: number | null
+}
+
+export type CommissionRateSumAggregateOutputType = {
+  rate: number | null
+}
+
+export type CommissionRateMinAggregateOutputType = {
+  id: string | null
+  categoryId: string | null
+  sellerId: string | null
+  rate: number | null
+  updatedBy: string | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type CommissionRateMaxAggregateOutputType = {
+  id: string | null
+  categoryId: string | null
+  sellerId: string | null
+  rate: number | null
+  updatedBy: string | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type CommissionRateCountAggregateOutputType = {
+  id: number
+  categoryId: number
+  sellerId: number
+  rate: number
+  updatedBy: number
+  createdAt: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type CommissionRateAvgAggregateInputType = {
+  rate?: true
+}
+
+export type CommissionRateSumAggregateInputType = {
+  rate?: true
+}
+
+export type CommissionRateMinAggregateInputType = {
+  id?: true
+  categoryId?: true
+  sellerId?: true
+  rate?: true
+  updatedBy?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type CommissionRateMaxAggregateInputType = {
+  id?: true
+  categoryId?: true
+  sellerId?: true
+  rate?: true
+  updatedBy?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type CommissionRateCountAggregateInputType = {
+  id?: true
+  categoryId?: true
+  sellerId?: true
+  rate?: true
+  updatedBy?: true
+  createdAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type CommissionRateAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which CommissionRate to aggregate.
+   */
+  where?: Prisma.CommissionRateWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of CommissionRates to fetch.
+   */
+  orderBy?: Prisma.CommissionRateOrderByWithRelationInput | Prisma.CommissionRateOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.CommissionRateWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` CommissionRates from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` CommissionRates.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned CommissionRates
+  **/
+  _count?: true | CommissionRateCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: CommissionRateAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: CommissionRateSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: CommissionRateMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: CommissionRateMaxAggregateInputType
+}
+
+export type GetCommissionRateAggregateType<T extends CommissionRateAggregateArgs> = {
+      [P in keyof T & keyof AggregateCommissionRate]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateCommissionRate[P]>
+    : Prisma.GetScalarType<T[P], AggregateCommissionRate[P]>
+}
+
+
+
+
+export type CommissionRateGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.CommissionRateWhereInput
+  orderBy?: Prisma.CommissionRateOrderByWithAggregationInput | Prisma.CommissionRateOrderByWithAggregationInput[]
+  by: Prisma.CommissionRateScalarFieldEnum[] | Prisma.CommissionRateScalarFieldEnum
+  having?: Prisma.CommissionRateScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: CommissionRateCountAggregateInputType | true
+  _avg?: CommissionRateAvgAggregateInputType
+  _sum?: CommissionRateSumAggregateInputType
+  _min?: CommissionRateMinAggregateInputType
+  _max?: CommissionRateMaxAggregateInputType
+}
+
+export type CommissionRateGroupByOutputType = {
+  id: string
+  categoryId: string | null
+  sellerId: string | null
+  rate: number
+  updatedBy: string | null
+  createdAt: Date
+  updatedAt: Date
+  _count: CommissionRateCountAggregateOutputType | null
+  _avg: CommissionRateAvgAggregateOutputType | null
+  _sum: CommissionRateSumAggregateOutputType | null
+  _min: CommissionRateMinAggregateOutputType | null
+  _max: CommissionRateMaxAggregateOutputType | null
+}
+
+type GetCommissionRateGroupByPayload<T extends CommissionRateGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<CommissionRateGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof CommissionRateGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], CommissionRateGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], CommissionRateGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type CommissionRateWhereInput = {
+  AND?: Prisma.CommissionRateWhereInput | Prisma.CommissionRateWhereInput[]
+  OR?: Prisma.CommissionRateWhereInput[]
+  NOT?: Prisma.CommissionRateWhereInput | Prisma.CommissionRateWhereInput[]
+  id?: Prisma.StringFilter<"CommissionRate"> | string
+  categoryId?: Prisma.StringNullableFilter<"CommissionRate"> | string | null
+  sellerId?: Prisma.StringNullableFilter<"CommissionRate"> | string | null
+  rate?: Prisma.FloatFilter<"CommissionRate"> | number
+  updatedBy?: Prisma.StringNullableFilter<"CommissionRate"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"CommissionRate"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"CommissionRate"> | Date | string
+  category?: Prisma.XOR<Prisma.CategoryNullableScalarRelationFilter, Prisma.CategoryWhereInput> | null
+  seller?: Prisma.XOR<Prisma.UserNullableScalarRelationFilter, Prisma.UserWhereInput> | null
+}
+
+export type CommissionRateOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  categoryId?: Prisma.SortOrderInput | Prisma.SortOrder
+  sellerId?: Prisma.SortOrderInput | Prisma.SortOrder
+  rate?: Prisma.SortOrder
+  updatedBy?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  category?: Prisma.CategoryOrderByWithRelationInput
+  seller?: Prisma.UserOrderByWithRelationInput
+}
+
+export type CommissionRateWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  categoryId?: string
+  sellerId?: string
+  AND?: Prisma.CommissionRateWhereInput | Prisma.CommissionRateWhereInput[]
+  OR?: Prisma.CommissionRateWhereInput[]
+  NOT?: Prisma.CommissionRateWhereInput | Prisma.CommissionRateWhereInput[]
+  rate?: Prisma.FloatFilter<"CommissionRate"> | number
+  updatedBy?: Prisma.StringNullableFilter<"CommissionRate"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"CommissionRate"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"CommissionRate"> | Date | string
+  category?: Prisma.XOR<Prisma.CategoryNullableScalarRelationFilter, Prisma.CategoryWhereInput> | null
+  seller?: Prisma.XOR<Prisma.UserNullableScalarRelationFilter, Prisma.UserWhereInput> | null
+}, "id" | "categoryId" | "sellerId">
+
+export type CommissionRateOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  categoryId?: Prisma.SortOrderInput | Prisma.SortOrder
+  sellerId?: Prisma.SortOrderInput | Prisma.SortOrder
+  rate?: Prisma.SortOrder
+  updatedBy?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.CommissionRateCountOrderByAggregateInput
+  _avg?: Prisma.CommissionRateAvgOrderByAggregateInput
+  _max?: Prisma.CommissionRateMaxOrderByAggregateInput
+  _min?: Prisma.CommissionRateMinOrderByAggregateInput
+  _sum?: Prisma.CommissionRateSumOrderByAggregateInput
+}
+
+export type CommissionRateScalarWhereWithAggregatesInput = {
+  AND?: Prisma.CommissionRateScalarWhereWithAggregatesInput | Prisma.CommissionRateScalarWhereWithAggregatesInput[]
+  OR?: Prisma.CommissionRateScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.CommissionRateScalarWhereWithAggregatesInput | Prisma.CommissionRateScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"CommissionRate"> | string
+  categoryId?: Prisma.StringNullableWithAggregatesFilter<"CommissionRate"> | string | null
+  sellerId?: Prisma.StringNullableWithAggregatesFilter<"CommissionRate"> | string | null
+  rate?: Prisma.FloatWithAggregatesFilter<"CommissionRate"> | number
+  updatedBy?: Prisma.StringNullableWithAggregatesFilter<"CommissionRate"> | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"CommissionRate"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"CommissionRate"> | Date | string
+}
+
+export type CommissionRateCreateInput = {
+  id?: string
+  rate: number
+  updatedBy?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  category?: Prisma.CategoryCreateNestedOneWithoutCommissionRateInput
+  seller?: Prisma.UserCreateNestedOneWithoutCommissionRateInput
+}
+
+export type CommissionRateUncheckedCreateInput = {
+  id?: string
+  categoryId?: string | null
+  sellerId?: string | null
+  rate: number
+  updatedBy?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type CommissionRateUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  rate?: Prisma.FloatFieldUpdateOperationsInput | number
+  updatedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  category?: Prisma.CategoryUpdateOneWithoutCommissionRateNestedInput
+  seller?: Prisma.UserUpdateOneWithoutCommissionRateNestedInput
+}
+
+export type CommissionRateUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  categoryId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  sellerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  rate?: Prisma.FloatFieldUpdateOperationsInput | number
+  updatedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type CommissionRateCreateManyInput = {
+  id?: string
+  categoryId?: string | null
+  sellerId?: string | null
+  rate: number
+  updatedBy?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type CommissionRateUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  rate?: Prisma.FloatFieldUpdateOperationsInput | number
+  updatedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type CommissionRateUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  categoryId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  sellerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  rate?: Prisma.FloatFieldUpdateOperationsInput | number
+  updatedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type CommissionRateNullableScalarRelationFilter = {
+  is?: Prisma.CommissionRateWhereInput | null
+  isNot?: Prisma.CommissionRateWhereInput | null
+}
+
+export type CommissionRateCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  categoryId?: Prisma.SortOrder
+  sellerId?: Prisma.SortOrder
+  rate?: Prisma.SortOrder
+  updatedBy?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type CommissionRateAvgOrderByAggregateInput = {
+  rate?: Prisma.SortOrder
+}
+
+export type CommissionRateMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  categoryId?: Prisma.SortOrder
+  sellerId?: Prisma.SortOrder
+  rate?: Prisma.SortOrder
+  updatedBy?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type CommissionRateMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  categoryId?: Prisma.SortOrder
+  sellerId?: Prisma.SortOrder
+  rate?: Prisma.SortOrder
+  updatedBy?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type CommissionRateSumOrderByAggregateInput = {
+  rate?: Prisma.SortOrder
+}
+
+export type CommissionRateCreateNestedOneWithoutCategoryInput = {
+  create?: Prisma.XOR<Prisma.CommissionRateCreateWithoutCategoryInput, Prisma.CommissionRateUncheckedCreateWithoutCategoryInput>
+  connectOrCreate?: Prisma.CommissionRateCreateOrConnectWithoutCategoryInput
+  connect?: Prisma.CommissionRateWhereUniqueInput
+}
+
+export type CommissionRateUncheckedCreateNestedOneWithoutCategoryInput = {
+  create?: Prisma.XOR<Prisma.CommissionRateCreateWithoutCategoryInput, Prisma.CommissionRateUncheckedCreateWithoutCategoryInput>
+  connectOrCreate?: Prisma.CommissionRateCreateOrConnectWithoutCategoryInput
+  connect?: Prisma.CommissionRateWhereUniqueInput
+}
+
+export type CommissionRateUpdateOneWithoutCategoryNestedInput = {
+  create?: Prisma.XOR<Prisma.CommissionRateCreateWithoutCategoryInput, Prisma.CommissionRateUncheckedCreateWithoutCategoryInput>
+  connectOrCreate?: Prisma.CommissionRateCreateOrConnectWithoutCategoryInput
+  upsert?: Prisma.CommissionRateUpsertWithoutCategoryInput
+  disconnect?: Prisma.CommissionRateWhereInput | boolean
+  delete?: Prisma.CommissionRateWhereInput | boolean
+  connect?: Prisma.CommissionRateWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.CommissionRateUpdateToOneWithWhereWithoutCategoryInput, Prisma.CommissionRateUpdateWithoutCategoryInput>, Prisma.CommissionRateUncheckedUpdateWithoutCategoryInput>
+}
+
+export type CommissionRateUncheckedUpdateOneWithoutCategoryNestedInput = {
+  create?: Prisma.XOR<Prisma.CommissionRateCreateWithoutCategoryInput, Prisma.CommissionRateUncheckedCreateWithoutCategoryInput>
+  connectOrCreate?: Prisma.CommissionRateCreateOrConnectWithoutCategoryInput
+  upsert?: Prisma.CommissionRateUpsertWithoutCategoryInput
+  disconnect?: Prisma.CommissionRateWhereInput | boolean
+  delete?: Prisma.CommissionRateWhereInput | boolean
+  connect?: Prisma.CommissionRateWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.CommissionRateUpdateToOneWithWhereWithoutCategoryInput, Prisma.CommissionRateUpdateWithoutCategoryInput>, Prisma.CommissionRateUncheckedUpdateWithoutCategoryInput>
+}
+
+export type CommissionRateCreateNestedOneWithoutSellerInput = {
+  create?: Prisma.XOR<Prisma.CommissionRateCreateWithoutSellerInput, Prisma.CommissionRateUncheckedCreateWithoutSellerInput>
+  connectOrCreate?: Prisma.CommissionRateCreateOrConnectWithoutSellerInput
+  connect?: Prisma.CommissionRateWhereUniqueInput
+}
+
+export type CommissionRateUncheckedCreateNestedOneWithoutSellerInput = {
+  create?: Prisma.XOR<Prisma.CommissionRateCreateWithoutSellerInput, Prisma.CommissionRateUncheckedCreateWithoutSellerInput>
+  connectOrCreate?: Prisma.CommissionRateCreateOrConnectWithoutSellerInput
+  connect?: Prisma.CommissionRateWhereUniqueInput
+}
+
+export type CommissionRateUpdateOneWithoutSellerNestedInput = {
+  create?: Prisma.XOR<Prisma.CommissionRateCreateWithoutSellerInput, Prisma.CommissionRateUncheckedCreateWithoutSellerInput>
+  connectOrCreate?: Prisma.CommissionRateCreateOrConnectWithoutSellerInput
+  upsert?: Prisma.CommissionRateUpsertWithoutSellerInput
+  disconnect?: Prisma.CommissionRateWhereInput | boolean
+  delete?: Prisma.CommissionRateWhereInput | boolean
+  connect?: Prisma.CommissionRateWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.CommissionRateUpdateToOneWithWhereWithoutSellerInput, Prisma.CommissionRateUpdateWithoutSellerInput>, Prisma.CommissionRateUncheckedUpdateWithoutSellerInput>
+}
+
+export type CommissionRateUncheckedUpdateOneWithoutSellerNestedInput = {
+  create?: Prisma.XOR<Prisma.CommissionRateCreateWithoutSellerInput, Prisma.CommissionRateUncheckedCreateWithoutSellerInput>
+  connectOrCreate?: Prisma.CommissionRateCreateOrConnectWithoutSellerInput
+  upsert?: Prisma.CommissionRateUpsertWithoutSellerInput
+  disconnect?: Prisma.CommissionRateWhereInput | boolean
+  delete?: Prisma.CommissionRateWhereInput | boolean
+  connect?: Prisma.CommissionRateWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.CommissionRateUpdateToOneWithWhereWithoutSellerInput, Prisma.CommissionRateUpdateWithoutSellerInput>, Prisma.CommissionRateUncheckedUpdateWithoutSellerInput>
+}
+
+export type CommissionRateCreateWithoutCategoryInput = {
+  id?: string
+  rate: number
+  updatedBy?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  seller?: Prisma.UserCreateNestedOneWithoutCommissionRateInput
+}
+
+export type CommissionRateUncheckedCreateWithoutCategoryInput = {
+  id?: string
+  sellerId?: string | null
+  rate: number
+  updatedBy?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type CommissionRateCreateOrConnectWithoutCategoryInput = {
+  where: Prisma.CommissionRateWhereUniqueInput
+  create: Prisma.XOR<Prisma.CommissionRateCreateWithoutCategoryInput, Prisma.CommissionRateUncheckedCreateWithoutCategoryInput>
+}
+
+export type CommissionRateUpsertWithoutCategoryInput = {
+  update: Prisma.XOR<Prisma.CommissionRateUpdateWithoutCategoryInput, Prisma.CommissionRateUncheckedUpdateWithoutCategoryInput>
+  create: Prisma.XOR<Prisma.CommissionRateCreateWithoutCategoryInput, Prisma.CommissionRateUncheckedCreateWithoutCategoryInput>
+  where?: Prisma.CommissionRateWhereInput
+}
+
+export type CommissionRateUpdateToOneWithWhereWithoutCategoryInput = {
+  where?: Prisma.CommissionRateWhereInput
+  data: Prisma.XOR<Prisma.CommissionRateUpdateWithoutCategoryInput, Prisma.CommissionRateUncheckedUpdateWithoutCategoryInput>
+}
+
+export type CommissionRateUpdateWithoutCategoryInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  rate?: Prisma.FloatFieldUpdateOperationsInput | number
+  updatedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  seller?: Prisma.UserUpdateOneWithoutCommissionRateNestedInput
+}
+
+export type CommissionRateUncheckedUpdateWithoutCategoryInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  sellerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  rate?: Prisma.FloatFieldUpdateOperationsInput | number
+  updatedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type CommissionRateCreateWithoutSellerInput = {
+  id?: string
+  rate: number
+  updatedBy?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  category?: Prisma.CategoryCreateNestedOneWithoutCommissionRateInput
+}
+
+export type CommissionRateUncheckedCreateWithoutSellerInput = {
+  id?: string
+  categoryId?: string | null
+  rate: number
+  updatedBy?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type CommissionRateCreateOrConnectWithoutSellerInput = {
+  where: Prisma.CommissionRateWhereUniqueInput
+  create: Prisma.XOR<Prisma.CommissionRateCreateWithoutSellerInput, Prisma.CommissionRateUncheckedCreateWithoutSellerInput>
+}
+
+export type CommissionRateUpsertWithoutSellerInput = {
+  update: Prisma.XOR<Prisma.CommissionRateUpdateWithoutSellerInput, Prisma.CommissionRateUncheckedUpdateWithoutSellerInput>
+  create: Prisma.XOR<Prisma.CommissionRateCreateWithoutSellerInput, Prisma.CommissionRateUncheckedCreateWithoutSellerInput>
+  where?: Prisma.CommissionRateWhereInput
+}
+
+export type CommissionRateUpdateToOneWithWhereWithoutSellerInput = {
+  where?: Prisma.CommissionRateWhereInput
+  data: Prisma.XOR<Prisma.CommissionRateUpdateWithoutSellerInput, Prisma.CommissionRateUncheckedUpdateWithoutSellerInput>
+}
+
+export type CommissionRateUpdateWithoutSellerInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  rate?: Prisma.FloatFieldUpdateOperationsInput | number
+  updatedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  category?: Prisma.CategoryUpdateOneWithoutCommissionRateNestedInput
+}
+
+export type CommissionRateUncheckedUpdateWithoutSellerInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  categoryId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  rate?: Prisma.FloatFieldUpdateOperationsInput | number
+  updatedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type CommissionRateSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  categoryId?: boolean
+  sellerId?: boolean
+  rate?: boolean
+  updatedBy?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  category?: boolean | Prisma.CommissionRate$categoryArgs<ExtArgs>
+  seller?: boolean | Prisma.CommissionRate$sellerArgs<ExtArgs>
+}, ExtArgs["result"]["commissionRate"]>
+
+export type CommissionRateSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  categoryId?: boolean
+  sellerId?: boolean
+  rate?: boolean
+  updatedBy?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  category?: boolean | Prisma.CommissionRate$categoryArgs<ExtArgs>
+  seller?: boolean | Prisma.CommissionRate$sellerArgs<ExtArgs>
+}, ExtArgs["result"]["commissionRate"]>
+
+export type CommissionRateSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  categoryId?: boolean
+  sellerId?: boolean
+  rate?: boolean
+  updatedBy?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  category?: boolean | Prisma.CommissionRate$categoryArgs<ExtArgs>
+  seller?: boolean | Prisma.CommissionRate$sellerArgs<ExtArgs>
+}, ExtArgs["result"]["commissionRate"]>
+
+export type CommissionRateSelectScalar = {
+  id?: boolean
+  categoryId?: boolean
+  sellerId?: boolean
+  rate?: boolean
+  updatedBy?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}
+
+export type CommissionRateOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "categoryId" | "sellerId" | "rate" | "updatedBy" | "createdAt" | "updatedAt", ExtArgs["result"]["commissionRate"]>
+export type CommissionRateInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  category?: boolean | Prisma.CommissionRate$categoryArgs<ExtArgs>
+  seller?: boolean | Prisma.CommissionRate$sellerArgs<ExtArgs>
+}
+export type CommissionRateIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  category?: boolean | Prisma.CommissionRate$categoryArgs<ExtArgs>
+  seller?: boolean | Prisma.CommissionRate$sellerArgs<ExtArgs>
+}
+export type CommissionRateIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  category?: boolean | Prisma.CommissionRate$categoryArgs<ExtArgs>
+  seller?: boolean | Prisma.CommissionRate$sellerArgs<ExtArgs>
+}
+
+export type $CommissionRatePayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "CommissionRate"
+  objects: {
+    category: Prisma.$CategoryPayload<ExtArgs> | null
+    seller: Prisma.$UserPayload<ExtArgs> | null
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    categoryId: string | null
+    sellerId: string | null
+    rate: number
+    updatedBy: string | null
+    createdAt: Date
+    updatedAt: Date
+  }, ExtArgs["result"]["commissionRate"]>
+  composites: {}
+}
+
+export type CommissionRateGetPayload<S extends boolean | null | undefined | CommissionRateDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$CommissionRatePayload, S>
+
+export type CommissionRateCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<CommissionRateFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: CommissionRateCountAggregateInputType | true
+  }
+
+export interface CommissionRateDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['CommissionRate'], meta: { name: 'CommissionRate' } }
+  /**
+   * Find zero or one CommissionRate that matches the filter.
+   * @param {CommissionRateFindUniqueArgs} args - Arguments to find a CommissionRate
+   * @example
+   * // Get one CommissionRate
+   * const commissionRate = await prisma.commissionRate.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends CommissionRateFindUniqueArgs>(args: Prisma.SelectSubset<T, CommissionRateFindUniqueArgs<ExtArgs>>): Prisma.Prisma__CommissionRateClient<runtime.Types.Result.GetResult<Prisma.$CommissionRatePayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one CommissionRate that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {CommissionRateFindUniqueOrThrowArgs} args - Arguments to find a CommissionRate
+   * @example
+   * // Get one CommissionRate
+   * const commissionRate = await prisma.commissionRate.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends CommissionRateFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, CommissionRateFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__CommissionRateClient<runtime.Types.Result.GetResult<Prisma.$CommissionRatePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first CommissionRate that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CommissionRateFindFirstArgs} args - Arguments to find a CommissionRate
+   * @example
+   * // Get one CommissionRate
+   * const commissionRate = await prisma.commissionRate.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends CommissionRateFindFirstArgs>(args?: Prisma.SelectSubset<T, CommissionRateFindFirstArgs<ExtArgs>>): Prisma.Prisma__CommissionRateClient<runtime.Types.Result.GetResult<Prisma.$CommissionRatePayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first CommissionRate that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CommissionRateFindFirstOrThrowArgs} args - Arguments to find a CommissionRate
+   * @example
+   * // Get one CommissionRate
+   * const commissionRate = await prisma.commissionRate.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends CommissionRateFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, CommissionRateFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__CommissionRateClient<runtime.Types.Result.GetResult<Prisma.$CommissionRatePayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more CommissionRates that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CommissionRateFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all CommissionRates
+   * const commissionRates = await prisma.commissionRate.findMany()
+   * 
+   * // Get first 10 CommissionRates
+   * const commissionRates = await prisma.commissionRate.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const commissionRateWithIdOnly = await prisma.commissionRate.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends CommissionRateFindManyArgs>(args?: Prisma.SelectSubset<T, CommissionRateFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$CommissionRatePayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a CommissionRate.
+   * @param {CommissionRateCreateArgs} args - Arguments to create a CommissionRate.
+   * @example
+   * // Create one CommissionRate
+   * const CommissionRate = await prisma.commissionRate.create({
+   *   data: {
+   *     // ... data to create a CommissionRate
+   *   }
+   * })
+   * 
+   */
+  create<T extends CommissionRateCreateArgs>(args: Prisma.SelectSubset<T, CommissionRateCreateArgs<ExtArgs>>): Prisma.Prisma__CommissionRateClient<runtime.Types.Result.GetResult<Prisma.$CommissionRatePayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many CommissionRates.
+   * @param {CommissionRateCreateManyArgs} args - Arguments to create many CommissionRates.
+   * @example
+   * // Create many CommissionRates
+   * const commissionRate = await prisma.commissionRate.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends CommissionRateCreateManyArgs>(args?: Prisma.SelectSubset<T, CommissionRateCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many CommissionRates and returns the data saved in the database.
+   * @param {CommissionRateCreateManyAndReturnArgs} args - Arguments to create many CommissionRates.
+   * @example
+   * // Create many CommissionRates
+   * const commissionRate = await prisma.commissionRate.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many CommissionRates and only return the `id`
+   * const commissionRateWithIdOnly = await prisma.commissionRate.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends CommissionRateCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, CommissionRateCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$CommissionRatePayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a CommissionRate.
+   * @param {CommissionRateDeleteArgs} args - Arguments to delete one CommissionRate.
+   * @example
+   * // Delete one CommissionRate
+   * const CommissionRate = await prisma.commissionRate.delete({
+   *   where: {
+   *     // ... filter to delete one CommissionRate
+   *   }
+   * })
+   * 
+   */
+  delete<T extends CommissionRateDeleteArgs>(args: Prisma.SelectSubset<T, CommissionRateDeleteArgs<ExtArgs>>): Prisma.Prisma__CommissionRateClient<runtime.Types.Result.GetResult<Prisma.$CommissionRatePayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one CommissionRate.
+   * @param {CommissionRateUpdateArgs} args - Arguments to update one CommissionRate.
+   * @example
+   * // Update one CommissionRate
+   * const commissionRate = await prisma.commissionRate.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends CommissionRateUpdateArgs>(args: Prisma.SelectSubset<T, CommissionRateUpdateArgs<ExtArgs>>): Prisma.Prisma__CommissionRateClient<runtime.Types.Result.GetResult<Prisma.$CommissionRatePayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more CommissionRates.
+   * @param {CommissionRateDeleteManyArgs} args - Arguments to filter CommissionRates to delete.
+   * @example
+   * // Delete a few CommissionRates
+   * const { count } = await prisma.commissionRate.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends CommissionRateDeleteManyArgs>(args?: Prisma.SelectSubset<T, CommissionRateDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more CommissionRates.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CommissionRateUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many CommissionRates
+   * const commissionRate = await prisma.commissionRate.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends CommissionRateUpdateManyArgs>(args: Prisma.SelectSubset<T, CommissionRateUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more CommissionRates and returns the data updated in the database.
+   * @param {CommissionRateUpdateManyAndReturnArgs} args - Arguments to update many CommissionRates.
+   * @example
+   * // Update many CommissionRates
+   * const commissionRate = await prisma.commissionRate.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more CommissionRates and only return the `id`
+   * const commissionRateWithIdOnly = await prisma.commissionRate.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends CommissionRateUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, CommissionRateUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$CommissionRatePayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one CommissionRate.
+   * @param {CommissionRateUpsertArgs} args - Arguments to update or create a CommissionRate.
+   * @example
+   * // Update or create a CommissionRate
+   * const commissionRate = await prisma.commissionRate.upsert({
+   *   create: {
+   *     // ... data to create a CommissionRate
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the CommissionRate we want to update
+   *   }
+   * })
+   */
+  upsert<T extends CommissionRateUpsertArgs>(args: Prisma.SelectSubset<T, CommissionRateUpsertArgs<ExtArgs>>): Prisma.Prisma__CommissionRateClient<runtime.Types.Result.GetResult<Prisma.$CommissionRatePayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of CommissionRates.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CommissionRateCountArgs} args - Arguments to filter CommissionRates to count.
+   * @example
+   * // Count the number of CommissionRates
+   * const count = await prisma.commissionRate.count({
+   *   where: {
+   *     // ... the filter for the CommissionRates we want to count
+   *   }
+   * })
+  **/
+  count<T extends CommissionRateCountArgs>(
+    args?: Prisma.Subset<T, CommissionRateCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], CommissionRateCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a CommissionRate.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CommissionRateAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends CommissionRateAggregateArgs>(args: Prisma.Subset<T, CommissionRateAggregateArgs>): Prisma.PrismaPromise<GetCommissionRateAggregateType<T>>
+
+  /**
+   * Group by CommissionRate.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CommissionRateGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends CommissionRateGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: CommissionRateGroupByArgs['orderBy'] }
+      : { orderBy?: CommissionRateGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, CommissionRateGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetCommissionRateGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the CommissionRate model
+ */
+readonly fields: CommissionRateFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for CommissionRate.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__CommissionRateClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  category<T extends Prisma.CommissionRate$categoryArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.CommissionRate$categoryArgs<ExtArgs>>): Prisma.Prisma__CategoryClient<runtime.Types.Result.GetResult<Prisma.$CategoryPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  seller<T extends Prisma.CommissionRate$sellerArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.CommissionRate$sellerArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the CommissionRate model
+ */
+export interface CommissionRateFieldRefs {
+  readonly id: Prisma.FieldRef<"CommissionRate", 'String'>
+  readonly categoryId: Prisma.FieldRef<"CommissionRate", 'String'>
+  readonly sellerId: Prisma.FieldRef<"CommissionRate", 'String'>
+  readonly rate: Prisma.FieldRef<"CommissionRate", 'Float'>
+  readonly updatedBy: Prisma.FieldRef<"CommissionRate", 'String'>
+  readonly createdAt: Prisma.FieldRef<"CommissionRate", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"CommissionRate", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * CommissionRate findUnique
+ */
+export type CommissionRateFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CommissionRate
+   */
+  select?: Prisma.CommissionRateSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CommissionRate
+   */
+  omit?: Prisma.CommissionRateOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CommissionRateInclude<ExtArgs> | null
+  /**
+   * Filter, which CommissionRate to fetch.
+   */
+  where: Prisma.CommissionRateWhereUniqueInput
+}
+
+/**
+ * CommissionRate findUniqueOrThrow
+ */
+export type CommissionRateFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CommissionRate
+   */
+  select?: Prisma.CommissionRateSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CommissionRate
+   */
+  omit?: Prisma.CommissionRateOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CommissionRateInclude<ExtArgs> | null
+  /**
+   * Filter, which CommissionRate to fetch.
+   */
+  where: Prisma.CommissionRateWhereUniqueInput
+}
+
+/**
+ * CommissionRate findFirst
+ */
+export type CommissionRateFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CommissionRate
+   */
+  select?: Prisma.CommissionRateSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CommissionRate
+   */
+  omit?: Prisma.CommissionRateOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CommissionRateInclude<ExtArgs> | null
+  /**
+   * Filter, which CommissionRate to fetch.
+   */
+  where?: Prisma.CommissionRateWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of CommissionRates to fetch.
+   */
+  orderBy?: Prisma.CommissionRateOrderByWithRelationInput | Prisma.CommissionRateOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for CommissionRates.
+   */
+  cursor?: Prisma.CommissionRateWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` CommissionRates from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` CommissionRates.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of CommissionRates.
+   */
+  distinct?: Prisma.CommissionRateScalarFieldEnum | Prisma.CommissionRateScalarFieldEnum[]
+}
+
+/**
+ * CommissionRate findFirstOrThrow
+ */
+export type CommissionRateFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CommissionRate
+   */
+  select?: Prisma.CommissionRateSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CommissionRate
+   */
+  omit?: Prisma.CommissionRateOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CommissionRateInclude<ExtArgs> | null
+  /**
+   * Filter, which CommissionRate to fetch.
+   */
+  where?: Prisma.CommissionRateWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of CommissionRates to fetch.
+   */
+  orderBy?: Prisma.CommissionRateOrderByWithRelationInput | Prisma.CommissionRateOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for CommissionRates.
+   */
+  cursor?: Prisma.CommissionRateWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` CommissionRates from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` CommissionRates.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of CommissionRates.
+   */
+  distinct?: Prisma.CommissionRateScalarFieldEnum | Prisma.CommissionRateScalarFieldEnum[]
+}
+
+/**
+ * CommissionRate findMany
+ */
+export type CommissionRateFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CommissionRate
+   */
+  select?: Prisma.CommissionRateSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CommissionRate
+   */
+  omit?: Prisma.CommissionRateOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CommissionRateInclude<ExtArgs> | null
+  /**
+   * Filter, which CommissionRates to fetch.
+   */
+  where?: Prisma.CommissionRateWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of CommissionRates to fetch.
+   */
+  orderBy?: Prisma.CommissionRateOrderByWithRelationInput | Prisma.CommissionRateOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing CommissionRates.
+   */
+  cursor?: Prisma.CommissionRateWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` CommissionRates from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` CommissionRates.
+   */
+  skip?: number
+  distinct?: Prisma.CommissionRateScalarFieldEnum | Prisma.CommissionRateScalarFieldEnum[]
+}
+
+/**
+ * CommissionRate create
+ */
+export type CommissionRateCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CommissionRate
+   */
+  select?: Prisma.CommissionRateSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CommissionRate
+   */
+  omit?: Prisma.CommissionRateOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CommissionRateInclude<ExtArgs> | null
+  /**
+   * The data needed to create a CommissionRate.
+   */
+  data: Prisma.XOR<Prisma.CommissionRateCreateInput, Prisma.CommissionRateUncheckedCreateInput>
+}
+
+/**
+ * CommissionRate createMany
+ */
+export type CommissionRateCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many CommissionRates.
+   */
+  data: Prisma.CommissionRateCreateManyInput | Prisma.CommissionRateCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * CommissionRate createManyAndReturn
+ */
+export type CommissionRateCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CommissionRate
+   */
+  select?: Prisma.CommissionRateSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the CommissionRate
+   */
+  omit?: Prisma.CommissionRateOmit<ExtArgs> | null
+  /**
+   * The data used to create many CommissionRates.
+   */
+  data: Prisma.CommissionRateCreateManyInput | Prisma.CommissionRateCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CommissionRateIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * CommissionRate update
+ */
+export type CommissionRateUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CommissionRate
+   */
+  select?: Prisma.CommissionRateSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CommissionRate
+   */
+  omit?: Prisma.CommissionRateOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CommissionRateInclude<ExtArgs> | null
+  /**
+   * The data needed to update a CommissionRate.
+   */
+  data: Prisma.XOR<Prisma.CommissionRateUpdateInput, Prisma.CommissionRateUncheckedUpdateInput>
+  /**
+   * Choose, which CommissionRate to update.
+   */
+  where: Prisma.CommissionRateWhereUniqueInput
+}
+
+/**
+ * CommissionRate updateMany
+ */
+export type CommissionRateUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update CommissionRates.
+   */
+  data: Prisma.XOR<Prisma.CommissionRateUpdateManyMutationInput, Prisma.CommissionRateUncheckedUpdateManyInput>
+  /**
+   * Filter which CommissionRates to update
+   */
+  where?: Prisma.CommissionRateWhereInput
+  /**
+   * Limit how many CommissionRates to update.
+   */
+  limit?: number
+}
+
+/**
+ * CommissionRate updateManyAndReturn
+ */
+export type CommissionRateUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CommissionRate
+   */
+  select?: Prisma.CommissionRateSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the CommissionRate
+   */
+  omit?: Prisma.CommissionRateOmit<ExtArgs> | null
+  /**
+   * The data used to update CommissionRates.
+   */
+  data: Prisma.XOR<Prisma.CommissionRateUpdateManyMutationInput, Prisma.CommissionRateUncheckedUpdateManyInput>
+  /**
+   * Filter which CommissionRates to update
+   */
+  where?: Prisma.CommissionRateWhereInput
+  /**
+   * Limit how many CommissionRates to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CommissionRateIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * CommissionRate upsert
+ */
+export type CommissionRateUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CommissionRate
+   */
+  select?: Prisma.CommissionRateSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CommissionRate
+   */
+  omit?: Prisma.CommissionRateOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CommissionRateInclude<ExtArgs> | null
+  /**
+   * The filter to search for the CommissionRate to update in case it exists.
+   */
+  where: Prisma.CommissionRateWhereUniqueInput
+  /**
+   * In case the CommissionRate found by the `where` argument doesn't exist, create a new CommissionRate with this data.
+   */
+  create: Prisma.XOR<Prisma.CommissionRateCreateInput, Prisma.CommissionRateUncheckedCreateInput>
+  /**
+   * In case the CommissionRate was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.CommissionRateUpdateInput, Prisma.CommissionRateUncheckedUpdateInput>
+}
+
+/**
+ * CommissionRate delete
+ */
+export type CommissionRateDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CommissionRate
+   */
+  select?: Prisma.CommissionRateSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CommissionRate
+   */
+  omit?: Prisma.CommissionRateOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CommissionRateInclude<ExtArgs> | null
+  /**
+   * Filter which CommissionRate to delete.
+   */
+  where: Prisma.CommissionRateWhereUniqueInput
+}
+
+/**
+ * CommissionRate deleteMany
+ */
+export type CommissionRateDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which CommissionRates to delete
+   */
+  where?: Prisma.CommissionRateWhereInput
+  /**
+   * Limit how many CommissionRates to delete.
+   */
+  limit?: number
+}
+
+/**
+ * CommissionRate.category
+ */
+export type CommissionRate$categoryArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Category
+   */
+  select?: Prisma.CategorySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Category
+   */
+  omit?: Prisma.CategoryOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CategoryInclude<ExtArgs> | null
+  where?: Prisma.CategoryWhereInput
+}
+
+/**
+ * CommissionRate.seller
+ */
+export type CommissionRate$sellerArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the User
+   */
+  select?: Prisma.UserSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the User
+   */
+  omit?: Prisma.UserOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.UserInclude<ExtArgs> | null
+  where?: Prisma.UserWhereInput
+}
+
+/**
+ * CommissionRate without action
+ */
+export type CommissionRateDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CommissionRate
+   */
+  select?: Prisma.CommissionRateSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CommissionRate
+   */
+  omit?: Prisma.CommissionRateOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CommissionRateInclude<ExtArgs> | null
+}
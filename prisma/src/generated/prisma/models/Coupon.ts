@@ -0,0 +1,2578 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `Coupon` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model Coupon
+ * 
+ */
+export type CouponModel = runtime.Types.Result.DefaultSelection<Prisma.$CouponPayload>
+
+export type AggregateCoupon = {
+  _count: CouponCountAggregateOutputType | null
+  _avg: CouponAvgAggregateOutputType | null
+  _sum: CouponSumAggregateOutputType | null
+  _min: CouponMinAggregateOutputType | null
+  _max: CouponMaxAggregateOutputType | null
+}
+
+export type CouponAvgAggregateOutputType = {
+  value: runtime.Decimal | null
+  maxDiscount: runtime.Decimal | null
+  minOrderValue: runtime.Decimal | null
+  usageLimit: number | null
+  perUserLimit: number | null
+  usedCount: number | null
+}
+
+export type CouponSumAggregateOutputType = {
+  value: runtime.Decimal | null
+  maxDiscount: runtime.Decimal | null
+  minOrderValue: runtime.Decimal | null
+  usageLimit: number | null
+  perUserLimit: number | null
+  usedCount: number | null
+}
+
+export type CouponMinAggregateOutputType = {
+  id: string | null
+  code: string | null
+  description: string | null
+  type: $Enums.CouponType | null
+  value: runtime.Decimal | null
+  maxDiscount: runtime.Decimal | null
+  scope: $Enums.CouponScope | null
+  categoryId: string | null
+  sellerId: string | null
+  minOrderValue: runtime.Decimal | null
+  usageLimit: number | null
+  perUserLimit: number | null
+  usedCount: number | null
+  stackable: boolean | null
+  startsAt: Date | null
+  endsAt: Date | null
+  isActive: boolean | null
+  createdBy: string | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type CouponMaxAggregateOutputType = {
+  id: string | null
+  code: string | null
+  description: string | null
+  type: $Enums.CouponType | null
+  value: runtime.Decimal | null
+  maxDiscount: runtime.Decimal | null
+  scope: $Enums.CouponScope | null
+  categoryId: string | null
+  sellerId: string | null
+  minOrderValue: runtime.Decimal | null
+  usageLimit: number | null
+  perUserLimit: number | null
+  usedCount: number | null
+  stackable: boolean | null
+  startsAt: Date | null
+  endsAt: Date | null
+  isActive: boolean | null
+  createdBy: string | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type CouponCountAggregateOutputType = {
+  id: number
+  code: number
+  description: number
+  type: number
+  value: number
+  maxDiscount: number
+  scope: number
+  categoryId: number
+  sellerId: number
+  minOrderValue: number
+  usageLimit: number
+  perUserLimit: number
+  usedCount: number
+  stackable: number
+  startsAt: number
+  endsAt: number
+  isActive: number
+  createdBy: number
+  createdAt: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type CouponAvgAggregateInputType = {
+  value?: true
+  maxDiscount?: true
+  minOrderValue?: true
+  usageLimit?: true
+  perUserLimit?: true
+  usedCount?: true
+}
+
+export type CouponSumAggregateInputType = {
+  value?: true
+  maxDiscount?: true
+  minOrderValue?: true
+  usageLimit?: true
+  perUserLimit?: true
+  usedCount?: true
+}
+
+export type CouponMinAggregateInputType = {
+  id?: true
+  code?: true
+  description?: true
+  type?: true
+  value?: true
+  maxDiscount?: true
+  scope?: true
+  categoryId?: true
+  sellerId?: true
+  minOrderValue?: true
+  usageLimit?: true
+  perUserLimit?: true
+  usedCount?: true
+  stackable?: true
+  startsAt?: true
+  endsAt?: true
+  isActive?: true
+  createdBy?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type CouponMaxAggregateInputType = {
+  id?: true
+  code?: true
+  description?: true
+  type?: true
+  value?: true
+  maxDiscount?: true
+  scope?: true
+  categoryId?: true
+  sellerId?: true
+  minOrderValue?: true
+  usageLimit?: true
+  perUserLimit?: true
+  usedCount?: true
+  stackable?: true
+  startsAt?: true
+  endsAt?: true
+  isActive?: true
+  createdBy?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type CouponCountAggregateInputType = {
+  id?: true
+  code?: true
+  description?: true
+  type?: true
+  value?: true
+  maxDiscount?: true
+  scope?: true
+  categoryId?: true
+  sellerId?: true
+  minOrderValue?: true
+  usageLimit?: true
+  perUserLimit?: true
+  usedCount?: true
+  stackable?: true
+  startsAt?: true
+  endsAt?: true
+  isActive?: true
+  createdBy?: true
+  createdAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type CouponAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which Coupon to aggregate.
+   */
+  where?: Prisma.CouponWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Coupons to fetch.
+   */
+  orderBy?: Prisma.CouponOrderByWithRelationInput | Prisma.CouponOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.CouponWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Coupons from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Coupons.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned Coupons
+  **/
+  _count?: true | CouponCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: CouponAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: CouponSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: CouponMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: CouponMaxAggregateInputType
+}
+
+export type GetCouponAggregateType<T extends CouponAggregateArgs> = {
+      [P in keyof T & keyof AggregateCoupon]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateCoupon[P]>
+    : Prisma.GetScalarType<T[P], AggregateCoupon[P]>
+}
+
+
+
+
+export type CouponGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.CouponWhereInput
+  orderBy?: Prisma.CouponOrderByWithAggregationInput | Prisma.CouponOrderByWithAggregationInput[]
+  by: Prisma.CouponScalarFieldEnum[] | Prisma.CouponScalarFieldEnum
+  having?: Prisma.CouponScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: CouponCountAggregateInputType | true
+  _avg?: CouponAvgAggregateInputType
+  _sum?: CouponSumAggregateInputType
+  _min?: CouponMinAggregateInputType
+  _max?: CouponMaxAggregateInputType
+}
+
+export type CouponGroupByOutputType = {
+  id: string
+  code: string
+  description: string | null
+  type: $Enums.CouponType
+  value: runtime.Decimal
+  maxDiscount: runtime.Decimal | null
+  scope: $Enums.CouponScope
+  categoryId: string | null
+  sellerId: string | null
+  minOrderValue: runtime.Decimal | null
+  usageLimit: number | null
+  perUserLimit: number | null
+  usedCount: number
+  stackable: boolean
+  startsAt: Date | null
+  endsAt: Date | null
+  isActive: boolean
+  createdBy: string | null
+  createdAt: Date
+  updatedAt: Date
+  _count: CouponCountAggregateOutputType | null
+  _avg: CouponAvgAggregateOutputType | null
+  _sum: CouponSumAggregateOutputType | null
+  _min: CouponMinAggregateOutputType | null
+  _max: CouponMaxAggregateOutputType | null
+}
+
+type GetCouponGroupByPayload<T extends CouponGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<CouponGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof CouponGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], CouponGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], CouponGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type CouponWhereInput = {
+  AND?: Prisma.CouponWhereInput | Prisma.CouponWhereInput[]
+  OR?: Prisma.CouponWhereInput[]
+  NOT?: Prisma.CouponWhereInput | Prisma.CouponWhereInput[]
+  id?: Prisma.StringFilter<"Coupon"> | string
+  code?: Prisma.StringFilter<"Coupon"> | string
+  description?: Prisma.StringNullableFilter<"Coupon"> | string | null
+  type?: Prisma.EnumCouponTypeFilter<"Coupon"> | $Enums.CouponType
+  value?: Prisma.DecimalFilter<"Coupon"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  maxDiscount?: Prisma.DecimalNullableFilter<"Coupon"> | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  scope?: Prisma.EnumCouponScopeFilter<"Coupon"> | $Enums.CouponScope
+  categoryId?: Prisma.StringNullableFilter<"Coupon"> | string | null
+  sellerId?: Prisma.StringNullableFilter<"Coupon"> | string | null
+  minOrderValue?: Prisma.DecimalNullableFilter<"Coupon"> | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  usageLimit?: Prisma.IntNullableFilter<"Coupon"> | number | null
+  perUserLimit?: Prisma.IntNullableFilter<"Coupon"> | number | null
+  usedCount?: Prisma.IntFilter<"Coupon"> | number
+  stackable?: Prisma.BoolFilter<"Coupon"> | boolean
+  startsAt?: Prisma.DateTimeNullableFilter<"Coupon"> | Date | string | null
+  endsAt?: Prisma.DateTimeNullableFilter<"Coupon"> | Date | string | null
+  isActive?: Prisma.BoolFilter<"Coupon"> | boolean
+  createdBy?: Prisma.StringNullableFilter<"Coupon"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"Coupon"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"Coupon"> | Date | string
+  category?: Prisma.XOR<Prisma.CategoryNullableScalarRelationFilter, Prisma.CategoryWhereInput> | null
+  seller?: Prisma.XOR<Prisma.UserNullableScalarRelationFilter, Prisma.UserWhereInput> | null
+  carts?: Prisma.CartCouponListRelationFilter
+  redemptions?: Prisma.CouponRedemptionListRelationFilter
+}
+
+export type CouponOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  code?: Prisma.SortOrder
+  description?: Prisma.SortOrderInput | Prisma.SortOrder
+  type?: Prisma.SortOrder
+  value?: Prisma.SortOrder
+  maxDiscount?: Prisma.SortOrderInput | Prisma.SortOrder
+  scope?: Prisma.SortOrder
+  categoryId?: Prisma.SortOrderInput | Prisma.SortOrder
+  sellerId?: Prisma.SortOrderInput | Prisma.SortOrder
+  minOrderValue?: Prisma.SortOrderInput | Prisma.SortOrder
+  usageLimit?: Prisma.SortOrderInput | Prisma.SortOrder
+  perUserLimit?: Prisma.SortOrderInput | Prisma.SortOrder
+  usedCount?: Prisma.SortOrder
+  stackable?: Prisma.SortOrder
+  startsAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  endsAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  isActive?: Prisma.SortOrder
+  createdBy?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  category?: Prisma.CategoryOrderByWithRelationInput
+  seller?: Prisma.UserOrderByWithRelationInput
+  carts?: Prisma.CartCouponOrderByRelationAggregateInput
+  redemptions?: Prisma.CouponRedemptionOrderByRelationAggregateInput
+}
+
+export type CouponWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  code?: string
+  AND?: Prisma.CouponWhereInput | Prisma.CouponWhereInput[]
+  OR?: Prisma.CouponWhereInput[]
+  NOT?: Prisma.CouponWhereInput | Prisma.CouponWhereInput[]
+  description?: Prisma.StringNullableFilter<"Coupon"> | string | null
+  type?: Prisma.EnumCouponTypeFilter<"Coupon"> | $Enums.CouponType
+  value?: Prisma.DecimalFilter<"Coupon"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  maxDiscount?: Prisma.DecimalNullableFilter<"Coupon"> | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  scope?: Prisma.EnumCouponScopeFilter<"Coupon"> | $Enums.CouponScope
+  categoryId?: Prisma.StringNullableFilter<"Coupon"> | string | null
+  sellerId?: Prisma.StringNullableFilter<"Coupon"> | string | null
+  minOrderValue?: Prisma.DecimalNullableFilter<"Coupon"> | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  usageLimit?: Prisma.IntNullableFilter<"Coupon"> | number | null
+  perUserLimit?: Prisma.IntNullableFilter<"Coupon"> | number | null
+  usedCount?: Prisma.IntFilter<"Coupon"> | number
+  stackable?: Prisma.BoolFilter<"Coupon"> | boolean
+  startsAt?: Prisma.DateTimeNullableFilter<"Coupon"> | Date | string | null
+  endsAt?: Prisma.DateTimeNullableFilter<"Coupon"> | Date | string | null
+  isActive?: Prisma.BoolFilter<"Coupon"> | boolean
+  createdBy?: Prisma.StringNullableFilter<"Coupon"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"Coupon"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"Coupon"> | Date | string
+  category?: Prisma.XOR<Prisma.CategoryNullableScalarRelationFilter, Prisma.CategoryWhereInput> | null
+  seller?: Prisma.XOR<Prisma.UserNullableScalarRelationFilter, Prisma.UserWhereInput> | null
+  carts?: Prisma.CartCouponListRelationFilter
+  redemptions?: Prisma.CouponRedemptionListRelationFilter
+}, "id" | "code">
+
+export type CouponOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  code?: Prisma.SortOrder
+  description?: Prisma.SortOrderInput | Prisma.SortOrder
+  type?: Prisma.SortOrder
+  value?: Prisma.SortOrder
+  maxDiscount?: Prisma.SortOrderInput | Prisma.SortOrder
+  scope?: Prisma.SortOrder
+  categoryId?: Prisma.SortOrderInput | Prisma.SortOrder
+  sellerId?: Prisma.SortOrderInput | Prisma.SortOrder
+  minOrderValue?: Prisma.SortOrderInput | Prisma.SortOrder
+  usageLimit?: Prisma.SortOrderInput | Prisma.SortOrder
+  perUserLimit?: Prisma.SortOrderInput | Prisma.SortOrder
+  usedCount?: Prisma.SortOrder
+  stackable?: Prisma.SortOrder
+  startsAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  endsAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  isActive?: Prisma.SortOrder
+  createdBy?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.CouponCountOrderByAggregateInput
+  _avg?: Prisma.CouponAvgOrderByAggregateInput
+  _max?: Prisma.CouponMaxOrderByAggregateInput
+  _min?: Prisma.CouponMinOrderByAggregateInput
+  _sum?: Prisma.CouponSumOrderByAggregateInput
+}
+
+export type CouponScalarWhereWithAggregatesInput = {
+  AND?: Prisma.CouponScalarWhereWithAggregatesInput | Prisma.CouponScalarWhereWithAggregatesInput[]
+  OR?: Prisma.CouponScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.CouponScalarWhereWithAggregatesInput | Prisma.CouponScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"Coupon"> | string
+  code?: Prisma.StringWithAggregatesFilter<"Coupon"> | string
+  description?: Prisma.StringNullableWithAggregatesFilter<"Coupon"> | string | null
+  type?: Prisma.EnumCouponTypeWithAggregatesFilter<"Coupon"> | $Enums.CouponType
+  value?: Prisma.DecimalWithAggregatesFilter<"Coupon"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  maxDiscount?: Prisma.DecimalNullableWithAggregatesFilter<"Coupon"> | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  scope?: Prisma.EnumCouponScopeWithAggregatesFilter<"Coupon"> | $Enums.CouponScope
+  categoryId?: Prisma.StringNullableWithAggregatesFilter<"Coupon"> | string | null
+  sellerId?: Prisma.StringNullableWithAggregatesFilter<"Coupon"> | string | null
+  minOrderValue?: Prisma.DecimalNullableWithAggregatesFilter<"Coupon"> | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  usageLimit?: Prisma.IntNullableWithAggregatesFilter<"Coupon"> | number | null
+  perUserLimit?: Prisma.IntNullableWithAggregatesFilter<"Coupon"> | number | null
+  usedCount?: Prisma.IntWithAggregatesFilter<"Coupon"> | number
+  stackable?: Prisma.BoolWithAggregatesFilter<"Coupon"> | boolean
+  startsAt?: Prisma.DateTimeNullableWithAggregatesFilter<"Coupon"> | Date | string | null
+  endsAt?: Prisma.DateTimeNullableWithAggregatesFilter<"Coupon"> | Date | string | null
+  isActive?: Prisma.BoolWithAggregatesFilter<"Coupon"> | boolean
+  createdBy?: Prisma.StringNullableWithAggregatesFilter<"Coupon"> | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"Coupon"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"Coupon"> | Date | string
+}
+
+export type CouponCreateInput = {
+  id?: string
+  code: string
+  description?: string | null
+  type: $Enums.CouponType
+  value?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  maxDiscount?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  scope?: $Enums.CouponScope
+  minOrderValue?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  usageLimit?: number | null
+  perUserLimit?: number | null
+  usedCount?: number
+  stackable?: boolean
+  startsAt?: Date | string | null
+  endsAt?: Date | string | null
+  isActive?: boolean
+  createdBy?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  category?: Prisma.CategoryCreateNestedOneWithoutCouponsInput
+  seller?: Prisma.UserCreateNestedOneWithoutSellerCouponsInput
+  carts?: Prisma.CartCouponCreateNestedManyWithoutCouponInput
+  redemptions?: Prisma.CouponRedemptionCreateNestedManyWithoutCouponInput
+}
+
+export type CouponUncheckedCreateInput = {
+  id?: string
+  code: string
+  description?: string | null
+  type: $Enums.CouponType
+  value?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  maxDiscount?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  scope?: $Enums.CouponScope
+  categoryId?: string | null
+  sellerId?: string | null
+  minOrderValue?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  usageLimit?: number | null
+  perUserLimit?: number | null
+  usedCount?: number
+  stackable?: boolean
+  startsAt?: Date | string | null
+  endsAt?: Date | string | null
+  isActive?: boolean
+  createdBy?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  carts?: Prisma.CartCouponUncheckedCreateNestedManyWithoutCouponInput
+  redemptions?: Prisma.CouponRedemptionUncheckedCreateNestedManyWithoutCouponInput
+}
+
+export type CouponUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  code?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  type?: Prisma.EnumCouponTypeFieldUpdateOperationsInput | $Enums.CouponType
+  value?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  maxDiscount?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  scope?: Prisma.EnumCouponScopeFieldUpdateOperationsInput | $Enums.CouponScope
+  minOrderValue?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  usageLimit?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  perUserLimit?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  usedCount?: Prisma.IntFieldUpdateOperationsInput | number
+  stackable?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  startsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  endsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  category?: Prisma.CategoryUpdateOneWithoutCouponsNestedInput
+  seller?: Prisma.UserUpdateOneWithoutSellerCouponsNestedInput
+  carts?: Prisma.CartCouponUpdateManyWithoutCouponNestedInput
+  redemptions?: Prisma.CouponRedemptionUpdateManyWithoutCouponNestedInput
+}
+
+export type CouponUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  code?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  type?: Prisma.EnumCouponTypeFieldUpdateOperationsInput | $Enums.CouponType
+  value?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  maxDiscount?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  scope?: Prisma.EnumCouponScopeFieldUpdateOperationsInput | $Enums.CouponScope
+  categoryId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  sellerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  minOrderValue?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  usageLimit?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  perUserLimit?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  usedCount?: Prisma.IntFieldUpdateOperationsInput | number
+  stackable?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  startsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  endsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  carts?: Prisma.CartCouponUncheckedUpdateManyWithoutCouponNestedInput
+  redemptions?: Prisma.CouponRedemptionUncheckedUpdateManyWithoutCouponNestedInput
+}
+
+export type CouponCreateManyInput = {
+  id?: string
+  code: string
+  description?: string | null
+  type: $Enums.CouponType
+  value?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  maxDiscount?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  scope?: $Enums.CouponScope
+  categoryId?: string | null
+  sellerId?: string | null
+  minOrderValue?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  usageLimit?: number | null
+  perUserLimit?: number | null
+  usedCount?: number
+  stackable?: boolean
+  startsAt?: Date | string | null
+  endsAt?: Date | string | null
+  isActive?: boolean
+  createdBy?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type CouponUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  code?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  type?: Prisma.EnumCouponTypeFieldUpdateOperationsInput | $Enums.CouponType
+  value?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  maxDiscount?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  scope?: Prisma.EnumCouponScopeFieldUpdateOperationsInput | $Enums.CouponScope
+  minOrderValue?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  usageLimit?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  perUserLimit?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  usedCount?: Prisma.IntFieldUpdateOperationsInput | number
+  stackable?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  startsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  endsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type CouponUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  code?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  type?: Prisma.EnumCouponTypeFieldUpdateOperationsInput | $Enums.CouponType
+  value?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  maxDiscount?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  scope?: Prisma.EnumCouponScopeFieldUpdateOperationsInput | $Enums.CouponScope
+  categoryId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  sellerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  minOrderValue?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  usageLimit?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  perUserLimit?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  usedCount?: Prisma.IntFieldUpdateOperationsInput | number
+  stackable?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  startsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  endsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type CouponListRelationFilter = {
+  every?: Prisma.CouponWhereInput
+  some?: Prisma.CouponWhereInput
+  none?: Prisma.CouponWhereInput
+}
+
+export type CouponOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type CouponCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  code?: Prisma.SortOrder
+  description?: Prisma.SortOrder
+  type?: Prisma.SortOrder
+  value?: Prisma.SortOrder
+  maxDiscount?: Prisma.SortOrder
+  scope?: Prisma.SortOrder
+  categoryId?: Prisma.SortOrder
+  sellerId?: Prisma.SortOrder
+  minOrderValue?: Prisma.SortOrder
+  usageLimit?: Prisma.SortOrder
+  perUserLimit?: Prisma.SortOrder
+  usedCount?: Prisma.SortOrder
+  stackable?: Prisma.SortOrder
+  startsAt?: Prisma.SortOrder
+  endsAt?: Prisma.SortOrder
+  isActive?: Prisma.SortOrder
+  createdBy?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type CouponAvgOrderByAggregateInput = {
+  value?: Prisma.SortOrder
+  maxDiscount?: Prisma.SortOrder
+  minOrderValue?: Prisma.SortOrder
+  usageLimit?: Prisma.SortOrder
+  perUserLimit?: Prisma.SortOrder
+  usedCount?: Prisma.SortOrder
+}
+
+export type CouponMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  code?: Prisma.SortOrder
+  description?: Prisma.SortOrder
+  type?: Prisma.SortOrder
+  value?: Prisma.SortOrder
+  maxDiscount?: Prisma.SortOrder
+  scope?: Prisma.SortOrder
+  categoryId?: Prisma.SortOrder
+  sellerId?: Prisma.SortOrder
+  minOrderValue?: Prisma.SortOrder
+  usageLimit?: Prisma.SortOrder
+  perUserLimit?: Prisma.SortOrder
+  usedCount?: Prisma.SortOrder
+  stackable?: Prisma.SortOrder
+  startsAt?: Prisma.SortOrder
+  endsAt?: Prisma.SortOrder
+  isActive?: Prisma.SortOrder
+  createdBy?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type CouponMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  code?: Prisma.SortOrder
+  description?: Prisma.SortOrder
+  type?: Prisma.SortOrder
+  value?: Prisma.SortOrder
+  maxDiscount?: Prisma.SortOrder
+  scope?: Prisma.SortOrder
+  categoryId?: Prisma.SortOrder
+  sellerId?: Prisma.SortOrder
+  minOrderValue?: Prisma.SortOrder
+  usageLimit?: Prisma.SortOrder
+  perUserLimit?: Prisma.SortOrder
+  usedCount?: Prisma.SortOrder
+  stackable?: Prisma.SortOrder
+  startsAt?: Prisma.SortOrder
+  endsAt?: Prisma.SortOrder
+  isActive?: Prisma.SortOrder
+  createdBy?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type CouponSumOrderByAggregateInput = {
+  value?: Prisma.SortOrder
+  maxDiscount?: Prisma.SortOrder
+  minOrderValue?: Prisma.SortOrder
+  usageLimit?: Prisma.SortOrder
+  perUserLimit?: Prisma.SortOrder
+  usedCount?: Prisma.SortOrder
+}
+
+export type CouponScalarRelationFilter = {
+  is?: Prisma.CouponWhereInput
+  isNot?: Prisma.CouponWhereInput
+}
+
+export type CouponCreateNestedManyWithoutCategoryInput = {
+  create?: Prisma.XOR<Prisma.CouponCreateWithoutCategoryInput, Prisma.CouponUncheckedCreateWithoutCategoryInput> | Prisma.CouponCreateWithoutCategoryInput[] | Prisma.CouponUncheckedCreateWithoutCategoryInput[]
+  connectOrCreate?: Prisma.CouponCreateOrConnectWithoutCategoryInput | Prisma.CouponCreateOrConnectWithoutCategoryInput[]
+  createMany?: Prisma.CouponCreateManyCategoryInputEnvelope
+  connect?: Prisma.CouponWhereUniqueInput | Prisma.CouponWhereUniqueInput[]
+}
+
+export type CouponUncheckedCreateNestedManyWithoutCategoryInput = {
+  create?: Prisma.XOR<Prisma.CouponCreateWithoutCategoryInput, Prisma.CouponUncheckedCreateWithoutCategoryInput> | Prisma.CouponCreateWithoutCategoryInput[] | Prisma.CouponUncheckedCreateWithoutCategoryInput[]
+  connectOrCreate?: Prisma.CouponCreateOrConnectWithoutCategoryInput | Prisma.CouponCreateOrConnectWithoutCategoryInput[]
+  createMany?: Prisma.CouponCreateManyCategoryInputEnvelope
+  connect?: Prisma.CouponWhereUniqueInput | Prisma.CouponWhereUniqueInput[]
+}
+
+export type CouponUpdateManyWithoutCategoryNestedInput = {
+  create?: Prisma.XOR<Prisma.CouponCreateWithoutCategoryInput, Prisma.CouponUncheckedCreateWithoutCategoryInput> | Prisma.CouponCreateWithoutCategoryInput[] | Prisma.CouponUncheckedCreateWithoutCategoryInput[]
+  connectOrCreate?: Prisma.CouponCreateOrConnectWithoutCategoryInput | Prisma.CouponCreateOrConnectWithoutCategoryInput[]
+  upsert?: Prisma.CouponUpsertWithWhereUniqueWithoutCategoryInput | Prisma.CouponUpsertWithWhereUniqueWithoutCategoryInput[]
+  createMany?: Prisma.CouponCreateManyCategoryInputEnvelope
+  set?: Prisma.CouponWhereUniqueInput | Prisma.CouponWhereUniqueInput[]
+  disconnect?: Prisma.CouponWhereUniqueInput | Prisma.CouponWhereUniqueInput[]
+  delete?: Prisma.CouponWhereUniqueInput | Prisma.CouponWhereUniqueInput[]
+  connect?: Prisma.CouponWhereUniqueInput | Prisma.CouponWhereUniqueInput[]
+  update?: Prisma.CouponUpdateWithWhereUniqueWithoutCategoryInput | Prisma.CouponUpdateWithWhereUniqueWithoutCategoryInput[]
+  updateMany?: Prisma.CouponUpdateManyWithWhereWithoutCategoryInput | Prisma.CouponUpdateManyWithWhereWithoutCategoryInput[]
+  deleteMany?: Prisma.CouponScalarWhereInput | Prisma.CouponScalarWhereInput[]
+}
+
+export type CouponUncheckedUpdateManyWithoutCategoryNestedInput = {
+  create?: Prisma.XOR<Prisma.CouponCreateWithoutCategoryInput, Prisma.CouponUncheckedCreateWithoutCategoryInput> | Prisma.CouponCreateWithoutCategoryInput[] | Prisma.CouponUncheckedCreateWithoutCategoryInput[]
+  connectOrCreate?: Prisma.CouponCreateOrConnectWithoutCategoryInput | Prisma.CouponCreateOrConnectWithoutCategoryInput[]
+  upsert?: Prisma.CouponUpsertWithWhereUniqueWithoutCategoryInput | Prisma.CouponUpsertWithWhereUniqueWithoutCategoryInput[]
+  createMany?: Prisma.CouponCreateManyCategoryInputEnvelope
+  set?: Prisma.CouponWhereUniqueInput | Prisma.CouponWhereUniqueInput[]
+  disconnect?: Prisma.CouponWhereUniqueInput | Prisma.CouponWhereUniqueInput[]
+  delete?: Prisma.CouponWhereUniqueInput | Prisma.CouponWhereUniqueInput[]
+  connect?: Prisma.CouponWhereUniqueInput | Prisma.CouponWhereUniqueInput[]
+  update?: Prisma.CouponUpdateWithWhereUniqueWithoutCategoryInput | Prisma.CouponUpdateWithWhereUniqueWithoutCategoryInput[]
+  updateMany?: Prisma.CouponUpdateManyWithWhereWithoutCategoryInput | Prisma.CouponUpdateManyWithWhereWithoutCategoryInput[]
+  deleteMany?: Prisma.CouponScalarWhereInput | Prisma.CouponScalarWhereInput[]
+}
+
+export type EnumCouponTypeFieldUpdateOperationsInput = {
+  set?: $Enums.CouponType
+}
+
+export type EnumCouponScopeFieldUpdateOperationsInput = {
+  set?: $Enums.CouponScope
+}
+
+export type CouponCreateNestedOneWithoutCartsInput = {
+  create?: Prisma.XOR<Prisma.CouponCreateWithoutCartsInput, Prisma.CouponUncheckedCreateWithoutCartsInput>
+  connectOrCreate?: Prisma.CouponCreateOrConnectWithoutCartsInput
+  connect?: Prisma.CouponWhereUniqueInput
+}
+
+export type CouponUpdateOneRequiredWithoutCartsNestedInput = {
+  create?: Prisma.XOR<Prisma.CouponCreateWithoutCartsInput, Prisma.CouponUncheckedCreateWithoutCartsInput>
+  connectOrCreate?: Prisma.CouponCreateOrConnectWithoutCartsInput
+  upsert?: Prisma.CouponUpsertWithoutCartsInput
+  connect?: Prisma.CouponWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.CouponUpdateToOneWithWhereWithoutCartsInput, Prisma.CouponUpdateWithoutCartsInput>, Prisma.CouponUncheckedUpdateWithoutCartsInput>
+}
+
+export type CouponCreateNestedOneWithoutRedemptionsInput = {
+  create?: Prisma.XOR<Prisma.CouponCreateWithoutRedemptionsInput, Prisma.CouponUncheckedCreateWithoutRedemptionsInput>
+  connectOrCreate?: Prisma.CouponCreateOrConnectWithoutRedemptionsInput
+  connect?: Prisma.CouponWhereUniqueInput
+}
+
+export type CouponUpdateOneRequiredWithoutRedemptionsNestedInput = {
+  create?: Prisma.XOR<Prisma.CouponCreateWithoutRedemptionsInput, Prisma.CouponUncheckedCreateWithoutRedemptionsInput>
+  connectOrCreate?: Prisma.CouponCreateOrConnectWithoutRedemptionsInput
+  upsert?: Prisma.CouponUpsertWithoutRedemptionsInput
+  connect?: Prisma.CouponWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.CouponUpdateToOneWithWhereWithoutRedemptionsInput, Prisma.CouponUpdateWithoutRedemptionsInput>, Prisma.CouponUncheckedUpdateWithoutRedemptionsInput>
+}
+
+export type CouponCreateNestedManyWithoutSellerInput = {
+  create?: Prisma.XOR<Prisma.CouponCreateWithoutSellerInput, Prisma.CouponUncheckedCreateWithoutSellerInput> | Prisma.CouponCreateWithoutSellerInput[] | Prisma.CouponUncheckedCreateWithoutSellerInput[]
+  connectOrCreate?: Prisma.CouponCreateOrConnectWithoutSellerInput | Prisma.CouponCreateOrConnectWithoutSellerInput[]
+  createMany?: Prisma.CouponCreateManySellerInputEnvelope
+  connect?: Prisma.CouponWhereUniqueInput | Prisma.CouponWhereUniqueInput[]
+}
+
+export type CouponUncheckedCreateNestedManyWithoutSellerInput = {
+  create?: Prisma.XOR<Prisma.CouponCreateWithoutSellerInput, Prisma.CouponUncheckedCreateWithoutSellerInput> | Prisma.CouponCreateWithoutSellerInput[] | Prisma.CouponUncheckedCreateWithoutSellerInput[]
+  connectOrCreate?: Prisma.CouponCreateOrConnectWithoutSellerInput | Prisma.CouponCreateOrConnectWithoutSellerInput[]
+  createMany?: Prisma.CouponCreateManySellerInputEnvelope
+  connect?: Prisma.CouponWhereUniqueInput | Prisma.CouponWhereUniqueInput[]
+}
+
+export type CouponUpdateManyWithoutSellerNestedInput = {
+  create?: Prisma.XOR<Prisma.CouponCreateWithoutSellerInput, Prisma.CouponUncheckedCreateWithoutSellerInput> | Prisma.CouponCreateWithoutSellerInput[] | Prisma.CouponUncheckedCreateWithoutSellerInput[]
+  connectOrCreate?: Prisma.CouponCreateOrConnectWithoutSellerInput | Prisma.CouponCreateOrConnectWithoutSellerInput[]
+  upsert?: Prisma.CouponUpsertWithWhereUniqueWithoutSellerInput | Prisma.CouponUpsertWithWhereUniqueWithoutSellerInput[]
+  createMany?: Prisma.CouponCreateManySellerInputEnvelope
+  set?: Prisma.CouponWhereUniqueInput | Prisma.CouponWhereUniqueInput[]
+  disconnect?: Prisma.CouponWhereUniqueInput | Prisma.CouponWhereUniqueInput[]
+  delete?: Prisma.CouponWhereUniqueInput | Prisma.CouponWhereUniqueInput[]
+  connect?: Prisma.CouponWhereUniqueInput | Prisma.CouponWhereUniqueInput[]
+  update?: Prisma.CouponUpdateWithWhereUniqueWithoutSellerInput | Prisma.CouponUpdateWithWhereUniqueWithoutSellerInput[]
+  updateMany?: Prisma.CouponUpdateManyWithWhereWithoutSellerInput | Prisma.CouponUpdateManyWithWhereWithoutSellerInput[]
+  deleteMany?: Prisma.CouponScalarWhereInput | Prisma.CouponScalarWhereInput[]
+}
+
+export type CouponUncheckedUpdateManyWithoutSellerNestedInput = {
+  create?: Prisma.XOR<Prisma.CouponCreateWithoutSellerInput, Prisma.CouponUncheckedCreateWithoutSellerInput> | Prisma.CouponCreateWithoutSellerInput[] | Prisma.CouponUncheckedCreateWithoutSellerInput[]
+  connectOrCreate?: Prisma.CouponCreateOrConnectWithoutSellerInput | Prisma.CouponCreateOrConnectWithoutSellerInput[]
+  upsert?: Prisma.CouponUpsertWithWhereUniqueWithoutSellerInput | Prisma.CouponUpsertWithWhereUniqueWithoutSellerInput[]
+  createMany?: Prisma.CouponCreateManySellerInputEnvelope
+  set?: Prisma.CouponWhereUniqueInput | Prisma.CouponWhereUniqueInput[]
+  disconnect?: Prisma.CouponWhereUniqueInput | Prisma.CouponWhereUniqueInput[]
+  delete?: Prisma.CouponWhereUniqueInput | Prisma.CouponWhereUniqueInput[]
+  connect?: Prisma.CouponWhereUniqueInput | Prisma.CouponWhereUniqueInput[]
+  update?: Prisma.CouponUpdateWithWhereUniqueWithoutSellerInput | Prisma.CouponUpdateWithWhereUniqueWithoutSellerInput[]
+  updateMany?: Prisma.CouponUpdateManyWithWhereWithoutSellerInput | Prisma.CouponUpdateManyWithWhereWithoutSellerInput[]
+  deleteMany?: Prisma.CouponScalarWhereInput | Prisma.CouponScalarWhereInput[]
+}
+
+export type CouponCreateWithoutCategoryInput = {
+  id?: string
+  code: string
+  description?: string | null
+  type: $Enums.CouponType
+  value?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  maxDiscount?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  scope?: $Enums.CouponScope
+  minOrderValue?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  usageLimit?: number | null
+  perUserLimit?: number | null
+  usedCount?: number
+  stackable?: boolean
+  startsAt?: Date | string | null
+  endsAt?: Date | string | null
+  isActive?: boolean
+  createdBy?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  seller?: Prisma.UserCreateNestedOneWithoutSellerCouponsInput
+  carts?: Prisma.CartCouponCreateNestedManyWithoutCouponInput
+  redemptions?: Prisma.CouponRedemptionCreateNestedManyWithoutCouponInput
+}
+
+export type CouponUncheckedCreateWithoutCategoryInput = {
+  id?: string
+  code: string
+  description?: string | null
+  type: $Enums.CouponType
+  value?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  maxDiscount?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  scope?: $Enums.CouponScope
+  sellerId?: string | null
+  minOrderValue?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  usageLimit?: number | null
+  perUserLimit?: number | null
+  usedCount?: number
+  stackable?: boolean
+  startsAt?: Date | string | null
+  endsAt?: Date | string | null
+  isActive?: boolean
+  createdBy?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  carts?: Prisma.CartCouponUncheckedCreateNestedManyWithoutCouponInput
+  redemptions?: Prisma.CouponRedemptionUncheckedCreateNestedManyWithoutCouponInput
+}
+
+export type CouponCreateOrConnectWithoutCategoryInput = {
+  where: Prisma.CouponWhereUniqueInput
+  create: Prisma.XOR<Prisma.CouponCreateWithoutCategoryInput, Prisma.CouponUncheckedCreateWithoutCategoryInput>
+}
+
+export type CouponCreateManyCategoryInputEnvelope = {
+  data: Prisma.CouponCreateManyCategoryInput | Prisma.CouponCreateManyCategoryInput[]
+  skipDuplicates?: boolean
+}
+
+export type CouponUpsertWithWhereUniqueWithoutCategoryInput = {
+  where: Prisma.CouponWhereUniqueInput
+  update: Prisma.XOR<Prisma.CouponUpdateWithoutCategoryInput, Prisma.CouponUncheckedUpdateWithoutCategoryInput>
+  create: Prisma.XOR<Prisma.CouponCreateWithoutCategoryInput, Prisma.CouponUncheckedCreateWithoutCategoryInput>
+}
+
+export type CouponUpdateWithWhereUniqueWithoutCategoryInput = {
+  where: Prisma.CouponWhereUniqueInput
+  data: Prisma.XOR<Prisma.CouponUpdateWithoutCategoryInput, Prisma.CouponUncheckedUpdateWithoutCategoryInput>
+}
+
+export type CouponUpdateManyWithWhereWithoutCategoryInput = {
+  where: Prisma.CouponScalarWhereInput
+  data: Prisma.XOR<Prisma.CouponUpdateManyMutationInput, Prisma.CouponUncheckedUpdateManyWithoutCategoryInput>
+}
+
+export type CouponScalarWhereInput = {
+  AND?: Prisma.CouponScalarWhereInput | Prisma.CouponScalarWhereInput[]
+  OR?: Prisma.CouponScalarWhereInput[]
+  NOT?: Prisma.CouponScalarWhereInput | Prisma.CouponScalarWhereInput[]
+  id?: Prisma.StringFilter<"Coupon"> | string
+  code?: Prisma.StringFilter<"Coupon"> | string
+  description?: Prisma.StringNullableFilter<"Coupon"> | string | null
+  type?: Prisma.EnumCouponTypeFilter<"Coupon"> | $Enums.CouponType
+  value?: Prisma.DecimalFilter<"Coupon"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  maxDiscount?: Prisma.DecimalNullableFilter<"Coupon"> | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  scope?: Prisma.EnumCouponScopeFilter<"Coupon"> | $Enums.CouponScope
+  categoryId?: Prisma.StringNullableFilter<"Coupon"> | string | null
+  sellerId?: Prisma.StringNullableFilter<"Coupon"> | string | null
+  minOrderValue?: Prisma.DecimalNullableFilter<"Coupon"> | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  usageLimit?: Prisma.IntNullableFilter<"Coupon"> | number | null
+  perUserLimit?: Prisma.IntNullableFilter<"Coupon"> | number | null
+  usedCount?: Prisma.IntFilter<"Coupon"> | number
+  stackable?: Prisma.BoolFilter<"Coupon"> | boolean
+  startsAt?: Prisma.DateTimeNullableFilter<"Coupon"> | Date | string | null
+  endsAt?: Prisma.DateTimeNullableFilter<"Coupon"> | Date | string | null
+  isActive?: Prisma.BoolFilter<"Coupon"> | boolean
+  createdBy?: Prisma.StringNullableFilter<"Coupon"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"Coupon"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"Coupon"> | Date | string
+}
+
+export type CouponCreateWithoutCartsInput = {
+  id?: string
+  code: string
+  description?: string | null
+  type: $Enums.CouponType
+  value?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  maxDiscount?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  scope?: $Enums.CouponScope
+  minOrderValue?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  usageLimit?: number | null
+  perUserLimit?: number | null
+  usedCount?: number
+  stackable?: boolean
+  startsAt?: Date | string | null
+  endsAt?: Date | string | null
+  isActive?: boolean
+  createdBy?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  category?: Prisma.CategoryCreateNestedOneWithoutCouponsInput
+  seller?: Prisma.UserCreateNestedOneWithoutSellerCouponsInput
+  redemptions?: Prisma.CouponRedemptionCreateNestedManyWithoutCouponInput
+}
+
+export type CouponUncheckedCreateWithoutCartsInput = {
+  id?: string
+  code: string
+  description?: string | null
+  type: $Enums.CouponType
+  value?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  maxDiscount?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  scope?: $Enums.CouponScope
+  categoryId?: string | null
+  sellerId?: string | null
+  minOrderValue?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  usageLimit?: number | null
+  perUserLimit?: number | null
+  usedCount?: number
+  stackable?: boolean
+  startsAt?: Date | string | null
+  endsAt?: Date | string | null
+  isActive?: boolean
+  createdBy?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  redemptions?: Prisma.CouponRedemptionUncheckedCreateNestedManyWithoutCouponInput
+}
+
+export type CouponCreateOrConnectWithoutCartsInput = {
+  where: Prisma.CouponWhereUniqueInput
+  create: Prisma.XOR<Prisma.CouponCreateWithoutCartsInput, Prisma.CouponUncheckedCreateWithoutCartsInput>
+}
+
+export type CouponUpsertWithoutCartsInput = {
+  update: Prisma.XOR<Prisma.CouponUpdateWithoutCartsInput, Prisma.CouponUncheckedUpdateWithoutCartsInput>
+  create: Prisma.XOR<Prisma.CouponCreateWithoutCartsInput, Prisma.CouponUncheckedCreateWithoutCartsInput>
+  where?: Prisma.CouponWhereInput
+}
+
+export type CouponUpdateToOneWithWhereWithoutCartsInput = {
+  where?: Prisma.CouponWhereInput
+  data: Prisma.XOR<Prisma.CouponUpdateWithoutCartsInput, Prisma.CouponUncheckedUpdateWithoutCartsInput>
+}
+
+export type CouponUpdateWithoutCartsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  code?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  type?: Prisma.EnumCouponTypeFieldUpdateOperationsInput | $Enums.CouponType
+  value?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  maxDiscount?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  scope?: Prisma.EnumCouponScopeFieldUpdateOperationsInput | $Enums.CouponScope
+  minOrderValue?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  usageLimit?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  perUserLimit?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  usedCount?: Prisma.IntFieldUpdateOperationsInput | number
+  stackable?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  startsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  endsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  category?: Prisma.CategoryUpdateOneWithoutCouponsNestedInput
+  seller?: Prisma.UserUpdateOneWithoutSellerCouponsNestedInput
+  redemptions?: Prisma.CouponRedemptionUpdateManyWithoutCouponNestedInput
+}
+
+export type CouponUncheckedUpdateWithoutCartsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  code?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  type?: Prisma.EnumCouponTypeFieldUpdateOperationsInput | $Enums.CouponType
+  value?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  maxDiscount?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  scope?: Prisma.EnumCouponScopeFieldUpdateOperationsInput | $Enums.CouponScope
+  categoryId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  sellerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  minOrderValue?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  usageLimit?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  perUserLimit?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  usedCount?: Prisma.IntFieldUpdateOperationsInput | number
+  stackable?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  startsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  endsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  redemptions?: Prisma.CouponRedemptionUncheckedUpdateManyWithoutCouponNestedInput
+}
+
+export type CouponCreateWithoutRedemptionsInput = {
+  id?: string
+  code: string
+  description?: string | null
+  type: $Enums.CouponType
+  value?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  maxDiscount?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  scope?: $Enums.CouponScope
+  minOrderValue?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  usageLimit?: number | null
+  perUserLimit?: number | null
+  usedCount?: number
+  stackable?: boolean
+  startsAt?: Date | string | null
+  endsAt?: Date | string | null
+  isActive?: boolean
+  createdBy?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  category?: Prisma.CategoryCreateNestedOneWithoutCouponsInput
+  seller?: Prisma.UserCreateNestedOneWithoutSellerCouponsInput
+  carts?: Prisma.CartCouponCreateNestedManyWithoutCouponInput
+}
+
+export type CouponUncheckedCreateWithoutRedemptionsInput = {
+  id?: string
+  code: string
+  description?: string | null
+  type: $Enums.CouponType
+  value?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  maxDiscount?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  scope?: $Enums.CouponScope
+  categoryId?: string | null
+  sellerId?: string | null
+  minOrderValue?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  usageLimit?: number | null
+  perUserLimit?: number | null
+  usedCount?: number
+  stackable?: boolean
+  startsAt?: Date | string | null
+  endsAt?: Date | string | null
+  isActive?: boolean
+  createdBy?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  carts?: Prisma.CartCouponUncheckedCreateNestedManyWithoutCouponInput
+}
+
+export type CouponCreateOrConnectWithoutRedemptionsInput = {
+  where: Prisma.CouponWhereUniqueInput
+  create: Prisma.XOR<Prisma.CouponCreateWithoutRedemptionsInput, Prisma.CouponUncheckedCreateWithoutRedemptionsInput>
+}
+
+export type CouponUpsertWithoutRedemptionsInput = {
+  update: Prisma.XOR<Prisma.CouponUpdateWithoutRedemptionsInput, Prisma.CouponUncheckedUpdateWithoutRedemptionsInput>
+  create: Prisma.XOR<Prisma.CouponCreateWithoutRedemptionsInput, Prisma.CouponUncheckedCreateWithoutRedemptionsInput>
+  where?: Prisma.CouponWhereInput
+}
+
+export type CouponUpdateToOneWithWhereWithoutRedemptionsInput = {
+  where?: Prisma.CouponWhereInput
+  data: Prisma.XOR<Prisma.CouponUpdateWithoutRedemptionsInput, Prisma.CouponUncheckedUpdateWithoutRedemptionsInput>
+}
+
+export type CouponUpdateWithoutRedemptionsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  code?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  type?: Prisma.EnumCouponTypeFieldUpdateOperationsInput | $Enums.CouponType
+  value?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  maxDiscount?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  scope?: Prisma.EnumCouponScopeFieldUpdateOperationsInput | $Enums.CouponScope
+  minOrderValue?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  usageLimit?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  perUserLimit?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  usedCount?: Prisma.IntFieldUpdateOperationsInput | number
+  stackable?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  startsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  endsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  category?: Prisma.CategoryUpdateOneWithoutCouponsNestedInput
+  seller?: Prisma.UserUpdateOneWithoutSellerCouponsNestedInput
+  carts?: Prisma.CartCouponUpdateManyWithoutCouponNestedInput
+}
+
+export type CouponUncheckedUpdateWithoutRedemptionsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  code?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  type?: Prisma.EnumCouponTypeFieldUpdateOperationsInput | $Enums.CouponType
+  value?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  maxDiscount?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  scope?: Prisma.EnumCouponScopeFieldUpdateOperationsInput | $Enums.CouponScope
+  categoryId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  sellerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  minOrderValue?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  usageLimit?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  perUserLimit?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  usedCount?: Prisma.IntFieldUpdateOperationsInput | number
+  stackable?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  startsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  endsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  carts?: Prisma.CartCouponUncheckedUpdateManyWithoutCouponNestedInput
+}
+
+export type CouponCreateWithoutSellerInput = {
+  id?: string
+  code: string
+  description?: string | null
+  type: $Enums.CouponType
+  value?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  maxDiscount?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  scope?: $Enums.CouponScope
+  minOrderValue?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  usageLimit?: number | null
+  perUserLimit?: number | null
+  usedCount?: number
+  stackable?: boolean
+  startsAt?: Date | string | null
+  endsAt?: Date | string | null
+  isActive?: boolean
+  createdBy?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  category?: Prisma.CategoryCreateNestedOneWithoutCouponsInput
+  carts?: Prisma.CartCouponCreateNestedManyWithoutCouponInput
+  redemptions?: Prisma.CouponRedemptionCreateNestedManyWithoutCouponInput
+}
+
+export type CouponUncheckedCreateWithoutSellerInput = {
+  id?: string
+  code: string
+  description?: string | null
+  type: $Enums.CouponType
+  value?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  maxDiscount?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  scope?: $Enums.CouponScope
+  categoryId?: string | null
+  minOrderValue?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  usageLimit?: number | null
+  perUserLimit?: number | null
+  usedCount?: number
+  stackable?: boolean
+  startsAt?: Date | string | null
+  endsAt?: Date | string | null
+  isActive?: boolean
+  createdBy?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  carts?: Prisma.CartCouponUncheckedCreateNestedManyWithoutCouponInput
+  redemptions?: Prisma.CouponRedemptionUncheckedCreateNestedManyWithoutCouponInput
+}
+
+export type CouponCreateOrConnectWithoutSellerInput = {
+  where: Prisma.CouponWhereUniqueInput
+  create: Prisma.XOR<Prisma.CouponCreateWithoutSellerInput, Prisma.CouponUncheckedCreateWithoutSellerInput>
+}
+
+export type CouponCreateManySellerInputEnvelope = {
+  data: Prisma.CouponCreateManySellerInput | Prisma.CouponCreateManySellerInput[]
+  skipDuplicates?: boolean
+}
+
+export type CouponUpsertWithWhereUniqueWithoutSellerInput = {
+  where: Prisma.CouponWhereUniqueInput
+  update: Prisma.XOR<Prisma.CouponUpdateWithoutSellerInput, Prisma.CouponUncheckedUpdateWithoutSellerInput>
+  create: Prisma.XOR<Prisma.CouponCreateWithoutSellerInput, Prisma.CouponUncheckedCreateWithoutSellerInput>
+}
+
+export type CouponUpdateWithWhereUniqueWithoutSellerInput = {
+  where: Prisma.CouponWhereUniqueInput
+  data: Prisma.XOR<Prisma.CouponUpdateWithoutSellerInput, Prisma.CouponUncheckedUpdateWithoutSellerInput>
+}
+
+export type CouponUpdateManyWithWhereWithoutSellerInput = {
+  where: Prisma.CouponScalarWhereInput
+  data: Prisma.XOR<Prisma.CouponUpdateManyMutationInput, Prisma.CouponUncheckedUpdateManyWithoutSellerInput>
+}
+
+export type CouponCreateManyCategoryInput = {
+  id?: string
+  code: string
+  description?: string | null
+  type: $Enums.CouponType
+  value?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  maxDiscount?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  scope?: $Enums.CouponScope
+  sellerId?: string | null
+  minOrderValue?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  usageLimit?: number | null
+  perUserLimit?: number | null
+  usedCount?: number
+  stackable?: boolean
+  startsAt?: Date | string | null
+  endsAt?: Date | string | null
+  isActive?: boolean
+  createdBy?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type CouponUpdateWithoutCategoryInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  code?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  type?: Prisma.EnumCouponTypeFieldUpdateOperationsInput | $Enums.CouponType
+  value?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  maxDiscount?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  scope?: Prisma.EnumCouponScopeFieldUpdateOperationsInput | $Enums.CouponScope
+  minOrderValue?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  usageLimit?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  perUserLimit?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  usedCount?: Prisma.IntFieldUpdateOperationsInput | number
+  stackable?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  startsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  endsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  seller?: Prisma.UserUpdateOneWithoutSellerCouponsNestedInput
+  carts?: Prisma.CartCouponUpdateManyWithoutCouponNestedInput
+  redemptions?: Prisma.CouponRedemptionUpdateManyWithoutCouponNestedInput
+}
+
+export type CouponUncheckedUpdateWithoutCategoryInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  code?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  type?: Prisma.EnumCouponTypeFieldUpdateOperationsInput | $Enums.CouponType
+  value?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  maxDiscount?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  scope?: Prisma.EnumCouponScopeFieldUpdateOperationsInput | $Enums.CouponScope
+  sellerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  minOrderValue?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  usageLimit?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  perUserLimit?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  usedCount?: Prisma.IntFieldUpdateOperationsInput | number
+  stackable?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  startsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  endsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  carts?: Prisma.CartCouponUncheckedUpdateManyWithoutCouponNestedInput
+  redemptions?: Prisma.CouponRedemptionUncheckedUpdateManyWithoutCouponNestedInput
+}
+
+export type CouponUncheckedUpdateManyWithoutCategoryInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  code?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  type?: Prisma.EnumCouponTypeFieldUpdateOperationsInput | $Enums.CouponType
+  value?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  maxDiscount?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  scope?: Prisma.EnumCouponScopeFieldUpdateOperationsInput | $Enums.CouponScope
+  sellerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  minOrderValue?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  usageLimit?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  perUserLimit?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  usedCount?: Prisma.IntFieldUpdateOperationsInput | number
+  stackable?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  startsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  endsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type CouponCreateManySellerInput = {
+  id?: string
+  code: string
+  description?: string | null
+  type: $Enums.CouponType
+  value?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  maxDiscount?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  scope?: $Enums.CouponScope
+  categoryId?: string | null
+  minOrderValue?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  usageLimit?: number | null
+  perUserLimit?: number | null
+  usedCount?: number
+  stackable?: boolean
+  startsAt?: Date | string | null
+  endsAt?: Date | string | null
+  isActive?: boolean
+  createdBy?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type CouponUpdateWithoutSellerInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  code?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  type?: Prisma.EnumCouponTypeFieldUpdateOperationsInput | $Enums.CouponType
+  value?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  maxDiscount?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  scope?: Prisma.EnumCouponScopeFieldUpdateOperationsInput | $Enums.CouponScope
+  minOrderValue?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  usageLimit?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  perUserLimit?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  usedCount?: Prisma.IntFieldUpdateOperationsInput | number
+  stackable?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  startsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  endsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  category?: Prisma.CategoryUpdateOneWithoutCouponsNestedInput
+  carts?: Prisma.CartCouponUpdateManyWithoutCouponNestedInput
+  redemptions?: Prisma.CouponRedemptionUpdateManyWithoutCouponNestedInput
+}
+
+export type CouponUncheckedUpdateWithoutSellerInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  code?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  type?: Prisma.EnumCouponTypeFieldUpdateOperationsInput | $Enums.CouponType
+  value?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  maxDiscount?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  scope?: Prisma.EnumCouponScopeFieldUpdateOperationsInput | $Enums.CouponScope
+  categoryId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  minOrderValue?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  usageLimit?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  perUserLimit?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  usedCount?: Prisma.IntFieldUpdateOperationsInput | number
+  stackable?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  startsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  endsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  carts?: Prisma.CartCouponUncheckedUpdateManyWithoutCouponNestedInput
+  redemptions?: Prisma.CouponRedemptionUncheckedUpdateManyWithoutCouponNestedInput
+}
+
+export type CouponUncheckedUpdateManyWithoutSellerInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  code?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  type?: Prisma.EnumCouponTypeFieldUpdateOperationsInput | $Enums.CouponType
+  value?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  maxDiscount?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  scope?: Prisma.EnumCouponScopeFieldUpdateOperationsInput | $Enums.CouponScope
+  categoryId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  minOrderValue?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  usageLimit?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  perUserLimit?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  usedCount?: Prisma.IntFieldUpdateOperationsInput | number
+  stackable?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  startsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  endsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+/**
+ * Count Type CouponCountOutputType
+ */
+
+export type CouponCountOutputType = {
+  carts: number
+  redemptions: number
+}
+
+export type CouponCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  carts?: boolean | CouponCountOutputTypeCountCartsArgs
+  redemptions?: boolean | CouponCountOutputTypeCountRedemptionsArgs
+}
+
+/**
+ * CouponCountOutputType without action
+ */
+export type CouponCountOutputTypeDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CouponCountOutputType
+   */
+  select?: Prisma.CouponCountOutputTypeSelect<ExtArgs> | null
+}
+
+/**
+ * CouponCountOutputType without action
+ */
+export type CouponCountOutputTypeCountCartsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.CartCouponWhereInput
+}
+
+/**
+ * CouponCountOutputType without action
+ */
+export type CouponCountOutputTypeCountRedemptionsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.CouponRedemptionWhereInput
+}
+
+
+export type CouponSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  code?: boolean
+  description?: boolean
+  type?: boolean
+  value?: boolean
+  maxDiscount?: boolean
+  scope?: boolean
+  categoryId?: boolean
+  sellerId?: boolean
+  minOrderValue?: boolean
+  usageLimit?: boolean
+  perUserLimit?: boolean
+  usedCount?: boolean
+  stackable?: boolean
+  startsAt?: boolean
+  endsAt?: boolean
+  isActive?: boolean
+  createdBy?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  category?: boolean | Prisma.Coupon$categoryArgs<ExtArgs>
+  seller?: boolean | Prisma.Coupon$sellerArgs<ExtArgs>
+  carts?: boolean | Prisma.Coupon$cartsArgs<ExtArgs>
+  redemptions?: boolean | Prisma.Coupon$redemptionsArgs<ExtArgs>
+  _count?: boolean | Prisma.CouponCountOutputTypeDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["coupon"]>
+
+export type CouponSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  code?: boolean
+  description?: boolean
+  type?: boolean
+  value?: boolean
+  maxDiscount?: boolean
+  scope?: boolean
+  categoryId?: boolean
+  sellerId?: boolean
+  minOrderValue?: boolean
+  usageLimit?: boolean
+  perUserLimit?: boolean
+  usedCount?: boolean
+  stackable?: boolean
+  startsAt?: boolean
+  endsAt?: boolean
+  isActive?: boolean
+  createdBy?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  category?: boolean | Prisma.Coupon$categoryArgs<ExtArgs>
+  seller?: boolean | Prisma.Coupon$sellerArgs<ExtArgs>
+}, ExtArgs["result"]["coupon"]>
+
+export type CouponSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  code?: boolean
+  description?: boolean
+  type?: boolean
+  value?: boolean
+  maxDiscount?: boolean
+  scope?: boolean
+  categoryId?: boolean
+  sellerId?: boolean
+  minOrderValue?: boolean
+  usageLimit?: boolean
+  perUserLimit?: boolean
+  usedCount?: boolean
+  stackable?: boolean
+  startsAt?: boolean
+  endsAt?: boolean
+  isActive?: boolean
+  createdBy?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  category?: boolean | Prisma.Coupon$categoryArgs<ExtArgs>
+  seller?: boolean | Prisma.Coupon$sellerArgs<ExtArgs>
+}, ExtArgs["result"]["coupon"]>
+
+export type CouponSelectScalar = {
+  id?: boolean
+  code?: boolean
+  description?: boolean
+  type?: boolean
+  value?: boolean
+  maxDiscount?: boolean
+  scope?: boolean
+  categoryId?: boolean
+  sellerId?: boolean
+  minOrderValue?: boolean
+  usageLimit?: boolean
+  perUserLimit?: boolean
+  usedCount?: boolean
+  stackable?: boolean
+  startsAt?: boolean
+  endsAt?: boolean
+  isActive?: boolean
+  createdBy?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}
+
+export type CouponOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "code" | "description" | "type" | "value" | "maxDiscount" | "scope" | "categoryId" | "sellerId" | "minOrderValue" | "usageLimit" | "perUserLimit" | "usedCount" | "stackable" | "startsAt" | "endsAt" | "isActive" | "createdBy" | "createdAt" | "updatedAt", ExtArgs["result"]["coupon"]>
+export type CouponInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  category?: boolean | Prisma.Coupon$categoryArgs<ExtArgs>
+  seller?: boolean | Prisma.Coupon$sellerArgs<ExtArgs>
+  carts?: boolean | Prisma.Coupon$cartsArgs<ExtArgs>
+  redemptions?: boolean | Prisma.Coupon$redemptionsArgs<ExtArgs>
+  _count?: boolean | Prisma.CouponCountOutputTypeDefaultArgs<ExtArgs>
+}
+export type CouponIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  category?: boolean | Prisma.Coupon$categoryArgs<ExtArgs>
+  seller?: boolean | Prisma.Coupon$sellerArgs<ExtArgs>
+}
+export type CouponIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  category?: boolean | Prisma.Coupon$categoryArgs<ExtArgs>
+  seller?: boolean | Prisma.Coupon$sellerArgs<ExtArgs>
+}
+
+export type $CouponPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "Coupon"
+  objects: {
+    category: Prisma.$CategoryPayload<ExtArgs> | null
+    seller: Prisma.$UserPayload<ExtArgs> | null
+    carts: Prisma.$CartCouponPayload<ExtArgs>[]
+    redemptions: Prisma.$CouponRedemptionPayload<ExtArgs>[]
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    code: string
+    description: string | null
+    type: $Enums.CouponType
+    value: runtime.Decimal
+    maxDiscount: runtime.Decimal | null
+    scope: $Enums.CouponScope
+    categoryId: string | null
+    sellerId: string | null
+    minOrderValue: runtime.Decimal | null
+    usageLimit: number | null
+    perUserLimit: number | null
+    usedCount: number
+    stackable: boolean
+    startsAt: Date | null
+    endsAt: Date | null
+    isActive: boolean
+    createdBy: string | null
+    createdAt: Date
+    updatedAt: Date
+  }, ExtArgs["result"]["coupon"]>
+  composites: {}
+}
+
+export type CouponGetPayload<S extends boolean | null | undefined | CouponDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$CouponPayload, S>
+
+export type CouponCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<CouponFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: CouponCountAggregateInputType | true
+  }
+
+export interface CouponDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['Coupon'], meta: { name: 'Coupon' } }
+  /**
+   * Find zero or one Coupon that matches the filter.
+   * @param {CouponFindUniqueArgs} args - Arguments to find a Coupon
+   * @example
+   * // Get one Coupon
+   * const coupon = await prisma.coupon.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends CouponFindUniqueArgs>(args: Prisma.SelectSubset<T, CouponFindUniqueArgs<ExtArgs>>): Prisma.Prisma__CouponClient<runtime.Types.Result.GetResult<Prisma.$CouponPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one Coupon that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {CouponFindUniqueOrThrowArgs} args - Arguments to find a Coupon
+   * @example
+   * // Get one Coupon
+   * const coupon = await prisma.coupon.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends CouponFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, CouponFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__CouponClient<runtime.Types.Result.GetResult<Prisma.$CouponPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first Coupon that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CouponFindFirstArgs} args - Arguments to find a Coupon
+   * @example
+   * // Get one Coupon
+   * const coupon = await prisma.coupon.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends CouponFindFirstArgs>(args?: Prisma.SelectSubset<T, CouponFindFirstArgs<ExtArgs>>): Prisma.Prisma__CouponClient<runtime.Types.Result.GetResult<Prisma.$CouponPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first Coupon that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CouponFindFirstOrThrowArgs} args - Arguments to find a Coupon
+   * @example
+   * // Get one Coupon
+   * const coupon = await prisma.coupon.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends CouponFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, CouponFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__CouponClient<runtime.Types.Result.GetResult<Prisma.$CouponPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more Coupons that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CouponFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all Coupons
+   * const coupons = await prisma.coupon.findMany()
+   * 
+   * // Get first 10 Coupons
+   * const coupons = await prisma.coupon.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const couponWithIdOnly = await prisma.coupon.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends CouponFindManyArgs>(args?: Prisma.SelectSubset<T, CouponFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$CouponPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a Coupon.
+   * @param {CouponCreateArgs} args - Arguments to create a Coupon.
+   * @example
+   * // Create one Coupon
+   * const Coupon = await prisma.coupon.create({
+   *   data: {
+   *     // ... data to create a Coupon
+   *   }
+   * })
+   * 
+   */
+  create<T extends CouponCreateArgs>(args: Prisma.SelectSubset<T, CouponCreateArgs<ExtArgs>>): Prisma.Prisma__CouponClient<runtime.Types.Result.GetResult<Prisma.$CouponPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many Coupons.
+   * @param {CouponCreateManyArgs} args - Arguments to create many Coupons.
+   * @example
+   * // Create many Coupons
+   * const coupon = await prisma.coupon.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends CouponCreateManyArgs>(args?: Prisma.SelectSubset<T, CouponCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many Coupons and returns the data saved in the database.
+   * @param {CouponCreateManyAndReturnArgs} args - Arguments to create many Coupons.
+   * @example
+   * // Create many Coupons
+   * const coupon = await prisma.coupon.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many Coupons and only return the `id`
+   * const couponWithIdOnly = await prisma.coupon.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends CouponCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, CouponCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$CouponPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a Coupon.
+   * @param {CouponDeleteArgs} args - Arguments to delete one Coupon.
+   * @example
+   * // Delete one Coupon
+   * const Coupon = await prisma.coupon.delete({
+   *   where: {
+   *     // ... filter to delete one Coupon
+   *   }
+   * })
+   * 
+   */
+  delete<T extends CouponDeleteArgs>(args: Prisma.SelectSubset<T, CouponDeleteArgs<ExtArgs>>): Prisma.Prisma__CouponClient<runtime.Types.Result.GetResult<Prisma.$CouponPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one Coupon.
+   * @param {CouponUpdateArgs} args - Arguments to update one Coupon.
+   * @example
+   * // Update one Coupon
+   * const coupon = await prisma.coupon.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends CouponUpdateArgs>(args: Prisma.SelectSubset<T, CouponUpdateArgs<ExtArgs>>): Prisma.Prisma__CouponClient<runtime.Types.Result.GetResult<Prisma.$CouponPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more Coupons.
+   * @param {CouponDeleteManyArgs} args - Arguments to filter Coupons to delete.
+   * @example
+   * // Delete a few Coupons
+   * const { count } = await prisma.coupon.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends CouponDeleteManyArgs>(args?: Prisma.SelectSubset<T, CouponDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more Coupons.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CouponUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many Coupons
+   * const coupon = await prisma.coupon.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends CouponUpdateManyArgs>(args: Prisma.SelectSubset<T, CouponUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more Coupons and returns the data updated in the database.
+   * @param {CouponUpdateManyAndReturnArgs} args - Arguments to update many Coupons.
+   * @example
+   * // Update many Coupons
+   * const coupon = await prisma.coupon.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more Coupons and only return the `id`
+   * const couponWithIdOnly = await prisma.coupon.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends CouponUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, CouponUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$CouponPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one Coupon.
+   * @param {CouponUpsertArgs} args - Arguments to update or create a Coupon.
+   * @example
+   * // Update or create a Coupon
+   * const coupon = await prisma.coupon.upsert({
+   *   create: {
+   *     // ... data to create a Coupon
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the Coupon we want to update
+   *   }
+   * })
+   */
+  upsert<T extends CouponUpsertArgs>(args: Prisma.SelectSubset<T, CouponUpsertArgs<ExtArgs>>): Prisma.Prisma__CouponClient<runtime.Types.Result.GetResult<Prisma.$CouponPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of Coupons.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CouponCountArgs} args - Arguments to filter Coupons to count.
+   * @example
+   * // Count the number of Coupons
+   * const count = await prisma.coupon.count({
+   *   where: {
+   *     // ... the filter for the Coupons we want to count
+   *   }
+   * })
+  **/
+  count<T extends CouponCountArgs>(
+    args?: Prisma.Subset<T, CouponCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], CouponCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a Coupon.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CouponAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends CouponAggregateArgs>(args: Prisma.Subset<T, CouponAggregateArgs>): Prisma.PrismaPromise<GetCouponAggregateType<T>>
+
+  /**
+   * Group by Coupon.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CouponGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends CouponGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: CouponGroupByArgs['orderBy'] }
+      : { orderBy?: CouponGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, CouponGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetCouponGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the Coupon model
+ */
+readonly fields: CouponFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for Coupon.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__CouponClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  category<T extends Prisma.Coupon$categoryArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Coupon$categoryArgs<ExtArgs>>): Prisma.Prisma__CategoryClient<runtime.Types.Result.GetResult<Prisma.$CategoryPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  seller<T extends Prisma.Coupon$sellerArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Coupon$sellerArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  carts<T extends Prisma.Coupon$cartsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Coupon$cartsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$CartCouponPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  redemptions<T extends Prisma.Coupon$redemptionsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Coupon$redemptionsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$CouponRedemptionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the Coupon model
+ */
+export interface CouponFieldRefs {
+  readonly id: Prisma.FieldRef<"Coupon", 'String'>
+  readonly code: Prisma.FieldRef<"Coupon", 'String'>
+  readonly description: Prisma.FieldRef<"Coupon", 'String'>
+  readonly type: Prisma.FieldRef<"Coupon", 'CouponType'>
+  readonly value: Prisma.FieldRef<"Coupon", 'Decimal'>
+  readonly maxDiscount: Prisma.FieldRef<"Coupon", 'Decimal'>
+  readonly scope: Prisma.FieldRef<"Coupon", 'CouponScope'>
+  readonly categoryId: Prisma.FieldRef<"Coupon", 'String'>
+  readonly sellerId: Prisma.FieldRef<"Coupon", 'String'>
+  readonly minOrderValue: Prisma.FieldRef<"Coupon", 'Decimal'>
+  readonly usageLimit: Prisma.FieldRef<"Coupon", 'Int'>
+  readonly perUserLimit: Prisma.FieldRef<"Coupon", 'Int'>
+  readonly usedCount: Prisma.FieldRef<"Coupon", 'Int'>
+  readonly stackable: Prisma.FieldRef<"Coupon", 'Boolean'>
+  readonly startsAt: Prisma.FieldRef<"Coupon", 'DateTime'>
+  readonly endsAt: Prisma.FieldRef<"Coupon", 'DateTime'>
+  readonly isActive: Prisma.FieldRef<"Coupon", 'Boolean'>
+  readonly createdBy: Prisma.FieldRef<"Coupon", 'String'>
+  readonly createdAt: Prisma.FieldRef<"Coupon", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"Coupon", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * Coupon findUnique
+ */
+export type CouponFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Coupon
+   */
+  select?: Prisma.CouponSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Coupon
+   */
+  omit?: Prisma.CouponOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CouponInclude<ExtArgs> | null
+  /**
+   * Filter, which Coupon to fetch.
+   */
+  where: Prisma.CouponWhereUniqueInput
+}
+
+/**
+ * Coupon findUniqueOrThrow
+ */
+export type CouponFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Coupon
+   */
+  select?: Prisma.CouponSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Coupon
+   */
+  omit?: Prisma.CouponOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CouponInclude<ExtArgs> | null
+  /**
+   * Filter, which Coupon to fetch.
+   */
+  where: Prisma.CouponWhereUniqueInput
+}
+
+/**
+ * Coupon findFirst
+ */
+export type CouponFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Coupon
+   */
+  select?: Prisma.CouponSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Coupon
+   */
+  omit?: Prisma.CouponOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CouponInclude<ExtArgs> | null
+  /**
+   * Filter, which Coupon to fetch.
+   */
+  where?: Prisma.CouponWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Coupons to fetch.
+   */
+  orderBy?: Prisma.CouponOrderByWithRelationInput | Prisma.CouponOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for Coupons.
+   */
+  cursor?: Prisma.CouponWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Coupons from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Coupons.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of Coupons.
+   */
+  distinct?: Prisma.CouponScalarFieldEnum | Prisma.CouponScalarFieldEnum[]
+}
+
+/**
+ * Coupon findFirstOrThrow
+ */
+export type CouponFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Coupon
+   */
+  select?: Prisma.CouponSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Coupon
+   */
+  omit?: Prisma.CouponOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CouponInclude<ExtArgs> | null
+  /**
+   * Filter, which Coupon to fetch.
+   */
+  where?: Prisma.CouponWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Coupons to fetch.
+   */
+  orderBy?: Prisma.CouponOrderByWithRelationInput | Prisma.CouponOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for Coupons.
+   */
+  cursor?: Prisma.CouponWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Coupons from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Coupons.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of Coupons.
+   */
+  distinct?: Prisma.CouponScalarFieldEnum | Prisma.CouponScalarFieldEnum[]
+}
+
+/**
+ * Coupon findMany
+ */
+export type CouponFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Coupon
+   */
+  select?: Prisma.CouponSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Coupon
+   */
+  omit?: Prisma.CouponOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CouponInclude<ExtArgs> | null
+  /**
+   * Filter, which Coupons to fetch.
+   */
+  where?: Prisma.CouponWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Coupons to fetch.
+   */
+  orderBy?: Prisma.CouponOrderByWithRelationInput | Prisma.CouponOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing Coupons.
+   */
+  cursor?: Prisma.CouponWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Coupons from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Coupons.
+   */
+  skip?: number
+  distinct?: Prisma.CouponScalarFieldEnum | Prisma.CouponScalarFieldEnum[]
+}
+
+/**
+ * Coupon create
+ */
+export type CouponCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Coupon
+   */
+  select?: Prisma.CouponSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Coupon
+   */
+  omit?: Prisma.CouponOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CouponInclude<ExtArgs> | null
+  /**
+   * The data needed to create a Coupon.
+   */
+  data: Prisma.XOR<Prisma.CouponCreateInput, Prisma.CouponUncheckedCreateInput>
+}
+
+/**
+ * Coupon createMany
+ */
+export type CouponCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many Coupons.
+   */
+  data: Prisma.CouponCreateManyInput | Prisma.CouponCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * Coupon createManyAndReturn
+ */
+export type CouponCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Coupon
+   */
+  select?: Prisma.CouponSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the Coupon
+   */
+  omit?: Prisma.CouponOmit<ExtArgs> | null
+  /**
+   * The data used to create many Coupons.
+   */
+  data: Prisma.CouponCreateManyInput | Prisma.CouponCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CouponIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * Coupon update
+ */
+export type CouponUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Coupon
+   */
+  select?: Prisma.CouponSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Coupon
+   */
+  omit?: Prisma.CouponOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CouponInclude<ExtArgs> | null
+  /**
+   * The data needed to update a Coupon.
+   */
+  data: Prisma.XOR<Prisma.CouponUpdateInput, Prisma.CouponUncheckedUpdateInput>
+  /**
+   * Choose, which Coupon to update.
+   */
+  where: Prisma.CouponWhereUniqueInput
+}
+
+/**
+ * Coupon updateMany
+ */
+export type CouponUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update Coupons.
+   */
+  data: Prisma.XOR<Prisma.CouponUpdateManyMutationInput, Prisma.CouponUncheckedUpdateManyInput>
+  /**
+   * Filter which Coupons to update
+   */
+  where?: Prisma.CouponWhereInput
+  /**
+   * Limit how many Coupons to update.
+   */
+  limit?: number
+}
+
+/**
+ * Coupon updateManyAndReturn
+ */
+export type CouponUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Coupon
+   */
+  select?: Prisma.CouponSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the Coupon
+   */
+  omit?: Prisma.CouponOmit<ExtArgs> | null
+  /**
+   * The data used to update Coupons.
+   */
+  data: Prisma.XOR<Prisma.CouponUpdateManyMutationInput, Prisma.CouponUncheckedUpdateManyInput>
+  /**
+   * Filter which Coupons to update
+   */
+  where?: Prisma.CouponWhereInput
+  /**
+   * Limit how many Coupons to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CouponIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * Coupon upsert
+ */
+export type CouponUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Coupon
+   */
+  select?: Prisma.CouponSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Coupon
+   */
+  omit?: Prisma.CouponOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CouponInclude<ExtArgs> | null
+  /**
+   * The filter to search for the Coupon to update in case it exists.
+   */
+  where: Prisma.CouponWhereUniqueInput
+  /**
+   * In case the Coupon found by the `where` argument doesn't exist, create a new Coupon with this data.
+   */
+  create: Prisma.XOR<Prisma.CouponCreateInput, Prisma.CouponUncheckedCreateInput>
+  /**
+   * In case the Coupon was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.CouponUpdateInput, Prisma.CouponUncheckedUpdateInput>
+}
+
+/**
+ * Coupon delete
+ */
+export type CouponDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Coupon
+   */
+  select?: Prisma.CouponSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Coupon
+   */
+  omit?: Prisma.CouponOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CouponInclude<ExtArgs> | null
+  /**
+   * Filter which Coupon to delete.
+   */
+  where: Prisma.CouponWhereUniqueInput
+}
+
+/**
+ * Coupon deleteMany
+ */
+export type CouponDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which Coupons to delete
+   */
+  where?: Prisma.CouponWhereInput
+  /**
+   * Limit how many Coupons to delete.
+   */
+  limit?: number
+}
+
+/**
+ * Coupon.category
+ */
+export type Coupon$categoryArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Category
+   */
+  select?: Prisma.CategorySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Category
+   */
+  omit?: Prisma.CategoryOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CategoryInclude<ExtArgs> | null
+  where?: Prisma.CategoryWhereInput
+}
+
+/**
+ * Coupon.seller
+ */
+export type Coupon$sellerArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the User
+   */
+  select?: Prisma.UserSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the User
+   */
+  omit?: Prisma.UserOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.UserInclude<ExtArgs> | null
+  where?: Prisma.UserWhereInput
+}
+
+/**
+ * Coupon.carts
+ */
+export type Coupon$cartsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CartCoupon
+   */
+  select?: Prisma.CartCouponSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CartCoupon
+   */
+  omit?: Prisma.CartCouponOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CartCouponInclude<ExtArgs> | null
+  where?: Prisma.CartCouponWhereInput
+  orderBy?: Prisma.CartCouponOrderByWithRelationInput | Prisma.CartCouponOrderByWithRelationInput[]
+  cursor?: Prisma.CartCouponWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.CartCouponScalarFieldEnum | Prisma.CartCouponScalarFieldEnum[]
+}
+
+/**
+ * Coupon.redemptions
+ */
+export type Coupon$redemptionsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CouponRedemption
+   */
+  select?: Prisma.CouponRedemptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CouponRedemption
+   */
+  omit?: Prisma.CouponRedemptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CouponRedemptionInclude<ExtArgs> | null
+  where?: Prisma.CouponRedemptionWhereInput
+  orderBy?: Prisma.CouponRedemptionOrderByWithRelationInput | Prisma.CouponRedemptionOrderByWithRelationInput[]
+  cursor?: Prisma.CouponRedemptionWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.CouponRedemptionScalarFieldEnum | Prisma.CouponRedemptionScalarFieldEnum[]
+}
+
+/**
+ * Coupon without action
+ */
+export type CouponDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Coupon
+   */
+  select?: Prisma.CouponSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Coupon
+   */
+  omit?: Prisma.CouponOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CouponInclude<ExtArgs> | null
+}
@@ -0,0 +1,1592 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `CouponRedemption` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model CouponRedemption
+ * 
+ */
+export type CouponRedemptionModel = runtime.Types.Result.DefaultSelection<Prisma.$CouponRedemptionPayload>
+
+export type AggregateCouponRedemption = {
+  _count: CouponRedemptionCountAggregateOutputType | null
+  _avg: CouponRedemptionAvgAggregateOutputType | null
+  _sum: CouponRedemptionSumAggregateOutputType | null
+  _min: CouponRedemptionMinAggregateOutputType | null
+  _max: CouponRedemptionMaxAggregateOutputType | null
+}
+
+export type CouponRedemptionAvgAggregateOutputType = {
+  discount: runtime.Decimal | null
+}
+
+export type CouponRedemptionSumAggregateOutputType = {
+  discount: runtime.Decimal | null
+}
+
+export type CouponRedemptionMinAggregateOutputType = {
+  id: string | null
+  couponId: string | null
+  orderId: string | null
+  userId: string | null
+  code: string | null
+  discount: runtime.Decimal | null
+  createdAt: Date | null
+}
+
+export type CouponRedemptionMaxAggregateOutputType = {
+  id: string | null
+  couponId: string | null
+  orderId: string | null
+  userId: string | null
+  code: string | null
+  discount: runtime.Decimal | null
+  createdAt: Date | null
+}
+
+export type CouponRedemptionCountAggregateOutputType = {
+  id: number
+  couponId: number
+  orderId: number
+  userId: number
+  code: number
+  discount: number
+  createdAt: number
+  _all: number
+}
+
+
+export type CouponRedemptionAvgAggregateInputType = {
+  discount?: true
+}
+
+export type CouponRedemptionSumAggregateInputType = {
+  discount?: true
+}
+
+export type CouponRedemptionMinAggregateInputType = {
+  id?: true
+  couponId?: true
+  orderId?: true
+  userId?: true
+  code?: true
+  discount?: true
+  createdAt?: true
+}
+
+export type CouponRedemptionMaxAggregateInputType = {
+  id?: true
+  couponId?: true
+  orderId?: true
+  userId?: true
+  code?: true
+  discount?: true
+  createdAt?: true
+}
+
+export type CouponRedemptionCountAggregateInputType = {
+  id?: true
+  couponId?: true
+  orderId?: true
+  userId?: true
+  code?: true
+  discount?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type CouponRedemptionAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which CouponRedemption to aggregate.
+   */
+  where?: Prisma.CouponRedemptionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of CouponRedemptions to fetch.
+   */
+  orderBy?: Prisma.CouponRedemptionOrderByWithRelationInput | Prisma.CouponRedemptionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.CouponRedemptionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` CouponRedemptions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` CouponRedemptions.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned CouponRedemptions
+  **/
+  _count?: true | CouponRedemptionCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: CouponRedemptionAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: CouponRedemptionSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: CouponRedemptionMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: CouponRedemptionMaxAggregateInputType
+}
+
+export type GetCouponRedemptionAggregateType<T extends CouponRedemptionAggregateArgs> = {
+      [P in keyof T & keyof AggregateCouponRedemption]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateCouponRedemption[P]>
+    : Prisma.GetScalarType<T[P], AggregateCouponRedemption[P]>
+}
+
+
+
+
+export type CouponRedemptionGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.CouponRedemptionWhereInput
+  orderBy?: Prisma.CouponRedemptionOrderByWithAggregationInput | Prisma.CouponRedemptionOrderByWithAggregationInput[]
+  by: Prisma.CouponRedemptionScalarFieldEnum[] | Prisma.CouponRedemptionScalarFieldEnum
+  having?: Prisma.CouponRedemptionScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: CouponRedemptionCountAggregateInputType | true
+  _avg?: CouponRedemptionAvgAggregateInputType
+  _sum?: CouponRedemptionSumAggregateInputType
+  _min?: CouponRedemptionMinAggregateInputType
+  _max?: CouponRedemptionMaxAggregateInputType
+}
+
+export type CouponRedemptionGroupByOutputType = {
+  id: string
+  couponId: string
+  orderId: string
+  userId: string
+  code: string
+  discount: runtime.Decimal
+  createdAt: Date
+  _count: CouponRedemptionCountAggregateOutputType | null
+  _avg: CouponRedemptionAvgAggregateOutputType | null
+  _sum: CouponRedemptionSumAggregateOutputType | null
+  _min: CouponRedemptionMinAggregateOutputType | null
+  _max: CouponRedemptionMaxAggregateOutputType | null
+}
+
+type GetCouponRedemptionGroupByPayload<T extends CouponRedemptionGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<CouponRedemptionGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof CouponRedemptionGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], CouponRedemptionGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], CouponRedemptionGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type CouponRedemptionWhereInput = {
+  AND?: Prisma.CouponRedemptionWhereInput | Prisma.CouponRedemptionWhereInput[]
+  OR?: Prisma.CouponRedemptionWhereInput[]
+  NOT?: Prisma.CouponRedemptionWhereInput | Prisma.CouponRedemptionWhereInput[]
+  id?: Prisma.StringFilter<"CouponRedemption"> | string
+  couponId?: Prisma.StringFilter<"CouponRedemption"> | string
+  orderId?: Prisma.StringFilter<"CouponRedemption"> | string
+  userId?: Prisma.StringFilter<"CouponRedemption"> | string
+  code?: Prisma.StringFilter<"CouponRedemption"> | string
+  discount?: Prisma.DecimalFilter<"CouponRedemption"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  createdAt?: Prisma.DateTimeFilter<"CouponRedemption"> | Date | string
+  coupon?: Prisma.XOR<Prisma.CouponScalarRelationFilter, Prisma.CouponWhereInput>
+  order?: Prisma.XOR<Prisma.OrderScalarRelationFilter, Prisma.OrderWhereInput>
+}
+
+export type CouponRedemptionOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  couponId?: Prisma.SortOrder
+  orderId?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  code?: Prisma.SortOrder
+  discount?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  coupon?: Prisma.CouponOrderByWithRelationInput
+  order?: Prisma.OrderOrderByWithRelationInput
+}
+
+export type CouponRedemptionWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  couponId_orderId?: Prisma.CouponRedemptionCouponIdOrderIdCompoundUniqueInput
+  AND?: Prisma.CouponRedemptionWhereInput | Prisma.CouponRedemptionWhereInput[]
+  OR?: Prisma.CouponRedemptionWhereInput[]
+  NOT?: Prisma.CouponRedemptionWhereInput | Prisma.CouponRedemptionWhereInput[]
+  couponId?: Prisma.StringFilter<"CouponRedemption"> | string
+  orderId?: Prisma.StringFilter<"CouponRedemption"> | string
+  userId?: Prisma.StringFilter<"CouponRedemption"> | string
+  code?: Prisma.StringFilter<"CouponRedemption"> | string
+  discount?: Prisma.DecimalFilter<"CouponRedemption"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  createdAt?: Prisma.DateTimeFilter<"CouponRedemption"> | Date | string
+  coupon?: Prisma.XOR<Prisma.CouponScalarRelationFilter, Prisma.CouponWhereInput>
+  order?: Prisma.XOR<Prisma.OrderScalarRelationFilter, Prisma.OrderWhereInput>
+}, "id" | "couponId_orderId">
+
+export type CouponRedemptionOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  couponId?: Prisma.SortOrder
+  orderId?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  code?: Prisma.SortOrder
+  discount?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.CouponRedemptionCountOrderByAggregateInput
+  _avg?: Prisma.CouponRedemptionAvgOrderByAggregateInput
+  _max?: Prisma.CouponRedemptionMaxOrderByAggregateInput
+  _min?: Prisma.CouponRedemptionMinOrderByAggregateInput
+  _sum?: Prisma.CouponRedemptionSumOrderByAggregateInput
+}
+
+export type CouponRedemptionScalarWhereWithAggregatesInput = {
+  AND?: Prisma.CouponRedemptionScalarWhereWithAggregatesInput | Prisma.CouponRedemptionScalarWhereWithAggregatesInput[]
+  OR?: Prisma.CouponRedemptionScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.CouponRedemptionScalarWhereWithAggregatesInput | Prisma.CouponRedemptionScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"CouponRedemption"> | string
+  couponId?: Prisma.StringWithAggregatesFilter<"CouponRedemption"> | string
+  orderId?: Prisma.StringWithAggregatesFilter<"CouponRedemption"> | string
+  userId?: Prisma.StringWithAggregatesFilter<"CouponRedemption"> | string
+  code?: Prisma.StringWithAggregatesFilter<"CouponRedemption"> | string
+  discount?: Prisma.DecimalWithAggregatesFilter<"CouponRedemption"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"CouponRedemption"> | Date | string
+}
+
+export type CouponRedemptionCreateInput = {
+  id?: string
+  userId: string
+  code: string
+  discount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  createdAt?: Date | string
+  coupon: Prisma.CouponCreateNestedOneWithoutRedemptionsInput
+  order: Prisma.OrderCreateNestedOneWithoutCouponsInput
+}
+
+export type CouponRedemptionUncheckedCreateInput = {
+  id?: string
+  couponId: string
+  orderId: string
+  userId: string
+  code: string
+  discount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  createdAt?: Date | string
+}
+
+export type CouponRedemptionUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  code?: Prisma.StringFieldUpdateOperationsInput | string
+  discount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  coupon?: Prisma.CouponUpdateOneRequiredWithoutRedemptionsNestedInput
+  order?: Prisma.OrderUpdateOneRequiredWithoutCouponsNestedInput
+}
+
+export type CouponRedemptionUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  couponId?: Prisma.StringFieldUpdateOperationsInput | string
+  orderId?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  code?: Prisma.StringFieldUpdateOperationsInput | string
+  discount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type CouponRedemptionCreateManyInput = {
+  id?: string
+  couponId: string
+  orderId: string
+  userId: string
+  code: string
+  discount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  createdAt?: Date | string
+}
+
+export type CouponRedemptionUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  code?: Prisma.StringFieldUpdateOperationsInput | string
+  discount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type CouponRedemptionUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  couponId?: Prisma.StringFieldUpdateOperationsInput | string
+  orderId?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  code?: Prisma.StringFieldUpdateOperationsInput | string
+  discount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type CouponRedemptionListRelationFilter = {
+  every?: Prisma.CouponRedemptionWhereInput
+  some?: Prisma.CouponRedemptionWhereInput
+  none?: Prisma.CouponRedemptionWhereInput
+}
+
+export type CouponRedemptionOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type CouponRedemptionCouponIdOrderIdCompoundUniqueInput = {
+  couponId: string
+  orderId: string
+}
+
+export type CouponRedemptionCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  couponId?: Prisma.SortOrder
+  orderId?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  code?: Prisma.SortOrder
+  discount?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type CouponRedemptionAvgOrderByAggregateInput = {
+  discount?: Prisma.SortOrder
+}
+
+export type CouponRedemptionMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  couponId?: Prisma.SortOrder
+  orderId?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  code?: Prisma.SortOrder
+  discount?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type CouponRedemptionMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  couponId?: Prisma.SortOrder
+  orderId?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  code?: Prisma.SortOrder
+  discount?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type CouponRedemptionSumOrderByAggregateInput = {
+  discount?: Prisma.SortOrder
+}
+
+export type CouponRedemptionCreateNestedManyWithoutCouponInput = {
+  create?: Prisma.XOR<Prisma.CouponRedemptionCreateWithoutCouponInput, Prisma.CouponRedemptionUncheckedCreateWithoutCouponInput> | Prisma.CouponRedemptionCreateWithoutCouponInput[] | Prisma.CouponRedemptionUncheckedCreateWithoutCouponInput[]
+  connectOrCreate?: Prisma.CouponRedemptionCreateOrConnectWithoutCouponInput | Prisma.CouponRedemptionCreateOrConnectWithoutCouponInput[]
+  createMany?: Prisma.CouponRedemptionCreateManyCouponInputEnvelope
+  connect?: Prisma.CouponRedemptionWhereUniqueInput | Prisma.CouponRedemptionWhereUniqueInput[]
+}
+
+export type CouponRedemptionUncheckedCreateNestedManyWithoutCouponInput = {
+  create?: Prisma.XOR<Prisma.CouponRedemptionCreateWithoutCouponInput, Prisma.CouponRedemptionUncheckedCreateWithoutCouponInput> | Prisma.CouponRedemptionCreateWithoutCouponInput[] | Prisma.CouponRedemptionUncheckedCreateWithoutCouponInput[]
+  connectOrCreate?: Prisma.CouponRedemptionCreateOrConnectWithoutCouponInput | Prisma.CouponRedemptionCreateOrConnectWithoutCouponInput[]
+  createMany?: Prisma.CouponRedemptionCreateManyCouponInputEnvelope
+  connect?: Prisma.CouponRedemptionWhereUniqueInput | Prisma.CouponRedemptionWhereUniqueInput[]
+}
+
+export type CouponRedemptionUpdateManyWithoutCouponNestedInput = {
+  create?: Prisma.XOR<Prisma.CouponRedemptionCreateWithoutCouponInput, Prisma.CouponRedemptionUncheckedCreateWithoutCouponInput> | Prisma.CouponRedemptionCreateWithoutCouponInput[] | Prisma.CouponRedemptionUncheckedCreateWithoutCouponInput[]
+  connectOrCreate?: Prisma.CouponRedemptionCreateOrConnectWithoutCouponInput | Prisma.CouponRedemptionCreateOrConnectWithoutCouponInput[]
+  upsert?: Prisma.CouponRedemptionUpsertWithWhereUniqueWithoutCouponInput | Prisma.CouponRedemptionUpsertWithWhereUniqueWithoutCouponInput[]
+  createMany?: Prisma.CouponRedemptionCreateManyCouponInputEnvelope
+  set?: Prisma.CouponRedemptionWhereUniqueInput | Prisma.CouponRedemptionWhereUniqueInput[]
+  disconnect?: Prisma.CouponRedemptionWhereUniqueInput | Prisma.CouponRedemptionWhereUniqueInput[]
+  delete?: Prisma.CouponRedemptionWhereUniqueInput | Prisma.CouponRedemptionWhereUniqueInput[]
+  connect?: Prisma.CouponRedemptionWhereUniqueInput | Prisma.CouponRedemptionWhereUniqueInput[]
+  update?: Prisma.CouponRedemptionUpdateWithWhereUniqueWithoutCouponInput | Prisma.CouponRedemptionUpdateWithWhereUniqueWithoutCouponInput[]
+  updateMany?: Prisma.CouponRedemptionUpdateManyWithWhereWithoutCouponInput | Prisma.CouponRedemptionUpdateManyWithWhereWithoutCouponInput[]
+  deleteMany?: Prisma.CouponRedemptionScalarWhereInput | Prisma.CouponRedemptionScalarWhereInput[]
+}
+
+export type CouponRedemptionUncheckedUpdateManyWithoutCouponNestedInput = {
+  create?: Prisma.XOR<Prisma.CouponRedemptionCreateWithoutCouponInput, Prisma.CouponRedemptionUncheckedCreateWithoutCouponInput> | Prisma.CouponRedemptionCreateWithoutCouponInput[] | Prisma.CouponRedemptionUncheckedCreateWithoutCouponInput[]
+  connectOrCreate?: Prisma.CouponRedemptionCreateOrConnectWithoutCouponInput | Prisma.CouponRedemptionCreateOrConnectWithoutCouponInput[]
+  upsert?: Prisma.CouponRedemptionUpsertWithWhereUniqueWithoutCouponInput | Prisma.CouponRedemptionUpsertWithWhereUniqueWithoutCouponInput[]
+  createMany?: Prisma.CouponRedemptionCreateManyCouponInputEnvelope
+  set?: Prisma.CouponRedemptionWhereUniqueInput | Prisma.CouponRedemptionWhereUniqueInput[]
+  disconnect?: Prisma.CouponRedemptionWhereUniqueInput | Prisma.CouponRedemptionWhereUniqueInput[]
+  delete?: Prisma.CouponRedemptionWhereUniqueInput | Prisma.CouponRedemptionWhereUniqueInput[]
+  connect?: Prisma.CouponRedemptionWhereUniqueInput | Prisma.CouponRedemptionWhereUniqueInput[]
+  update?: Prisma.CouponRedemptionUpdateWithWhereUniqueWithoutCouponInput | Prisma.CouponRedemptionUpdateWithWhereUniqueWithoutCouponInput[]
+  updateMany?: Prisma.CouponRedemptionUpdateManyWithWhereWithoutCouponInput | Prisma.CouponRedemptionUpdateManyWithWhereWithoutCouponInput[]
+  deleteMany?: Prisma.CouponRedemptionScalarWhereInput | Prisma.CouponRedemptionScalarWhereInput[]
+}
+
+export type CouponRedemptionCreateNestedManyWithoutOrderInput = {
+  create?: Prisma.XOR<Prisma.CouponRedemptionCreateWithoutOrderInput, Prisma.CouponRedemptionUncheckedCreateWithoutOrderInput> | Prisma.CouponRedemptionCreateWithoutOrderInput[] | Prisma.CouponRedemptionUncheckedCreateWithoutOrderInput[]
+  connectOrCreate?: Prisma.CouponRedemptionCreateOrConnectWithoutOrderInput | Prisma.CouponRedemptionCreateOrConnectWithoutOrderInput[]
+  createMany?: Prisma.CouponRedemptionCreateManyOrderInputEnvelope
+  connect?: Prisma.CouponRedemptionWhereUniqueInput | Prisma.CouponRedemptionWhereUniqueInput[]
+}
+
+export type CouponRedemptionUncheckedCreateNestedManyWithoutOrderInput = {
+  create?: Prisma.XOR<Prisma.CouponRedemptionCreateWithoutOrderInput, Prisma.CouponRedemptionUncheckedCreateWithoutOrderInput> | Prisma.CouponRedemptionCreateWithoutOrderInput[] | Prisma.CouponRedemptionUncheckedCreateWithoutOrderInput[]
+  connectOrCreate?: Prisma.CouponRedemptionCreateOrConnectWithoutOrderInput | Prisma.CouponRedemptionCreateOrConnectWithoutOrderInput[]
+  createMany?: Prisma.CouponRedemptionCreateManyOrderInputEnvelope
+  connect?: Prisma.CouponRedemptionWhereUniqueInput | Prisma.CouponRedemptionWhereUniqueInput[]
+}
+
+export type CouponRedemptionUpdateManyWithoutOrderNestedInput = {
+  create?: Prisma.XOR<Prisma.CouponRedemptionCreateWithoutOrderInput, Prisma.CouponRedemptionUncheckedCreateWithoutOrderInput> | Prisma.CouponRedemptionCreateWithoutOrderInput[] | Prisma.CouponRedemptionUncheckedCreateWithoutOrderInput[]
+  connectOrCreate?: Prisma.CouponRedemptionCreateOrConnectWithoutOrderInput | Prisma.CouponRedemptionCreateOrConnectWithoutOrderInput[]
+  upsert?: Prisma.CouponRedemptionUpsertWithWhereUniqueWithoutOrderInput | Prisma.CouponRedemptionUpsertWithWhereUniqueWithoutOrderInput[]
+  createMany?: Prisma.CouponRedemptionCreateManyOrderInputEnvelope
+  set?: Prisma.CouponRedemptionWhereUniqueInput | Prisma.CouponRedemptionWhereUniqueInput[]
+  disconnect?: Prisma.CouponRedemptionWhereUniqueInput | Prisma.CouponRedemptionWhereUniqueInput[]
+  delete?: Prisma.CouponRedemptionWhereUniqueInput | Prisma.CouponRedemptionWhereUniqueInput[]
+  connect?: Prisma.CouponRedemptionWhereUniqueInput | Prisma.CouponRedemptionWhereUniqueInput[]
+  update?: Prisma.CouponRedemptionUpdateWithWhereUniqueWithoutOrderInput | Prisma.CouponRedemptionUpdateWithWhereUniqueWithoutOrderInput[]
+  updateMany?: Prisma.CouponRedemptionUpdateManyWithWhereWithoutOrderInput | Prisma.CouponRedemptionUpdateManyWithWhereWithoutOrderInput[]
+  deleteMany?: Prisma.CouponRedemptionScalarWhereInput | Prisma.CouponRedemptionScalarWhereInput[]
+}
+
+export type CouponRedemptionUncheckedUpdateManyWithoutOrderNestedInput = {
+  create?: Prisma.XOR<Prisma.CouponRedemptionCreateWithoutOrderInput, Prisma.CouponRedemptionUncheckedCreateWithoutOrderInput> | Prisma.CouponRedemptionCreateWithoutOrderInput[] | Prisma.CouponRedemptionUncheckedCreateWithoutOrderInput[]
+  connectOrCreate?: Prisma.CouponRedemptionCreateOrConnectWithoutOrderInput | Prisma.CouponRedemptionCreateOrConnectWithoutOrderInput[]
+  upsert?: Prisma.CouponRedemptionUpsertWithWhereUniqueWithoutOrderInput | Prisma.CouponRedemptionUpsertWithWhereUniqueWithoutOrderInput[]
+  createMany?: Prisma.CouponRedemptionCreateManyOrderInputEnvelope
+  set?: Prisma.CouponRedemptionWhereUniqueInput | Prisma.CouponRedemptionWhereUniqueInput[]
+  disconnect?: Prisma.CouponRedemptionWhereUniqueInput | Prisma.CouponRedemptionWhereUniqueInput[]
+  delete?: Prisma.CouponRedemptionWhereUniqueInput | Prisma.CouponRedemptionWhereUniqueInput[]
+  connect?: Prisma.CouponRedemptionWhereUniqueInput | Prisma.CouponRedemptionWhereUniqueInput[]
+  update?: Prisma.CouponRedemptionUpdateWithWhereUniqueWithoutOrderInput | Prisma.CouponRedemptionUpdateWithWhereUniqueWithoutOrderInput[]
+  updateMany?: Prisma.CouponRedemptionUpdateManyWithWhereWithoutOrderInput | Prisma.CouponRedemptionUpdateManyWithWhereWithoutOrderInput[]
+  deleteMany?: Prisma.CouponRedemptionScalarWhereInput | Prisma.CouponRedemptionScalarWhereInput[]
+}
+
+export type CouponRedemptionCreateWithoutCouponInput = {
+  id?: string
+  userId: string
+  code: string
+  discount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  createdAt?: Date | string
+  order: Prisma.OrderCreateNestedOneWithoutCouponsInput
+}
+
+export type CouponRedemptionUncheckedCreateWithoutCouponInput = {
+  id?: string
+  orderId: string
+  userId: string
+  code: string
+  discount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  createdAt?: Date | string
+}
+
+export type CouponRedemptionCreateOrConnectWithoutCouponInput = {
+  where: Prisma.CouponRedemptionWhereUniqueInput
+  create: Prisma.XOR<Prisma.CouponRedemptionCreateWithoutCouponInput, Prisma.CouponRedemptionUncheckedCreateWithoutCouponInput>
+}
+
+export type CouponRedemptionCreateManyCouponInputEnvelope = {
+  data: Prisma.CouponRedemptionCreateManyCouponInput | Prisma.CouponRedemptionCreateManyCouponInput[]
+  skipDuplicates?: boolean
+}
+
+export type CouponRedemptionUpsertWithWhereUniqueWithoutCouponInput = {
+  where: Prisma.CouponRedemptionWhereUniqueInput
+  update: Prisma.XOR<Prisma.CouponRedemptionUpdateWithoutCouponInput, Prisma.CouponRedemptionUncheckedUpdateWithoutCouponInput>
+  create: Prisma.XOR<Prisma.CouponRedemptionCreateWithoutCouponInput, Prisma.CouponRedemptionUncheckedCreateWithoutCouponInput>
+}
+
+export type CouponRedemptionUpdateWithWhereUniqueWithoutCouponInput = {
+  where: Prisma.CouponRedemptionWhereUniqueInput
+  data: Prisma.XOR<Prisma.CouponRedemptionUpdateWithoutCouponInput, Prisma.CouponRedemptionUncheckedUpdateWithoutCouponInput>
+}
+
+export type CouponRedemptionUpdateManyWithWhereWithoutCouponInput = {
+  where: Prisma.CouponRedemptionScalarWhereInput
+  data: Prisma.XOR<Prisma.CouponRedemptionUpdateManyMutationInput, Prisma.CouponRedemptionUncheckedUpdateManyWithoutCouponInput>
+}
+
+export type CouponRedemptionScalarWhereInput = {
+  AND?: Prisma.CouponRedemptionScalarWhereInput | Prisma.CouponRedemptionScalarWhereInput[]
+  OR?: Prisma.CouponRedemptionScalarWhereInput[]
+  NOT?: Prisma.CouponRedemptionScalarWhereInput | Prisma.CouponRedemptionScalarWhereInput[]
+  id?: Prisma.StringFilter<"CouponRedemption"> | string
+  couponId?: Prisma.StringFilter<"CouponRedemption"> | string
+  orderId?: Prisma.StringFilter<"CouponRedemption"> | string
+  userId?: Prisma.StringFilter<"CouponRedemption"> | string
+  code?: Prisma.StringFilter<"CouponRedemption"> | string
+  discount?: Prisma.DecimalFilter<"CouponRedemption"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  createdAt?: Prisma.DateTimeFilter<"CouponRedemption"> | Date | string
+}
+
+export type CouponRedemptionCreateWithoutOrderInput = {
+  id?: string
+  userId: string
+  code: string
+  discount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  createdAt?: Date | string
+  coupon: Prisma.CouponCreateNestedOneWithoutRedemptionsInput
+}
+
+export type CouponRedemptionUncheckedCreateWithoutOrderInput = {
+  id?: string
+  couponId: string
+  userId: string
+  code: string
+  discount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  createdAt?: Date | string
+}
+
+export type CouponRedemptionCreateOrConnectWithoutOrderInput = {
+  where: Prisma.CouponRedemptionWhereUniqueInput
+  create: Prisma.XOR<Prisma.CouponRedemptionCreateWithoutOrderInput, Prisma.CouponRedemptionUncheckedCreateWithoutOrderInput>
+}
+
+export type CouponRedemptionCreateManyOrderInputEnvelope = {
+  data: Prisma.CouponRedemptionCreateManyOrderInput | Prisma.CouponRedemptionCreateManyOrderInput[]
+  skipDuplicates?: boolean
+}
+
+export type CouponRedemptionUpsertWithWhereUniqueWithoutOrderInput = {
+  where: Prisma.CouponRedemptionWhereUniqueInput
+  update: Prisma.XOR<Prisma.CouponRedemptionUpdateWithoutOrderInput, Prisma.CouponRedemptionUncheckedUpdateWithoutOrderInput>
+  create: Prisma.XOR<Prisma.CouponRedemptionCreateWithoutOrderInput, Prisma.CouponRedemptionUncheckedCreateWithoutOrderInput>
+}
+
+export type CouponRedemptionUpdateWithWhereUniqueWithoutOrderInput = {
+  where: Prisma.CouponRedemptionWhereUniqueInput
+  data: Prisma.XOR<Prisma.CouponRedemptionUpdateWithoutOrderInput, Prisma.CouponRedemptionUncheckedUpdateWithoutOrderInput>
+}
+
+export type CouponRedemptionUpdateManyWithWhereWithoutOrderInput = {
+  where: Prisma.CouponRedemptionScalarWhereInput
+  data: Prisma.XOR<Prisma.CouponRedemptionUpdateManyMutationInput, Prisma.CouponRedemptionUncheckedUpdateManyWithoutOrderInput>
+}
+
+export type CouponRedemptionCreateManyCouponInput = {
+  id?: string
+  orderId: string
+  userId: string
+  code: string
+  discount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  createdAt?: Date | string
+}
+
+export type CouponRedemptionUpdateWithoutCouponInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  code?: Prisma.StringFieldUpdateOperationsInput | string
+  discount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  order?: Prisma.OrderUpdateOneRequiredWithoutCouponsNestedInput
+}
+
+export type CouponRedemptionUncheckedUpdateWithoutCouponInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  orderId?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  code?: Prisma.StringFieldUpdateOperationsInput | string
+  discount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type CouponRedemptionUncheckedUpdateManyWithoutCouponInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  orderId?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  code?: Prisma.StringFieldUpdateOperationsInput | string
+  discount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type CouponRedemptionCreateManyOrderInput = {
+  id?: string
+  couponId: string
+  userId: string
+  code: string
+  discount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  createdAt?: Date | string
+}
+
+export type CouponRedemptionUpdateWithoutOrderInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  code?: Prisma.StringFieldUpdateOperationsInput | string
+  discount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  coupon?: Prisma.CouponUpdateOneRequiredWithoutRedemptionsNestedInput
+}
+
+export type CouponRedemptionUncheckedUpdateWithoutOrderInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  couponId?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  code?: Prisma.StringFieldUpdateOperationsInput | string
+  discount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type CouponRedemptionUncheckedUpdateManyWithoutOrderInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  couponId?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  code?: Prisma.StringFieldUpdateOperationsInput | string
+  discount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type CouponRedemptionSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  couponId?: boolean
+  orderId?: boolean
+  userId?: boolean
+  code?: boolean
+  discount?: boolean
+  createdAt?: boolean
+  coupon?: boolean | Prisma.CouponDefaultArgs<ExtArgs>
+  order?: boolean | Prisma.OrderDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["couponRedemption"]>
+
+export type CouponRedemptionSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  couponId?: boolean
+  orderId?: boolean
+  userId?: boolean
+  code?: boolean
+  discount?: boolean
+  createdAt?: boolean
+  coupon?: boolean | Prisma.CouponDefaultArgs<ExtArgs>
+  order?: boolean | Prisma.OrderDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["couponRedemption"]>
+
+export type CouponRedemptionSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  couponId?: boolean
+  orderId?: boolean
+  userId?: boolean
+  code?: boolean
+  discount?: boolean
+  createdAt?: boolean
+  coupon?: boolean | Prisma.CouponDefaultArgs<ExtArgs>
+  order?: boolean | Prisma.OrderDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["couponRedemption"]>
+
+export type CouponRedemptionSelectScalar = {
+  id?: boolean
+  couponId?: boolean
+  orderId?: boolean
+  userId?: boolean
+  code?: boolean
+  discount?: boolean
+  createdAt?: boolean
+}
+
+export type CouponRedemptionOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "couponId" | "orderId" | "userId" | "code" | "discount" | "createdAt", ExtArgs["result"]["couponRedemption"]>
+export type CouponRedemptionInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  coupon?: boolean | Prisma.CouponDefaultArgs<ExtArgs>
+  order?: boolean | Prisma.OrderDefaultArgs<ExtArgs>
+}
+export type CouponRedemptionIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  coupon?: boolean | Prisma.CouponDefaultArgs<ExtArgs>
+  order?: boolean | Prisma.OrderDefaultArgs<ExtArgs>
+}
+export type CouponRedemptionIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  coupon?: boolean | Prisma.CouponDefaultArgs<ExtArgs>
+  order?: boolean | Prisma.OrderDefaultArgs<ExtArgs>
+}
+
+export type $CouponRedemptionPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "CouponRedemption"
+  objects: {
+    coupon: Prisma.$CouponPayload<ExtArgs>
+    order: Prisma.$OrderPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    couponId: string
+    orderId: string
+    userId: string
+    code: string
+    discount: runtime.Decimal
+    createdAt: Date
+  }, ExtArgs["result"]["couponRedemption"]>
+  composites: {}
+}
+
+export type CouponRedemptionGetPayload<S extends boolean | null | undefined | CouponRedemptionDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$CouponRedemptionPayload, S>
+
+export type CouponRedemptionCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<CouponRedemptionFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: CouponRedemptionCountAggregateInputType | true
+  }
+
+export interface CouponRedemptionDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['CouponRedemption'], meta: { name: 'CouponRedemption' } }
+  /**
+   * Find zero or one CouponRedemption that matches the filter.
+   * @param {CouponRedemptionFindUniqueArgs} args - Arguments to find a CouponRedemption
+   * @example
+   * // Get one CouponRedemption
+   * const couponRedemption = await prisma.couponRedemption.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends CouponRedemptionFindUniqueArgs>(args: Prisma.SelectSubset<T, CouponRedemptionFindUniqueArgs<ExtArgs>>): Prisma.Prisma__CouponRedemptionClient<runtime.Types.Result.GetResult<Prisma.$CouponRedemptionPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one CouponRedemption that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {CouponRedemptionFindUniqueOrThrowArgs} args - Arguments to find a CouponRedemption
+   * @example
+   * // Get one CouponRedemption
+   * const couponRedemption = await prisma.couponRedemption.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends CouponRedemptionFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, CouponRedemptionFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__CouponRedemptionClient<runtime.Types.Result.GetResult<Prisma.$CouponRedemptionPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first CouponRedemption that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CouponRedemptionFindFirstArgs} args - Arguments to find a CouponRedemption
+   * @example
+   * // Get one CouponRedemption
+   * const couponRedemption = await prisma.couponRedemption.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends CouponRedemptionFindFirstArgs>(args?: Prisma.SelectSubset<T, CouponRedemptionFindFirstArgs<ExtArgs>>): Prisma.Prisma__CouponRedemptionClient<runtime.Types.Result.GetResult<Prisma.$CouponRedemptionPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first CouponRedemption that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CouponRedemptionFindFirstOrThrowArgs} args - Arguments to find a CouponRedemption
+   * @example
+   * // Get one CouponRedemption
+   * const couponRedemption = await prisma.couponRedemption.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends CouponRedemptionFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, CouponRedemptionFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__CouponRedemptionClient<runtime.Types.Result.GetResult<Prisma.$CouponRedemptionPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more CouponRedemptions that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CouponRedemptionFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all CouponRedemptions
+   * const couponRedemptions = await prisma.couponRedemption.findMany()
+   * 
+   * // Get first 10 CouponRedemptions
+   * const couponRedemptions = await prisma.couponRedemption.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const couponRedemptionWithIdOnly = await prisma.couponRedemption.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends CouponRedemptionFindManyArgs>(args?: Prisma.SelectSubset<T, CouponRedemptionFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$CouponRedemptionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a CouponRedemption.
+   * @param {CouponRedemptionCreateArgs} args - Arguments to create a CouponRedemption.
+   * @example
+   * // Create one CouponRedemption
+   * const CouponRedemption = await prisma.couponRedemption.create({
+   *   data: {
+   *     // ... data to create a CouponRedemption
+   *   }
+   * })
+   * 
+   */
+  create<T extends CouponRedemptionCreateArgs>(args: Prisma.SelectSubset<T, CouponRedemptionCreateArgs<ExtArgs>>): Prisma.Prisma__CouponRedemptionClient<runtime.Types.Result.GetResult<Prisma.$CouponRedemptionPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many CouponRedemptions.
+   * @param {CouponRedemptionCreateManyArgs} args - Arguments to create many CouponRedemptions.
+   * @example
+   * // Create many CouponRedemptions
+   * const couponRedemption = await prisma.couponRedemption.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends CouponRedemptionCreateManyArgs>(args?: Prisma.SelectSubset<T, CouponRedemptionCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many CouponRedemptions and returns the data saved in the database.
+   * @param {CouponRedemptionCreateManyAndReturnArgs} args - Arguments to create many CouponRedemptions.
+   * @example
+   * // Create many CouponRedemptions
+   * const couponRedemption = await prisma.couponRedemption.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many CouponRedemptions and only return the `id`
+   * const couponRedemptionWithIdOnly = await prisma.couponRedemption.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends CouponRedemptionCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, CouponRedemptionCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$CouponRedemptionPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a CouponRedemption.
+   * @param {CouponRedemptionDeleteArgs} args - Arguments to delete one CouponRedemption.
+   * @example
+   * // Delete one CouponRedemption
+   * const CouponRedemption = await prisma.couponRedemption.delete({
+   *   where: {
+   *     // ... filter to delete one CouponRedemption
+   *   }
+   * })
+   * 
+   */
+  delete<T extends CouponRedemptionDeleteArgs>(args: Prisma.SelectSubset<T, CouponRedemptionDeleteArgs<ExtArgs>>): Prisma.Prisma__CouponRedemptionClient<runtime.Types.Result.GetResult<Prisma.$CouponRedemptionPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one CouponRedemption.
+   * @param {CouponRedemptionUpdateArgs} args - Arguments to update one CouponRedemption.
+   * @example
+   * // Update one CouponRedemption
+   * const couponRedemption = await prisma.couponRedemption.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends CouponRedemptionUpdateArgs>(args: Prisma.SelectSubset<T, CouponRedemptionUpdateArgs<ExtArgs>>): Prisma.Prisma__CouponRedemptionClient<runtime.Types.Result.GetResult<Prisma.$CouponRedemptionPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more CouponRedemptions.
+   * @param {CouponRedemptionDeleteManyArgs} args - Arguments to filter CouponRedemptions to delete.
+   * @example
+   * // Delete a few CouponRedemptions
+   * const { count } = await prisma.couponRedemption.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends CouponRedemptionDeleteManyArgs>(args?: Prisma.SelectSubset<T, CouponRedemptionDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more CouponRedemptions.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CouponRedemptionUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many CouponRedemptions
+   * const couponRedemption = await prisma.couponRedemption.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends CouponRedemptionUpdateManyArgs>(args: Prisma.SelectSubset<T, CouponRedemptionUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more CouponRedemptions and returns the data updated in the database.
+   * @param {CouponRedemptionUpdateManyAndReturnArgs} args - Arguments to update many CouponRedemptions.
+   * @example
+   * // Update many CouponRedemptions
+   * const couponRedemption = await prisma.couponRedemption.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more CouponRedemptions and only return the `id`
+   * const couponRedemptionWithIdOnly = await prisma.couponRedemption.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends CouponRedemptionUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, CouponRedemptionUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$CouponRedemptionPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one CouponRedemption.
+   * @param {CouponRedemptionUpsertArgs} args - Arguments to update or create a CouponRedemption.
+   * @example
+   * // Update or create a CouponRedemption
+   * const couponRedemption = await prisma.couponRedemption.upsert({
+   *   create: {
+   *     // ... data to create a CouponRedemption
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the CouponRedemption we want to update
+   *   }
+   * })
+   */
+  upsert<T extends CouponRedemptionUpsertArgs>(args: Prisma.SelectSubset<T, CouponRedemptionUpsertArgs<ExtArgs>>): Prisma.Prisma__CouponRedemptionClient<runtime.Types.Result.GetResult<Prisma.$CouponRedemptionPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of CouponRedemptions.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CouponRedemptionCountArgs} args - Arguments to filter CouponRedemptions to count.
+   * @example
+   * // Count the number of CouponRedemptions
+   * const count = await prisma.couponRedemption.count({
+   *   where: {
+   *     // ... the filter for the CouponRedemptions we want to count
+   *   }
+   * })
+  **/
+  count<T extends CouponRedemptionCountArgs>(
+    args?: Prisma.Subset<T, CouponRedemptionCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], CouponRedemptionCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a CouponRedemption.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CouponRedemptionAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends CouponRedemptionAggregateArgs>(args: Prisma.Subset<T, CouponRedemptionAggregateArgs>): Prisma.PrismaPromise<GetCouponRedemptionAggregateType<T>>
+
+  /**
+   * Group by CouponRedemption.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CouponRedemptionGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends CouponRedemptionGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: CouponRedemptionGroupByArgs['orderBy'] }
+      : { orderBy?: CouponRedemptionGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, CouponRedemptionGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetCouponRedemptionGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the CouponRedemption model
+ */
+readonly fields: CouponRedemptionFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for CouponRedemption.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__CouponRedemptionClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  coupon<T extends Prisma.CouponDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.CouponDefaultArgs<ExtArgs>>): Prisma.Prisma__CouponClient<runtime.Types.Result.GetResult<Prisma.$CouponPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  order<T extends Prisma.OrderDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.OrderDefaultArgs<ExtArgs>>): Prisma.Prisma__OrderClient<runtime.Types.Result.GetResult<Prisma.$OrderPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the CouponRedemption model
+ */
+export interface CouponRedemptionFieldRefs {
+  readonly id: Prisma.FieldRef<"CouponRedemption", 'String'>
+  readonly couponId: Prisma.FieldRef<"CouponRedemption", 'String'>
+  readonly orderId: Prisma.FieldRef<"CouponRedemption", 'String'>
+  readonly userId: Prisma.FieldRef<"CouponRedemption", 'String'>
+  readonly code: Prisma.FieldRef<"CouponRedemption", 'String'>
+  readonly discount: Prisma.FieldRef<"CouponRedemption", 'Decimal'>
+  readonly createdAt: Prisma.FieldRef<"CouponRedemption", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * CouponRedemption findUnique
+ */
+export type CouponRedemptionFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CouponRedemption
+   */
+  select?: Prisma.CouponRedemptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CouponRedemption
+   */
+  omit?: Prisma.CouponRedemptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CouponRedemptionInclude<ExtArgs> | null
+  /**
+   * Filter, which CouponRedemption to fetch.
+   */
+  where: Prisma.CouponRedemptionWhereUniqueInput
+}
+
+/**
+ * CouponRedemption findUniqueOrThrow
+ */
+export type CouponRedemptionFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CouponRedemption
+   */
+  select?: Prisma.CouponRedemptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CouponRedemption
+   */
+  omit?: Prisma.CouponRedemptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CouponRedemptionInclude<ExtArgs> | null
+  /**
+   * Filter, which CouponRedemption to fetch.
+   */
+  where: Prisma.CouponRedemptionWhereUniqueInput
+}
+
+/**
+ * CouponRedemption findFirst
+ */
+export type CouponRedemptionFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CouponRedemption
+   */
+  select?: Prisma.CouponRedemptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CouponRedemption
+   */
+  omit?: Prisma.CouponRedemptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CouponRedemptionInclude<ExtArgs> | null
+  /**
+   * Filter, which CouponRedemption to fetch.
+   */
+  where?: Prisma.CouponRedemptionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of CouponRedemptions to fetch.
+   */
+  orderBy?: Prisma.CouponRedemptionOrderByWithRelationInput | Prisma.CouponRedemptionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for CouponRedemptions.
+   */
+  cursor?: Prisma.CouponRedemptionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` CouponRedemptions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` CouponRedemptions.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of CouponRedemptions.
+   */
+  distinct?: Prisma.CouponRedemptionScalarFieldEnum | Prisma.CouponRedemptionScalarFieldEnum[]
+}
+
+/**
+ * CouponRedemption findFirstOrThrow
+ */
+export type CouponRedemptionFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CouponRedemption
+   */
+  select?: Prisma.CouponRedemptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CouponRedemption
+   */
+  omit?: Prisma.CouponRedemptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CouponRedemptionInclude<ExtArgs> | null
+  /**
+   * Filter, which CouponRedemption to fetch.
+   */
+  where?: Prisma.CouponRedemptionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of CouponRedemptions to fetch.
+   */
+  orderBy?: Prisma.CouponRedemptionOrderByWithRelationInput | Prisma.CouponRedemptionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for CouponRedemptions.
+   */
+  cursor?: Prisma.CouponRedemptionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` CouponRedemptions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` CouponRedemptions.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of CouponRedemptions.
+   */
+  distinct?: Prisma.CouponRedemptionScalarFieldEnum | Prisma.CouponRedemptionScalarFieldEnum[]
+}
+
+/**
+ * CouponRedemption findMany
+ */
+export type CouponRedemptionFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CouponRedemption
+   */
+  select?: Prisma.CouponRedemptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CouponRedemption
+   */
+  omit?: Prisma.CouponRedemptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CouponRedemptionInclude<ExtArgs> | null
+  /**
+   * Filter, which CouponRedemptions to fetch.
+   */
+  where?: Prisma.CouponRedemptionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of CouponRedemptions to fetch.
+   */
+  orderBy?: Prisma.CouponRedemptionOrderByWithRelationInput | Prisma.CouponRedemptionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing CouponRedemptions.
+   */
+  cursor?: Prisma.CouponRedemptionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` CouponRedemptions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` CouponRedemptions.
+   */
+  skip?: number
+  distinct?: Prisma.CouponRedemptionScalarFieldEnum | Prisma.CouponRedemptionScalarFieldEnum[]
+}
+
+/**
+ * CouponRedemption create
+ */
+export type CouponRedemptionCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CouponRedemption
+   */
+  select?: Prisma.CouponRedemptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CouponRedemption
+   */
+  omit?: Prisma.CouponRedemptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CouponRedemptionInclude<ExtArgs> | null
+  /**
+   * The data needed to create a CouponRedemption.
+   */
+  data: Prisma.XOR<Prisma.CouponRedemptionCreateInput, Prisma.CouponRedemptionUncheckedCreateInput>
+}
+
+/**
+ * CouponRedemption createMany
+ */
+export type CouponRedemptionCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many CouponRedemptions.
+   */
+  data: Prisma.CouponRedemptionCreateManyInput | Prisma.CouponRedemptionCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * CouponRedemption createManyAndReturn
+ */
+export type CouponRedemptionCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CouponRedemption
+   */
+  select?: Prisma.CouponRedemptionSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the CouponRedemption
+   */
+  omit?: Prisma.CouponRedemptionOmit<ExtArgs> | null
+  /**
+   * The data used to create many CouponRedemptions.
+   */
+  data: Prisma.CouponRedemptionCreateManyInput | Prisma.CouponRedemptionCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CouponRedemptionIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * CouponRedemption update
+ */
+export type CouponRedemptionUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CouponRedemption
+   */
+  select?: Prisma.CouponRedemptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CouponRedemption
+   */
+  omit?: Prisma.CouponRedemptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CouponRedemptionInclude<ExtArgs> | null
+  /**
+   * The data needed to update a CouponRedemption.
+   */
+  data: Prisma.XOR<Prisma.CouponRedemptionUpdateInput, Prisma.CouponRedemptionUncheckedUpdateInput>
+  /**
+   * Choose, which CouponRedemption to update.
+   */
+  where: Prisma.CouponRedemptionWhereUniqueInput
+}
+
+/**
+ * CouponRedemption updateMany
+ */
+export type CouponRedemptionUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update CouponRedemptions.
+   */
+  data: Prisma.XOR<Prisma.CouponRedemptionUpdateManyMutationInput, Prisma.CouponRedemptionUncheckedUpdateManyInput>
+  /**
+   * Filter which CouponRedemptions to update
+   */
+  where?: Prisma.CouponRedemptionWhereInput
+  /**
+   * Limit how many CouponRedemptions to update.
+   */
+  limit?: number
+}
+
+/**
+ * CouponRedemption updateManyAndReturn
+ */
+export type CouponRedemptionUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CouponRedemption
+   */
+  select?: Prisma.CouponRedemptionSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the CouponRedemption
+   */
+  omit?: Prisma.CouponRedemptionOmit<ExtArgs> | null
+  /**
+   * The data used to update CouponRedemptions.
+   */
+  data: Prisma.XOR<Prisma.CouponRedemptionUpdateManyMutationInput, Prisma.CouponRedemptionUncheckedUpdateManyInput>
+  /**
+   * Filter which CouponRedemptions to update
+   */
+  where?: Prisma.CouponRedemptionWhereInput
+  /**
+   * Limit how many CouponRedemptions to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CouponRedemptionIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * CouponRedemption upsert
+ */
+export type CouponRedemptionUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CouponRedemption
+   */
+  select?: Prisma.CouponRedemptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CouponRedemption
+   */
+  omit?: Prisma.CouponRedemptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CouponRedemptionInclude<ExtArgs> | null
+  /**
+   * The filter to search for the CouponRedemption to update in case it exists.
+   */
+  where: Prisma.CouponRedemptionWhereUniqueInput
+  /**
+   * In case the CouponRedemption found by the `where` argument doesn't exist, create a new CouponRedemption with this data.
+   */
+  create: Prisma.XOR<Prisma.CouponRedemptionCreateInput, Prisma.CouponRedemptionUncheckedCreateInput>
+  /**
+   * In case the CouponRedemption was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.CouponRedemptionUpdateInput, Prisma.CouponRedemptionUncheckedUpdateInput>
+}
+
+/**
+ * CouponRedemption delete
+ */
+export type CouponRedemptionDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CouponRedemption
+   */
+  select?: Prisma.CouponRedemptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CouponRedemption
+   */
+  omit?: Prisma.CouponRedemptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CouponRedemptionInclude<ExtArgs> | null
+  /**
+   * Filter which CouponRedemption to delete.
+   */
+  where: Prisma.CouponRedemptionWhereUniqueInput
+}
+
+/**
+ * CouponRedemption deleteMany
+ */
+export type CouponRedemptionDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which CouponRedemptions to delete
+   */
+  where?: Prisma.CouponRedemptionWhereInput
+  /**
+   * Limit how many CouponRedemptions to delete.
+   */
+  limit?: number
+}
+
+/**
+ * CouponRedemption without action
+ */
+export type CouponRedemptionDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CouponRedemption
+   */
+  select?: Prisma.CouponRedemptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CouponRedemption
+   */
+  omit?: Prisma.CouponRedemptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CouponRedemptionInclude<ExtArgs> | null
+}
@@ -0,0 +1,1884 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `ImportJob` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model ImportJob
+ * 
+ */
+export type ImportJobModel = runtime.Types.Result.DefaultSelection<Prisma.$ImportJobPayload>
+
+export type AggregateImportJob = {
+  _count: ImportJobCountAggregateOutputType | null
+  _avg: ImportJobAvgAggregateOutputType | null
+  _sum: ImportJobSumAggregateOutputType | null
+  _min: ImportJobMinAggregateOutputType | null
+  _max: ImportJobMaxAggregateOutputType | null
+}
+
+export type ImportJobAvgAggregateOutputType = {
+  totalRows: number | null
+  processedRows: number | null
+  createdCount: number | null
+  updatedCount: number | null
+  failedCount: number | null
+}
+
+export type ImportJobSumAggregateOutputType = {
+  totalRows: number | null
+  processedRows: number | null
+  createdCount: number | null
+  updatedCount: number | null
+  failedCount: number | null
+}
+
+export type ImportJobMinAggregateOutputType = {
+  id: string | null
+  sellerId: string | null
+  format: string | null
+  fileName: string | null
+  dryRun: boolean | null
+  status: $Enums.ImportJobStatus | null
+  totalRows: number | null
+  processedRows: number | null
+  createdCount: number | null
+  updatedCount: number | null
+  failedCount: number | null
+  error: string | null
+  startedAt: Date | null
+  finishedAt: Date | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type ImportJobMaxAggregateOutputType = {
+  id: string | null
+  sellerId: string | null
+  format: string | null
+  fileName: string | null
+  dryRun: boolean | null
+  status: $Enums.ImportJobStatus | null
+  totalRows: number | null
+  processedRows: number | null
+  createdCount: number | null
+  updatedCount: number | null
+  failedCount: number | null
+  error: string | null
+  startedAt: Date | null
+  finishedAt: Date | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type ImportJobCountAggregateOutputType = {
+  id: number
+  sellerId: number
+  format: number
+  fileName: number
+  dryRun: number
+  status: number
+  mapping: number
+  totalRows: number
+  processedRows: number
+  createdCount: number
+  updatedCount: number
+  failedCount: number
+  errors: number
+  error: number
+  startedAt: number
+  finishedAt: number
+  createdAt: number
+  updatedAt: number
+  rows: number
+  _all: number
+}
+
+
+export type ImportJobAvgAggregateInputType = {
+  totalRows?: true
+  processedRows?: true
+  createdCount?: true
+  updatedCount?: true
+  failedCount?: true
+}
+
+export type ImportJobSumAggregateInputType = {
+  totalRows?: true
+  processedRows?: true
+  createdCount?: true
+  updatedCount?: true
+  failedCount?: true
+}
+
+export type ImportJobMinAggregateInputType = {
+  id?: true
+  sellerId?: true
+  format?: true
+  fileName?: true
+  dryRun?: true
+  status?: true
+  totalRows?: true
+  processedRows?: true
+  createdCount?: true
+  updatedCount?: true
+  failedCount?: true
+  error?: true
+  startedAt?: true
+  finishedAt?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type ImportJobMaxAggregateInputType = {
+  id?: true
+  sellerId?: true
+  format?: true
+  fileName?: true
+  dryRun?: true
+  status?: true
+  totalRows?: true
+  processedRows?: true
+  createdCount?: true
+  updatedCount?: true
+  failedCount?: true
+  error?: true
+  startedAt?: true
+  finishedAt?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type ImportJobCountAggregateInputType = {
+  id?: true
+  sellerId?: true
+  format?: true
+  fileName?: true
+  dryRun?: true
+  status?: true
+  mapping?: true
+  totalRows?: true
+  processedRows?: true
+  createdCount?: true
+  updatedCount?: true
+  failedCount?: true
+  errors?: true
+  error?: true
+  startedAt?: true
+  finishedAt?: true
+  createdAt?: true
+  updatedAt?: true
+  rows?: true
+  _all?: true
+}
+
+export type ImportJobAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ImportJob to aggregate.
+   */
+  where?: Prisma.ImportJobWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ImportJobs to fetch.
+   */
+  orderBy?: Prisma.ImportJobOrderByWithRelationInput | Prisma.ImportJobOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.ImportJobWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ImportJobs from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ImportJobs.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned ImportJobs
+  **/
+  _count?: true | ImportJobCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: ImportJobAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: ImportJobSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: ImportJobMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: ImportJobMaxAggregateInputType
+}
+
+export type GetImportJobAggregateType<T extends ImportJobAggregateArgs> = {
+      [P in keyof T & keyof AggregateImportJob]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateImportJob[P]>
+    : Prisma.GetScalarType<T[P], AggregateImportJob[P]>
+}
+
+
+
+
+export type ImportJobGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ImportJobWhereInput
+  orderBy?: Prisma.ImportJobOrderByWithAggregationInput | Prisma.ImportJobOrderByWithAggregationInput[]
+  by: Prisma.ImportJobScalarFieldEnum[] | Prisma.ImportJobScalarFieldEnum
+  having?: Prisma.ImportJobScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: ImportJobCountAggregateInputType | true
+  _avg?: ImportJobAvgAggregateInputType
+  _sum?: ImportJobSumAggregateInputType
+  _min?: ImportJobMinAggregateInputType
+  _max?: ImportJobMaxAggregateInputType
+}
+
+export type ImportJobGroupByOutputType = {
+  id: string
+  sellerId: string
+  format: string
+  fileName: string | null
+  dryRun: boolean
+  status: $Enums.ImportJobStatus
+  mapping: runtime.JsonValue | null
+  totalRows: number
+  processedRows: number
+  createdCount: number
+  updatedCount: number
+  failedCount: number
+  errors: runtime.JsonValue | null
+  error: string | null
+  startedAt: Date | null
+  finishedAt: Date | null
+  createdAt: Date
+  updatedAt: Date
+  rows: runtime.JsonValue | null
+  _count: ImportJobCountAggregateOutputType | null
+  _avg: ImportJobAvgAggregateOutputType | null
+  _sum: ImportJobSumAggregateOutputType | null
+  _min: ImportJobMinAggregateOutputType | null
+  _max: ImportJobMaxAggregateOutputType | null
+}
+
+type GetImportJobGroupByPayload<T extends ImportJobGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<ImportJobGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof ImportJobGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], ImportJobGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], ImportJobGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type ImportJobWhereInput = {
+  AND?: Prisma.ImportJobWhereInput | Prisma.ImportJobWhereInput[]
+  OR?: Prisma.ImportJobWhereInput[]
+  NOT?: Prisma.ImportJobWhereInput | Prisma.ImportJobWhereInput[]
+  id?: Prisma.StringFilter<"ImportJob"> | string
+  sellerId?: Prisma.StringFilter<"ImportJob"> | string
+  format?: Prisma.StringFilter<"ImportJob"> | string
+  fileName?: Prisma.StringNullableFilter<"ImportJob"> | string | null
+  dryRun?: Prisma.BoolFilter<"ImportJob"> | boolean
+  status?: Prisma.EnumImportJobStatusFilter<"ImportJob"> | $Enums.ImportJobStatus
+  mapping?: Prisma.JsonNullableFilter<"ImportJob">
+  totalRows?: Prisma.IntFilter<"ImportJob"> | number
+  processedRows?: Prisma.IntFilter<"ImportJob"> | number
+  createdCount?: Prisma.IntFilter<"ImportJob"> | number
+  updatedCount?: Prisma.IntFilter<"ImportJob"> | number
+  failedCount?: Prisma.IntFilter<"ImportJob"> | number
+  errors?: Prisma.JsonNullableFilter<"ImportJob">
+  error?: Prisma.StringNullableFilter<"ImportJob"> | string | null
+  startedAt?: Prisma.DateTimeNullableFilter<"ImportJob"> | Date | string | null
+  finishedAt?: Prisma.DateTimeNullableFilter<"ImportJob"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"ImportJob"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"ImportJob"> | Date | string
+  rows?: Prisma.JsonNullableFilter<"ImportJob">
+  seller?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+}
+
+export type ImportJobOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  sellerId?: Prisma.SortOrder
+  format?: Prisma.SortOrder
+  fileName?: Prisma.SortOrderInput | Prisma.SortOrder
+  dryRun?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  mapping?: Prisma.SortOrderInput | Prisma.SortOrder
+  totalRows?: Prisma.SortOrder
+  processedRows?: Prisma.SortOrder
+  createdCount?: Prisma.SortOrder
+  updatedCount?: Prisma.SortOrder
+  failedCount?: Prisma.SortOrder
+  errors?: Prisma.SortOrderInput | Prisma.SortOrder
+  error?: Prisma.SortOrderInput | Prisma.SortOrder
+  startedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  finishedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  rows?: Prisma.SortOrderInput | Prisma.SortOrder
+  seller?: Prisma.UserOrderByWithRelationInput
+}
+
+export type ImportJobWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  AND?: Prisma.ImportJobWhereInput | Prisma.ImportJobWhereInput[]
+  OR?: Prisma.ImportJobWhereInput[]
+  NOT?: Prisma.ImportJobWhereInput | Prisma.ImportJobWhereInput[]
+  sellerId?: Prisma.StringFilter<"ImportJob"> | string
+  format?: Prisma.StringFilter<"ImportJob"> | string
+  fileName?: Prisma.StringNullableFilter<"ImportJob"> | string | null
+  dryRun?: Prisma.BoolFilter<"ImportJob"> | boolean
+  status?: Prisma.EnumImportJobStatusFilter<"ImportJob"> | $Enums.ImportJobStatus
+  mapping?: Prisma.JsonNullableFilter<"ImportJob">
+  totalRows?: Prisma.IntFilter<"ImportJob"> | number
+  processedRows?: Prisma.IntFilter<"ImportJob"> | number
+  createdCount?: Prisma.IntFilter<"ImportJob"> | number
+  updatedCount?: Prisma.IntFilter<"ImportJob"> | number
+  failedCount?: Prisma.IntFilter<"ImportJob"> | number
+  errors?: Prisma.JsonNullableFilter<"ImportJob">
+  error?: Prisma.StringNullableFilter<"ImportJob"> | string | null
+  startedAt?: Prisma.DateTimeNullableFilter<"ImportJob"> | Date | string | null
+  finishedAt?: Prisma.DateTimeNullableFilter<"ImportJob"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"ImportJob"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"ImportJob"> | Date | string
+  rows?: Prisma.JsonNullableFilter<"ImportJob">
+  seller?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+}, "id">
+
+export type ImportJobOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  sellerId?: Prisma.SortOrder
+  format?: Prisma.SortOrder
+  fileName?: Prisma.SortOrderInput | Prisma.SortOrder
+  dryRun?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  mapping?: Prisma.SortOrderInput | Prisma.SortOrder
+  totalRows?: Prisma.SortOrder
+  processedRows?: Prisma.SortOrder
+  createdCount?: Prisma.SortOrder
+  updatedCount?: Prisma.SortOrder
+  failedCount?: Prisma.SortOrder
+  errors?: Prisma.SortOrderInput | Prisma.SortOrder
+  error?: Prisma.SortOrderInput | Prisma.SortOrder
+  startedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  finishedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  rows?: Prisma.SortOrderInput | Prisma.SortOrder
+  _count?: Prisma.ImportJobCountOrderByAggregateInput
+  _avg?: Prisma.ImportJobAvgOrderByAggregateInput
+  _max?: Prisma.ImportJobMaxOrderByAggregateInput
+  _min?: Prisma.ImportJobMinOrderByAggregateInput
+  _sum?: Prisma.ImportJobSumOrderByAggregateInput
+}
+
+export type ImportJobScalarWhereWithAggregatesInput = {
+  AND?: Prisma.ImportJobScalarWhereWithAggregatesInput | Prisma.ImportJobScalarWhereWithAggregatesInput[]
+  OR?: Prisma.ImportJobScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.ImportJobScalarWhereWithAggregatesInput | Prisma.ImportJobScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"ImportJob"> | string
+  sellerId?: Prisma.StringWithAggregatesFilter<"ImportJob"> | string
+  format?: Prisma.StringWithAggregatesFilter<"ImportJob"> | string
+  fileName?: Prisma.StringNullableWithAggregatesFilter<"ImportJob"> | string | null
+  dryRun?: Prisma.BoolWithAggregatesFilter<"ImportJob"> | boolean
+  status?: Prisma.EnumImportJobStatusWithAggregatesFilter<"ImportJob"> | $Enums.ImportJobStatus
+  mapping?: Prisma.JsonNullableWithAggregatesFilter<"ImportJob">
+  totalRows?: Prisma.IntWithAggregatesFilter<"ImportJob"> | number
+  processedRows?: Prisma.IntWithAggregatesFilter<"ImportJob"> | number
+  createdCount?: Prisma.IntWithAggregatesFilter<"ImportJob"> | number
+  updatedCount?: Prisma.IntWithAggregatesFilter<"ImportJob"> | number
+  failedCount?: Prisma.IntWithAggregatesFilter<"ImportJob"> | number
+  errors?: Prisma.JsonNullableWithAggregatesFilter<"ImportJob">
+  error?: Prisma.StringNullableWithAggregatesFilter<"ImportJob"> | string | null
+  startedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"ImportJob"> | Date | string | null
+  finishedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"ImportJob"> | Date | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"ImportJob"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"ImportJob"> | Date | string
+  rows?: Prisma.JsonNullableWithAggregatesFilter<"ImportJob">
+}
+
+export type ImportJobCreateInput = {
+  id?: string
+  format: string
+  fileName?: string | null
+  dryRun?: boolean
+  status?: $Enums.ImportJobStatus
+  mapping?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  totalRows?: number
+  processedRows?: number
+  createdCount?: number
+  updatedCount?: number
+  failedCount?: number
+  errors?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  error?: string | null
+  startedAt?: Date | string | null
+  finishedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  rows?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  seller: Prisma.UserCreateNestedOneWithoutImportJobsInput
+}
+
+export type ImportJobUncheckedCreateInput = {
+  id?: string
+  sellerId: string
+  format: string
+  fileName?: string | null
+  dryRun?: boolean
+  status?: $Enums.ImportJobStatus
+  mapping?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  totalRows?: number
+  processedRows?: number
+  createdCount?: number
+  updatedCount?: number
+  failedCount?: number
+  errors?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  error?: string | null
+  startedAt?: Date | string | null
+  finishedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  rows?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+}
+
+export type ImportJobUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  format?: Prisma.StringFieldUpdateOperationsInput | string
+  fileName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dryRun?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  status?: Prisma.EnumImportJobStatusFieldUpdateOperationsInput | $Enums.ImportJobStatus
+  mapping?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  totalRows?: Prisma.IntFieldUpdateOperationsInput | number
+  processedRows?: Prisma.IntFieldUpdateOperationsInput | number
+  createdCount?: Prisma.IntFieldUpdateOperationsInput | number
+  updatedCount?: Prisma.IntFieldUpdateOperationsInput | number
+  failedCount?: Prisma.IntFieldUpdateOperationsInput | number
+  errors?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  error?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  finishedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  rows?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  seller?: Prisma.UserUpdateOneRequiredWithoutImportJobsNestedInput
+}
+
+export type ImportJobUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  sellerId?: Prisma.StringFieldUpdateOperationsInput | string
+  format?: Prisma.StringFieldUpdateOperationsInput | string
+  fileName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dryRun?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  status?: Prisma.EnumImportJobStatusFieldUpdateOperationsInput | $Enums.ImportJobStatus
+  mapping?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  totalRows?: Prisma.IntFieldUpdateOperationsInput | number
+  processedRows?: Prisma.IntFieldUpdateOperationsInput | number
+  createdCount?: Prisma.IntFieldUpdateOperationsInput | number
+  updatedCount?: Prisma.IntFieldUpdateOperationsInput | number
+  failedCount?: Prisma.IntFieldUpdateOperationsInput | number
+  errors?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  error?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  finishedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  rows?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+}
+
+export type ImportJobCreateManyInput = {
+  id?: string
+  sellerId: string
+  format: string
+  fileName?: string | null
+  dryRun?: boolean
+  status?: $Enums.ImportJobStatus
+  mapping?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  totalRows?: number
+  processedRows?: number
+  createdCount?: number
+  updatedCount?: number
+  failedCount?: number
+  errors?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  error?: string | null
+  startedAt?: Date | string | null
+  finishedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  rows?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+}
+
+export type ImportJobUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  format?: Prisma.StringFieldUpdateOperationsInput | string
+  fileName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dryRun?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  status?: Prisma.EnumImportJobStatusFieldUpdateOperationsInput | $Enums.ImportJobStatus
+  mapping?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  totalRows?: Prisma.IntFieldUpdateOperationsInput | number
+  processedRows?: Prisma.IntFieldUpdateOperationsInput | number
+  createdCount?: Prisma.IntFieldUpdateOperationsInput | number
+  updatedCount?: Prisma.IntFieldUpdateOperationsInput | number
+  failedCount?: Prisma.IntFieldUpdateOperationsInput | number
+  errors?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  error?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  finishedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  rows?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+}
+
+export type ImportJobUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  sellerId?: Prisma.StringFieldUpdateOperationsInput | string
+  format?: Prisma.StringFieldUpdateOperationsInput | string
+  fileName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dryRun?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  status?: Prisma.EnumImportJobStatusFieldUpdateOperationsInput | $Enums.ImportJobStatus
+  mapping?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  totalRows?: Prisma.IntFieldUpdateOperationsInput | number
+  processedRows?: Prisma.IntFieldUpdateOperationsInput | number
+  createdCount?: Prisma.IntFieldUpdateOperationsInput | number
+  updatedCount?: Prisma.IntFieldUpdateOperationsInput | number
+  failedCount?: Prisma.IntFieldUpdateOperationsInput | number
+  errors?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  error?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  finishedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  rows?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+}
+
+export type ImportJobCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  sellerId?: Prisma.SortOrder
+  format?: Prisma.SortOrder
+  fileName?: Prisma.SortOrder
+  dryRun?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  mapping?: Prisma.SortOrder
+  totalRows?: Prisma.SortOrder
+  processedRows?: Prisma.SortOrder
+  createdCount?: Prisma.SortOrder
+  updatedCount?: Prisma.SortOrder
+  failedCount?: Prisma.SortOrder
+  errors?: Prisma.SortOrder
+  error?: Prisma.SortOrder
+  startedAt?: Prisma.SortOrder
+  finishedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  rows?: Prisma.SortOrder
+}
+
+export type ImportJobAvgOrderByAggregateInput = {
+  totalRows?: Prisma.SortOrder
+  processedRows?: Prisma.SortOrder
+  createdCount?: Prisma.SortOrder
+  updatedCount?: Prisma.SortOrder
+  failedCount?: Prisma.SortOrder
+}
+
+export type ImportJobMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  sellerId?: Prisma.SortOrder
+  format?: Prisma.SortOrder
+  fileName?: Prisma.SortOrder
+  dryRun?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  totalRows?: Prisma.SortOrder
+  processedRows?: Prisma.SortOrder
+  createdCount?: Prisma.SortOrder
+  updatedCount?: Prisma.SortOrder
+  failedCount?: Prisma.SortOrder
+  error?: Prisma.SortOrder
+  startedAt?: Prisma.SortOrder
+  finishedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type ImportJobMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  sellerId?: Prisma.SortOrder
+  format?: Prisma.SortOrder
+  fileName?: Prisma.SortOrder
+  dryRun?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  totalRows?: Prisma.SortOrder
+  processedRows?: Prisma.SortOrder
+  createdCount?: Prisma.SortOrder
+  updatedCount?: Prisma.SortOrder
+  failedCount?: Prisma.SortOrder
+  error?: Prisma.SortOrder
+  startedAt?: Prisma.SortOrder
+  finishedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type ImportJobSumOrderByAggregateInput = {
+  totalRows?: Prisma.SortOrder
+  processedRows?: Prisma.SortOrder
+  createdCount?: Prisma.SortOrder
+  updatedCount?: Prisma.SortOrder
+  failedCount?: Prisma.SortOrder
+}
+
+export type ImportJobListRelationFilter = {
+  every?: Prisma.ImportJobWhereInput
+  some?: Prisma.ImportJobWhereInput
+  none?: Prisma.ImportJobWhereInput
+}
+
+export type ImportJobOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type EnumImportJobStatusFieldUpdateOperationsInput = {
+  set?: $Enums.ImportJobStatus
+}
+
+export type ImportJobCreateNestedManyWithoutSellerInput = {
+  create?: Prisma.XOR<Prisma.ImportJobCreateWithoutSellerInput, Prisma.ImportJobUncheckedCreateWithoutSellerInput> | Prisma.ImportJobCreateWithoutSellerInput[] | Prisma.ImportJobUncheckedCreateWithoutSellerInput[]
+  connectOrCreate?: Prisma.ImportJobCreateOrConnectWithoutSellerInput | Prisma.ImportJobCreateOrConnectWithoutSellerInput[]
+  createMany?: Prisma.ImportJobCreateManySellerInputEnvelope
+  connect?: Prisma.ImportJobWhereUniqueInput | Prisma.ImportJobWhereUniqueInput[]
+}
+
+export type ImportJobUncheckedCreateNestedManyWithoutSellerInput = {
+  create?: Prisma.XOR<Prisma.ImportJobCreateWithoutSellerInput, Prisma.ImportJobUncheckedCreateWithoutSellerInput> | Prisma.ImportJobCreateWithoutSellerInput[] | Prisma.ImportJobUncheckedCreateWithoutSellerInput[]
+  connectOrCreate?: Prisma.ImportJobCreateOrConnectWithoutSellerInput | Prisma.ImportJobCreateOrConnectWithoutSellerInput[]
+  createMany?: Prisma.ImportJobCreateManySellerInputEnvelope
+  connect?: Prisma.ImportJobWhereUniqueInput | Prisma.ImportJobWhereUniqueInput[]
+}
+
+export type ImportJobUpdateManyWithoutSellerNestedInput = {
+  create?: Prisma.XOR<Prisma.ImportJobCreateWithoutSellerInput, Prisma.ImportJobUncheckedCreateWithoutSellerInput> | Prisma.ImportJobCreateWithoutSellerInput[] | Prisma.ImportJobUncheckedCreateWithoutSellerInput[]
+  connectOrCreate?: Prisma.ImportJobCreateOrConnectWithoutSellerInput | Prisma.ImportJobCreateOrConnectWithoutSellerInput[]
+  upsert?: Prisma.ImportJobUpsertWithWhereUniqueWithoutSellerInput | Prisma.ImportJobUpsertWithWhereUniqueWithoutSellerInput[]
+  createMany?: Prisma.ImportJobCreateManySellerInputEnvelope
+  set?: Prisma.ImportJobWhereUniqueInput | Prisma.ImportJobWhereUniqueInput[]
+  disconnect?: Prisma.ImportJobWhereUniqueInput | Prisma.ImportJobWhereUniqueInput[]
+  delete?: Prisma.ImportJobWhereUniqueInput | Prisma.ImportJobWhereUniqueInput[]
+  connect?: Prisma.ImportJobWhereUniqueInput | Prisma.ImportJobWhereUniqueInput[]
+  update?: Prisma.ImportJobUpdateWithWhereUniqueWithoutSellerInput | Prisma.ImportJobUpdateWithWhereUniqueWithoutSellerInput[]
+  updateMany?: Prisma.ImportJobUpdateManyWithWhereWithoutSellerInput | Prisma.ImportJobUpdateManyWithWhereWithoutSellerInput[]
+  deleteMany?: Prisma.ImportJobScalarWhereInput | Prisma.ImportJobScalarWhereInput[]
+}
+
+export type ImportJobUncheckedUpdateManyWithoutSellerNestedInput = {
+  create?: Prisma.XOR<Prisma.ImportJobCreateWithoutSellerInput, Prisma.ImportJobUncheckedCreateWithoutSellerInput> | Prisma.ImportJobCreateWithoutSellerInput[] | Prisma.ImportJobUncheckedCreateWithoutSellerInput[]
+  connectOrCreate?: Prisma.ImportJobCreateOrConnectWithoutSellerInput | Prisma.ImportJobCreateOrConnectWithoutSellerInput[]
+  upsert?: Prisma.ImportJobUpsertWithWhereUniqueWithoutSellerInput | Prisma.ImportJobUpsertWithWhereUniqueWithoutSellerInput[]
+  createMany?: Prisma.ImportJobCreateManySellerInputEnvelope
+  set?: Prisma.ImportJobWhereUniqueInput | Prisma.ImportJobWhereUniqueInput[]
+  disconnect?: Prisma.ImportJobWhereUniqueInput | Prisma.ImportJobWhereUniqueInput[]
+  delete?: Prisma.ImportJobWhereUniqueInput | Prisma.ImportJobWhereUniqueInput[]
+  connect?: Prisma.ImportJobWhereUniqueInput | Prisma.ImportJobWhereUniqueInput[]
+  update?: Prisma.ImportJobUpdateWithWhereUniqueWithoutSellerInput | Prisma.ImportJobUpdateWithWhereUniqueWithoutSellerInput[]
+  updateMany?: Prisma.ImportJobUpdateManyWithWhereWithoutSellerInput | Prisma.ImportJobUpdateManyWithWhereWithoutSellerInput[]
+  deleteMany?: Prisma.ImportJobScalarWhereInput | Prisma.ImportJobScalarWhereInput[]
+}
+
+export type ImportJobCreateWithoutSellerInput = {
+  id?: string
+  format: string
+  fileName?: string | null
+  dryRun?: boolean
+  status?: $Enums.ImportJobStatus
+  mapping?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  totalRows?: number
+  processedRows?: number
+  createdCount?: number
+  updatedCount?: number
+  failedCount?: number
+  errors?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  error?: string | null
+  startedAt?: Date | string | null
+  finishedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  rows?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+}
+
+export type ImportJobUncheckedCreateWithoutSellerInput = {
+  id?: string
+  format: string
+  fileName?: string | null
+  dryRun?: boolean
+  status?: $Enums.ImportJobStatus
+  mapping?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  totalRows?: number
+  processedRows?: number
+  createdCount?: number
+  updatedCount?: number
+  failedCount?: number
+  errors?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  error?: string | null
+  startedAt?: Date | string | null
+  finishedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  rows?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+}
+
+export type ImportJobCreateOrConnectWithoutSellerInput = {
+  where: Prisma.ImportJobWhereUniqueInput
+  create: Prisma.XOR<Prisma.ImportJobCreateWithoutSellerInput, Prisma.ImportJobUncheckedCreateWithoutSellerInput>
+}
+
+export type ImportJobCreateManySellerInputEnvelope = {
+  data: Prisma.ImportJobCreateManySellerInput | Prisma.ImportJobCreateManySellerInput[]
+  skipDuplicates?: boolean
+}
+
+export type ImportJobUpsertWithWhereUniqueWithoutSellerInput = {
+  where: Prisma.ImportJobWhereUniqueInput
+  update: Prisma.XOR<Prisma.ImportJobUpdateWithoutSellerInput, Prisma.ImportJobUncheckedUpdateWithoutSellerInput>
+  create: Prisma.XOR<Prisma.ImportJobCreateWithoutSellerInput, Prisma.ImportJobUncheckedCreateWithoutSellerInput>
+}
+
+export type ImportJobUpdateWithWhereUniqueWithoutSellerInput = {
+  where: Prisma.ImportJobWhereUniqueInput
+  data: Prisma.XOR<Prisma.ImportJobUpdateWithoutSellerInput, Prisma.ImportJobUncheckedUpdateWithoutSellerInput>
+}
+
+export type ImportJobUpdateManyWithWhereWithoutSellerInput = {
+  where: Prisma.ImportJobScalarWhereInput
+  data: Prisma.XOR<Prisma.ImportJobUpdateManyMutationInput, Prisma.ImportJobUncheckedUpdateManyWithoutSellerInput>
+}
+
+export type ImportJobScalarWhereInput = {
+  AND?: Prisma.ImportJobScalarWhereInput | Prisma.ImportJobScalarWhereInput[]
+  OR?: Prisma.ImportJobScalarWhereInput[]
+  NOT?: Prisma.ImportJobScalarWhereInput | Prisma.ImportJobScalarWhereInput[]
+  id?: Prisma.StringFilter<"ImportJob"> | string
+  sellerId?: Prisma.StringFilter<"ImportJob"> | string
+  format?: Prisma.StringFilter<"ImportJob"> | string
+  fileName?: Prisma.StringNullableFilter<"ImportJob"> | string | null
+  dryRun?: Prisma.BoolFilter<"ImportJob"> | boolean
+  status?: Prisma.EnumImportJobStatusFilter<"ImportJob"> | $Enums.ImportJobStatus
+  mapping?: Prisma.JsonNullableFilter<"ImportJob">
+  totalRows?: Prisma.IntFilter<"ImportJob"> | number
+  processedRows?: Prisma.IntFilter<"ImportJob"> | number
+  createdCount?: Prisma.IntFilter<"ImportJob"> | number
+  updatedCount?: Prisma.IntFilter<"ImportJob"> | number
+  failedCount?: Prisma.IntFilter<"ImportJob"> | number
+  errors?: Prisma.JsonNullableFilter<"ImportJob">
+  error?: Prisma.StringNullableFilter<"ImportJob"> | string | null
+  startedAt?: Prisma.DateTimeNullableFilter<"ImportJob"> | Date | string | null
+  finishedAt?: Prisma.DateTimeNullableFilter<"ImportJob"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"ImportJob"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"ImportJob"> | Date | string
+  rows?: Prisma.JsonNullableFilter<"ImportJob">
+}
+
+export type ImportJobCreateManySellerInput = {
+  id?: string
+  format: string
+  fileName?: string | null
+  dryRun?: boolean
+  status?: $Enums.ImportJobStatus
+  mapping?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  totalRows?: number
+  processedRows?: number
+  createdCount?: number
+  updatedCount?: number
+  failedCount?: number
+  errors?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  error?: string | null
+  startedAt?: Date | string | null
+  finishedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  rows?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+}
+
+export type ImportJobUpdateWithoutSellerInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  format?: Prisma.StringFieldUpdateOperationsInput | string
+  fileName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dryRun?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  status?: Prisma.EnumImportJobStatusFieldUpdateOperationsInput | $Enums.ImportJobStatus
+  mapping?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  totalRows?: Prisma.IntFieldUpdateOperationsInput | number
+  processedRows?: Prisma.IntFieldUpdateOperationsInput | number
+  createdCount?: Prisma.IntFieldUpdateOperationsInput | number
+  updatedCount?: Prisma.IntFieldUpdateOperationsInput | number
+  failedCount?: Prisma.IntFieldUpdateOperationsInput | number
+  errors?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  error?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  finishedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  rows?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+}
+
+export type ImportJobUncheckedUpdateWithoutSellerInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  format?: Prisma.StringFieldUpdateOperationsInput | string
+  fileName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dryRun?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  status?: Prisma.EnumImportJobStatusFieldUpdateOperationsInput | $Enums.ImportJobStatus
+  mapping?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  totalRows?: Prisma.IntFieldUpdateOperationsInput | number
+  processedRows?: Prisma.IntFieldUpdateOperationsInput | number
+  createdCount?: Prisma.IntFieldUpdateOperationsInput | number
+  updatedCount?: Prisma.IntFieldUpdateOperationsInput | number
+  failedCount?: Prisma.IntFieldUpdateOperationsInput | number
+  errors?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  error?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  finishedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  rows?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+}
+
+export type ImportJobUncheckedUpdateManyWithoutSellerInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  format?: Prisma.StringFieldUpdateOperationsInput | string
+  fileName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dryRun?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  status?: Prisma.EnumImportJobStatusFieldUpdateOperationsInput | $Enums.ImportJobStatus
+  mapping?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  totalRows?: Prisma.IntFieldUpdateOperationsInput | number
+  processedRows?: Prisma.IntFieldUpdateOperationsInput | number
+  createdCount?: Prisma.IntFieldUpdateOperationsInput | number
+  updatedCount?: Prisma.IntFieldUpdateOperationsInput | number
+  failedCount?: Prisma.IntFieldUpdateOperationsInput | number
+  errors?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  error?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  finishedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  rows?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+}
+
+
+
+export type ImportJobSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  sellerId?: boolean
+  format?: boolean
+  fileName?: boolean
+  dryRun?: boolean
+  status?: boolean
+  mapping?: boolean
+  totalRows?: boolean
+  processedRows?: boolean
+  createdCount?: boolean
+  updatedCount?: boolean
+  failedCount?: boolean
+  errors?: boolean
+  error?: boolean
+  startedAt?: boolean
+  finishedAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  rows?: boolean
+  seller?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["importJob"]>
+
+export type ImportJobSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  sellerId?: boolean
+  format?: boolean
+  fileName?: boolean
+  dryRun?: boolean
+  status?: boolean
+  mapping?: boolean
+  totalRows?: boolean
+  processedRows?: boolean
+  createdCount?: boolean
+  updatedCount?: boolean
+  failedCount?: boolean
+  errors?: boolean
+  error?: boolean
+  startedAt?: boolean
+  finishedAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  rows?: boolean
+  seller?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["importJob"]>
+
+export type ImportJobSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  sellerId?: boolean
+  format?: boolean
+  fileName?: boolean
+  dryRun?: boolean
+  status?: boolean
+  mapping?: boolean
+  totalRows?: boolean
+  processedRows?: boolean
+  createdCount?: boolean
+  updatedCount?: boolean
+  failedCount?: boolean
+  errors?: boolean
+  error?: boolean
+  startedAt?: boolean
+  finishedAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  rows?: boolean
+  seller?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["importJob"]>
+
+export type ImportJobSelectScalar = {
+  id?: boolean
+  sellerId?: boolean
+  format?: boolean
+  fileName?: boolean
+  dryRun?: boolean
+  status?: boolean
+  mapping?: boolean
+  totalRows?: boolean
+  processedRows?: boolean
+  createdCount?: boolean
+  updatedCount?: boolean
+  failedCount?: boolean
+  errors?: boolean
+  error?: boolean
+  startedAt?: boolean
+  finishedAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  rows?: boolean
+}
+
+export type ImportJobOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "sellerId" | "format" | "fileName" | "dryRun" | "status" | "mapping" | "totalRows" | "processedRows" | "createdCount" | "updatedCount" | "failedCount" | "errors" | "error" | "startedAt" | "finishedAt" | "createdAt" | "updatedAt" | "rows", ExtArgs["result"]["importJob"]>
+export type ImportJobInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  seller?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+export type ImportJobIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  seller?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+export type ImportJobIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  seller?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+
+export type $ImportJobPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "ImportJob"
+  objects: {
+    seller: Prisma.$UserPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    sellerId: string
+    format: string
+    fileName: string | null
+    dryRun: boolean
+    status: $Enums.ImportJobStatus
+    mapping: runtime.JsonValue | null
+    totalRows: number
+    processedRows: number
+    createdCount: number
+    updatedCount: number
+    failedCount: number
+    errors: runtime.JsonValue | null
+    error: string | null
+    startedAt: Date | null
+    finishedAt: Date | null
+    createdAt: Date
+    updatedAt: Date
+    rows: runtime.JsonValue | null
+  }, ExtArgs["result"]["importJob"]>
+  composites: {}
+}
+
+export type ImportJobGetPayload<S extends boolean | null | undefined | ImportJobDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$ImportJobPayload, S>
+
+export type ImportJobCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<ImportJobFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: ImportJobCountAggregateInputType | true
+  }
+
+export interface ImportJobDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['ImportJob'], meta: { name: 'ImportJob' } }
+  /**
+   * Find zero or one ImportJob that matches the filter.
+   * @param {ImportJobFindUniqueArgs} args - Arguments to find a ImportJob
+   * @example
+   * // Get one ImportJob
+   * const importJob = await prisma.importJob.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends ImportJobFindUniqueArgs>(args: Prisma.SelectSubset<T, ImportJobFindUniqueArgs<ExtArgs>>): Prisma.Prisma__ImportJobClient<runtime.Types.Result.GetResult<Prisma.$ImportJobPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one ImportJob that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {ImportJobFindUniqueOrThrowArgs} args - Arguments to find a ImportJob
+   * @example
+   * // Get one ImportJob
+   * const importJob = await prisma.importJob.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends ImportJobFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, ImportJobFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__ImportJobClient<runtime.Types.Result.GetResult<Prisma.$ImportJobPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ImportJob that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ImportJobFindFirstArgs} args - Arguments to find a ImportJob
+   * @example
+   * // Get one ImportJob
+   * const importJob = await prisma.importJob.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends ImportJobFindFirstArgs>(args?: Prisma.SelectSubset<T, ImportJobFindFirstArgs<ExtArgs>>): Prisma.Prisma__ImportJobClient<runtime.Types.Result.GetResult<Prisma.$ImportJobPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ImportJob that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ImportJobFindFirstOrThrowArgs} args - Arguments to find a ImportJob
+   * @example
+   * // Get one ImportJob
+   * const importJob = await prisma.importJob.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends ImportJobFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, ImportJobFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__ImportJobClient<runtime.Types.Result.GetResult<Prisma.$ImportJobPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more ImportJobs that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ImportJobFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all ImportJobs
+   * const importJobs = await prisma.importJob.findMany()
+   * 
+   * // Get first 10 ImportJobs
+   * const importJobs = await prisma.importJob.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const importJobWithIdOnly = await prisma.importJob.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends ImportJobFindManyArgs>(args?: Prisma.SelectSubset<T, ImportJobFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ImportJobPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a ImportJob.
+   * @param {ImportJobCreateArgs} args - Arguments to create a ImportJob.
+   * @example
+   * // Create one ImportJob
+   * const ImportJob = await prisma.importJob.create({
+   *   data: {
+   *     // ... data to create a ImportJob
+   *   }
+   * })
+   * 
+   */
+  create<T extends ImportJobCreateArgs>(args: Prisma.SelectSubset<T, ImportJobCreateArgs<ExtArgs>>): Prisma.Prisma__ImportJobClient<runtime.Types.Result.GetResult<Prisma.$ImportJobPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many ImportJobs.
+   * @param {ImportJobCreateManyArgs} args - Arguments to create many ImportJobs.
+   * @example
+   * // Create many ImportJobs
+   * const importJob = await prisma.importJob.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends ImportJobCreateManyArgs>(args?: Prisma.SelectSubset<T, ImportJobCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many ImportJobs and returns the data saved in the database.
+   * @param {ImportJobCreateManyAndReturnArgs} args - Arguments to create many ImportJobs.
+   * @example
+   * // Create many ImportJobs
+   * const importJob = await prisma.importJob.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many ImportJobs and only return the `id`
+   * const importJobWithIdOnly = await prisma.importJob.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends ImportJobCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, ImportJobCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ImportJobPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a ImportJob.
+   * @param {ImportJobDeleteArgs} args - Arguments to delete one ImportJob.
+   * @example
+   * // Delete one ImportJob
+   * const ImportJob = await prisma.importJob.delete({
+   *   where: {
+   *     // ... filter to delete one ImportJob
+   *   }
+   * })
+   * 
+   */
+  delete<T extends ImportJobDeleteArgs>(args: Prisma.SelectSubset<T, ImportJobDeleteArgs<ExtArgs>>): Prisma.Prisma__ImportJobClient<runtime.Types.Result.GetResult<Prisma.$ImportJobPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one ImportJob.
+   * @param {ImportJobUpdateArgs} args - Arguments to update one ImportJob.
+   * @example
+   * // Update one ImportJob
+   * const importJob = await prisma.importJob.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends ImportJobUpdateArgs>(args: Prisma.SelectSubset<T, ImportJobUpdateArgs<ExtArgs>>): Prisma.Prisma__ImportJobClient<runtime.Types.Result.GetResult<Prisma.$ImportJobPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more ImportJobs.
+   * @param {ImportJobDeleteManyArgs} args - Arguments to filter ImportJobs to delete.
+   * @example
+   * // Delete a few ImportJobs
+   * const { count } = await prisma.importJob.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends ImportJobDeleteManyArgs>(args?: Prisma.SelectSubset<T, ImportJobDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ImportJobs.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ImportJobUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many ImportJobs
+   * const importJob = await prisma.importJob.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends ImportJobUpdateManyArgs>(args: Prisma.SelectSubset<T, ImportJobUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ImportJobs and returns the data updated in the database.
+   * @param {ImportJobUpdateManyAndReturnArgs} args - Arguments to update many ImportJobs.
+   * @example
+   * // Update many ImportJobs
+   * const importJob = await prisma.importJob.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more ImportJobs and only return the `id`
+   * const importJobWithIdOnly = await prisma.importJob.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends ImportJobUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, ImportJobUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ImportJobPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one ImportJob.
+   * @param {ImportJobUpsertArgs} args - Arguments to update or create a ImportJob.
+   * @example
+   * // Update or create a ImportJob
+   * const importJob = await prisma.importJob.upsert({
+   *   create: {
+   *     // ... data to create a ImportJob
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the ImportJob we want to update
+   *   }
+   * })
+   */
+  upsert<T extends ImportJobUpsertArgs>(args: Prisma.SelectSubset<T, ImportJobUpsertArgs<ExtArgs>>): Prisma.Prisma__ImportJobClient<runtime.Types.Result.GetResult<Prisma.$ImportJobPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of ImportJobs.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ImportJobCountArgs} args - Arguments to filter ImportJobs to count.
+   * @example
+   * // Count the number of ImportJobs
+   * const count = await prisma.importJob.count({
+   *   where: {
+   *     // ... the filter for the ImportJobs we want to count
+   *   }
+   * })
+  **/
+  count<T extends ImportJobCountArgs>(
+    args?: Prisma.Subset<T, ImportJobCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], ImportJobCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a ImportJob.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ImportJobAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends ImportJobAggregateArgs>(args: Prisma.Subset<T, ImportJobAggregateArgs>): Prisma.PrismaPromise<GetImportJobAggregateType<T>>
+
+  /**
+   * Group by ImportJob.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ImportJobGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends ImportJobGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: ImportJobGroupByArgs['orderBy'] }
+      : { orderBy?: ImportJobGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, ImportJobGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetImportJobGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the ImportJob model
+ */
+readonly fields: ImportJobFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for ImportJob.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__ImportJobClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  seller<T extends Prisma.UserDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.UserDefaultArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the ImportJob model
+ */
+export interface ImportJobFieldRefs {
+  readonly id: Prisma.FieldRef<"ImportJob", 'String'>
+  readonly sellerId: Prisma.FieldRef<"ImportJob", 'String'>
+  readonly format: Prisma.FieldRef<"ImportJob", 'String'>
+  readonly fileName: Prisma.FieldRef<"ImportJob", 'String'>
+  readonly dryRun: Prisma.FieldRef<"ImportJob", 'Boolean'>
+  readonly status: Prisma.FieldRef<"ImportJob", 'ImportJobStatus'>
+  readonly mapping: Prisma.FieldRef<"ImportJob", 'Json'>
+  readonly totalRows: Prisma.FieldRef<"ImportJob", 'Int'>
+  readonly processedRows: Prisma.FieldRef<"ImportJob", 'Int'>
+  readonly createdCount: Prisma.FieldRef<"ImportJob", 'Int'>
+  readonly updatedCount: Prisma.FieldRef<"ImportJob", 'Int'>
+  readonly failedCount: Prisma.FieldRef<"ImportJob", 'Int'>
+  readonly errors: Prisma.FieldRef<"ImportJob", 'Json'>
+  readonly error: Prisma.FieldRef<"ImportJob", 'String'>
+  readonly startedAt: Prisma.FieldRef<"ImportJob", 'DateTime'>
+  readonly finishedAt: Prisma.FieldRef<"ImportJob", 'DateTime'>
+  readonly createdAt: Prisma.FieldRef<"ImportJob", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"ImportJob", 'DateTime'>
+  readonly rows: Prisma.FieldRef<"ImportJob", 'Json'>
+}
+    
+
+// Custom InputTypes
+/**
+ * ImportJob findUnique
+ */
+export type ImportJobFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ImportJob
+   */
+  select?: Prisma.ImportJobSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ImportJob
+   */
+  omit?: Prisma.ImportJobOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ImportJobInclude<ExtArgs> | null
+  /**
+   * Filter, which ImportJob to fetch.
+   */
+  where: Prisma.ImportJobWhereUniqueInput
+}
+
+/**
+ * ImportJob findUniqueOrThrow
+ */
+export type ImportJobFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ImportJob
+   */
+  select?: Prisma.ImportJobSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ImportJob
+   */
+  omit?: Prisma.ImportJobOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ImportJobInclude<ExtArgs> | null
+  /**
+   * Filter, which ImportJob to fetch.
+   */
+  where: Prisma.ImportJobWhereUniqueInput
+}
+
+/**
+ * ImportJob findFirst
+ */
+export type ImportJobFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ImportJob
+   */
+  select?: Prisma.ImportJobSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ImportJob
+   */
+  omit?: Prisma.ImportJobOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ImportJobInclude<ExtArgs> | null
+  /**
+   * Filter, which ImportJob to fetch.
+   */
+  where?: Prisma.ImportJobWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ImportJobs to fetch.
+   */
+  orderBy?: Prisma.ImportJobOrderByWithRelationInput | Prisma.ImportJobOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ImportJobs.
+   */
+  cursor?: Prisma.ImportJobWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ImportJobs from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ImportJobs.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ImportJobs.
+   */
+  distinct?: Prisma.ImportJobScalarFieldEnum | Prisma.ImportJobScalarFieldEnum[]
+}
+
+/**
+ * ImportJob findFirstOrThrow
+ */
+export type ImportJobFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ImportJob
+   */
+  select?: Prisma.ImportJobSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ImportJob
+   */
+  omit?: Prisma.ImportJobOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ImportJobInclude<ExtArgs> | null
+  /**
+   * Filter, which ImportJob to fetch.
+   */
+  where?: Prisma.ImportJobWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ImportJobs to fetch.
+   */
+  orderBy?: Prisma.ImportJobOrderByWithRelationInput | Prisma.ImportJobOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ImportJobs.
+   */
+  cursor?: Prisma.ImportJobWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ImportJobs from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ImportJobs.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ImportJobs.
+   */
+  distinct?: Prisma.ImportJobScalarFieldEnum | Prisma.ImportJobScalarFieldEnum[]
+}
+
+/**
+ * ImportJob findMany
+ */
+export type ImportJobFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ImportJob
+   */
+  select?: Prisma.ImportJobSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ImportJob
+   */
+  omit?: Prisma.ImportJobOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ImportJobInclude<ExtArgs> | null
+  /**
+   * Filter, which ImportJobs to fetch.
+   */
+  where?: Prisma.ImportJobWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ImportJobs to fetch.
+   */
+  orderBy?: Prisma.ImportJobOrderByWithRelationInput | Prisma.ImportJobOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing ImportJobs.
+   */
+  cursor?: Prisma.ImportJobWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ImportJobs from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ImportJobs.
+   */
+  skip?: number
+  distinct?: Prisma.ImportJobScalarFieldEnum | Prisma.ImportJobScalarFieldEnum[]
+}
+
+/**
+ * ImportJob create
+ */
+export type ImportJobCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ImportJob
+   */
+  select?: Prisma.ImportJobSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ImportJob
+   */
+  omit?: Prisma.ImportJobOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ImportJobInclude<ExtArgs> | null
+  /**
+   * The data needed to create a ImportJob.
+   */
+  data: Prisma.XOR<Prisma.ImportJobCreateInput, Prisma.ImportJobUncheckedCreateInput>
+}
+
+/**
+ * ImportJob createMany
+ */
+export type ImportJobCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many ImportJobs.
+   */
+  data: Prisma.ImportJobCreateManyInput | Prisma.ImportJobCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * ImportJob createManyAndReturn
+ */
+export type ImportJobCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ImportJob
+   */
+  select?: Prisma.ImportJobSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ImportJob
+   */
+  omit?: Prisma.ImportJobOmit<ExtArgs> | null
+  /**
+   * The data used to create many ImportJobs.
+   */
+  data: Prisma.ImportJobCreateManyInput | Prisma.ImportJobCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ImportJobIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * ImportJob update
+ */
+export type ImportJobUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ImportJob
+   */
+  select?: Prisma.ImportJobSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ImportJob
+   */
+  omit?: Prisma.ImportJobOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ImportJobInclude<ExtArgs> | null
+  /**
+   * The data needed to update a ImportJob.
+   */
+  data: Prisma.XOR<Prisma.ImportJobUpdateInput, Prisma.ImportJobUncheckedUpdateInput>
+  /**
+   * Choose, which ImportJob to update.
+   */
+  where: Prisma.ImportJobWhereUniqueInput
+}
+
+/**
+ * ImportJob updateMany
+ */
+export type ImportJobUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update ImportJobs.
+   */
+  data: Prisma.XOR<Prisma.ImportJobUpdateManyMutationInput, Prisma.ImportJobUncheckedUpdateManyInput>
+  /**
+   * Filter which ImportJobs to update
+   */
+  where?: Prisma.ImportJobWhereInput
+  /**
+   * Limit how many ImportJobs to update.
+   */
+  limit?: number
+}
+
+/**
+ * ImportJob updateManyAndReturn
+ */
+export type ImportJobUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ImportJob
+   */
+  select?: Prisma.ImportJobSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ImportJob
+   */
+  omit?: Prisma.ImportJobOmit<ExtArgs> | null
+  /**
+   * The data used to update ImportJobs.
+   */
+  data: Prisma.XOR<Prisma.ImportJobUpdateManyMutationInput, Prisma.ImportJobUncheckedUpdateManyInput>
+  /**
+   * Filter which ImportJobs to update
+   */
+  where?: Prisma.ImportJobWhereInput
+  /**
+   * Limit how many ImportJobs to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ImportJobIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * ImportJob upsert
+ */
+export type ImportJobUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ImportJob
+   */
+  select?: Prisma.ImportJobSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ImportJob
+   */
+  omit?: Prisma.ImportJobOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ImportJobInclude<ExtArgs> | null
+  /**
+   * The filter to search for the ImportJob to update in case it exists.
+   */
+  where: Prisma.ImportJobWhereUniqueInput
+  /**
+   * In case the ImportJob found by the `where` argument doesn't exist, create a new ImportJob with this data.
+   */
+  create: Prisma.XOR<Prisma.ImportJobCreateInput, Prisma.ImportJobUncheckedCreateInput>
+  /**
+   * In case the ImportJob was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.ImportJobUpdateInput, Prisma.ImportJobUncheckedUpdateInput>
+}
+
+/**
+ * ImportJob delete
+ */
+export type ImportJobDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ImportJob
+   */
+  select?: Prisma.ImportJobSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ImportJob
+   */
+  omit?: Prisma.ImportJobOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ImportJobInclude<ExtArgs> | null
+  /**
+   * Filter which ImportJob to delete.
+   */
+  where: Prisma.ImportJobWhereUniqueInput
+}
+
+/**
+ * ImportJob deleteMany
+ */
+export type ImportJobDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ImportJobs to delete
+   */
+  where?: Prisma.ImportJobWhereInput
+  /**
+   * Limit how many ImportJobs to delete.
+   */
+  limit?: number
+}
+
+/**
+ * ImportJob without action
+ */
+export type ImportJobDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ImportJob
+   */
+  select?: Prisma.ImportJobSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ImportJob
+   */
+  omit?: Prisma.ImportJobOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ImportJobInclude<ExtArgs> | null
+}
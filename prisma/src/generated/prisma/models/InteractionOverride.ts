@@ -0,0 +1,1693 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `InteractionOverride` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model InteractionOverride
+ * 
+ */
+export type InteractionOverrideModel = runtime.Types.Result.DefaultSelection<Prisma.$InteractionOverridePayload>
+
+export type AggregateInteractionOverride = {
+  _count: InteractionOverrideCountAggregateOutputType | null
+  _min: InteractionOverrideMinAggregateOutputType | null
+  _max: InteractionOverrideMaxAggregateOutputType | null
+}
+
+export type InteractionOverrideMinAggregateOutputType = {
+  id: string | null
+  interactionId: string | null
+  userId: string | null
+  approvedBy: string | null
+  reason: string | null
+  orderId: string | null
+  createdAt: Date | null
+}
+
+export type InteractionOverrideMaxAggregateOutputType = {
+  id: string | null
+  interactionId: string | null
+  userId: string | null
+  approvedBy: string | null
+  reason: string | null
+  orderId: string | null
+  createdAt: Date | null
+}
+
+export type InteractionOverrideCountAggregateOutputType = {
+  id: number
+  interactionId: number
+  userId: number
+  approvedBy: number
+  reason: number
+  orderId: number
+  createdAt: number
+  _all: number
+}
+
+
+export type InteractionOverrideMinAggregateInputType = {
+  id?: true
+  interactionId?: true
+  userId?: true
+  approvedBy?: true
+  reason?: true
+  orderId?: true
+  createdAt?: true
+}
+
+export type InteractionOverrideMaxAggregateInputType = {
+  id?: true
+  interactionId?: true
+  userId?: true
+  approvedBy?: true
+  reason?: true
+  orderId?: true
+  createdAt?: true
+}
+
+export type InteractionOverrideCountAggregateInputType = {
+  id?: true
+  interactionId?: true
+  userId?: true
+  approvedBy?: true
+  reason?: true
+  orderId?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type InteractionOverrideAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which InteractionOverride to aggregate.
+   */
+  where?: Prisma.InteractionOverrideWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of InteractionOverrides to fetch.
+   */
+  orderBy?: Prisma.InteractionOverrideOrderByWithRelationInput | Prisma.InteractionOverrideOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.InteractionOverrideWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` InteractionOverrides from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` InteractionOverrides.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned InteractionOverrides
+  **/
+  _count?: true | InteractionOverrideCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: InteractionOverrideMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: InteractionOverrideMaxAggregateInputType
+}
+
+export type GetInteractionOverrideAggregateType<T extends InteractionOverrideAggregateArgs> = {
+      [P in keyof T & keyof AggregateInteractionOverride]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateInteractionOverride[P]>
+    : Prisma.GetScalarType<T[P], AggregateInteractionOverride[P]>
+}
+
+
+
+
+export type InteractionOverrideGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.InteractionOverrideWhereInput
+  orderBy?: Prisma.InteractionOverrideOrderByWithAggregationInput | Prisma.InteractionOverrideOrderByWithAggregationInput[]
+  by: Prisma.InteractionOverrideScalarFieldEnum[] | Prisma.InteractionOverrideScalarFieldEnum
+  having?: Prisma.InteractionOverrideScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: InteractionOverrideCountAggregateInputType | true
+  _min?: InteractionOverrideMinAggregateInputType
+  _max?: InteractionOverrideMaxAggregateInputType
+}
+
+export type InteractionOverrideGroupByOutputType = {
+  id: string
+  interactionId: string
+  userId: string
+  approvedBy: string
+  reason: string
+  orderId: string | null
+  createdAt: Date
+  _count: InteractionOverrideCountAggregateOutputType | null
+  _min: InteractionOverrideMinAggregateOutputType | null
+  _max: InteractionOverrideMaxAggregateOutputType | null
+}
+
+type GetInteractionOverrideGroupByPayload<T extends InteractionOverrideGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<InteractionOverrideGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof InteractionOverrideGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], InteractionOverrideGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], InteractionOverrideGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type InteractionOverrideWhereInput = {
+  AND?: Prisma.InteractionOverrideWhereInput | Prisma.InteractionOverrideWhereInput[]
+  OR?: Prisma.InteractionOverrideWhereInput[]
+  NOT?: Prisma.InteractionOverrideWhereInput | Prisma.InteractionOverrideWhereInput[]
+  id?: Prisma.StringFilter<"InteractionOverride"> | string
+  interactionId?: Prisma.StringFilter<"InteractionOverride"> | string
+  userId?: Prisma.StringFilter<"InteractionOverride"> | string
+  approvedBy?: Prisma.StringFilter<"InteractionOverride"> | string
+  reason?: Prisma.StringFilter<"InteractionOverride"> | string
+  orderId?: Prisma.StringNullableFilter<"InteractionOverride"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"InteractionOverride"> | Date | string
+  interaction?: Prisma.XOR<Prisma.DrugInteractionScalarRelationFilter, Prisma.DrugInteractionWhereInput>
+  user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+  order?: Prisma.XOR<Prisma.OrderNullableScalarRelationFilter, Prisma.OrderWhereInput> | null
+}
+
+export type InteractionOverrideOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  interactionId?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  approvedBy?: Prisma.SortOrder
+  reason?: Prisma.SortOrder
+  orderId?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  interaction?: Prisma.DrugInteractionOrderByWithRelationInput
+  user?: Prisma.UserOrderByWithRelationInput
+  order?: Prisma.OrderOrderByWithRelationInput
+}
+
+export type InteractionOverrideWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  AND?: Prisma.InteractionOverrideWhereInput | Prisma.InteractionOverrideWhereInput[]
+  OR?: Prisma.InteractionOverrideWhereInput[]
+  NOT?: Prisma.InteractionOverrideWhereInput | Prisma.InteractionOverrideWhereInput[]
+  interactionId?: Prisma.StringFilter<"InteractionOverride"> | string
+  userId?: Prisma.StringFilter<"InteractionOverride"> | string
+  approvedBy?: Prisma.StringFilter<"InteractionOverride"> | string
+  reason?: Prisma.StringFilter<"InteractionOverride"> | string
+  orderId?: Prisma.StringNullableFilter<"InteractionOverride"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"InteractionOverride"> | Date | string
+  interaction?: Prisma.XOR<Prisma.DrugInteractionScalarRelationFilter, Prisma.DrugInteractionWhereInput>
+  user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+  order?: Prisma.XOR<Prisma.OrderNullableScalarRelationFilter, Prisma.OrderWhereInput> | null
+}, "id">
+
+export type InteractionOverrideOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  interactionId?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  approvedBy?: Prisma.SortOrder
+  reason?: Prisma.SortOrder
+  orderId?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.InteractionOverrideCountOrderByAggregateInput
+  _max?: Prisma.InteractionOverrideMaxOrderByAggregateInput
+  _min?: Prisma.InteractionOverrideMinOrderByAggregateInput
+}
+
+export type InteractionOverrideScalarWhereWithAggregatesInput = {
+  AND?: Prisma.InteractionOverrideScalarWhereWithAggregatesInput | Prisma.InteractionOverrideScalarWhereWithAggregatesInput[]
+  OR?: Prisma.InteractionOverrideScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.InteractionOverrideScalarWhereWithAggregatesInput | Prisma.InteractionOverrideScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"InteractionOverride"> | string
+  interactionId?: Prisma.StringWithAggregatesFilter<"InteractionOverride"> | string
+  userId?: Prisma.StringWithAggregatesFilter<"InteractionOverride"> | string
+  approvedBy?: Prisma.StringWithAggregatesFilter<"InteractionOverride"> | string
+  reason?: Prisma.StringWithAggregatesFilter<"InteractionOverride"> | string
+  orderId?: Prisma.StringNullableWithAggregatesFilter<"InteractionOverride"> | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"InteractionOverride"> | Date | string
+}
+
+export type InteractionOverrideCreateInput = {
+  id?: string
+  approvedBy: string
+  reason: string
+  createdAt?: Date | string
+  interaction: Prisma.DrugInteractionCreateNestedOneWithoutOverridesInput
+  user: Prisma.UserCreateNestedOneWithoutInteractionOverridesInput
+  order?: Prisma.OrderCreateNestedOneWithoutInteractionOverridesInput
+}
+
+export type InteractionOverrideUncheckedCreateInput = {
+  id?: string
+  interactionId: string
+  userId: string
+  approvedBy: string
+  reason: string
+  orderId?: string | null
+  createdAt?: Date | string
+}
+
+export type InteractionOverrideUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  approvedBy?: Prisma.StringFieldUpdateOperationsInput | string
+  reason?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  interaction?: Prisma.DrugInteractionUpdateOneRequiredWithoutOverridesNestedInput
+  user?: Prisma.UserUpdateOneRequiredWithoutInteractionOverridesNestedInput
+  order?: Prisma.OrderUpdateOneWithoutInteractionOverridesNestedInput
+}
+
+export type InteractionOverrideUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  interactionId?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  approvedBy?: Prisma.StringFieldUpdateOperationsInput | string
+  reason?: Prisma.StringFieldUpdateOperationsInput | string
+  orderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type InteractionOverrideCreateManyInput = {
+  id?: string
+  interactionId: string
+  userId: string
+  approvedBy: string
+  reason: string
+  orderId?: string | null
+  createdAt?: Date | string
+}
+
+export type InteractionOverrideUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  approvedBy?: Prisma.StringFieldUpdateOperationsInput | string
+  reason?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type InteractionOverrideUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  interactionId?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  approvedBy?: Prisma.StringFieldUpdateOperationsInput | string
+  reason?: Prisma.StringFieldUpdateOperationsInput | string
+  orderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type InteractionOverrideListRelationFilter = {
+  every?: Prisma.InteractionOverrideWhereInput
+  some?: Prisma.InteractionOverrideWhereInput
+  none?: Prisma.InteractionOverrideWhereInput
+}
+
+export type InteractionOverrideOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type InteractionOverrideCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  interactionId?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  approvedBy?: Prisma.SortOrder
+  reason?: Prisma.SortOrder
+  orderId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type InteractionOverrideMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  interactionId?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  approvedBy?: Prisma.SortOrder
+  reason?: Prisma.SortOrder
+  orderId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type InteractionOverrideMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  interactionId?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  approvedBy?: Prisma.SortOrder
+  reason?: Prisma.SortOrder
+  orderId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type InteractionOverrideCreateNestedManyWithoutInteractionInput = {
+  create?: Prisma.XOR<Prisma.InteractionOverrideCreateWithoutInteractionInput, Prisma.InteractionOverrideUncheckedCreateWithoutInteractionInput> | Prisma.InteractionOverrideCreateWithoutInteractionInput[] | Prisma.InteractionOverrideUncheckedCreateWithoutInteractionInput[]
+  connectOrCreate?: Prisma.InteractionOverrideCreateOrConnectWithoutInteractionInput | Prisma.InteractionOverrideCreateOrConnectWithoutInteractionInput[]
+  createMany?: Prisma.InteractionOverrideCreateManyInteractionInputEnvelope
+  connect?: Prisma.InteractionOverrideWhereUniqueInput | Prisma.InteractionOverrideWhereUniqueInput[]
+}
+
+export type InteractionOverrideUncheckedCreateNestedManyWithoutInteractionInput = {
+  create?: Prisma.XOR<Prisma.InteractionOverrideCreateWithoutInteractionInput, Prisma.InteractionOverrideUncheckedCreateWithoutInteractionInput> | Prisma.InteractionOverrideCreateWithoutInteractionInput[] | Prisma.InteractionOverrideUncheckedCreateWithoutInteractionInput[]
+  connectOrCreate?: Prisma.InteractionOverrideCreateOrConnectWithoutInteractionInput | Prisma.InteractionOverrideCreateOrConnectWithoutInteractionInput[]
+  createMany?: Prisma.InteractionOverrideCreateManyInteractionInputEnvelope
+  connect?: Prisma.InteractionOverrideWhereUniqueInput | Prisma.InteractionOverrideWhereUniqueInput[]
+}
+
+export type InteractionOverrideUpdateManyWithoutInteractionNestedInput = {
+  create?: Prisma.XOR<Prisma.InteractionOverrideCreateWithoutInteractionInput, Prisma.InteractionOverrideUncheckedCreateWithoutInteractionInput> | Prisma.InteractionOverrideCreateWithoutInteractionInput[] | Prisma.InteractionOverrideUncheckedCreateWithoutInteractionInput[]
+  connectOrCreate?: Prisma.InteractionOverrideCreateOrConnectWithoutInteractionInput | Prisma.InteractionOverrideCreateOrConnectWithoutInteractionInput[]
+  upsert?: Prisma.InteractionOverrideUpsertWithWhereUniqueWithoutInteractionInput | Prisma.InteractionOverrideUpsertWithWhereUniqueWithoutInteractionInput[]
+  createMany?: Prisma.InteractionOverrideCreateManyInteractionInputEnvelope
+  set?: Prisma.InteractionOverrideWhereUniqueInput | Prisma.InteractionOverrideWhereUniqueInput[]
+  disconnect?: Prisma.InteractionOverrideWhereUniqueInput | Prisma.InteractionOverrideWhereUniqueInput[]
+  delete?: Prisma.InteractionOverrideWhereUniqueInput | Prisma.InteractionOverrideWhereUniqueInput[]
+  connect?: Prisma.InteractionOverrideWhereUniqueInput | Prisma.InteractionOverrideWhereUniqueInput[]
+  update?: Prisma.InteractionOverrideUpdateWithWhereUniqueWithoutInteractionInput | Prisma.InteractionOverrideUpdateWithWhereUniqueWithoutInteractionInput[]
+  updateMany?: Prisma.InteractionOverrideUpdateManyWithWhereWithoutInteractionInput | Prisma.InteractionOverrideUpdateManyWithWhereWithoutInteractionInput[]
+  deleteMany?: Prisma.InteractionOverrideScalarWhereInput | Prisma.InteractionOverrideScalarWhereInput[]
+}
+
+export type InteractionOverrideUncheckedUpdateManyWithoutInteractionNestedInput = {
+  create?: Prisma.XOR<Prisma.InteractionOverrideCreateWithoutInteractionInput, Prisma.InteractionOverrideUncheckedCreateWithoutInteractionInput> | Prisma.InteractionOverrideCreateWithoutInteractionInput[] | Prisma.InteractionOverrideUncheckedCreateWithoutInteractionInput[]
+  connectOrCreate?: Prisma.InteractionOverrideCreateOrConnectWithoutInteractionInput | Prisma.InteractionOverrideCreateOrConnectWithoutInteractionInput[]
+  upsert?: Prisma.InteractionOverrideUpsertWithWhereUniqueWithoutInteractionInput | Prisma.InteractionOverrideUpsertWithWhereUniqueWithoutInteractionInput[]
+  createMany?: Prisma.InteractionOverrideCreateManyInteractionInputEnvelope
+  set?: Prisma.InteractionOverrideWhereUniqueInput | Prisma.InteractionOverrideWhereUniqueInput[]
+  disconnect?: Prisma.InteractionOverrideWhereUniqueInput | Prisma.InteractionOverrideWhereUniqueInput[]
+  delete?: Prisma.InteractionOverrideWhereUniqueInput | Prisma.InteractionOverrideWhereUniqueInput[]
+  connect?: Prisma.InteractionOverrideWhereUniqueInput | Prisma.InteractionOverrideWhereUniqueInput[]
+  update?: Prisma.InteractionOverrideUpdateWithWhereUniqueWithoutInteractionInput | Prisma.InteractionOverrideUpdateWithWhereUniqueWithoutInteractionInput[]
+  updateMany?: Prisma.InteractionOverrideUpdateManyWithWhereWithoutInteractionInput | Prisma.InteractionOverrideUpdateManyWithWhereWithoutInteractionInput[]
+  deleteMany?: Prisma.InteractionOverrideScalarWhereInput | Prisma.InteractionOverrideScalarWhereInput[]
+}
+
+export type InteractionOverrideCreateNestedManyWithoutOrderInput = {
+  create?: Prisma.XOR<Prisma.InteractionOverrideCreateWithoutOrderInput, Prisma.InteractionOverrideUncheckedCreateWithoutOrderInput> | Prisma.InteractionOverrideCreateWithoutOrderInput[] | Prisma.InteractionOverrideUncheckedCreateWithoutOrderInput[]
+  connectOrCreate?: Prisma.InteractionOverrideCreateOrConnectWithoutOrderInput | Prisma.InteractionOverrideCreateOrConnectWithoutOrderInput[]
+  createMany?: Prisma.InteractionOverrideCreateManyOrderInputEnvelope
+  connect?: Prisma.InteractionOverrideWhereUniqueInput | Prisma.InteractionOverrideWhereUniqueInput[]
+}
+
+export type InteractionOverrideUncheckedCreateNestedManyWithoutOrderInput = {
+  create?: Prisma.XOR<Prisma.InteractionOverrideCreateWithoutOrderInput, Prisma.InteractionOverrideUncheckedCreateWithoutOrderInput> | Prisma.InteractionOverrideCreateWithoutOrderInput[] | Prisma.InteractionOverrideUncheckedCreateWithoutOrderInput[]
+  connectOrCreate?: Prisma.InteractionOverrideCreateOrConnectWithoutOrderInput | Prisma.InteractionOverrideCreateOrConnectWithoutOrderInput[]
+  createMany?: Prisma.InteractionOverrideCreateManyOrderInputEnvelope
+  connect?: Prisma.InteractionOverrideWhereUniqueInput | Prisma.InteractionOverrideWhereUniqueInput[]
+}
+
+export type InteractionOverrideUpdateManyWithoutOrderNestedInput = {
+  create?: Prisma.XOR<Prisma.InteractionOverrideCreateWithoutOrderInput, Prisma.InteractionOverrideUncheckedCreateWithoutOrderInput> | Prisma.InteractionOverrideCreateWithoutOrderInput[] | Prisma.InteractionOverrideUncheckedCreateWithoutOrderInput[]
+  connectOrCreate?: Prisma.InteractionOverrideCreateOrConnectWithoutOrderInput | Prisma.InteractionOverrideCreateOrConnectWithoutOrderInput[]
+  upsert?: Prisma.InteractionOverrideUpsertWithWhereUniqueWithoutOrderInput | Prisma.InteractionOverrideUpsertWithWhereUniqueWithoutOrderInput[]
+  createMany?: Prisma.InteractionOverrideCreateManyOrderInputEnvelope
+  set?: Prisma.InteractionOverrideWhereUniqueInput | Prisma.InteractionOverrideWhereUniqueInput[]
+  disconnect?: Prisma.InteractionOverrideWhereUniqueInput | Prisma.InteractionOverrideWhereUniqueInput[]
+  delete?: Prisma.InteractionOverrideWhereUniqueInput | Prisma.InteractionOverrideWhereUniqueInput[]
+  connect?: Prisma.InteractionOverrideWhereUniqueInput | Prisma.InteractionOverrideWhereUniqueInput[]
+  update?: Prisma.InteractionOverrideUpdateWithWhereUniqueWithoutOrderInput | Prisma.InteractionOverrideUpdateWithWhereUniqueWithoutOrderInput[]
+  updateMany?: Prisma.InteractionOverrideUpdateManyWithWhereWithoutOrderInput | Prisma.InteractionOverrideUpdateManyWithWhereWithoutOrderInput[]
+  deleteMany?: Prisma.InteractionOverrideScalarWhereInput | Prisma.InteractionOverrideScalarWhereInput[]
+}
+
+export type InteractionOverrideUncheckedUpdateManyWithoutOrderNestedInput = {
+  create?: Prisma.XOR<Prisma.InteractionOverrideCreateWithoutOrderInput, Prisma.InteractionOverrideUncheckedCreateWithoutOrderInput> | Prisma.InteractionOverrideCreateWithoutOrderInput[] | Prisma.InteractionOverrideUncheckedCreateWithoutOrderInput[]
+  connectOrCreate?: Prisma.InteractionOverrideCreateOrConnectWithoutOrderInput | Prisma.InteractionOverrideCreateOrConnectWithoutOrderInput[]
+  upsert?: Prisma.InteractionOverrideUpsertWithWhereUniqueWithoutOrderInput | Prisma.InteractionOverrideUpsertWithWhereUniqueWithoutOrderInput[]
+  createMany?: Prisma.InteractionOverrideCreateManyOrderInputEnvelope
+  set?: Prisma.InteractionOverrideWhereUniqueInput | Prisma.InteractionOverrideWhereUniqueInput[]
+  disconnect?: Prisma.InteractionOverrideWhereUniqueInput | Prisma.InteractionOverrideWhereUniqueInput[]
+  delete?: Prisma.InteractionOverrideWhereUniqueInput | Prisma.InteractionOverrideWhereUniqueInput[]
+  connect?: Prisma.InteractionOverrideWhereUniqueInput | Prisma.InteractionOverrideWhereUniqueInput[]
+  update?: Prisma.InteractionOverrideUpdateWithWhereUniqueWithoutOrderInput | Prisma.InteractionOverrideUpdateWithWhereUniqueWithoutOrderInput[]
+  updateMany?: Prisma.InteractionOverrideUpdateManyWithWhereWithoutOrderInput | Prisma.InteractionOverrideUpdateManyWithWhereWithoutOrderInput[]
+  deleteMany?: Prisma.InteractionOverrideScalarWhereInput | Prisma.InteractionOverrideScalarWhereInput[]
+}
+
+export type InteractionOverrideCreateNestedManyWithoutUserInput = {
+  create?: Prisma.XOR<Prisma.InteractionOverrideCreateWithoutUserInput, Prisma.InteractionOverrideUncheckedCreateWithoutUserInput> | Prisma.InteractionOverrideCreateWithoutUserInput[] | Prisma.InteractionOverrideUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.InteractionOverrideCreateOrConnectWithoutUserInput | Prisma.InteractionOverrideCreateOrConnectWithoutUserInput[]
+  createMany?: Prisma.InteractionOverrideCreateManyUserInputEnvelope
+  connect?: Prisma.InteractionOverrideWhereUniqueInput | Prisma.InteractionOverrideWhereUniqueInput[]
+}
+
+export type InteractionOverrideUncheckedCreateNestedManyWithoutUserInput = {
+  create?: Prisma.XOR<Prisma.InteractionOverrideCreateWithoutUserInput, Prisma.InteractionOverrideUncheckedCreateWithoutUserInput> | Prisma.InteractionOverrideCreateWithoutUserInput[] | Prisma.InteractionOverrideUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.InteractionOverrideCreateOrConnectWithoutUserInput | Prisma.InteractionOverrideCreateOrConnectWithoutUserInput[]
+  createMany?: Prisma.InteractionOverrideCreateManyUserInputEnvelope
+  connect?: Prisma.InteractionOverrideWhereUniqueInput | Prisma.InteractionOverrideWhereUniqueInput[]
+}
+
+export type InteractionOverrideUpdateManyWithoutUserNestedInput = {
+  create?: Prisma.XOR<Prisma.InteractionOverrideCreateWithoutUserInput, Prisma.InteractionOverrideUncheckedCreateWithoutUserInput> | Prisma.InteractionOverrideCreateWithoutUserInput[] | Prisma.InteractionOverrideUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.InteractionOverrideCreateOrConnectWithoutUserInput | Prisma.InteractionOverrideCreateOrConnectWithoutUserInput[]
+  upsert?: Prisma.InteractionOverrideUpsertWithWhereUniqueWithoutUserInput | Prisma.InteractionOverrideUpsertWithWhereUniqueWithoutUserInput[]
+  createMany?: Prisma.InteractionOverrideCreateManyUserInputEnvelope
+  set?: Prisma.InteractionOverrideWhereUniqueInput | Prisma.InteractionOverrideWhereUniqueInput[]
+  disconnect?: Prisma.InteractionOverrideWhereUniqueInput | Prisma.InteractionOverrideWhereUniqueInput[]
+  delete?: Prisma.InteractionOverrideWhereUniqueInput | Prisma.InteractionOverrideWhereUniqueInput[]
+  connect?: Prisma.InteractionOverrideWhereUniqueInput | Prisma.InteractionOverrideWhereUniqueInput[]
+  update?: Prisma.InteractionOverrideUpdateWithWhereUniqueWithoutUserInput | Prisma.InteractionOverrideUpdateWithWhereUniqueWithoutUserInput[]
+  updateMany?: Prisma.InteractionOverrideUpdateManyWithWhereWithoutUserInput | Prisma.InteractionOverrideUpdateManyWithWhereWithoutUserInput[]
+  deleteMany?: Prisma.InteractionOverrideScalarWhereInput | Prisma.InteractionOverrideScalarWhereInput[]
+}
+
+export type InteractionOverrideUncheckedUpdateManyWithoutUserNestedInput = {
+  create?: Prisma.XOR<Prisma.InteractionOverrideCreateWithoutUserInput, Prisma.InteractionOverrideUncheckedCreateWithoutUserInput> | Prisma.InteractionOverrideCreateWithoutUserInput[] | Prisma.InteractionOverrideUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.InteractionOverrideCreateOrConnectWithoutUserInput | Prisma.InteractionOverrideCreateOrConnectWithoutUserInput[]
+  upsert?: Prisma.InteractionOverrideUpsertWithWhereUniqueWithoutUserInput | Prisma.InteractionOverrideUpsertWithWhereUniqueWithoutUserInput[]
+  createMany?: Prisma.InteractionOverrideCreateManyUserInputEnvelope
+  set?: Prisma.InteractionOverrideWhereUniqueInput | Prisma.InteractionOverrideWhereUniqueInput[]
+  disconnect?: Prisma.InteractionOverrideWhereUniqueInput | Prisma.InteractionOverrideWhereUniqueInput[]
+  delete?: Prisma.InteractionOverrideWhereUniqueInput | Prisma.InteractionOverrideWhereUniqueInput[]
+  connect?: Prisma.InteractionOverrideWhereUniqueInput | Prisma.InteractionOverrideWhereUniqueInput[]
+  update?: Prisma.InteractionOverrideUpdateWithWhereUniqueWithoutUserInput | Prisma.InteractionOverrideUpdateWithWhereUniqueWithoutUserInput[]
+  updateMany?: Prisma.InteractionOverrideUpdateManyWithWhereWithoutUserInput | Prisma.InteractionOverrideUpdateManyWithWhereWithoutUserInput[]
+  deleteMany?: Prisma.InteractionOverrideScalarWhereInput | Prisma.InteractionOverrideScalarWhereInput[]
+}
+
+export type InteractionOverrideCreateWithoutInteractionInput = {
+  id?: string
+  approvedBy: string
+  reason: string
+  createdAt?: Date | string
+  user: Prisma.UserCreateNestedOneWithoutInteractionOverridesInput
+  order?: Prisma.OrderCreateNestedOneWithoutInteractionOverridesInput
+}
+
+export type InteractionOverrideUncheckedCreateWithoutInteractionInput = {
+  id?: string
+  userId: string
+  approvedBy: string
+  reason: string
+  orderId?: string | null
+  createdAt?: Date | string
+}
+
+export type InteractionOverrideCreateOrConnectWithoutInteractionInput = {
+  where: Prisma.InteractionOverrideWhereUniqueInput
+  create: Prisma.XOR<Prisma.InteractionOverrideCreateWithoutInteractionInput, Prisma.InteractionOverrideUncheckedCreateWithoutInteractionInput>
+}
+
+export type InteractionOverrideCreateManyInteractionInputEnvelope = {
+  data: Prisma.InteractionOverrideCreateManyInteractionInput | Prisma.InteractionOverrideCreateManyInteractionInput[]
+  skipDuplicates?: boolean
+}
+
+export type InteractionOverrideUpsertWithWhereUniqueWithoutInteractionInput = {
+  where: Prisma.InteractionOverrideWhereUniqueInput
+  update: Prisma.XOR<Prisma.InteractionOverrideUpdateWithoutInteractionInput, Prisma.InteractionOverrideUncheckedUpdateWithoutInteractionInput>
+  create: Prisma.XOR<Prisma.InteractionOverrideCreateWithoutInteractionInput, Prisma.InteractionOverrideUncheckedCreateWithoutInteractionInput>
+}
+
+export type InteractionOverrideUpdateWithWhereUniqueWithoutInteractionInput = {
+  where: Prisma.InteractionOverrideWhereUniqueInput
+  data: Prisma.XOR<Prisma.InteractionOverrideUpdateWithoutInteractionInput, Prisma.InteractionOverrideUncheckedUpdateWithoutInteractionInput>
+}
+
+export type InteractionOverrideUpdateManyWithWhereWithoutInteractionInput = {
+  where: Prisma.InteractionOverrideScalarWhereInput
+  data: Prisma.XOR<Prisma.InteractionOverrideUpdateManyMutationInput, Prisma.InteractionOverrideUncheckedUpdateManyWithoutInteractionInput>
+}
+
+export type InteractionOverrideScalarWhereInput = {
+  AND?: Prisma.InteractionOverrideScalarWhereInput | Prisma.InteractionOverrideScalarWhereInput[]
+  OR?: Prisma.InteractionOverrideScalarWhereInput[]
+  NOT?: Prisma.InteractionOverrideScalarWhereInput | Prisma.InteractionOverrideScalarWhereInput[]
+  id?: Prisma.StringFilter<"InteractionOverride"> | string
+  interactionId?: Prisma.StringFilter<"InteractionOverride"> | string
+  userId?: Prisma.StringFilter<"InteractionOverride"> | string
+  approvedBy?: Prisma.StringFilter<"InteractionOverride"> | string
+  reason?: Prisma.StringFilter<"InteractionOverride"> | string
+  orderId?: Prisma.StringNullableFilter<"InteractionOverride"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"InteractionOverride"> | Date | string
+}
+
+export type InteractionOverrideCreateWithoutOrderInput = {
+  id?: string
+  approvedBy: string
+  reason: string
+  createdAt?: Date | string
+  interaction: Prisma.DrugInteractionCreateNestedOneWithoutOverridesInput
+  user: Prisma.UserCreateNestedOneWithoutInteractionOverridesInput
+}
+
+export type InteractionOverrideUncheckedCreateWithoutOrderInput = {
+  id?: string
+  interactionId: string
+  userId: string
+  approvedBy: string
+  reason: string
+  createdAt?: Date | string
+}
+
+export type InteractionOverrideCreateOrConnectWithoutOrderInput = {
+  where: Prisma.InteractionOverrideWhereUniqueInput
+  create: Prisma.XOR<Prisma.InteractionOverrideCreateWithoutOrderInput, Prisma.InteractionOverrideUncheckedCreateWithoutOrderInput>
+}
+
+export type InteractionOverrideCreateManyOrderInputEnvelope = {
+  data: Prisma.InteractionOverrideCreateManyOrderInput | Prisma.InteractionOverrideCreateManyOrderInput[]
+  skipDuplicates?: boolean
+}
+
+export type InteractionOverrideUpsertWithWhereUniqueWithoutOrderInput = {
+  where: Prisma.InteractionOverrideWhereUniqueInput
+  update: Prisma.XOR<Prisma.InteractionOverrideUpdateWithoutOrderInput, Prisma.InteractionOverrideUncheckedUpdateWithoutOrderInput>
+  create: Prisma.XOR<Prisma.InteractionOverrideCreateWithoutOrderInput, Prisma.InteractionOverrideUncheckedCreateWithoutOrderInput>
+}
+
+export type InteractionOverrideUpdateWithWhereUniqueWithoutOrderInput = {
+  where: Prisma.InteractionOverrideWhereUniqueInput
+  data: Prisma.XOR<Prisma.InteractionOverrideUpdateWithoutOrderInput, Prisma.InteractionOverrideUncheckedUpdateWithoutOrderInput>
+}
+
+export type InteractionOverrideUpdateManyWithWhereWithoutOrderInput = {
+  where: Prisma.InteractionOverrideScalarWhereInput
+  data: Prisma.XOR<Prisma.InteractionOverrideUpdateManyMutationInput, Prisma.InteractionOverrideUncheckedUpdateManyWithoutOrderInput>
+}
+
+export type InteractionOverrideCreateWithoutUserInput = {
+  id?: string
+  approvedBy: string
+  reason: string
+  createdAt?: Date | string
+  interaction: Prisma.DrugInteractionCreateNestedOneWithoutOverridesInput
+  order?: Prisma.OrderCreateNestedOneWithoutInteractionOverridesInput
+}
+
+export type InteractionOverrideUncheckedCreateWithoutUserInput = {
+  id?: string
+  interactionId: string
+  approvedBy: string
+  reason: string
+  orderId?: string | null
+  createdAt?: Date | string
+}
+
+export type InteractionOverrideCreateOrConnectWithoutUserInput = {
+  where: Prisma.InteractionOverrideWhereUniqueInput
+  create: Prisma.XOR<Prisma.InteractionOverrideCreateWithoutUserInput, Prisma.InteractionOverrideUncheckedCreateWithoutUserInput>
+}
+
+export type InteractionOverrideCreateManyUserInputEnvelope = {
+  data: Prisma.InteractionOverrideCreateManyUserInput | Prisma.InteractionOverrideCreateManyUserInput[]
+  skipDuplicates?: boolean
+}
+
+export type InteractionOverrideUpsertWithWhereUniqueWithoutUserInput = {
+  where: Prisma.InteractionOverrideWhereUniqueInput
+  update: Prisma.XOR<Prisma.InteractionOverrideUpdateWithoutUserInput, Prisma.InteractionOverrideUncheckedUpdateWithoutUserInput>
+  create: Prisma.XOR<Prisma.InteractionOverrideCreateWithoutUserInput, Prisma.InteractionOverrideUncheckedCreateWithoutUserInput>
+}
+
+export type InteractionOverrideUpdateWithWhereUniqueWithoutUserInput = {
+  where: Prisma.InteractionOverrideWhereUniqueInput
+  data: Prisma.XOR<Prisma.InteractionOverrideUpdateWithoutUserInput, Prisma.InteractionOverrideUncheckedUpdateWithoutUserInput>
+}
+
+export type InteractionOverrideUpdateManyWithWhereWithoutUserInput = {
+  where: Prisma.InteractionOverrideScalarWhereInput
+  data: Prisma.XOR<Prisma.InteractionOverrideUpdateManyMutationInput, Prisma.InteractionOverrideUncheckedUpdateManyWithoutUserInput>
+}
+
+export type InteractionOverrideCreateManyInteractionInput = {
+  id?: string
+  userId: string
+  approvedBy: string
+  reason: string
+  orderId?: string | null
+  createdAt?: Date | string
+}
+
+export type InteractionOverrideUpdateWithoutInteractionInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  approvedBy?: Prisma.StringFieldUpdateOperationsInput | string
+  reason?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  user?: Prisma.UserUpdateOneRequiredWithoutInteractionOverridesNestedInput
+  order?: Prisma.OrderUpdateOneWithoutInteractionOverridesNestedInput
+}
+
+export type InteractionOverrideUncheckedUpdateWithoutInteractionInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  approvedBy?: Prisma.StringFieldUpdateOperationsInput | string
+  reason?: Prisma.StringFieldUpdateOperationsInput | string
+  orderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type InteractionOverrideUncheckedUpdateManyWithoutInteractionInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  approvedBy?: Prisma.StringFieldUpdateOperationsInput | string
+  reason?: Prisma.StringFieldUpdateOperationsInput | string
+  orderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type InteractionOverrideCreateManyOrderInput = {
+  id?: string
+  interactionId: string
+  userId: string
+  approvedBy: string
+  reason: string
+  createdAt?: Date | string
+}
+
+export type InteractionOverrideUpdateWithoutOrderInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  approvedBy?: Prisma.StringFieldUpdateOperationsInput | string
+  reason?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  interaction?: Prisma.DrugInteractionUpdateOneRequiredWithoutOverridesNestedInput
+  user?: Prisma.UserUpdateOneRequiredWithoutInteractionOverridesNestedInput
+}
+
+export type InteractionOverrideUncheckedUpdateWithoutOrderInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  interactionId?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  approvedBy?: Prisma.StringFieldUpdateOperationsInput | string
+  reason?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type InteractionOverrideUncheckedUpdateManyWithoutOrderInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  interactionId?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  approvedBy?: Prisma.StringFieldUpdateOperationsInput | string
+  reason?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type InteractionOverrideCreateManyUserInput = {
+  id?: string
+  interactionId: string
+  approvedBy: string
+  reason: string
+  orderId?: string | null
+  createdAt?: Date | string
+}
+
+export type InteractionOverrideUpdateWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  approvedBy?: Prisma.StringFieldUpdateOperationsInput | string
+  reason?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  interaction?: Prisma.DrugInteractionUpdateOneRequiredWithoutOverridesNestedInput
+  order?: Prisma.OrderUpdateOneWithoutInteractionOverridesNestedInput
+}
+
+export type InteractionOverrideUncheckedUpdateWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  interactionId?: Prisma.StringFieldUpdateOperationsInput | string
+  approvedBy?: Prisma.StringFieldUpdateOperationsInput | string
+  reason?: Prisma.StringFieldUpdateOperationsInput | string
+  orderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type InteractionOverrideUncheckedUpdateManyWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  interactionId?: Prisma.StringFieldUpdateOperationsInput | string
+  approvedBy?: Prisma.StringFieldUpdateOperationsInput | string
+  reason?: Prisma.StringFieldUpdateOperationsInput | string
+  orderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type InteractionOverrideSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  interactionId?: boolean
+  userId?: boolean
+  approvedBy?: boolean
+  reason?: boolean
+  orderId?: boolean
+  createdAt?: boolean
+  interaction?: boolean | Prisma.DrugInteractionDefaultArgs<ExtArgs>
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  order?: boolean | Prisma.InteractionOverride$orderArgs<ExtArgs>
+}, ExtArgs["result"]["interactionOverride"]>
+
+export type InteractionOverrideSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  interactionId?: boolean
+  userId?: boolean
+  approvedBy?: boolean
+  reason?: boolean
+  orderId?: boolean
+  createdAt?: boolean
+  interaction?: boolean | Prisma.DrugInteractionDefaultArgs<ExtArgs>
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  order?: boolean | Prisma.InteractionOverride$orderArgs<ExtArgs>
+}, ExtArgs["result"]["interactionOverride"]>
+
+export type InteractionOverrideSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  interactionId?: boolean
+  userId?: boolean
+  approvedBy?: boolean
+  reason?: boolean
+  orderId?: boolean
+  createdAt?: boolean
+  interaction?: boolean | Prisma.DrugInteractionDefaultArgs<ExtArgs>
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  order?: boolean | Prisma.InteractionOverride$orderArgs<ExtArgs>
+}, ExtArgs["result"]["interactionOverride"]>
+
+export type InteractionOverrideSelectScalar = {
+  id?: boolean
+  interactionId?: boolean
+  userId?: boolean
+  approvedBy?: boolean
+  reason?: boolean
+  orderId?: boolean
+  createdAt?: boolean
+}
+
+export type InteractionOverrideOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "interactionId" | "userId" | "approvedBy" | "reason" | "orderId" | "createdAt", ExtArgs["result"]["interactionOverride"]>
+export type InteractionOverrideInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  interaction?: boolean | Prisma.DrugInteractionDefaultArgs<ExtArgs>
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  order?: boolean | Prisma.InteractionOverride$orderArgs<ExtArgs>
+}
+export type InteractionOverrideIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  interaction?: boolean | Prisma.DrugInteractionDefaultArgs<ExtArgs>
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  order?: boolean | Prisma.InteractionOverride$orderArgs<ExtArgs>
+}
+export type InteractionOverrideIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  interaction?: boolean | Prisma.DrugInteractionDefaultArgs<ExtArgs>
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  order?: boolean | Prisma.InteractionOverride$orderArgs<ExtArgs>
+}
+
+export type $InteractionOverridePayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "InteractionOverride"
+  objects: {
+    interaction: Prisma.$DrugInteractionPayload<ExtArgs>
+    user: Prisma.$UserPayload<ExtArgs>
+    order: Prisma.$OrderPayload<ExtArgs> | null
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    interactionId: string
+    userId: string
+    approvedBy: string
+    reason: string
+    orderId: string | null
+    createdAt: Date
+  }, ExtArgs["result"]["interactionOverride"]>
+  composites: {}
+}
+
+export type InteractionOverrideGetPayload<S extends boolean | null | undefined | InteractionOverrideDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$InteractionOverridePayload, S>
+
+export type InteractionOverrideCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<InteractionOverrideFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: InteractionOverrideCountAggregateInputType | true
+  }
+
+export interface InteractionOverrideDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['InteractionOverride'], meta: { name: 'InteractionOverride' } }
+  /**
+   * Find zero or one InteractionOverride that matches the filter.
+   * @param {InteractionOverrideFindUniqueArgs} args - Arguments to find a InteractionOverride
+   * @example
+   * // Get one InteractionOverride
+   * const interactionOverride = await prisma.interactionOverride.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends InteractionOverrideFindUniqueArgs>(args: Prisma.SelectSubset<T, InteractionOverrideFindUniqueArgs<ExtArgs>>): Prisma.Prisma__InteractionOverrideClient<runtime.Types.Result.GetResult<Prisma.$InteractionOverridePayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one InteractionOverride that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {InteractionOverrideFindUniqueOrThrowArgs} args - Arguments to find a InteractionOverride
+   * @example
+   * // Get one InteractionOverride
+   * const interactionOverride = await prisma.interactionOverride.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends InteractionOverrideFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, InteractionOverrideFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__InteractionOverrideClient<runtime.Types.Result.GetResult<Prisma.$InteractionOverridePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first InteractionOverride that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {InteractionOverrideFindFirstArgs} args - Arguments to find a InteractionOverride
+   * @example
+   * // Get one InteractionOverride
+   * const interactionOverride = await prisma.interactionOverride.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends InteractionOverrideFindFirstArgs>(args?: Prisma.SelectSubset<T, InteractionOverrideFindFirstArgs<ExtArgs>>): Prisma.Prisma__InteractionOverrideClient<runtime.Types.Result.GetResult<Prisma.$InteractionOverridePayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first InteractionOverride that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {InteractionOverrideFindFirstOrThrowArgs} args - Arguments to find a InteractionOverride
+   * @example
+   * // Get one InteractionOverride
+   * const interactionOverride = await prisma.interactionOverride.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends InteractionOverrideFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, InteractionOverrideFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__InteractionOverrideClient<runtime.Types.Result.GetResult<Prisma.$InteractionOverridePayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more InteractionOverrides that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {InteractionOverrideFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all InteractionOverrides
+   * const interactionOverrides = await prisma.interactionOverride.findMany()
+   * 
+   * // Get first 10 InteractionOverrides
+   * const interactionOverrides = await prisma.interactionOverride.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const interactionOverrideWithIdOnly = await prisma.interactionOverride.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends InteractionOverrideFindManyArgs>(args?: Prisma.SelectSubset<T, InteractionOverrideFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$InteractionOverridePayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a InteractionOverride.
+   * @param {InteractionOverrideCreateArgs} args - Arguments to create a InteractionOverride.
+   * @example
+   * // Create one InteractionOverride
+   * const InteractionOverride = await prisma.interactionOverride.create({
+   *   data: {
+   *     // ... data to create a InteractionOverride
+   *   }
+   * })
+   * 
+   */
+  create<T extends InteractionOverrideCreateArgs>(args: Prisma.SelectSubset<T, InteractionOverrideCreateArgs<ExtArgs>>): Prisma.Prisma__InteractionOverrideClient<runtime.Types.Result.GetResult<Prisma.$InteractionOverridePayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many InteractionOverrides.
+   * @param {InteractionOverrideCreateManyArgs} args - Arguments to create many InteractionOverrides.
+   * @example
+   * // Create many InteractionOverrides
+   * const interactionOverride = await prisma.interactionOverride.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends InteractionOverrideCreateManyArgs>(args?: Prisma.SelectSubset<T, InteractionOverrideCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many InteractionOverrides and returns the data saved in the database.
+   * @param {InteractionOverrideCreateManyAndReturnArgs} args - Arguments to create many InteractionOverrides.
+   * @example
+   * // Create many InteractionOverrides
+   * const interactionOverride = await prisma.interactionOverride.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many InteractionOverrides and only return the `id`
+   * const interactionOverrideWithIdOnly = await prisma.interactionOverride.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends InteractionOverrideCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, InteractionOverrideCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$InteractionOverridePayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a InteractionOverride.
+   * @param {InteractionOverrideDeleteArgs} args - Arguments to delete one InteractionOverride.
+   * @example
+   * // Delete one InteractionOverride
+   * const InteractionOverride = await prisma.interactionOverride.delete({
+   *   where: {
+   *     // ... filter to delete one InteractionOverride
+   *   }
+   * })
+   * 
+   */
+  delete<T extends InteractionOverrideDeleteArgs>(args: Prisma.SelectSubset<T, InteractionOverrideDeleteArgs<ExtArgs>>): Prisma.Prisma__InteractionOverrideClient<runtime.Types.Result.GetResult<Prisma.$InteractionOverridePayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one InteractionOverride.
+   * @param {InteractionOverrideUpdateArgs} args - Arguments to update one InteractionOverride.
+   * @example
+   * // Update one InteractionOverride
+   * const interactionOverride = await prisma.interactionOverride.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends InteractionOverrideUpdateArgs>(args: Prisma.SelectSubset<T, InteractionOverrideUpdateArgs<ExtArgs>>): Prisma.Prisma__InteractionOverrideClient<runtime.Types.Result.GetResult<Prisma.$InteractionOverridePayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more InteractionOverrides.
+   * @param {InteractionOverrideDeleteManyArgs} args - Arguments to filter InteractionOverrides to delete.
+   * @example
+   * // Delete a few InteractionOverrides
+   * const { count } = await prisma.interactionOverride.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends InteractionOverrideDeleteManyArgs>(args?: Prisma.SelectSubset<T, InteractionOverrideDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more InteractionOverrides.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {InteractionOverrideUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many InteractionOverrides
+   * const interactionOverride = await prisma.interactionOverride.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends InteractionOverrideUpdateManyArgs>(args: Prisma.SelectSubset<T, InteractionOverrideUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more InteractionOverrides and returns the data updated in the database.
+   * @param {InteractionOverrideUpdateManyAndReturnArgs} args - Arguments to update many InteractionOverrides.
+   * @example
+   * // Update many InteractionOverrides
+   * const interactionOverride = await prisma.interactionOverride.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more InteractionOverrides and only return the `id`
+   * const interactionOverrideWithIdOnly = await prisma.interactionOverride.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends InteractionOverrideUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, InteractionOverrideUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$InteractionOverridePayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one InteractionOverride.
+   * @param {InteractionOverrideUpsertArgs} args - Arguments to update or create a InteractionOverride.
+   * @example
+   * // Update or create a InteractionOverride
+   * const interactionOverride = await prisma.interactionOverride.upsert({
+   *   create: {
+   *     // ... data to create a InteractionOverride
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the InteractionOverride we want to update
+   *   }
+   * })
+   */
+  upsert<T extends InteractionOverrideUpsertArgs>(args: Prisma.SelectSubset<T, InteractionOverrideUpsertArgs<ExtArgs>>): Prisma.Prisma__InteractionOverrideClient<runtime.Types.Result.GetResult<Prisma.$InteractionOverridePayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of InteractionOverrides.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {InteractionOverrideCountArgs} args - Arguments to filter InteractionOverrides to count.
+   * @example
+   * // Count the number of InteractionOverrides
+   * const count = await prisma.interactionOverride.count({
+   *   where: {
+   *     // ... the filter for the InteractionOverrides we want to count
+   *   }
+   * })
+  **/
+  count<T extends InteractionOverrideCountArgs>(
+    args?: Prisma.Subset<T, InteractionOverrideCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], InteractionOverrideCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a InteractionOverride.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {InteractionOverrideAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends InteractionOverrideAggregateArgs>(args: Prisma.Subset<T, InteractionOverrideAggregateArgs>): Prisma.PrismaPromise<GetInteractionOverrideAggregateType<T>>
+
+  /**
+   * Group by InteractionOverride.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {InteractionOverrideGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends InteractionOverrideGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: InteractionOverrideGroupByArgs['orderBy'] }
+      : { orderBy?: InteractionOverrideGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, InteractionOverrideGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetInteractionOverrideGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the InteractionOverride model
+ */
+readonly fields: InteractionOverrideFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for InteractionOverride.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__InteractionOverrideClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  interaction<T extends Prisma.DrugInteractionDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.DrugInteractionDefaultArgs<ExtArgs>>): Prisma.Prisma__DrugInteractionClient<runtime.Types.Result.GetResult<Prisma.$DrugInteractionPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  user<T extends Prisma.UserDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.UserDefaultArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  order<T extends Prisma.InteractionOverride$orderArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.InteractionOverride$orderArgs<ExtArgs>>): Prisma.Prisma__OrderClient<runtime.Types.Result.GetResult<Prisma.$OrderPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the InteractionOverride model
+ */
+export interface InteractionOverrideFieldRefs {
+  readonly id: Prisma.FieldRef<"InteractionOverride", 'String'>
+  readonly interactionId: Prisma.FieldRef<"InteractionOverride", 'String'>
+  readonly userId: Prisma.FieldRef<"InteractionOverride", 'String'>
+  readonly approvedBy: Prisma.FieldRef<"InteractionOverride", 'String'>
+  readonly reason: Prisma.FieldRef<"InteractionOverride", 'String'>
+  readonly orderId: Prisma.FieldRef<"InteractionOverride", 'String'>
+  readonly createdAt: Prisma.FieldRef<"InteractionOverride", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * InteractionOverride findUnique
+ */
+export type InteractionOverrideFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InteractionOverride
+   */
+  select?: Prisma.InteractionOverrideSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InteractionOverride
+   */
+  omit?: Prisma.InteractionOverrideOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InteractionOverrideInclude<ExtArgs> | null
+  /**
+   * Filter, which InteractionOverride to fetch.
+   */
+  where: Prisma.InteractionOverrideWhereUniqueInput
+}
+
+/**
+ * InteractionOverride findUniqueOrThrow
+ */
+export type InteractionOverrideFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InteractionOverride
+   */
+  select?: Prisma.InteractionOverrideSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InteractionOverride
+   */
+  omit?: Prisma.InteractionOverrideOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InteractionOverrideInclude<ExtArgs> | null
+  /**
+   * Filter, which InteractionOverride to fetch.
+   */
+  where: Prisma.InteractionOverrideWhereUniqueInput
+}
+
+/**
+ * InteractionOverride findFirst
+ */
+export type InteractionOverrideFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InteractionOverride
+   */
+  select?: Prisma.InteractionOverrideSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InteractionOverride
+   */
+  omit?: Prisma.InteractionOverrideOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InteractionOverrideInclude<ExtArgs> | null
+  /**
+   * Filter, which InteractionOverride to fetch.
+   */
+  where?: Prisma.InteractionOverrideWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of InteractionOverrides to fetch.
+   */
+  orderBy?: Prisma.InteractionOverrideOrderByWithRelationInput | Prisma.InteractionOverrideOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for InteractionOverrides.
+   */
+  cursor?: Prisma.InteractionOverrideWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` InteractionOverrides from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` InteractionOverrides.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of InteractionOverrides.
+   */
+  distinct?: Prisma.InteractionOverrideScalarFieldEnum | Prisma.InteractionOverrideScalarFieldEnum[]
+}
+
+/**
+ * InteractionOverride findFirstOrThrow
+ */
+export type InteractionOverrideFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InteractionOverride
+   */
+  select?: Prisma.InteractionOverrideSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InteractionOverride
+   */
+  omit?: Prisma.InteractionOverrideOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InteractionOverrideInclude<ExtArgs> | null
+  /**
+   * Filter, which InteractionOverride to fetch.
+   */
+  where?: Prisma.InteractionOverrideWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of InteractionOverrides to fetch.
+   */
+  orderBy?: Prisma.InteractionOverrideOrderByWithRelationInput | Prisma.InteractionOverrideOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for InteractionOverrides.
+   */
+  cursor?: Prisma.InteractionOverrideWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` InteractionOverrides from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` InteractionOverrides.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of InteractionOverrides.
+   */
+  distinct?: Prisma.InteractionOverrideScalarFieldEnum | Prisma.InteractionOverrideScalarFieldEnum[]
+}
+
+/**
+ * InteractionOverride findMany
+ */
+export type InteractionOverrideFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InteractionOverride
+   */
+  select?: Prisma.InteractionOverrideSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InteractionOverride
+   */
+  omit?: Prisma.InteractionOverrideOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InteractionOverrideInclude<ExtArgs> | null
+  /**
+   * Filter, which InteractionOverrides to fetch.
+   */
+  where?: Prisma.InteractionOverrideWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of InteractionOverrides to fetch.
+   */
+  orderBy?: Prisma.InteractionOverrideOrderByWithRelationInput | Prisma.InteractionOverrideOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing InteractionOverrides.
+   */
+  cursor?: Prisma.InteractionOverrideWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` InteractionOverrides from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` InteractionOverrides.
+   */
+  skip?: number
+  distinct?: Prisma.InteractionOverrideScalarFieldEnum | Prisma.InteractionOverrideScalarFieldEnum[]
+}
+
+/**
+ * InteractionOverride create
+ */
+export type InteractionOverrideCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InteractionOverride
+   */
+  select?: Prisma.InteractionOverrideSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InteractionOverride
+   */
+  omit?: Prisma.InteractionOverrideOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InteractionOverrideInclude<ExtArgs> | null
+  /**
+   * The data needed to create a InteractionOverride.
+   */
+  data: Prisma.XOR<Prisma.InteractionOverrideCreateInput, Prisma.InteractionOverrideUncheckedCreateInput>
+}
+
+/**
+ * InteractionOverride createMany
+ */
+export type InteractionOverrideCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many InteractionOverrides.
+   */
+  data: Prisma.InteractionOverrideCreateManyInput | Prisma.InteractionOverrideCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * InteractionOverride createManyAndReturn
+ */
+export type InteractionOverrideCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InteractionOverride
+   */
+  select?: Prisma.InteractionOverrideSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the InteractionOverride
+   */
+  omit?: Prisma.InteractionOverrideOmit<ExtArgs> | null
+  /**
+   * The data used to create many InteractionOverrides.
+   */
+  data: Prisma.InteractionOverrideCreateManyInput | Prisma.InteractionOverrideCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InteractionOverrideIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * InteractionOverride update
+ */
+export type InteractionOverrideUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InteractionOverride
+   */
+  select?: Prisma.InteractionOverrideSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InteractionOverride
+   */
+  omit?: Prisma.InteractionOverrideOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InteractionOverrideInclude<ExtArgs> | null
+  /**
+   * The data needed to update a InteractionOverride.
+   */
+  data: Prisma.XOR<Prisma.InteractionOverrideUpdateInput, Prisma.InteractionOverrideUncheckedUpdateInput>
+  /**
+   * Choose, which InteractionOverride to update.
+   */
+  where: Prisma.InteractionOverrideWhereUniqueInput
+}
+
+/**
+ * InteractionOverride updateMany
+ */
+export type InteractionOverrideUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update InteractionOverrides.
+   */
+  data: Prisma.XOR<Prisma.InteractionOverrideUpdateManyMutationInput, Prisma.InteractionOverrideUncheckedUpdateManyInput>
+  /**
+   * Filter which InteractionOverrides to update
+   */
+  where?: Prisma.InteractionOverrideWhereInput
+  /**
+   * Limit how many InteractionOverrides to update.
+   */
+  limit?: number
+}
+
+/**
+ * InteractionOverride updateManyAndReturn
+ */
+export type InteractionOverrideUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InteractionOverride
+   */
+  select?: Prisma.InteractionOverrideSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the InteractionOverride
+   */
+  omit?: Prisma.InteractionOverrideOmit<ExtArgs> | null
+  /**
+   * The data used to update InteractionOverrides.
+   */
+  data: Prisma.XOR<Prisma.InteractionOverrideUpdateManyMutationInput, Prisma.InteractionOverrideUncheckedUpdateManyInput>
+  /**
+   * Filter which InteractionOverrides to update
+   */
+  where?: Prisma.InteractionOverrideWhereInput
+  /**
+   * Limit how many InteractionOverrides to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InteractionOverrideIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * InteractionOverride upsert
+ */
+export type InteractionOverrideUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InteractionOverride
+   */
+  select?: Prisma.InteractionOverrideSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InteractionOverride
+   */
+  omit?: Prisma.InteractionOverrideOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InteractionOverrideInclude<ExtArgs> | null
+  /**
+   * The filter to search for the InteractionOverride to update in case it exists.
+   */
+  where: Prisma.InteractionOverrideWhereUniqueInput
+  /**
+   * In case the InteractionOverride found by the `where` argument doesn't exist, create a new InteractionOverride with this data.
+   */
+  create: Prisma.XOR<Prisma.InteractionOverrideCreateInput, Prisma.InteractionOverrideUncheckedCreateInput>
+  /**
+   * In case the InteractionOverride was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.InteractionOverrideUpdateInput, Prisma.InteractionOverrideUncheckedUpdateInput>
+}
+
+/**
+ * InteractionOverride delete
+ */
+export type InteractionOverrideDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InteractionOverride
+   */
+  select?: Prisma.InteractionOverrideSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InteractionOverride
+   */
+  omit?: Prisma.InteractionOverrideOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InteractionOverrideInclude<ExtArgs> | null
+  /**
+   * Filter which InteractionOverride to delete.
+   */
+  where: Prisma.InteractionOverrideWhereUniqueInput
+}
+
+/**
+ * InteractionOverride deleteMany
+ */
+export type InteractionOverrideDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which InteractionOverrides to delete
+   */
+  where?: Prisma.InteractionOverrideWhereInput
+  /**
+   * Limit how many InteractionOverrides to delete.
+   */
+  limit?: number
+}
+
+/**
+ * InteractionOverride.order
+ */
+export type InteractionOverride$orderArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Order
+   */
+  select?: Prisma.OrderSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Order
+   */
+  omit?: Prisma.OrderOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OrderInclude<ExtArgs> | null
+  where?: Prisma.OrderWhereInput
+}
+
+/**
+ * InteractionOverride without action
+ */
+export type InteractionOverrideDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InteractionOverride
+   */
+  select?: Prisma.InteractionOverrideSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InteractionOverride
+   */
+  omit?: Prisma.InteractionOverrideOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InteractionOverrideInclude<ExtArgs> | null
+}
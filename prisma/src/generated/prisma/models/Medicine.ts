@@ -27,13 +27,27 @@ export type AggregateMedicine = {
 }
 
 export type MedicineAvgAggregateOutputType = {
-  price: number | null
+  price: runtime.Decimal | null
   stock: number | null
+  stockDrift: number | null
+  weightGrams: number | null
+  strength: number | null
+  packSize: number | null
+  maxPerOrder: number | null
+  maxPerPeriod: number | null
+  limitPeriodDays: number | null
 }
 
 export type MedicineSumAggregateOutputType = {
-  price: number | null
+  price: runtime.Decimal | null
   stock: number | null
+  stockDrift: number | null
+  weightGrams: number | null
+  strength: number | null
+  packSize: number | null
+  maxPerOrder: number | null
+  maxPerPeriod: number | null
+  limitPeriodDays: number | null
 }
 
 export type MedicineMinAggregateOutputType = {
@@ -41,14 +55,29 @@ export type MedicineMinAggregateOutputType = {
   name: string | null
   genericName: string | null
   description: string | null
-  price: number | null
+  price: runtime.Decimal | null
   stock: number | null
+  stockDrift: number | null
+  stockReconciledAt: Date | null
   manufacturer: string | null
   imageUrl: string | null
+  weightGrams: number | null
   isFeatured: boolean | null
   isActive: boolean | null
+  licenseSuspended: boolean | null
   createdAt: Date | null
   updatedAt: Date | null
+  dosageForm: $Enums.DosageForm | null
+  strength: number | null
+  strengthUnit: string | null
+  packSize: number | null
+  route: $Enums.AdministrationRoute | null
+  storageConditions: string | null
+  registrationNumber: string | null
+  sku: string | null
+  maxPerOrder: number | null
+  maxPerPeriod: number | null
+  limitPeriodDays: number | null
   categoryId: string | null
   sellerId: string | null
 }
@@ -58,14 +87,29 @@ export type MedicineMaxAggregateOutputType = {
   name: string | null
   genericName: string | null
   description: string | null
-  price: number | null
+  price: runtime.Decimal | null
   stock: number | null
+  stockDrift: number | null
+  stockReconciledAt: Date | null
   manufacturer: string | null
   imageUrl: string | null
+  weightGrams: number | null
   isFeatured: boolean | null
   isActive: boolean | null
+  licenseSuspended: boolean | null
   createdAt: Date | null
   updatedAt: Date | null
+  dosageForm: $Enums.DosageForm | null
+  strength: number | null
+  strengthUnit: string | null
+  packSize: number | null
+  route: $Enums.AdministrationRoute | null
+  storageConditions: string | null
+  registrationNumber: string | null
+  sku: string | null
+  maxPerOrder: number | null
+  maxPerPeriod: number | null
+  limitPeriodDays: number | null
   categoryId: string | null
   sellerId: string | null
 }
@@ -77,12 +121,27 @@ export type MedicineCountAggregateOutputType = {
   description: number
   price: number
   stock: number
+  stockDrift: number
+  stockReconciledAt: number
   manufacturer: number
   imageUrl: number
+  weightGrams: number
   isFeatured: number
   isActive: number
+  licenseSuspended: number
   createdAt: number
   updatedAt: number
+  dosageForm: number
+  strength: number
+  strengthUnit: number
+  packSize: number
+  route: number
+  storageConditions: number
+  registrationNumber: number
+  sku: number
+  maxPerOrder: number
+  maxPerPeriod: number
+  limitPeriodDays: number
   categoryId: number
   sellerId: number
   _all: number
@@ -92,11 +151,25 @@ export type MedicineCountAggregateOutputType = {
 export type MedicineAvgAggregateInputType = {
   price?: true
   stock?: true
+  stockDrift?: true
+  weightGrams?: true
+  strength?: true
+  packSize?: true
+  maxPerOrder?: true
+  maxPerPeriod?: true
+  limitPeriodDays?: true
 }
 
 export type MedicineSumAggregateInputType = {
   price?: true
   stock?: true
+  stockDrift?: true
+  weightGrams?: true
+  strength?: true
+  packSize?: true
+  maxPerOrder?: true
+  maxPerPeriod?: true
+  limitPeriodDays?: true
 }
 
 export type MedicineMinAggregateInputType = {
@@ -106,12 +179,27 @@ export type MedicineMinAggregateInputType = {
   description?: true
   price?: true
   stock?: true
+  stockDrift?: true
+  stockReconciledAt?: true
   manufacturer?: true
   imageUrl?: true
+  weightGrams?: true
   isFeatured?: true
   isActive?: true
+  licenseSuspended?: true
   createdAt?: true
   updatedAt?: true
+  dosageForm?: true
+  strength?: true
+  strengthUnit?: true
+  packSize?: true
+  route?: true
+  storageConditions?: true
+  registrationNumber?: true
+  sku?: true
+  maxPerOrder?: true
+  maxPerPeriod?: true
+  limitPeriodDays?: true
   categoryId?: true
   sellerId?: true
 }
@@ -123,12 +211,27 @@ export type MedicineMaxAggregateInputType = {
   description?: true
   price?: true
   stock?: true
+  stockDrift?: true
+  stockReconciledAt?: true
   manufacturer?: true
   imageUrl?: true
+  weightGrams?: true
   isFeatured?: true
   isActive?: true
+  licenseSuspended?: true
   createdAt?: true
   updatedAt?: true
+  dosageForm?: true
+  strength?: true
+  strengthUnit?: true
+  packSize?: true
+  route?: true
+  storageConditions?: true
+  registrationNumber?: true
+  sku?: true
+  maxPerOrder?: true
+  maxPerPeriod?: true
+  limitPeriodDays?: true
   categoryId?: true
   sellerId?: true
 }
@@ -140,12 +243,27 @@ export type MedicineCountAggregateInputType = {
   description?: true
   price?: true
   stock?: true
+  stockDrift?: true
+  stockReconciledAt?: true
   manufacturer?: true
   imageUrl?: true
+  weightGrams?: true
   isFeatured?: true
   isActive?: true
+  licenseSuspended?: true
   createdAt?: true
   updatedAt?: true
+  dosageForm?: true
+  strength?: true
+  strengthUnit?: true
+  packSize?: true
+  route?: true
+  storageConditions?: true
+  registrationNumber?: true
+  sku?: true
+  maxPerOrder?: true
+  maxPerPeriod?: true
+  limitPeriodDays?: true
   categoryId?: true
   sellerId?: true
   _all?: true
@@ -242,14 +360,29 @@ export type MedicineGroupByOutputType = {
   name: string
   genericName: string | null
   description: string | null
-  price: number
+  price: runtime.Decimal
   stock: number
+  stockDrift: number
+  stockReconciledAt: Date | null
   manufacturer: string | null
   imageUrl: string | null
+  weightGrams: number | null
   isFeatured: boolean
   isActive: boolean
+  licenseSuspended: boolean
   createdAt: Date
   updatedAt: Date
+  dosageForm: $Enums.DosageForm | null
+  strength: number | null
+  strengthUnit: string | null
+  packSize: number | null
+  route: $Enums.AdministrationRoute | null
+  storageConditions: string | null
+  registrationNumber: string | null
+  sku: string | null
+  maxPerOrder: number | null
+  maxPerPeriod: number | null
+  limitPeriodDays: number | null
   categoryId: string | null
   sellerId: string | null
   _count: MedicineCountAggregateOutputType | null
@@ -282,14 +415,29 @@ export type MedicineWhereInput = {
   name?: Prisma.StringFilter<"Medicine"> | string
   genericName?: Prisma.StringNullableFilter<"Medicine"> | string | null
   description?: Prisma.StringNullableFilter<"Medicine"> | string | null
-  price?: Prisma.FloatFilter<"Medicine"> | number
+  price?: Prisma.DecimalFilter<"Medicine"> | runtime.Decimal | runtime.DecimalJsLike | number | string
   stock?: Prisma.IntFilter<"Medicine"> | number
+  stockDrift?: Prisma.IntFilter<"Medicine"> | number
+  stockReconciledAt?: Prisma.DateTimeNullableFilter<"Medicine"> | Date | string | null
   manufacturer?: Prisma.StringNullableFilter<"Medicine"> | string | null
   imageUrl?: Prisma.StringNullableFilter<"Medicine"> | string | null
+  weightGrams?: Prisma.IntNullableFilter<"Medicine"> | number | null
   isFeatured?: Prisma.BoolFilter<"Medicine"> | boolean
   isActive?: Prisma.BoolFilter<"Medicine"> | boolean
+  licenseSuspended?: Prisma.BoolFilter<"Medicine"> | boolean
   createdAt?: Prisma.DateTimeFilter<"Medicine"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"Medicine"> | Date | string
+  dosageForm?: Prisma.EnumDosageFormNullableFilter<"Medicine"> | $Enums.DosageForm | null
+  strength?: Prisma.FloatNullableFilter<"Medicine"> | number | null
+  strengthUnit?: Prisma.StringNullableFilter<"Medicine"> | string | null
+  packSize?: Prisma.IntNullableFilter<"Medicine"> | number | null
+  route?: Prisma.EnumAdministrationRouteNullableFilter<"Medicine"> | $Enums.AdministrationRoute | null
+  storageConditions?: Prisma.StringNullableFilter<"Medicine"> | string | null
+  registrationNumber?: Prisma.StringNullableFilter<"Medicine"> | string | null
+  sku?: Prisma.StringNullableFilter<"Medicine"> | string | null
+  maxPerOrder?: Prisma.IntNullableFilter<"Medicine"> | number | null
+  maxPerPeriod?: Prisma.IntNullableFilter<"Medicine"> | number | null
+  limitPeriodDays?: Prisma.IntNullableFilter<"Medicine"> | number | null
   categoryId?: Prisma.StringNullableFilter<"Medicine"> | string | null
   sellerId?: Prisma.StringNullableFilter<"Medicine"> | string | null
   category?: Prisma.XOR<Prisma.CategoryNullableScalarRelationFilter, Prisma.CategoryWhereInput> | null
@@ -297,6 +445,10 @@ export type MedicineWhereInput = {
   cartItems?: Prisma.CartItemListRelationFilter
   orderItems?: Prisma.OrderItemListRelationFilter
   reviews?: Prisma.ReviewListRelationFilter
+  stockMovements?: Prisma.StockMovementListRelationFilter
+  batches?: Prisma.MedicineBatchListRelationFilter
+  recalls?: Prisma.RecallListRelationFilter
+  ingredients?: Prisma.MedicineIngredientListRelationFilter
 }
 
 export type MedicineOrderByWithRelationInput = {
@@ -306,12 +458,27 @@ export type MedicineOrderByWithRelationInput = {
   description?: Prisma.SortOrderInput | Prisma.SortOrder
   price?: Prisma.SortOrder
   stock?: Prisma.SortOrder
+  stockDrift?: Prisma.SortOrder
+  stockReconciledAt?: Prisma.SortOrderInput | Prisma.SortOrder
   manufacturer?: Prisma.SortOrderInput | Prisma.SortOrder
   imageUrl?: Prisma.SortOrderInput | Prisma.SortOrder
+  weightGrams?: Prisma.SortOrderInput | Prisma.SortOrder
   isFeatured?: Prisma.SortOrder
   isActive?: Prisma.SortOrder
+  licenseSuspended?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
+  dosageForm?: Prisma.SortOrderInput | Prisma.SortOrder
+  strength?: Prisma.SortOrderInput | Prisma.SortOrder
+  strengthUnit?: Prisma.SortOrderInput | Prisma.SortOrder
+  packSize?: Prisma.SortOrderInput | Prisma.SortOrder
+  route?: Prisma.SortOrderInput | Prisma.SortOrder
+  storageConditions?: Prisma.SortOrderInput | Prisma.SortOrder
+  registrationNumber?: Prisma.SortOrderInput | Prisma.SortOrder
+  sku?: Prisma.SortOrderInput | Prisma.SortOrder
+  maxPerOrder?: Prisma.SortOrderInput | Prisma.SortOrder
+  maxPerPeriod?: Prisma.SortOrderInput | Prisma.SortOrder
+  limitPeriodDays?: Prisma.SortOrderInput | Prisma.SortOrder
   categoryId?: Prisma.SortOrderInput | Prisma.SortOrder
   sellerId?: Prisma.SortOrderInput | Prisma.SortOrder
   category?: Prisma.CategoryOrderByWithRelationInput
@@ -319,24 +486,44 @@ export type MedicineOrderByWithRelationInput = {
   cartItems?: Prisma.CartItemOrderByRelationAggregateInput
   orderItems?: Prisma.OrderItemOrderByRelationAggregateInput
   reviews?: Prisma.ReviewOrderByRelationAggregateInput
+  stockMovements?: Prisma.StockMovementOrderByRelationAggregateInput
+  batches?: Prisma.MedicineBatchOrderByRelationAggregateInput
+  recalls?: Prisma.RecallOrderByRelationAggregateInput
+  ingredients?: Prisma.MedicineIngredientOrderByRelationAggregateInput
 }
 
 export type MedicineWhereUniqueInput = Prisma.AtLeast<{
   id?: string
+  sellerId_sku?: Prisma.MedicineSellerIdSkuCompoundUniqueInput
   AND?: Prisma.MedicineWhereInput | Prisma.MedicineWhereInput[]
   OR?: Prisma.MedicineWhereInput[]
   NOT?: Prisma.MedicineWhereInput | Prisma.MedicineWhereInput[]
   name?: Prisma.StringFilter<"Medicine"> | string
   genericName?: Prisma.StringNullableFilter<"Medicine"> | string | null
   description?: Prisma.StringNullableFilter<"Medicine"> | string | null
-  price?: Prisma.FloatFilter<"Medicine"> | number
+  price?: Prisma.DecimalFilter<"Medicine"> | runtime.Decimal | runtime.DecimalJsLike | number | string
   stock?: Prisma.IntFilter<"Medicine"> | number
+  stockDrift?: Prisma.IntFilter<"Medicine"> | number
+  stockReconciledAt?: Prisma.DateTimeNullableFilter<"Medicine"> | Date | string | null
   manufacturer?: Prisma.StringNullableFilter<"Medicine"> | string | null
   imageUrl?: Prisma.StringNullableFilter<"Medicine"> | string | null
+  weightGrams?: Prisma.IntNullableFilter<"Medicine"> | number | null
   isFeatured?: Prisma.BoolFilter<"Medicine"> | boolean
   isActive?: Prisma.BoolFilter<"Medicine"> | boolean
+  licenseSuspended?: Prisma.BoolFilter<"Medicine"> | boolean
   createdAt?: Prisma.DateTimeFilter<"Medicine"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"Medicine"> | Date | string
+  dosageForm?: Prisma.EnumDosageFormNullableFilter<"Medicine"> | $Enums.DosageForm | null
+  strength?: Prisma.FloatNullableFilter<"Medicine"> | number | null
+  strengthUnit?: Prisma.StringNullableFilter<"Medicine"> | string | null
+  packSize?: Prisma.IntNullableFilter<"Medicine"> | number | null
+  route?: Prisma.EnumAdministrationRouteNullableFilter<"Medicine"> | $Enums.AdministrationRoute | null
+  storageConditions?: Prisma.StringNullableFilter<"Medicine"> | string | null
+  registrationNumber?: Prisma.StringNullableFilter<"Medicine"> | string | null
+  sku?: Prisma.StringNullableFilter<"Medicine"> | string | null
+  maxPerOrder?: Prisma.IntNullableFilter<"Medicine"> | number | null
+  maxPerPeriod?: Prisma.IntNullableFilter<"Medicine"> | number | null
+  limitPeriodDays?: Prisma.IntNullableFilter<"Medicine"> | number | null
   categoryId?: Prisma.StringNullableFilter<"Medicine"> | string | null
   sellerId?: Prisma.StringNullableFilter<"Medicine"> | string | null
   category?: Prisma.XOR<Prisma.CategoryNullableScalarRelationFilter, Prisma.CategoryWhereInput> | null
@@ -344,7 +531,11 @@ export type MedicineWhereUniqueInput = Prisma.AtLeast<{
   cartItems?: Prisma.CartItemListRelationFilter
   orderItems?: Prisma.OrderItemListRelationFilter
   reviews?: Prisma.ReviewListRelationFilter
-}, "id">
+  stockMovements?: Prisma.StockMovementListRelationFilter
+  batches?: Prisma.MedicineBatchListRelationFilter
+  recalls?: Prisma.RecallListRelationFilter
+  ingredients?: Prisma.MedicineIngredientListRelationFilter
+}, "id" | "sellerId_sku">
 
 export type MedicineOrderByWithAggregationInput = {
   id?: Prisma.SortOrder
@@ -353,12 +544,27 @@ export type MedicineOrderByWithAggregationInput = {
   description?: Prisma.SortOrderInput | Prisma.SortOrder
   price?: Prisma.SortOrder
   stock?: Prisma.SortOrder
+  stockDrift?: Prisma.SortOrder
+  stockReconciledAt?: Prisma.SortOrderInput | Prisma.SortOrder
   manufacturer?: Prisma.SortOrderInput | Prisma.SortOrder
   imageUrl?: Prisma.SortOrderInput | Prisma.SortOrder
+  weightGrams?: Prisma.SortOrderInput | Prisma.SortOrder
   isFeatured?: Prisma.SortOrder
   isActive?: Prisma.SortOrder
+  licenseSuspended?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
+  dosageForm?: Prisma.SortOrderInput | Prisma.SortOrder
+  strength?: Prisma.SortOrderInput | Prisma.SortOrder
+  strengthUnit?: Prisma.SortOrderInput | Prisma.SortOrder
+  packSize?: Prisma.SortOrderInput | Prisma.SortOrder
+  route?: Prisma.SortOrderInput | Prisma.SortOrder
+  storageConditions?: Prisma.SortOrderInput | Prisma.SortOrder
+  registrationNumber?: Prisma.SortOrderInput | Prisma.SortOrder
+  sku?: Prisma.SortOrderInput | Prisma.SortOrder
+  maxPerOrder?: Prisma.SortOrderInput | Prisma.SortOrder
+  maxPerPeriod?: Prisma.SortOrderInput | Prisma.SortOrder
+  limitPeriodDays?: Prisma.SortOrderInput | Prisma.SortOrder
   categoryId?: Prisma.SortOrderInput | Prisma.SortOrder
   sellerId?: Prisma.SortOrderInput | Prisma.SortOrder
   _count?: Prisma.MedicineCountOrderByAggregateInput
@@ -376,14 +582,29 @@ export type MedicineScalarWhereWithAggregatesInput = {
   name?: Prisma.StringWithAggregatesFilter<"Medicine"> | string
   genericName?: Prisma.StringNullableWithAggregatesFilter<"Medicine"> | string | null
   description?: Prisma.StringNullableWithAggregatesFilter<"Medicine"> | string | null
-  price?: Prisma.FloatWithAggregatesFilter<"Medicine"> | number
+  price?: Prisma.DecimalWithAggregatesFilter<"Medicine"> | runtime.Decimal | runtime.DecimalJsLike | number | string
   stock?: Prisma.IntWithAggregatesFilter<"Medicine"> | number
+  stockDrift?: Prisma.IntWithAggregatesFilter<"Medicine"> | number
+  stockReconciledAt?: Prisma.DateTimeNullableWithAggregatesFilter<"Medicine"> | Date | string | null
   manufacturer?: Prisma.StringNullableWithAggregatesFilter<"Medicine"> | string | null
   imageUrl?: Prisma.StringNullableWithAggregatesFilter<"Medicine"> | string | null
+  weightGrams?: Prisma.IntNullableWithAggregatesFilter<"Medicine"> | number | null
   isFeatured?: Prisma.BoolWithAggregatesFilter<"Medicine"> | boolean
   isActive?: Prisma.BoolWithAggregatesFilter<"Medicine"> | boolean
+  licenseSuspended?: Prisma.BoolWithAggregatesFilter<"Medicine"> | boolean
   createdAt?: Prisma.DateTimeWithAggregatesFilter<"Medicine"> | Date | string
   updatedAt?: Prisma.DateTimeWithAggregatesFilter<"Medicine"> | Date | string
+  dosageForm?: Prisma.EnumDosageFormNullableWithAggregatesFilter<"Medicine"> | $Enums.DosageForm | null
+  strength?: Prisma.FloatNullableWithAggregatesFilter<"Medicine"> | number | null
+  strengthUnit?: Prisma.StringNullableWithAggregatesFilter<"Medicine"> | string | null
+  packSize?: Prisma.IntNullableWithAggregatesFilter<"Medicine"> | number | null
+  route?: Prisma.EnumAdministrationRouteNullableWithAggregatesFilter<"Medicine"> | $Enums.AdministrationRoute | null
+  storageConditions?: Prisma.StringNullableWithAggregatesFilter<"Medicine"> | string | null
+  registrationNumber?: Prisma.StringNullableWithAggregatesFilter<"Medicine"> | string | null
+  sku?: Prisma.StringNullableWithAggregatesFilter<"Medicine"> | string | null
+  maxPerOrder?: Prisma.IntNullableWithAggregatesFilter<"Medicine"> | number | null
+  maxPerPeriod?: Prisma.IntNullableWithAggregatesFilter<"Medicine"> | number | null
+  limitPeriodDays?: Prisma.IntNullableWithAggregatesFilter<"Medicine"> | number | null
   categoryId?: Prisma.StringNullableWithAggregatesFilter<"Medicine"> | string | null
   sellerId?: Prisma.StringNullableWithAggregatesFilter<"Medicine"> | string | null
 }
@@ -393,19 +614,38 @@ export type MedicineCreateInput = {
   name: string
   genericName?: string | null
   description?: string | null
-  price: number
+  price: runtime.Decimal | runtime.DecimalJsLike | number | string
   stock: number
+  stockDrift?: number
+  stockReconciledAt?: Date | string | null
   manufacturer?: string | null
   imageUrl?: string | null
+  weightGrams?: number | null
   isFeatured?: boolean
   isActive?: boolean
+  licenseSuspended?: boolean
   createdAt?: Date | string
   updatedAt?: Date | string
+  dosageForm?: $Enums.DosageForm | null
+  strength?: number | null
+  strengthUnit?: string | null
+  packSize?: number | null
+  route?: $Enums.AdministrationRoute | null
+  storageConditions?: string | null
+  registrationNumber?: string | null
+  sku?: string | null
+  maxPerOrder?: number | null
+  maxPerPeriod?: number | null
+  limitPeriodDays?: number | null
   category?: Prisma.CategoryCreateNestedOneWithoutMedicinesInput
   seller?: Prisma.UserCreateNestedOneWithoutSellerMedicinesInput
   cartItems?: Prisma.CartItemCreateNestedManyWithoutMedicineInput
   orderItems?: Prisma.OrderItemCreateNestedManyWithoutMedicineInput
   reviews?: Prisma.ReviewCreateNestedManyWithoutMedicineInput
+  stockMovements?: Prisma.StockMovementCreateNestedManyWithoutMedicineInput
+  batches?: Prisma.MedicineBatchCreateNestedManyWithoutMedicineInput
+  recalls?: Prisma.RecallCreateNestedManyWithoutMedicineInput
+  ingredients?: Prisma.MedicineIngredientCreateNestedManyWithoutMedicineInput
 }
 
 export type MedicineUncheckedCreateInput = {
@@ -413,19 +653,38 @@ export type MedicineUncheckedCreateInput = {
   name: string
   genericName?: string | null
   description?: string | null
-  price: number
+  price: runtime.Decimal | runtime.DecimalJsLike | number | string
   stock: number
+  stockDrift?: number
+  stockReconciledAt?: Date | string | null
   manufacturer?: string | null
   imageUrl?: string | null
+  weightGrams?: number | null
   isFeatured?: boolean
   isActive?: boolean
+  licenseSuspended?: boolean
   createdAt?: Date | string
   updatedAt?: Date | string
+  dosageForm?: $Enums.DosageForm | null
+  strength?: number | null
+  strengthUnit?: string | null
+  packSize?: number | null
+  route?: $Enums.AdministrationRoute | null
+  storageConditions?: string | null
+  registrationNumber?: string | null
+  sku?: string | null
+  maxPerOrder?: number | null
+  maxPerPeriod?: number | null
+  limitPeriodDays?: number | null
   categoryId?: string | null
   sellerId?: string | null
   cartItems?: Prisma.CartItemUncheckedCreateNestedManyWithoutMedicineInput
   orderItems?: Prisma.OrderItemUncheckedCreateNestedManyWithoutMedicineInput
   reviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutMedicineInput
+  stockMovements?: Prisma.StockMovementUncheckedCreateNestedManyWithoutMedicineInput
+  batches?: Prisma.MedicineBatchUncheckedCreateNestedManyWithoutMedicineInput
+  recalls?: Prisma.RecallUncheckedCreateNestedManyWithoutMedicineInput
+  ingredients?: Prisma.MedicineIngredientUncheckedCreateNestedManyWithoutMedicineInput
 }
 
 export type MedicineUpdateInput = {
@@ -433,19 +692,38 @@ export type MedicineUpdateInput = {
   name?: Prisma.StringFieldUpdateOperationsInput | string
   genericName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
-  price?: Prisma.FloatFieldUpdateOperationsInput | number
+  price?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
   stock?: Prisma.IntFieldUpdateOperationsInput | number
+  stockDrift?: Prisma.IntFieldUpdateOperationsInput | number
+  stockReconciledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   manufacturer?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   imageUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  weightGrams?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   isFeatured?: Prisma.BoolFieldUpdateOperationsInput | boolean
   isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  licenseSuspended?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  dosageForm?: Prisma.NullableEnumDosageFormFieldUpdateOperationsInput | $Enums.DosageForm | null
+  strength?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  strengthUnit?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  packSize?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  route?: Prisma.NullableEnumAdministrationRouteFieldUpdateOperationsInput | $Enums.AdministrationRoute | null
+  storageConditions?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  registrationNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  sku?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  maxPerOrder?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxPerPeriod?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  limitPeriodDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   category?: Prisma.CategoryUpdateOneWithoutMedicinesNestedInput
   seller?: Prisma.UserUpdateOneWithoutSellerMedicinesNestedInput
   cartItems?: Prisma.CartItemUpdateManyWithoutMedicineNestedInput
   orderItems?: Prisma.OrderItemUpdateManyWithoutMedicineNestedInput
   reviews?: Prisma.ReviewUpdateManyWithoutMedicineNestedInput
+  stockMovements?: Prisma.StockMovementUpdateManyWithoutMedicineNestedInput
+  batches?: Prisma.MedicineBatchUpdateManyWithoutMedicineNestedInput
+  recalls?: Prisma.RecallUpdateManyWithoutMedicineNestedInput
+  ingredients?: Prisma.MedicineIngredientUpdateManyWithoutMedicineNestedInput
 }
 
 export type MedicineUncheckedUpdateInput = {
@@ -453,19 +731,38 @@ export type MedicineUncheckedUpdateInput = {
   name?: Prisma.StringFieldUpdateOperationsInput | string
   genericName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
-  price?: Prisma.FloatFieldUpdateOperationsInput | number
+  price?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
   stock?: Prisma.IntFieldUpdateOperationsInput | number
+  stockDrift?: Prisma.IntFieldUpdateOperationsInput | number
+  stockReconciledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   manufacturer?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   imageUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  weightGrams?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   isFeatured?: Prisma.BoolFieldUpdateOperationsInput | boolean
   isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  licenseSuspended?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  dosageForm?: Prisma.NullableEnumDosageFormFieldUpdateOperationsInput | $Enums.DosageForm | null
+  strength?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  strengthUnit?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  packSize?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  route?: Prisma.NullableEnumAdministrationRouteFieldUpdateOperationsInput | $Enums.AdministrationRoute | null
+  storageConditions?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  registrationNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  sku?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  maxPerOrder?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxPerPeriod?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  limitPeriodDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   categoryId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   sellerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   cartItems?: Prisma.CartItemUncheckedUpdateManyWithoutMedicineNestedInput
   orderItems?: Prisma.OrderItemUncheckedUpdateManyWithoutMedicineNestedInput
   reviews?: Prisma.ReviewUncheckedUpdateManyWithoutMedicineNestedInput
+  stockMovements?: Prisma.StockMovementUncheckedUpdateManyWithoutMedicineNestedInput
+  batches?: Prisma.MedicineBatchUncheckedUpdateManyWithoutMedicineNestedInput
+  recalls?: Prisma.RecallUncheckedUpdateManyWithoutMedicineNestedInput
+  ingredients?: Prisma.MedicineIngredientUncheckedUpdateManyWithoutMedicineNestedInput
 }
 
 export type MedicineCreateManyInput = {
@@ -473,14 +770,29 @@ export type MedicineCreateManyInput = {
   name: string
   genericName?: string | null
   description?: string | null
-  price: number
+  price: runtime.Decimal | runtime.DecimalJsLike | number | string
   stock: number
+  stockDrift?: number
+  stockReconciledAt?: Date | string | null
   manufacturer?: string | null
   imageUrl?: string | null
+  weightGrams?: number | null
   isFeatured?: boolean
   isActive?: boolean
+  licenseSuspended?: boolean
   createdAt?: Date | string
   updatedAt?: Date | string
+  dosageForm?: $Enums.DosageForm | null
+  strength?: number | null
+  strengthUnit?: string | null
+  packSize?: number | null
+  route?: $Enums.AdministrationRoute | null
+  storageConditions?: string | null
+  registrationNumber?: string | null
+  sku?: string | null
+  maxPerOrder?: number | null
+  maxPerPeriod?: number | null
+  limitPeriodDays?: number | null
   categoryId?: string | null
   sellerId?: string | null
 }
@@ -490,14 +802,29 @@ export type MedicineUpdateManyMutationInput = {
   name?: Prisma.StringFieldUpdateOperationsInput | string
   genericName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
-  price?: Prisma.FloatFieldUpdateOperationsInput | number
+  price?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
   stock?: Prisma.IntFieldUpdateOperationsInput | number
+  stockDrift?: Prisma.IntFieldUpdateOperationsInput | number
+  stockReconciledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   manufacturer?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   imageUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  weightGrams?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   isFeatured?: Prisma.BoolFieldUpdateOperationsInput | boolean
   isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  licenseSuspended?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  dosageForm?: Prisma.NullableEnumDosageFormFieldUpdateOperationsInput | $Enums.DosageForm | null
+  strength?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  strengthUnit?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  packSize?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  route?: Prisma.NullableEnumAdministrationRouteFieldUpdateOperationsInput | $Enums.AdministrationRoute | null
+  storageConditions?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  registrationNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  sku?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  maxPerOrder?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxPerPeriod?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  limitPeriodDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
 }
 
 export type MedicineUncheckedUpdateManyInput = {
@@ -505,14 +832,29 @@ export type MedicineUncheckedUpdateManyInput = {
   name?: Prisma.StringFieldUpdateOperationsInput | string
   genericName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
-  price?: Prisma.FloatFieldUpdateOperationsInput | number
+  price?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
   stock?: Prisma.IntFieldUpdateOperationsInput | number
+  stockDrift?: Prisma.IntFieldUpdateOperationsInput | number
+  stockReconciledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   manufacturer?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   imageUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  weightGrams?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   isFeatured?: Prisma.BoolFieldUpdateOperationsInput | boolean
   isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  licenseSuspended?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  dosageForm?: Prisma.NullableEnumDosageFormFieldUpdateOperationsInput | $Enums.DosageForm | null
+  strength?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  strengthUnit?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  packSize?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  route?: Prisma.NullableEnumAdministrationRouteFieldUpdateOperationsInput | $Enums.AdministrationRoute | null
+  storageConditions?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  registrationNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  sku?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  maxPerOrder?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxPerPeriod?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  limitPeriodDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   categoryId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   sellerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
 }
@@ -532,6 +874,11 @@ export type MedicineOrderByRelationAggregateInput = {
   _count?: Prisma.SortOrder
 }
 
+export type MedicineSellerIdSkuCompoundUniqueInput = {
+  sellerId: string
+  sku: string
+}
+
 export type MedicineCountOrderByAggregateInput = {
   id?: Prisma.SortOrder
   name?: Prisma.SortOrder
@@ -539,12 +886,27 @@ export type MedicineCountOrderByAggregateInput = {
   description?: Prisma.SortOrder
   price?: Prisma.SortOrder
   stock?: Prisma.SortOrder
+  stockDrift?: Prisma.SortOrder
+  stockReconciledAt?: Prisma.SortOrder
   manufacturer?: Prisma.SortOrder
   imageUrl?: Prisma.SortOrder
+  weightGrams?: Prisma.SortOrder
   isFeatured?: Prisma.SortOrder
   isActive?: Prisma.SortOrder
+  licenseSuspended?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
+  dosageForm?: Prisma.SortOrder
+  strength?: Prisma.SortOrder
+  strengthUnit?: Prisma.SortOrder
+  packSize?: Prisma.SortOrder
+  route?: Prisma.SortOrder
+  storageConditions?: Prisma.SortOrder
+  registrationNumber?: Prisma.SortOrder
+  sku?: Prisma.SortOrder
+  maxPerOrder?: Prisma.SortOrder
+  maxPerPeriod?: Prisma.SortOrder
+  limitPeriodDays?: Prisma.SortOrder
   categoryId?: Prisma.SortOrder
   sellerId?: Prisma.SortOrder
 }
@@ -552,6 +914,13 @@ export type MedicineCountOrderByAggregateInput = {
 export type MedicineAvgOrderByAggregateInput = {
   price?: Prisma.SortOrder
   stock?: Prisma.SortOrder
+  stockDrift?: Prisma.SortOrder
+  weightGrams?: Prisma.SortOrder
+  strength?: Prisma.SortOrder
+  packSize?: Prisma.SortOrder
+  maxPerOrder?: Prisma.SortOrder
+  maxPerPeriod?: Prisma.SortOrder
+  limitPeriodDays?: Prisma.SortOrder
 }
 
 export type MedicineMaxOrderByAggregateInput = {
@@ -561,12 +930,27 @@ export type MedicineMaxOrderByAggregateInput = {
   description?: Prisma.SortOrder
   price?: Prisma.SortOrder
   stock?: Prisma.SortOrder
+  stockDrift?: Prisma.SortOrder
+  stockReconciledAt?: Prisma.SortOrder
   manufacturer?: Prisma.SortOrder
   imageUrl?: Prisma.SortOrder
+  weightGrams?: Prisma.SortOrder
   isFeatured?: Prisma.SortOrder
   isActive?: Prisma.SortOrder
+  licenseSuspended?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
+  dosageForm?: Prisma.SortOrder
+  strength?: Prisma.SortOrder
+  strengthUnit?: Prisma.SortOrder
+  packSize?: Prisma.SortOrder
+  route?: Prisma.SortOrder
+  storageConditions?: Prisma.SortOrder
+  registrationNumber?: Prisma.SortOrder
+  sku?: Prisma.SortOrder
+  maxPerOrder?: Prisma.SortOrder
+  maxPerPeriod?: Prisma.SortOrder
+  limitPeriodDays?: Prisma.SortOrder
   categoryId?: Prisma.SortOrder
   sellerId?: Prisma.SortOrder
 }
@@ -578,12 +962,27 @@ export type MedicineMinOrderByAggregateInput = {
   description?: Prisma.SortOrder
   price?: Prisma.SortOrder
   stock?: Prisma.SortOrder
+  stockDrift?: Prisma.SortOrder
+  stockReconciledAt?: Prisma.SortOrder
   manufacturer?: Prisma.SortOrder
   imageUrl?: Prisma.SortOrder
+  weightGrams?: Prisma.SortOrder
   isFeatured?: Prisma.SortOrder
   isActive?: Prisma.SortOrder
+  licenseSuspended?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
+  dosageForm?: Prisma.SortOrder
+  strength?: Prisma.SortOrder
+  strengthUnit?: Prisma.SortOrder
+  packSize?: Prisma.SortOrder
+  route?: Prisma.SortOrder
+  storageConditions?: Prisma.SortOrder
+  registrationNumber?: Prisma.SortOrder
+  sku?: Prisma.SortOrder
+  maxPerOrder?: Prisma.SortOrder
+  maxPerPeriod?: Prisma.SortOrder
+  limitPeriodDays?: Prisma.SortOrder
   categoryId?: Prisma.SortOrder
   sellerId?: Prisma.SortOrder
 }
@@ -591,6 +990,27 @@ export type MedicineMinOrderByAggregateInput = {
 export type MedicineSumOrderByAggregateInput = {
   price?: Prisma.SortOrder
   stock?: Prisma.SortOrder
+  stockDrift?: Prisma.SortOrder
+  weightGrams?: Prisma.SortOrder
+  strength?: Prisma.SortOrder
+  packSize?: Prisma.SortOrder
+  maxPerOrder?: Prisma.SortOrder
+  maxPerPeriod?: Prisma.SortOrder
+  limitPeriodDays?: Prisma.SortOrder
+}
+
+export type MedicineCreateNestedOneWithoutBatchesInput = {
+  create?: Prisma.XOR<Prisma.MedicineCreateWithoutBatchesInput, Prisma.MedicineUncheckedCreateWithoutBatchesInput>
+  connectOrCreate?: Prisma.MedicineCreateOrConnectWithoutBatchesInput
+  connect?: Prisma.MedicineWhereUniqueInput
+}
+
+export type MedicineUpdateOneRequiredWithoutBatchesNestedInput = {
+  create?: Prisma.XOR<Prisma.MedicineCreateWithoutBatchesInput, Prisma.MedicineUncheckedCreateWithoutBatchesInput>
+  connectOrCreate?: Prisma.MedicineCreateOrConnectWithoutBatchesInput
+  upsert?: Prisma.MedicineUpsertWithoutBatchesInput
+  connect?: Prisma.MedicineWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.MedicineUpdateToOneWithWhereWithoutBatchesInput, Prisma.MedicineUpdateWithoutBatchesInput>, Prisma.MedicineUncheckedUpdateWithoutBatchesInput>
 }
 
 export type MedicineCreateNestedOneWithoutCartItemsInput = {
@@ -649,8 +1069,26 @@ export type MedicineUncheckedUpdateManyWithoutCategoryNestedInput = {
   deleteMany?: Prisma.MedicineScalarWhereInput | Prisma.MedicineScalarWhereInput[]
 }
 
-export type BoolFieldUpdateOperationsInput = {
-  set?: boolean
+export type NullableEnumDosageFormFieldUpdateOperationsInput = {
+  set?: $Enums.DosageForm | null
+}
+
+export type NullableEnumAdministrationRouteFieldUpdateOperationsInput = {
+  set?: $Enums.AdministrationRoute | null
+}
+
+export type MedicineCreateNestedOneWithoutIngredientsInput = {
+  create?: Prisma.XOR<Prisma.MedicineCreateWithoutIngredientsInput, Prisma.MedicineUncheckedCreateWithoutIngredientsInput>
+  connectOrCreate?: Prisma.MedicineCreateOrConnectWithoutIngredientsInput
+  connect?: Prisma.MedicineWhereUniqueInput
+}
+
+export type MedicineUpdateOneRequiredWithoutIngredientsNestedInput = {
+  create?: Prisma.XOR<Prisma.MedicineCreateWithoutIngredientsInput, Prisma.MedicineUncheckedCreateWithoutIngredientsInput>
+  connectOrCreate?: Prisma.MedicineCreateOrConnectWithoutIngredientsInput
+  upsert?: Prisma.MedicineUpsertWithoutIngredientsInput
+  connect?: Prisma.MedicineWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.MedicineUpdateToOneWithWhereWithoutIngredientsInput, Prisma.MedicineUpdateWithoutIngredientsInput>, Prisma.MedicineUncheckedUpdateWithoutIngredientsInput>
 }
 
 export type MedicineCreateNestedOneWithoutOrderItemsInput = {
@@ -667,6 +1105,20 @@ export type MedicineUpdateOneRequiredWithoutOrderItemsNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.MedicineUpdateToOneWithWhereWithoutOrderItemsInput, Prisma.MedicineUpdateWithoutOrderItemsInput>, Prisma.MedicineUncheckedUpdateWithoutOrderItemsInput>
 }
 
+export type MedicineCreateNestedOneWithoutRecallsInput = {
+  create?: Prisma.XOR<Prisma.MedicineCreateWithoutRecallsInput, Prisma.MedicineUncheckedCreateWithoutRecallsInput>
+  connectOrCreate?: Prisma.MedicineCreateOrConnectWithoutRecallsInput
+  connect?: Prisma.MedicineWhereUniqueInput
+}
+
+export type MedicineUpdateOneRequiredWithoutRecallsNestedInput = {
+  create?: Prisma.XOR<Prisma.MedicineCreateWithoutRecallsInput, Prisma.MedicineUncheckedCreateWithoutRecallsInput>
+  connectOrCreate?: Prisma.MedicineCreateOrConnectWithoutRecallsInput
+  upsert?: Prisma.MedicineUpsertWithoutRecallsInput
+  connect?: Prisma.MedicineWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.MedicineUpdateToOneWithWhereWithoutRecallsInput, Prisma.MedicineUpdateWithoutRecallsInput>, Prisma.MedicineUncheckedUpdateWithoutRecallsInput>
+}
+
 export type MedicineCreateNestedOneWithoutReviewsInput = {
   create?: Prisma.XOR<Prisma.MedicineCreateWithoutReviewsInput, Prisma.MedicineUncheckedCreateWithoutReviewsInput>
   connectOrCreate?: Prisma.MedicineCreateOrConnectWithoutReviewsInput
@@ -681,6 +1133,20 @@ export type MedicineUpdateOneRequiredWithoutReviewsNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.MedicineUpdateToOneWithWhereWithoutReviewsInput, Prisma.MedicineUpdateWithoutReviewsInput>, Prisma.MedicineUncheckedUpdateWithoutReviewsInput>
 }
 
+export type MedicineCreateNestedOneWithoutStockMovementsInput = {
+  create?: Prisma.XOR<Prisma.MedicineCreateWithoutStockMovementsInput, Prisma.MedicineUncheckedCreateWithoutStockMovementsInput>
+  connectOrCreate?: Prisma.MedicineCreateOrConnectWithoutStockMovementsInput
+  connect?: Prisma.MedicineWhereUniqueInput
+}
+
+export type MedicineUpdateOneRequiredWithoutStockMovementsNestedInput = {
+  create?: Prisma.XOR<Prisma.MedicineCreateWithoutStockMovementsInput, Prisma.MedicineUncheckedCreateWithoutStockMovementsInput>
+  connectOrCreate?: Prisma.MedicineCreateOrConnectWithoutStockMovementsInput
+  upsert?: Prisma.MedicineUpsertWithoutStockMovementsInput
+  connect?: Prisma.MedicineWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.MedicineUpdateToOneWithWhereWithoutStockMovementsInput, Prisma.MedicineUpdateWithoutStockMovementsInput>, Prisma.MedicineUncheckedUpdateWithoutStockMovementsInput>
+}
+
 export type MedicineCreateNestedManyWithoutSellerInput = {
   create?: Prisma.XOR<Prisma.MedicineCreateWithoutSellerInput, Prisma.MedicineUncheckedCreateWithoutSellerInput> | Prisma.MedicineCreateWithoutSellerInput[] | Prisma.MedicineUncheckedCreateWithoutSellerInput[]
   connectOrCreate?: Prisma.MedicineCreateOrConnectWithoutSellerInput | Prisma.MedicineCreateOrConnectWithoutSellerInput[]
@@ -723,23 +1189,210 @@ export type MedicineUncheckedUpdateManyWithoutSellerNestedInput = {
   deleteMany?: Prisma.MedicineScalarWhereInput | Prisma.MedicineScalarWhereInput[]
 }
 
+export type MedicineCreateWithoutBatchesInput = {
+  id?: string
+  name: string
+  genericName?: string | null
+  description?: string | null
+  price: runtime.Decimal | runtime.DecimalJsLike | number | string
+  stock: number
+  stockDrift?: number
+  stockReconciledAt?: Date | string | null
+  manufacturer?: string | null
+  imageUrl?: string | null
+  weightGrams?: number | null
+  isFeatured?: boolean
+  isActive?: boolean
+  licenseSuspended?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  dosageForm?: $Enums.DosageForm | null
+  strength?: number | null
+  strengthUnit?: string | null
+  packSize?: number | null
+  route?: $Enums.AdministrationRoute | null
+  storageConditions?: string | null
+  registrationNumber?: string | null
+  sku?: string | null
+  maxPerOrder?: number | null
+  maxPerPeriod?: number | null
+  limitPeriodDays?: number | null
+  category?: Prisma.CategoryCreateNestedOneWithoutMedicinesInput
+  seller?: Prisma.UserCreateNestedOneWithoutSellerMedicinesInput
+  cartItems?: Prisma.CartItemCreateNestedManyWithoutMedicineInput
+  orderItems?: Prisma.OrderItemCreateNestedManyWithoutMedicineInput
+  reviews?: Prisma.ReviewCreateNestedManyWithoutMedicineInput
+  stockMovements?: Prisma.StockMovementCreateNestedManyWithoutMedicineInput
+  recalls?: Prisma.RecallCreateNestedManyWithoutMedicineInput
+  ingredients?: Prisma.MedicineIngredientCreateNestedManyWithoutMedicineInput
+}
+
+export type MedicineUncheckedCreateWithoutBatchesInput = {
+  id?: string
+  name: string
+  genericName?: string | null
+  description?: string | null
+  price: runtime.Decimal | runtime.DecimalJsLike | number | string
+  stock: number
+  stockDrift?: number
+  stockReconciledAt?: Date | string | null
+  manufacturer?: string | null
+  imageUrl?: string | null
+  weightGrams?: number | null
+  isFeatured?: boolean
+  isActive?: boolean
+  licenseSuspended?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  dosageForm?: $Enums.DosageForm | null
+  strength?: number | null
+  strengthUnit?: string | null
+  packSize?: number | null
+  route?: $Enums.AdministrationRoute | null
+  storageConditions?: string | null
+  registrationNumber?: string | null
+  sku?: string | null
+  maxPerOrder?: number | null
+  maxPerPeriod?: number | null
+  limitPeriodDays?: number | null
+  categoryId?: string | null
+  sellerId?: string | null
+  cartItems?: Prisma.CartItemUncheckedCreateNestedManyWithoutMedicineInput
+  orderItems?: Prisma.OrderItemUncheckedCreateNestedManyWithoutMedicineInput
+  reviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutMedicineInput
+  stockMovements?: Prisma.StockMovementUncheckedCreateNestedManyWithoutMedicineInput
+  recalls?: Prisma.RecallUncheckedCreateNestedManyWithoutMedicineInput
+  ingredients?: Prisma.MedicineIngredientUncheckedCreateNestedManyWithoutMedicineInput
+}
+
+export type MedicineCreateOrConnectWithoutBatchesInput = {
+  where: Prisma.MedicineWhereUniqueInput
+  create: Prisma.XOR<Prisma.MedicineCreateWithoutBatchesInput, Prisma.MedicineUncheckedCreateWithoutBatchesInput>
+}
+
+export type MedicineUpsertWithoutBatchesInput = {
+  update: Prisma.XOR<Prisma.MedicineUpdateWithoutBatchesInput, Prisma.MedicineUncheckedUpdateWithoutBatchesInput>
+  create: Prisma.XOR<Prisma.MedicineCreateWithoutBatchesInput, Prisma.MedicineUncheckedCreateWithoutBatchesInput>
+  where?: Prisma.MedicineWhereInput
+}
+
+export type MedicineUpdateToOneWithWhereWithoutBatchesInput = {
+  where?: Prisma.MedicineWhereInput
+  data: Prisma.XOR<Prisma.MedicineUpdateWithoutBatchesInput, Prisma.MedicineUncheckedUpdateWithoutBatchesInput>
+}
+
+export type MedicineUpdateWithoutBatchesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  genericName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  price?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  stock?: Prisma.IntFieldUpdateOperationsInput | number
+  stockDrift?: Prisma.IntFieldUpdateOperationsInput | number
+  stockReconciledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  manufacturer?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  imageUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  weightGrams?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  isFeatured?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  licenseSuspended?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  dosageForm?: Prisma.NullableEnumDosageFormFieldUpdateOperationsInput | $Enums.DosageForm | null
+  strength?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  strengthUnit?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  packSize?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  route?: Prisma.NullableEnumAdministrationRouteFieldUpdateOperationsInput | $Enums.AdministrationRoute | null
+  storageConditions?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  registrationNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  sku?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  maxPerOrder?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxPerPeriod?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  limitPeriodDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  category?: Prisma.CategoryUpdateOneWithoutMedicinesNestedInput
+  seller?: Prisma.UserUpdateOneWithoutSellerMedicinesNestedInput
+  cartItems?: Prisma.CartItemUpdateManyWithoutMedicineNestedInput
+  orderItems?: Prisma.OrderItemUpdateManyWithoutMedicineNestedInput
+  reviews?: Prisma.ReviewUpdateManyWithoutMedicineNestedInput
+  stockMovements?: Prisma.StockMovementUpdateManyWithoutMedicineNestedInput
+  recalls?: Prisma.RecallUpdateManyWithoutMedicineNestedInput
+  ingredients?: Prisma.MedicineIngredientUpdateManyWithoutMedicineNestedInput
+}
+
+export type MedicineUncheckedUpdateWithoutBatchesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  genericName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  price?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  stock?: Prisma.IntFieldUpdateOperationsInput | number
+  stockDrift?: Prisma.IntFieldUpdateOperationsInput | number
+  stockReconciledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  manufacturer?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  imageUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  weightGrams?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  isFeatured?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  licenseSuspended?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  dosageForm?: Prisma.NullableEnumDosageFormFieldUpdateOperationsInput | $Enums.DosageForm | null
+  strength?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  strengthUnit?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  packSize?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  route?: Prisma.NullableEnumAdministrationRouteFieldUpdateOperationsInput | $Enums.AdministrationRoute | null
+  storageConditions?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  registrationNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  sku?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  maxPerOrder?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxPerPeriod?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  limitPeriodDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  categoryId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  sellerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  cartItems?: Prisma.CartItemUncheckedUpdateManyWithoutMedicineNestedInput
+  orderItems?: Prisma.OrderItemUncheckedUpdateManyWithoutMedicineNestedInput
+  reviews?: Prisma.ReviewUncheckedUpdateManyWithoutMedicineNestedInput
+  stockMovements?: Prisma.StockMovementUncheckedUpdateManyWithoutMedicineNestedInput
+  recalls?: Prisma.RecallUncheckedUpdateManyWithoutMedicineNestedInput
+  ingredients?: Prisma.MedicineIngredientUncheckedUpdateManyWithoutMedicineNestedInput
+}
+
 export type MedicineCreateWithoutCartItemsInput = {
   id?: string
   name: string
   genericName?: string | null
   description?: string | null
-  price: number
+  price: runtime.Decimal | runtime.DecimalJsLike | number | string
   stock: number
+  stockDrift?: number
+  stockReconciledAt?: Date | string | null
   manufacturer?: string | null
   imageUrl?: string | null
+  weightGrams?: number | null
   isFeatured?: boolean
   isActive?: boolean
+  licenseSuspended?: boolean
   createdAt?: Date | string
   updatedAt?: Date | string
+  dosageForm?: $Enums.DosageForm | null
+  strength?: number | null
+  strengthUnit?: string | null
+  packSize?: number | null
+  route?: $Enums.AdministrationRoute | null
+  storageConditions?: string | null
+  registrationNumber?: string | null
+  sku?: string | null
+  maxPerOrder?: number | null
+  maxPerPeriod?: number | null
+  limitPeriodDays?: number | null
   category?: Prisma.CategoryCreateNestedOneWithoutMedicinesInput
   seller?: Prisma.UserCreateNestedOneWithoutSellerMedicinesInput
   orderItems?: Prisma.OrderItemCreateNestedManyWithoutMedicineInput
   reviews?: Prisma.ReviewCreateNestedManyWithoutMedicineInput
+  stockMovements?: Prisma.StockMovementCreateNestedManyWithoutMedicineInput
+  batches?: Prisma.MedicineBatchCreateNestedManyWithoutMedicineInput
+  recalls?: Prisma.RecallCreateNestedManyWithoutMedicineInput
+  ingredients?: Prisma.MedicineIngredientCreateNestedManyWithoutMedicineInput
 }
 
 export type MedicineUncheckedCreateWithoutCartItemsInput = {
@@ -747,18 +1400,37 @@ export type MedicineUncheckedCreateWithoutCartItemsInput = {
   name: string
   genericName?: string | null
   description?: string | null
-  price: number
+  price: runtime.Decimal | runtime.DecimalJsLike | number | string
   stock: number
+  stockDrift?: number
+  stockReconciledAt?: Date | string | null
   manufacturer?: string | null
   imageUrl?: string | null
+  weightGrams?: number | null
   isFeatured?: boolean
   isActive?: boolean
+  licenseSuspended?: boolean
   createdAt?: Date | string
   updatedAt?: Date | string
+  dosageForm?: $Enums.DosageForm | null
+  strength?: number | null
+  strengthUnit?: string | null
+  packSize?: number | null
+  route?: $Enums.AdministrationRoute | null
+  storageConditions?: string | null
+  registrationNumber?: string | null
+  sku?: string | null
+  maxPerOrder?: number | null
+  maxPerPeriod?: number | null
+  limitPeriodDays?: number | null
   categoryId?: string | null
   sellerId?: string | null
   orderItems?: Prisma.OrderItemUncheckedCreateNestedManyWithoutMedicineInput
   reviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutMedicineInput
+  stockMovements?: Prisma.StockMovementUncheckedCreateNestedManyWithoutMedicineInput
+  batches?: Prisma.MedicineBatchUncheckedCreateNestedManyWithoutMedicineInput
+  recalls?: Prisma.RecallUncheckedCreateNestedManyWithoutMedicineInput
+  ingredients?: Prisma.MedicineIngredientUncheckedCreateNestedManyWithoutMedicineInput
 }
 
 export type MedicineCreateOrConnectWithoutCartItemsInput = {
@@ -782,18 +1454,37 @@ export type MedicineUpdateWithoutCartItemsInput = {
   name?: Prisma.StringFieldUpdateOperationsInput | string
   genericName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
-  price?: Prisma.FloatFieldUpdateOperationsInput | number
+  price?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
   stock?: Prisma.IntFieldUpdateOperationsInput | number
+  stockDrift?: Prisma.IntFieldUpdateOperationsInput | number
+  stockReconciledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   manufacturer?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   imageUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  weightGrams?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   isFeatured?: Prisma.BoolFieldUpdateOperationsInput | boolean
   isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  licenseSuspended?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  dosageForm?: Prisma.NullableEnumDosageFormFieldUpdateOperationsInput | $Enums.DosageForm | null
+  strength?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  strengthUnit?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  packSize?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  route?: Prisma.NullableEnumAdministrationRouteFieldUpdateOperationsInput | $Enums.AdministrationRoute | null
+  storageConditions?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  registrationNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  sku?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  maxPerOrder?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxPerPeriod?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  limitPeriodDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   category?: Prisma.CategoryUpdateOneWithoutMedicinesNestedInput
   seller?: Prisma.UserUpdateOneWithoutSellerMedicinesNestedInput
   orderItems?: Prisma.OrderItemUpdateManyWithoutMedicineNestedInput
   reviews?: Prisma.ReviewUpdateManyWithoutMedicineNestedInput
+  stockMovements?: Prisma.StockMovementUpdateManyWithoutMedicineNestedInput
+  batches?: Prisma.MedicineBatchUpdateManyWithoutMedicineNestedInput
+  recalls?: Prisma.RecallUpdateManyWithoutMedicineNestedInput
+  ingredients?: Prisma.MedicineIngredientUpdateManyWithoutMedicineNestedInput
 }
 
 export type MedicineUncheckedUpdateWithoutCartItemsInput = {
@@ -801,18 +1492,37 @@ export type MedicineUncheckedUpdateWithoutCartItemsInput = {
   name?: Prisma.StringFieldUpdateOperationsInput | string
   genericName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
-  price?: Prisma.FloatFieldUpdateOperationsInput | number
+  price?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
   stock?: Prisma.IntFieldUpdateOperationsInput | number
+  stockDrift?: Prisma.IntFieldUpdateOperationsInput | number
+  stockReconciledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   manufacturer?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   imageUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  weightGrams?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   isFeatured?: Prisma.BoolFieldUpdateOperationsInput | boolean
   isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  licenseSuspended?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  dosageForm?: Prisma.NullableEnumDosageFormFieldUpdateOperationsInput | $Enums.DosageForm | null
+  strength?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  strengthUnit?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  packSize?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  route?: Prisma.NullableEnumAdministrationRouteFieldUpdateOperationsInput | $Enums.AdministrationRoute | null
+  storageConditions?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  registrationNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  sku?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  maxPerOrder?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxPerPeriod?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  limitPeriodDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   categoryId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   sellerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   orderItems?: Prisma.OrderItemUncheckedUpdateManyWithoutMedicineNestedInput
   reviews?: Prisma.ReviewUncheckedUpdateManyWithoutMedicineNestedInput
+  stockMovements?: Prisma.StockMovementUncheckedUpdateManyWithoutMedicineNestedInput
+  batches?: Prisma.MedicineBatchUncheckedUpdateManyWithoutMedicineNestedInput
+  recalls?: Prisma.RecallUncheckedUpdateManyWithoutMedicineNestedInput
+  ingredients?: Prisma.MedicineIngredientUncheckedUpdateManyWithoutMedicineNestedInput
 }
 
 export type MedicineCreateWithoutCategoryInput = {
@@ -820,18 +1530,37 @@ export type MedicineCreateWithoutCategoryInput = {
   name: string
   genericName?: string | null
   description?: string | null
-  price: number
+  price: runtime.Decimal | runtime.DecimalJsLike | number | string
   stock: number
+  stockDrift?: number
+  stockReconciledAt?: Date | string | null
   manufacturer?: string | null
   imageUrl?: string | null
+  weightGrams?: number | null
   isFeatured?: boolean
   isActive?: boolean
+  licenseSuspended?: boolean
   createdAt?: Date | string
   updatedAt?: Date | string
+  dosageForm?: $Enums.DosageForm | null
+  strength?: number | null
+  strengthUnit?: string | null
+  packSize?: number | null
+  route?: $Enums.AdministrationRoute | null
+  storageConditions?: string | null
+  registrationNumber?: string | null
+  sku?: string | null
+  maxPerOrder?: number | null
+  maxPerPeriod?: number | null
+  limitPeriodDays?: number | null
   seller?: Prisma.UserCreateNestedOneWithoutSellerMedicinesInput
   cartItems?: Prisma.CartItemCreateNestedManyWithoutMedicineInput
   orderItems?: Prisma.OrderItemCreateNestedManyWithoutMedicineInput
   reviews?: Prisma.ReviewCreateNestedManyWithoutMedicineInput
+  stockMovements?: Prisma.StockMovementCreateNestedManyWithoutMedicineInput
+  batches?: Prisma.MedicineBatchCreateNestedManyWithoutMedicineInput
+  recalls?: Prisma.RecallCreateNestedManyWithoutMedicineInput
+  ingredients?: Prisma.MedicineIngredientCreateNestedManyWithoutMedicineInput
 }
 
 export type MedicineUncheckedCreateWithoutCategoryInput = {
@@ -839,18 +1568,37 @@ export type MedicineUncheckedCreateWithoutCategoryInput = {
   name: string
   genericName?: string | null
   description?: string | null
-  price: number
+  price: runtime.Decimal | runtime.DecimalJsLike | number | string
   stock: number
+  stockDrift?: number
+  stockReconciledAt?: Date | string | null
   manufacturer?: string | null
   imageUrl?: string | null
+  weightGrams?: number | null
   isFeatured?: boolean
   isActive?: boolean
+  licenseSuspended?: boolean
   createdAt?: Date | string
   updatedAt?: Date | string
+  dosageForm?: $Enums.DosageForm | null
+  strength?: number | null
+  strengthUnit?: string | null
+  packSize?: number | null
+  route?: $Enums.AdministrationRoute | null
+  storageConditions?: string | null
+  registrationNumber?: string | null
+  sku?: string | null
+  maxPerOrder?: number | null
+  maxPerPeriod?: number | null
+  limitPeriodDays?: number | null
   sellerId?: string | null
   cartItems?: Prisma.CartItemUncheckedCreateNestedManyWithoutMedicineInput
   orderItems?: Prisma.OrderItemUncheckedCreateNestedManyWithoutMedicineInput
   reviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutMedicineInput
+  stockMovements?: Prisma.StockMovementUncheckedCreateNestedManyWithoutMedicineInput
+  batches?: Prisma.MedicineBatchUncheckedCreateNestedManyWithoutMedicineInput
+  recalls?: Prisma.RecallUncheckedCreateNestedManyWithoutMedicineInput
+  ingredients?: Prisma.MedicineIngredientUncheckedCreateNestedManyWithoutMedicineInput
 }
 
 export type MedicineCreateOrConnectWithoutCategoryInput = {
@@ -887,35 +1635,237 @@ export type MedicineScalarWhereInput = {
   name?: Prisma.StringFilter<"Medicine"> | string
   genericName?: Prisma.StringNullableFilter<"Medicine"> | string | null
   description?: Prisma.StringNullableFilter<"Medicine"> | string | null
-  price?: Prisma.FloatFilter<"Medicine"> | number
+  price?: Prisma.DecimalFilter<"Medicine"> | runtime.Decimal | runtime.DecimalJsLike | number | string
   stock?: Prisma.IntFilter<"Medicine"> | number
+  stockDrift?: Prisma.IntFilter<"Medicine"> | number
+  stockReconciledAt?: Prisma.DateTimeNullableFilter<"Medicine"> | Date | string | null
   manufacturer?: Prisma.StringNullableFilter<"Medicine"> | string | null
   imageUrl?: Prisma.StringNullableFilter<"Medicine"> | string | null
+  weightGrams?: Prisma.IntNullableFilter<"Medicine"> | number | null
   isFeatured?: Prisma.BoolFilter<"Medicine"> | boolean
   isActive?: Prisma.BoolFilter<"Medicine"> | boolean
+  licenseSuspended?: Prisma.BoolFilter<"Medicine"> | boolean
   createdAt?: Prisma.DateTimeFilter<"Medicine"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"Medicine"> | Date | string
+  dosageForm?: Prisma.EnumDosageFormNullableFilter<"Medicine"> | $Enums.DosageForm | null
+  strength?: Prisma.FloatNullableFilter<"Medicine"> | number | null
+  strengthUnit?: Prisma.StringNullableFilter<"Medicine"> | string | null
+  packSize?: Prisma.IntNullableFilter<"Medicine"> | number | null
+  route?: Prisma.EnumAdministrationRouteNullableFilter<"Medicine"> | $Enums.AdministrationRoute | null
+  storageConditions?: Prisma.StringNullableFilter<"Medicine"> | string | null
+  registrationNumber?: Prisma.StringNullableFilter<"Medicine"> | string | null
+  sku?: Prisma.StringNullableFilter<"Medicine"> | string | null
+  maxPerOrder?: Prisma.IntNullableFilter<"Medicine"> | number | null
+  maxPerPeriod?: Prisma.IntNullableFilter<"Medicine"> | number | null
+  limitPeriodDays?: Prisma.IntNullableFilter<"Medicine"> | number | null
   categoryId?: Prisma.StringNullableFilter<"Medicine"> | string | null
   sellerId?: Prisma.StringNullableFilter<"Medicine"> | string | null
 }
 
+export type MedicineCreateWithoutIngredientsInput = {
+  id?: string
+  name: string
+  genericName?: string | null
+  description?: string | null
+  price: runtime.Decimal | runtime.DecimalJsLike | number | string
+  stock: number
+  stockDrift?: number
+  stockReconciledAt?: Date | string | null
+  manufacturer?: string | null
+  imageUrl?: string | null
+  weightGrams?: number | null
+  isFeatured?: boolean
+  isActive?: boolean
+  licenseSuspended?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  dosageForm?: $Enums.DosageForm | null
+  strength?: number | null
+  strengthUnit?: string | null
+  packSize?: number | null
+  route?: $Enums.AdministrationRoute | null
+  storageConditions?: string | null
+  registrationNumber?: string | null
+  sku?: string | null
+  maxPerOrder?: number | null
+  maxPerPeriod?: number | null
+  limitPeriodDays?: number | null
+  category?: Prisma.CategoryCreateNestedOneWithoutMedicinesInput
+  seller?: Prisma.UserCreateNestedOneWithoutSellerMedicinesInput
+  cartItems?: Prisma.CartItemCreateNestedManyWithoutMedicineInput
+  orderItems?: Prisma.OrderItemCreateNestedManyWithoutMedicineInput
+  reviews?: Prisma.ReviewCreateNestedManyWithoutMedicineInput
+  stockMovements?: Prisma.StockMovementCreateNestedManyWithoutMedicineInput
+  batches?: Prisma.MedicineBatchCreateNestedManyWithoutMedicineInput
+  recalls?: Prisma.RecallCreateNestedManyWithoutMedicineInput
+}
+
+export type MedicineUncheckedCreateWithoutIngredientsInput = {
+  id?: string
+  name: string
+  genericName?: string | null
+  description?: string | null
+  price: runtime.Decimal | runtime.DecimalJsLike | number | string
+  stock: number
+  stockDrift?: number
+  stockReconciledAt?: Date | string | null
+  manufacturer?: string | null
+  imageUrl?: string | null
+  weightGrams?: number | null
+  isFeatured?: boolean
+  isActive?: boolean
+  licenseSuspended?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  dosageForm?: $Enums.DosageForm | null
+  strength?: number | null
+  strengthUnit?: string | null
+  packSize?: number | null
+  route?: $Enums.AdministrationRoute | null
+  storageConditions?: string | null
+  registrationNumber?: string | null
+  sku?: string | null
+  maxPerOrder?: number | null
+  maxPerPeriod?: number | null
+  limitPeriodDays?: number | null
+  categoryId?: string | null
+  sellerId?: string | null
+  cartItems?: Prisma.CartItemUncheckedCreateNestedManyWithoutMedicineInput
+  orderItems?: Prisma.OrderItemUncheckedCreateNestedManyWithoutMedicineInput
+  reviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutMedicineInput
+  stockMovements?: Prisma.StockMovementUncheckedCreateNestedManyWithoutMedicineInput
+  batches?: Prisma.MedicineBatchUncheckedCreateNestedManyWithoutMedicineInput
+  recalls?: Prisma.RecallUncheckedCreateNestedManyWithoutMedicineInput
+}
+
+export type MedicineCreateOrConnectWithoutIngredientsInput = {
+  where: Prisma.MedicineWhereUniqueInput
+  create: Prisma.XOR<Prisma.MedicineCreateWithoutIngredientsInput, Prisma.MedicineUncheckedCreateWithoutIngredientsInput>
+}
+
+export type MedicineUpsertWithoutIngredientsInput = {
+  update: Prisma.XOR<Prisma.MedicineUpdateWithoutIngredientsInput, Prisma.MedicineUncheckedUpdateWithoutIngredientsInput>
+  create: Prisma.XOR<Prisma.MedicineCreateWithoutIngredientsInput, Prisma.MedicineUncheckedCreateWithoutIngredientsInput>
+  where?: Prisma.MedicineWhereInput
+}
+
+export type MedicineUpdateToOneWithWhereWithoutIngredientsInput = {
+  where?: Prisma.MedicineWhereInput
+  data: Prisma.XOR<Prisma.MedicineUpdateWithoutIngredientsInput, Prisma.MedicineUncheckedUpdateWithoutIngredientsInput>
+}
+
+export type MedicineUpdateWithoutIngredientsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  genericName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  price?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  stock?: Prisma.IntFieldUpdateOperationsInput | number
+  stockDrift?: Prisma.IntFieldUpdateOperationsInput | number
+  stockReconciledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  manufacturer?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  imageUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  weightGrams?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  isFeatured?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  licenseSuspended?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  dosageForm?: Prisma.NullableEnumDosageFormFieldUpdateOperationsInput | $Enums.DosageForm | null
+  strength?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  strengthUnit?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  packSize?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  route?: Prisma.NullableEnumAdministrationRouteFieldUpdateOperationsInput | $Enums.AdministrationRoute | null
+  storageConditions?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  registrationNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  sku?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  maxPerOrder?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxPerPeriod?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  limitPeriodDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  category?: Prisma.CategoryUpdateOneWithoutMedicinesNestedInput
+  seller?: Prisma.UserUpdateOneWithoutSellerMedicinesNestedInput
+  cartItems?: Prisma.CartItemUpdateManyWithoutMedicineNestedInput
+  orderItems?: Prisma.OrderItemUpdateManyWithoutMedicineNestedInput
+  reviews?: Prisma.ReviewUpdateManyWithoutMedicineNestedInput
+  stockMovements?: Prisma.StockMovementUpdateManyWithoutMedicineNestedInput
+  batches?: Prisma.MedicineBatchUpdateManyWithoutMedicineNestedInput
+  recalls?: Prisma.RecallUpdateManyWithoutMedicineNestedInput
+}
+
+export type MedicineUncheckedUpdateWithoutIngredientsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  genericName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  price?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  stock?: Prisma.IntFieldUpdateOperationsInput | number
+  stockDrift?: Prisma.IntFieldUpdateOperationsInput | number
+  stockReconciledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  manufacturer?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  imageUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  weightGrams?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  isFeatured?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  licenseSuspended?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  dosageForm?: Prisma.NullableEnumDosageFormFieldUpdateOperationsInput | $Enums.DosageForm | null
+  strength?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  strengthUnit?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  packSize?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  route?: Prisma.NullableEnumAdministrationRouteFieldUpdateOperationsInput | $Enums.AdministrationRoute | null
+  storageConditions?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  registrationNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  sku?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  maxPerOrder?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxPerPeriod?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  limitPeriodDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  categoryId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  sellerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  cartItems?: Prisma.CartItemUncheckedUpdateManyWithoutMedicineNestedInput
+  orderItems?: Prisma.OrderItemUncheckedUpdateManyWithoutMedicineNestedInput
+  reviews?: Prisma.ReviewUncheckedUpdateManyWithoutMedicineNestedInput
+  stockMovements?: Prisma.StockMovementUncheckedUpdateManyWithoutMedicineNestedInput
+  batches?: Prisma.MedicineBatchUncheckedUpdateManyWithoutMedicineNestedInput
+  recalls?: Prisma.RecallUncheckedUpdateManyWithoutMedicineNestedInput
+}
+
 export type MedicineCreateWithoutOrderItemsInput = {
   id?: string
   name: string
   genericName?: string | null
   description?: string | null
-  price: number
+  price: runtime.Decimal | runtime.DecimalJsLike | number | string
   stock: number
+  stockDrift?: number
+  stockReconciledAt?: Date | string | null
   manufacturer?: string | null
   imageUrl?: string | null
+  weightGrams?: number | null
   isFeatured?: boolean
   isActive?: boolean
+  licenseSuspended?: boolean
   createdAt?: Date | string
   updatedAt?: Date | string
+  dosageForm?: $Enums.DosageForm | null
+  strength?: number | null
+  strengthUnit?: string | null
+  packSize?: number | null
+  route?: $Enums.AdministrationRoute | null
+  storageConditions?: string | null
+  registrationNumber?: string | null
+  sku?: string | null
+  maxPerOrder?: number | null
+  maxPerPeriod?: number | null
+  limitPeriodDays?: number | null
   category?: Prisma.CategoryCreateNestedOneWithoutMedicinesInput
   seller?: Prisma.UserCreateNestedOneWithoutSellerMedicinesInput
   cartItems?: Prisma.CartItemCreateNestedManyWithoutMedicineInput
   reviews?: Prisma.ReviewCreateNestedManyWithoutMedicineInput
+  stockMovements?: Prisma.StockMovementCreateNestedManyWithoutMedicineInput
+  batches?: Prisma.MedicineBatchCreateNestedManyWithoutMedicineInput
+  recalls?: Prisma.RecallCreateNestedManyWithoutMedicineInput
+  ingredients?: Prisma.MedicineIngredientCreateNestedManyWithoutMedicineInput
 }
 
 export type MedicineUncheckedCreateWithoutOrderItemsInput = {
@@ -923,18 +1873,37 @@ export type MedicineUncheckedCreateWithoutOrderItemsInput = {
   name: string
   genericName?: string | null
   description?: string | null
-  price: number
+  price: runtime.Decimal | runtime.DecimalJsLike | number | string
   stock: number
+  stockDrift?: number
+  stockReconciledAt?: Date | string | null
   manufacturer?: string | null
   imageUrl?: string | null
+  weightGrams?: number | null
   isFeatured?: boolean
   isActive?: boolean
+  licenseSuspended?: boolean
   createdAt?: Date | string
   updatedAt?: Date | string
+  dosageForm?: $Enums.DosageForm | null
+  strength?: number | null
+  strengthUnit?: string | null
+  packSize?: number | null
+  route?: $Enums.AdministrationRoute | null
+  storageConditions?: string | null
+  registrationNumber?: string | null
+  sku?: string | null
+  maxPerOrder?: number | null
+  maxPerPeriod?: number | null
+  limitPeriodDays?: number | null
   categoryId?: string | null
   sellerId?: string | null
   cartItems?: Prisma.CartItemUncheckedCreateNestedManyWithoutMedicineInput
   reviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutMedicineInput
+  stockMovements?: Prisma.StockMovementUncheckedCreateNestedManyWithoutMedicineInput
+  batches?: Prisma.MedicineBatchUncheckedCreateNestedManyWithoutMedicineInput
+  recalls?: Prisma.RecallUncheckedCreateNestedManyWithoutMedicineInput
+  ingredients?: Prisma.MedicineIngredientUncheckedCreateNestedManyWithoutMedicineInput
 }
 
 export type MedicineCreateOrConnectWithoutOrderItemsInput = {
@@ -958,18 +1927,37 @@ export type MedicineUpdateWithoutOrderItemsInput = {
   name?: Prisma.StringFieldUpdateOperationsInput | string
   genericName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
-  price?: Prisma.FloatFieldUpdateOperationsInput | number
+  price?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
   stock?: Prisma.IntFieldUpdateOperationsInput | number
+  stockDrift?: Prisma.IntFieldUpdateOperationsInput | number
+  stockReconciledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   manufacturer?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   imageUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  weightGrams?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   isFeatured?: Prisma.BoolFieldUpdateOperationsInput | boolean
   isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  licenseSuspended?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  dosageForm?: Prisma.NullableEnumDosageFormFieldUpdateOperationsInput | $Enums.DosageForm | null
+  strength?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  strengthUnit?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  packSize?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  route?: Prisma.NullableEnumAdministrationRouteFieldUpdateOperationsInput | $Enums.AdministrationRoute | null
+  storageConditions?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  registrationNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  sku?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  maxPerOrder?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxPerPeriod?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  limitPeriodDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   category?: Prisma.CategoryUpdateOneWithoutMedicinesNestedInput
   seller?: Prisma.UserUpdateOneWithoutSellerMedicinesNestedInput
   cartItems?: Prisma.CartItemUpdateManyWithoutMedicineNestedInput
   reviews?: Prisma.ReviewUpdateManyWithoutMedicineNestedInput
+  stockMovements?: Prisma.StockMovementUpdateManyWithoutMedicineNestedInput
+  batches?: Prisma.MedicineBatchUpdateManyWithoutMedicineNestedInput
+  recalls?: Prisma.RecallUpdateManyWithoutMedicineNestedInput
+  ingredients?: Prisma.MedicineIngredientUpdateManyWithoutMedicineNestedInput
 }
 
 export type MedicineUncheckedUpdateWithoutOrderItemsInput = {
@@ -977,18 +1965,205 @@ export type MedicineUncheckedUpdateWithoutOrderItemsInput = {
   name?: Prisma.StringFieldUpdateOperationsInput | string
   genericName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
-  price?: Prisma.FloatFieldUpdateOperationsInput | number
+  price?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  stock?: Prisma.IntFieldUpdateOperationsInput | number
+  stockDrift?: Prisma.IntFieldUpdateOperationsInput | number
+  stockReconciledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  manufacturer?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  imageUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  weightGrams?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  isFeatured?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  licenseSuspended?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  dosageForm?: Prisma.NullableEnumDosageFormFieldUpdateOperationsInput | $Enums.DosageForm | null
+  strength?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  strengthUnit?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  packSize?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  route?: Prisma.NullableEnumAdministrationRouteFieldUpdateOperationsInput | $Enums.AdministrationRoute | null
+  storageConditions?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  registrationNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  sku?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  maxPerOrder?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxPerPeriod?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  limitPeriodDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  categoryId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  sellerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  cartItems?: Prisma.CartItemUncheckedUpdateManyWithoutMedicineNestedInput
+  reviews?: Prisma.ReviewUncheckedUpdateManyWithoutMedicineNestedInput
+  stockMovements?: Prisma.StockMovementUncheckedUpdateManyWithoutMedicineNestedInput
+  batches?: Prisma.MedicineBatchUncheckedUpdateManyWithoutMedicineNestedInput
+  recalls?: Prisma.RecallUncheckedUpdateManyWithoutMedicineNestedInput
+  ingredients?: Prisma.MedicineIngredientUncheckedUpdateManyWithoutMedicineNestedInput
+}
+
+export type MedicineCreateWithoutRecallsInput = {
+  id?: string
+  name: string
+  genericName?: string | null
+  description?: string | null
+  price: runtime.Decimal | runtime.DecimalJsLike | number | string
+  stock: number
+  stockDrift?: number
+  stockReconciledAt?: Date | string | null
+  manufacturer?: string | null
+  imageUrl?: string | null
+  weightGrams?: number | null
+  isFeatured?: boolean
+  isActive?: boolean
+  licenseSuspended?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  dosageForm?: $Enums.DosageForm | null
+  strength?: number | null
+  strengthUnit?: string | null
+  packSize?: number | null
+  route?: $Enums.AdministrationRoute | null
+  storageConditions?: string | null
+  registrationNumber?: string | null
+  sku?: string | null
+  maxPerOrder?: number | null
+  maxPerPeriod?: number | null
+  limitPeriodDays?: number | null
+  category?: Prisma.CategoryCreateNestedOneWithoutMedicinesInput
+  seller?: Prisma.UserCreateNestedOneWithoutSellerMedicinesInput
+  cartItems?: Prisma.CartItemCreateNestedManyWithoutMedicineInput
+  orderItems?: Prisma.OrderItemCreateNestedManyWithoutMedicineInput
+  reviews?: Prisma.ReviewCreateNestedManyWithoutMedicineInput
+  stockMovements?: Prisma.StockMovementCreateNestedManyWithoutMedicineInput
+  batches?: Prisma.MedicineBatchCreateNestedManyWithoutMedicineInput
+  ingredients?: Prisma.MedicineIngredientCreateNestedManyWithoutMedicineInput
+}
+
+export type MedicineUncheckedCreateWithoutRecallsInput = {
+  id?: string
+  name: string
+  genericName?: string | null
+  description?: string | null
+  price: runtime.Decimal | runtime.DecimalJsLike | number | string
+  stock: number
+  stockDrift?: number
+  stockReconciledAt?: Date | string | null
+  manufacturer?: string | null
+  imageUrl?: string | null
+  weightGrams?: number | null
+  isFeatured?: boolean
+  isActive?: boolean
+  licenseSuspended?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  dosageForm?: $Enums.DosageForm | null
+  strength?: number | null
+  strengthUnit?: string | null
+  packSize?: number | null
+  route?: $Enums.AdministrationRoute | null
+  storageConditions?: string | null
+  registrationNumber?: string | null
+  sku?: string | null
+  maxPerOrder?: number | null
+  maxPerPeriod?: number | null
+  limitPeriodDays?: number | null
+  categoryId?: string | null
+  sellerId?: string | null
+  cartItems?: Prisma.CartItemUncheckedCreateNestedManyWithoutMedicineInput
+  orderItems?: Prisma.OrderItemUncheckedCreateNestedManyWithoutMedicineInput
+  reviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutMedicineInput
+  stockMovements?: Prisma.StockMovementUncheckedCreateNestedManyWithoutMedicineInput
+  batches?: Prisma.MedicineBatchUncheckedCreateNestedManyWithoutMedicineInput
+  ingredients?: Prisma.MedicineIngredientUncheckedCreateNestedManyWithoutMedicineInput
+}
+
+export type MedicineCreateOrConnectWithoutRecallsInput = {
+  where: Prisma.MedicineWhereUniqueInput
+  create: Prisma.XOR<Prisma.MedicineCreateWithoutRecallsInput, Prisma.MedicineUncheckedCreateWithoutRecallsInput>
+}
+
+export type MedicineUpsertWithoutRecallsInput = {
+  update: Prisma.XOR<Prisma.MedicineUpdateWithoutRecallsInput, Prisma.MedicineUncheckedUpdateWithoutRecallsInput>
+  create: Prisma.XOR<Prisma.MedicineCreateWithoutRecallsInput, Prisma.MedicineUncheckedCreateWithoutRecallsInput>
+  where?: Prisma.MedicineWhereInput
+}
+
+export type MedicineUpdateToOneWithWhereWithoutRecallsInput = {
+  where?: Prisma.MedicineWhereInput
+  data: Prisma.XOR<Prisma.MedicineUpdateWithoutRecallsInput, Prisma.MedicineUncheckedUpdateWithoutRecallsInput>
+}
+
+export type MedicineUpdateWithoutRecallsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  genericName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  price?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  stock?: Prisma.IntFieldUpdateOperationsInput | number
+  stockDrift?: Prisma.IntFieldUpdateOperationsInput | number
+  stockReconciledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  manufacturer?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  imageUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  weightGrams?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  isFeatured?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  licenseSuspended?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  dosageForm?: Prisma.NullableEnumDosageFormFieldUpdateOperationsInput | $Enums.DosageForm | null
+  strength?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  strengthUnit?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  packSize?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  route?: Prisma.NullableEnumAdministrationRouteFieldUpdateOperationsInput | $Enums.AdministrationRoute | null
+  storageConditions?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  registrationNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  sku?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  maxPerOrder?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxPerPeriod?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  limitPeriodDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  category?: Prisma.CategoryUpdateOneWithoutMedicinesNestedInput
+  seller?: Prisma.UserUpdateOneWithoutSellerMedicinesNestedInput
+  cartItems?: Prisma.CartItemUpdateManyWithoutMedicineNestedInput
+  orderItems?: Prisma.OrderItemUpdateManyWithoutMedicineNestedInput
+  reviews?: Prisma.ReviewUpdateManyWithoutMedicineNestedInput
+  stockMovements?: Prisma.StockMovementUpdateManyWithoutMedicineNestedInput
+  batches?: Prisma.MedicineBatchUpdateManyWithoutMedicineNestedInput
+  ingredients?: Prisma.MedicineIngredientUpdateManyWithoutMedicineNestedInput
+}
+
+export type MedicineUncheckedUpdateWithoutRecallsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  genericName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  price?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
   stock?: Prisma.IntFieldUpdateOperationsInput | number
+  stockDrift?: Prisma.IntFieldUpdateOperationsInput | number
+  stockReconciledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   manufacturer?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   imageUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  weightGrams?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   isFeatured?: Prisma.BoolFieldUpdateOperationsInput | boolean
   isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  licenseSuspended?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  dosageForm?: Prisma.NullableEnumDosageFormFieldUpdateOperationsInput | $Enums.DosageForm | null
+  strength?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  strengthUnit?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  packSize?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  route?: Prisma.NullableEnumAdministrationRouteFieldUpdateOperationsInput | $Enums.AdministrationRoute | null
+  storageConditions?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  registrationNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  sku?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  maxPerOrder?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxPerPeriod?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  limitPeriodDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   categoryId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   sellerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   cartItems?: Prisma.CartItemUncheckedUpdateManyWithoutMedicineNestedInput
+  orderItems?: Prisma.OrderItemUncheckedUpdateManyWithoutMedicineNestedInput
   reviews?: Prisma.ReviewUncheckedUpdateManyWithoutMedicineNestedInput
+  stockMovements?: Prisma.StockMovementUncheckedUpdateManyWithoutMedicineNestedInput
+  batches?: Prisma.MedicineBatchUncheckedUpdateManyWithoutMedicineNestedInput
+  ingredients?: Prisma.MedicineIngredientUncheckedUpdateManyWithoutMedicineNestedInput
 }
 
 export type MedicineCreateWithoutReviewsInput = {
@@ -996,18 +2171,37 @@ export type MedicineCreateWithoutReviewsInput = {
   name: string
   genericName?: string | null
   description?: string | null
-  price: number
+  price: runtime.Decimal | runtime.DecimalJsLike | number | string
   stock: number
+  stockDrift?: number
+  stockReconciledAt?: Date | string | null
   manufacturer?: string | null
   imageUrl?: string | null
+  weightGrams?: number | null
   isFeatured?: boolean
   isActive?: boolean
+  licenseSuspended?: boolean
   createdAt?: Date | string
   updatedAt?: Date | string
+  dosageForm?: $Enums.DosageForm | null
+  strength?: number | null
+  strengthUnit?: string | null
+  packSize?: number | null
+  route?: $Enums.AdministrationRoute | null
+  storageConditions?: string | null
+  registrationNumber?: string | null
+  sku?: string | null
+  maxPerOrder?: number | null
+  maxPerPeriod?: number | null
+  limitPeriodDays?: number | null
   category?: Prisma.CategoryCreateNestedOneWithoutMedicinesInput
   seller?: Prisma.UserCreateNestedOneWithoutSellerMedicinesInput
   cartItems?: Prisma.CartItemCreateNestedManyWithoutMedicineInput
   orderItems?: Prisma.OrderItemCreateNestedManyWithoutMedicineInput
+  stockMovements?: Prisma.StockMovementCreateNestedManyWithoutMedicineInput
+  batches?: Prisma.MedicineBatchCreateNestedManyWithoutMedicineInput
+  recalls?: Prisma.RecallCreateNestedManyWithoutMedicineInput
+  ingredients?: Prisma.MedicineIngredientCreateNestedManyWithoutMedicineInput
 }
 
 export type MedicineUncheckedCreateWithoutReviewsInput = {
@@ -1015,18 +2209,37 @@ export type MedicineUncheckedCreateWithoutReviewsInput = {
   name: string
   genericName?: string | null
   description?: string | null
-  price: number
+  price: runtime.Decimal | runtime.DecimalJsLike | number | string
   stock: number
+  stockDrift?: number
+  stockReconciledAt?: Date | string | null
   manufacturer?: string | null
   imageUrl?: string | null
+  weightGrams?: number | null
   isFeatured?: boolean
   isActive?: boolean
+  licenseSuspended?: boolean
   createdAt?: Date | string
   updatedAt?: Date | string
+  dosageForm?: $Enums.DosageForm | null
+  strength?: number | null
+  strengthUnit?: string | null
+  packSize?: number | null
+  route?: $Enums.AdministrationRoute | null
+  storageConditions?: string | null
+  registrationNumber?: string | null
+  sku?: string | null
+  maxPerOrder?: number | null
+  maxPerPeriod?: number | null
+  limitPeriodDays?: number | null
   categoryId?: string | null
   sellerId?: string | null
   cartItems?: Prisma.CartItemUncheckedCreateNestedManyWithoutMedicineInput
   orderItems?: Prisma.OrderItemUncheckedCreateNestedManyWithoutMedicineInput
+  stockMovements?: Prisma.StockMovementUncheckedCreateNestedManyWithoutMedicineInput
+  batches?: Prisma.MedicineBatchUncheckedCreateNestedManyWithoutMedicineInput
+  recalls?: Prisma.RecallUncheckedCreateNestedManyWithoutMedicineInput
+  ingredients?: Prisma.MedicineIngredientUncheckedCreateNestedManyWithoutMedicineInput
 }
 
 export type MedicineCreateOrConnectWithoutReviewsInput = {
@@ -1050,18 +2263,37 @@ export type MedicineUpdateWithoutReviewsInput = {
   name?: Prisma.StringFieldUpdateOperationsInput | string
   genericName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
-  price?: Prisma.FloatFieldUpdateOperationsInput | number
+  price?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
   stock?: Prisma.IntFieldUpdateOperationsInput | number
+  stockDrift?: Prisma.IntFieldUpdateOperationsInput | number
+  stockReconciledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   manufacturer?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   imageUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  weightGrams?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   isFeatured?: Prisma.BoolFieldUpdateOperationsInput | boolean
   isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  licenseSuspended?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  dosageForm?: Prisma.NullableEnumDosageFormFieldUpdateOperationsInput | $Enums.DosageForm | null
+  strength?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  strengthUnit?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  packSize?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  route?: Prisma.NullableEnumAdministrationRouteFieldUpdateOperationsInput | $Enums.AdministrationRoute | null
+  storageConditions?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  registrationNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  sku?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  maxPerOrder?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxPerPeriod?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  limitPeriodDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   category?: Prisma.CategoryUpdateOneWithoutMedicinesNestedInput
   seller?: Prisma.UserUpdateOneWithoutSellerMedicinesNestedInput
   cartItems?: Prisma.CartItemUpdateManyWithoutMedicineNestedInput
   orderItems?: Prisma.OrderItemUpdateManyWithoutMedicineNestedInput
+  stockMovements?: Prisma.StockMovementUpdateManyWithoutMedicineNestedInput
+  batches?: Prisma.MedicineBatchUpdateManyWithoutMedicineNestedInput
+  recalls?: Prisma.RecallUpdateManyWithoutMedicineNestedInput
+  ingredients?: Prisma.MedicineIngredientUpdateManyWithoutMedicineNestedInput
 }
 
 export type MedicineUncheckedUpdateWithoutReviewsInput = {
@@ -1069,18 +2301,205 @@ export type MedicineUncheckedUpdateWithoutReviewsInput = {
   name?: Prisma.StringFieldUpdateOperationsInput | string
   genericName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
-  price?: Prisma.FloatFieldUpdateOperationsInput | number
+  price?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  stock?: Prisma.IntFieldUpdateOperationsInput | number
+  stockDrift?: Prisma.IntFieldUpdateOperationsInput | number
+  stockReconciledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  manufacturer?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  imageUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  weightGrams?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  isFeatured?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  licenseSuspended?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  dosageForm?: Prisma.NullableEnumDosageFormFieldUpdateOperationsInput | $Enums.DosageForm | null
+  strength?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  strengthUnit?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  packSize?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  route?: Prisma.NullableEnumAdministrationRouteFieldUpdateOperationsInput | $Enums.AdministrationRoute | null
+  storageConditions?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  registrationNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  sku?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  maxPerOrder?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxPerPeriod?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  limitPeriodDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  categoryId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  sellerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  cartItems?: Prisma.CartItemUncheckedUpdateManyWithoutMedicineNestedInput
+  orderItems?: Prisma.OrderItemUncheckedUpdateManyWithoutMedicineNestedInput
+  stockMovements?: Prisma.StockMovementUncheckedUpdateManyWithoutMedicineNestedInput
+  batches?: Prisma.MedicineBatchUncheckedUpdateManyWithoutMedicineNestedInput
+  recalls?: Prisma.RecallUncheckedUpdateManyWithoutMedicineNestedInput
+  ingredients?: Prisma.MedicineIngredientUncheckedUpdateManyWithoutMedicineNestedInput
+}
+
+export type MedicineCreateWithoutStockMovementsInput = {
+  id?: string
+  name: string
+  genericName?: string | null
+  description?: string | null
+  price: runtime.Decimal | runtime.DecimalJsLike | number | string
+  stock: number
+  stockDrift?: number
+  stockReconciledAt?: Date | string | null
+  manufacturer?: string | null
+  imageUrl?: string | null
+  weightGrams?: number | null
+  isFeatured?: boolean
+  isActive?: boolean
+  licenseSuspended?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  dosageForm?: $Enums.DosageForm | null
+  strength?: number | null
+  strengthUnit?: string | null
+  packSize?: number | null
+  route?: $Enums.AdministrationRoute | null
+  storageConditions?: string | null
+  registrationNumber?: string | null
+  sku?: string | null
+  maxPerOrder?: number | null
+  maxPerPeriod?: number | null
+  limitPeriodDays?: number | null
+  category?: Prisma.CategoryCreateNestedOneWithoutMedicinesInput
+  seller?: Prisma.UserCreateNestedOneWithoutSellerMedicinesInput
+  cartItems?: Prisma.CartItemCreateNestedManyWithoutMedicineInput
+  orderItems?: Prisma.OrderItemCreateNestedManyWithoutMedicineInput
+  reviews?: Prisma.ReviewCreateNestedManyWithoutMedicineInput
+  batches?: Prisma.MedicineBatchCreateNestedManyWithoutMedicineInput
+  recalls?: Prisma.RecallCreateNestedManyWithoutMedicineInput
+  ingredients?: Prisma.MedicineIngredientCreateNestedManyWithoutMedicineInput
+}
+
+export type MedicineUncheckedCreateWithoutStockMovementsInput = {
+  id?: string
+  name: string
+  genericName?: string | null
+  description?: string | null
+  price: runtime.Decimal | runtime.DecimalJsLike | number | string
+  stock: number
+  stockDrift?: number
+  stockReconciledAt?: Date | string | null
+  manufacturer?: string | null
+  imageUrl?: string | null
+  weightGrams?: number | null
+  isFeatured?: boolean
+  isActive?: boolean
+  licenseSuspended?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  dosageForm?: $Enums.DosageForm | null
+  strength?: number | null
+  strengthUnit?: string | null
+  packSize?: number | null
+  route?: $Enums.AdministrationRoute | null
+  storageConditions?: string | null
+  registrationNumber?: string | null
+  sku?: string | null
+  maxPerOrder?: number | null
+  maxPerPeriod?: number | null
+  limitPeriodDays?: number | null
+  categoryId?: string | null
+  sellerId?: string | null
+  cartItems?: Prisma.CartItemUncheckedCreateNestedManyWithoutMedicineInput
+  orderItems?: Prisma.OrderItemUncheckedCreateNestedManyWithoutMedicineInput
+  reviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutMedicineInput
+  batches?: Prisma.MedicineBatchUncheckedCreateNestedManyWithoutMedicineInput
+  recalls?: Prisma.RecallUncheckedCreateNestedManyWithoutMedicineInput
+  ingredients?: Prisma.MedicineIngredientUncheckedCreateNestedManyWithoutMedicineInput
+}
+
+export type MedicineCreateOrConnectWithoutStockMovementsInput = {
+  where: Prisma.MedicineWhereUniqueInput
+  create: Prisma.XOR<Prisma.MedicineCreateWithoutStockMovementsInput, Prisma.MedicineUncheckedCreateWithoutStockMovementsInput>
+}
+
+export type MedicineUpsertWithoutStockMovementsInput = {
+  update: Prisma.XOR<Prisma.MedicineUpdateWithoutStockMovementsInput, Prisma.MedicineUncheckedUpdateWithoutStockMovementsInput>
+  create: Prisma.XOR<Prisma.MedicineCreateWithoutStockMovementsInput, Prisma.MedicineUncheckedCreateWithoutStockMovementsInput>
+  where?: Prisma.MedicineWhereInput
+}
+
+export type MedicineUpdateToOneWithWhereWithoutStockMovementsInput = {
+  where?: Prisma.MedicineWhereInput
+  data: Prisma.XOR<Prisma.MedicineUpdateWithoutStockMovementsInput, Prisma.MedicineUncheckedUpdateWithoutStockMovementsInput>
+}
+
+export type MedicineUpdateWithoutStockMovementsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  genericName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  price?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
   stock?: Prisma.IntFieldUpdateOperationsInput | number
+  stockDrift?: Prisma.IntFieldUpdateOperationsInput | number
+  stockReconciledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   manufacturer?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   imageUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  weightGrams?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   isFeatured?: Prisma.BoolFieldUpdateOperationsInput | boolean
   isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  licenseSuspended?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  dosageForm?: Prisma.NullableEnumDosageFormFieldUpdateOperationsInput | $Enums.DosageForm | null
+  strength?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  strengthUnit?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  packSize?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  route?: Prisma.NullableEnumAdministrationRouteFieldUpdateOperationsInput | $Enums.AdministrationRoute | null
+  storageConditions?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  registrationNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  sku?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  maxPerOrder?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxPerPeriod?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  limitPeriodDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  category?: Prisma.CategoryUpdateOneWithoutMedicinesNestedInput
+  seller?: Prisma.UserUpdateOneWithoutSellerMedicinesNestedInput
+  cartItems?: Prisma.CartItemUpdateManyWithoutMedicineNestedInput
+  orderItems?: Prisma.OrderItemUpdateManyWithoutMedicineNestedInput
+  reviews?: Prisma.ReviewUpdateManyWithoutMedicineNestedInput
+  batches?: Prisma.MedicineBatchUpdateManyWithoutMedicineNestedInput
+  recalls?: Prisma.RecallUpdateManyWithoutMedicineNestedInput
+  ingredients?: Prisma.MedicineIngredientUpdateManyWithoutMedicineNestedInput
+}
+
+export type MedicineUncheckedUpdateWithoutStockMovementsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  genericName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  price?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  stock?: Prisma.IntFieldUpdateOperationsInput | number
+  stockDrift?: Prisma.IntFieldUpdateOperationsInput | number
+  stockReconciledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  manufacturer?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  imageUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  weightGrams?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  isFeatured?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  licenseSuspended?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  dosageForm?: Prisma.NullableEnumDosageFormFieldUpdateOperationsInput | $Enums.DosageForm | null
+  strength?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  strengthUnit?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  packSize?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  route?: Prisma.NullableEnumAdministrationRouteFieldUpdateOperationsInput | $Enums.AdministrationRoute | null
+  storageConditions?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  registrationNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  sku?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  maxPerOrder?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxPerPeriod?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  limitPeriodDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   categoryId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   sellerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   cartItems?: Prisma.CartItemUncheckedUpdateManyWithoutMedicineNestedInput
   orderItems?: Prisma.OrderItemUncheckedUpdateManyWithoutMedicineNestedInput
+  reviews?: Prisma.ReviewUncheckedUpdateManyWithoutMedicineNestedInput
+  batches?: Prisma.MedicineBatchUncheckedUpdateManyWithoutMedicineNestedInput
+  recalls?: Prisma.RecallUncheckedUpdateManyWithoutMedicineNestedInput
+  ingredients?: Prisma.MedicineIngredientUncheckedUpdateManyWithoutMedicineNestedInput
 }
 
 export type MedicineCreateWithoutSellerInput = {
@@ -1088,18 +2507,37 @@ export type MedicineCreateWithoutSellerInput = {
   name: string
   genericName?: string | null
   description?: string | null
-  price: number
+  price: runtime.Decimal | runtime.DecimalJsLike | number | string
   stock: number
+  stockDrift?: number
+  stockReconciledAt?: Date | string | null
   manufacturer?: string | null
   imageUrl?: string | null
+  weightGrams?: number | null
   isFeatured?: boolean
   isActive?: boolean
+  licenseSuspended?: boolean
   createdAt?: Date | string
   updatedAt?: Date | string
+  dosageForm?: $Enums.DosageForm | null
+  strength?: number | null
+  strengthUnit?: string | null
+  packSize?: number | null
+  route?: $Enums.AdministrationRoute | null
+  storageConditions?: string | null
+  registrationNumber?: string | null
+  sku?: string | null
+  maxPerOrder?: number | null
+  maxPerPeriod?: number | null
+  limitPeriodDays?: number | null
   category?: Prisma.CategoryCreateNestedOneWithoutMedicinesInput
   cartItems?: Prisma.CartItemCreateNestedManyWithoutMedicineInput
   orderItems?: Prisma.OrderItemCreateNestedManyWithoutMedicineInput
   reviews?: Prisma.ReviewCreateNestedManyWithoutMedicineInput
+  stockMovements?: Prisma.StockMovementCreateNestedManyWithoutMedicineInput
+  batches?: Prisma.MedicineBatchCreateNestedManyWithoutMedicineInput
+  recalls?: Prisma.RecallCreateNestedManyWithoutMedicineInput
+  ingredients?: Prisma.MedicineIngredientCreateNestedManyWithoutMedicineInput
 }
 
 export type MedicineUncheckedCreateWithoutSellerInput = {
@@ -1107,18 +2545,37 @@ export type MedicineUncheckedCreateWithoutSellerInput = {
   name: string
   genericName?: string | null
   description?: string | null
-  price: number
+  price: runtime.Decimal | runtime.DecimalJsLike | number | string
   stock: number
+  stockDrift?: number
+  stockReconciledAt?: Date | string | null
   manufacturer?: string | null
   imageUrl?: string | null
+  weightGrams?: number | null
   isFeatured?: boolean
   isActive?: boolean
+  licenseSuspended?: boolean
   createdAt?: Date | string
   updatedAt?: Date | string
+  dosageForm?: $Enums.DosageForm | null
+  strength?: number | null
+  strengthUnit?: string | null
+  packSize?: number | null
+  route?: $Enums.AdministrationRoute | null
+  storageConditions?: string | null
+  registrationNumber?: string | null
+  sku?: string | null
+  maxPerOrder?: number | null
+  maxPerPeriod?: number | null
+  limitPeriodDays?: number | null
   categoryId?: string | null
   cartItems?: Prisma.CartItemUncheckedCreateNestedManyWithoutMedicineInput
   orderItems?: Prisma.OrderItemUncheckedCreateNestedManyWithoutMedicineInput
   reviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutMedicineInput
+  stockMovements?: Prisma.StockMovementUncheckedCreateNestedManyWithoutMedicineInput
+  batches?: Prisma.MedicineBatchUncheckedCreateNestedManyWithoutMedicineInput
+  recalls?: Prisma.RecallUncheckedCreateNestedManyWithoutMedicineInput
+  ingredients?: Prisma.MedicineIngredientUncheckedCreateNestedManyWithoutMedicineInput
 }
 
 export type MedicineCreateOrConnectWithoutSellerInput = {
@@ -1152,14 +2609,29 @@ export type MedicineCreateManyCategoryInput = {
   name: string
   genericName?: string | null
   description?: string | null
-  price: number
+  price: runtime.Decimal | runtime.DecimalJsLike | number | string
   stock: number
+  stockDrift?: number
+  stockReconciledAt?: Date | string | null
   manufacturer?: string | null
   imageUrl?: string | null
+  weightGrams?: number | null
   isFeatured?: boolean
   isActive?: boolean
+  licenseSuspended?: boolean
   createdAt?: Date | string
   updatedAt?: Date | string
+  dosageForm?: $Enums.DosageForm | null
+  strength?: number | null
+  strengthUnit?: string | null
+  packSize?: number | null
+  route?: $Enums.AdministrationRoute | null
+  storageConditions?: string | null
+  registrationNumber?: string | null
+  sku?: string | null
+  maxPerOrder?: number | null
+  maxPerPeriod?: number | null
+  limitPeriodDays?: number | null
   sellerId?: string | null
 }
 
@@ -1168,18 +2640,37 @@ export type MedicineUpdateWithoutCategoryInput = {
   name?: Prisma.StringFieldUpdateOperationsInput | string
   genericName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
-  price?: Prisma.FloatFieldUpdateOperationsInput | number
+  price?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
   stock?: Prisma.IntFieldUpdateOperationsInput | number
+  stockDrift?: Prisma.IntFieldUpdateOperationsInput | number
+  stockReconciledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   manufacturer?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   imageUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  weightGrams?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   isFeatured?: Prisma.BoolFieldUpdateOperationsInput | boolean
   isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  licenseSuspended?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  dosageForm?: Prisma.NullableEnumDosageFormFieldUpdateOperationsInput | $Enums.DosageForm | null
+  strength?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  strengthUnit?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  packSize?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  route?: Prisma.NullableEnumAdministrationRouteFieldUpdateOperationsInput | $Enums.AdministrationRoute | null
+  storageConditions?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  registrationNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  sku?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  maxPerOrder?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxPerPeriod?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  limitPeriodDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   seller?: Prisma.UserUpdateOneWithoutSellerMedicinesNestedInput
   cartItems?: Prisma.CartItemUpdateManyWithoutMedicineNestedInput
   orderItems?: Prisma.OrderItemUpdateManyWithoutMedicineNestedInput
   reviews?: Prisma.ReviewUpdateManyWithoutMedicineNestedInput
+  stockMovements?: Prisma.StockMovementUpdateManyWithoutMedicineNestedInput
+  batches?: Prisma.MedicineBatchUpdateManyWithoutMedicineNestedInput
+  recalls?: Prisma.RecallUpdateManyWithoutMedicineNestedInput
+  ingredients?: Prisma.MedicineIngredientUpdateManyWithoutMedicineNestedInput
 }
 
 export type MedicineUncheckedUpdateWithoutCategoryInput = {
@@ -1187,18 +2678,37 @@ export type MedicineUncheckedUpdateWithoutCategoryInput = {
   name?: Prisma.StringFieldUpdateOperationsInput | string
   genericName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
-  price?: Prisma.FloatFieldUpdateOperationsInput | number
+  price?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
   stock?: Prisma.IntFieldUpdateOperationsInput | number
+  stockDrift?: Prisma.IntFieldUpdateOperationsInput | number
+  stockReconciledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   manufacturer?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   imageUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  weightGrams?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   isFeatured?: Prisma.BoolFieldUpdateOperationsInput | boolean
   isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  licenseSuspended?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  dosageForm?: Prisma.NullableEnumDosageFormFieldUpdateOperationsInput | $Enums.DosageForm | null
+  strength?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  strengthUnit?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  packSize?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  route?: Prisma.NullableEnumAdministrationRouteFieldUpdateOperationsInput | $Enums.AdministrationRoute | null
+  storageConditions?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  registrationNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  sku?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  maxPerOrder?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxPerPeriod?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  limitPeriodDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   sellerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   cartItems?: Prisma.CartItemUncheckedUpdateManyWithoutMedicineNestedInput
   orderItems?: Prisma.OrderItemUncheckedUpdateManyWithoutMedicineNestedInput
   reviews?: Prisma.ReviewUncheckedUpdateManyWithoutMedicineNestedInput
+  stockMovements?: Prisma.StockMovementUncheckedUpdateManyWithoutMedicineNestedInput
+  batches?: Prisma.MedicineBatchUncheckedUpdateManyWithoutMedicineNestedInput
+  recalls?: Prisma.RecallUncheckedUpdateManyWithoutMedicineNestedInput
+  ingredients?: Prisma.MedicineIngredientUncheckedUpdateManyWithoutMedicineNestedInput
 }
 
 export type MedicineUncheckedUpdateManyWithoutCategoryInput = {
@@ -1206,14 +2716,29 @@ export type MedicineUncheckedUpdateManyWithoutCategoryInput = {
   name?: Prisma.StringFieldUpdateOperationsInput | string
   genericName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
-  price?: Prisma.FloatFieldUpdateOperationsInput | number
+  price?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
   stock?: Prisma.IntFieldUpdateOperationsInput | number
+  stockDrift?: Prisma.IntFieldUpdateOperationsInput | number
+  stockReconciledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   manufacturer?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   imageUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  weightGrams?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   isFeatured?: Prisma.BoolFieldUpdateOperationsInput | boolean
   isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  licenseSuspended?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  dosageForm?: Prisma.NullableEnumDosageFormFieldUpdateOperationsInput | $Enums.DosageForm | null
+  strength?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  strengthUnit?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  packSize?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  route?: Prisma.NullableEnumAdministrationRouteFieldUpdateOperationsInput | $Enums.AdministrationRoute | null
+  storageConditions?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  registrationNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  sku?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  maxPerOrder?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxPerPeriod?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  limitPeriodDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   sellerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
 }
 
@@ -1222,14 +2747,29 @@ export type MedicineCreateManySellerInput = {
   name: string
   genericName?: string | null
   description?: string | null
-  price: number
+  price: runtime.Decimal | runtime.DecimalJsLike | number | string
   stock: number
+  stockDrift?: number
+  stockReconciledAt?: Date | string | null
   manufacturer?: string | null
   imageUrl?: string | null
+  weightGrams?: number | null
   isFeatured?: boolean
   isActive?: boolean
+  licenseSuspended?: boolean
   createdAt?: Date | string
   updatedAt?: Date | string
+  dosageForm?: $Enums.DosageForm | null
+  strength?: number | null
+  strengthUnit?: string | null
+  packSize?: number | null
+  route?: $Enums.AdministrationRoute | null
+  storageConditions?: string | null
+  registrationNumber?: string | null
+  sku?: string | null
+  maxPerOrder?: number | null
+  maxPerPeriod?: number | null
+  limitPeriodDays?: number | null
   categoryId?: string | null
 }
 
@@ -1238,18 +2778,37 @@ export type MedicineUpdateWithoutSellerInput = {
   name?: Prisma.StringFieldUpdateOperationsInput | string
   genericName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
-  price?: Prisma.FloatFieldUpdateOperationsInput | number
+  price?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
   stock?: Prisma.IntFieldUpdateOperationsInput | number
+  stockDrift?: Prisma.IntFieldUpdateOperationsInput | number
+  stockReconciledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   manufacturer?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   imageUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  weightGrams?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   isFeatured?: Prisma.BoolFieldUpdateOperationsInput | boolean
   isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  licenseSuspended?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  dosageForm?: Prisma.NullableEnumDosageFormFieldUpdateOperationsInput | $Enums.DosageForm | null
+  strength?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  strengthUnit?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  packSize?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  route?: Prisma.NullableEnumAdministrationRouteFieldUpdateOperationsInput | $Enums.AdministrationRoute | null
+  storageConditions?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  registrationNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  sku?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  maxPerOrder?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxPerPeriod?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  limitPeriodDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   category?: Prisma.CategoryUpdateOneWithoutMedicinesNestedInput
   cartItems?: Prisma.CartItemUpdateManyWithoutMedicineNestedInput
   orderItems?: Prisma.OrderItemUpdateManyWithoutMedicineNestedInput
   reviews?: Prisma.ReviewUpdateManyWithoutMedicineNestedInput
+  stockMovements?: Prisma.StockMovementUpdateManyWithoutMedicineNestedInput
+  batches?: Prisma.MedicineBatchUpdateManyWithoutMedicineNestedInput
+  recalls?: Prisma.RecallUpdateManyWithoutMedicineNestedInput
+  ingredients?: Prisma.MedicineIngredientUpdateManyWithoutMedicineNestedInput
 }
 
 export type MedicineUncheckedUpdateWithoutSellerInput = {
@@ -1257,18 +2816,37 @@ export type MedicineUncheckedUpdateWithoutSellerInput = {
   name?: Prisma.StringFieldUpdateOperationsInput | string
   genericName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
-  price?: Prisma.FloatFieldUpdateOperationsInput | number
+  price?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
   stock?: Prisma.IntFieldUpdateOperationsInput | number
+  stockDrift?: Prisma.IntFieldUpdateOperationsInput | number
+  stockReconciledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   manufacturer?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   imageUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  weightGrams?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   isFeatured?: Prisma.BoolFieldUpdateOperationsInput | boolean
   isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  licenseSuspended?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  dosageForm?: Prisma.NullableEnumDosageFormFieldUpdateOperationsInput | $Enums.DosageForm | null
+  strength?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  strengthUnit?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  packSize?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  route?: Prisma.NullableEnumAdministrationRouteFieldUpdateOperationsInput | $Enums.AdministrationRoute | null
+  storageConditions?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  registrationNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  sku?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  maxPerOrder?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxPerPeriod?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  limitPeriodDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   categoryId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   cartItems?: Prisma.CartItemUncheckedUpdateManyWithoutMedicineNestedInput
   orderItems?: Prisma.OrderItemUncheckedUpdateManyWithoutMedicineNestedInput
   reviews?: Prisma.ReviewUncheckedUpdateManyWithoutMedicineNestedInput
+  stockMovements?: Prisma.StockMovementUncheckedUpdateManyWithoutMedicineNestedInput
+  batches?: Prisma.MedicineBatchUncheckedUpdateManyWithoutMedicineNestedInput
+  recalls?: Prisma.RecallUncheckedUpdateManyWithoutMedicineNestedInput
+  ingredients?: Prisma.MedicineIngredientUncheckedUpdateManyWithoutMedicineNestedInput
 }
 
 export type MedicineUncheckedUpdateManyWithoutSellerInput = {
@@ -1276,14 +2854,29 @@ export type MedicineUncheckedUpdateManyWithoutSellerInput = {
   name?: Prisma.StringFieldUpdateOperationsInput | string
   genericName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
-  price?: Prisma.FloatFieldUpdateOperationsInput | number
+  price?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
   stock?: Prisma.IntFieldUpdateOperationsInput | number
+  stockDrift?: Prisma.IntFieldUpdateOperationsInput | number
+  stockReconciledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   manufacturer?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   imageUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  weightGrams?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   isFeatured?: Prisma.BoolFieldUpdateOperationsInput | boolean
   isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  licenseSuspended?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  dosageForm?: Prisma.NullableEnumDosageFormFieldUpdateOperationsInput | $Enums.DosageForm | null
+  strength?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  strengthUnit?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  packSize?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  route?: Prisma.NullableEnumAdministrationRouteFieldUpdateOperationsInput | $Enums.AdministrationRoute | null
+  storageConditions?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  registrationNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  sku?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  maxPerOrder?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxPerPeriod?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  limitPeriodDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   categoryId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
 }
 
@@ -1296,12 +2889,20 @@ export type MedicineCountOutputType = {
   cartItems: number
   orderItems: number
   reviews: number
+  stockMovements: number
+  batches: number
+  recalls: number
+  ingredients: number
 }
 
 export type MedicineCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   cartItems?: boolean | MedicineCountOutputTypeCountCartItemsArgs
   orderItems?: boolean | MedicineCountOutputTypeCountOrderItemsArgs
   reviews?: boolean | MedicineCountOutputTypeCountReviewsArgs
+  stockMovements?: boolean | MedicineCountOutputTypeCountStockMovementsArgs
+  batches?: boolean | MedicineCountOutputTypeCountBatchesArgs
+  recalls?: boolean | MedicineCountOutputTypeCountRecallsArgs
+  ingredients?: boolean | MedicineCountOutputTypeCountIngredientsArgs
 }
 
 /**
@@ -1335,6 +2936,34 @@ export type MedicineCountOutputTypeCountReviewsArgs<ExtArgs extends runtime.Type
   where?: Prisma.ReviewWhereInput
 }
 
+/**
+ * MedicineCountOutputType without action
+ */
+export type MedicineCountOutputTypeCountStockMovementsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.StockMovementWhereInput
+}
+
+/**
+ * MedicineCountOutputType without action
+ */
+export type MedicineCountOutputTypeCountBatchesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.MedicineBatchWhereInput
+}
+
+/**
+ * MedicineCountOutputType without action
+ */
+export type MedicineCountOutputTypeCountRecallsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.RecallWhereInput
+}
+
+/**
+ * MedicineCountOutputType without action
+ */
+export type MedicineCountOutputTypeCountIngredientsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.MedicineIngredientWhereInput
+}
+
 
 export type MedicineSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
@@ -1343,12 +2972,27 @@ export type MedicineSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs
   description?: boolean
   price?: boolean
   stock?: boolean
+  stockDrift?: boolean
+  stockReconciledAt?: boolean
   manufacturer?: boolean
   imageUrl?: boolean
+  weightGrams?: boolean
   isFeatured?: boolean
   isActive?: boolean
+  licenseSuspended?: boolean
   createdAt?: boolean
   updatedAt?: boolean
+  dosageForm?: boolean
+  strength?: boolean
+  strengthUnit?: boolean
+  packSize?: boolean
+  route?: boolean
+  storageConditions?: boolean
+  registrationNumber?: boolean
+  sku?: boolean
+  maxPerOrder?: boolean
+  maxPerPeriod?: boolean
+  limitPeriodDays?: boolean
   categoryId?: boolean
   sellerId?: boolean
   category?: boolean | Prisma.Medicine$categoryArgs<ExtArgs>
@@ -1356,6 +3000,10 @@ export type MedicineSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs
   cartItems?: boolean | Prisma.Medicine$cartItemsArgs<ExtArgs>
   orderItems?: boolean | Prisma.Medicine$orderItemsArgs<ExtArgs>
   reviews?: boolean | Prisma.Medicine$reviewsArgs<ExtArgs>
+  stockMovements?: boolean | Prisma.Medicine$stockMovementsArgs<ExtArgs>
+  batches?: boolean | Prisma.Medicine$batchesArgs<ExtArgs>
+  recalls?: boolean | Prisma.Medicine$recallsArgs<ExtArgs>
+  ingredients?: boolean | Prisma.Medicine$ingredientsArgs<ExtArgs>
   _count?: boolean | Prisma.MedicineCountOutputTypeDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["medicine"]>
 
@@ -1366,12 +3014,27 @@ export type MedicineSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Exte
   description?: boolean
   price?: boolean
   stock?: boolean
+  stockDrift?: boolean
+  stockReconciledAt?: boolean
   manufacturer?: boolean
   imageUrl?: boolean
+  weightGrams?: boolean
   isFeatured?: boolean
   isActive?: boolean
+  licenseSuspended?: boolean
   createdAt?: boolean
   updatedAt?: boolean
+  dosageForm?: boolean
+  strength?: boolean
+  strengthUnit?: boolean
+  packSize?: boolean
+  route?: boolean
+  storageConditions?: boolean
+  registrationNumber?: boolean
+  sku?: boolean
+  maxPerOrder?: boolean
+  maxPerPeriod?: boolean
+  limitPeriodDays?: boolean
   categoryId?: boolean
   sellerId?: boolean
   category?: boolean | Prisma.Medicine$categoryArgs<ExtArgs>
@@ -1385,12 +3048,27 @@ export type MedicineSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Exte
   description?: boolean
   price?: boolean
   stock?: boolean
+  stockDrift?: boolean
+  stockReconciledAt?: boolean
   manufacturer?: boolean
   imageUrl?: boolean
+  weightGrams?: boolean
   isFeatured?: boolean
   isActive?: boolean
+  licenseSuspended?: boolean
   createdAt?: boolean
   updatedAt?: boolean
+  dosageForm?: boolean
+  strength?: boolean
+  strengthUnit?: boolean
+  packSize?: boolean
+  route?: boolean
+  storageConditions?: boolean
+  registrationNumber?: boolean
+  sku?: boolean
+  maxPerOrder?: boolean
+  maxPerPeriod?: boolean
+  limitPeriodDays?: boolean
   categoryId?: boolean
   sellerId?: boolean
   category?: boolean | Prisma.Medicine$categoryArgs<ExtArgs>
@@ -1404,23 +3082,42 @@ export type MedicineSelectScalar = {
   description?: boolean
   price?: boolean
   stock?: boolean
+  stockDrift?: boolean
+  stockReconciledAt?: boolean
   manufacturer?: boolean
   imageUrl?: boolean
+  weightGrams?: boolean
   isFeatured?: boolean
   isActive?: boolean
+  licenseSuspended?: boolean
   createdAt?: boolean
   updatedAt?: boolean
+  dosageForm?: boolean
+  strength?: boolean
+  strengthUnit?: boolean
+  packSize?: boolean
+  route?: boolean
+  storageConditions?: boolean
+  registrationNumber?: boolean
+  sku?: boolean
+  maxPerOrder?: boolean
+  maxPerPeriod?: boolean
+  limitPeriodDays?: boolean
   categoryId?: boolean
   sellerId?: boolean
 }
 
-export type MedicineOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "name" | "genericName" | "description" | "price" | "stock" | "manufacturer" | "imageUrl" | "isFeatured" | "isActive" | "createdAt" | "updatedAt" | "categoryId" | "sellerId", ExtArgs["result"]["medicine"]>
+export type MedicineOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "name" | "genericName" | "description" | "price" | "stock" | "stockDrift" | "stockReconciledAt" | "manufacturer" | "imageUrl" | "weightGrams" | "isFeatured" | "isActive" | "licenseSuspended" | "createdAt" | "updatedAt" | "dosageForm" | "strength" | "strengthUnit" | "packSize" | "route" | "storageConditions" | "registrationNumber" | "sku" | "maxPerOrder" | "maxPerPeriod" | "limitPeriodDays" | "categoryId" | "sellerId", ExtArgs["result"]["medicine"]>
 export type MedicineInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   category?: boolean | Prisma.Medicine$categoryArgs<ExtArgs>
   seller?: boolean | Prisma.Medicine$sellerArgs<ExtArgs>
   cartItems?: boolean | Prisma.Medicine$cartItemsArgs<ExtArgs>
   orderItems?: boolean | Prisma.Medicine$orderItemsArgs<ExtArgs>
   reviews?: boolean | Prisma.Medicine$reviewsArgs<ExtArgs>
+  stockMovements?: boolean | Prisma.Medicine$stockMovementsArgs<ExtArgs>
+  batches?: boolean | Prisma.Medicine$batchesArgs<ExtArgs>
+  recalls?: boolean | Prisma.Medicine$recallsArgs<ExtArgs>
+  ingredients?: boolean | Prisma.Medicine$ingredientsArgs<ExtArgs>
   _count?: boolean | Prisma.MedicineCountOutputTypeDefaultArgs<ExtArgs>
 }
 export type MedicineIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
@@ -1440,20 +3137,39 @@ export type $MedicinePayload<ExtArgs extends runtime.Types.Extensions.InternalAr
     cartItems: Prisma.$CartItemPayload<ExtArgs>[]
     orderItems: Prisma.$OrderItemPayload<ExtArgs>[]
     reviews: Prisma.$ReviewPayload<ExtArgs>[]
+    stockMovements: Prisma.$StockMovementPayload<ExtArgs>[]
+    batches: Prisma.$MedicineBatchPayload<ExtArgs>[]
+    recalls: Prisma.$RecallPayload<ExtArgs>[]
+    ingredients: Prisma.$MedicineIngredientPayload<ExtArgs>[]
   }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
     id: string
     name: string
     genericName: string | null
     description: string | null
-    price: number
+    price: runtime.Decimal
     stock: number
+    stockDrift: number
+    stockReconciledAt: Date | null
     manufacturer: string | null
     imageUrl: string | null
+    weightGrams: number | null
     isFeatured: boolean
     isActive: boolean
+    licenseSuspended: boolean
     createdAt: Date
     updatedAt: Date
+    dosageForm: $Enums.DosageForm | null
+    strength: number | null
+    strengthUnit: string | null
+    packSize: number | null
+    route: $Enums.AdministrationRoute | null
+    storageConditions: string | null
+    registrationNumber: string | null
+    sku: string | null
+    maxPerOrder: number | null
+    maxPerPeriod: number | null
+    limitPeriodDays: number | null
     categoryId: string | null
     sellerId: string | null
   }, ExtArgs["result"]["medicine"]>
@@ -1855,6 +3571,10 @@ export interface Prisma__MedicineClient<T, Null = never, ExtArgs extends runtime
   cartItems<T extends Prisma.Medicine$cartItemsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Medicine$cartItemsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$CartItemPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   orderItems<T extends Prisma.Medicine$orderItemsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Medicine$orderItemsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$OrderItemPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   reviews<T extends Prisma.Medicine$reviewsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Medicine$reviewsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ReviewPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  stockMovements<T extends Prisma.Medicine$stockMovementsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Medicine$stockMovementsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$StockMovementPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  batches<T extends Prisma.Medicine$batchesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Medicine$batchesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$MedicineBatchPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  recalls<T extends Prisma.Medicine$recallsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Medicine$recallsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$RecallPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  ingredients<T extends Prisma.Medicine$ingredientsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Medicine$ingredientsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$MedicineIngredientPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
    * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -1888,14 +3608,29 @@ export interface MedicineFieldRefs {
   readonly name: Prisma.FieldRef<"Medicine", 'String'>
   readonly genericName: Prisma.FieldRef<"Medicine", 'String'>
   readonly description: Prisma.FieldRef<"Medicine", 'String'>
-  readonly price: Prisma.FieldRef<"Medicine", 'Float'>
+  readonly price: Prisma.FieldRef<"Medicine", 'Decimal'>
   readonly stock: Prisma.FieldRef<"Medicine", 'Int'>
+  readonly stockDrift: Prisma.FieldRef<"Medicine", 'Int'>
+  readonly stockReconciledAt: Prisma.FieldRef<"Medicine", 'DateTime'>
   readonly manufacturer: Prisma.FieldRef<"Medicine", 'String'>
   readonly imageUrl: Prisma.FieldRef<"Medicine", 'String'>
+  readonly weightGrams: Prisma.FieldRef<"Medicine", 'Int'>
   readonly isFeatured: Prisma.FieldRef<"Medicine", 'Boolean'>
   readonly isActive: Prisma.FieldRef<"Medicine", 'Boolean'>
+  readonly licenseSuspended: Prisma.FieldRef<"Medicine", 'Boolean'>
   readonly createdAt: Prisma.FieldRef<"Medicine", 'DateTime'>
   readonly updatedAt: Prisma.FieldRef<"Medicine", 'DateTime'>
+  readonly dosageForm: Prisma.FieldRef<"Medicine", 'DosageForm'>
+  readonly strength: Prisma.FieldRef<"Medicine", 'Float'>
+  readonly strengthUnit: Prisma.FieldRef<"Medicine", 'String'>
+  readonly packSize: Prisma.FieldRef<"Medicine", 'Int'>
+  readonly route: Prisma.FieldRef<"Medicine", 'AdministrationRoute'>
+  readonly storageConditions: Prisma.FieldRef<"Medicine", 'String'>
+  readonly registrationNumber: Prisma.FieldRef<"Medicine", 'String'>
+  readonly sku: Prisma.FieldRef<"Medicine", 'String'>
+  readonly maxPerOrder: Prisma.FieldRef<"Medicine", 'Int'>
+  readonly maxPerPeriod: Prisma.FieldRef<"Medicine", 'Int'>
+  readonly limitPeriodDays: Prisma.FieldRef<"Medicine", 'Int'>
   readonly categoryId: Prisma.FieldRef<"Medicine", 'String'>
   readonly sellerId: Prisma.FieldRef<"Medicine", 'String'>
 }
@@ -2403,6 +4138,102 @@ export type Medicine$reviewsArgs<ExtArgs extends runtime.Types.Extensions.Intern
   distinct?: Prisma.ReviewScalarFieldEnum | Prisma.ReviewScalarFieldEnum[]
 }
 
+/**
+ * Medicine.stockMovements
+ */
+export type Medicine$stockMovementsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the StockMovement
+   */
+  select?: Prisma.StockMovementSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the StockMovement
+   */
+  omit?: Prisma.StockMovementOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.StockMovementInclude<ExtArgs> | null
+  where?: Prisma.StockMovementWhereInput
+  orderBy?: Prisma.StockMovementOrderByWithRelationInput | Prisma.StockMovementOrderByWithRelationInput[]
+  cursor?: Prisma.StockMovementWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.StockMovementScalarFieldEnum | Prisma.StockMovementScalarFieldEnum[]
+}
+
+/**
+ * Medicine.batches
+ */
+export type Medicine$batchesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the MedicineBatch
+   */
+  select?: Prisma.MedicineBatchSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the MedicineBatch
+   */
+  omit?: Prisma.MedicineBatchOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.MedicineBatchInclude<ExtArgs> | null
+  where?: Prisma.MedicineBatchWhereInput
+  orderBy?: Prisma.MedicineBatchOrderByWithRelationInput | Prisma.MedicineBatchOrderByWithRelationInput[]
+  cursor?: Prisma.MedicineBatchWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.MedicineBatchScalarFieldEnum | Prisma.MedicineBatchScalarFieldEnum[]
+}
+
+/**
+ * Medicine.recalls
+ */
+export type Medicine$recallsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Recall
+   */
+  select?: Prisma.RecallSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Recall
+   */
+  omit?: Prisma.RecallOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RecallInclude<ExtArgs> | null
+  where?: Prisma.RecallWhereInput
+  orderBy?: Prisma.RecallOrderByWithRelationInput | Prisma.RecallOrderByWithRelationInput[]
+  cursor?: Prisma.RecallWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.RecallScalarFieldEnum | Prisma.RecallScalarFieldEnum[]
+}
+
+/**
+ * Medicine.ingredients
+ */
+export type Medicine$ingredientsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the MedicineIngredient
+   */
+  select?: Prisma.MedicineIngredientSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the MedicineIngredient
+   */
+  omit?: Prisma.MedicineIngredientOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.MedicineIngredientInclude<ExtArgs> | null
+  where?: Prisma.MedicineIngredientWhereInput
+  orderBy?: Prisma.MedicineIngredientOrderByWithRelationInput | Prisma.MedicineIngredientOrderByWithRelationInput[]
+  cursor?: Prisma.MedicineIngredientWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.MedicineIngredientScalarFieldEnum | Prisma.MedicineIngredientScalarFieldEnum[]
+}
+
 /**
  * Medicine without action
  */
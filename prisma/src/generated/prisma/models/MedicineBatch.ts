@@ -0,0 +1,2070 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `MedicineBatch` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model MedicineBatch
+ * 
+ */
+export type MedicineBatchModel = runtime.Types.Result.DefaultSelection<Prisma.$MedicineBatchPayload>
+
+export type AggregateMedicineBatch = {
+  _count: MedicineBatchCountAggregateOutputType | null
+  _avg: MedicineBatchAvgAggregateOutputType | null
+  _sum: MedicineBatchSumAggregateOutputType | null
+  _min: MedicineBatchMinAggregateOutputType | null
+  _max: MedicineBatchMaxAggregateOutputType | null
+}
+
+export type MedicineBatchAvgAggregateOutputType = {
+  quantity: number | null
+  purchaseCost: runtime.Decimal | null
+}
+
+export type MedicineBatchSumAggregateOutputType = {
+  quantity: number | null
+  purchaseCost: runtime.Decimal | null
+}
+
+export type MedicineBatchMinAggregateOutputType = {
+  id: string | null
+  medicineId: string | null
+  batchNumber: string | null
+  manufactureDate: Date | null
+  expiryDate: Date | null
+  quantity: number | null
+  purchaseCost: runtime.Decimal | null
+  recallId: string | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type MedicineBatchMaxAggregateOutputType = {
+  id: string | null
+  medicineId: string | null
+  batchNumber: string | null
+  manufactureDate: Date | null
+  expiryDate: Date | null
+  quantity: number | null
+  purchaseCost: runtime.Decimal | null
+  recallId: string | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type MedicineBatchCountAggregateOutputType = {
+  id: number
+  medicineId: number
+  batchNumber: number
+  manufactureDate: number
+  expiryDate: number
+  quantity: number
+  purchaseCost: number
+  recallId: number
+  createdAt: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type MedicineBatchAvgAggregateInputType = {
+  quantity?: true
+  purchaseCost?: true
+}
+
+export type MedicineBatchSumAggregateInputType = {
+  quantity?: true
+  purchaseCost?: true
+}
+
+export type MedicineBatchMinAggregateInputType = {
+  id?: true
+  medicineId?: true
+  batchNumber?: true
+  manufactureDate?: true
+  expiryDate?: true
+  quantity?: true
+  purchaseCost?: true
+  recallId?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type MedicineBatchMaxAggregateInputType = {
+  id?: true
+  medicineId?: true
+  batchNumber?: true
+  manufactureDate?: true
+  expiryDate?: true
+  quantity?: true
+  purchaseCost?: true
+  recallId?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type MedicineBatchCountAggregateInputType = {
+  id?: true
+  medicineId?: true
+  batchNumber?: true
+  manufactureDate?: true
+  expiryDate?: true
+  quantity?: true
+  purchaseCost?: true
+  recallId?: true
+  createdAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type MedicineBatchAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which MedicineBatch to aggregate.
+   */
+  where?: Prisma.MedicineBatchWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of MedicineBatches to fetch.
+   */
+  orderBy?: Prisma.MedicineBatchOrderByWithRelationInput | Prisma.MedicineBatchOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.MedicineBatchWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` MedicineBatches from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` MedicineBatches.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned MedicineBatches
+  **/
+  _count?: true | MedicineBatchCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: MedicineBatchAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: MedicineBatchSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: MedicineBatchMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: MedicineBatchMaxAggregateInputType
+}
+
+export type GetMedicineBatchAggregateType<T extends MedicineBatchAggregateArgs> = {
+      [P in keyof T & keyof AggregateMedicineBatch]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateMedicineBatch[P]>
+    : Prisma.GetScalarType<T[P], AggregateMedicineBatch[P]>
+}
+
+
+
+
+export type MedicineBatchGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.MedicineBatchWhereInput
+  orderBy?: Prisma.MedicineBatchOrderByWithAggregationInput | Prisma.MedicineBatchOrderByWithAggregationInput[]
+  by: Prisma.MedicineBatchScalarFieldEnum[] | Prisma.MedicineBatchScalarFieldEnum
+  having?: Prisma.MedicineBatchScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: MedicineBatchCountAggregateInputType | true
+  _avg?: MedicineBatchAvgAggregateInputType
+  _sum?: MedicineBatchSumAggregateInputType
+  _min?: MedicineBatchMinAggregateInputType
+  _max?: MedicineBatchMaxAggregateInputType
+}
+
+export type MedicineBatchGroupByOutputType = {
+  id: string
+  medicineId: string
+  batchNumber: string
+  manufactureDate: Date | null
+  expiryDate: Date | null
+  quantity: number
+  purchaseCost: runtime.Decimal | null
+  recallId: string | null
+  createdAt: Date
+  updatedAt: Date
+  _count: MedicineBatchCountAggregateOutputType | null
+  _avg: MedicineBatchAvgAggregateOutputType | null
+  _sum: MedicineBatchSumAggregateOutputType | null
+  _min: MedicineBatchMinAggregateOutputType | null
+  _max: MedicineBatchMaxAggregateOutputType | null
+}
+
+type GetMedicineBatchGroupByPayload<T extends MedicineBatchGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<MedicineBatchGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof MedicineBatchGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], MedicineBatchGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], MedicineBatchGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type MedicineBatchWhereInput = {
+  AND?: Prisma.MedicineBatchWhereInput | Prisma.MedicineBatchWhereInput[]
+  OR?: Prisma.MedicineBatchWhereInput[]
+  NOT?: Prisma.MedicineBatchWhereInput | Prisma.MedicineBatchWhereInput[]
+  id?: Prisma.StringFilter<"MedicineBatch"> | string
+  medicineId?: Prisma.StringFilter<"MedicineBatch"> | string
+  batchNumber?: Prisma.StringFilter<"MedicineBatch"> | string
+  manufactureDate?: Prisma.DateTimeNullableFilter<"MedicineBatch"> | Date | string | null
+  expiryDate?: Prisma.DateTimeNullableFilter<"MedicineBatch"> | Date | string | null
+  quantity?: Prisma.IntFilter<"MedicineBatch"> | number
+  purchaseCost?: Prisma.DecimalNullableFilter<"MedicineBatch"> | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  recallId?: Prisma.StringNullableFilter<"MedicineBatch"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"MedicineBatch"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"MedicineBatch"> | Date | string
+  medicine?: Prisma.XOR<Prisma.MedicineScalarRelationFilter, Prisma.MedicineWhereInput>
+  recall?: Prisma.XOR<Prisma.RecallNullableScalarRelationFilter, Prisma.RecallWhereInput> | null
+  allocations?: Prisma.OrderItemBatchListRelationFilter
+  stockMovements?: Prisma.StockMovementListRelationFilter
+}
+
+export type MedicineBatchOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  medicineId?: Prisma.SortOrder
+  batchNumber?: Prisma.SortOrder
+  manufactureDate?: Prisma.SortOrderInput | Prisma.SortOrder
+  expiryDate?: Prisma.SortOrderInput | Prisma.SortOrder
+  quantity?: Prisma.SortOrder
+  purchaseCost?: Prisma.SortOrderInput | Prisma.SortOrder
+  recallId?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  medicine?: Prisma.MedicineOrderByWithRelationInput
+  recall?: Prisma.RecallOrderByWithRelationInput
+  allocations?: Prisma.OrderItemBatchOrderByRelationAggregateInput
+  stockMovements?: Prisma.StockMovementOrderByRelationAggregateInput
+}
+
+export type MedicineBatchWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  medicineId_batchNumber?: Prisma.MedicineBatchMedicineIdBatchNumberCompoundUniqueInput
+  AND?: Prisma.MedicineBatchWhereInput | Prisma.MedicineBatchWhereInput[]
+  OR?: Prisma.MedicineBatchWhereInput[]
+  NOT?: Prisma.MedicineBatchWhereInput | Prisma.MedicineBatchWhereInput[]
+  medicineId?: Prisma.StringFilter<"MedicineBatch"> | string
+  batchNumber?: Prisma.StringFilter<"MedicineBatch"> | string
+  manufactureDate?: Prisma.DateTimeNullableFilter<"MedicineBatch"> | Date | string | null
+  expiryDate?: Prisma.DateTimeNullableFilter<"MedicineBatch"> | Date | string | null
+  quantity?: Prisma.IntFilter<"MedicineBatch"> | number
+  purchaseCost?: Prisma.DecimalNullableFilter<"MedicineBatch"> | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  recallId?: Prisma.StringNullableFilter<"MedicineBatch"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"MedicineBatch"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"MedicineBatch"> | Date | string
+  medicine?: Prisma.XOR<Prisma.MedicineScalarRelationFilter, Prisma.MedicineWhereInput>
+  recall?: Prisma.XOR<Prisma.RecallNullableScalarRelationFilter, Prisma.RecallWhereInput> | null
+  allocations?: Prisma.OrderItemBatchListRelationFilter
+  stockMovements?: Prisma.StockMovementListRelationFilter
+}, "id" | "medicineId_batchNumber">
+
+export type MedicineBatchOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  medicineId?: Prisma.SortOrder
+  batchNumber?: Prisma.SortOrder
+  manufactureDate?: Prisma.SortOrderInput | Prisma.SortOrder
+  expiryDate?: Prisma.SortOrderInput | Prisma.SortOrder
+  quantity?: Prisma.SortOrder
+  purchaseCost?: Prisma.SortOrderInput | Prisma.SortOrder
+  recallId?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.MedicineBatchCountOrderByAggregateInput
+  _avg?: Prisma.MedicineBatchAvgOrderByAggregateInput
+  _max?: Prisma.MedicineBatchMaxOrderByAggregateInput
+  _min?: Prisma.MedicineBatchMinOrderByAggregateInput
+  _sum?: Prisma.MedicineBatchSumOrderByAggregateInput
+}
+
+export type MedicineBatchScalarWhereWithAggregatesInput = {
+  AND?: Prisma.MedicineBatchScalarWhereWithAggregatesInput | Prisma.MedicineBatchScalarWhereWithAggregatesInput[]
+  OR?: Prisma.MedicineBatchScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.MedicineBatchScalarWhereWithAggregatesInput | Prisma.MedicineBatchScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"MedicineBatch"> | string
+  medicineId?: Prisma.StringWithAggregatesFilter<"MedicineBatch"> | string
+  batchNumber?: Prisma.StringWithAggregatesFilter<"MedicineBatch"> | string
+  manufactureDate?: Prisma.DateTimeNullableWithAggregatesFilter<"MedicineBatch"> | Date | string | null
+  expiryDate?: Prisma.DateTimeNullableWithAggregatesFilter<"MedicineBatch"> | Date | string | null
+  quantity?: Prisma.IntWithAggregatesFilter<"MedicineBatch"> | number
+  purchaseCost?: Prisma.DecimalNullableWithAggregatesFilter<"MedicineBatch"> | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  recallId?: Prisma.StringNullableWithAggregatesFilter<"MedicineBatch"> | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"MedicineBatch"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"MedicineBatch"> | Date | string
+}
+
+export type MedicineBatchCreateInput = {
+  id?: string
+  batchNumber: string
+  manufactureDate?: Date | string | null
+  expiryDate?: Date | string | null
+  quantity?: number
+  purchaseCost?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  medicine: Prisma.MedicineCreateNestedOneWithoutBatchesInput
+  recall?: Prisma.RecallCreateNestedOneWithoutBatchesInput
+  allocations?: Prisma.OrderItemBatchCreateNestedManyWithoutBatchInput
+  stockMovements?: Prisma.StockMovementCreateNestedManyWithoutBatchInput
+}
+
+export type MedicineBatchUncheckedCreateInput = {
+  id?: string
+  medicineId: string
+  batchNumber: string
+  manufactureDate?: Date | string | null
+  expiryDate?: Date | string | null
+  quantity?: number
+  purchaseCost?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  recallId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  allocations?: Prisma.OrderItemBatchUncheckedCreateNestedManyWithoutBatchInput
+  stockMovements?: Prisma.StockMovementUncheckedCreateNestedManyWithoutBatchInput
+}
+
+export type MedicineBatchUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  batchNumber?: Prisma.StringFieldUpdateOperationsInput | string
+  manufactureDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  expiryDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  purchaseCost?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  medicine?: Prisma.MedicineUpdateOneRequiredWithoutBatchesNestedInput
+  recall?: Prisma.RecallUpdateOneWithoutBatchesNestedInput
+  allocations?: Prisma.OrderItemBatchUpdateManyWithoutBatchNestedInput
+  stockMovements?: Prisma.StockMovementUpdateManyWithoutBatchNestedInput
+}
+
+export type MedicineBatchUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  medicineId?: Prisma.StringFieldUpdateOperationsInput | string
+  batchNumber?: Prisma.StringFieldUpdateOperationsInput | string
+  manufactureDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  expiryDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  purchaseCost?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  recallId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  allocations?: Prisma.OrderItemBatchUncheckedUpdateManyWithoutBatchNestedInput
+  stockMovements?: Prisma.StockMovementUncheckedUpdateManyWithoutBatchNestedInput
+}
+
+export type MedicineBatchCreateManyInput = {
+  id?: string
+  medicineId: string
+  batchNumber: string
+  manufactureDate?: Date | string | null
+  expiryDate?: Date | string | null
+  quantity?: number
+  purchaseCost?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  recallId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type MedicineBatchUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  batchNumber?: Prisma.StringFieldUpdateOperationsInput | string
+  manufactureDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  expiryDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  purchaseCost?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type MedicineBatchUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  medicineId?: Prisma.StringFieldUpdateOperationsInput | string
+  batchNumber?: Prisma.StringFieldUpdateOperationsInput | string
+  manufactureDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  expiryDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  purchaseCost?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  recallId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type MedicineBatchMedicineIdBatchNumberCompoundUniqueInput = {
+  medicineId: string
+  batchNumber: string
+}
+
+export type MedicineBatchCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  medicineId?: Prisma.SortOrder
+  batchNumber?: Prisma.SortOrder
+  manufactureDate?: Prisma.SortOrder
+  expiryDate?: Prisma.SortOrder
+  quantity?: Prisma.SortOrder
+  purchaseCost?: Prisma.SortOrder
+  recallId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type MedicineBatchAvgOrderByAggregateInput = {
+  quantity?: Prisma.SortOrder
+  purchaseCost?: Prisma.SortOrder
+}
+
+export type MedicineBatchMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  medicineId?: Prisma.SortOrder
+  batchNumber?: Prisma.SortOrder
+  manufactureDate?: Prisma.SortOrder
+  expiryDate?: Prisma.SortOrder
+  quantity?: Prisma.SortOrder
+  purchaseCost?: Prisma.SortOrder
+  recallId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type MedicineBatchMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  medicineId?: Prisma.SortOrder
+  batchNumber?: Prisma.SortOrder
+  manufactureDate?: Prisma.SortOrder
+  expiryDate?: Prisma.SortOrder
+  quantity?: Prisma.SortOrder
+  purchaseCost?: Prisma.SortOrder
+  recallId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type MedicineBatchSumOrderByAggregateInput = {
+  quantity?: Prisma.SortOrder
+  purchaseCost?: Prisma.SortOrder
+}
+
+export type MedicineBatchScalarRelationFilter = {
+  is?: Prisma.MedicineBatchWhereInput
+  isNot?: Prisma.MedicineBatchWhereInput
+}
+
+export type MedicineBatchListRelationFilter = {
+  every?: Prisma.MedicineBatchWhereInput
+  some?: Prisma.MedicineBatchWhereInput
+  none?: Prisma.MedicineBatchWhereInput
+}
+
+export type MedicineBatchOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type MedicineBatchNullableScalarRelationFilter = {
+  is?: Prisma.MedicineBatchWhereInput | null
+  isNot?: Prisma.MedicineBatchWhereInput | null
+}
+
+export type NullableDateTimeFieldUpdateOperationsInput = {
+  set?: Date | string | null
+}
+
+export type IntFieldUpdateOperationsInput = {
+  set?: number
+  increment?: number
+  decrement?: number
+  multiply?: number
+  divide?: number
+}
+
+export type NullableDecimalFieldUpdateOperationsInput = {
+  set?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  increment?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  decrement?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  multiply?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  divide?: runtime.Decimal | runtime.DecimalJsLike | number | string
+}
+
+export type MedicineBatchCreateNestedOneWithoutAllocationsInput = {
+  create?: Prisma.XOR<Prisma.MedicineBatchCreateWithoutAllocationsInput, Prisma.MedicineBatchUncheckedCreateWithoutAllocationsInput>
+  connectOrCreate?: Prisma.MedicineBatchCreateOrConnectWithoutAllocationsInput
+  connect?: Prisma.MedicineBatchWhereUniqueInput
+}
+
+export type MedicineBatchUpdateOneRequiredWithoutAllocationsNestedInput = {
+  create?: Prisma.XOR<Prisma.MedicineBatchCreateWithoutAllocationsInput, Prisma.MedicineBatchUncheckedCreateWithoutAllocationsInput>
+  connectOrCreate?: Prisma.MedicineBatchCreateOrConnectWithoutAllocationsInput
+  upsert?: Prisma.MedicineBatchUpsertWithoutAllocationsInput
+  connect?: Prisma.MedicineBatchWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.MedicineBatchUpdateToOneWithWhereWithoutAllocationsInput, Prisma.MedicineBatchUpdateWithoutAllocationsInput>, Prisma.MedicineBatchUncheckedUpdateWithoutAllocationsInput>
+}
+
+export type MedicineBatchCreateNestedManyWithoutMedicineInput = {
+  create?: Prisma.XOR<Prisma.MedicineBatchCreateWithoutMedicineInput, Prisma.MedicineBatchUncheckedCreateWithoutMedicineInput> | Prisma.MedicineBatchCreateWithoutMedicineInput[] | Prisma.MedicineBatchUncheckedCreateWithoutMedicineInput[]
+  connectOrCreate?: Prisma.MedicineBatchCreateOrConnectWithoutMedicineInput | Prisma.MedicineBatchCreateOrConnectWithoutMedicineInput[]
+  createMany?: Prisma.MedicineBatchCreateManyMedicineInputEnvelope
+  connect?: Prisma.MedicineBatchWhereUniqueInput | Prisma.MedicineBatchWhereUniqueInput[]
+}
+
+export type MedicineBatchUncheckedCreateNestedManyWithoutMedicineInput = {
+  create?: Prisma.XOR<Prisma.MedicineBatchCreateWithoutMedicineInput, Prisma.MedicineBatchUncheckedCreateWithoutMedicineInput> | Prisma.MedicineBatchCreateWithoutMedicineInput[] | Prisma.MedicineBatchUncheckedCreateWithoutMedicineInput[]
+  connectOrCreate?: Prisma.MedicineBatchCreateOrConnectWithoutMedicineInput | Prisma.MedicineBatchCreateOrConnectWithoutMedicineInput[]
+  createMany?: Prisma.MedicineBatchCreateManyMedicineInputEnvelope
+  connect?: Prisma.MedicineBatchWhereUniqueInput | Prisma.MedicineBatchWhereUniqueInput[]
+}
+
+export type MedicineBatchUpdateManyWithoutMedicineNestedInput = {
+  create?: Prisma.XOR<Prisma.MedicineBatchCreateWithoutMedicineInput, Prisma.MedicineBatchUncheckedCreateWithoutMedicineInput> | Prisma.MedicineBatchCreateWithoutMedicineInput[] | Prisma.MedicineBatchUncheckedCreateWithoutMedicineInput[]
+  connectOrCreate?: Prisma.MedicineBatchCreateOrConnectWithoutMedicineInput | Prisma.MedicineBatchCreateOrConnectWithoutMedicineInput[]
+  upsert?: Prisma.MedicineBatchUpsertWithWhereUniqueWithoutMedicineInput | Prisma.MedicineBatchUpsertWithWhereUniqueWithoutMedicineInput[]
+  createMany?: Prisma.MedicineBatchCreateManyMedicineInputEnvelope
+  set?: Prisma.MedicineBatchWhereUniqueInput | Prisma.MedicineBatchWhereUniqueInput[]
+  disconnect?: Prisma.MedicineBatchWhereUniqueInput | Prisma.MedicineBatchWhereUniqueInput[]
+  delete?: Prisma.MedicineBatchWhereUniqueInput | Prisma.MedicineBatchWhereUniqueInput[]
+  connect?: Prisma.MedicineBatchWhereUniqueInput | Prisma.MedicineBatchWhereUniqueInput[]
+  update?: Prisma.MedicineBatchUpdateWithWhereUniqueWithoutMedicineInput | Prisma.MedicineBatchUpdateWithWhereUniqueWithoutMedicineInput[]
+  updateMany?: Prisma.MedicineBatchUpdateManyWithWhereWithoutMedicineInput | Prisma.MedicineBatchUpdateManyWithWhereWithoutMedicineInput[]
+  deleteMany?: Prisma.MedicineBatchScalarWhereInput | Prisma.MedicineBatchScalarWhereInput[]
+}
+
+export type MedicineBatchUncheckedUpdateManyWithoutMedicineNestedInput = {
+  create?: Prisma.XOR<Prisma.MedicineBatchCreateWithoutMedicineInput, Prisma.MedicineBatchUncheckedCreateWithoutMedicineInput> | Prisma.MedicineBatchCreateWithoutMedicineInput[] | Prisma.MedicineBatchUncheckedCreateWithoutMedicineInput[]
+  connectOrCreate?: Prisma.MedicineBatchCreateOrConnectWithoutMedicineInput | Prisma.MedicineBatchCreateOrConnectWithoutMedicineInput[]
+  upsert?: Prisma.MedicineBatchUpsertWithWhereUniqueWithoutMedicineInput | Prisma.MedicineBatchUpsertWithWhereUniqueWithoutMedicineInput[]
+  createMany?: Prisma.MedicineBatchCreateManyMedicineInputEnvelope
+  set?: Prisma.MedicineBatchWhereUniqueInput | Prisma.MedicineBatchWhereUniqueInput[]
+  disconnect?: Prisma.MedicineBatchWhereUniqueInput | Prisma.MedicineBatchWhereUniqueInput[]
+  delete?: Prisma.MedicineBatchWhereUniqueInput | Prisma.MedicineBatchWhereUniqueInput[]
+  connect?: Prisma.MedicineBatchWhereUniqueInput | Prisma.MedicineBatchWhereUniqueInput[]
+  update?: Prisma.MedicineBatchUpdateWithWhereUniqueWithoutMedicineInput | Prisma.MedicineBatchUpdateWithWhereUniqueWithoutMedicineInput[]
+  updateMany?: Prisma.MedicineBatchUpdateManyWithWhereWithoutMedicineInput | Prisma.MedicineBatchUpdateManyWithWhereWithoutMedicineInput[]
+  deleteMany?: Prisma.MedicineBatchScalarWhereInput | Prisma.MedicineBatchScalarWhereInput[]
+}
+
+export type MedicineBatchCreateNestedManyWithoutRecallInput = {
+  create?: Prisma.XOR<Prisma.MedicineBatchCreateWithoutRecallInput, Prisma.MedicineBatchUncheckedCreateWithoutRecallInput> | Prisma.MedicineBatchCreateWithoutRecallInput[] | Prisma.MedicineBatchUncheckedCreateWithoutRecallInput[]
+  connectOrCreate?: Prisma.MedicineBatchCreateOrConnectWithoutRecallInput | Prisma.MedicineBatchCreateOrConnectWithoutRecallInput[]
+  createMany?: Prisma.MedicineBatchCreateManyRecallInputEnvelope
+  connect?: Prisma.MedicineBatchWhereUniqueInput | Prisma.MedicineBatchWhereUniqueInput[]
+}
+
+export type MedicineBatchUncheckedCreateNestedManyWithoutRecallInput = {
+  create?: Prisma.XOR<Prisma.MedicineBatchCreateWithoutRecallInput, Prisma.MedicineBatchUncheckedCreateWithoutRecallInput> | Prisma.MedicineBatchCreateWithoutRecallInput[] | Prisma.MedicineBatchUncheckedCreateWithoutRecallInput[]
+  connectOrCreate?: Prisma.MedicineBatchCreateOrConnectWithoutRecallInput | Prisma.MedicineBatchCreateOrConnectWithoutRecallInput[]
+  createMany?: Prisma.MedicineBatchCreateManyRecallInputEnvelope
+  connect?: Prisma.MedicineBatchWhereUniqueInput | Prisma.MedicineBatchWhereUniqueInput[]
+}
+
+export type MedicineBatchUpdateManyWithoutRecallNestedInput = {
+  create?: Prisma.XOR<Prisma.MedicineBatchCreateWithoutRecallInput, Prisma.MedicineBatchUncheckedCreateWithoutRecallInput> | Prisma.MedicineBatchCreateWithoutRecallInput[] | Prisma.MedicineBatchUncheckedCreateWithoutRecallInput[]
+  connectOrCreate?: Prisma.MedicineBatchCreateOrConnectWithoutRecallInput | Prisma.MedicineBatchCreateOrConnectWithoutRecallInput[]
+  upsert?: Prisma.MedicineBatchUpsertWithWhereUniqueWithoutRecallInput | Prisma.MedicineBatchUpsertWithWhereUniqueWithoutRecallInput[]
+  createMany?: Prisma.MedicineBatchCreateManyRecallInputEnvelope
+  set?: Prisma.MedicineBatchWhereUniqueInput | Prisma.MedicineBatchWhereUniqueInput[]
+  disconnect?: Prisma.MedicineBatchWhereUniqueInput | Prisma.MedicineBatchWhereUniqueInput[]
+  delete?: Prisma.MedicineBatchWhereUniqueInput | Prisma.MedicineBatchWhereUniqueInput[]
+  connect?: Prisma.MedicineBatchWhereUniqueInput | Prisma.MedicineBatchWhereUniqueInput[]
+  update?: Prisma.MedicineBatchUpdateWithWhereUniqueWithoutRecallInput | Prisma.MedicineBatchUpdateWithWhereUniqueWithoutRecallInput[]
+  updateMany?: Prisma.MedicineBatchUpdateManyWithWhereWithoutRecallInput | Prisma.MedicineBatchUpdateManyWithWhereWithoutRecallInput[]
+  deleteMany?: Prisma.MedicineBatchScalarWhereInput | Prisma.MedicineBatchScalarWhereInput[]
+}
+
+export type MedicineBatchUncheckedUpdateManyWithoutRecallNestedInput = {
+  create?: Prisma.XOR<Prisma.MedicineBatchCreateWithoutRecallInput, Prisma.MedicineBatchUncheckedCreateWithoutRecallInput> | Prisma.MedicineBatchCreateWithoutRecallInput[] | Prisma.MedicineBatchUncheckedCreateWithoutRecallInput[]
+  connectOrCreate?: Prisma.MedicineBatchCreateOrConnectWithoutRecallInput | Prisma.MedicineBatchCreateOrConnectWithoutRecallInput[]
+  upsert?: Prisma.MedicineBatchUpsertWithWhereUniqueWithoutRecallInput | Prisma.MedicineBatchUpsertWithWhereUniqueWithoutRecallInput[]
+  createMany?: Prisma.MedicineBatchCreateManyRecallInputEnvelope
+  set?: Prisma.MedicineBatchWhereUniqueInput | Prisma.MedicineBatchWhereUniqueInput[]
+  disconnect?: Prisma.MedicineBatchWhereUniqueInput | Prisma.MedicineBatchWhereUniqueInput[]
+  delete?: Prisma.MedicineBatchWhereUniqueInput | Prisma.MedicineBatchWhereUniqueInput[]
+  connect?: Prisma.MedicineBatchWhereUniqueInput | Prisma.MedicineBatchWhereUniqueInput[]
+  update?: Prisma.MedicineBatchUpdateWithWhereUniqueWithoutRecallInput | Prisma.MedicineBatchUpdateWithWhereUniqueWithoutRecallInput[]
+  updateMany?: Prisma.MedicineBatchUpdateManyWithWhereWithoutRecallInput | Prisma.MedicineBatchUpdateManyWithWhereWithoutRecallInput[]
+  deleteMany?: Prisma.MedicineBatchScalarWhereInput | Prisma.MedicineBatchScalarWhereInput[]
+}
+
+export type MedicineBatchCreateNestedOneWithoutStockMovementsInput = {
+  create?: Prisma.XOR<Prisma.MedicineBatchCreateWithoutStockMovementsInput, Prisma.MedicineBatchUncheckedCreateWithoutStockMovementsInput>
+  connectOrCreate?: Prisma.MedicineBatchCreateOrConnectWithoutStockMovementsInput
+  connect?: Prisma.MedicineBatchWhereUniqueInput
+}
+
+export type MedicineBatchUpdateOneWithoutStockMovementsNestedInput = {
+  create?: Prisma.XOR<Prisma.MedicineBatchCreateWithoutStockMovementsInput, Prisma.MedicineBatchUncheckedCreateWithoutStockMovementsInput>
+  connectOrCreate?: Prisma.MedicineBatchCreateOrConnectWithoutStockMovementsInput
+  upsert?: Prisma.MedicineBatchUpsertWithoutStockMovementsInput
+  disconnect?: Prisma.MedicineBatchWhereInput | boolean
+  delete?: Prisma.MedicineBatchWhereInput | boolean
+  connect?: Prisma.MedicineBatchWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.MedicineBatchUpdateToOneWithWhereWithoutStockMovementsInput, Prisma.MedicineBatchUpdateWithoutStockMovementsInput>, Prisma.MedicineBatchUncheckedUpdateWithoutStockMovementsInput>
+}
+
+export type MedicineBatchCreateWithoutAllocationsInput = {
+  id?: string
+  batchNumber: string
+  manufactureDate?: Date | string | null
+  expiryDate?: Date | string | null
+  quantity?: number
+  purchaseCost?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  medicine: Prisma.MedicineCreateNestedOneWithoutBatchesInput
+  recall?: Prisma.RecallCreateNestedOneWithoutBatchesInput
+  stockMovements?: Prisma.StockMovementCreateNestedManyWithoutBatchInput
+}
+
+export type MedicineBatchUncheckedCreateWithoutAllocationsInput = {
+  id?: string
+  medicineId: string
+  batchNumber: string
+  manufactureDate?: Date | string | null
+  expiryDate?: Date | string | null
+  quantity?: number
+  purchaseCost?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  recallId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  stockMovements?: Prisma.StockMovementUncheckedCreateNestedManyWithoutBatchInput
+}
+
+export type MedicineBatchCreateOrConnectWithoutAllocationsInput = {
+  where: Prisma.MedicineBatchWhereUniqueInput
+  create: Prisma.XOR<Prisma.MedicineBatchCreateWithoutAllocationsInput, Prisma.MedicineBatchUncheckedCreateWithoutAllocationsInput>
+}
+
+export type MedicineBatchUpsertWithoutAllocationsInput = {
+  update: Prisma.XOR<Prisma.MedicineBatchUpdateWithoutAllocationsInput, Prisma.MedicineBatchUncheckedUpdateWithoutAllocationsInput>
+  create: Prisma.XOR<Prisma.MedicineBatchCreateWithoutAllocationsInput, Prisma.MedicineBatchUncheckedCreateWithoutAllocationsInput>
+  where?: Prisma.MedicineBatchWhereInput
+}
+
+export type MedicineBatchUpdateToOneWithWhereWithoutAllocationsInput = {
+  where?: Prisma.MedicineBatchWhereInput
+  data: Prisma.XOR<Prisma.MedicineBatchUpdateWithoutAllocationsInput, Prisma.MedicineBatchUncheckedUpdateWithoutAllocationsInput>
+}
+
+export type MedicineBatchUpdateWithoutAllocationsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  batchNumber?: Prisma.StringFieldUpdateOperationsInput | string
+  manufactureDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  expiryDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  purchaseCost?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  medicine?: Prisma.MedicineUpdateOneRequiredWithoutBatchesNestedInput
+  recall?: Prisma.RecallUpdateOneWithoutBatchesNestedInput
+  stockMovements?: Prisma.StockMovementUpdateManyWithoutBatchNestedInput
+}
+
+export type MedicineBatchUncheckedUpdateWithoutAllocationsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  medicineId?: Prisma.StringFieldUpdateOperationsInput | string
+  batchNumber?: Prisma.StringFieldUpdateOperationsInput | string
+  manufactureDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  expiryDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  purchaseCost?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  recallId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  stockMovements?: Prisma.StockMovementUncheckedUpdateManyWithoutBatchNestedInput
+}
+
+export type MedicineBatchCreateWithoutMedicineInput = {
+  id?: string
+  batchNumber: string
+  manufactureDate?: Date | string | null
+  expiryDate?: Date | string | null
+  quantity?: number
+  purchaseCost?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  recall?: Prisma.RecallCreateNestedOneWithoutBatchesInput
+  allocations?: Prisma.OrderItemBatchCreateNestedManyWithoutBatchInput
+  stockMovements?: Prisma.StockMovementCreateNestedManyWithoutBatchInput
+}
+
+export type MedicineBatchUncheckedCreateWithoutMedicineInput = {
+  id?: string
+  batchNumber: string
+  manufactureDate?: Date | string | null
+  expiryDate?: Date | string | null
+  quantity?: number
+  purchaseCost?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  recallId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  allocations?: Prisma.OrderItemBatchUncheckedCreateNestedManyWithoutBatchInput
+  stockMovements?: Prisma.StockMovementUncheckedCreateNestedManyWithoutBatchInput
+}
+
+export type MedicineBatchCreateOrConnectWithoutMedicineInput = {
+  where: Prisma.MedicineBatchWhereUniqueInput
+  create: Prisma.XOR<Prisma.MedicineBatchCreateWithoutMedicineInput, Prisma.MedicineBatchUncheckedCreateWithoutMedicineInput>
+}
+
+export type MedicineBatchCreateManyMedicineInputEnvelope = {
+  data: Prisma.MedicineBatchCreateManyMedicineInput | Prisma.MedicineBatchCreateManyMedicineInput[]
+  skipDuplicates?: boolean
+}
+
+export type MedicineBatchUpsertWithWhereUniqueWithoutMedicineInput = {
+  where: Prisma.MedicineBatchWhereUniqueInput
+  update: Prisma.XOR<Prisma.MedicineBatchUpdateWithoutMedicineInput, Prisma.MedicineBatchUncheckedUpdateWithoutMedicineInput>
+  create: Prisma.XOR<Prisma.MedicineBatchCreateWithoutMedicineInput, Prisma.MedicineBatchUncheckedCreateWithoutMedicineInput>
+}
+
+export type MedicineBatchUpdateWithWhereUniqueWithoutMedicineInput = {
+  where: Prisma.MedicineBatchWhereUniqueInput
+  data: Prisma.XOR<Prisma.MedicineBatchUpdateWithoutMedicineInput, Prisma.MedicineBatchUncheckedUpdateWithoutMedicineInput>
+}
+
+export type MedicineBatchUpdateManyWithWhereWithoutMedicineInput = {
+  where: Prisma.MedicineBatchScalarWhereInput
+  data: Prisma.XOR<Prisma.MedicineBatchUpdateManyMutationInput, Prisma.MedicineBatchUncheckedUpdateManyWithoutMedicineInput>
+}
+
+export type MedicineBatchScalarWhereInput = {
+  AND?: Prisma.MedicineBatchScalarWhereInput | Prisma.MedicineBatchScalarWhereInput[]
+  OR?: Prisma.MedicineBatchScalarWhereInput[]
+  NOT?: Prisma.MedicineBatchScalarWhereInput | Prisma.MedicineBatchScalarWhereInput[]
+  id?: Prisma.StringFilter<"MedicineBatch"> | string
+  medicineId?: Prisma.StringFilter<"MedicineBatch"> | string
+  batchNumber?: Prisma.StringFilter<"MedicineBatch"> | string
+  manufactureDate?: Prisma.DateTimeNullableFilter<"MedicineBatch"> | Date | string | null
+  expiryDate?: Prisma.DateTimeNullableFilter<"MedicineBatch"> | Date | string | null
+  quantity?: Prisma.IntFilter<"MedicineBatch"> | number
+  purchaseCost?: Prisma.DecimalNullableFilter<"MedicineBatch"> | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  recallId?: Prisma.StringNullableFilter<"MedicineBatch"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"MedicineBatch"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"MedicineBatch"> | Date | string
+}
+
+export type MedicineBatchCreateWithoutRecallInput = {
+  id?: string
+  batchNumber: string
+  manufactureDate?: Date | string | null
+  expiryDate?: Date | string | null
+  quantity?: number
+  purchaseCost?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  medicine: Prisma.MedicineCreateNestedOneWithoutBatchesInput
+  allocations?: Prisma.OrderItemBatchCreateNestedManyWithoutBatchInput
+  stockMovements?: Prisma.StockMovementCreateNestedManyWithoutBatchInput
+}
+
+export type MedicineBatchUncheckedCreateWithoutRecallInput = {
+  id?: string
+  medicineId: string
+  batchNumber: string
+  manufactureDate?: Date | string | null
+  expiryDate?: Date | string | null
+  quantity?: number
+  purchaseCost?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  allocations?: Prisma.OrderItemBatchUncheckedCreateNestedManyWithoutBatchInput
+  stockMovements?: Prisma.StockMovementUncheckedCreateNestedManyWithoutBatchInput
+}
+
+export type MedicineBatchCreateOrConnectWithoutRecallInput = {
+  where: Prisma.MedicineBatchWhereUniqueInput
+  create: Prisma.XOR<Prisma.MedicineBatchCreateWithoutRecallInput, Prisma.MedicineBatchUncheckedCreateWithoutRecallInput>
+}
+
+export type MedicineBatchCreateManyRecallInputEnvelope = {
+  data: Prisma.MedicineBatchCreateManyRecallInput | Prisma.MedicineBatchCreateManyRecallInput[]
+  skipDuplicates?: boolean
+}
+
+export type MedicineBatchUpsertWithWhereUniqueWithoutRecallInput = {
+  where: Prisma.MedicineBatchWhereUniqueInput
+  update: Prisma.XOR<Prisma.MedicineBatchUpdateWithoutRecallInput, Prisma.MedicineBatchUncheckedUpdateWithoutRecallInput>
+  create: Prisma.XOR<Prisma.MedicineBatchCreateWithoutRecallInput, Prisma.MedicineBatchUncheckedCreateWithoutRecallInput>
+}
+
+export type MedicineBatchUpdateWithWhereUniqueWithoutRecallInput = {
+  where: Prisma.MedicineBatchWhereUniqueInput
+  data: Prisma.XOR<Prisma.MedicineBatchUpdateWithoutRecallInput, Prisma.MedicineBatchUncheckedUpdateWithoutRecallInput>
+}
+
+export type MedicineBatchUpdateManyWithWhereWithoutRecallInput = {
+  where: Prisma.MedicineBatchScalarWhereInput
+  data: Prisma.XOR<Prisma.MedicineBatchUpdateManyMutationInput, Prisma.MedicineBatchUncheckedUpdateManyWithoutRecallInput>
+}
+
+export type MedicineBatchCreateWithoutStockMovementsInput = {
+  id?: string
+  batchNumber: string
+  manufactureDate?: Date | string | null
+  expiryDate?: Date | string | null
+  quantity?: number
+  purchaseCost?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  medicine: Prisma.MedicineCreateNestedOneWithoutBatchesInput
+  recall?: Prisma.RecallCreateNestedOneWithoutBatchesInput
+  allocations?: Prisma.OrderItemBatchCreateNestedManyWithoutBatchInput
+}
+
+export type MedicineBatchUncheckedCreateWithoutStockMovementsInput = {
+  id?: string
+  medicineId: string
+  batchNumber: string
+  manufactureDate?: Date | string | null
+  expiryDate?: Date | string | null
+  quantity?: number
+  purchaseCost?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  recallId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  allocations?: Prisma.OrderItemBatchUncheckedCreateNestedManyWithoutBatchInput
+}
+
+export type MedicineBatchCreateOrConnectWithoutStockMovementsInput = {
+  where: Prisma.MedicineBatchWhereUniqueInput
+  create: Prisma.XOR<Prisma.MedicineBatchCreateWithoutStockMovementsInput, Prisma.MedicineBatchUncheckedCreateWithoutStockMovementsInput>
+}
+
+export type MedicineBatchUpsertWithoutStockMovementsInput = {
+  update: Prisma.XOR<Prisma.MedicineBatchUpdateWithoutStockMovementsInput, Prisma.MedicineBatchUncheckedUpdateWithoutStockMovementsInput>
+  create: Prisma.XOR<Prisma.MedicineBatchCreateWithoutStockMovementsInput, Prisma.MedicineBatchUncheckedCreateWithoutStockMovementsInput>
+  where?: Prisma.MedicineBatchWhereInput
+}
+
+export type MedicineBatchUpdateToOneWithWhereWithoutStockMovementsInput = {
+  where?: Prisma.MedicineBatchWhereInput
+  data: Prisma.XOR<Prisma.MedicineBatchUpdateWithoutStockMovementsInput, Prisma.MedicineBatchUncheckedUpdateWithoutStockMovementsInput>
+}
+
+export type MedicineBatchUpdateWithoutStockMovementsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  batchNumber?: Prisma.StringFieldUpdateOperationsInput | string
+  manufactureDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  expiryDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  purchaseCost?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  medicine?: Prisma.MedicineUpdateOneRequiredWithoutBatchesNestedInput
+  recall?: Prisma.RecallUpdateOneWithoutBatchesNestedInput
+  allocations?: Prisma.OrderItemBatchUpdateManyWithoutBatchNestedInput
+}
+
+export type MedicineBatchUncheckedUpdateWithoutStockMovementsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  medicineId?: Prisma.StringFieldUpdateOperationsInput | string
+  batchNumber?: Prisma.StringFieldUpdateOperationsInput | string
+  manufactureDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  expiryDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  purchaseCost?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  recallId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  allocations?: Prisma.OrderItemBatchUncheckedUpdateManyWithoutBatchNestedInput
+}
+
+export type MedicineBatchCreateManyMedicineInput = {
+  id?: string
+  batchNumber: string
+  manufactureDate?: Date | string | null
+  expiryDate?: Date | string | null
+  quantity?: number
+  purchaseCost?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  recallId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type MedicineBatchUpdateWithoutMedicineInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  batchNumber?: Prisma.StringFieldUpdateOperationsInput | string
+  manufactureDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  expiryDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  purchaseCost?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  recall?: Prisma.RecallUpdateOneWithoutBatchesNestedInput
+  allocations?: Prisma.OrderItemBatchUpdateManyWithoutBatchNestedInput
+  stockMovements?: Prisma.StockMovementUpdateManyWithoutBatchNestedInput
+}
+
+export type MedicineBatchUncheckedUpdateWithoutMedicineInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  batchNumber?: Prisma.StringFieldUpdateOperationsInput | string
+  manufactureDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  expiryDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  purchaseCost?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  recallId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  allocations?: Prisma.OrderItemBatchUncheckedUpdateManyWithoutBatchNestedInput
+  stockMovements?: Prisma.StockMovementUncheckedUpdateManyWithoutBatchNestedInput
+}
+
+export type MedicineBatchUncheckedUpdateManyWithoutMedicineInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  batchNumber?: Prisma.StringFieldUpdateOperationsInput | string
+  manufactureDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  expiryDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  purchaseCost?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  recallId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type MedicineBatchCreateManyRecallInput = {
+  id?: string
+  medicineId: string
+  batchNumber: string
+  manufactureDate?: Date | string | null
+  expiryDate?: Date | string | null
+  quantity?: number
+  purchaseCost?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type MedicineBatchUpdateWithoutRecallInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  batchNumber?: Prisma.StringFieldUpdateOperationsInput | string
+  manufactureDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  expiryDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  purchaseCost?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  medicine?: Prisma.MedicineUpdateOneRequiredWithoutBatchesNestedInput
+  allocations?: Prisma.OrderItemBatchUpdateManyWithoutBatchNestedInput
+  stockMovements?: Prisma.StockMovementUpdateManyWithoutBatchNestedInput
+}
+
+export type MedicineBatchUncheckedUpdateWithoutRecallInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  medicineId?: Prisma.StringFieldUpdateOperationsInput | string
+  batchNumber?: Prisma.StringFieldUpdateOperationsInput | string
+  manufactureDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  expiryDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  purchaseCost?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  allocations?: Prisma.OrderItemBatchUncheckedUpdateManyWithoutBatchNestedInput
+  stockMovements?: Prisma.StockMovementUncheckedUpdateManyWithoutBatchNestedInput
+}
+
+export type MedicineBatchUncheckedUpdateManyWithoutRecallInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  medicineId?: Prisma.StringFieldUpdateOperationsInput | string
+  batchNumber?: Prisma.StringFieldUpdateOperationsInput | string
+  manufactureDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  expiryDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  purchaseCost?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+/**
+ * Count Type MedicineBatchCountOutputType
+ */
+
+export type MedicineBatchCountOutputType = {
+  allocations: number
+  stockMovements: number
+}
+
+export type MedicineBatchCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  allocations?: boolean | MedicineBatchCountOutputTypeCountAllocationsArgs
+  stockMovements?: boolean | MedicineBatchCountOutputTypeCountStockMovementsArgs
+}
+
+/**
+ * MedicineBatchCountOutputType without action
+ */
+export type MedicineBatchCountOutputTypeDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the MedicineBatchCountOutputType
+   */
+  select?: Prisma.MedicineBatchCountOutputTypeSelect<ExtArgs> | null
+}
+
+/**
+ * MedicineBatchCountOutputType without action
+ */
+export type MedicineBatchCountOutputTypeCountAllocationsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.OrderItemBatchWhereInput
+}
+
+/**
+ * MedicineBatchCountOutputType without action
+ */
+export type MedicineBatchCountOutputTypeCountStockMovementsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.StockMovementWhereInput
+}
+
+
+export type MedicineBatchSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  medicineId?: boolean
+  batchNumber?: boolean
+  manufactureDate?: boolean
+  expiryDate?: boolean
+  quantity?: boolean
+  purchaseCost?: boolean
+  recallId?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  medicine?: boolean | Prisma.MedicineDefaultArgs<ExtArgs>
+  recall?: boolean | Prisma.MedicineBatch$recallArgs<ExtArgs>
+  allocations?: boolean | Prisma.MedicineBatch$allocationsArgs<ExtArgs>
+  stockMovements?: boolean | Prisma.MedicineBatch$stockMovementsArgs<ExtArgs>
+  _count?: boolean | Prisma.MedicineBatchCountOutputTypeDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["medicineBatch"]>
+
+export type MedicineBatchSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  medicineId?: boolean
+  batchNumber?: boolean
+  manufactureDate?: boolean
+  expiryDate?: boolean
+  quantity?: boolean
+  purchaseCost?: boolean
+  recallId?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  medicine?: boolean | Prisma.MedicineDefaultArgs<ExtArgs>
+  recall?: boolean | Prisma.MedicineBatch$recallArgs<ExtArgs>
+}, ExtArgs["result"]["medicineBatch"]>
+
+export type MedicineBatchSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  medicineId?: boolean
+  batchNumber?: boolean
+  manufactureDate?: boolean
+  expiryDate?: boolean
+  quantity?: boolean
+  purchaseCost?: boolean
+  recallId?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  medicine?: boolean | Prisma.MedicineDefaultArgs<ExtArgs>
+  recall?: boolean | Prisma.MedicineBatch$recallArgs<ExtArgs>
+}, ExtArgs["result"]["medicineBatch"]>
+
+export type MedicineBatchSelectScalar = {
+  id?: boolean
+  medicineId?: boolean
+  batchNumber?: boolean
+  manufactureDate?: boolean
+  expiryDate?: boolean
+  quantity?: boolean
+  purchaseCost?: boolean
+  recallId?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}
+
+export type MedicineBatchOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "medicineId" | "batchNumber" | "manufactureDate" | "expiryDate" | "quantity" | "purchaseCost" | "recallId" | "createdAt" | "updatedAt", ExtArgs["result"]["medicineBatch"]>
+export type MedicineBatchInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  medicine?: boolean | Prisma.MedicineDefaultArgs<ExtArgs>
+  recall?: boolean | Prisma.MedicineBatch$recallArgs<ExtArgs>
+  allocations?: boolean | Prisma.MedicineBatch$allocationsArgs<ExtArgs>
+  stockMovements?: boolean | Prisma.MedicineBatch$stockMovementsArgs<ExtArgs>
+  _count?: boolean | Prisma.MedicineBatchCountOutputTypeDefaultArgs<ExtArgs>
+}
+export type MedicineBatchIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  medicine?: boolean | Prisma.MedicineDefaultArgs<ExtArgs>
+  recall?: boolean | Prisma.MedicineBatch$recallArgs<ExtArgs>
+}
+export type MedicineBatchIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  medicine?: boolean | Prisma.MedicineDefaultArgs<ExtArgs>
+  recall?: boolean | Prisma.MedicineBatch$recallArgs<ExtArgs>
+}
+
+export type $MedicineBatchPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "MedicineBatch"
+  objects: {
+    medicine: Prisma.$MedicinePayload<ExtArgs>
+    recall: Prisma.$RecallPayload<ExtArgs> | null
+    allocations: Prisma.$OrderItemBatchPayload<ExtArgs>[]
+    stockMovements: Prisma.$StockMovementPayload<ExtArgs>[]
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    medicineId: string
+    batchNumber: string
+    manufactureDate: Date | null
+    expiryDate: Date | null
+    quantity: number
+    purchaseCost: runtime.Decimal | null
+    recallId: string | null
+    createdAt: Date
+    updatedAt: Date
+  }, ExtArgs["result"]["medicineBatch"]>
+  composites: {}
+}
+
+export type MedicineBatchGetPayload<S extends boolean | null | undefined | MedicineBatchDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$MedicineBatchPayload, S>
+
+export type MedicineBatchCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<MedicineBatchFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: MedicineBatchCountAggregateInputType | true
+  }
+
+export interface MedicineBatchDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['MedicineBatch'], meta: { name: 'MedicineBatch' } }
+  /**
+   * Find zero or one MedicineBatch that matches the filter.
+   * @param {MedicineBatchFindUniqueArgs} args - Arguments to find a MedicineBatch
+   * @example
+   * // Get one MedicineBatch
+   * const medicineBatch = await prisma.medicineBatch.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends MedicineBatchFindUniqueArgs>(args: Prisma.SelectSubset<T, MedicineBatchFindUniqueArgs<ExtArgs>>): Prisma.Prisma__MedicineBatchClient<runtime.Types.Result.GetResult<Prisma.$MedicineBatchPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one MedicineBatch that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {MedicineBatchFindUniqueOrThrowArgs} args - Arguments to find a MedicineBatch
+   * @example
+   * // Get one MedicineBatch
+   * const medicineBatch = await prisma.medicineBatch.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends MedicineBatchFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, MedicineBatchFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__MedicineBatchClient<runtime.Types.Result.GetResult<Prisma.$MedicineBatchPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first MedicineBatch that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {MedicineBatchFindFirstArgs} args - Arguments to find a MedicineBatch
+   * @example
+   * // Get one MedicineBatch
+   * const medicineBatch = await prisma.medicineBatch.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends MedicineBatchFindFirstArgs>(args?: Prisma.SelectSubset<T, MedicineBatchFindFirstArgs<ExtArgs>>): Prisma.Prisma__MedicineBatchClient<runtime.Types.Result.GetResult<Prisma.$MedicineBatchPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first MedicineBatch that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {MedicineBatchFindFirstOrThrowArgs} args - Arguments to find a MedicineBatch
+   * @example
+   * // Get one MedicineBatch
+   * const medicineBatch = await prisma.medicineBatch.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends MedicineBatchFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, MedicineBatchFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__MedicineBatchClient<runtime.Types.Result.GetResult<Prisma.$MedicineBatchPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more MedicineBatches that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {MedicineBatchFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all MedicineBatches
+   * const medicineBatches = await prisma.medicineBatch.findMany()
+   * 
+   * // Get first 10 MedicineBatches
+   * const medicineBatches = await prisma.medicineBatch.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const medicineBatchWithIdOnly = await prisma.medicineBatch.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends MedicineBatchFindManyArgs>(args?: Prisma.SelectSubset<T, MedicineBatchFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$MedicineBatchPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a MedicineBatch.
+   * @param {MedicineBatchCreateArgs} args - Arguments to create a MedicineBatch.
+   * @example
+   * // Create one MedicineBatch
+   * const MedicineBatch = await prisma.medicineBatch.create({
+   *   data: {
+   *     // ... data to create a MedicineBatch
+   *   }
+   * })
+   * 
+   */
+  create<T extends MedicineBatchCreateArgs>(args: Prisma.SelectSubset<T, MedicineBatchCreateArgs<ExtArgs>>): Prisma.Prisma__MedicineBatchClient<runtime.Types.Result.GetResult<Prisma.$MedicineBatchPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many MedicineBatches.
+   * @param {MedicineBatchCreateManyArgs} args - Arguments to create many MedicineBatches.
+   * @example
+   * // Create many MedicineBatches
+   * const medicineBatch = await prisma.medicineBatch.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends MedicineBatchCreateManyArgs>(args?: Prisma.SelectSubset<T, MedicineBatchCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many MedicineBatches and returns the data saved in the database.
+   * @param {MedicineBatchCreateManyAndReturnArgs} args - Arguments to create many MedicineBatches.
+   * @example
+   * // Create many MedicineBatches
+   * const medicineBatch = await prisma.medicineBatch.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many MedicineBatches and only return the `id`
+   * const medicineBatchWithIdOnly = await prisma.medicineBatch.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends MedicineBatchCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, MedicineBatchCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$MedicineBatchPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a MedicineBatch.
+   * @param {MedicineBatchDeleteArgs} args - Arguments to delete one MedicineBatch.
+   * @example
+   * // Delete one MedicineBatch
+   * const MedicineBatch = await prisma.medicineBatch.delete({
+   *   where: {
+   *     // ... filter to delete one MedicineBatch
+   *   }
+   * })
+   * 
+   */
+  delete<T extends MedicineBatchDeleteArgs>(args: Prisma.SelectSubset<T, MedicineBatchDeleteArgs<ExtArgs>>): Prisma.Prisma__MedicineBatchClient<runtime.Types.Result.GetResult<Prisma.$MedicineBatchPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one MedicineBatch.
+   * @param {MedicineBatchUpdateArgs} args - Arguments to update one MedicineBatch.
+   * @example
+   * // Update one MedicineBatch
+   * const medicineBatch = await prisma.medicineBatch.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends MedicineBatchUpdateArgs>(args: Prisma.SelectSubset<T, MedicineBatchUpdateArgs<ExtArgs>>): Prisma.Prisma__MedicineBatchClient<runtime.Types.Result.GetResult<Prisma.$MedicineBatchPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more MedicineBatches.
+   * @param {MedicineBatchDeleteManyArgs} args - Arguments to filter MedicineBatches to delete.
+   * @example
+   * // Delete a few MedicineBatches
+   * const { count } = await prisma.medicineBatch.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends MedicineBatchDeleteManyArgs>(args?: Prisma.SelectSubset<T, MedicineBatchDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more MedicineBatches.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {MedicineBatchUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many MedicineBatches
+   * const medicineBatch = await prisma.medicineBatch.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends MedicineBatchUpdateManyArgs>(args: Prisma.SelectSubset<T, MedicineBatchUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more MedicineBatches and returns the data updated in the database.
+   * @param {MedicineBatchUpdateManyAndReturnArgs} args - Arguments to update many MedicineBatches.
+   * @example
+   * // Update many MedicineBatches
+   * const medicineBatch = await prisma.medicineBatch.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more MedicineBatches and only return the `id`
+   * const medicineBatchWithIdOnly = await prisma.medicineBatch.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends MedicineBatchUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, MedicineBatchUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$MedicineBatchPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one MedicineBatch.
+   * @param {MedicineBatchUpsertArgs} args - Arguments to update or create a MedicineBatch.
+   * @example
+   * // Update or create a MedicineBatch
+   * const medicineBatch = await prisma.medicineBatch.upsert({
+   *   create: {
+   *     // ... data to create a MedicineBatch
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the MedicineBatch we want to update
+   *   }
+   * })
+   */
+  upsert<T extends MedicineBatchUpsertArgs>(args: Prisma.SelectSubset<T, MedicineBatchUpsertArgs<ExtArgs>>): Prisma.Prisma__MedicineBatchClient<runtime.Types.Result.GetResult<Prisma.$MedicineBatchPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of MedicineBatches.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {MedicineBatchCountArgs} args - Arguments to filter MedicineBatches to count.
+   * @example
+   * // Count the number of MedicineBatches
+   * const count = await prisma.medicineBatch.count({
+   *   where: {
+   *     // ... the filter for the MedicineBatches we want to count
+   *   }
+   * })
+  **/
+  count<T extends MedicineBatchCountArgs>(
+    args?: Prisma.Subset<T, MedicineBatchCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], MedicineBatchCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a MedicineBatch.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {MedicineBatchAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends MedicineBatchAggregateArgs>(args: Prisma.Subset<T, MedicineBatchAggregateArgs>): Prisma.PrismaPromise<GetMedicineBatchAggregateType<T>>
+
+  /**
+   * Group by MedicineBatch.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {MedicineBatchGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends MedicineBatchGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: MedicineBatchGroupByArgs['orderBy'] }
+      : { orderBy?: MedicineBatchGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, MedicineBatchGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetMedicineBatchGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the MedicineBatch model
+ */
+readonly fields: MedicineBatchFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for MedicineBatch.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__MedicineBatchClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  medicine<T extends Prisma.MedicineDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.MedicineDefaultArgs<ExtArgs>>): Prisma.Prisma__MedicineClient<runtime.Types.Result.GetResult<Prisma.$MedicinePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  recall<T extends Prisma.MedicineBatch$recallArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.MedicineBatch$recallArgs<ExtArgs>>): Prisma.Prisma__RecallClient<runtime.Types.Result.GetResult<Prisma.$RecallPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  allocations<T extends Prisma.MedicineBatch$allocationsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.MedicineBatch$allocationsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$OrderItemBatchPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  stockMovements<T extends Prisma.MedicineBatch$stockMovementsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.MedicineBatch$stockMovementsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$StockMovementPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the MedicineBatch model
+ */
+export interface MedicineBatchFieldRefs {
+  readonly id: Prisma.FieldRef<"MedicineBatch", 'String'>
+  readonly medicineId: Prisma.FieldRef<"MedicineBatch", 'String'>
+  readonly batchNumber: Prisma.FieldRef<"MedicineBatch", 'String'>
+  readonly manufactureDate: Prisma.FieldRef<"MedicineBatch", 'DateTime'>
+  readonly expiryDate: Prisma.FieldRef<"MedicineBatch", 'DateTime'>
+  readonly quantity: Prisma.FieldRef<"MedicineBatch", 'Int'>
+  readonly purchaseCost: Prisma.FieldRef<"MedicineBatch", 'Decimal'>
+  readonly recallId: Prisma.FieldRef<"MedicineBatch", 'String'>
+  readonly createdAt: Prisma.FieldRef<"MedicineBatch", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"MedicineBatch", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * MedicineBatch findUnique
+ */
+export type MedicineBatchFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the MedicineBatch
+   */
+  select?: Prisma.MedicineBatchSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the MedicineBatch
+   */
+  omit?: Prisma.MedicineBatchOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.MedicineBatchInclude<ExtArgs> | null
+  /**
+   * Filter, which MedicineBatch to fetch.
+   */
+  where: Prisma.MedicineBatchWhereUniqueInput
+}
+
+/**
+ * MedicineBatch findUniqueOrThrow
+ */
+export type MedicineBatchFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the MedicineBatch
+   */
+  select?: Prisma.MedicineBatchSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the MedicineBatch
+   */
+  omit?: Prisma.MedicineBatchOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.MedicineBatchInclude<ExtArgs> | null
+  /**
+   * Filter, which MedicineBatch to fetch.
+   */
+  where: Prisma.MedicineBatchWhereUniqueInput
+}
+
+/**
+ * MedicineBatch findFirst
+ */
+export type MedicineBatchFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the MedicineBatch
+   */
+  select?: Prisma.MedicineBatchSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the MedicineBatch
+   */
+  omit?: Prisma.MedicineBatchOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.MedicineBatchInclude<ExtArgs> | null
+  /**
+   * Filter, which MedicineBatch to fetch.
+   */
+  where?: Prisma.MedicineBatchWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of MedicineBatches to fetch.
+   */
+  orderBy?: Prisma.MedicineBatchOrderByWithRelationInput | Prisma.MedicineBatchOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for MedicineBatches.
+   */
+  cursor?: Prisma.MedicineBatchWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` MedicineBatches from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` MedicineBatches.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of MedicineBatches.
+   */
+  distinct?: Prisma.MedicineBatchScalarFieldEnum | Prisma.MedicineBatchScalarFieldEnum[]
+}
+
+/**
+ * MedicineBatch findFirstOrThrow
+ */
+export type MedicineBatchFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the MedicineBatch
+   */
+  select?: Prisma.MedicineBatchSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the MedicineBatch
+   */
+  omit?: Prisma.MedicineBatchOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.MedicineBatchInclude<ExtArgs> | null
+  /**
+   * Filter, which MedicineBatch to fetch.
+   */
+  where?: Prisma.MedicineBatchWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of MedicineBatches to fetch.
+   */
+  orderBy?: Prisma.MedicineBatchOrderByWithRelationInput | Prisma.MedicineBatchOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for MedicineBatches.
+   */
+  cursor?: Prisma.MedicineBatchWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` MedicineBatches from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` MedicineBatches.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of MedicineBatches.
+   */
+  distinct?: Prisma.MedicineBatchScalarFieldEnum | Prisma.MedicineBatchScalarFieldEnum[]
+}
+
+/**
+ * MedicineBatch findMany
+ */
+export type MedicineBatchFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the MedicineBatch
+   */
+  select?: Prisma.MedicineBatchSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the MedicineBatch
+   */
+  omit?: Prisma.MedicineBatchOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.MedicineBatchInclude<ExtArgs> | null
+  /**
+   * Filter, which MedicineBatches to fetch.
+   */
+  where?: Prisma.MedicineBatchWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of MedicineBatches to fetch.
+   */
+  orderBy?: Prisma.MedicineBatchOrderByWithRelationInput | Prisma.MedicineBatchOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing MedicineBatches.
+   */
+  cursor?: Prisma.MedicineBatchWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` MedicineBatches from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` MedicineBatches.
+   */
+  skip?: number
+  distinct?: Prisma.MedicineBatchScalarFieldEnum | Prisma.MedicineBatchScalarFieldEnum[]
+}
+
+/**
+ * MedicineBatch create
+ */
+export type MedicineBatchCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the MedicineBatch
+   */
+  select?: Prisma.MedicineBatchSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the MedicineBatch
+   */
+  omit?: Prisma.MedicineBatchOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.MedicineBatchInclude<ExtArgs> | null
+  /**
+   * The data needed to create a MedicineBatch.
+   */
+  data: Prisma.XOR<Prisma.MedicineBatchCreateInput, Prisma.MedicineBatchUncheckedCreateInput>
+}
+
+/**
+ * MedicineBatch createMany
+ */
+export type MedicineBatchCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many MedicineBatches.
+   */
+  data: Prisma.MedicineBatchCreateManyInput | Prisma.MedicineBatchCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * MedicineBatch createManyAndReturn
+ */
+export type MedicineBatchCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the MedicineBatch
+   */
+  select?: Prisma.MedicineBatchSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the MedicineBatch
+   */
+  omit?: Prisma.MedicineBatchOmit<ExtArgs> | null
+  /**
+   * The data used to create many MedicineBatches.
+   */
+  data: Prisma.MedicineBatchCreateManyInput | Prisma.MedicineBatchCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.MedicineBatchIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * MedicineBatch update
+ */
+export type MedicineBatchUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the MedicineBatch
+   */
+  select?: Prisma.MedicineBatchSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the MedicineBatch
+   */
+  omit?: Prisma.MedicineBatchOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.MedicineBatchInclude<ExtArgs> | null
+  /**
+   * The data needed to update a MedicineBatch.
+   */
+  data: Prisma.XOR<Prisma.MedicineBatchUpdateInput, Prisma.MedicineBatchUncheckedUpdateInput>
+  /**
+   * Choose, which MedicineBatch to update.
+   */
+  where: Prisma.MedicineBatchWhereUniqueInput
+}
+
+/**
+ * MedicineBatch updateMany
+ */
+export type MedicineBatchUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update MedicineBatches.
+   */
+  data: Prisma.XOR<Prisma.MedicineBatchUpdateManyMutationInput, Prisma.MedicineBatchUncheckedUpdateManyInput>
+  /**
+   * Filter which MedicineBatches to update
+   */
+  where?: Prisma.MedicineBatchWhereInput
+  /**
+   * Limit how many MedicineBatches to update.
+   */
+  limit?: number
+}
+
+/**
+ * MedicineBatch updateManyAndReturn
+ */
+export type MedicineBatchUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the MedicineBatch
+   */
+  select?: Prisma.MedicineBatchSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the MedicineBatch
+   */
+  omit?: Prisma.MedicineBatchOmit<ExtArgs> | null
+  /**
+   * The data used to update MedicineBatches.
+   */
+  data: Prisma.XOR<Prisma.MedicineBatchUpdateManyMutationInput, Prisma.MedicineBatchUncheckedUpdateManyInput>
+  /**
+   * Filter which MedicineBatches to update
+   */
+  where?: Prisma.MedicineBatchWhereInput
+  /**
+   * Limit how many MedicineBatches to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.MedicineBatchIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * MedicineBatch upsert
+ */
+export type MedicineBatchUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the MedicineBatch
+   */
+  select?: Prisma.MedicineBatchSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the MedicineBatch
+   */
+  omit?: Prisma.MedicineBatchOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.MedicineBatchInclude<ExtArgs> | null
+  /**
+   * The filter to search for the MedicineBatch to update in case it exists.
+   */
+  where: Prisma.MedicineBatchWhereUniqueInput
+  /**
+   * In case the MedicineBatch found by the `where` argument doesn't exist, create a new MedicineBatch with this data.
+   */
+  create: Prisma.XOR<Prisma.MedicineBatchCreateInput, Prisma.MedicineBatchUncheckedCreateInput>
+  /**
+   * In case the MedicineBatch was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.MedicineBatchUpdateInput, Prisma.MedicineBatchUncheckedUpdateInput>
+}
+
+/**
+ * MedicineBatch delete
+ */
+export type MedicineBatchDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the MedicineBatch
+   */
+  select?: Prisma.MedicineBatchSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the MedicineBatch
+   */
+  omit?: Prisma.MedicineBatchOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.MedicineBatchInclude<ExtArgs> | null
+  /**
+   * Filter which MedicineBatch to delete.
+   */
+  where: Prisma.MedicineBatchWhereUniqueInput
+}
+
+/**
+ * MedicineBatch deleteMany
+ */
+export type MedicineBatchDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which MedicineBatches to delete
+   */
+  where?: Prisma.MedicineBatchWhereInput
+  /**
+   * Limit how many MedicineBatches to delete.
+   */
+  limit?: number
+}
+
+/**
+ * MedicineBatch.recall
+ */
+export type MedicineBatch$recallArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Recall
+   */
+  select?: Prisma.RecallSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Recall
+   */
+  omit?: Prisma.RecallOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RecallInclude<ExtArgs> | null
+  where?: Prisma.RecallWhereInput
+}
+
+/**
+ * MedicineBatch.allocations
+ */
+export type MedicineBatch$allocationsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OrderItemBatch
+   */
+  select?: Prisma.OrderItemBatchSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OrderItemBatch
+   */
+  omit?: Prisma.OrderItemBatchOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OrderItemBatchInclude<ExtArgs> | null
+  where?: Prisma.OrderItemBatchWhereInput
+  orderBy?: Prisma.OrderItemBatchOrderByWithRelationInput | Prisma.OrderItemBatchOrderByWithRelationInput[]
+  cursor?: Prisma.OrderItemBatchWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.OrderItemBatchScalarFieldEnum | Prisma.OrderItemBatchScalarFieldEnum[]
+}
+
+/**
+ * MedicineBatch.stockMovements
+ */
+export type MedicineBatch$stockMovementsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the StockMovement
+   */
+  select?: Prisma.StockMovementSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the StockMovement
+   */
+  omit?: Prisma.StockMovementOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.StockMovementInclude<ExtArgs> | null
+  where?: Prisma.StockMovementWhereInput
+  orderBy?: Prisma.StockMovementOrderByWithRelationInput | Prisma.StockMovementOrderByWithRelationInput[]
+  cursor?: Prisma.StockMovementWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.StockMovementScalarFieldEnum | Prisma.StockMovementScalarFieldEnum[]
+}
+
+/**
+ * MedicineBatch without action
+ */
+export type MedicineBatchDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the MedicineBatch
+   */
+  select?: Prisma.MedicineBatchSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the MedicineBatch
+   */
+  omit?: Prisma.MedicineBatchOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.MedicineBatchInclude<ExtArgs> | null
+}
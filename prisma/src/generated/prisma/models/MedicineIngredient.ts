@@ -0,0 +1,1384 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `MedicineIngredient` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model MedicineIngredient
+ * 
+ */
+export type MedicineIngredientModel = runtime.Types.Result.DefaultSelection<Prisma.$MedicineIngredientPayload>
+
+export type AggregateMedicineIngredient = {
+  _count: MedicineIngredientCountAggregateOutputType | null
+  _avg: MedicineIngredientAvgAggregateOutputType | null
+  _sum: MedicineIngredientSumAggregateOutputType | null
+  _min: MedicineIngredientMinAggregateOutputType | null
+  _max: MedicineIngredientMaxAggregateOutputType | null
+}
+
+export type MedicineIngredientAvgAggregateOutputType = {
+  amount: number | null
+}
+
+export type MedicineIngredientSumAggregateOutputType = {
+  amount: number | null
+}
+
+export type MedicineIngredientMinAggregateOutputType = {
+  id: string | null
+  medicineId: string | null
+  name: string | null
+  amount: number | null
+  unit: string | null
+}
+
+export type MedicineIngredientMaxAggregateOutputType = {
+  id: string | null
+  medicineId: string | null
+  name: string | null
+  amount: number | null
+  unit: string | null
+}
+
+export type MedicineIngredientCountAggregateOutputType = {
+  id: number
+  medicineId: number
+  name: number
+  amount: number
+  unit: number
+  _all: number
+}
+
+
+export type MedicineIngredientAvgAggregateInputType = {
+  amount?: true
+}
+
+export type MedicineIngredientSumAggregateInputType = {
+  amount?: true
+}
+
+export type MedicineIngredientMinAggregateInputType = {
+  id?: true
+  medicineId?: true
+  name?: true
+  amount?: true
+  unit?: true
+}
+
+export type MedicineIngredientMaxAggregateInputType = {
+  id?: true
+  medicineId?: true
+  name?: true
+  amount?: true
+  unit?: true
+}
+
+export type MedicineIngredientCountAggregateInputType = {
+  id?: true
+  medicineId?: true
+  name?: true
+  amount?: true
+  unit?: true
+  _all?: true
+}
+
+export type MedicineIngredientAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which MedicineIngredient to aggregate.
+   */
+  where?: Prisma.MedicineIngredientWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of MedicineIngredients to fetch.
+   */
+  orderBy?: Prisma.MedicineIngredientOrderByWithRelationInput | Prisma.MedicineIngredientOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.MedicineIngredientWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` MedicineIngredients from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` MedicineIngredients.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned MedicineIngredients
+  **/
+  _count?: true | MedicineIngredientCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: MedicineIngredientAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: MedicineIngredientSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: MedicineIngredientMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: MedicineIngredientMaxAggregateInputType
+}
+
+export type GetMedicineIngredientAggregateType<T extends MedicineIngredientAggregateArgs> = {
+      [P in keyof T & keyof AggregateMedicineIngredient]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateMedicineIngredient[P]>
+    : Prisma.GetScalarType<T[P], AggregateMedicineIngredient[P]>
+}
+
+
+
+
+export type MedicineIngredientGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.MedicineIngredientWhereInput
+  orderBy?: Prisma.MedicineIngredientOrderByWithAggregationInput | Prisma.MedicineIngredientOrderByWithAggregationInput[]
+  by: Prisma.MedicineIngredientScalarFieldEnum[] | Prisma.MedicineIngredientScalarFieldEnum
+  having?: Prisma.MedicineIngredientScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: MedicineIngredientCountAggregateInputType | true
+  _avg?: MedicineIngredientAvgAggregateInputType
+  _sum?: MedicineIngredientSumAggregateInputType
+  _min?: MedicineIngredientMinAggregateInputType
+  _max?: MedicineIngredientMaxAggregateInputType
+}
+
+export type MedicineIngredientGroupByOutputType = {
+  id: string
+  medicineId: string
+  name: string
+  amount: number | null
+  unit: string | null
+  _count: MedicineIngredientCountAggregateOutputType | null
+  _avg: MedicineIngredientAvgAggregateOutputType | null
+  _sum: MedicineIngredientSumAggregateOutputType | null
+  _min: MedicineIngredientMinAggregateOutputType | null
+  _max: MedicineIngredientMaxAggregateOutputType | null
+}
+
+type GetMedicineIngredientGroupByPayload<T extends MedicineIngredientGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<MedicineIngredientGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof MedicineIngredientGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], MedicineIngredientGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], MedicineIngredientGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type MedicineIngredientWhereInput = {
+  AND?: Prisma.MedicineIngredientWhereInput | Prisma.MedicineIngredientWhereInput[]
+  OR?: Prisma.MedicineIngredientWhereInput[]
+  NOT?: Prisma.MedicineIngredientWhereInput | Prisma.MedicineIngredientWhereInput[]
+  id?: Prisma.StringFilter<"MedicineIngredient"> | string
+  medicineId?: Prisma.StringFilter<"MedicineIngredient"> | string
+  name?: Prisma.StringFilter<"MedicineIngredient"> | string
+  amount?: Prisma.FloatNullableFilter<"MedicineIngredient"> | number | null
+  unit?: Prisma.StringNullableFilter<"MedicineIngredient"> | string | null
+  medicine?: Prisma.XOR<Prisma.MedicineScalarRelationFilter, Prisma.MedicineWhereInput>
+}
+
+export type MedicineIngredientOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  medicineId?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  amount?: Prisma.SortOrderInput | Prisma.SortOrder
+  unit?: Prisma.SortOrderInput | Prisma.SortOrder
+  medicine?: Prisma.MedicineOrderByWithRelationInput
+}
+
+export type MedicineIngredientWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  AND?: Prisma.MedicineIngredientWhereInput | Prisma.MedicineIngredientWhereInput[]
+  OR?: Prisma.MedicineIngredientWhereInput[]
+  NOT?: Prisma.MedicineIngredientWhereInput | Prisma.MedicineIngredientWhereInput[]
+  medicineId?: Prisma.StringFilter<"MedicineIngredient"> | string
+  name?: Prisma.StringFilter<"MedicineIngredient"> | string
+  amount?: Prisma.FloatNullableFilter<"MedicineIngredient"> | number | null
+  unit?: Prisma.StringNullableFilter<"MedicineIngredient"> | string | null
+  medicine?: Prisma.XOR<Prisma.MedicineScalarRelationFilter, Prisma.MedicineWhereInput>
+}, "id">
+
+export type MedicineIngredientOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  medicineId?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  amount?: Prisma.SortOrderInput | Prisma.SortOrder
+  unit?: Prisma.SortOrderInput | Prisma.SortOrder
+  _count?: Prisma.MedicineIngredientCountOrderByAggregateInput
+  _avg?: Prisma.MedicineIngredientAvgOrderByAggregateInput
+  _max?: Prisma.MedicineIngredientMaxOrderByAggregateInput
+  _min?: Prisma.MedicineIngredientMinOrderByAggregateInput
+  _sum?: Prisma.MedicineIngredientSumOrderByAggregateInput
+}
+
+export type MedicineIngredientScalarWhereWithAggregatesInput = {
+  AND?: Prisma.MedicineIngredientScalarWhereWithAggregatesInput | Prisma.MedicineIngredientScalarWhereWithAggregatesInput[]
+  OR?: Prisma.MedicineIngredientScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.MedicineIngredientScalarWhereWithAggregatesInput | Prisma.MedicineIngredientScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"MedicineIngredient"> | string
+  medicineId?: Prisma.StringWithAggregatesFilter<"MedicineIngredient"> | string
+  name?: Prisma.StringWithAggregatesFilter<"MedicineIngredient"> | string
+  amount?: Prisma.FloatNullableWithAggregatesFilter<"MedicineIngredient"> | number | null
+  unit?: Prisma.StringNullableWithAggregatesFilter<"MedicineIngredient"> | string | null
+}
+
+export type MedicineIngredientCreateInput = {
+  id?: string
+  name: string
+  amount?: number | null
+  unit?: string | null
+  medicine: Prisma.MedicineCreateNestedOneWithoutIngredientsInput
+}
+
+export type MedicineIngredientUncheckedCreateInput = {
+  id?: string
+  medicineId: string
+  name: string
+  amount?: number | null
+  unit?: string | null
+}
+
+export type MedicineIngredientUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  unit?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  medicine?: Prisma.MedicineUpdateOneRequiredWithoutIngredientsNestedInput
+}
+
+export type MedicineIngredientUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  medicineId?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  unit?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+}
+
+export type MedicineIngredientCreateManyInput = {
+  id?: string
+  medicineId: string
+  name: string
+  amount?: number | null
+  unit?: string | null
+}
+
+export type MedicineIngredientUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  unit?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+}
+
+export type MedicineIngredientUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  medicineId?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  unit?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+}
+
+export type MedicineIngredientListRelationFilter = {
+  every?: Prisma.MedicineIngredientWhereInput
+  some?: Prisma.MedicineIngredientWhereInput
+  none?: Prisma.MedicineIngredientWhereInput
+}
+
+export type MedicineIngredientOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type MedicineIngredientCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  medicineId?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  amount?: Prisma.SortOrder
+  unit?: Prisma.SortOrder
+}
+
+export type MedicineIngredientAvgOrderByAggregateInput = {
+  amount?: Prisma.SortOrder
+}
+
+export type MedicineIngredientMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  medicineId?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  amount?: Prisma.SortOrder
+  unit?: Prisma.SortOrder
+}
+
+export type MedicineIngredientMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  medicineId?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  amount?: Prisma.SortOrder
+  unit?: Prisma.SortOrder
+}
+
+export type MedicineIngredientSumOrderByAggregateInput = {
+  amount?: Prisma.SortOrder
+}
+
+export type MedicineIngredientCreateNestedManyWithoutMedicineInput = {
+  create?: Prisma.XOR<Prisma.MedicineIngredientCreateWithoutMedicineInput, Prisma.MedicineIngredientUncheckedCreateWithoutMedicineInput> | Prisma.MedicineIngredientCreateWithoutMedicineInput[] | Prisma.MedicineIngredientUncheckedCreateWithoutMedicineInput[]
+  connectOrCreate?: Prisma.MedicineIngredientCreateOrConnectWithoutMedicineInput | Prisma.MedicineIngredientCreateOrConnectWithoutMedicineInput[]
+  createMany?: Prisma.MedicineIngredientCreateManyMedicineInputEnvelope
+  connect?: Prisma.MedicineIngredientWhereUniqueInput | Prisma.MedicineIngredientWhereUniqueInput[]
+}
+
+export type MedicineIngredientUncheckedCreateNestedManyWithoutMedicineInput = {
+  create?: Prisma.XOR<Prisma.MedicineIngredientCreateWithoutMedicineInput, Prisma.MedicineIngredientUncheckedCreateWithoutMedicineInput> | Prisma.MedicineIngredientCreateWithoutMedicineInput[] | Prisma.MedicineIngredientUncheckedCreateWithoutMedicineInput[]
+  connectOrCreate?: Prisma.MedicineIngredientCreateOrConnectWithoutMedicineInput | Prisma.MedicineIngredientCreateOrConnectWithoutMedicineInput[]
+  createMany?: Prisma.MedicineIngredientCreateManyMedicineInputEnvelope
+  connect?: Prisma.MedicineIngredientWhereUniqueInput | Prisma.MedicineIngredientWhereUniqueInput[]
+}
+
+export type MedicineIngredientUpdateManyWithoutMedicineNestedInput = {
+  create?: Prisma.XOR<Prisma.MedicineIngredientCreateWithoutMedicineInput, Prisma.MedicineIngredientUncheckedCreateWithoutMedicineInput> | Prisma.MedicineIngredientCreateWithoutMedicineInput[] | Prisma.MedicineIngredientUncheckedCreateWithoutMedicineInput[]
+  connectOrCreate?: Prisma.MedicineIngredientCreateOrConnectWithoutMedicineInput | Prisma.MedicineIngredientCreateOrConnectWithoutMedicineInput[]
+  upsert?: Prisma.MedicineIngredientUpsertWithWhereUniqueWithoutMedicineInput | Prisma.MedicineIngredientUpsertWithWhereUniqueWithoutMedicineInput[]
+  createMany?: Prisma.MedicineIngredientCreateManyMedicineInputEnvelope
+  set?: Prisma.MedicineIngredientWhereUniqueInput | Prisma.MedicineIngredientWhereUniqueInput[]
+  disconnect?: Prisma.MedicineIngredientWhereUniqueInput | Prisma.MedicineIngredientWhereUniqueInput[]
+  delete?: Prisma.MedicineIngredientWhereUniqueInput | Prisma.MedicineIngredientWhereUniqueInput[]
+  connect?: Prisma.MedicineIngredientWhereUniqueInput | Prisma.MedicineIngredientWhereUniqueInput[]
+  update?: Prisma.MedicineIngredientUpdateWithWhereUniqueWithoutMedicineInput | Prisma.MedicineIngredientUpdateWithWhereUniqueWithoutMedicineInput[]
+  updateMany?: Prisma.MedicineIngredientUpdateManyWithWhereWithoutMedicineInput | Prisma.MedicineIngredientUpdateManyWithWhereWithoutMedicineInput[]
+  deleteMany?: Prisma.MedicineIngredientScalarWhereInput | Prisma.MedicineIngredientScalarWhereInput[]
+}
+
+export type MedicineIngredientUncheckedUpdateManyWithoutMedicineNestedInput = {
+  create?: Prisma.XOR<Prisma.MedicineIngredientCreateWithoutMedicineInput, Prisma.MedicineIngredientUncheckedCreateWithoutMedicineInput> | Prisma.MedicineIngredientCreateWithoutMedicineInput[] | Prisma.MedicineIngredientUncheckedCreateWithoutMedicineInput[]
+  connectOrCreate?: Prisma.MedicineIngredientCreateOrConnectWithoutMedicineInput | Prisma.MedicineIngredientCreateOrConnectWithoutMedicineInput[]
+  upsert?: Prisma.MedicineIngredientUpsertWithWhereUniqueWithoutMedicineInput | Prisma.MedicineIngredientUpsertWithWhereUniqueWithoutMedicineInput[]
+  createMany?: Prisma.MedicineIngredientCreateManyMedicineInputEnvelope
+  set?: Prisma.MedicineIngredientWhereUniqueInput | Prisma.MedicineIngredientWhereUniqueInput[]
+  disconnect?: Prisma.MedicineIngredientWhereUniqueInput | Prisma.MedicineIngredientWhereUniqueInput[]
+  delete?: Prisma.MedicineIngredientWhereUniqueInput | Prisma.MedicineIngredientWhereUniqueInput[]
+  connect?: Prisma.MedicineIngredientWhereUniqueInput | Prisma.MedicineIngredientWhereUniqueInput[]
+  update?: Prisma.MedicineIngredientUpdateWithWhereUniqueWithoutMedicineInput | Prisma.MedicineIngredientUpdateWithWhereUniqueWithoutMedicineInput[]
+  updateMany?: Prisma.MedicineIngredientUpdateManyWithWhereWithoutMedicineInput | Prisma.MedicineIngredientUpdateManyWithWhereWithoutMedicineInput[]
+  deleteMany?: Prisma.MedicineIngredientScalarWhereInput | Prisma.MedicineIngredientScalarWhereInput[]
+}
+
+export type MedicineIngredientCreateWithoutMedicineInput = {
+  id?: string
+  name: string
+  amount?: number | null
+  unit?: string | null
+}
+
+export type MedicineIngredientUncheckedCreateWithoutMedicineInput = {
+  id?: string
+  name: string
+  amount?: number | null
+  unit?: string | null
+}
+
+export type MedicineIngredientCreateOrConnectWithoutMedicineInput = {
+  where: Prisma.MedicineIngredientWhereUniqueInput
+  create: Prisma.XOR<Prisma.MedicineIngredientCreateWithoutMedicineInput, Prisma.MedicineIngredientUncheckedCreateWithoutMedicineInput>
+}
+
+export type MedicineIngredientCreateManyMedicineInputEnvelope = {
+  data: Prisma.MedicineIngredientCreateManyMedicineInput | Prisma.MedicineIngredientCreateManyMedicineInput[]
+  skipDuplicates?: boolean
+}
+
+export type MedicineIngredientUpsertWithWhereUniqueWithoutMedicineInput = {
+  where: Prisma.MedicineIngredientWhereUniqueInput
+  update: Prisma.XOR<Prisma.MedicineIngredientUpdateWithoutMedicineInput, Prisma.MedicineIngredientUncheckedUpdateWithoutMedicineInput>
+  create: Prisma.XOR<Prisma.MedicineIngredientCreateWithoutMedicineInput, Prisma.MedicineIngredientUncheckedCreateWithoutMedicineInput>
+}
+
+export type MedicineIngredientUpdateWithWhereUniqueWithoutMedicineInput = {
+  where: Prisma.MedicineIngredientWhereUniqueInput
+  data: Prisma.XOR<Prisma.MedicineIngredientUpdateWithoutMedicineInput, Prisma.MedicineIngredientUncheckedUpdateWithoutMedicineInput>
+}
+
+export type MedicineIngredientUpdateManyWithWhereWithoutMedicineInput = {
+  where: Prisma.MedicineIngredientScalarWhereInput
+  data: Prisma.XOR<Prisma.MedicineIngredientUpdateManyMutationInput, Prisma.MedicineIngredientUncheckedUpdateManyWithoutMedicineInput>
+}
+
+export type MedicineIngredientScalarWhereInput = {
+  AND?: Prisma.MedicineIngredientScalarWhereInput | Prisma.MedicineIngredientScalarWhereInput[]
+  OR?: Prisma.MedicineIngredientScalarWhereInput[]
+  NOT?: Prisma.MedicineIngredientScalarWhereInput | Prisma.MedicineIngredientScalarWhereInput[]
+  id?: Prisma.StringFilter<"MedicineIngredient"> | string
+  medicineId?: Prisma.StringFilter<"MedicineIngredient"> | string
+  name?: Prisma.StringFilter<"MedicineIngredient"> | string
+  amount?: Prisma.FloatNullableFilter<"MedicineIngredient"> | number | null
+  unit?: Prisma.StringNullableFilter<"MedicineIngredient"> | string | null
+}
+
+export type MedicineIngredientCreateManyMedicineInput = {
+  id?: string
+  name: string
+  amount?: number | null
+  unit?: string | null
+}
+
+export type MedicineIngredientUpdateWithoutMedicineInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  unit?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+}
+
+export type MedicineIngredientUncheckedUpdateWithoutMedicineInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  unit?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+}
+
+export type MedicineIngredientUncheckedUpdateManyWithoutMedicineInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  unit?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+}
+
+
+
+export type MedicineIngredientSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  medicineId?: boolean
+  name?: boolean
+  amount?: boolean
+  unit?: boolean
+  medicine?: boolean | Prisma.MedicineDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["medicineIngredient"]>
+
+export type MedicineIngredientSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  medicineId?: boolean
+  name?: boolean
+  amount?: boolean
+  unit?: boolean
+  medicine?: boolean | Prisma.MedicineDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["medicineIngredient"]>
+
+export type MedicineIngredientSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  medicineId?: boolean
+  name?: boolean
+  amount?: boolean
+  unit?: boolean
+  medicine?: boolean | Prisma.MedicineDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["medicineIngredient"]>
+
+export type MedicineIngredientSelectScalar = {
+  id?: boolean
+  medicineId?: boolean
+  name?: boolean
+  amount?: boolean
+  unit?: boolean
+}
+
+export type MedicineIngredientOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "medicineId" | "name" | "amount" | "unit", ExtArgs["result"]["medicineIngredient"]>
+export type MedicineIngredientInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  medicine?: boolean | Prisma.MedicineDefaultArgs<ExtArgs>
+}
+export type MedicineIngredientIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  medicine?: boolean | Prisma.MedicineDefaultArgs<ExtArgs>
+}
+export type MedicineIngredientIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  medicine?: boolean | Prisma.MedicineDefaultArgs<ExtArgs>
+}
+
+export type $MedicineIngredientPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "MedicineIngredient"
+  objects: {
+    medicine: Prisma.$MedicinePayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    medicineId: string
+    name: string
+    amount: number | null
+    unit: string | null
+  }, ExtArgs["result"]["medicineIngredient"]>
+  composites: {}
+}
+
+export type MedicineIngredientGetPayload<S extends boolean | null | undefined | MedicineIngredientDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$MedicineIngredientPayload, S>
+
+export type MedicineIngredientCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<MedicineIngredientFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: MedicineIngredientCountAggregateInputType | true
+  }
+
+export interface MedicineIngredientDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['MedicineIngredient'], meta: { name: 'MedicineIngredient' } }
+  /**
+   * Find zero or one MedicineIngredient that matches the filter.
+   * @param {MedicineIngredientFindUniqueArgs} args - Arguments to find a MedicineIngredient
+   * @example
+   * // Get one MedicineIngredient
+   * const medicineIngredient = await prisma.medicineIngredient.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends MedicineIngredientFindUniqueArgs>(args: Prisma.SelectSubset<T, MedicineIngredientFindUniqueArgs<ExtArgs>>): Prisma.Prisma__MedicineIngredientClient<runtime.Types.Result.GetResult<Prisma.$MedicineIngredientPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one MedicineIngredient that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {MedicineIngredientFindUniqueOrThrowArgs} args - Arguments to find a MedicineIngredient
+   * @example
+   * // Get one MedicineIngredient
+   * const medicineIngredient = await prisma.medicineIngredient.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends MedicineIngredientFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, MedicineIngredientFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__MedicineIngredientClient<runtime.Types.Result.GetResult<Prisma.$MedicineIngredientPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first MedicineIngredient that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {MedicineIngredientFindFirstArgs} args - Arguments to find a MedicineIngredient
+   * @example
+   * // Get one MedicineIngredient
+   * const medicineIngredient = await prisma.medicineIngredient.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends MedicineIngredientFindFirstArgs>(args?: Prisma.SelectSubset<T, MedicineIngredientFindFirstArgs<ExtArgs>>): Prisma.Prisma__MedicineIngredientClient<runtime.Types.Result.GetResult<Prisma.$MedicineIngredientPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first MedicineIngredient that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {MedicineIngredientFindFirstOrThrowArgs} args - Arguments to find a MedicineIngredient
+   * @example
+   * // Get one MedicineIngredient
+   * const medicineIngredient = await prisma.medicineIngredient.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends MedicineIngredientFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, MedicineIngredientFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__MedicineIngredientClient<runtime.Types.Result.GetResult<Prisma.$MedicineIngredientPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more MedicineIngredients that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {MedicineIngredientFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all MedicineIngredients
+   * const medicineIngredients = await prisma.medicineIngredient.findMany()
+   * 
+   * // Get first 10 MedicineIngredients
+   * const medicineIngredients = await prisma.medicineIngredient.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const medicineIngredientWithIdOnly = await prisma.medicineIngredient.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends MedicineIngredientFindManyArgs>(args?: Prisma.SelectSubset<T, MedicineIngredientFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$MedicineIngredientPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a MedicineIngredient.
+   * @param {MedicineIngredientCreateArgs} args - Arguments to create a MedicineIngredient.
+   * @example
+   * // Create one MedicineIngredient
+   * const MedicineIngredient = await prisma.medicineIngredient.create({
+   *   data: {
+   *     // ... data to create a MedicineIngredient
+   *   }
+   * })
+   * 
+   */
+  create<T extends MedicineIngredientCreateArgs>(args: Prisma.SelectSubset<T, MedicineIngredientCreateArgs<ExtArgs>>): Prisma.Prisma__MedicineIngredientClient<runtime.Types.Result.GetResult<Prisma.$MedicineIngredientPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many MedicineIngredients.
+   * @param {MedicineIngredientCreateManyArgs} args - Arguments to create many MedicineIngredients.
+   * @example
+   * // Create many MedicineIngredients
+   * const medicineIngredient = await prisma.medicineIngredient.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends MedicineIngredientCreateManyArgs>(args?: Prisma.SelectSubset<T, MedicineIngredientCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many MedicineIngredients and returns the data saved in the database.
+   * @param {MedicineIngredientCreateManyAndReturnArgs} args - Arguments to create many MedicineIngredients.
+   * @example
+   * // Create many MedicineIngredients
+   * const medicineIngredient = await prisma.medicineIngredient.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many MedicineIngredients and only return the `id`
+   * const medicineIngredientWithIdOnly = await prisma.medicineIngredient.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends MedicineIngredientCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, MedicineIngredientCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$MedicineIngredientPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a MedicineIngredient.
+   * @param {MedicineIngredientDeleteArgs} args - Arguments to delete one MedicineIngredient.
+   * @example
+   * // Delete one MedicineIngredient
+   * const MedicineIngredient = await prisma.medicineIngredient.delete({
+   *   where: {
+   *     // ... filter to delete one MedicineIngredient
+   *   }
+   * })
+   * 
+   */
+  delete<T extends MedicineIngredientDeleteArgs>(args: Prisma.SelectSubset<T, MedicineIngredientDeleteArgs<ExtArgs>>): Prisma.Prisma__MedicineIngredientClient<runtime.Types.Result.GetResult<Prisma.$MedicineIngredientPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one MedicineIngredient.
+   * @param {MedicineIngredientUpdateArgs} args - Arguments to update one MedicineIngredient.
+   * @example
+   * // Update one MedicineIngredient
+   * const medicineIngredient = await prisma.medicineIngredient.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends MedicineIngredientUpdateArgs>(args: Prisma.SelectSubset<T, MedicineIngredientUpdateArgs<ExtArgs>>): Prisma.Prisma__MedicineIngredientClient<runtime.Types.Result.GetResult<Prisma.$MedicineIngredientPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more MedicineIngredients.
+   * @param {MedicineIngredientDeleteManyArgs} args - Arguments to filter MedicineIngredients to delete.
+   * @example
+   * // Delete a few MedicineIngredients
+   * const { count } = await prisma.medicineIngredient.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends MedicineIngredientDeleteManyArgs>(args?: Prisma.SelectSubset<T, MedicineIngredientDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more MedicineIngredients.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {MedicineIngredientUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many MedicineIngredients
+   * const medicineIngredient = await prisma.medicineIngredient.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends MedicineIngredientUpdateManyArgs>(args: Prisma.SelectSubset<T, MedicineIngredientUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more MedicineIngredients and returns the data updated in the database.
+   * @param {MedicineIngredientUpdateManyAndReturnArgs} args - Arguments to update many MedicineIngredients.
+   * @example
+   * // Update many MedicineIngredients
+   * const medicineIngredient = await prisma.medicineIngredient.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more MedicineIngredients and only return the `id`
+   * const medicineIngredientWithIdOnly = await prisma.medicineIngredient.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends MedicineIngredientUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, MedicineIngredientUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$MedicineIngredientPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one MedicineIngredient.
+   * @param {MedicineIngredientUpsertArgs} args - Arguments to update or create a MedicineIngredient.
+   * @example
+   * // Update or create a MedicineIngredient
+   * const medicineIngredient = await prisma.medicineIngredient.upsert({
+   *   create: {
+   *     // ... data to create a MedicineIngredient
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the MedicineIngredient we want to update
+   *   }
+   * })
+   */
+  upsert<T extends MedicineIngredientUpsertArgs>(args: Prisma.SelectSubset<T, MedicineIngredientUpsertArgs<ExtArgs>>): Prisma.Prisma__MedicineIngredientClient<runtime.Types.Result.GetResult<Prisma.$MedicineIngredientPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of MedicineIngredients.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {MedicineIngredientCountArgs} args - Arguments to filter MedicineIngredients to count.
+   * @example
+   * // Count the number of MedicineIngredients
+   * const count = await prisma.medicineIngredient.count({
+   *   where: {
+   *     // ... the filter for the MedicineIngredients we want to count
+   *   }
+   * })
+  **/
+  count<T extends MedicineIngredientCountArgs>(
+    args?: Prisma.Subset<T, MedicineIngredientCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], MedicineIngredientCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a MedicineIngredient.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {MedicineIngredientAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends MedicineIngredientAggregateArgs>(args: Prisma.Subset<T, MedicineIngredientAggregateArgs>): Prisma.PrismaPromise<GetMedicineIngredientAggregateType<T>>
+
+  /**
+   * Group by MedicineIngredient.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {MedicineIngredientGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends MedicineIngredientGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: MedicineIngredientGroupByArgs['orderBy'] }
+      : { orderBy?: MedicineIngredientGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, MedicineIngredientGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetMedicineIngredientGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the MedicineIngredient model
+ */
+readonly fields: MedicineIngredientFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for MedicineIngredient.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__MedicineIngredientClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  medicine<T extends Prisma.MedicineDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.MedicineDefaultArgs<ExtArgs>>): Prisma.Prisma__MedicineClient<runtime.Types.Result.GetResult<Prisma.$MedicinePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the MedicineIngredient model
+ */
+export interface MedicineIngredientFieldRefs {
+  readonly id: Prisma.FieldRef<"MedicineIngredient", 'String'>
+  readonly medicineId: Prisma.FieldRef<"MedicineIngredient", 'String'>
+  readonly name: Prisma.FieldRef<"MedicineIngredient", 'String'>
+  readonly amount: Prisma.FieldRef<"MedicineIngredient", 'Float'>
+  readonly unit: Prisma.FieldRef<"MedicineIngredient", 'String'>
+}
+    
+
+// Custom InputTypes
+/**
+ * MedicineIngredient findUnique
+ */
+export type MedicineIngredientFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the MedicineIngredient
+   */
+  select?: Prisma.MedicineIngredientSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the MedicineIngredient
+   */
+  omit?: Prisma.MedicineIngredientOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.MedicineIngredientInclude<ExtArgs> | null
+  /**
+   * Filter, which MedicineIngredient to fetch.
+   */
+  where: Prisma.MedicineIngredientWhereUniqueInput
+}
+
+/**
+ * MedicineIngredient findUniqueOrThrow
+ */
+export type MedicineIngredientFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the MedicineIngredient
+   */
+  select?: Prisma.MedicineIngredientSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the MedicineIngredient
+   */
+  omit?: Prisma.MedicineIngredientOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.MedicineIngredientInclude<ExtArgs> | null
+  /**
+   * Filter, which MedicineIngredient to fetch.
+   */
+  where: Prisma.MedicineIngredientWhereUniqueInput
+}
+
+/**
+ * MedicineIngredient findFirst
+ */
+export type MedicineIngredientFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the MedicineIngredient
+   */
+  select?: Prisma.MedicineIngredientSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the MedicineIngredient
+   */
+  omit?: Prisma.MedicineIngredientOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.MedicineIngredientInclude<ExtArgs> | null
+  /**
+   * Filter, which MedicineIngredient to fetch.
+   */
+  where?: Prisma.MedicineIngredientWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of MedicineIngredients to fetch.
+   */
+  orderBy?: Prisma.MedicineIngredientOrderByWithRelationInput | Prisma.MedicineIngredientOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for MedicineIngredients.
+   */
+  cursor?: Prisma.MedicineIngredientWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` MedicineIngredients from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` MedicineIngredients.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of MedicineIngredients.
+   */
+  distinct?: Prisma.MedicineIngredientScalarFieldEnum | Prisma.MedicineIngredientScalarFieldEnum[]
+}
+
+/**
+ * MedicineIngredient findFirstOrThrow
+ */
+export type MedicineIngredientFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the MedicineIngredient
+   */
+  select?: Prisma.MedicineIngredientSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the MedicineIngredient
+   */
+  omit?: Prisma.MedicineIngredientOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.MedicineIngredientInclude<ExtArgs> | null
+  /**
+   * Filter, which MedicineIngredient to fetch.
+   */
+  where?: Prisma.MedicineIngredientWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of MedicineIngredients to fetch.
+   */
+  orderBy?: Prisma.MedicineIngredientOrderByWithRelationInput | Prisma.MedicineIngredientOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for MedicineIngredients.
+   */
+  cursor?: Prisma.MedicineIngredientWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` MedicineIngredients from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` MedicineIngredients.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of MedicineIngredients.
+   */
+  distinct?: Prisma.MedicineIngredientScalarFieldEnum | Prisma.MedicineIngredientScalarFieldEnum[]
+}
+
+/**
+ * MedicineIngredient findMany
+ */
+export type MedicineIngredientFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the MedicineIngredient
+   */
+  select?: Prisma.MedicineIngredientSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the MedicineIngredient
+   */
+  omit?: Prisma.MedicineIngredientOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.MedicineIngredientInclude<ExtArgs> | null
+  /**
+   * Filter, which MedicineIngredients to fetch.
+   */
+  where?: Prisma.MedicineIngredientWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of MedicineIngredients to fetch.
+   */
+  orderBy?: Prisma.MedicineIngredientOrderByWithRelationInput | Prisma.MedicineIngredientOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing MedicineIngredients.
+   */
+  cursor?: Prisma.MedicineIngredientWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` MedicineIngredients from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` MedicineIngredients.
+   */
+  skip?: number
+  distinct?: Prisma.MedicineIngredientScalarFieldEnum | Prisma.MedicineIngredientScalarFieldEnum[]
+}
+
+/**
+ * MedicineIngredient create
+ */
+export type MedicineIngredientCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the MedicineIngredient
+   */
+  select?: Prisma.MedicineIngredientSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the MedicineIngredient
+   */
+  omit?: Prisma.MedicineIngredientOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.MedicineIngredientInclude<ExtArgs> | null
+  /**
+   * The data needed to create a MedicineIngredient.
+   */
+  data: Prisma.XOR<Prisma.MedicineIngredientCreateInput, Prisma.MedicineIngredientUncheckedCreateInput>
+}
+
+/**
+ * MedicineIngredient createMany
+ */
+export type MedicineIngredientCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many MedicineIngredients.
+   */
+  data: Prisma.MedicineIngredientCreateManyInput | Prisma.MedicineIngredientCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * MedicineIngredient createManyAndReturn
+ */
+export type MedicineIngredientCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the MedicineIngredient
+   */
+  select?: Prisma.MedicineIngredientSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the MedicineIngredient
+   */
+  omit?: Prisma.MedicineIngredientOmit<ExtArgs> | null
+  /**
+   * The data used to create many MedicineIngredients.
+   */
+  data: Prisma.MedicineIngredientCreateManyInput | Prisma.MedicineIngredientCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.MedicineIngredientIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * MedicineIngredient update
+ */
+export type MedicineIngredientUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the MedicineIngredient
+   */
+  select?: Prisma.MedicineIngredientSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the MedicineIngredient
+   */
+  omit?: Prisma.MedicineIngredientOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.MedicineIngredientInclude<ExtArgs> | null
+  /**
+   * The data needed to update a MedicineIngredient.
+   */
+  data: Prisma.XOR<Prisma.MedicineIngredientUpdateInput, Prisma.MedicineIngredientUncheckedUpdateInput>
+  /**
+   * Choose, which MedicineIngredient to update.
+   */
+  where: Prisma.MedicineIngredientWhereUniqueInput
+}
+
+/**
+ * MedicineIngredient updateMany
+ */
+export type MedicineIngredientUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update MedicineIngredients.
+   */
+  data: Prisma.XOR<Prisma.MedicineIngredientUpdateManyMutationInput, Prisma.MedicineIngredientUncheckedUpdateManyInput>
+  /**
+   * Filter which MedicineIngredients to update
+   */
+  where?: Prisma.MedicineIngredientWhereInput
+  /**
+   * Limit how many MedicineIngredients to update.
+   */
+  limit?: number
+}
+
+/**
+ * MedicineIngredient updateManyAndReturn
+ */
+export type MedicineIngredientUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the MedicineIngredient
+   */
+  select?: Prisma.MedicineIngredientSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the MedicineIngredient
+   */
+  omit?: Prisma.MedicineIngredientOmit<ExtArgs> | null
+  /**
+   * The data used to update MedicineIngredients.
+   */
+  data: Prisma.XOR<Prisma.MedicineIngredientUpdateManyMutationInput, Prisma.MedicineIngredientUncheckedUpdateManyInput>
+  /**
+   * Filter which MedicineIngredients to update
+   */
+  where?: Prisma.MedicineIngredientWhereInput
+  /**
+   * Limit how many MedicineIngredients to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.MedicineIngredientIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * MedicineIngredient upsert
+ */
+export type MedicineIngredientUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the MedicineIngredient
+   */
+  select?: Prisma.MedicineIngredientSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the MedicineIngredient
+   */
+  omit?: Prisma.MedicineIngredientOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.MedicineIngredientInclude<ExtArgs> | null
+  /**
+   * The filter to search for the MedicineIngredient to update in case it exists.
+   */
+  where: Prisma.MedicineIngredientWhereUniqueInput
+  /**
+   * In case the MedicineIngredient found by the `where` argument doesn't exist, create a new MedicineIngredient with this data.
+   */
+  create: Prisma.XOR<Prisma.MedicineIngredientCreateInput, Prisma.MedicineIngredientUncheckedCreateInput>
+  /**
+   * In case the MedicineIngredient was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.MedicineIngredientUpdateInput, Prisma.MedicineIngredientUncheckedUpdateInput>
+}
+
+/**
+ * MedicineIngredient delete
+ */
+export type MedicineIngredientDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the MedicineIngredient
+   */
+  select?: Prisma.MedicineIngredientSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the MedicineIngredient
+   */
+  omit?: Prisma.MedicineIngredientOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.MedicineIngredientInclude<ExtArgs> | null
+  /**
+   * Filter which MedicineIngredient to delete.
+   */
+  where: Prisma.MedicineIngredientWhereUniqueInput
+}
+
+/**
+ * MedicineIngredient deleteMany
+ */
+export type MedicineIngredientDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which MedicineIngredients to delete
+   */
+  where?: Prisma.MedicineIngredientWhereInput
+  /**
+   * Limit how many MedicineIngredients to delete.
+   */
+  limit?: number
+}
+
+/**
+ * MedicineIngredient without action
+ */
+export type MedicineIngredientDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the MedicineIngredient
+   */
+  select?: Prisma.MedicineIngredientSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the MedicineIngredient
+   */
+  omit?: Prisma.MedicineIngredientOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.MedicineIngredientInclude<ExtArgs> | null
+}
@@ -28,12 +28,22 @@ export type AggregateOrderItem = {
 
 export type OrderItemAvgAggregateOutputType = {
   quantity: number | null
-  unitPrice: number | null
+  unitPrice: runtime.Decimal | null
+  basePrice: runtime.Decimal | null
+  exchangeRate: runtime.Decimal | null
+  vatRate: number | null
+  taxAmount: runtime.Decimal | null
+  returnedQuantity: number | null
 }
 
 export type OrderItemSumAggregateOutputType = {
   quantity: number | null
-  unitPrice: number | null
+  unitPrice: runtime.Decimal | null
+  basePrice: runtime.Decimal | null
+  exchangeRate: runtime.Decimal | null
+  vatRate: number | null
+  taxAmount: runtime.Decimal | null
+  returnedQuantity: number | null
 }
 
 export type OrderItemMinAggregateOutputType = {
@@ -41,10 +51,20 @@ export type OrderItemMinAggregateOutputType = {
   orderId: string | null
   medicineId: string | null
   quantity: number | null
-  unitPrice: number | null
+  unitPrice: runtime.Decimal | null
+  basePrice: runtime.Decimal | null
+  baseCurrency: string | null
+  exchangeRate: runtime.Decimal | null
+  vatRate: number | null
+  taxAmount: runtime.Decimal | null
   orderItemStatus: $Enums.OrderStatus | null
+  returnedQuantity: number | null
+  shipmentId: string | null
+  prescriptionId: string | null
   createdAt: Date | null
   updatedAt: Date | null
+  prescriptionVerifiedAt: Date | null
+  prescriptionVerifiedBy: string | null
 }
 
 export type OrderItemMaxAggregateOutputType = {
@@ -52,10 +72,20 @@ export type OrderItemMaxAggregateOutputType = {
   orderId: string | null
   medicineId: string | null
   quantity: number | null
-  unitPrice: number | null
+  unitPrice: runtime.Decimal | null
+  basePrice: runtime.Decimal | null
+  baseCurrency: string | null
+  exchangeRate: runtime.Decimal | null
+  vatRate: number | null
+  taxAmount: runtime.Decimal | null
   orderItemStatus: $Enums.OrderStatus | null
+  returnedQuantity: number | null
+  shipmentId: string | null
+  prescriptionId: string | null
   createdAt: Date | null
   updatedAt: Date | null
+  prescriptionVerifiedAt: Date | null
+  prescriptionVerifiedBy: string | null
 }
 
 export type OrderItemCountAggregateOutputType = {
@@ -64,9 +94,19 @@ export type OrderItemCountAggregateOutputType = {
   medicineId: number
   quantity: number
   unitPrice: number
+  basePrice: number
+  baseCurrency: number
+  exchangeRate: number
+  vatRate: number
+  taxAmount: number
   orderItemStatus: number
+  returnedQuantity: number
+  shipmentId: number
+  prescriptionId: number
   createdAt: number
   updatedAt: number
+  prescriptionVerifiedAt: number
+  prescriptionVerifiedBy: number
   _all: number
 }
 
@@ -74,11 +114,21 @@ export type OrderItemCountAggregateOutputType = {
 export type OrderItemAvgAggregateInputType = {
   quantity?: true
   unitPrice?: true
+  basePrice?: true
+  exchangeRate?: true
+  vatRate?: true
+  taxAmount?: true
+  returnedQuantity?: true
 }
 
 export type OrderItemSumAggregateInputType = {
   quantity?: true
   unitPrice?: true
+  basePrice?: true
+  exchangeRate?: true
+  vatRate?: true
+  taxAmount?: true
+  returnedQuantity?: true
 }
 
 export type OrderItemMinAggregateInputType = {
@@ -87,9 +137,19 @@ export type OrderItemMinAggregateInputType = {
   medicineId?: true
   quantity?: true
   unitPrice?: true
+  basePrice?: true
+  baseCurrency?: true
+  exchangeRate?: true
+  vatRate?: true
+  taxAmount?: true
   orderItemStatus?: true
+  returnedQuantity?: true
+  shipmentId?: true
+  prescriptionId?: true
   createdAt?: true
   updatedAt?: true
+  prescriptionVerifiedAt?: true
+  prescriptionVerifiedBy?: true
 }
 
 export type OrderItemMaxAggregateInputType = {
@@ -98,9 +158,19 @@ export type OrderItemMaxAggregateInputType = {
   medicineId?: true
   quantity?: true
   unitPrice?: true
+  basePrice?: true
+  baseCurrency?: true
+  exchangeRate?: true
+  vatRate?: true
+  taxAmount?: true
   orderItemStatus?: true
+  returnedQuantity?: true
+  shipmentId?: true
+  prescriptionId?: true
   createdAt?: true
   updatedAt?: true
+  prescriptionVerifiedAt?: true
+  prescriptionVerifiedBy?: true
 }
 
 export type OrderItemCountAggregateInputType = {
@@ -109,9 +179,19 @@ export type OrderItemCountAggregateInputType = {
   medicineId?: true
   quantity?: true
   unitPrice?: true
+  basePrice?: true
+  baseCurrency?: true
+  exchangeRate?: true
+  vatRate?: true
+  taxAmount?: true
   orderItemStatus?: true
+  returnedQuantity?: true
+  shipmentId?: true
+  prescriptionId?: true
   createdAt?: true
   updatedAt?: true
+  prescriptionVerifiedAt?: true
+  prescriptionVerifiedBy?: true
   _all?: true
 }
 
@@ -206,10 +286,20 @@ export type OrderItemGroupByOutputType = {
   orderId: string
   medicineId: string
   quantity: number
-  unitPrice: number
+  unitPrice: runtime.Decimal
+  basePrice: runtime.Decimal | null
+  baseCurrency: string | null
+  exchangeRate: runtime.Decimal
+  vatRate: number
+  taxAmount: runtime.Decimal
   orderItemStatus: $Enums.OrderStatus
+  returnedQuantity: number
+  shipmentId: string | null
+  prescriptionId: string | null
   createdAt: Date
   updatedAt: Date
+  prescriptionVerifiedAt: Date | null
+  prescriptionVerifiedBy: string | null
   _count: OrderItemCountAggregateOutputType | null
   _avg: OrderItemAvgAggregateOutputType | null
   _sum: OrderItemSumAggregateOutputType | null
@@ -240,12 +330,28 @@ export type OrderItemWhereInput = {
   orderId?: Prisma.StringFilter<"OrderItem"> | string
   medicineId?: Prisma.StringFilter<"OrderItem"> | string
   quantity?: Prisma.IntFilter<"OrderItem"> | number
-  unitPrice?: Prisma.FloatFilter<"OrderItem"> | number
+  unitPrice?: Prisma.DecimalFilter<"OrderItem"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  basePrice?: Prisma.DecimalNullableFilter<"OrderItem"> | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  baseCurrency?: Prisma.StringNullableFilter<"OrderItem"> | string | null
+  exchangeRate?: Prisma.DecimalFilter<"OrderItem"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  vatRate?: Prisma.FloatFilter<"OrderItem"> | number
+  taxAmount?: Prisma.DecimalFilter<"OrderItem"> | runtime.Decimal | runtime.DecimalJsLike | number | string
   orderItemStatus?: Prisma.EnumOrderStatusFilter<"OrderItem"> | $Enums.OrderStatus
+  returnedQuantity?: Prisma.IntFilter<"OrderItem"> | number
+  shipmentId?: Prisma.StringNullableFilter<"OrderItem"> | string | null
+  prescriptionId?: Prisma.StringNullableFilter<"OrderItem"> | string | null
   createdAt?: Prisma.DateTimeFilter<"OrderItem"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"OrderItem"> | Date | string
+  prescriptionVerifiedAt?: Prisma.DateTimeNullableFilter<"OrderItem"> | Date | string | null
+  prescriptionVerifiedBy?: Prisma.StringNullableFilter<"OrderItem"> | string | null
   order?: Prisma.XOR<Prisma.OrderScalarRelationFilter, Prisma.OrderWhereInput>
   medicine?: Prisma.XOR<Prisma.MedicineScalarRelationFilter, Prisma.MedicineWhereInput>
+  shipment?: Prisma.XOR<Prisma.ShipmentNullableScalarRelationFilter, Prisma.ShipmentWhereInput> | null
+  prescription?: Prisma.XOR<Prisma.PrescriptionNullableScalarRelationFilter, Prisma.PrescriptionWhereInput> | null
+  returns?: Prisma.ReturnRequestListRelationFilter
+  batches?: Prisma.OrderItemBatchListRelationFilter
+  recallNotices?: Prisma.RecallNoticeListRelationFilter
+  ledgerEntries?: Prisma.SellerLedgerEntryListRelationFilter
 }
 
 export type OrderItemOrderByWithRelationInput = {
@@ -254,11 +360,27 @@ export type OrderItemOrderByWithRelationInput = {
   medicineId?: Prisma.SortOrder
   quantity?: Prisma.SortOrder
   unitPrice?: Prisma.SortOrder
+  basePrice?: Prisma.SortOrderInput | Prisma.SortOrder
+  baseCurrency?: Prisma.SortOrderInput | Prisma.SortOrder
+  exchangeRate?: Prisma.SortOrder
+  vatRate?: Prisma.SortOrder
+  taxAmount?: Prisma.SortOrder
   orderItemStatus?: Prisma.SortOrder
+  returnedQuantity?: Prisma.SortOrder
+  shipmentId?: Prisma.SortOrderInput | Prisma.SortOrder
+  prescriptionId?: Prisma.SortOrderInput | Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
+  prescriptionVerifiedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  prescriptionVerifiedBy?: Prisma.SortOrderInput | Prisma.SortOrder
   order?: Prisma.OrderOrderByWithRelationInput
   medicine?: Prisma.MedicineOrderByWithRelationInput
+  shipment?: Prisma.ShipmentOrderByWithRelationInput
+  prescription?: Prisma.PrescriptionOrderByWithRelationInput
+  returns?: Prisma.ReturnRequestOrderByRelationAggregateInput
+  batches?: Prisma.OrderItemBatchOrderByRelationAggregateInput
+  recallNotices?: Prisma.RecallNoticeOrderByRelationAggregateInput
+  ledgerEntries?: Prisma.SellerLedgerEntryOrderByRelationAggregateInput
 }
 
 export type OrderItemWhereUniqueInput = Prisma.AtLeast<{
@@ -269,12 +391,28 @@ export type OrderItemWhereUniqueInput = Prisma.AtLeast<{
   orderId?: Prisma.StringFilter<"OrderItem"> | string
   medicineId?: Prisma.StringFilter<"OrderItem"> | string
   quantity?: Prisma.IntFilter<"OrderItem"> | number
-  unitPrice?: Prisma.FloatFilter<"OrderItem"> | number
+  unitPrice?: Prisma.DecimalFilter<"OrderItem"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  basePrice?: Prisma.DecimalNullableFilter<"OrderItem"> | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  baseCurrency?: Prisma.StringNullableFilter<"OrderItem"> | string | null
+  exchangeRate?: Prisma.DecimalFilter<"OrderItem"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  vatRate?: Prisma.FloatFilter<"OrderItem"> | number
+  taxAmount?: Prisma.DecimalFilter<"OrderItem"> | runtime.Decimal | runtime.DecimalJsLike | number | string
   orderItemStatus?: Prisma.EnumOrderStatusFilter<"OrderItem"> | $Enums.OrderStatus
+  returnedQuantity?: Prisma.IntFilter<"OrderItem"> | number
+  shipmentId?: Prisma.StringNullableFilter<"OrderItem"> | string | null
+  prescriptionId?: Prisma.StringNullableFilter<"OrderItem"> | string | null
   createdAt?: Prisma.DateTimeFilter<"OrderItem"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"OrderItem"> | Date | string
+  prescriptionVerifiedAt?: Prisma.DateTimeNullableFilter<"OrderItem"> | Date | string | null
+  prescriptionVerifiedBy?: Prisma.StringNullableFilter<"OrderItem"> | string | null
   order?: Prisma.XOR<Prisma.OrderScalarRelationFilter, Prisma.OrderWhereInput>
   medicine?: Prisma.XOR<Prisma.MedicineScalarRelationFilter, Prisma.MedicineWhereInput>
+  shipment?: Prisma.XOR<Prisma.ShipmentNullableScalarRelationFilter, Prisma.ShipmentWhereInput> | null
+  prescription?: Prisma.XOR<Prisma.PrescriptionNullableScalarRelationFilter, Prisma.PrescriptionWhereInput> | null
+  returns?: Prisma.ReturnRequestListRelationFilter
+  batches?: Prisma.OrderItemBatchListRelationFilter
+  recallNotices?: Prisma.RecallNoticeListRelationFilter
+  ledgerEntries?: Prisma.SellerLedgerEntryListRelationFilter
 }, "id">
 
 export type OrderItemOrderByWithAggregationInput = {
@@ -283,9 +421,19 @@ export type OrderItemOrderByWithAggregationInput = {
   medicineId?: Prisma.SortOrder
   quantity?: Prisma.SortOrder
   unitPrice?: Prisma.SortOrder
+  basePrice?: Prisma.SortOrderInput | Prisma.SortOrder
+  baseCurrency?: Prisma.SortOrderInput | Prisma.SortOrder
+  exchangeRate?: Prisma.SortOrder
+  vatRate?: Prisma.SortOrder
+  taxAmount?: Prisma.SortOrder
   orderItemStatus?: Prisma.SortOrder
+  returnedQuantity?: Prisma.SortOrder
+  shipmentId?: Prisma.SortOrderInput | Prisma.SortOrder
+  prescriptionId?: Prisma.SortOrderInput | Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
+  prescriptionVerifiedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  prescriptionVerifiedBy?: Prisma.SortOrderInput | Prisma.SortOrder
   _count?: Prisma.OrderItemCountOrderByAggregateInput
   _avg?: Prisma.OrderItemAvgOrderByAggregateInput
   _max?: Prisma.OrderItemMaxOrderByAggregateInput
@@ -301,21 +449,45 @@ export type OrderItemScalarWhereWithAggregatesInput = {
   orderId?: Prisma.StringWithAggregatesFilter<"OrderItem"> | string
   medicineId?: Prisma.StringWithAggregatesFilter<"OrderItem"> | string
   quantity?: Prisma.IntWithAggregatesFilter<"OrderItem"> | number
-  unitPrice?: Prisma.FloatWithAggregatesFilter<"OrderItem"> | number
+  unitPrice?: Prisma.DecimalWithAggregatesFilter<"OrderItem"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  basePrice?: Prisma.DecimalNullableWithAggregatesFilter<"OrderItem"> | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  baseCurrency?: Prisma.StringNullableWithAggregatesFilter<"OrderItem"> | string | null
+  exchangeRate?: Prisma.DecimalWithAggregatesFilter<"OrderItem"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  vatRate?: Prisma.FloatWithAggregatesFilter<"OrderItem"> | number
+  taxAmount?: Prisma.DecimalWithAggregatesFilter<"OrderItem"> | runtime.Decimal | runtime.DecimalJsLike | number | string
   orderItemStatus?: Prisma.EnumOrderStatusWithAggregatesFilter<"OrderItem"> | $Enums.OrderStatus
+  returnedQuantity?: Prisma.IntWithAggregatesFilter<"OrderItem"> | number
+  shipmentId?: Prisma.StringNullableWithAggregatesFilter<"OrderItem"> | string | null
+  prescriptionId?: Prisma.StringNullableWithAggregatesFilter<"OrderItem"> | string | null
   createdAt?: Prisma.DateTimeWithAggregatesFilter<"OrderItem"> | Date | string
   updatedAt?: Prisma.DateTimeWithAggregatesFilter<"OrderItem"> | Date | string
+  prescriptionVerifiedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"OrderItem"> | Date | string | null
+  prescriptionVerifiedBy?: Prisma.StringNullableWithAggregatesFilter<"OrderItem"> | string | null
 }
 
 export type OrderItemCreateInput = {
   id?: string
   quantity: number
-  unitPrice: number
+  unitPrice: runtime.Decimal | runtime.DecimalJsLike | number | string
+  basePrice?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  baseCurrency?: string | null
+  exchangeRate?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  vatRate?: number
+  taxAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
   orderItemStatus?: $Enums.OrderStatus
+  returnedQuantity?: number
   createdAt?: Date | string
   updatedAt?: Date | string
+  prescriptionVerifiedAt?: Date | string | null
+  prescriptionVerifiedBy?: string | null
   order: Prisma.OrderCreateNestedOneWithoutItemsInput
   medicine: Prisma.MedicineCreateNestedOneWithoutOrderItemsInput
+  shipment?: Prisma.ShipmentCreateNestedOneWithoutItemsInput
+  prescription?: Prisma.PrescriptionCreateNestedOneWithoutOrderItemsInput
+  returns?: Prisma.ReturnRequestCreateNestedManyWithoutOrderItemInput
+  batches?: Prisma.OrderItemBatchCreateNestedManyWithoutOrderItemInput
+  recallNotices?: Prisma.RecallNoticeCreateNestedManyWithoutOrderItemInput
+  ledgerEntries?: Prisma.SellerLedgerEntryCreateNestedManyWithoutOrderItemInput
 }
 
 export type OrderItemUncheckedCreateInput = {
@@ -323,21 +495,49 @@ export type OrderItemUncheckedCreateInput = {
   orderId: string
   medicineId: string
   quantity: number
-  unitPrice: number
+  unitPrice: runtime.Decimal | runtime.DecimalJsLike | number | string
+  basePrice?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  baseCurrency?: string | null
+  exchangeRate?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  vatRate?: number
+  taxAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
   orderItemStatus?: $Enums.OrderStatus
+  returnedQuantity?: number
+  shipmentId?: string | null
+  prescriptionId?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
+  prescriptionVerifiedAt?: Date | string | null
+  prescriptionVerifiedBy?: string | null
+  returns?: Prisma.ReturnRequestUncheckedCreateNestedManyWithoutOrderItemInput
+  batches?: Prisma.OrderItemBatchUncheckedCreateNestedManyWithoutOrderItemInput
+  recallNotices?: Prisma.RecallNoticeUncheckedCreateNestedManyWithoutOrderItemInput
+  ledgerEntries?: Prisma.SellerLedgerEntryUncheckedCreateNestedManyWithoutOrderItemInput
 }
 
 export type OrderItemUpdateInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   quantity?: Prisma.IntFieldUpdateOperationsInput | number
-  unitPrice?: Prisma.FloatFieldUpdateOperationsInput | number
+  unitPrice?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  basePrice?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  baseCurrency?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  exchangeRate?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  vatRate?: Prisma.FloatFieldUpdateOperationsInput | number
+  taxAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
   orderItemStatus?: Prisma.EnumOrderStatusFieldUpdateOperationsInput | $Enums.OrderStatus
+  returnedQuantity?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  prescriptionVerifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  prescriptionVerifiedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   order?: Prisma.OrderUpdateOneRequiredWithoutItemsNestedInput
   medicine?: Prisma.MedicineUpdateOneRequiredWithoutOrderItemsNestedInput
+  shipment?: Prisma.ShipmentUpdateOneWithoutItemsNestedInput
+  prescription?: Prisma.PrescriptionUpdateOneWithoutOrderItemsNestedInput
+  returns?: Prisma.ReturnRequestUpdateManyWithoutOrderItemNestedInput
+  batches?: Prisma.OrderItemBatchUpdateManyWithoutOrderItemNestedInput
+  recallNotices?: Prisma.RecallNoticeUpdateManyWithoutOrderItemNestedInput
+  ledgerEntries?: Prisma.SellerLedgerEntryUpdateManyWithoutOrderItemNestedInput
 }
 
 export type OrderItemUncheckedUpdateInput = {
@@ -345,10 +545,24 @@ export type OrderItemUncheckedUpdateInput = {
   orderId?: Prisma.StringFieldUpdateOperationsInput | string
   medicineId?: Prisma.StringFieldUpdateOperationsInput | string
   quantity?: Prisma.IntFieldUpdateOperationsInput | number
-  unitPrice?: Prisma.FloatFieldUpdateOperationsInput | number
+  unitPrice?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  basePrice?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  baseCurrency?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  exchangeRate?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  vatRate?: Prisma.FloatFieldUpdateOperationsInput | number
+  taxAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
   orderItemStatus?: Prisma.EnumOrderStatusFieldUpdateOperationsInput | $Enums.OrderStatus
+  returnedQuantity?: Prisma.IntFieldUpdateOperationsInput | number
+  shipmentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  prescriptionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  prescriptionVerifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  prescriptionVerifiedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  returns?: Prisma.ReturnRequestUncheckedUpdateManyWithoutOrderItemNestedInput
+  batches?: Prisma.OrderItemBatchUncheckedUpdateManyWithoutOrderItemNestedInput
+  recallNotices?: Prisma.RecallNoticeUncheckedUpdateManyWithoutOrderItemNestedInput
+  ledgerEntries?: Prisma.SellerLedgerEntryUncheckedUpdateManyWithoutOrderItemNestedInput
 }
 
 export type OrderItemCreateManyInput = {
@@ -356,19 +570,37 @@ export type OrderItemCreateManyInput = {
   orderId: string
   medicineId: string
   quantity: number
-  unitPrice: number
+  unitPrice: runtime.Decimal | runtime.DecimalJsLike | number | string
+  basePrice?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  baseCurrency?: string | null
+  exchangeRate?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  vatRate?: number
+  taxAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
   orderItemStatus?: $Enums.OrderStatus
+  returnedQuantity?: number
+  shipmentId?: string | null
+  prescriptionId?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
+  prescriptionVerifiedAt?: Date | string | null
+  prescriptionVerifiedBy?: string | null
 }
 
 export type OrderItemUpdateManyMutationInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   quantity?: Prisma.IntFieldUpdateOperationsInput | number
-  unitPrice?: Prisma.FloatFieldUpdateOperationsInput | number
+  unitPrice?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  basePrice?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  baseCurrency?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  exchangeRate?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  vatRate?: Prisma.FloatFieldUpdateOperationsInput | number
+  taxAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
   orderItemStatus?: Prisma.EnumOrderStatusFieldUpdateOperationsInput | $Enums.OrderStatus
+  returnedQuantity?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  prescriptionVerifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  prescriptionVerifiedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
 }
 
 export type OrderItemUncheckedUpdateManyInput = {
@@ -376,10 +608,25 @@ export type OrderItemUncheckedUpdateManyInput = {
   orderId?: Prisma.StringFieldUpdateOperationsInput | string
   medicineId?: Prisma.StringFieldUpdateOperationsInput | string
   quantity?: Prisma.IntFieldUpdateOperationsInput | number
-  unitPrice?: Prisma.FloatFieldUpdateOperationsInput | number
+  unitPrice?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  basePrice?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  baseCurrency?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  exchangeRate?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  vatRate?: Prisma.FloatFieldUpdateOperationsInput | number
+  taxAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
   orderItemStatus?: Prisma.EnumOrderStatusFieldUpdateOperationsInput | $Enums.OrderStatus
+  returnedQuantity?: Prisma.IntFieldUpdateOperationsInput | number
+  shipmentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  prescriptionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  prescriptionVerifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  prescriptionVerifiedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+}
+
+export type OrderItemScalarRelationFilter = {
+  is?: Prisma.OrderItemWhereInput
+  isNot?: Prisma.OrderItemWhereInput
 }
 
 export type OrderItemListRelationFilter = {
@@ -398,14 +645,29 @@ export type OrderItemCountOrderByAggregateInput = {
   medicineId?: Prisma.SortOrder
   quantity?: Prisma.SortOrder
   unitPrice?: Prisma.SortOrder
+  basePrice?: Prisma.SortOrder
+  baseCurrency?: Prisma.SortOrder
+  exchangeRate?: Prisma.SortOrder
+  vatRate?: Prisma.SortOrder
+  taxAmount?: Prisma.SortOrder
   orderItemStatus?: Prisma.SortOrder
+  returnedQuantity?: Prisma.SortOrder
+  shipmentId?: Prisma.SortOrder
+  prescriptionId?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
+  prescriptionVerifiedAt?: Prisma.SortOrder
+  prescriptionVerifiedBy?: Prisma.SortOrder
 }
 
 export type OrderItemAvgOrderByAggregateInput = {
   quantity?: Prisma.SortOrder
   unitPrice?: Prisma.SortOrder
+  basePrice?: Prisma.SortOrder
+  exchangeRate?: Prisma.SortOrder
+  vatRate?: Prisma.SortOrder
+  taxAmount?: Prisma.SortOrder
+  returnedQuantity?: Prisma.SortOrder
 }
 
 export type OrderItemMaxOrderByAggregateInput = {
@@ -414,9 +676,19 @@ export type OrderItemMaxOrderByAggregateInput = {
   medicineId?: Prisma.SortOrder
   quantity?: Prisma.SortOrder
   unitPrice?: Prisma.SortOrder
+  basePrice?: Prisma.SortOrder
+  baseCurrency?: Prisma.SortOrder
+  exchangeRate?: Prisma.SortOrder
+  vatRate?: Prisma.SortOrder
+  taxAmount?: Prisma.SortOrder
   orderItemStatus?: Prisma.SortOrder
+  returnedQuantity?: Prisma.SortOrder
+  shipmentId?: Prisma.SortOrder
+  prescriptionId?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
+  prescriptionVerifiedAt?: Prisma.SortOrder
+  prescriptionVerifiedBy?: Prisma.SortOrder
 }
 
 export type OrderItemMinOrderByAggregateInput = {
@@ -425,14 +697,48 @@ export type OrderItemMinOrderByAggregateInput = {
   medicineId?: Prisma.SortOrder
   quantity?: Prisma.SortOrder
   unitPrice?: Prisma.SortOrder
+  basePrice?: Prisma.SortOrder
+  baseCurrency?: Prisma.SortOrder
+  exchangeRate?: Prisma.SortOrder
+  vatRate?: Prisma.SortOrder
+  taxAmount?: Prisma.SortOrder
   orderItemStatus?: Prisma.SortOrder
+  returnedQuantity?: Prisma.SortOrder
+  shipmentId?: Prisma.SortOrder
+  prescriptionId?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
+  prescriptionVerifiedAt?: Prisma.SortOrder
+  prescriptionVerifiedBy?: Prisma.SortOrder
 }
 
 export type OrderItemSumOrderByAggregateInput = {
   quantity?: Prisma.SortOrder
   unitPrice?: Prisma.SortOrder
+  basePrice?: Prisma.SortOrder
+  exchangeRate?: Prisma.SortOrder
+  vatRate?: Prisma.SortOrder
+  taxAmount?: Prisma.SortOrder
+  returnedQuantity?: Prisma.SortOrder
+}
+
+export type OrderItemNullableScalarRelationFilter = {
+  is?: Prisma.OrderItemWhereInput | null
+  isNot?: Prisma.OrderItemWhereInput | null
+}
+
+export type OrderItemCreateNestedOneWithoutBatchesInput = {
+  create?: Prisma.XOR<Prisma.OrderItemCreateWithoutBatchesInput, Prisma.OrderItemUncheckedCreateWithoutBatchesInput>
+  connectOrCreate?: Prisma.OrderItemCreateOrConnectWithoutBatchesInput
+  connect?: Prisma.OrderItemWhereUniqueInput
+}
+
+export type OrderItemUpdateOneRequiredWithoutBatchesNestedInput = {
+  create?: Prisma.XOR<Prisma.OrderItemCreateWithoutBatchesInput, Prisma.OrderItemUncheckedCreateWithoutBatchesInput>
+  connectOrCreate?: Prisma.OrderItemCreateOrConnectWithoutBatchesInput
+  upsert?: Prisma.OrderItemUpsertWithoutBatchesInput
+  connect?: Prisma.OrderItemWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.OrderItemUpdateToOneWithWhereWithoutBatchesInput, Prisma.OrderItemUpdateWithoutBatchesInput>, Prisma.OrderItemUncheckedUpdateWithoutBatchesInput>
 }
 
 export type OrderItemCreateNestedManyWithoutMedicineInput = {
@@ -519,24 +825,292 @@ export type OrderItemUncheckedUpdateManyWithoutOrderNestedInput = {
   deleteMany?: Prisma.OrderItemScalarWhereInput | Prisma.OrderItemScalarWhereInput[]
 }
 
+export type OrderItemCreateNestedManyWithoutShipmentInput = {
+  create?: Prisma.XOR<Prisma.OrderItemCreateWithoutShipmentInput, Prisma.OrderItemUncheckedCreateWithoutShipmentInput> | Prisma.OrderItemCreateWithoutShipmentInput[] | Prisma.OrderItemUncheckedCreateWithoutShipmentInput[]
+  connectOrCreate?: Prisma.OrderItemCreateOrConnectWithoutShipmentInput | Prisma.OrderItemCreateOrConnectWithoutShipmentInput[]
+  createMany?: Prisma.OrderItemCreateManyShipmentInputEnvelope
+  connect?: Prisma.OrderItemWhereUniqueInput | Prisma.OrderItemWhereUniqueInput[]
+}
+
+export type OrderItemUncheckedCreateNestedManyWithoutShipmentInput = {
+  create?: Prisma.XOR<Prisma.OrderItemCreateWithoutShipmentInput, Prisma.OrderItemUncheckedCreateWithoutShipmentInput> | Prisma.OrderItemCreateWithoutShipmentInput[] | Prisma.OrderItemUncheckedCreateWithoutShipmentInput[]
+  connectOrCreate?: Prisma.OrderItemCreateOrConnectWithoutShipmentInput | Prisma.OrderItemCreateOrConnectWithoutShipmentInput[]
+  createMany?: Prisma.OrderItemCreateManyShipmentInputEnvelope
+  connect?: Prisma.OrderItemWhereUniqueInput | Prisma.OrderItemWhereUniqueInput[]
+}
+
+export type OrderItemUpdateManyWithoutShipmentNestedInput = {
+  create?: Prisma.XOR<Prisma.OrderItemCreateWithoutShipmentInput, Prisma.OrderItemUncheckedCreateWithoutShipmentInput> | Prisma.OrderItemCreateWithoutShipmentInput[] | Prisma.OrderItemUncheckedCreateWithoutShipmentInput[]
+  connectOrCreate?: Prisma.OrderItemCreateOrConnectWithoutShipmentInput | Prisma.OrderItemCreateOrConnectWithoutShipmentInput[]
+  upsert?: Prisma.OrderItemUpsertWithWhereUniqueWithoutShipmentInput | Prisma.OrderItemUpsertWithWhereUniqueWithoutShipmentInput[]
+  createMany?: Prisma.OrderItemCreateManyShipmentInputEnvelope
+  set?: Prisma.OrderItemWhereUniqueInput | Prisma.OrderItemWhereUniqueInput[]
+  disconnect?: Prisma.OrderItemWhereUniqueInput | Prisma.OrderItemWhereUniqueInput[]
+  delete?: Prisma.OrderItemWhereUniqueInput | Prisma.OrderItemWhereUniqueInput[]
+  connect?: Prisma.OrderItemWhereUniqueInput | Prisma.OrderItemWhereUniqueInput[]
+  update?: Prisma.OrderItemUpdateWithWhereUniqueWithoutShipmentInput | Prisma.OrderItemUpdateWithWhereUniqueWithoutShipmentInput[]
+  updateMany?: Prisma.OrderItemUpdateManyWithWhereWithoutShipmentInput | Prisma.OrderItemUpdateManyWithWhereWithoutShipmentInput[]
+  deleteMany?: Prisma.OrderItemScalarWhereInput | Prisma.OrderItemScalarWhereInput[]
+}
+
+export type OrderItemUncheckedUpdateManyWithoutShipmentNestedInput = {
+  create?: Prisma.XOR<Prisma.OrderItemCreateWithoutShipmentInput, Prisma.OrderItemUncheckedCreateWithoutShipmentInput> | Prisma.OrderItemCreateWithoutShipmentInput[] | Prisma.OrderItemUncheckedCreateWithoutShipmentInput[]
+  connectOrCreate?: Prisma.OrderItemCreateOrConnectWithoutShipmentInput | Prisma.OrderItemCreateOrConnectWithoutShipmentInput[]
+  upsert?: Prisma.OrderItemUpsertWithWhereUniqueWithoutShipmentInput | Prisma.OrderItemUpsertWithWhereUniqueWithoutShipmentInput[]
+  createMany?: Prisma.OrderItemCreateManyShipmentInputEnvelope
+  set?: Prisma.OrderItemWhereUniqueInput | Prisma.OrderItemWhereUniqueInput[]
+  disconnect?: Prisma.OrderItemWhereUniqueInput | Prisma.OrderItemWhereUniqueInput[]
+  delete?: Prisma.OrderItemWhereUniqueInput | Prisma.OrderItemWhereUniqueInput[]
+  connect?: Prisma.OrderItemWhereUniqueInput | Prisma.OrderItemWhereUniqueInput[]
+  update?: Prisma.OrderItemUpdateWithWhereUniqueWithoutShipmentInput | Prisma.OrderItemUpdateWithWhereUniqueWithoutShipmentInput[]
+  updateMany?: Prisma.OrderItemUpdateManyWithWhereWithoutShipmentInput | Prisma.OrderItemUpdateManyWithWhereWithoutShipmentInput[]
+  deleteMany?: Prisma.OrderItemScalarWhereInput | Prisma.OrderItemScalarWhereInput[]
+}
+
+export type OrderItemCreateNestedOneWithoutLedgerEntriesInput = {
+  create?: Prisma.XOR<Prisma.OrderItemCreateWithoutLedgerEntriesInput, Prisma.OrderItemUncheckedCreateWithoutLedgerEntriesInput>
+  connectOrCreate?: Prisma.OrderItemCreateOrConnectWithoutLedgerEntriesInput
+  connect?: Prisma.OrderItemWhereUniqueInput
+}
+
+export type OrderItemUpdateOneWithoutLedgerEntriesNestedInput = {
+  create?: Prisma.XOR<Prisma.OrderItemCreateWithoutLedgerEntriesInput, Prisma.OrderItemUncheckedCreateWithoutLedgerEntriesInput>
+  connectOrCreate?: Prisma.OrderItemCreateOrConnectWithoutLedgerEntriesInput
+  upsert?: Prisma.OrderItemUpsertWithoutLedgerEntriesInput
+  disconnect?: Prisma.OrderItemWhereInput | boolean
+  delete?: Prisma.OrderItemWhereInput | boolean
+  connect?: Prisma.OrderItemWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.OrderItemUpdateToOneWithWhereWithoutLedgerEntriesInput, Prisma.OrderItemUpdateWithoutLedgerEntriesInput>, Prisma.OrderItemUncheckedUpdateWithoutLedgerEntriesInput>
+}
+
+export type OrderItemCreateNestedManyWithoutPrescriptionInput = {
+  create?: Prisma.XOR<Prisma.OrderItemCreateWithoutPrescriptionInput, Prisma.OrderItemUncheckedCreateWithoutPrescriptionInput> | Prisma.OrderItemCreateWithoutPrescriptionInput[] | Prisma.OrderItemUncheckedCreateWithoutPrescriptionInput[]
+  connectOrCreate?: Prisma.OrderItemCreateOrConnectWithoutPrescriptionInput | Prisma.OrderItemCreateOrConnectWithoutPrescriptionInput[]
+  createMany?: Prisma.OrderItemCreateManyPrescriptionInputEnvelope
+  connect?: Prisma.OrderItemWhereUniqueInput | Prisma.OrderItemWhereUniqueInput[]
+}
+
+export type OrderItemUncheckedCreateNestedManyWithoutPrescriptionInput = {
+  create?: Prisma.XOR<Prisma.OrderItemCreateWithoutPrescriptionInput, Prisma.OrderItemUncheckedCreateWithoutPrescriptionInput> | Prisma.OrderItemCreateWithoutPrescriptionInput[] | Prisma.OrderItemUncheckedCreateWithoutPrescriptionInput[]
+  connectOrCreate?: Prisma.OrderItemCreateOrConnectWithoutPrescriptionInput | Prisma.OrderItemCreateOrConnectWithoutPrescriptionInput[]
+  createMany?: Prisma.OrderItemCreateManyPrescriptionInputEnvelope
+  connect?: Prisma.OrderItemWhereUniqueInput | Prisma.OrderItemWhereUniqueInput[]
+}
+
+export type OrderItemUpdateManyWithoutPrescriptionNestedInput = {
+  create?: Prisma.XOR<Prisma.OrderItemCreateWithoutPrescriptionInput, Prisma.OrderItemUncheckedCreateWithoutPrescriptionInput> | Prisma.OrderItemCreateWithoutPrescriptionInput[] | Prisma.OrderItemUncheckedCreateWithoutPrescriptionInput[]
+  connectOrCreate?: Prisma.OrderItemCreateOrConnectWithoutPrescriptionInput | Prisma.OrderItemCreateOrConnectWithoutPrescriptionInput[]
+  upsert?: Prisma.OrderItemUpsertWithWhereUniqueWithoutPrescriptionInput | Prisma.OrderItemUpsertWithWhereUniqueWithoutPrescriptionInput[]
+  createMany?: Prisma.OrderItemCreateManyPrescriptionInputEnvelope
+  set?: Prisma.OrderItemWhereUniqueInput | Prisma.OrderItemWhereUniqueInput[]
+  disconnect?: Prisma.OrderItemWhereUniqueInput | Prisma.OrderItemWhereUniqueInput[]
+  delete?: Prisma.OrderItemWhereUniqueInput | Prisma.OrderItemWhereUniqueInput[]
+  connect?: Prisma.OrderItemWhereUniqueInput | Prisma.OrderItemWhereUniqueInput[]
+  update?: Prisma.OrderItemUpdateWithWhereUniqueWithoutPrescriptionInput | Prisma.OrderItemUpdateWithWhereUniqueWithoutPrescriptionInput[]
+  updateMany?: Prisma.OrderItemUpdateManyWithWhereWithoutPrescriptionInput | Prisma.OrderItemUpdateManyWithWhereWithoutPrescriptionInput[]
+  deleteMany?: Prisma.OrderItemScalarWhereInput | Prisma.OrderItemScalarWhereInput[]
+}
+
+export type OrderItemUncheckedUpdateManyWithoutPrescriptionNestedInput = {
+  create?: Prisma.XOR<Prisma.OrderItemCreateWithoutPrescriptionInput, Prisma.OrderItemUncheckedCreateWithoutPrescriptionInput> | Prisma.OrderItemCreateWithoutPrescriptionInput[] | Prisma.OrderItemUncheckedCreateWithoutPrescriptionInput[]
+  connectOrCreate?: Prisma.OrderItemCreateOrConnectWithoutPrescriptionInput | Prisma.OrderItemCreateOrConnectWithoutPrescriptionInput[]
+  upsert?: Prisma.OrderItemUpsertWithWhereUniqueWithoutPrescriptionInput | Prisma.OrderItemUpsertWithWhereUniqueWithoutPrescriptionInput[]
+  createMany?: Prisma.OrderItemCreateManyPrescriptionInputEnvelope
+  set?: Prisma.OrderItemWhereUniqueInput | Prisma.OrderItemWhereUniqueInput[]
+  disconnect?: Prisma.OrderItemWhereUniqueInput | Prisma.OrderItemWhereUniqueInput[]
+  delete?: Prisma.OrderItemWhereUniqueInput | Prisma.OrderItemWhereUniqueInput[]
+  connect?: Prisma.OrderItemWhereUniqueInput | Prisma.OrderItemWhereUniqueInput[]
+  update?: Prisma.OrderItemUpdateWithWhereUniqueWithoutPrescriptionInput | Prisma.OrderItemUpdateWithWhereUniqueWithoutPrescriptionInput[]
+  updateMany?: Prisma.OrderItemUpdateManyWithWhereWithoutPrescriptionInput | Prisma.OrderItemUpdateManyWithWhereWithoutPrescriptionInput[]
+  deleteMany?: Prisma.OrderItemScalarWhereInput | Prisma.OrderItemScalarWhereInput[]
+}
+
+export type OrderItemCreateNestedOneWithoutRecallNoticesInput = {
+  create?: Prisma.XOR<Prisma.OrderItemCreateWithoutRecallNoticesInput, Prisma.OrderItemUncheckedCreateWithoutRecallNoticesInput>
+  connectOrCreate?: Prisma.OrderItemCreateOrConnectWithoutRecallNoticesInput
+  connect?: Prisma.OrderItemWhereUniqueInput
+}
+
+export type OrderItemUpdateOneRequiredWithoutRecallNoticesNestedInput = {
+  create?: Prisma.XOR<Prisma.OrderItemCreateWithoutRecallNoticesInput, Prisma.OrderItemUncheckedCreateWithoutRecallNoticesInput>
+  connectOrCreate?: Prisma.OrderItemCreateOrConnectWithoutRecallNoticesInput
+  upsert?: Prisma.OrderItemUpsertWithoutRecallNoticesInput
+  connect?: Prisma.OrderItemWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.OrderItemUpdateToOneWithWhereWithoutRecallNoticesInput, Prisma.OrderItemUpdateWithoutRecallNoticesInput>, Prisma.OrderItemUncheckedUpdateWithoutRecallNoticesInput>
+}
+
+export type OrderItemCreateNestedOneWithoutReturnsInput = {
+  create?: Prisma.XOR<Prisma.OrderItemCreateWithoutReturnsInput, Prisma.OrderItemUncheckedCreateWithoutReturnsInput>
+  connectOrCreate?: Prisma.OrderItemCreateOrConnectWithoutReturnsInput
+  connect?: Prisma.OrderItemWhereUniqueInput
+}
+
+export type OrderItemUpdateOneRequiredWithoutReturnsNestedInput = {
+  create?: Prisma.XOR<Prisma.OrderItemCreateWithoutReturnsInput, Prisma.OrderItemUncheckedCreateWithoutReturnsInput>
+  connectOrCreate?: Prisma.OrderItemCreateOrConnectWithoutReturnsInput
+  upsert?: Prisma.OrderItemUpsertWithoutReturnsInput
+  connect?: Prisma.OrderItemWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.OrderItemUpdateToOneWithWhereWithoutReturnsInput, Prisma.OrderItemUpdateWithoutReturnsInput>, Prisma.OrderItemUncheckedUpdateWithoutReturnsInput>
+}
+
+export type OrderItemCreateWithoutBatchesInput = {
+  id?: string
+  quantity: number
+  unitPrice: runtime.Decimal | runtime.DecimalJsLike | number | string
+  basePrice?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  baseCurrency?: string | null
+  exchangeRate?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  vatRate?: number
+  taxAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  orderItemStatus?: $Enums.OrderStatus
+  returnedQuantity?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  prescriptionVerifiedAt?: Date | string | null
+  prescriptionVerifiedBy?: string | null
+  order: Prisma.OrderCreateNestedOneWithoutItemsInput
+  medicine: Prisma.MedicineCreateNestedOneWithoutOrderItemsInput
+  shipment?: Prisma.ShipmentCreateNestedOneWithoutItemsInput
+  prescription?: Prisma.PrescriptionCreateNestedOneWithoutOrderItemsInput
+  returns?: Prisma.ReturnRequestCreateNestedManyWithoutOrderItemInput
+  recallNotices?: Prisma.RecallNoticeCreateNestedManyWithoutOrderItemInput
+  ledgerEntries?: Prisma.SellerLedgerEntryCreateNestedManyWithoutOrderItemInput
+}
+
+export type OrderItemUncheckedCreateWithoutBatchesInput = {
+  id?: string
+  orderId: string
+  medicineId: string
+  quantity: number
+  unitPrice: runtime.Decimal | runtime.DecimalJsLike | number | string
+  basePrice?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  baseCurrency?: string | null
+  exchangeRate?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  vatRate?: number
+  taxAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  orderItemStatus?: $Enums.OrderStatus
+  returnedQuantity?: number
+  shipmentId?: string | null
+  prescriptionId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  prescriptionVerifiedAt?: Date | string | null
+  prescriptionVerifiedBy?: string | null
+  returns?: Prisma.ReturnRequestUncheckedCreateNestedManyWithoutOrderItemInput
+  recallNotices?: Prisma.RecallNoticeUncheckedCreateNestedManyWithoutOrderItemInput
+  ledgerEntries?: Prisma.SellerLedgerEntryUncheckedCreateNestedManyWithoutOrderItemInput
+}
+
+export type OrderItemCreateOrConnectWithoutBatchesInput = {
+  where: Prisma.OrderItemWhereUniqueInput
+  create: Prisma.XOR<Prisma.OrderItemCreateWithoutBatchesInput, Prisma.OrderItemUncheckedCreateWithoutBatchesInput>
+}
+
+export type OrderItemUpsertWithoutBatchesInput = {
+  update: Prisma.XOR<Prisma.OrderItemUpdateWithoutBatchesInput, Prisma.OrderItemUncheckedUpdateWithoutBatchesInput>
+  create: Prisma.XOR<Prisma.OrderItemCreateWithoutBatchesInput, Prisma.OrderItemUncheckedCreateWithoutBatchesInput>
+  where?: Prisma.OrderItemWhereInput
+}
+
+export type OrderItemUpdateToOneWithWhereWithoutBatchesInput = {
+  where?: Prisma.OrderItemWhereInput
+  data: Prisma.XOR<Prisma.OrderItemUpdateWithoutBatchesInput, Prisma.OrderItemUncheckedUpdateWithoutBatchesInput>
+}
+
+export type OrderItemUpdateWithoutBatchesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  unitPrice?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  basePrice?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  baseCurrency?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  exchangeRate?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  vatRate?: Prisma.FloatFieldUpdateOperationsInput | number
+  taxAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  orderItemStatus?: Prisma.EnumOrderStatusFieldUpdateOperationsInput | $Enums.OrderStatus
+  returnedQuantity?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  prescriptionVerifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  prescriptionVerifiedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  order?: Prisma.OrderUpdateOneRequiredWithoutItemsNestedInput
+  medicine?: Prisma.MedicineUpdateOneRequiredWithoutOrderItemsNestedInput
+  shipment?: Prisma.ShipmentUpdateOneWithoutItemsNestedInput
+  prescription?: Prisma.PrescriptionUpdateOneWithoutOrderItemsNestedInput
+  returns?: Prisma.ReturnRequestUpdateManyWithoutOrderItemNestedInput
+  recallNotices?: Prisma.RecallNoticeUpdateManyWithoutOrderItemNestedInput
+  ledgerEntries?: Prisma.SellerLedgerEntryUpdateManyWithoutOrderItemNestedInput
+}
+
+export type OrderItemUncheckedUpdateWithoutBatchesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  orderId?: Prisma.StringFieldUpdateOperationsInput | string
+  medicineId?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  unitPrice?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  basePrice?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  baseCurrency?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  exchangeRate?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  vatRate?: Prisma.FloatFieldUpdateOperationsInput | number
+  taxAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  orderItemStatus?: Prisma.EnumOrderStatusFieldUpdateOperationsInput | $Enums.OrderStatus
+  returnedQuantity?: Prisma.IntFieldUpdateOperationsInput | number
+  shipmentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  prescriptionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  prescriptionVerifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  prescriptionVerifiedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  returns?: Prisma.ReturnRequestUncheckedUpdateManyWithoutOrderItemNestedInput
+  recallNotices?: Prisma.RecallNoticeUncheckedUpdateManyWithoutOrderItemNestedInput
+  ledgerEntries?: Prisma.SellerLedgerEntryUncheckedUpdateManyWithoutOrderItemNestedInput
+}
+
 export type OrderItemCreateWithoutMedicineInput = {
   id?: string
   quantity: number
-  unitPrice: number
+  unitPrice: runtime.Decimal | runtime.DecimalJsLike | number | string
+  basePrice?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  baseCurrency?: string | null
+  exchangeRate?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  vatRate?: number
+  taxAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
   orderItemStatus?: $Enums.OrderStatus
+  returnedQuantity?: number
   createdAt?: Date | string
   updatedAt?: Date | string
+  prescriptionVerifiedAt?: Date | string | null
+  prescriptionVerifiedBy?: string | null
   order: Prisma.OrderCreateNestedOneWithoutItemsInput
+  shipment?: Prisma.ShipmentCreateNestedOneWithoutItemsInput
+  prescription?: Prisma.PrescriptionCreateNestedOneWithoutOrderItemsInput
+  returns?: Prisma.ReturnRequestCreateNestedManyWithoutOrderItemInput
+  batches?: Prisma.OrderItemBatchCreateNestedManyWithoutOrderItemInput
+  recallNotices?: Prisma.RecallNoticeCreateNestedManyWithoutOrderItemInput
+  ledgerEntries?: Prisma.SellerLedgerEntryCreateNestedManyWithoutOrderItemInput
 }
 
 export type OrderItemUncheckedCreateWithoutMedicineInput = {
   id?: string
   orderId: string
   quantity: number
-  unitPrice: number
+  unitPrice: runtime.Decimal | runtime.DecimalJsLike | number | string
+  basePrice?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  baseCurrency?: string | null
+  exchangeRate?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  vatRate?: number
+  taxAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
   orderItemStatus?: $Enums.OrderStatus
+  returnedQuantity?: number
+  shipmentId?: string | null
+  prescriptionId?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
+  prescriptionVerifiedAt?: Date | string | null
+  prescriptionVerifiedBy?: string | null
+  returns?: Prisma.ReturnRequestUncheckedCreateNestedManyWithoutOrderItemInput
+  batches?: Prisma.OrderItemBatchUncheckedCreateNestedManyWithoutOrderItemInput
+  recallNotices?: Prisma.RecallNoticeUncheckedCreateNestedManyWithoutOrderItemInput
+  ledgerEntries?: Prisma.SellerLedgerEntryUncheckedCreateNestedManyWithoutOrderItemInput
 }
 
 export type OrderItemCreateOrConnectWithoutMedicineInput = {
@@ -573,30 +1147,68 @@ export type OrderItemScalarWhereInput = {
   orderId?: Prisma.StringFilter<"OrderItem"> | string
   medicineId?: Prisma.StringFilter<"OrderItem"> | string
   quantity?: Prisma.IntFilter<"OrderItem"> | number
-  unitPrice?: Prisma.FloatFilter<"OrderItem"> | number
+  unitPrice?: Prisma.DecimalFilter<"OrderItem"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  basePrice?: Prisma.DecimalNullableFilter<"OrderItem"> | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  baseCurrency?: Prisma.StringNullableFilter<"OrderItem"> | string | null
+  exchangeRate?: Prisma.DecimalFilter<"OrderItem"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  vatRate?: Prisma.FloatFilter<"OrderItem"> | number
+  taxAmount?: Prisma.DecimalFilter<"OrderItem"> | runtime.Decimal | runtime.DecimalJsLike | number | string
   orderItemStatus?: Prisma.EnumOrderStatusFilter<"OrderItem"> | $Enums.OrderStatus
+  returnedQuantity?: Prisma.IntFilter<"OrderItem"> | number
+  shipmentId?: Prisma.StringNullableFilter<"OrderItem"> | string | null
+  prescriptionId?: Prisma.StringNullableFilter<"OrderItem"> | string | null
   createdAt?: Prisma.DateTimeFilter<"OrderItem"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"OrderItem"> | Date | string
+  prescriptionVerifiedAt?: Prisma.DateTimeNullableFilter<"OrderItem"> | Date | string | null
+  prescriptionVerifiedBy?: Prisma.StringNullableFilter<"OrderItem"> | string | null
 }
 
 export type OrderItemCreateWithoutOrderInput = {
   id?: string
   quantity: number
-  unitPrice: number
+  unitPrice: runtime.Decimal | runtime.DecimalJsLike | number | string
+  basePrice?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  baseCurrency?: string | null
+  exchangeRate?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  vatRate?: number
+  taxAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
   orderItemStatus?: $Enums.OrderStatus
+  returnedQuantity?: number
   createdAt?: Date | string
   updatedAt?: Date | string
+  prescriptionVerifiedAt?: Date | string | null
+  prescriptionVerifiedBy?: string | null
   medicine: Prisma.MedicineCreateNestedOneWithoutOrderItemsInput
+  shipment?: Prisma.ShipmentCreateNestedOneWithoutItemsInput
+  prescription?: Prisma.PrescriptionCreateNestedOneWithoutOrderItemsInput
+  returns?: Prisma.ReturnRequestCreateNestedManyWithoutOrderItemInput
+  batches?: Prisma.OrderItemBatchCreateNestedManyWithoutOrderItemInput
+  recallNotices?: Prisma.RecallNoticeCreateNestedManyWithoutOrderItemInput
+  ledgerEntries?: Prisma.SellerLedgerEntryCreateNestedManyWithoutOrderItemInput
 }
 
 export type OrderItemUncheckedCreateWithoutOrderInput = {
   id?: string
   medicineId: string
   quantity: number
-  unitPrice: number
+  unitPrice: runtime.Decimal | runtime.DecimalJsLike | number | string
+  basePrice?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  baseCurrency?: string | null
+  exchangeRate?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  vatRate?: number
+  taxAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
   orderItemStatus?: $Enums.OrderStatus
+  returnedQuantity?: number
+  shipmentId?: string | null
+  prescriptionId?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
+  prescriptionVerifiedAt?: Date | string | null
+  prescriptionVerifiedBy?: string | null
+  returns?: Prisma.ReturnRequestUncheckedCreateNestedManyWithoutOrderItemInput
+  batches?: Prisma.OrderItemBatchUncheckedCreateNestedManyWithoutOrderItemInput
+  recallNotices?: Prisma.RecallNoticeUncheckedCreateNestedManyWithoutOrderItemInput
+  ledgerEntries?: Prisma.SellerLedgerEntryUncheckedCreateNestedManyWithoutOrderItemInput
 }
 
 export type OrderItemCreateOrConnectWithoutOrderInput = {
@@ -625,86 +1237,898 @@ export type OrderItemUpdateManyWithWhereWithoutOrderInput = {
   data: Prisma.XOR<Prisma.OrderItemUpdateManyMutationInput, Prisma.OrderItemUncheckedUpdateManyWithoutOrderInput>
 }
 
+export type OrderItemCreateWithoutShipmentInput = {
+  id?: string
+  quantity: number
+  unitPrice: runtime.Decimal | runtime.DecimalJsLike | number | string
+  basePrice?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  baseCurrency?: string | null
+  exchangeRate?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  vatRate?: number
+  taxAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  orderItemStatus?: $Enums.OrderStatus
+  returnedQuantity?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  prescriptionVerifiedAt?: Date | string | null
+  prescriptionVerifiedBy?: string | null
+  order: Prisma.OrderCreateNestedOneWithoutItemsInput
+  medicine: Prisma.MedicineCreateNestedOneWithoutOrderItemsInput
+  prescription?: Prisma.PrescriptionCreateNestedOneWithoutOrderItemsInput
+  returns?: Prisma.ReturnRequestCreateNestedManyWithoutOrderItemInput
+  batches?: Prisma.OrderItemBatchCreateNestedManyWithoutOrderItemInput
+  recallNotices?: Prisma.RecallNoticeCreateNestedManyWithoutOrderItemInput
+  ledgerEntries?: Prisma.SellerLedgerEntryCreateNestedManyWithoutOrderItemInput
+}
+
+export type OrderItemUncheckedCreateWithoutShipmentInput = {
+  id?: string
+  orderId: string
+  medicineId: string
+  quantity: number
+  unitPrice: runtime.Decimal | runtime.DecimalJsLike | number | string
+  basePrice?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  baseCurrency?: string | null
+  exchangeRate?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  vatRate?: number
+  taxAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  orderItemStatus?: $Enums.OrderStatus
+  returnedQuantity?: number
+  prescriptionId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  prescriptionVerifiedAt?: Date | string | null
+  prescriptionVerifiedBy?: string | null
+  returns?: Prisma.ReturnRequestUncheckedCreateNestedManyWithoutOrderItemInput
+  batches?: Prisma.OrderItemBatchUncheckedCreateNestedManyWithoutOrderItemInput
+  recallNotices?: Prisma.RecallNoticeUncheckedCreateNestedManyWithoutOrderItemInput
+  ledgerEntries?: Prisma.SellerLedgerEntryUncheckedCreateNestedManyWithoutOrderItemInput
+}
+
+export type OrderItemCreateOrConnectWithoutShipmentInput = {
+  where: Prisma.OrderItemWhereUniqueInput
+  create: Prisma.XOR<Prisma.OrderItemCreateWithoutShipmentInput, Prisma.OrderItemUncheckedCreateWithoutShipmentInput>
+}
+
+export type OrderItemCreateManyShipmentInputEnvelope = {
+  data: Prisma.OrderItemCreateManyShipmentInput | Prisma.OrderItemCreateManyShipmentInput[]
+  skipDuplicates?: boolean
+}
+
+export type OrderItemUpsertWithWhereUniqueWithoutShipmentInput = {
+  where: Prisma.OrderItemWhereUniqueInput
+  update: Prisma.XOR<Prisma.OrderItemUpdateWithoutShipmentInput, Prisma.OrderItemUncheckedUpdateWithoutShipmentInput>
+  create: Prisma.XOR<Prisma.OrderItemCreateWithoutShipmentInput, Prisma.OrderItemUncheckedCreateWithoutShipmentInput>
+}
+
+export type OrderItemUpdateWithWhereUniqueWithoutShipmentInput = {
+  where: Prisma.OrderItemWhereUniqueInput
+  data: Prisma.XOR<Prisma.OrderItemUpdateWithoutShipmentInput, Prisma.OrderItemUncheckedUpdateWithoutShipmentInput>
+}
+
+export type OrderItemUpdateManyWithWhereWithoutShipmentInput = {
+  where: Prisma.OrderItemScalarWhereInput
+  data: Prisma.XOR<Prisma.OrderItemUpdateManyMutationInput, Prisma.OrderItemUncheckedUpdateManyWithoutShipmentInput>
+}
+
+export type OrderItemCreateWithoutLedgerEntriesInput = {
+  id?: string
+  quantity: number
+  unitPrice: runtime.Decimal | runtime.DecimalJsLike | number | string
+  basePrice?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  baseCurrency?: string | null
+  exchangeRate?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  vatRate?: number
+  taxAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  orderItemStatus?: $Enums.OrderStatus
+  returnedQuantity?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  prescriptionVerifiedAt?: Date | string | null
+  prescriptionVerifiedBy?: string | null
+  order: Prisma.OrderCreateNestedOneWithoutItemsInput
+  medicine: Prisma.MedicineCreateNestedOneWithoutOrderItemsInput
+  shipment?: Prisma.ShipmentCreateNestedOneWithoutItemsInput
+  prescription?: Prisma.PrescriptionCreateNestedOneWithoutOrderItemsInput
+  returns?: Prisma.ReturnRequestCreateNestedManyWithoutOrderItemInput
+  batches?: Prisma.OrderItemBatchCreateNestedManyWithoutOrderItemInput
+  recallNotices?: Prisma.RecallNoticeCreateNestedManyWithoutOrderItemInput
+}
+
+export type OrderItemUncheckedCreateWithoutLedgerEntriesInput = {
+  id?: string
+  orderId: string
+  medicineId: string
+  quantity: number
+  unitPrice: runtime.Decimal | runtime.DecimalJsLike | number | string
+  basePrice?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  baseCurrency?: string | null
+  exchangeRate?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  vatRate?: number
+  taxAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  orderItemStatus?: $Enums.OrderStatus
+  returnedQuantity?: number
+  shipmentId?: string | null
+  prescriptionId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  prescriptionVerifiedAt?: Date | string | null
+  prescriptionVerifiedBy?: string | null
+  returns?: Prisma.ReturnRequestUncheckedCreateNestedManyWithoutOrderItemInput
+  batches?: Prisma.OrderItemBatchUncheckedCreateNestedManyWithoutOrderItemInput
+  recallNotices?: Prisma.RecallNoticeUncheckedCreateNestedManyWithoutOrderItemInput
+}
+
+export type OrderItemCreateOrConnectWithoutLedgerEntriesInput = {
+  where: Prisma.OrderItemWhereUniqueInput
+  create: Prisma.XOR<Prisma.OrderItemCreateWithoutLedgerEntriesInput, Prisma.OrderItemUncheckedCreateWithoutLedgerEntriesInput>
+}
+
+export type OrderItemUpsertWithoutLedgerEntriesInput = {
+  update: Prisma.XOR<Prisma.OrderItemUpdateWithoutLedgerEntriesInput, Prisma.OrderItemUncheckedUpdateWithoutLedgerEntriesInput>
+  create: Prisma.XOR<Prisma.OrderItemCreateWithoutLedgerEntriesInput, Prisma.OrderItemUncheckedCreateWithoutLedgerEntriesInput>
+  where?: Prisma.OrderItemWhereInput
+}
+
+export type OrderItemUpdateToOneWithWhereWithoutLedgerEntriesInput = {
+  where?: Prisma.OrderItemWhereInput
+  data: Prisma.XOR<Prisma.OrderItemUpdateWithoutLedgerEntriesInput, Prisma.OrderItemUncheckedUpdateWithoutLedgerEntriesInput>
+}
+
+export type OrderItemUpdateWithoutLedgerEntriesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  unitPrice?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  basePrice?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  baseCurrency?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  exchangeRate?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  vatRate?: Prisma.FloatFieldUpdateOperationsInput | number
+  taxAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  orderItemStatus?: Prisma.EnumOrderStatusFieldUpdateOperationsInput | $Enums.OrderStatus
+  returnedQuantity?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  prescriptionVerifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  prescriptionVerifiedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  order?: Prisma.OrderUpdateOneRequiredWithoutItemsNestedInput
+  medicine?: Prisma.MedicineUpdateOneRequiredWithoutOrderItemsNestedInput
+  shipment?: Prisma.ShipmentUpdateOneWithoutItemsNestedInput
+  prescription?: Prisma.PrescriptionUpdateOneWithoutOrderItemsNestedInput
+  returns?: Prisma.ReturnRequestUpdateManyWithoutOrderItemNestedInput
+  batches?: Prisma.OrderItemBatchUpdateManyWithoutOrderItemNestedInput
+  recallNotices?: Prisma.RecallNoticeUpdateManyWithoutOrderItemNestedInput
+}
+
+export type OrderItemUncheckedUpdateWithoutLedgerEntriesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  orderId?: Prisma.StringFieldUpdateOperationsInput | string
+  medicineId?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  unitPrice?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  basePrice?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  baseCurrency?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  exchangeRate?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  vatRate?: Prisma.FloatFieldUpdateOperationsInput | number
+  taxAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  orderItemStatus?: Prisma.EnumOrderStatusFieldUpdateOperationsInput | $Enums.OrderStatus
+  returnedQuantity?: Prisma.IntFieldUpdateOperationsInput | number
+  shipmentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  prescriptionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  prescriptionVerifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  prescriptionVerifiedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  returns?: Prisma.ReturnRequestUncheckedUpdateManyWithoutOrderItemNestedInput
+  batches?: Prisma.OrderItemBatchUncheckedUpdateManyWithoutOrderItemNestedInput
+  recallNotices?: Prisma.RecallNoticeUncheckedUpdateManyWithoutOrderItemNestedInput
+}
+
+export type OrderItemCreateWithoutPrescriptionInput = {
+  id?: string
+  quantity: number
+  unitPrice: runtime.Decimal | runtime.DecimalJsLike | number | string
+  basePrice?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  baseCurrency?: string | null
+  exchangeRate?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  vatRate?: number
+  taxAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  orderItemStatus?: $Enums.OrderStatus
+  returnedQuantity?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  prescriptionVerifiedAt?: Date | string | null
+  prescriptionVerifiedBy?: string | null
+  order: Prisma.OrderCreateNestedOneWithoutItemsInput
+  medicine: Prisma.MedicineCreateNestedOneWithoutOrderItemsInput
+  shipment?: Prisma.ShipmentCreateNestedOneWithoutItemsInput
+  returns?: Prisma.ReturnRequestCreateNestedManyWithoutOrderItemInput
+  batches?: Prisma.OrderItemBatchCreateNestedManyWithoutOrderItemInput
+  recallNotices?: Prisma.RecallNoticeCreateNestedManyWithoutOrderItemInput
+  ledgerEntries?: Prisma.SellerLedgerEntryCreateNestedManyWithoutOrderItemInput
+}
+
+export type OrderItemUncheckedCreateWithoutPrescriptionInput = {
+  id?: string
+  orderId: string
+  medicineId: string
+  quantity: number
+  unitPrice: runtime.Decimal | runtime.DecimalJsLike | number | string
+  basePrice?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  baseCurrency?: string | null
+  exchangeRate?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  vatRate?: number
+  taxAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  orderItemStatus?: $Enums.OrderStatus
+  returnedQuantity?: number
+  shipmentId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  prescriptionVerifiedAt?: Date | string | null
+  prescriptionVerifiedBy?: string | null
+  returns?: Prisma.ReturnRequestUncheckedCreateNestedManyWithoutOrderItemInput
+  batches?: Prisma.OrderItemBatchUncheckedCreateNestedManyWithoutOrderItemInput
+  recallNotices?: Prisma.RecallNoticeUncheckedCreateNestedManyWithoutOrderItemInput
+  ledgerEntries?: Prisma.SellerLedgerEntryUncheckedCreateNestedManyWithoutOrderItemInput
+}
+
+export type OrderItemCreateOrConnectWithoutPrescriptionInput = {
+  where: Prisma.OrderItemWhereUniqueInput
+  create: Prisma.XOR<Prisma.OrderItemCreateWithoutPrescriptionInput, Prisma.OrderItemUncheckedCreateWithoutPrescriptionInput>
+}
+
+export type OrderItemCreateManyPrescriptionInputEnvelope = {
+  data: Prisma.OrderItemCreateManyPrescriptionInput | Prisma.OrderItemCreateManyPrescriptionInput[]
+  skipDuplicates?: boolean
+}
+
+export type OrderItemUpsertWithWhereUniqueWithoutPrescriptionInput = {
+  where: Prisma.OrderItemWhereUniqueInput
+  update: Prisma.XOR<Prisma.OrderItemUpdateWithoutPrescriptionInput, Prisma.OrderItemUncheckedUpdateWithoutPrescriptionInput>
+  create: Prisma.XOR<Prisma.OrderItemCreateWithoutPrescriptionInput, Prisma.OrderItemUncheckedCreateWithoutPrescriptionInput>
+}
+
+export type OrderItemUpdateWithWhereUniqueWithoutPrescriptionInput = {
+  where: Prisma.OrderItemWhereUniqueInput
+  data: Prisma.XOR<Prisma.OrderItemUpdateWithoutPrescriptionInput, Prisma.OrderItemUncheckedUpdateWithoutPrescriptionInput>
+}
+
+export type OrderItemUpdateManyWithWhereWithoutPrescriptionInput = {
+  where: Prisma.OrderItemScalarWhereInput
+  data: Prisma.XOR<Prisma.OrderItemUpdateManyMutationInput, Prisma.OrderItemUncheckedUpdateManyWithoutPrescriptionInput>
+}
+
+export type OrderItemCreateWithoutRecallNoticesInput = {
+  id?: string
+  quantity: number
+  unitPrice: runtime.Decimal | runtime.DecimalJsLike | number | string
+  basePrice?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  baseCurrency?: string | null
+  exchangeRate?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  vatRate?: number
+  taxAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  orderItemStatus?: $Enums.OrderStatus
+  returnedQuantity?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  prescriptionVerifiedAt?: Date | string | null
+  prescriptionVerifiedBy?: string | null
+  order: Prisma.OrderCreateNestedOneWithoutItemsInput
+  medicine: Prisma.MedicineCreateNestedOneWithoutOrderItemsInput
+  shipment?: Prisma.ShipmentCreateNestedOneWithoutItemsInput
+  prescription?: Prisma.PrescriptionCreateNestedOneWithoutOrderItemsInput
+  returns?: Prisma.ReturnRequestCreateNestedManyWithoutOrderItemInput
+  batches?: Prisma.OrderItemBatchCreateNestedManyWithoutOrderItemInput
+  ledgerEntries?: Prisma.SellerLedgerEntryCreateNestedManyWithoutOrderItemInput
+}
+
+export type OrderItemUncheckedCreateWithoutRecallNoticesInput = {
+  id?: string
+  orderId: string
+  medicineId: string
+  quantity: number
+  unitPrice: runtime.Decimal | runtime.DecimalJsLike | number | string
+  basePrice?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  baseCurrency?: string | null
+  exchangeRate?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  vatRate?: number
+  taxAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  orderItemStatus?: $Enums.OrderStatus
+  returnedQuantity?: number
+  shipmentId?: string | null
+  prescriptionId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  prescriptionVerifiedAt?: Date | string | null
+  prescriptionVerifiedBy?: string | null
+  returns?: Prisma.ReturnRequestUncheckedCreateNestedManyWithoutOrderItemInput
+  batches?: Prisma.OrderItemBatchUncheckedCreateNestedManyWithoutOrderItemInput
+  ledgerEntries?: Prisma.SellerLedgerEntryUncheckedCreateNestedManyWithoutOrderItemInput
+}
+
+export type OrderItemCreateOrConnectWithoutRecallNoticesInput = {
+  where: Prisma.OrderItemWhereUniqueInput
+  create: Prisma.XOR<Prisma.OrderItemCreateWithoutRecallNoticesInput, Prisma.OrderItemUncheckedCreateWithoutRecallNoticesInput>
+}
+
+export type OrderItemUpsertWithoutRecallNoticesInput = {
+  update: Prisma.XOR<Prisma.OrderItemUpdateWithoutRecallNoticesInput, Prisma.OrderItemUncheckedUpdateWithoutRecallNoticesInput>
+  create: Prisma.XOR<Prisma.OrderItemCreateWithoutRecallNoticesInput, Prisma.OrderItemUncheckedCreateWithoutRecallNoticesInput>
+  where?: Prisma.OrderItemWhereInput
+}
+
+export type OrderItemUpdateToOneWithWhereWithoutRecallNoticesInput = {
+  where?: Prisma.OrderItemWhereInput
+  data: Prisma.XOR<Prisma.OrderItemUpdateWithoutRecallNoticesInput, Prisma.OrderItemUncheckedUpdateWithoutRecallNoticesInput>
+}
+
+export type OrderItemUpdateWithoutRecallNoticesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  unitPrice?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  basePrice?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  baseCurrency?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  exchangeRate?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  vatRate?: Prisma.FloatFieldUpdateOperationsInput | number
+  taxAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  orderItemStatus?: Prisma.EnumOrderStatusFieldUpdateOperationsInput | $Enums.OrderStatus
+  returnedQuantity?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  prescriptionVerifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  prescriptionVerifiedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  order?: Prisma.OrderUpdateOneRequiredWithoutItemsNestedInput
+  medicine?: Prisma.MedicineUpdateOneRequiredWithoutOrderItemsNestedInput
+  shipment?: Prisma.ShipmentUpdateOneWithoutItemsNestedInput
+  prescription?: Prisma.PrescriptionUpdateOneWithoutOrderItemsNestedInput
+  returns?: Prisma.ReturnRequestUpdateManyWithoutOrderItemNestedInput
+  batches?: Prisma.OrderItemBatchUpdateManyWithoutOrderItemNestedInput
+  ledgerEntries?: Prisma.SellerLedgerEntryUpdateManyWithoutOrderItemNestedInput
+}
+
+export type OrderItemUncheckedUpdateWithoutRecallNoticesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  orderId?: Prisma.StringFieldUpdateOperationsInput | string
+  medicineId?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  unitPrice?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  basePrice?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  baseCurrency?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  exchangeRate?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  vatRate?: Prisma.FloatFieldUpdateOperationsInput | number
+  taxAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  orderItemStatus?: Prisma.EnumOrderStatusFieldUpdateOperationsInput | $Enums.OrderStatus
+  returnedQuantity?: Prisma.IntFieldUpdateOperationsInput | number
+  shipmentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  prescriptionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  prescriptionVerifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  prescriptionVerifiedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  returns?: Prisma.ReturnRequestUncheckedUpdateManyWithoutOrderItemNestedInput
+  batches?: Prisma.OrderItemBatchUncheckedUpdateManyWithoutOrderItemNestedInput
+  ledgerEntries?: Prisma.SellerLedgerEntryUncheckedUpdateManyWithoutOrderItemNestedInput
+}
+
+export type OrderItemCreateWithoutReturnsInput = {
+  id?: string
+  quantity: number
+  unitPrice: runtime.Decimal | runtime.DecimalJsLike | number | string
+  basePrice?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  baseCurrency?: string | null
+  exchangeRate?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  vatRate?: number
+  taxAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  orderItemStatus?: $Enums.OrderStatus
+  returnedQuantity?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  prescriptionVerifiedAt?: Date | string | null
+  prescriptionVerifiedBy?: string | null
+  order: Prisma.OrderCreateNestedOneWithoutItemsInput
+  medicine: Prisma.MedicineCreateNestedOneWithoutOrderItemsInput
+  shipment?: Prisma.ShipmentCreateNestedOneWithoutItemsInput
+  prescription?: Prisma.PrescriptionCreateNestedOneWithoutOrderItemsInput
+  batches?: Prisma.OrderItemBatchCreateNestedManyWithoutOrderItemInput
+  recallNotices?: Prisma.RecallNoticeCreateNestedManyWithoutOrderItemInput
+  ledgerEntries?: Prisma.SellerLedgerEntryCreateNestedManyWithoutOrderItemInput
+}
+
+export type OrderItemUncheckedCreateWithoutReturnsInput = {
+  id?: string
+  orderId: string
+  medicineId: string
+  quantity: number
+  unitPrice: runtime.Decimal | runtime.DecimalJsLike | number | string
+  basePrice?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  baseCurrency?: string | null
+  exchangeRate?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  vatRate?: number
+  taxAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  orderItemStatus?: $Enums.OrderStatus
+  returnedQuantity?: number
+  shipmentId?: string | null
+  prescriptionId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  prescriptionVerifiedAt?: Date | string | null
+  prescriptionVerifiedBy?: string | null
+  batches?: Prisma.OrderItemBatchUncheckedCreateNestedManyWithoutOrderItemInput
+  recallNotices?: Prisma.RecallNoticeUncheckedCreateNestedManyWithoutOrderItemInput
+  ledgerEntries?: Prisma.SellerLedgerEntryUncheckedCreateNestedManyWithoutOrderItemInput
+}
+
+export type OrderItemCreateOrConnectWithoutReturnsInput = {
+  where: Prisma.OrderItemWhereUniqueInput
+  create: Prisma.XOR<Prisma.OrderItemCreateWithoutReturnsInput, Prisma.OrderItemUncheckedCreateWithoutReturnsInput>
+}
+
+export type OrderItemUpsertWithoutReturnsInput = {
+  update: Prisma.XOR<Prisma.OrderItemUpdateWithoutReturnsInput, Prisma.OrderItemUncheckedUpdateWithoutReturnsInput>
+  create: Prisma.XOR<Prisma.OrderItemCreateWithoutReturnsInput, Prisma.OrderItemUncheckedCreateWithoutReturnsInput>
+  where?: Prisma.OrderItemWhereInput
+}
+
+export type OrderItemUpdateToOneWithWhereWithoutReturnsInput = {
+  where?: Prisma.OrderItemWhereInput
+  data: Prisma.XOR<Prisma.OrderItemUpdateWithoutReturnsInput, Prisma.OrderItemUncheckedUpdateWithoutReturnsInput>
+}
+
+export type OrderItemUpdateWithoutReturnsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  unitPrice?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  basePrice?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  baseCurrency?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  exchangeRate?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  vatRate?: Prisma.FloatFieldUpdateOperationsInput | number
+  taxAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  orderItemStatus?: Prisma.EnumOrderStatusFieldUpdateOperationsInput | $Enums.OrderStatus
+  returnedQuantity?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  prescriptionVerifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  prescriptionVerifiedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  order?: Prisma.OrderUpdateOneRequiredWithoutItemsNestedInput
+  medicine?: Prisma.MedicineUpdateOneRequiredWithoutOrderItemsNestedInput
+  shipment?: Prisma.ShipmentUpdateOneWithoutItemsNestedInput
+  prescription?: Prisma.PrescriptionUpdateOneWithoutOrderItemsNestedInput
+  batches?: Prisma.OrderItemBatchUpdateManyWithoutOrderItemNestedInput
+  recallNotices?: Prisma.RecallNoticeUpdateManyWithoutOrderItemNestedInput
+  ledgerEntries?: Prisma.SellerLedgerEntryUpdateManyWithoutOrderItemNestedInput
+}
+
+export type OrderItemUncheckedUpdateWithoutReturnsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  orderId?: Prisma.StringFieldUpdateOperationsInput | string
+  medicineId?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  unitPrice?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  basePrice?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  baseCurrency?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  exchangeRate?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  vatRate?: Prisma.FloatFieldUpdateOperationsInput | number
+  taxAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  orderItemStatus?: Prisma.EnumOrderStatusFieldUpdateOperationsInput | $Enums.OrderStatus
+  returnedQuantity?: Prisma.IntFieldUpdateOperationsInput | number
+  shipmentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  prescriptionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  prescriptionVerifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  prescriptionVerifiedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  batches?: Prisma.OrderItemBatchUncheckedUpdateManyWithoutOrderItemNestedInput
+  recallNotices?: Prisma.RecallNoticeUncheckedUpdateManyWithoutOrderItemNestedInput
+  ledgerEntries?: Prisma.SellerLedgerEntryUncheckedUpdateManyWithoutOrderItemNestedInput
+}
+
 export type OrderItemCreateManyMedicineInput = {
   id?: string
   orderId: string
   quantity: number
-  unitPrice: number
+  unitPrice: runtime.Decimal | runtime.DecimalJsLike | number | string
+  basePrice?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  baseCurrency?: string | null
+  exchangeRate?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  vatRate?: number
+  taxAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
   orderItemStatus?: $Enums.OrderStatus
+  returnedQuantity?: number
+  shipmentId?: string | null
+  prescriptionId?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
+  prescriptionVerifiedAt?: Date | string | null
+  prescriptionVerifiedBy?: string | null
 }
 
 export type OrderItemUpdateWithoutMedicineInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   quantity?: Prisma.IntFieldUpdateOperationsInput | number
-  unitPrice?: Prisma.FloatFieldUpdateOperationsInput | number
+  unitPrice?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  basePrice?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  baseCurrency?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  exchangeRate?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  vatRate?: Prisma.FloatFieldUpdateOperationsInput | number
+  taxAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
   orderItemStatus?: Prisma.EnumOrderStatusFieldUpdateOperationsInput | $Enums.OrderStatus
+  returnedQuantity?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  prescriptionVerifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  prescriptionVerifiedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   order?: Prisma.OrderUpdateOneRequiredWithoutItemsNestedInput
+  shipment?: Prisma.ShipmentUpdateOneWithoutItemsNestedInput
+  prescription?: Prisma.PrescriptionUpdateOneWithoutOrderItemsNestedInput
+  returns?: Prisma.ReturnRequestUpdateManyWithoutOrderItemNestedInput
+  batches?: Prisma.OrderItemBatchUpdateManyWithoutOrderItemNestedInput
+  recallNotices?: Prisma.RecallNoticeUpdateManyWithoutOrderItemNestedInput
+  ledgerEntries?: Prisma.SellerLedgerEntryUpdateManyWithoutOrderItemNestedInput
 }
 
 export type OrderItemUncheckedUpdateWithoutMedicineInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   orderId?: Prisma.StringFieldUpdateOperationsInput | string
   quantity?: Prisma.IntFieldUpdateOperationsInput | number
-  unitPrice?: Prisma.FloatFieldUpdateOperationsInput | number
+  unitPrice?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  basePrice?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  baseCurrency?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  exchangeRate?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  vatRate?: Prisma.FloatFieldUpdateOperationsInput | number
+  taxAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
   orderItemStatus?: Prisma.EnumOrderStatusFieldUpdateOperationsInput | $Enums.OrderStatus
+  returnedQuantity?: Prisma.IntFieldUpdateOperationsInput | number
+  shipmentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  prescriptionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  prescriptionVerifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  prescriptionVerifiedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  returns?: Prisma.ReturnRequestUncheckedUpdateManyWithoutOrderItemNestedInput
+  batches?: Prisma.OrderItemBatchUncheckedUpdateManyWithoutOrderItemNestedInput
+  recallNotices?: Prisma.RecallNoticeUncheckedUpdateManyWithoutOrderItemNestedInput
+  ledgerEntries?: Prisma.SellerLedgerEntryUncheckedUpdateManyWithoutOrderItemNestedInput
 }
 
 export type OrderItemUncheckedUpdateManyWithoutMedicineInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   orderId?: Prisma.StringFieldUpdateOperationsInput | string
   quantity?: Prisma.IntFieldUpdateOperationsInput | number
-  unitPrice?: Prisma.FloatFieldUpdateOperationsInput | number
+  unitPrice?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  basePrice?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  baseCurrency?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  exchangeRate?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  vatRate?: Prisma.FloatFieldUpdateOperationsInput | number
+  taxAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
   orderItemStatus?: Prisma.EnumOrderStatusFieldUpdateOperationsInput | $Enums.OrderStatus
+  returnedQuantity?: Prisma.IntFieldUpdateOperationsInput | number
+  shipmentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  prescriptionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  prescriptionVerifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  prescriptionVerifiedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
 }
 
 export type OrderItemCreateManyOrderInput = {
   id?: string
   medicineId: string
   quantity: number
-  unitPrice: number
+  unitPrice: runtime.Decimal | runtime.DecimalJsLike | number | string
+  basePrice?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  baseCurrency?: string | null
+  exchangeRate?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  vatRate?: number
+  taxAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
   orderItemStatus?: $Enums.OrderStatus
+  returnedQuantity?: number
+  shipmentId?: string | null
+  prescriptionId?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
+  prescriptionVerifiedAt?: Date | string | null
+  prescriptionVerifiedBy?: string | null
 }
 
 export type OrderItemUpdateWithoutOrderInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   quantity?: Prisma.IntFieldUpdateOperationsInput | number
-  unitPrice?: Prisma.FloatFieldUpdateOperationsInput | number
+  unitPrice?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  basePrice?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  baseCurrency?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  exchangeRate?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  vatRate?: Prisma.FloatFieldUpdateOperationsInput | number
+  taxAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
   orderItemStatus?: Prisma.EnumOrderStatusFieldUpdateOperationsInput | $Enums.OrderStatus
+  returnedQuantity?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  prescriptionVerifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  prescriptionVerifiedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   medicine?: Prisma.MedicineUpdateOneRequiredWithoutOrderItemsNestedInput
+  shipment?: Prisma.ShipmentUpdateOneWithoutItemsNestedInput
+  prescription?: Prisma.PrescriptionUpdateOneWithoutOrderItemsNestedInput
+  returns?: Prisma.ReturnRequestUpdateManyWithoutOrderItemNestedInput
+  batches?: Prisma.OrderItemBatchUpdateManyWithoutOrderItemNestedInput
+  recallNotices?: Prisma.RecallNoticeUpdateManyWithoutOrderItemNestedInput
+  ledgerEntries?: Prisma.SellerLedgerEntryUpdateManyWithoutOrderItemNestedInput
 }
 
 export type OrderItemUncheckedUpdateWithoutOrderInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   medicineId?: Prisma.StringFieldUpdateOperationsInput | string
   quantity?: Prisma.IntFieldUpdateOperationsInput | number
-  unitPrice?: Prisma.FloatFieldUpdateOperationsInput | number
+  unitPrice?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  basePrice?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  baseCurrency?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  exchangeRate?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  vatRate?: Prisma.FloatFieldUpdateOperationsInput | number
+  taxAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
   orderItemStatus?: Prisma.EnumOrderStatusFieldUpdateOperationsInput | $Enums.OrderStatus
+  returnedQuantity?: Prisma.IntFieldUpdateOperationsInput | number
+  shipmentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  prescriptionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  prescriptionVerifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  prescriptionVerifiedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  returns?: Prisma.ReturnRequestUncheckedUpdateManyWithoutOrderItemNestedInput
+  batches?: Prisma.OrderItemBatchUncheckedUpdateManyWithoutOrderItemNestedInput
+  recallNotices?: Prisma.RecallNoticeUncheckedUpdateManyWithoutOrderItemNestedInput
+  ledgerEntries?: Prisma.SellerLedgerEntryUncheckedUpdateManyWithoutOrderItemNestedInput
 }
 
 export type OrderItemUncheckedUpdateManyWithoutOrderInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   medicineId?: Prisma.StringFieldUpdateOperationsInput | string
   quantity?: Prisma.IntFieldUpdateOperationsInput | number
-  unitPrice?: Prisma.FloatFieldUpdateOperationsInput | number
+  unitPrice?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  basePrice?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  baseCurrency?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  exchangeRate?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  vatRate?: Prisma.FloatFieldUpdateOperationsInput | number
+  taxAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
   orderItemStatus?: Prisma.EnumOrderStatusFieldUpdateOperationsInput | $Enums.OrderStatus
+  returnedQuantity?: Prisma.IntFieldUpdateOperationsInput | number
+  shipmentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  prescriptionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  prescriptionVerifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  prescriptionVerifiedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
 }
 
+export type OrderItemCreateManyShipmentInput = {
+  id?: string
+  orderId: string
+  medicineId: string
+  quantity: number
+  unitPrice: runtime.Decimal | runtime.DecimalJsLike | number | string
+  basePrice?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  baseCurrency?: string | null
+  exchangeRate?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  vatRate?: number
+  taxAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  orderItemStatus?: $Enums.OrderStatus
+  returnedQuantity?: number
+  prescriptionId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  prescriptionVerifiedAt?: Date | string | null
+  prescriptionVerifiedBy?: string | null
+}
+
+export type OrderItemUpdateWithoutShipmentInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  unitPrice?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  basePrice?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  baseCurrency?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  exchangeRate?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  vatRate?: Prisma.FloatFieldUpdateOperationsInput | number
+  taxAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  orderItemStatus?: Prisma.EnumOrderStatusFieldUpdateOperationsInput | $Enums.OrderStatus
+  returnedQuantity?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  prescriptionVerifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  prescriptionVerifiedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  order?: Prisma.OrderUpdateOneRequiredWithoutItemsNestedInput
+  medicine?: Prisma.MedicineUpdateOneRequiredWithoutOrderItemsNestedInput
+  prescription?: Prisma.PrescriptionUpdateOneWithoutOrderItemsNestedInput
+  returns?: Prisma.ReturnRequestUpdateManyWithoutOrderItemNestedInput
+  batches?: Prisma.OrderItemBatchUpdateManyWithoutOrderItemNestedInput
+  recallNotices?: Prisma.RecallNoticeUpdateManyWithoutOrderItemNestedInput
+  ledgerEntries?: Prisma.SellerLedgerEntryUpdateManyWithoutOrderItemNestedInput
+}
+
+export type OrderItemUncheckedUpdateWithoutShipmentInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  orderId?: Prisma.StringFieldUpdateOperationsInput | string
+  medicineId?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  unitPrice?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  basePrice?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  baseCurrency?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  exchangeRate?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  vatRate?: Prisma.FloatFieldUpdateOperationsInput | number
+  taxAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  orderItemStatus?: Prisma.EnumOrderStatusFieldUpdateOperationsInput | $Enums.OrderStatus
+  returnedQuantity?: Prisma.IntFieldUpdateOperationsInput | number
+  prescriptionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  prescriptionVerifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  prescriptionVerifiedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  returns?: Prisma.ReturnRequestUncheckedUpdateManyWithoutOrderItemNestedInput
+  batches?: Prisma.OrderItemBatchUncheckedUpdateManyWithoutOrderItemNestedInput
+  recallNotices?: Prisma.RecallNoticeUncheckedUpdateManyWithoutOrderItemNestedInput
+  ledgerEntries?: Prisma.SellerLedgerEntryUncheckedUpdateManyWithoutOrderItemNestedInput
+}
+
+export type OrderItemUncheckedUpdateManyWithoutShipmentInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  orderId?: Prisma.StringFieldUpdateOperationsInput | string
+  medicineId?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  unitPrice?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  basePrice?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  baseCurrency?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  exchangeRate?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  vatRate?: Prisma.FloatFieldUpdateOperationsInput | number
+  taxAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  orderItemStatus?: Prisma.EnumOrderStatusFieldUpdateOperationsInput | $Enums.OrderStatus
+  returnedQuantity?: Prisma.IntFieldUpdateOperationsInput | number
+  prescriptionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  prescriptionVerifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  prescriptionVerifiedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+}
+
+export type OrderItemCreateManyPrescriptionInput = {
+  id?: string
+  orderId: string
+  medicineId: string
+  quantity: number
+  unitPrice: runtime.Decimal | runtime.DecimalJsLike | number | string
+  basePrice?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  baseCurrency?: string | null
+  exchangeRate?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  vatRate?: number
+  taxAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  orderItemStatus?: $Enums.OrderStatus
+  returnedQuantity?: number
+  shipmentId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  prescriptionVerifiedAt?: Date | string | null
+  prescriptionVerifiedBy?: string | null
+}
+
+export type OrderItemUpdateWithoutPrescriptionInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  unitPrice?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  basePrice?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  baseCurrency?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  exchangeRate?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  vatRate?: Prisma.FloatFieldUpdateOperationsInput | number
+  taxAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  orderItemStatus?: Prisma.EnumOrderStatusFieldUpdateOperationsInput | $Enums.OrderStatus
+  returnedQuantity?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  prescriptionVerifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  prescriptionVerifiedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  order?: Prisma.OrderUpdateOneRequiredWithoutItemsNestedInput
+  medicine?: Prisma.MedicineUpdateOneRequiredWithoutOrderItemsNestedInput
+  shipment?: Prisma.ShipmentUpdateOneWithoutItemsNestedInput
+  returns?: Prisma.ReturnRequestUpdateManyWithoutOrderItemNestedInput
+  batches?: Prisma.OrderItemBatchUpdateManyWithoutOrderItemNestedInput
+  recallNotices?: Prisma.RecallNoticeUpdateManyWithoutOrderItemNestedInput
+  ledgerEntries?: Prisma.SellerLedgerEntryUpdateManyWithoutOrderItemNestedInput
+}
+
+export type OrderItemUncheckedUpdateWithoutPrescriptionInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  orderId?: Prisma.StringFieldUpdateOperationsInput | string
+  medicineId?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  unitPrice?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  basePrice?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  baseCurrency?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  exchangeRate?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  vatRate?: Prisma.FloatFieldUpdateOperationsInput | number
+  taxAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  orderItemStatus?: Prisma.EnumOrderStatusFieldUpdateOperationsInput | $Enums.OrderStatus
+  returnedQuantity?: Prisma.IntFieldUpdateOperationsInput | number
+  shipmentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  prescriptionVerifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  prescriptionVerifiedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  returns?: Prisma.ReturnRequestUncheckedUpdateManyWithoutOrderItemNestedInput
+  batches?: Prisma.OrderItemBatchUncheckedUpdateManyWithoutOrderItemNestedInput
+  recallNotices?: Prisma.RecallNoticeUncheckedUpdateManyWithoutOrderItemNestedInput
+  ledgerEntries?: Prisma.SellerLedgerEntryUncheckedUpdateManyWithoutOrderItemNestedInput
+}
+
+export type OrderItemUncheckedUpdateManyWithoutPrescriptionInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  orderId?: Prisma.StringFieldUpdateOperationsInput | string
+  medicineId?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  unitPrice?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  basePrice?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  baseCurrency?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  exchangeRate?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  vatRate?: Prisma.FloatFieldUpdateOperationsInput | number
+  taxAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  orderItemStatus?: Prisma.EnumOrderStatusFieldUpdateOperationsInput | $Enums.OrderStatus
+  returnedQuantity?: Prisma.IntFieldUpdateOperationsInput | number
+  shipmentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  prescriptionVerifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  prescriptionVerifiedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+}
+
+
+/**
+ * Count Type OrderItemCountOutputType
+ */
+
+export type OrderItemCountOutputType = {
+  returns: number
+  batches: number
+  recallNotices: number
+  ledgerEntries: number
+}
+
+export type OrderItemCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  returns?: boolean | OrderItemCountOutputTypeCountReturnsArgs
+  batches?: boolean | OrderItemCountOutputTypeCountBatchesArgs
+  recallNotices?: boolean | OrderItemCountOutputTypeCountRecallNoticesArgs
+  ledgerEntries?: boolean | OrderItemCountOutputTypeCountLedgerEntriesArgs
+}
+
+/**
+ * OrderItemCountOutputType without action
+ */
+export type OrderItemCountOutputTypeDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OrderItemCountOutputType
+   */
+  select?: Prisma.OrderItemCountOutputTypeSelect<ExtArgs> | null
+}
+
+/**
+ * OrderItemCountOutputType without action
+ */
+export type OrderItemCountOutputTypeCountReturnsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ReturnRequestWhereInput
+}
+
+/**
+ * OrderItemCountOutputType without action
+ */
+export type OrderItemCountOutputTypeCountBatchesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.OrderItemBatchWhereInput
+}
+
+/**
+ * OrderItemCountOutputType without action
+ */
+export type OrderItemCountOutputTypeCountRecallNoticesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.RecallNoticeWhereInput
+}
+
+/**
+ * OrderItemCountOutputType without action
+ */
+export type OrderItemCountOutputTypeCountLedgerEntriesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.SellerLedgerEntryWhereInput
+}
 
 
 export type OrderItemSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
@@ -713,11 +2137,28 @@ export type OrderItemSelect<ExtArgs extends runtime.Types.Extensions.InternalArg
   medicineId?: boolean
   quantity?: boolean
   unitPrice?: boolean
+  basePrice?: boolean
+  baseCurrency?: boolean
+  exchangeRate?: boolean
+  vatRate?: boolean
+  taxAmount?: boolean
   orderItemStatus?: boolean
+  returnedQuantity?: boolean
+  shipmentId?: boolean
+  prescriptionId?: boolean
   createdAt?: boolean
   updatedAt?: boolean
+  prescriptionVerifiedAt?: boolean
+  prescriptionVerifiedBy?: boolean
   order?: boolean | Prisma.OrderDefaultArgs<ExtArgs>
   medicine?: boolean | Prisma.MedicineDefaultArgs<ExtArgs>
+  shipment?: boolean | Prisma.OrderItem$shipmentArgs<ExtArgs>
+  prescription?: boolean | Prisma.OrderItem$prescriptionArgs<ExtArgs>
+  returns?: boolean | Prisma.OrderItem$returnsArgs<ExtArgs>
+  batches?: boolean | Prisma.OrderItem$batchesArgs<ExtArgs>
+  recallNotices?: boolean | Prisma.OrderItem$recallNoticesArgs<ExtArgs>
+  ledgerEntries?: boolean | Prisma.OrderItem$ledgerEntriesArgs<ExtArgs>
+  _count?: boolean | Prisma.OrderItemCountOutputTypeDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["orderItem"]>
 
 export type OrderItemSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
@@ -726,11 +2167,23 @@ export type OrderItemSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Ext
   medicineId?: boolean
   quantity?: boolean
   unitPrice?: boolean
+  basePrice?: boolean
+  baseCurrency?: boolean
+  exchangeRate?: boolean
+  vatRate?: boolean
+  taxAmount?: boolean
   orderItemStatus?: boolean
+  returnedQuantity?: boolean
+  shipmentId?: boolean
+  prescriptionId?: boolean
   createdAt?: boolean
   updatedAt?: boolean
+  prescriptionVerifiedAt?: boolean
+  prescriptionVerifiedBy?: boolean
   order?: boolean | Prisma.OrderDefaultArgs<ExtArgs>
   medicine?: boolean | Prisma.MedicineDefaultArgs<ExtArgs>
+  shipment?: boolean | Prisma.OrderItem$shipmentArgs<ExtArgs>
+  prescription?: boolean | Prisma.OrderItem$prescriptionArgs<ExtArgs>
 }, ExtArgs["result"]["orderItem"]>
 
 export type OrderItemSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
@@ -739,11 +2192,23 @@ export type OrderItemSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Ext
   medicineId?: boolean
   quantity?: boolean
   unitPrice?: boolean
+  basePrice?: boolean
+  baseCurrency?: boolean
+  exchangeRate?: boolean
+  vatRate?: boolean
+  taxAmount?: boolean
   orderItemStatus?: boolean
+  returnedQuantity?: boolean
+  shipmentId?: boolean
+  prescriptionId?: boolean
   createdAt?: boolean
   updatedAt?: boolean
+  prescriptionVerifiedAt?: boolean
+  prescriptionVerifiedBy?: boolean
   order?: boolean | Prisma.OrderDefaultArgs<ExtArgs>
   medicine?: boolean | Prisma.MedicineDefaultArgs<ExtArgs>
+  shipment?: boolean | Prisma.OrderItem$shipmentArgs<ExtArgs>
+  prescription?: boolean | Prisma.OrderItem$prescriptionArgs<ExtArgs>
 }, ExtArgs["result"]["orderItem"]>
 
 export type OrderItemSelectScalar = {
@@ -752,23 +2217,44 @@ export type OrderItemSelectScalar = {
   medicineId?: boolean
   quantity?: boolean
   unitPrice?: boolean
+  basePrice?: boolean
+  baseCurrency?: boolean
+  exchangeRate?: boolean
+  vatRate?: boolean
+  taxAmount?: boolean
   orderItemStatus?: boolean
+  returnedQuantity?: boolean
+  shipmentId?: boolean
+  prescriptionId?: boolean
   createdAt?: boolean
   updatedAt?: boolean
+  prescriptionVerifiedAt?: boolean
+  prescriptionVerifiedBy?: boolean
 }
 
-export type OrderItemOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "orderId" | "medicineId" | "quantity" | "unitPrice" | "orderItemStatus" | "createdAt" | "updatedAt", ExtArgs["result"]["orderItem"]>
+export type OrderItemOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "orderId" | "medicineId" | "quantity" | "unitPrice" | "basePrice" | "baseCurrency" | "exchangeRate" | "vatRate" | "taxAmount" | "orderItemStatus" | "returnedQuantity" | "shipmentId" | "prescriptionId" | "createdAt" | "updatedAt" | "prescriptionVerifiedAt" | "prescriptionVerifiedBy", ExtArgs["result"]["orderItem"]>
 export type OrderItemInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   order?: boolean | Prisma.OrderDefaultArgs<ExtArgs>
   medicine?: boolean | Prisma.MedicineDefaultArgs<ExtArgs>
+  shipment?: boolean | Prisma.OrderItem$shipmentArgs<ExtArgs>
+  prescription?: boolean | Prisma.OrderItem$prescriptionArgs<ExtArgs>
+  returns?: boolean | Prisma.OrderItem$returnsArgs<ExtArgs>
+  batches?: boolean | Prisma.OrderItem$batchesArgs<ExtArgs>
+  recallNotices?: boolean | Prisma.OrderItem$recallNoticesArgs<ExtArgs>
+  ledgerEntries?: boolean | Prisma.OrderItem$ledgerEntriesArgs<ExtArgs>
+  _count?: boolean | Prisma.OrderItemCountOutputTypeDefaultArgs<ExtArgs>
 }
 export type OrderItemIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   order?: boolean | Prisma.OrderDefaultArgs<ExtArgs>
   medicine?: boolean | Prisma.MedicineDefaultArgs<ExtArgs>
+  shipment?: boolean | Prisma.OrderItem$shipmentArgs<ExtArgs>
+  prescription?: boolean | Prisma.OrderItem$prescriptionArgs<ExtArgs>
 }
 export type OrderItemIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   order?: boolean | Prisma.OrderDefaultArgs<ExtArgs>
   medicine?: boolean | Prisma.MedicineDefaultArgs<ExtArgs>
+  shipment?: boolean | Prisma.OrderItem$shipmentArgs<ExtArgs>
+  prescription?: boolean | Prisma.OrderItem$prescriptionArgs<ExtArgs>
 }
 
 export type $OrderItemPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
@@ -776,16 +2262,32 @@ export type $OrderItemPayload<ExtArgs extends runtime.Types.Extensions.InternalA
   objects: {
     order: Prisma.$OrderPayload<ExtArgs>
     medicine: Prisma.$MedicinePayload<ExtArgs>
+    shipment: Prisma.$ShipmentPayload<ExtArgs> | null
+    prescription: Prisma.$PrescriptionPayload<ExtArgs> | null
+    returns: Prisma.$ReturnRequestPayload<ExtArgs>[]
+    batches: Prisma.$OrderItemBatchPayload<ExtArgs>[]
+    recallNotices: Prisma.$RecallNoticePayload<ExtArgs>[]
+    ledgerEntries: Prisma.$SellerLedgerEntryPayload<ExtArgs>[]
   }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
     id: string
     orderId: string
     medicineId: string
     quantity: number
-    unitPrice: number
+    unitPrice: runtime.Decimal
+    basePrice: runtime.Decimal | null
+    baseCurrency: string | null
+    exchangeRate: runtime.Decimal
+    vatRate: number
+    taxAmount: runtime.Decimal
     orderItemStatus: $Enums.OrderStatus
+    returnedQuantity: number
+    shipmentId: string | null
+    prescriptionId: string | null
     createdAt: Date
     updatedAt: Date
+    prescriptionVerifiedAt: Date | null
+    prescriptionVerifiedBy: string | null
   }, ExtArgs["result"]["orderItem"]>
   composites: {}
 }
@@ -1182,6 +2684,12 @@ export interface Prisma__OrderItemClient<T, Null = never, ExtArgs extends runtim
   readonly [Symbol.toStringTag]: "PrismaPromise"
   order<T extends Prisma.OrderDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.OrderDefaultArgs<ExtArgs>>): Prisma.Prisma__OrderClient<runtime.Types.Result.GetResult<Prisma.$OrderPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
   medicine<T extends Prisma.MedicineDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.MedicineDefaultArgs<ExtArgs>>): Prisma.Prisma__MedicineClient<runtime.Types.Result.GetResult<Prisma.$MedicinePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  shipment<T extends Prisma.OrderItem$shipmentArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.OrderItem$shipmentArgs<ExtArgs>>): Prisma.Prisma__ShipmentClient<runtime.Types.Result.GetResult<Prisma.$ShipmentPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  prescription<T extends Prisma.OrderItem$prescriptionArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.OrderItem$prescriptionArgs<ExtArgs>>): Prisma.Prisma__PrescriptionClient<runtime.Types.Result.GetResult<Prisma.$PrescriptionPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  returns<T extends Prisma.OrderItem$returnsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.OrderItem$returnsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ReturnRequestPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  batches<T extends Prisma.OrderItem$batchesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.OrderItem$batchesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$OrderItemBatchPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  recallNotices<T extends Prisma.OrderItem$recallNoticesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.OrderItem$recallNoticesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$RecallNoticePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  ledgerEntries<T extends Prisma.OrderItem$ledgerEntriesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.OrderItem$ledgerEntriesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SellerLedgerEntryPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
    * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -1215,10 +2723,20 @@ export interface OrderItemFieldRefs {
   readonly orderId: Prisma.FieldRef<"OrderItem", 'String'>
   readonly medicineId: Prisma.FieldRef<"OrderItem", 'String'>
   readonly quantity: Prisma.FieldRef<"OrderItem", 'Int'>
-  readonly unitPrice: Prisma.FieldRef<"OrderItem", 'Float'>
+  readonly unitPrice: Prisma.FieldRef<"OrderItem", 'Decimal'>
+  readonly basePrice: Prisma.FieldRef<"OrderItem", 'Decimal'>
+  readonly baseCurrency: Prisma.FieldRef<"OrderItem", 'String'>
+  readonly exchangeRate: Prisma.FieldRef<"OrderItem", 'Decimal'>
+  readonly vatRate: Prisma.FieldRef<"OrderItem", 'Float'>
+  readonly taxAmount: Prisma.FieldRef<"OrderItem", 'Decimal'>
   readonly orderItemStatus: Prisma.FieldRef<"OrderItem", 'OrderStatus'>
+  readonly returnedQuantity: Prisma.FieldRef<"OrderItem", 'Int'>
+  readonly shipmentId: Prisma.FieldRef<"OrderItem", 'String'>
+  readonly prescriptionId: Prisma.FieldRef<"OrderItem", 'String'>
   readonly createdAt: Prisma.FieldRef<"OrderItem", 'DateTime'>
   readonly updatedAt: Prisma.FieldRef<"OrderItem", 'DateTime'>
+  readonly prescriptionVerifiedAt: Prisma.FieldRef<"OrderItem", 'DateTime'>
+  readonly prescriptionVerifiedBy: Prisma.FieldRef<"OrderItem", 'String'>
 }
     
 
@@ -1614,6 +3132,140 @@ export type OrderItemDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.Int
   limit?: number
 }
 
+/**
+ * OrderItem.shipment
+ */
+export type OrderItem$shipmentArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Shipment
+   */
+  select?: Prisma.ShipmentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Shipment
+   */
+  omit?: Prisma.ShipmentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShipmentInclude<ExtArgs> | null
+  where?: Prisma.ShipmentWhereInput
+}
+
+/**
+ * OrderItem.prescription
+ */
+export type OrderItem$prescriptionArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Prescription
+   */
+  select?: Prisma.PrescriptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Prescription
+   */
+  omit?: Prisma.PrescriptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PrescriptionInclude<ExtArgs> | null
+  where?: Prisma.PrescriptionWhereInput
+}
+
+/**
+ * OrderItem.returns
+ */
+export type OrderItem$returnsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReturnRequest
+   */
+  select?: Prisma.ReturnRequestSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReturnRequest
+   */
+  omit?: Prisma.ReturnRequestOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ReturnRequestInclude<ExtArgs> | null
+  where?: Prisma.ReturnRequestWhereInput
+  orderBy?: Prisma.ReturnRequestOrderByWithRelationInput | Prisma.ReturnRequestOrderByWithRelationInput[]
+  cursor?: Prisma.ReturnRequestWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.ReturnRequestScalarFieldEnum | Prisma.ReturnRequestScalarFieldEnum[]
+}
+
+/**
+ * OrderItem.batches
+ */
+export type OrderItem$batchesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OrderItemBatch
+   */
+  select?: Prisma.OrderItemBatchSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OrderItemBatch
+   */
+  omit?: Prisma.OrderItemBatchOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OrderItemBatchInclude<ExtArgs> | null
+  where?: Prisma.OrderItemBatchWhereInput
+  orderBy?: Prisma.OrderItemBatchOrderByWithRelationInput | Prisma.OrderItemBatchOrderByWithRelationInput[]
+  cursor?: Prisma.OrderItemBatchWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.OrderItemBatchScalarFieldEnum | Prisma.OrderItemBatchScalarFieldEnum[]
+}
+
+/**
+ * OrderItem.recallNotices
+ */
+export type OrderItem$recallNoticesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RecallNotice
+   */
+  select?: Prisma.RecallNoticeSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RecallNotice
+   */
+  omit?: Prisma.RecallNoticeOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RecallNoticeInclude<ExtArgs> | null
+  where?: Prisma.RecallNoticeWhereInput
+  orderBy?: Prisma.RecallNoticeOrderByWithRelationInput | Prisma.RecallNoticeOrderByWithRelationInput[]
+  cursor?: Prisma.RecallNoticeWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.RecallNoticeScalarFieldEnum | Prisma.RecallNoticeScalarFieldEnum[]
+}
+
+/**
+ * OrderItem.ledgerEntries
+ */
+export type OrderItem$ledgerEntriesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SellerLedgerEntry
+   */
+  select?: Prisma.SellerLedgerEntrySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SellerLedgerEntry
+   */
+  omit?: Prisma.SellerLedgerEntryOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SellerLedgerEntryInclude<ExtArgs> | null
+  where?: Prisma.SellerLedgerEntryWhereInput
+  orderBy?: Prisma.SellerLedgerEntryOrderByWithRelationInput | Prisma.SellerLedgerEntryOrderByWithRelationInput[]
+  cursor?: Prisma.SellerLedgerEntryWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.SellerLedgerEntryScalarFieldEnum | Prisma.SellerLedgerEntryScalarFieldEnum[]
+}
+
 /**
  * OrderItem without action
  */
@@ -0,0 +1,1510 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `OrderItemBatch` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model OrderItemBatch
+ * 
+ */
+export type OrderItemBatchModel = runtime.Types.Result.DefaultSelection<Prisma.$OrderItemBatchPayload>
+
+export type AggregateOrderItemBatch = {
+  _count: OrderItemBatchCountAggregateOutputType | null
+  _avg: OrderItemBatchAvgAggregateOutputType | null
+  _sum: OrderItemBatchSumAggregateOutputType | null
+  _min: OrderItemBatchMinAggregateOutputType | null
+  _max: OrderItemBatchMaxAggregateOutputType | null
+}
+
+export type OrderItemBatchAvgAggregateOutputType = {
+  quantity: number | null
+}
+
+export type OrderItemBatchSumAggregateOutputType = {
+  quantity: number | null
+}
+
+export type OrderItemBatchMinAggregateOutputType = {
+  id: string | null
+  orderItemId: string | null
+  batchId: string | null
+  quantity: number | null
+  createdAt: Date | null
+}
+
+export type OrderItemBatchMaxAggregateOutputType = {
+  id: string | null
+  orderItemId: string | null
+  batchId: string | null
+  quantity: number | null
+  createdAt: Date | null
+}
+
+export type OrderItemBatchCountAggregateOutputType = {
+  id: number
+  orderItemId: number
+  batchId: number
+  quantity: number
+  createdAt: number
+  _all: number
+}
+
+
+export type OrderItemBatchAvgAggregateInputType = {
+  quantity?: true
+}
+
+export type OrderItemBatchSumAggregateInputType = {
+  quantity?: true
+}
+
+export type OrderItemBatchMinAggregateInputType = {
+  id?: true
+  orderItemId?: true
+  batchId?: true
+  quantity?: true
+  createdAt?: true
+}
+
+export type OrderItemBatchMaxAggregateInputType = {
+  id?: true
+  orderItemId?: true
+  batchId?: true
+  quantity?: true
+  createdAt?: true
+}
+
+export type OrderItemBatchCountAggregateInputType = {
+  id?: true
+  orderItemId?: true
+  batchId?: true
+  quantity?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type OrderItemBatchAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which OrderItemBatch to aggregate.
+   */
+  where?: Prisma.OrderItemBatchWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of OrderItemBatches to fetch.
+   */
+  orderBy?: Prisma.OrderItemBatchOrderByWithRelationInput | Prisma.OrderItemBatchOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.OrderItemBatchWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` OrderItemBatches from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` OrderItemBatches.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned OrderItemBatches
+  **/
+  _count?: true | OrderItemBatchCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: OrderItemBatchAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: OrderItemBatchSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: OrderItemBatchMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: OrderItemBatchMaxAggregateInputType
+}
+
+export type GetOrderItemBatchAggregateType<T extends OrderItemBatchAggregateArgs> = {
+      [P in keyof T & keyof AggregateOrderItemBatch]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateOrderItemBatch[P]>
+    : Prisma.GetScalarType<T[P], AggregateOrderItemBatch[P]>
+}
+
+
+
+
+export type OrderItemBatchGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.OrderItemBatchWhereInput
+  orderBy?: Prisma.OrderItemBatchOrderByWithAggregationInput | Prisma.OrderItemBatchOrderByWithAggregationInput[]
+  by: Prisma.OrderItemBatchScalarFieldEnum[] | Prisma.OrderItemBatchScalarFieldEnum
+  having?: Prisma.OrderItemBatchScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: OrderItemBatchCountAggregateInputType | true
+  _avg?: OrderItemBatchAvgAggregateInputType
+  _sum?: OrderItemBatchSumAggregateInputType
+  _min?: OrderItemBatchMinAggregateInputType
+  _max?: OrderItemBatchMaxAggregateInputType
+}
+
+export type OrderItemBatchGroupByOutputType = {
+  id: string
+  orderItemId: string
+  batchId: string
+  quantity: number
+  createdAt: Date
+  _count: OrderItemBatchCountAggregateOutputType | null
+  _avg: OrderItemBatchAvgAggregateOutputType | null
+  _sum: OrderItemBatchSumAggregateOutputType | null
+  _min: OrderItemBatchMinAggregateOutputType | null
+  _max: OrderItemBatchMaxAggregateOutputType | null
+}
+
+type GetOrderItemBatchGroupByPayload<T extends OrderItemBatchGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<OrderItemBatchGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof OrderItemBatchGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], OrderItemBatchGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], OrderItemBatchGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type OrderItemBatchWhereInput = {
+  AND?: Prisma.OrderItemBatchWhereInput | Prisma.OrderItemBatchWhereInput[]
+  OR?: Prisma.OrderItemBatchWhereInput[]
+  NOT?: Prisma.OrderItemBatchWhereInput | Prisma.OrderItemBatchWhereInput[]
+  id?: Prisma.StringFilter<"OrderItemBatch"> | string
+  orderItemId?: Prisma.StringFilter<"OrderItemBatch"> | string
+  batchId?: Prisma.StringFilter<"OrderItemBatch"> | string
+  quantity?: Prisma.IntFilter<"OrderItemBatch"> | number
+  createdAt?: Prisma.DateTimeFilter<"OrderItemBatch"> | Date | string
+  orderItem?: Prisma.XOR<Prisma.OrderItemScalarRelationFilter, Prisma.OrderItemWhereInput>
+  batch?: Prisma.XOR<Prisma.MedicineBatchScalarRelationFilter, Prisma.MedicineBatchWhereInput>
+}
+
+export type OrderItemBatchOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  orderItemId?: Prisma.SortOrder
+  batchId?: Prisma.SortOrder
+  quantity?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  orderItem?: Prisma.OrderItemOrderByWithRelationInput
+  batch?: Prisma.MedicineBatchOrderByWithRelationInput
+}
+
+export type OrderItemBatchWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  orderItemId_batchId?: Prisma.OrderItemBatchOrderItemIdBatchIdCompoundUniqueInput
+  AND?: Prisma.OrderItemBatchWhereInput | Prisma.OrderItemBatchWhereInput[]
+  OR?: Prisma.OrderItemBatchWhereInput[]
+  NOT?: Prisma.OrderItemBatchWhereInput | Prisma.OrderItemBatchWhereInput[]
+  orderItemId?: Prisma.StringFilter<"OrderItemBatch"> | string
+  batchId?: Prisma.StringFilter<"OrderItemBatch"> | string
+  quantity?: Prisma.IntFilter<"OrderItemBatch"> | number
+  createdAt?: Prisma.DateTimeFilter<"OrderItemBatch"> | Date | string
+  orderItem?: Prisma.XOR<Prisma.OrderItemScalarRelationFilter, Prisma.OrderItemWhereInput>
+  batch?: Prisma.XOR<Prisma.MedicineBatchScalarRelationFilter, Prisma.MedicineBatchWhereInput>
+}, "id" | "orderItemId_batchId">
+
+export type OrderItemBatchOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  orderItemId?: Prisma.SortOrder
+  batchId?: Prisma.SortOrder
+  quantity?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.OrderItemBatchCountOrderByAggregateInput
+  _avg?: Prisma.OrderItemBatchAvgOrderByAggregateInput
+  _max?: Prisma.OrderItemBatchMaxOrderByAggregateInput
+  _min?: Prisma.OrderItemBatchMinOrderByAggregateInput
+  _sum?: Prisma.OrderItemBatchSumOrderByAggregateInput
+}
+
+export type OrderItemBatchScalarWhereWithAggregatesInput = {
+  AND?: Prisma.OrderItemBatchScalarWhereWithAggregatesInput | Prisma.OrderItemBatchScalarWhereWithAggregatesInput[]
+  OR?: Prisma.OrderItemBatchScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.OrderItemBatchScalarWhereWithAggregatesInput | Prisma.OrderItemBatchScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"OrderItemBatch"> | string
+  orderItemId?: Prisma.StringWithAggregatesFilter<"OrderItemBatch"> | string
+  batchId?: Prisma.StringWithAggregatesFilter<"OrderItemBatch"> | string
+  quantity?: Prisma.IntWithAggregatesFilter<"OrderItemBatch"> | number
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"OrderItemBatch"> | Date | string
+}
+
+export type OrderItemBatchCreateInput = {
+  id?: string
+  quantity: number
+  createdAt?: Date | string
+  orderItem: Prisma.OrderItemCreateNestedOneWithoutBatchesInput
+  batch: Prisma.MedicineBatchCreateNestedOneWithoutAllocationsInput
+}
+
+export type OrderItemBatchUncheckedCreateInput = {
+  id?: string
+  orderItemId: string
+  batchId: string
+  quantity: number
+  createdAt?: Date | string
+}
+
+export type OrderItemBatchUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  orderItem?: Prisma.OrderItemUpdateOneRequiredWithoutBatchesNestedInput
+  batch?: Prisma.MedicineBatchUpdateOneRequiredWithoutAllocationsNestedInput
+}
+
+export type OrderItemBatchUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  orderItemId?: Prisma.StringFieldUpdateOperationsInput | string
+  batchId?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type OrderItemBatchCreateManyInput = {
+  id?: string
+  orderItemId: string
+  batchId: string
+  quantity: number
+  createdAt?: Date | string
+}
+
+export type OrderItemBatchUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type OrderItemBatchUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  orderItemId?: Prisma.StringFieldUpdateOperationsInput | string
+  batchId?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type OrderItemBatchListRelationFilter = {
+  every?: Prisma.OrderItemBatchWhereInput
+  some?: Prisma.OrderItemBatchWhereInput
+  none?: Prisma.OrderItemBatchWhereInput
+}
+
+export type OrderItemBatchOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type OrderItemBatchOrderItemIdBatchIdCompoundUniqueInput = {
+  orderItemId: string
+  batchId: string
+}
+
+export type OrderItemBatchCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  orderItemId?: Prisma.SortOrder
+  batchId?: Prisma.SortOrder
+  quantity?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type OrderItemBatchAvgOrderByAggregateInput = {
+  quantity?: Prisma.SortOrder
+}
+
+export type OrderItemBatchMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  orderItemId?: Prisma.SortOrder
+  batchId?: Prisma.SortOrder
+  quantity?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type OrderItemBatchMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  orderItemId?: Prisma.SortOrder
+  batchId?: Prisma.SortOrder
+  quantity?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type OrderItemBatchSumOrderByAggregateInput = {
+  quantity?: Prisma.SortOrder
+}
+
+export type OrderItemBatchCreateNestedManyWithoutBatchInput = {
+  create?: Prisma.XOR<Prisma.OrderItemBatchCreateWithoutBatchInput, Prisma.OrderItemBatchUncheckedCreateWithoutBatchInput> | Prisma.OrderItemBatchCreateWithoutBatchInput[] | Prisma.OrderItemBatchUncheckedCreateWithoutBatchInput[]
+  connectOrCreate?: Prisma.OrderItemBatchCreateOrConnectWithoutBatchInput | Prisma.OrderItemBatchCreateOrConnectWithoutBatchInput[]
+  createMany?: Prisma.OrderItemBatchCreateManyBatchInputEnvelope
+  connect?: Prisma.OrderItemBatchWhereUniqueInput | Prisma.OrderItemBatchWhereUniqueInput[]
+}
+
+export type OrderItemBatchUncheckedCreateNestedManyWithoutBatchInput = {
+  create?: Prisma.XOR<Prisma.OrderItemBatchCreateWithoutBatchInput, Prisma.OrderItemBatchUncheckedCreateWithoutBatchInput> | Prisma.OrderItemBatchCreateWithoutBatchInput[] | Prisma.OrderItemBatchUncheckedCreateWithoutBatchInput[]
+  connectOrCreate?: Prisma.OrderItemBatchCreateOrConnectWithoutBatchInput | Prisma.OrderItemBatchCreateOrConnectWithoutBatchInput[]
+  createMany?: Prisma.OrderItemBatchCreateManyBatchInputEnvelope
+  connect?: Prisma.OrderItemBatchWhereUniqueInput | Prisma.OrderItemBatchWhereUniqueInput[]
+}
+
+export type OrderItemBatchUpdateManyWithoutBatchNestedInput = {
+  create?: Prisma.XOR<Prisma.OrderItemBatchCreateWithoutBatchInput, Prisma.OrderItemBatchUncheckedCreateWithoutBatchInput> | Prisma.OrderItemBatchCreateWithoutBatchInput[] | Prisma.OrderItemBatchUncheckedCreateWithoutBatchInput[]
+  connectOrCreate?: Prisma.OrderItemBatchCreateOrConnectWithoutBatchInput | Prisma.OrderItemBatchCreateOrConnectWithoutBatchInput[]
+  upsert?: Prisma.OrderItemBatchUpsertWithWhereUniqueWithoutBatchInput | Prisma.OrderItemBatchUpsertWithWhereUniqueWithoutBatchInput[]
+  createMany?: Prisma.OrderItemBatchCreateManyBatchInputEnvelope
+  set?: Prisma.OrderItemBatchWhereUniqueInput | Prisma.OrderItemBatchWhereUniqueInput[]
+  disconnect?: Prisma.OrderItemBatchWhereUniqueInput | Prisma.OrderItemBatchWhereUniqueInput[]
+  delete?: Prisma.OrderItemBatchWhereUniqueInput | Prisma.OrderItemBatchWhereUniqueInput[]
+  connect?: Prisma.OrderItemBatchWhereUniqueInput | Prisma.OrderItemBatchWhereUniqueInput[]
+  update?: Prisma.OrderItemBatchUpdateWithWhereUniqueWithoutBatchInput | Prisma.OrderItemBatchUpdateWithWhereUniqueWithoutBatchInput[]
+  updateMany?: Prisma.OrderItemBatchUpdateManyWithWhereWithoutBatchInput | Prisma.OrderItemBatchUpdateManyWithWhereWithoutBatchInput[]
+  deleteMany?: Prisma.OrderItemBatchScalarWhereInput | Prisma.OrderItemBatchScalarWhereInput[]
+}
+
+export type OrderItemBatchUncheckedUpdateManyWithoutBatchNestedInput = {
+  create?: Prisma.XOR<Prisma.OrderItemBatchCreateWithoutBatchInput, Prisma.OrderItemBatchUncheckedCreateWithoutBatchInput> | Prisma.OrderItemBatchCreateWithoutBatchInput[] | Prisma.OrderItemBatchUncheckedCreateWithoutBatchInput[]
+  connectOrCreate?: Prisma.OrderItemBatchCreateOrConnectWithoutBatchInput | Prisma.OrderItemBatchCreateOrConnectWithoutBatchInput[]
+  upsert?: Prisma.OrderItemBatchUpsertWithWhereUniqueWithoutBatchInput | Prisma.OrderItemBatchUpsertWithWhereUniqueWithoutBatchInput[]
+  createMany?: Prisma.OrderItemBatchCreateManyBatchInputEnvelope
+  set?: Prisma.OrderItemBatchWhereUniqueInput | Prisma.OrderItemBatchWhereUniqueInput[]
+  disconnect?: Prisma.OrderItemBatchWhereUniqueInput | Prisma.OrderItemBatchWhereUniqueInput[]
+  delete?: Prisma.OrderItemBatchWhereUniqueInput | Prisma.OrderItemBatchWhereUniqueInput[]
+  connect?: Prisma.OrderItemBatchWhereUniqueInput | Prisma.OrderItemBatchWhereUniqueInput[]
+  update?: Prisma.OrderItemBatchUpdateWithWhereUniqueWithoutBatchInput | Prisma.OrderItemBatchUpdateWithWhereUniqueWithoutBatchInput[]
+  updateMany?: Prisma.OrderItemBatchUpdateManyWithWhereWithoutBatchInput | Prisma.OrderItemBatchUpdateManyWithWhereWithoutBatchInput[]
+  deleteMany?: Prisma.OrderItemBatchScalarWhereInput | Prisma.OrderItemBatchScalarWhereInput[]
+}
+
+export type OrderItemBatchCreateNestedManyWithoutOrderItemInput = {
+  create?: Prisma.XOR<Prisma.OrderItemBatchCreateWithoutOrderItemInput, Prisma.OrderItemBatchUncheckedCreateWithoutOrderItemInput> | Prisma.OrderItemBatchCreateWithoutOrderItemInput[] | Prisma.OrderItemBatchUncheckedCreateWithoutOrderItemInput[]
+  connectOrCreate?: Prisma.OrderItemBatchCreateOrConnectWithoutOrderItemInput | Prisma.OrderItemBatchCreateOrConnectWithoutOrderItemInput[]
+  createMany?: Prisma.OrderItemBatchCreateManyOrderItemInputEnvelope
+  connect?: Prisma.OrderItemBatchWhereUniqueInput | Prisma.OrderItemBatchWhereUniqueInput[]
+}
+
+export type OrderItemBatchUncheckedCreateNestedManyWithoutOrderItemInput = {
+  create?: Prisma.XOR<Prisma.OrderItemBatchCreateWithoutOrderItemInput, Prisma.OrderItemBatchUncheckedCreateWithoutOrderItemInput> | Prisma.OrderItemBatchCreateWithoutOrderItemInput[] | Prisma.OrderItemBatchUncheckedCreateWithoutOrderItemInput[]
+  connectOrCreate?: Prisma.OrderItemBatchCreateOrConnectWithoutOrderItemInput | Prisma.OrderItemBatchCreateOrConnectWithoutOrderItemInput[]
+  createMany?: Prisma.OrderItemBatchCreateManyOrderItemInputEnvelope
+  connect?: Prisma.OrderItemBatchWhereUniqueInput | Prisma.OrderItemBatchWhereUniqueInput[]
+}
+
+export type OrderItemBatchUpdateManyWithoutOrderItemNestedInput = {
+  create?: Prisma.XOR<Prisma.OrderItemBatchCreateWithoutOrderItemInput, Prisma.OrderItemBatchUncheckedCreateWithoutOrderItemInput> | Prisma.OrderItemBatchCreateWithoutOrderItemInput[] | Prisma.OrderItemBatchUncheckedCreateWithoutOrderItemInput[]
+  connectOrCreate?: Prisma.OrderItemBatchCreateOrConnectWithoutOrderItemInput | Prisma.OrderItemBatchCreateOrConnectWithoutOrderItemInput[]
+  upsert?: Prisma.OrderItemBatchUpsertWithWhereUniqueWithoutOrderItemInput | Prisma.OrderItemBatchUpsertWithWhereUniqueWithoutOrderItemInput[]
+  createMany?: Prisma.OrderItemBatchCreateManyOrderItemInputEnvelope
+  set?: Prisma.OrderItemBatchWhereUniqueInput | Prisma.OrderItemBatchWhereUniqueInput[]
+  disconnect?: Prisma.OrderItemBatchWhereUniqueInput | Prisma.OrderItemBatchWhereUniqueInput[]
+  delete?: Prisma.OrderItemBatchWhereUniqueInput | Prisma.OrderItemBatchWhereUniqueInput[]
+  connect?: Prisma.OrderItemBatchWhereUniqueInput | Prisma.OrderItemBatchWhereUniqueInput[]
+  update?: Prisma.OrderItemBatchUpdateWithWhereUniqueWithoutOrderItemInput | Prisma.OrderItemBatchUpdateWithWhereUniqueWithoutOrderItemInput[]
+  updateMany?: Prisma.OrderItemBatchUpdateManyWithWhereWithoutOrderItemInput | Prisma.OrderItemBatchUpdateManyWithWhereWithoutOrderItemInput[]
+  deleteMany?: Prisma.OrderItemBatchScalarWhereInput | Prisma.OrderItemBatchScalarWhereInput[]
+}
+
+export type OrderItemBatchUncheckedUpdateManyWithoutOrderItemNestedInput = {
+  create?: Prisma.XOR<Prisma.OrderItemBatchCreateWithoutOrderItemInput, Prisma.OrderItemBatchUncheckedCreateWithoutOrderItemInput> | Prisma.OrderItemBatchCreateWithoutOrderItemInput[] | Prisma.OrderItemBatchUncheckedCreateWithoutOrderItemInput[]
+  connectOrCreate?: Prisma.OrderItemBatchCreateOrConnectWithoutOrderItemInput | Prisma.OrderItemBatchCreateOrConnectWithoutOrderItemInput[]
+  upsert?: Prisma.OrderItemBatchUpsertWithWhereUniqueWithoutOrderItemInput | Prisma.OrderItemBatchUpsertWithWhereUniqueWithoutOrderItemInput[]
+  createMany?: Prisma.OrderItemBatchCreateManyOrderItemInputEnvelope
+  set?: Prisma.OrderItemBatchWhereUniqueInput | Prisma.OrderItemBatchWhereUniqueInput[]
+  disconnect?: Prisma.OrderItemBatchWhereUniqueInput | Prisma.OrderItemBatchWhereUniqueInput[]
+  delete?: Prisma.OrderItemBatchWhereUniqueInput | Prisma.OrderItemBatchWhereUniqueInput[]
+  connect?: Prisma.OrderItemBatchWhereUniqueInput | Prisma.OrderItemBatchWhereUniqueInput[]
+  update?: Prisma.OrderItemBatchUpdateWithWhereUniqueWithoutOrderItemInput | Prisma.OrderItemBatchUpdateWithWhereUniqueWithoutOrderItemInput[]
+  updateMany?: Prisma.OrderItemBatchUpdateManyWithWhereWithoutOrderItemInput | Prisma.OrderItemBatchUpdateManyWithWhereWithoutOrderItemInput[]
+  deleteMany?: Prisma.OrderItemBatchScalarWhereInput | Prisma.OrderItemBatchScalarWhereInput[]
+}
+
+export type OrderItemBatchCreateWithoutBatchInput = {
+  id?: string
+  quantity: number
+  createdAt?: Date | string
+  orderItem: Prisma.OrderItemCreateNestedOneWithoutBatchesInput
+}
+
+export type OrderItemBatchUncheckedCreateWithoutBatchInput = {
+  id?: string
+  orderItemId: string
+  quantity: number
+  createdAt?: Date | string
+}
+
+export type OrderItemBatchCreateOrConnectWithoutBatchInput = {
+  where: Prisma.OrderItemBatchWhereUniqueInput
+  create: Prisma.XOR<Prisma.OrderItemBatchCreateWithoutBatchInput, Prisma.OrderItemBatchUncheckedCreateWithoutBatchInput>
+}
+
+export type OrderItemBatchCreateManyBatchInputEnvelope = {
+  data: Prisma.OrderItemBatchCreateManyBatchInput | Prisma.OrderItemBatchCreateManyBatchInput[]
+  skipDuplicates?: boolean
+}
+
+export type OrderItemBatchUpsertWithWhereUniqueWithoutBatchInput = {
+  where: Prisma.OrderItemBatchWhereUniqueInput
+  update: Prisma.XOR<Prisma.OrderItemBatchUpdateWithoutBatchInput, Prisma.OrderItemBatchUncheckedUpdateWithoutBatchInput>
+  create: Prisma.XOR<Prisma.OrderItemBatchCreateWithoutBatchInput, Prisma.OrderItemBatchUncheckedCreateWithoutBatchInput>
+}
+
+export type OrderItemBatchUpdateWithWhereUniqueWithoutBatchInput = {
+  where: Prisma.OrderItemBatchWhereUniqueInput
+  data: Prisma.XOR<Prisma.OrderItemBatchUpdateWithoutBatchInput, Prisma.OrderItemBatchUncheckedUpdateWithoutBatchInput>
+}
+
+export type OrderItemBatchUpdateManyWithWhereWithoutBatchInput = {
+  where: Prisma.OrderItemBatchScalarWhereInput
+  data: Prisma.XOR<Prisma.OrderItemBatchUpdateManyMutationInput, Prisma.OrderItemBatchUncheckedUpdateManyWithoutBatchInput>
+}
+
+export type OrderItemBatchScalarWhereInput = {
+  AND?: Prisma.OrderItemBatchScalarWhereInput | Prisma.OrderItemBatchScalarWhereInput[]
+  OR?: Prisma.OrderItemBatchScalarWhereInput[]
+  NOT?: Prisma.OrderItemBatchScalarWhereInput | Prisma.OrderItemBatchScalarWhereInput[]
+  id?: Prisma.StringFilter<"OrderItemBatch"> | string
+  orderItemId?: Prisma.StringFilter<"OrderItemBatch"> | string
+  batchId?: Prisma.StringFilter<"OrderItemBatch"> | string
+  quantity?: Prisma.IntFilter<"OrderItemBatch"> | number
+  createdAt?: Prisma.DateTimeFilter<"OrderItemBatch"> | Date | string
+}
+
+export type OrderItemBatchCreateWithoutOrderItemInput = {
+  id?: string
+  quantity: number
+  createdAt?: Date | string
+  batch: Prisma.MedicineBatchCreateNestedOneWithoutAllocationsInput
+}
+
+export type OrderItemBatchUncheckedCreateWithoutOrderItemInput = {
+  id?: string
+  batchId: string
+  quantity: number
+  createdAt?: Date | string
+}
+
+export type OrderItemBatchCreateOrConnectWithoutOrderItemInput = {
+  where: Prisma.OrderItemBatchWhereUniqueInput
+  create: Prisma.XOR<Prisma.OrderItemBatchCreateWithoutOrderItemInput, Prisma.OrderItemBatchUncheckedCreateWithoutOrderItemInput>
+}
+
+export type OrderItemBatchCreateManyOrderItemInputEnvelope = {
+  data: Prisma.OrderItemBatchCreateManyOrderItemInput | Prisma.OrderItemBatchCreateManyOrderItemInput[]
+  skipDuplicates?: boolean
+}
+
+export type OrderItemBatchUpsertWithWhereUniqueWithoutOrderItemInput = {
+  where: Prisma.OrderItemBatchWhereUniqueInput
+  update: Prisma.XOR<Prisma.OrderItemBatchUpdateWithoutOrderItemInput, Prisma.OrderItemBatchUncheckedUpdateWithoutOrderItemInput>
+  create: Prisma.XOR<Prisma.OrderItemBatchCreateWithoutOrderItemInput, Prisma.OrderItemBatchUncheckedCreateWithoutOrderItemInput>
+}
+
+export type OrderItemBatchUpdateWithWhereUniqueWithoutOrderItemInput = {
+  where: Prisma.OrderItemBatchWhereUniqueInput
+  data: Prisma.XOR<Prisma.OrderItemBatchUpdateWithoutOrderItemInput, Prisma.OrderItemBatchUncheckedUpdateWithoutOrderItemInput>
+}
+
+export type OrderItemBatchUpdateManyWithWhereWithoutOrderItemInput = {
+  where: Prisma.OrderItemBatchScalarWhereInput
+  data: Prisma.XOR<Prisma.OrderItemBatchUpdateManyMutationInput, Prisma.OrderItemBatchUncheckedUpdateManyWithoutOrderItemInput>
+}
+
+export type OrderItemBatchCreateManyBatchInput = {
+  id?: string
+  orderItemId: string
+  quantity: number
+  createdAt?: Date | string
+}
+
+export type OrderItemBatchUpdateWithoutBatchInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  orderItem?: Prisma.OrderItemUpdateOneRequiredWithoutBatchesNestedInput
+}
+
+export type OrderItemBatchUncheckedUpdateWithoutBatchInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  orderItemId?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type OrderItemBatchUncheckedUpdateManyWithoutBatchInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  orderItemId?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type OrderItemBatchCreateManyOrderItemInput = {
+  id?: string
+  batchId: string
+  quantity: number
+  createdAt?: Date | string
+}
+
+export type OrderItemBatchUpdateWithoutOrderItemInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  batch?: Prisma.MedicineBatchUpdateOneRequiredWithoutAllocationsNestedInput
+}
+
+export type OrderItemBatchUncheckedUpdateWithoutOrderItemInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  batchId?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type OrderItemBatchUncheckedUpdateManyWithoutOrderItemInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  batchId?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type OrderItemBatchSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  orderItemId?: boolean
+  batchId?: boolean
+  quantity?: boolean
+  createdAt?: boolean
+  orderItem?: boolean | Prisma.OrderItemDefaultArgs<ExtArgs>
+  batch?: boolean | Prisma.MedicineBatchDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["orderItemBatch"]>
+
+export type OrderItemBatchSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  orderItemId?: boolean
+  batchId?: boolean
+  quantity?: boolean
+  createdAt?: boolean
+  orderItem?: boolean | Prisma.OrderItemDefaultArgs<ExtArgs>
+  batch?: boolean | Prisma.MedicineBatchDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["orderItemBatch"]>
+
+export type OrderItemBatchSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  orderItemId?: boolean
+  batchId?: boolean
+  quantity?: boolean
+  createdAt?: boolean
+  orderItem?: boolean | Prisma.OrderItemDefaultArgs<ExtArgs>
+  batch?: boolean | Prisma.MedicineBatchDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["orderItemBatch"]>
+
+export type OrderItemBatchSelectScalar = {
+  id?: boolean
+  orderItemId?: boolean
+  batchId?: boolean
+  quantity?: boolean
+  createdAt?: boolean
+}
+
+export type OrderItemBatchOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "orderItemId" | "batchId" | "quantity" | "createdAt", ExtArgs["result"]["orderItemBatch"]>
+export type OrderItemBatchInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  orderItem?: boolean | Prisma.OrderItemDefaultArgs<ExtArgs>
+  batch?: boolean | Prisma.MedicineBatchDefaultArgs<ExtArgs>
+}
+export type OrderItemBatchIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  orderItem?: boolean | Prisma.OrderItemDefaultArgs<ExtArgs>
+  batch?: boolean | Prisma.MedicineBatchDefaultArgs<ExtArgs>
+}
+export type OrderItemBatchIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  orderItem?: boolean | Prisma.OrderItemDefaultArgs<ExtArgs>
+  batch?: boolean | Prisma.MedicineBatchDefaultArgs<ExtArgs>
+}
+
+export type $OrderItemBatchPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "OrderItemBatch"
+  objects: {
+    orderItem: Prisma.$OrderItemPayload<ExtArgs>
+    batch: Prisma.$MedicineBatchPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    orderItemId: string
+    batchId: string
+    quantity: number
+    createdAt: Date
+  }, ExtArgs["result"]["orderItemBatch"]>
+  composites: {}
+}
+
+export type OrderItemBatchGetPayload<S extends boolean | null | undefined | OrderItemBatchDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$OrderItemBatchPayload, S>
+
+export type OrderItemBatchCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<OrderItemBatchFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: OrderItemBatchCountAggregateInputType | true
+  }
+
+export interface OrderItemBatchDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['OrderItemBatch'], meta: { name: 'OrderItemBatch' } }
+  /**
+   * Find zero or one OrderItemBatch that matches the filter.
+   * @param {OrderItemBatchFindUniqueArgs} args - Arguments to find a OrderItemBatch
+   * @example
+   * // Get one OrderItemBatch
+   * const orderItemBatch = await prisma.orderItemBatch.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends OrderItemBatchFindUniqueArgs>(args: Prisma.SelectSubset<T, OrderItemBatchFindUniqueArgs<ExtArgs>>): Prisma.Prisma__OrderItemBatchClient<runtime.Types.Result.GetResult<Prisma.$OrderItemBatchPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one OrderItemBatch that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {OrderItemBatchFindUniqueOrThrowArgs} args - Arguments to find a OrderItemBatch
+   * @example
+   * // Get one OrderItemBatch
+   * const orderItemBatch = await prisma.orderItemBatch.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends OrderItemBatchFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, OrderItemBatchFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__OrderItemBatchClient<runtime.Types.Result.GetResult<Prisma.$OrderItemBatchPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first OrderItemBatch that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {OrderItemBatchFindFirstArgs} args - Arguments to find a OrderItemBatch
+   * @example
+   * // Get one OrderItemBatch
+   * const orderItemBatch = await prisma.orderItemBatch.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends OrderItemBatchFindFirstArgs>(args?: Prisma.SelectSubset<T, OrderItemBatchFindFirstArgs<ExtArgs>>): Prisma.Prisma__OrderItemBatchClient<runtime.Types.Result.GetResult<Prisma.$OrderItemBatchPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first OrderItemBatch that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {OrderItemBatchFindFirstOrThrowArgs} args - Arguments to find a OrderItemBatch
+   * @example
+   * // Get one OrderItemBatch
+   * const orderItemBatch = await prisma.orderItemBatch.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends OrderItemBatchFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, OrderItemBatchFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__OrderItemBatchClient<runtime.Types.Result.GetResult<Prisma.$OrderItemBatchPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more OrderItemBatches that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {OrderItemBatchFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all OrderItemBatches
+   * const orderItemBatches = await prisma.orderItemBatch.findMany()
+   * 
+   * // Get first 10 OrderItemBatches
+   * const orderItemBatches = await prisma.orderItemBatch.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const orderItemBatchWithIdOnly = await prisma.orderItemBatch.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends OrderItemBatchFindManyArgs>(args?: Prisma.SelectSubset<T, OrderItemBatchFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$OrderItemBatchPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a OrderItemBatch.
+   * @param {OrderItemBatchCreateArgs} args - Arguments to create a OrderItemBatch.
+   * @example
+   * // Create one OrderItemBatch
+   * const OrderItemBatch = await prisma.orderItemBatch.create({
+   *   data: {
+   *     // ... data to create a OrderItemBatch
+   *   }
+   * })
+   * 
+   */
+  create<T extends OrderItemBatchCreateArgs>(args: Prisma.SelectSubset<T, OrderItemBatchCreateArgs<ExtArgs>>): Prisma.Prisma__OrderItemBatchClient<runtime.Types.Result.GetResult<Prisma.$OrderItemBatchPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many OrderItemBatches.
+   * @param {OrderItemBatchCreateManyArgs} args - Arguments to create many OrderItemBatches.
+   * @example
+   * // Create many OrderItemBatches
+   * const orderItemBatch = await prisma.orderItemBatch.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends OrderItemBatchCreateManyArgs>(args?: Prisma.SelectSubset<T, OrderItemBatchCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many OrderItemBatches and returns the data saved in the database.
+   * @param {OrderItemBatchCreateManyAndReturnArgs} args - Arguments to create many OrderItemBatches.
+   * @example
+   * // Create many OrderItemBatches
+   * const orderItemBatch = await prisma.orderItemBatch.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many OrderItemBatches and only return the `id`
+   * const orderItemBatchWithIdOnly = await prisma.orderItemBatch.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends OrderItemBatchCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, OrderItemBatchCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$OrderItemBatchPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a OrderItemBatch.
+   * @param {OrderItemBatchDeleteArgs} args - Arguments to delete one OrderItemBatch.
+   * @example
+   * // Delete one OrderItemBatch
+   * const OrderItemBatch = await prisma.orderItemBatch.delete({
+   *   where: {
+   *     // ... filter to delete one OrderItemBatch
+   *   }
+   * })
+   * 
+   */
+  delete<T extends OrderItemBatchDeleteArgs>(args: Prisma.SelectSubset<T, OrderItemBatchDeleteArgs<ExtArgs>>): Prisma.Prisma__OrderItemBatchClient<runtime.Types.Result.GetResult<Prisma.$OrderItemBatchPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one OrderItemBatch.
+   * @param {OrderItemBatchUpdateArgs} args - Arguments to update one OrderItemBatch.
+   * @example
+   * // Update one OrderItemBatch
+   * const orderItemBatch = await prisma.orderItemBatch.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends OrderItemBatchUpdateArgs>(args: Prisma.SelectSubset<T, OrderItemBatchUpdateArgs<ExtArgs>>): Prisma.Prisma__OrderItemBatchClient<runtime.Types.Result.GetResult<Prisma.$OrderItemBatchPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more OrderItemBatches.
+   * @param {OrderItemBatchDeleteManyArgs} args - Arguments to filter OrderItemBatches to delete.
+   * @example
+   * // Delete a few OrderItemBatches
+   * const { count } = await prisma.orderItemBatch.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends OrderItemBatchDeleteManyArgs>(args?: Prisma.SelectSubset<T, OrderItemBatchDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more OrderItemBatches.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {OrderItemBatchUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many OrderItemBatches
+   * const orderItemBatch = await prisma.orderItemBatch.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends OrderItemBatchUpdateManyArgs>(args: Prisma.SelectSubset<T, OrderItemBatchUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more OrderItemBatches and returns the data updated in the database.
+   * @param {OrderItemBatchUpdateManyAndReturnArgs} args - Arguments to update many OrderItemBatches.
+   * @example
+   * // Update many OrderItemBatches
+   * const orderItemBatch = await prisma.orderItemBatch.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more OrderItemBatches and only return the `id`
+   * const orderItemBatchWithIdOnly = await prisma.orderItemBatch.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends OrderItemBatchUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, OrderItemBatchUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$OrderItemBatchPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one OrderItemBatch.
+   * @param {OrderItemBatchUpsertArgs} args - Arguments to update or create a OrderItemBatch.
+   * @example
+   * // Update or create a OrderItemBatch
+   * const orderItemBatch = await prisma.orderItemBatch.upsert({
+   *   create: {
+   *     // ... data to create a OrderItemBatch
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the OrderItemBatch we want to update
+   *   }
+   * })
+   */
+  upsert<T extends OrderItemBatchUpsertArgs>(args: Prisma.SelectSubset<T, OrderItemBatchUpsertArgs<ExtArgs>>): Prisma.Prisma__OrderItemBatchClient<runtime.Types.Result.GetResult<Prisma.$OrderItemBatchPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of OrderItemBatches.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {OrderItemBatchCountArgs} args - Arguments to filter OrderItemBatches to count.
+   * @example
+   * // Count the number of OrderItemBatches
+   * const count = await prisma.orderItemBatch.count({
+   *   where: {
+   *     // ... the filter for the OrderItemBatches we want to count
+   *   }
+   * })
+  **/
+  count<T extends OrderItemBatchCountArgs>(
+    args?: Prisma.Subset<T, OrderItemBatchCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], OrderItemBatchCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a OrderItemBatch.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {OrderItemBatchAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends OrderItemBatchAggregateArgs>(args: Prisma.Subset<T, OrderItemBatchAggregateArgs>): Prisma.PrismaPromise<GetOrderItemBatchAggregateType<T>>
+
+  /**
+   * Group by OrderItemBatch.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {OrderItemBatchGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends OrderItemBatchGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: OrderItemBatchGroupByArgs['orderBy'] }
+      : { orderBy?: OrderItemBatchGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, OrderItemBatchGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetOrderItemBatchGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the OrderItemBatch model
+ */
+readonly fields: OrderItemBatchFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for OrderItemBatch.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__OrderItemBatchClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  orderItem<T extends Prisma.OrderItemDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.OrderItemDefaultArgs<ExtArgs>>): Prisma.Prisma__OrderItemClient<runtime.Types.Result.GetResult<Prisma.$OrderItemPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  batch<T extends Prisma.MedicineBatchDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.MedicineBatchDefaultArgs<ExtArgs>>): Prisma.Prisma__MedicineBatchClient<runtime.Types.Result.GetResult<Prisma.$MedicineBatchPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the OrderItemBatch model
+ */
+export interface OrderItemBatchFieldRefs {
+  readonly id: Prisma.FieldRef<"OrderItemBatch", 'String'>
+  readonly orderItemId: Prisma.FieldRef<"OrderItemBatch", 'String'>
+  readonly batchId: Prisma.FieldRef<"OrderItemBatch", 'String'>
+  readonly quantity: Prisma.FieldRef<"OrderItemBatch", 'Int'>
+  readonly createdAt: Prisma.FieldRef<"OrderItemBatch", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * OrderItemBatch findUnique
+ */
+export type OrderItemBatchFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OrderItemBatch
+   */
+  select?: Prisma.OrderItemBatchSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OrderItemBatch
+   */
+  omit?: Prisma.OrderItemBatchOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OrderItemBatchInclude<ExtArgs> | null
+  /**
+   * Filter, which OrderItemBatch to fetch.
+   */
+  where: Prisma.OrderItemBatchWhereUniqueInput
+}
+
+/**
+ * OrderItemBatch findUniqueOrThrow
+ */
+export type OrderItemBatchFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OrderItemBatch
+   */
+  select?: Prisma.OrderItemBatchSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OrderItemBatch
+   */
+  omit?: Prisma.OrderItemBatchOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OrderItemBatchInclude<ExtArgs> | null
+  /**
+   * Filter, which OrderItemBatch to fetch.
+   */
+  where: Prisma.OrderItemBatchWhereUniqueInput
+}
+
+/**
+ * OrderItemBatch findFirst
+ */
+export type OrderItemBatchFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OrderItemBatch
+   */
+  select?: Prisma.OrderItemBatchSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OrderItemBatch
+   */
+  omit?: Prisma.OrderItemBatchOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OrderItemBatchInclude<ExtArgs> | null
+  /**
+   * Filter, which OrderItemBatch to fetch.
+   */
+  where?: Prisma.OrderItemBatchWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of OrderItemBatches to fetch.
+   */
+  orderBy?: Prisma.OrderItemBatchOrderByWithRelationInput | Prisma.OrderItemBatchOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for OrderItemBatches.
+   */
+  cursor?: Prisma.OrderItemBatchWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` OrderItemBatches from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` OrderItemBatches.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of OrderItemBatches.
+   */
+  distinct?: Prisma.OrderItemBatchScalarFieldEnum | Prisma.OrderItemBatchScalarFieldEnum[]
+}
+
+/**
+ * OrderItemBatch findFirstOrThrow
+ */
+export type OrderItemBatchFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OrderItemBatch
+   */
+  select?: Prisma.OrderItemBatchSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OrderItemBatch
+   */
+  omit?: Prisma.OrderItemBatchOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OrderItemBatchInclude<ExtArgs> | null
+  /**
+   * Filter, which OrderItemBatch to fetch.
+   */
+  where?: Prisma.OrderItemBatchWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of OrderItemBatches to fetch.
+   */
+  orderBy?: Prisma.OrderItemBatchOrderByWithRelationInput | Prisma.OrderItemBatchOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for OrderItemBatches.
+   */
+  cursor?: Prisma.OrderItemBatchWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` OrderItemBatches from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` OrderItemBatches.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of OrderItemBatches.
+   */
+  distinct?: Prisma.OrderItemBatchScalarFieldEnum | Prisma.OrderItemBatchScalarFieldEnum[]
+}
+
+/**
+ * OrderItemBatch findMany
+ */
+export type OrderItemBatchFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OrderItemBatch
+   */
+  select?: Prisma.OrderItemBatchSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OrderItemBatch
+   */
+  omit?: Prisma.OrderItemBatchOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OrderItemBatchInclude<ExtArgs> | null
+  /**
+   * Filter, which OrderItemBatches to fetch.
+   */
+  where?: Prisma.OrderItemBatchWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of OrderItemBatches to fetch.
+   */
+  orderBy?: Prisma.OrderItemBatchOrderByWithRelationInput | Prisma.OrderItemBatchOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing OrderItemBatches.
+   */
+  cursor?: Prisma.OrderItemBatchWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` OrderItemBatches from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` OrderItemBatches.
+   */
+  skip?: number
+  distinct?: Prisma.OrderItemBatchScalarFieldEnum | Prisma.OrderItemBatchScalarFieldEnum[]
+}
+
+/**
+ * OrderItemBatch create
+ */
+export type OrderItemBatchCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OrderItemBatch
+   */
+  select?: Prisma.OrderItemBatchSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OrderItemBatch
+   */
+  omit?: Prisma.OrderItemBatchOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OrderItemBatchInclude<ExtArgs> | null
+  /**
+   * The data needed to create a OrderItemBatch.
+   */
+  data: Prisma.XOR<Prisma.OrderItemBatchCreateInput, Prisma.OrderItemBatchUncheckedCreateInput>
+}
+
+/**
+ * OrderItemBatch createMany
+ */
+export type OrderItemBatchCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many OrderItemBatches.
+   */
+  data: Prisma.OrderItemBatchCreateManyInput | Prisma.OrderItemBatchCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * OrderItemBatch createManyAndReturn
+ */
+export type OrderItemBatchCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OrderItemBatch
+   */
+  select?: Prisma.OrderItemBatchSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the OrderItemBatch
+   */
+  omit?: Prisma.OrderItemBatchOmit<ExtArgs> | null
+  /**
+   * The data used to create many OrderItemBatches.
+   */
+  data: Prisma.OrderItemBatchCreateManyInput | Prisma.OrderItemBatchCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OrderItemBatchIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * OrderItemBatch update
+ */
+export type OrderItemBatchUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OrderItemBatch
+   */
+  select?: Prisma.OrderItemBatchSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OrderItemBatch
+   */
+  omit?: Prisma.OrderItemBatchOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OrderItemBatchInclude<ExtArgs> | null
+  /**
+   * The data needed to update a OrderItemBatch.
+   */
+  data: Prisma.XOR<Prisma.OrderItemBatchUpdateInput, Prisma.OrderItemBatchUncheckedUpdateInput>
+  /**
+   * Choose, which OrderItemBatch to update.
+   */
+  where: Prisma.OrderItemBatchWhereUniqueInput
+}
+
+/**
+ * OrderItemBatch updateMany
+ */
+export type OrderItemBatchUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update OrderItemBatches.
+   */
+  data: Prisma.XOR<Prisma.OrderItemBatchUpdateManyMutationInput, Prisma.OrderItemBatchUncheckedUpdateManyInput>
+  /**
+   * Filter which OrderItemBatches to update
+   */
+  where?: Prisma.OrderItemBatchWhereInput
+  /**
+   * Limit how many OrderItemBatches to update.
+   */
+  limit?: number
+}
+
+/**
+ * OrderItemBatch updateManyAndReturn
+ */
+export type OrderItemBatchUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OrderItemBatch
+   */
+  select?: Prisma.OrderItemBatchSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the OrderItemBatch
+   */
+  omit?: Prisma.OrderItemBatchOmit<ExtArgs> | null
+  /**
+   * The data used to update OrderItemBatches.
+   */
+  data: Prisma.XOR<Prisma.OrderItemBatchUpdateManyMutationInput, Prisma.OrderItemBatchUncheckedUpdateManyInput>
+  /**
+   * Filter which OrderItemBatches to update
+   */
+  where?: Prisma.OrderItemBatchWhereInput
+  /**
+   * Limit how many OrderItemBatches to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OrderItemBatchIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * OrderItemBatch upsert
+ */
+export type OrderItemBatchUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OrderItemBatch
+   */
+  select?: Prisma.OrderItemBatchSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OrderItemBatch
+   */
+  omit?: Prisma.OrderItemBatchOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OrderItemBatchInclude<ExtArgs> | null
+  /**
+   * The filter to search for the OrderItemBatch to update in case it exists.
+   */
+  where: Prisma.OrderItemBatchWhereUniqueInput
+  /**
+   * In case the OrderItemBatch found by the `where` argument doesn't exist, create a new OrderItemBatch with this data.
+   */
+  create: Prisma.XOR<Prisma.OrderItemBatchCreateInput, Prisma.OrderItemBatchUncheckedCreateInput>
+  /**
+   * In case the OrderItemBatch was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.OrderItemBatchUpdateInput, Prisma.OrderItemBatchUncheckedUpdateInput>
+}
+
+/**
+ * OrderItemBatch delete
+ */
+export type OrderItemBatchDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OrderItemBatch
+   */
+  select?: Prisma.OrderItemBatchSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OrderItemBatch
+   */
+  omit?: Prisma.OrderItemBatchOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OrderItemBatchInclude<ExtArgs> | null
+  /**
+   * Filter which OrderItemBatch to delete.
+   */
+  where: Prisma.OrderItemBatchWhereUniqueInput
+}
+
+/**
+ * OrderItemBatch deleteMany
+ */
+export type OrderItemBatchDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which OrderItemBatches to delete
+   */
+  where?: Prisma.OrderItemBatchWhereInput
+  /**
+   * Limit how many OrderItemBatches to delete.
+   */
+  limit?: number
+}
+
+/**
+ * OrderItemBatch without action
+ */
+export type OrderItemBatchDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OrderItemBatch
+   */
+  select?: Prisma.OrderItemBatchSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OrderItemBatch
+   */
+  omit?: Prisma.OrderItemBatchOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OrderItemBatchInclude<ExtArgs> | null
+}
@@ -27,6 +27,9 @@ export type AggregateOrderStatusHistory = {
 export type OrderStatusHistoryMinAggregateOutputType = {
   id: string | null
   orderId: string | null
+  shipmentId: string | null
+  returnRequestId: string | null
+  returnStatus: $Enums.ReturnStatus | null
   status: $Enums.OrderStatus | null
   changedAt: Date | null
   changedBy: string | null
@@ -37,6 +40,9 @@ export type OrderStatusHistoryMinAggregateOutputType = {
 export type OrderStatusHistoryMaxAggregateOutputType = {
   id: string | null
   orderId: string | null
+  shipmentId: string | null
+  returnRequestId: string | null
+  returnStatus: $Enums.ReturnStatus | null
   status: $Enums.OrderStatus | null
   changedAt: Date | null
   changedBy: string | null
@@ -47,6 +53,9 @@ export type OrderStatusHistoryMaxAggregateOutputType = {
 export type OrderStatusHistoryCountAggregateOutputType = {
   id: number
   orderId: number
+  shipmentId: number
+  returnRequestId: number
+  returnStatus: number
   status: number
   changedAt: number
   changedBy: number
@@ -59,6 +68,9 @@ export type OrderStatusHistoryCountAggregateOutputType = {
 export type OrderStatusHistoryMinAggregateInputType = {
   id?: true
   orderId?: true
+  shipmentId?: true
+  returnRequestId?: true
+  returnStatus?: true
   status?: true
   changedAt?: true
   changedBy?: true
@@ -69,6 +81,9 @@ export type OrderStatusHistoryMinAggregateInputType = {
 export type OrderStatusHistoryMaxAggregateInputType = {
   id?: true
   orderId?: true
+  shipmentId?: true
+  returnRequestId?: true
+  returnStatus?: true
   status?: true
   changedAt?: true
   changedBy?: true
@@ -79,6 +94,9 @@ export type OrderStatusHistoryMaxAggregateInputType = {
 export type OrderStatusHistoryCountAggregateInputType = {
   id?: true
   orderId?: true
+  shipmentId?: true
+  returnRequestId?: true
+  returnStatus?: true
   status?: true
   changedAt?: true
   changedBy?: true
@@ -162,6 +180,9 @@ export type OrderStatusHistoryGroupByArgs<ExtArgs extends runtime.Types.Extensio
 export type OrderStatusHistoryGroupByOutputType = {
   id: string
   orderId: string
+  shipmentId: string | null
+  returnRequestId: string | null
+  returnStatus: $Enums.ReturnStatus | null
   status: $Enums.OrderStatus
   changedAt: Date
   changedBy: string | null
@@ -193,23 +214,33 @@ export type OrderStatusHistoryWhereInput = {
   NOT?: Prisma.OrderStatusHistoryWhereInput | Prisma.OrderStatusHistoryWhereInput[]
   id?: Prisma.StringFilter<"OrderStatusHistory"> | string
   orderId?: Prisma.StringFilter<"OrderStatusHistory"> | string
+  shipmentId?: Prisma.StringNullableFilter<"OrderStatusHistory"> | string | null
+  returnRequestId?: Prisma.StringNullableFilter<"OrderStatusHistory"> | string | null
+  returnStatus?: Prisma.EnumReturnStatusNullableFilter<"OrderStatusHistory"> | $Enums.ReturnStatus | null
   status?: Prisma.EnumOrderStatusFilter<"OrderStatusHistory"> | $Enums.OrderStatus
   changedAt?: Prisma.DateTimeFilter<"OrderStatusHistory"> | Date | string
   changedBy?: Prisma.StringNullableFilter<"OrderStatusHistory"> | string | null
   notes?: Prisma.StringNullableFilter<"OrderStatusHistory"> | string | null
   createdAt?: Prisma.DateTimeFilter<"OrderStatusHistory"> | Date | string
   order?: Prisma.XOR<Prisma.OrderScalarRelationFilter, Prisma.OrderWhereInput>
+  shipment?: Prisma.XOR<Prisma.ShipmentNullableScalarRelationFilter, Prisma.ShipmentWhereInput> | null
+  returnRequest?: Prisma.XOR<Prisma.ReturnRequestNullableScalarRelationFilter, Prisma.ReturnRequestWhereInput> | null
 }
 
 export type OrderStatusHistoryOrderByWithRelationInput = {
   id?: Prisma.SortOrder
   orderId?: Prisma.SortOrder
+  shipmentId?: Prisma.SortOrderInput | Prisma.SortOrder
+  returnRequestId?: Prisma.SortOrderInput | Prisma.SortOrder
+  returnStatus?: Prisma.SortOrderInput | Prisma.SortOrder
   status?: Prisma.SortOrder
   changedAt?: Prisma.SortOrder
   changedBy?: Prisma.SortOrderInput | Prisma.SortOrder
   notes?: Prisma.SortOrderInput | Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   order?: Prisma.OrderOrderByWithRelationInput
+  shipment?: Prisma.ShipmentOrderByWithRelationInput
+  returnRequest?: Prisma.ReturnRequestOrderByWithRelationInput
 }
 
 export type OrderStatusHistoryWhereUniqueInput = Prisma.AtLeast<{
@@ -218,17 +249,25 @@ export type OrderStatusHistoryWhereUniqueInput = Prisma.AtLeast<{
   OR?: Prisma.OrderStatusHistoryWhereInput[]
   NOT?: Prisma.OrderStatusHistoryWhereInput | Prisma.OrderStatusHistoryWhereInput[]
   orderId?: Prisma.StringFilter<"OrderStatusHistory"> | string
+  shipmentId?: Prisma.StringNullableFilter<"OrderStatusHistory"> | string | null
+  returnRequestId?: Prisma.StringNullableFilter<"OrderStatusHistory"> | string | null
+  returnStatus?: Prisma.EnumReturnStatusNullableFilter<"OrderStatusHistory"> | $Enums.ReturnStatus | null
   status?: Prisma.EnumOrderStatusFilter<"OrderStatusHistory"> | $Enums.OrderStatus
   changedAt?: Prisma.DateTimeFilter<"OrderStatusHistory"> | Date | string
   changedBy?: Prisma.StringNullableFilter<"OrderStatusHistory"> | string | null
   notes?: Prisma.StringNullableFilter<"OrderStatusHistory"> | string | null
   createdAt?: Prisma.DateTimeFilter<"OrderStatusHistory"> | Date | string
   order?: Prisma.XOR<Prisma.OrderScalarRelationFilter, Prisma.OrderWhereInput>
+  shipment?: Prisma.XOR<Prisma.ShipmentNullableScalarRelationFilter, Prisma.ShipmentWhereInput> | null
+  returnRequest?: Prisma.XOR<Prisma.ReturnRequestNullableScalarRelationFilter, Prisma.ReturnRequestWhereInput> | null
 }, "id">
 
 export type OrderStatusHistoryOrderByWithAggregationInput = {
   id?: Prisma.SortOrder
   orderId?: Prisma.SortOrder
+  shipmentId?: Prisma.SortOrderInput | Prisma.SortOrder
+  returnRequestId?: Prisma.SortOrderInput | Prisma.SortOrder
+  returnStatus?: Prisma.SortOrderInput | Prisma.SortOrder
   status?: Prisma.SortOrder
   changedAt?: Prisma.SortOrder
   changedBy?: Prisma.SortOrderInput | Prisma.SortOrder
@@ -245,6 +284,9 @@ export type OrderStatusHistoryScalarWhereWithAggregatesInput = {
   NOT?: Prisma.OrderStatusHistoryScalarWhereWithAggregatesInput | Prisma.OrderStatusHistoryScalarWhereWithAggregatesInput[]
   id?: Prisma.StringWithAggregatesFilter<"OrderStatusHistory"> | string
   orderId?: Prisma.StringWithAggregatesFilter<"OrderStatusHistory"> | string
+  shipmentId?: Prisma.StringNullableWithAggregatesFilter<"OrderStatusHistory"> | string | null
+  returnRequestId?: Prisma.StringNullableWithAggregatesFilter<"OrderStatusHistory"> | string | null
+  returnStatus?: Prisma.EnumReturnStatusNullableWithAggregatesFilter<"OrderStatusHistory"> | $Enums.ReturnStatus | null
   status?: Prisma.EnumOrderStatusWithAggregatesFilter<"OrderStatusHistory"> | $Enums.OrderStatus
   changedAt?: Prisma.DateTimeWithAggregatesFilter<"OrderStatusHistory"> | Date | string
   changedBy?: Prisma.StringNullableWithAggregatesFilter<"OrderStatusHistory"> | string | null
@@ -254,17 +296,23 @@ export type OrderStatusHistoryScalarWhereWithAggregatesInput = {
 
 export type OrderStatusHistoryCreateInput = {
   id?: string
+  returnStatus?: $Enums.ReturnStatus | null
   status: $Enums.OrderStatus
   changedAt?: Date | string
   changedBy?: string | null
   notes?: string | null
   createdAt?: Date | string
   order: Prisma.OrderCreateNestedOneWithoutStatusHistoryInput
+  shipment?: Prisma.ShipmentCreateNestedOneWithoutStatusHistoryInput
+  returnRequest?: Prisma.ReturnRequestCreateNestedOneWithoutStatusHistoryInput
 }
 
 export type OrderStatusHistoryUncheckedCreateInput = {
   id?: string
   orderId: string
+  shipmentId?: string | null
+  returnRequestId?: string | null
+  returnStatus?: $Enums.ReturnStatus | null
   status: $Enums.OrderStatus
   changedAt?: Date | string
   changedBy?: string | null
@@ -274,17 +322,23 @@ export type OrderStatusHistoryUncheckedCreateInput = {
 
 export type OrderStatusHistoryUpdateInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
+  returnStatus?: Prisma.NullableEnumReturnStatusFieldUpdateOperationsInput | $Enums.ReturnStatus | null
   status?: Prisma.EnumOrderStatusFieldUpdateOperationsInput | $Enums.OrderStatus
   changedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   changedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   order?: Prisma.OrderUpdateOneRequiredWithoutStatusHistoryNestedInput
+  shipment?: Prisma.ShipmentUpdateOneWithoutStatusHistoryNestedInput
+  returnRequest?: Prisma.ReturnRequestUpdateOneWithoutStatusHistoryNestedInput
 }
 
 export type OrderStatusHistoryUncheckedUpdateInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   orderId?: Prisma.StringFieldUpdateOperationsInput | string
+  shipmentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  returnRequestId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  returnStatus?: Prisma.NullableEnumReturnStatusFieldUpdateOperationsInput | $Enums.ReturnStatus | null
   status?: Prisma.EnumOrderStatusFieldUpdateOperationsInput | $Enums.OrderStatus
   changedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   changedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -295,6 +349,9 @@ export type OrderStatusHistoryUncheckedUpdateInput = {
 export type OrderStatusHistoryCreateManyInput = {
   id?: string
   orderId: string
+  shipmentId?: string | null
+  returnRequestId?: string | null
+  returnStatus?: $Enums.ReturnStatus | null
   status: $Enums.OrderStatus
   changedAt?: Date | string
   changedBy?: string | null
@@ -304,6 +361,7 @@ export type OrderStatusHistoryCreateManyInput = {
 
 export type OrderStatusHistoryUpdateManyMutationInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
+  returnStatus?: Prisma.NullableEnumReturnStatusFieldUpdateOperationsInput | $Enums.ReturnStatus | null
   status?: Prisma.EnumOrderStatusFieldUpdateOperationsInput | $Enums.OrderStatus
   changedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   changedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -314,6 +372,9 @@ export type OrderStatusHistoryUpdateManyMutationInput = {
 export type OrderStatusHistoryUncheckedUpdateManyInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   orderId?: Prisma.StringFieldUpdateOperationsInput | string
+  shipmentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  returnRequestId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  returnStatus?: Prisma.NullableEnumReturnStatusFieldUpdateOperationsInput | $Enums.ReturnStatus | null
   status?: Prisma.EnumOrderStatusFieldUpdateOperationsInput | $Enums.OrderStatus
   changedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   changedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -334,6 +395,9 @@ export type OrderStatusHistoryOrderByRelationAggregateInput = {
 export type OrderStatusHistoryCountOrderByAggregateInput = {
   id?: Prisma.SortOrder
   orderId?: Prisma.SortOrder
+  shipmentId?: Prisma.SortOrder
+  returnRequestId?: Prisma.SortOrder
+  returnStatus?: Prisma.SortOrder
   status?: Prisma.SortOrder
   changedAt?: Prisma.SortOrder
   changedBy?: Prisma.SortOrder
@@ -344,6 +408,9 @@ export type OrderStatusHistoryCountOrderByAggregateInput = {
 export type OrderStatusHistoryMaxOrderByAggregateInput = {
   id?: Prisma.SortOrder
   orderId?: Prisma.SortOrder
+  shipmentId?: Prisma.SortOrder
+  returnRequestId?: Prisma.SortOrder
+  returnStatus?: Prisma.SortOrder
   status?: Prisma.SortOrder
   changedAt?: Prisma.SortOrder
   changedBy?: Prisma.SortOrder
@@ -354,6 +421,9 @@ export type OrderStatusHistoryMaxOrderByAggregateInput = {
 export type OrderStatusHistoryMinOrderByAggregateInput = {
   id?: Prisma.SortOrder
   orderId?: Prisma.SortOrder
+  shipmentId?: Prisma.SortOrder
+  returnRequestId?: Prisma.SortOrder
+  returnStatus?: Prisma.SortOrder
   status?: Prisma.SortOrder
   changedAt?: Prisma.SortOrder
   changedBy?: Prisma.SortOrder
@@ -403,17 +473,111 @@ export type OrderStatusHistoryUncheckedUpdateManyWithoutOrderNestedInput = {
   deleteMany?: Prisma.OrderStatusHistoryScalarWhereInput | Prisma.OrderStatusHistoryScalarWhereInput[]
 }
 
+export type OrderStatusHistoryCreateNestedManyWithoutShipmentInput = {
+  create?: Prisma.XOR<Prisma.OrderStatusHistoryCreateWithoutShipmentInput, Prisma.OrderStatusHistoryUncheckedCreateWithoutShipmentInput> | Prisma.OrderStatusHistoryCreateWithoutShipmentInput[] | Prisma.OrderStatusHistoryUncheckedCreateWithoutShipmentInput[]
+  connectOrCreate?: Prisma.OrderStatusHistoryCreateOrConnectWithoutShipmentInput | Prisma.OrderStatusHistoryCreateOrConnectWithoutShipmentInput[]
+  createMany?: Prisma.OrderStatusHistoryCreateManyShipmentInputEnvelope
+  connect?: Prisma.OrderStatusHistoryWhereUniqueInput | Prisma.OrderStatusHistoryWhereUniqueInput[]
+}
+
+export type OrderStatusHistoryUncheckedCreateNestedManyWithoutShipmentInput = {
+  create?: Prisma.XOR<Prisma.OrderStatusHistoryCreateWithoutShipmentInput, Prisma.OrderStatusHistoryUncheckedCreateWithoutShipmentInput> | Prisma.OrderStatusHistoryCreateWithoutShipmentInput[] | Prisma.OrderStatusHistoryUncheckedCreateWithoutShipmentInput[]
+  connectOrCreate?: Prisma.OrderStatusHistoryCreateOrConnectWithoutShipmentInput | Prisma.OrderStatusHistoryCreateOrConnectWithoutShipmentInput[]
+  createMany?: Prisma.OrderStatusHistoryCreateManyShipmentInputEnvelope
+  connect?: Prisma.OrderStatusHistoryWhereUniqueInput | Prisma.OrderStatusHistoryWhereUniqueInput[]
+}
+
+export type OrderStatusHistoryUpdateManyWithoutShipmentNestedInput = {
+  create?: Prisma.XOR<Prisma.OrderStatusHistoryCreateWithoutShipmentInput, Prisma.OrderStatusHistoryUncheckedCreateWithoutShipmentInput> | Prisma.OrderStatusHistoryCreateWithoutShipmentInput[] | Prisma.OrderStatusHistoryUncheckedCreateWithoutShipmentInput[]
+  connectOrCreate?: Prisma.OrderStatusHistoryCreateOrConnectWithoutShipmentInput | Prisma.OrderStatusHistoryCreateOrConnectWithoutShipmentInput[]
+  upsert?: Prisma.OrderStatusHistoryUpsertWithWhereUniqueWithoutShipmentInput | Prisma.OrderStatusHistoryUpsertWithWhereUniqueWithoutShipmentInput[]
+  createMany?: Prisma.OrderStatusHistoryCreateManyShipmentInputEnvelope
+  set?: Prisma.OrderStatusHistoryWhereUniqueInput | Prisma.OrderStatusHistoryWhereUniqueInput[]
+  disconnect?: Prisma.OrderStatusHistoryWhereUniqueInput | Prisma.OrderStatusHistoryWhereUniqueInput[]
+  delete?: Prisma.OrderStatusHistoryWhereUniqueInput | Prisma.OrderStatusHistoryWhereUniqueInput[]
+  connect?: Prisma.OrderStatusHistoryWhereUniqueInput | Prisma.OrderStatusHistoryWhereUniqueInput[]
+  update?: Prisma.OrderStatusHistoryUpdateWithWhereUniqueWithoutShipmentInput | Prisma.OrderStatusHistoryUpdateWithWhereUniqueWithoutShipmentInput[]
+  updateMany?: Prisma.OrderStatusHistoryUpdateManyWithWhereWithoutShipmentInput | Prisma.OrderStatusHistoryUpdateManyWithWhereWithoutShipmentInput[]
+  deleteMany?: Prisma.OrderStatusHistoryScalarWhereInput | Prisma.OrderStatusHistoryScalarWhereInput[]
+}
+
+export type OrderStatusHistoryUncheckedUpdateManyWithoutShipmentNestedInput = {
+  create?: Prisma.XOR<Prisma.OrderStatusHistoryCreateWithoutShipmentInput, Prisma.OrderStatusHistoryUncheckedCreateWithoutShipmentInput> | Prisma.OrderStatusHistoryCreateWithoutShipmentInput[] | Prisma.OrderStatusHistoryUncheckedCreateWithoutShipmentInput[]
+  connectOrCreate?: Prisma.OrderStatusHistoryCreateOrConnectWithoutShipmentInput | Prisma.OrderStatusHistoryCreateOrConnectWithoutShipmentInput[]
+  upsert?: Prisma.OrderStatusHistoryUpsertWithWhereUniqueWithoutShipmentInput | Prisma.OrderStatusHistoryUpsertWithWhereUniqueWithoutShipmentInput[]
+  createMany?: Prisma.OrderStatusHistoryCreateManyShipmentInputEnvelope
+  set?: Prisma.OrderStatusHistoryWhereUniqueInput | Prisma.OrderStatusHistoryWhereUniqueInput[]
+  disconnect?: Prisma.OrderStatusHistoryWhereUniqueInput | Prisma.OrderStatusHistoryWhereUniqueInput[]
+  delete?: Prisma.OrderStatusHistoryWhereUniqueInput | Prisma.OrderStatusHistoryWhereUniqueInput[]
+  connect?: Prisma.OrderStatusHistoryWhereUniqueInput | Prisma.OrderStatusHistoryWhereUniqueInput[]
+  update?: Prisma.OrderStatusHistoryUpdateWithWhereUniqueWithoutShipmentInput | Prisma.OrderStatusHistoryUpdateWithWhereUniqueWithoutShipmentInput[]
+  updateMany?: Prisma.OrderStatusHistoryUpdateManyWithWhereWithoutShipmentInput | Prisma.OrderStatusHistoryUpdateManyWithWhereWithoutShipmentInput[]
+  deleteMany?: Prisma.OrderStatusHistoryScalarWhereInput | Prisma.OrderStatusHistoryScalarWhereInput[]
+}
+
+export type NullableEnumReturnStatusFieldUpdateOperationsInput = {
+  set?: $Enums.ReturnStatus | null
+}
+
+export type OrderStatusHistoryCreateNestedManyWithoutReturnRequestInput = {
+  create?: Prisma.XOR<Prisma.OrderStatusHistoryCreateWithoutReturnRequestInput, Prisma.OrderStatusHistoryUncheckedCreateWithoutReturnRequestInput> | Prisma.OrderStatusHistoryCreateWithoutReturnRequestInput[] | Prisma.OrderStatusHistoryUncheckedCreateWithoutReturnRequestInput[]
+  connectOrCreate?: Prisma.OrderStatusHistoryCreateOrConnectWithoutReturnRequestInput | Prisma.OrderStatusHistoryCreateOrConnectWithoutReturnRequestInput[]
+  createMany?: Prisma.OrderStatusHistoryCreateManyReturnRequestInputEnvelope
+  connect?: Prisma.OrderStatusHistoryWhereUniqueInput | Prisma.OrderStatusHistoryWhereUniqueInput[]
+}
+
+export type OrderStatusHistoryUncheckedCreateNestedManyWithoutReturnRequestInput = {
+  create?: Prisma.XOR<Prisma.OrderStatusHistoryCreateWithoutReturnRequestInput, Prisma.OrderStatusHistoryUncheckedCreateWithoutReturnRequestInput> | Prisma.OrderStatusHistoryCreateWithoutReturnRequestInput[] | Prisma.OrderStatusHistoryUncheckedCreateWithoutReturnRequestInput[]
+  connectOrCreate?: Prisma.OrderStatusHistoryCreateOrConnectWithoutReturnRequestInput | Prisma.OrderStatusHistoryCreateOrConnectWithoutReturnRequestInput[]
+  createMany?: Prisma.OrderStatusHistoryCreateManyReturnRequestInputEnvelope
+  connect?: Prisma.OrderStatusHistoryWhereUniqueInput | Prisma.OrderStatusHistoryWhereUniqueInput[]
+}
+
+export type OrderStatusHistoryUpdateManyWithoutReturnRequestNestedInput = {
+  create?: Prisma.XOR<Prisma.OrderStatusHistoryCreateWithoutReturnRequestInput, Prisma.OrderStatusHistoryUncheckedCreateWithoutReturnRequestInput> | Prisma.OrderStatusHistoryCreateWithoutReturnRequestInput[] | Prisma.OrderStatusHistoryUncheckedCreateWithoutReturnRequestInput[]
+  connectOrCreate?: Prisma.OrderStatusHistoryCreateOrConnectWithoutReturnRequestInput | Prisma.OrderStatusHistoryCreateOrConnectWithoutReturnRequestInput[]
+  upsert?: Prisma.OrderStatusHistoryUpsertWithWhereUniqueWithoutReturnRequestInput | Prisma.OrderStatusHistoryUpsertWithWhereUniqueWithoutReturnRequestInput[]
+  createMany?: Prisma.OrderStatusHistoryCreateManyReturnRequestInputEnvelope
+  set?: Prisma.OrderStatusHistoryWhereUniqueInput | Prisma.OrderStatusHistoryWhereUniqueInput[]
+  disconnect?: Prisma.OrderStatusHistoryWhereUniqueInput | Prisma.OrderStatusHistoryWhereUniqueInput[]
+  delete?: Prisma.OrderStatusHistoryWhereUniqueInput | Prisma.OrderStatusHistoryWhereUniqueInput[]
+  connect?: Prisma.OrderStatusHistoryWhereUniqueInput | Prisma.OrderStatusHistoryWhereUniqueInput[]
+  update?: Prisma.OrderStatusHistoryUpdateWithWhereUniqueWithoutReturnRequestInput | Prisma.OrderStatusHistoryUpdateWithWhereUniqueWithoutReturnRequestInput[]
+  updateMany?: Prisma.OrderStatusHistoryUpdateManyWithWhereWithoutReturnRequestInput | Prisma.OrderStatusHistoryUpdateManyWithWhereWithoutReturnRequestInput[]
+  deleteMany?: Prisma.OrderStatusHistoryScalarWhereInput | Prisma.OrderStatusHistoryScalarWhereInput[]
+}
+
+export type OrderStatusHistoryUncheckedUpdateManyWithoutReturnRequestNestedInput = {
+  create?: Prisma.XOR<Prisma.OrderStatusHistoryCreateWithoutReturnRequestInput, Prisma.OrderStatusHistoryUncheckedCreateWithoutReturnRequestInput> | Prisma.OrderStatusHistoryCreateWithoutReturnRequestInput[] | Prisma.OrderStatusHistoryUncheckedCreateWithoutReturnRequestInput[]
+  connectOrCreate?: Prisma.OrderStatusHistoryCreateOrConnectWithoutReturnRequestInput | Prisma.OrderStatusHistoryCreateOrConnectWithoutReturnRequestInput[]
+  upsert?: Prisma.OrderStatusHistoryUpsertWithWhereUniqueWithoutReturnRequestInput | Prisma.OrderStatusHistoryUpsertWithWhereUniqueWithoutReturnRequestInput[]
+  createMany?: Prisma.OrderStatusHistoryCreateManyReturnRequestInputEnvelope
+  set?: Prisma.OrderStatusHistoryWhereUniqueInput | Prisma.OrderStatusHistoryWhereUniqueInput[]
+  disconnect?: Prisma.OrderStatusHistoryWhereUniqueInput | Prisma.OrderStatusHistoryWhereUniqueInput[]
+  delete?: Prisma.OrderStatusHistoryWhereUniqueInput | Prisma.OrderStatusHistoryWhereUniqueInput[]
+  connect?: Prisma.OrderStatusHistoryWhereUniqueInput | Prisma.OrderStatusHistoryWhereUniqueInput[]
+  update?: Prisma.OrderStatusHistoryUpdateWithWhereUniqueWithoutReturnRequestInput | Prisma.OrderStatusHistoryUpdateWithWhereUniqueWithoutReturnRequestInput[]
+  updateMany?: Prisma.OrderStatusHistoryUpdateManyWithWhereWithoutReturnRequestInput | Prisma.OrderStatusHistoryUpdateManyWithWhereWithoutReturnRequestInput[]
+  deleteMany?: Prisma.OrderStatusHistoryScalarWhereInput | Prisma.OrderStatusHistoryScalarWhereInput[]
+}
+
 export type OrderStatusHistoryCreateWithoutOrderInput = {
   id?: string
+  returnStatus?: $Enums.ReturnStatus | null
   status: $Enums.OrderStatus
   changedAt?: Date | string
   changedBy?: string | null
   notes?: string | null
   createdAt?: Date | string
+  shipment?: Prisma.ShipmentCreateNestedOneWithoutStatusHistoryInput
+  returnRequest?: Prisma.ReturnRequestCreateNestedOneWithoutStatusHistoryInput
 }
 
 export type OrderStatusHistoryUncheckedCreateWithoutOrderInput = {
   id?: string
+  shipmentId?: string | null
+  returnRequestId?: string | null
+  returnStatus?: $Enums.ReturnStatus | null
   status: $Enums.OrderStatus
   changedAt?: Date | string
   changedBy?: string | null
@@ -453,6 +617,9 @@ export type OrderStatusHistoryScalarWhereInput = {
   NOT?: Prisma.OrderStatusHistoryScalarWhereInput | Prisma.OrderStatusHistoryScalarWhereInput[]
   id?: Prisma.StringFilter<"OrderStatusHistory"> | string
   orderId?: Prisma.StringFilter<"OrderStatusHistory"> | string
+  shipmentId?: Prisma.StringNullableFilter<"OrderStatusHistory"> | string | null
+  returnRequestId?: Prisma.StringNullableFilter<"OrderStatusHistory"> | string | null
+  returnStatus?: Prisma.EnumReturnStatusNullableFilter<"OrderStatusHistory"> | $Enums.ReturnStatus | null
   status?: Prisma.EnumOrderStatusFilter<"OrderStatusHistory"> | $Enums.OrderStatus
   changedAt?: Prisma.DateTimeFilter<"OrderStatusHistory"> | Date | string
   changedBy?: Prisma.StringNullableFilter<"OrderStatusHistory"> | string | null
@@ -460,8 +627,111 @@ export type OrderStatusHistoryScalarWhereInput = {
   createdAt?: Prisma.DateTimeFilter<"OrderStatusHistory"> | Date | string
 }
 
+export type OrderStatusHistoryCreateWithoutShipmentInput = {
+  id?: string
+  returnStatus?: $Enums.ReturnStatus | null
+  status: $Enums.OrderStatus
+  changedAt?: Date | string
+  changedBy?: string | null
+  notes?: string | null
+  createdAt?: Date | string
+  order: Prisma.OrderCreateNestedOneWithoutStatusHistoryInput
+  returnRequest?: Prisma.ReturnRequestCreateNestedOneWithoutStatusHistoryInput
+}
+
+export type OrderStatusHistoryUncheckedCreateWithoutShipmentInput = {
+  id?: string
+  orderId: string
+  returnRequestId?: string | null
+  returnStatus?: $Enums.ReturnStatus | null
+  status: $Enums.OrderStatus
+  changedAt?: Date | string
+  changedBy?: string | null
+  notes?: string | null
+  createdAt?: Date | string
+}
+
+export type OrderStatusHistoryCreateOrConnectWithoutShipmentInput = {
+  where: Prisma.OrderStatusHistoryWhereUniqueInput
+  create: Prisma.XOR<Prisma.OrderStatusHistoryCreateWithoutShipmentInput, Prisma.OrderStatusHistoryUncheckedCreateWithoutShipmentInput>
+}
+
+export type OrderStatusHistoryCreateManyShipmentInputEnvelope = {
+  data: Prisma.OrderStatusHistoryCreateManyShipmentInput | Prisma.OrderStatusHistoryCreateManyShipmentInput[]
+  skipDuplicates?: boolean
+}
+
+export type OrderStatusHistoryUpsertWithWhereUniqueWithoutShipmentInput = {
+  where: Prisma.OrderStatusHistoryWhereUniqueInput
+  update: Prisma.XOR<Prisma.OrderStatusHistoryUpdateWithoutShipmentInput, Prisma.OrderStatusHistoryUncheckedUpdateWithoutShipmentInput>
+  create: Prisma.XOR<Prisma.OrderStatusHistoryCreateWithoutShipmentInput, Prisma.OrderStatusHistoryUncheckedCreateWithoutShipmentInput>
+}
+
+export type OrderStatusHistoryUpdateWithWhereUniqueWithoutShipmentInput = {
+  where: Prisma.OrderStatusHistoryWhereUniqueInput
+  data: Prisma.XOR<Prisma.OrderStatusHistoryUpdateWithoutShipmentInput, Prisma.OrderStatusHistoryUncheckedUpdateWithoutShipmentInput>
+}
+
+export type OrderStatusHistoryUpdateManyWithWhereWithoutShipmentInput = {
+  where: Prisma.OrderStatusHistoryScalarWhereInput
+  data: Prisma.XOR<Prisma.OrderStatusHistoryUpdateManyMutationInput, Prisma.OrderStatusHistoryUncheckedUpdateManyWithoutShipmentInput>
+}
+
+export type OrderStatusHistoryCreateWithoutReturnRequestInput = {
+  id?: string
+  returnStatus?: $Enums.ReturnStatus | null
+  status: $Enums.OrderStatus
+  changedAt?: Date | string
+  changedBy?: string | null
+  notes?: string | null
+  createdAt?: Date | string
+  order: Prisma.OrderCreateNestedOneWithoutStatusHistoryInput
+  shipment?: Prisma.ShipmentCreateNestedOneWithoutStatusHistoryInput
+}
+
+export type OrderStatusHistoryUncheckedCreateWithoutReturnRequestInput = {
+  id?: string
+  orderId: string
+  shipmentId?: string | null
+  returnStatus?: $Enums.ReturnStatus | null
+  status: $Enums.OrderStatus
+  changedAt?: Date | string
+  changedBy?: string | null
+  notes?: string | null
+  createdAt?: Date | string
+}
+
+export type OrderStatusHistoryCreateOrConnectWithoutReturnRequestInput = {
+  where: Prisma.OrderStatusHistoryWhereUniqueInput
+  create: Prisma.XOR<Prisma.OrderStatusHistoryCreateWithoutReturnRequestInput, Prisma.OrderStatusHistoryUncheckedCreateWithoutReturnRequestInput>
+}
+
+export type OrderStatusHistoryCreateManyReturnRequestInputEnvelope = {
+  data: Prisma.OrderStatusHistoryCreateManyReturnRequestInput | Prisma.OrderStatusHistoryCreateManyReturnRequestInput[]
+  skipDuplicates?: boolean
+}
+
+export type OrderStatusHistoryUpsertWithWhereUniqueWithoutReturnRequestInput = {
+  where: Prisma.OrderStatusHistoryWhereUniqueInput
+  update: Prisma.XOR<Prisma.OrderStatusHistoryUpdateWithoutReturnRequestInput, Prisma.OrderStatusHistoryUncheckedUpdateWithoutReturnRequestInput>
+  create: Prisma.XOR<Prisma.OrderStatusHistoryCreateWithoutReturnRequestInput, Prisma.OrderStatusHistoryUncheckedCreateWithoutReturnRequestInput>
+}
+
+export type OrderStatusHistoryUpdateWithWhereUniqueWithoutReturnRequestInput = {
+  where: Prisma.OrderStatusHistoryWhereUniqueInput
+  data: Prisma.XOR<Prisma.OrderStatusHistoryUpdateWithoutReturnRequestInput, Prisma.OrderStatusHistoryUncheckedUpdateWithoutReturnRequestInput>
+}
+
+export type OrderStatusHistoryUpdateManyWithWhereWithoutReturnRequestInput = {
+  where: Prisma.OrderStatusHistoryScalarWhereInput
+  data: Prisma.XOR<Prisma.OrderStatusHistoryUpdateManyMutationInput, Prisma.OrderStatusHistoryUncheckedUpdateManyWithoutReturnRequestInput>
+}
+
 export type OrderStatusHistoryCreateManyOrderInput = {
   id?: string
+  shipmentId?: string | null
+  returnRequestId?: string | null
+  returnStatus?: $Enums.ReturnStatus | null
   status: $Enums.OrderStatus
   changedAt?: Date | string
   changedBy?: string | null
@@ -471,15 +741,21 @@ export type OrderStatusHistoryCreateManyOrderInput = {
 
 export type OrderStatusHistoryUpdateWithoutOrderInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
+  returnStatus?: Prisma.NullableEnumReturnStatusFieldUpdateOperationsInput | $Enums.ReturnStatus | null
   status?: Prisma.EnumOrderStatusFieldUpdateOperationsInput | $Enums.OrderStatus
   changedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   changedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  shipment?: Prisma.ShipmentUpdateOneWithoutStatusHistoryNestedInput
+  returnRequest?: Prisma.ReturnRequestUpdateOneWithoutStatusHistoryNestedInput
 }
 
 export type OrderStatusHistoryUncheckedUpdateWithoutOrderInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
+  shipmentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  returnRequestId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  returnStatus?: Prisma.NullableEnumReturnStatusFieldUpdateOperationsInput | $Enums.ReturnStatus | null
   status?: Prisma.EnumOrderStatusFieldUpdateOperationsInput | $Enums.OrderStatus
   changedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   changedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -489,6 +765,105 @@ export type OrderStatusHistoryUncheckedUpdateWithoutOrderInput = {
 
 export type OrderStatusHistoryUncheckedUpdateManyWithoutOrderInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
+  shipmentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  returnRequestId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  returnStatus?: Prisma.NullableEnumReturnStatusFieldUpdateOperationsInput | $Enums.ReturnStatus | null
+  status?: Prisma.EnumOrderStatusFieldUpdateOperationsInput | $Enums.OrderStatus
+  changedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  changedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type OrderStatusHistoryCreateManyShipmentInput = {
+  id?: string
+  orderId: string
+  returnRequestId?: string | null
+  returnStatus?: $Enums.ReturnStatus | null
+  status: $Enums.OrderStatus
+  changedAt?: Date | string
+  changedBy?: string | null
+  notes?: string | null
+  createdAt?: Date | string
+}
+
+export type OrderStatusHistoryUpdateWithoutShipmentInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  returnStatus?: Prisma.NullableEnumReturnStatusFieldUpdateOperationsInput | $Enums.ReturnStatus | null
+  status?: Prisma.EnumOrderStatusFieldUpdateOperationsInput | $Enums.OrderStatus
+  changedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  changedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  order?: Prisma.OrderUpdateOneRequiredWithoutStatusHistoryNestedInput
+  returnRequest?: Prisma.ReturnRequestUpdateOneWithoutStatusHistoryNestedInput
+}
+
+export type OrderStatusHistoryUncheckedUpdateWithoutShipmentInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  orderId?: Prisma.StringFieldUpdateOperationsInput | string
+  returnRequestId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  returnStatus?: Prisma.NullableEnumReturnStatusFieldUpdateOperationsInput | $Enums.ReturnStatus | null
+  status?: Prisma.EnumOrderStatusFieldUpdateOperationsInput | $Enums.OrderStatus
+  changedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  changedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type OrderStatusHistoryUncheckedUpdateManyWithoutShipmentInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  orderId?: Prisma.StringFieldUpdateOperationsInput | string
+  returnRequestId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  returnStatus?: Prisma.NullableEnumReturnStatusFieldUpdateOperationsInput | $Enums.ReturnStatus | null
+  status?: Prisma.EnumOrderStatusFieldUpdateOperationsInput | $Enums.OrderStatus
+  changedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  changedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type OrderStatusHistoryCreateManyReturnRequestInput = {
+  id?: string
+  orderId: string
+  shipmentId?: string | null
+  returnStatus?: $Enums.ReturnStatus | null
+  status: $Enums.OrderStatus
+  changedAt?: Date | string
+  changedBy?: string | null
+  notes?: string | null
+  createdAt?: Date | string
+}
+
+export type OrderStatusHistoryUpdateWithoutReturnRequestInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  returnStatus?: Prisma.NullableEnumReturnStatusFieldUpdateOperationsInput | $Enums.ReturnStatus | null
+  status?: Prisma.EnumOrderStatusFieldUpdateOperationsInput | $Enums.OrderStatus
+  changedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  changedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  order?: Prisma.OrderUpdateOneRequiredWithoutStatusHistoryNestedInput
+  shipment?: Prisma.ShipmentUpdateOneWithoutStatusHistoryNestedInput
+}
+
+export type OrderStatusHistoryUncheckedUpdateWithoutReturnRequestInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  orderId?: Prisma.StringFieldUpdateOperationsInput | string
+  shipmentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  returnStatus?: Prisma.NullableEnumReturnStatusFieldUpdateOperationsInput | $Enums.ReturnStatus | null
+  status?: Prisma.EnumOrderStatusFieldUpdateOperationsInput | $Enums.OrderStatus
+  changedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  changedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type OrderStatusHistoryUncheckedUpdateManyWithoutReturnRequestInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  orderId?: Prisma.StringFieldUpdateOperationsInput | string
+  shipmentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  returnStatus?: Prisma.NullableEnumReturnStatusFieldUpdateOperationsInput | $Enums.ReturnStatus | null
   status?: Prisma.EnumOrderStatusFieldUpdateOperationsInput | $Enums.OrderStatus
   changedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   changedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -501,39 +876,57 @@ export type OrderStatusHistoryUncheckedUpdateManyWithoutOrderInput = {
 export type OrderStatusHistorySelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
   orderId?: boolean
+  shipmentId?: boolean
+  returnRequestId?: boolean
+  returnStatus?: boolean
   status?: boolean
   changedAt?: boolean
   changedBy?: boolean
   notes?: boolean
   createdAt?: boolean
   order?: boolean | Prisma.OrderDefaultArgs<ExtArgs>
+  shipment?: boolean | Prisma.OrderStatusHistory$shipmentArgs<ExtArgs>
+  returnRequest?: boolean | Prisma.OrderStatusHistory$returnRequestArgs<ExtArgs>
 }, ExtArgs["result"]["orderStatusHistory"]>
 
 export type OrderStatusHistorySelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
   orderId?: boolean
+  shipmentId?: boolean
+  returnRequestId?: boolean
+  returnStatus?: boolean
   status?: boolean
   changedAt?: boolean
   changedBy?: boolean
   notes?: boolean
   createdAt?: boolean
   order?: boolean | Prisma.OrderDefaultArgs<ExtArgs>
+  shipment?: boolean | Prisma.OrderStatusHistory$shipmentArgs<ExtArgs>
+  returnRequest?: boolean | Prisma.OrderStatusHistory$returnRequestArgs<ExtArgs>
 }, ExtArgs["result"]["orderStatusHistory"]>
 
 export type OrderStatusHistorySelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
   orderId?: boolean
+  shipmentId?: boolean
+  returnRequestId?: boolean
+  returnStatus?: boolean
   status?: boolean
   changedAt?: boolean
   changedBy?: boolean
   notes?: boolean
   createdAt?: boolean
   order?: boolean | Prisma.OrderDefaultArgs<ExtArgs>
+  shipment?: boolean | Prisma.OrderStatusHistory$shipmentArgs<ExtArgs>
+  returnRequest?: boolean | Prisma.OrderStatusHistory$returnRequestArgs<ExtArgs>
 }, ExtArgs["result"]["orderStatusHistory"]>
 
 export type OrderStatusHistorySelectScalar = {
   id?: boolean
   orderId?: boolean
+  shipmentId?: boolean
+  returnRequestId?: boolean
+  returnStatus?: boolean
   status?: boolean
   changedAt?: boolean
   changedBy?: boolean
@@ -541,25 +934,36 @@ export type OrderStatusHistorySelectScalar = {
   createdAt?: boolean
 }
 
-export type OrderStatusHistoryOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "orderId" | "status" | "changedAt" | "changedBy" | "notes" | "createdAt", ExtArgs["result"]["orderStatusHistory"]>
+export type OrderStatusHistoryOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "orderId" | "shipmentId" | "returnRequestId" | "returnStatus" | "status" | "changedAt" | "changedBy" | "notes" | "createdAt", ExtArgs["result"]["orderStatusHistory"]>
 export type OrderStatusHistoryInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   order?: boolean | Prisma.OrderDefaultArgs<ExtArgs>
+  shipment?: boolean | Prisma.OrderStatusHistory$shipmentArgs<ExtArgs>
+  returnRequest?: boolean | Prisma.OrderStatusHistory$returnRequestArgs<ExtArgs>
 }
 export type OrderStatusHistoryIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   order?: boolean | Prisma.OrderDefaultArgs<ExtArgs>
+  shipment?: boolean | Prisma.OrderStatusHistory$shipmentArgs<ExtArgs>
+  returnRequest?: boolean | Prisma.OrderStatusHistory$returnRequestArgs<ExtArgs>
 }
 export type OrderStatusHistoryIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   order?: boolean | Prisma.OrderDefaultArgs<ExtArgs>
+  shipment?: boolean | Prisma.OrderStatusHistory$shipmentArgs<ExtArgs>
+  returnRequest?: boolean | Prisma.OrderStatusHistory$returnRequestArgs<ExtArgs>
 }
 
 export type $OrderStatusHistoryPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   name: "OrderStatusHistory"
   objects: {
     order: Prisma.$OrderPayload<ExtArgs>
+    shipment: Prisma.$ShipmentPayload<ExtArgs> | null
+    returnRequest: Prisma.$ReturnRequestPayload<ExtArgs> | null
   }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
     id: string
     orderId: string
+    shipmentId: string | null
+    returnRequestId: string | null
+    returnStatus: $Enums.ReturnStatus | null
     status: $Enums.OrderStatus
     changedAt: Date
     changedBy: string | null
@@ -960,6 +1364,8 @@ readonly fields: OrderStatusHistoryFieldRefs;
 export interface Prisma__OrderStatusHistoryClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
   readonly [Symbol.toStringTag]: "PrismaPromise"
   order<T extends Prisma.OrderDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.OrderDefaultArgs<ExtArgs>>): Prisma.Prisma__OrderClient<runtime.Types.Result.GetResult<Prisma.$OrderPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  shipment<T extends Prisma.OrderStatusHistory$shipmentArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.OrderStatusHistory$shipmentArgs<ExtArgs>>): Prisma.Prisma__ShipmentClient<runtime.Types.Result.GetResult<Prisma.$ShipmentPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  returnRequest<T extends Prisma.OrderStatusHistory$returnRequestArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.OrderStatusHistory$returnRequestArgs<ExtArgs>>): Prisma.Prisma__ReturnRequestClient<runtime.Types.Result.GetResult<Prisma.$ReturnRequestPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
    * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -991,6 +1397,9 @@ export interface Prisma__OrderStatusHistoryClient<T, Null = never, ExtArgs exten
 export interface OrderStatusHistoryFieldRefs {
   readonly id: Prisma.FieldRef<"OrderStatusHistory", 'String'>
   readonly orderId: Prisma.FieldRef<"OrderStatusHistory", 'String'>
+  readonly shipmentId: Prisma.FieldRef<"OrderStatusHistory", 'String'>
+  readonly returnRequestId: Prisma.FieldRef<"OrderStatusHistory", 'String'>
+  readonly returnStatus: Prisma.FieldRef<"OrderStatusHistory", 'ReturnStatus'>
   readonly status: Prisma.FieldRef<"OrderStatusHistory", 'OrderStatus'>
   readonly changedAt: Prisma.FieldRef<"OrderStatusHistory", 'DateTime'>
   readonly changedBy: Prisma.FieldRef<"OrderStatusHistory", 'String'>
@@ -1391,6 +1800,44 @@ export type OrderStatusHistoryDeleteManyArgs<ExtArgs extends runtime.Types.Exten
   limit?: number
 }
 
+/**
+ * OrderStatusHistory.shipment
+ */
+export type OrderStatusHistory$shipmentArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Shipment
+   */
+  select?: Prisma.ShipmentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Shipment
+   */
+  omit?: Prisma.ShipmentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShipmentInclude<ExtArgs> | null
+  where?: Prisma.ShipmentWhereInput
+}
+
+/**
+ * OrderStatusHistory.returnRequest
+ */
+export type OrderStatusHistory$returnRequestArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReturnRequest
+   */
+  select?: Prisma.ReturnRequestSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReturnRequest
+   */
+  omit?: Prisma.ReturnRequestOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ReturnRequestInclude<ExtArgs> | null
+  where?: Prisma.ReturnRequestWhereInput
+}
+
 /**
  * OrderStatusHistory without action
  */
@@ -0,0 +1,1172 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `PaymentWebhookEvent` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model PaymentWebhookEvent
+ * 
+ */
+export type PaymentWebhookEventModel = runtime.Types.Result.DefaultSelection<Prisma.$PaymentWebhookEventPayload>
+
+export type AggregatePaymentWebhookEvent = {
+  _count: PaymentWebhookEventCountAggregateOutputType | null
+  _min: PaymentWebhookEventMinAggregateOutputType | null
+  _max: PaymentWebhookEventMaxAggregateOutputType | null
+}
+
+export type PaymentWebhookEventMinAggregateOutputType = {
+  id: string | null
+  provider: $Enums.PaymentProvider | null
+  eventId: string | null
+  paymentId: string | null
+  receivedAt: Date | null
+}
+
+export type PaymentWebhookEventMaxAggregateOutputType = {
+  id: string | null
+  provider: $Enums.PaymentProvider | null
+  eventId: string | null
+  paymentId: string | null
+  receivedAt: Date | null
+}
+
+export type PaymentWebhookEventCountAggregateOutputType = {
+  id: number
+  provider: number
+  eventId: number
+  paymentId: number
+  payload: number
+  receivedAt: number
+  _all: number
+}
+
+
+export type PaymentWebhookEventMinAggregateInputType = {
+  id?: true
+  provider?: true
+  eventId?: true
+  paymentId?: true
+  receivedAt?: true
+}
+
+export type PaymentWebhookEventMaxAggregateInputType = {
+  id?: true
+  provider?: true
+  eventId?: true
+  paymentId?: true
+  receivedAt?: true
+}
+
+export type PaymentWebhookEventCountAggregateInputType = {
+  id?: true
+  provider?: true
+  eventId?: true
+  paymentId?: true
+  payload?: true
+  receivedAt?: true
+  _all?: true
+}
+
+export type PaymentWebhookEventAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which PaymentWebhookEvent to aggregate.
+   */
+  where?: Prisma.PaymentWebhookEventWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of PaymentWebhookEvents to fetch.
+   */
+  orderBy?: Prisma.PaymentWebhookEventOrderByWithRelationInput | Prisma.PaymentWebhookEventOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.PaymentWebhookEventWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` PaymentWebhookEvents from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` PaymentWebhookEvents.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned PaymentWebhookEvents
+  **/
+  _count?: true | PaymentWebhookEventCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: PaymentWebhookEventMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: PaymentWebhookEventMaxAggregateInputType
+}
+
+export type GetPaymentWebhookEventAggregateType<T extends PaymentWebhookEventAggregateArgs> = {
+      [P in keyof T & keyof AggregatePaymentWebhookEvent]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregatePaymentWebhookEvent[P]>
+    : Prisma.GetScalarType<T[P], AggregatePaymentWebhookEvent[P]>
+}
+
+
+
+
+export type PaymentWebhookEventGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.PaymentWebhookEventWhereInput
+  orderBy?: Prisma.PaymentWebhookEventOrderByWithAggregationInput | Prisma.PaymentWebhookEventOrderByWithAggregationInput[]
+  by: Prisma.PaymentWebhookEventScalarFieldEnum[] | Prisma.PaymentWebhookEventScalarFieldEnum
+  having?: Prisma.PaymentWebhookEventScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: PaymentWebhookEventCountAggregateInputType | true
+  _min?: PaymentWebhookEventMinAggregateInputType
+  _max?: PaymentWebhookEventMaxAggregateInputType
+}
+
+export type PaymentWebhookEventGroupByOutputType = {
+  id: string
+  provider: $Enums.PaymentProvider
+  eventId: string
+  paymentId: string | null
+  payload: runtime.JsonValue
+  receivedAt: Date
+  _count: PaymentWebhookEventCountAggregateOutputType | null
+  _min: PaymentWebhookEventMinAggregateOutputType | null
+  _max: PaymentWebhookEventMaxAggregateOutputType | null
+}
+
+type GetPaymentWebhookEventGroupByPayload<T extends PaymentWebhookEventGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<PaymentWebhookEventGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof PaymentWebhookEventGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], PaymentWebhookEventGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], PaymentWebhookEventGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type PaymentWebhookEventWhereInput = {
+  AND?: Prisma.PaymentWebhookEventWhereInput | Prisma.PaymentWebhookEventWhereInput[]
+  OR?: Prisma.PaymentWebhookEventWhereInput[]
+  NOT?: Prisma.PaymentWebhookEventWhereInput | Prisma.PaymentWebhookEventWhereInput[]
+  id?: Prisma.StringFilter<"PaymentWebhookEvent"> | string
+  provider?: Prisma.EnumPaymentProviderFilter<"PaymentWebhookEvent"> | $Enums.PaymentProvider
+  eventId?: Prisma.StringFilter<"PaymentWebhookEvent"> | string
+  paymentId?: Prisma.StringNullableFilter<"PaymentWebhookEvent"> | string | null
+  payload?: Prisma.JsonFilter<"PaymentWebhookEvent">
+  receivedAt?: Prisma.DateTimeFilter<"PaymentWebhookEvent"> | Date | string
+}
+
+export type PaymentWebhookEventOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  provider?: Prisma.SortOrder
+  eventId?: Prisma.SortOrder
+  paymentId?: Prisma.SortOrderInput | Prisma.SortOrder
+  payload?: Prisma.SortOrder
+  receivedAt?: Prisma.SortOrder
+}
+
+export type PaymentWebhookEventWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  provider_eventId?: Prisma.PaymentWebhookEventProviderEventIdCompoundUniqueInput
+  AND?: Prisma.PaymentWebhookEventWhereInput | Prisma.PaymentWebhookEventWhereInput[]
+  OR?: Prisma.PaymentWebhookEventWhereInput[]
+  NOT?: Prisma.PaymentWebhookEventWhereInput | Prisma.PaymentWebhookEventWhereInput[]
+  provider?: Prisma.EnumPaymentProviderFilter<"PaymentWebhookEvent"> | $Enums.PaymentProvider
+  eventId?: Prisma.StringFilter<"PaymentWebhookEvent"> | string
+  paymentId?: Prisma.StringNullableFilter<"PaymentWebhookEvent"> | string | null
+  payload?: Prisma.JsonFilter<"PaymentWebhookEvent">
+  receivedAt?: Prisma.DateTimeFilter<"PaymentWebhookEvent"> | Date | string
+}, "id" | "provider_eventId">
+
+export type PaymentWebhookEventOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  provider?: Prisma.SortOrder
+  eventId?: Prisma.SortOrder
+  paymentId?: Prisma.SortOrderInput | Prisma.SortOrder
+  payload?: Prisma.SortOrder
+  receivedAt?: Prisma.SortOrder
+  _count?: Prisma.PaymentWebhookEventCountOrderByAggregateInput
+  _max?: Prisma.PaymentWebhookEventMaxOrderByAggregateInput
+  _min?: Prisma.PaymentWebhookEventMinOrderByAggregateInput
+}
+
+export type PaymentWebhookEventScalarWhereWithAggregatesInput = {
+  AND?: Prisma.PaymentWebhookEventScalarWhereWithAggregatesInput | Prisma.PaymentWebhookEventScalarWhereWithAggregatesInput[]
+  OR?: Prisma.PaymentWebhookEventScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.PaymentWebhookEventScalarWhereWithAggregatesInput | Prisma.PaymentWebhookEventScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"PaymentWebhookEvent"> | string
+  provider?: Prisma.EnumPaymentProviderWithAggregatesFilter<"PaymentWebhookEvent"> | $Enums.PaymentProvider
+  eventId?: Prisma.StringWithAggregatesFilter<"PaymentWebhookEvent"> | string
+  paymentId?: Prisma.StringNullableWithAggregatesFilter<"PaymentWebhookEvent"> | string | null
+  payload?: Prisma.JsonWithAggregatesFilter<"PaymentWebhookEvent">
+  receivedAt?: Prisma.DateTimeWithAggregatesFilter<"PaymentWebhookEvent"> | Date | string
+}
+
+export type PaymentWebhookEventCreateInput = {
+  id?: string
+  provider: $Enums.PaymentProvider
+  eventId: string
+  paymentId?: string | null
+  payload: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  receivedAt?: Date | string
+}
+
+export type PaymentWebhookEventUncheckedCreateInput = {
+  id?: string
+  provider: $Enums.PaymentProvider
+  eventId: string
+  paymentId?: string | null
+  payload: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  receivedAt?: Date | string
+}
+
+export type PaymentWebhookEventUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  provider?: Prisma.EnumPaymentProviderFieldUpdateOperationsInput | $Enums.PaymentProvider
+  eventId?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  payload?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  receivedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type PaymentWebhookEventUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  provider?: Prisma.EnumPaymentProviderFieldUpdateOperationsInput | $Enums.PaymentProvider
+  eventId?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  payload?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  receivedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type PaymentWebhookEventCreateManyInput = {
+  id?: string
+  provider: $Enums.PaymentProvider
+  eventId: string
+  paymentId?: string | null
+  payload: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  receivedAt?: Date | string
+}
+
+export type PaymentWebhookEventUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  provider?: Prisma.EnumPaymentProviderFieldUpdateOperationsInput | $Enums.PaymentProvider
+  eventId?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  payload?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  receivedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type PaymentWebhookEventUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  provider?: Prisma.EnumPaymentProviderFieldUpdateOperationsInput | $Enums.PaymentProvider
+  eventId?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  payload?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  receivedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type PaymentWebhookEventProviderEventIdCompoundUniqueInput = {
+  provider: $Enums.PaymentProvider
+  eventId: string
+}
+
+export type PaymentWebhookEventCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  provider?: Prisma.SortOrder
+  eventId?: Prisma.SortOrder
+  paymentId?: Prisma.SortOrder
+  payload?: Prisma.SortOrder
+  receivedAt?: Prisma.SortOrder
+}
+
+export type PaymentWebhookEventMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  provider?: Prisma.SortOrder
+  eventId?: Prisma.SortOrder
+  paymentId?: Prisma.SortOrder
+  receivedAt?: Prisma.SortOrder
+}
+
+export type PaymentWebhookEventMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  provider?: Prisma.SortOrder
+  eventId?: Prisma.SortOrder
+  paymentId?: Prisma.SortOrder
+  receivedAt?: Prisma.SortOrder
+}
+
+
+
+export type PaymentWebhookEventSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  provider?: boolean
+  eventId?: boolean
+  paymentId?: boolean
+  payload?: boolean
+  receivedAt?: boolean
+}, ExtArgs["result"]["paymentWebhookEvent"]>
+
+export type PaymentWebhookEventSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  provider?: boolean
+  eventId?: boolean
+  paymentId?: boolean
+  payload?: boolean
+  receivedAt?: boolean
+}, ExtArgs["result"]["paymentWebhookEvent"]>
+
+export type PaymentWebhookEventSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  provider?: boolean
+  eventId?: boolean
+  paymentId?: boolean
+  payload?: boolean
+  receivedAt?: boolean
+}, ExtArgs["result"]["paymentWebhookEvent"]>
+
+export type PaymentWebhookEventSelectScalar = {
+  id?: boolean
+  provider?: boolean
+  eventId?: boolean
+  paymentId?: boolean
+  payload?: boolean
+  receivedAt?: boolean
+}
+
+export type PaymentWebhookEventOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "provider" | "eventId" | "paymentId" | "payload" | "receivedAt", ExtArgs["result"]["paymentWebhookEvent"]>
+
+export type $PaymentWebhookEventPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "PaymentWebhookEvent"
+  objects: {}
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    provider: $Enums.PaymentProvider
+    eventId: string
+    paymentId: string | null
+    payload: runtime.JsonValue
+    receivedAt: Date
+  }, ExtArgs["result"]["paymentWebhookEvent"]>
+  composites: {}
+}
+
+export type PaymentWebhookEventGetPayload<S extends boolean | null | undefined | PaymentWebhookEventDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$PaymentWebhookEventPayload, S>
+
+export type PaymentWebhookEventCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<PaymentWebhookEventFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: PaymentWebhookEventCountAggregateInputType | true
+  }
+
+export interface PaymentWebhookEventDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['PaymentWebhookEvent'], meta: { name: 'PaymentWebhookEvent' } }
+  /**
+   * Find zero or one PaymentWebhookEvent that matches the filter.
+   * @param {PaymentWebhookEventFindUniqueArgs} args - Arguments to find a PaymentWebhookEvent
+   * @example
+   * // Get one PaymentWebhookEvent
+   * const paymentWebhookEvent = await prisma.paymentWebhookEvent.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends PaymentWebhookEventFindUniqueArgs>(args: Prisma.SelectSubset<T, PaymentWebhookEventFindUniqueArgs<ExtArgs>>): Prisma.Prisma__PaymentWebhookEventClient<runtime.Types.Result.GetResult<Prisma.$PaymentWebhookEventPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one PaymentWebhookEvent that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {PaymentWebhookEventFindUniqueOrThrowArgs} args - Arguments to find a PaymentWebhookEvent
+   * @example
+   * // Get one PaymentWebhookEvent
+   * const paymentWebhookEvent = await prisma.paymentWebhookEvent.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends PaymentWebhookEventFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, PaymentWebhookEventFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__PaymentWebhookEventClient<runtime.Types.Result.GetResult<Prisma.$PaymentWebhookEventPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first PaymentWebhookEvent that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PaymentWebhookEventFindFirstArgs} args - Arguments to find a PaymentWebhookEvent
+   * @example
+   * // Get one PaymentWebhookEvent
+   * const paymentWebhookEvent = await prisma.paymentWebhookEvent.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends PaymentWebhookEventFindFirstArgs>(args?: Prisma.SelectSubset<T, PaymentWebhookEventFindFirstArgs<ExtArgs>>): Prisma.Prisma__PaymentWebhookEventClient<runtime.Types.Result.GetResult<Prisma.$PaymentWebhookEventPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first PaymentWebhookEvent that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PaymentWebhookEventFindFirstOrThrowArgs} args - Arguments to find a PaymentWebhookEvent
+   * @example
+   * // Get one PaymentWebhookEvent
+   * const paymentWebhookEvent = await prisma.paymentWebhookEvent.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends PaymentWebhookEventFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, PaymentWebhookEventFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__PaymentWebhookEventClient<runtime.Types.Result.GetResult<Prisma.$PaymentWebhookEventPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more PaymentWebhookEvents that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PaymentWebhookEventFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all PaymentWebhookEvents
+   * const paymentWebhookEvents = await prisma.paymentWebhookEvent.findMany()
+   * 
+   * // Get first 10 PaymentWebhookEvents
+   * const paymentWebhookEvents = await prisma.paymentWebhookEvent.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const paymentWebhookEventWithIdOnly = await prisma.paymentWebhookEvent.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends PaymentWebhookEventFindManyArgs>(args?: Prisma.SelectSubset<T, PaymentWebhookEventFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$PaymentWebhookEventPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a PaymentWebhookEvent.
+   * @param {PaymentWebhookEventCreateArgs} args - Arguments to create a PaymentWebhookEvent.
+   * @example
+   * // Create one PaymentWebhookEvent
+   * const PaymentWebhookEvent = await prisma.paymentWebhookEvent.create({
+   *   data: {
+   *     // ... data to create a PaymentWebhookEvent
+   *   }
+   * })
+   * 
+   */
+  create<T extends PaymentWebhookEventCreateArgs>(args: Prisma.SelectSubset<T, PaymentWebhookEventCreateArgs<ExtArgs>>): Prisma.Prisma__PaymentWebhookEventClient<runtime.Types.Result.GetResult<Prisma.$PaymentWebhookEventPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many PaymentWebhookEvents.
+   * @param {PaymentWebhookEventCreateManyArgs} args - Arguments to create many PaymentWebhookEvents.
+   * @example
+   * // Create many PaymentWebhookEvents
+   * const paymentWebhookEvent = await prisma.paymentWebhookEvent.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends PaymentWebhookEventCreateManyArgs>(args?: Prisma.SelectSubset<T, PaymentWebhookEventCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many PaymentWebhookEvents and returns the data saved in the database.
+   * @param {PaymentWebhookEventCreateManyAndReturnArgs} args - Arguments to create many PaymentWebhookEvents.
+   * @example
+   * // Create many PaymentWebhookEvents
+   * const paymentWebhookEvent = await prisma.paymentWebhookEvent.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many PaymentWebhookEvents and only return the `id`
+   * const paymentWebhookEventWithIdOnly = await prisma.paymentWebhookEvent.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends PaymentWebhookEventCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, PaymentWebhookEventCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$PaymentWebhookEventPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a PaymentWebhookEvent.
+   * @param {PaymentWebhookEventDeleteArgs} args - Arguments to delete one PaymentWebhookEvent.
+   * @example
+   * // Delete one PaymentWebhookEvent
+   * const PaymentWebhookEvent = await prisma.paymentWebhookEvent.delete({
+   *   where: {
+   *     // ... filter to delete one PaymentWebhookEvent
+   *   }
+   * })
+   * 
+   */
+  delete<T extends PaymentWebhookEventDeleteArgs>(args: Prisma.SelectSubset<T, PaymentWebhookEventDeleteArgs<ExtArgs>>): Prisma.Prisma__PaymentWebhookEventClient<runtime.Types.Result.GetResult<Prisma.$PaymentWebhookEventPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one PaymentWebhookEvent.
+   * @param {PaymentWebhookEventUpdateArgs} args - Arguments to update one PaymentWebhookEvent.
+   * @example
+   * // Update one PaymentWebhookEvent
+   * const paymentWebhookEvent = await prisma.paymentWebhookEvent.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends PaymentWebhookEventUpdateArgs>(args: Prisma.SelectSubset<T, PaymentWebhookEventUpdateArgs<ExtArgs>>): Prisma.Prisma__PaymentWebhookEventClient<runtime.Types.Result.GetResult<Prisma.$PaymentWebhookEventPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more PaymentWebhookEvents.
+   * @param {PaymentWebhookEventDeleteManyArgs} args - Arguments to filter PaymentWebhookEvents to delete.
+   * @example
+   * // Delete a few PaymentWebhookEvents
+   * const { count } = await prisma.paymentWebhookEvent.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends PaymentWebhookEventDeleteManyArgs>(args?: Prisma.SelectSubset<T, PaymentWebhookEventDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more PaymentWebhookEvents.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PaymentWebhookEventUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many PaymentWebhookEvents
+   * const paymentWebhookEvent = await prisma.paymentWebhookEvent.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends PaymentWebhookEventUpdateManyArgs>(args: Prisma.SelectSubset<T, PaymentWebhookEventUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more PaymentWebhookEvents and returns the data updated in the database.
+   * @param {PaymentWebhookEventUpdateManyAndReturnArgs} args - Arguments to update many PaymentWebhookEvents.
+   * @example
+   * // Update many PaymentWebhookEvents
+   * const paymentWebhookEvent = await prisma.paymentWebhookEvent.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more PaymentWebhookEvents and only return the `id`
+   * const paymentWebhookEventWithIdOnly = await prisma.paymentWebhookEvent.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends PaymentWebhookEventUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, PaymentWebhookEventUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$PaymentWebhookEventPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one PaymentWebhookEvent.
+   * @param {PaymentWebhookEventUpsertArgs} args - Arguments to update or create a PaymentWebhookEvent.
+   * @example
+   * // Update or create a PaymentWebhookEvent
+   * const paymentWebhookEvent = await prisma.paymentWebhookEvent.upsert({
+   *   create: {
+   *     // ... data to create a PaymentWebhookEvent
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the PaymentWebhookEvent we want to update
+   *   }
+   * })
+   */
+  upsert<T extends PaymentWebhookEventUpsertArgs>(args: Prisma.SelectSubset<T, PaymentWebhookEventUpsertArgs<ExtArgs>>): Prisma.Prisma__PaymentWebhookEventClient<runtime.Types.Result.GetResult<Prisma.$PaymentWebhookEventPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of PaymentWebhookEvents.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PaymentWebhookEventCountArgs} args - Arguments to filter PaymentWebhookEvents to count.
+   * @example
+   * // Count the number of PaymentWebhookEvents
+   * const count = await prisma.paymentWebhookEvent.count({
+   *   where: {
+   *     // ... the filter for the PaymentWebhookEvents we want to count
+   *   }
+   * })
+  **/
+  count<T extends PaymentWebhookEventCountArgs>(
+    args?: Prisma.Subset<T, PaymentWebhookEventCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], PaymentWebhookEventCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a PaymentWebhookEvent.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PaymentWebhookEventAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends PaymentWebhookEventAggregateArgs>(args: Prisma.Subset<T, PaymentWebhookEventAggregateArgs>): Prisma.PrismaPromise<GetPaymentWebhookEventAggregateType<T>>
+
+  /**
+   * Group by PaymentWebhookEvent.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PaymentWebhookEventGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends PaymentWebhookEventGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: PaymentWebhookEventGroupByArgs['orderBy'] }
+      : { orderBy?: PaymentWebhookEventGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, PaymentWebhookEventGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetPaymentWebhookEventGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the PaymentWebhookEvent model
+ */
+readonly fields: PaymentWebhookEventFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for PaymentWebhookEvent.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__PaymentWebhookEventClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the PaymentWebhookEvent model
+ */
+export interface PaymentWebhookEventFieldRefs {
+  readonly id: Prisma.FieldRef<"PaymentWebhookEvent", 'String'>
+  readonly provider: Prisma.FieldRef<"PaymentWebhookEvent", 'PaymentProvider'>
+  readonly eventId: Prisma.FieldRef<"PaymentWebhookEvent", 'String'>
+  readonly paymentId: Prisma.FieldRef<"PaymentWebhookEvent", 'String'>
+  readonly payload: Prisma.FieldRef<"PaymentWebhookEvent", 'Json'>
+  readonly receivedAt: Prisma.FieldRef<"PaymentWebhookEvent", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * PaymentWebhookEvent findUnique
+ */
+export type PaymentWebhookEventFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PaymentWebhookEvent
+   */
+  select?: Prisma.PaymentWebhookEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PaymentWebhookEvent
+   */
+  omit?: Prisma.PaymentWebhookEventOmit<ExtArgs> | null
+  /**
+   * Filter, which PaymentWebhookEvent to fetch.
+   */
+  where: Prisma.PaymentWebhookEventWhereUniqueInput
+}
+
+/**
+ * PaymentWebhookEvent findUniqueOrThrow
+ */
+export type PaymentWebhookEventFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PaymentWebhookEvent
+   */
+  select?: Prisma.PaymentWebhookEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PaymentWebhookEvent
+   */
+  omit?: Prisma.PaymentWebhookEventOmit<ExtArgs> | null
+  /**
+   * Filter, which PaymentWebhookEvent to fetch.
+   */
+  where: Prisma.PaymentWebhookEventWhereUniqueInput
+}
+
+/**
+ * PaymentWebhookEvent findFirst
+ */
+export type PaymentWebhookEventFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PaymentWebhookEvent
+   */
+  select?: Prisma.PaymentWebhookEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PaymentWebhookEvent
+   */
+  omit?: Prisma.PaymentWebhookEventOmit<ExtArgs> | null
+  /**
+   * Filter, which PaymentWebhookEvent to fetch.
+   */
+  where?: Prisma.PaymentWebhookEventWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of PaymentWebhookEvents to fetch.
+   */
+  orderBy?: Prisma.PaymentWebhookEventOrderByWithRelationInput | Prisma.PaymentWebhookEventOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for PaymentWebhookEvents.
+   */
+  cursor?: Prisma.PaymentWebhookEventWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` PaymentWebhookEvents from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` PaymentWebhookEvents.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of PaymentWebhookEvents.
+   */
+  distinct?: Prisma.PaymentWebhookEventScalarFieldEnum | Prisma.PaymentWebhookEventScalarFieldEnum[]
+}
+
+/**
+ * PaymentWebhookEvent findFirstOrThrow
+ */
+export type PaymentWebhookEventFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PaymentWebhookEvent
+   */
+  select?: Prisma.PaymentWebhookEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PaymentWebhookEvent
+   */
+  omit?: Prisma.PaymentWebhookEventOmit<ExtArgs> | null
+  /**
+   * Filter, which PaymentWebhookEvent to fetch.
+   */
+  where?: Prisma.PaymentWebhookEventWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of PaymentWebhookEvents to fetch.
+   */
+  orderBy?: Prisma.PaymentWebhookEventOrderByWithRelationInput | Prisma.PaymentWebhookEventOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for PaymentWebhookEvents.
+   */
+  cursor?: Prisma.PaymentWebhookEventWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` PaymentWebhookEvents from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` PaymentWebhookEvents.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of PaymentWebhookEvents.
+   */
+  distinct?: Prisma.PaymentWebhookEventScalarFieldEnum | Prisma.PaymentWebhookEventScalarFieldEnum[]
+}
+
+/**
+ * PaymentWebhookEvent findMany
+ */
+export type PaymentWebhookEventFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PaymentWebhookEvent
+   */
+  select?: Prisma.PaymentWebhookEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PaymentWebhookEvent
+   */
+  omit?: Prisma.PaymentWebhookEventOmit<ExtArgs> | null
+  /**
+   * Filter, which PaymentWebhookEvents to fetch.
+   */
+  where?: Prisma.PaymentWebhookEventWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of PaymentWebhookEvents to fetch.
+   */
+  orderBy?: Prisma.PaymentWebhookEventOrderByWithRelationInput | Prisma.PaymentWebhookEventOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing PaymentWebhookEvents.
+   */
+  cursor?: Prisma.PaymentWebhookEventWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` PaymentWebhookEvents from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` PaymentWebhookEvents.
+   */
+  skip?: number
+  distinct?: Prisma.PaymentWebhookEventScalarFieldEnum | Prisma.PaymentWebhookEventScalarFieldEnum[]
+}
+
+/**
+ * PaymentWebhookEvent create
+ */
+export type PaymentWebhookEventCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PaymentWebhookEvent
+   */
+  select?: Prisma.PaymentWebhookEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PaymentWebhookEvent
+   */
+  omit?: Prisma.PaymentWebhookEventOmit<ExtArgs> | null
+  /**
+   * The data needed to create a PaymentWebhookEvent.
+   */
+  data: Prisma.XOR<Prisma.PaymentWebhookEventCreateInput, Prisma.PaymentWebhookEventUncheckedCreateInput>
+}
+
+/**
+ * PaymentWebhookEvent createMany
+ */
+export type PaymentWebhookEventCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many PaymentWebhookEvents.
+   */
+  data: Prisma.PaymentWebhookEventCreateManyInput | Prisma.PaymentWebhookEventCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * PaymentWebhookEvent createManyAndReturn
+ */
+export type PaymentWebhookEventCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PaymentWebhookEvent
+   */
+  select?: Prisma.PaymentWebhookEventSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the PaymentWebhookEvent
+   */
+  omit?: Prisma.PaymentWebhookEventOmit<ExtArgs> | null
+  /**
+   * The data used to create many PaymentWebhookEvents.
+   */
+  data: Prisma.PaymentWebhookEventCreateManyInput | Prisma.PaymentWebhookEventCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * PaymentWebhookEvent update
+ */
+export type PaymentWebhookEventUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PaymentWebhookEvent
+   */
+  select?: Prisma.PaymentWebhookEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PaymentWebhookEvent
+   */
+  omit?: Prisma.PaymentWebhookEventOmit<ExtArgs> | null
+  /**
+   * The data needed to update a PaymentWebhookEvent.
+   */
+  data: Prisma.XOR<Prisma.PaymentWebhookEventUpdateInput, Prisma.PaymentWebhookEventUncheckedUpdateInput>
+  /**
+   * Choose, which PaymentWebhookEvent to update.
+   */
+  where: Prisma.PaymentWebhookEventWhereUniqueInput
+}
+
+/**
+ * PaymentWebhookEvent updateMany
+ */
+export type PaymentWebhookEventUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update PaymentWebhookEvents.
+   */
+  data: Prisma.XOR<Prisma.PaymentWebhookEventUpdateManyMutationInput, Prisma.PaymentWebhookEventUncheckedUpdateManyInput>
+  /**
+   * Filter which PaymentWebhookEvents to update
+   */
+  where?: Prisma.PaymentWebhookEventWhereInput
+  /**
+   * Limit how many PaymentWebhookEvents to update.
+   */
+  limit?: number
+}
+
+/**
+ * PaymentWebhookEvent updateManyAndReturn
+ */
+export type PaymentWebhookEventUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PaymentWebhookEvent
+   */
+  select?: Prisma.PaymentWebhookEventSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the PaymentWebhookEvent
+   */
+  omit?: Prisma.PaymentWebhookEventOmit<ExtArgs> | null
+  /**
+   * The data used to update PaymentWebhookEvents.
+   */
+  data: Prisma.XOR<Prisma.PaymentWebhookEventUpdateManyMutationInput, Prisma.PaymentWebhookEventUncheckedUpdateManyInput>
+  /**
+   * Filter which PaymentWebhookEvents to update
+   */
+  where?: Prisma.PaymentWebhookEventWhereInput
+  /**
+   * Limit how many PaymentWebhookEvents to update.
+   */
+  limit?: number
+}
+
+/**
+ * PaymentWebhookEvent upsert
+ */
+export type PaymentWebhookEventUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PaymentWebhookEvent
+   */
+  select?: Prisma.PaymentWebhookEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PaymentWebhookEvent
+   */
+  omit?: Prisma.PaymentWebhookEventOmit<ExtArgs> | null
+  /**
+   * The filter to search for the PaymentWebhookEvent to update in case it exists.
+   */
+  where: Prisma.PaymentWebhookEventWhereUniqueInput
+  /**
+   * In case the PaymentWebhookEvent found by the `where` argument doesn't exist, create a new PaymentWebhookEvent with this data.
+   */
+  create: Prisma.XOR<Prisma.PaymentWebhookEventCreateInput, Prisma.PaymentWebhookEventUncheckedCreateInput>
+  /**
+   * In case the PaymentWebhookEvent was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.PaymentWebhookEventUpdateInput, Prisma.PaymentWebhookEventUncheckedUpdateInput>
+}
+
+/**
+ * PaymentWebhookEvent delete
+ */
+export type PaymentWebhookEventDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PaymentWebhookEvent
+   */
+  select?: Prisma.PaymentWebhookEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PaymentWebhookEvent
+   */
+  omit?: Prisma.PaymentWebhookEventOmit<ExtArgs> | null
+  /**
+   * Filter which PaymentWebhookEvent to delete.
+   */
+  where: Prisma.PaymentWebhookEventWhereUniqueInput
+}
+
+/**
+ * PaymentWebhookEvent deleteMany
+ */
+export type PaymentWebhookEventDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which PaymentWebhookEvents to delete
+   */
+  where?: Prisma.PaymentWebhookEventWhereInput
+  /**
+   * Limit how many PaymentWebhookEvents to delete.
+   */
+  limit?: number
+}
+
+/**
+ * PaymentWebhookEvent without action
+ */
+export type PaymentWebhookEventDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PaymentWebhookEvent
+   */
+  select?: Prisma.PaymentWebhookEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PaymentWebhookEvent
+   */
+  omit?: Prisma.PaymentWebhookEventOmit<ExtArgs> | null
+}
@@ -0,0 +1,1725 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `PayoutRequest` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model PayoutRequest
+ * 
+ */
+export type PayoutRequestModel = runtime.Types.Result.DefaultSelection<Prisma.$PayoutRequestPayload>
+
+export type AggregatePayoutRequest = {
+  _count: PayoutRequestCountAggregateOutputType | null
+  _avg: PayoutRequestAvgAggregateOutputType | null
+  _sum: PayoutRequestSumAggregateOutputType | null
+  _min: PayoutRequestMinAggregateOutputType | null
+  _max: PayoutRequestMaxAggregateOutputType | null
+}
+
+export type PayoutRequestAvgAggregateOutputType = {
+  amount: runtime.Decimal | null
+}
+
+export type PayoutRequestSumAggregateOutputType = {
+  amount: runtime.Decimal | null
+}
+
+export type PayoutRequestMinAggregateOutputType = {
+  id: string | null
+  sellerId: string | null
+  amount: runtime.Decimal | null
+  status: $Enums.PayoutStatus | null
+  note: string | null
+  reviewedBy: string | null
+  reviewedAt: Date | null
+  reviewNote: string | null
+  reference: string | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type PayoutRequestMaxAggregateOutputType = {
+  id: string | null
+  sellerId: string | null
+  amount: runtime.Decimal | null
+  status: $Enums.PayoutStatus | null
+  note: string | null
+  reviewedBy: string | null
+  reviewedAt: Date | null
+  reviewNote: string | null
+  reference: string | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type PayoutRequestCountAggregateOutputType = {
+  id: number
+  sellerId: number
+  amount: number
+  status: number
+  note: number
+  reviewedBy: number
+  reviewedAt: number
+  reviewNote: number
+  reference: number
+  createdAt: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type PayoutRequestAvgAggregateInputType = {
+  amount?: true
+}
+
+export type PayoutRequestSumAggregateInputType = {
+  amount?: true
+}
+
+export type PayoutRequestMinAggregateInputType = {
+  id?: true
+  sellerId?: true
+  amount?: true
+  status?: true
+  note?: true
+  reviewedBy?: true
+  reviewedAt?: true
+  reviewNote?: true
+  reference?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type PayoutRequestMaxAggregateInputType = {
+  id?: true
+  sellerId?: true
+  amount?: true
+  status?: true
+  note?: true
+  reviewedBy?: true
+  reviewedAt?: true
+  reviewNote?: true
+  reference?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type PayoutRequestCountAggregateInputType = {
+  id?: true
+  sellerId?: true
+  amount?: true
+  status?: true
+  note?: true
+  reviewedBy?: true
+  reviewedAt?: true
+  reviewNote?: true
+  reference?: true
+  createdAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type PayoutRequestAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which PayoutRequest to aggregate.
+   */
+  where?: Prisma.PayoutRequestWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of PayoutRequests to fetch.
+   */
+  orderBy?: Prisma.PayoutRequestOrderByWithRelationInput | Prisma.PayoutRequestOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.PayoutRequestWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` PayoutRequests from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` PayoutRequests.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned PayoutRequests
+  **/
+  _count?: true | PayoutRequestCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: PayoutRequestAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: PayoutRequestSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: PayoutRequestMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: PayoutRequestMaxAggregateInputType
+}
+
+export type GetPayoutRequestAggregateType<T extends PayoutRequestAggregateArgs> = {
+      [P in keyof T & keyof AggregatePayoutRequest]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregatePayoutRequest[P]>
+    : Prisma.GetScalarType<T[P], AggregatePayoutRequest[P]>
+}
+
+
+
+
+export type PayoutRequestGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.PayoutRequestWhereInput
+  orderBy?: Prisma.PayoutRequestOrderByWithAggregationInput | Prisma.PayoutRequestOrderByWithAggregationInput[]
+  by: Prisma.PayoutRequestScalarFieldEnum[] | Prisma.PayoutRequestScalarFieldEnum
+  having?: Prisma.PayoutRequestScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: PayoutRequestCountAggregateInputType | true
+  _avg?: PayoutRequestAvgAggregateInputType
+  _sum?: PayoutRequestSumAggregateInputType
+  _min?: PayoutRequestMinAggregateInputType
+  _max?: PayoutRequestMaxAggregateInputType
+}
+
+export type PayoutRequestGroupByOutputType = {
+  id: string
+  sellerId: string
+  amount: runtime.Decimal
+  status: $Enums.PayoutStatus
+  note: string | null
+  reviewedBy: string | null
+  reviewedAt: Date | null
+  reviewNote: string | null
+  reference: string | null
+  createdAt: Date
+  updatedAt: Date
+  _count: PayoutRequestCountAggregateOutputType | null
+  _avg: PayoutRequestAvgAggregateOutputType | null
+  _sum: PayoutRequestSumAggregateOutputType | null
+  _min: PayoutRequestMinAggregateOutputType | null
+  _max: PayoutRequestMaxAggregateOutputType | null
+}
+
+type GetPayoutRequestGroupByPayload<T extends PayoutRequestGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<PayoutRequestGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof PayoutRequestGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], PayoutRequestGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], PayoutRequestGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type PayoutRequestWhereInput = {
+  AND?: Prisma.PayoutRequestWhereInput | Prisma.PayoutRequestWhereInput[]
+  OR?: Prisma.PayoutRequestWhereInput[]
+  NOT?: Prisma.PayoutRequestWhereInput | Prisma.PayoutRequestWhereInput[]
+  id?: Prisma.StringFilter<"PayoutRequest"> | string
+  sellerId?: Prisma.StringFilter<"PayoutRequest"> | string
+  amount?: Prisma.DecimalFilter<"PayoutRequest"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  status?: Prisma.EnumPayoutStatusFilter<"PayoutRequest"> | $Enums.PayoutStatus
+  note?: Prisma.StringNullableFilter<"PayoutRequest"> | string | null
+  reviewedBy?: Prisma.StringNullableFilter<"PayoutRequest"> | string | null
+  reviewedAt?: Prisma.DateTimeNullableFilter<"PayoutRequest"> | Date | string | null
+  reviewNote?: Prisma.StringNullableFilter<"PayoutRequest"> | string | null
+  reference?: Prisma.StringNullableFilter<"PayoutRequest"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"PayoutRequest"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"PayoutRequest"> | Date | string
+  seller?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+  ledgerEntry?: Prisma.XOR<Prisma.SellerLedgerEntryNullableScalarRelationFilter, Prisma.SellerLedgerEntryWhereInput> | null
+}
+
+export type PayoutRequestOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  sellerId?: Prisma.SortOrder
+  amount?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  note?: Prisma.SortOrderInput | Prisma.SortOrder
+  reviewedBy?: Prisma.SortOrderInput | Prisma.SortOrder
+  reviewedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  reviewNote?: Prisma.SortOrderInput | Prisma.SortOrder
+  reference?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  seller?: Prisma.UserOrderByWithRelationInput
+  ledgerEntry?: Prisma.SellerLedgerEntryOrderByWithRelationInput
+}
+
+export type PayoutRequestWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  AND?: Prisma.PayoutRequestWhereInput | Prisma.PayoutRequestWhereInput[]
+  OR?: Prisma.PayoutRequestWhereInput[]
+  NOT?: Prisma.PayoutRequestWhereInput | Prisma.PayoutRequestWhereInput[]
+  sellerId?: Prisma.StringFilter<"PayoutRequest"> | string
+  amount?: Prisma.DecimalFilter<"PayoutRequest"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  status?: Prisma.EnumPayoutStatusFilter<"PayoutRequest"> | $Enums.PayoutStatus
+  note?: Prisma.StringNullableFilter<"PayoutRequest"> | string | null
+  reviewedBy?: Prisma.StringNullableFilter<"PayoutRequest"> | string | null
+  reviewedAt?: Prisma.DateTimeNullableFilter<"PayoutRequest"> | Date | string | null
+  reviewNote?: Prisma.StringNullableFilter<"PayoutRequest"> | string | null
+  reference?: Prisma.StringNullableFilter<"PayoutRequest"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"PayoutRequest"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"PayoutRequest"> | Date | string
+  seller?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+  ledgerEntry?: Prisma.XOR<Prisma.SellerLedgerEntryNullableScalarRelationFilter, Prisma.SellerLedgerEntryWhereInput> | null
+}, "id">
+
+export type PayoutRequestOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  sellerId?: Prisma.SortOrder
+  amount?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  note?: Prisma.SortOrderInput | Prisma.SortOrder
+  reviewedBy?: Prisma.SortOrderInput | Prisma.SortOrder
+  reviewedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  reviewNote?: Prisma.SortOrderInput | Prisma.SortOrder
+  reference?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.PayoutRequestCountOrderByAggregateInput
+  _avg?: Prisma.PayoutRequestAvgOrderByAggregateInput
+  _max?: Prisma.PayoutRequestMaxOrderByAggregateInput
+  _min?: Prisma.PayoutRequestMinOrderByAggregateInput
+  _sum?: Prisma.PayoutRequestSumOrderByAggregateInput
+}
+
+export type PayoutRequestScalarWhereWithAggregatesInput = {
+  AND?: Prisma.PayoutRequestScalarWhereWithAggregatesInput | Prisma.PayoutRequestScalarWhereWithAggregatesInput[]
+  OR?: Prisma.PayoutRequestScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.PayoutRequestScalarWhereWithAggregatesInput | Prisma.PayoutRequestScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"PayoutRequest"> | string
+  sellerId?: Prisma.StringWithAggregatesFilter<"PayoutRequest"> | string
+  amount?: Prisma.DecimalWithAggregatesFilter<"PayoutRequest"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  status?: Prisma.EnumPayoutStatusWithAggregatesFilter<"PayoutRequest"> | $Enums.PayoutStatus
+  note?: Prisma.StringNullableWithAggregatesFilter<"PayoutRequest"> | string | null
+  reviewedBy?: Prisma.StringNullableWithAggregatesFilter<"PayoutRequest"> | string | null
+  reviewedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"PayoutRequest"> | Date | string | null
+  reviewNote?: Prisma.StringNullableWithAggregatesFilter<"PayoutRequest"> | string | null
+  reference?: Prisma.StringNullableWithAggregatesFilter<"PayoutRequest"> | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"PayoutRequest"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"PayoutRequest"> | Date | string
+}
+
+export type PayoutRequestCreateInput = {
+  id?: string
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  status?: $Enums.PayoutStatus
+  note?: string | null
+  reviewedBy?: string | null
+  reviewedAt?: Date | string | null
+  reviewNote?: string | null
+  reference?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  seller: Prisma.UserCreateNestedOneWithoutPayoutRequestsInput
+  ledgerEntry?: Prisma.SellerLedgerEntryCreateNestedOneWithoutPayoutInput
+}
+
+export type PayoutRequestUncheckedCreateInput = {
+  id?: string
+  sellerId: string
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  status?: $Enums.PayoutStatus
+  note?: string | null
+  reviewedBy?: string | null
+  reviewedAt?: Date | string | null
+  reviewNote?: string | null
+  reference?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  ledgerEntry?: Prisma.SellerLedgerEntryUncheckedCreateNestedOneWithoutPayoutInput
+}
+
+export type PayoutRequestUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  status?: Prisma.EnumPayoutStatusFieldUpdateOperationsInput | $Enums.PayoutStatus
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reference?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  seller?: Prisma.UserUpdateOneRequiredWithoutPayoutRequestsNestedInput
+  ledgerEntry?: Prisma.SellerLedgerEntryUpdateOneWithoutPayoutNestedInput
+}
+
+export type PayoutRequestUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  sellerId?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  status?: Prisma.EnumPayoutStatusFieldUpdateOperationsInput | $Enums.PayoutStatus
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reference?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  ledgerEntry?: Prisma.SellerLedgerEntryUncheckedUpdateOneWithoutPayoutNestedInput
+}
+
+export type PayoutRequestCreateManyInput = {
+  id?: string
+  sellerId: string
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  status?: $Enums.PayoutStatus
+  note?: string | null
+  reviewedBy?: string | null
+  reviewedAt?: Date | string | null
+  reviewNote?: string | null
+  reference?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type PayoutRequestUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  status?: Prisma.EnumPayoutStatusFieldUpdateOperationsInput | $Enums.PayoutStatus
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reference?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type PayoutRequestUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  sellerId?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  status?: Prisma.EnumPayoutStatusFieldUpdateOperationsInput | $Enums.PayoutStatus
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reference?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type PayoutRequestNullableScalarRelationFilter = {
+  is?: Prisma.PayoutRequestWhereInput | null
+  isNot?: Prisma.PayoutRequestWhereInput | null
+}
+
+export type PayoutRequestCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  sellerId?: Prisma.SortOrder
+  amount?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  note?: Prisma.SortOrder
+  reviewedBy?: Prisma.SortOrder
+  reviewedAt?: Prisma.SortOrder
+  reviewNote?: Prisma.SortOrder
+  reference?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type PayoutRequestAvgOrderByAggregateInput = {
+  amount?: Prisma.SortOrder
+}
+
+export type PayoutRequestMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  sellerId?: Prisma.SortOrder
+  amount?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  note?: Prisma.SortOrder
+  reviewedBy?: Prisma.SortOrder
+  reviewedAt?: Prisma.SortOrder
+  reviewNote?: Prisma.SortOrder
+  reference?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type PayoutRequestMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  sellerId?: Prisma.SortOrder
+  amount?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  note?: Prisma.SortOrder
+  reviewedBy?: Prisma.SortOrder
+  reviewedAt?: Prisma.SortOrder
+  reviewNote?: Prisma.SortOrder
+  reference?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type PayoutRequestSumOrderByAggregateInput = {
+  amount?: Prisma.SortOrder
+}
+
+export type PayoutRequestListRelationFilter = {
+  every?: Prisma.PayoutRequestWhereInput
+  some?: Prisma.PayoutRequestWhereInput
+  none?: Prisma.PayoutRequestWhereInput
+}
+
+export type PayoutRequestOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type PayoutRequestCreateNestedOneWithoutLedgerEntryInput = {
+  create?: Prisma.XOR<Prisma.PayoutRequestCreateWithoutLedgerEntryInput, Prisma.PayoutRequestUncheckedCreateWithoutLedgerEntryInput>
+  connectOrCreate?: Prisma.PayoutRequestCreateOrConnectWithoutLedgerEntryInput
+  connect?: Prisma.PayoutRequestWhereUniqueInput
+}
+
+export type PayoutRequestUpdateOneWithoutLedgerEntryNestedInput = {
+  create?: Prisma.XOR<Prisma.PayoutRequestCreateWithoutLedgerEntryInput, Prisma.PayoutRequestUncheckedCreateWithoutLedgerEntryInput>
+  connectOrCreate?: Prisma.PayoutRequestCreateOrConnectWithoutLedgerEntryInput
+  upsert?: Prisma.PayoutRequestUpsertWithoutLedgerEntryInput
+  disconnect?: Prisma.PayoutRequestWhereInput | boolean
+  delete?: Prisma.PayoutRequestWhereInput | boolean
+  connect?: Prisma.PayoutRequestWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.PayoutRequestUpdateToOneWithWhereWithoutLedgerEntryInput, Prisma.PayoutRequestUpdateWithoutLedgerEntryInput>, Prisma.PayoutRequestUncheckedUpdateWithoutLedgerEntryInput>
+}
+
+export type EnumPayoutStatusFieldUpdateOperationsInput = {
+  set?: $Enums.PayoutStatus
+}
+
+export type PayoutRequestCreateNestedManyWithoutSellerInput = {
+  create?: Prisma.XOR<Prisma.PayoutRequestCreateWithoutSellerInput, Prisma.PayoutRequestUncheckedCreateWithoutSellerInput> | Prisma.PayoutRequestCreateWithoutSellerInput[] | Prisma.PayoutRequestUncheckedCreateWithoutSellerInput[]
+  connectOrCreate?: Prisma.PayoutRequestCreateOrConnectWithoutSellerInput | Prisma.PayoutRequestCreateOrConnectWithoutSellerInput[]
+  createMany?: Prisma.PayoutRequestCreateManySellerInputEnvelope
+  connect?: Prisma.PayoutRequestWhereUniqueInput | Prisma.PayoutRequestWhereUniqueInput[]
+}
+
+export type PayoutRequestUncheckedCreateNestedManyWithoutSellerInput = {
+  create?: Prisma.XOR<Prisma.PayoutRequestCreateWithoutSellerInput, Prisma.PayoutRequestUncheckedCreateWithoutSellerInput> | Prisma.PayoutRequestCreateWithoutSellerInput[] | Prisma.PayoutRequestUncheckedCreateWithoutSellerInput[]
+  connectOrCreate?: Prisma.PayoutRequestCreateOrConnectWithoutSellerInput | Prisma.PayoutRequestCreateOrConnectWithoutSellerInput[]
+  createMany?: Prisma.PayoutRequestCreateManySellerInputEnvelope
+  connect?: Prisma.PayoutRequestWhereUniqueInput | Prisma.PayoutRequestWhereUniqueInput[]
+}
+
+export type PayoutRequestUpdateManyWithoutSellerNestedInput = {
+  create?: Prisma.XOR<Prisma.PayoutRequestCreateWithoutSellerInput, Prisma.PayoutRequestUncheckedCreateWithoutSellerInput> | Prisma.PayoutRequestCreateWithoutSellerInput[] | Prisma.PayoutRequestUncheckedCreateWithoutSellerInput[]
+  connectOrCreate?: Prisma.PayoutRequestCreateOrConnectWithoutSellerInput | Prisma.PayoutRequestCreateOrConnectWithoutSellerInput[]
+  upsert?: Prisma.PayoutRequestUpsertWithWhereUniqueWithoutSellerInput | Prisma.PayoutRequestUpsertWithWhereUniqueWithoutSellerInput[]
+  createMany?: Prisma.PayoutRequestCreateManySellerInputEnvelope
+  set?: Prisma.PayoutRequestWhereUniqueInput | Prisma.PayoutRequestWhereUniqueInput[]
+  disconnect?: Prisma.PayoutRequestWhereUniqueInput | Prisma.PayoutRequestWhereUniqueInput[]
+  delete?: Prisma.PayoutRequestWhereUniqueInput | Prisma.PayoutRequestWhereUniqueInput[]
+  connect?: Prisma.PayoutRequestWhereUniqueInput | Prisma.PayoutRequestWhereUniqueInput[]
+  update?: Prisma.PayoutRequestUpdateWithWhereUniqueWithoutSellerInput | Prisma.PayoutRequestUpdateWithWhereUniqueWithoutSellerInput[]
+  updateMany?: Prisma.PayoutRequestUpdateManyWithWhereWithoutSellerInput | Prisma.PayoutRequestUpdateManyWithWhereWithoutSellerInput[]
+  deleteMany?: Prisma.PayoutRequestScalarWhereInput | Prisma.PayoutRequestScalarWhereInput[]
+}
+
+export type PayoutRequestUncheckedUpdateManyWithoutSellerNestedInput = {
+  create?: Prisma.XOR<Prisma.PayoutRequestCreateWithoutSellerInput, Prisma.PayoutRequestUncheckedCreateWithoutSellerInput> | Prisma.PayoutRequestCreateWithoutSellerInput[] | Prisma.PayoutRequestUncheckedCreateWithoutSellerInput[]
+  connectOrCreate?: Prisma.PayoutRequestCreateOrConnectWithoutSellerInput | Prisma.PayoutRequestCreateOrConnectWithoutSellerInput[]
+  upsert?: Prisma.PayoutRequestUpsertWithWhereUniqueWithoutSellerInput | Prisma.PayoutRequestUpsertWithWhereUniqueWithoutSellerInput[]
+  createMany?: Prisma.PayoutRequestCreateManySellerInputEnvelope
+  set?: Prisma.PayoutRequestWhereUniqueInput | Prisma.PayoutRequestWhereUniqueInput[]
+  disconnect?: Prisma.PayoutRequestWhereUniqueInput | Prisma.PayoutRequestWhereUniqueInput[]
+  delete?: Prisma.PayoutRequestWhereUniqueInput | Prisma.PayoutRequestWhereUniqueInput[]
+  connect?: Prisma.PayoutRequestWhereUniqueInput | Prisma.PayoutRequestWhereUniqueInput[]
+  update?: Prisma.PayoutRequestUpdateWithWhereUniqueWithoutSellerInput | Prisma.PayoutRequestUpdateWithWhereUniqueWithoutSellerInput[]
+  updateMany?: Prisma.PayoutRequestUpdateManyWithWhereWithoutSellerInput | Prisma.PayoutRequestUpdateManyWithWhereWithoutSellerInput[]
+  deleteMany?: Prisma.PayoutRequestScalarWhereInput | Prisma.PayoutRequestScalarWhereInput[]
+}
+
+export type PayoutRequestCreateWithoutLedgerEntryInput = {
+  id?: string
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  status?: $Enums.PayoutStatus
+  note?: string | null
+  reviewedBy?: string | null
+  reviewedAt?: Date | string | null
+  reviewNote?: string | null
+  reference?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  seller: Prisma.UserCreateNestedOneWithoutPayoutRequestsInput
+}
+
+export type PayoutRequestUncheckedCreateWithoutLedgerEntryInput = {
+  id?: string
+  sellerId: string
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  status?: $Enums.PayoutStatus
+  note?: string | null
+  reviewedBy?: string | null
+  reviewedAt?: Date | string | null
+  reviewNote?: string | null
+  reference?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type PayoutRequestCreateOrConnectWithoutLedgerEntryInput = {
+  where: Prisma.PayoutRequestWhereUniqueInput
+  create: Prisma.XOR<Prisma.PayoutRequestCreateWithoutLedgerEntryInput, Prisma.PayoutRequestUncheckedCreateWithoutLedgerEntryInput>
+}
+
+export type PayoutRequestUpsertWithoutLedgerEntryInput = {
+  update: Prisma.XOR<Prisma.PayoutRequestUpdateWithoutLedgerEntryInput, Prisma.PayoutRequestUncheckedUpdateWithoutLedgerEntryInput>
+  create: Prisma.XOR<Prisma.PayoutRequestCreateWithoutLedgerEntryInput, Prisma.PayoutRequestUncheckedCreateWithoutLedgerEntryInput>
+  where?: Prisma.PayoutRequestWhereInput
+}
+
+export type PayoutRequestUpdateToOneWithWhereWithoutLedgerEntryInput = {
+  where?: Prisma.PayoutRequestWhereInput
+  data: Prisma.XOR<Prisma.PayoutRequestUpdateWithoutLedgerEntryInput, Prisma.PayoutRequestUncheckedUpdateWithoutLedgerEntryInput>
+}
+
+export type PayoutRequestUpdateWithoutLedgerEntryInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  status?: Prisma.EnumPayoutStatusFieldUpdateOperationsInput | $Enums.PayoutStatus
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reference?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  seller?: Prisma.UserUpdateOneRequiredWithoutPayoutRequestsNestedInput
+}
+
+export type PayoutRequestUncheckedUpdateWithoutLedgerEntryInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  sellerId?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  status?: Prisma.EnumPayoutStatusFieldUpdateOperationsInput | $Enums.PayoutStatus
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reference?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type PayoutRequestCreateWithoutSellerInput = {
+  id?: string
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  status?: $Enums.PayoutStatus
+  note?: string | null
+  reviewedBy?: string | null
+  reviewedAt?: Date | string | null
+  reviewNote?: string | null
+  reference?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  ledgerEntry?: Prisma.SellerLedgerEntryCreateNestedOneWithoutPayoutInput
+}
+
+export type PayoutRequestUncheckedCreateWithoutSellerInput = {
+  id?: string
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  status?: $Enums.PayoutStatus
+  note?: string | null
+  reviewedBy?: string | null
+  reviewedAt?: Date | string | null
+  reviewNote?: string | null
+  reference?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  ledgerEntry?: Prisma.SellerLedgerEntryUncheckedCreateNestedOneWithoutPayoutInput
+}
+
+export type PayoutRequestCreateOrConnectWithoutSellerInput = {
+  where: Prisma.PayoutRequestWhereUniqueInput
+  create: Prisma.XOR<Prisma.PayoutRequestCreateWithoutSellerInput, Prisma.PayoutRequestUncheckedCreateWithoutSellerInput>
+}
+
+export type PayoutRequestCreateManySellerInputEnvelope = {
+  data: Prisma.PayoutRequestCreateManySellerInput | Prisma.PayoutRequestCreateManySellerInput[]
+  skipDuplicates?: boolean
+}
+
+export type PayoutRequestUpsertWithWhereUniqueWithoutSellerInput = {
+  where: Prisma.PayoutRequestWhereUniqueInput
+  update: Prisma.XOR<Prisma.PayoutRequestUpdateWithoutSellerInput, Prisma.PayoutRequestUncheckedUpdateWithoutSellerInput>
+  create: Prisma.XOR<Prisma.PayoutRequestCreateWithoutSellerInput, Prisma.PayoutRequestUncheckedCreateWithoutSellerInput>
+}
+
+export type PayoutRequestUpdateWithWhereUniqueWithoutSellerInput = {
+  where: Prisma.PayoutRequestWhereUniqueInput
+  data: Prisma.XOR<Prisma.PayoutRequestUpdateWithoutSellerInput, Prisma.PayoutRequestUncheckedUpdateWithoutSellerInput>
+}
+
+export type PayoutRequestUpdateManyWithWhereWithoutSellerInput = {
+  where: Prisma.PayoutRequestScalarWhereInput
+  data: Prisma.XOR<Prisma.PayoutRequestUpdateManyMutationInput, Prisma.PayoutRequestUncheckedUpdateManyWithoutSellerInput>
+}
+
+export type PayoutRequestScalarWhereInput = {
+  AND?: Prisma.PayoutRequestScalarWhereInput | Prisma.PayoutRequestScalarWhereInput[]
+  OR?: Prisma.PayoutRequestScalarWhereInput[]
+  NOT?: Prisma.PayoutRequestScalarWhereInput | Prisma.PayoutRequestScalarWhereInput[]
+  id?: Prisma.StringFilter<"PayoutRequest"> | string
+  sellerId?: Prisma.StringFilter<"PayoutRequest"> | string
+  amount?: Prisma.DecimalFilter<"PayoutRequest"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  status?: Prisma.EnumPayoutStatusFilter<"PayoutRequest"> | $Enums.PayoutStatus
+  note?: Prisma.StringNullableFilter<"PayoutRequest"> | string | null
+  reviewedBy?: Prisma.StringNullableFilter<"PayoutRequest"> | string | null
+  reviewedAt?: Prisma.DateTimeNullableFilter<"PayoutRequest"> | Date | string | null
+  reviewNote?: Prisma.StringNullableFilter<"PayoutRequest"> | string | null
+  reference?: Prisma.StringNullableFilter<"PayoutRequest"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"PayoutRequest"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"PayoutRequest"> | Date | string
+}
+
+export type PayoutRequestCreateManySellerInput = {
+  id?: string
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  status?: $Enums.PayoutStatus
+  note?: string | null
+  reviewedBy?: string | null
+  reviewedAt?: Date | string | null
+  reviewNote?: string | null
+  reference?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type PayoutRequestUpdateWithoutSellerInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  status?: Prisma.EnumPayoutStatusFieldUpdateOperationsInput | $Enums.PayoutStatus
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reference?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  ledgerEntry?: Prisma.SellerLedgerEntryUpdateOneWithoutPayoutNestedInput
+}
+
+export type PayoutRequestUncheckedUpdateWithoutSellerInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  status?: Prisma.EnumPayoutStatusFieldUpdateOperationsInput | $Enums.PayoutStatus
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reference?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  ledgerEntry?: Prisma.SellerLedgerEntryUncheckedUpdateOneWithoutPayoutNestedInput
+}
+
+export type PayoutRequestUncheckedUpdateManyWithoutSellerInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  status?: Prisma.EnumPayoutStatusFieldUpdateOperationsInput | $Enums.PayoutStatus
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reference?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type PayoutRequestSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  sellerId?: boolean
+  amount?: boolean
+  status?: boolean
+  note?: boolean
+  reviewedBy?: boolean
+  reviewedAt?: boolean
+  reviewNote?: boolean
+  reference?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  seller?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  ledgerEntry?: boolean | Prisma.PayoutRequest$ledgerEntryArgs<ExtArgs>
+}, ExtArgs["result"]["payoutRequest"]>
+
+export type PayoutRequestSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  sellerId?: boolean
+  amount?: boolean
+  status?: boolean
+  note?: boolean
+  reviewedBy?: boolean
+  reviewedAt?: boolean
+  reviewNote?: boolean
+  reference?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  seller?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["payoutRequest"]>
+
+export type PayoutRequestSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  sellerId?: boolean
+  amount?: boolean
+  status?: boolean
+  note?: boolean
+  reviewedBy?: boolean
+  reviewedAt?: boolean
+  reviewNote?: boolean
+  reference?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  seller?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["payoutRequest"]>
+
+export type PayoutRequestSelectScalar = {
+  id?: boolean
+  sellerId?: boolean
+  amount?: boolean
+  status?: boolean
+  note?: boolean
+  reviewedBy?: boolean
+  reviewedAt?: boolean
+  reviewNote?: boolean
+  reference?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}
+
+export type PayoutRequestOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "sellerId" | "amount" | "status" | "note" | "reviewedBy" | "reviewedAt" | "reviewNote" | "reference" | "createdAt" | "updatedAt", ExtArgs["result"]["payoutRequest"]>
+export type PayoutRequestInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  seller?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  ledgerEntry?: boolean | Prisma.PayoutRequest$ledgerEntryArgs<ExtArgs>
+}
+export type PayoutRequestIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  seller?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+export type PayoutRequestIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  seller?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+
+export type $PayoutRequestPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "PayoutRequest"
+  objects: {
+    seller: Prisma.$UserPayload<ExtArgs>
+    ledgerEntry: Prisma.$SellerLedgerEntryPayload<ExtArgs> | null
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    sellerId: string
+    amount: runtime.Decimal
+    status: $Enums.PayoutStatus
+    note: string | null
+    reviewedBy: string | null
+    reviewedAt: Date | null
+    reviewNote: string | null
+    reference: string | null
+    createdAt: Date
+    updatedAt: Date
+  }, ExtArgs["result"]["payoutRequest"]>
+  composites: {}
+}
+
+export type PayoutRequestGetPayload<S extends boolean | null | undefined | PayoutRequestDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$PayoutRequestPayload, S>
+
+export type PayoutRequestCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<PayoutRequestFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: PayoutRequestCountAggregateInputType | true
+  }
+
+export interface PayoutRequestDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['PayoutRequest'], meta: { name: 'PayoutRequest' } }
+  /**
+   * Find zero or one PayoutRequest that matches the filter.
+   * @param {PayoutRequestFindUniqueArgs} args - Arguments to find a PayoutRequest
+   * @example
+   * // Get one PayoutRequest
+   * const payoutRequest = await prisma.payoutRequest.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends PayoutRequestFindUniqueArgs>(args: Prisma.SelectSubset<T, PayoutRequestFindUniqueArgs<ExtArgs>>): Prisma.Prisma__PayoutRequestClient<runtime.Types.Result.GetResult<Prisma.$PayoutRequestPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one PayoutRequest that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {PayoutRequestFindUniqueOrThrowArgs} args - Arguments to find a PayoutRequest
+   * @example
+   * // Get one PayoutRequest
+   * const payoutRequest = await prisma.payoutRequest.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends PayoutRequestFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, PayoutRequestFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__PayoutRequestClient<runtime.Types.Result.GetResult<Prisma.$PayoutRequestPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first PayoutRequest that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PayoutRequestFindFirstArgs} args - Arguments to find a PayoutRequest
+   * @example
+   * // Get one PayoutRequest
+   * const payoutRequest = await prisma.payoutRequest.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends PayoutRequestFindFirstArgs>(args?: Prisma.SelectSubset<T, PayoutRequestFindFirstArgs<ExtArgs>>): Prisma.Prisma__PayoutRequestClient<runtime.Types.Result.GetResult<Prisma.$PayoutRequestPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first PayoutRequest that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PayoutRequestFindFirstOrThrowArgs} args - Arguments to find a PayoutRequest
+   * @example
+   * // Get one PayoutRequest
+   * const payoutRequest = await prisma.payoutRequest.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends PayoutRequestFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, PayoutRequestFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__PayoutRequestClient<runtime.Types.Result.GetResult<Prisma.$PayoutRequestPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more PayoutRequests that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PayoutRequestFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all PayoutRequests
+   * const payoutRequests = await prisma.payoutRequest.findMany()
+   * 
+   * // Get first 10 PayoutRequests
+   * const payoutRequests = await prisma.payoutRequest.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const payoutRequestWithIdOnly = await prisma.payoutRequest.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends PayoutRequestFindManyArgs>(args?: Prisma.SelectSubset<T, PayoutRequestFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$PayoutRequestPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a PayoutRequest.
+   * @param {PayoutRequestCreateArgs} args - Arguments to create a PayoutRequest.
+   * @example
+   * // Create one PayoutRequest
+   * const PayoutRequest = await prisma.payoutRequest.create({
+   *   data: {
+   *     // ... data to create a PayoutRequest
+   *   }
+   * })
+   * 
+   */
+  create<T extends PayoutRequestCreateArgs>(args: Prisma.SelectSubset<T, PayoutRequestCreateArgs<ExtArgs>>): Prisma.Prisma__PayoutRequestClient<runtime.Types.Result.GetResult<Prisma.$PayoutRequestPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many PayoutRequests.
+   * @param {PayoutRequestCreateManyArgs} args - Arguments to create many PayoutRequests.
+   * @example
+   * // Create many PayoutRequests
+   * const payoutRequest = await prisma.payoutRequest.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends PayoutRequestCreateManyArgs>(args?: Prisma.SelectSubset<T, PayoutRequestCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many PayoutRequests and returns the data saved in the database.
+   * @param {PayoutRequestCreateManyAndReturnArgs} args - Arguments to create many PayoutRequests.
+   * @example
+   * // Create many PayoutRequests
+   * const payoutRequest = await prisma.payoutRequest.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many PayoutRequests and only return the `id`
+   * const payoutRequestWithIdOnly = await prisma.payoutRequest.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends PayoutRequestCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, PayoutRequestCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$PayoutRequestPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a PayoutRequest.
+   * @param {PayoutRequestDeleteArgs} args - Arguments to delete one PayoutRequest.
+   * @example
+   * // Delete one PayoutRequest
+   * const PayoutRequest = await prisma.payoutRequest.delete({
+   *   where: {
+   *     // ... filter to delete one PayoutRequest
+   *   }
+   * })
+   * 
+   */
+  delete<T extends PayoutRequestDeleteArgs>(args: Prisma.SelectSubset<T, PayoutRequestDeleteArgs<ExtArgs>>): Prisma.Prisma__PayoutRequestClient<runtime.Types.Result.GetResult<Prisma.$PayoutRequestPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one PayoutRequest.
+   * @param {PayoutRequestUpdateArgs} args - Arguments to update one PayoutRequest.
+   * @example
+   * // Update one PayoutRequest
+   * const payoutRequest = await prisma.payoutRequest.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends PayoutRequestUpdateArgs>(args: Prisma.SelectSubset<T, PayoutRequestUpdateArgs<ExtArgs>>): Prisma.Prisma__PayoutRequestClient<runtime.Types.Result.GetResult<Prisma.$PayoutRequestPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more PayoutRequests.
+   * @param {PayoutRequestDeleteManyArgs} args - Arguments to filter PayoutRequests to delete.
+   * @example
+   * // Delete a few PayoutRequests
+   * const { count } = await prisma.payoutRequest.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends PayoutRequestDeleteManyArgs>(args?: Prisma.SelectSubset<T, PayoutRequestDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more PayoutRequests.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PayoutRequestUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many PayoutRequests
+   * const payoutRequest = await prisma.payoutRequest.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends PayoutRequestUpdateManyArgs>(args: Prisma.SelectSubset<T, PayoutRequestUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more PayoutRequests and returns the data updated in the database.
+   * @param {PayoutRequestUpdateManyAndReturnArgs} args - Arguments to update many PayoutRequests.
+   * @example
+   * // Update many PayoutRequests
+   * const payoutRequest = await prisma.payoutRequest.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more PayoutRequests and only return the `id`
+   * const payoutRequestWithIdOnly = await prisma.payoutRequest.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends PayoutRequestUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, PayoutRequestUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$PayoutRequestPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one PayoutRequest.
+   * @param {PayoutRequestUpsertArgs} args - Arguments to update or create a PayoutRequest.
+   * @example
+   * // Update or create a PayoutRequest
+   * const payoutRequest = await prisma.payoutRequest.upsert({
+   *   create: {
+   *     // ... data to create a PayoutRequest
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the PayoutRequest we want to update
+   *   }
+   * })
+   */
+  upsert<T extends PayoutRequestUpsertArgs>(args: Prisma.SelectSubset<T, PayoutRequestUpsertArgs<ExtArgs>>): Prisma.Prisma__PayoutRequestClient<runtime.Types.Result.GetResult<Prisma.$PayoutRequestPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of PayoutRequests.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PayoutRequestCountArgs} args - Arguments to filter PayoutRequests to count.
+   * @example
+   * // Count the number of PayoutRequests
+   * const count = await prisma.payoutRequest.count({
+   *   where: {
+   *     // ... the filter for the PayoutRequests we want to count
+   *   }
+   * })
+  **/
+  count<T extends PayoutRequestCountArgs>(
+    args?: Prisma.Subset<T, PayoutRequestCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], PayoutRequestCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a PayoutRequest.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PayoutRequestAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends PayoutRequestAggregateArgs>(args: Prisma.Subset<T, PayoutRequestAggregateArgs>): Prisma.PrismaPromise<GetPayoutRequestAggregateType<T>>
+
+  /**
+   * Group by PayoutRequest.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PayoutRequestGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends PayoutRequestGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: PayoutRequestGroupByArgs['orderBy'] }
+      : { orderBy?: PayoutRequestGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, PayoutRequestGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetPayoutRequestGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the PayoutRequest model
+ */
+readonly fields: PayoutRequestFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for PayoutRequest.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__PayoutRequestClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  seller<T extends Prisma.UserDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.UserDefaultArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  ledgerEntry<T extends Prisma.PayoutRequest$ledgerEntryArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.PayoutRequest$ledgerEntryArgs<ExtArgs>>): Prisma.Prisma__SellerLedgerEntryClient<runtime.Types.Result.GetResult<Prisma.$SellerLedgerEntryPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the PayoutRequest model
+ */
+export interface PayoutRequestFieldRefs {
+  readonly id: Prisma.FieldRef<"PayoutRequest", 'String'>
+  readonly sellerId: Prisma.FieldRef<"PayoutRequest", 'String'>
+  readonly amount: Prisma.FieldRef<"PayoutRequest", 'Decimal'>
+  readonly status: Prisma.FieldRef<"PayoutRequest", 'PayoutStatus'>
+  readonly note: Prisma.FieldRef<"PayoutRequest", 'String'>
+  readonly reviewedBy: Prisma.FieldRef<"PayoutRequest", 'String'>
+  readonly reviewedAt: Prisma.FieldRef<"PayoutRequest", 'DateTime'>
+  readonly reviewNote: Prisma.FieldRef<"PayoutRequest", 'String'>
+  readonly reference: Prisma.FieldRef<"PayoutRequest", 'String'>
+  readonly createdAt: Prisma.FieldRef<"PayoutRequest", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"PayoutRequest", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * PayoutRequest findUnique
+ */
+export type PayoutRequestFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PayoutRequest
+   */
+  select?: Prisma.PayoutRequestSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PayoutRequest
+   */
+  omit?: Prisma.PayoutRequestOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PayoutRequestInclude<ExtArgs> | null
+  /**
+   * Filter, which PayoutRequest to fetch.
+   */
+  where: Prisma.PayoutRequestWhereUniqueInput
+}
+
+/**
+ * PayoutRequest findUniqueOrThrow
+ */
+export type PayoutRequestFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PayoutRequest
+   */
+  select?: Prisma.PayoutRequestSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PayoutRequest
+   */
+  omit?: Prisma.PayoutRequestOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PayoutRequestInclude<ExtArgs> | null
+  /**
+   * Filter, which PayoutRequest to fetch.
+   */
+  where: Prisma.PayoutRequestWhereUniqueInput
+}
+
+/**
+ * PayoutRequest findFirst
+ */
+export type PayoutRequestFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PayoutRequest
+   */
+  select?: Prisma.PayoutRequestSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PayoutRequest
+   */
+  omit?: Prisma.PayoutRequestOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PayoutRequestInclude<ExtArgs> | null
+  /**
+   * Filter, which PayoutRequest to fetch.
+   */
+  where?: Prisma.PayoutRequestWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of PayoutRequests to fetch.
+   */
+  orderBy?: Prisma.PayoutRequestOrderByWithRelationInput | Prisma.PayoutRequestOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for PayoutRequests.
+   */
+  cursor?: Prisma.PayoutRequestWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` PayoutRequests from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` PayoutRequests.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of PayoutRequests.
+   */
+  distinct?: Prisma.PayoutRequestScalarFieldEnum | Prisma.PayoutRequestScalarFieldEnum[]
+}
+
+/**
+ * PayoutRequest findFirstOrThrow
+ */
+export type PayoutRequestFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PayoutRequest
+   */
+  select?: Prisma.PayoutRequestSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PayoutRequest
+   */
+  omit?: Prisma.PayoutRequestOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PayoutRequestInclude<ExtArgs> | null
+  /**
+   * Filter, which PayoutRequest to fetch.
+   */
+  where?: Prisma.PayoutRequestWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of PayoutRequests to fetch.
+   */
+  orderBy?: Prisma.PayoutRequestOrderByWithRelationInput | Prisma.PayoutRequestOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for PayoutRequests.
+   */
+  cursor?: Prisma.PayoutRequestWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` PayoutRequests from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` PayoutRequests.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of PayoutRequests.
+   */
+  distinct?: Prisma.PayoutRequestScalarFieldEnum | Prisma.PayoutRequestScalarFieldEnum[]
+}
+
+/**
+ * PayoutRequest findMany
+ */
+export type PayoutRequestFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PayoutRequest
+   */
+  select?: Prisma.PayoutRequestSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PayoutRequest
+   */
+  omit?: Prisma.PayoutRequestOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PayoutRequestInclude<ExtArgs> | null
+  /**
+   * Filter, which PayoutRequests to fetch.
+   */
+  where?: Prisma.PayoutRequestWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of PayoutRequests to fetch.
+   */
+  orderBy?: Prisma.PayoutRequestOrderByWithRelationInput | Prisma.PayoutRequestOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing PayoutRequests.
+   */
+  cursor?: Prisma.PayoutRequestWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` PayoutRequests from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` PayoutRequests.
+   */
+  skip?: number
+  distinct?: Prisma.PayoutRequestScalarFieldEnum | Prisma.PayoutRequestScalarFieldEnum[]
+}
+
+/**
+ * PayoutRequest create
+ */
+export type PayoutRequestCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PayoutRequest
+   */
+  select?: Prisma.PayoutRequestSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PayoutRequest
+   */
+  omit?: Prisma.PayoutRequestOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PayoutRequestInclude<ExtArgs> | null
+  /**
+   * The data needed to create a PayoutRequest.
+   */
+  data: Prisma.XOR<Prisma.PayoutRequestCreateInput, Prisma.PayoutRequestUncheckedCreateInput>
+}
+
+/**
+ * PayoutRequest createMany
+ */
+export type PayoutRequestCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many PayoutRequests.
+   */
+  data: Prisma.PayoutRequestCreateManyInput | Prisma.PayoutRequestCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * PayoutRequest createManyAndReturn
+ */
+export type PayoutRequestCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PayoutRequest
+   */
+  select?: Prisma.PayoutRequestSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the PayoutRequest
+   */
+  omit?: Prisma.PayoutRequestOmit<ExtArgs> | null
+  /**
+   * The data used to create many PayoutRequests.
+   */
+  data: Prisma.PayoutRequestCreateManyInput | Prisma.PayoutRequestCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PayoutRequestIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * PayoutRequest update
+ */
+export type PayoutRequestUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PayoutRequest
+   */
+  select?: Prisma.PayoutRequestSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PayoutRequest
+   */
+  omit?: Prisma.PayoutRequestOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PayoutRequestInclude<ExtArgs> | null
+  /**
+   * The data needed to update a PayoutRequest.
+   */
+  data: Prisma.XOR<Prisma.PayoutRequestUpdateInput, Prisma.PayoutRequestUncheckedUpdateInput>
+  /**
+   * Choose, which PayoutRequest to update.
+   */
+  where: Prisma.PayoutRequestWhereUniqueInput
+}
+
+/**
+ * PayoutRequest updateMany
+ */
+export type PayoutRequestUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update PayoutRequests.
+   */
+  data: Prisma.XOR<Prisma.PayoutRequestUpdateManyMutationInput, Prisma.PayoutRequestUncheckedUpdateManyInput>
+  /**
+   * Filter which PayoutRequests to update
+   */
+  where?: Prisma.PayoutRequestWhereInput
+  /**
+   * Limit how many PayoutRequests to update.
+   */
+  limit?: number
+}
+
+/**
+ * PayoutRequest updateManyAndReturn
+ */
+export type PayoutRequestUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PayoutRequest
+   */
+  select?: Prisma.PayoutRequestSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the PayoutRequest
+   */
+  omit?: Prisma.PayoutRequestOmit<ExtArgs> | null
+  /**
+   * The data used to update PayoutRequests.
+   */
+  data: Prisma.XOR<Prisma.PayoutRequestUpdateManyMutationInput, Prisma.PayoutRequestUncheckedUpdateManyInput>
+  /**
+   * Filter which PayoutRequests to update
+   */
+  where?: Prisma.PayoutRequestWhereInput
+  /**
+   * Limit how many PayoutRequests to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PayoutRequestIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * PayoutRequest upsert
+ */
+export type PayoutRequestUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PayoutRequest
+   */
+  select?: Prisma.PayoutRequestSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PayoutRequest
+   */
+  omit?: Prisma.PayoutRequestOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PayoutRequestInclude<ExtArgs> | null
+  /**
+   * The filter to search for the PayoutRequest to update in case it exists.
+   */
+  where: Prisma.PayoutRequestWhereUniqueInput
+  /**
+   * In case the PayoutRequest found by the `where` argument doesn't exist, create a new PayoutRequest with this data.
+   */
+  create: Prisma.XOR<Prisma.PayoutRequestCreateInput, Prisma.PayoutRequestUncheckedCreateInput>
+  /**
+   * In case the PayoutRequest was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.PayoutRequestUpdateInput, Prisma.PayoutRequestUncheckedUpdateInput>
+}
+
+/**
+ * PayoutRequest delete
+ */
+export type PayoutRequestDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PayoutRequest
+   */
+  select?: Prisma.PayoutRequestSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PayoutRequest
+   */
+  omit?: Prisma.PayoutRequestOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PayoutRequestInclude<ExtArgs> | null
+  /**
+   * Filter which PayoutRequest to delete.
+   */
+  where: Prisma.PayoutRequestWhereUniqueInput
+}
+
+/**
+ * PayoutRequest deleteMany
+ */
+export type PayoutRequestDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which PayoutRequests to delete
+   */
+  where?: Prisma.PayoutRequestWhereInput
+  /**
+   * Limit how many PayoutRequests to delete.
+   */
+  limit?: number
+}
+
+/**
+ * PayoutRequest.ledgerEntry
+ */
+export type PayoutRequest$ledgerEntryArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SellerLedgerEntry
+   */
+  select?: Prisma.SellerLedgerEntrySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SellerLedgerEntry
+   */
+  omit?: Prisma.SellerLedgerEntryOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SellerLedgerEntryInclude<ExtArgs> | null
+  where?: Prisma.SellerLedgerEntryWhereInput
+}
+
+/**
+ * PayoutRequest without action
+ */
+export type PayoutRequestDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PayoutRequest
+   */
+  select?: Prisma.PayoutRequestSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PayoutRequest
+   */
+  omit?: Prisma.PayoutRequestOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PayoutRequestInclude<ExtArgs> | null
+}
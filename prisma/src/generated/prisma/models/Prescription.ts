@@ -0,0 +1,2037 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `Prescription` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model Prescription
+ * 
+ */
+export type PrescriptionModel = runtime.Types.Result.DefaultSelection<Prisma.$PrescriptionPayload>
+
+export type AggregatePrescription = {
+  _count: PrescriptionCountAggregateOutputType | null
+  _min: PrescriptionMinAggregateOutputType | null
+  _max: PrescriptionMaxAggregateOutputType | null
+}
+
+export type PrescriptionMinAggregateOutputType = {
+  id: string | null
+  userId: string | null
+  fileUrl: string | null
+  fileType: $Enums.PrescriptionFileType | null
+  patientName: string | null
+  doctorName: string | null
+  doctorRegNo: string | null
+  issueDate: Date | null
+  expiryDate: Date | null
+  status: $Enums.PrescriptionStatus | null
+  reviewedBy: string | null
+  reviewedAt: Date | null
+  reviewNote: string | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type PrescriptionMaxAggregateOutputType = {
+  id: string | null
+  userId: string | null
+  fileUrl: string | null
+  fileType: $Enums.PrescriptionFileType | null
+  patientName: string | null
+  doctorName: string | null
+  doctorRegNo: string | null
+  issueDate: Date | null
+  expiryDate: Date | null
+  status: $Enums.PrescriptionStatus | null
+  reviewedBy: string | null
+  reviewedAt: Date | null
+  reviewNote: string | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type PrescriptionCountAggregateOutputType = {
+  id: number
+  userId: number
+  fileUrl: number
+  fileType: number
+  patientName: number
+  doctorName: number
+  doctorRegNo: number
+  issueDate: number
+  expiryDate: number
+  status: number
+  reviewedBy: number
+  reviewedAt: number
+  reviewNote: number
+  createdAt: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type PrescriptionMinAggregateInputType = {
+  id?: true
+  userId?: true
+  fileUrl?: true
+  fileType?: true
+  patientName?: true
+  doctorName?: true
+  doctorRegNo?: true
+  issueDate?: true
+  expiryDate?: true
+  status?: true
+  reviewedBy?: true
+  reviewedAt?: true
+  reviewNote?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type PrescriptionMaxAggregateInputType = {
+  id?: true
+  userId?: true
+  fileUrl?: true
+  fileType?: true
+  patientName?: true
+  doctorName?: true
+  doctorRegNo?: true
+  issueDate?: true
+  expiryDate?: true
+  status?: true
+  reviewedBy?: true
+  reviewedAt?: true
+  reviewNote?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type PrescriptionCountAggregateInputType = {
+  id?: true
+  userId?: true
+  fileUrl?: true
+  fileType?: true
+  patientName?: true
+  doctorName?: true
+  doctorRegNo?: true
+  issueDate?: true
+  expiryDate?: true
+  status?: true
+  reviewedBy?: true
+  reviewedAt?: true
+  reviewNote?: true
+  createdAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type PrescriptionAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which Prescription to aggregate.
+   */
+  where?: Prisma.PrescriptionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Prescriptions to fetch.
+   */
+  orderBy?: Prisma.PrescriptionOrderByWithRelationInput | Prisma.PrescriptionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.PrescriptionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Prescriptions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Prescriptions.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned Prescriptions
+  **/
+  _count?: true | PrescriptionCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: PrescriptionMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: PrescriptionMaxAggregateInputType
+}
+
+export type GetPrescriptionAggregateType<T extends PrescriptionAggregateArgs> = {
+      [P in keyof T & keyof AggregatePrescription]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregatePrescription[P]>
+    : Prisma.GetScalarType<T[P], AggregatePrescription[P]>
+}
+
+
+
+
+export type PrescriptionGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.PrescriptionWhereInput
+  orderBy?: Prisma.PrescriptionOrderByWithAggregationInput | Prisma.PrescriptionOrderByWithAggregationInput[]
+  by: Prisma.PrescriptionScalarFieldEnum[] | Prisma.PrescriptionScalarFieldEnum
+  having?: Prisma.PrescriptionScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: PrescriptionCountAggregateInputType | true
+  _min?: PrescriptionMinAggregateInputType
+  _max?: PrescriptionMaxAggregateInputType
+}
+
+export type PrescriptionGroupByOutputType = {
+  id: string
+  userId: string
+  fileUrl: string
+  fileType: $Enums.PrescriptionFileType
+  patientName: string
+  doctorName: string
+  doctorRegNo: string | null
+  issueDate: Date
+  expiryDate: Date | null
+  status: $Enums.PrescriptionStatus
+  reviewedBy: string | null
+  reviewedAt: Date | null
+  reviewNote: string | null
+  createdAt: Date
+  updatedAt: Date
+  _count: PrescriptionCountAggregateOutputType | null
+  _min: PrescriptionMinAggregateOutputType | null
+  _max: PrescriptionMaxAggregateOutputType | null
+}
+
+type GetPrescriptionGroupByPayload<T extends PrescriptionGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<PrescriptionGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof PrescriptionGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], PrescriptionGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], PrescriptionGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type PrescriptionWhereInput = {
+  AND?: Prisma.PrescriptionWhereInput | Prisma.PrescriptionWhereInput[]
+  OR?: Prisma.PrescriptionWhereInput[]
+  NOT?: Prisma.PrescriptionWhereInput | Prisma.PrescriptionWhereInput[]
+  id?: Prisma.StringFilter<"Prescription"> | string
+  userId?: Prisma.StringFilter<"Prescription"> | string
+  fileUrl?: Prisma.StringFilter<"Prescription"> | string
+  fileType?: Prisma.EnumPrescriptionFileTypeFilter<"Prescription"> | $Enums.PrescriptionFileType
+  patientName?: Prisma.StringFilter<"Prescription"> | string
+  doctorName?: Prisma.StringFilter<"Prescription"> | string
+  doctorRegNo?: Prisma.StringNullableFilter<"Prescription"> | string | null
+  issueDate?: Prisma.DateTimeFilter<"Prescription"> | Date | string
+  expiryDate?: Prisma.DateTimeNullableFilter<"Prescription"> | Date | string | null
+  status?: Prisma.EnumPrescriptionStatusFilter<"Prescription"> | $Enums.PrescriptionStatus
+  reviewedBy?: Prisma.StringNullableFilter<"Prescription"> | string | null
+  reviewedAt?: Prisma.DateTimeNullableFilter<"Prescription"> | Date | string | null
+  reviewNote?: Prisma.StringNullableFilter<"Prescription"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"Prescription"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"Prescription"> | Date | string
+  user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+  cartItems?: Prisma.CartItemListRelationFilter
+  orderItems?: Prisma.OrderItemListRelationFilter
+}
+
+export type PrescriptionOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  fileUrl?: Prisma.SortOrder
+  fileType?: Prisma.SortOrder
+  patientName?: Prisma.SortOrder
+  doctorName?: Prisma.SortOrder
+  doctorRegNo?: Prisma.SortOrderInput | Prisma.SortOrder
+  issueDate?: Prisma.SortOrder
+  expiryDate?: Prisma.SortOrderInput | Prisma.SortOrder
+  status?: Prisma.SortOrder
+  reviewedBy?: Prisma.SortOrderInput | Prisma.SortOrder
+  reviewedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  reviewNote?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  user?: Prisma.UserOrderByWithRelationInput
+  cartItems?: Prisma.CartItemOrderByRelationAggregateInput
+  orderItems?: Prisma.OrderItemOrderByRelationAggregateInput
+}
+
+export type PrescriptionWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  AND?: Prisma.PrescriptionWhereInput | Prisma.PrescriptionWhereInput[]
+  OR?: Prisma.PrescriptionWhereInput[]
+  NOT?: Prisma.PrescriptionWhereInput | Prisma.PrescriptionWhereInput[]
+  userId?: Prisma.StringFilter<"Prescription"> | string
+  fileUrl?: Prisma.StringFilter<"Prescription"> | string
+  fileType?: Prisma.EnumPrescriptionFileTypeFilter<"Prescription"> | $Enums.PrescriptionFileType
+  patientName?: Prisma.StringFilter<"Prescription"> | string
+  doctorName?: Prisma.StringFilter<"Prescription"> | string
+  doctorRegNo?: Prisma.StringNullableFilter<"Prescription"> | string | null
+  issueDate?: Prisma.DateTimeFilter<"Prescription"> | Date | string
+  expiryDate?: Prisma.DateTimeNullableFilter<"Prescription"> | Date | string | null
+  status?: Prisma.EnumPrescriptionStatusFilter<"Prescription"> | $Enums.PrescriptionStatus
+  reviewedBy?: Prisma.StringNullableFilter<"Prescription"> | string | null
+  reviewedAt?: Prisma.DateTimeNullableFilter<"Prescription"> | Date | string | null
+  reviewNote?: Prisma.StringNullableFilter<"Prescription"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"Prescription"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"Prescription"> | Date | string
+  user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+  cartItems?: Prisma.CartItemListRelationFilter
+  orderItems?: Prisma.OrderItemListRelationFilter
+}, "id">
+
+export type PrescriptionOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  fileUrl?: Prisma.SortOrder
+  fileType?: Prisma.SortOrder
+  patientName?: Prisma.SortOrder
+  doctorName?: Prisma.SortOrder
+  doctorRegNo?: Prisma.SortOrderInput | Prisma.SortOrder
+  issueDate?: Prisma.SortOrder
+  expiryDate?: Prisma.SortOrderInput | Prisma.SortOrder
+  status?: Prisma.SortOrder
+  reviewedBy?: Prisma.SortOrderInput | Prisma.SortOrder
+  reviewedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  reviewNote?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.PrescriptionCountOrderByAggregateInput
+  _max?: Prisma.PrescriptionMaxOrderByAggregateInput
+  _min?: Prisma.PrescriptionMinOrderByAggregateInput
+}
+
+export type PrescriptionScalarWhereWithAggregatesInput = {
+  AND?: Prisma.PrescriptionScalarWhereWithAggregatesInput | Prisma.PrescriptionScalarWhereWithAggregatesInput[]
+  OR?: Prisma.PrescriptionScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.PrescriptionScalarWhereWithAggregatesInput | Prisma.PrescriptionScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"Prescription"> | string
+  userId?: Prisma.StringWithAggregatesFilter<"Prescription"> | string
+  fileUrl?: Prisma.StringWithAggregatesFilter<"Prescription"> | string
+  fileType?: Prisma.EnumPrescriptionFileTypeWithAggregatesFilter<"Prescription"> | $Enums.PrescriptionFileType
+  patientName?: Prisma.StringWithAggregatesFilter<"Prescription"> | string
+  doctorName?: Prisma.StringWithAggregatesFilter<"Prescription"> | string
+  doctorRegNo?: Prisma.StringNullableWithAggregatesFilter<"Prescription"> | string | null
+  issueDate?: Prisma.DateTimeWithAggregatesFilter<"Prescription"> | Date | string
+  expiryDate?: Prisma.DateTimeNullableWithAggregatesFilter<"Prescription"> | Date | string | null
+  status?: Prisma.EnumPrescriptionStatusWithAggregatesFilter<"Prescription"> | $Enums.PrescriptionStatus
+  reviewedBy?: Prisma.StringNullableWithAggregatesFilter<"Prescription"> | string | null
+  reviewedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"Prescription"> | Date | string | null
+  reviewNote?: Prisma.StringNullableWithAggregatesFilter<"Prescription"> | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"Prescription"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"Prescription"> | Date | string
+}
+
+export type PrescriptionCreateInput = {
+  id?: string
+  fileUrl: string
+  fileType?: $Enums.PrescriptionFileType
+  patientName: string
+  doctorName: string
+  doctorRegNo?: string | null
+  issueDate: Date | string
+  expiryDate?: Date | string | null
+  status?: $Enums.PrescriptionStatus
+  reviewedBy?: string | null
+  reviewedAt?: Date | string | null
+  reviewNote?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  user: Prisma.UserCreateNestedOneWithoutPrescriptionsInput
+  cartItems?: Prisma.CartItemCreateNestedManyWithoutPrescriptionInput
+  orderItems?: Prisma.OrderItemCreateNestedManyWithoutPrescriptionInput
+}
+
+export type PrescriptionUncheckedCreateInput = {
+  id?: string
+  userId: string
+  fileUrl: string
+  fileType?: $Enums.PrescriptionFileType
+  patientName: string
+  doctorName: string
+  doctorRegNo?: string | null
+  issueDate: Date | string
+  expiryDate?: Date | string | null
+  status?: $Enums.PrescriptionStatus
+  reviewedBy?: string | null
+  reviewedAt?: Date | string | null
+  reviewNote?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  cartItems?: Prisma.CartItemUncheckedCreateNestedManyWithoutPrescriptionInput
+  orderItems?: Prisma.OrderItemUncheckedCreateNestedManyWithoutPrescriptionInput
+}
+
+export type PrescriptionUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  fileUrl?: Prisma.StringFieldUpdateOperationsInput | string
+  fileType?: Prisma.EnumPrescriptionFileTypeFieldUpdateOperationsInput | $Enums.PrescriptionFileType
+  patientName?: Prisma.StringFieldUpdateOperationsInput | string
+  doctorName?: Prisma.StringFieldUpdateOperationsInput | string
+  doctorRegNo?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  issueDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  expiryDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  status?: Prisma.EnumPrescriptionStatusFieldUpdateOperationsInput | $Enums.PrescriptionStatus
+  reviewedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  user?: Prisma.UserUpdateOneRequiredWithoutPrescriptionsNestedInput
+  cartItems?: Prisma.CartItemUpdateManyWithoutPrescriptionNestedInput
+  orderItems?: Prisma.OrderItemUpdateManyWithoutPrescriptionNestedInput
+}
+
+export type PrescriptionUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  fileUrl?: Prisma.StringFieldUpdateOperationsInput | string
+  fileType?: Prisma.EnumPrescriptionFileTypeFieldUpdateOperationsInput | $Enums.PrescriptionFileType
+  patientName?: Prisma.StringFieldUpdateOperationsInput | string
+  doctorName?: Prisma.StringFieldUpdateOperationsInput | string
+  doctorRegNo?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  issueDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  expiryDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  status?: Prisma.EnumPrescriptionStatusFieldUpdateOperationsInput | $Enums.PrescriptionStatus
+  reviewedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  cartItems?: Prisma.CartItemUncheckedUpdateManyWithoutPrescriptionNestedInput
+  orderItems?: Prisma.OrderItemUncheckedUpdateManyWithoutPrescriptionNestedInput
+}
+
+export type PrescriptionCreateManyInput = {
+  id?: string
+  userId: string
+  fileUrl: string
+  fileType?: $Enums.PrescriptionFileType
+  patientName: string
+  doctorName: string
+  doctorRegNo?: string | null
+  issueDate: Date | string
+  expiryDate?: Date | string | null
+  status?: $Enums.PrescriptionStatus
+  reviewedBy?: string | null
+  reviewedAt?: Date | string | null
+  reviewNote?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type PrescriptionUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  fileUrl?: Prisma.StringFieldUpdateOperationsInput | string
+  fileType?: Prisma.EnumPrescriptionFileTypeFieldUpdateOperationsInput | $Enums.PrescriptionFileType
+  patientName?: Prisma.StringFieldUpdateOperationsInput | string
+  doctorName?: Prisma.StringFieldUpdateOperationsInput | string
+  doctorRegNo?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  issueDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  expiryDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  status?: Prisma.EnumPrescriptionStatusFieldUpdateOperationsInput | $Enums.PrescriptionStatus
+  reviewedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type PrescriptionUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  fileUrl?: Prisma.StringFieldUpdateOperationsInput | string
+  fileType?: Prisma.EnumPrescriptionFileTypeFieldUpdateOperationsInput | $Enums.PrescriptionFileType
+  patientName?: Prisma.StringFieldUpdateOperationsInput | string
+  doctorName?: Prisma.StringFieldUpdateOperationsInput | string
+  doctorRegNo?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  issueDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  expiryDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  status?: Prisma.EnumPrescriptionStatusFieldUpdateOperationsInput | $Enums.PrescriptionStatus
+  reviewedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type PrescriptionNullableScalarRelationFilter = {
+  is?: Prisma.PrescriptionWhereInput | null
+  isNot?: Prisma.PrescriptionWhereInput | null
+}
+
+export type PrescriptionCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  fileUrl?: Prisma.SortOrder
+  fileType?: Prisma.SortOrder
+  patientName?: Prisma.SortOrder
+  doctorName?: Prisma.SortOrder
+  doctorRegNo?: Prisma.SortOrder
+  issueDate?: Prisma.SortOrder
+  expiryDate?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  reviewedBy?: Prisma.SortOrder
+  reviewedAt?: Prisma.SortOrder
+  reviewNote?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type PrescriptionMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  fileUrl?: Prisma.SortOrder
+  fileType?: Prisma.SortOrder
+  patientName?: Prisma.SortOrder
+  doctorName?: Prisma.SortOrder
+  doctorRegNo?: Prisma.SortOrder
+  issueDate?: Prisma.SortOrder
+  expiryDate?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  reviewedBy?: Prisma.SortOrder
+  reviewedAt?: Prisma.SortOrder
+  reviewNote?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type PrescriptionMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  fileUrl?: Prisma.SortOrder
+  fileType?: Prisma.SortOrder
+  patientName?: Prisma.SortOrder
+  doctorName?: Prisma.SortOrder
+  doctorRegNo?: Prisma.SortOrder
+  issueDate?: Prisma.SortOrder
+  expiryDate?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  reviewedBy?: Prisma.SortOrder
+  reviewedAt?: Prisma.SortOrder
+  reviewNote?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type PrescriptionListRelationFilter = {
+  every?: Prisma.PrescriptionWhereInput
+  some?: Prisma.PrescriptionWhereInput
+  none?: Prisma.PrescriptionWhereInput
+}
+
+export type PrescriptionOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type PrescriptionCreateNestedOneWithoutCartItemsInput = {
+  create?: Prisma.XOR<Prisma.PrescriptionCreateWithoutCartItemsInput, Prisma.PrescriptionUncheckedCreateWithoutCartItemsInput>
+  connectOrCreate?: Prisma.PrescriptionCreateOrConnectWithoutCartItemsInput
+  connect?: Prisma.PrescriptionWhereUniqueInput
+}
+
+export type PrescriptionUpdateOneWithoutCartItemsNestedInput = {
+  create?: Prisma.XOR<Prisma.PrescriptionCreateWithoutCartItemsInput, Prisma.PrescriptionUncheckedCreateWithoutCartItemsInput>
+  connectOrCreate?: Prisma.PrescriptionCreateOrConnectWithoutCartItemsInput
+  upsert?: Prisma.PrescriptionUpsertWithoutCartItemsInput
+  disconnect?: Prisma.PrescriptionWhereInput | boolean
+  delete?: Prisma.PrescriptionWhereInput | boolean
+  connect?: Prisma.PrescriptionWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.PrescriptionUpdateToOneWithWhereWithoutCartItemsInput, Prisma.PrescriptionUpdateWithoutCartItemsInput>, Prisma.PrescriptionUncheckedUpdateWithoutCartItemsInput>
+}
+
+export type PrescriptionCreateNestedOneWithoutOrderItemsInput = {
+  create?: Prisma.XOR<Prisma.PrescriptionCreateWithoutOrderItemsInput, Prisma.PrescriptionUncheckedCreateWithoutOrderItemsInput>
+  connectOrCreate?: Prisma.PrescriptionCreateOrConnectWithoutOrderItemsInput
+  connect?: Prisma.PrescriptionWhereUniqueInput
+}
+
+export type PrescriptionUpdateOneWithoutOrderItemsNestedInput = {
+  create?: Prisma.XOR<Prisma.PrescriptionCreateWithoutOrderItemsInput, Prisma.PrescriptionUncheckedCreateWithoutOrderItemsInput>
+  connectOrCreate?: Prisma.PrescriptionCreateOrConnectWithoutOrderItemsInput
+  upsert?: Prisma.PrescriptionUpsertWithoutOrderItemsInput
+  disconnect?: Prisma.PrescriptionWhereInput | boolean
+  delete?: Prisma.PrescriptionWhereInput | boolean
+  connect?: Prisma.PrescriptionWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.PrescriptionUpdateToOneWithWhereWithoutOrderItemsInput, Prisma.PrescriptionUpdateWithoutOrderItemsInput>, Prisma.PrescriptionUncheckedUpdateWithoutOrderItemsInput>
+}
+
+export type EnumPrescriptionFileTypeFieldUpdateOperationsInput = {
+  set?: $Enums.PrescriptionFileType
+}
+
+export type EnumPrescriptionStatusFieldUpdateOperationsInput = {
+  set?: $Enums.PrescriptionStatus
+}
+
+export type PrescriptionCreateNestedManyWithoutUserInput = {
+  create?: Prisma.XOR<Prisma.PrescriptionCreateWithoutUserInput, Prisma.PrescriptionUncheckedCreateWithoutUserInput> | Prisma.PrescriptionCreateWithoutUserInput[] | Prisma.PrescriptionUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.PrescriptionCreateOrConnectWithoutUserInput | Prisma.PrescriptionCreateOrConnectWithoutUserInput[]
+  createMany?: Prisma.PrescriptionCreateManyUserInputEnvelope
+  connect?: Prisma.PrescriptionWhereUniqueInput | Prisma.PrescriptionWhereUniqueInput[]
+}
+
+export type PrescriptionUncheckedCreateNestedManyWithoutUserInput = {
+  create?: Prisma.XOR<Prisma.PrescriptionCreateWithoutUserInput, Prisma.PrescriptionUncheckedCreateWithoutUserInput> | Prisma.PrescriptionCreateWithoutUserInput[] | Prisma.PrescriptionUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.PrescriptionCreateOrConnectWithoutUserInput | Prisma.PrescriptionCreateOrConnectWithoutUserInput[]
+  createMany?: Prisma.PrescriptionCreateManyUserInputEnvelope
+  connect?: Prisma.PrescriptionWhereUniqueInput | Prisma.PrescriptionWhereUniqueInput[]
+}
+
+export type PrescriptionUpdateManyWithoutUserNestedInput = {
+  create?: Prisma.XOR<Prisma.PrescriptionCreateWithoutUserInput, Prisma.PrescriptionUncheckedCreateWithoutUserInput> | Prisma.PrescriptionCreateWithoutUserInput[] | Prisma.PrescriptionUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.PrescriptionCreateOrConnectWithoutUserInput | Prisma.PrescriptionCreateOrConnectWithoutUserInput[]
+  upsert?: Prisma.PrescriptionUpsertWithWhereUniqueWithoutUserInput | Prisma.PrescriptionUpsertWithWhereUniqueWithoutUserInput[]
+  createMany?: Prisma.PrescriptionCreateManyUserInputEnvelope
+  set?: Prisma.PrescriptionWhereUniqueInput | Prisma.PrescriptionWhereUniqueInput[]
+  disconnect?: Prisma.PrescriptionWhereUniqueInput | Prisma.PrescriptionWhereUniqueInput[]
+  delete?: Prisma.PrescriptionWhereUniqueInput | Prisma.PrescriptionWhereUniqueInput[]
+  connect?: Prisma.PrescriptionWhereUniqueInput | Prisma.PrescriptionWhereUniqueInput[]
+  update?: Prisma.PrescriptionUpdateWithWhereUniqueWithoutUserInput | Prisma.PrescriptionUpdateWithWhereUniqueWithoutUserInput[]
+  updateMany?: Prisma.PrescriptionUpdateManyWithWhereWithoutUserInput | Prisma.PrescriptionUpdateManyWithWhereWithoutUserInput[]
+  deleteMany?: Prisma.PrescriptionScalarWhereInput | Prisma.PrescriptionScalarWhereInput[]
+}
+
+export type PrescriptionUncheckedUpdateManyWithoutUserNestedInput = {
+  create?: Prisma.XOR<Prisma.PrescriptionCreateWithoutUserInput, Prisma.PrescriptionUncheckedCreateWithoutUserInput> | Prisma.PrescriptionCreateWithoutUserInput[] | Prisma.PrescriptionUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.PrescriptionCreateOrConnectWithoutUserInput | Prisma.PrescriptionCreateOrConnectWithoutUserInput[]
+  upsert?: Prisma.PrescriptionUpsertWithWhereUniqueWithoutUserInput | Prisma.PrescriptionUpsertWithWhereUniqueWithoutUserInput[]
+  createMany?: Prisma.PrescriptionCreateManyUserInputEnvelope
+  set?: Prisma.PrescriptionWhereUniqueInput | Prisma.PrescriptionWhereUniqueInput[]
+  disconnect?: Prisma.PrescriptionWhereUniqueInput | Prisma.PrescriptionWhereUniqueInput[]
+  delete?: Prisma.PrescriptionWhereUniqueInput | Prisma.PrescriptionWhereUniqueInput[]
+  connect?: Prisma.PrescriptionWhereUniqueInput | Prisma.PrescriptionWhereUniqueInput[]
+  update?: Prisma.PrescriptionUpdateWithWhereUniqueWithoutUserInput | Prisma.PrescriptionUpdateWithWhereUniqueWithoutUserInput[]
+  updateMany?: Prisma.PrescriptionUpdateManyWithWhereWithoutUserInput | Prisma.PrescriptionUpdateManyWithWhereWithoutUserInput[]
+  deleteMany?: Prisma.PrescriptionScalarWhereInput | Prisma.PrescriptionScalarWhereInput[]
+}
+
+export type PrescriptionCreateWithoutCartItemsInput = {
+  id?: string
+  fileUrl: string
+  fileType?: $Enums.PrescriptionFileType
+  patientName: string
+  doctorName: string
+  doctorRegNo?: string | null
+  issueDate: Date | string
+  expiryDate?: Date | string | null
+  status?: $Enums.PrescriptionStatus
+  reviewedBy?: string | null
+  reviewedAt?: Date | string | null
+  reviewNote?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  user: Prisma.UserCreateNestedOneWithoutPrescriptionsInput
+  orderItems?: Prisma.OrderItemCreateNestedManyWithoutPrescriptionInput
+}
+
+export type PrescriptionUncheckedCreateWithoutCartItemsInput = {
+  id?: string
+  userId: string
+  fileUrl: string
+  fileType?: $Enums.PrescriptionFileType
+  patientName: string
+  doctorName: string
+  doctorRegNo?: string | null
+  issueDate: Date | string
+  expiryDate?: Date | string | null
+  status?: $Enums.PrescriptionStatus
+  reviewedBy?: string | null
+  reviewedAt?: Date | string | null
+  reviewNote?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  orderItems?: Prisma.OrderItemUncheckedCreateNestedManyWithoutPrescriptionInput
+}
+
+export type PrescriptionCreateOrConnectWithoutCartItemsInput = {
+  where: Prisma.PrescriptionWhereUniqueInput
+  create: Prisma.XOR<Prisma.PrescriptionCreateWithoutCartItemsInput, Prisma.PrescriptionUncheckedCreateWithoutCartItemsInput>
+}
+
+export type PrescriptionUpsertWithoutCartItemsInput = {
+  update: Prisma.XOR<Prisma.PrescriptionUpdateWithoutCartItemsInput, Prisma.PrescriptionUncheckedUpdateWithoutCartItemsInput>
+  create: Prisma.XOR<Prisma.PrescriptionCreateWithoutCartItemsInput, Prisma.PrescriptionUncheckedCreateWithoutCartItemsInput>
+  where?: Prisma.PrescriptionWhereInput
+}
+
+export type PrescriptionUpdateToOneWithWhereWithoutCartItemsInput = {
+  where?: Prisma.PrescriptionWhereInput
+  data: Prisma.XOR<Prisma.PrescriptionUpdateWithoutCartItemsInput, Prisma.PrescriptionUncheckedUpdateWithoutCartItemsInput>
+}
+
+export type PrescriptionUpdateWithoutCartItemsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  fileUrl?: Prisma.StringFieldUpdateOperationsInput | string
+  fileType?: Prisma.EnumPrescriptionFileTypeFieldUpdateOperationsInput | $Enums.PrescriptionFileType
+  patientName?: Prisma.StringFieldUpdateOperationsInput | string
+  doctorName?: Prisma.StringFieldUpdateOperationsInput | string
+  doctorRegNo?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  issueDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  expiryDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  status?: Prisma.EnumPrescriptionStatusFieldUpdateOperationsInput | $Enums.PrescriptionStatus
+  reviewedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  user?: Prisma.UserUpdateOneRequiredWithoutPrescriptionsNestedInput
+  orderItems?: Prisma.OrderItemUpdateManyWithoutPrescriptionNestedInput
+}
+
+export type PrescriptionUncheckedUpdateWithoutCartItemsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  fileUrl?: Prisma.StringFieldUpdateOperationsInput | string
+  fileType?: Prisma.EnumPrescriptionFileTypeFieldUpdateOperationsInput | $Enums.PrescriptionFileType
+  patientName?: Prisma.StringFieldUpdateOperationsInput | string
+  doctorName?: Prisma.StringFieldUpdateOperationsInput | string
+  doctorRegNo?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  issueDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  expiryDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  status?: Prisma.EnumPrescriptionStatusFieldUpdateOperationsInput | $Enums.PrescriptionStatus
+  reviewedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  orderItems?: Prisma.OrderItemUncheckedUpdateManyWithoutPrescriptionNestedInput
+}
+
+export type PrescriptionCreateWithoutOrderItemsInput = {
+  id?: string
+  fileUrl: string
+  fileType?: $Enums.PrescriptionFileType
+  patientName: string
+  doctorName: string
+  doctorRegNo?: string | null
+  issueDate: Date | string
+  expiryDate?: Date | string | null
+  status?: $Enums.PrescriptionStatus
+  reviewedBy?: string | null
+  reviewedAt?: Date | string | null
+  reviewNote?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  user: Prisma.UserCreateNestedOneWithoutPrescriptionsInput
+  cartItems?: Prisma.CartItemCreateNestedManyWithoutPrescriptionInput
+}
+
+export type PrescriptionUncheckedCreateWithoutOrderItemsInput = {
+  id?: string
+  userId: string
+  fileUrl: string
+  fileType?: $Enums.PrescriptionFileType
+  patientName: string
+  doctorName: string
+  doctorRegNo?: string | null
+  issueDate: Date | string
+  expiryDate?: Date | string | null
+  status?: $Enums.PrescriptionStatus
+  reviewedBy?: string | null
+  reviewedAt?: Date | string | null
+  reviewNote?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  cartItems?: Prisma.CartItemUncheckedCreateNestedManyWithoutPrescriptionInput
+}
+
+export type PrescriptionCreateOrConnectWithoutOrderItemsInput = {
+  where: Prisma.PrescriptionWhereUniqueInput
+  create: Prisma.XOR<Prisma.PrescriptionCreateWithoutOrderItemsInput, Prisma.PrescriptionUncheckedCreateWithoutOrderItemsInput>
+}
+
+export type PrescriptionUpsertWithoutOrderItemsInput = {
+  update: Prisma.XOR<Prisma.PrescriptionUpdateWithoutOrderItemsInput, Prisma.PrescriptionUncheckedUpdateWithoutOrderItemsInput>
+  create: Prisma.XOR<Prisma.PrescriptionCreateWithoutOrderItemsInput, Prisma.PrescriptionUncheckedCreateWithoutOrderItemsInput>
+  where?: Prisma.PrescriptionWhereInput
+}
+
+export type PrescriptionUpdateToOneWithWhereWithoutOrderItemsInput = {
+  where?: Prisma.PrescriptionWhereInput
+  data: Prisma.XOR<Prisma.PrescriptionUpdateWithoutOrderItemsInput, Prisma.PrescriptionUncheckedUpdateWithoutOrderItemsInput>
+}
+
+export type PrescriptionUpdateWithoutOrderItemsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  fileUrl?: Prisma.StringFieldUpdateOperationsInput | string
+  fileType?: Prisma.EnumPrescriptionFileTypeFieldUpdateOperationsInput | $Enums.PrescriptionFileType
+  patientName?: Prisma.StringFieldUpdateOperationsInput | string
+  doctorName?: Prisma.StringFieldUpdateOperationsInput | string
+  doctorRegNo?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  issueDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  expiryDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  status?: Prisma.EnumPrescriptionStatusFieldUpdateOperationsInput | $Enums.PrescriptionStatus
+  reviewedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  user?: Prisma.UserUpdateOneRequiredWithoutPrescriptionsNestedInput
+  cartItems?: Prisma.CartItemUpdateManyWithoutPrescriptionNestedInput
+}
+
+export type PrescriptionUncheckedUpdateWithoutOrderItemsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  fileUrl?: Prisma.StringFieldUpdateOperationsInput | string
+  fileType?: Prisma.EnumPrescriptionFileTypeFieldUpdateOperationsInput | $Enums.PrescriptionFileType
+  patientName?: Prisma.StringFieldUpdateOperationsInput | string
+  doctorName?: Prisma.StringFieldUpdateOperationsInput | string
+  doctorRegNo?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  issueDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  expiryDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  status?: Prisma.EnumPrescriptionStatusFieldUpdateOperationsInput | $Enums.PrescriptionStatus
+  reviewedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  cartItems?: Prisma.CartItemUncheckedUpdateManyWithoutPrescriptionNestedInput
+}
+
+export type PrescriptionCreateWithoutUserInput = {
+  id?: string
+  fileUrl: string
+  fileType?: $Enums.PrescriptionFileType
+  patientName: string
+  doctorName: string
+  doctorRegNo?: string | null
+  issueDate: Date | string
+  expiryDate?: Date | string | null
+  status?: $Enums.PrescriptionStatus
+  reviewedBy?: string | null
+  reviewedAt?: Date | string | null
+  reviewNote?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  cartItems?: Prisma.CartItemCreateNestedManyWithoutPrescriptionInput
+  orderItems?: Prisma.OrderItemCreateNestedManyWithoutPrescriptionInput
+}
+
+export type PrescriptionUncheckedCreateWithoutUserInput = {
+  id?: string
+  fileUrl: string
+  fileType?: $Enums.PrescriptionFileType
+  patientName: string
+  doctorName: string
+  doctorRegNo?: string | null
+  issueDate: Date | string
+  expiryDate?: Date | string | null
+  status?: $Enums.PrescriptionStatus
+  reviewedBy?: string | null
+  reviewedAt?: Date | string | null
+  reviewNote?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  cartItems?: Prisma.CartItemUncheckedCreateNestedManyWithoutPrescriptionInput
+  orderItems?: Prisma.OrderItemUncheckedCreateNestedManyWithoutPrescriptionInput
+}
+
+export type PrescriptionCreateOrConnectWithoutUserInput = {
+  where: Prisma.PrescriptionWhereUniqueInput
+  create: Prisma.XOR<Prisma.PrescriptionCreateWithoutUserInput, Prisma.PrescriptionUncheckedCreateWithoutUserInput>
+}
+
+export type PrescriptionCreateManyUserInputEnvelope = {
+  data: Prisma.PrescriptionCreateManyUserInput | Prisma.PrescriptionCreateManyUserInput[]
+  skipDuplicates?: boolean
+}
+
+export type PrescriptionUpsertWithWhereUniqueWithoutUserInput = {
+  where: Prisma.PrescriptionWhereUniqueInput
+  update: Prisma.XOR<Prisma.PrescriptionUpdateWithoutUserInput, Prisma.PrescriptionUncheckedUpdateWithoutUserInput>
+  create: Prisma.XOR<Prisma.PrescriptionCreateWithoutUserInput, Prisma.PrescriptionUncheckedCreateWithoutUserInput>
+}
+
+export type PrescriptionUpdateWithWhereUniqueWithoutUserInput = {
+  where: Prisma.PrescriptionWhereUniqueInput
+  data: Prisma.XOR<Prisma.PrescriptionUpdateWithoutUserInput, Prisma.PrescriptionUncheckedUpdateWithoutUserInput>
+}
+
+export type PrescriptionUpdateManyWithWhereWithoutUserInput = {
+  where: Prisma.PrescriptionScalarWhereInput
+  data: Prisma.XOR<Prisma.PrescriptionUpdateManyMutationInput, Prisma.PrescriptionUncheckedUpdateManyWithoutUserInput>
+}
+
+export type PrescriptionScalarWhereInput = {
+  AND?: Prisma.PrescriptionScalarWhereInput | Prisma.PrescriptionScalarWhereInput[]
+  OR?: Prisma.PrescriptionScalarWhereInput[]
+  NOT?: Prisma.PrescriptionScalarWhereInput | Prisma.PrescriptionScalarWhereInput[]
+  id?: Prisma.StringFilter<"Prescription"> | string
+  userId?: Prisma.StringFilter<"Prescription"> | string
+  fileUrl?: Prisma.StringFilter<"Prescription"> | string
+  fileType?: Prisma.EnumPrescriptionFileTypeFilter<"Prescription"> | $Enums.PrescriptionFileType
+  patientName?: Prisma.StringFilter<"Prescription"> | string
+  doctorName?: Prisma.StringFilter<"Prescription"> | string
+  doctorRegNo?: Prisma.StringNullableFilter<"Prescription"> | string | null
+  issueDate?: Prisma.DateTimeFilter<"Prescription"> | Date | string
+  expiryDate?: Prisma.DateTimeNullableFilter<"Prescription"> | Date | string | null
+  status?: Prisma.EnumPrescriptionStatusFilter<"Prescription"> | $Enums.PrescriptionStatus
+  reviewedBy?: Prisma.StringNullableFilter<"Prescription"> | string | null
+  reviewedAt?: Prisma.DateTimeNullableFilter<"Prescription"> | Date | string | null
+  reviewNote?: Prisma.StringNullableFilter<"Prescription"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"Prescription"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"Prescription"> | Date | string
+}
+
+export type PrescriptionCreateManyUserInput = {
+  id?: string
+  fileUrl: string
+  fileType?: $Enums.PrescriptionFileType
+  patientName: string
+  doctorName: string
+  doctorRegNo?: string | null
+  issueDate: Date | string
+  expiryDate?: Date | string | null
+  status?: $Enums.PrescriptionStatus
+  reviewedBy?: string | null
+  reviewedAt?: Date | string | null
+  reviewNote?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type PrescriptionUpdateWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  fileUrl?: Prisma.StringFieldUpdateOperationsInput | string
+  fileType?: Prisma.EnumPrescriptionFileTypeFieldUpdateOperationsInput | $Enums.PrescriptionFileType
+  patientName?: Prisma.StringFieldUpdateOperationsInput | string
+  doctorName?: Prisma.StringFieldUpdateOperationsInput | string
+  doctorRegNo?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  issueDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  expiryDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  status?: Prisma.EnumPrescriptionStatusFieldUpdateOperationsInput | $Enums.PrescriptionStatus
+  reviewedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  cartItems?: Prisma.CartItemUpdateManyWithoutPrescriptionNestedInput
+  orderItems?: Prisma.OrderItemUpdateManyWithoutPrescriptionNestedInput
+}
+
+export type PrescriptionUncheckedUpdateWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  fileUrl?: Prisma.StringFieldUpdateOperationsInput | string
+  fileType?: Prisma.EnumPrescriptionFileTypeFieldUpdateOperationsInput | $Enums.PrescriptionFileType
+  patientName?: Prisma.StringFieldUpdateOperationsInput | string
+  doctorName?: Prisma.StringFieldUpdateOperationsInput | string
+  doctorRegNo?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  issueDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  expiryDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  status?: Prisma.EnumPrescriptionStatusFieldUpdateOperationsInput | $Enums.PrescriptionStatus
+  reviewedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  cartItems?: Prisma.CartItemUncheckedUpdateManyWithoutPrescriptionNestedInput
+  orderItems?: Prisma.OrderItemUncheckedUpdateManyWithoutPrescriptionNestedInput
+}
+
+export type PrescriptionUncheckedUpdateManyWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  fileUrl?: Prisma.StringFieldUpdateOperationsInput | string
+  fileType?: Prisma.EnumPrescriptionFileTypeFieldUpdateOperationsInput | $Enums.PrescriptionFileType
+  patientName?: Prisma.StringFieldUpdateOperationsInput | string
+  doctorName?: Prisma.StringFieldUpdateOperationsInput | string
+  doctorRegNo?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  issueDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  expiryDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  status?: Prisma.EnumPrescriptionStatusFieldUpdateOperationsInput | $Enums.PrescriptionStatus
+  reviewedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+/**
+ * Count Type PrescriptionCountOutputType
+ */
+
+export type PrescriptionCountOutputType = {
+  cartItems: number
+  orderItems: number
+}
+
+export type PrescriptionCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  cartItems?: boolean | PrescriptionCountOutputTypeCountCartItemsArgs
+  orderItems?: boolean | PrescriptionCountOutputTypeCountOrderItemsArgs
+}
+
+/**
+ * PrescriptionCountOutputType without action
+ */
+export type PrescriptionCountOutputTypeDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PrescriptionCountOutputType
+   */
+  select?: Prisma.PrescriptionCountOutputTypeSelect<ExtArgs> | null
+}
+
+/**
+ * PrescriptionCountOutputType without action
+ */
+export type PrescriptionCountOutputTypeCountCartItemsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.CartItemWhereInput
+}
+
+/**
+ * PrescriptionCountOutputType without action
+ */
+export type PrescriptionCountOutputTypeCountOrderItemsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.OrderItemWhereInput
+}
+
+
+export type PrescriptionSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  userId?: boolean
+  fileUrl?: boolean
+  fileType?: boolean
+  patientName?: boolean
+  doctorName?: boolean
+  doctorRegNo?: boolean
+  issueDate?: boolean
+  expiryDate?: boolean
+  status?: boolean
+  reviewedBy?: boolean
+  reviewedAt?: boolean
+  reviewNote?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  cartItems?: boolean | Prisma.Prescription$cartItemsArgs<ExtArgs>
+  orderItems?: boolean | Prisma.Prescription$orderItemsArgs<ExtArgs>
+  _count?: boolean | Prisma.PrescriptionCountOutputTypeDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["prescription"]>
+
+export type PrescriptionSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  userId?: boolean
+  fileUrl?: boolean
+  fileType?: boolean
+  patientName?: boolean
+  doctorName?: boolean
+  doctorRegNo?: boolean
+  issueDate?: boolean
+  expiryDate?: boolean
+  status?: boolean
+  reviewedBy?: boolean
+  reviewedAt?: boolean
+  reviewNote?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["prescription"]>
+
+export type PrescriptionSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  userId?: boolean
+  fileUrl?: boolean
+  fileType?: boolean
+  patientName?: boolean
+  doctorName?: boolean
+  doctorRegNo?: boolean
+  issueDate?: boolean
+  expiryDate?: boolean
+  status?: boolean
+  reviewedBy?: boolean
+  reviewedAt?: boolean
+  reviewNote?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["prescription"]>
+
+export type PrescriptionSelectScalar = {
+  id?: boolean
+  userId?: boolean
+  fileUrl?: boolean
+  fileType?: boolean
+  patientName?: boolean
+  doctorName?: boolean
+  doctorRegNo?: boolean
+  issueDate?: boolean
+  expiryDate?: boolean
+  status?: boolean
+  reviewedBy?: boolean
+  reviewedAt?: boolean
+  reviewNote?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}
+
+export type PrescriptionOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "userId" | "fileUrl" | "fileType" | "patientName" | "doctorName" | "doctorRegNo" | "issueDate" | "expiryDate" | "status" | "reviewedBy" | "reviewedAt" | "reviewNote" | "createdAt" | "updatedAt", ExtArgs["result"]["prescription"]>
+export type PrescriptionInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  cartItems?: boolean | Prisma.Prescription$cartItemsArgs<ExtArgs>
+  orderItems?: boolean | Prisma.Prescription$orderItemsArgs<ExtArgs>
+  _count?: boolean | Prisma.PrescriptionCountOutputTypeDefaultArgs<ExtArgs>
+}
+export type PrescriptionIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+export type PrescriptionIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+
+export type $PrescriptionPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "Prescription"
+  objects: {
+    user: Prisma.$UserPayload<ExtArgs>
+    cartItems: Prisma.$CartItemPayload<ExtArgs>[]
+    orderItems: Prisma.$OrderItemPayload<ExtArgs>[]
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    userId: string
+    fileUrl: string
+    fileType: $Enums.PrescriptionFileType
+    patientName: string
+    doctorName: string
+    doctorRegNo: string | null
+    issueDate: Date
+    expiryDate: Date | null
+    status: $Enums.PrescriptionStatus
+    reviewedBy: string | null
+    reviewedAt: Date | null
+    reviewNote: string | null
+    createdAt: Date
+    updatedAt: Date
+  }, ExtArgs["result"]["prescription"]>
+  composites: {}
+}
+
+export type PrescriptionGetPayload<S extends boolean | null | undefined | PrescriptionDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$PrescriptionPayload, S>
+
+export type PrescriptionCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<PrescriptionFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: PrescriptionCountAggregateInputType | true
+  }
+
+export interface PrescriptionDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['Prescription'], meta: { name: 'Prescription' } }
+  /**
+   * Find zero or one Prescription that matches the filter.
+   * @param {PrescriptionFindUniqueArgs} args - Arguments to find a Prescription
+   * @example
+   * // Get one Prescription
+   * const prescription = await prisma.prescription.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends PrescriptionFindUniqueArgs>(args: Prisma.SelectSubset<T, PrescriptionFindUniqueArgs<ExtArgs>>): Prisma.Prisma__PrescriptionClient<runtime.Types.Result.GetResult<Prisma.$PrescriptionPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one Prescription that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {PrescriptionFindUniqueOrThrowArgs} args - Arguments to find a Prescription
+   * @example
+   * // Get one Prescription
+   * const prescription = await prisma.prescription.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends PrescriptionFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, PrescriptionFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__PrescriptionClient<runtime.Types.Result.GetResult<Prisma.$PrescriptionPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first Prescription that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PrescriptionFindFirstArgs} args - Arguments to find a Prescription
+   * @example
+   * // Get one Prescription
+   * const prescription = await prisma.prescription.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends PrescriptionFindFirstArgs>(args?: Prisma.SelectSubset<T, PrescriptionFindFirstArgs<ExtArgs>>): Prisma.Prisma__PrescriptionClient<runtime.Types.Result.GetResult<Prisma.$PrescriptionPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first Prescription that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PrescriptionFindFirstOrThrowArgs} args - Arguments to find a Prescription
+   * @example
+   * // Get one Prescription
+   * const prescription = await prisma.prescription.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends PrescriptionFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, PrescriptionFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__PrescriptionClient<runtime.Types.Result.GetResult<Prisma.$PrescriptionPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more Prescriptions that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PrescriptionFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all Prescriptions
+   * const prescriptions = await prisma.prescription.findMany()
+   * 
+   * // Get first 10 Prescriptions
+   * const prescriptions = await prisma.prescription.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const prescriptionWithIdOnly = await prisma.prescription.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends PrescriptionFindManyArgs>(args?: Prisma.SelectSubset<T, PrescriptionFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$PrescriptionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a Prescription.
+   * @param {PrescriptionCreateArgs} args - Arguments to create a Prescription.
+   * @example
+   * // Create one Prescription
+   * const Prescription = await prisma.prescription.create({
+   *   data: {
+   *     // ... data to create a Prescription
+   *   }
+   * })
+   * 
+   */
+  create<T extends PrescriptionCreateArgs>(args: Prisma.SelectSubset<T, PrescriptionCreateArgs<ExtArgs>>): Prisma.Prisma__PrescriptionClient<runtime.Types.Result.GetResult<Prisma.$PrescriptionPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many Prescriptions.
+   * @param {PrescriptionCreateManyArgs} args - Arguments to create many Prescriptions.
+   * @example
+   * // Create many Prescriptions
+   * const prescription = await prisma.prescription.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends PrescriptionCreateManyArgs>(args?: Prisma.SelectSubset<T, PrescriptionCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many Prescriptions and returns the data saved in the database.
+   * @param {PrescriptionCreateManyAndReturnArgs} args - Arguments to create many Prescriptions.
+   * @example
+   * // Create many Prescriptions
+   * const prescription = await prisma.prescription.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many Prescriptions and only return the `id`
+   * const prescriptionWithIdOnly = await prisma.prescription.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends PrescriptionCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, PrescriptionCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$PrescriptionPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a Prescription.
+   * @param {PrescriptionDeleteArgs} args - Arguments to delete one Prescription.
+   * @example
+   * // Delete one Prescription
+   * const Prescription = await prisma.prescription.delete({
+   *   where: {
+   *     // ... filter to delete one Prescription
+   *   }
+   * })
+   * 
+   */
+  delete<T extends PrescriptionDeleteArgs>(args: Prisma.SelectSubset<T, PrescriptionDeleteArgs<ExtArgs>>): Prisma.Prisma__PrescriptionClient<runtime.Types.Result.GetResult<Prisma.$PrescriptionPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one Prescription.
+   * @param {PrescriptionUpdateArgs} args - Arguments to update one Prescription.
+   * @example
+   * // Update one Prescription
+   * const prescription = await prisma.prescription.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends PrescriptionUpdateArgs>(args: Prisma.SelectSubset<T, PrescriptionUpdateArgs<ExtArgs>>): Prisma.Prisma__PrescriptionClient<runtime.Types.Result.GetResult<Prisma.$PrescriptionPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more Prescriptions.
+   * @param {PrescriptionDeleteManyArgs} args - Arguments to filter Prescriptions to delete.
+   * @example
+   * // Delete a few Prescriptions
+   * const { count } = await prisma.prescription.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends PrescriptionDeleteManyArgs>(args?: Prisma.SelectSubset<T, PrescriptionDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more Prescriptions.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PrescriptionUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many Prescriptions
+   * const prescription = await prisma.prescription.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends PrescriptionUpdateManyArgs>(args: Prisma.SelectSubset<T, PrescriptionUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more Prescriptions and returns the data updated in the database.
+   * @param {PrescriptionUpdateManyAndReturnArgs} args - Arguments to update many Prescriptions.
+   * @example
+   * // Update many Prescriptions
+   * const prescription = await prisma.prescription.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more Prescriptions and only return the `id`
+   * const prescriptionWithIdOnly = await prisma.prescription.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends PrescriptionUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, PrescriptionUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$PrescriptionPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one Prescription.
+   * @param {PrescriptionUpsertArgs} args - Arguments to update or create a Prescription.
+   * @example
+   * // Update or create a Prescription
+   * const prescription = await prisma.prescription.upsert({
+   *   create: {
+   *     // ... data to create a Prescription
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the Prescription we want to update
+   *   }
+   * })
+   */
+  upsert<T extends PrescriptionUpsertArgs>(args: Prisma.SelectSubset<T, PrescriptionUpsertArgs<ExtArgs>>): Prisma.Prisma__PrescriptionClient<runtime.Types.Result.GetResult<Prisma.$PrescriptionPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of Prescriptions.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PrescriptionCountArgs} args - Arguments to filter Prescriptions to count.
+   * @example
+   * // Count the number of Prescriptions
+   * const count = await prisma.prescription.count({
+   *   where: {
+   *     // ... the filter for the Prescriptions we want to count
+   *   }
+   * })
+  **/
+  count<T extends PrescriptionCountArgs>(
+    args?: Prisma.Subset<T, PrescriptionCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], PrescriptionCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a Prescription.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PrescriptionAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends PrescriptionAggregateArgs>(args: Prisma.Subset<T, PrescriptionAggregateArgs>): Prisma.PrismaPromise<GetPrescriptionAggregateType<T>>
+
+  /**
+   * Group by Prescription.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PrescriptionGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends PrescriptionGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: PrescriptionGroupByArgs['orderBy'] }
+      : { orderBy?: PrescriptionGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, PrescriptionGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetPrescriptionGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the Prescription model
+ */
+readonly fields: PrescriptionFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for Prescription.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__PrescriptionClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  user<T extends Prisma.UserDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.UserDefaultArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  cartItems<T extends Prisma.Prescription$cartItemsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Prescription$cartItemsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$CartItemPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  orderItems<T extends Prisma.Prescription$orderItemsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Prescription$orderItemsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$OrderItemPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the Prescription model
+ */
+export interface PrescriptionFieldRefs {
+  readonly id: Prisma.FieldRef<"Prescription", 'String'>
+  readonly userId: Prisma.FieldRef<"Prescription", 'String'>
+  readonly fileUrl: Prisma.FieldRef<"Prescription", 'String'>
+  readonly fileType: Prisma.FieldRef<"Prescription", 'PrescriptionFileType'>
+  readonly patientName: Prisma.FieldRef<"Prescription", 'String'>
+  readonly doctorName: Prisma.FieldRef<"Prescription", 'String'>
+  readonly doctorRegNo: Prisma.FieldRef<"Prescription", 'String'>
+  readonly issueDate: Prisma.FieldRef<"Prescription", 'DateTime'>
+  readonly expiryDate: Prisma.FieldRef<"Prescription", 'DateTime'>
+  readonly status: Prisma.FieldRef<"Prescription", 'PrescriptionStatus'>
+  readonly reviewedBy: Prisma.FieldRef<"Prescription", 'String'>
+  readonly reviewedAt: Prisma.FieldRef<"Prescription", 'DateTime'>
+  readonly reviewNote: Prisma.FieldRef<"Prescription", 'String'>
+  readonly createdAt: Prisma.FieldRef<"Prescription", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"Prescription", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * Prescription findUnique
+ */
+export type PrescriptionFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Prescription
+   */
+  select?: Prisma.PrescriptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Prescription
+   */
+  omit?: Prisma.PrescriptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PrescriptionInclude<ExtArgs> | null
+  /**
+   * Filter, which Prescription to fetch.
+   */
+  where: Prisma.PrescriptionWhereUniqueInput
+}
+
+/**
+ * Prescription findUniqueOrThrow
+ */
+export type PrescriptionFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Prescription
+   */
+  select?: Prisma.PrescriptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Prescription
+   */
+  omit?: Prisma.PrescriptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PrescriptionInclude<ExtArgs> | null
+  /**
+   * Filter, which Prescription to fetch.
+   */
+  where: Prisma.PrescriptionWhereUniqueInput
+}
+
+/**
+ * Prescription findFirst
+ */
+export type PrescriptionFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Prescription
+   */
+  select?: Prisma.PrescriptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Prescription
+   */
+  omit?: Prisma.PrescriptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PrescriptionInclude<ExtArgs> | null
+  /**
+   * Filter, which Prescription to fetch.
+   */
+  where?: Prisma.PrescriptionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Prescriptions to fetch.
+   */
+  orderBy?: Prisma.PrescriptionOrderByWithRelationInput | Prisma.PrescriptionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for Prescriptions.
+   */
+  cursor?: Prisma.PrescriptionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Prescriptions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Prescriptions.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of Prescriptions.
+   */
+  distinct?: Prisma.PrescriptionScalarFieldEnum | Prisma.PrescriptionScalarFieldEnum[]
+}
+
+/**
+ * Prescription findFirstOrThrow
+ */
+export type PrescriptionFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Prescription
+   */
+  select?: Prisma.PrescriptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Prescription
+   */
+  omit?: Prisma.PrescriptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PrescriptionInclude<ExtArgs> | null
+  /**
+   * Filter, which Prescription to fetch.
+   */
+  where?: Prisma.PrescriptionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Prescriptions to fetch.
+   */
+  orderBy?: Prisma.PrescriptionOrderByWithRelationInput | Prisma.PrescriptionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for Prescriptions.
+   */
+  cursor?: Prisma.PrescriptionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Prescriptions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Prescriptions.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of Prescriptions.
+   */
+  distinct?: Prisma.PrescriptionScalarFieldEnum | Prisma.PrescriptionScalarFieldEnum[]
+}
+
+/**
+ * Prescription findMany
+ */
+export type PrescriptionFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Prescription
+   */
+  select?: Prisma.PrescriptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Prescription
+   */
+  omit?: Prisma.PrescriptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PrescriptionInclude<ExtArgs> | null
+  /**
+   * Filter, which Prescriptions to fetch.
+   */
+  where?: Prisma.PrescriptionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Prescriptions to fetch.
+   */
+  orderBy?: Prisma.PrescriptionOrderByWithRelationInput | Prisma.PrescriptionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing Prescriptions.
+   */
+  cursor?: Prisma.PrescriptionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Prescriptions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Prescriptions.
+   */
+  skip?: number
+  distinct?: Prisma.PrescriptionScalarFieldEnum | Prisma.PrescriptionScalarFieldEnum[]
+}
+
+/**
+ * Prescription create
+ */
+export type PrescriptionCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Prescription
+   */
+  select?: Prisma.PrescriptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Prescription
+   */
+  omit?: Prisma.PrescriptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PrescriptionInclude<ExtArgs> | null
+  /**
+   * The data needed to create a Prescription.
+   */
+  data: Prisma.XOR<Prisma.PrescriptionCreateInput, Prisma.PrescriptionUncheckedCreateInput>
+}
+
+/**
+ * Prescription createMany
+ */
+export type PrescriptionCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many Prescriptions.
+   */
+  data: Prisma.PrescriptionCreateManyInput | Prisma.PrescriptionCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * Prescription createManyAndReturn
+ */
+export type PrescriptionCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Prescription
+   */
+  select?: Prisma.PrescriptionSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the Prescription
+   */
+  omit?: Prisma.PrescriptionOmit<ExtArgs> | null
+  /**
+   * The data used to create many Prescriptions.
+   */
+  data: Prisma.PrescriptionCreateManyInput | Prisma.PrescriptionCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PrescriptionIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * Prescription update
+ */
+export type PrescriptionUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Prescription
+   */
+  select?: Prisma.PrescriptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Prescription
+   */
+  omit?: Prisma.PrescriptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PrescriptionInclude<ExtArgs> | null
+  /**
+   * The data needed to update a Prescription.
+   */
+  data: Prisma.XOR<Prisma.PrescriptionUpdateInput, Prisma.PrescriptionUncheckedUpdateInput>
+  /**
+   * Choose, which Prescription to update.
+   */
+  where: Prisma.PrescriptionWhereUniqueInput
+}
+
+/**
+ * Prescription updateMany
+ */
+export type PrescriptionUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update Prescriptions.
+   */
+  data: Prisma.XOR<Prisma.PrescriptionUpdateManyMutationInput, Prisma.PrescriptionUncheckedUpdateManyInput>
+  /**
+   * Filter which Prescriptions to update
+   */
+  where?: Prisma.PrescriptionWhereInput
+  /**
+   * Limit how many Prescriptions to update.
+   */
+  limit?: number
+}
+
+/**
+ * Prescription updateManyAndReturn
+ */
+export type PrescriptionUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Prescription
+   */
+  select?: Prisma.PrescriptionSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the Prescription
+   */
+  omit?: Prisma.PrescriptionOmit<ExtArgs> | null
+  /**
+   * The data used to update Prescriptions.
+   */
+  data: Prisma.XOR<Prisma.PrescriptionUpdateManyMutationInput, Prisma.PrescriptionUncheckedUpdateManyInput>
+  /**
+   * Filter which Prescriptions to update
+   */
+  where?: Prisma.PrescriptionWhereInput
+  /**
+   * Limit how many Prescriptions to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PrescriptionIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * Prescription upsert
+ */
+export type PrescriptionUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Prescription
+   */
+  select?: Prisma.PrescriptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Prescription
+   */
+  omit?: Prisma.PrescriptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PrescriptionInclude<ExtArgs> | null
+  /**
+   * The filter to search for the Prescription to update in case it exists.
+   */
+  where: Prisma.PrescriptionWhereUniqueInput
+  /**
+   * In case the Prescription found by the `where` argument doesn't exist, create a new Prescription with this data.
+   */
+  create: Prisma.XOR<Prisma.PrescriptionCreateInput, Prisma.PrescriptionUncheckedCreateInput>
+  /**
+   * In case the Prescription was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.PrescriptionUpdateInput, Prisma.PrescriptionUncheckedUpdateInput>
+}
+
+/**
+ * Prescription delete
+ */
+export type PrescriptionDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Prescription
+   */
+  select?: Prisma.PrescriptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Prescription
+   */
+  omit?: Prisma.PrescriptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PrescriptionInclude<ExtArgs> | null
+  /**
+   * Filter which Prescription to delete.
+   */
+  where: Prisma.PrescriptionWhereUniqueInput
+}
+
+/**
+ * Prescription deleteMany
+ */
+export type PrescriptionDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which Prescriptions to delete
+   */
+  where?: Prisma.PrescriptionWhereInput
+  /**
+   * Limit how many Prescriptions to delete.
+   */
+  limit?: number
+}
+
+/**
+ * Prescription.cartItems
+ */
+export type Prescription$cartItemsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CartItem
+   */
+  select?: Prisma.CartItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CartItem
+   */
+  omit?: Prisma.CartItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CartItemInclude<ExtArgs> | null
+  where?: Prisma.CartItemWhereInput
+  orderBy?: Prisma.CartItemOrderByWithRelationInput | Prisma.CartItemOrderByWithRelationInput[]
+  cursor?: Prisma.CartItemWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.CartItemScalarFieldEnum | Prisma.CartItemScalarFieldEnum[]
+}
+
+/**
+ * Prescription.orderItems
+ */
+export type Prescription$orderItemsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OrderItem
+   */
+  select?: Prisma.OrderItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OrderItem
+   */
+  omit?: Prisma.OrderItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OrderItemInclude<ExtArgs> | null
+  where?: Prisma.OrderItemWhereInput
+  orderBy?: Prisma.OrderItemOrderByWithRelationInput | Prisma.OrderItemOrderByWithRelationInput[]
+  cursor?: Prisma.OrderItemWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.OrderItemScalarFieldEnum | Prisma.OrderItemScalarFieldEnum[]
+}
+
+/**
+ * Prescription without action
+ */
+export type PrescriptionDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Prescription
+   */
+  select?: Prisma.PrescriptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Prescription
+   */
+  omit?: Prisma.PrescriptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PrescriptionInclude<ExtArgs> | null
+}
@@ -0,0 +1,1965 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `Recall` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model Recall
+ * 
+ */
+export type RecallModel = runtime.Types.Result.DefaultSelection<Prisma.$RecallPayload>
+
+export type AggregateRecall = {
+  _count: RecallCountAggregateOutputType | null
+  _min: RecallMinAggregateOutputType | null
+  _max: RecallMaxAggregateOutputType | null
+}
+
+export type RecallMinAggregateOutputType = {
+  id: string | null
+  medicineId: string | null
+  manufacturedFrom: Date | null
+  manufacturedTo: Date | null
+  severity: $Enums.RecallSeverity | null
+  status: $Enums.RecallStatus | null
+  reason: string | null
+  instructions: string | null
+  createdBy: string | null
+  closedAt: Date | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type RecallMaxAggregateOutputType = {
+  id: string | null
+  medicineId: string | null
+  manufacturedFrom: Date | null
+  manufacturedTo: Date | null
+  severity: $Enums.RecallSeverity | null
+  status: $Enums.RecallStatus | null
+  reason: string | null
+  instructions: string | null
+  createdBy: string | null
+  closedAt: Date | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type RecallCountAggregateOutputType = {
+  id: number
+  medicineId: number
+  batchNumbers: number
+  manufacturedFrom: number
+  manufacturedTo: number
+  severity: number
+  status: number
+  reason: number
+  instructions: number
+  createdBy: number
+  closedAt: number
+  createdAt: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type RecallMinAggregateInputType = {
+  id?: true
+  medicineId?: true
+  manufacturedFrom?: true
+  manufacturedTo?: true
+  severity?: true
+  status?: true
+  reason?: true
+  instructions?: true
+  createdBy?: true
+  closedAt?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type RecallMaxAggregateInputType = {
+  id?: true
+  medicineId?: true
+  manufacturedFrom?: true
+  manufacturedTo?: true
+  severity?: true
+  status?: true
+  reason?: true
+  instructions?: true
+  createdBy?: true
+  closedAt?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type RecallCountAggregateInputType = {
+  id?: true
+  medicineId?: true
+  batchNumbers?: true
+  manufacturedFrom?: true
+  manufacturedTo?: true
+  severity?: true
+  status?: true
+  reason?: true
+  instructions?: true
+  createdBy?: true
+  closedAt?: true
+  createdAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type RecallAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which Recall to aggregate.
+   */
+  where?: Prisma.RecallWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Recalls to fetch.
+   */
+  orderBy?: Prisma.RecallOrderByWithRelationInput | Prisma.RecallOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.RecallWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Recalls from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Recalls.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned Recalls
+  **/
+  _count?: true | RecallCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: RecallMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: RecallMaxAggregateInputType
+}
+
+export type GetRecallAggregateType<T extends RecallAggregateArgs> = {
+      [P in keyof T & keyof AggregateRecall]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateRecall[P]>
+    : Prisma.GetScalarType<T[P], AggregateRecall[P]>
+}
+
+
+
+
+export type RecallGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.RecallWhereInput
+  orderBy?: Prisma.RecallOrderByWithAggregationInput | Prisma.RecallOrderByWithAggregationInput[]
+  by: Prisma.RecallScalarFieldEnum[] | Prisma.RecallScalarFieldEnum
+  having?: Prisma.RecallScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: RecallCountAggregateInputType | true
+  _min?: RecallMinAggregateInputType
+  _max?: RecallMaxAggregateInputType
+}
+
+export type RecallGroupByOutputType = {
+  id: string
+  medicineId: string
+  batchNumbers: string[]
+  manufacturedFrom: Date | null
+  manufacturedTo: Date | null
+  severity: $Enums.RecallSeverity
+  status: $Enums.RecallStatus
+  reason: string
+  instructions: string
+  createdBy: string | null
+  closedAt: Date | null
+  createdAt: Date
+  updatedAt: Date
+  _count: RecallCountAggregateOutputType | null
+  _min: RecallMinAggregateOutputType | null
+  _max: RecallMaxAggregateOutputType | null
+}
+
+type GetRecallGroupByPayload<T extends RecallGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<RecallGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof RecallGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], RecallGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], RecallGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type RecallWhereInput = {
+  AND?: Prisma.RecallWhereInput | Prisma.RecallWhereInput[]
+  OR?: Prisma.RecallWhereInput[]
+  NOT?: Prisma.RecallWhereInput | Prisma.RecallWhereInput[]
+  id?: Prisma.StringFilter<"Recall"> | string
+  medicineId?: Prisma.StringFilter<"Recall"> | string
+  batchNumbers?: Prisma.StringNullableListFilter<"Recall">
+  manufacturedFrom?: Prisma.DateTimeNullableFilter<"Recall"> | Date | string | null
+  manufacturedTo?: Prisma.DateTimeNullableFilter<"Recall"> | Date | string | null
+  severity?: Prisma.EnumRecallSeverityFilter<"Recall"> | $Enums.RecallSeverity
+  status?: Prisma.EnumRecallStatusFilter<"Recall"> | $Enums.RecallStatus
+  reason?: Prisma.StringFilter<"Recall"> | string
+  instructions?: Prisma.StringFilter<"Recall"> | string
+  createdBy?: Prisma.StringNullableFilter<"Recall"> | string | null
+  closedAt?: Prisma.DateTimeNullableFilter<"Recall"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"Recall"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"Recall"> | Date | string
+  medicine?: Prisma.XOR<Prisma.MedicineScalarRelationFilter, Prisma.MedicineWhereInput>
+  batches?: Prisma.MedicineBatchListRelationFilter
+  notices?: Prisma.RecallNoticeListRelationFilter
+}
+
+export type RecallOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  medicineId?: Prisma.SortOrder
+  batchNumbers?: Prisma.SortOrder
+  manufacturedFrom?: Prisma.SortOrderInput | Prisma.SortOrder
+  manufacturedTo?: Prisma.SortOrderInput | Prisma.SortOrder
+  severity?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  reason?: Prisma.SortOrder
+  instructions?: Prisma.SortOrder
+  createdBy?: Prisma.SortOrderInput | Prisma.SortOrder
+  closedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  medicine?: Prisma.MedicineOrderByWithRelationInput
+  batches?: Prisma.MedicineBatchOrderByRelationAggregateInput
+  notices?: Prisma.RecallNoticeOrderByRelationAggregateInput
+}
+
+export type RecallWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  AND?: Prisma.RecallWhereInput | Prisma.RecallWhereInput[]
+  OR?: Prisma.RecallWhereInput[]
+  NOT?: Prisma.RecallWhereInput | Prisma.RecallWhereInput[]
+  medicineId?: Prisma.StringFilter<"Recall"> | string
+  batchNumbers?: Prisma.StringNullableListFilter<"Recall">
+  manufacturedFrom?: Prisma.DateTimeNullableFilter<"Recall"> | Date | string | null
+  manufacturedTo?: Prisma.DateTimeNullableFilter<"Recall"> | Date | string | null
+  severity?: Prisma.EnumRecallSeverityFilter<"Recall"> | $Enums.RecallSeverity
+  status?: Prisma.EnumRecallStatusFilter<"Recall"> | $Enums.RecallStatus
+  reason?: Prisma.StringFilter<"Recall"> | string
+  instructions?: Prisma.StringFilter<"Recall"> | string
+  createdBy?: Prisma.StringNullableFilter<"Recall"> | string | null
+  closedAt?: Prisma.DateTimeNullableFilter<"Recall"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"Recall"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"Recall"> | Date | string
+  medicine?: Prisma.XOR<Prisma.MedicineScalarRelationFilter, Prisma.MedicineWhereInput>
+  batches?: Prisma.MedicineBatchListRelationFilter
+  notices?: Prisma.RecallNoticeListRelationFilter
+}, "id">
+
+export type RecallOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  medicineId?: Prisma.SortOrder
+  batchNumbers?: Prisma.SortOrder
+  manufacturedFrom?: Prisma.SortOrderInput | Prisma.SortOrder
+  manufacturedTo?: Prisma.SortOrderInput | Prisma.SortOrder
+  severity?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  reason?: Prisma.SortOrder
+  instructions?: Prisma.SortOrder
+  createdBy?: Prisma.SortOrderInput | Prisma.SortOrder
+  closedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.RecallCountOrderByAggregateInput
+  _max?: Prisma.RecallMaxOrderByAggregateInput
+  _min?: Prisma.RecallMinOrderByAggregateInput
+}
+
+export type RecallScalarWhereWithAggregatesInput = {
+  AND?: Prisma.RecallScalarWhereWithAggregatesInput | Prisma.RecallScalarWhereWithAggregatesInput[]
+  OR?: Prisma.RecallScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.RecallScalarWhereWithAggregatesInput | Prisma.RecallScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"Recall"> | string
+  medicineId?: Prisma.StringWithAggregatesFilter<"Recall"> | string
+  batchNumbers?: Prisma.StringNullableListFilter<"Recall">
+  manufacturedFrom?: Prisma.DateTimeNullableWithAggregatesFilter<"Recall"> | Date | string | null
+  manufacturedTo?: Prisma.DateTimeNullableWithAggregatesFilter<"Recall"> | Date | string | null
+  severity?: Prisma.EnumRecallSeverityWithAggregatesFilter<"Recall"> | $Enums.RecallSeverity
+  status?: Prisma.EnumRecallStatusWithAggregatesFilter<"Recall"> | $Enums.RecallStatus
+  reason?: Prisma.StringWithAggregatesFilter<"Recall"> | string
+  instructions?: Prisma.StringWithAggregatesFilter<"Recall"> | string
+  createdBy?: Prisma.StringNullableWithAggregatesFilter<"Recall"> | string | null
+  closedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"Recall"> | Date | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"Recall"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"Recall"> | Date | string
+}
+
+export type RecallCreateInput = {
+  id?: string
+  batchNumbers?: Prisma.RecallCreatebatchNumbersInput | string[]
+  manufacturedFrom?: Date | string | null
+  manufacturedTo?: Date | string | null
+  severity: $Enums.RecallSeverity
+  status?: $Enums.RecallStatus
+  reason: string
+  instructions: string
+  createdBy?: string | null
+  closedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  medicine: Prisma.MedicineCreateNestedOneWithoutRecallsInput
+  batches?: Prisma.MedicineBatchCreateNestedManyWithoutRecallInput
+  notices?: Prisma.RecallNoticeCreateNestedManyWithoutRecallInput
+}
+
+export type RecallUncheckedCreateInput = {
+  id?: string
+  medicineId: string
+  batchNumbers?: Prisma.RecallCreatebatchNumbersInput | string[]
+  manufacturedFrom?: Date | string | null
+  manufacturedTo?: Date | string | null
+  severity: $Enums.RecallSeverity
+  status?: $Enums.RecallStatus
+  reason: string
+  instructions: string
+  createdBy?: string | null
+  closedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  batches?: Prisma.MedicineBatchUncheckedCreateNestedManyWithoutRecallInput
+  notices?: Prisma.RecallNoticeUncheckedCreateNestedManyWithoutRecallInput
+}
+
+export type RecallUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  batchNumbers?: Prisma.RecallUpdatebatchNumbersInput | string[]
+  manufacturedFrom?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  manufacturedTo?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  severity?: Prisma.EnumRecallSeverityFieldUpdateOperationsInput | $Enums.RecallSeverity
+  status?: Prisma.EnumRecallStatusFieldUpdateOperationsInput | $Enums.RecallStatus
+  reason?: Prisma.StringFieldUpdateOperationsInput | string
+  instructions?: Prisma.StringFieldUpdateOperationsInput | string
+  createdBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  medicine?: Prisma.MedicineUpdateOneRequiredWithoutRecallsNestedInput
+  batches?: Prisma.MedicineBatchUpdateManyWithoutRecallNestedInput
+  notices?: Prisma.RecallNoticeUpdateManyWithoutRecallNestedInput
+}
+
+export type RecallUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  medicineId?: Prisma.StringFieldUpdateOperationsInput | string
+  batchNumbers?: Prisma.RecallUpdatebatchNumbersInput | string[]
+  manufacturedFrom?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  manufacturedTo?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  severity?: Prisma.EnumRecallSeverityFieldUpdateOperationsInput | $Enums.RecallSeverity
+  status?: Prisma.EnumRecallStatusFieldUpdateOperationsInput | $Enums.RecallStatus
+  reason?: Prisma.StringFieldUpdateOperationsInput | string
+  instructions?: Prisma.StringFieldUpdateOperationsInput | string
+  createdBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  batches?: Prisma.MedicineBatchUncheckedUpdateManyWithoutRecallNestedInput
+  notices?: Prisma.RecallNoticeUncheckedUpdateManyWithoutRecallNestedInput
+}
+
+export type RecallCreateManyInput = {
+  id?: string
+  medicineId: string
+  batchNumbers?: Prisma.RecallCreatebatchNumbersInput | string[]
+  manufacturedFrom?: Date | string | null
+  manufacturedTo?: Date | string | null
+  severity: $Enums.RecallSeverity
+  status?: $Enums.RecallStatus
+  reason: string
+  instructions: string
+  createdBy?: string | null
+  closedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type RecallUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  batchNumbers?: Prisma.RecallUpdatebatchNumbersInput | string[]
+  manufacturedFrom?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  manufacturedTo?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  severity?: Prisma.EnumRecallSeverityFieldUpdateOperationsInput | $Enums.RecallSeverity
+  status?: Prisma.EnumRecallStatusFieldUpdateOperationsInput | $Enums.RecallStatus
+  reason?: Prisma.StringFieldUpdateOperationsInput | string
+  instructions?: Prisma.StringFieldUpdateOperationsInput | string
+  createdBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type RecallUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  medicineId?: Prisma.StringFieldUpdateOperationsInput | string
+  batchNumbers?: Prisma.RecallUpdatebatchNumbersInput | string[]
+  manufacturedFrom?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  manufacturedTo?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  severity?: Prisma.EnumRecallSeverityFieldUpdateOperationsInput | $Enums.RecallSeverity
+  status?: Prisma.EnumRecallStatusFieldUpdateOperationsInput | $Enums.RecallStatus
+  reason?: Prisma.StringFieldUpdateOperationsInput | string
+  instructions?: Prisma.StringFieldUpdateOperationsInput | string
+  createdBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type RecallNullableScalarRelationFilter = {
+  is?: Prisma.RecallWhereInput | null
+  isNot?: Prisma.RecallWhereInput | null
+}
+
+export type RecallListRelationFilter = {
+  every?: Prisma.RecallWhereInput
+  some?: Prisma.RecallWhereInput
+  none?: Prisma.RecallWhereInput
+}
+
+export type RecallOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type StringNullableListFilter<$PrismaModel = never> = {
+  equals?: string[] | Prisma.ListStringFieldRefInput<$PrismaModel> | null
+  has?: string | Prisma.StringFieldRefInput<$PrismaModel> | null
+  hasEvery?: string[] | Prisma.ListStringFieldRefInput<$PrismaModel>
+  hasSome?: string[] | Prisma.ListStringFieldRefInput<$PrismaModel>
+  isEmpty?: boolean
+}
+
+export type RecallCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  medicineId?: Prisma.SortOrder
+  batchNumbers?: Prisma.SortOrder
+  manufacturedFrom?: Prisma.SortOrder
+  manufacturedTo?: Prisma.SortOrder
+  severity?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  reason?: Prisma.SortOrder
+  instructions?: Prisma.SortOrder
+  createdBy?: Prisma.SortOrder
+  closedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type RecallMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  medicineId?: Prisma.SortOrder
+  manufacturedFrom?: Prisma.SortOrder
+  manufacturedTo?: Prisma.SortOrder
+  severity?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  reason?: Prisma.SortOrder
+  instructions?: Prisma.SortOrder
+  createdBy?: Prisma.SortOrder
+  closedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type RecallMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  medicineId?: Prisma.SortOrder
+  manufacturedFrom?: Prisma.SortOrder
+  manufacturedTo?: Prisma.SortOrder
+  severity?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  reason?: Prisma.SortOrder
+  instructions?: Prisma.SortOrder
+  createdBy?: Prisma.SortOrder
+  closedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type RecallScalarRelationFilter = {
+  is?: Prisma.RecallWhereInput
+  isNot?: Prisma.RecallWhereInput
+}
+
+export type RecallCreateNestedOneWithoutBatchesInput = {
+  create?: Prisma.XOR<Prisma.RecallCreateWithoutBatchesInput, Prisma.RecallUncheckedCreateWithoutBatchesInput>
+  connectOrCreate?: Prisma.RecallCreateOrConnectWithoutBatchesInput
+  connect?: Prisma.RecallWhereUniqueInput
+}
+
+export type RecallUpdateOneWithoutBatchesNestedInput = {
+  create?: Prisma.XOR<Prisma.RecallCreateWithoutBatchesInput, Prisma.RecallUncheckedCreateWithoutBatchesInput>
+  connectOrCreate?: Prisma.RecallCreateOrConnectWithoutBatchesInput
+  upsert?: Prisma.RecallUpsertWithoutBatchesInput
+  disconnect?: Prisma.RecallWhereInput | boolean
+  delete?: Prisma.RecallWhereInput | boolean
+  connect?: Prisma.RecallWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.RecallUpdateToOneWithWhereWithoutBatchesInput, Prisma.RecallUpdateWithoutBatchesInput>, Prisma.RecallUncheckedUpdateWithoutBatchesInput>
+}
+
+export type RecallCreateNestedManyWithoutMedicineInput = {
+  create?: Prisma.XOR<Prisma.RecallCreateWithoutMedicineInput, Prisma.RecallUncheckedCreateWithoutMedicineInput> | Prisma.RecallCreateWithoutMedicineInput[] | Prisma.RecallUncheckedCreateWithoutMedicineInput[]
+  connectOrCreate?: Prisma.RecallCreateOrConnectWithoutMedicineInput | Prisma.RecallCreateOrConnectWithoutMedicineInput[]
+  createMany?: Prisma.RecallCreateManyMedicineInputEnvelope
+  connect?: Prisma.RecallWhereUniqueInput | Prisma.RecallWhereUniqueInput[]
+}
+
+export type RecallUncheckedCreateNestedManyWithoutMedicineInput = {
+  create?: Prisma.XOR<Prisma.RecallCreateWithoutMedicineInput, Prisma.RecallUncheckedCreateWithoutMedicineInput> | Prisma.RecallCreateWithoutMedicineInput[] | Prisma.RecallUncheckedCreateWithoutMedicineInput[]
+  connectOrCreate?: Prisma.RecallCreateOrConnectWithoutMedicineInput | Prisma.RecallCreateOrConnectWithoutMedicineInput[]
+  createMany?: Prisma.RecallCreateManyMedicineInputEnvelope
+  connect?: Prisma.RecallWhereUniqueInput | Prisma.RecallWhereUniqueInput[]
+}
+
+export type RecallUpdateManyWithoutMedicineNestedInput = {
+  create?: Prisma.XOR<Prisma.RecallCreateWithoutMedicineInput, Prisma.RecallUncheckedCreateWithoutMedicineInput> | Prisma.RecallCreateWithoutMedicineInput[] | Prisma.RecallUncheckedCreateWithoutMedicineInput[]
+  connectOrCreate?: Prisma.RecallCreateOrConnectWithoutMedicineInput | Prisma.RecallCreateOrConnectWithoutMedicineInput[]
+  upsert?: Prisma.RecallUpsertWithWhereUniqueWithoutMedicineInput | Prisma.RecallUpsertWithWhereUniqueWithoutMedicineInput[]
+  createMany?: Prisma.RecallCreateManyMedicineInputEnvelope
+  set?: Prisma.RecallWhereUniqueInput | Prisma.RecallWhereUniqueInput[]
+  disconnect?: Prisma.RecallWhereUniqueInput | Prisma.RecallWhereUniqueInput[]
+  delete?: Prisma.RecallWhereUniqueInput | Prisma.RecallWhereUniqueInput[]
+  connect?: Prisma.RecallWhereUniqueInput | Prisma.RecallWhereUniqueInput[]
+  update?: Prisma.RecallUpdateWithWhereUniqueWithoutMedicineInput | Prisma.RecallUpdateWithWhereUniqueWithoutMedicineInput[]
+  updateMany?: Prisma.RecallUpdateManyWithWhereWithoutMedicineInput | Prisma.RecallUpdateManyWithWhereWithoutMedicineInput[]
+  deleteMany?: Prisma.RecallScalarWhereInput | Prisma.RecallScalarWhereInput[]
+}
+
+export type RecallUncheckedUpdateManyWithoutMedicineNestedInput = {
+  create?: Prisma.XOR<Prisma.RecallCreateWithoutMedicineInput, Prisma.RecallUncheckedCreateWithoutMedicineInput> | Prisma.RecallCreateWithoutMedicineInput[] | Prisma.RecallUncheckedCreateWithoutMedicineInput[]
+  connectOrCreate?: Prisma.RecallCreateOrConnectWithoutMedicineInput | Prisma.RecallCreateOrConnectWithoutMedicineInput[]
+  upsert?: Prisma.RecallUpsertWithWhereUniqueWithoutMedicineInput | Prisma.RecallUpsertWithWhereUniqueWithoutMedicineInput[]
+  createMany?: Prisma.RecallCreateManyMedicineInputEnvelope
+  set?: Prisma.RecallWhereUniqueInput | Prisma.RecallWhereUniqueInput[]
+  disconnect?: Prisma.RecallWhereUniqueInput | Prisma.RecallWhereUniqueInput[]
+  delete?: Prisma.RecallWhereUniqueInput | Prisma.RecallWhereUniqueInput[]
+  connect?: Prisma.RecallWhereUniqueInput | Prisma.RecallWhereUniqueInput[]
+  update?: Prisma.RecallUpdateWithWhereUniqueWithoutMedicineInput | Prisma.RecallUpdateWithWhereUniqueWithoutMedicineInput[]
+  updateMany?: Prisma.RecallUpdateManyWithWhereWithoutMedicineInput | Prisma.RecallUpdateManyWithWhereWithoutMedicineInput[]
+  deleteMany?: Prisma.RecallScalarWhereInput | Prisma.RecallScalarWhereInput[]
+}
+
+export type RecallCreatebatchNumbersInput = {
+  set: string[]
+}
+
+export type RecallUpdatebatchNumbersInput = {
+  set?: string[]
+  push?: string | string[]
+}
+
+export type EnumRecallSeverityFieldUpdateOperationsInput = {
+  set?: $Enums.RecallSeverity
+}
+
+export type EnumRecallStatusFieldUpdateOperationsInput = {
+  set?: $Enums.RecallStatus
+}
+
+export type RecallCreateNestedOneWithoutNoticesInput = {
+  create?: Prisma.XOR<Prisma.RecallCreateWithoutNoticesInput, Prisma.RecallUncheckedCreateWithoutNoticesInput>
+  connectOrCreate?: Prisma.RecallCreateOrConnectWithoutNoticesInput
+  connect?: Prisma.RecallWhereUniqueInput
+}
+
+export type RecallUpdateOneRequiredWithoutNoticesNestedInput = {
+  create?: Prisma.XOR<Prisma.RecallCreateWithoutNoticesInput, Prisma.RecallUncheckedCreateWithoutNoticesInput>
+  connectOrCreate?: Prisma.RecallCreateOrConnectWithoutNoticesInput
+  upsert?: Prisma.RecallUpsertWithoutNoticesInput
+  connect?: Prisma.RecallWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.RecallUpdateToOneWithWhereWithoutNoticesInput, Prisma.RecallUpdateWithoutNoticesInput>, Prisma.RecallUncheckedUpdateWithoutNoticesInput>
+}
+
+export type RecallCreateWithoutBatchesInput = {
+  id?: string
+  batchNumbers?: Prisma.RecallCreatebatchNumbersInput | string[]
+  manufacturedFrom?: Date | string | null
+  manufacturedTo?: Date | string | null
+  severity: $Enums.RecallSeverity
+  status?: $Enums.RecallStatus
+  reason: string
+  instructions: string
+  createdBy?: string | null
+  closedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  medicine: Prisma.MedicineCreateNestedOneWithoutRecallsInput
+  notices?: Prisma.RecallNoticeCreateNestedManyWithoutRecallInput
+}
+
+export type RecallUncheckedCreateWithoutBatchesInput = {
+  id?: string
+  medicineId: string
+  batchNumbers?: Prisma.RecallCreatebatchNumbersInput | string[]
+  manufacturedFrom?: Date | string | null
+  manufacturedTo?: Date | string | null
+  severity: $Enums.RecallSeverity
+  status?: $Enums.RecallStatus
+  reason: string
+  instructions: string
+  createdBy?: string | null
+  closedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  notices?: Prisma.RecallNoticeUncheckedCreateNestedManyWithoutRecallInput
+}
+
+export type RecallCreateOrConnectWithoutBatchesInput = {
+  where: Prisma.RecallWhereUniqueInput
+  create: Prisma.XOR<Prisma.RecallCreateWithoutBatchesInput, Prisma.RecallUncheckedCreateWithoutBatchesInput>
+}
+
+export type RecallUpsertWithoutBatchesInput = {
+  update: Prisma.XOR<Prisma.RecallUpdateWithoutBatchesInput, Prisma.RecallUncheckedUpdateWithoutBatchesInput>
+  create: Prisma.XOR<Prisma.RecallCreateWithoutBatchesInput, Prisma.RecallUncheckedCreateWithoutBatchesInput>
+  where?: Prisma.RecallWhereInput
+}
+
+export type RecallUpdateToOneWithWhereWithoutBatchesInput = {
+  where?: Prisma.RecallWhereInput
+  data: Prisma.XOR<Prisma.RecallUpdateWithoutBatchesInput, Prisma.RecallUncheckedUpdateWithoutBatchesInput>
+}
+
+export type RecallUpdateWithoutBatchesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  batchNumbers?: Prisma.RecallUpdatebatchNumbersInput | string[]
+  manufacturedFrom?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  manufacturedTo?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  severity?: Prisma.EnumRecallSeverityFieldUpdateOperationsInput | $Enums.RecallSeverity
+  status?: Prisma.EnumRecallStatusFieldUpdateOperationsInput | $Enums.RecallStatus
+  reason?: Prisma.StringFieldUpdateOperationsInput | string
+  instructions?: Prisma.StringFieldUpdateOperationsInput | string
+  createdBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  medicine?: Prisma.MedicineUpdateOneRequiredWithoutRecallsNestedInput
+  notices?: Prisma.RecallNoticeUpdateManyWithoutRecallNestedInput
+}
+
+export type RecallUncheckedUpdateWithoutBatchesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  medicineId?: Prisma.StringFieldUpdateOperationsInput | string
+  batchNumbers?: Prisma.RecallUpdatebatchNumbersInput | string[]
+  manufacturedFrom?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  manufacturedTo?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  severity?: Prisma.EnumRecallSeverityFieldUpdateOperationsInput | $Enums.RecallSeverity
+  status?: Prisma.EnumRecallStatusFieldUpdateOperationsInput | $Enums.RecallStatus
+  reason?: Prisma.StringFieldUpdateOperationsInput | string
+  instructions?: Prisma.StringFieldUpdateOperationsInput | string
+  createdBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  notices?: Prisma.RecallNoticeUncheckedUpdateManyWithoutRecallNestedInput
+}
+
+export type RecallCreateWithoutMedicineInput = {
+  id?: string
+  batchNumbers?: Prisma.RecallCreatebatchNumbersInput | string[]
+  manufacturedFrom?: Date | string | null
+  manufacturedTo?: Date | string | null
+  severity: $Enums.RecallSeverity
+  status?: $Enums.RecallStatus
+  reason: string
+  instructions: string
+  createdBy?: string | null
+  closedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  batches?: Prisma.MedicineBatchCreateNestedManyWithoutRecallInput
+  notices?: Prisma.RecallNoticeCreateNestedManyWithoutRecallInput
+}
+
+export type RecallUncheckedCreateWithoutMedicineInput = {
+  id?: string
+  batchNumbers?: Prisma.RecallCreatebatchNumbersInput | string[]
+  manufacturedFrom?: Date | string | null
+  manufacturedTo?: Date | string | null
+  severity: $Enums.RecallSeverity
+  status?: $Enums.RecallStatus
+  reason: string
+  instructions: string
+  createdBy?: string | null
+  closedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  batches?: Prisma.MedicineBatchUncheckedCreateNestedManyWithoutRecallInput
+  notices?: Prisma.RecallNoticeUncheckedCreateNestedManyWithoutRecallInput
+}
+
+export type RecallCreateOrConnectWithoutMedicineInput = {
+  where: Prisma.RecallWhereUniqueInput
+  create: Prisma.XOR<Prisma.RecallCreateWithoutMedicineInput, Prisma.RecallUncheckedCreateWithoutMedicineInput>
+}
+
+export type RecallCreateManyMedicineInputEnvelope = {
+  data: Prisma.RecallCreateManyMedicineInput | Prisma.RecallCreateManyMedicineInput[]
+  skipDuplicates?: boolean
+}
+
+export type RecallUpsertWithWhereUniqueWithoutMedicineInput = {
+  where: Prisma.RecallWhereUniqueInput
+  update: Prisma.XOR<Prisma.RecallUpdateWithoutMedicineInput, Prisma.RecallUncheckedUpdateWithoutMedicineInput>
+  create: Prisma.XOR<Prisma.RecallCreateWithoutMedicineInput, Prisma.RecallUncheckedCreateWithoutMedicineInput>
+}
+
+export type RecallUpdateWithWhereUniqueWithoutMedicineInput = {
+  where: Prisma.RecallWhereUniqueInput
+  data: Prisma.XOR<Prisma.RecallUpdateWithoutMedicineInput, Prisma.RecallUncheckedUpdateWithoutMedicineInput>
+}
+
+export type RecallUpdateManyWithWhereWithoutMedicineInput = {
+  where: Prisma.RecallScalarWhereInput
+  data: Prisma.XOR<Prisma.RecallUpdateManyMutationInput, Prisma.RecallUncheckedUpdateManyWithoutMedicineInput>
+}
+
+export type RecallScalarWhereInput = {
+  AND?: Prisma.RecallScalarWhereInput | Prisma.RecallScalarWhereInput[]
+  OR?: Prisma.RecallScalarWhereInput[]
+  NOT?: Prisma.RecallScalarWhereInput | Prisma.RecallScalarWhereInput[]
+  id?: Prisma.StringFilter<"Recall"> | string
+  medicineId?: Prisma.StringFilter<"Recall"> | string
+  batchNumbers?: Prisma.StringNullableListFilter<"Recall">
+  manufacturedFrom?: Prisma.DateTimeNullableFilter<"Recall"> | Date | string | null
+  manufacturedTo?: Prisma.DateTimeNullableFilter<"Recall"> | Date | string | null
+  severity?: Prisma.EnumRecallSeverityFilter<"Recall"> | $Enums.RecallSeverity
+  status?: Prisma.EnumRecallStatusFilter<"Recall"> | $Enums.RecallStatus
+  reason?: Prisma.StringFilter<"Recall"> | string
+  instructions?: Prisma.StringFilter<"Recall"> | string
+  createdBy?: Prisma.StringNullableFilter<"Recall"> | string | null
+  closedAt?: Prisma.DateTimeNullableFilter<"Recall"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"Recall"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"Recall"> | Date | string
+}
+
+export type RecallCreateWithoutNoticesInput = {
+  id?: string
+  batchNumbers?: Prisma.RecallCreatebatchNumbersInput | string[]
+  manufacturedFrom?: Date | string | null
+  manufacturedTo?: Date | string | null
+  severity: $Enums.RecallSeverity
+  status?: $Enums.RecallStatus
+  reason: string
+  instructions: string
+  createdBy?: string | null
+  closedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  medicine: Prisma.MedicineCreateNestedOneWithoutRecallsInput
+  batches?: Prisma.MedicineBatchCreateNestedManyWithoutRecallInput
+}
+
+export type RecallUncheckedCreateWithoutNoticesInput = {
+  id?: string
+  medicineId: string
+  batchNumbers?: Prisma.RecallCreatebatchNumbersInput | string[]
+  manufacturedFrom?: Date | string | null
+  manufacturedTo?: Date | string | null
+  severity: $Enums.RecallSeverity
+  status?: $Enums.RecallStatus
+  reason: string
+  instructions: string
+  createdBy?: string | null
+  closedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  batches?: Prisma.MedicineBatchUncheckedCreateNestedManyWithoutRecallInput
+}
+
+export type RecallCreateOrConnectWithoutNoticesInput = {
+  where: Prisma.RecallWhereUniqueInput
+  create: Prisma.XOR<Prisma.RecallCreateWithoutNoticesInput, Prisma.RecallUncheckedCreateWithoutNoticesInput>
+}
+
+export type RecallUpsertWithoutNoticesInput = {
+  update: Prisma.XOR<Prisma.RecallUpdateWithoutNoticesInput, Prisma.RecallUncheckedUpdateWithoutNoticesInput>
+  create: Prisma.XOR<Prisma.RecallCreateWithoutNoticesInput, Prisma.RecallUncheckedCreateWithoutNoticesInput>
+  where?: Prisma.RecallWhereInput
+}
+
+export type RecallUpdateToOneWithWhereWithoutNoticesInput = {
+  where?: Prisma.RecallWhereInput
+  data: Prisma.XOR<Prisma.RecallUpdateWithoutNoticesInput, Prisma.RecallUncheckedUpdateWithoutNoticesInput>
+}
+
+export type RecallUpdateWithoutNoticesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  batchNumbers?: Prisma.RecallUpdatebatchNumbersInput | string[]
+  manufacturedFrom?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  manufacturedTo?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  severity?: Prisma.EnumRecallSeverityFieldUpdateOperationsInput | $Enums.RecallSeverity
+  status?: Prisma.EnumRecallStatusFieldUpdateOperationsInput | $Enums.RecallStatus
+  reason?: Prisma.StringFieldUpdateOperationsInput | string
+  instructions?: Prisma.StringFieldUpdateOperationsInput | string
+  createdBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  medicine?: Prisma.MedicineUpdateOneRequiredWithoutRecallsNestedInput
+  batches?: Prisma.MedicineBatchUpdateManyWithoutRecallNestedInput
+}
+
+export type RecallUncheckedUpdateWithoutNoticesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  medicineId?: Prisma.StringFieldUpdateOperationsInput | string
+  batchNumbers?: Prisma.RecallUpdatebatchNumbersInput | string[]
+  manufacturedFrom?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  manufacturedTo?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  severity?: Prisma.EnumRecallSeverityFieldUpdateOperationsInput | $Enums.RecallSeverity
+  status?: Prisma.EnumRecallStatusFieldUpdateOperationsInput | $Enums.RecallStatus
+  reason?: Prisma.StringFieldUpdateOperationsInput | string
+  instructions?: Prisma.StringFieldUpdateOperationsInput | string
+  createdBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  batches?: Prisma.MedicineBatchUncheckedUpdateManyWithoutRecallNestedInput
+}
+
+export type RecallCreateManyMedicineInput = {
+  id?: string
+  batchNumbers?: Prisma.RecallCreatebatchNumbersInput | string[]
+  manufacturedFrom?: Date | string | null
+  manufacturedTo?: Date | string | null
+  severity: $Enums.RecallSeverity
+  status?: $Enums.RecallStatus
+  reason: string
+  instructions: string
+  createdBy?: string | null
+  closedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type RecallUpdateWithoutMedicineInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  batchNumbers?: Prisma.RecallUpdatebatchNumbersInput | string[]
+  manufacturedFrom?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  manufacturedTo?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  severity?: Prisma.EnumRecallSeverityFieldUpdateOperationsInput | $Enums.RecallSeverity
+  status?: Prisma.EnumRecallStatusFieldUpdateOperationsInput | $Enums.RecallStatus
+  reason?: Prisma.StringFieldUpdateOperationsInput | string
+  instructions?: Prisma.StringFieldUpdateOperationsInput | string
+  createdBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  batches?: Prisma.MedicineBatchUpdateManyWithoutRecallNestedInput
+  notices?: Prisma.RecallNoticeUpdateManyWithoutRecallNestedInput
+}
+
+export type RecallUncheckedUpdateWithoutMedicineInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  batchNumbers?: Prisma.RecallUpdatebatchNumbersInput | string[]
+  manufacturedFrom?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  manufacturedTo?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  severity?: Prisma.EnumRecallSeverityFieldUpdateOperationsInput | $Enums.RecallSeverity
+  status?: Prisma.EnumRecallStatusFieldUpdateOperationsInput | $Enums.RecallStatus
+  reason?: Prisma.StringFieldUpdateOperationsInput | string
+  instructions?: Prisma.StringFieldUpdateOperationsInput | string
+  createdBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  batches?: Prisma.MedicineBatchUncheckedUpdateManyWithoutRecallNestedInput
+  notices?: Prisma.RecallNoticeUncheckedUpdateManyWithoutRecallNestedInput
+}
+
+export type RecallUncheckedUpdateManyWithoutMedicineInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  batchNumbers?: Prisma.RecallUpdatebatchNumbersInput | string[]
+  manufacturedFrom?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  manufacturedTo?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  severity?: Prisma.EnumRecallSeverityFieldUpdateOperationsInput | $Enums.RecallSeverity
+  status?: Prisma.EnumRecallStatusFieldUpdateOperationsInput | $Enums.RecallStatus
+  reason?: Prisma.StringFieldUpdateOperationsInput | string
+  instructions?: Prisma.StringFieldUpdateOperationsInput | string
+  createdBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+/**
+ * Count Type RecallCountOutputType
+ */
+
+export type RecallCountOutputType = {
+  batches: number
+  notices: number
+}
+
+export type RecallCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  batches?: boolean | RecallCountOutputTypeCountBatchesArgs
+  notices?: boolean | RecallCountOutputTypeCountNoticesArgs
+}
+
+/**
+ * RecallCountOutputType without action
+ */
+export type RecallCountOutputTypeDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RecallCountOutputType
+   */
+  select?: Prisma.RecallCountOutputTypeSelect<ExtArgs> | null
+}
+
+/**
+ * RecallCountOutputType without action
+ */
+export type RecallCountOutputTypeCountBatchesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.MedicineBatchWhereInput
+}
+
+/**
+ * RecallCountOutputType without action
+ */
+export type RecallCountOutputTypeCountNoticesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.RecallNoticeWhereInput
+}
+
+
+export type RecallSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  medicineId?: boolean
+  batchNumbers?: boolean
+  manufacturedFrom?: boolean
+  manufacturedTo?: boolean
+  severity?: boolean
+  status?: boolean
+  reason?: boolean
+  instructions?: boolean
+  createdBy?: boolean
+  closedAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  medicine?: boolean | Prisma.MedicineDefaultArgs<ExtArgs>
+  batches?: boolean | Prisma.Recall$batchesArgs<ExtArgs>
+  notices?: boolean | Prisma.Recall$noticesArgs<ExtArgs>
+  _count?: boolean | Prisma.RecallCountOutputTypeDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["recall"]>
+
+export type RecallSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  medicineId?: boolean
+  batchNumbers?: boolean
+  manufacturedFrom?: boolean
+  manufacturedTo?: boolean
+  severity?: boolean
+  status?: boolean
+  reason?: boolean
+  instructions?: boolean
+  createdBy?: boolean
+  closedAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  medicine?: boolean | Prisma.MedicineDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["recall"]>
+
+export type RecallSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  medicineId?: boolean
+  batchNumbers?: boolean
+  manufacturedFrom?: boolean
+  manufacturedTo?: boolean
+  severity?: boolean
+  status?: boolean
+  reason?: boolean
+  instructions?: boolean
+  createdBy?: boolean
+  closedAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  medicine?: boolean | Prisma.MedicineDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["recall"]>
+
+export type RecallSelectScalar = {
+  id?: boolean
+  medicineId?: boolean
+  batchNumbers?: boolean
+  manufacturedFrom?: boolean
+  manufacturedTo?: boolean
+  severity?: boolean
+  status?: boolean
+  reason?: boolean
+  instructions?: boolean
+  createdBy?: boolean
+  closedAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}
+
+export type RecallOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "medicineId" | "batchNumbers" | "manufacturedFrom" | "manufacturedTo" | "severity" | "status" | "reason" | "instructions" | "createdBy" | "closedAt" | "createdAt" | "updatedAt", ExtArgs["result"]["recall"]>
+export type RecallInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  medicine?: boolean | Prisma.MedicineDefaultArgs<ExtArgs>
+  batches?: boolean | Prisma.Recall$batchesArgs<ExtArgs>
+  notices?: boolean | Prisma.Recall$noticesArgs<ExtArgs>
+  _count?: boolean | Prisma.RecallCountOutputTypeDefaultArgs<ExtArgs>
+}
+export type RecallIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  medicine?: boolean | Prisma.MedicineDefaultArgs<ExtArgs>
+}
+export type RecallIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  medicine?: boolean | Prisma.MedicineDefaultArgs<ExtArgs>
+}
+
+export type $RecallPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "Recall"
+  objects: {
+    medicine: Prisma.$MedicinePayload<ExtArgs>
+    batches: Prisma.$MedicineBatchPayload<ExtArgs>[]
+    notices: Prisma.$RecallNoticePayload<ExtArgs>[]
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    medicineId: string
+    batchNumbers: string[]
+    manufacturedFrom: Date | null
+    manufacturedTo: Date | null
+    severity: $Enums.RecallSeverity
+    status: $Enums.RecallStatus
+    reason: string
+    instructions: string
+    createdBy: string | null
+    closedAt: Date | null
+    createdAt: Date
+    updatedAt: Date
+  }, ExtArgs["result"]["recall"]>
+  composites: {}
+}
+
+export type RecallGetPayload<S extends boolean | null | undefined | RecallDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$RecallPayload, S>
+
+export type RecallCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<RecallFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: RecallCountAggregateInputType | true
+  }
+
+export interface RecallDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['Recall'], meta: { name: 'Recall' } }
+  /**
+   * Find zero or one Recall that matches the filter.
+   * @param {RecallFindUniqueArgs} args - Arguments to find a Recall
+   * @example
+   * // Get one Recall
+   * const recall = await prisma.recall.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends RecallFindUniqueArgs>(args: Prisma.SelectSubset<T, RecallFindUniqueArgs<ExtArgs>>): Prisma.Prisma__RecallClient<runtime.Types.Result.GetResult<Prisma.$RecallPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one Recall that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {RecallFindUniqueOrThrowArgs} args - Arguments to find a Recall
+   * @example
+   * // Get one Recall
+   * const recall = await prisma.recall.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends RecallFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, RecallFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__RecallClient<runtime.Types.Result.GetResult<Prisma.$RecallPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first Recall that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RecallFindFirstArgs} args - Arguments to find a Recall
+   * @example
+   * // Get one Recall
+   * const recall = await prisma.recall.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends RecallFindFirstArgs>(args?: Prisma.SelectSubset<T, RecallFindFirstArgs<ExtArgs>>): Prisma.Prisma__RecallClient<runtime.Types.Result.GetResult<Prisma.$RecallPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first Recall that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RecallFindFirstOrThrowArgs} args - Arguments to find a Recall
+   * @example
+   * // Get one Recall
+   * const recall = await prisma.recall.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends RecallFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, RecallFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__RecallClient<runtime.Types.Result.GetResult<Prisma.$RecallPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more Recalls that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RecallFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all Recalls
+   * const recalls = await prisma.recall.findMany()
+   * 
+   * // Get first 10 Recalls
+   * const recalls = await prisma.recall.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const recallWithIdOnly = await prisma.recall.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends RecallFindManyArgs>(args?: Prisma.SelectSubset<T, RecallFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$RecallPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a Recall.
+   * @param {RecallCreateArgs} args - Arguments to create a Recall.
+   * @example
+   * // Create one Recall
+   * const Recall = await prisma.recall.create({
+   *   data: {
+   *     // ... data to create a Recall
+   *   }
+   * })
+   * 
+   */
+  create<T extends RecallCreateArgs>(args: Prisma.SelectSubset<T, RecallCreateArgs<ExtArgs>>): Prisma.Prisma__RecallClient<runtime.Types.Result.GetResult<Prisma.$RecallPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many Recalls.
+   * @param {RecallCreateManyArgs} args - Arguments to create many Recalls.
+   * @example
+   * // Create many Recalls
+   * const recall = await prisma.recall.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends RecallCreateManyArgs>(args?: Prisma.SelectSubset<T, RecallCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many Recalls and returns the data saved in the database.
+   * @param {RecallCreateManyAndReturnArgs} args - Arguments to create many Recalls.
+   * @example
+   * // Create many Recalls
+   * const recall = await prisma.recall.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many Recalls and only return the `id`
+   * const recallWithIdOnly = await prisma.recall.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends RecallCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, RecallCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$RecallPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a Recall.
+   * @param {RecallDeleteArgs} args - Arguments to delete one Recall.
+   * @example
+   * // Delete one Recall
+   * const Recall = await prisma.recall.delete({
+   *   where: {
+   *     // ... filter to delete one Recall
+   *   }
+   * })
+   * 
+   */
+  delete<T extends RecallDeleteArgs>(args: Prisma.SelectSubset<T, RecallDeleteArgs<ExtArgs>>): Prisma.Prisma__RecallClient<runtime.Types.Result.GetResult<Prisma.$RecallPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one Recall.
+   * @param {RecallUpdateArgs} args - Arguments to update one Recall.
+   * @example
+   * // Update one Recall
+   * const recall = await prisma.recall.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends RecallUpdateArgs>(args: Prisma.SelectSubset<T, RecallUpdateArgs<ExtArgs>>): Prisma.Prisma__RecallClient<runtime.Types.Result.GetResult<Prisma.$RecallPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more Recalls.
+   * @param {RecallDeleteManyArgs} args - Arguments to filter Recalls to delete.
+   * @example
+   * // Delete a few Recalls
+   * const { count } = await prisma.recall.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends RecallDeleteManyArgs>(args?: Prisma.SelectSubset<T, RecallDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more Recalls.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RecallUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many Recalls
+   * const recall = await prisma.recall.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends RecallUpdateManyArgs>(args: Prisma.SelectSubset<T, RecallUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more Recalls and returns the data updated in the database.
+   * @param {RecallUpdateManyAndReturnArgs} args - Arguments to update many Recalls.
+   * @example
+   * // Update many Recalls
+   * const recall = await prisma.recall.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more Recalls and only return the `id`
+   * const recallWithIdOnly = await prisma.recall.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends RecallUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, RecallUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$RecallPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one Recall.
+   * @param {RecallUpsertArgs} args - Arguments to update or create a Recall.
+   * @example
+   * // Update or create a Recall
+   * const recall = await prisma.recall.upsert({
+   *   create: {
+   *     // ... data to create a Recall
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the Recall we want to update
+   *   }
+   * })
+   */
+  upsert<T extends RecallUpsertArgs>(args: Prisma.SelectSubset<T, RecallUpsertArgs<ExtArgs>>): Prisma.Prisma__RecallClient<runtime.Types.Result.GetResult<Prisma.$RecallPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of Recalls.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RecallCountArgs} args - Arguments to filter Recalls to count.
+   * @example
+   * // Count the number of Recalls
+   * const count = await prisma.recall.count({
+   *   where: {
+   *     // ... the filter for the Recalls we want to count
+   *   }
+   * })
+  **/
+  count<T extends RecallCountArgs>(
+    args?: Prisma.Subset<T, RecallCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], RecallCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a Recall.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RecallAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends RecallAggregateArgs>(args: Prisma.Subset<T, RecallAggregateArgs>): Prisma.PrismaPromise<GetRecallAggregateType<T>>
+
+  /**
+   * Group by Recall.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RecallGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends RecallGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: RecallGroupByArgs['orderBy'] }
+      : { orderBy?: RecallGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, RecallGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetRecallGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the Recall model
+ */
+readonly fields: RecallFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for Recall.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__RecallClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  medicine<T extends Prisma.MedicineDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.MedicineDefaultArgs<ExtArgs>>): Prisma.Prisma__MedicineClient<runtime.Types.Result.GetResult<Prisma.$MedicinePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  batches<T extends Prisma.Recall$batchesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Recall$batchesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$MedicineBatchPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  notices<T extends Prisma.Recall$noticesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Recall$noticesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$RecallNoticePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the Recall model
+ */
+export interface RecallFieldRefs {
+  readonly id: Prisma.FieldRef<"Recall", 'String'>
+  readonly medicineId: Prisma.FieldRef<"Recall", 'String'>
+  readonly batchNumbers: Prisma.FieldRef<"Recall", 'String[]'>
+  readonly manufacturedFrom: Prisma.FieldRef<"Recall", 'DateTime'>
+  readonly manufacturedTo: Prisma.FieldRef<"Recall", 'DateTime'>
+  readonly severity: Prisma.FieldRef<"Recall", 'RecallSeverity'>
+  readonly status: Prisma.FieldRef<"Recall", 'RecallStatus'>
+  readonly reason: Prisma.FieldRef<"Recall", 'String'>
+  readonly instructions: Prisma.FieldRef<"Recall", 'String'>
+  readonly createdBy: Prisma.FieldRef<"Recall", 'String'>
+  readonly closedAt: Prisma.FieldRef<"Recall", 'DateTime'>
+  readonly createdAt: Prisma.FieldRef<"Recall", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"Recall", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * Recall findUnique
+ */
+export type RecallFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Recall
+   */
+  select?: Prisma.RecallSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Recall
+   */
+  omit?: Prisma.RecallOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RecallInclude<ExtArgs> | null
+  /**
+   * Filter, which Recall to fetch.
+   */
+  where: Prisma.RecallWhereUniqueInput
+}
+
+/**
+ * Recall findUniqueOrThrow
+ */
+export type RecallFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Recall
+   */
+  select?: Prisma.RecallSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Recall
+   */
+  omit?: Prisma.RecallOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RecallInclude<ExtArgs> | null
+  /**
+   * Filter, which Recall to fetch.
+   */
+  where: Prisma.RecallWhereUniqueInput
+}
+
+/**
+ * Recall findFirst
+ */
+export type RecallFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Recall
+   */
+  select?: Prisma.RecallSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Recall
+   */
+  omit?: Prisma.RecallOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RecallInclude<ExtArgs> | null
+  /**
+   * Filter, which Recall to fetch.
+   */
+  where?: Prisma.RecallWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Recalls to fetch.
+   */
+  orderBy?: Prisma.RecallOrderByWithRelationInput | Prisma.RecallOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for Recalls.
+   */
+  cursor?: Prisma.RecallWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Recalls from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Recalls.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of Recalls.
+   */
+  distinct?: Prisma.RecallScalarFieldEnum | Prisma.RecallScalarFieldEnum[]
+}
+
+/**
+ * Recall findFirstOrThrow
+ */
+export type RecallFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Recall
+   */
+  select?: Prisma.RecallSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Recall
+   */
+  omit?: Prisma.RecallOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RecallInclude<ExtArgs> | null
+  /**
+   * Filter, which Recall to fetch.
+   */
+  where?: Prisma.RecallWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Recalls to fetch.
+   */
+  orderBy?: Prisma.RecallOrderByWithRelationInput | Prisma.RecallOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for Recalls.
+   */
+  cursor?: Prisma.RecallWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Recalls from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Recalls.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of Recalls.
+   */
+  distinct?: Prisma.RecallScalarFieldEnum | Prisma.RecallScalarFieldEnum[]
+}
+
+/**
+ * Recall findMany
+ */
+export type RecallFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Recall
+   */
+  select?: Prisma.RecallSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Recall
+   */
+  omit?: Prisma.RecallOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RecallInclude<ExtArgs> | null
+  /**
+   * Filter, which Recalls to fetch.
+   */
+  where?: Prisma.RecallWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Recalls to fetch.
+   */
+  orderBy?: Prisma.RecallOrderByWithRelationInput | Prisma.RecallOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing Recalls.
+   */
+  cursor?: Prisma.RecallWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Recalls from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Recalls.
+   */
+  skip?: number
+  distinct?: Prisma.RecallScalarFieldEnum | Prisma.RecallScalarFieldEnum[]
+}
+
+/**
+ * Recall create
+ */
+export type RecallCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Recall
+   */
+  select?: Prisma.RecallSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Recall
+   */
+  omit?: Prisma.RecallOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RecallInclude<ExtArgs> | null
+  /**
+   * The data needed to create a Recall.
+   */
+  data: Prisma.XOR<Prisma.RecallCreateInput, Prisma.RecallUncheckedCreateInput>
+}
+
+/**
+ * Recall createMany
+ */
+export type RecallCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many Recalls.
+   */
+  data: Prisma.RecallCreateManyInput | Prisma.RecallCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * Recall createManyAndReturn
+ */
+export type RecallCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Recall
+   */
+  select?: Prisma.RecallSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the Recall
+   */
+  omit?: Prisma.RecallOmit<ExtArgs> | null
+  /**
+   * The data used to create many Recalls.
+   */
+  data: Prisma.RecallCreateManyInput | Prisma.RecallCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RecallIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * Recall update
+ */
+export type RecallUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Recall
+   */
+  select?: Prisma.RecallSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Recall
+   */
+  omit?: Prisma.RecallOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RecallInclude<ExtArgs> | null
+  /**
+   * The data needed to update a Recall.
+   */
+  data: Prisma.XOR<Prisma.RecallUpdateInput, Prisma.RecallUncheckedUpdateInput>
+  /**
+   * Choose, which Recall to update.
+   */
+  where: Prisma.RecallWhereUniqueInput
+}
+
+/**
+ * Recall updateMany
+ */
+export type RecallUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update Recalls.
+   */
+  data: Prisma.XOR<Prisma.RecallUpdateManyMutationInput, Prisma.RecallUncheckedUpdateManyInput>
+  /**
+   * Filter which Recalls to update
+   */
+  where?: Prisma.RecallWhereInput
+  /**
+   * Limit how many Recalls to update.
+   */
+  limit?: number
+}
+
+/**
+ * Recall updateManyAndReturn
+ */
+export type RecallUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Recall
+   */
+  select?: Prisma.RecallSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the Recall
+   */
+  omit?: Prisma.RecallOmit<ExtArgs> | null
+  /**
+   * The data used to update Recalls.
+   */
+  data: Prisma.XOR<Prisma.RecallUpdateManyMutationInput, Prisma.RecallUncheckedUpdateManyInput>
+  /**
+   * Filter which Recalls to update
+   */
+  where?: Prisma.RecallWhereInput
+  /**
+   * Limit how many Recalls to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RecallIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * Recall upsert
+ */
+export type RecallUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Recall
+   */
+  select?: Prisma.RecallSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Recall
+   */
+  omit?: Prisma.RecallOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RecallInclude<ExtArgs> | null
+  /**
+   * The filter to search for the Recall to update in case it exists.
+   */
+  where: Prisma.RecallWhereUniqueInput
+  /**
+   * In case the Recall found by the `where` argument doesn't exist, create a new Recall with this data.
+   */
+  create: Prisma.XOR<Prisma.RecallCreateInput, Prisma.RecallUncheckedCreateInput>
+  /**
+   * In case the Recall was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.RecallUpdateInput, Prisma.RecallUncheckedUpdateInput>
+}
+
+/**
+ * Recall delete
+ */
+export type RecallDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Recall
+   */
+  select?: Prisma.RecallSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Recall
+   */
+  omit?: Prisma.RecallOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RecallInclude<ExtArgs> | null
+  /**
+   * Filter which Recall to delete.
+   */
+  where: Prisma.RecallWhereUniqueInput
+}
+
+/**
+ * Recall deleteMany
+ */
+export type RecallDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which Recalls to delete
+   */
+  where?: Prisma.RecallWhereInput
+  /**
+   * Limit how many Recalls to delete.
+   */
+  limit?: number
+}
+
+/**
+ * Recall.batches
+ */
+export type Recall$batchesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the MedicineBatch
+   */
+  select?: Prisma.MedicineBatchSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the MedicineBatch
+   */
+  omit?: Prisma.MedicineBatchOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.MedicineBatchInclude<ExtArgs> | null
+  where?: Prisma.MedicineBatchWhereInput
+  orderBy?: Prisma.MedicineBatchOrderByWithRelationInput | Prisma.MedicineBatchOrderByWithRelationInput[]
+  cursor?: Prisma.MedicineBatchWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.MedicineBatchScalarFieldEnum | Prisma.MedicineBatchScalarFieldEnum[]
+}
+
+/**
+ * Recall.notices
+ */
+export type Recall$noticesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RecallNotice
+   */
+  select?: Prisma.RecallNoticeSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RecallNotice
+   */
+  omit?: Prisma.RecallNoticeOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RecallNoticeInclude<ExtArgs> | null
+  where?: Prisma.RecallNoticeWhereInput
+  orderBy?: Prisma.RecallNoticeOrderByWithRelationInput | Prisma.RecallNoticeOrderByWithRelationInput[]
+  cursor?: Prisma.RecallNoticeWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.RecallNoticeScalarFieldEnum | Prisma.RecallNoticeScalarFieldEnum[]
+}
+
+/**
+ * Recall without action
+ */
+export type RecallDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Recall
+   */
+  select?: Prisma.RecallSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Recall
+   */
+  omit?: Prisma.RecallOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RecallInclude<ExtArgs> | null
+}
@@ -0,0 +1,1909 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `RecallNotice` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model RecallNotice
+ * 
+ */
+export type RecallNoticeModel = runtime.Types.Result.DefaultSelection<Prisma.$RecallNoticePayload>
+
+export type AggregateRecallNotice = {
+  _count: RecallNoticeCountAggregateOutputType | null
+  _avg: RecallNoticeAvgAggregateOutputType | null
+  _sum: RecallNoticeSumAggregateOutputType | null
+  _min: RecallNoticeMinAggregateOutputType | null
+  _max: RecallNoticeMaxAggregateOutputType | null
+}
+
+export type RecallNoticeAvgAggregateOutputType = {
+  quantity: number | null
+}
+
+export type RecallNoticeSumAggregateOutputType = {
+  quantity: number | null
+}
+
+export type RecallNoticeMinAggregateOutputType = {
+  id: string | null
+  recallId: string | null
+  orderId: string | null
+  orderItemId: string | null
+  userId: string | null
+  quantity: number | null
+  notifiedAt: Date | null
+  createdAt: Date | null
+}
+
+export type RecallNoticeMaxAggregateOutputType = {
+  id: string | null
+  recallId: string | null
+  orderId: string | null
+  orderItemId: string | null
+  userId: string | null
+  quantity: number | null
+  notifiedAt: Date | null
+  createdAt: Date | null
+}
+
+export type RecallNoticeCountAggregateOutputType = {
+  id: number
+  recallId: number
+  orderId: number
+  orderItemId: number
+  userId: number
+  quantity: number
+  notifiedAt: number
+  createdAt: number
+  _all: number
+}
+
+
+export type RecallNoticeAvgAggregateInputType = {
+  quantity?: true
+}
+
+export type RecallNoticeSumAggregateInputType = {
+  quantity?: true
+}
+
+export type RecallNoticeMinAggregateInputType = {
+  id?: true
+  recallId?: true
+  orderId?: true
+  orderItemId?: true
+  userId?: true
+  quantity?: true
+  notifiedAt?: true
+  createdAt?: true
+}
+
+export type RecallNoticeMaxAggregateInputType = {
+  id?: true
+  recallId?: true
+  orderId?: true
+  orderItemId?: true
+  userId?: true
+  quantity?: true
+  notifiedAt?: true
+  createdAt?: true
+}
+
+export type RecallNoticeCountAggregateInputType = {
+  id?: true
+  recallId?: true
+  orderId?: true
+  orderItemId?: true
+  userId?: true
+  quantity?: true
+  notifiedAt?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type RecallNoticeAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which RecallNotice to aggregate.
+   */
+  where?: Prisma.RecallNoticeWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of RecallNotices to fetch.
+   */
+  orderBy?: Prisma.RecallNoticeOrderByWithRelationInput | Prisma.RecallNoticeOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.RecallNoticeWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` RecallNotices from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` RecallNotices.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned RecallNotices
+  **/
+  _count?: true | RecallNoticeCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: RecallNoticeAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: RecallNoticeSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: RecallNoticeMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: RecallNoticeMaxAggregateInputType
+}
+
+export type GetRecallNoticeAggregateType<T extends RecallNoticeAggregateArgs> = {
+      [P in keyof T & keyof AggregateRecallNotice]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateRecallNotice[P]>
+    : Prisma.GetScalarType<T[P], AggregateRecallNotice[P]>
+}
+
+
+
+
+export type RecallNoticeGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.RecallNoticeWhereInput
+  orderBy?: Prisma.RecallNoticeOrderByWithAggregationInput | Prisma.RecallNoticeOrderByWithAggregationInput[]
+  by: Prisma.RecallNoticeScalarFieldEnum[] | Prisma.RecallNoticeScalarFieldEnum
+  having?: Prisma.RecallNoticeScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: RecallNoticeCountAggregateInputType | true
+  _avg?: RecallNoticeAvgAggregateInputType
+  _sum?: RecallNoticeSumAggregateInputType
+  _min?: RecallNoticeMinAggregateInputType
+  _max?: RecallNoticeMaxAggregateInputType
+}
+
+export type RecallNoticeGroupByOutputType = {
+  id: string
+  recallId: string
+  orderId: string
+  orderItemId: string
+  userId: string
+  quantity: number
+  notifiedAt: Date | null
+  createdAt: Date
+  _count: RecallNoticeCountAggregateOutputType | null
+  _avg: RecallNoticeAvgAggregateOutputType | null
+  _sum: RecallNoticeSumAggregateOutputType | null
+  _min: RecallNoticeMinAggregateOutputType | null
+  _max: RecallNoticeMaxAggregateOutputType | null
+}
+
+type GetRecallNoticeGroupByPayload<T extends RecallNoticeGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<RecallNoticeGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof RecallNoticeGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], RecallNoticeGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], RecallNoticeGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type RecallNoticeWhereInput = {
+  AND?: Prisma.RecallNoticeWhereInput | Prisma.RecallNoticeWhereInput[]
+  OR?: Prisma.RecallNoticeWhereInput[]
+  NOT?: Prisma.RecallNoticeWhereInput | Prisma.RecallNoticeWhereInput[]
+  id?: Prisma.StringFilter<"RecallNotice"> | string
+  recallId?: Prisma.StringFilter<"RecallNotice"> | string
+  orderId?: Prisma.StringFilter<"RecallNotice"> | string
+  orderItemId?: Prisma.StringFilter<"RecallNotice"> | string
+  userId?: Prisma.StringFilter<"RecallNotice"> | string
+  quantity?: Prisma.IntFilter<"RecallNotice"> | number
+  notifiedAt?: Prisma.DateTimeNullableFilter<"RecallNotice"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"RecallNotice"> | Date | string
+  recall?: Prisma.XOR<Prisma.RecallScalarRelationFilter, Prisma.RecallWhereInput>
+  order?: Prisma.XOR<Prisma.OrderScalarRelationFilter, Prisma.OrderWhereInput>
+  orderItem?: Prisma.XOR<Prisma.OrderItemScalarRelationFilter, Prisma.OrderItemWhereInput>
+  user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+}
+
+export type RecallNoticeOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  recallId?: Prisma.SortOrder
+  orderId?: Prisma.SortOrder
+  orderItemId?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  quantity?: Prisma.SortOrder
+  notifiedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  recall?: Prisma.RecallOrderByWithRelationInput
+  order?: Prisma.OrderOrderByWithRelationInput
+  orderItem?: Prisma.OrderItemOrderByWithRelationInput
+  user?: Prisma.UserOrderByWithRelationInput
+}
+
+export type RecallNoticeWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  recallId_orderItemId?: Prisma.RecallNoticeRecallIdOrderItemIdCompoundUniqueInput
+  AND?: Prisma.RecallNoticeWhereInput | Prisma.RecallNoticeWhereInput[]
+  OR?: Prisma.RecallNoticeWhereInput[]
+  NOT?: Prisma.RecallNoticeWhereInput | Prisma.RecallNoticeWhereInput[]
+  recallId?: Prisma.StringFilter<"RecallNotice"> | string
+  orderId?: Prisma.StringFilter<"RecallNotice"> | string
+  orderItemId?: Prisma.StringFilter<"RecallNotice"> | string
+  userId?: Prisma.StringFilter<"RecallNotice"> | string
+  quantity?: Prisma.IntFilter<"RecallNotice"> | number
+  notifiedAt?: Prisma.DateTimeNullableFilter<"RecallNotice"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"RecallNotice"> | Date | string
+  recall?: Prisma.XOR<Prisma.RecallScalarRelationFilter, Prisma.RecallWhereInput>
+  order?: Prisma.XOR<Prisma.OrderScalarRelationFilter, Prisma.OrderWhereInput>
+  orderItem?: Prisma.XOR<Prisma.OrderItemScalarRelationFilter, Prisma.OrderItemWhereInput>
+  user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+}, "id" | "recallId_orderItemId">
+
+export type RecallNoticeOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  recallId?: Prisma.SortOrder
+  orderId?: Prisma.SortOrder
+  orderItemId?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  quantity?: Prisma.SortOrder
+  notifiedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.RecallNoticeCountOrderByAggregateInput
+  _avg?: Prisma.RecallNoticeAvgOrderByAggregateInput
+  _max?: Prisma.RecallNoticeMaxOrderByAggregateInput
+  _min?: Prisma.RecallNoticeMinOrderByAggregateInput
+  _sum?: Prisma.RecallNoticeSumOrderByAggregateInput
+}
+
+export type RecallNoticeScalarWhereWithAggregatesInput = {
+  AND?: Prisma.RecallNoticeScalarWhereWithAggregatesInput | Prisma.RecallNoticeScalarWhereWithAggregatesInput[]
+  OR?: Prisma.RecallNoticeScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.RecallNoticeScalarWhereWithAggregatesInput | Prisma.RecallNoticeScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"RecallNotice"> | string
+  recallId?: Prisma.StringWithAggregatesFilter<"RecallNotice"> | string
+  orderId?: Prisma.StringWithAggregatesFilter<"RecallNotice"> | string
+  orderItemId?: Prisma.StringWithAggregatesFilter<"RecallNotice"> | string
+  userId?: Prisma.StringWithAggregatesFilter<"RecallNotice"> | string
+  quantity?: Prisma.IntWithAggregatesFilter<"RecallNotice"> | number
+  notifiedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"RecallNotice"> | Date | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"RecallNotice"> | Date | string
+}
+
+export type RecallNoticeCreateInput = {
+  id?: string
+  quantity: number
+  notifiedAt?: Date | string | null
+  createdAt?: Date | string
+  recall: Prisma.RecallCreateNestedOneWithoutNoticesInput
+  order: Prisma.OrderCreateNestedOneWithoutRecallNoticesInput
+  orderItem: Prisma.OrderItemCreateNestedOneWithoutRecallNoticesInput
+  user: Prisma.UserCreateNestedOneWithoutRecallNoticesInput
+}
+
+export type RecallNoticeUncheckedCreateInput = {
+  id?: string
+  recallId: string
+  orderId: string
+  orderItemId: string
+  userId: string
+  quantity: number
+  notifiedAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type RecallNoticeUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  notifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  recall?: Prisma.RecallUpdateOneRequiredWithoutNoticesNestedInput
+  order?: Prisma.OrderUpdateOneRequiredWithoutRecallNoticesNestedInput
+  orderItem?: Prisma.OrderItemUpdateOneRequiredWithoutRecallNoticesNestedInput
+  user?: Prisma.UserUpdateOneRequiredWithoutRecallNoticesNestedInput
+}
+
+export type RecallNoticeUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  recallId?: Prisma.StringFieldUpdateOperationsInput | string
+  orderId?: Prisma.StringFieldUpdateOperationsInput | string
+  orderItemId?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  notifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type RecallNoticeCreateManyInput = {
+  id?: string
+  recallId: string
+  orderId: string
+  orderItemId: string
+  userId: string
+  quantity: number
+  notifiedAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type RecallNoticeUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  notifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type RecallNoticeUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  recallId?: Prisma.StringFieldUpdateOperationsInput | string
+  orderId?: Prisma.StringFieldUpdateOperationsInput | string
+  orderItemId?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  notifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type RecallNoticeListRelationFilter = {
+  every?: Prisma.RecallNoticeWhereInput
+  some?: Prisma.RecallNoticeWhereInput
+  none?: Prisma.RecallNoticeWhereInput
+}
+
+export type RecallNoticeOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type RecallNoticeRecallIdOrderItemIdCompoundUniqueInput = {
+  recallId: string
+  orderItemId: string
+}
+
+export type RecallNoticeCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  recallId?: Prisma.SortOrder
+  orderId?: Prisma.SortOrder
+  orderItemId?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  quantity?: Prisma.SortOrder
+  notifiedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type RecallNoticeAvgOrderByAggregateInput = {
+  quantity?: Prisma.SortOrder
+}
+
+export type RecallNoticeMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  recallId?: Prisma.SortOrder
+  orderId?: Prisma.SortOrder
+  orderItemId?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  quantity?: Prisma.SortOrder
+  notifiedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type RecallNoticeMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  recallId?: Prisma.SortOrder
+  orderId?: Prisma.SortOrder
+  orderItemId?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  quantity?: Prisma.SortOrder
+  notifiedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type RecallNoticeSumOrderByAggregateInput = {
+  quantity?: Prisma.SortOrder
+}
+
+export type RecallNoticeCreateNestedManyWithoutOrderInput = {
+  create?: Prisma.XOR<Prisma.RecallNoticeCreateWithoutOrderInput, Prisma.RecallNoticeUncheckedCreateWithoutOrderInput> | Prisma.RecallNoticeCreateWithoutOrderInput[] | Prisma.RecallNoticeUncheckedCreateWithoutOrderInput[]
+  connectOrCreate?: Prisma.RecallNoticeCreateOrConnectWithoutOrderInput | Prisma.RecallNoticeCreateOrConnectWithoutOrderInput[]
+  createMany?: Prisma.RecallNoticeCreateManyOrderInputEnvelope
+  connect?: Prisma.RecallNoticeWhereUniqueInput | Prisma.RecallNoticeWhereUniqueInput[]
+}
+
+export type RecallNoticeUncheckedCreateNestedManyWithoutOrderInput = {
+  create?: Prisma.XOR<Prisma.RecallNoticeCreateWithoutOrderInput, Prisma.RecallNoticeUncheckedCreateWithoutOrderInput> | Prisma.RecallNoticeCreateWithoutOrderInput[] | Prisma.RecallNoticeUncheckedCreateWithoutOrderInput[]
+  connectOrCreate?: Prisma.RecallNoticeCreateOrConnectWithoutOrderInput | Prisma.RecallNoticeCreateOrConnectWithoutOrderInput[]
+  createMany?: Prisma.RecallNoticeCreateManyOrderInputEnvelope
+  connect?: Prisma.RecallNoticeWhereUniqueInput | Prisma.RecallNoticeWhereUniqueInput[]
+}
+
+export type RecallNoticeUpdateManyWithoutOrderNestedInput = {
+  create?: Prisma.XOR<Prisma.RecallNoticeCreateWithoutOrderInput, Prisma.RecallNoticeUncheckedCreateWithoutOrderInput> | Prisma.RecallNoticeCreateWithoutOrderInput[] | Prisma.RecallNoticeUncheckedCreateWithoutOrderInput[]
+  connectOrCreate?: Prisma.RecallNoticeCreateOrConnectWithoutOrderInput | Prisma.RecallNoticeCreateOrConnectWithoutOrderInput[]
+  upsert?: Prisma.RecallNoticeUpsertWithWhereUniqueWithoutOrderInput | Prisma.RecallNoticeUpsertWithWhereUniqueWithoutOrderInput[]
+  createMany?: Prisma.RecallNoticeCreateManyOrderInputEnvelope
+  set?: Prisma.RecallNoticeWhereUniqueInput | Prisma.RecallNoticeWhereUniqueInput[]
+  disconnect?: Prisma.RecallNoticeWhereUniqueInput | Prisma.RecallNoticeWhereUniqueInput[]
+  delete?: Prisma.RecallNoticeWhereUniqueInput | Prisma.RecallNoticeWhereUniqueInput[]
+  connect?: Prisma.RecallNoticeWhereUniqueInput | Prisma.RecallNoticeWhereUniqueInput[]
+  update?: Prisma.RecallNoticeUpdateWithWhereUniqueWithoutOrderInput | Prisma.RecallNoticeUpdateWithWhereUniqueWithoutOrderInput[]
+  updateMany?: Prisma.RecallNoticeUpdateManyWithWhereWithoutOrderInput | Prisma.RecallNoticeUpdateManyWithWhereWithoutOrderInput[]
+  deleteMany?: Prisma.RecallNoticeScalarWhereInput | Prisma.RecallNoticeScalarWhereInput[]
+}
+
+export type RecallNoticeUncheckedUpdateManyWithoutOrderNestedInput = {
+  create?: Prisma.XOR<Prisma.RecallNoticeCreateWithoutOrderInput, Prisma.RecallNoticeUncheckedCreateWithoutOrderInput> | Prisma.RecallNoticeCreateWithoutOrderInput[] | Prisma.RecallNoticeUncheckedCreateWithoutOrderInput[]
+  connectOrCreate?: Prisma.RecallNoticeCreateOrConnectWithoutOrderInput | Prisma.RecallNoticeCreateOrConnectWithoutOrderInput[]
+  upsert?: Prisma.RecallNoticeUpsertWithWhereUniqueWithoutOrderInput | Prisma.RecallNoticeUpsertWithWhereUniqueWithoutOrderInput[]
+  createMany?: Prisma.RecallNoticeCreateManyOrderInputEnvelope
+  set?: Prisma.RecallNoticeWhereUniqueInput | Prisma.RecallNoticeWhereUniqueInput[]
+  disconnect?: Prisma.RecallNoticeWhereUniqueInput | Prisma.RecallNoticeWhereUniqueInput[]
+  delete?: Prisma.RecallNoticeWhereUniqueInput | Prisma.RecallNoticeWhereUniqueInput[]
+  connect?: Prisma.RecallNoticeWhereUniqueInput | Prisma.RecallNoticeWhereUniqueInput[]
+  update?: Prisma.RecallNoticeUpdateWithWhereUniqueWithoutOrderInput | Prisma.RecallNoticeUpdateWithWhereUniqueWithoutOrderInput[]
+  updateMany?: Prisma.RecallNoticeUpdateManyWithWhereWithoutOrderInput | Prisma.RecallNoticeUpdateManyWithWhereWithoutOrderInput[]
+  deleteMany?: Prisma.RecallNoticeScalarWhereInput | Prisma.RecallNoticeScalarWhereInput[]
+}
+
+export type RecallNoticeCreateNestedManyWithoutOrderItemInput = {
+  create?: Prisma.XOR<Prisma.RecallNoticeCreateWithoutOrderItemInput, Prisma.RecallNoticeUncheckedCreateWithoutOrderItemInput> | Prisma.RecallNoticeCreateWithoutOrderItemInput[] | Prisma.RecallNoticeUncheckedCreateWithoutOrderItemInput[]
+  connectOrCreate?: Prisma.RecallNoticeCreateOrConnectWithoutOrderItemInput | Prisma.RecallNoticeCreateOrConnectWithoutOrderItemInput[]
+  createMany?: Prisma.RecallNoticeCreateManyOrderItemInputEnvelope
+  connect?: Prisma.RecallNoticeWhereUniqueInput | Prisma.RecallNoticeWhereUniqueInput[]
+}
+
+export type RecallNoticeUncheckedCreateNestedManyWithoutOrderItemInput = {
+  create?: Prisma.XOR<Prisma.RecallNoticeCreateWithoutOrderItemInput, Prisma.RecallNoticeUncheckedCreateWithoutOrderItemInput> | Prisma.RecallNoticeCreateWithoutOrderItemInput[] | Prisma.RecallNoticeUncheckedCreateWithoutOrderItemInput[]
+  connectOrCreate?: Prisma.RecallNoticeCreateOrConnectWithoutOrderItemInput | Prisma.RecallNoticeCreateOrConnectWithoutOrderItemInput[]
+  createMany?: Prisma.RecallNoticeCreateManyOrderItemInputEnvelope
+  connect?: Prisma.RecallNoticeWhereUniqueInput | Prisma.RecallNoticeWhereUniqueInput[]
+}
+
+export type RecallNoticeUpdateManyWithoutOrderItemNestedInput = {
+  create?: Prisma.XOR<Prisma.RecallNoticeCreateWithoutOrderItemInput, Prisma.RecallNoticeUncheckedCreateWithoutOrderItemInput> | Prisma.RecallNoticeCreateWithoutOrderItemInput[] | Prisma.RecallNoticeUncheckedCreateWithoutOrderItemInput[]
+  connectOrCreate?: Prisma.RecallNoticeCreateOrConnectWithoutOrderItemInput | Prisma.RecallNoticeCreateOrConnectWithoutOrderItemInput[]
+  upsert?: Prisma.RecallNoticeUpsertWithWhereUniqueWithoutOrderItemInput | Prisma.RecallNoticeUpsertWithWhereUniqueWithoutOrderItemInput[]
+  createMany?: Prisma.RecallNoticeCreateManyOrderItemInputEnvelope
+  set?: Prisma.RecallNoticeWhereUniqueInput | Prisma.RecallNoticeWhereUniqueInput[]
+  disconnect?: Prisma.RecallNoticeWhereUniqueInput | Prisma.RecallNoticeWhereUniqueInput[]
+  delete?: Prisma.RecallNoticeWhereUniqueInput | Prisma.RecallNoticeWhereUniqueInput[]
+  connect?: Prisma.RecallNoticeWhereUniqueInput | Prisma.RecallNoticeWhereUniqueInput[]
+  update?: Prisma.RecallNoticeUpdateWithWhereUniqueWithoutOrderItemInput | Prisma.RecallNoticeUpdateWithWhereUniqueWithoutOrderItemInput[]
+  updateMany?: Prisma.RecallNoticeUpdateManyWithWhereWithoutOrderItemInput | Prisma.RecallNoticeUpdateManyWithWhereWithoutOrderItemInput[]
+  deleteMany?: Prisma.RecallNoticeScalarWhereInput | Prisma.RecallNoticeScalarWhereInput[]
+}
+
+export type RecallNoticeUncheckedUpdateManyWithoutOrderItemNestedInput = {
+  create?: Prisma.XOR<Prisma.RecallNoticeCreateWithoutOrderItemInput, Prisma.RecallNoticeUncheckedCreateWithoutOrderItemInput> | Prisma.RecallNoticeCreateWithoutOrderItemInput[] | Prisma.RecallNoticeUncheckedCreateWithoutOrderItemInput[]
+  connectOrCreate?: Prisma.RecallNoticeCreateOrConnectWithoutOrderItemInput | Prisma.RecallNoticeCreateOrConnectWithoutOrderItemInput[]
+  upsert?: Prisma.RecallNoticeUpsertWithWhereUniqueWithoutOrderItemInput | Prisma.RecallNoticeUpsertWithWhereUniqueWithoutOrderItemInput[]
+  createMany?: Prisma.RecallNoticeCreateManyOrderItemInputEnvelope
+  set?: Prisma.RecallNoticeWhereUniqueInput | Prisma.RecallNoticeWhereUniqueInput[]
+  disconnect?: Prisma.RecallNoticeWhereUniqueInput | Prisma.RecallNoticeWhereUniqueInput[]
+  delete?: Prisma.RecallNoticeWhereUniqueInput | Prisma.RecallNoticeWhereUniqueInput[]
+  connect?: Prisma.RecallNoticeWhereUniqueInput | Prisma.RecallNoticeWhereUniqueInput[]
+  update?: Prisma.RecallNoticeUpdateWithWhereUniqueWithoutOrderItemInput | Prisma.RecallNoticeUpdateWithWhereUniqueWithoutOrderItemInput[]
+  updateMany?: Prisma.RecallNoticeUpdateManyWithWhereWithoutOrderItemInput | Prisma.RecallNoticeUpdateManyWithWhereWithoutOrderItemInput[]
+  deleteMany?: Prisma.RecallNoticeScalarWhereInput | Prisma.RecallNoticeScalarWhereInput[]
+}
+
+export type RecallNoticeCreateNestedManyWithoutRecallInput = {
+  create?: Prisma.XOR<Prisma.RecallNoticeCreateWithoutRecallInput, Prisma.RecallNoticeUncheckedCreateWithoutRecallInput> | Prisma.RecallNoticeCreateWithoutRecallInput[] | Prisma.RecallNoticeUncheckedCreateWithoutRecallInput[]
+  connectOrCreate?: Prisma.RecallNoticeCreateOrConnectWithoutRecallInput | Prisma.RecallNoticeCreateOrConnectWithoutRecallInput[]
+  createMany?: Prisma.RecallNoticeCreateManyRecallInputEnvelope
+  connect?: Prisma.RecallNoticeWhereUniqueInput | Prisma.RecallNoticeWhereUniqueInput[]
+}
+
+export type RecallNoticeUncheckedCreateNestedManyWithoutRecallInput = {
+  create?: Prisma.XOR<Prisma.RecallNoticeCreateWithoutRecallInput, Prisma.RecallNoticeUncheckedCreateWithoutRecallInput> | Prisma.RecallNoticeCreateWithoutRecallInput[] | Prisma.RecallNoticeUncheckedCreateWithoutRecallInput[]
+  connectOrCreate?: Prisma.RecallNoticeCreateOrConnectWithoutRecallInput | Prisma.RecallNoticeCreateOrConnectWithoutRecallInput[]
+  createMany?: Prisma.RecallNoticeCreateManyRecallInputEnvelope
+  connect?: Prisma.RecallNoticeWhereUniqueInput | Prisma.RecallNoticeWhereUniqueInput[]
+}
+
+export type RecallNoticeUpdateManyWithoutRecallNestedInput = {
+  create?: Prisma.XOR<Prisma.RecallNoticeCreateWithoutRecallInput, Prisma.RecallNoticeUncheckedCreateWithoutRecallInput> | Prisma.RecallNoticeCreateWithoutRecallInput[] | Prisma.RecallNoticeUncheckedCreateWithoutRecallInput[]
+  connectOrCreate?: Prisma.RecallNoticeCreateOrConnectWithoutRecallInput | Prisma.RecallNoticeCreateOrConnectWithoutRecallInput[]
+  upsert?: Prisma.RecallNoticeUpsertWithWhereUniqueWithoutRecallInput | Prisma.RecallNoticeUpsertWithWhereUniqueWithoutRecallInput[]
+  createMany?: Prisma.RecallNoticeCreateManyRecallInputEnvelope
+  set?: Prisma.RecallNoticeWhereUniqueInput | Prisma.RecallNoticeWhereUniqueInput[]
+  disconnect?: Prisma.RecallNoticeWhereUniqueInput | Prisma.RecallNoticeWhereUniqueInput[]
+  delete?: Prisma.RecallNoticeWhereUniqueInput | Prisma.RecallNoticeWhereUniqueInput[]
+  connect?: Prisma.RecallNoticeWhereUniqueInput | Prisma.RecallNoticeWhereUniqueInput[]
+  update?: Prisma.RecallNoticeUpdateWithWhereUniqueWithoutRecallInput | Prisma.RecallNoticeUpdateWithWhereUniqueWithoutRecallInput[]
+  updateMany?: Prisma.RecallNoticeUpdateManyWithWhereWithoutRecallInput | Prisma.RecallNoticeUpdateManyWithWhereWithoutRecallInput[]
+  deleteMany?: Prisma.RecallNoticeScalarWhereInput | Prisma.RecallNoticeScalarWhereInput[]
+}
+
+export type RecallNoticeUncheckedUpdateManyWithoutRecallNestedInput = {
+  create?: Prisma.XOR<Prisma.RecallNoticeCreateWithoutRecallInput, Prisma.RecallNoticeUncheckedCreateWithoutRecallInput> | Prisma.RecallNoticeCreateWithoutRecallInput[] | Prisma.RecallNoticeUncheckedCreateWithoutRecallInput[]
+  connectOrCreate?: Prisma.RecallNoticeCreateOrConnectWithoutRecallInput | Prisma.RecallNoticeCreateOrConnectWithoutRecallInput[]
+  upsert?: Prisma.RecallNoticeUpsertWithWhereUniqueWithoutRecallInput | Prisma.RecallNoticeUpsertWithWhereUniqueWithoutRecallInput[]
+  createMany?: Prisma.RecallNoticeCreateManyRecallInputEnvelope
+  set?: Prisma.RecallNoticeWhereUniqueInput | Prisma.RecallNoticeWhereUniqueInput[]
+  disconnect?: Prisma.RecallNoticeWhereUniqueInput | Prisma.RecallNoticeWhereUniqueInput[]
+  delete?: Prisma.RecallNoticeWhereUniqueInput | Prisma.RecallNoticeWhereUniqueInput[]
+  connect?: Prisma.RecallNoticeWhereUniqueInput | Prisma.RecallNoticeWhereUniqueInput[]
+  update?: Prisma.RecallNoticeUpdateWithWhereUniqueWithoutRecallInput | Prisma.RecallNoticeUpdateWithWhereUniqueWithoutRecallInput[]
+  updateMany?: Prisma.RecallNoticeUpdateManyWithWhereWithoutRecallInput | Prisma.RecallNoticeUpdateManyWithWhereWithoutRecallInput[]
+  deleteMany?: Prisma.RecallNoticeScalarWhereInput | Prisma.RecallNoticeScalarWhereInput[]
+}
+
+export type RecallNoticeCreateNestedManyWithoutUserInput = {
+  create?: Prisma.XOR<Prisma.RecallNoticeCreateWithoutUserInput, Prisma.RecallNoticeUncheckedCreateWithoutUserInput> | Prisma.RecallNoticeCreateWithoutUserInput[] | Prisma.RecallNoticeUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.RecallNoticeCreateOrConnectWithoutUserInput | Prisma.RecallNoticeCreateOrConnectWithoutUserInput[]
+  createMany?: Prisma.RecallNoticeCreateManyUserInputEnvelope
+  connect?: Prisma.RecallNoticeWhereUniqueInput | Prisma.RecallNoticeWhereUniqueInput[]
+}
+
+export type RecallNoticeUncheckedCreateNestedManyWithoutUserInput = {
+  create?: Prisma.XOR<Prisma.RecallNoticeCreateWithoutUserInput, Prisma.RecallNoticeUncheckedCreateWithoutUserInput> | Prisma.RecallNoticeCreateWithoutUserInput[] | Prisma.RecallNoticeUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.RecallNoticeCreateOrConnectWithoutUserInput | Prisma.RecallNoticeCreateOrConnectWithoutUserInput[]
+  createMany?: Prisma.RecallNoticeCreateManyUserInputEnvelope
+  connect?: Prisma.RecallNoticeWhereUniqueInput | Prisma.RecallNoticeWhereUniqueInput[]
+}
+
+export type RecallNoticeUpdateManyWithoutUserNestedInput = {
+  create?: Prisma.XOR<Prisma.RecallNoticeCreateWithoutUserInput, Prisma.RecallNoticeUncheckedCreateWithoutUserInput> | Prisma.RecallNoticeCreateWithoutUserInput[] | Prisma.RecallNoticeUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.RecallNoticeCreateOrConnectWithoutUserInput | Prisma.RecallNoticeCreateOrConnectWithoutUserInput[]
+  upsert?: Prisma.RecallNoticeUpsertWithWhereUniqueWithoutUserInput | Prisma.RecallNoticeUpsertWithWhereUniqueWithoutUserInput[]
+  createMany?: Prisma.RecallNoticeCreateManyUserInputEnvelope
+  set?: Prisma.RecallNoticeWhereUniqueInput | Prisma.RecallNoticeWhereUniqueInput[]
+  disconnect?: Prisma.RecallNoticeWhereUniqueInput | Prisma.RecallNoticeWhereUniqueInput[]
+  delete?: Prisma.RecallNoticeWhereUniqueInput | Prisma.RecallNoticeWhereUniqueInput[]
+  connect?: Prisma.RecallNoticeWhereUniqueInput | Prisma.RecallNoticeWhereUniqueInput[]
+  update?: Prisma.RecallNoticeUpdateWithWhereUniqueWithoutUserInput | Prisma.RecallNoticeUpdateWithWhereUniqueWithoutUserInput[]
+  updateMany?: Prisma.RecallNoticeUpdateManyWithWhereWithoutUserInput | Prisma.RecallNoticeUpdateManyWithWhereWithoutUserInput[]
+  deleteMany?: Prisma.RecallNoticeScalarWhereInput | Prisma.RecallNoticeScalarWhereInput[]
+}
+
+export type RecallNoticeUncheckedUpdateManyWithoutUserNestedInput = {
+  create?: Prisma.XOR<Prisma.RecallNoticeCreateWithoutUserInput, Prisma.RecallNoticeUncheckedCreateWithoutUserInput> | Prisma.RecallNoticeCreateWithoutUserInput[] | Prisma.RecallNoticeUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.RecallNoticeCreateOrConnectWithoutUserInput | Prisma.RecallNoticeCreateOrConnectWithoutUserInput[]
+  upsert?: Prisma.RecallNoticeUpsertWithWhereUniqueWithoutUserInput | Prisma.RecallNoticeUpsertWithWhereUniqueWithoutUserInput[]
+  createMany?: Prisma.RecallNoticeCreateManyUserInputEnvelope
+  set?: Prisma.RecallNoticeWhereUniqueInput | Prisma.RecallNoticeWhereUniqueInput[]
+  disconnect?: Prisma.RecallNoticeWhereUniqueInput | Prisma.RecallNoticeWhereUniqueInput[]
+  delete?: Prisma.RecallNoticeWhereUniqueInput | Prisma.RecallNoticeWhereUniqueInput[]
+  connect?: Prisma.RecallNoticeWhereUniqueInput | Prisma.RecallNoticeWhereUniqueInput[]
+  update?: Prisma.RecallNoticeUpdateWithWhereUniqueWithoutUserInput | Prisma.RecallNoticeUpdateWithWhereUniqueWithoutUserInput[]
+  updateMany?: Prisma.RecallNoticeUpdateManyWithWhereWithoutUserInput | Prisma.RecallNoticeUpdateManyWithWhereWithoutUserInput[]
+  deleteMany?: Prisma.RecallNoticeScalarWhereInput | Prisma.RecallNoticeScalarWhereInput[]
+}
+
+export type RecallNoticeCreateWithoutOrderInput = {
+  id?: string
+  quantity: number
+  notifiedAt?: Date | string | null
+  createdAt?: Date | string
+  recall: Prisma.RecallCreateNestedOneWithoutNoticesInput
+  orderItem: Prisma.OrderItemCreateNestedOneWithoutRecallNoticesInput
+  user: Prisma.UserCreateNestedOneWithoutRecallNoticesInput
+}
+
+export type RecallNoticeUncheckedCreateWithoutOrderInput = {
+  id?: string
+  recallId: string
+  orderItemId: string
+  userId: string
+  quantity: number
+  notifiedAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type RecallNoticeCreateOrConnectWithoutOrderInput = {
+  where: Prisma.RecallNoticeWhereUniqueInput
+  create: Prisma.XOR<Prisma.RecallNoticeCreateWithoutOrderInput, Prisma.RecallNoticeUncheckedCreateWithoutOrderInput>
+}
+
+export type RecallNoticeCreateManyOrderInputEnvelope = {
+  data: Prisma.RecallNoticeCreateManyOrderInput | Prisma.RecallNoticeCreateManyOrderInput[]
+  skipDuplicates?: boolean
+}
+
+export type RecallNoticeUpsertWithWhereUniqueWithoutOrderInput = {
+  where: Prisma.RecallNoticeWhereUniqueInput
+  update: Prisma.XOR<Prisma.RecallNoticeUpdateWithoutOrderInput, Prisma.RecallNoticeUncheckedUpdateWithoutOrderInput>
+  create: Prisma.XOR<Prisma.RecallNoticeCreateWithoutOrderInput, Prisma.RecallNoticeUncheckedCreateWithoutOrderInput>
+}
+
+export type RecallNoticeUpdateWithWhereUniqueWithoutOrderInput = {
+  where: Prisma.RecallNoticeWhereUniqueInput
+  data: Prisma.XOR<Prisma.RecallNoticeUpdateWithoutOrderInput, Prisma.RecallNoticeUncheckedUpdateWithoutOrderInput>
+}
+
+export type RecallNoticeUpdateManyWithWhereWithoutOrderInput = {
+  where: Prisma.RecallNoticeScalarWhereInput
+  data: Prisma.XOR<Prisma.RecallNoticeUpdateManyMutationInput, Prisma.RecallNoticeUncheckedUpdateManyWithoutOrderInput>
+}
+
+export type RecallNoticeScalarWhereInput = {
+  AND?: Prisma.RecallNoticeScalarWhereInput | Prisma.RecallNoticeScalarWhereInput[]
+  OR?: Prisma.RecallNoticeScalarWhereInput[]
+  NOT?: Prisma.RecallNoticeScalarWhereInput | Prisma.RecallNoticeScalarWhereInput[]
+  id?: Prisma.StringFilter<"RecallNotice"> | string
+  recallId?: Prisma.StringFilter<"RecallNotice"> | string
+  orderId?: Prisma.StringFilter<"RecallNotice"> | string
+  orderItemId?: Prisma.StringFilter<"RecallNotice"> | string
+  userId?: Prisma.StringFilter<"RecallNotice"> | string
+  quantity?: Prisma.IntFilter<"RecallNotice"> | number
+  notifiedAt?: Prisma.DateTimeNullableFilter<"RecallNotice"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"RecallNotice"> | Date | string
+}
+
+export type RecallNoticeCreateWithoutOrderItemInput = {
+  id?: string
+  quantity: number
+  notifiedAt?: Date | string | null
+  createdAt?: Date | string
+  recall: Prisma.RecallCreateNestedOneWithoutNoticesInput
+  order: Prisma.OrderCreateNestedOneWithoutRecallNoticesInput
+  user: Prisma.UserCreateNestedOneWithoutRecallNoticesInput
+}
+
+export type RecallNoticeUncheckedCreateWithoutOrderItemInput = {
+  id?: string
+  recallId: string
+  orderId: string
+  userId: string
+  quantity: number
+  notifiedAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type RecallNoticeCreateOrConnectWithoutOrderItemInput = {
+  where: Prisma.RecallNoticeWhereUniqueInput
+  create: Prisma.XOR<Prisma.RecallNoticeCreateWithoutOrderItemInput, Prisma.RecallNoticeUncheckedCreateWithoutOrderItemInput>
+}
+
+export type RecallNoticeCreateManyOrderItemInputEnvelope = {
+  data: Prisma.RecallNoticeCreateManyOrderItemInput | Prisma.RecallNoticeCreateManyOrderItemInput[]
+  skipDuplicates?: boolean
+}
+
+export type RecallNoticeUpsertWithWhereUniqueWithoutOrderItemInput = {
+  where: Prisma.RecallNoticeWhereUniqueInput
+  update: Prisma.XOR<Prisma.RecallNoticeUpdateWithoutOrderItemInput, Prisma.RecallNoticeUncheckedUpdateWithoutOrderItemInput>
+  create: Prisma.XOR<Prisma.RecallNoticeCreateWithoutOrderItemInput, Prisma.RecallNoticeUncheckedCreateWithoutOrderItemInput>
+}
+
+export type RecallNoticeUpdateWithWhereUniqueWithoutOrderItemInput = {
+  where: Prisma.RecallNoticeWhereUniqueInput
+  data: Prisma.XOR<Prisma.RecallNoticeUpdateWithoutOrderItemInput, Prisma.RecallNoticeUncheckedUpdateWithoutOrderItemInput>
+}
+
+export type RecallNoticeUpdateManyWithWhereWithoutOrderItemInput = {
+  where: Prisma.RecallNoticeScalarWhereInput
+  data: Prisma.XOR<Prisma.RecallNoticeUpdateManyMutationInput, Prisma.RecallNoticeUncheckedUpdateManyWithoutOrderItemInput>
+}
+
+export type RecallNoticeCreateWithoutRecallInput = {
+  id?: string
+  quantity: number
+  notifiedAt?: Date | string | null
+  createdAt?: Date | string
+  order: Prisma.OrderCreateNestedOneWithoutRecallNoticesInput
+  orderItem: Prisma.OrderItemCreateNestedOneWithoutRecallNoticesInput
+  user: Prisma.UserCreateNestedOneWithoutRecallNoticesInput
+}
+
+export type RecallNoticeUncheckedCreateWithoutRecallInput = {
+  id?: string
+  orderId: string
+  orderItemId: string
+  userId: string
+  quantity: number
+  notifiedAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type RecallNoticeCreateOrConnectWithoutRecallInput = {
+  where: Prisma.RecallNoticeWhereUniqueInput
+  create: Prisma.XOR<Prisma.RecallNoticeCreateWithoutRecallInput, Prisma.RecallNoticeUncheckedCreateWithoutRecallInput>
+}
+
+export type RecallNoticeCreateManyRecallInputEnvelope = {
+  data: Prisma.RecallNoticeCreateManyRecallInput | Prisma.RecallNoticeCreateManyRecallInput[]
+  skipDuplicates?: boolean
+}
+
+export type RecallNoticeUpsertWithWhereUniqueWithoutRecallInput = {
+  where: Prisma.RecallNoticeWhereUniqueInput
+  update: Prisma.XOR<Prisma.RecallNoticeUpdateWithoutRecallInput, Prisma.RecallNoticeUncheckedUpdateWithoutRecallInput>
+  create: Prisma.XOR<Prisma.RecallNoticeCreateWithoutRecallInput, Prisma.RecallNoticeUncheckedCreateWithoutRecallInput>
+}
+
+export type RecallNoticeUpdateWithWhereUniqueWithoutRecallInput = {
+  where: Prisma.RecallNoticeWhereUniqueInput
+  data: Prisma.XOR<Prisma.RecallNoticeUpdateWithoutRecallInput, Prisma.RecallNoticeUncheckedUpdateWithoutRecallInput>
+}
+
+export type RecallNoticeUpdateManyWithWhereWithoutRecallInput = {
+  where: Prisma.RecallNoticeScalarWhereInput
+  data: Prisma.XOR<Prisma.RecallNoticeUpdateManyMutationInput, Prisma.RecallNoticeUncheckedUpdateManyWithoutRecallInput>
+}
+
+export type RecallNoticeCreateWithoutUserInput = {
+  id?: string
+  quantity: number
+  notifiedAt?: Date | string | null
+  createdAt?: Date | string
+  recall: Prisma.RecallCreateNestedOneWithoutNoticesInput
+  order: Prisma.OrderCreateNestedOneWithoutRecallNoticesInput
+  orderItem: Prisma.OrderItemCreateNestedOneWithoutRecallNoticesInput
+}
+
+export type RecallNoticeUncheckedCreateWithoutUserInput = {
+  id?: string
+  recallId: string
+  orderId: string
+  orderItemId: string
+  quantity: number
+  notifiedAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type RecallNoticeCreateOrConnectWithoutUserInput = {
+  where: Prisma.RecallNoticeWhereUniqueInput
+  create: Prisma.XOR<Prisma.RecallNoticeCreateWithoutUserInput, Prisma.RecallNoticeUncheckedCreateWithoutUserInput>
+}
+
+export type RecallNoticeCreateManyUserInputEnvelope = {
+  data: Prisma.RecallNoticeCreateManyUserInput | Prisma.RecallNoticeCreateManyUserInput[]
+  skipDuplicates?: boolean
+}
+
+export type RecallNoticeUpsertWithWhereUniqueWithoutUserInput = {
+  where: Prisma.RecallNoticeWhereUniqueInput
+  update: Prisma.XOR<Prisma.RecallNoticeUpdateWithoutUserInput, Prisma.RecallNoticeUncheckedUpdateWithoutUserInput>
+  create: Prisma.XOR<Prisma.RecallNoticeCreateWithoutUserInput, Prisma.RecallNoticeUncheckedCreateWithoutUserInput>
+}
+
+export type RecallNoticeUpdateWithWhereUniqueWithoutUserInput = {
+  where: Prisma.RecallNoticeWhereUniqueInput
+  data: Prisma.XOR<Prisma.RecallNoticeUpdateWithoutUserInput, Prisma.RecallNoticeUncheckedUpdateWithoutUserInput>
+}
+
+export type RecallNoticeUpdateManyWithWhereWithoutUserInput = {
+  where: Prisma.RecallNoticeScalarWhereInput
+  data: Prisma.XOR<Prisma.RecallNoticeUpdateManyMutationInput, Prisma.RecallNoticeUncheckedUpdateManyWithoutUserInput>
+}
+
+export type RecallNoticeCreateManyOrderInput = {
+  id?: string
+  recallId: string
+  orderItemId: string
+  userId: string
+  quantity: number
+  notifiedAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type RecallNoticeUpdateWithoutOrderInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  notifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  recall?: Prisma.RecallUpdateOneRequiredWithoutNoticesNestedInput
+  orderItem?: Prisma.OrderItemUpdateOneRequiredWithoutRecallNoticesNestedInput
+  user?: Prisma.UserUpdateOneRequiredWithoutRecallNoticesNestedInput
+}
+
+export type RecallNoticeUncheckedUpdateWithoutOrderInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  recallId?: Prisma.StringFieldUpdateOperationsInput | string
+  orderItemId?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  notifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type RecallNoticeUncheckedUpdateManyWithoutOrderInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  recallId?: Prisma.StringFieldUpdateOperationsInput | string
+  orderItemId?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  notifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type RecallNoticeCreateManyOrderItemInput = {
+  id?: string
+  recallId: string
+  orderId: string
+  userId: string
+  quantity: number
+  notifiedAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type RecallNoticeUpdateWithoutOrderItemInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  notifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  recall?: Prisma.RecallUpdateOneRequiredWithoutNoticesNestedInput
+  order?: Prisma.OrderUpdateOneRequiredWithoutRecallNoticesNestedInput
+  user?: Prisma.UserUpdateOneRequiredWithoutRecallNoticesNestedInput
+}
+
+export type RecallNoticeUncheckedUpdateWithoutOrderItemInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  recallId?: Prisma.StringFieldUpdateOperationsInput | string
+  orderId?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  notifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type RecallNoticeUncheckedUpdateManyWithoutOrderItemInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  recallId?: Prisma.StringFieldUpdateOperationsInput | string
+  orderId?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  notifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type RecallNoticeCreateManyRecallInput = {
+  id?: string
+  orderId: string
+  orderItemId: string
+  userId: string
+  quantity: number
+  notifiedAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type RecallNoticeUpdateWithoutRecallInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  notifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  order?: Prisma.OrderUpdateOneRequiredWithoutRecallNoticesNestedInput
+  orderItem?: Prisma.OrderItemUpdateOneRequiredWithoutRecallNoticesNestedInput
+  user?: Prisma.UserUpdateOneRequiredWithoutRecallNoticesNestedInput
+}
+
+export type RecallNoticeUncheckedUpdateWithoutRecallInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  orderId?: Prisma.StringFieldUpdateOperationsInput | string
+  orderItemId?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  notifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type RecallNoticeUncheckedUpdateManyWithoutRecallInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  orderId?: Prisma.StringFieldUpdateOperationsInput | string
+  orderItemId?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  notifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type RecallNoticeCreateManyUserInput = {
+  id?: string
+  recallId: string
+  orderId: string
+  orderItemId: string
+  quantity: number
+  notifiedAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type RecallNoticeUpdateWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  notifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  recall?: Prisma.RecallUpdateOneRequiredWithoutNoticesNestedInput
+  order?: Prisma.OrderUpdateOneRequiredWithoutRecallNoticesNestedInput
+  orderItem?: Prisma.OrderItemUpdateOneRequiredWithoutRecallNoticesNestedInput
+}
+
+export type RecallNoticeUncheckedUpdateWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  recallId?: Prisma.StringFieldUpdateOperationsInput | string
+  orderId?: Prisma.StringFieldUpdateOperationsInput | string
+  orderItemId?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  notifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type RecallNoticeUncheckedUpdateManyWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  recallId?: Prisma.StringFieldUpdateOperationsInput | string
+  orderId?: Prisma.StringFieldUpdateOperationsInput | string
+  orderItemId?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  notifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type RecallNoticeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  recallId?: boolean
+  orderId?: boolean
+  orderItemId?: boolean
+  userId?: boolean
+  quantity?: boolean
+  notifiedAt?: boolean
+  createdAt?: boolean
+  recall?: boolean | Prisma.RecallDefaultArgs<ExtArgs>
+  order?: boolean | Prisma.OrderDefaultArgs<ExtArgs>
+  orderItem?: boolean | Prisma.OrderItemDefaultArgs<ExtArgs>
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["recallNotice"]>
+
+export type RecallNoticeSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  recallId?: boolean
+  orderId?: boolean
+  orderItemId?: boolean
+  userId?: boolean
+  quantity?: boolean
+  notifiedAt?: boolean
+  createdAt?: boolean
+  recall?: boolean | Prisma.RecallDefaultArgs<ExtArgs>
+  order?: boolean | Prisma.OrderDefaultArgs<ExtArgs>
+  orderItem?: boolean | Prisma.OrderItemDefaultArgs<ExtArgs>
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["recallNotice"]>
+
+export type RecallNoticeSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  recallId?: boolean
+  orderId?: boolean
+  orderItemId?: boolean
+  userId?: boolean
+  quantity?: boolean
+  notifiedAt?: boolean
+  createdAt?: boolean
+  recall?: boolean | Prisma.RecallDefaultArgs<ExtArgs>
+  order?: boolean | Prisma.OrderDefaultArgs<ExtArgs>
+  orderItem?: boolean | Prisma.OrderItemDefaultArgs<ExtArgs>
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["recallNotice"]>
+
+export type RecallNoticeSelectScalar = {
+  id?: boolean
+  recallId?: boolean
+  orderId?: boolean
+  orderItemId?: boolean
+  userId?: boolean
+  quantity?: boolean
+  notifiedAt?: boolean
+  createdAt?: boolean
+}
+
+export type RecallNoticeOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "recallId" | "orderId" | "orderItemId" | "userId" | "quantity" | "notifiedAt" | "createdAt", ExtArgs["result"]["recallNotice"]>
+export type RecallNoticeInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  recall?: boolean | Prisma.RecallDefaultArgs<ExtArgs>
+  order?: boolean | Prisma.OrderDefaultArgs<ExtArgs>
+  orderItem?: boolean | Prisma.OrderItemDefaultArgs<ExtArgs>
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+export type RecallNoticeIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  recall?: boolean | Prisma.RecallDefaultArgs<ExtArgs>
+  order?: boolean | Prisma.OrderDefaultArgs<ExtArgs>
+  orderItem?: boolean | Prisma.OrderItemDefaultArgs<ExtArgs>
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+export type RecallNoticeIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  recall?: boolean | Prisma.RecallDefaultArgs<ExtArgs>
+  order?: boolean | Prisma.OrderDefaultArgs<ExtArgs>
+  orderItem?: boolean | Prisma.OrderItemDefaultArgs<ExtArgs>
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+
+export type $RecallNoticePayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "RecallNotice"
+  objects: {
+    recall: Prisma.$RecallPayload<ExtArgs>
+    order: Prisma.$OrderPayload<ExtArgs>
+    orderItem: Prisma.$OrderItemPayload<ExtArgs>
+    user: Prisma.$UserPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    recallId: string
+    orderId: string
+    orderItemId: string
+    userId: string
+    quantity: number
+    notifiedAt: Date | null
+    createdAt: Date
+  }, ExtArgs["result"]["recallNotice"]>
+  composites: {}
+}
+
+export type RecallNoticeGetPayload<S extends boolean | null | undefined | RecallNoticeDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$RecallNoticePayload, S>
+
+export type RecallNoticeCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<RecallNoticeFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: RecallNoticeCountAggregateInputType | true
+  }
+
+export interface RecallNoticeDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['RecallNotice'], meta: { name: 'RecallNotice' } }
+  /**
+   * Find zero or one RecallNotice that matches the filter.
+   * @param {RecallNoticeFindUniqueArgs} args - Arguments to find a RecallNotice
+   * @example
+   * // Get one RecallNotice
+   * const recallNotice = await prisma.recallNotice.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends RecallNoticeFindUniqueArgs>(args: Prisma.SelectSubset<T, RecallNoticeFindUniqueArgs<ExtArgs>>): Prisma.Prisma__RecallNoticeClient<runtime.Types.Result.GetResult<Prisma.$RecallNoticePayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one RecallNotice that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {RecallNoticeFindUniqueOrThrowArgs} args - Arguments to find a RecallNotice
+   * @example
+   * // Get one RecallNotice
+   * const recallNotice = await prisma.recallNotice.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends RecallNoticeFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, RecallNoticeFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__RecallNoticeClient<runtime.Types.Result.GetResult<Prisma.$RecallNoticePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first RecallNotice that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RecallNoticeFindFirstArgs} args - Arguments to find a RecallNotice
+   * @example
+   * // Get one RecallNotice
+   * const recallNotice = await prisma.recallNotice.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends RecallNoticeFindFirstArgs>(args?: Prisma.SelectSubset<T, RecallNoticeFindFirstArgs<ExtArgs>>): Prisma.Prisma__RecallNoticeClient<runtime.Types.Result.GetResult<Prisma.$RecallNoticePayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first RecallNotice that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RecallNoticeFindFirstOrThrowArgs} args - Arguments to find a RecallNotice
+   * @example
+   * // Get one RecallNotice
+   * const recallNotice = await prisma.recallNotice.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends RecallNoticeFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, RecallNoticeFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__RecallNoticeClient<runtime.Types.Result.GetResult<Prisma.$RecallNoticePayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more RecallNotices that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RecallNoticeFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all RecallNotices
+   * const recallNotices = await prisma.recallNotice.findMany()
+   * 
+   * // Get first 10 RecallNotices
+   * const recallNotices = await prisma.recallNotice.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const recallNoticeWithIdOnly = await prisma.recallNotice.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends RecallNoticeFindManyArgs>(args?: Prisma.SelectSubset<T, RecallNoticeFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$RecallNoticePayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a RecallNotice.
+   * @param {RecallNoticeCreateArgs} args - Arguments to create a RecallNotice.
+   * @example
+   * // Create one RecallNotice
+   * const RecallNotice = await prisma.recallNotice.create({
+   *   data: {
+   *     // ... data to create a RecallNotice
+   *   }
+   * })
+   * 
+   */
+  create<T extends RecallNoticeCreateArgs>(args: Prisma.SelectSubset<T, RecallNoticeCreateArgs<ExtArgs>>): Prisma.Prisma__RecallNoticeClient<runtime.Types.Result.GetResult<Prisma.$RecallNoticePayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many RecallNotices.
+   * @param {RecallNoticeCreateManyArgs} args - Arguments to create many RecallNotices.
+   * @example
+   * // Create many RecallNotices
+   * const recallNotice = await prisma.recallNotice.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends RecallNoticeCreateManyArgs>(args?: Prisma.SelectSubset<T, RecallNoticeCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many RecallNotices and returns the data saved in the database.
+   * @param {RecallNoticeCreateManyAndReturnArgs} args - Arguments to create many RecallNotices.
+   * @example
+   * // Create many RecallNotices
+   * const recallNotice = await prisma.recallNotice.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many RecallNotices and only return the `id`
+   * const recallNoticeWithIdOnly = await prisma.recallNotice.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends RecallNoticeCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, RecallNoticeCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$RecallNoticePayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a RecallNotice.
+   * @param {RecallNoticeDeleteArgs} args - Arguments to delete one RecallNotice.
+   * @example
+   * // Delete one RecallNotice
+   * const RecallNotice = await prisma.recallNotice.delete({
+   *   where: {
+   *     // ... filter to delete one RecallNotice
+   *   }
+   * })
+   * 
+   */
+  delete<T extends RecallNoticeDeleteArgs>(args: Prisma.SelectSubset<T, RecallNoticeDeleteArgs<ExtArgs>>): Prisma.Prisma__RecallNoticeClient<runtime.Types.Result.GetResult<Prisma.$RecallNoticePayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one RecallNotice.
+   * @param {RecallNoticeUpdateArgs} args - Arguments to update one RecallNotice.
+   * @example
+   * // Update one RecallNotice
+   * const recallNotice = await prisma.recallNotice.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends RecallNoticeUpdateArgs>(args: Prisma.SelectSubset<T, RecallNoticeUpdateArgs<ExtArgs>>): Prisma.Prisma__RecallNoticeClient<runtime.Types.Result.GetResult<Prisma.$RecallNoticePayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more RecallNotices.
+   * @param {RecallNoticeDeleteManyArgs} args - Arguments to filter RecallNotices to delete.
+   * @example
+   * // Delete a few RecallNotices
+   * const { count } = await prisma.recallNotice.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends RecallNoticeDeleteManyArgs>(args?: Prisma.SelectSubset<T, RecallNoticeDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more RecallNotices.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RecallNoticeUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many RecallNotices
+   * const recallNotice = await prisma.recallNotice.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends RecallNoticeUpdateManyArgs>(args: Prisma.SelectSubset<T, RecallNoticeUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more RecallNotices and returns the data updated in the database.
+   * @param {RecallNoticeUpdateManyAndReturnArgs} args - Arguments to update many RecallNotices.
+   * @example
+   * // Update many RecallNotices
+   * const recallNotice = await prisma.recallNotice.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more RecallNotices and only return the `id`
+   * const recallNoticeWithIdOnly = await prisma.recallNotice.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends RecallNoticeUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, RecallNoticeUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$RecallNoticePayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one RecallNotice.
+   * @param {RecallNoticeUpsertArgs} args - Arguments to update or create a RecallNotice.
+   * @example
+   * // Update or create a RecallNotice
+   * const recallNotice = await prisma.recallNotice.upsert({
+   *   create: {
+   *     // ... data to create a RecallNotice
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the RecallNotice we want to update
+   *   }
+   * })
+   */
+  upsert<T extends RecallNoticeUpsertArgs>(args: Prisma.SelectSubset<T, RecallNoticeUpsertArgs<ExtArgs>>): Prisma.Prisma__RecallNoticeClient<runtime.Types.Result.GetResult<Prisma.$RecallNoticePayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of RecallNotices.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RecallNoticeCountArgs} args - Arguments to filter RecallNotices to count.
+   * @example
+   * // Count the number of RecallNotices
+   * const count = await prisma.recallNotice.count({
+   *   where: {
+   *     // ... the filter for the RecallNotices we want to count
+   *   }
+   * })
+  **/
+  count<T extends RecallNoticeCountArgs>(
+    args?: Prisma.Subset<T, RecallNoticeCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], RecallNoticeCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a RecallNotice.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RecallNoticeAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends RecallNoticeAggregateArgs>(args: Prisma.Subset<T, RecallNoticeAggregateArgs>): Prisma.PrismaPromise<GetRecallNoticeAggregateType<T>>
+
+  /**
+   * Group by RecallNotice.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RecallNoticeGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends RecallNoticeGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: RecallNoticeGroupByArgs['orderBy'] }
+      : { orderBy?: RecallNoticeGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, RecallNoticeGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetRecallNoticeGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the RecallNotice model
+ */
+readonly fields: RecallNoticeFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for RecallNotice.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__RecallNoticeClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  recall<T extends Prisma.RecallDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.RecallDefaultArgs<ExtArgs>>): Prisma.Prisma__RecallClient<runtime.Types.Result.GetResult<Prisma.$RecallPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  order<T extends Prisma.OrderDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.OrderDefaultArgs<ExtArgs>>): Prisma.Prisma__OrderClient<runtime.Types.Result.GetResult<Prisma.$OrderPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  orderItem<T extends Prisma.OrderItemDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.OrderItemDefaultArgs<ExtArgs>>): Prisma.Prisma__OrderItemClient<runtime.Types.Result.GetResult<Prisma.$OrderItemPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  user<T extends Prisma.UserDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.UserDefaultArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the RecallNotice model
+ */
+export interface RecallNoticeFieldRefs {
+  readonly id: Prisma.FieldRef<"RecallNotice", 'String'>
+  readonly recallId: Prisma.FieldRef<"RecallNotice", 'String'>
+  readonly orderId: Prisma.FieldRef<"RecallNotice", 'String'>
+  readonly orderItemId: Prisma.FieldRef<"RecallNotice", 'String'>
+  readonly userId: Prisma.FieldRef<"RecallNotice", 'String'>
+  readonly quantity: Prisma.FieldRef<"RecallNotice", 'Int'>
+  readonly notifiedAt: Prisma.FieldRef<"RecallNotice", 'DateTime'>
+  readonly createdAt: Prisma.FieldRef<"RecallNotice", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * RecallNotice findUnique
+ */
+export type RecallNoticeFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RecallNotice
+   */
+  select?: Prisma.RecallNoticeSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RecallNotice
+   */
+  omit?: Prisma.RecallNoticeOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RecallNoticeInclude<ExtArgs> | null
+  /**
+   * Filter, which RecallNotice to fetch.
+   */
+  where: Prisma.RecallNoticeWhereUniqueInput
+}
+
+/**
+ * RecallNotice findUniqueOrThrow
+ */
+export type RecallNoticeFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RecallNotice
+   */
+  select?: Prisma.RecallNoticeSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RecallNotice
+   */
+  omit?: Prisma.RecallNoticeOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RecallNoticeInclude<ExtArgs> | null
+  /**
+   * Filter, which RecallNotice to fetch.
+   */
+  where: Prisma.RecallNoticeWhereUniqueInput
+}
+
+/**
+ * RecallNotice findFirst
+ */
+export type RecallNoticeFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RecallNotice
+   */
+  select?: Prisma.RecallNoticeSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RecallNotice
+   */
+  omit?: Prisma.RecallNoticeOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RecallNoticeInclude<ExtArgs> | null
+  /**
+   * Filter, which RecallNotice to fetch.
+   */
+  where?: Prisma.RecallNoticeWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of RecallNotices to fetch.
+   */
+  orderBy?: Prisma.RecallNoticeOrderByWithRelationInput | Prisma.RecallNoticeOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for RecallNotices.
+   */
+  cursor?: Prisma.RecallNoticeWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` RecallNotices from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` RecallNotices.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of RecallNotices.
+   */
+  distinct?: Prisma.RecallNoticeScalarFieldEnum | Prisma.RecallNoticeScalarFieldEnum[]
+}
+
+/**
+ * RecallNotice findFirstOrThrow
+ */
+export type RecallNoticeFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RecallNotice
+   */
+  select?: Prisma.RecallNoticeSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RecallNotice
+   */
+  omit?: Prisma.RecallNoticeOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RecallNoticeInclude<ExtArgs> | null
+  /**
+   * Filter, which RecallNotice to fetch.
+   */
+  where?: Prisma.RecallNoticeWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of RecallNotices to fetch.
+   */
+  orderBy?: Prisma.RecallNoticeOrderByWithRelationInput | Prisma.RecallNoticeOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for RecallNotices.
+   */
+  cursor?: Prisma.RecallNoticeWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` RecallNotices from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` RecallNotices.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of RecallNotices.
+   */
+  distinct?: Prisma.RecallNoticeScalarFieldEnum | Prisma.RecallNoticeScalarFieldEnum[]
+}
+
+/**
+ * RecallNotice findMany
+ */
+export type RecallNoticeFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RecallNotice
+   */
+  select?: Prisma.RecallNoticeSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RecallNotice
+   */
+  omit?: Prisma.RecallNoticeOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RecallNoticeInclude<ExtArgs> | null
+  /**
+   * Filter, which RecallNotices to fetch.
+   */
+  where?: Prisma.RecallNoticeWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of RecallNotices to fetch.
+   */
+  orderBy?: Prisma.RecallNoticeOrderByWithRelationInput | Prisma.RecallNoticeOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing RecallNotices.
+   */
+  cursor?: Prisma.RecallNoticeWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` RecallNotices from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` RecallNotices.
+   */
+  skip?: number
+  distinct?: Prisma.RecallNoticeScalarFieldEnum | Prisma.RecallNoticeScalarFieldEnum[]
+}
+
+/**
+ * RecallNotice create
+ */
+export type RecallNoticeCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RecallNotice
+   */
+  select?: Prisma.RecallNoticeSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RecallNotice
+   */
+  omit?: Prisma.RecallNoticeOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RecallNoticeInclude<ExtArgs> | null
+  /**
+   * The data needed to create a RecallNotice.
+   */
+  data: Prisma.XOR<Prisma.RecallNoticeCreateInput, Prisma.RecallNoticeUncheckedCreateInput>
+}
+
+/**
+ * RecallNotice createMany
+ */
+export type RecallNoticeCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many RecallNotices.
+   */
+  data: Prisma.RecallNoticeCreateManyInput | Prisma.RecallNoticeCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * RecallNotice createManyAndReturn
+ */
+export type RecallNoticeCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RecallNotice
+   */
+  select?: Prisma.RecallNoticeSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the RecallNotice
+   */
+  omit?: Prisma.RecallNoticeOmit<ExtArgs> | null
+  /**
+   * The data used to create many RecallNotices.
+   */
+  data: Prisma.RecallNoticeCreateManyInput | Prisma.RecallNoticeCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RecallNoticeIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * RecallNotice update
+ */
+export type RecallNoticeUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RecallNotice
+   */
+  select?: Prisma.RecallNoticeSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RecallNotice
+   */
+  omit?: Prisma.RecallNoticeOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RecallNoticeInclude<ExtArgs> | null
+  /**
+   * The data needed to update a RecallNotice.
+   */
+  data: Prisma.XOR<Prisma.RecallNoticeUpdateInput, Prisma.RecallNoticeUncheckedUpdateInput>
+  /**
+   * Choose, which RecallNotice to update.
+   */
+  where: Prisma.RecallNoticeWhereUniqueInput
+}
+
+/**
+ * RecallNotice updateMany
+ */
+export type RecallNoticeUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update RecallNotices.
+   */
+  data: Prisma.XOR<Prisma.RecallNoticeUpdateManyMutationInput, Prisma.RecallNoticeUncheckedUpdateManyInput>
+  /**
+   * Filter which RecallNotices to update
+   */
+  where?: Prisma.RecallNoticeWhereInput
+  /**
+   * Limit how many RecallNotices to update.
+   */
+  limit?: number
+}
+
+/**
+ * RecallNotice updateManyAndReturn
+ */
+export type RecallNoticeUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RecallNotice
+   */
+  select?: Prisma.RecallNoticeSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the RecallNotice
+   */
+  omit?: Prisma.RecallNoticeOmit<ExtArgs> | null
+  /**
+   * The data used to update RecallNotices.
+   */
+  data: Prisma.XOR<Prisma.RecallNoticeUpdateManyMutationInput, Prisma.RecallNoticeUncheckedUpdateManyInput>
+  /**
+   * Filter which RecallNotices to update
+   */
+  where?: Prisma.RecallNoticeWhereInput
+  /**
+   * Limit how many RecallNotices to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RecallNoticeIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * RecallNotice upsert
+ */
+export type RecallNoticeUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RecallNotice
+   */
+  select?: Prisma.RecallNoticeSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RecallNotice
+   */
+  omit?: Prisma.RecallNoticeOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RecallNoticeInclude<ExtArgs> | null
+  /**
+   * The filter to search for the RecallNotice to update in case it exists.
+   */
+  where: Prisma.RecallNoticeWhereUniqueInput
+  /**
+   * In case the RecallNotice found by the `where` argument doesn't exist, create a new RecallNotice with this data.
+   */
+  create: Prisma.XOR<Prisma.RecallNoticeCreateInput, Prisma.RecallNoticeUncheckedCreateInput>
+  /**
+   * In case the RecallNotice was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.RecallNoticeUpdateInput, Prisma.RecallNoticeUncheckedUpdateInput>
+}
+
+/**
+ * RecallNotice delete
+ */
+export type RecallNoticeDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RecallNotice
+   */
+  select?: Prisma.RecallNoticeSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RecallNotice
+   */
+  omit?: Prisma.RecallNoticeOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RecallNoticeInclude<ExtArgs> | null
+  /**
+   * Filter which RecallNotice to delete.
+   */
+  where: Prisma.RecallNoticeWhereUniqueInput
+}
+
+/**
+ * RecallNotice deleteMany
+ */
+export type RecallNoticeDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which RecallNotices to delete
+   */
+  where?: Prisma.RecallNoticeWhereInput
+  /**
+   * Limit how many RecallNotices to delete.
+   */
+  limit?: number
+}
+
+/**
+ * RecallNotice without action
+ */
+export type RecallNoticeDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RecallNotice
+   */
+  select?: Prisma.RecallNoticeSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RecallNotice
+   */
+  omit?: Prisma.RecallNoticeOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RecallNoticeInclude<ExtArgs> | null
+}
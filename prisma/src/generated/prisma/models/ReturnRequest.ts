@@ -0,0 +1,2446 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `ReturnRequest` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model ReturnRequest
+ * 
+ */
+export type ReturnRequestModel = runtime.Types.Result.DefaultSelection<Prisma.$ReturnRequestPayload>
+
+export type AggregateReturnRequest = {
+  _count: ReturnRequestCountAggregateOutputType | null
+  _avg: ReturnRequestAvgAggregateOutputType | null
+  _sum: ReturnRequestSumAggregateOutputType | null
+  _min: ReturnRequestMinAggregateOutputType | null
+  _max: ReturnRequestMaxAggregateOutputType | null
+}
+
+export type ReturnRequestAvgAggregateOutputType = {
+  quantity: number | null
+}
+
+export type ReturnRequestSumAggregateOutputType = {
+  quantity: number | null
+}
+
+export type ReturnRequestMinAggregateOutputType = {
+  id: string | null
+  orderId: string | null
+  orderItemId: string | null
+  userId: string | null
+  quantity: number | null
+  reason: string | null
+  status: $Enums.ReturnStatus | null
+  condition: $Enums.ReturnCondition | null
+  restocked: boolean | null
+  reviewedBy: string | null
+  reviewedAt: Date | null
+  reviewNote: string | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type ReturnRequestMaxAggregateOutputType = {
+  id: string | null
+  orderId: string | null
+  orderItemId: string | null
+  userId: string | null
+  quantity: number | null
+  reason: string | null
+  status: $Enums.ReturnStatus | null
+  condition: $Enums.ReturnCondition | null
+  restocked: boolean | null
+  reviewedBy: string | null
+  reviewedAt: Date | null
+  reviewNote: string | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type ReturnRequestCountAggregateOutputType = {
+  id: number
+  orderId: number
+  orderItemId: number
+  userId: number
+  quantity: number
+  reason: number
+  photos: number
+  status: number
+  condition: number
+  restocked: number
+  reviewedBy: number
+  reviewedAt: number
+  reviewNote: number
+  createdAt: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type ReturnRequestAvgAggregateInputType = {
+  quantity?: true
+}
+
+export type ReturnRequestSumAggregateInputType = {
+  quantity?: true
+}
+
+export type ReturnRequestMinAggregateInputType = {
+  id?: true
+  orderId?: true
+  orderItemId?: true
+  userId?: true
+  quantity?: true
+  reason?: true
+  status?: true
+  condition?: true
+  restocked?: true
+  reviewedBy?: true
+  reviewedAt?: true
+  reviewNote?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type ReturnRequestMaxAggregateInputType = {
+  id?: true
+  orderId?: true
+  orderItemId?: true
+  userId?: true
+  quantity?: true
+  reason?: true
+  status?: true
+  condition?: true
+  restocked?: true
+  reviewedBy?: true
+  reviewedAt?: true
+  reviewNote?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type ReturnRequestCountAggregateInputType = {
+  id?: true
+  orderId?: true
+  orderItemId?: true
+  userId?: true
+  quantity?: true
+  reason?: true
+  photos?: true
+  status?: true
+  condition?: true
+  restocked?: true
+  reviewedBy?: true
+  reviewedAt?: true
+  reviewNote?: true
+  createdAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type ReturnRequestAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ReturnRequest to aggregate.
+   */
+  where?: Prisma.ReturnRequestWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ReturnRequests to fetch.
+   */
+  orderBy?: Prisma.ReturnRequestOrderByWithRelationInput | Prisma.ReturnRequestOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.ReturnRequestWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ReturnRequests from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ReturnRequests.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned ReturnRequests
+  **/
+  _count?: true | ReturnRequestCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: ReturnRequestAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: ReturnRequestSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: ReturnRequestMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: ReturnRequestMaxAggregateInputType
+}
+
+export type GetReturnRequestAggregateType<T extends ReturnRequestAggregateArgs> = {
+      [P in keyof T & keyof AggregateReturnRequest]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateReturnRequest[P]>
+    : Prisma.GetScalarType<T[P], AggregateReturnRequest[P]>
+}
+
+
+
+
+export type ReturnRequestGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ReturnRequestWhereInput
+  orderBy?: Prisma.ReturnRequestOrderByWithAggregationInput | Prisma.ReturnRequestOrderByWithAggregationInput[]
+  by: Prisma.ReturnRequestScalarFieldEnum[] | Prisma.ReturnRequestScalarFieldEnum
+  having?: Prisma.ReturnRequestScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: ReturnRequestCountAggregateInputType | true
+  _avg?: ReturnRequestAvgAggregateInputType
+  _sum?: ReturnRequestSumAggregateInputType
+  _min?: ReturnRequestMinAggregateInputType
+  _max?: ReturnRequestMaxAggregateInputType
+}
+
+export type ReturnRequestGroupByOutputType = {
+  id: string
+  orderId: string
+  orderItemId: string
+  userId: string
+  quantity: number
+  reason: string
+  photos: string[]
+  status: $Enums.ReturnStatus
+  condition: $Enums.ReturnCondition | null
+  restocked: boolean
+  reviewedBy: string | null
+  reviewedAt: Date | null
+  reviewNote: string | null
+  createdAt: Date
+  updatedAt: Date
+  _count: ReturnRequestCountAggregateOutputType | null
+  _avg: ReturnRequestAvgAggregateOutputType | null
+  _sum: ReturnRequestSumAggregateOutputType | null
+  _min: ReturnRequestMinAggregateOutputType | null
+  _max: ReturnRequestMaxAggregateOutputType | null
+}
+
+type GetReturnRequestGroupByPayload<T extends ReturnRequestGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<ReturnRequestGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof ReturnRequestGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], ReturnRequestGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], ReturnRequestGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type ReturnRequestWhereInput = {
+  AND?: Prisma.ReturnRequestWhereInput | Prisma.ReturnRequestWhereInput[]
+  OR?: Prisma.ReturnRequestWhereInput[]
+  NOT?: Prisma.ReturnRequestWhereInput | Prisma.ReturnRequestWhereInput[]
+  id?: Prisma.StringFilter<"ReturnRequest"> | string
+  orderId?: Prisma.StringFilter<"ReturnRequest"> | string
+  orderItemId?: Prisma.StringFilter<"ReturnRequest"> | string
+  userId?: Prisma.StringFilter<"ReturnRequest"> | string
+  quantity?: Prisma.IntFilter<"ReturnRequest"> | number
+  reason?: Prisma.StringFilter<"ReturnRequest"> | string
+  photos?: Prisma.StringNullableListFilter<"ReturnRequest">
+  status?: Prisma.EnumReturnStatusFilter<"ReturnRequest"> | $Enums.ReturnStatus
+  condition?: Prisma.EnumReturnConditionNullableFilter<"ReturnRequest"> | $Enums.ReturnCondition | null
+  restocked?: Prisma.BoolFilter<"ReturnRequest"> | boolean
+  reviewedBy?: Prisma.StringNullableFilter<"ReturnRequest"> | string | null
+  reviewedAt?: Prisma.DateTimeNullableFilter<"ReturnRequest"> | Date | string | null
+  reviewNote?: Prisma.StringNullableFilter<"ReturnRequest"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"ReturnRequest"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"ReturnRequest"> | Date | string
+  order?: Prisma.XOR<Prisma.OrderScalarRelationFilter, Prisma.OrderWhereInput>
+  orderItem?: Prisma.XOR<Prisma.OrderItemScalarRelationFilter, Prisma.OrderItemWhereInput>
+  user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+  refund?: Prisma.XOR<Prisma.RefundNullableScalarRelationFilter, Prisma.RefundWhereInput> | null
+  statusHistory?: Prisma.OrderStatusHistoryListRelationFilter
+}
+
+export type ReturnRequestOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  orderId?: Prisma.SortOrder
+  orderItemId?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  quantity?: Prisma.SortOrder
+  reason?: Prisma.SortOrder
+  photos?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  condition?: Prisma.SortOrderInput | Prisma.SortOrder
+  restocked?: Prisma.SortOrder
+  reviewedBy?: Prisma.SortOrderInput | Prisma.SortOrder
+  reviewedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  reviewNote?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  order?: Prisma.OrderOrderByWithRelationInput
+  orderItem?: Prisma.OrderItemOrderByWithRelationInput
+  user?: Prisma.UserOrderByWithRelationInput
+  refund?: Prisma.RefundOrderByWithRelationInput
+  statusHistory?: Prisma.OrderStatusHistoryOrderByRelationAggregateInput
+}
+
+export type ReturnRequestWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  AND?: Prisma.ReturnRequestWhereInput | Prisma.ReturnRequestWhereInput[]
+  OR?: Prisma.ReturnRequestWhereInput[]
+  NOT?: Prisma.ReturnRequestWhereInput | Prisma.ReturnRequestWhereInput[]
+  orderId?: Prisma.StringFilter<"ReturnRequest"> | string
+  orderItemId?: Prisma.StringFilter<"ReturnRequest"> | string
+  userId?: Prisma.StringFilter<"ReturnRequest"> | string
+  quantity?: Prisma.IntFilter<"ReturnRequest"> | number
+  reason?: Prisma.StringFilter<"ReturnRequest"> | string
+  photos?: Prisma.StringNullableListFilter<"ReturnRequest">
+  status?: Prisma.EnumReturnStatusFilter<"ReturnRequest"> | $Enums.ReturnStatus
+  condition?: Prisma.EnumReturnConditionNullableFilter<"ReturnRequest"> | $Enums.ReturnCondition | null
+  restocked?: Prisma.BoolFilter<"ReturnRequest"> | boolean
+  reviewedBy?: Prisma.StringNullableFilter<"ReturnRequest"> | string | null
+  reviewedAt?: Prisma.DateTimeNullableFilter<"ReturnRequest"> | Date | string | null
+  reviewNote?: Prisma.StringNullableFilter<"ReturnRequest"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"ReturnRequest"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"ReturnRequest"> | Date | string
+  order?: Prisma.XOR<Prisma.OrderScalarRelationFilter, Prisma.OrderWhereInput>
+  orderItem?: Prisma.XOR<Prisma.OrderItemScalarRelationFilter, Prisma.OrderItemWhereInput>
+  user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+  refund?: Prisma.XOR<Prisma.RefundNullableScalarRelationFilter, Prisma.RefundWhereInput> | null
+  statusHistory?: Prisma.OrderStatusHistoryListRelationFilter
+}, "id">
+
+export type ReturnRequestOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  orderId?: Prisma.SortOrder
+  orderItemId?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  quantity?: Prisma.SortOrder
+  reason?: Prisma.SortOrder
+  photos?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  condition?: Prisma.SortOrderInput | Prisma.SortOrder
+  restocked?: Prisma.SortOrder
+  reviewedBy?: Prisma.SortOrderInput | Prisma.SortOrder
+  reviewedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  reviewNote?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.ReturnRequestCountOrderByAggregateInput
+  _avg?: Prisma.ReturnRequestAvgOrderByAggregateInput
+  _max?: Prisma.ReturnRequestMaxOrderByAggregateInput
+  _min?: Prisma.ReturnRequestMinOrderByAggregateInput
+  _sum?: Prisma.ReturnRequestSumOrderByAggregateInput
+}
+
+export type ReturnRequestScalarWhereWithAggregatesInput = {
+  AND?: Prisma.ReturnRequestScalarWhereWithAggregatesInput | Prisma.ReturnRequestScalarWhereWithAggregatesInput[]
+  OR?: Prisma.ReturnRequestScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.ReturnRequestScalarWhereWithAggregatesInput | Prisma.ReturnRequestScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"ReturnRequest"> | string
+  orderId?: Prisma.StringWithAggregatesFilter<"ReturnRequest"> | string
+  orderItemId?: Prisma.StringWithAggregatesFilter<"ReturnRequest"> | string
+  userId?: Prisma.StringWithAggregatesFilter<"ReturnRequest"> | string
+  quantity?: Prisma.IntWithAggregatesFilter<"ReturnRequest"> | number
+  reason?: Prisma.StringWithAggregatesFilter<"ReturnRequest"> | string
+  photos?: Prisma.StringNullableListFilter<"ReturnRequest">
+  status?: Prisma.EnumReturnStatusWithAggregatesFilter<"ReturnRequest"> | $Enums.ReturnStatus
+  condition?: Prisma.EnumReturnConditionNullableWithAggregatesFilter<"ReturnRequest"> | $Enums.ReturnCondition | null
+  restocked?: Prisma.BoolWithAggregatesFilter<"ReturnRequest"> | boolean
+  reviewedBy?: Prisma.StringNullableWithAggregatesFilter<"ReturnRequest"> | string | null
+  reviewedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"ReturnRequest"> | Date | string | null
+  reviewNote?: Prisma.StringNullableWithAggregatesFilter<"ReturnRequest"> | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"ReturnRequest"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"ReturnRequest"> | Date | string
+}
+
+export type ReturnRequestCreateInput = {
+  id?: string
+  quantity: number
+  reason: string
+  photos?: Prisma.ReturnRequestCreatephotosInput | string[]
+  status?: $Enums.ReturnStatus
+  condition?: $Enums.ReturnCondition | null
+  restocked?: boolean
+  reviewedBy?: string | null
+  reviewedAt?: Date | string | null
+  reviewNote?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  order: Prisma.OrderCreateNestedOneWithoutReturnsInput
+  orderItem: Prisma.OrderItemCreateNestedOneWithoutReturnsInput
+  user: Prisma.UserCreateNestedOneWithoutReturnRequestsInput
+  refund?: Prisma.RefundCreateNestedOneWithoutReturnRequestInput
+  statusHistory?: Prisma.OrderStatusHistoryCreateNestedManyWithoutReturnRequestInput
+}
+
+export type ReturnRequestUncheckedCreateInput = {
+  id?: string
+  orderId: string
+  orderItemId: string
+  userId: string
+  quantity: number
+  reason: string
+  photos?: Prisma.ReturnRequestCreatephotosInput | string[]
+  status?: $Enums.ReturnStatus
+  condition?: $Enums.ReturnCondition | null
+  restocked?: boolean
+  reviewedBy?: string | null
+  reviewedAt?: Date | string | null
+  reviewNote?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  refund?: Prisma.RefundUncheckedCreateNestedOneWithoutReturnRequestInput
+  statusHistory?: Prisma.OrderStatusHistoryUncheckedCreateNestedManyWithoutReturnRequestInput
+}
+
+export type ReturnRequestUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  reason?: Prisma.StringFieldUpdateOperationsInput | string
+  photos?: Prisma.ReturnRequestUpdatephotosInput | string[]
+  status?: Prisma.EnumReturnStatusFieldUpdateOperationsInput | $Enums.ReturnStatus
+  condition?: Prisma.NullableEnumReturnConditionFieldUpdateOperationsInput | $Enums.ReturnCondition | null
+  restocked?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  reviewedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  order?: Prisma.OrderUpdateOneRequiredWithoutReturnsNestedInput
+  orderItem?: Prisma.OrderItemUpdateOneRequiredWithoutReturnsNestedInput
+  user?: Prisma.UserUpdateOneRequiredWithoutReturnRequestsNestedInput
+  refund?: Prisma.RefundUpdateOneWithoutReturnRequestNestedInput
+  statusHistory?: Prisma.OrderStatusHistoryUpdateManyWithoutReturnRequestNestedInput
+}
+
+export type ReturnRequestUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  orderId?: Prisma.StringFieldUpdateOperationsInput | string
+  orderItemId?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  reason?: Prisma.StringFieldUpdateOperationsInput | string
+  photos?: Prisma.ReturnRequestUpdatephotosInput | string[]
+  status?: Prisma.EnumReturnStatusFieldUpdateOperationsInput | $Enums.ReturnStatus
+  condition?: Prisma.NullableEnumReturnConditionFieldUpdateOperationsInput | $Enums.ReturnCondition | null
+  restocked?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  reviewedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  refund?: Prisma.RefundUncheckedUpdateOneWithoutReturnRequestNestedInput
+  statusHistory?: Prisma.OrderStatusHistoryUncheckedUpdateManyWithoutReturnRequestNestedInput
+}
+
+export type ReturnRequestCreateManyInput = {
+  id?: string
+  orderId: string
+  orderItemId: string
+  userId: string
+  quantity: number
+  reason: string
+  photos?: Prisma.ReturnRequestCreatephotosInput | string[]
+  status?: $Enums.ReturnStatus
+  condition?: $Enums.ReturnCondition | null
+  restocked?: boolean
+  reviewedBy?: string | null
+  reviewedAt?: Date | string | null
+  reviewNote?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type ReturnRequestUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  reason?: Prisma.StringFieldUpdateOperationsInput | string
+  photos?: Prisma.ReturnRequestUpdatephotosInput | string[]
+  status?: Prisma.EnumReturnStatusFieldUpdateOperationsInput | $Enums.ReturnStatus
+  condition?: Prisma.NullableEnumReturnConditionFieldUpdateOperationsInput | $Enums.ReturnCondition | null
+  restocked?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  reviewedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ReturnRequestUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  orderId?: Prisma.StringFieldUpdateOperationsInput | string
+  orderItemId?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  reason?: Prisma.StringFieldUpdateOperationsInput | string
+  photos?: Prisma.ReturnRequestUpdatephotosInput | string[]
+  status?: Prisma.EnumReturnStatusFieldUpdateOperationsInput | $Enums.ReturnStatus
+  condition?: Prisma.NullableEnumReturnConditionFieldUpdateOperationsInput | $Enums.ReturnCondition | null
+  restocked?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  reviewedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ReturnRequestListRelationFilter = {
+  every?: Prisma.ReturnRequestWhereInput
+  some?: Prisma.ReturnRequestWhereInput
+  none?: Prisma.ReturnRequestWhereInput
+}
+
+export type ReturnRequestOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type ReturnRequestNullableScalarRelationFilter = {
+  is?: Prisma.ReturnRequestWhereInput | null
+  isNot?: Prisma.ReturnRequestWhereInput | null
+}
+
+export type ReturnRequestCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  orderId?: Prisma.SortOrder
+  orderItemId?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  quantity?: Prisma.SortOrder
+  reason?: Prisma.SortOrder
+  photos?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  condition?: Prisma.SortOrder
+  restocked?: Prisma.SortOrder
+  reviewedBy?: Prisma.SortOrder
+  reviewedAt?: Prisma.SortOrder
+  reviewNote?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type ReturnRequestAvgOrderByAggregateInput = {
+  quantity?: Prisma.SortOrder
+}
+
+export type ReturnRequestMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  orderId?: Prisma.SortOrder
+  orderItemId?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  quantity?: Prisma.SortOrder
+  reason?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  condition?: Prisma.SortOrder
+  restocked?: Prisma.SortOrder
+  reviewedBy?: Prisma.SortOrder
+  reviewedAt?: Prisma.SortOrder
+  reviewNote?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type ReturnRequestMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  orderId?: Prisma.SortOrder
+  orderItemId?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  quantity?: Prisma.SortOrder
+  reason?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  condition?: Prisma.SortOrder
+  restocked?: Prisma.SortOrder
+  reviewedBy?: Prisma.SortOrder
+  reviewedAt?: Prisma.SortOrder
+  reviewNote?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type ReturnRequestSumOrderByAggregateInput = {
+  quantity?: Prisma.SortOrder
+}
+
+export type ReturnRequestCreateNestedManyWithoutOrderInput = {
+  create?: Prisma.XOR<Prisma.ReturnRequestCreateWithoutOrderInput, Prisma.ReturnRequestUncheckedCreateWithoutOrderInput> | Prisma.ReturnRequestCreateWithoutOrderInput[] | Prisma.ReturnRequestUncheckedCreateWithoutOrderInput[]
+  connectOrCreate?: Prisma.ReturnRequestCreateOrConnectWithoutOrderInput | Prisma.ReturnRequestCreateOrConnectWithoutOrderInput[]
+  createMany?: Prisma.ReturnRequestCreateManyOrderInputEnvelope
+  connect?: Prisma.ReturnRequestWhereUniqueInput | Prisma.ReturnRequestWhereUniqueInput[]
+}
+
+export type ReturnRequestUncheckedCreateNestedManyWithoutOrderInput = {
+  create?: Prisma.XOR<Prisma.ReturnRequestCreateWithoutOrderInput, Prisma.ReturnRequestUncheckedCreateWithoutOrderInput> | Prisma.ReturnRequestCreateWithoutOrderInput[] | Prisma.ReturnRequestUncheckedCreateWithoutOrderInput[]
+  connectOrCreate?: Prisma.ReturnRequestCreateOrConnectWithoutOrderInput | Prisma.ReturnRequestCreateOrConnectWithoutOrderInput[]
+  createMany?: Prisma.ReturnRequestCreateManyOrderInputEnvelope
+  connect?: Prisma.ReturnRequestWhereUniqueInput | Prisma.ReturnRequestWhereUniqueInput[]
+}
+
+export type ReturnRequestUpdateManyWithoutOrderNestedInput = {
+  create?: Prisma.XOR<Prisma.ReturnRequestCreateWithoutOrderInput, Prisma.ReturnRequestUncheckedCreateWithoutOrderInput> | Prisma.ReturnRequestCreateWithoutOrderInput[] | Prisma.ReturnRequestUncheckedCreateWithoutOrderInput[]
+  connectOrCreate?: Prisma.ReturnRequestCreateOrConnectWithoutOrderInput | Prisma.ReturnRequestCreateOrConnectWithoutOrderInput[]
+  upsert?: Prisma.ReturnRequestUpsertWithWhereUniqueWithoutOrderInput | Prisma.ReturnRequestUpsertWithWhereUniqueWithoutOrderInput[]
+  createMany?: Prisma.ReturnRequestCreateManyOrderInputEnvelope
+  set?: Prisma.ReturnRequestWhereUniqueInput | Prisma.ReturnRequestWhereUniqueInput[]
+  disconnect?: Prisma.ReturnRequestWhereUniqueInput | Prisma.ReturnRequestWhereUniqueInput[]
+  delete?: Prisma.ReturnRequestWhereUniqueInput | Prisma.ReturnRequestWhereUniqueInput[]
+  connect?: Prisma.ReturnRequestWhereUniqueInput | Prisma.ReturnRequestWhereUniqueInput[]
+  update?: Prisma.ReturnRequestUpdateWithWhereUniqueWithoutOrderInput | Prisma.ReturnRequestUpdateWithWhereUniqueWithoutOrderInput[]
+  updateMany?: Prisma.ReturnRequestUpdateManyWithWhereWithoutOrderInput | Prisma.ReturnRequestUpdateManyWithWhereWithoutOrderInput[]
+  deleteMany?: Prisma.ReturnRequestScalarWhereInput | Prisma.ReturnRequestScalarWhereInput[]
+}
+
+export type ReturnRequestUncheckedUpdateManyWithoutOrderNestedInput = {
+  create?: Prisma.XOR<Prisma.ReturnRequestCreateWithoutOrderInput, Prisma.ReturnRequestUncheckedCreateWithoutOrderInput> | Prisma.ReturnRequestCreateWithoutOrderInput[] | Prisma.ReturnRequestUncheckedCreateWithoutOrderInput[]
+  connectOrCreate?: Prisma.ReturnRequestCreateOrConnectWithoutOrderInput | Prisma.ReturnRequestCreateOrConnectWithoutOrderInput[]
+  upsert?: Prisma.ReturnRequestUpsertWithWhereUniqueWithoutOrderInput | Prisma.ReturnRequestUpsertWithWhereUniqueWithoutOrderInput[]
+  createMany?: Prisma.ReturnRequestCreateManyOrderInputEnvelope
+  set?: Prisma.ReturnRequestWhereUniqueInput | Prisma.ReturnRequestWhereUniqueInput[]
+  disconnect?: Prisma.ReturnRequestWhereUniqueInput | Prisma.ReturnRequestWhereUniqueInput[]
+  delete?: Prisma.ReturnRequestWhereUniqueInput | Prisma.ReturnRequestWhereUniqueInput[]
+  connect?: Prisma.ReturnRequestWhereUniqueInput | Prisma.ReturnRequestWhereUniqueInput[]
+  update?: Prisma.ReturnRequestUpdateWithWhereUniqueWithoutOrderInput | Prisma.ReturnRequestUpdateWithWhereUniqueWithoutOrderInput[]
+  updateMany?: Prisma.ReturnRequestUpdateManyWithWhereWithoutOrderInput | Prisma.ReturnRequestUpdateManyWithWhereWithoutOrderInput[]
+  deleteMany?: Prisma.ReturnRequestScalarWhereInput | Prisma.ReturnRequestScalarWhereInput[]
+}
+
+export type ReturnRequestCreateNestedManyWithoutOrderItemInput = {
+  create?: Prisma.XOR<Prisma.ReturnRequestCreateWithoutOrderItemInput, Prisma.ReturnRequestUncheckedCreateWithoutOrderItemInput> | Prisma.ReturnRequestCreateWithoutOrderItemInput[] | Prisma.ReturnRequestUncheckedCreateWithoutOrderItemInput[]
+  connectOrCreate?: Prisma.ReturnRequestCreateOrConnectWithoutOrderItemInput | Prisma.ReturnRequestCreateOrConnectWithoutOrderItemInput[]
+  createMany?: Prisma.ReturnRequestCreateManyOrderItemInputEnvelope
+  connect?: Prisma.ReturnRequestWhereUniqueInput | Prisma.ReturnRequestWhereUniqueInput[]
+}
+
+export type ReturnRequestUncheckedCreateNestedManyWithoutOrderItemInput = {
+  create?: Prisma.XOR<Prisma.ReturnRequestCreateWithoutOrderItemInput, Prisma.ReturnRequestUncheckedCreateWithoutOrderItemInput> | Prisma.ReturnRequestCreateWithoutOrderItemInput[] | Prisma.ReturnRequestUncheckedCreateWithoutOrderItemInput[]
+  connectOrCreate?: Prisma.ReturnRequestCreateOrConnectWithoutOrderItemInput | Prisma.ReturnRequestCreateOrConnectWithoutOrderItemInput[]
+  createMany?: Prisma.ReturnRequestCreateManyOrderItemInputEnvelope
+  connect?: Prisma.ReturnRequestWhereUniqueInput | Prisma.ReturnRequestWhereUniqueInput[]
+}
+
+export type ReturnRequestUpdateManyWithoutOrderItemNestedInput = {
+  create?: Prisma.XOR<Prisma.ReturnRequestCreateWithoutOrderItemInput, Prisma.ReturnRequestUncheckedCreateWithoutOrderItemInput> | Prisma.ReturnRequestCreateWithoutOrderItemInput[] | Prisma.ReturnRequestUncheckedCreateWithoutOrderItemInput[]
+  connectOrCreate?: Prisma.ReturnRequestCreateOrConnectWithoutOrderItemInput | Prisma.ReturnRequestCreateOrConnectWithoutOrderItemInput[]
+  upsert?: Prisma.ReturnRequestUpsertWithWhereUniqueWithoutOrderItemInput | Prisma.ReturnRequestUpsertWithWhereUniqueWithoutOrderItemInput[]
+  createMany?: Prisma.ReturnRequestCreateManyOrderItemInputEnvelope
+  set?: Prisma.ReturnRequestWhereUniqueInput | Prisma.ReturnRequestWhereUniqueInput[]
+  disconnect?: Prisma.ReturnRequestWhereUniqueInput | Prisma.ReturnRequestWhereUniqueInput[]
+  delete?: Prisma.ReturnRequestWhereUniqueInput | Prisma.ReturnRequestWhereUniqueInput[]
+  connect?: Prisma.ReturnRequestWhereUniqueInput | Prisma.ReturnRequestWhereUniqueInput[]
+  update?: Prisma.ReturnRequestUpdateWithWhereUniqueWithoutOrderItemInput | Prisma.ReturnRequestUpdateWithWhereUniqueWithoutOrderItemInput[]
+  updateMany?: Prisma.ReturnRequestUpdateManyWithWhereWithoutOrderItemInput | Prisma.ReturnRequestUpdateManyWithWhereWithoutOrderItemInput[]
+  deleteMany?: Prisma.ReturnRequestScalarWhereInput | Prisma.ReturnRequestScalarWhereInput[]
+}
+
+export type ReturnRequestUncheckedUpdateManyWithoutOrderItemNestedInput = {
+  create?: Prisma.XOR<Prisma.ReturnRequestCreateWithoutOrderItemInput, Prisma.ReturnRequestUncheckedCreateWithoutOrderItemInput> | Prisma.ReturnRequestCreateWithoutOrderItemInput[] | Prisma.ReturnRequestUncheckedCreateWithoutOrderItemInput[]
+  connectOrCreate?: Prisma.ReturnRequestCreateOrConnectWithoutOrderItemInput | Prisma.ReturnRequestCreateOrConnectWithoutOrderItemInput[]
+  upsert?: Prisma.ReturnRequestUpsertWithWhereUniqueWithoutOrderItemInput | Prisma.ReturnRequestUpsertWithWhereUniqueWithoutOrderItemInput[]
+  createMany?: Prisma.ReturnRequestCreateManyOrderItemInputEnvelope
+  set?: Prisma.ReturnRequestWhereUniqueInput | Prisma.ReturnRequestWhereUniqueInput[]
+  disconnect?: Prisma.ReturnRequestWhereUniqueInput | Prisma.ReturnRequestWhereUniqueInput[]
+  delete?: Prisma.ReturnRequestWhereUniqueInput | Prisma.ReturnRequestWhereUniqueInput[]
+  connect?: Prisma.ReturnRequestWhereUniqueInput | Prisma.ReturnRequestWhereUniqueInput[]
+  update?: Prisma.ReturnRequestUpdateWithWhereUniqueWithoutOrderItemInput | Prisma.ReturnRequestUpdateWithWhereUniqueWithoutOrderItemInput[]
+  updateMany?: Prisma.ReturnRequestUpdateManyWithWhereWithoutOrderItemInput | Prisma.ReturnRequestUpdateManyWithWhereWithoutOrderItemInput[]
+  deleteMany?: Prisma.ReturnRequestScalarWhereInput | Prisma.ReturnRequestScalarWhereInput[]
+}
+
+export type ReturnRequestCreateNestedOneWithoutStatusHistoryInput = {
+  create?: Prisma.XOR<Prisma.ReturnRequestCreateWithoutStatusHistoryInput, Prisma.ReturnRequestUncheckedCreateWithoutStatusHistoryInput>
+  connectOrCreate?: Prisma.ReturnRequestCreateOrConnectWithoutStatusHistoryInput
+  connect?: Prisma.ReturnRequestWhereUniqueInput
+}
+
+export type ReturnRequestUpdateOneWithoutStatusHistoryNestedInput = {
+  create?: Prisma.XOR<Prisma.ReturnRequestCreateWithoutStatusHistoryInput, Prisma.ReturnRequestUncheckedCreateWithoutStatusHistoryInput>
+  connectOrCreate?: Prisma.ReturnRequestCreateOrConnectWithoutStatusHistoryInput
+  upsert?: Prisma.ReturnRequestUpsertWithoutStatusHistoryInput
+  disconnect?: Prisma.ReturnRequestWhereInput | boolean
+  delete?: Prisma.ReturnRequestWhereInput | boolean
+  connect?: Prisma.ReturnRequestWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.ReturnRequestUpdateToOneWithWhereWithoutStatusHistoryInput, Prisma.ReturnRequestUpdateWithoutStatusHistoryInput>, Prisma.ReturnRequestUncheckedUpdateWithoutStatusHistoryInput>
+}
+
+export type ReturnRequestCreatephotosInput = {
+  set: string[]
+}
+
+export type ReturnRequestUpdatephotosInput = {
+  set?: string[]
+  push?: string | string[]
+}
+
+export type EnumReturnStatusFieldUpdateOperationsInput = {
+  set?: $Enums.ReturnStatus
+}
+
+export type NullableEnumReturnConditionFieldUpdateOperationsInput = {
+  set?: $Enums.ReturnCondition | null
+}
+
+export type ReturnRequestCreateNestedOneWithoutRefundInput = {
+  create?: Prisma.XOR<Prisma.ReturnRequestCreateWithoutRefundInput, Prisma.ReturnRequestUncheckedCreateWithoutRefundInput>
+  connectOrCreate?: Prisma.ReturnRequestCreateOrConnectWithoutRefundInput
+  connect?: Prisma.ReturnRequestWhereUniqueInput
+}
+
+export type ReturnRequestUpdateOneWithoutRefundNestedInput = {
+  create?: Prisma.XOR<Prisma.ReturnRequestCreateWithoutRefundInput, Prisma.ReturnRequestUncheckedCreateWithoutRefundInput>
+  connectOrCreate?: Prisma.ReturnRequestCreateOrConnectWithoutRefundInput
+  upsert?: Prisma.ReturnRequestUpsertWithoutRefundInput
+  disconnect?: Prisma.ReturnRequestWhereInput | boolean
+  delete?: Prisma.ReturnRequestWhereInput | boolean
+  connect?: Prisma.ReturnRequestWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.ReturnRequestUpdateToOneWithWhereWithoutRefundInput, Prisma.ReturnRequestUpdateWithoutRefundInput>, Prisma.ReturnRequestUncheckedUpdateWithoutRefundInput>
+}
+
+export type ReturnRequestCreateNestedManyWithoutUserInput = {
+  create?: Prisma.XOR<Prisma.ReturnRequestCreateWithoutUserInput, Prisma.ReturnRequestUncheckedCreateWithoutUserInput> | Prisma.ReturnRequestCreateWithoutUserInput[] | Prisma.ReturnRequestUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.ReturnRequestCreateOrConnectWithoutUserInput | Prisma.ReturnRequestCreateOrConnectWithoutUserInput[]
+  createMany?: Prisma.ReturnRequestCreateManyUserInputEnvelope
+  connect?: Prisma.ReturnRequestWhereUniqueInput | Prisma.ReturnRequestWhereUniqueInput[]
+}
+
+export type ReturnRequestUncheckedCreateNestedManyWithoutUserInput = {
+  create?: Prisma.XOR<Prisma.ReturnRequestCreateWithoutUserInput, Prisma.ReturnRequestUncheckedCreateWithoutUserInput> | Prisma.ReturnRequestCreateWithoutUserInput[] | Prisma.ReturnRequestUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.ReturnRequestCreateOrConnectWithoutUserInput | Prisma.ReturnRequestCreateOrConnectWithoutUserInput[]
+  createMany?: Prisma.ReturnRequestCreateManyUserInputEnvelope
+  connect?: Prisma.ReturnRequestWhereUniqueInput | Prisma.ReturnRequestWhereUniqueInput[]
+}
+
+export type ReturnRequestUpdateManyWithoutUserNestedInput = {
+  create?: Prisma.XOR<Prisma.ReturnRequestCreateWithoutUserInput, Prisma.ReturnRequestUncheckedCreateWithoutUserInput> | Prisma.ReturnRequestCreateWithoutUserInput[] | Prisma.ReturnRequestUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.ReturnRequestCreateOrConnectWithoutUserInput | Prisma.ReturnRequestCreateOrConnectWithoutUserInput[]
+  upsert?: Prisma.ReturnRequestUpsertWithWhereUniqueWithoutUserInput | Prisma.ReturnRequestUpsertWithWhereUniqueWithoutUserInput[]
+  createMany?: Prisma.ReturnRequestCreateManyUserInputEnvelope
+  set?: Prisma.ReturnRequestWhereUniqueInput | Prisma.ReturnRequestWhereUniqueInput[]
+  disconnect?: Prisma.ReturnRequestWhereUniqueInput | Prisma.ReturnRequestWhereUniqueInput[]
+  delete?: Prisma.ReturnRequestWhereUniqueInput | Prisma.ReturnRequestWhereUniqueInput[]
+  connect?: Prisma.ReturnRequestWhereUniqueInput | Prisma.ReturnRequestWhereUniqueInput[]
+  update?: Prisma.ReturnRequestUpdateWithWhereUniqueWithoutUserInput | Prisma.ReturnRequestUpdateWithWhereUniqueWithoutUserInput[]
+  updateMany?: Prisma.ReturnRequestUpdateManyWithWhereWithoutUserInput | Prisma.ReturnRequestUpdateManyWithWhereWithoutUserInput[]
+  deleteMany?: Prisma.ReturnRequestScalarWhereInput | Prisma.ReturnRequestScalarWhereInput[]
+}
+
+export type ReturnRequestUncheckedUpdateManyWithoutUserNestedInput = {
+  create?: Prisma.XOR<Prisma.ReturnRequestCreateWithoutUserInput, Prisma.ReturnRequestUncheckedCreateWithoutUserInput> | Prisma.ReturnRequestCreateWithoutUserInput[] | Prisma.ReturnRequestUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.ReturnRequestCreateOrConnectWithoutUserInput | Prisma.ReturnRequestCreateOrConnectWithoutUserInput[]
+  upsert?: Prisma.ReturnRequestUpsertWithWhereUniqueWithoutUserInput | Prisma.ReturnRequestUpsertWithWhereUniqueWithoutUserInput[]
+  createMany?: Prisma.ReturnRequestCreateManyUserInputEnvelope
+  set?: Prisma.ReturnRequestWhereUniqueInput | Prisma.ReturnRequestWhereUniqueInput[]
+  disconnect?: Prisma.ReturnRequestWhereUniqueInput | Prisma.ReturnRequestWhereUniqueInput[]
+  delete?: Prisma.ReturnRequestWhereUniqueInput | Prisma.ReturnRequestWhereUniqueInput[]
+  connect?: Prisma.ReturnRequestWhereUniqueInput | Prisma.ReturnRequestWhereUniqueInput[]
+  update?: Prisma.ReturnRequestUpdateWithWhereUniqueWithoutUserInput | Prisma.ReturnRequestUpdateWithWhereUniqueWithoutUserInput[]
+  updateMany?: Prisma.ReturnRequestUpdateManyWithWhereWithoutUserInput | Prisma.ReturnRequestUpdateManyWithWhereWithoutUserInput[]
+  deleteMany?: Prisma.ReturnRequestScalarWhereInput | Prisma.ReturnRequestScalarWhereInput[]
+}
+
+export type ReturnRequestCreateWithoutOrderInput = {
+  id?: string
+  quantity: number
+  reason: string
+  photos?: Prisma.ReturnRequestCreatephotosInput | string[]
+  status?: $Enums.ReturnStatus
+  condition?: $Enums.ReturnCondition | null
+  restocked?: boolean
+  reviewedBy?: string | null
+  reviewedAt?: Date | string | null
+  reviewNote?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  orderItem: Prisma.OrderItemCreateNestedOneWithoutReturnsInput
+  user: Prisma.UserCreateNestedOneWithoutReturnRequestsInput
+  refund?: Prisma.RefundCreateNestedOneWithoutReturnRequestInput
+  statusHistory?: Prisma.OrderStatusHistoryCreateNestedManyWithoutReturnRequestInput
+}
+
+export type ReturnRequestUncheckedCreateWithoutOrderInput = {
+  id?: string
+  orderItemId: string
+  userId: string
+  quantity: number
+  reason: string
+  photos?: Prisma.ReturnRequestCreatephotosInput | string[]
+  status?: $Enums.ReturnStatus
+  condition?: $Enums.ReturnCondition | null
+  restocked?: boolean
+  reviewedBy?: string | null
+  reviewedAt?: Date | string | null
+  reviewNote?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  refund?: Prisma.RefundUncheckedCreateNestedOneWithoutReturnRequestInput
+  statusHistory?: Prisma.OrderStatusHistoryUncheckedCreateNestedManyWithoutReturnRequestInput
+}
+
+export type ReturnRequestCreateOrConnectWithoutOrderInput = {
+  where: Prisma.ReturnRequestWhereUniqueInput
+  create: Prisma.XOR<Prisma.ReturnRequestCreateWithoutOrderInput, Prisma.ReturnRequestUncheckedCreateWithoutOrderInput>
+}
+
+export type ReturnRequestCreateManyOrderInputEnvelope = {
+  data: Prisma.ReturnRequestCreateManyOrderInput | Prisma.ReturnRequestCreateManyOrderInput[]
+  skipDuplicates?: boolean
+}
+
+export type ReturnRequestUpsertWithWhereUniqueWithoutOrderInput = {
+  where: Prisma.ReturnRequestWhereUniqueInput
+  update: Prisma.XOR<Prisma.ReturnRequestUpdateWithoutOrderInput, Prisma.ReturnRequestUncheckedUpdateWithoutOrderInput>
+  create: Prisma.XOR<Prisma.ReturnRequestCreateWithoutOrderInput, Prisma.ReturnRequestUncheckedCreateWithoutOrderInput>
+}
+
+export type ReturnRequestUpdateWithWhereUniqueWithoutOrderInput = {
+  where: Prisma.ReturnRequestWhereUniqueInput
+  data: Prisma.XOR<Prisma.ReturnRequestUpdateWithoutOrderInput, Prisma.ReturnRequestUncheckedUpdateWithoutOrderInput>
+}
+
+export type ReturnRequestUpdateManyWithWhereWithoutOrderInput = {
+  where: Prisma.ReturnRequestScalarWhereInput
+  data: Prisma.XOR<Prisma.ReturnRequestUpdateManyMutationInput, Prisma.ReturnRequestUncheckedUpdateManyWithoutOrderInput>
+}
+
+export type ReturnRequestScalarWhereInput = {
+  AND?: Prisma.ReturnRequestScalarWhereInput | Prisma.ReturnRequestScalarWhereInput[]
+  OR?: Prisma.ReturnRequestScalarWhereInput[]
+  NOT?: Prisma.ReturnRequestScalarWhereInput | Prisma.ReturnRequestScalarWhereInput[]
+  id?: Prisma.StringFilter<"ReturnRequest"> | string
+  orderId?: Prisma.StringFilter<"ReturnRequest"> | string
+  orderItemId?: Prisma.StringFilter<"ReturnRequest"> | string
+  userId?: Prisma.StringFilter<"ReturnRequest"> | string
+  quantity?: Prisma.IntFilter<"ReturnRequest"> | number
+  reason?: Prisma.StringFilter<"ReturnRequest"> | string
+  photos?: Prisma.StringNullableListFilter<"ReturnRequest">
+  status?: Prisma.EnumReturnStatusFilter<"ReturnRequest"> | $Enums.ReturnStatus
+  condition?: Prisma.EnumReturnConditionNullableFilter<"ReturnRequest"> | $Enums.ReturnCondition | null
+  restocked?: Prisma.BoolFilter<"ReturnRequest"> | boolean
+  reviewedBy?: Prisma.StringNullableFilter<"ReturnRequest"> | string | null
+  reviewedAt?: Prisma.DateTimeNullableFilter<"ReturnRequest"> | Date | string | null
+  reviewNote?: Prisma.StringNullableFilter<"ReturnRequest"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"ReturnRequest"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"ReturnRequest"> | Date | string
+}
+
+export type ReturnRequestCreateWithoutOrderItemInput = {
+  id?: string
+  quantity: number
+  reason: string
+  photos?: Prisma.ReturnRequestCreatephotosInput | string[]
+  status?: $Enums.ReturnStatus
+  condition?: $Enums.ReturnCondition | null
+  restocked?: boolean
+  reviewedBy?: string | null
+  reviewedAt?: Date | string | null
+  reviewNote?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  order: Prisma.OrderCreateNestedOneWithoutReturnsInput
+  user: Prisma.UserCreateNestedOneWithoutReturnRequestsInput
+  refund?: Prisma.RefundCreateNestedOneWithoutReturnRequestInput
+  statusHistory?: Prisma.OrderStatusHistoryCreateNestedManyWithoutReturnRequestInput
+}
+
+export type ReturnRequestUncheckedCreateWithoutOrderItemInput = {
+  id?: string
+  orderId: string
+  userId: string
+  quantity: number
+  reason: string
+  photos?: Prisma.ReturnRequestCreatephotosInput | string[]
+  status?: $Enums.ReturnStatus
+  condition?: $Enums.ReturnCondition | null
+  restocked?: boolean
+  reviewedBy?: string | null
+  reviewedAt?: Date | string | null
+  reviewNote?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  refund?: Prisma.RefundUncheckedCreateNestedOneWithoutReturnRequestInput
+  statusHistory?: Prisma.OrderStatusHistoryUncheckedCreateNestedManyWithoutReturnRequestInput
+}
+
+export type ReturnRequestCreateOrConnectWithoutOrderItemInput = {
+  where: Prisma.ReturnRequestWhereUniqueInput
+  create: Prisma.XOR<Prisma.ReturnRequestCreateWithoutOrderItemInput, Prisma.ReturnRequestUncheckedCreateWithoutOrderItemInput>
+}
+
+export type ReturnRequestCreateManyOrderItemInputEnvelope = {
+  data: Prisma.ReturnRequestCreateManyOrderItemInput | Prisma.ReturnRequestCreateManyOrderItemInput[]
+  skipDuplicates?: boolean
+}
+
+export type ReturnRequestUpsertWithWhereUniqueWithoutOrderItemInput = {
+  where: Prisma.ReturnRequestWhereUniqueInput
+  update: Prisma.XOR<Prisma.ReturnRequestUpdateWithoutOrderItemInput, Prisma.ReturnRequestUncheckedUpdateWithoutOrderItemInput>
+  create: Prisma.XOR<Prisma.ReturnRequestCreateWithoutOrderItemInput, Prisma.ReturnRequestUncheckedCreateWithoutOrderItemInput>
+}
+
+export type ReturnRequestUpdateWithWhereUniqueWithoutOrderItemInput = {
+  where: Prisma.ReturnRequestWhereUniqueInput
+  data: Prisma.XOR<Prisma.ReturnRequestUpdateWithoutOrderItemInput, Prisma.ReturnRequestUncheckedUpdateWithoutOrderItemInput>
+}
+
+export type ReturnRequestUpdateManyWithWhereWithoutOrderItemInput = {
+  where: Prisma.ReturnRequestScalarWhereInput
+  data: Prisma.XOR<Prisma.ReturnRequestUpdateManyMutationInput, Prisma.ReturnRequestUncheckedUpdateManyWithoutOrderItemInput>
+}
+
+export type ReturnRequestCreateWithoutStatusHistoryInput = {
+  id?: string
+  quantity: number
+  reason: string
+  photos?: Prisma.ReturnRequestCreatephotosInput | string[]
+  status?: $Enums.ReturnStatus
+  condition?: $Enums.ReturnCondition | null
+  restocked?: boolean
+  reviewedBy?: string | null
+  reviewedAt?: Date | string | null
+  reviewNote?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  order: Prisma.OrderCreateNestedOneWithoutReturnsInput
+  orderItem: Prisma.OrderItemCreateNestedOneWithoutReturnsInput
+  user: Prisma.UserCreateNestedOneWithoutReturnRequestsInput
+  refund?: Prisma.RefundCreateNestedOneWithoutReturnRequestInput
+}
+
+export type ReturnRequestUncheckedCreateWithoutStatusHistoryInput = {
+  id?: string
+  orderId: string
+  orderItemId: string
+  userId: string
+  quantity: number
+  reason: string
+  photos?: Prisma.ReturnRequestCreatephotosInput | string[]
+  status?: $Enums.ReturnStatus
+  condition?: $Enums.ReturnCondition | null
+  restocked?: boolean
+  reviewedBy?: string | null
+  reviewedAt?: Date | string | null
+  reviewNote?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  refund?: Prisma.RefundUncheckedCreateNestedOneWithoutReturnRequestInput
+}
+
+export type ReturnRequestCreateOrConnectWithoutStatusHistoryInput = {
+  where: Prisma.ReturnRequestWhereUniqueInput
+  create: Prisma.XOR<Prisma.ReturnRequestCreateWithoutStatusHistoryInput, Prisma.ReturnRequestUncheckedCreateWithoutStatusHistoryInput>
+}
+
+export type ReturnRequestUpsertWithoutStatusHistoryInput = {
+  update: Prisma.XOR<Prisma.ReturnRequestUpdateWithoutStatusHistoryInput, Prisma.ReturnRequestUncheckedUpdateWithoutStatusHistoryInput>
+  create: Prisma.XOR<Prisma.ReturnRequestCreateWithoutStatusHistoryInput, Prisma.ReturnRequestUncheckedCreateWithoutStatusHistoryInput>
+  where?: Prisma.ReturnRequestWhereInput
+}
+
+export type ReturnRequestUpdateToOneWithWhereWithoutStatusHistoryInput = {
+  where?: Prisma.ReturnRequestWhereInput
+  data: Prisma.XOR<Prisma.ReturnRequestUpdateWithoutStatusHistoryInput, Prisma.ReturnRequestUncheckedUpdateWithoutStatusHistoryInput>
+}
+
+export type ReturnRequestUpdateWithoutStatusHistoryInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  reason?: Prisma.StringFieldUpdateOperationsInput | string
+  photos?: Prisma.ReturnRequestUpdatephotosInput | string[]
+  status?: Prisma.EnumReturnStatusFieldUpdateOperationsInput | $Enums.ReturnStatus
+  condition?: Prisma.NullableEnumReturnConditionFieldUpdateOperationsInput | $Enums.ReturnCondition | null
+  restocked?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  reviewedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  order?: Prisma.OrderUpdateOneRequiredWithoutReturnsNestedInput
+  orderItem?: Prisma.OrderItemUpdateOneRequiredWithoutReturnsNestedInput
+  user?: Prisma.UserUpdateOneRequiredWithoutReturnRequestsNestedInput
+  refund?: Prisma.RefundUpdateOneWithoutReturnRequestNestedInput
+}
+
+export type ReturnRequestUncheckedUpdateWithoutStatusHistoryInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  orderId?: Prisma.StringFieldUpdateOperationsInput | string
+  orderItemId?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  reason?: Prisma.StringFieldUpdateOperationsInput | string
+  photos?: Prisma.ReturnRequestUpdatephotosInput | string[]
+  status?: Prisma.EnumReturnStatusFieldUpdateOperationsInput | $Enums.ReturnStatus
+  condition?: Prisma.NullableEnumReturnConditionFieldUpdateOperationsInput | $Enums.ReturnCondition | null
+  restocked?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  reviewedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  refund?: Prisma.RefundUncheckedUpdateOneWithoutReturnRequestNestedInput
+}
+
+export type ReturnRequestCreateWithoutRefundInput = {
+  id?: string
+  quantity: number
+  reason: string
+  photos?: Prisma.ReturnRequestCreatephotosInput | string[]
+  status?: $Enums.ReturnStatus
+  condition?: $Enums.ReturnCondition | null
+  restocked?: boolean
+  reviewedBy?: string | null
+  reviewedAt?: Date | string | null
+  reviewNote?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  order: Prisma.OrderCreateNestedOneWithoutReturnsInput
+  orderItem: Prisma.OrderItemCreateNestedOneWithoutReturnsInput
+  user: Prisma.UserCreateNestedOneWithoutReturnRequestsInput
+  statusHistory?: Prisma.OrderStatusHistoryCreateNestedManyWithoutReturnRequestInput
+}
+
+export type ReturnRequestUncheckedCreateWithoutRefundInput = {
+  id?: string
+  orderId: string
+  orderItemId: string
+  userId: string
+  quantity: number
+  reason: string
+  photos?: Prisma.ReturnRequestCreatephotosInput | string[]
+  status?: $Enums.ReturnStatus
+  condition?: $Enums.ReturnCondition | null
+  restocked?: boolean
+  reviewedBy?: string | null
+  reviewedAt?: Date | string | null
+  reviewNote?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  statusHistory?: Prisma.OrderStatusHistoryUncheckedCreateNestedManyWithoutReturnRequestInput
+}
+
+export type ReturnRequestCreateOrConnectWithoutRefundInput = {
+  where: Prisma.ReturnRequestWhereUniqueInput
+  create: Prisma.XOR<Prisma.ReturnRequestCreateWithoutRefundInput, Prisma.ReturnRequestUncheckedCreateWithoutRefundInput>
+}
+
+export type ReturnRequestUpsertWithoutRefundInput = {
+  update: Prisma.XOR<Prisma.ReturnRequestUpdateWithoutRefundInput, Prisma.ReturnRequestUncheckedUpdateWithoutRefundInput>
+  create: Prisma.XOR<Prisma.ReturnRequestCreateWithoutRefundInput, Prisma.ReturnRequestUncheckedCreateWithoutRefundInput>
+  where?: Prisma.ReturnRequestWhereInput
+}
+
+export type ReturnRequestUpdateToOneWithWhereWithoutRefundInput = {
+  where?: Prisma.ReturnRequestWhereInput
+  data: Prisma.XOR<Prisma.ReturnRequestUpdateWithoutRefundInput, Prisma.ReturnRequestUncheckedUpdateWithoutRefundInput>
+}
+
+export type ReturnRequestUpdateWithoutRefundInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  reason?: Prisma.StringFieldUpdateOperationsInput | string
+  photos?: Prisma.ReturnRequestUpdatephotosInput | string[]
+  status?: Prisma.EnumReturnStatusFieldUpdateOperationsInput | $Enums.ReturnStatus
+  condition?: Prisma.NullableEnumReturnConditionFieldUpdateOperationsInput | $Enums.ReturnCondition | null
+  restocked?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  reviewedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  order?: Prisma.OrderUpdateOneRequiredWithoutReturnsNestedInput
+  orderItem?: Prisma.OrderItemUpdateOneRequiredWithoutReturnsNestedInput
+  user?: Prisma.UserUpdateOneRequiredWithoutReturnRequestsNestedInput
+  statusHistory?: Prisma.OrderStatusHistoryUpdateManyWithoutReturnRequestNestedInput
+}
+
+export type ReturnRequestUncheckedUpdateWithoutRefundInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  orderId?: Prisma.StringFieldUpdateOperationsInput | string
+  orderItemId?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  reason?: Prisma.StringFieldUpdateOperationsInput | string
+  photos?: Prisma.ReturnRequestUpdatephotosInput | string[]
+  status?: Prisma.EnumReturnStatusFieldUpdateOperationsInput | $Enums.ReturnStatus
+  condition?: Prisma.NullableEnumReturnConditionFieldUpdateOperationsInput | $Enums.ReturnCondition | null
+  restocked?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  reviewedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  statusHistory?: Prisma.OrderStatusHistoryUncheckedUpdateManyWithoutReturnRequestNestedInput
+}
+
+export type ReturnRequestCreateWithoutUserInput = {
+  id?: string
+  quantity: number
+  reason: string
+  photos?: Prisma.ReturnRequestCreatephotosInput | string[]
+  status?: $Enums.ReturnStatus
+  condition?: $Enums.ReturnCondition | null
+  restocked?: boolean
+  reviewedBy?: string | null
+  reviewedAt?: Date | string | null
+  reviewNote?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  order: Prisma.OrderCreateNestedOneWithoutReturnsInput
+  orderItem: Prisma.OrderItemCreateNestedOneWithoutReturnsInput
+  refund?: Prisma.RefundCreateNestedOneWithoutReturnRequestInput
+  statusHistory?: Prisma.OrderStatusHistoryCreateNestedManyWithoutReturnRequestInput
+}
+
+export type ReturnRequestUncheckedCreateWithoutUserInput = {
+  id?: string
+  orderId: string
+  orderItemId: string
+  quantity: number
+  reason: string
+  photos?: Prisma.ReturnRequestCreatephotosInput | string[]
+  status?: $Enums.ReturnStatus
+  condition?: $Enums.ReturnCondition | null
+  restocked?: boolean
+  reviewedBy?: string | null
+  reviewedAt?: Date | string | null
+  reviewNote?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  refund?: Prisma.RefundUncheckedCreateNestedOneWithoutReturnRequestInput
+  statusHistory?: Prisma.OrderStatusHistoryUncheckedCreateNestedManyWithoutReturnRequestInput
+}
+
+export type ReturnRequestCreateOrConnectWithoutUserInput = {
+  where: Prisma.ReturnRequestWhereUniqueInput
+  create: Prisma.XOR<Prisma.ReturnRequestCreateWithoutUserInput, Prisma.ReturnRequestUncheckedCreateWithoutUserInput>
+}
+
+export type ReturnRequestCreateManyUserInputEnvelope = {
+  data: Prisma.ReturnRequestCreateManyUserInput | Prisma.ReturnRequestCreateManyUserInput[]
+  skipDuplicates?: boolean
+}
+
+export type ReturnRequestUpsertWithWhereUniqueWithoutUserInput = {
+  where: Prisma.ReturnRequestWhereUniqueInput
+  update: Prisma.XOR<Prisma.ReturnRequestUpdateWithoutUserInput, Prisma.ReturnRequestUncheckedUpdateWithoutUserInput>
+  create: Prisma.XOR<Prisma.ReturnRequestCreateWithoutUserInput, Prisma.ReturnRequestUncheckedCreateWithoutUserInput>
+}
+
+export type ReturnRequestUpdateWithWhereUniqueWithoutUserInput = {
+  where: Prisma.ReturnRequestWhereUniqueInput
+  data: Prisma.XOR<Prisma.ReturnRequestUpdateWithoutUserInput, Prisma.ReturnRequestUncheckedUpdateWithoutUserInput>
+}
+
+export type ReturnRequestUpdateManyWithWhereWithoutUserInput = {
+  where: Prisma.ReturnRequestScalarWhereInput
+  data: Prisma.XOR<Prisma.ReturnRequestUpdateManyMutationInput, Prisma.ReturnRequestUncheckedUpdateManyWithoutUserInput>
+}
+
+export type ReturnRequestCreateManyOrderInput = {
+  id?: string
+  orderItemId: string
+  userId: string
+  quantity: number
+  reason: string
+  photos?: Prisma.ReturnRequestCreatephotosInput | string[]
+  status?: $Enums.ReturnStatus
+  condition?: $Enums.ReturnCondition | null
+  restocked?: boolean
+  reviewedBy?: string | null
+  reviewedAt?: Date | string | null
+  reviewNote?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type ReturnRequestUpdateWithoutOrderInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  reason?: Prisma.StringFieldUpdateOperationsInput | string
+  photos?: Prisma.ReturnRequestUpdatephotosInput | string[]
+  status?: Prisma.EnumReturnStatusFieldUpdateOperationsInput | $Enums.ReturnStatus
+  condition?: Prisma.NullableEnumReturnConditionFieldUpdateOperationsInput | $Enums.ReturnCondition | null
+  restocked?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  reviewedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  orderItem?: Prisma.OrderItemUpdateOneRequiredWithoutReturnsNestedInput
+  user?: Prisma.UserUpdateOneRequiredWithoutReturnRequestsNestedInput
+  refund?: Prisma.RefundUpdateOneWithoutReturnRequestNestedInput
+  statusHistory?: Prisma.OrderStatusHistoryUpdateManyWithoutReturnRequestNestedInput
+}
+
+export type ReturnRequestUncheckedUpdateWithoutOrderInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  orderItemId?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  reason?: Prisma.StringFieldUpdateOperationsInput | string
+  photos?: Prisma.ReturnRequestUpdatephotosInput | string[]
+  status?: Prisma.EnumReturnStatusFieldUpdateOperationsInput | $Enums.ReturnStatus
+  condition?: Prisma.NullableEnumReturnConditionFieldUpdateOperationsInput | $Enums.ReturnCondition | null
+  restocked?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  reviewedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  refund?: Prisma.RefundUncheckedUpdateOneWithoutReturnRequestNestedInput
+  statusHistory?: Prisma.OrderStatusHistoryUncheckedUpdateManyWithoutReturnRequestNestedInput
+}
+
+export type ReturnRequestUncheckedUpdateManyWithoutOrderInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  orderItemId?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  reason?: Prisma.StringFieldUpdateOperationsInput | string
+  photos?: Prisma.ReturnRequestUpdatephotosInput | string[]
+  status?: Prisma.EnumReturnStatusFieldUpdateOperationsInput | $Enums.ReturnStatus
+  condition?: Prisma.NullableEnumReturnConditionFieldUpdateOperationsInput | $Enums.ReturnCondition | null
+  restocked?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  reviewedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ReturnRequestCreateManyOrderItemInput = {
+  id?: string
+  orderId: string
+  userId: string
+  quantity: number
+  reason: string
+  photos?: Prisma.ReturnRequestCreatephotosInput | string[]
+  status?: $Enums.ReturnStatus
+  condition?: $Enums.ReturnCondition | null
+  restocked?: boolean
+  reviewedBy?: string | null
+  reviewedAt?: Date | string | null
+  reviewNote?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type ReturnRequestUpdateWithoutOrderItemInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  reason?: Prisma.StringFieldUpdateOperationsInput | string
+  photos?: Prisma.ReturnRequestUpdatephotosInput | string[]
+  status?: Prisma.EnumReturnStatusFieldUpdateOperationsInput | $Enums.ReturnStatus
+  condition?: Prisma.NullableEnumReturnConditionFieldUpdateOperationsInput | $Enums.ReturnCondition | null
+  restocked?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  reviewedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  order?: Prisma.OrderUpdateOneRequiredWithoutReturnsNestedInput
+  user?: Prisma.UserUpdateOneRequiredWithoutReturnRequestsNestedInput
+  refund?: Prisma.RefundUpdateOneWithoutReturnRequestNestedInput
+  statusHistory?: Prisma.OrderStatusHistoryUpdateManyWithoutReturnRequestNestedInput
+}
+
+export type ReturnRequestUncheckedUpdateWithoutOrderItemInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  orderId?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  reason?: Prisma.StringFieldUpdateOperationsInput | string
+  photos?: Prisma.ReturnRequestUpdatephotosInput | string[]
+  status?: Prisma.EnumReturnStatusFieldUpdateOperationsInput | $Enums.ReturnStatus
+  condition?: Prisma.NullableEnumReturnConditionFieldUpdateOperationsInput | $Enums.ReturnCondition | null
+  restocked?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  reviewedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  refund?: Prisma.RefundUncheckedUpdateOneWithoutReturnRequestNestedInput
+  statusHistory?: Prisma.OrderStatusHistoryUncheckedUpdateManyWithoutReturnRequestNestedInput
+}
+
+export type ReturnRequestUncheckedUpdateManyWithoutOrderItemInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  orderId?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  reason?: Prisma.StringFieldUpdateOperationsInput | string
+  photos?: Prisma.ReturnRequestUpdatephotosInput | string[]
+  status?: Prisma.EnumReturnStatusFieldUpdateOperationsInput | $Enums.ReturnStatus
+  condition?: Prisma.NullableEnumReturnConditionFieldUpdateOperationsInput | $Enums.ReturnCondition | null
+  restocked?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  reviewedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ReturnRequestCreateManyUserInput = {
+  id?: string
+  orderId: string
+  orderItemId: string
+  quantity: number
+  reason: string
+  photos?: Prisma.ReturnRequestCreatephotosInput | string[]
+  status?: $Enums.ReturnStatus
+  condition?: $Enums.ReturnCondition | null
+  restocked?: boolean
+  reviewedBy?: string | null
+  reviewedAt?: Date | string | null
+  reviewNote?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type ReturnRequestUpdateWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  reason?: Prisma.StringFieldUpdateOperationsInput | string
+  photos?: Prisma.ReturnRequestUpdatephotosInput | string[]
+  status?: Prisma.EnumReturnStatusFieldUpdateOperationsInput | $Enums.ReturnStatus
+  condition?: Prisma.NullableEnumReturnConditionFieldUpdateOperationsInput | $Enums.ReturnCondition | null
+  restocked?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  reviewedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  order?: Prisma.OrderUpdateOneRequiredWithoutReturnsNestedInput
+  orderItem?: Prisma.OrderItemUpdateOneRequiredWithoutReturnsNestedInput
+  refund?: Prisma.RefundUpdateOneWithoutReturnRequestNestedInput
+  statusHistory?: Prisma.OrderStatusHistoryUpdateManyWithoutReturnRequestNestedInput
+}
+
+export type ReturnRequestUncheckedUpdateWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  orderId?: Prisma.StringFieldUpdateOperationsInput | string
+  orderItemId?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  reason?: Prisma.StringFieldUpdateOperationsInput | string
+  photos?: Prisma.ReturnRequestUpdatephotosInput | string[]
+  status?: Prisma.EnumReturnStatusFieldUpdateOperationsInput | $Enums.ReturnStatus
+  condition?: Prisma.NullableEnumReturnConditionFieldUpdateOperationsInput | $Enums.ReturnCondition | null
+  restocked?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  reviewedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  refund?: Prisma.RefundUncheckedUpdateOneWithoutReturnRequestNestedInput
+  statusHistory?: Prisma.OrderStatusHistoryUncheckedUpdateManyWithoutReturnRequestNestedInput
+}
+
+export type ReturnRequestUncheckedUpdateManyWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  orderId?: Prisma.StringFieldUpdateOperationsInput | string
+  orderItemId?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  reason?: Prisma.StringFieldUpdateOperationsInput | string
+  photos?: Prisma.ReturnRequestUpdatephotosInput | string[]
+  status?: Prisma.EnumReturnStatusFieldUpdateOperationsInput | $Enums.ReturnStatus
+  condition?: Prisma.NullableEnumReturnConditionFieldUpdateOperationsInput | $Enums.ReturnCondition | null
+  restocked?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  reviewedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+/**
+ * Count Type ReturnRequestCountOutputType
+ */
+
+export type ReturnRequestCountOutputType = {
+  statusHistory: number
+}
+
+export type ReturnRequestCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  statusHistory?: boolean | ReturnRequestCountOutputTypeCountStatusHistoryArgs
+}
+
+/**
+ * ReturnRequestCountOutputType without action
+ */
+export type ReturnRequestCountOutputTypeDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReturnRequestCountOutputType
+   */
+  select?: Prisma.ReturnRequestCountOutputTypeSelect<ExtArgs> | null
+}
+
+/**
+ * ReturnRequestCountOutputType without action
+ */
+export type ReturnRequestCountOutputTypeCountStatusHistoryArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.OrderStatusHistoryWhereInput
+}
+
+
+export type ReturnRequestSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  orderId?: boolean
+  orderItemId?: boolean
+  userId?: boolean
+  quantity?: boolean
+  reason?: boolean
+  photos?: boolean
+  status?: boolean
+  condition?: boolean
+  restocked?: boolean
+  reviewedBy?: boolean
+  reviewedAt?: boolean
+  reviewNote?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  order?: boolean | Prisma.OrderDefaultArgs<ExtArgs>
+  orderItem?: boolean | Prisma.OrderItemDefaultArgs<ExtArgs>
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  refund?: boolean | Prisma.ReturnRequest$refundArgs<ExtArgs>
+  statusHistory?: boolean | Prisma.ReturnRequest$statusHistoryArgs<ExtArgs>
+  _count?: boolean | Prisma.ReturnRequestCountOutputTypeDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["returnRequest"]>
+
+export type ReturnRequestSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  orderId?: boolean
+  orderItemId?: boolean
+  userId?: boolean
+  quantity?: boolean
+  reason?: boolean
+  photos?: boolean
+  status?: boolean
+  condition?: boolean
+  restocked?: boolean
+  reviewedBy?: boolean
+  reviewedAt?: boolean
+  reviewNote?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  order?: boolean | Prisma.OrderDefaultArgs<ExtArgs>
+  orderItem?: boolean | Prisma.OrderItemDefaultArgs<ExtArgs>
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["returnRequest"]>
+
+export type ReturnRequestSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  orderId?: boolean
+  orderItemId?: boolean
+  userId?: boolean
+  quantity?: boolean
+  reason?: boolean
+  photos?: boolean
+  status?: boolean
+  condition?: boolean
+  restocked?: boolean
+  reviewedBy?: boolean
+  reviewedAt?: boolean
+  reviewNote?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  order?: boolean | Prisma.OrderDefaultArgs<ExtArgs>
+  orderItem?: boolean | Prisma.OrderItemDefaultArgs<ExtArgs>
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["returnRequest"]>
+
+export type ReturnRequestSelectScalar = {
+  id?: boolean
+  orderId?: boolean
+  orderItemId?: boolean
+  userId?: boolean
+  quantity?: boolean
+  reason?: boolean
+  photos?: boolean
+  status?: boolean
+  condition?: boolean
+  restocked?: boolean
+  reviewedBy?: boolean
+  reviewedAt?: boolean
+  reviewNote?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}
+
+export type ReturnRequestOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "orderId" | "orderItemId" | "userId" | "quantity" | "reason" | "photos" | "status" | "condition" | "restocked" | "reviewedBy" | "reviewedAt" | "reviewNote" | "createdAt" | "updatedAt", ExtArgs["result"]["returnRequest"]>
+export type ReturnRequestInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  order?: boolean | Prisma.OrderDefaultArgs<ExtArgs>
+  orderItem?: boolean | Prisma.OrderItemDefaultArgs<ExtArgs>
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  refund?: boolean | Prisma.ReturnRequest$refundArgs<ExtArgs>
+  statusHistory?: boolean | Prisma.ReturnRequest$statusHistoryArgs<ExtArgs>
+  _count?: boolean | Prisma.ReturnRequestCountOutputTypeDefaultArgs<ExtArgs>
+}
+export type ReturnRequestIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  order?: boolean | Prisma.OrderDefaultArgs<ExtArgs>
+  orderItem?: boolean | Prisma.OrderItemDefaultArgs<ExtArgs>
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+export type ReturnRequestIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  order?: boolean | Prisma.OrderDefaultArgs<ExtArgs>
+  orderItem?: boolean | Prisma.OrderItemDefaultArgs<ExtArgs>
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+
+export type $ReturnRequestPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "ReturnRequest"
+  objects: {
+    order: Prisma.$OrderPayload<ExtArgs>
+    orderItem: Prisma.$OrderItemPayload<ExtArgs>
+    user: Prisma.$UserPayload<ExtArgs>
+    refund: Prisma.$RefundPayload<ExtArgs> | null
+    statusHistory: Prisma.$OrderStatusHistoryPayload<ExtArgs>[]
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    orderId: string
+    orderItemId: string
+    userId: string
+    quantity: number
+    reason: string
+    photos: string[]
+    status: $Enums.ReturnStatus
+    condition: $Enums.ReturnCondition | null
+    restocked: boolean
+    reviewedBy: string | null
+    reviewedAt: Date | null
+    reviewNote: string | null
+    createdAt: Date
+    updatedAt: Date
+  }, ExtArgs["result"]["returnRequest"]>
+  composites: {}
+}
+
+export type ReturnRequestGetPayload<S extends boolean | null | undefined | ReturnRequestDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$ReturnRequestPayload, S>
+
+export type ReturnRequestCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<ReturnRequestFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: ReturnRequestCountAggregateInputType | true
+  }
+
+export interface ReturnRequestDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['ReturnRequest'], meta: { name: 'ReturnRequest' } }
+  /**
+   * Find zero or one ReturnRequest that matches the filter.
+   * @param {ReturnRequestFindUniqueArgs} args - Arguments to find a ReturnRequest
+   * @example
+   * // Get one ReturnRequest
+   * const returnRequest = await prisma.returnRequest.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends ReturnRequestFindUniqueArgs>(args: Prisma.SelectSubset<T, ReturnRequestFindUniqueArgs<ExtArgs>>): Prisma.Prisma__ReturnRequestClient<runtime.Types.Result.GetResult<Prisma.$ReturnRequestPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one ReturnRequest that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {ReturnRequestFindUniqueOrThrowArgs} args - Arguments to find a ReturnRequest
+   * @example
+   * // Get one ReturnRequest
+   * const returnRequest = await prisma.returnRequest.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends ReturnRequestFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, ReturnRequestFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__ReturnRequestClient<runtime.Types.Result.GetResult<Prisma.$ReturnRequestPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ReturnRequest that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ReturnRequestFindFirstArgs} args - Arguments to find a ReturnRequest
+   * @example
+   * // Get one ReturnRequest
+   * const returnRequest = await prisma.returnRequest.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends ReturnRequestFindFirstArgs>(args?: Prisma.SelectSubset<T, ReturnRequestFindFirstArgs<ExtArgs>>): Prisma.Prisma__ReturnRequestClient<runtime.Types.Result.GetResult<Prisma.$ReturnRequestPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ReturnRequest that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ReturnRequestFindFirstOrThrowArgs} args - Arguments to find a ReturnRequest
+   * @example
+   * // Get one ReturnRequest
+   * const returnRequest = await prisma.returnRequest.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends ReturnRequestFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, ReturnRequestFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__ReturnRequestClient<runtime.Types.Result.GetResult<Prisma.$ReturnRequestPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more ReturnRequests that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ReturnRequestFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all ReturnRequests
+   * const returnRequests = await prisma.returnRequest.findMany()
+   * 
+   * // Get first 10 ReturnRequests
+   * const returnRequests = await prisma.returnRequest.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const returnRequestWithIdOnly = await prisma.returnRequest.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends ReturnRequestFindManyArgs>(args?: Prisma.SelectSubset<T, ReturnRequestFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ReturnRequestPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a ReturnRequest.
+   * @param {ReturnRequestCreateArgs} args - Arguments to create a ReturnRequest.
+   * @example
+   * // Create one ReturnRequest
+   * const ReturnRequest = await prisma.returnRequest.create({
+   *   data: {
+   *     // ... data to create a ReturnRequest
+   *   }
+   * })
+   * 
+   */
+  create<T extends ReturnRequestCreateArgs>(args: Prisma.SelectSubset<T, ReturnRequestCreateArgs<ExtArgs>>): Prisma.Prisma__ReturnRequestClient<runtime.Types.Result.GetResult<Prisma.$ReturnRequestPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many ReturnRequests.
+   * @param {ReturnRequestCreateManyArgs} args - Arguments to create many ReturnRequests.
+   * @example
+   * // Create many ReturnRequests
+   * const returnRequest = await prisma.returnRequest.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends ReturnRequestCreateManyArgs>(args?: Prisma.SelectSubset<T, ReturnRequestCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many ReturnRequests and returns the data saved in the database.
+   * @param {ReturnRequestCreateManyAndReturnArgs} args - Arguments to create many ReturnRequests.
+   * @example
+   * // Create many ReturnRequests
+   * const returnRequest = await prisma.returnRequest.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many ReturnRequests and only return the `id`
+   * const returnRequestWithIdOnly = await prisma.returnRequest.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends ReturnRequestCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, ReturnRequestCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ReturnRequestPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a ReturnRequest.
+   * @param {ReturnRequestDeleteArgs} args - Arguments to delete one ReturnRequest.
+   * @example
+   * // Delete one ReturnRequest
+   * const ReturnRequest = await prisma.returnRequest.delete({
+   *   where: {
+   *     // ... filter to delete one ReturnRequest
+   *   }
+   * })
+   * 
+   */
+  delete<T extends ReturnRequestDeleteArgs>(args: Prisma.SelectSubset<T, ReturnRequestDeleteArgs<ExtArgs>>): Prisma.Prisma__ReturnRequestClient<runtime.Types.Result.GetResult<Prisma.$ReturnRequestPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one ReturnRequest.
+   * @param {ReturnRequestUpdateArgs} args - Arguments to update one ReturnRequest.
+   * @example
+   * // Update one ReturnRequest
+   * const returnRequest = await prisma.returnRequest.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends ReturnRequestUpdateArgs>(args: Prisma.SelectSubset<T, ReturnRequestUpdateArgs<ExtArgs>>): Prisma.Prisma__ReturnRequestClient<runtime.Types.Result.GetResult<Prisma.$ReturnRequestPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more ReturnRequests.
+   * @param {ReturnRequestDeleteManyArgs} args - Arguments to filter ReturnRequests to delete.
+   * @example
+   * // Delete a few ReturnRequests
+   * const { count } = await prisma.returnRequest.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends ReturnRequestDeleteManyArgs>(args?: Prisma.SelectSubset<T, ReturnRequestDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ReturnRequests.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ReturnRequestUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many ReturnRequests
+   * const returnRequest = await prisma.returnRequest.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends ReturnRequestUpdateManyArgs>(args: Prisma.SelectSubset<T, ReturnRequestUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ReturnRequests and returns the data updated in the database.
+   * @param {ReturnRequestUpdateManyAndReturnArgs} args - Arguments to update many ReturnRequests.
+   * @example
+   * // Update many ReturnRequests
+   * const returnRequest = await prisma.returnRequest.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more ReturnRequests and only return the `id`
+   * const returnRequestWithIdOnly = await prisma.returnRequest.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends ReturnRequestUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, ReturnRequestUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ReturnRequestPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one ReturnRequest.
+   * @param {ReturnRequestUpsertArgs} args - Arguments to update or create a ReturnRequest.
+   * @example
+   * // Update or create a ReturnRequest
+   * const returnRequest = await prisma.returnRequest.upsert({
+   *   create: {
+   *     // ... data to create a ReturnRequest
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the ReturnRequest we want to update
+   *   }
+   * })
+   */
+  upsert<T extends ReturnRequestUpsertArgs>(args: Prisma.SelectSubset<T, ReturnRequestUpsertArgs<ExtArgs>>): Prisma.Prisma__ReturnRequestClient<runtime.Types.Result.GetResult<Prisma.$ReturnRequestPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of ReturnRequests.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ReturnRequestCountArgs} args - Arguments to filter ReturnRequests to count.
+   * @example
+   * // Count the number of ReturnRequests
+   * const count = await prisma.returnRequest.count({
+   *   where: {
+   *     // ... the filter for the ReturnRequests we want to count
+   *   }
+   * })
+  **/
+  count<T extends ReturnRequestCountArgs>(
+    args?: Prisma.Subset<T, ReturnRequestCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], ReturnRequestCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a ReturnRequest.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ReturnRequestAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends ReturnRequestAggregateArgs>(args: Prisma.Subset<T, ReturnRequestAggregateArgs>): Prisma.PrismaPromise<GetReturnRequestAggregateType<T>>
+
+  /**
+   * Group by ReturnRequest.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ReturnRequestGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends ReturnRequestGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: ReturnRequestGroupByArgs['orderBy'] }
+      : { orderBy?: ReturnRequestGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, ReturnRequestGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetReturnRequestGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the ReturnRequest model
+ */
+readonly fields: ReturnRequestFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for ReturnRequest.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__ReturnRequestClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  order<T extends Prisma.OrderDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.OrderDefaultArgs<ExtArgs>>): Prisma.Prisma__OrderClient<runtime.Types.Result.GetResult<Prisma.$OrderPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  orderItem<T extends Prisma.OrderItemDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.OrderItemDefaultArgs<ExtArgs>>): Prisma.Prisma__OrderItemClient<runtime.Types.Result.GetResult<Prisma.$OrderItemPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  user<T extends Prisma.UserDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.UserDefaultArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  refund<T extends Prisma.ReturnRequest$refundArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ReturnRequest$refundArgs<ExtArgs>>): Prisma.Prisma__RefundClient<runtime.Types.Result.GetResult<Prisma.$RefundPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  statusHistory<T extends Prisma.ReturnRequest$statusHistoryArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ReturnRequest$statusHistoryArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$OrderStatusHistoryPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the ReturnRequest model
+ */
+export interface ReturnRequestFieldRefs {
+  readonly id: Prisma.FieldRef<"ReturnRequest", 'String'>
+  readonly orderId: Prisma.FieldRef<"ReturnRequest", 'String'>
+  readonly orderItemId: Prisma.FieldRef<"ReturnRequest", 'String'>
+  readonly userId: Prisma.FieldRef<"ReturnRequest", 'String'>
+  readonly quantity: Prisma.FieldRef<"ReturnRequest", 'Int'>
+  readonly reason: Prisma.FieldRef<"ReturnRequest", 'String'>
+  readonly photos: Prisma.FieldRef<"ReturnRequest", 'String[]'>
+  readonly status: Prisma.FieldRef<"ReturnRequest", 'ReturnStatus'>
+  readonly condition: Prisma.FieldRef<"ReturnRequest", 'ReturnCondition'>
+  readonly restocked: Prisma.FieldRef<"ReturnRequest", 'Boolean'>
+  readonly reviewedBy: Prisma.FieldRef<"ReturnRequest", 'String'>
+  readonly reviewedAt: Prisma.FieldRef<"ReturnRequest", 'DateTime'>
+  readonly reviewNote: Prisma.FieldRef<"ReturnRequest", 'String'>
+  readonly createdAt: Prisma.FieldRef<"ReturnRequest", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"ReturnRequest", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * ReturnRequest findUnique
+ */
+export type ReturnRequestFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReturnRequest
+   */
+  select?: Prisma.ReturnRequestSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReturnRequest
+   */
+  omit?: Prisma.ReturnRequestOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ReturnRequestInclude<ExtArgs> | null
+  /**
+   * Filter, which ReturnRequest to fetch.
+   */
+  where: Prisma.ReturnRequestWhereUniqueInput
+}
+
+/**
+ * ReturnRequest findUniqueOrThrow
+ */
+export type ReturnRequestFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReturnRequest
+   */
+  select?: Prisma.ReturnRequestSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReturnRequest
+   */
+  omit?: Prisma.ReturnRequestOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ReturnRequestInclude<ExtArgs> | null
+  /**
+   * Filter, which ReturnRequest to fetch.
+   */
+  where: Prisma.ReturnRequestWhereUniqueInput
+}
+
+/**
+ * ReturnRequest findFirst
+ */
+export type ReturnRequestFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReturnRequest
+   */
+  select?: Prisma.ReturnRequestSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReturnRequest
+   */
+  omit?: Prisma.ReturnRequestOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ReturnRequestInclude<ExtArgs> | null
+  /**
+   * Filter, which ReturnRequest to fetch.
+   */
+  where?: Prisma.ReturnRequestWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ReturnRequests to fetch.
+   */
+  orderBy?: Prisma.ReturnRequestOrderByWithRelationInput | Prisma.ReturnRequestOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ReturnRequests.
+   */
+  cursor?: Prisma.ReturnRequestWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ReturnRequests from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ReturnRequests.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ReturnRequests.
+   */
+  distinct?: Prisma.ReturnRequestScalarFieldEnum | Prisma.ReturnRequestScalarFieldEnum[]
+}
+
+/**
+ * ReturnRequest findFirstOrThrow
+ */
+export type ReturnRequestFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReturnRequest
+   */
+  select?: Prisma.ReturnRequestSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReturnRequest
+   */
+  omit?: Prisma.ReturnRequestOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ReturnRequestInclude<ExtArgs> | null
+  /**
+   * Filter, which ReturnRequest to fetch.
+   */
+  where?: Prisma.ReturnRequestWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ReturnRequests to fetch.
+   */
+  orderBy?: Prisma.ReturnRequestOrderByWithRelationInput | Prisma.ReturnRequestOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ReturnRequests.
+   */
+  cursor?: Prisma.ReturnRequestWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ReturnRequests from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ReturnRequests.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ReturnRequests.
+   */
+  distinct?: Prisma.ReturnRequestScalarFieldEnum | Prisma.ReturnRequestScalarFieldEnum[]
+}
+
+/**
+ * ReturnRequest findMany
+ */
+export type ReturnRequestFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReturnRequest
+   */
+  select?: Prisma.ReturnRequestSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReturnRequest
+   */
+  omit?: Prisma.ReturnRequestOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ReturnRequestInclude<ExtArgs> | null
+  /**
+   * Filter, which ReturnRequests to fetch.
+   */
+  where?: Prisma.ReturnRequestWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ReturnRequests to fetch.
+   */
+  orderBy?: Prisma.ReturnRequestOrderByWithRelationInput | Prisma.ReturnRequestOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing ReturnRequests.
+   */
+  cursor?: Prisma.ReturnRequestWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ReturnRequests from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ReturnRequests.
+   */
+  skip?: number
+  distinct?: Prisma.ReturnRequestScalarFieldEnum | Prisma.ReturnRequestScalarFieldEnum[]
+}
+
+/**
+ * ReturnRequest create
+ */
+export type ReturnRequestCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReturnRequest
+   */
+  select?: Prisma.ReturnRequestSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReturnRequest
+   */
+  omit?: Prisma.ReturnRequestOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ReturnRequestInclude<ExtArgs> | null
+  /**
+   * The data needed to create a ReturnRequest.
+   */
+  data: Prisma.XOR<Prisma.ReturnRequestCreateInput, Prisma.ReturnRequestUncheckedCreateInput>
+}
+
+/**
+ * ReturnRequest createMany
+ */
+export type ReturnRequestCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many ReturnRequests.
+   */
+  data: Prisma.ReturnRequestCreateManyInput | Prisma.ReturnRequestCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * ReturnRequest createManyAndReturn
+ */
+export type ReturnRequestCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReturnRequest
+   */
+  select?: Prisma.ReturnRequestSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReturnRequest
+   */
+  omit?: Prisma.ReturnRequestOmit<ExtArgs> | null
+  /**
+   * The data used to create many ReturnRequests.
+   */
+  data: Prisma.ReturnRequestCreateManyInput | Prisma.ReturnRequestCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ReturnRequestIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * ReturnRequest update
+ */
+export type ReturnRequestUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReturnRequest
+   */
+  select?: Prisma.ReturnRequestSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReturnRequest
+   */
+  omit?: Prisma.ReturnRequestOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ReturnRequestInclude<ExtArgs> | null
+  /**
+   * The data needed to update a ReturnRequest.
+   */
+  data: Prisma.XOR<Prisma.ReturnRequestUpdateInput, Prisma.ReturnRequestUncheckedUpdateInput>
+  /**
+   * Choose, which ReturnRequest to update.
+   */
+  where: Prisma.ReturnRequestWhereUniqueInput
+}
+
+/**
+ * ReturnRequest updateMany
+ */
+export type ReturnRequestUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update ReturnRequests.
+   */
+  data: Prisma.XOR<Prisma.ReturnRequestUpdateManyMutationInput, Prisma.ReturnRequestUncheckedUpdateManyInput>
+  /**
+   * Filter which ReturnRequests to update
+   */
+  where?: Prisma.ReturnRequestWhereInput
+  /**
+   * Limit how many ReturnRequests to update.
+   */
+  limit?: number
+}
+
+/**
+ * ReturnRequest updateManyAndReturn
+ */
+export type ReturnRequestUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReturnRequest
+   */
+  select?: Prisma.ReturnRequestSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReturnRequest
+   */
+  omit?: Prisma.ReturnRequestOmit<ExtArgs> | null
+  /**
+   * The data used to update ReturnRequests.
+   */
+  data: Prisma.XOR<Prisma.ReturnRequestUpdateManyMutationInput, Prisma.ReturnRequestUncheckedUpdateManyInput>
+  /**
+   * Filter which ReturnRequests to update
+   */
+  where?: Prisma.ReturnRequestWhereInput
+  /**
+   * Limit how many ReturnRequests to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ReturnRequestIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * ReturnRequest upsert
+ */
+export type ReturnRequestUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReturnRequest
+   */
+  select?: Prisma.ReturnRequestSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReturnRequest
+   */
+  omit?: Prisma.ReturnRequestOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ReturnRequestInclude<ExtArgs> | null
+  /**
+   * The filter to search for the ReturnRequest to update in case it exists.
+   */
+  where: Prisma.ReturnRequestWhereUniqueInput
+  /**
+   * In case the ReturnRequest found by the `where` argument doesn't exist, create a new ReturnRequest with this data.
+   */
+  create: Prisma.XOR<Prisma.ReturnRequestCreateInput, Prisma.ReturnRequestUncheckedCreateInput>
+  /**
+   * In case the ReturnRequest was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.ReturnRequestUpdateInput, Prisma.ReturnRequestUncheckedUpdateInput>
+}
+
+/**
+ * ReturnRequest delete
+ */
+export type ReturnRequestDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReturnRequest
+   */
+  select?: Prisma.ReturnRequestSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReturnRequest
+   */
+  omit?: Prisma.ReturnRequestOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ReturnRequestInclude<ExtArgs> | null
+  /**
+   * Filter which ReturnRequest to delete.
+   */
+  where: Prisma.ReturnRequestWhereUniqueInput
+}
+
+/**
+ * ReturnRequest deleteMany
+ */
+export type ReturnRequestDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ReturnRequests to delete
+   */
+  where?: Prisma.ReturnRequestWhereInput
+  /**
+   * Limit how many ReturnRequests to delete.
+   */
+  limit?: number
+}
+
+/**
+ * ReturnRequest.refund
+ */
+export type ReturnRequest$refundArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Refund
+   */
+  select?: Prisma.RefundSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Refund
+   */
+  omit?: Prisma.RefundOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RefundInclude<ExtArgs> | null
+  where?: Prisma.RefundWhereInput
+}
+
+/**
+ * ReturnRequest.statusHistory
+ */
+export type ReturnRequest$statusHistoryArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OrderStatusHistory
+   */
+  select?: Prisma.OrderStatusHistorySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OrderStatusHistory
+   */
+  omit?: Prisma.OrderStatusHistoryOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OrderStatusHistoryInclude<ExtArgs> | null
+  where?: Prisma.OrderStatusHistoryWhereInput
+  orderBy?: Prisma.OrderStatusHistoryOrderByWithRelationInput | Prisma.OrderStatusHistoryOrderByWithRelationInput[]
+  cursor?: Prisma.OrderStatusHistoryWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.OrderStatusHistoryScalarFieldEnum | Prisma.OrderStatusHistoryScalarFieldEnum[]
+}
+
+/**
+ * ReturnRequest without action
+ */
+export type ReturnRequestDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReturnRequest
+   */
+  select?: Prisma.ReturnRequestSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReturnRequest
+   */
+  omit?: Prisma.ReturnRequestOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ReturnRequestInclude<ExtArgs> | null
+}
@@ -0,0 +1,1791 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `SellerApplication` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model SellerApplication
+ * 
+ */
+export type SellerApplicationModel = runtime.Types.Result.DefaultSelection<Prisma.$SellerApplicationPayload>
+
+export type AggregateSellerApplication = {
+  _count: SellerApplicationCountAggregateOutputType | null
+  _min: SellerApplicationMinAggregateOutputType | null
+  _max: SellerApplicationMaxAggregateOutputType | null
+}
+
+export type SellerApplicationMinAggregateOutputType = {
+  id: string | null
+  userId: string | null
+  businessName: string | null
+  tradeLicenseNumber: string | null
+  pharmacyLicenseNumber: string | null
+  licenseExpiresAt: Date | null
+  status: $Enums.SellerApplicationStatus | null
+  reviewedBy: string | null
+  reviewedAt: Date | null
+  reviewNote: string | null
+  submittedAt: Date | null
+  suspendedAt: Date | null
+  createdAt: Date | null
+  updatedAt: Date | null
+  approvedUntil: Date | null
+}
+
+export type SellerApplicationMaxAggregateOutputType = {
+  id: string | null
+  userId: string | null
+  businessName: string | null
+  tradeLicenseNumber: string | null
+  pharmacyLicenseNumber: string | null
+  licenseExpiresAt: Date | null
+  status: $Enums.SellerApplicationStatus | null
+  reviewedBy: string | null
+  reviewedAt: Date | null
+  reviewNote: string | null
+  submittedAt: Date | null
+  suspendedAt: Date | null
+  createdAt: Date | null
+  updatedAt: Date | null
+  approvedUntil: Date | null
+}
+
+export type SellerApplicationCountAggregateOutputType = {
+  id: number
+  userId: number
+  businessName: number
+  tradeLicenseNumber: number
+  pharmacyLicenseNumber: number
+  licenseExpiresAt: number
+  status: number
+  reviewedBy: number
+  reviewedAt: number
+  reviewNote: number
+  submittedAt: number
+  suspendedAt: number
+  createdAt: number
+  updatedAt: number
+  approvedUntil: number
+  _all: number
+}
+
+
+export type SellerApplicationMinAggregateInputType = {
+  id?: true
+  userId?: true
+  businessName?: true
+  tradeLicenseNumber?: true
+  pharmacyLicenseNumber?: true
+  licenseExpiresAt?: true
+  status?: true
+  reviewedBy?: true
+  reviewedAt?: true
+  reviewNote?: true
+  submittedAt?: true
+  suspendedAt?: true
+  createdAt?: true
+  updatedAt?: true
+  approvedUntil?: true
+}
+
+export type SellerApplicationMaxAggregateInputType = {
+  id?: true
+  userId?: true
+  businessName?: true
+  tradeLicenseNumber?: true
+  pharmacyLicenseNumber?: true
+  licenseExpiresAt?: true
+  status?: true
+  reviewedBy?: true
+  reviewedAt?: true
+  reviewNote?: true
+  submittedAt?: true
+  suspendedAt?: true
+  createdAt?: true
+  updatedAt?: true
+  approvedUntil?: true
+}
+
+export type SellerApplicationCountAggregateInputType = {
+  id?: true
+  userId?: true
+  businessName?: true
+  tradeLicenseNumber?: true
+  pharmacyLicenseNumber?: true
+  licenseExpiresAt?: true
+  status?: true
+  reviewedBy?: true
+  reviewedAt?: true
+  reviewNote?: true
+  submittedAt?: true
+  suspendedAt?: true
+  createdAt?: true
+  updatedAt?: true
+  approvedUntil?: true
+  _all?: true
+}
+
+export type SellerApplicationAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which SellerApplication to aggregate.
+   */
+  where?: Prisma.SellerApplicationWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of SellerApplications to fetch.
+   */
+  orderBy?: Prisma.SellerApplicationOrderByWithRelationInput | Prisma.SellerApplicationOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.SellerApplicationWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` SellerApplications from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` SellerApplications.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned SellerApplications
+  **/
+  _count?: true | SellerApplicationCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: SellerApplicationMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: SellerApplicationMaxAggregateInputType
+}
+
+export type GetSellerApplicationAggregateType<T extends SellerApplicationAggregateArgs> = {
+      [P in keyof T & keyof AggregateSellerApplication]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateSellerApplication[P]>
+    : Prisma.GetScalarType<T[P], AggregateSellerApplication[P]>
+}
+
+
+
+
+export type SellerApplicationGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.SellerApplicationWhereInput
+  orderBy?: Prisma.SellerApplicationOrderByWithAggregationInput | Prisma.SellerApplicationOrderByWithAggregationInput[]
+  by: Prisma.SellerApplicationScalarFieldEnum[] | Prisma.SellerApplicationScalarFieldEnum
+  having?: Prisma.SellerApplicationScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: SellerApplicationCountAggregateInputType | true
+  _min?: SellerApplicationMinAggregateInputType
+  _max?: SellerApplicationMaxAggregateInputType
+}
+
+export type SellerApplicationGroupByOutputType = {
+  id: string
+  userId: string
+  businessName: string
+  tradeLicenseNumber: string
+  pharmacyLicenseNumber: string
+  licenseExpiresAt: Date
+  status: $Enums.SellerApplicationStatus
+  reviewedBy: string | null
+  reviewedAt: Date | null
+  reviewNote: string | null
+  submittedAt: Date
+  suspendedAt: Date | null
+  createdAt: Date
+  updatedAt: Date
+  approvedUntil: Date | null
+  _count: SellerApplicationCountAggregateOutputType | null
+  _min: SellerApplicationMinAggregateOutputType | null
+  _max: SellerApplicationMaxAggregateOutputType | null
+}
+
+type GetSellerApplicationGroupByPayload<T extends SellerApplicationGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<SellerApplicationGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof SellerApplicationGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], SellerApplicationGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], SellerApplicationGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type SellerApplicationWhereInput = {
+  AND?: Prisma.SellerApplicationWhereInput | Prisma.SellerApplicationWhereInput[]
+  OR?: Prisma.SellerApplicationWhereInput[]
+  NOT?: Prisma.SellerApplicationWhereInput | Prisma.SellerApplicationWhereInput[]
+  id?: Prisma.StringFilter<"SellerApplication"> | string
+  userId?: Prisma.StringFilter<"SellerApplication"> | string
+  businessName?: Prisma.StringFilter<"SellerApplication"> | string
+  tradeLicenseNumber?: Prisma.StringFilter<"SellerApplication"> | string
+  pharmacyLicenseNumber?: Prisma.StringFilter<"SellerApplication"> | string
+  licenseExpiresAt?: Prisma.DateTimeFilter<"SellerApplication"> | Date | string
+  status?: Prisma.EnumSellerApplicationStatusFilter<"SellerApplication"> | $Enums.SellerApplicationStatus
+  reviewedBy?: Prisma.StringNullableFilter<"SellerApplication"> | string | null
+  reviewedAt?: Prisma.DateTimeNullableFilter<"SellerApplication"> | Date | string | null
+  reviewNote?: Prisma.StringNullableFilter<"SellerApplication"> | string | null
+  submittedAt?: Prisma.DateTimeFilter<"SellerApplication"> | Date | string
+  suspendedAt?: Prisma.DateTimeNullableFilter<"SellerApplication"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"SellerApplication"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"SellerApplication"> | Date | string
+  approvedUntil?: Prisma.DateTimeNullableFilter<"SellerApplication"> | Date | string | null
+  user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+  documents?: Prisma.SellerDocumentListRelationFilter
+}
+
+export type SellerApplicationOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  businessName?: Prisma.SortOrder
+  tradeLicenseNumber?: Prisma.SortOrder
+  pharmacyLicenseNumber?: Prisma.SortOrder
+  licenseExpiresAt?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  reviewedBy?: Prisma.SortOrderInput | Prisma.SortOrder
+  reviewedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  reviewNote?: Prisma.SortOrderInput | Prisma.SortOrder
+  submittedAt?: Prisma.SortOrder
+  suspendedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  approvedUntil?: Prisma.SortOrderInput | Prisma.SortOrder
+  user?: Prisma.UserOrderByWithRelationInput
+  documents?: Prisma.SellerDocumentOrderByRelationAggregateInput
+}
+
+export type SellerApplicationWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  userId?: string
+  AND?: Prisma.SellerApplicationWhereInput | Prisma.SellerApplicationWhereInput[]
+  OR?: Prisma.SellerApplicationWhereInput[]
+  NOT?: Prisma.SellerApplicationWhereInput | Prisma.SellerApplicationWhereInput[]
+  businessName?: Prisma.StringFilter<"SellerApplication"> | string
+  tradeLicenseNumber?: Prisma.StringFilter<"SellerApplication"> | string
+  pharmacyLicenseNumber?: Prisma.StringFilter<"SellerApplication"> | string
+  licenseExpiresAt?: Prisma.DateTimeFilter<"SellerApplication"> | Date | string
+  status?: Prisma.EnumSellerApplicationStatusFilter<"SellerApplication"> | $Enums.SellerApplicationStatus
+  reviewedBy?: Prisma.StringNullableFilter<"SellerApplication"> | string | null
+  reviewedAt?: Prisma.DateTimeNullableFilter<"SellerApplication"> | Date | string | null
+  reviewNote?: Prisma.StringNullableFilter<"SellerApplication"> | string | null
+  submittedAt?: Prisma.DateTimeFilter<"SellerApplication"> | Date | string
+  suspendedAt?: Prisma.DateTimeNullableFilter<"SellerApplication"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"SellerApplication"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"SellerApplication"> | Date | string
+  approvedUntil?: Prisma.DateTimeNullableFilter<"SellerApplication"> | Date | string | null
+  user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+  documents?: Prisma.SellerDocumentListRelationFilter
+}, "id" | "userId">
+
+export type SellerApplicationOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  businessName?: Prisma.SortOrder
+  tradeLicenseNumber?: Prisma.SortOrder
+  pharmacyLicenseNumber?: Prisma.SortOrder
+  licenseExpiresAt?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  reviewedBy?: Prisma.SortOrderInput | Prisma.SortOrder
+  reviewedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  reviewNote?: Prisma.SortOrderInput | Prisma.SortOrder
+  submittedAt?: Prisma.SortOrder
+  suspendedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  approvedUntil?: Prisma.SortOrderInput | Prisma.SortOrder
+  _count?: Prisma.SellerApplicationCountOrderByAggregateInput
+  _max?: Prisma.SellerApplicationMaxOrderByAggregateInput
+  _min?: Prisma.SellerApplicationMinOrderByAggregateInput
+}
+
+export type SellerApplicationScalarWhereWithAggregatesInput = {
+  AND?: Prisma.SellerApplicationScalarWhereWithAggregatesInput | Prisma.SellerApplicationScalarWhereWithAggregatesInput[]
+  OR?: Prisma.SellerApplicationScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.SellerApplicationScalarWhereWithAggregatesInput | Prisma.SellerApplicationScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"SellerApplication"> | string
+  userId?: Prisma.StringWithAggregatesFilter<"SellerApplication"> | string
+  businessName?: Prisma.StringWithAggregatesFilter<"SellerApplication"> | string
+  tradeLicenseNumber?: Prisma.StringWithAggregatesFilter<"SellerApplication"> | string
+  pharmacyLicenseNumber?: Prisma.StringWithAggregatesFilter<"SellerApplication"> | string
+  licenseExpiresAt?: Prisma.DateTimeWithAggregatesFilter<"SellerApplication"> | Date | string
+  status?: Prisma.EnumSellerApplicationStatusWithAggregatesFilter<"SellerApplication"> | $Enums.SellerApplicationStatus
+  reviewedBy?: Prisma.StringNullableWithAggregatesFilter<"SellerApplication"> | string | null
+  reviewedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"SellerApplication"> | Date | string | null
+  reviewNote?: Prisma.StringNullableWithAggregatesFilter<"SellerApplication"> | string | null
+  submittedAt?: Prisma.DateTimeWithAggregatesFilter<"SellerApplication"> | Date | string
+  suspendedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"SellerApplication"> | Date | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"SellerApplication"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"SellerApplication"> | Date | string
+  approvedUntil?: Prisma.DateTimeNullableWithAggregatesFilter<"SellerApplication"> | Date | string | null
+}
+
+export type SellerApplicationCreateInput = {
+  id?: string
+  businessName: string
+  tradeLicenseNumber: string
+  pharmacyLicenseNumber: string
+  licenseExpiresAt: Date | string
+  status?: $Enums.SellerApplicationStatus
+  reviewedBy?: string | null
+  reviewedAt?: Date | string | null
+  reviewNote?: string | null
+  submittedAt?: Date | string
+  suspendedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  approvedUntil?: Date | string | null
+  user: Prisma.UserCreateNestedOneWithoutSellerApplicationInput
+  documents?: Prisma.SellerDocumentCreateNestedManyWithoutApplicationInput
+}
+
+export type SellerApplicationUncheckedCreateInput = {
+  id?: string
+  userId: string
+  businessName: string
+  tradeLicenseNumber: string
+  pharmacyLicenseNumber: string
+  licenseExpiresAt: Date | string
+  status?: $Enums.SellerApplicationStatus
+  reviewedBy?: string | null
+  reviewedAt?: Date | string | null
+  reviewNote?: string | null
+  submittedAt?: Date | string
+  suspendedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  approvedUntil?: Date | string | null
+  documents?: Prisma.SellerDocumentUncheckedCreateNestedManyWithoutApplicationInput
+}
+
+export type SellerApplicationUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  businessName?: Prisma.StringFieldUpdateOperationsInput | string
+  tradeLicenseNumber?: Prisma.StringFieldUpdateOperationsInput | string
+  pharmacyLicenseNumber?: Prisma.StringFieldUpdateOperationsInput | string
+  licenseExpiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  status?: Prisma.EnumSellerApplicationStatusFieldUpdateOperationsInput | $Enums.SellerApplicationStatus
+  reviewedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  submittedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  suspendedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  approvedUntil?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  user?: Prisma.UserUpdateOneRequiredWithoutSellerApplicationNestedInput
+  documents?: Prisma.SellerDocumentUpdateManyWithoutApplicationNestedInput
+}
+
+export type SellerApplicationUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  businessName?: Prisma.StringFieldUpdateOperationsInput | string
+  tradeLicenseNumber?: Prisma.StringFieldUpdateOperationsInput | string
+  pharmacyLicenseNumber?: Prisma.StringFieldUpdateOperationsInput | string
+  licenseExpiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  status?: Prisma.EnumSellerApplicationStatusFieldUpdateOperationsInput | $Enums.SellerApplicationStatus
+  reviewedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  submittedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  suspendedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  approvedUntil?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  documents?: Prisma.SellerDocumentUncheckedUpdateManyWithoutApplicationNestedInput
+}
+
+export type SellerApplicationCreateManyInput = {
+  id?: string
+  userId: string
+  businessName: string
+  tradeLicenseNumber: string
+  pharmacyLicenseNumber: string
+  licenseExpiresAt: Date | string
+  status?: $Enums.SellerApplicationStatus
+  reviewedBy?: string | null
+  reviewedAt?: Date | string | null
+  reviewNote?: string | null
+  submittedAt?: Date | string
+  suspendedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  approvedUntil?: Date | string | null
+}
+
+export type SellerApplicationUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  businessName?: Prisma.StringFieldUpdateOperationsInput | string
+  tradeLicenseNumber?: Prisma.StringFieldUpdateOperationsInput | string
+  pharmacyLicenseNumber?: Prisma.StringFieldUpdateOperationsInput | string
+  licenseExpiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  status?: Prisma.EnumSellerApplicationStatusFieldUpdateOperationsInput | $Enums.SellerApplicationStatus
+  reviewedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  submittedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  suspendedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  approvedUntil?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+}
+
+export type SellerApplicationUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  businessName?: Prisma.StringFieldUpdateOperationsInput | string
+  tradeLicenseNumber?: Prisma.StringFieldUpdateOperationsInput | string
+  pharmacyLicenseNumber?: Prisma.StringFieldUpdateOperationsInput | string
+  licenseExpiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  status?: Prisma.EnumSellerApplicationStatusFieldUpdateOperationsInput | $Enums.SellerApplicationStatus
+  reviewedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  submittedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  suspendedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  approvedUntil?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+}
+
+export type SellerApplicationCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  businessName?: Prisma.SortOrder
+  tradeLicenseNumber?: Prisma.SortOrder
+  pharmacyLicenseNumber?: Prisma.SortOrder
+  licenseExpiresAt?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  reviewedBy?: Prisma.SortOrder
+  reviewedAt?: Prisma.SortOrder
+  reviewNote?: Prisma.SortOrder
+  submittedAt?: Prisma.SortOrder
+  suspendedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  approvedUntil?: Prisma.SortOrder
+}
+
+export type SellerApplicationMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  businessName?: Prisma.SortOrder
+  tradeLicenseNumber?: Prisma.SortOrder
+  pharmacyLicenseNumber?: Prisma.SortOrder
+  licenseExpiresAt?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  reviewedBy?: Prisma.SortOrder
+  reviewedAt?: Prisma.SortOrder
+  reviewNote?: Prisma.SortOrder
+  submittedAt?: Prisma.SortOrder
+  suspendedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  approvedUntil?: Prisma.SortOrder
+}
+
+export type SellerApplicationMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  businessName?: Prisma.SortOrder
+  tradeLicenseNumber?: Prisma.SortOrder
+  pharmacyLicenseNumber?: Prisma.SortOrder
+  licenseExpiresAt?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  reviewedBy?: Prisma.SortOrder
+  reviewedAt?: Prisma.SortOrder
+  reviewNote?: Prisma.SortOrder
+  submittedAt?: Prisma.SortOrder
+  suspendedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  approvedUntil?: Prisma.SortOrder
+}
+
+export type SellerApplicationScalarRelationFilter = {
+  is?: Prisma.SellerApplicationWhereInput
+  isNot?: Prisma.SellerApplicationWhereInput
+}
+
+export type SellerApplicationNullableScalarRelationFilter = {
+  is?: Prisma.SellerApplicationWhereInput | null
+  isNot?: Prisma.SellerApplicationWhereInput | null
+}
+
+export type EnumSellerApplicationStatusFieldUpdateOperationsInput = {
+  set?: $Enums.SellerApplicationStatus
+}
+
+export type SellerApplicationCreateNestedOneWithoutDocumentsInput = {
+  create?: Prisma.XOR<Prisma.SellerApplicationCreateWithoutDocumentsInput, Prisma.SellerApplicationUncheckedCreateWithoutDocumentsInput>
+  connectOrCreate?: Prisma.SellerApplicationCreateOrConnectWithoutDocumentsInput
+  connect?: Prisma.SellerApplicationWhereUniqueInput
+}
+
+export type SellerApplicationUpdateOneRequiredWithoutDocumentsNestedInput = {
+  create?: Prisma.XOR<Prisma.SellerApplicationCreateWithoutDocumentsInput, Prisma.SellerApplicationUncheckedCreateWithoutDocumentsInput>
+  connectOrCreate?: Prisma.SellerApplicationCreateOrConnectWithoutDocumentsInput
+  upsert?: Prisma.SellerApplicationUpsertWithoutDocumentsInput
+  connect?: Prisma.SellerApplicationWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.SellerApplicationUpdateToOneWithWhereWithoutDocumentsInput, Prisma.SellerApplicationUpdateWithoutDocumentsInput>, Prisma.SellerApplicationUncheckedUpdateWithoutDocumentsInput>
+}
+
+export type SellerApplicationCreateNestedOneWithoutUserInput = {
+  create?: Prisma.XOR<Prisma.SellerApplicationCreateWithoutUserInput, Prisma.SellerApplicationUncheckedCreateWithoutUserInput>
+  connectOrCreate?: Prisma.SellerApplicationCreateOrConnectWithoutUserInput
+  connect?: Prisma.SellerApplicationWhereUniqueInput
+}
+
+export type SellerApplicationUncheckedCreateNestedOneWithoutUserInput = {
+  create?: Prisma.XOR<Prisma.SellerApplicationCreateWithoutUserInput, Prisma.SellerApplicationUncheckedCreateWithoutUserInput>
+  connectOrCreate?: Prisma.SellerApplicationCreateOrConnectWithoutUserInput
+  connect?: Prisma.SellerApplicationWhereUniqueInput
+}
+
+export type SellerApplicationUpdateOneWithoutUserNestedInput = {
+  create?: Prisma.XOR<Prisma.SellerApplicationCreateWithoutUserInput, Prisma.SellerApplicationUncheckedCreateWithoutUserInput>
+  connectOrCreate?: Prisma.SellerApplicationCreateOrConnectWithoutUserInput
+  upsert?: Prisma.SellerApplicationUpsertWithoutUserInput
+  disconnect?: Prisma.SellerApplicationWhereInput | boolean
+  delete?: Prisma.SellerApplicationWhereInput | boolean
+  connect?: Prisma.SellerApplicationWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.SellerApplicationUpdateToOneWithWhereWithoutUserInput, Prisma.SellerApplicationUpdateWithoutUserInput>, Prisma.SellerApplicationUncheckedUpdateWithoutUserInput>
+}
+
+export type SellerApplicationUncheckedUpdateOneWithoutUserNestedInput = {
+  create?: Prisma.XOR<Prisma.SellerApplicationCreateWithoutUserInput, Prisma.SellerApplicationUncheckedCreateWithoutUserInput>
+  connectOrCreate?: Prisma.SellerApplicationCreateOrConnectWithoutUserInput
+  upsert?: Prisma.SellerApplicationUpsertWithoutUserInput
+  disconnect?: Prisma.SellerApplicationWhereInput | boolean
+  delete?: Prisma.SellerApplicationWhereInput | boolean
+  connect?: Prisma.SellerApplicationWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.SellerApplicationUpdateToOneWithWhereWithoutUserInput, Prisma.SellerApplicationUpdateWithoutUserInput>, Prisma.SellerApplicationUncheckedUpdateWithoutUserInput>
+}
+
+export type SellerApplicationCreateWithoutDocumentsInput = {
+  id?: string
+  businessName: string
+  tradeLicenseNumber: string
+  pharmacyLicenseNumber: string
+  licenseExpiresAt: Date | string
+  status?: $Enums.SellerApplicationStatus
+  reviewedBy?: string | null
+  reviewedAt?: Date | string | null
+  reviewNote?: string | null
+  submittedAt?: Date | string
+  suspendedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  approvedUntil?: Date | string | null
+  user: Prisma.UserCreateNestedOneWithoutSellerApplicationInput
+}
+
+export type SellerApplicationUncheckedCreateWithoutDocumentsInput = {
+  id?: string
+  userId: string
+  businessName: string
+  tradeLicenseNumber: string
+  pharmacyLicenseNumber: string
+  licenseExpiresAt: Date | string
+  status?: $Enums.SellerApplicationStatus
+  reviewedBy?: string | null
+  reviewedAt?: Date | string | null
+  reviewNote?: string | null
+  submittedAt?: Date | string
+  suspendedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  approvedUntil?: Date | string | null
+}
+
+export type SellerApplicationCreateOrConnectWithoutDocumentsInput = {
+  where: Prisma.SellerApplicationWhereUniqueInput
+  create: Prisma.XOR<Prisma.SellerApplicationCreateWithoutDocumentsInput, Prisma.SellerApplicationUncheckedCreateWithoutDocumentsInput>
+}
+
+export type SellerApplicationUpsertWithoutDocumentsInput = {
+  update: Prisma.XOR<Prisma.SellerApplicationUpdateWithoutDocumentsInput, Prisma.SellerApplicationUncheckedUpdateWithoutDocumentsInput>
+  create: Prisma.XOR<Prisma.SellerApplicationCreateWithoutDocumentsInput, Prisma.SellerApplicationUncheckedCreateWithoutDocumentsInput>
+  where?: Prisma.SellerApplicationWhereInput
+}
+
+export type SellerApplicationUpdateToOneWithWhereWithoutDocumentsInput = {
+  where?: Prisma.SellerApplicationWhereInput
+  data: Prisma.XOR<Prisma.SellerApplicationUpdateWithoutDocumentsInput, Prisma.SellerApplicationUncheckedUpdateWithoutDocumentsInput>
+}
+
+export type SellerApplicationUpdateWithoutDocumentsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  businessName?: Prisma.StringFieldUpdateOperationsInput | string
+  tradeLicenseNumber?: Prisma.StringFieldUpdateOperationsInput | string
+  pharmacyLicenseNumber?: Prisma.StringFieldUpdateOperationsInput | string
+  licenseExpiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  status?: Prisma.EnumSellerApplicationStatusFieldUpdateOperationsInput | $Enums.SellerApplicationStatus
+  reviewedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  submittedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  suspendedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  approvedUntil?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  user?: Prisma.UserUpdateOneRequiredWithoutSellerApplicationNestedInput
+}
+
+export type SellerApplicationUncheckedUpdateWithoutDocumentsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  businessName?: Prisma.StringFieldUpdateOperationsInput | string
+  tradeLicenseNumber?: Prisma.StringFieldUpdateOperationsInput | string
+  pharmacyLicenseNumber?: Prisma.StringFieldUpdateOperationsInput | string
+  licenseExpiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  status?: Prisma.EnumSellerApplicationStatusFieldUpdateOperationsInput | $Enums.SellerApplicationStatus
+  reviewedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  submittedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  suspendedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  approvedUntil?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+}
+
+export type SellerApplicationCreateWithoutUserInput = {
+  id?: string
+  businessName: string
+  tradeLicenseNumber: string
+  pharmacyLicenseNumber: string
+  licenseExpiresAt: Date | string
+  status?: $Enums.SellerApplicationStatus
+  reviewedBy?: string | null
+  reviewedAt?: Date | string | null
+  reviewNote?: string | null
+  submittedAt?: Date | string
+  suspendedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  approvedUntil?: Date | string | null
+  documents?: Prisma.SellerDocumentCreateNestedManyWithoutApplicationInput
+}
+
+export type SellerApplicationUncheckedCreateWithoutUserInput = {
+  id?: string
+  businessName: string
+  tradeLicenseNumber: string
+  pharmacyLicenseNumber: string
+  licenseExpiresAt: Date | string
+  status?: $Enums.SellerApplicationStatus
+  reviewedBy?: string | null
+  reviewedAt?: Date | string | null
+  reviewNote?: string | null
+  submittedAt?: Date | string
+  suspendedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  approvedUntil?: Date | string | null
+  documents?: Prisma.SellerDocumentUncheckedCreateNestedManyWithoutApplicationInput
+}
+
+export type SellerApplicationCreateOrConnectWithoutUserInput = {
+  where: Prisma.SellerApplicationWhereUniqueInput
+  create: Prisma.XOR<Prisma.SellerApplicationCreateWithoutUserInput, Prisma.SellerApplicationUncheckedCreateWithoutUserInput>
+}
+
+export type SellerApplicationUpsertWithoutUserInput = {
+  update: Prisma.XOR<Prisma.SellerApplicationUpdateWithoutUserInput, Prisma.SellerApplicationUncheckedUpdateWithoutUserInput>
+  create: Prisma.XOR<Prisma.SellerApplicationCreateWithoutUserInput, Prisma.SellerApplicationUncheckedCreateWithoutUserInput>
+  where?: Prisma.SellerApplicationWhereInput
+}
+
+export type SellerApplicationUpdateToOneWithWhereWithoutUserInput = {
+  where?: Prisma.SellerApplicationWhereInput
+  data: Prisma.XOR<Prisma.SellerApplicationUpdateWithoutUserInput, Prisma.SellerApplicationUncheckedUpdateWithoutUserInput>
+}
+
+export type SellerApplicationUpdateWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  businessName?: Prisma.StringFieldUpdateOperationsInput | string
+  tradeLicenseNumber?: Prisma.StringFieldUpdateOperationsInput | string
+  pharmacyLicenseNumber?: Prisma.StringFieldUpdateOperationsInput | string
+  licenseExpiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  status?: Prisma.EnumSellerApplicationStatusFieldUpdateOperationsInput | $Enums.SellerApplicationStatus
+  reviewedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  submittedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  suspendedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  approvedUntil?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  documents?: Prisma.SellerDocumentUpdateManyWithoutApplicationNestedInput
+}
+
+export type SellerApplicationUncheckedUpdateWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  businessName?: Prisma.StringFieldUpdateOperationsInput | string
+  tradeLicenseNumber?: Prisma.StringFieldUpdateOperationsInput | string
+  pharmacyLicenseNumber?: Prisma.StringFieldUpdateOperationsInput | string
+  licenseExpiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  status?: Prisma.EnumSellerApplicationStatusFieldUpdateOperationsInput | $Enums.SellerApplicationStatus
+  reviewedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  submittedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  suspendedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  approvedUntil?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  documents?: Prisma.SellerDocumentUncheckedUpdateManyWithoutApplicationNestedInput
+}
+
+
+/**
+ * Count Type SellerApplicationCountOutputType
+ */
+
+export type SellerApplicationCountOutputType = {
+  documents: number
+}
+
+export type SellerApplicationCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  documents?: boolean | SellerApplicationCountOutputTypeCountDocumentsArgs
+}
+
+/**
+ * SellerApplicationCountOutputType without action
+ */
+export type SellerApplicationCountOutputTypeDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SellerApplicationCountOutputType
+   */
+  select?: Prisma.SellerApplicationCountOutputTypeSelect<ExtArgs> | null
+}
+
+/**
+ * SellerApplicationCountOutputType without action
+ */
+export type SellerApplicationCountOutputTypeCountDocumentsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.SellerDocumentWhereInput
+}
+
+
+export type SellerApplicationSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  userId?: boolean
+  businessName?: boolean
+  tradeLicenseNumber?: boolean
+  pharmacyLicenseNumber?: boolean
+  licenseExpiresAt?: boolean
+  status?: boolean
+  reviewedBy?: boolean
+  reviewedAt?: boolean
+  reviewNote?: boolean
+  submittedAt?: boolean
+  suspendedAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  approvedUntil?: boolean
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  documents?: boolean | Prisma.SellerApplication$documentsArgs<ExtArgs>
+  _count?: boolean | Prisma.SellerApplicationCountOutputTypeDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["sellerApplication"]>
+
+export type SellerApplicationSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  userId?: boolean
+  businessName?: boolean
+  tradeLicenseNumber?: boolean
+  pharmacyLicenseNumber?: boolean
+  licenseExpiresAt?: boolean
+  status?: boolean
+  reviewedBy?: boolean
+  reviewedAt?: boolean
+  reviewNote?: boolean
+  submittedAt?: boolean
+  suspendedAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  approvedUntil?: boolean
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["sellerApplication"]>
+
+export type SellerApplicationSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  userId?: boolean
+  businessName?: boolean
+  tradeLicenseNumber?: boolean
+  pharmacyLicenseNumber?: boolean
+  licenseExpiresAt?: boolean
+  status?: boolean
+  reviewedBy?: boolean
+  reviewedAt?: boolean
+  reviewNote?: boolean
+  submittedAt?: boolean
+  suspendedAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  approvedUntil?: boolean
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["sellerApplication"]>
+
+export type SellerApplicationSelectScalar = {
+  id?: boolean
+  userId?: boolean
+  businessName?: boolean
+  tradeLicenseNumber?: boolean
+  pharmacyLicenseNumber?: boolean
+  licenseExpiresAt?: boolean
+  status?: boolean
+  reviewedBy?: boolean
+  reviewedAt?: boolean
+  reviewNote?: boolean
+  submittedAt?: boolean
+  suspendedAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  approvedUntil?: boolean
+}
+
+export type SellerApplicationOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "userId" | "businessName" | "tradeLicenseNumber" | "pharmacyLicenseNumber" | "licenseExpiresAt" | "status" | "reviewedBy" | "reviewedAt" | "reviewNote" | "submittedAt" | "suspendedAt" | "createdAt" | "updatedAt" | "approvedUntil", ExtArgs["result"]["sellerApplication"]>
+export type SellerApplicationInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  documents?: boolean | Prisma.SellerApplication$documentsArgs<ExtArgs>
+  _count?: boolean | Prisma.SellerApplicationCountOutputTypeDefaultArgs<ExtArgs>
+}
+export type SellerApplicationIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+export type SellerApplicationIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+
+export type $SellerApplicationPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "SellerApplication"
+  objects: {
+    user: Prisma.$UserPayload<ExtArgs>
+    documents: Prisma.$SellerDocumentPayload<ExtArgs>[]
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    userId: string
+    businessName: string
+    tradeLicenseNumber: string
+    pharmacyLicenseNumber: string
+    licenseExpiresAt: Date
+    status: $Enums.SellerApplicationStatus
+    reviewedBy: string | null
+    reviewedAt: Date | null
+    reviewNote: string | null
+    submittedAt: Date
+    suspendedAt: Date | null
+    createdAt: Date
+    updatedAt: Date
+    approvedUntil: Date | null
+  }, ExtArgs["result"]["sellerApplication"]>
+  composites: {}
+}
+
+export type SellerApplicationGetPayload<S extends boolean | null | undefined | SellerApplicationDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$SellerApplicationPayload, S>
+
+export type SellerApplicationCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<SellerApplicationFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: SellerApplicationCountAggregateInputType | true
+  }
+
+export interface SellerApplicationDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['SellerApplication'], meta: { name: 'SellerApplication' } }
+  /**
+   * Find zero or one SellerApplication that matches the filter.
+   * @param {SellerApplicationFindUniqueArgs} args - Arguments to find a SellerApplication
+   * @example
+   * // Get one SellerApplication
+   * const sellerApplication = await prisma.sellerApplication.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends SellerApplicationFindUniqueArgs>(args: Prisma.SelectSubset<T, SellerApplicationFindUniqueArgs<ExtArgs>>): Prisma.Prisma__SellerApplicationClient<runtime.Types.Result.GetResult<Prisma.$SellerApplicationPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one SellerApplication that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {SellerApplicationFindUniqueOrThrowArgs} args - Arguments to find a SellerApplication
+   * @example
+   * // Get one SellerApplication
+   * const sellerApplication = await prisma.sellerApplication.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends SellerApplicationFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, SellerApplicationFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__SellerApplicationClient<runtime.Types.Result.GetResult<Prisma.$SellerApplicationPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first SellerApplication that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SellerApplicationFindFirstArgs} args - Arguments to find a SellerApplication
+   * @example
+   * // Get one SellerApplication
+   * const sellerApplication = await prisma.sellerApplication.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends SellerApplicationFindFirstArgs>(args?: Prisma.SelectSubset<T, SellerApplicationFindFirstArgs<ExtArgs>>): Prisma.Prisma__SellerApplicationClient<runtime.Types.Result.GetResult<Prisma.$SellerApplicationPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first SellerApplication that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SellerApplicationFindFirstOrThrowArgs} args - Arguments to find a SellerApplication
+   * @example
+   * // Get one SellerApplication
+   * const sellerApplication = await prisma.sellerApplication.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends SellerApplicationFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, SellerApplicationFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__SellerApplicationClient<runtime.Types.Result.GetResult<Prisma.$SellerApplicationPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more SellerApplications that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SellerApplicationFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all SellerApplications
+   * const sellerApplications = await prisma.sellerApplication.findMany()
+   * 
+   * // Get first 10 SellerApplications
+   * const sellerApplications = await prisma.sellerApplication.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const sellerApplicationWithIdOnly = await prisma.sellerApplication.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends SellerApplicationFindManyArgs>(args?: Prisma.SelectSubset<T, SellerApplicationFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SellerApplicationPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a SellerApplication.
+   * @param {SellerApplicationCreateArgs} args - Arguments to create a SellerApplication.
+   * @example
+   * // Create one SellerApplication
+   * const SellerApplication = await prisma.sellerApplication.create({
+   *   data: {
+   *     // ... data to create a SellerApplication
+   *   }
+   * })
+   * 
+   */
+  create<T extends SellerApplicationCreateArgs>(args: Prisma.SelectSubset<T, SellerApplicationCreateArgs<ExtArgs>>): Prisma.Prisma__SellerApplicationClient<runtime.Types.Result.GetResult<Prisma.$SellerApplicationPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many SellerApplications.
+   * @param {SellerApplicationCreateManyArgs} args - Arguments to create many SellerApplications.
+   * @example
+   * // Create many SellerApplications
+   * const sellerApplication = await prisma.sellerApplication.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends SellerApplicationCreateManyArgs>(args?: Prisma.SelectSubset<T, SellerApplicationCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many SellerApplications and returns the data saved in the database.
+   * @param {SellerApplicationCreateManyAndReturnArgs} args - Arguments to create many SellerApplications.
+   * @example
+   * // Create many SellerApplications
+   * const sellerApplication = await prisma.sellerApplication.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many SellerApplications and only return the `id`
+   * const sellerApplicationWithIdOnly = await prisma.sellerApplication.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends SellerApplicationCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, SellerApplicationCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SellerApplicationPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a SellerApplication.
+   * @param {SellerApplicationDeleteArgs} args - Arguments to delete one SellerApplication.
+   * @example
+   * // Delete one SellerApplication
+   * const SellerApplication = await prisma.sellerApplication.delete({
+   *   where: {
+   *     // ... filter to delete one SellerApplication
+   *   }
+   * })
+   * 
+   */
+  delete<T extends SellerApplicationDeleteArgs>(args: Prisma.SelectSubset<T, SellerApplicationDeleteArgs<ExtArgs>>): Prisma.Prisma__SellerApplicationClient<runtime.Types.Result.GetResult<Prisma.$SellerApplicationPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one SellerApplication.
+   * @param {SellerApplicationUpdateArgs} args - Arguments to update one SellerApplication.
+   * @example
+   * // Update one SellerApplication
+   * const sellerApplication = await prisma.sellerApplication.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends SellerApplicationUpdateArgs>(args: Prisma.SelectSubset<T, SellerApplicationUpdateArgs<ExtArgs>>): Prisma.Prisma__SellerApplicationClient<runtime.Types.Result.GetResult<Prisma.$SellerApplicationPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more SellerApplications.
+   * @param {SellerApplicationDeleteManyArgs} args - Arguments to filter SellerApplications to delete.
+   * @example
+   * // Delete a few SellerApplications
+   * const { count } = await prisma.sellerApplication.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends SellerApplicationDeleteManyArgs>(args?: Prisma.SelectSubset<T, SellerApplicationDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more SellerApplications.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SellerApplicationUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many SellerApplications
+   * const sellerApplication = await prisma.sellerApplication.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends SellerApplicationUpdateManyArgs>(args: Prisma.SelectSubset<T, SellerApplicationUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more SellerApplications and returns the data updated in the database.
+   * @param {SellerApplicationUpdateManyAndReturnArgs} args - Arguments to update many SellerApplications.
+   * @example
+   * // Update many SellerApplications
+   * const sellerApplication = await prisma.sellerApplication.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more SellerApplications and only return the `id`
+   * const sellerApplicationWithIdOnly = await prisma.sellerApplication.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends SellerApplicationUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, SellerApplicationUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SellerApplicationPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one SellerApplication.
+   * @param {SellerApplicationUpsertArgs} args - Arguments to update or create a SellerApplication.
+   * @example
+   * // Update or create a SellerApplication
+   * const sellerApplication = await prisma.sellerApplication.upsert({
+   *   create: {
+   *     // ... data to create a SellerApplication
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the SellerApplication we want to update
+   *   }
+   * })
+   */
+  upsert<T extends SellerApplicationUpsertArgs>(args: Prisma.SelectSubset<T, SellerApplicationUpsertArgs<ExtArgs>>): Prisma.Prisma__SellerApplicationClient<runtime.Types.Result.GetResult<Prisma.$SellerApplicationPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of SellerApplications.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SellerApplicationCountArgs} args - Arguments to filter SellerApplications to count.
+   * @example
+   * // Count the number of SellerApplications
+   * const count = await prisma.sellerApplication.count({
+   *   where: {
+   *     // ... the filter for the SellerApplications we want to count
+   *   }
+   * })
+  **/
+  count<T extends SellerApplicationCountArgs>(
+    args?: Prisma.Subset<T, SellerApplicationCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], SellerApplicationCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a SellerApplication.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SellerApplicationAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends SellerApplicationAggregateArgs>(args: Prisma.Subset<T, SellerApplicationAggregateArgs>): Prisma.PrismaPromise<GetSellerApplicationAggregateType<T>>
+
+  /**
+   * Group by SellerApplication.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SellerApplicationGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends SellerApplicationGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: SellerApplicationGroupByArgs['orderBy'] }
+      : { orderBy?: SellerApplicationGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, SellerApplicationGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetSellerApplicationGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the SellerApplication model
+ */
+readonly fields: SellerApplicationFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for SellerApplication.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__SellerApplicationClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  user<T extends Prisma.UserDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.UserDefaultArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  documents<T extends Prisma.SellerApplication$documentsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.SellerApplication$documentsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SellerDocumentPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the SellerApplication model
+ */
+export interface SellerApplicationFieldRefs {
+  readonly id: Prisma.FieldRef<"SellerApplication", 'String'>
+  readonly userId: Prisma.FieldRef<"SellerApplication", 'String'>
+  readonly businessName: Prisma.FieldRef<"SellerApplication", 'String'>
+  readonly tradeLicenseNumber: Prisma.FieldRef<"SellerApplication", 'String'>
+  readonly pharmacyLicenseNumber: Prisma.FieldRef<"SellerApplication", 'String'>
+  readonly licenseExpiresAt: Prisma.FieldRef<"SellerApplication", 'DateTime'>
+  readonly status: Prisma.FieldRef<"SellerApplication", 'SellerApplicationStatus'>
+  readonly reviewedBy: Prisma.FieldRef<"SellerApplication", 'String'>
+  readonly reviewedAt: Prisma.FieldRef<"SellerApplication", 'DateTime'>
+  readonly reviewNote: Prisma.FieldRef<"SellerApplication", 'String'>
+  readonly submittedAt: Prisma.FieldRef<"SellerApplication", 'DateTime'>
+  readonly suspendedAt: Prisma.FieldRef<"SellerApplication", 'DateTime'>
+  readonly createdAt: Prisma.FieldRef<"SellerApplication", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"SellerApplication", 'DateTime'>
+  readonly approvedUntil: Prisma.FieldRef<"SellerApplication", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * SellerApplication findUnique
+ */
+export type SellerApplicationFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SellerApplication
+   */
+  select?: Prisma.SellerApplicationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SellerApplication
+   */
+  omit?: Prisma.SellerApplicationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SellerApplicationInclude<ExtArgs> | null
+  /**
+   * Filter, which SellerApplication to fetch.
+   */
+  where: Prisma.SellerApplicationWhereUniqueInput
+}
+
+/**
+ * SellerApplication findUniqueOrThrow
+ */
+export type SellerApplicationFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SellerApplication
+   */
+  select?: Prisma.SellerApplicationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SellerApplication
+   */
+  omit?: Prisma.SellerApplicationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SellerApplicationInclude<ExtArgs> | null
+  /**
+   * Filter, which SellerApplication to fetch.
+   */
+  where: Prisma.SellerApplicationWhereUniqueInput
+}
+
+/**
+ * SellerApplication findFirst
+ */
+export type SellerApplicationFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SellerApplication
+   */
+  select?: Prisma.SellerApplicationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SellerApplication
+   */
+  omit?: Prisma.SellerApplicationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SellerApplicationInclude<ExtArgs> | null
+  /**
+   * Filter, which SellerApplication to fetch.
+   */
+  where?: Prisma.SellerApplicationWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of SellerApplications to fetch.
+   */
+  orderBy?: Prisma.SellerApplicationOrderByWithRelationInput | Prisma.SellerApplicationOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for SellerApplications.
+   */
+  cursor?: Prisma.SellerApplicationWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` SellerApplications from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` SellerApplications.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of SellerApplications.
+   */
+  distinct?: Prisma.SellerApplicationScalarFieldEnum | Prisma.SellerApplicationScalarFieldEnum[]
+}
+
+/**
+ * SellerApplication findFirstOrThrow
+ */
+export type SellerApplicationFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SellerApplication
+   */
+  select?: Prisma.SellerApplicationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SellerApplication
+   */
+  omit?: Prisma.SellerApplicationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SellerApplicationInclude<ExtArgs> | null
+  /**
+   * Filter, which SellerApplication to fetch.
+   */
+  where?: Prisma.SellerApplicationWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of SellerApplications to fetch.
+   */
+  orderBy?: Prisma.SellerApplicationOrderByWithRelationInput | Prisma.SellerApplicationOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for SellerApplications.
+   */
+  cursor?: Prisma.SellerApplicationWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` SellerApplications from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` SellerApplications.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of SellerApplications.
+   */
+  distinct?: Prisma.SellerApplicationScalarFieldEnum | Prisma.SellerApplicationScalarFieldEnum[]
+}
+
+/**
+ * SellerApplication findMany
+ */
+export type SellerApplicationFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SellerApplication
+   */
+  select?: Prisma.SellerApplicationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SellerApplication
+   */
+  omit?: Prisma.SellerApplicationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SellerApplicationInclude<ExtArgs> | null
+  /**
+   * Filter, which SellerApplications to fetch.
+   */
+  where?: Prisma.SellerApplicationWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of SellerApplications to fetch.
+   */
+  orderBy?: Prisma.SellerApplicationOrderByWithRelationInput | Prisma.SellerApplicationOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing SellerApplications.
+   */
+  cursor?: Prisma.SellerApplicationWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` SellerApplications from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` SellerApplications.
+   */
+  skip?: number
+  distinct?: Prisma.SellerApplicationScalarFieldEnum | Prisma.SellerApplicationScalarFieldEnum[]
+}
+
+/**
+ * SellerApplication create
+ */
+export type SellerApplicationCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SellerApplication
+   */
+  select?: Prisma.SellerApplicationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SellerApplication
+   */
+  omit?: Prisma.SellerApplicationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SellerApplicationInclude<ExtArgs> | null
+  /**
+   * The data needed to create a SellerApplication.
+   */
+  data: Prisma.XOR<Prisma.SellerApplicationCreateInput, Prisma.SellerApplicationUncheckedCreateInput>
+}
+
+/**
+ * SellerApplication createMany
+ */
+export type SellerApplicationCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many SellerApplications.
+   */
+  data: Prisma.SellerApplicationCreateManyInput | Prisma.SellerApplicationCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * SellerApplication createManyAndReturn
+ */
+export type SellerApplicationCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SellerApplication
+   */
+  select?: Prisma.SellerApplicationSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the SellerApplication
+   */
+  omit?: Prisma.SellerApplicationOmit<ExtArgs> | null
+  /**
+   * The data used to create many SellerApplications.
+   */
+  data: Prisma.SellerApplicationCreateManyInput | Prisma.SellerApplicationCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SellerApplicationIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * SellerApplication update
+ */
+export type SellerApplicationUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SellerApplication
+   */
+  select?: Prisma.SellerApplicationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SellerApplication
+   */
+  omit?: Prisma.SellerApplicationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SellerApplicationInclude<ExtArgs> | null
+  /**
+   * The data needed to update a SellerApplication.
+   */
+  data: Prisma.XOR<Prisma.SellerApplicationUpdateInput, Prisma.SellerApplicationUncheckedUpdateInput>
+  /**
+   * Choose, which SellerApplication to update.
+   */
+  where: Prisma.SellerApplicationWhereUniqueInput
+}
+
+/**
+ * SellerApplication updateMany
+ */
+export type SellerApplicationUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update SellerApplications.
+   */
+  data: Prisma.XOR<Prisma.SellerApplicationUpdateManyMutationInput, Prisma.SellerApplicationUncheckedUpdateManyInput>
+  /**
+   * Filter which SellerApplications to update
+   */
+  where?: Prisma.SellerApplicationWhereInput
+  /**
+   * Limit how many SellerApplications to update.
+   */
+  limit?: number
+}
+
+/**
+ * SellerApplication updateManyAndReturn
+ */
+export type SellerApplicationUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SellerApplication
+   */
+  select?: Prisma.SellerApplicationSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the SellerApplication
+   */
+  omit?: Prisma.SellerApplicationOmit<ExtArgs> | null
+  /**
+   * The data used to update SellerApplications.
+   */
+  data: Prisma.XOR<Prisma.SellerApplicationUpdateManyMutationInput, Prisma.SellerApplicationUncheckedUpdateManyInput>
+  /**
+   * Filter which SellerApplications to update
+   */
+  where?: Prisma.SellerApplicationWhereInput
+  /**
+   * Limit how many SellerApplications to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SellerApplicationIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * SellerApplication upsert
+ */
+export type SellerApplicationUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SellerApplication
+   */
+  select?: Prisma.SellerApplicationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SellerApplication
+   */
+  omit?: Prisma.SellerApplicationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SellerApplicationInclude<ExtArgs> | null
+  /**
+   * The filter to search for the SellerApplication to update in case it exists.
+   */
+  where: Prisma.SellerApplicationWhereUniqueInput
+  /**
+   * In case the SellerApplication found by the `where` argument doesn't exist, create a new SellerApplication with this data.
+   */
+  create: Prisma.XOR<Prisma.SellerApplicationCreateInput, Prisma.SellerApplicationUncheckedCreateInput>
+  /**
+   * In case the SellerApplication was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.SellerApplicationUpdateInput, Prisma.SellerApplicationUncheckedUpdateInput>
+}
+
+/**
+ * SellerApplication delete
+ */
+export type SellerApplicationDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SellerApplication
+   */
+  select?: Prisma.SellerApplicationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SellerApplication
+   */
+  omit?: Prisma.SellerApplicationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SellerApplicationInclude<ExtArgs> | null
+  /**
+   * Filter which SellerApplication to delete.
+   */
+  where: Prisma.SellerApplicationWhereUniqueInput
+}
+
+/**
+ * SellerApplication deleteMany
+ */
+export type SellerApplicationDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which SellerApplications to delete
+   */
+  where?: Prisma.SellerApplicationWhereInput
+  /**
+   * Limit how many SellerApplications to delete.
+   */
+  limit?: number
+}
+
+/**
+ * SellerApplication.documents
+ */
+export type SellerApplication$documentsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SellerDocument
+   */
+  select?: Prisma.SellerDocumentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SellerDocument
+   */
+  omit?: Prisma.SellerDocumentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SellerDocumentInclude<ExtArgs> | null
+  where?: Prisma.SellerDocumentWhereInput
+  orderBy?: Prisma.SellerDocumentOrderByWithRelationInput | Prisma.SellerDocumentOrderByWithRelationInput[]
+  cursor?: Prisma.SellerDocumentWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.SellerDocumentScalarFieldEnum | Prisma.SellerDocumentScalarFieldEnum[]
+}
+
+/**
+ * SellerApplication without action
+ */
+export type SellerApplicationDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SellerApplication
+   */
+  select?: Prisma.SellerApplicationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SellerApplication
+   */
+  omit?: Prisma.SellerApplicationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SellerApplicationInclude<ExtArgs> | null
+}
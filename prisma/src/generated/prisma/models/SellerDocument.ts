@@ -0,0 +1,1379 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `SellerDocument` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model SellerDocument
+ * 
+ */
+export type SellerDocumentModel = runtime.Types.Result.DefaultSelection<Prisma.$SellerDocumentPayload>
+
+export type AggregateSellerDocument = {
+  _count: SellerDocumentCountAggregateOutputType | null
+  _min: SellerDocumentMinAggregateOutputType | null
+  _max: SellerDocumentMaxAggregateOutputType | null
+}
+
+export type SellerDocumentMinAggregateOutputType = {
+  id: string | null
+  applicationId: string | null
+  type: $Enums.SellerDocumentType | null
+  fileUrl: string | null
+  fileName: string | null
+  createdAt: Date | null
+}
+
+export type SellerDocumentMaxAggregateOutputType = {
+  id: string | null
+  applicationId: string | null
+  type: $Enums.SellerDocumentType | null
+  fileUrl: string | null
+  fileName: string | null
+  createdAt: Date | null
+}
+
+export type SellerDocumentCountAggregateOutputType = {
+  id: number
+  applicationId: number
+  type: number
+  fileUrl: number
+  fileName: number
+  createdAt: number
+  _all: number
+}
+
+
+export type SellerDocumentMinAggregateInputType = {
+  id?: true
+  applicationId?: true
+  type?: true
+  fileUrl?: true
+  fileName?: true
+  createdAt?: true
+}
+
+export type SellerDocumentMaxAggregateInputType = {
+  id?: true
+  applicationId?: true
+  type?: true
+  fileUrl?: true
+  fileName?: true
+  createdAt?: true
+}
+
+export type SellerDocumentCountAggregateInputType = {
+  id?: true
+  applicationId?: true
+  type?: true
+  fileUrl?: true
+  fileName?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type SellerDocumentAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which SellerDocument to aggregate.
+   */
+  where?: Prisma.SellerDocumentWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of SellerDocuments to fetch.
+   */
+  orderBy?: Prisma.SellerDocumentOrderByWithRelationInput | Prisma.SellerDocumentOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.SellerDocumentWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` SellerDocuments from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` SellerDocuments.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned SellerDocuments
+  **/
+  _count?: true | SellerDocumentCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: SellerDocumentMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: SellerDocumentMaxAggregateInputType
+}
+
+export type GetSellerDocumentAggregateType<T extends SellerDocumentAggregateArgs> = {
+      [P in keyof T & keyof AggregateSellerDocument]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateSellerDocument[P]>
+    : Prisma.GetScalarType<T[P], AggregateSellerDocument[P]>
+}
+
+
+
+
+export type SellerDocumentGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.SellerDocumentWhereInput
+  orderBy?: Prisma.SellerDocumentOrderByWithAggregationInput | Prisma.SellerDocumentOrderByWithAggregationInput[]
+  by: Prisma.SellerDocumentScalarFieldEnum[] | Prisma.SellerDocumentScalarFieldEnum
+  having?: Prisma.SellerDocumentScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: SellerDocumentCountAggregateInputType | true
+  _min?: SellerDocumentMinAggregateInputType
+  _max?: SellerDocumentMaxAggregateInputType
+}
+
+export type SellerDocumentGroupByOutputType = {
+  id: string
+  applicationId: string
+  type: $Enums.SellerDocumentType
+  fileUrl: string
+  fileName: string | null
+  createdAt: Date
+  _count: SellerDocumentCountAggregateOutputType | null
+  _min: SellerDocumentMinAggregateOutputType | null
+  _max: SellerDocumentMaxAggregateOutputType | null
+}
+
+type GetSellerDocumentGroupByPayload<T extends SellerDocumentGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<SellerDocumentGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof SellerDocumentGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], SellerDocumentGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], SellerDocumentGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type SellerDocumentWhereInput = {
+  AND?: Prisma.SellerDocumentWhereInput | Prisma.SellerDocumentWhereInput[]
+  OR?: Prisma.SellerDocumentWhereInput[]
+  NOT?: Prisma.SellerDocumentWhereInput | Prisma.SellerDocumentWhereInput[]
+  id?: Prisma.StringFilter<"SellerDocument"> | string
+  applicationId?: Prisma.StringFilter<"SellerDocument"> | string
+  type?: Prisma.EnumSellerDocumentTypeFilter<"SellerDocument"> | $Enums.SellerDocumentType
+  fileUrl?: Prisma.StringFilter<"SellerDocument"> | string
+  fileName?: Prisma.StringNullableFilter<"SellerDocument"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"SellerDocument"> | Date | string
+  application?: Prisma.XOR<Prisma.SellerApplicationScalarRelationFilter, Prisma.SellerApplicationWhereInput>
+}
+
+export type SellerDocumentOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  applicationId?: Prisma.SortOrder
+  type?: Prisma.SortOrder
+  fileUrl?: Prisma.SortOrder
+  fileName?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  application?: Prisma.SellerApplicationOrderByWithRelationInput
+}
+
+export type SellerDocumentWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  AND?: Prisma.SellerDocumentWhereInput | Prisma.SellerDocumentWhereInput[]
+  OR?: Prisma.SellerDocumentWhereInput[]
+  NOT?: Prisma.SellerDocumentWhereInput | Prisma.SellerDocumentWhereInput[]
+  applicationId?: Prisma.StringFilter<"SellerDocument"> | string
+  type?: Prisma.EnumSellerDocumentTypeFilter<"SellerDocument"> | $Enums.SellerDocumentType
+  fileUrl?: Prisma.StringFilter<"SellerDocument"> | string
+  fileName?: Prisma.StringNullableFilter<"SellerDocument"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"SellerDocument"> | Date | string
+  application?: Prisma.XOR<Prisma.SellerApplicationScalarRelationFilter, Prisma.SellerApplicationWhereInput>
+}, "id">
+
+export type SellerDocumentOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  applicationId?: Prisma.SortOrder
+  type?: Prisma.SortOrder
+  fileUrl?: Prisma.SortOrder
+  fileName?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.SellerDocumentCountOrderByAggregateInput
+  _max?: Prisma.SellerDocumentMaxOrderByAggregateInput
+  _min?: Prisma.SellerDocumentMinOrderByAggregateInput
+}
+
+export type SellerDocumentScalarWhereWithAggregatesInput = {
+  AND?: Prisma.SellerDocumentScalarWhereWithAggregatesInput | Prisma.SellerDocumentScalarWhereWithAggregatesInput[]
+  OR?: Prisma.SellerDocumentScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.SellerDocumentScalarWhereWithAggregatesInput | Prisma.SellerDocumentScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"SellerDocument"> | string
+  applicationId?: Prisma.StringWithAggregatesFilter<"SellerDocument"> | string
+  type?: Prisma.EnumSellerDocumentTypeWithAggregatesFilter<"SellerDocument"> | $Enums.SellerDocumentType
+  fileUrl?: Prisma.StringWithAggregatesFilter<"SellerDocument"> | string
+  fileName?: Prisma.StringNullableWithAggregatesFilter<"SellerDocument"> | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"SellerDocument"> | Date | string
+}
+
+export type SellerDocumentCreateInput = {
+  id?: string
+  type: $Enums.SellerDocumentType
+  fileUrl: string
+  fileName?: string | null
+  createdAt?: Date | string
+  application: Prisma.SellerApplicationCreateNestedOneWithoutDocumentsInput
+}
+
+export type SellerDocumentUncheckedCreateInput = {
+  id?: string
+  applicationId: string
+  type: $Enums.SellerDocumentType
+  fileUrl: string
+  fileName?: string | null
+  createdAt?: Date | string
+}
+
+export type SellerDocumentUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  type?: Prisma.EnumSellerDocumentTypeFieldUpdateOperationsInput | $Enums.SellerDocumentType
+  fileUrl?: Prisma.StringFieldUpdateOperationsInput | string
+  fileName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  application?: Prisma.SellerApplicationUpdateOneRequiredWithoutDocumentsNestedInput
+}
+
+export type SellerDocumentUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  applicationId?: Prisma.StringFieldUpdateOperationsInput | string
+  type?: Prisma.EnumSellerDocumentTypeFieldUpdateOperationsInput | $Enums.SellerDocumentType
+  fileUrl?: Prisma.StringFieldUpdateOperationsInput | string
+  fileName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type SellerDocumentCreateManyInput = {
+  id?: string
+  applicationId: string
+  type: $Enums.SellerDocumentType
+  fileUrl: string
+  fileName?: string | null
+  createdAt?: Date | string
+}
+
+export type SellerDocumentUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  type?: Prisma.EnumSellerDocumentTypeFieldUpdateOperationsInput | $Enums.SellerDocumentType
+  fileUrl?: Prisma.StringFieldUpdateOperationsInput | string
+  fileName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type SellerDocumentUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  applicationId?: Prisma.StringFieldUpdateOperationsInput | string
+  type?: Prisma.EnumSellerDocumentTypeFieldUpdateOperationsInput | $Enums.SellerDocumentType
+  fileUrl?: Prisma.StringFieldUpdateOperationsInput | string
+  fileName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type SellerDocumentListRelationFilter = {
+  every?: Prisma.SellerDocumentWhereInput
+  some?: Prisma.SellerDocumentWhereInput
+  none?: Prisma.SellerDocumentWhereInput
+}
+
+export type SellerDocumentOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type SellerDocumentCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  applicationId?: Prisma.SortOrder
+  type?: Prisma.SortOrder
+  fileUrl?: Prisma.SortOrder
+  fileName?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type SellerDocumentMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  applicationId?: Prisma.SortOrder
+  type?: Prisma.SortOrder
+  fileUrl?: Prisma.SortOrder
+  fileName?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type SellerDocumentMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  applicationId?: Prisma.SortOrder
+  type?: Prisma.SortOrder
+  fileUrl?: Prisma.SortOrder
+  fileName?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type SellerDocumentCreateNestedManyWithoutApplicationInput = {
+  create?: Prisma.XOR<Prisma.SellerDocumentCreateWithoutApplicationInput, Prisma.SellerDocumentUncheckedCreateWithoutApplicationInput> | Prisma.SellerDocumentCreateWithoutApplicationInput[] | Prisma.SellerDocumentUncheckedCreateWithoutApplicationInput[]
+  connectOrCreate?: Prisma.SellerDocumentCreateOrConnectWithoutApplicationInput | Prisma.SellerDocumentCreateOrConnectWithoutApplicationInput[]
+  createMany?: Prisma.SellerDocumentCreateManyApplicationInputEnvelope
+  connect?: Prisma.SellerDocumentWhereUniqueInput | Prisma.SellerDocumentWhereUniqueInput[]
+}
+
+export type SellerDocumentUncheckedCreateNestedManyWithoutApplicationInput = {
+  create?: Prisma.XOR<Prisma.SellerDocumentCreateWithoutApplicationInput, Prisma.SellerDocumentUncheckedCreateWithoutApplicationInput> | Prisma.SellerDocumentCreateWithoutApplicationInput[] | Prisma.SellerDocumentUncheckedCreateWithoutApplicationInput[]
+  connectOrCreate?: Prisma.SellerDocumentCreateOrConnectWithoutApplicationInput | Prisma.SellerDocumentCreateOrConnectWithoutApplicationInput[]
+  createMany?: Prisma.SellerDocumentCreateManyApplicationInputEnvelope
+  connect?: Prisma.SellerDocumentWhereUniqueInput | Prisma.SellerDocumentWhereUniqueInput[]
+}
+
+export type SellerDocumentUpdateManyWithoutApplicationNestedInput = {
+  create?: Prisma.XOR<Prisma.SellerDocumentCreateWithoutApplicationInput, Prisma.SellerDocumentUncheckedCreateWithoutApplicationInput> | Prisma.SellerDocumentCreateWithoutApplicationInput[] | Prisma.SellerDocumentUncheckedCreateWithoutApplicationInput[]
+  connectOrCreate?: Prisma.SellerDocumentCreateOrConnectWithoutApplicationInput | Prisma.SellerDocumentCreateOrConnectWithoutApplicationInput[]
+  upsert?: Prisma.SellerDocumentUpsertWithWhereUniqueWithoutApplicationInput | Prisma.SellerDocumentUpsertWithWhereUniqueWithoutApplicationInput[]
+  createMany?: Prisma.SellerDocumentCreateManyApplicationInputEnvelope
+  set?: Prisma.SellerDocumentWhereUniqueInput | Prisma.SellerDocumentWhereUniqueInput[]
+  disconnect?: Prisma.SellerDocumentWhereUniqueInput | Prisma.SellerDocumentWhereUniqueInput[]
+  delete?: Prisma.SellerDocumentWhereUniqueInput | Prisma.SellerDocumentWhereUniqueInput[]
+  connect?: Prisma.SellerDocumentWhereUniqueInput | Prisma.SellerDocumentWhereUniqueInput[]
+  update?: Prisma.SellerDocumentUpdateWithWhereUniqueWithoutApplicationInput | Prisma.SellerDocumentUpdateWithWhereUniqueWithoutApplicationInput[]
+  updateMany?: Prisma.SellerDocumentUpdateManyWithWhereWithoutApplicationInput | Prisma.SellerDocumentUpdateManyWithWhereWithoutApplicationInput[]
+  deleteMany?: Prisma.SellerDocumentScalarWhereInput | Prisma.SellerDocumentScalarWhereInput[]
+}
+
+export type SellerDocumentUncheckedUpdateManyWithoutApplicationNestedInput = {
+  create?: Prisma.XOR<Prisma.SellerDocumentCreateWithoutApplicationInput, Prisma.SellerDocumentUncheckedCreateWithoutApplicationInput> | Prisma.SellerDocumentCreateWithoutApplicationInput[] | Prisma.SellerDocumentUncheckedCreateWithoutApplicationInput[]
+  connectOrCreate?: Prisma.SellerDocumentCreateOrConnectWithoutApplicationInput | Prisma.SellerDocumentCreateOrConnectWithoutApplicationInput[]
+  upsert?: Prisma.SellerDocumentUpsertWithWhereUniqueWithoutApplicationInput | Prisma.SellerDocumentUpsertWithWhereUniqueWithoutApplicationInput[]
+  createMany?: Prisma.SellerDocumentCreateManyApplicationInputEnvelope
+  set?: Prisma.SellerDocumentWhereUniqueInput | Prisma.SellerDocumentWhereUniqueInput[]
+  disconnect?: Prisma.SellerDocumentWhereUniqueInput | Prisma.SellerDocumentWhereUniqueInput[]
+  delete?: Prisma.SellerDocumentWhereUniqueInput | Prisma.SellerDocumentWhereUniqueInput[]
+  connect?: Prisma.SellerDocumentWhereUniqueInput | Prisma.SellerDocumentWhereUniqueInput[]
+  update?: Prisma.SellerDocumentUpdateWithWhereUniqueWithoutApplicationInput | Prisma.SellerDocumentUpdateWithWhereUniqueWithoutApplicationInput[]
+  updateMany?: Prisma.SellerDocumentUpdateManyWithWhereWithoutApplicationInput | Prisma.SellerDocumentUpdateManyWithWhereWithoutApplicationInput[]
+  deleteMany?: Prisma.SellerDocumentScalarWhereInput | Prisma.SellerDocumentScalarWhereInput[]
+}
+
+export type EnumSellerDocumentTypeFieldUpdateOperationsInput = {
+  set?: $Enums.SellerDocumentType
+}
+
+export type SellerDocumentCreateWithoutApplicationInput = {
+  id?: string
+  type: $Enums.SellerDocumentType
+  fileUrl: string
+  fileName?: string | null
+  createdAt?: Date | string
+}
+
+export type SellerDocumentUncheckedCreateWithoutApplicationInput = {
+  id?: string
+  type: $Enums.SellerDocumentType
+  fileUrl: string
+  fileName?: string | null
+  createdAt?: Date | string
+}
+
+export type SellerDocumentCreateOrConnectWithoutApplicationInput = {
+  where: Prisma.SellerDocumentWhereUniqueInput
+  create: Prisma.XOR<Prisma.SellerDocumentCreateWithoutApplicationInput, Prisma.SellerDocumentUncheckedCreateWithoutApplicationInput>
+}
+
+export type SellerDocumentCreateManyApplicationInputEnvelope = {
+  data: Prisma.SellerDocumentCreateManyApplicationInput | Prisma.SellerDocumentCreateManyApplicationInput[]
+  skipDuplicates?: boolean
+}
+
+export type SellerDocumentUpsertWithWhereUniqueWithoutApplicationInput = {
+  where: Prisma.SellerDocumentWhereUniqueInput
+  update: Prisma.XOR<Prisma.SellerDocumentUpdateWithoutApplicationInput, Prisma.SellerDocumentUncheckedUpdateWithoutApplicationInput>
+  create: Prisma.XOR<Prisma.SellerDocumentCreateWithoutApplicationInput, Prisma.SellerDocumentUncheckedCreateWithoutApplicationInput>
+}
+
+export type SellerDocumentUpdateWithWhereUniqueWithoutApplicationInput = {
+  where: Prisma.SellerDocumentWhereUniqueInput
+  data: Prisma.XOR<Prisma.SellerDocumentUpdateWithoutApplicationInput, Prisma.SellerDocumentUncheckedUpdateWithoutApplicationInput>
+}
+
+export type SellerDocumentUpdateManyWithWhereWithoutApplicationInput = {
+  where: Prisma.SellerDocumentScalarWhereInput
+  data: Prisma.XOR<Prisma.SellerDocumentUpdateManyMutationInput, Prisma.SellerDocumentUncheckedUpdateManyWithoutApplicationInput>
+}
+
+export type SellerDocumentScalarWhereInput = {
+  AND?: Prisma.SellerDocumentScalarWhereInput | Prisma.SellerDocumentScalarWhereInput[]
+  OR?: Prisma.SellerDocumentScalarWhereInput[]
+  NOT?: Prisma.SellerDocumentScalarWhereInput | Prisma.SellerDocumentScalarWhereInput[]
+  id?: Prisma.StringFilter<"SellerDocument"> | string
+  applicationId?: Prisma.StringFilter<"SellerDocument"> | string
+  type?: Prisma.EnumSellerDocumentTypeFilter<"SellerDocument"> | $Enums.SellerDocumentType
+  fileUrl?: Prisma.StringFilter<"SellerDocument"> | string
+  fileName?: Prisma.StringNullableFilter<"SellerDocument"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"SellerDocument"> | Date | string
+}
+
+export type SellerDocumentCreateManyApplicationInput = {
+  id?: string
+  type: $Enums.SellerDocumentType
+  fileUrl: string
+  fileName?: string | null
+  createdAt?: Date | string
+}
+
+export type SellerDocumentUpdateWithoutApplicationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  type?: Prisma.EnumSellerDocumentTypeFieldUpdateOperationsInput | $Enums.SellerDocumentType
+  fileUrl?: Prisma.StringFieldUpdateOperationsInput | string
+  fileName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type SellerDocumentUncheckedUpdateWithoutApplicationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  type?: Prisma.EnumSellerDocumentTypeFieldUpdateOperationsInput | $Enums.SellerDocumentType
+  fileUrl?: Prisma.StringFieldUpdateOperationsInput | string
+  fileName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type SellerDocumentUncheckedUpdateManyWithoutApplicationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  type?: Prisma.EnumSellerDocumentTypeFieldUpdateOperationsInput | $Enums.SellerDocumentType
+  fileUrl?: Prisma.StringFieldUpdateOperationsInput | string
+  fileName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type SellerDocumentSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  applicationId?: boolean
+  type?: boolean
+  fileUrl?: boolean
+  fileName?: boolean
+  createdAt?: boolean
+  application?: boolean | Prisma.SellerApplicationDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["sellerDocument"]>
+
+export type SellerDocumentSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  applicationId?: boolean
+  type?: boolean
+  fileUrl?: boolean
+  fileName?: boolean
+  createdAt?: boolean
+  application?: boolean | Prisma.SellerApplicationDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["sellerDocument"]>
+
+export type SellerDocumentSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  applicationId?: boolean
+  type?: boolean
+  fileUrl?: boolean
+  fileName?: boolean
+  createdAt?: boolean
+  application?: boolean | Prisma.SellerApplicationDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["sellerDocument"]>
+
+export type SellerDocumentSelectScalar = {
+  id?: boolean
+  applicationId?: boolean
+  type?: boolean
+  fileUrl?: boolean
+  fileName?: boolean
+  createdAt?: boolean
+}
+
+export type SellerDocumentOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "applicationId" | "type" | "fileUrl" | "fileName" | "createdAt", ExtArgs["result"]["sellerDocument"]>
+export type SellerDocumentInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  application?: boolean | Prisma.SellerApplicationDefaultArgs<ExtArgs>
+}
+export type SellerDocumentIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  application?: boolean | Prisma.SellerApplicationDefaultArgs<ExtArgs>
+}
+export type SellerDocumentIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  application?: boolean | Prisma.SellerApplicationDefaultArgs<ExtArgs>
+}
+
+export type $SellerDocumentPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "SellerDocument"
+  objects: {
+    application: Prisma.$SellerApplicationPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    applicationId: string
+    type: $Enums.SellerDocumentType
+    fileUrl: string
+    fileName: string | null
+    createdAt: Date
+  }, ExtArgs["result"]["sellerDocument"]>
+  composites: {}
+}
+
+export type SellerDocumentGetPayload<S extends boolean | null | undefined | SellerDocumentDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$SellerDocumentPayload, S>
+
+export type SellerDocumentCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<SellerDocumentFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: SellerDocumentCountAggregateInputType | true
+  }
+
+export interface SellerDocumentDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['SellerDocument'], meta: { name: 'SellerDocument' } }
+  /**
+   * Find zero or one SellerDocument that matches the filter.
+   * @param {SellerDocumentFindUniqueArgs} args - Arguments to find a SellerDocument
+   * @example
+   * // Get one SellerDocument
+   * const sellerDocument = await prisma.sellerDocument.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends SellerDocumentFindUniqueArgs>(args: Prisma.SelectSubset<T, SellerDocumentFindUniqueArgs<ExtArgs>>): Prisma.Prisma__SellerDocumentClient<runtime.Types.Result.GetResult<Prisma.$SellerDocumentPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one SellerDocument that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {SellerDocumentFindUniqueOrThrowArgs} args - Arguments to find a SellerDocument
+   * @example
+   * // Get one SellerDocument
+   * const sellerDocument = await prisma.sellerDocument.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends SellerDocumentFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, SellerDocumentFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__SellerDocumentClient<runtime.Types.Result.GetResult<Prisma.$SellerDocumentPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first SellerDocument that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SellerDocumentFindFirstArgs} args - Arguments to find a SellerDocument
+   * @example
+   * // Get one SellerDocument
+   * const sellerDocument = await prisma.sellerDocument.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends SellerDocumentFindFirstArgs>(args?: Prisma.SelectSubset<T, SellerDocumentFindFirstArgs<ExtArgs>>): Prisma.Prisma__SellerDocumentClient<runtime.Types.Result.GetResult<Prisma.$SellerDocumentPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first SellerDocument that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SellerDocumentFindFirstOrThrowArgs} args - Arguments to find a SellerDocument
+   * @example
+   * // Get one SellerDocument
+   * const sellerDocument = await prisma.sellerDocument.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends SellerDocumentFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, SellerDocumentFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__SellerDocumentClient<runtime.Types.Result.GetResult<Prisma.$SellerDocumentPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more SellerDocuments that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SellerDocumentFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all SellerDocuments
+   * const sellerDocuments = await prisma.sellerDocument.findMany()
+   * 
+   * // Get first 10 SellerDocuments
+   * const sellerDocuments = await prisma.sellerDocument.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const sellerDocumentWithIdOnly = await prisma.sellerDocument.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends SellerDocumentFindManyArgs>(args?: Prisma.SelectSubset<T, SellerDocumentFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SellerDocumentPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a SellerDocument.
+   * @param {SellerDocumentCreateArgs} args - Arguments to create a SellerDocument.
+   * @example
+   * // Create one SellerDocument
+   * const SellerDocument = await prisma.sellerDocument.create({
+   *   data: {
+   *     // ... data to create a SellerDocument
+   *   }
+   * })
+   * 
+   */
+  create<T extends SellerDocumentCreateArgs>(args: Prisma.SelectSubset<T, SellerDocumentCreateArgs<ExtArgs>>): Prisma.Prisma__SellerDocumentClient<runtime.Types.Result.GetResult<Prisma.$SellerDocumentPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many SellerDocuments.
+   * @param {SellerDocumentCreateManyArgs} args - Arguments to create many SellerDocuments.
+   * @example
+   * // Create many SellerDocuments
+   * const sellerDocument = await prisma.sellerDocument.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends SellerDocumentCreateManyArgs>(args?: Prisma.SelectSubset<T, SellerDocumentCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many SellerDocuments and returns the data saved in the database.
+   * @param {SellerDocumentCreateManyAndReturnArgs} args - Arguments to create many SellerDocuments.
+   * @example
+   * // Create many SellerDocuments
+   * const sellerDocument = await prisma.sellerDocument.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many SellerDocuments and only return the `id`
+   * const sellerDocumentWithIdOnly = await prisma.sellerDocument.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends SellerDocumentCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, SellerDocumentCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SellerDocumentPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a SellerDocument.
+   * @param {SellerDocumentDeleteArgs} args - Arguments to delete one SellerDocument.
+   * @example
+   * // Delete one SellerDocument
+   * const SellerDocument = await prisma.sellerDocument.delete({
+   *   where: {
+   *     // ... filter to delete one SellerDocument
+   *   }
+   * })
+   * 
+   */
+  delete<T extends SellerDocumentDeleteArgs>(args: Prisma.SelectSubset<T, SellerDocumentDeleteArgs<ExtArgs>>): Prisma.Prisma__SellerDocumentClient<runtime.Types.Result.GetResult<Prisma.$SellerDocumentPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one SellerDocument.
+   * @param {SellerDocumentUpdateArgs} args - Arguments to update one SellerDocument.
+   * @example
+   * // Update one SellerDocument
+   * const sellerDocument = await prisma.sellerDocument.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends SellerDocumentUpdateArgs>(args: Prisma.SelectSubset<T, SellerDocumentUpdateArgs<ExtArgs>>): Prisma.Prisma__SellerDocumentClient<runtime.Types.Result.GetResult<Prisma.$SellerDocumentPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more SellerDocuments.
+   * @param {SellerDocumentDeleteManyArgs} args - Arguments to filter SellerDocuments to delete.
+   * @example
+   * // Delete a few SellerDocuments
+   * const { count } = await prisma.sellerDocument.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends SellerDocumentDeleteManyArgs>(args?: Prisma.SelectSubset<T, SellerDocumentDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more SellerDocuments.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SellerDocumentUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many SellerDocuments
+   * const sellerDocument = await prisma.sellerDocument.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends SellerDocumentUpdateManyArgs>(args: Prisma.SelectSubset<T, SellerDocumentUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more SellerDocuments and returns the data updated in the database.
+   * @param {SellerDocumentUpdateManyAndReturnArgs} args - Arguments to update many SellerDocuments.
+   * @example
+   * // Update many SellerDocuments
+   * const sellerDocument = await prisma.sellerDocument.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more SellerDocuments and only return the `id`
+   * const sellerDocumentWithIdOnly = await prisma.sellerDocument.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends SellerDocumentUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, SellerDocumentUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SellerDocumentPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one SellerDocument.
+   * @param {SellerDocumentUpsertArgs} args - Arguments to update or create a SellerDocument.
+   * @example
+   * // Update or create a SellerDocument
+   * const sellerDocument = await prisma.sellerDocument.upsert({
+   *   create: {
+   *     // ... data to create a SellerDocument
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the SellerDocument we want to update
+   *   }
+   * })
+   */
+  upsert<T extends SellerDocumentUpsertArgs>(args: Prisma.SelectSubset<T, SellerDocumentUpsertArgs<ExtArgs>>): Prisma.Prisma__SellerDocumentClient<runtime.Types.Result.GetResult<Prisma.$SellerDocumentPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of SellerDocuments.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SellerDocumentCountArgs} args - Arguments to filter SellerDocuments to count.
+   * @example
+   * // Count the number of SellerDocuments
+   * const count = await prisma.sellerDocument.count({
+   *   where: {
+   *     // ... the filter for the SellerDocuments we want to count
+   *   }
+   * })
+  **/
+  count<T extends SellerDocumentCountArgs>(
+    args?: Prisma.Subset<T, SellerDocumentCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], SellerDocumentCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a SellerDocument.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SellerDocumentAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends SellerDocumentAggregateArgs>(args: Prisma.Subset<T, SellerDocumentAggregateArgs>): Prisma.PrismaPromise<GetSellerDocumentAggregateType<T>>
+
+  /**
+   * Group by SellerDocument.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SellerDocumentGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends SellerDocumentGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: SellerDocumentGroupByArgs['orderBy'] }
+      : { orderBy?: SellerDocumentGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, SellerDocumentGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetSellerDocumentGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the SellerDocument model
+ */
+readonly fields: SellerDocumentFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for SellerDocument.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__SellerDocumentClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  application<T extends Prisma.SellerApplicationDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.SellerApplicationDefaultArgs<ExtArgs>>): Prisma.Prisma__SellerApplicationClient<runtime.Types.Result.GetResult<Prisma.$SellerApplicationPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the SellerDocument model
+ */
+export interface SellerDocumentFieldRefs {
+  readonly id: Prisma.FieldRef<"SellerDocument", 'String'>
+  readonly applicationId: Prisma.FieldRef<"SellerDocument", 'String'>
+  readonly type: Prisma.FieldRef<"SellerDocument", 'SellerDocumentType'>
+  readonly fileUrl: Prisma.FieldRef<"SellerDocument", 'String'>
+  readonly fileName: Prisma.FieldRef<"SellerDocument", 'String'>
+  readonly createdAt: Prisma.FieldRef<"SellerDocument", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * SellerDocument findUnique
+ */
+export type SellerDocumentFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SellerDocument
+   */
+  select?: Prisma.SellerDocumentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SellerDocument
+   */
+  omit?: Prisma.SellerDocumentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SellerDocumentInclude<ExtArgs> | null
+  /**
+   * Filter, which SellerDocument to fetch.
+   */
+  where: Prisma.SellerDocumentWhereUniqueInput
+}
+
+/**
+ * SellerDocument findUniqueOrThrow
+ */
+export type SellerDocumentFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SellerDocument
+   */
+  select?: Prisma.SellerDocumentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SellerDocument
+   */
+  omit?: Prisma.SellerDocumentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SellerDocumentInclude<ExtArgs> | null
+  /**
+   * Filter, which SellerDocument to fetch.
+   */
+  where: Prisma.SellerDocumentWhereUniqueInput
+}
+
+/**
+ * SellerDocument findFirst
+ */
+export type SellerDocumentFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SellerDocument
+   */
+  select?: Prisma.SellerDocumentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SellerDocument
+   */
+  omit?: Prisma.SellerDocumentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SellerDocumentInclude<ExtArgs> | null
+  /**
+   * Filter, which SellerDocument to fetch.
+   */
+  where?: Prisma.SellerDocumentWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of SellerDocuments to fetch.
+   */
+  orderBy?: Prisma.SellerDocumentOrderByWithRelationInput | Prisma.SellerDocumentOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for SellerDocuments.
+   */
+  cursor?: Prisma.SellerDocumentWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` SellerDocuments from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` SellerDocuments.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of SellerDocuments.
+   */
+  distinct?: Prisma.SellerDocumentScalarFieldEnum | Prisma.SellerDocumentScalarFieldEnum[]
+}
+
+/**
+ * SellerDocument findFirstOrThrow
+ */
+export type SellerDocumentFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SellerDocument
+   */
+  select?: Prisma.SellerDocumentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SellerDocument
+   */
+  omit?: Prisma.SellerDocumentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SellerDocumentInclude<ExtArgs> | null
+  /**
+   * Filter, which SellerDocument to fetch.
+   */
+  where?: Prisma.SellerDocumentWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of SellerDocuments to fetch.
+   */
+  orderBy?: Prisma.SellerDocumentOrderByWithRelationInput | Prisma.SellerDocumentOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for SellerDocuments.
+   */
+  cursor?: Prisma.SellerDocumentWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` SellerDocuments from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` SellerDocuments.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of SellerDocuments.
+   */
+  distinct?: Prisma.SellerDocumentScalarFieldEnum | Prisma.SellerDocumentScalarFieldEnum[]
+}
+
+/**
+ * SellerDocument findMany
+ */
+export type SellerDocumentFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SellerDocument
+   */
+  select?: Prisma.SellerDocumentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SellerDocument
+   */
+  omit?: Prisma.SellerDocumentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SellerDocumentInclude<ExtArgs> | null
+  /**
+   * Filter, which SellerDocuments to fetch.
+   */
+  where?: Prisma.SellerDocumentWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of SellerDocuments to fetch.
+   */
+  orderBy?: Prisma.SellerDocumentOrderByWithRelationInput | Prisma.SellerDocumentOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing SellerDocuments.
+   */
+  cursor?: Prisma.SellerDocumentWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` SellerDocuments from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` SellerDocuments.
+   */
+  skip?: number
+  distinct?: Prisma.SellerDocumentScalarFieldEnum | Prisma.SellerDocumentScalarFieldEnum[]
+}
+
+/**
+ * SellerDocument create
+ */
+export type SellerDocumentCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SellerDocument
+   */
+  select?: Prisma.SellerDocumentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SellerDocument
+   */
+  omit?: Prisma.SellerDocumentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SellerDocumentInclude<ExtArgs> | null
+  /**
+   * The data needed to create a SellerDocument.
+   */
+  data: Prisma.XOR<Prisma.SellerDocumentCreateInput, Prisma.SellerDocumentUncheckedCreateInput>
+}
+
+/**
+ * SellerDocument createMany
+ */
+export type SellerDocumentCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many SellerDocuments.
+   */
+  data: Prisma.SellerDocumentCreateManyInput | Prisma.SellerDocumentCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * SellerDocument createManyAndReturn
+ */
+export type SellerDocumentCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SellerDocument
+   */
+  select?: Prisma.SellerDocumentSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the SellerDocument
+   */
+  omit?: Prisma.SellerDocumentOmit<ExtArgs> | null
+  /**
+   * The data used to create many SellerDocuments.
+   */
+  data: Prisma.SellerDocumentCreateManyInput | Prisma.SellerDocumentCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SellerDocumentIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * SellerDocument update
+ */
+export type SellerDocumentUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SellerDocument
+   */
+  select?: Prisma.SellerDocumentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SellerDocument
+   */
+  omit?: Prisma.SellerDocumentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SellerDocumentInclude<ExtArgs> | null
+  /**
+   * The data needed to update a SellerDocument.
+   */
+  data: Prisma.XOR<Prisma.SellerDocumentUpdateInput, Prisma.SellerDocumentUncheckedUpdateInput>
+  /**
+   * Choose, which SellerDocument to update.
+   */
+  where: Prisma.SellerDocumentWhereUniqueInput
+}
+
+/**
+ * SellerDocument updateMany
+ */
+export type SellerDocumentUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update SellerDocuments.
+   */
+  data: Prisma.XOR<Prisma.SellerDocumentUpdateManyMutationInput, Prisma.SellerDocumentUncheckedUpdateManyInput>
+  /**
+   * Filter which SellerDocuments to update
+   */
+  where?: Prisma.SellerDocumentWhereInput
+  /**
+   * Limit how many SellerDocuments to update.
+   */
+  limit?: number
+}
+
+/**
+ * SellerDocument updateManyAndReturn
+ */
+export type SellerDocumentUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SellerDocument
+   */
+  select?: Prisma.SellerDocumentSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the SellerDocument
+   */
+  omit?: Prisma.SellerDocumentOmit<ExtArgs> | null
+  /**
+   * The data used to update SellerDocuments.
+   */
+  data: Prisma.XOR<Prisma.SellerDocumentUpdateManyMutationInput, Prisma.SellerDocumentUncheckedUpdateManyInput>
+  /**
+   * Filter which SellerDocuments to update
+   */
+  where?: Prisma.SellerDocumentWhereInput
+  /**
+   * Limit how many SellerDocuments to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SellerDocumentIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * SellerDocument upsert
+ */
+export type SellerDocumentUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SellerDocument
+   */
+  select?: Prisma.SellerDocumentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SellerDocument
+   */
+  omit?: Prisma.SellerDocumentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SellerDocumentInclude<ExtArgs> | null
+  /**
+   * The filter to search for the SellerDocument to update in case it exists.
+   */
+  where: Prisma.SellerDocumentWhereUniqueInput
+  /**
+   * In case the SellerDocument found by the `where` argument doesn't exist, create a new SellerDocument with this data.
+   */
+  create: Prisma.XOR<Prisma.SellerDocumentCreateInput, Prisma.SellerDocumentUncheckedCreateInput>
+  /**
+   * In case the SellerDocument was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.SellerDocumentUpdateInput, Prisma.SellerDocumentUncheckedUpdateInput>
+}
+
+/**
+ * SellerDocument delete
+ */
+export type SellerDocumentDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SellerDocument
+   */
+  select?: Prisma.SellerDocumentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SellerDocument
+   */
+  omit?: Prisma.SellerDocumentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SellerDocumentInclude<ExtArgs> | null
+  /**
+   * Filter which SellerDocument to delete.
+   */
+  where: Prisma.SellerDocumentWhereUniqueInput
+}
+
+/**
+ * SellerDocument deleteMany
+ */
+export type SellerDocumentDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which SellerDocuments to delete
+   */
+  where?: Prisma.SellerDocumentWhereInput
+  /**
+   * Limit how many SellerDocuments to delete.
+   */
+  limit?: number
+}
+
+/**
+ * SellerDocument without action
+ */
+export type SellerDocumentDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SellerDocument
+   */
+  select?: Prisma.SellerDocumentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SellerDocument
+   */
+  omit?: Prisma.SellerDocumentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SellerDocumentInclude<ExtArgs> | null
+}
@@ -0,0 +1,2015 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `SellerLedgerEntry` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model SellerLedgerEntry
+ * 
+ */
+export type SellerLedgerEntryModel = runtime.Types.Result.DefaultSelection<Prisma.$SellerLedgerEntryPayload>
+
+export type AggregateSellerLedgerEntry = {
+  _count: SellerLedgerEntryCountAggregateOutputType | null
+  _avg: SellerLedgerEntryAvgAggregateOutputType | null
+  _sum: SellerLedgerEntrySumAggregateOutputType | null
+  _min: SellerLedgerEntryMinAggregateOutputType | null
+  _max: SellerLedgerEntryMaxAggregateOutputType | null
+}
+
+export type SellerLedgerEntryAvgAggregateOutputType = {
+  amount: runtime.Decimal | null
+  grossAmount: runtime.Decimal | null
+  commission: runtime.Decimal | null
+  commissionRate: number | null
+}
+
+export type SellerLedgerEntrySumAggregateOutputType = {
+  amount: runtime.Decimal | null
+  grossAmount: runtime.Decimal | null
+  commission: runtime.Decimal | null
+  commissionRate: number | null
+}
+
+export type SellerLedgerEntryMinAggregateOutputType = {
+  id: string | null
+  sellerId: string | null
+  type: $Enums.LedgerEntryType | null
+  amount: runtime.Decimal | null
+  grossAmount: runtime.Decimal | null
+  commission: runtime.Decimal | null
+  commissionRate: number | null
+  orderId: string | null
+  orderItemId: string | null
+  refundId: string | null
+  payoutId: string | null
+  description: string | null
+  createdAt: Date | null
+}
+
+export type SellerLedgerEntryMaxAggregateOutputType = {
+  id: string | null
+  sellerId: string | null
+  type: $Enums.LedgerEntryType | null
+  amount: runtime.Decimal | null
+  grossAmount: runtime.Decimal | null
+  commission: runtime.Decimal | null
+  commissionRate: number | null
+  orderId: string | null
+  orderItemId: string | null
+  refundId: string | null
+  payoutId: string | null
+  description: string | null
+  createdAt: Date | null
+}
+
+export type SellerLedgerEntryCountAggregateOutputType = {
+  id: number
+  sellerId: number
+  type: number
+  amount: number
+  grossAmount: number
+  commission: number
+  commissionRate: number
+  orderId: number
+  orderItemId: number
+  refundId: number
+  payoutId: number
+  description: number
+  createdAt: number
+  _all: number
+}
+
+
+export type SellerLedgerEntryAvgAggregateInputType = {
+  amount?: true
+  grossAmount?: true
+  commission?: true
+  commissionRate?: true
+}
+
+export type SellerLedgerEntrySumAggregateInputType = {
+  amount?: true
+  grossAmount?: true
+  commission?: true
+  commissionRate?: true
+}
+
+export type SellerLedgerEntryMinAggregateInputType = {
+  id?: true
+  sellerId?: true
+  type?: true
+  amount?: true
+  grossAmount?: true
+  commission?: true
+  commissionRate?: true
+  orderId?: true
+  orderItemId?: true
+  refundId?: true
+  payoutId?: true
+  description?: true
+  createdAt?: true
+}
+
+export type SellerLedgerEntryMaxAggregateInputType = {
+  id?: true
+  sellerId?: true
+  type?: true
+  amount?: true
+  grossAmount?: true
+  commission?: true
+  commissionRate?: true
+  orderId?: true
+  orderItemId?: true
+  refundId?: true
+  payoutId?: true
+  description?: true
+  createdAt?: true
+}
+
+export type SellerLedgerEntryCountAggregateInputType = {
+  id?: true
+  sellerId?: true
+  type?: true
+  amount?: true
+  grossAmount?: true
+  commission?: true
+  commissionRate?: true
+  orderId?: true
+  orderItemId?: true
+  refundId?: true
+  payoutId?: true
+  description?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type SellerLedgerEntryAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which SellerLedgerEntry to aggregate.
+   */
+  where?: Prisma.SellerLedgerEntryWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of SellerLedgerEntries to fetch.
+   */
+  orderBy?: Prisma.SellerLedgerEntryOrderByWithRelationInput | Prisma.SellerLedgerEntryOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.SellerLedgerEntryWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` SellerLedgerEntries from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` SellerLedgerEntries.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned SellerLedgerEntries
+  **/
+  _count?: true | SellerLedgerEntryCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: SellerLedgerEntryAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: SellerLedgerEntrySumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: SellerLedgerEntryMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: SellerLedgerEntryMaxAggregateInputType
+}
+
+export type GetSellerLedgerEntryAggregateType<T extends SellerLedgerEntryAggregateArgs> = {
+      [P in keyof T & keyof AggregateSellerLedgerEntry]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateSellerLedgerEntry[P]>
+    : Prisma.GetScalarType<T[P], AggregateSellerLedgerEntry[P]>
+}
+
+
+
+
+export type SellerLedgerEntryGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.SellerLedgerEntryWhereInput
+  orderBy?: Prisma.SellerLedgerEntryOrderByWithAggregationInput | Prisma.SellerLedgerEntryOrderByWithAggregationInput[]
+  by: Prisma.SellerLedgerEntryScalarFieldEnum[] | Prisma.SellerLedgerEntryScalarFieldEnum
+  having?: Prisma.SellerLedgerEntryScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: SellerLedgerEntryCountAggregateInputType | true
+  _avg?: SellerLedgerEntryAvgAggregateInputType
+  _sum?: SellerLedgerEntrySumAggregateInputType
+  _min?: SellerLedgerEntryMinAggregateInputType
+  _max?: SellerLedgerEntryMaxAggregateInputType
+}
+
+export type SellerLedgerEntryGroupByOutputType = {
+  id: string
+  sellerId: string
+  type: $Enums.LedgerEntryType
+  amount: runtime.Decimal
+  grossAmount: runtime.Decimal | null
+  commission: runtime.Decimal | null
+  commissionRate: number | null
+  orderId: string | null
+  orderItemId: string | null
+  refundId: string | null
+  payoutId: string | null
+  description: string | null
+  createdAt: Date
+  _count: SellerLedgerEntryCountAggregateOutputType | null
+  _avg: SellerLedgerEntryAvgAggregateOutputType | null
+  _sum: SellerLedgerEntrySumAggregateOutputType | null
+  _min: SellerLedgerEntryMinAggregateOutputType | null
+  _max: SellerLedgerEntryMaxAggregateOutputType | null
+}
+
+type GetSellerLedgerEntryGroupByPayload<T extends SellerLedgerEntryGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<SellerLedgerEntryGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof SellerLedgerEntryGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], SellerLedgerEntryGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], SellerLedgerEntryGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type SellerLedgerEntryWhereInput = {
+  AND?: Prisma.SellerLedgerEntryWhereInput | Prisma.SellerLedgerEntryWhereInput[]
+  OR?: Prisma.SellerLedgerEntryWhereInput[]
+  NOT?: Prisma.SellerLedgerEntryWhereInput | Prisma.SellerLedgerEntryWhereInput[]
+  id?: Prisma.StringFilter<"SellerLedgerEntry"> | string
+  sellerId?: Prisma.StringFilter<"SellerLedgerEntry"> | string
+  type?: Prisma.EnumLedgerEntryTypeFilter<"SellerLedgerEntry"> | $Enums.LedgerEntryType
+  amount?: Prisma.DecimalFilter<"SellerLedgerEntry"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  grossAmount?: Prisma.DecimalNullableFilter<"SellerLedgerEntry"> | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  commission?: Prisma.DecimalNullableFilter<"SellerLedgerEntry"> | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  commissionRate?: Prisma.FloatNullableFilter<"SellerLedgerEntry"> | number | null
+  orderId?: Prisma.StringNullableFilter<"SellerLedgerEntry"> | string | null
+  orderItemId?: Prisma.StringNullableFilter<"SellerLedgerEntry"> | string | null
+  refundId?: Prisma.StringNullableFilter<"SellerLedgerEntry"> | string | null
+  payoutId?: Prisma.StringNullableFilter<"SellerLedgerEntry"> | string | null
+  description?: Prisma.StringNullableFilter<"SellerLedgerEntry"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"SellerLedgerEntry"> | Date | string
+  seller?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+  orderItem?: Prisma.XOR<Prisma.OrderItemNullableScalarRelationFilter, Prisma.OrderItemWhereInput> | null
+  payout?: Prisma.XOR<Prisma.PayoutRequestNullableScalarRelationFilter, Prisma.PayoutRequestWhereInput> | null
+}
+
+export type SellerLedgerEntryOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  sellerId?: Prisma.SortOrder
+  type?: Prisma.SortOrder
+  amount?: Prisma.SortOrder
+  grossAmount?: Prisma.SortOrderInput | Prisma.SortOrder
+  commission?: Prisma.SortOrderInput | Prisma.SortOrder
+  commissionRate?: Prisma.SortOrderInput | Prisma.SortOrder
+  orderId?: Prisma.SortOrderInput | Prisma.SortOrder
+  orderItemId?: Prisma.SortOrderInput | Prisma.SortOrder
+  refundId?: Prisma.SortOrderInput | Prisma.SortOrder
+  payoutId?: Prisma.SortOrderInput | Prisma.SortOrder
+  description?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  seller?: Prisma.UserOrderByWithRelationInput
+  orderItem?: Prisma.OrderItemOrderByWithRelationInput
+  payout?: Prisma.PayoutRequestOrderByWithRelationInput
+}
+
+export type SellerLedgerEntryWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  refundId?: string
+  payoutId?: string
+  AND?: Prisma.SellerLedgerEntryWhereInput | Prisma.SellerLedgerEntryWhereInput[]
+  OR?: Prisma.SellerLedgerEntryWhereInput[]
+  NOT?: Prisma.SellerLedgerEntryWhereInput | Prisma.SellerLedgerEntryWhereInput[]
+  sellerId?: Prisma.StringFilter<"SellerLedgerEntry"> | string
+  type?: Prisma.EnumLedgerEntryTypeFilter<"SellerLedgerEntry"> | $Enums.LedgerEntryType
+  amount?: Prisma.DecimalFilter<"SellerLedgerEntry"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  grossAmount?: Prisma.DecimalNullableFilter<"SellerLedgerEntry"> | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  commission?: Prisma.DecimalNullableFilter<"SellerLedgerEntry"> | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  commissionRate?: Prisma.FloatNullableFilter<"SellerLedgerEntry"> | number | null
+  orderId?: Prisma.StringNullableFilter<"SellerLedgerEntry"> | string | null
+  orderItemId?: Prisma.StringNullableFilter<"SellerLedgerEntry"> | string | null
+  description?: Prisma.StringNullableFilter<"SellerLedgerEntry"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"SellerLedgerEntry"> | Date | string
+  seller?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+  orderItem?: Prisma.XOR<Prisma.OrderItemNullableScalarRelationFilter, Prisma.OrderItemWhereInput> | null
+  payout?: Prisma.XOR<Prisma.PayoutRequestNullableScalarRelationFilter, Prisma.PayoutRequestWhereInput> | null
+}, "id" | "refundId" | "payoutId">
+
+export type SellerLedgerEntryOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  sellerId?: Prisma.SortOrder
+  type?: Prisma.SortOrder
+  amount?: Prisma.SortOrder
+  grossAmount?: Prisma.SortOrderInput | Prisma.SortOrder
+  commission?: Prisma.SortOrderInput | Prisma.SortOrder
+  commissionRate?: Prisma.SortOrderInput | Prisma.SortOrder
+  orderId?: Prisma.SortOrderInput | Prisma.SortOrder
+  orderItemId?: Prisma.SortOrderInput | Prisma.SortOrder
+  refundId?: Prisma.SortOrderInput | Prisma.SortOrder
+  payoutId?: Prisma.SortOrderInput | Prisma.SortOrder
+  description?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.SellerLedgerEntryCountOrderByAggregateInput
+  _avg?: Prisma.SellerLedgerEntryAvgOrderByAggregateInput
+  _max?: Prisma.SellerLedgerEntryMaxOrderByAggregateInput
+  _min?: Prisma.SellerLedgerEntryMinOrderByAggregateInput
+  _sum?: Prisma.SellerLedgerEntrySumOrderByAggregateInput
+}
+
+export type SellerLedgerEntryScalarWhereWithAggregatesInput = {
+  AND?: Prisma.SellerLedgerEntryScalarWhereWithAggregatesInput | Prisma.SellerLedgerEntryScalarWhereWithAggregatesInput[]
+  OR?: Prisma.SellerLedgerEntryScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.SellerLedgerEntryScalarWhereWithAggregatesInput | Prisma.SellerLedgerEntryScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"SellerLedgerEntry"> | string
+  sellerId?: Prisma.StringWithAggregatesFilter<"SellerLedgerEntry"> | string
+  type?: Prisma.EnumLedgerEntryTypeWithAggregatesFilter<"SellerLedgerEntry"> | $Enums.LedgerEntryType
+  amount?: Prisma.DecimalWithAggregatesFilter<"SellerLedgerEntry"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  grossAmount?: Prisma.DecimalNullableWithAggregatesFilter<"SellerLedgerEntry"> | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  commission?: Prisma.DecimalNullableWithAggregatesFilter<"SellerLedgerEntry"> | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  commissionRate?: Prisma.FloatNullableWithAggregatesFilter<"SellerLedgerEntry"> | number | null
+  orderId?: Prisma.StringNullableWithAggregatesFilter<"SellerLedgerEntry"> | string | null
+  orderItemId?: Prisma.StringNullableWithAggregatesFilter<"SellerLedgerEntry"> | string | null
+  refundId?: Prisma.StringNullableWithAggregatesFilter<"SellerLedgerEntry"> | string | null
+  payoutId?: Prisma.StringNullableWithAggregatesFilter<"SellerLedgerEntry"> | string | null
+  description?: Prisma.StringNullableWithAggregatesFilter<"SellerLedgerEntry"> | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"SellerLedgerEntry"> | Date | string
+}
+
+export type SellerLedgerEntryCreateInput = {
+  id?: string
+  type: $Enums.LedgerEntryType
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  grossAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  commission?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  commissionRate?: number | null
+  orderId?: string | null
+  refundId?: string | null
+  description?: string | null
+  createdAt?: Date | string
+  seller: Prisma.UserCreateNestedOneWithoutLedgerEntriesInput
+  orderItem?: Prisma.OrderItemCreateNestedOneWithoutLedgerEntriesInput
+  payout?: Prisma.PayoutRequestCreateNestedOneWithoutLedgerEntryInput
+}
+
+export type SellerLedgerEntryUncheckedCreateInput = {
+  id?: string
+  sellerId: string
+  type: $Enums.LedgerEntryType
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  grossAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  commission?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  commissionRate?: number | null
+  orderId?: string | null
+  orderItemId?: string | null
+  refundId?: string | null
+  payoutId?: string | null
+  description?: string | null
+  createdAt?: Date | string
+}
+
+export type SellerLedgerEntryUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  type?: Prisma.EnumLedgerEntryTypeFieldUpdateOperationsInput | $Enums.LedgerEntryType
+  amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  grossAmount?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  commission?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  commissionRate?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  orderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  refundId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  seller?: Prisma.UserUpdateOneRequiredWithoutLedgerEntriesNestedInput
+  orderItem?: Prisma.OrderItemUpdateOneWithoutLedgerEntriesNestedInput
+  payout?: Prisma.PayoutRequestUpdateOneWithoutLedgerEntryNestedInput
+}
+
+export type SellerLedgerEntryUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  sellerId?: Prisma.StringFieldUpdateOperationsInput | string
+  type?: Prisma.EnumLedgerEntryTypeFieldUpdateOperationsInput | $Enums.LedgerEntryType
+  amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  grossAmount?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  commission?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  commissionRate?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  orderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  orderItemId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  refundId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  payoutId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type SellerLedgerEntryCreateManyInput = {
+  id?: string
+  sellerId: string
+  type: $Enums.LedgerEntryType
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  grossAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  commission?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  commissionRate?: number | null
+  orderId?: string | null
+  orderItemId?: string | null
+  refundId?: string | null
+  payoutId?: string | null
+  description?: string | null
+  createdAt?: Date | string
+}
+
+export type SellerLedgerEntryUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  type?: Prisma.EnumLedgerEntryTypeFieldUpdateOperationsInput | $Enums.LedgerEntryType
+  amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  grossAmount?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  commission?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  commissionRate?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  orderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  refundId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type SellerLedgerEntryUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  sellerId?: Prisma.StringFieldUpdateOperationsInput | string
+  type?: Prisma.EnumLedgerEntryTypeFieldUpdateOperationsInput | $Enums.LedgerEntryType
+  amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  grossAmount?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  commission?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  commissionRate?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  orderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  orderItemId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  refundId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  payoutId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type SellerLedgerEntryListRelationFilter = {
+  every?: Prisma.SellerLedgerEntryWhereInput
+  some?: Prisma.SellerLedgerEntryWhereInput
+  none?: Prisma.SellerLedgerEntryWhereInput
+}
+
+export type SellerLedgerEntryOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type SellerLedgerEntryCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  sellerId?: Prisma.SortOrder
+  type?: Prisma.SortOrder
+  amount?: Prisma.SortOrder
+  grossAmount?: Prisma.SortOrder
+  commission?: Prisma.SortOrder
+  commissionRate?: Prisma.SortOrder
+  orderId?: Prisma.SortOrder
+  orderItemId?: Prisma.SortOrder
+  refundId?: Prisma.SortOrder
+  payoutId?: Prisma.SortOrder
+  description?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type SellerLedgerEntryAvgOrderByAggregateInput = {
+  amount?: Prisma.SortOrder
+  grossAmount?: Prisma.SortOrder
+  commission?: Prisma.SortOrder
+  commissionRate?: Prisma.SortOrder
+}
+
+export type SellerLedgerEntryMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  sellerId?: Prisma.SortOrder
+  type?: Prisma.SortOrder
+  amount?: Prisma.SortOrder
+  grossAmount?: Prisma.SortOrder
+  commission?: Prisma.SortOrder
+  commissionRate?: Prisma.SortOrder
+  orderId?: Prisma.SortOrder
+  orderItemId?: Prisma.SortOrder
+  refundId?: Prisma.SortOrder
+  payoutId?: Prisma.SortOrder
+  description?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type SellerLedgerEntryMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  sellerId?: Prisma.SortOrder
+  type?: Prisma.SortOrder
+  amount?: Prisma.SortOrder
+  grossAmount?: Prisma.SortOrder
+  commission?: Prisma.SortOrder
+  commissionRate?: Prisma.SortOrder
+  orderId?: Prisma.SortOrder
+  orderItemId?: Prisma.SortOrder
+  refundId?: Prisma.SortOrder
+  payoutId?: Prisma.SortOrder
+  description?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type SellerLedgerEntrySumOrderByAggregateInput = {
+  amount?: Prisma.SortOrder
+  grossAmount?: Prisma.SortOrder
+  commission?: Prisma.SortOrder
+  commissionRate?: Prisma.SortOrder
+}
+
+export type SellerLedgerEntryNullableScalarRelationFilter = {
+  is?: Prisma.SellerLedgerEntryWhereInput | null
+  isNot?: Prisma.SellerLedgerEntryWhereInput | null
+}
+
+export type SellerLedgerEntryCreateNestedManyWithoutOrderItemInput = {
+  create?: Prisma.XOR<Prisma.SellerLedgerEntryCreateWithoutOrderItemInput, Prisma.SellerLedgerEntryUncheckedCreateWithoutOrderItemInput> | Prisma.SellerLedgerEntryCreateWithoutOrderItemInput[] | Prisma.SellerLedgerEntryUncheckedCreateWithoutOrderItemInput[]
+  connectOrCreate?: Prisma.SellerLedgerEntryCreateOrConnectWithoutOrderItemInput | Prisma.SellerLedgerEntryCreateOrConnectWithoutOrderItemInput[]
+  createMany?: Prisma.SellerLedgerEntryCreateManyOrderItemInputEnvelope
+  connect?: Prisma.SellerLedgerEntryWhereUniqueInput | Prisma.SellerLedgerEntryWhereUniqueInput[]
+}
+
+export type SellerLedgerEntryUncheckedCreateNestedManyWithoutOrderItemInput = {
+  create?: Prisma.XOR<Prisma.SellerLedgerEntryCreateWithoutOrderItemInput, Prisma.SellerLedgerEntryUncheckedCreateWithoutOrderItemInput> | Prisma.SellerLedgerEntryCreateWithoutOrderItemInput[] | Prisma.SellerLedgerEntryUncheckedCreateWithoutOrderItemInput[]
+  connectOrCreate?: Prisma.SellerLedgerEntryCreateOrConnectWithoutOrderItemInput | Prisma.SellerLedgerEntryCreateOrConnectWithoutOrderItemInput[]
+  createMany?: Prisma.SellerLedgerEntryCreateManyOrderItemInputEnvelope
+  connect?: Prisma.SellerLedgerEntryWhereUniqueInput | Prisma.SellerLedgerEntryWhereUniqueInput[]
+}
+
+export type SellerLedgerEntryUpdateManyWithoutOrderItemNestedInput = {
+  create?: Prisma.XOR<Prisma.SellerLedgerEntryCreateWithoutOrderItemInput, Prisma.SellerLedgerEntryUncheckedCreateWithoutOrderItemInput> | Prisma.SellerLedgerEntryCreateWithoutOrderItemInput[] | Prisma.SellerLedgerEntryUncheckedCreateWithoutOrderItemInput[]
+  connectOrCreate?: Prisma.SellerLedgerEntryCreateOrConnectWithoutOrderItemInput | Prisma.SellerLedgerEntryCreateOrConnectWithoutOrderItemInput[]
+  upsert?: Prisma.SellerLedgerEntryUpsertWithWhereUniqueWithoutOrderItemInput | Prisma.SellerLedgerEntryUpsertWithWhereUniqueWithoutOrderItemInput[]
+  createMany?: Prisma.SellerLedgerEntryCreateManyOrderItemInputEnvelope
+  set?: Prisma.SellerLedgerEntryWhereUniqueInput | Prisma.SellerLedgerEntryWhereUniqueInput[]
+  disconnect?: Prisma.SellerLedgerEntryWhereUniqueInput | Prisma.SellerLedgerEntryWhereUniqueInput[]
+  delete?: Prisma.SellerLedgerEntryWhereUniqueInput | Prisma.SellerLedgerEntryWhereUniqueInput[]
+  connect?: Prisma.SellerLedgerEntryWhereUniqueInput | Prisma.SellerLedgerEntryWhereUniqueInput[]
+  update?: Prisma.SellerLedgerEntryUpdateWithWhereUniqueWithoutOrderItemInput | Prisma.SellerLedgerEntryUpdateWithWhereUniqueWithoutOrderItemInput[]
+  updateMany?: Prisma.SellerLedgerEntryUpdateManyWithWhereWithoutOrderItemInput | Prisma.SellerLedgerEntryUpdateManyWithWhereWithoutOrderItemInput[]
+  deleteMany?: Prisma.SellerLedgerEntryScalarWhereInput | Prisma.SellerLedgerEntryScalarWhereInput[]
+}
+
+export type SellerLedgerEntryUncheckedUpdateManyWithoutOrderItemNestedInput = {
+  create?: Prisma.XOR<Prisma.SellerLedgerEntryCreateWithoutOrderItemInput, Prisma.SellerLedgerEntryUncheckedCreateWithoutOrderItemInput> | Prisma.SellerLedgerEntryCreateWithoutOrderItemInput[] | Prisma.SellerLedgerEntryUncheckedCreateWithoutOrderItemInput[]
+  connectOrCreate?: Prisma.SellerLedgerEntryCreateOrConnectWithoutOrderItemInput | Prisma.SellerLedgerEntryCreateOrConnectWithoutOrderItemInput[]
+  upsert?: Prisma.SellerLedgerEntryUpsertWithWhereUniqueWithoutOrderItemInput | Prisma.SellerLedgerEntryUpsertWithWhereUniqueWithoutOrderItemInput[]
+  createMany?: Prisma.SellerLedgerEntryCreateManyOrderItemInputEnvelope
+  set?: Prisma.SellerLedgerEntryWhereUniqueInput | Prisma.SellerLedgerEntryWhereUniqueInput[]
+  disconnect?: Prisma.SellerLedgerEntryWhereUniqueInput | Prisma.SellerLedgerEntryWhereUniqueInput[]
+  delete?: Prisma.SellerLedgerEntryWhereUniqueInput | Prisma.SellerLedgerEntryWhereUniqueInput[]
+  connect?: Prisma.SellerLedgerEntryWhereUniqueInput | Prisma.SellerLedgerEntryWhereUniqueInput[]
+  update?: Prisma.SellerLedgerEntryUpdateWithWhereUniqueWithoutOrderItemInput | Prisma.SellerLedgerEntryUpdateWithWhereUniqueWithoutOrderItemInput[]
+  updateMany?: Prisma.SellerLedgerEntryUpdateManyWithWhereWithoutOrderItemInput | Prisma.SellerLedgerEntryUpdateManyWithWhereWithoutOrderItemInput[]
+  deleteMany?: Prisma.SellerLedgerEntryScalarWhereInput | Prisma.SellerLedgerEntryScalarWhereInput[]
+}
+
+export type EnumLedgerEntryTypeFieldUpdateOperationsInput = {
+  set?: $Enums.LedgerEntryType
+}
+
+export type SellerLedgerEntryCreateNestedOneWithoutPayoutInput = {
+  create?: Prisma.XOR<Prisma.SellerLedgerEntryCreateWithoutPayoutInput, Prisma.SellerLedgerEntryUncheckedCreateWithoutPayoutInput>
+  connectOrCreate?: Prisma.SellerLedgerEntryCreateOrConnectWithoutPayoutInput
+  connect?: Prisma.SellerLedgerEntryWhereUniqueInput
+}
+
+export type SellerLedgerEntryUncheckedCreateNestedOneWithoutPayoutInput = {
+  create?: Prisma.XOR<Prisma.SellerLedgerEntryCreateWithoutPayoutInput, Prisma.SellerLedgerEntryUncheckedCreateWithoutPayoutInput>
+  connectOrCreate?: Prisma.SellerLedgerEntryCreateOrConnectWithoutPayoutInput
+  connect?: Prisma.SellerLedgerEntryWhereUniqueInput
+}
+
+export type SellerLedgerEntryUpdateOneWithoutPayoutNestedInput = {
+  create?: Prisma.XOR<Prisma.SellerLedgerEntryCreateWithoutPayoutInput, Prisma.SellerLedgerEntryUncheckedCreateWithoutPayoutInput>
+  connectOrCreate?: Prisma.SellerLedgerEntryCreateOrConnectWithoutPayoutInput
+  upsert?: Prisma.SellerLedgerEntryUpsertWithoutPayoutInput
+  disconnect?: Prisma.SellerLedgerEntryWhereInput | boolean
+  delete?: Prisma.SellerLedgerEntryWhereInput | boolean
+  connect?: Prisma.SellerLedgerEntryWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.SellerLedgerEntryUpdateToOneWithWhereWithoutPayoutInput, Prisma.SellerLedgerEntryUpdateWithoutPayoutInput>, Prisma.SellerLedgerEntryUncheckedUpdateWithoutPayoutInput>
+}
+
+export type SellerLedgerEntryUncheckedUpdateOneWithoutPayoutNestedInput = {
+  create?: Prisma.XOR<Prisma.SellerLedgerEntryCreateWithoutPayoutInput, Prisma.SellerLedgerEntryUncheckedCreateWithoutPayoutInput>
+  connectOrCreate?: Prisma.SellerLedgerEntryCreateOrConnectWithoutPayoutInput
+  upsert?: Prisma.SellerLedgerEntryUpsertWithoutPayoutInput
+  disconnect?: Prisma.SellerLedgerEntryWhereInput | boolean
+  delete?: Prisma.SellerLedgerEntryWhereInput | boolean
+  connect?: Prisma.SellerLedgerEntryWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.SellerLedgerEntryUpdateToOneWithWhereWithoutPayoutInput, Prisma.SellerLedgerEntryUpdateWithoutPayoutInput>, Prisma.SellerLedgerEntryUncheckedUpdateWithoutPayoutInput>
+}
+
+export type SellerLedgerEntryCreateNestedManyWithoutSellerInput = {
+  create?: Prisma.XOR<Prisma.SellerLedgerEntryCreateWithoutSellerInput, Prisma.SellerLedgerEntryUncheckedCreateWithoutSellerInput> | Prisma.SellerLedgerEntryCreateWithoutSellerInput[] | Prisma.SellerLedgerEntryUncheckedCreateWithoutSellerInput[]
+  connectOrCreate?: Prisma.SellerLedgerEntryCreateOrConnectWithoutSellerInput | Prisma.SellerLedgerEntryCreateOrConnectWithoutSellerInput[]
+  createMany?: Prisma.SellerLedgerEntryCreateManySellerInputEnvelope
+  connect?: Prisma.SellerLedgerEntryWhereUniqueInput | Prisma.SellerLedgerEntryWhereUniqueInput[]
+}
+
+export type SellerLedgerEntryUncheckedCreateNestedManyWithoutSellerInput = {
+  create?: Prisma.XOR<Prisma.SellerLedgerEntryCreateWithoutSellerInput, Prisma.SellerLedgerEntryUncheckedCreateWithoutSellerInput> | Prisma.SellerLedgerEntryCreateWithoutSellerInput[] | Prisma.SellerLedgerEntryUncheckedCreateWithoutSellerInput[]
+  connectOrCreate?: Prisma.SellerLedgerEntryCreateOrConnectWithoutSellerInput | Prisma.SellerLedgerEntryCreateOrConnectWithoutSellerInput[]
+  createMany?: Prisma.SellerLedgerEntryCreateManySellerInputEnvelope
+  connect?: Prisma.SellerLedgerEntryWhereUniqueInput | Prisma.SellerLedgerEntryWhereUniqueInput[]
+}
+
+export type SellerLedgerEntryUpdateManyWithoutSellerNestedInput = {
+  create?: Prisma.XOR<Prisma.SellerLedgerEntryCreateWithoutSellerInput, Prisma.SellerLedgerEntryUncheckedCreateWithoutSellerInput> | Prisma.SellerLedgerEntryCreateWithoutSellerInput[] | Prisma.SellerLedgerEntryUncheckedCreateWithoutSellerInput[]
+  connectOrCreate?: Prisma.SellerLedgerEntryCreateOrConnectWithoutSellerInput | Prisma.SellerLedgerEntryCreateOrConnectWithoutSellerInput[]
+  upsert?: Prisma.SellerLedgerEntryUpsertWithWhereUniqueWithoutSellerInput | Prisma.SellerLedgerEntryUpsertWithWhereUniqueWithoutSellerInput[]
+  createMany?: Prisma.SellerLedgerEntryCreateManySellerInputEnvelope
+  set?: Prisma.SellerLedgerEntryWhereUniqueInput | Prisma.SellerLedgerEntryWhereUniqueInput[]
+  disconnect?: Prisma.SellerLedgerEntryWhereUniqueInput | Prisma.SellerLedgerEntryWhereUniqueInput[]
+  delete?: Prisma.SellerLedgerEntryWhereUniqueInput | Prisma.SellerLedgerEntryWhereUniqueInput[]
+  connect?: Prisma.SellerLedgerEntryWhereUniqueInput | Prisma.SellerLedgerEntryWhereUniqueInput[]
+  update?: Prisma.SellerLedgerEntryUpdateWithWhereUniqueWithoutSellerInput | Prisma.SellerLedgerEntryUpdateWithWhereUniqueWithoutSellerInput[]
+  updateMany?: Prisma.SellerLedgerEntryUpdateManyWithWhereWithoutSellerInput | Prisma.SellerLedgerEntryUpdateManyWithWhereWithoutSellerInput[]
+  deleteMany?: Prisma.SellerLedgerEntryScalarWhereInput | Prisma.SellerLedgerEntryScalarWhereInput[]
+}
+
+export type SellerLedgerEntryUncheckedUpdateManyWithoutSellerNestedInput = {
+  create?: Prisma.XOR<Prisma.SellerLedgerEntryCreateWithoutSellerInput, Prisma.SellerLedgerEntryUncheckedCreateWithoutSellerInput> | Prisma.SellerLedgerEntryCreateWithoutSellerInput[] | Prisma.SellerLedgerEntryUncheckedCreateWithoutSellerInput[]
+  connectOrCreate?: Prisma.SellerLedgerEntryCreateOrConnectWithoutSellerInput | Prisma.SellerLedgerEntryCreateOrConnectWithoutSellerInput[]
+  upsert?: Prisma.SellerLedgerEntryUpsertWithWhereUniqueWithoutSellerInput | Prisma.SellerLedgerEntryUpsertWithWhereUniqueWithoutSellerInput[]
+  createMany?: Prisma.SellerLedgerEntryCreateManySellerInputEnvelope
+  set?: Prisma.SellerLedgerEntryWhereUniqueInput | Prisma.SellerLedgerEntryWhereUniqueInput[]
+  disconnect?: Prisma.SellerLedgerEntryWhereUniqueInput | Prisma.SellerLedgerEntryWhereUniqueInput[]
+  delete?: Prisma.SellerLedgerEntryWhereUniqueInput | Prisma.SellerLedgerEntryWhereUniqueInput[]
+  connect?: Prisma.SellerLedgerEntryWhereUniqueInput | Prisma.SellerLedgerEntryWhereUniqueInput[]
+  update?: Prisma.SellerLedgerEntryUpdateWithWhereUniqueWithoutSellerInput | Prisma.SellerLedgerEntryUpdateWithWhereUniqueWithoutSellerInput[]
+  updateMany?: Prisma.SellerLedgerEntryUpdateManyWithWhereWithoutSellerInput | Prisma.SellerLedgerEntryUpdateManyWithWhereWithoutSellerInput[]
+  deleteMany?: Prisma.SellerLedgerEntryScalarWhereInput | Prisma.SellerLedgerEntryScalarWhereInput[]
+}
+
+export type SellerLedgerEntryCreateWithoutOrderItemInput = {
+  id?: string
+  type: $Enums.LedgerEntryType
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  grossAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  commission?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  commissionRate?: number | null
+  orderId?: string | null
+  refundId?: string | null
+  description?: string | null
+  createdAt?: Date | string
+  seller: Prisma.UserCreateNestedOneWithoutLedgerEntriesInput
+  payout?: Prisma.PayoutRequestCreateNestedOneWithoutLedgerEntryInput
+}
+
+export type SellerLedgerEntryUncheckedCreateWithoutOrderItemInput = {
+  id?: string
+  sellerId: string
+  type: $Enums.LedgerEntryType
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  grossAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  commission?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  commissionRate?: number | null
+  orderId?: string | null
+  refundId?: string | null
+  payoutId?: string | null
+  description?: string | null
+  createdAt?: Date | string
+}
+
+export type SellerLedgerEntryCreateOrConnectWithoutOrderItemInput = {
+  where: Prisma.SellerLedgerEntryWhereUniqueInput
+  create: Prisma.XOR<Prisma.SellerLedgerEntryCreateWithoutOrderItemInput, Prisma.SellerLedgerEntryUncheckedCreateWithoutOrderItemInput>
+}
+
+export type SellerLedgerEntryCreateManyOrderItemInputEnvelope = {
+  data: Prisma.SellerLedgerEntryCreateManyOrderItemInput | Prisma.SellerLedgerEntryCreateManyOrderItemInput[]
+  skipDuplicates?: boolean
+}
+
+export type SellerLedgerEntryUpsertWithWhereUniqueWithoutOrderItemInput = {
+  where: Prisma.SellerLedgerEntryWhereUniqueInput
+  update: Prisma.XOR<Prisma.SellerLedgerEntryUpdateWithoutOrderItemInput, Prisma.SellerLedgerEntryUncheckedUpdateWithoutOrderItemInput>
+  create: Prisma.XOR<Prisma.SellerLedgerEntryCreateWithoutOrderItemInput, Prisma.SellerLedgerEntryUncheckedCreateWithoutOrderItemInput>
+}
+
+export type SellerLedgerEntryUpdateWithWhereUniqueWithoutOrderItemInput = {
+  where: Prisma.SellerLedgerEntryWhereUniqueInput
+  data: Prisma.XOR<Prisma.SellerLedgerEntryUpdateWithoutOrderItemInput, Prisma.SellerLedgerEntryUncheckedUpdateWithoutOrderItemInput>
+}
+
+export type SellerLedgerEntryUpdateManyWithWhereWithoutOrderItemInput = {
+  where: Prisma.SellerLedgerEntryScalarWhereInput
+  data: Prisma.XOR<Prisma.SellerLedgerEntryUpdateManyMutationInput, Prisma.SellerLedgerEntryUncheckedUpdateManyWithoutOrderItemInput>
+}
+
+export type SellerLedgerEntryScalarWhereInput = {
+  AND?: Prisma.SellerLedgerEntryScalarWhereInput | Prisma.SellerLedgerEntryScalarWhereInput[]
+  OR?: Prisma.SellerLedgerEntryScalarWhereInput[]
+  NOT?: Prisma.SellerLedgerEntryScalarWhereInput | Prisma.SellerLedgerEntryScalarWhereInput[]
+  id?: Prisma.StringFilter<"SellerLedgerEntry"> | string
+  sellerId?: Prisma.StringFilter<"SellerLedgerEntry"> | string
+  type?: Prisma.EnumLedgerEntryTypeFilter<"SellerLedgerEntry"> | $Enums.LedgerEntryType
+  amount?: Prisma.DecimalFilter<"SellerLedgerEntry"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  grossAmount?: Prisma.DecimalNullableFilter<"SellerLedgerEntry"> | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  commission?: Prisma.DecimalNullableFilter<"SellerLedgerEntry"> | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  commissionRate?: Prisma.FloatNullableFilter<"SellerLedgerEntry"> | number | null
+  orderId?: Prisma.StringNullableFilter<"SellerLedgerEntry"> | string | null
+  orderItemId?: Prisma.StringNullableFilter<"SellerLedgerEntry"> | string | null
+  refundId?: Prisma.StringNullableFilter<"SellerLedgerEntry"> | string | null
+  payoutId?: Prisma.StringNullableFilter<"SellerLedgerEntry"> | string | null
+  description?: Prisma.StringNullableFilter<"SellerLedgerEntry"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"SellerLedgerEntry"> | Date | string
+}
+
+export type SellerLedgerEntryCreateWithoutPayoutInput = {
+  id?: string
+  type: $Enums.LedgerEntryType
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  grossAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  commission?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  commissionRate?: number | null
+  orderId?: string | null
+  refundId?: string | null
+  description?: string | null
+  createdAt?: Date | string
+  seller: Prisma.UserCreateNestedOneWithoutLedgerEntriesInput
+  orderItem?: Prisma.OrderItemCreateNestedOneWithoutLedgerEntriesInput
+}
+
+export type SellerLedgerEntryUncheckedCreateWithoutPayoutInput = {
+  id?: string
+  sellerId: string
+  type: $Enums.LedgerEntryType
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  grossAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  commission?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  commissionRate?: number | null
+  orderId?: string | null
+  orderItemId?: string | null
+  refundId?: string | null
+  description?: string | null
+  createdAt?: Date | string
+}
+
+export type SellerLedgerEntryCreateOrConnectWithoutPayoutInput = {
+  where: Prisma.SellerLedgerEntryWhereUniqueInput
+  create: Prisma.XOR<Prisma.SellerLedgerEntryCreateWithoutPayoutInput, Prisma.SellerLedgerEntryUncheckedCreateWithoutPayoutInput>
+}
+
+export type SellerLedgerEntryUpsertWithoutPayoutInput = {
+  update: Prisma.XOR<Prisma.SellerLedgerEntryUpdateWithoutPayoutInput, Prisma.SellerLedgerEntryUncheckedUpdateWithoutPayoutInput>
+  create: Prisma.XOR<Prisma.SellerLedgerEntryCreateWithoutPayoutInput, Prisma.SellerLedgerEntryUncheckedCreateWithoutPayoutInput>
+  where?: Prisma.SellerLedgerEntryWhereInput
+}
+
+export type SellerLedgerEntryUpdateToOneWithWhereWithoutPayoutInput = {
+  where?: Prisma.SellerLedgerEntryWhereInput
+  data: Prisma.XOR<Prisma.SellerLedgerEntryUpdateWithoutPayoutInput, Prisma.SellerLedgerEntryUncheckedUpdateWithoutPayoutInput>
+}
+
+export type SellerLedgerEntryUpdateWithoutPayoutInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  type?: Prisma.EnumLedgerEntryTypeFieldUpdateOperationsInput | $Enums.LedgerEntryType
+  amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  grossAmount?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  commission?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  commissionRate?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  orderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  refundId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  seller?: Prisma.UserUpdateOneRequiredWithoutLedgerEntriesNestedInput
+  orderItem?: Prisma.OrderItemUpdateOneWithoutLedgerEntriesNestedInput
+}
+
+export type SellerLedgerEntryUncheckedUpdateWithoutPayoutInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  sellerId?: Prisma.StringFieldUpdateOperationsInput | string
+  type?: Prisma.EnumLedgerEntryTypeFieldUpdateOperationsInput | $Enums.LedgerEntryType
+  amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  grossAmount?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  commission?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  commissionRate?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  orderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  orderItemId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  refundId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type SellerLedgerEntryCreateWithoutSellerInput = {
+  id?: string
+  type: $Enums.LedgerEntryType
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  grossAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  commission?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  commissionRate?: number | null
+  orderId?: string | null
+  refundId?: string | null
+  description?: string | null
+  createdAt?: Date | string
+  orderItem?: Prisma.OrderItemCreateNestedOneWithoutLedgerEntriesInput
+  payout?: Prisma.PayoutRequestCreateNestedOneWithoutLedgerEntryInput
+}
+
+export type SellerLedgerEntryUncheckedCreateWithoutSellerInput = {
+  id?: string
+  type: $Enums.LedgerEntryType
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  grossAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  commission?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  commissionRate?: number | null
+  orderId?: string | null
+  orderItemId?: string | null
+  refundId?: string | null
+  payoutId?: string | null
+  description?: string | null
+  createdAt?: Date | string
+}
+
+export type SellerLedgerEntryCreateOrConnectWithoutSellerInput = {
+  where: Prisma.SellerLedgerEntryWhereUniqueInput
+  create: Prisma.XOR<Prisma.SellerLedgerEntryCreateWithoutSellerInput, Prisma.SellerLedgerEntryUncheckedCreateWithoutSellerInput>
+}
+
+export type SellerLedgerEntryCreateManySellerInputEnvelope = {
+  data: Prisma.SellerLedgerEntryCreateManySellerInput | Prisma.SellerLedgerEntryCreateManySellerInput[]
+  skipDuplicates?: boolean
+}
+
+export type SellerLedgerEntryUpsertWithWhereUniqueWithoutSellerInput = {
+  where: Prisma.SellerLedgerEntryWhereUniqueInput
+  update: Prisma.XOR<Prisma.SellerLedgerEntryUpdateWithoutSellerInput, Prisma.SellerLedgerEntryUncheckedUpdateWithoutSellerInput>
+  create: Prisma.XOR<Prisma.SellerLedgerEntryCreateWithoutSellerInput, Prisma.SellerLedgerEntryUncheckedCreateWithoutSellerInput>
+}
+
+export type SellerLedgerEntryUpdateWithWhereUniqueWithoutSellerInput = {
+  where: Prisma.SellerLedgerEntryWhereUniqueInput
+  data: Prisma.XOR<Prisma.SellerLedgerEntryUpdateWithoutSellerInput, Prisma.SellerLedgerEntryUncheckedUpdateWithoutSellerInput>
+}
+
+export type SellerLedgerEntryUpdateManyWithWhereWithoutSellerInput = {
+  where: Prisma.SellerLedgerEntryScalarWhereInput
+  data: Prisma.XOR<Prisma.SellerLedgerEntryUpdateManyMutationInput, Prisma.SellerLedgerEntryUncheckedUpdateManyWithoutSellerInput>
+}
+
+export type SellerLedgerEntryCreateManyOrderItemInput = {
+  id?: string
+  sellerId: string
+  type: $Enums.LedgerEntryType
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  grossAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  commission?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  commissionRate?: number | null
+  orderId?: string | null
+  refundId?: string | null
+  payoutId?: string | null
+  description?: string | null
+  createdAt?: Date | string
+}
+
+export type SellerLedgerEntryUpdateWithoutOrderItemInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  type?: Prisma.EnumLedgerEntryTypeFieldUpdateOperationsInput | $Enums.LedgerEntryType
+  amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  grossAmount?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  commission?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  commissionRate?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  orderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  refundId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  seller?: Prisma.UserUpdateOneRequiredWithoutLedgerEntriesNestedInput
+  payout?: Prisma.PayoutRequestUpdateOneWithoutLedgerEntryNestedInput
+}
+
+export type SellerLedgerEntryUncheckedUpdateWithoutOrderItemInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  sellerId?: Prisma.StringFieldUpdateOperationsInput | string
+  type?: Prisma.EnumLedgerEntryTypeFieldUpdateOperationsInput | $Enums.LedgerEntryType
+  amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  grossAmount?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  commission?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  commissionRate?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  orderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  refundId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  payoutId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type SellerLedgerEntryUncheckedUpdateManyWithoutOrderItemInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  sellerId?: Prisma.StringFieldUpdateOperationsInput | string
+  type?: Prisma.EnumLedgerEntryTypeFieldUpdateOperationsInput | $Enums.LedgerEntryType
+  amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  grossAmount?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  commission?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  commissionRate?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  orderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  refundId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  payoutId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type SellerLedgerEntryCreateManySellerInput = {
+  id?: string
+  type: $Enums.LedgerEntryType
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  grossAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  commission?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  commissionRate?: number | null
+  orderId?: string | null
+  orderItemId?: string | null
+  refundId?: string | null
+  payoutId?: string | null
+  description?: string | null
+  createdAt?: Date | string
+}
+
+export type SellerLedgerEntryUpdateWithoutSellerInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  type?: Prisma.EnumLedgerEntryTypeFieldUpdateOperationsInput | $Enums.LedgerEntryType
+  amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  grossAmount?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  commission?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  commissionRate?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  orderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  refundId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  orderItem?: Prisma.OrderItemUpdateOneWithoutLedgerEntriesNestedInput
+  payout?: Prisma.PayoutRequestUpdateOneWithoutLedgerEntryNestedInput
+}
+
+export type SellerLedgerEntryUncheckedUpdateWithoutSellerInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  type?: Prisma.EnumLedgerEntryTypeFieldUpdateOperationsInput | $Enums.LedgerEntryType
+  amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  grossAmount?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  commission?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  commissionRate?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  orderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  orderItemId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  refundId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  payoutId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type SellerLedgerEntryUncheckedUpdateManyWithoutSellerInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  type?: Prisma.EnumLedgerEntryTypeFieldUpdateOperationsInput | $Enums.LedgerEntryType
+  amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  grossAmount?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  commission?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  commissionRate?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  orderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  orderItemId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  refundId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  payoutId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type SellerLedgerEntrySelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  sellerId?: boolean
+  type?: boolean
+  amount?: boolean
+  grossAmount?: boolean
+  commission?: boolean
+  commissionRate?: boolean
+  orderId?: boolean
+  orderItemId?: boolean
+  refundId?: boolean
+  payoutId?: boolean
+  description?: boolean
+  createdAt?: boolean
+  seller?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  orderItem?: boolean | Prisma.SellerLedgerEntry$orderItemArgs<ExtArgs>
+  payout?: boolean | Prisma.SellerLedgerEntry$payoutArgs<ExtArgs>
+}, ExtArgs["result"]["sellerLedgerEntry"]>
+
+export type SellerLedgerEntrySelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  sellerId?: boolean
+  type?: boolean
+  amount?: boolean
+  grossAmount?: boolean
+  commission?: boolean
+  commissionRate?: boolean
+  orderId?: boolean
+  orderItemId?: boolean
+  refundId?: boolean
+  payoutId?: boolean
+  description?: boolean
+  createdAt?: boolean
+  seller?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  orderItem?: boolean | Prisma.SellerLedgerEntry$orderItemArgs<ExtArgs>
+  payout?: boolean | Prisma.SellerLedgerEntry$payoutArgs<ExtArgs>
+}, ExtArgs["result"]["sellerLedgerEntry"]>
+
+export type SellerLedgerEntrySelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  sellerId?: boolean
+  type?: boolean
+  amount?: boolean
+  grossAmount?: boolean
+  commission?: boolean
+  commissionRate?: boolean
+  orderId?: boolean
+  orderItemId?: boolean
+  refundId?: boolean
+  payoutId?: boolean
+  description?: boolean
+  createdAt?: boolean
+  seller?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  orderItem?: boolean | Prisma.SellerLedgerEntry$orderItemArgs<ExtArgs>
+  payout?: boolean | Prisma.SellerLedgerEntry$payoutArgs<ExtArgs>
+}, ExtArgs["result"]["sellerLedgerEntry"]>
+
+export type SellerLedgerEntrySelectScalar = {
+  id?: boolean
+  sellerId?: boolean
+  type?: boolean
+  amount?: boolean
+  grossAmount?: boolean
+  commission?: boolean
+  commissionRate?: boolean
+  orderId?: boolean
+  orderItemId?: boolean
+  refundId?: boolean
+  payoutId?: boolean
+  description?: boolean
+  createdAt?: boolean
+}
+
+export type SellerLedgerEntryOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "sellerId" | "type" | "amount" | "grossAmount" | "commission" | "commissionRate" | "orderId" | "orderItemId" | "refundId" | "payoutId" | "description" | "createdAt", ExtArgs["result"]["sellerLedgerEntry"]>
+export type SellerLedgerEntryInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  seller?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  orderItem?: boolean | Prisma.SellerLedgerEntry$orderItemArgs<ExtArgs>
+  payout?: boolean | Prisma.SellerLedgerEntry$payoutArgs<ExtArgs>
+}
+export type SellerLedgerEntryIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  seller?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  orderItem?: boolean | Prisma.SellerLedgerEntry$orderItemArgs<ExtArgs>
+  payout?: boolean | Prisma.SellerLedgerEntry$payoutArgs<ExtArgs>
+}
+export type SellerLedgerEntryIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  seller?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  orderItem?: boolean | Prisma.SellerLedgerEntry$orderItemArgs<ExtArgs>
+  payout?: boolean | Prisma.SellerLedgerEntry$payoutArgs<ExtArgs>
+}
+
+export type $SellerLedgerEntryPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "SellerLedgerEntry"
+  objects: {
+    seller: Prisma.$UserPayload<ExtArgs>
+    orderItem: Prisma.$OrderItemPayload<ExtArgs> | null
+    payout: Prisma.$PayoutRequestPayload<ExtArgs> | null
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    sellerId: string
+    type: $Enums.LedgerEntryType
+    amount: runtime.Decimal
+    grossAmount: runtime.Decimal | null
+    commission: runtime.Decimal | null
+    commissionRate: number | null
+    orderId: string | null
+    orderItemId: string | null
+    refundId: string | null
+    payoutId: string | null
+    description: string | null
+    createdAt: Date
+  }, ExtArgs["result"]["sellerLedgerEntry"]>
+  composites: {}
+}
+
+export type SellerLedgerEntryGetPayload<S extends boolean | null | undefined | SellerLedgerEntryDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$SellerLedgerEntryPayload, S>
+
+export type SellerLedgerEntryCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<SellerLedgerEntryFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: SellerLedgerEntryCountAggregateInputType | true
+  }
+
+export interface SellerLedgerEntryDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['SellerLedgerEntry'], meta: { name: 'SellerLedgerEntry' } }
+  /**
+   * Find zero or one SellerLedgerEntry that matches the filter.
+   * @param {SellerLedgerEntryFindUniqueArgs} args - Arguments to find a SellerLedgerEntry
+   * @example
+   * // Get one SellerLedgerEntry
+   * const sellerLedgerEntry = await prisma.sellerLedgerEntry.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends SellerLedgerEntryFindUniqueArgs>(args: Prisma.SelectSubset<T, SellerLedgerEntryFindUniqueArgs<ExtArgs>>): Prisma.Prisma__SellerLedgerEntryClient<runtime.Types.Result.GetResult<Prisma.$SellerLedgerEntryPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one SellerLedgerEntry that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {SellerLedgerEntryFindUniqueOrThrowArgs} args - Arguments to find a SellerLedgerEntry
+   * @example
+   * // Get one SellerLedgerEntry
+   * const sellerLedgerEntry = await prisma.sellerLedgerEntry.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends SellerLedgerEntryFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, SellerLedgerEntryFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__SellerLedgerEntryClient<runtime.Types.Result.GetResult<Prisma.$SellerLedgerEntryPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first SellerLedgerEntry that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SellerLedgerEntryFindFirstArgs} args - Arguments to find a SellerLedgerEntry
+   * @example
+   * // Get one SellerLedgerEntry
+   * const sellerLedgerEntry = await prisma.sellerLedgerEntry.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends SellerLedgerEntryFindFirstArgs>(args?: Prisma.SelectSubset<T, SellerLedgerEntryFindFirstArgs<ExtArgs>>): Prisma.Prisma__SellerLedgerEntryClient<runtime.Types.Result.GetResult<Prisma.$SellerLedgerEntryPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first SellerLedgerEntry that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SellerLedgerEntryFindFirstOrThrowArgs} args - Arguments to find a SellerLedgerEntry
+   * @example
+   * // Get one SellerLedgerEntry
+   * const sellerLedgerEntry = await prisma.sellerLedgerEntry.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends SellerLedgerEntryFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, SellerLedgerEntryFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__SellerLedgerEntryClient<runtime.Types.Result.GetResult<Prisma.$SellerLedgerEntryPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more SellerLedgerEntries that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SellerLedgerEntryFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all SellerLedgerEntries
+   * const sellerLedgerEntries = await prisma.sellerLedgerEntry.findMany()
+   * 
+   * // Get first 10 SellerLedgerEntries
+   * const sellerLedgerEntries = await prisma.sellerLedgerEntry.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const sellerLedgerEntryWithIdOnly = await prisma.sellerLedgerEntry.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends SellerLedgerEntryFindManyArgs>(args?: Prisma.SelectSubset<T, SellerLedgerEntryFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SellerLedgerEntryPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a SellerLedgerEntry.
+   * @param {SellerLedgerEntryCreateArgs} args - Arguments to create a SellerLedgerEntry.
+   * @example
+   * // Create one SellerLedgerEntry
+   * const SellerLedgerEntry = await prisma.sellerLedgerEntry.create({
+   *   data: {
+   *     // ... data to create a SellerLedgerEntry
+   *   }
+   * })
+   * 
+   */
+  create<T extends SellerLedgerEntryCreateArgs>(args: Prisma.SelectSubset<T, SellerLedgerEntryCreateArgs<ExtArgs>>): Prisma.Prisma__SellerLedgerEntryClient<runtime.Types.Result.GetResult<Prisma.$SellerLedgerEntryPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many SellerLedgerEntries.
+   * @param {SellerLedgerEntryCreateManyArgs} args - Arguments to create many SellerLedgerEntries.
+   * @example
+   * // Create many SellerLedgerEntries
+   * const sellerLedgerEntry = await prisma.sellerLedgerEntry.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends SellerLedgerEntryCreateManyArgs>(args?: Prisma.SelectSubset<T, SellerLedgerEntryCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many SellerLedgerEntries and returns the data saved in the database.
+   * @param {SellerLedgerEntryCreateManyAndReturnArgs} args - Arguments to create many SellerLedgerEntries.
+   * @example
+   * // Create many SellerLedgerEntries
+   * const sellerLedgerEntry = await prisma.sellerLedgerEntry.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many SellerLedgerEntries and only return the `id`
+   * const sellerLedgerEntryWithIdOnly = await prisma.sellerLedgerEntry.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends SellerLedgerEntryCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, SellerLedgerEntryCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SellerLedgerEntryPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a SellerLedgerEntry.
+   * @param {SellerLedgerEntryDeleteArgs} args - Arguments to delete one SellerLedgerEntry.
+   * @example
+   * // Delete one SellerLedgerEntry
+   * const SellerLedgerEntry = await prisma.sellerLedgerEntry.delete({
+   *   where: {
+   *     // ... filter to delete one SellerLedgerEntry
+   *   }
+   * })
+   * 
+   */
+  delete<T extends SellerLedgerEntryDeleteArgs>(args: Prisma.SelectSubset<T, SellerLedgerEntryDeleteArgs<ExtArgs>>): Prisma.Prisma__SellerLedgerEntryClient<runtime.Types.Result.GetResult<Prisma.$SellerLedgerEntryPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one SellerLedgerEntry.
+   * @param {SellerLedgerEntryUpdateArgs} args - Arguments to update one SellerLedgerEntry.
+   * @example
+   * // Update one SellerLedgerEntry
+   * const sellerLedgerEntry = await prisma.sellerLedgerEntry.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends SellerLedgerEntryUpdateArgs>(args: Prisma.SelectSubset<T, SellerLedgerEntryUpdateArgs<ExtArgs>>): Prisma.Prisma__SellerLedgerEntryClient<runtime.Types.Result.GetResult<Prisma.$SellerLedgerEntryPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more SellerLedgerEntries.
+   * @param {SellerLedgerEntryDeleteManyArgs} args - Arguments to filter SellerLedgerEntries to delete.
+   * @example
+   * // Delete a few SellerLedgerEntries
+   * const { count } = await prisma.sellerLedgerEntry.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends SellerLedgerEntryDeleteManyArgs>(args?: Prisma.SelectSubset<T, SellerLedgerEntryDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more SellerLedgerEntries.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SellerLedgerEntryUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many SellerLedgerEntries
+   * const sellerLedgerEntry = await prisma.sellerLedgerEntry.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends SellerLedgerEntryUpdateManyArgs>(args: Prisma.SelectSubset<T, SellerLedgerEntryUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more SellerLedgerEntries and returns the data updated in the database.
+   * @param {SellerLedgerEntryUpdateManyAndReturnArgs} args - Arguments to update many SellerLedgerEntries.
+   * @example
+   * // Update many SellerLedgerEntries
+   * const sellerLedgerEntry = await prisma.sellerLedgerEntry.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more SellerLedgerEntries and only return the `id`
+   * const sellerLedgerEntryWithIdOnly = await prisma.sellerLedgerEntry.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends SellerLedgerEntryUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, SellerLedgerEntryUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SellerLedgerEntryPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one SellerLedgerEntry.
+   * @param {SellerLedgerEntryUpsertArgs} args - Arguments to update or create a SellerLedgerEntry.
+   * @example
+   * // Update or create a SellerLedgerEntry
+   * const sellerLedgerEntry = await prisma.sellerLedgerEntry.upsert({
+   *   create: {
+   *     // ... data to create a SellerLedgerEntry
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the SellerLedgerEntry we want to update
+   *   }
+   * })
+   */
+  upsert<T extends SellerLedgerEntryUpsertArgs>(args: Prisma.SelectSubset<T, SellerLedgerEntryUpsertArgs<ExtArgs>>): Prisma.Prisma__SellerLedgerEntryClient<runtime.Types.Result.GetResult<Prisma.$SellerLedgerEntryPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of SellerLedgerEntries.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SellerLedgerEntryCountArgs} args - Arguments to filter SellerLedgerEntries to count.
+   * @example
+   * // Count the number of SellerLedgerEntries
+   * const count = await prisma.sellerLedgerEntry.count({
+   *   where: {
+   *     // ... the filter for the SellerLedgerEntries we want to count
+   *   }
+   * })
+  **/
+  count<T extends SellerLedgerEntryCountArgs>(
+    args?: Prisma.Subset<T, SellerLedgerEntryCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], SellerLedgerEntryCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a SellerLedgerEntry.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SellerLedgerEntryAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends SellerLedgerEntryAggregateArgs>(args: Prisma.Subset<T, SellerLedgerEntryAggregateArgs>): Prisma.PrismaPromise<GetSellerLedgerEntryAggregateType<T>>
+
+  /**
+   * Group by SellerLedgerEntry.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SellerLedgerEntryGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends SellerLedgerEntryGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: SellerLedgerEntryGroupByArgs['orderBy'] }
+      : { orderBy?: SellerLedgerEntryGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, SellerLedgerEntryGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetSellerLedgerEntryGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the SellerLedgerEntry model
+ */
+readonly fields: SellerLedgerEntryFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for SellerLedgerEntry.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__SellerLedgerEntryClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  seller<T extends Prisma.UserDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.UserDefaultArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  orderItem<T extends Prisma.SellerLedgerEntry$orderItemArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.SellerLedgerEntry$orderItemArgs<ExtArgs>>): Prisma.Prisma__OrderItemClient<runtime.Types.Result.GetResult<Prisma.$OrderItemPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  payout<T extends Prisma.SellerLedgerEntry$payoutArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.SellerLedgerEntry$payoutArgs<ExtArgs>>): Prisma.Prisma__PayoutRequestClient<runtime.Types.Result.GetResult<Prisma.$PayoutRequestPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the SellerLedgerEntry model
+ */
+export interface SellerLedgerEntryFieldRefs {
+  readonly id: Prisma.FieldRef<"SellerLedgerEntry", 'String'>
+  readonly sellerId: Prisma.FieldRef<"SellerLedgerEntry", 'String'>
+  readonly type: Prisma.FieldRef<"SellerLedgerEntry", 'LedgerEntryType'>
+  readonly amount: Prisma.FieldRef<"SellerLedgerEntry", 'Decimal'>
+  readonly grossAmount: Prisma.FieldRef<"SellerLedgerEntry", 'Decimal'>
+  readonly commission: Prisma.FieldRef<"SellerLedgerEntry", 'Decimal'>
+  readonly commissionRate: Prisma.FieldRef<"SellerLedgerEntry", 'Float'>
+  readonly orderId: Prisma.FieldRef<"SellerLedgerEntry", 'String'>
+  readonly orderItemId: Prisma.FieldRef<"SellerLedgerEntry", 'String'>
+  readonly refundId: Prisma.FieldRef<"SellerLedgerEntry", 'String'>
+  readonly payoutId: Prisma.FieldRef<"SellerLedgerEntry", 'String'>
+  readonly description: Prisma.FieldRef<"SellerLedgerEntry", 'String'>
+  readonly createdAt: Prisma.FieldRef<"SellerLedgerEntry", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * SellerLedgerEntry findUnique
+ */
+export type SellerLedgerEntryFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SellerLedgerEntry
+   */
+  select?: Prisma.SellerLedgerEntrySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SellerLedgerEntry
+   */
+  omit?: Prisma.SellerLedgerEntryOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SellerLedgerEntryInclude<ExtArgs> | null
+  /**
+   * Filter, which SellerLedgerEntry to fetch.
+   */
+  where: Prisma.SellerLedgerEntryWhereUniqueInput
+}
+
+/**
+ * SellerLedgerEntry findUniqueOrThrow
+ */
+export type SellerLedgerEntryFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SellerLedgerEntry
+   */
+  select?: Prisma.SellerLedgerEntrySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SellerLedgerEntry
+   */
+  omit?: Prisma.SellerLedgerEntryOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SellerLedgerEntryInclude<ExtArgs> | null
+  /**
+   * Filter, which SellerLedgerEntry to fetch.
+   */
+  where: Prisma.SellerLedgerEntryWhereUniqueInput
+}
+
+/**
+ * SellerLedgerEntry findFirst
+ */
+export type SellerLedgerEntryFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SellerLedgerEntry
+   */
+  select?: Prisma.SellerLedgerEntrySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SellerLedgerEntry
+   */
+  omit?: Prisma.SellerLedgerEntryOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SellerLedgerEntryInclude<ExtArgs> | null
+  /**
+   * Filter, which SellerLedgerEntry to fetch.
+   */
+  where?: Prisma.SellerLedgerEntryWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of SellerLedgerEntries to fetch.
+   */
+  orderBy?: Prisma.SellerLedgerEntryOrderByWithRelationInput | Prisma.SellerLedgerEntryOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for SellerLedgerEntries.
+   */
+  cursor?: Prisma.SellerLedgerEntryWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` SellerLedgerEntries from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` SellerLedgerEntries.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of SellerLedgerEntries.
+   */
+  distinct?: Prisma.SellerLedgerEntryScalarFieldEnum | Prisma.SellerLedgerEntryScalarFieldEnum[]
+}
+
+/**
+ * SellerLedgerEntry findFirstOrThrow
+ */
+export type SellerLedgerEntryFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SellerLedgerEntry
+   */
+  select?: Prisma.SellerLedgerEntrySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SellerLedgerEntry
+   */
+  omit?: Prisma.SellerLedgerEntryOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SellerLedgerEntryInclude<ExtArgs> | null
+  /**
+   * Filter, which SellerLedgerEntry to fetch.
+   */
+  where?: Prisma.SellerLedgerEntryWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of SellerLedgerEntries to fetch.
+   */
+  orderBy?: Prisma.SellerLedgerEntryOrderByWithRelationInput | Prisma.SellerLedgerEntryOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for SellerLedgerEntries.
+   */
+  cursor?: Prisma.SellerLedgerEntryWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` SellerLedgerEntries from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` SellerLedgerEntries.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of SellerLedgerEntries.
+   */
+  distinct?: Prisma.SellerLedgerEntryScalarFieldEnum | Prisma.SellerLedgerEntryScalarFieldEnum[]
+}
+
+/**
+ * SellerLedgerEntry findMany
+ */
+export type SellerLedgerEntryFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SellerLedgerEntry
+   */
+  select?: Prisma.SellerLedgerEntrySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SellerLedgerEntry
+   */
+  omit?: Prisma.SellerLedgerEntryOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SellerLedgerEntryInclude<ExtArgs> | null
+  /**
+   * Filter, which SellerLedgerEntries to fetch.
+   */
+  where?: Prisma.SellerLedgerEntryWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of SellerLedgerEntries to fetch.
+   */
+  orderBy?: Prisma.SellerLedgerEntryOrderByWithRelationInput | Prisma.SellerLedgerEntryOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing SellerLedgerEntries.
+   */
+  cursor?: Prisma.SellerLedgerEntryWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` SellerLedgerEntries from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` SellerLedgerEntries.
+   */
+  skip?: number
+  distinct?: Prisma.SellerLedgerEntryScalarFieldEnum | Prisma.SellerLedgerEntryScalarFieldEnum[]
+}
+
+/**
+ * SellerLedgerEntry create
+ */
+export type SellerLedgerEntryCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SellerLedgerEntry
+   */
+  select?: Prisma.SellerLedgerEntrySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SellerLedgerEntry
+   */
+  omit?: Prisma.SellerLedgerEntryOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SellerLedgerEntryInclude<ExtArgs> | null
+  /**
+   * The data needed to create a SellerLedgerEntry.
+   */
+  data: Prisma.XOR<Prisma.SellerLedgerEntryCreateInput, Prisma.SellerLedgerEntryUncheckedCreateInput>
+}
+
+/**
+ * SellerLedgerEntry createMany
+ */
+export type SellerLedgerEntryCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many SellerLedgerEntries.
+   */
+  data: Prisma.SellerLedgerEntryCreateManyInput | Prisma.SellerLedgerEntryCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * SellerLedgerEntry createManyAndReturn
+ */
+export type SellerLedgerEntryCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SellerLedgerEntry
+   */
+  select?: Prisma.SellerLedgerEntrySelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the SellerLedgerEntry
+   */
+  omit?: Prisma.SellerLedgerEntryOmit<ExtArgs> | null
+  /**
+   * The data used to create many SellerLedgerEntries.
+   */
+  data: Prisma.SellerLedgerEntryCreateManyInput | Prisma.SellerLedgerEntryCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SellerLedgerEntryIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * SellerLedgerEntry update
+ */
+export type SellerLedgerEntryUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SellerLedgerEntry
+   */
+  select?: Prisma.SellerLedgerEntrySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SellerLedgerEntry
+   */
+  omit?: Prisma.SellerLedgerEntryOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SellerLedgerEntryInclude<ExtArgs> | null
+  /**
+   * The data needed to update a SellerLedgerEntry.
+   */
+  data: Prisma.XOR<Prisma.SellerLedgerEntryUpdateInput, Prisma.SellerLedgerEntryUncheckedUpdateInput>
+  /**
+   * Choose, which SellerLedgerEntry to update.
+   */
+  where: Prisma.SellerLedgerEntryWhereUniqueInput
+}
+
+/**
+ * SellerLedgerEntry updateMany
+ */
+export type SellerLedgerEntryUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update SellerLedgerEntries.
+   */
+  data: Prisma.XOR<Prisma.SellerLedgerEntryUpdateManyMutationInput, Prisma.SellerLedgerEntryUncheckedUpdateManyInput>
+  /**
+   * Filter which SellerLedgerEntries to update
+   */
+  where?: Prisma.SellerLedgerEntryWhereInput
+  /**
+   * Limit how many SellerLedgerEntries to update.
+   */
+  limit?: number
+}
+
+/**
+ * SellerLedgerEntry updateManyAndReturn
+ */
+export type SellerLedgerEntryUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SellerLedgerEntry
+   */
+  select?: Prisma.SellerLedgerEntrySelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the SellerLedgerEntry
+   */
+  omit?: Prisma.SellerLedgerEntryOmit<ExtArgs> | null
+  /**
+   * The data used to update SellerLedgerEntries.
+   */
+  data: Prisma.XOR<Prisma.SellerLedgerEntryUpdateManyMutationInput, Prisma.SellerLedgerEntryUncheckedUpdateManyInput>
+  /**
+   * Filter which SellerLedgerEntries to update
+   */
+  where?: Prisma.SellerLedgerEntryWhereInput
+  /**
+   * Limit how many SellerLedgerEntries to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SellerLedgerEntryIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * SellerLedgerEntry upsert
+ */
+export type SellerLedgerEntryUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SellerLedgerEntry
+   */
+  select?: Prisma.SellerLedgerEntrySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SellerLedgerEntry
+   */
+  omit?: Prisma.SellerLedgerEntryOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SellerLedgerEntryInclude<ExtArgs> | null
+  /**
+   * The filter to search for the SellerLedgerEntry to update in case it exists.
+   */
+  where: Prisma.SellerLedgerEntryWhereUniqueInput
+  /**
+   * In case the SellerLedgerEntry found by the `where` argument doesn't exist, create a new SellerLedgerEntry with this data.
+   */
+  create: Prisma.XOR<Prisma.SellerLedgerEntryCreateInput, Prisma.SellerLedgerEntryUncheckedCreateInput>
+  /**
+   * In case the SellerLedgerEntry was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.SellerLedgerEntryUpdateInput, Prisma.SellerLedgerEntryUncheckedUpdateInput>
+}
+
+/**
+ * SellerLedgerEntry delete
+ */
+export type SellerLedgerEntryDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SellerLedgerEntry
+   */
+  select?: Prisma.SellerLedgerEntrySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SellerLedgerEntry
+   */
+  omit?: Prisma.SellerLedgerEntryOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SellerLedgerEntryInclude<ExtArgs> | null
+  /**
+   * Filter which SellerLedgerEntry to delete.
+   */
+  where: Prisma.SellerLedgerEntryWhereUniqueInput
+}
+
+/**
+ * SellerLedgerEntry deleteMany
+ */
+export type SellerLedgerEntryDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which SellerLedgerEntries to delete
+   */
+  where?: Prisma.SellerLedgerEntryWhereInput
+  /**
+   * Limit how many SellerLedgerEntries to delete.
+   */
+  limit?: number
+}
+
+/**
+ * SellerLedgerEntry.orderItem
+ */
+export type SellerLedgerEntry$orderItemArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OrderItem
+   */
+  select?: Prisma.OrderItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OrderItem
+   */
+  omit?: Prisma.OrderItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OrderItemInclude<ExtArgs> | null
+  where?: Prisma.OrderItemWhereInput
+}
+
+/**
+ * SellerLedgerEntry.payout
+ */
+export type SellerLedgerEntry$payoutArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PayoutRequest
+   */
+  select?: Prisma.PayoutRequestSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PayoutRequest
+   */
+  omit?: Prisma.PayoutRequestOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PayoutRequestInclude<ExtArgs> | null
+  where?: Prisma.PayoutRequestWhereInput
+}
+
+/**
+ * SellerLedgerEntry without action
+ */
+export type SellerLedgerEntryDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SellerLedgerEntry
+   */
+  select?: Prisma.SellerLedgerEntrySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SellerLedgerEntry
+   */
+  omit?: Prisma.SellerLedgerEntryOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SellerLedgerEntryInclude<ExtArgs> | null
+}
@@ -0,0 +1,1558 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `SellerProfile` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model SellerProfile
+ * 
+ */
+export type SellerProfileModel = runtime.Types.Result.DefaultSelection<Prisma.$SellerProfilePayload>
+
+export type AggregateSellerProfile = {
+  _count: SellerProfileCountAggregateOutputType | null
+  _avg: SellerProfileAvgAggregateOutputType | null
+  _sum: SellerProfileSumAggregateOutputType | null
+  _min: SellerProfileMinAggregateOutputType | null
+  _max: SellerProfileMaxAggregateOutputType | null
+}
+
+export type SellerProfileAvgAggregateOutputType = {
+  rating: number | null
+  reviewCount: number | null
+}
+
+export type SellerProfileSumAggregateOutputType = {
+  rating: number | null
+  reviewCount: number | null
+}
+
+export type SellerProfileMinAggregateOutputType = {
+  id: string | null
+  userId: string | null
+  storeName: string | null
+  slug: string | null
+  logoUrl: string | null
+  description: string | null
+  address: string | null
+  rating: number | null
+  reviewCount: number | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type SellerProfileMaxAggregateOutputType = {
+  id: string | null
+  userId: string | null
+  storeName: string | null
+  slug: string | null
+  logoUrl: string | null
+  description: string | null
+  address: string | null
+  rating: number | null
+  reviewCount: number | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type SellerProfileCountAggregateOutputType = {
+  id: number
+  userId: number
+  storeName: number
+  slug: number
+  logoUrl: number
+  description: number
+  address: number
+  operatingHours: number
+  rating: number
+  reviewCount: number
+  createdAt: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type SellerProfileAvgAggregateInputType = {
+  rating?: true
+  reviewCount?: true
+}
+
+export type SellerProfileSumAggregateInputType = {
+  rating?: true
+  reviewCount?: true
+}
+
+export type SellerProfileMinAggregateInputType = {
+  id?: true
+  userId?: true
+  storeName?: true
+  slug?: true
+  logoUrl?: true
+  description?: true
+  address?: true
+  rating?: true
+  reviewCount?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type SellerProfileMaxAggregateInputType = {
+  id?: true
+  userId?: true
+  storeName?: true
+  slug?: true
+  logoUrl?: true
+  description?: true
+  address?: true
+  rating?: true
+  reviewCount?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type SellerProfileCountAggregateInputType = {
+  id?: true
+  userId?: true
+  storeName?: true
+  slug?: true
+  logoUrl?: true
+  description?: true
+  address?: true
+  operatingHours?: true
+  rating?: true
+  reviewCount?: true
+  createdAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type SellerProfileAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which SellerProfile to aggregate.
+   */
+  where?: Prisma.SellerProfileWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of SellerProfiles to fetch.
+   */
+  orderBy?: Prisma.SellerProfileOrderByWithRelationInput | Prisma.SellerProfileOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.SellerProfileWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` SellerProfiles from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` SellerProfiles.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned SellerProfiles
+  **/
+  _count?: true | SellerProfileCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: SellerProfileAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: SellerProfileSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: SellerProfileMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: SellerProfileMaxAggregateInputType
+}
+
+export type GetSellerProfileAggregateType<T extends SellerProfileAggregateArgs> = {
+      [P in keyof T & keyof AggregateSellerProfile]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateSellerProfile[P]>
+    : Prisma.GetScalarType<T[P], AggregateSellerProfile[P]>
+}
+
+
+
+
+export type SellerProfileGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.SellerProfileWhereInput
+  orderBy?: Prisma.SellerProfileOrderByWithAggregationInput | Prisma.SellerProfileOrderByWithAggregationInput[]
+  by: Prisma.SellerProfileScalarFieldEnum[] | Prisma.SellerProfileScalarFieldEnum
+  having?: Prisma.SellerProfileScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: SellerProfileCountAggregateInputType | true
+  _avg?: SellerProfileAvgAggregateInputType
+  _sum?: SellerProfileSumAggregateInputType
+  _min?: SellerProfileMinAggregateInputType
+  _max?: SellerProfileMaxAggregateInputType
+}
+
+export type SellerProfileGroupByOutputType = {
+  id: string
+  userId: string
+  storeName: string
+  slug: string
+  logoUrl: string | null
+  description: string | null
+  address: string | null
+  operatingHours: runtime.JsonValue | null
+  rating: number | null
+  reviewCount: number
+  createdAt: Date
+  updatedAt: Date
+  _count: SellerProfileCountAggregateOutputType | null
+  _avg: SellerProfileAvgAggregateOutputType | null
+  _sum: SellerProfileSumAggregateOutputType | null
+  _min: SellerProfileMinAggregateOutputType | null
+  _max: SellerProfileMaxAggregateOutputType | null
+}
+
+type GetSellerProfileGroupByPayload<T extends SellerProfileGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<SellerProfileGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof SellerProfileGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], SellerProfileGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], SellerProfileGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type SellerProfileWhereInput = {
+  AND?: Prisma.SellerProfileWhereInput | Prisma.SellerProfileWhereInput[]
+  OR?: Prisma.SellerProfileWhereInput[]
+  NOT?: Prisma.SellerProfileWhereInput | Prisma.SellerProfileWhereInput[]
+  id?: Prisma.StringFilter<"SellerProfile"> | string
+  userId?: Prisma.StringFilter<"SellerProfile"> | string
+  storeName?: Prisma.StringFilter<"SellerProfile"> | string
+  slug?: Prisma.StringFilter<"SellerProfile"> | string
+  logoUrl?: Prisma.StringNullableFilter<"SellerProfile"> | string | null
+  description?: Prisma.StringNullableFilter<"SellerProfile"> | string | null
+  address?: Prisma.StringNullableFilter<"SellerProfile"> | string | null
+  operatingHours?: Prisma.JsonNullableFilter<"SellerProfile">
+  rating?: Prisma.FloatNullableFilter<"SellerProfile"> | number | null
+  reviewCount?: Prisma.IntFilter<"SellerProfile"> | number
+  createdAt?: Prisma.DateTimeFilter<"SellerProfile"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"SellerProfile"> | Date | string
+  user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+}
+
+export type SellerProfileOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  storeName?: Prisma.SortOrder
+  slug?: Prisma.SortOrder
+  logoUrl?: Prisma.SortOrderInput | Prisma.SortOrder
+  description?: Prisma.SortOrderInput | Prisma.SortOrder
+  address?: Prisma.SortOrderInput | Prisma.SortOrder
+  operatingHours?: Prisma.SortOrderInput | Prisma.SortOrder
+  rating?: Prisma.SortOrderInput | Prisma.SortOrder
+  reviewCount?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  user?: Prisma.UserOrderByWithRelationInput
+}
+
+export type SellerProfileWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  userId?: string
+  slug?: string
+  AND?: Prisma.SellerProfileWhereInput | Prisma.SellerProfileWhereInput[]
+  OR?: Prisma.SellerProfileWhereInput[]
+  NOT?: Prisma.SellerProfileWhereInput | Prisma.SellerProfileWhereInput[]
+  storeName?: Prisma.StringFilter<"SellerProfile"> | string
+  logoUrl?: Prisma.StringNullableFilter<"SellerProfile"> | string | null
+  description?: Prisma.StringNullableFilter<"SellerProfile"> | string | null
+  address?: Prisma.StringNullableFilter<"SellerProfile"> | string | null
+  operatingHours?: Prisma.JsonNullableFilter<"SellerProfile">
+  rating?: Prisma.FloatNullableFilter<"SellerProfile"> | number | null
+  reviewCount?: Prisma.IntFilter<"SellerProfile"> | number
+  createdAt?: Prisma.DateTimeFilter<"SellerProfile"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"SellerProfile"> | Date | string
+  user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+}, "id" | "userId" | "slug">
+
+export type SellerProfileOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  storeName?: Prisma.SortOrder
+  slug?: Prisma.SortOrder
+  logoUrl?: Prisma.SortOrderInput | Prisma.SortOrder
+  description?: Prisma.SortOrderInput | Prisma.SortOrder
+  address?: Prisma.SortOrderInput | Prisma.SortOrder
+  operatingHours?: Prisma.SortOrderInput | Prisma.SortOrder
+  rating?: Prisma.SortOrderInput | Prisma.SortOrder
+  reviewCount?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.SellerProfileCountOrderByAggregateInput
+  _avg?: Prisma.SellerProfileAvgOrderByAggregateInput
+  _max?: Prisma.SellerProfileMaxOrderByAggregateInput
+  _min?: Prisma.SellerProfileMinOrderByAggregateInput
+  _sum?: Prisma.SellerProfileSumOrderByAggregateInput
+}
+
+export type SellerProfileScalarWhereWithAggregatesInput = {
+  AND?: Prisma.SellerProfileScalarWhereWithAggregatesInput | Prisma.SellerProfileScalarWhereWithAggregatesInput[]
+  OR?: Prisma.SellerProfileScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.SellerProfileScalarWhereWithAggregatesInput | Prisma.SellerProfileScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"SellerProfile"> | string
+  userId?: Prisma.StringWithAggregatesFilter<"SellerProfile"> | string
+  storeName?: Prisma.StringWithAggregatesFilter<"SellerProfile"> | string
+  slug?: Prisma.StringWithAggregatesFilter<"SellerProfile"> | string
+  logoUrl?: Prisma.StringNullableWithAggregatesFilter<"SellerProfile"> | string | null
+  description?: Prisma.StringNullableWithAggregatesFilter<"SellerProfile"> | string | null
+  address?: Prisma.StringNullableWithAggregatesFilter<"SellerProfile"> | string | null
+  operatingHours?: Prisma.JsonNullableWithAggregatesFilter<"SellerProfile">
+  rating?: Prisma.FloatNullableWithAggregatesFilter<"SellerProfile"> | number | null
+  reviewCount?: Prisma.IntWithAggregatesFilter<"SellerProfile"> | number
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"SellerProfile"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"SellerProfile"> | Date | string
+}
+
+export type SellerProfileCreateInput = {
+  id?: string
+  storeName: string
+  slug: string
+  logoUrl?: string | null
+  description?: string | null
+  address?: string | null
+  operatingHours?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  rating?: number | null
+  reviewCount?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  user: Prisma.UserCreateNestedOneWithoutSellerProfileInput
+}
+
+export type SellerProfileUncheckedCreateInput = {
+  id?: string
+  userId: string
+  storeName: string
+  slug: string
+  logoUrl?: string | null
+  description?: string | null
+  address?: string | null
+  operatingHours?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  rating?: number | null
+  reviewCount?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type SellerProfileUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  storeName?: Prisma.StringFieldUpdateOperationsInput | string
+  slug?: Prisma.StringFieldUpdateOperationsInput | string
+  logoUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  address?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  operatingHours?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  rating?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  reviewCount?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  user?: Prisma.UserUpdateOneRequiredWithoutSellerProfileNestedInput
+}
+
+export type SellerProfileUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  storeName?: Prisma.StringFieldUpdateOperationsInput | string
+  slug?: Prisma.StringFieldUpdateOperationsInput | string
+  logoUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  address?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  operatingHours?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  rating?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  reviewCount?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type SellerProfileCreateManyInput = {
+  id?: string
+  userId: string
+  storeName: string
+  slug: string
+  logoUrl?: string | null
+  description?: string | null
+  address?: string | null
+  operatingHours?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  rating?: number | null
+  reviewCount?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type SellerProfileUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  storeName?: Prisma.StringFieldUpdateOperationsInput | string
+  slug?: Prisma.StringFieldUpdateOperationsInput | string
+  logoUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  address?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  operatingHours?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  rating?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  reviewCount?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type SellerProfileUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  storeName?: Prisma.StringFieldUpdateOperationsInput | string
+  slug?: Prisma.StringFieldUpdateOperationsInput | string
+  logoUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  address?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  operatingHours?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  rating?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  reviewCount?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type SellerProfileCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  storeName?: Prisma.SortOrder
+  slug?: Prisma.SortOrder
+  logoUrl?: Prisma.SortOrder
+  description?: Prisma.SortOrder
+  address?: Prisma.SortOrder
+  operatingHours?: Prisma.SortOrder
+  rating?: Prisma.SortOrder
+  reviewCount?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type SellerProfileAvgOrderByAggregateInput = {
+  rating?: Prisma.SortOrder
+  reviewCount?: Prisma.SortOrder
+}
+
+export type SellerProfileMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  storeName?: Prisma.SortOrder
+  slug?: Prisma.SortOrder
+  logoUrl?: Prisma.SortOrder
+  description?: Prisma.SortOrder
+  address?: Prisma.SortOrder
+  rating?: Prisma.SortOrder
+  reviewCount?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type SellerProfileMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  storeName?: Prisma.SortOrder
+  slug?: Prisma.SortOrder
+  logoUrl?: Prisma.SortOrder
+  description?: Prisma.SortOrder
+  address?: Prisma.SortOrder
+  rating?: Prisma.SortOrder
+  reviewCount?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type SellerProfileSumOrderByAggregateInput = {
+  rating?: Prisma.SortOrder
+  reviewCount?: Prisma.SortOrder
+}
+
+export type SellerProfileNullableScalarRelationFilter = {
+  is?: Prisma.SellerProfileWhereInput | null
+  isNot?: Prisma.SellerProfileWhereInput | null
+}
+
+export type SellerProfileCreateNestedOneWithoutUserInput = {
+  create?: Prisma.XOR<Prisma.SellerProfileCreateWithoutUserInput, Prisma.SellerProfileUncheckedCreateWithoutUserInput>
+  connectOrCreate?: Prisma.SellerProfileCreateOrConnectWithoutUserInput
+  connect?: Prisma.SellerProfileWhereUniqueInput
+}
+
+export type SellerProfileUncheckedCreateNestedOneWithoutUserInput = {
+  create?: Prisma.XOR<Prisma.SellerProfileCreateWithoutUserInput, Prisma.SellerProfileUncheckedCreateWithoutUserInput>
+  connectOrCreate?: Prisma.SellerProfileCreateOrConnectWithoutUserInput
+  connect?: Prisma.SellerProfileWhereUniqueInput
+}
+
+export type SellerProfileUpdateOneWithoutUserNestedInput = {
+  create?: Prisma.XOR<Prisma.SellerProfileCreateWithoutUserInput, Prisma.SellerProfileUncheckedCreateWithoutUserInput>
+  connectOrCreate?: Prisma.SellerProfileCreateOrConnectWithoutUserInput
+  upsert?: Prisma.SellerProfileUpsertWithoutUserInput
+  disconnect?: Prisma.SellerProfileWhereInput | boolean
+  delete?: Prisma.SellerProfileWhereInput | boolean
+  connect?: Prisma.SellerProfileWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.SellerProfileUpdateToOneWithWhereWithoutUserInput, Prisma.SellerProfileUpdateWithoutUserInput>, Prisma.SellerProfileUncheckedUpdateWithoutUserInput>
+}
+
+export type SellerProfileUncheckedUpdateOneWithoutUserNestedInput = {
+  create?: Prisma.XOR<Prisma.SellerProfileCreateWithoutUserInput, Prisma.SellerProfileUncheckedCreateWithoutUserInput>
+  connectOrCreate?: Prisma.SellerProfileCreateOrConnectWithoutUserInput
+  upsert?: Prisma.SellerProfileUpsertWithoutUserInput
+  disconnect?: Prisma.SellerProfileWhereInput | boolean
+  delete?: Prisma.SellerProfileWhereInput | boolean
+  connect?: Prisma.SellerProfileWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.SellerProfileUpdateToOneWithWhereWithoutUserInput, Prisma.SellerProfileUpdateWithoutUserInput>, Prisma.SellerProfileUncheckedUpdateWithoutUserInput>
+}
+
+export type SellerProfileCreateWithoutUserInput = {
+  id?: string
+  storeName: string
+  slug: string
+  logoUrl?: string | null
+  description?: string | null
+  address?: string | null
+  operatingHours?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  rating?: number | null
+  reviewCount?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type SellerProfileUncheckedCreateWithoutUserInput = {
+  id?: string
+  storeName: string
+  slug: string
+  logoUrl?: string | null
+  description?: string | null
+  address?: string | null
+  operatingHours?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  rating?: number | null
+  reviewCount?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type SellerProfileCreateOrConnectWithoutUserInput = {
+  where: Prisma.SellerProfileWhereUniqueInput
+  create: Prisma.XOR<Prisma.SellerProfileCreateWithoutUserInput, Prisma.SellerProfileUncheckedCreateWithoutUserInput>
+}
+
+export type SellerProfileUpsertWithoutUserInput = {
+  update: Prisma.XOR<Prisma.SellerProfileUpdateWithoutUserInput, Prisma.SellerProfileUncheckedUpdateWithoutUserInput>
+  create: Prisma.XOR<Prisma.SellerProfileCreateWithoutUserInput, Prisma.SellerProfileUncheckedCreateWithoutUserInput>
+  where?: Prisma.SellerProfileWhereInput
+}
+
+export type SellerProfileUpdateToOneWithWhereWithoutUserInput = {
+  where?: Prisma.SellerProfileWhereInput
+  data: Prisma.XOR<Prisma.SellerProfileUpdateWithoutUserInput, Prisma.SellerProfileUncheckedUpdateWithoutUserInput>
+}
+
+export type SellerProfileUpdateWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  storeName?: Prisma.StringFieldUpdateOperationsInput | string
+  slug?: Prisma.StringFieldUpdateOperationsInput | string
+  logoUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  address?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  operatingHours?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  rating?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  reviewCount?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type SellerProfileUncheckedUpdateWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  storeName?: Prisma.StringFieldUpdateOperationsInput | string
+  slug?: Prisma.StringFieldUpdateOperationsInput | string
+  logoUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  address?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  operatingHours?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  rating?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  reviewCount?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type SellerProfileSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  userId?: boolean
+  storeName?: boolean
+  slug?: boolean
+  logoUrl?: boolean
+  description?: boolean
+  address?: boolean
+  operatingHours?: boolean
+  rating?: boolean
+  reviewCount?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["sellerProfile"]>
+
+export type SellerProfileSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  userId?: boolean
+  storeName?: boolean
+  slug?: boolean
+  logoUrl?: boolean
+  description?: boolean
+  address?: boolean
+  operatingHours?: boolean
+  rating?: boolean
+  reviewCount?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["sellerProfile"]>
+
+export type SellerProfileSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  userId?: boolean
+  storeName?: boolean
+  slug?: boolean
+  logoUrl?: boolean
+  description?: boolean
+  address?: boolean
+  operatingHours?: boolean
+  rating?: boolean
+  reviewCount?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["sellerProfile"]>
+
+export type SellerProfileSelectScalar = {
+  id?: boolean
+  userId?: boolean
+  storeName?: boolean
+  slug?: boolean
+  logoUrl?: boolean
+  description?: boolean
+  address?: boolean
+  operatingHours?: boolean
+  rating?: boolean
+  reviewCount?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}
+
+export type SellerProfileOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "userId" | "storeName" | "slug" | "logoUrl" | "description" | "address" | "operatingHours" | "rating" | "reviewCount" | "createdAt" | "updatedAt", ExtArgs["result"]["sellerProfile"]>
+export type SellerProfileInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+export type SellerProfileIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+export type SellerProfileIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+
+export type $SellerProfilePayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "SellerProfile"
+  objects: {
+    user: Prisma.$UserPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    userId: string
+    storeName: string
+    slug: string
+    logoUrl: string | null
+    description: string | null
+    address: string | null
+    operatingHours: runtime.JsonValue | null
+    rating: number | null
+    reviewCount: number
+    createdAt: Date
+    updatedAt: Date
+  }, ExtArgs["result"]["sellerProfile"]>
+  composites: {}
+}
+
+export type SellerProfileGetPayload<S extends boolean | null | undefined | SellerProfileDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$SellerProfilePayload, S>
+
+export type SellerProfileCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<SellerProfileFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: SellerProfileCountAggregateInputType | true
+  }
+
+export interface SellerProfileDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['SellerProfile'], meta: { name: 'SellerProfile' } }
+  /**
+   * Find zero or one SellerProfile that matches the filter.
+   * @param {SellerProfileFindUniqueArgs} args - Arguments to find a SellerProfile
+   * @example
+   * // Get one SellerProfile
+   * const sellerProfile = await prisma.sellerProfile.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends SellerProfileFindUniqueArgs>(args: Prisma.SelectSubset<T, SellerProfileFindUniqueArgs<ExtArgs>>): Prisma.Prisma__SellerProfileClient<runtime.Types.Result.GetResult<Prisma.$SellerProfilePayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one SellerProfile that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {SellerProfileFindUniqueOrThrowArgs} args - Arguments to find a SellerProfile
+   * @example
+   * // Get one SellerProfile
+   * const sellerProfile = await prisma.sellerProfile.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends SellerProfileFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, SellerProfileFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__SellerProfileClient<runtime.Types.Result.GetResult<Prisma.$SellerProfilePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first SellerProfile that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SellerProfileFindFirstArgs} args - Arguments to find a SellerProfile
+   * @example
+   * // Get one SellerProfile
+   * const sellerProfile = await prisma.sellerProfile.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends SellerProfileFindFirstArgs>(args?: Prisma.SelectSubset<T, SellerProfileFindFirstArgs<ExtArgs>>): Prisma.Prisma__SellerProfileClient<runtime.Types.Result.GetResult<Prisma.$SellerProfilePayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first SellerProfile that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SellerProfileFindFirstOrThrowArgs} args - Arguments to find a SellerProfile
+   * @example
+   * // Get one SellerProfile
+   * const sellerProfile = await prisma.sellerProfile.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends SellerProfileFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, SellerProfileFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__SellerProfileClient<runtime.Types.Result.GetResult<Prisma.$SellerProfilePayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more SellerProfiles that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SellerProfileFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all SellerProfiles
+   * const sellerProfiles = await prisma.sellerProfile.findMany()
+   * 
+   * // Get first 10 SellerProfiles
+   * const sellerProfiles = await prisma.sellerProfile.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const sellerProfileWithIdOnly = await prisma.sellerProfile.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends SellerProfileFindManyArgs>(args?: Prisma.SelectSubset<T, SellerProfileFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SellerProfilePayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a SellerProfile.
+   * @param {SellerProfileCreateArgs} args - Arguments to create a SellerProfile.
+   * @example
+   * // Create one SellerProfile
+   * const SellerProfile = await prisma.sellerProfile.create({
+   *   data: {
+   *     // ... data to create a SellerProfile
+   *   }
+   * })
+   * 
+   */
+  create<T extends SellerProfileCreateArgs>(args: Prisma.SelectSubset<T, SellerProfileCreateArgs<ExtArgs>>): Prisma.Prisma__SellerProfileClient<runtime.Types.Result.GetResult<Prisma.$SellerProfilePayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many SellerProfiles.
+   * @param {SellerProfileCreateManyArgs} args - Arguments to create many SellerProfiles.
+   * @example
+   * // Create many SellerProfiles
+   * const sellerProfile = await prisma.sellerProfile.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends SellerProfileCreateManyArgs>(args?: Prisma.SelectSubset<T, SellerProfileCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many SellerProfiles and returns the data saved in the database.
+   * @param {SellerProfileCreateManyAndReturnArgs} args - Arguments to create many SellerProfiles.
+   * @example
+   * // Create many SellerProfiles
+   * const sellerProfile = await prisma.sellerProfile.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many SellerProfiles and only return the `id`
+   * const sellerProfileWithIdOnly = await prisma.sellerProfile.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends SellerProfileCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, SellerProfileCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SellerProfilePayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a SellerProfile.
+   * @param {SellerProfileDeleteArgs} args - Arguments to delete one SellerProfile.
+   * @example
+   * // Delete one SellerProfile
+   * const SellerProfile = await prisma.sellerProfile.delete({
+   *   where: {
+   *     // ... filter to delete one SellerProfile
+   *   }
+   * })
+   * 
+   */
+  delete<T extends SellerProfileDeleteArgs>(args: Prisma.SelectSubset<T, SellerProfileDeleteArgs<ExtArgs>>): Prisma.Prisma__SellerProfileClient<runtime.Types.Result.GetResult<Prisma.$SellerProfilePayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one SellerProfile.
+   * @param {SellerProfileUpdateArgs} args - Arguments to update one SellerProfile.
+   * @example
+   * // Update one SellerProfile
+   * const sellerProfile = await prisma.sellerProfile.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends SellerProfileUpdateArgs>(args: Prisma.SelectSubset<T, SellerProfileUpdateArgs<ExtArgs>>): Prisma.Prisma__SellerProfileClient<runtime.Types.Result.GetResult<Prisma.$SellerProfilePayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more SellerProfiles.
+   * @param {SellerProfileDeleteManyArgs} args - Arguments to filter SellerProfiles to delete.
+   * @example
+   * // Delete a few SellerProfiles
+   * const { count } = await prisma.sellerProfile.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends SellerProfileDeleteManyArgs>(args?: Prisma.SelectSubset<T, SellerProfileDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more SellerProfiles.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SellerProfileUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many SellerProfiles
+   * const sellerProfile = await prisma.sellerProfile.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends SellerProfileUpdateManyArgs>(args: Prisma.SelectSubset<T, SellerProfileUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more SellerProfiles and returns the data updated in the database.
+   * @param {SellerProfileUpdateManyAndReturnArgs} args - Arguments to update many SellerProfiles.
+   * @example
+   * // Update many SellerProfiles
+   * const sellerProfile = await prisma.sellerProfile.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more SellerProfiles and only return the `id`
+   * const sellerProfileWithIdOnly = await prisma.sellerProfile.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends SellerProfileUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, SellerProfileUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SellerProfilePayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one SellerProfile.
+   * @param {SellerProfileUpsertArgs} args - Arguments to update or create a SellerProfile.
+   * @example
+   * // Update or create a SellerProfile
+   * const sellerProfile = await prisma.sellerProfile.upsert({
+   *   create: {
+   *     // ... data to create a SellerProfile
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the SellerProfile we want to update
+   *   }
+   * })
+   */
+  upsert<T extends SellerProfileUpsertArgs>(args: Prisma.SelectSubset<T, SellerProfileUpsertArgs<ExtArgs>>): Prisma.Prisma__SellerProfileClient<runtime.Types.Result.GetResult<Prisma.$SellerProfilePayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of SellerProfiles.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SellerProfileCountArgs} args - Arguments to filter SellerProfiles to count.
+   * @example
+   * // Count the number of SellerProfiles
+   * const count = await prisma.sellerProfile.count({
+   *   where: {
+   *     // ... the filter for the SellerProfiles we want to count
+   *   }
+   * })
+  **/
+  count<T extends SellerProfileCountArgs>(
+    args?: Prisma.Subset<T, SellerProfileCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], SellerProfileCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a SellerProfile.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SellerProfileAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends SellerProfileAggregateArgs>(args: Prisma.Subset<T, SellerProfileAggregateArgs>): Prisma.PrismaPromise<GetSellerProfileAggregateType<T>>
+
+  /**
+   * Group by SellerProfile.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SellerProfileGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends SellerProfileGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: SellerProfileGroupByArgs['orderBy'] }
+      : { orderBy?: SellerProfileGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, SellerProfileGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetSellerProfileGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the SellerProfile model
+ */
+readonly fields: SellerProfileFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for SellerProfile.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__SellerProfileClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  user<T extends Prisma.UserDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.UserDefaultArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the SellerProfile model
+ */
+export interface SellerProfileFieldRefs {
+  readonly id: Prisma.FieldRef<"SellerProfile", 'String'>
+  readonly userId: Prisma.FieldRef<"SellerProfile", 'String'>
+  readonly storeName: Prisma.FieldRef<"SellerProfile", 'String'>
+  readonly slug: Prisma.FieldRef<"SellerProfile", 'String'>
+  readonly logoUrl: Prisma.FieldRef<"SellerProfile", 'String'>
+  readonly description: Prisma.FieldRef<"SellerProfile", 'String'>
+  readonly address: Prisma.FieldRef<"SellerProfile", 'String'>
+  readonly operatingHours: Prisma.FieldRef<"SellerProfile", 'Json'>
+  readonly rating: Prisma.FieldRef<"SellerProfile", 'Float'>
+  readonly reviewCount: Prisma.FieldRef<"SellerProfile", 'Int'>
+  readonly createdAt: Prisma.FieldRef<"SellerProfile", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"SellerProfile", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * SellerProfile findUnique
+ */
+export type SellerProfileFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SellerProfile
+   */
+  select?: Prisma.SellerProfileSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SellerProfile
+   */
+  omit?: Prisma.SellerProfileOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SellerProfileInclude<ExtArgs> | null
+  /**
+   * Filter, which SellerProfile to fetch.
+   */
+  where: Prisma.SellerProfileWhereUniqueInput
+}
+
+/**
+ * SellerProfile findUniqueOrThrow
+ */
+export type SellerProfileFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SellerProfile
+   */
+  select?: Prisma.SellerProfileSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SellerProfile
+   */
+  omit?: Prisma.SellerProfileOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SellerProfileInclude<ExtArgs> | null
+  /**
+   * Filter, which SellerProfile to fetch.
+   */
+  where: Prisma.SellerProfileWhereUniqueInput
+}
+
+/**
+ * SellerProfile findFirst
+ */
+export type SellerProfileFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SellerProfile
+   */
+  select?: Prisma.SellerProfileSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SellerProfile
+   */
+  omit?: Prisma.SellerProfileOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SellerProfileInclude<ExtArgs> | null
+  /**
+   * Filter, which SellerProfile to fetch.
+   */
+  where?: Prisma.SellerProfileWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of SellerProfiles to fetch.
+   */
+  orderBy?: Prisma.SellerProfileOrderByWithRelationInput | Prisma.SellerProfileOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for SellerProfiles.
+   */
+  cursor?: Prisma.SellerProfileWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` SellerProfiles from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` SellerProfiles.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of SellerProfiles.
+   */
+  distinct?: Prisma.SellerProfileScalarFieldEnum | Prisma.SellerProfileScalarFieldEnum[]
+}
+
+/**
+ * SellerProfile findFirstOrThrow
+ */
+export type SellerProfileFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SellerProfile
+   */
+  select?: Prisma.SellerProfileSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SellerProfile
+   */
+  omit?: Prisma.SellerProfileOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SellerProfileInclude<ExtArgs> | null
+  /**
+   * Filter, which SellerProfile to fetch.
+   */
+  where?: Prisma.SellerProfileWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of SellerProfiles to fetch.
+   */
+  orderBy?: Prisma.SellerProfileOrderByWithRelationInput | Prisma.SellerProfileOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for SellerProfiles.
+   */
+  cursor?: Prisma.SellerProfileWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` SellerProfiles from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` SellerProfiles.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of SellerProfiles.
+   */
+  distinct?: Prisma.SellerProfileScalarFieldEnum | Prisma.SellerProfileScalarFieldEnum[]
+}
+
+/**
+ * SellerProfile findMany
+ */
+export type SellerProfileFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SellerProfile
+   */
+  select?: Prisma.SellerProfileSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SellerProfile
+   */
+  omit?: Prisma.SellerProfileOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SellerProfileInclude<ExtArgs> | null
+  /**
+   * Filter, which SellerProfiles to fetch.
+   */
+  where?: Prisma.SellerProfileWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of SellerProfiles to fetch.
+   */
+  orderBy?: Prisma.SellerProfileOrderByWithRelationInput | Prisma.SellerProfileOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing SellerProfiles.
+   */
+  cursor?: Prisma.SellerProfileWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` SellerProfiles from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` SellerProfiles.
+   */
+  skip?: number
+  distinct?: Prisma.SellerProfileScalarFieldEnum | Prisma.SellerProfileScalarFieldEnum[]
+}
+
+/**
+ * SellerProfile create
+ */
+export type SellerProfileCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SellerProfile
+   */
+  select?: Prisma.SellerProfileSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SellerProfile
+   */
+  omit?: Prisma.SellerProfileOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SellerProfileInclude<ExtArgs> | null
+  /**
+   * The data needed to create a SellerProfile.
+   */
+  data: Prisma.XOR<Prisma.SellerProfileCreateInput, Prisma.SellerProfileUncheckedCreateInput>
+}
+
+/**
+ * SellerProfile createMany
+ */
+export type SellerProfileCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many SellerProfiles.
+   */
+  data: Prisma.SellerProfileCreateManyInput | Prisma.SellerProfileCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * SellerProfile createManyAndReturn
+ */
+export type SellerProfileCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SellerProfile
+   */
+  select?: Prisma.SellerProfileSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the SellerProfile
+   */
+  omit?: Prisma.SellerProfileOmit<ExtArgs> | null
+  /**
+   * The data used to create many SellerProfiles.
+   */
+  data: Prisma.SellerProfileCreateManyInput | Prisma.SellerProfileCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SellerProfileIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * SellerProfile update
+ */
+export type SellerProfileUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SellerProfile
+   */
+  select?: Prisma.SellerProfileSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SellerProfile
+   */
+  omit?: Prisma.SellerProfileOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SellerProfileInclude<ExtArgs> | null
+  /**
+   * The data needed to update a SellerProfile.
+   */
+  data: Prisma.XOR<Prisma.SellerProfileUpdateInput, Prisma.SellerProfileUncheckedUpdateInput>
+  /**
+   * Choose, which SellerProfile to update.
+   */
+  where: Prisma.SellerProfileWhereUniqueInput
+}
+
+/**
+ * SellerProfile updateMany
+ */
+export type SellerProfileUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update SellerProfiles.
+   */
+  data: Prisma.XOR<Prisma.SellerProfileUpdateManyMutationInput, Prisma.SellerProfileUncheckedUpdateManyInput>
+  /**
+   * Filter which SellerProfiles to update
+   */
+  where?: Prisma.SellerProfileWhereInput
+  /**
+   * Limit how many SellerProfiles to update.
+   */
+  limit?: number
+}
+
+/**
+ * SellerProfile updateManyAndReturn
+ */
+export type SellerProfileUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SellerProfile
+   */
+  select?: Prisma.SellerProfileSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the SellerProfile
+   */
+  omit?: Prisma.SellerProfileOmit<ExtArgs> | null
+  /**
+   * The data used to update SellerProfiles.
+   */
+  data: Prisma.XOR<Prisma.SellerProfileUpdateManyMutationInput, Prisma.SellerProfileUncheckedUpdateManyInput>
+  /**
+   * Filter which SellerProfiles to update
+   */
+  where?: Prisma.SellerProfileWhereInput
+  /**
+   * Limit how many SellerProfiles to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SellerProfileIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * SellerProfile upsert
+ */
+export type SellerProfileUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SellerProfile
+   */
+  select?: Prisma.SellerProfileSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SellerProfile
+   */
+  omit?: Prisma.SellerProfileOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SellerProfileInclude<ExtArgs> | null
+  /**
+   * The filter to search for the SellerProfile to update in case it exists.
+   */
+  where: Prisma.SellerProfileWhereUniqueInput
+  /**
+   * In case the SellerProfile found by the `where` argument doesn't exist, create a new SellerProfile with this data.
+   */
+  create: Prisma.XOR<Prisma.SellerProfileCreateInput, Prisma.SellerProfileUncheckedCreateInput>
+  /**
+   * In case the SellerProfile was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.SellerProfileUpdateInput, Prisma.SellerProfileUncheckedUpdateInput>
+}
+
+/**
+ * SellerProfile delete
+ */
+export type SellerProfileDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SellerProfile
+   */
+  select?: Prisma.SellerProfileSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SellerProfile
+   */
+  omit?: Prisma.SellerProfileOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SellerProfileInclude<ExtArgs> | null
+  /**
+   * Filter which SellerProfile to delete.
+   */
+  where: Prisma.SellerProfileWhereUniqueInput
+}
+
+/**
+ * SellerProfile deleteMany
+ */
+export type SellerProfileDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which SellerProfiles to delete
+   */
+  where?: Prisma.SellerProfileWhereInput
+  /**
+   * Limit how many SellerProfiles to delete.
+   */
+  limit?: number
+}
+
+/**
+ * SellerProfile without action
+ */
+export type SellerProfileDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SellerProfile
+   */
+  select?: Prisma.SellerProfileSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SellerProfile
+   */
+  omit?: Prisma.SellerProfileOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SellerProfileInclude<ExtArgs> | null
+}
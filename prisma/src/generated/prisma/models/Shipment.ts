@@ -0,0 +1,2090 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `Shipment` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model Shipment
+ * 
+ */
+export type ShipmentModel = runtime.Types.Result.DefaultSelection<Prisma.$ShipmentPayload>
+
+export type AggregateShipment = {
+  _count: ShipmentCountAggregateOutputType | null
+  _avg: ShipmentAvgAggregateOutputType | null
+  _sum: ShipmentSumAggregateOutputType | null
+  _min: ShipmentMinAggregateOutputType | null
+  _max: ShipmentMaxAggregateOutputType | null
+}
+
+export type ShipmentAvgAggregateOutputType = {
+  subtotal: runtime.Decimal | null
+}
+
+export type ShipmentSumAggregateOutputType = {
+  subtotal: runtime.Decimal | null
+}
+
+export type ShipmentMinAggregateOutputType = {
+  id: string | null
+  orderId: string | null
+  sellerId: string | null
+  status: $Enums.OrderStatus | null
+  subtotal: runtime.Decimal | null
+  trackingNumber: string | null
+  carrier: string | null
+  shippedAt: Date | null
+  deliveredAt: Date | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type ShipmentMaxAggregateOutputType = {
+  id: string | null
+  orderId: string | null
+  sellerId: string | null
+  status: $Enums.OrderStatus | null
+  subtotal: runtime.Decimal | null
+  trackingNumber: string | null
+  carrier: string | null
+  shippedAt: Date | null
+  deliveredAt: Date | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type ShipmentCountAggregateOutputType = {
+  id: number
+  orderId: number
+  sellerId: number
+  status: number
+  subtotal: number
+  trackingNumber: number
+  carrier: number
+  shippedAt: number
+  deliveredAt: number
+  createdAt: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type ShipmentAvgAggregateInputType = {
+  subtotal?: true
+}
+
+export type ShipmentSumAggregateInputType = {
+  subtotal?: true
+}
+
+export type ShipmentMinAggregateInputType = {
+  id?: true
+  orderId?: true
+  sellerId?: true
+  status?: true
+  subtotal?: true
+  trackingNumber?: true
+  carrier?: true
+  shippedAt?: true
+  deliveredAt?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type ShipmentMaxAggregateInputType = {
+  id?: true
+  orderId?: true
+  sellerId?: true
+  status?: true
+  subtotal?: true
+  trackingNumber?: true
+  carrier?: true
+  shippedAt?: true
+  deliveredAt?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type ShipmentCountAggregateInputType = {
+  id?: true
+  orderId?: true
+  sellerId?: true
+  status?: true
+  subtotal?: true
+  trackingNumber?: true
+  carrier?: true
+  shippedAt?: true
+  deliveredAt?: true
+  createdAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type ShipmentAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which Shipment to aggregate.
+   */
+  where?: Prisma.ShipmentWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Shipments to fetch.
+   */
+  orderBy?: Prisma.ShipmentOrderByWithRelationInput | Prisma.ShipmentOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.ShipmentWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Shipments from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Shipments.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned Shipments
+  **/
+  _count?: true | ShipmentCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: ShipmentAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: ShipmentSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: ShipmentMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: ShipmentMaxAggregateInputType
+}
+
+export type GetShipmentAggregateType<T extends ShipmentAggregateArgs> = {
+      [P in keyof T & keyof AggregateShipment]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateShipment[P]>
+    : Prisma.GetScalarType<T[P], AggregateShipment[P]>
+}
+
+
+
+
+export type ShipmentGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ShipmentWhereInput
+  orderBy?: Prisma.ShipmentOrderByWithAggregationInput | Prisma.ShipmentOrderByWithAggregationInput[]
+  by: Prisma.ShipmentScalarFieldEnum[] | Prisma.ShipmentScalarFieldEnum
+  having?: Prisma.ShipmentScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: ShipmentCountAggregateInputType | true
+  _avg?: ShipmentAvgAggregateInputType
+  _sum?: ShipmentSumAggregateInputType
+  _min?: ShipmentMinAggregateInputType
+  _max?: ShipmentMaxAggregateInputType
+}
+
+export type ShipmentGroupByOutputType = {
+  id: string
+  orderId: string
+  sellerId: string | null
+  status: $Enums.OrderStatus
+  subtotal: runtime.Decimal
+  trackingNumber: string | null
+  carrier: string | null
+  shippedAt: Date | null
+  deliveredAt: Date | null
+  createdAt: Date
+  updatedAt: Date
+  _count: ShipmentCountAggregateOutputType | null
+  _avg: ShipmentAvgAggregateOutputType | null
+  _sum: ShipmentSumAggregateOutputType | null
+  _min: ShipmentMinAggregateOutputType | null
+  _max: ShipmentMaxAggregateOutputType | null
+}
+
+type GetShipmentGroupByPayload<T extends ShipmentGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<ShipmentGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof ShipmentGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], ShipmentGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], ShipmentGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type ShipmentWhereInput = {
+  AND?: Prisma.ShipmentWhereInput | Prisma.ShipmentWhereInput[]
+  OR?: Prisma.ShipmentWhereInput[]
+  NOT?: Prisma.ShipmentWhereInput | Prisma.ShipmentWhereInput[]
+  id?: Prisma.StringFilter<"Shipment"> | string
+  orderId?: Prisma.StringFilter<"Shipment"> | string
+  sellerId?: Prisma.StringNullableFilter<"Shipment"> | string | null
+  status?: Prisma.EnumOrderStatusFilter<"Shipment"> | $Enums.OrderStatus
+  subtotal?: Prisma.DecimalFilter<"Shipment"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  trackingNumber?: Prisma.StringNullableFilter<"Shipment"> | string | null
+  carrier?: Prisma.StringNullableFilter<"Shipment"> | string | null
+  shippedAt?: Prisma.DateTimeNullableFilter<"Shipment"> | Date | string | null
+  deliveredAt?: Prisma.DateTimeNullableFilter<"Shipment"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"Shipment"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"Shipment"> | Date | string
+  order?: Prisma.XOR<Prisma.OrderScalarRelationFilter, Prisma.OrderWhereInput>
+  seller?: Prisma.XOR<Prisma.UserNullableScalarRelationFilter, Prisma.UserWhereInput> | null
+  items?: Prisma.OrderItemListRelationFilter
+  statusHistory?: Prisma.OrderStatusHistoryListRelationFilter
+}
+
+export type ShipmentOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  orderId?: Prisma.SortOrder
+  sellerId?: Prisma.SortOrderInput | Prisma.SortOrder
+  status?: Prisma.SortOrder
+  subtotal?: Prisma.SortOrder
+  trackingNumber?: Prisma.SortOrderInput | Prisma.SortOrder
+  carrier?: Prisma.SortOrderInput | Prisma.SortOrder
+  shippedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  deliveredAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  order?: Prisma.OrderOrderByWithRelationInput
+  seller?: Prisma.UserOrderByWithRelationInput
+  items?: Prisma.OrderItemOrderByRelationAggregateInput
+  statusHistory?: Prisma.OrderStatusHistoryOrderByRelationAggregateInput
+}
+
+export type ShipmentWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  orderId_sellerId?: Prisma.ShipmentOrderIdSellerIdCompoundUniqueInput
+  AND?: Prisma.ShipmentWhereInput | Prisma.ShipmentWhereInput[]
+  OR?: Prisma.ShipmentWhereInput[]
+  NOT?: Prisma.ShipmentWhereInput | Prisma.ShipmentWhereInput[]
+  orderId?: Prisma.StringFilter<"Shipment"> | string
+  sellerId?: Prisma.StringNullableFilter<"Shipment"> | string | null
+  status?: Prisma.EnumOrderStatusFilter<"Shipment"> | $Enums.OrderStatus
+  subtotal?: Prisma.DecimalFilter<"Shipment"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  trackingNumber?: Prisma.StringNullableFilter<"Shipment"> | string | null
+  carrier?: Prisma.StringNullableFilter<"Shipment"> | string | null
+  shippedAt?: Prisma.DateTimeNullableFilter<"Shipment"> | Date | string | null
+  deliveredAt?: Prisma.DateTimeNullableFilter<"Shipment"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"Shipment"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"Shipment"> | Date | string
+  order?: Prisma.XOR<Prisma.OrderScalarRelationFilter, Prisma.OrderWhereInput>
+  seller?: Prisma.XOR<Prisma.UserNullableScalarRelationFilter, Prisma.UserWhereInput> | null
+  items?: Prisma.OrderItemListRelationFilter
+  statusHistory?: Prisma.OrderStatusHistoryListRelationFilter
+}, "id" | "orderId_sellerId">
+
+export type ShipmentOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  orderId?: Prisma.SortOrder
+  sellerId?: Prisma.SortOrderInput | Prisma.SortOrder
+  status?: Prisma.SortOrder
+  subtotal?: Prisma.SortOrder
+  trackingNumber?: Prisma.SortOrderInput | Prisma.SortOrder
+  carrier?: Prisma.SortOrderInput | Prisma.SortOrder
+  shippedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  deliveredAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.ShipmentCountOrderByAggregateInput
+  _avg?: Prisma.ShipmentAvgOrderByAggregateInput
+  _max?: Prisma.ShipmentMaxOrderByAggregateInput
+  _min?: Prisma.ShipmentMinOrderByAggregateInput
+  _sum?: Prisma.ShipmentSumOrderByAggregateInput
+}
+
+export type ShipmentScalarWhereWithAggregatesInput = {
+  AND?: Prisma.ShipmentScalarWhereWithAggregatesInput | Prisma.ShipmentScalarWhereWithAggregatesInput[]
+  OR?: Prisma.ShipmentScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.ShipmentScalarWhereWithAggregatesInput | Prisma.ShipmentScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"Shipment"> | string
+  orderId?: Prisma.StringWithAggregatesFilter<"Shipment"> | string
+  sellerId?: Prisma.StringNullableWithAggregatesFilter<"Shipment"> | string | null
+  status?: Prisma.EnumOrderStatusWithAggregatesFilter<"Shipment"> | $Enums.OrderStatus
+  subtotal?: Prisma.DecimalWithAggregatesFilter<"Shipment"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  trackingNumber?: Prisma.StringNullableWithAggregatesFilter<"Shipment"> | string | null
+  carrier?: Prisma.StringNullableWithAggregatesFilter<"Shipment"> | string | null
+  shippedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"Shipment"> | Date | string | null
+  deliveredAt?: Prisma.DateTimeNullableWithAggregatesFilter<"Shipment"> | Date | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"Shipment"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"Shipment"> | Date | string
+}
+
+export type ShipmentCreateInput = {
+  id?: string
+  status?: $Enums.OrderStatus
+  subtotal: runtime.Decimal | runtime.DecimalJsLike | number | string
+  trackingNumber?: string | null
+  carrier?: string | null
+  shippedAt?: Date | string | null
+  deliveredAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  order: Prisma.OrderCreateNestedOneWithoutShipmentsInput
+  seller?: Prisma.UserCreateNestedOneWithoutSellerShipmentsInput
+  items?: Prisma.OrderItemCreateNestedManyWithoutShipmentInput
+  statusHistory?: Prisma.OrderStatusHistoryCreateNestedManyWithoutShipmentInput
+}
+
+export type ShipmentUncheckedCreateInput = {
+  id?: string
+  orderId: string
+  sellerId?: string | null
+  status?: $Enums.OrderStatus
+  subtotal: runtime.Decimal | runtime.DecimalJsLike | number | string
+  trackingNumber?: string | null
+  carrier?: string | null
+  shippedAt?: Date | string | null
+  deliveredAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  items?: Prisma.OrderItemUncheckedCreateNestedManyWithoutShipmentInput
+  statusHistory?: Prisma.OrderStatusHistoryUncheckedCreateNestedManyWithoutShipmentInput
+}
+
+export type ShipmentUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumOrderStatusFieldUpdateOperationsInput | $Enums.OrderStatus
+  subtotal?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  trackingNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  carrier?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  shippedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  deliveredAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  order?: Prisma.OrderUpdateOneRequiredWithoutShipmentsNestedInput
+  seller?: Prisma.UserUpdateOneWithoutSellerShipmentsNestedInput
+  items?: Prisma.OrderItemUpdateManyWithoutShipmentNestedInput
+  statusHistory?: Prisma.OrderStatusHistoryUpdateManyWithoutShipmentNestedInput
+}
+
+export type ShipmentUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  orderId?: Prisma.StringFieldUpdateOperationsInput | string
+  sellerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.EnumOrderStatusFieldUpdateOperationsInput | $Enums.OrderStatus
+  subtotal?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  trackingNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  carrier?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  shippedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  deliveredAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  items?: Prisma.OrderItemUncheckedUpdateManyWithoutShipmentNestedInput
+  statusHistory?: Prisma.OrderStatusHistoryUncheckedUpdateManyWithoutShipmentNestedInput
+}
+
+export type ShipmentCreateManyInput = {
+  id?: string
+  orderId: string
+  sellerId?: string | null
+  status?: $Enums.OrderStatus
+  subtotal: runtime.Decimal | runtime.DecimalJsLike | number | string
+  trackingNumber?: string | null
+  carrier?: string | null
+  shippedAt?: Date | string | null
+  deliveredAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type ShipmentUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumOrderStatusFieldUpdateOperationsInput | $Enums.OrderStatus
+  subtotal?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  trackingNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  carrier?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  shippedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  deliveredAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ShipmentUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  orderId?: Prisma.StringFieldUpdateOperationsInput | string
+  sellerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.EnumOrderStatusFieldUpdateOperationsInput | $Enums.OrderStatus
+  subtotal?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  trackingNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  carrier?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  shippedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  deliveredAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ShipmentListRelationFilter = {
+  every?: Prisma.ShipmentWhereInput
+  some?: Prisma.ShipmentWhereInput
+  none?: Prisma.ShipmentWhereInput
+}
+
+export type ShipmentOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type ShipmentNullableScalarRelationFilter = {
+  is?: Prisma.ShipmentWhereInput | null
+  isNot?: Prisma.ShipmentWhereInput | null
+}
+
+export type ShipmentOrderIdSellerIdCompoundUniqueInput = {
+  orderId: string
+  sellerId: string
+}
+
+export type ShipmentCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  orderId?: Prisma.SortOrder
+  sellerId?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  subtotal?: Prisma.SortOrder
+  trackingNumber?: Prisma.SortOrder
+  carrier?: Prisma.SortOrder
+  shippedAt?: Prisma.SortOrder
+  deliveredAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type ShipmentAvgOrderByAggregateInput = {
+  subtotal?: Prisma.SortOrder
+}
+
+export type ShipmentMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  orderId?: Prisma.SortOrder
+  sellerId?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  subtotal?: Prisma.SortOrder
+  trackingNumber?: Prisma.SortOrder
+  carrier?: Prisma.SortOrder
+  shippedAt?: Prisma.SortOrder
+  deliveredAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type ShipmentMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  orderId?: Prisma.SortOrder
+  sellerId?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  subtotal?: Prisma.SortOrder
+  trackingNumber?: Prisma.SortOrder
+  carrier?: Prisma.SortOrder
+  shippedAt?: Prisma.SortOrder
+  deliveredAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type ShipmentSumOrderByAggregateInput = {
+  subtotal?: Prisma.SortOrder
+}
+
+export type ShipmentCreateNestedManyWithoutOrderInput = {
+  create?: Prisma.XOR<Prisma.ShipmentCreateWithoutOrderInput, Prisma.ShipmentUncheckedCreateWithoutOrderInput> | Prisma.ShipmentCreateWithoutOrderInput[] | Prisma.ShipmentUncheckedCreateWithoutOrderInput[]
+  connectOrCreate?: Prisma.ShipmentCreateOrConnectWithoutOrderInput | Prisma.ShipmentCreateOrConnectWithoutOrderInput[]
+  createMany?: Prisma.ShipmentCreateManyOrderInputEnvelope
+  connect?: Prisma.ShipmentWhereUniqueInput | Prisma.ShipmentWhereUniqueInput[]
+}
+
+export type ShipmentUncheckedCreateNestedManyWithoutOrderInput = {
+  create?: Prisma.XOR<Prisma.ShipmentCreateWithoutOrderInput, Prisma.ShipmentUncheckedCreateWithoutOrderInput> | Prisma.ShipmentCreateWithoutOrderInput[] | Prisma.ShipmentUncheckedCreateWithoutOrderInput[]
+  connectOrCreate?: Prisma.ShipmentCreateOrConnectWithoutOrderInput | Prisma.ShipmentCreateOrConnectWithoutOrderInput[]
+  createMany?: Prisma.ShipmentCreateManyOrderInputEnvelope
+  connect?: Prisma.ShipmentWhereUniqueInput | Prisma.ShipmentWhereUniqueInput[]
+}
+
+export type ShipmentUpdateManyWithoutOrderNestedInput = {
+  create?: Prisma.XOR<Prisma.ShipmentCreateWithoutOrderInput, Prisma.ShipmentUncheckedCreateWithoutOrderInput> | Prisma.ShipmentCreateWithoutOrderInput[] | Prisma.ShipmentUncheckedCreateWithoutOrderInput[]
+  connectOrCreate?: Prisma.ShipmentCreateOrConnectWithoutOrderInput | Prisma.ShipmentCreateOrConnectWithoutOrderInput[]
+  upsert?: Prisma.ShipmentUpsertWithWhereUniqueWithoutOrderInput | Prisma.ShipmentUpsertWithWhereUniqueWithoutOrderInput[]
+  createMany?: Prisma.ShipmentCreateManyOrderInputEnvelope
+  set?: Prisma.ShipmentWhereUniqueInput | Prisma.ShipmentWhereUniqueInput[]
+  disconnect?: Prisma.ShipmentWhereUniqueInput | Prisma.ShipmentWhereUniqueInput[]
+  delete?: Prisma.ShipmentWhereUniqueInput | Prisma.ShipmentWhereUniqueInput[]
+  connect?: Prisma.ShipmentWhereUniqueInput | Prisma.ShipmentWhereUniqueInput[]
+  update?: Prisma.ShipmentUpdateWithWhereUniqueWithoutOrderInput | Prisma.ShipmentUpdateWithWhereUniqueWithoutOrderInput[]
+  updateMany?: Prisma.ShipmentUpdateManyWithWhereWithoutOrderInput | Prisma.ShipmentUpdateManyWithWhereWithoutOrderInput[]
+  deleteMany?: Prisma.ShipmentScalarWhereInput | Prisma.ShipmentScalarWhereInput[]
+}
+
+export type ShipmentUncheckedUpdateManyWithoutOrderNestedInput = {
+  create?: Prisma.XOR<Prisma.ShipmentCreateWithoutOrderInput, Prisma.ShipmentUncheckedCreateWithoutOrderInput> | Prisma.ShipmentCreateWithoutOrderInput[] | Prisma.ShipmentUncheckedCreateWithoutOrderInput[]
+  connectOrCreate?: Prisma.ShipmentCreateOrConnectWithoutOrderInput | Prisma.ShipmentCreateOrConnectWithoutOrderInput[]
+  upsert?: Prisma.ShipmentUpsertWithWhereUniqueWithoutOrderInput | Prisma.ShipmentUpsertWithWhereUniqueWithoutOrderInput[]
+  createMany?: Prisma.ShipmentCreateManyOrderInputEnvelope
+  set?: Prisma.ShipmentWhereUniqueInput | Prisma.ShipmentWhereUniqueInput[]
+  disconnect?: Prisma.ShipmentWhereUniqueInput | Prisma.ShipmentWhereUniqueInput[]
+  delete?: Prisma.ShipmentWhereUniqueInput | Prisma.ShipmentWhereUniqueInput[]
+  connect?: Prisma.ShipmentWhereUniqueInput | Prisma.ShipmentWhereUniqueInput[]
+  update?: Prisma.ShipmentUpdateWithWhereUniqueWithoutOrderInput | Prisma.ShipmentUpdateWithWhereUniqueWithoutOrderInput[]
+  updateMany?: Prisma.ShipmentUpdateManyWithWhereWithoutOrderInput | Prisma.ShipmentUpdateManyWithWhereWithoutOrderInput[]
+  deleteMany?: Prisma.ShipmentScalarWhereInput | Prisma.ShipmentScalarWhereInput[]
+}
+
+export type ShipmentCreateNestedOneWithoutItemsInput = {
+  create?: Prisma.XOR<Prisma.ShipmentCreateWithoutItemsInput, Prisma.ShipmentUncheckedCreateWithoutItemsInput>
+  connectOrCreate?: Prisma.ShipmentCreateOrConnectWithoutItemsInput
+  connect?: Prisma.ShipmentWhereUniqueInput
+}
+
+export type ShipmentUpdateOneWithoutItemsNestedInput = {
+  create?: Prisma.XOR<Prisma.ShipmentCreateWithoutItemsInput, Prisma.ShipmentUncheckedCreateWithoutItemsInput>
+  connectOrCreate?: Prisma.ShipmentCreateOrConnectWithoutItemsInput
+  upsert?: Prisma.ShipmentUpsertWithoutItemsInput
+  disconnect?: Prisma.ShipmentWhereInput | boolean
+  delete?: Prisma.ShipmentWhereInput | boolean
+  connect?: Prisma.ShipmentWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.ShipmentUpdateToOneWithWhereWithoutItemsInput, Prisma.ShipmentUpdateWithoutItemsInput>, Prisma.ShipmentUncheckedUpdateWithoutItemsInput>
+}
+
+export type ShipmentCreateNestedOneWithoutStatusHistoryInput = {
+  create?: Prisma.XOR<Prisma.ShipmentCreateWithoutStatusHistoryInput, Prisma.ShipmentUncheckedCreateWithoutStatusHistoryInput>
+  connectOrCreate?: Prisma.ShipmentCreateOrConnectWithoutStatusHistoryInput
+  connect?: Prisma.ShipmentWhereUniqueInput
+}
+
+export type ShipmentUpdateOneWithoutStatusHistoryNestedInput = {
+  create?: Prisma.XOR<Prisma.ShipmentCreateWithoutStatusHistoryInput, Prisma.ShipmentUncheckedCreateWithoutStatusHistoryInput>
+  connectOrCreate?: Prisma.ShipmentCreateOrConnectWithoutStatusHistoryInput
+  upsert?: Prisma.ShipmentUpsertWithoutStatusHistoryInput
+  disconnect?: Prisma.ShipmentWhereInput | boolean
+  delete?: Prisma.ShipmentWhereInput | boolean
+  connect?: Prisma.ShipmentWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.ShipmentUpdateToOneWithWhereWithoutStatusHistoryInput, Prisma.ShipmentUpdateWithoutStatusHistoryInput>, Prisma.ShipmentUncheckedUpdateWithoutStatusHistoryInput>
+}
+
+export type ShipmentCreateNestedManyWithoutSellerInput = {
+  create?: Prisma.XOR<Prisma.ShipmentCreateWithoutSellerInput, Prisma.ShipmentUncheckedCreateWithoutSellerInput> | Prisma.ShipmentCreateWithoutSellerInput[] | Prisma.ShipmentUncheckedCreateWithoutSellerInput[]
+  connectOrCreate?: Prisma.ShipmentCreateOrConnectWithoutSellerInput | Prisma.ShipmentCreateOrConnectWithoutSellerInput[]
+  createMany?: Prisma.ShipmentCreateManySellerInputEnvelope
+  connect?: Prisma.ShipmentWhereUniqueInput | Prisma.ShipmentWhereUniqueInput[]
+}
+
+export type ShipmentUncheckedCreateNestedManyWithoutSellerInput = {
+  create?: Prisma.XOR<Prisma.ShipmentCreateWithoutSellerInput, Prisma.ShipmentUncheckedCreateWithoutSellerInput> | Prisma.ShipmentCreateWithoutSellerInput[] | Prisma.ShipmentUncheckedCreateWithoutSellerInput[]
+  connectOrCreate?: Prisma.ShipmentCreateOrConnectWithoutSellerInput | Prisma.ShipmentCreateOrConnectWithoutSellerInput[]
+  createMany?: Prisma.ShipmentCreateManySellerInputEnvelope
+  connect?: Prisma.ShipmentWhereUniqueInput | Prisma.ShipmentWhereUniqueInput[]
+}
+
+export type ShipmentUpdateManyWithoutSellerNestedInput = {
+  create?: Prisma.XOR<Prisma.ShipmentCreateWithoutSellerInput, Prisma.ShipmentUncheckedCreateWithoutSellerInput> | Prisma.ShipmentCreateWithoutSellerInput[] | Prisma.ShipmentUncheckedCreateWithoutSellerInput[]
+  connectOrCreate?: Prisma.ShipmentCreateOrConnectWithoutSellerInput | Prisma.ShipmentCreateOrConnectWithoutSellerInput[]
+  upsert?: Prisma.ShipmentUpsertWithWhereUniqueWithoutSellerInput | Prisma.ShipmentUpsertWithWhereUniqueWithoutSellerInput[]
+  createMany?: Prisma.ShipmentCreateManySellerInputEnvelope
+  set?: Prisma.ShipmentWhereUniqueInput | Prisma.ShipmentWhereUniqueInput[]
+  disconnect?: Prisma.ShipmentWhereUniqueInput | Prisma.ShipmentWhereUniqueInput[]
+  delete?: Prisma.ShipmentWhereUniqueInput | Prisma.ShipmentWhereUniqueInput[]
+  connect?: Prisma.ShipmentWhereUniqueInput | Prisma.ShipmentWhereUniqueInput[]
+  update?: Prisma.ShipmentUpdateWithWhereUniqueWithoutSellerInput | Prisma.ShipmentUpdateWithWhereUniqueWithoutSellerInput[]
+  updateMany?: Prisma.ShipmentUpdateManyWithWhereWithoutSellerInput | Prisma.ShipmentUpdateManyWithWhereWithoutSellerInput[]
+  deleteMany?: Prisma.ShipmentScalarWhereInput | Prisma.ShipmentScalarWhereInput[]
+}
+
+export type ShipmentUncheckedUpdateManyWithoutSellerNestedInput = {
+  create?: Prisma.XOR<Prisma.ShipmentCreateWithoutSellerInput, Prisma.ShipmentUncheckedCreateWithoutSellerInput> | Prisma.ShipmentCreateWithoutSellerInput[] | Prisma.ShipmentUncheckedCreateWithoutSellerInput[]
+  connectOrCreate?: Prisma.ShipmentCreateOrConnectWithoutSellerInput | Prisma.ShipmentCreateOrConnectWithoutSellerInput[]
+  upsert?: Prisma.ShipmentUpsertWithWhereUniqueWithoutSellerInput | Prisma.ShipmentUpsertWithWhereUniqueWithoutSellerInput[]
+  createMany?: Prisma.ShipmentCreateManySellerInputEnvelope
+  set?: Prisma.ShipmentWhereUniqueInput | Prisma.ShipmentWhereUniqueInput[]
+  disconnect?: Prisma.ShipmentWhereUniqueInput | Prisma.ShipmentWhereUniqueInput[]
+  delete?: Prisma.ShipmentWhereUniqueInput | Prisma.ShipmentWhereUniqueInput[]
+  connect?: Prisma.ShipmentWhereUniqueInput | Prisma.ShipmentWhereUniqueInput[]
+  update?: Prisma.ShipmentUpdateWithWhereUniqueWithoutSellerInput | Prisma.ShipmentUpdateWithWhereUniqueWithoutSellerInput[]
+  updateMany?: Prisma.ShipmentUpdateManyWithWhereWithoutSellerInput | Prisma.ShipmentUpdateManyWithWhereWithoutSellerInput[]
+  deleteMany?: Prisma.ShipmentScalarWhereInput | Prisma.ShipmentScalarWhereInput[]
+}
+
+export type ShipmentCreateWithoutOrderInput = {
+  id?: string
+  status?: $Enums.OrderStatus
+  subtotal: runtime.Decimal | runtime.DecimalJsLike | number | string
+  trackingNumber?: string | null
+  carrier?: string | null
+  shippedAt?: Date | string | null
+  deliveredAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  seller?: Prisma.UserCreateNestedOneWithoutSellerShipmentsInput
+  items?: Prisma.OrderItemCreateNestedManyWithoutShipmentInput
+  statusHistory?: Prisma.OrderStatusHistoryCreateNestedManyWithoutShipmentInput
+}
+
+export type ShipmentUncheckedCreateWithoutOrderInput = {
+  id?: string
+  sellerId?: string | null
+  status?: $Enums.OrderStatus
+  subtotal: runtime.Decimal | runtime.DecimalJsLike | number | string
+  trackingNumber?: string | null
+  carrier?: string | null
+  shippedAt?: Date | string | null
+  deliveredAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  items?: Prisma.OrderItemUncheckedCreateNestedManyWithoutShipmentInput
+  statusHistory?: Prisma.OrderStatusHistoryUncheckedCreateNestedManyWithoutShipmentInput
+}
+
+export type ShipmentCreateOrConnectWithoutOrderInput = {
+  where: Prisma.ShipmentWhereUniqueInput
+  create: Prisma.XOR<Prisma.ShipmentCreateWithoutOrderInput, Prisma.ShipmentUncheckedCreateWithoutOrderInput>
+}
+
+export type ShipmentCreateManyOrderInputEnvelope = {
+  data: Prisma.ShipmentCreateManyOrderInput | Prisma.ShipmentCreateManyOrderInput[]
+  skipDuplicates?: boolean
+}
+
+export type ShipmentUpsertWithWhereUniqueWithoutOrderInput = {
+  where: Prisma.ShipmentWhereUniqueInput
+  update: Prisma.XOR<Prisma.ShipmentUpdateWithoutOrderInput, Prisma.ShipmentUncheckedUpdateWithoutOrderInput>
+  create: Prisma.XOR<Prisma.ShipmentCreateWithoutOrderInput, Prisma.ShipmentUncheckedCreateWithoutOrderInput>
+}
+
+export type ShipmentUpdateWithWhereUniqueWithoutOrderInput = {
+  where: Prisma.ShipmentWhereUniqueInput
+  data: Prisma.XOR<Prisma.ShipmentUpdateWithoutOrderInput, Prisma.ShipmentUncheckedUpdateWithoutOrderInput>
+}
+
+export type ShipmentUpdateManyWithWhereWithoutOrderInput = {
+  where: Prisma.ShipmentScalarWhereInput
+  data: Prisma.XOR<Prisma.ShipmentUpdateManyMutationInput, Prisma.ShipmentUncheckedUpdateManyWithoutOrderInput>
+}
+
+export type ShipmentScalarWhereInput = {
+  AND?: Prisma.ShipmentScalarWhereInput | Prisma.ShipmentScalarWhereInput[]
+  OR?: Prisma.ShipmentScalarWhereInput[]
+  NOT?: Prisma.ShipmentScalarWhereInput | Prisma.ShipmentScalarWhereInput[]
+  id?: Prisma.StringFilter<"Shipment"> | string
+  orderId?: Prisma.StringFilter<"Shipment"> | string
+  sellerId?: Prisma.StringNullableFilter<"Shipment"> | string | null
+  status?: Prisma.EnumOrderStatusFilter<"Shipment"> | $Enums.OrderStatus
+  subtotal?: Prisma.DecimalFilter<"Shipment"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  trackingNumber?: Prisma.StringNullableFilter<"Shipment"> | string | null
+  carrier?: Prisma.StringNullableFilter<"Shipment"> | string | null
+  shippedAt?: Prisma.DateTimeNullableFilter<"Shipment"> | Date | string | null
+  deliveredAt?: Prisma.DateTimeNullableFilter<"Shipment"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"Shipment"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"Shipment"> | Date | string
+}
+
+export type ShipmentCreateWithoutItemsInput = {
+  id?: string
+  status?: $Enums.OrderStatus
+  subtotal: runtime.Decimal | runtime.DecimalJsLike | number | string
+  trackingNumber?: string | null
+  carrier?: string | null
+  shippedAt?: Date | string | null
+  deliveredAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  order: Prisma.OrderCreateNestedOneWithoutShipmentsInput
+  seller?: Prisma.UserCreateNestedOneWithoutSellerShipmentsInput
+  statusHistory?: Prisma.OrderStatusHistoryCreateNestedManyWithoutShipmentInput
+}
+
+export type ShipmentUncheckedCreateWithoutItemsInput = {
+  id?: string
+  orderId: string
+  sellerId?: string | null
+  status?: $Enums.OrderStatus
+  subtotal: runtime.Decimal | runtime.DecimalJsLike | number | string
+  trackingNumber?: string | null
+  carrier?: string | null
+  shippedAt?: Date | string | null
+  deliveredAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  statusHistory?: Prisma.OrderStatusHistoryUncheckedCreateNestedManyWithoutShipmentInput
+}
+
+export type ShipmentCreateOrConnectWithoutItemsInput = {
+  where: Prisma.ShipmentWhereUniqueInput
+  create: Prisma.XOR<Prisma.ShipmentCreateWithoutItemsInput, Prisma.ShipmentUncheckedCreateWithoutItemsInput>
+}
+
+export type ShipmentUpsertWithoutItemsInput = {
+  update: Prisma.XOR<Prisma.ShipmentUpdateWithoutItemsInput, Prisma.ShipmentUncheckedUpdateWithoutItemsInput>
+  create: Prisma.XOR<Prisma.ShipmentCreateWithoutItemsInput, Prisma.ShipmentUncheckedCreateWithoutItemsInput>
+  where?: Prisma.ShipmentWhereInput
+}
+
+export type ShipmentUpdateToOneWithWhereWithoutItemsInput = {
+  where?: Prisma.ShipmentWhereInput
+  data: Prisma.XOR<Prisma.ShipmentUpdateWithoutItemsInput, Prisma.ShipmentUncheckedUpdateWithoutItemsInput>
+}
+
+export type ShipmentUpdateWithoutItemsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumOrderStatusFieldUpdateOperationsInput | $Enums.OrderStatus
+  subtotal?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  trackingNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  carrier?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  shippedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  deliveredAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  order?: Prisma.OrderUpdateOneRequiredWithoutShipmentsNestedInput
+  seller?: Prisma.UserUpdateOneWithoutSellerShipmentsNestedInput
+  statusHistory?: Prisma.OrderStatusHistoryUpdateManyWithoutShipmentNestedInput
+}
+
+export type ShipmentUncheckedUpdateWithoutItemsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  orderId?: Prisma.StringFieldUpdateOperationsInput | string
+  sellerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.EnumOrderStatusFieldUpdateOperationsInput | $Enums.OrderStatus
+  subtotal?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  trackingNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  carrier?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  shippedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  deliveredAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  statusHistory?: Prisma.OrderStatusHistoryUncheckedUpdateManyWithoutShipmentNestedInput
+}
+
+export type ShipmentCreateWithoutStatusHistoryInput = {
+  id?: string
+  status?: $Enums.OrderStatus
+  subtotal: runtime.Decimal | runtime.DecimalJsLike | number | string
+  trackingNumber?: string | null
+  carrier?: string | null
+  shippedAt?: Date | string | null
+  deliveredAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  order: Prisma.OrderCreateNestedOneWithoutShipmentsInput
+  seller?: Prisma.UserCreateNestedOneWithoutSellerShipmentsInput
+  items?: Prisma.OrderItemCreateNestedManyWithoutShipmentInput
+}
+
+export type ShipmentUncheckedCreateWithoutStatusHistoryInput = {
+  id?: string
+  orderId: string
+  sellerId?: string | null
+  status?: $Enums.OrderStatus
+  subtotal: runtime.Decimal | runtime.DecimalJsLike | number | string
+  trackingNumber?: string | null
+  carrier?: string | null
+  shippedAt?: Date | string | null
+  deliveredAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  items?: Prisma.OrderItemUncheckedCreateNestedManyWithoutShipmentInput
+}
+
+export type ShipmentCreateOrConnectWithoutStatusHistoryInput = {
+  where: Prisma.ShipmentWhereUniqueInput
+  create: Prisma.XOR<Prisma.ShipmentCreateWithoutStatusHistoryInput, Prisma.ShipmentUncheckedCreateWithoutStatusHistoryInput>
+}
+
+export type ShipmentUpsertWithoutStatusHistoryInput = {
+  update: Prisma.XOR<Prisma.ShipmentUpdateWithoutStatusHistoryInput, Prisma.ShipmentUncheckedUpdateWithoutStatusHistoryInput>
+  create: Prisma.XOR<Prisma.ShipmentCreateWithoutStatusHistoryInput, Prisma.ShipmentUncheckedCreateWithoutStatusHistoryInput>
+  where?: Prisma.ShipmentWhereInput
+}
+
+export type ShipmentUpdateToOneWithWhereWithoutStatusHistoryInput = {
+  where?: Prisma.ShipmentWhereInput
+  data: Prisma.XOR<Prisma.ShipmentUpdateWithoutStatusHistoryInput, Prisma.ShipmentUncheckedUpdateWithoutStatusHistoryInput>
+}
+
+export type ShipmentUpdateWithoutStatusHistoryInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumOrderStatusFieldUpdateOperationsInput | $Enums.OrderStatus
+  subtotal?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  trackingNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  carrier?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  shippedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  deliveredAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  order?: Prisma.OrderUpdateOneRequiredWithoutShipmentsNestedInput
+  seller?: Prisma.UserUpdateOneWithoutSellerShipmentsNestedInput
+  items?: Prisma.OrderItemUpdateManyWithoutShipmentNestedInput
+}
+
+export type ShipmentUncheckedUpdateWithoutStatusHistoryInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  orderId?: Prisma.StringFieldUpdateOperationsInput | string
+  sellerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.EnumOrderStatusFieldUpdateOperationsInput | $Enums.OrderStatus
+  subtotal?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  trackingNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  carrier?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  shippedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  deliveredAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  items?: Prisma.OrderItemUncheckedUpdateManyWithoutShipmentNestedInput
+}
+
+export type ShipmentCreateWithoutSellerInput = {
+  id?: string
+  status?: $Enums.OrderStatus
+  subtotal: runtime.Decimal | runtime.DecimalJsLike | number | string
+  trackingNumber?: string | null
+  carrier?: string | null
+  shippedAt?: Date | string | null
+  deliveredAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  order: Prisma.OrderCreateNestedOneWithoutShipmentsInput
+  items?: Prisma.OrderItemCreateNestedManyWithoutShipmentInput
+  statusHistory?: Prisma.OrderStatusHistoryCreateNestedManyWithoutShipmentInput
+}
+
+export type ShipmentUncheckedCreateWithoutSellerInput = {
+  id?: string
+  orderId: string
+  status?: $Enums.OrderStatus
+  subtotal: runtime.Decimal | runtime.DecimalJsLike | number | string
+  trackingNumber?: string | null
+  carrier?: string | null
+  shippedAt?: Date | string | null
+  deliveredAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  items?: Prisma.OrderItemUncheckedCreateNestedManyWithoutShipmentInput
+  statusHistory?: Prisma.OrderStatusHistoryUncheckedCreateNestedManyWithoutShipmentInput
+}
+
+export type ShipmentCreateOrConnectWithoutSellerInput = {
+  where: Prisma.ShipmentWhereUniqueInput
+  create: Prisma.XOR<Prisma.ShipmentCreateWithoutSellerInput, Prisma.ShipmentUncheckedCreateWithoutSellerInput>
+}
+
+export type ShipmentCreateManySellerInputEnvelope = {
+  data: Prisma.ShipmentCreateManySellerInput | Prisma.ShipmentCreateManySellerInput[]
+  skipDuplicates?: boolean
+}
+
+export type ShipmentUpsertWithWhereUniqueWithoutSellerInput = {
+  where: Prisma.ShipmentWhereUniqueInput
+  update: Prisma.XOR<Prisma.ShipmentUpdateWithoutSellerInput, Prisma.ShipmentUncheckedUpdateWithoutSellerInput>
+  create: Prisma.XOR<Prisma.ShipmentCreateWithoutSellerInput, Prisma.ShipmentUncheckedCreateWithoutSellerInput>
+}
+
+export type ShipmentUpdateWithWhereUniqueWithoutSellerInput = {
+  where: Prisma.ShipmentWhereUniqueInput
+  data: Prisma.XOR<Prisma.ShipmentUpdateWithoutSellerInput, Prisma.ShipmentUncheckedUpdateWithoutSellerInput>
+}
+
+export type ShipmentUpdateManyWithWhereWithoutSellerInput = {
+  where: Prisma.ShipmentScalarWhereInput
+  data: Prisma.XOR<Prisma.ShipmentUpdateManyMutationInput, Prisma.ShipmentUncheckedUpdateManyWithoutSellerInput>
+}
+
+export type ShipmentCreateManyOrderInput = {
+  id?: string
+  sellerId?: string | null
+  status?: $Enums.OrderStatus
+  subtotal: runtime.Decimal | runtime.DecimalJsLike | number | string
+  trackingNumber?: string | null
+  carrier?: string | null
+  shippedAt?: Date | string | null
+  deliveredAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type ShipmentUpdateWithoutOrderInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumOrderStatusFieldUpdateOperationsInput | $Enums.OrderStatus
+  subtotal?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  trackingNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  carrier?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  shippedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  deliveredAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  seller?: Prisma.UserUpdateOneWithoutSellerShipmentsNestedInput
+  items?: Prisma.OrderItemUpdateManyWithoutShipmentNestedInput
+  statusHistory?: Prisma.OrderStatusHistoryUpdateManyWithoutShipmentNestedInput
+}
+
+export type ShipmentUncheckedUpdateWithoutOrderInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  sellerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.EnumOrderStatusFieldUpdateOperationsInput | $Enums.OrderStatus
+  subtotal?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  trackingNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  carrier?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  shippedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  deliveredAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  items?: Prisma.OrderItemUncheckedUpdateManyWithoutShipmentNestedInput
+  statusHistory?: Prisma.OrderStatusHistoryUncheckedUpdateManyWithoutShipmentNestedInput
+}
+
+export type ShipmentUncheckedUpdateManyWithoutOrderInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  sellerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.EnumOrderStatusFieldUpdateOperationsInput | $Enums.OrderStatus
+  subtotal?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  trackingNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  carrier?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  shippedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  deliveredAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ShipmentCreateManySellerInput = {
+  id?: string
+  orderId: string
+  status?: $Enums.OrderStatus
+  subtotal: runtime.Decimal | runtime.DecimalJsLike | number | string
+  trackingNumber?: string | null
+  carrier?: string | null
+  shippedAt?: Date | string | null
+  deliveredAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type ShipmentUpdateWithoutSellerInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumOrderStatusFieldUpdateOperationsInput | $Enums.OrderStatus
+  subtotal?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  trackingNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  carrier?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  shippedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  deliveredAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  order?: Prisma.OrderUpdateOneRequiredWithoutShipmentsNestedInput
+  items?: Prisma.OrderItemUpdateManyWithoutShipmentNestedInput
+  statusHistory?: Prisma.OrderStatusHistoryUpdateManyWithoutShipmentNestedInput
+}
+
+export type ShipmentUncheckedUpdateWithoutSellerInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  orderId?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumOrderStatusFieldUpdateOperationsInput | $Enums.OrderStatus
+  subtotal?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  trackingNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  carrier?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  shippedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  deliveredAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  items?: Prisma.OrderItemUncheckedUpdateManyWithoutShipmentNestedInput
+  statusHistory?: Prisma.OrderStatusHistoryUncheckedUpdateManyWithoutShipmentNestedInput
+}
+
+export type ShipmentUncheckedUpdateManyWithoutSellerInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  orderId?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumOrderStatusFieldUpdateOperationsInput | $Enums.OrderStatus
+  subtotal?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  trackingNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  carrier?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  shippedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  deliveredAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+/**
+ * Count Type ShipmentCountOutputType
+ */
+
+export type ShipmentCountOutputType = {
+  items: number
+  statusHistory: number
+}
+
+export type ShipmentCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  items?: boolean | ShipmentCountOutputTypeCountItemsArgs
+  statusHistory?: boolean | ShipmentCountOutputTypeCountStatusHistoryArgs
+}
+
+/**
+ * ShipmentCountOutputType without action
+ */
+export type ShipmentCountOutputTypeDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShipmentCountOutputType
+   */
+  select?: Prisma.ShipmentCountOutputTypeSelect<ExtArgs> | null
+}
+
+/**
+ * ShipmentCountOutputType without action
+ */
+export type ShipmentCountOutputTypeCountItemsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.OrderItemWhereInput
+}
+
+/**
+ * ShipmentCountOutputType without action
+ */
+export type ShipmentCountOutputTypeCountStatusHistoryArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.OrderStatusHistoryWhereInput
+}
+
+
+export type ShipmentSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  orderId?: boolean
+  sellerId?: boolean
+  status?: boolean
+  subtotal?: boolean
+  trackingNumber?: boolean
+  carrier?: boolean
+  shippedAt?: boolean
+  deliveredAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  order?: boolean | Prisma.OrderDefaultArgs<ExtArgs>
+  seller?: boolean | Prisma.Shipment$sellerArgs<ExtArgs>
+  items?: boolean | Prisma.Shipment$itemsArgs<ExtArgs>
+  statusHistory?: boolean | Prisma.Shipment$statusHistoryArgs<ExtArgs>
+  _count?: boolean | Prisma.ShipmentCountOutputTypeDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["shipment"]>
+
+export type ShipmentSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  orderId?: boolean
+  sellerId?: boolean
+  status?: boolean
+  subtotal?: boolean
+  trackingNumber?: boolean
+  carrier?: boolean
+  shippedAt?: boolean
+  deliveredAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  order?: boolean | Prisma.OrderDefaultArgs<ExtArgs>
+  seller?: boolean | Prisma.Shipment$sellerArgs<ExtArgs>
+}, ExtArgs["result"]["shipment"]>
+
+export type ShipmentSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  orderId?: boolean
+  sellerId?: boolean
+  status?: boolean
+  subtotal?: boolean
+  trackingNumber?: boolean
+  carrier?: boolean
+  shippedAt?: boolean
+  deliveredAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  order?: boolean | Prisma.OrderDefaultArgs<ExtArgs>
+  seller?: boolean | Prisma.Shipment$sellerArgs<ExtArgs>
+}, ExtArgs["result"]["shipment"]>
+
+export type ShipmentSelectScalar = {
+  id?: boolean
+  orderId?: boolean
+  sellerId?: boolean
+  status?: boolean
+  subtotal?: boolean
+  trackingNumber?: boolean
+  carrier?: boolean
+  shippedAt?: boolean
+  deliveredAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}
+
+export type ShipmentOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "orderId" | "sellerId" | "status" | "subtotal" | "trackingNumber" | "carrier" | "shippedAt" | "deliveredAt" | "createdAt" | "updatedAt", ExtArgs["result"]["shipment"]>
+export type ShipmentInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  order?: boolean | Prisma.OrderDefaultArgs<ExtArgs>
+  seller?: boolean | Prisma.Shipment$sellerArgs<ExtArgs>
+  items?: boolean | Prisma.Shipment$itemsArgs<ExtArgs>
+  statusHistory?: boolean | Prisma.Shipment$statusHistoryArgs<ExtArgs>
+  _count?: boolean | Prisma.ShipmentCountOutputTypeDefaultArgs<ExtArgs>
+}
+export type ShipmentIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  order?: boolean | Prisma.OrderDefaultArgs<ExtArgs>
+  seller?: boolean | Prisma.Shipment$sellerArgs<ExtArgs>
+}
+export type ShipmentIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  order?: boolean | Prisma.OrderDefaultArgs<ExtArgs>
+  seller?: boolean | Prisma.Shipment$sellerArgs<ExtArgs>
+}
+
+export type $ShipmentPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "Shipment"
+  objects: {
+    order: Prisma.$OrderPayload<ExtArgs>
+    seller: Prisma.$UserPayload<ExtArgs> | null
+    items: Prisma.$OrderItemPayload<ExtArgs>[]
+    statusHistory: Prisma.$OrderStatusHistoryPayload<ExtArgs>[]
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    orderId: string
+    sellerId: string | null
+    status: $Enums.OrderStatus
+    subtotal: runtime.Decimal
+    trackingNumber: string | null
+    carrier: string | null
+    shippedAt: Date | null
+    deliveredAt: Date | null
+    createdAt: Date
+    updatedAt: Date
+  }, ExtArgs["result"]["shipment"]>
+  composites: {}
+}
+
+export type ShipmentGetPayload<S extends boolean | null | undefined | ShipmentDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$ShipmentPayload, S>
+
+export type ShipmentCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<ShipmentFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: ShipmentCountAggregateInputType | true
+  }
+
+export interface ShipmentDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['Shipment'], meta: { name: 'Shipment' } }
+  /**
+   * Find zero or one Shipment that matches the filter.
+   * @param {ShipmentFindUniqueArgs} args - Arguments to find a Shipment
+   * @example
+   * // Get one Shipment
+   * const shipment = await prisma.shipment.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends ShipmentFindUniqueArgs>(args: Prisma.SelectSubset<T, ShipmentFindUniqueArgs<ExtArgs>>): Prisma.Prisma__ShipmentClient<runtime.Types.Result.GetResult<Prisma.$ShipmentPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one Shipment that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {ShipmentFindUniqueOrThrowArgs} args - Arguments to find a Shipment
+   * @example
+   * // Get one Shipment
+   * const shipment = await prisma.shipment.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends ShipmentFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, ShipmentFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__ShipmentClient<runtime.Types.Result.GetResult<Prisma.$ShipmentPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first Shipment that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ShipmentFindFirstArgs} args - Arguments to find a Shipment
+   * @example
+   * // Get one Shipment
+   * const shipment = await prisma.shipment.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends ShipmentFindFirstArgs>(args?: Prisma.SelectSubset<T, ShipmentFindFirstArgs<ExtArgs>>): Prisma.Prisma__ShipmentClient<runtime.Types.Result.GetResult<Prisma.$ShipmentPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first Shipment that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ShipmentFindFirstOrThrowArgs} args - Arguments to find a Shipment
+   * @example
+   * // Get one Shipment
+   * const shipment = await prisma.shipment.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends ShipmentFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, ShipmentFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__ShipmentClient<runtime.Types.Result.GetResult<Prisma.$ShipmentPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more Shipments that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ShipmentFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all Shipments
+   * const shipments = await prisma.shipment.findMany()
+   * 
+   * // Get first 10 Shipments
+   * const shipments = await prisma.shipment.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const shipmentWithIdOnly = await prisma.shipment.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends ShipmentFindManyArgs>(args?: Prisma.SelectSubset<T, ShipmentFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ShipmentPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a Shipment.
+   * @param {ShipmentCreateArgs} args - Arguments to create a Shipment.
+   * @example
+   * // Create one Shipment
+   * const Shipment = await prisma.shipment.create({
+   *   data: {
+   *     // ... data to create a Shipment
+   *   }
+   * })
+   * 
+   */
+  create<T extends ShipmentCreateArgs>(args: Prisma.SelectSubset<T, ShipmentCreateArgs<ExtArgs>>): Prisma.Prisma__ShipmentClient<runtime.Types.Result.GetResult<Prisma.$ShipmentPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many Shipments.
+   * @param {ShipmentCreateManyArgs} args - Arguments to create many Shipments.
+   * @example
+   * // Create many Shipments
+   * const shipment = await prisma.shipment.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends ShipmentCreateManyArgs>(args?: Prisma.SelectSubset<T, ShipmentCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many Shipments and returns the data saved in the database.
+   * @param {ShipmentCreateManyAndReturnArgs} args - Arguments to create many Shipments.
+   * @example
+   * // Create many Shipments
+   * const shipment = await prisma.shipment.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many Shipments and only return the `id`
+   * const shipmentWithIdOnly = await prisma.shipment.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends ShipmentCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, ShipmentCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ShipmentPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a Shipment.
+   * @param {ShipmentDeleteArgs} args - Arguments to delete one Shipment.
+   * @example
+   * // Delete one Shipment
+   * const Shipment = await prisma.shipment.delete({
+   *   where: {
+   *     // ... filter to delete one Shipment
+   *   }
+   * })
+   * 
+   */
+  delete<T extends ShipmentDeleteArgs>(args: Prisma.SelectSubset<T, ShipmentDeleteArgs<ExtArgs>>): Prisma.Prisma__ShipmentClient<runtime.Types.Result.GetResult<Prisma.$ShipmentPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one Shipment.
+   * @param {ShipmentUpdateArgs} args - Arguments to update one Shipment.
+   * @example
+   * // Update one Shipment
+   * const shipment = await prisma.shipment.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends ShipmentUpdateArgs>(args: Prisma.SelectSubset<T, ShipmentUpdateArgs<ExtArgs>>): Prisma.Prisma__ShipmentClient<runtime.Types.Result.GetResult<Prisma.$ShipmentPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more Shipments.
+   * @param {ShipmentDeleteManyArgs} args - Arguments to filter Shipments to delete.
+   * @example
+   * // Delete a few Shipments
+   * const { count } = await prisma.shipment.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends ShipmentDeleteManyArgs>(args?: Prisma.SelectSubset<T, ShipmentDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more Shipments.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ShipmentUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many Shipments
+   * const shipment = await prisma.shipment.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends ShipmentUpdateManyArgs>(args: Prisma.SelectSubset<T, ShipmentUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more Shipments and returns the data updated in the database.
+   * @param {ShipmentUpdateManyAndReturnArgs} args - Arguments to update many Shipments.
+   * @example
+   * // Update many Shipments
+   * const shipment = await prisma.shipment.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more Shipments and only return the `id`
+   * const shipmentWithIdOnly = await prisma.shipment.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends ShipmentUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, ShipmentUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ShipmentPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one Shipment.
+   * @param {ShipmentUpsertArgs} args - Arguments to update or create a Shipment.
+   * @example
+   * // Update or create a Shipment
+   * const shipment = await prisma.shipment.upsert({
+   *   create: {
+   *     // ... data to create a Shipment
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the Shipment we want to update
+   *   }
+   * })
+   */
+  upsert<T extends ShipmentUpsertArgs>(args: Prisma.SelectSubset<T, ShipmentUpsertArgs<ExtArgs>>): Prisma.Prisma__ShipmentClient<runtime.Types.Result.GetResult<Prisma.$ShipmentPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of Shipments.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ShipmentCountArgs} args - Arguments to filter Shipments to count.
+   * @example
+   * // Count the number of Shipments
+   * const count = await prisma.shipment.count({
+   *   where: {
+   *     // ... the filter for the Shipments we want to count
+   *   }
+   * })
+  **/
+  count<T extends ShipmentCountArgs>(
+    args?: Prisma.Subset<T, ShipmentCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], ShipmentCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a Shipment.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ShipmentAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends ShipmentAggregateArgs>(args: Prisma.Subset<T, ShipmentAggregateArgs>): Prisma.PrismaPromise<GetShipmentAggregateType<T>>
+
+  /**
+   * Group by Shipment.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ShipmentGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends ShipmentGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: ShipmentGroupByArgs['orderBy'] }
+      : { orderBy?: ShipmentGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, ShipmentGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetShipmentGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the Shipment model
+ */
+readonly fields: ShipmentFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for Shipment.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__ShipmentClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  order<T extends Prisma.OrderDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.OrderDefaultArgs<ExtArgs>>): Prisma.Prisma__OrderClient<runtime.Types.Result.GetResult<Prisma.$OrderPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  seller<T extends Prisma.Shipment$sellerArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Shipment$sellerArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  items<T extends Prisma.Shipment$itemsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Shipment$itemsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$OrderItemPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  statusHistory<T extends Prisma.Shipment$statusHistoryArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Shipment$statusHistoryArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$OrderStatusHistoryPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the Shipment model
+ */
+export interface ShipmentFieldRefs {
+  readonly id: Prisma.FieldRef<"Shipment", 'String'>
+  readonly orderId: Prisma.FieldRef<"Shipment", 'String'>
+  readonly sellerId: Prisma.FieldRef<"Shipment", 'String'>
+  readonly status: Prisma.FieldRef<"Shipment", 'OrderStatus'>
+  readonly subtotal: Prisma.FieldRef<"Shipment", 'Decimal'>
+  readonly trackingNumber: Prisma.FieldRef<"Shipment", 'String'>
+  readonly carrier: Prisma.FieldRef<"Shipment", 'String'>
+  readonly shippedAt: Prisma.FieldRef<"Shipment", 'DateTime'>
+  readonly deliveredAt: Prisma.FieldRef<"Shipment", 'DateTime'>
+  readonly createdAt: Prisma.FieldRef<"Shipment", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"Shipment", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * Shipment findUnique
+ */
+export type ShipmentFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Shipment
+   */
+  select?: Prisma.ShipmentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Shipment
+   */
+  omit?: Prisma.ShipmentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShipmentInclude<ExtArgs> | null
+  /**
+   * Filter, which Shipment to fetch.
+   */
+  where: Prisma.ShipmentWhereUniqueInput
+}
+
+/**
+ * Shipment findUniqueOrThrow
+ */
+export type ShipmentFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Shipment
+   */
+  select?: Prisma.ShipmentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Shipment
+   */
+  omit?: Prisma.ShipmentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShipmentInclude<ExtArgs> | null
+  /**
+   * Filter, which Shipment to fetch.
+   */
+  where: Prisma.ShipmentWhereUniqueInput
+}
+
+/**
+ * Shipment findFirst
+ */
+export type ShipmentFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Shipment
+   */
+  select?: Prisma.ShipmentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Shipment
+   */
+  omit?: Prisma.ShipmentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShipmentInclude<ExtArgs> | null
+  /**
+   * Filter, which Shipment to fetch.
+   */
+  where?: Prisma.ShipmentWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Shipments to fetch.
+   */
+  orderBy?: Prisma.ShipmentOrderByWithRelationInput | Prisma.ShipmentOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for Shipments.
+   */
+  cursor?: Prisma.ShipmentWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Shipments from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Shipments.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of Shipments.
+   */
+  distinct?: Prisma.ShipmentScalarFieldEnum | Prisma.ShipmentScalarFieldEnum[]
+}
+
+/**
+ * Shipment findFirstOrThrow
+ */
+export type ShipmentFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Shipment
+   */
+  select?: Prisma.ShipmentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Shipment
+   */
+  omit?: Prisma.ShipmentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShipmentInclude<ExtArgs> | null
+  /**
+   * Filter, which Shipment to fetch.
+   */
+  where?: Prisma.ShipmentWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Shipments to fetch.
+   */
+  orderBy?: Prisma.ShipmentOrderByWithRelationInput | Prisma.ShipmentOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for Shipments.
+   */
+  cursor?: Prisma.ShipmentWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Shipments from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Shipments.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of Shipments.
+   */
+  distinct?: Prisma.ShipmentScalarFieldEnum | Prisma.ShipmentScalarFieldEnum[]
+}
+
+/**
+ * Shipment findMany
+ */
+export type ShipmentFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Shipment
+   */
+  select?: Prisma.ShipmentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Shipment
+   */
+  omit?: Prisma.ShipmentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShipmentInclude<ExtArgs> | null
+  /**
+   * Filter, which Shipments to fetch.
+   */
+  where?: Prisma.ShipmentWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Shipments to fetch.
+   */
+  orderBy?: Prisma.ShipmentOrderByWithRelationInput | Prisma.ShipmentOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing Shipments.
+   */
+  cursor?: Prisma.ShipmentWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Shipments from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Shipments.
+   */
+  skip?: number
+  distinct?: Prisma.ShipmentScalarFieldEnum | Prisma.ShipmentScalarFieldEnum[]
+}
+
+/**
+ * Shipment create
+ */
+export type ShipmentCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Shipment
+   */
+  select?: Prisma.ShipmentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Shipment
+   */
+  omit?: Prisma.ShipmentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShipmentInclude<ExtArgs> | null
+  /**
+   * The data needed to create a Shipment.
+   */
+  data: Prisma.XOR<Prisma.ShipmentCreateInput, Prisma.ShipmentUncheckedCreateInput>
+}
+
+/**
+ * Shipment createMany
+ */
+export type ShipmentCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many Shipments.
+   */
+  data: Prisma.ShipmentCreateManyInput | Prisma.ShipmentCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * Shipment createManyAndReturn
+ */
+export type ShipmentCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Shipment
+   */
+  select?: Prisma.ShipmentSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the Shipment
+   */
+  omit?: Prisma.ShipmentOmit<ExtArgs> | null
+  /**
+   * The data used to create many Shipments.
+   */
+  data: Prisma.ShipmentCreateManyInput | Prisma.ShipmentCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShipmentIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * Shipment update
+ */
+export type ShipmentUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Shipment
+   */
+  select?: Prisma.ShipmentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Shipment
+   */
+  omit?: Prisma.ShipmentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShipmentInclude<ExtArgs> | null
+  /**
+   * The data needed to update a Shipment.
+   */
+  data: Prisma.XOR<Prisma.ShipmentUpdateInput, Prisma.ShipmentUncheckedUpdateInput>
+  /**
+   * Choose, which Shipment to update.
+   */
+  where: Prisma.ShipmentWhereUniqueInput
+}
+
+/**
+ * Shipment updateMany
+ */
+export type ShipmentUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update Shipments.
+   */
+  data: Prisma.XOR<Prisma.ShipmentUpdateManyMutationInput, Prisma.ShipmentUncheckedUpdateManyInput>
+  /**
+   * Filter which Shipments to update
+   */
+  where?: Prisma.ShipmentWhereInput
+  /**
+   * Limit how many Shipments to update.
+   */
+  limit?: number
+}
+
+/**
+ * Shipment updateManyAndReturn
+ */
+export type ShipmentUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Shipment
+   */
+  select?: Prisma.ShipmentSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the Shipment
+   */
+  omit?: Prisma.ShipmentOmit<ExtArgs> | null
+  /**
+   * The data used to update Shipments.
+   */
+  data: Prisma.XOR<Prisma.ShipmentUpdateManyMutationInput, Prisma.ShipmentUncheckedUpdateManyInput>
+  /**
+   * Filter which Shipments to update
+   */
+  where?: Prisma.ShipmentWhereInput
+  /**
+   * Limit how many Shipments to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShipmentIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * Shipment upsert
+ */
+export type ShipmentUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Shipment
+   */
+  select?: Prisma.ShipmentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Shipment
+   */
+  omit?: Prisma.ShipmentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShipmentInclude<ExtArgs> | null
+  /**
+   * The filter to search for the Shipment to update in case it exists.
+   */
+  where: Prisma.ShipmentWhereUniqueInput
+  /**
+   * In case the Shipment found by the `where` argument doesn't exist, create a new Shipment with this data.
+   */
+  create: Prisma.XOR<Prisma.ShipmentCreateInput, Prisma.ShipmentUncheckedCreateInput>
+  /**
+   * In case the Shipment was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.ShipmentUpdateInput, Prisma.ShipmentUncheckedUpdateInput>
+}
+
+/**
+ * Shipment delete
+ */
+export type ShipmentDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Shipment
+   */
+  select?: Prisma.ShipmentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Shipment
+   */
+  omit?: Prisma.ShipmentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShipmentInclude<ExtArgs> | null
+  /**
+   * Filter which Shipment to delete.
+   */
+  where: Prisma.ShipmentWhereUniqueInput
+}
+
+/**
+ * Shipment deleteMany
+ */
+export type ShipmentDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which Shipments to delete
+   */
+  where?: Prisma.ShipmentWhereInput
+  /**
+   * Limit how many Shipments to delete.
+   */
+  limit?: number
+}
+
+/**
+ * Shipment.seller
+ */
+export type Shipment$sellerArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the User
+   */
+  select?: Prisma.UserSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the User
+   */
+  omit?: Prisma.UserOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.UserInclude<ExtArgs> | null
+  where?: Prisma.UserWhereInput
+}
+
+/**
+ * Shipment.items
+ */
+export type Shipment$itemsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OrderItem
+   */
+  select?: Prisma.OrderItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OrderItem
+   */
+  omit?: Prisma.OrderItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OrderItemInclude<ExtArgs> | null
+  where?: Prisma.OrderItemWhereInput
+  orderBy?: Prisma.OrderItemOrderByWithRelationInput | Prisma.OrderItemOrderByWithRelationInput[]
+  cursor?: Prisma.OrderItemWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.OrderItemScalarFieldEnum | Prisma.OrderItemScalarFieldEnum[]
+}
+
+/**
+ * Shipment.statusHistory
+ */
+export type Shipment$statusHistoryArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OrderStatusHistory
+   */
+  select?: Prisma.OrderStatusHistorySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OrderStatusHistory
+   */
+  omit?: Prisma.OrderStatusHistoryOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OrderStatusHistoryInclude<ExtArgs> | null
+  where?: Prisma.OrderStatusHistoryWhereInput
+  orderBy?: Prisma.OrderStatusHistoryOrderByWithRelationInput | Prisma.OrderStatusHistoryOrderByWithRelationInput[]
+  cursor?: Prisma.OrderStatusHistoryWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.OrderStatusHistoryScalarFieldEnum | Prisma.OrderStatusHistoryScalarFieldEnum[]
+}
+
+/**
+ * Shipment without action
+ */
+export type ShipmentDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Shipment
+   */
+  select?: Prisma.ShipmentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Shipment
+   */
+  omit?: Prisma.ShipmentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShipmentInclude<ExtArgs> | null
+}
@@ -34,6 +34,9 @@ export type UserMinAggregateOutputType = {
   phone: string | null
   role: $Enums.UserRole | null
   status: $Enums.UserStatus | null
+  banReason: string | null
+  banExpires: Date | null
+  currency: string | null
   createdAt: Date | null
   updatedAt: Date | null
 }
@@ -48,6 +51,9 @@ export type UserMaxAggregateOutputType = {
   phone: string | null
   role: $Enums.UserRole | null
   status: $Enums.UserStatus | null
+  banReason: string | null
+  banExpires: Date | null
+  currency: string | null
   createdAt: Date | null
   updatedAt: Date | null
 }
@@ -62,6 +68,9 @@ export type UserCountAggregateOutputType = {
   phone: number
   role: number
   status: number
+  banReason: number
+  banExpires: number
+  currency: number
   createdAt: number
   updatedAt: number
   _all: number
@@ -78,6 +87,9 @@ export type UserMinAggregateInputType = {
   phone?: true
   role?: true
   status?: true
+  banReason?: true
+  banExpires?: true
+  currency?: true
   createdAt?: true
   updatedAt?: true
 }
@@ -92,6 +104,9 @@ export type UserMaxAggregateInputType = {
   phone?: true
   role?: true
   status?: true
+  banReason?: true
+  banExpires?: true
+  currency?: true
   createdAt?: true
   updatedAt?: true
 }
@@ -106,6 +121,9 @@ export type UserCountAggregateInputType = {
   phone?: true
   role?: true
   status?: true
+  banReason?: true
+  banExpires?: true
+  currency?: true
   createdAt?: true
   updatedAt?: true
   _all?: true
@@ -193,6 +211,9 @@ export type UserGroupByOutputType = {
   phone: string | null
   role: $Enums.UserRole
   status: $Enums.UserStatus
+  banReason: string | null
+  banExpires: Date | null
+  currency: string
   createdAt: Date
   updatedAt: Date
   _count: UserCountAggregateOutputType | null
@@ -228,6 +249,9 @@ export type UserWhereInput = {
   phone?: Prisma.StringNullableFilter<"User"> | string | null
   role?: Prisma.EnumUserRoleFilter<"User"> | $Enums.UserRole
   status?: Prisma.EnumUserStatusFilter<"User"> | $Enums.UserStatus
+  banReason?: Prisma.StringNullableFilter<"User"> | string | null
+  banExpires?: Prisma.DateTimeNullableFilter<"User"> | Date | string | null
+  currency?: Prisma.StringFilter<"User"> | string
   createdAt?: Prisma.DateTimeFilter<"User"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"User"> | Date | string
   sessions?: Prisma.SessionListRelationFilter
@@ -235,7 +259,22 @@ export type UserWhereInput = {
   cart?: Prisma.XOR<Prisma.CartNullableScalarRelationFilter, Prisma.CartWhereInput> | null
   sellerMedicines?: Prisma.MedicineListRelationFilter
   orders?: Prisma.OrderListRelationFilter
+  sellerShipments?: Prisma.ShipmentListRelationFilter
   reviews?: Prisma.ReviewListRelationFilter
+  prescriptions?: Prisma.PrescriptionListRelationFilter
+  payments?: Prisma.PaymentListRelationFilter
+  returnRequests?: Prisma.ReturnRequestListRelationFilter
+  stockMovements?: Prisma.StockMovementListRelationFilter
+  recallNotices?: Prisma.RecallNoticeListRelationFilter
+  sellerCoupons?: Prisma.CouponListRelationFilter
+  addresses?: Prisma.AddressListRelationFilter
+  interactionOverrides?: Prisma.InteractionOverrideListRelationFilter
+  importJobs?: Prisma.ImportJobListRelationFilter
+  sellerApplication?: Prisma.XOR<Prisma.SellerApplicationNullableScalarRelationFilter, Prisma.SellerApplicationWhereInput> | null
+  sellerProfile?: Prisma.XOR<Prisma.SellerProfileNullableScalarRelationFilter, Prisma.SellerProfileWhereInput> | null
+  commissionRate?: Prisma.XOR<Prisma.CommissionRateNullableScalarRelationFilter, Prisma.CommissionRateWhereInput> | null
+  ledgerEntries?: Prisma.SellerLedgerEntryListRelationFilter
+  payoutRequests?: Prisma.PayoutRequestListRelationFilter
 }
 
 export type UserOrderByWithRelationInput = {
@@ -248,6 +287,9 @@ export type UserOrderByWithRelationInput = {
   phone?: Prisma.SortOrderInput | Prisma.SortOrder
   role?: Prisma.SortOrder
   status?: Prisma.SortOrder
+  banReason?: Prisma.SortOrderInput | Prisma.SortOrder
+  banExpires?: Prisma.SortOrderInput | Prisma.SortOrder
+  currency?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   sessions?: Prisma.SessionOrderByRelationAggregateInput
@@ -255,7 +297,22 @@ export type UserOrderByWithRelationInput = {
   cart?: Prisma.CartOrderByWithRelationInput
   sellerMedicines?: Prisma.MedicineOrderByRelationAggregateInput
   orders?: Prisma.OrderOrderByRelationAggregateInput
+  sellerShipments?: Prisma.ShipmentOrderByRelationAggregateInput
   reviews?: Prisma.ReviewOrderByRelationAggregateInput
+  prescriptions?: Prisma.PrescriptionOrderByRelationAggregateInput
+  payments?: Prisma.PaymentOrderByRelationAggregateInput
+  returnRequests?: Prisma.ReturnRequestOrderByRelationAggregateInput
+  stockMovements?: Prisma.StockMovementOrderByRelationAggregateInput
+  recallNotices?: Prisma.RecallNoticeOrderByRelationAggregateInput
+  sellerCoupons?: Prisma.CouponOrderByRelationAggregateInput
+  addresses?: Prisma.AddressOrderByRelationAggregateInput
+  interactionOverrides?: Prisma.InteractionOverrideOrderByRelationAggregateInput
+  importJobs?: Prisma.ImportJobOrderByRelationAggregateInput
+  sellerApplication?: Prisma.SellerApplicationOrderByWithRelationInput
+  sellerProfile?: Prisma.SellerProfileOrderByWithRelationInput
+  commissionRate?: Prisma.CommissionRateOrderByWithRelationInput
+  ledgerEntries?: Prisma.SellerLedgerEntryOrderByRelationAggregateInput
+  payoutRequests?: Prisma.PayoutRequestOrderByRelationAggregateInput
 }
 
 export type UserWhereUniqueInput = Prisma.AtLeast<{
@@ -271,6 +328,9 @@ export type UserWhereUniqueInput = Prisma.AtLeast<{
   phone?: Prisma.StringNullableFilter<"User"> | string | null
   role?: Prisma.EnumUserRoleFilter<"User"> | $Enums.UserRole
   status?: Prisma.EnumUserStatusFilter<"User"> | $Enums.UserStatus
+  banReason?: Prisma.StringNullableFilter<"User"> | string | null
+  banExpires?: Prisma.DateTimeNullableFilter<"User"> | Date | string | null
+  currency?: Prisma.StringFilter<"User"> | string
   createdAt?: Prisma.DateTimeFilter<"User"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"User"> | Date | string
   sessions?: Prisma.SessionListRelationFilter
@@ -278,7 +338,22 @@ export type UserWhereUniqueInput = Prisma.AtLeast<{
   cart?: Prisma.XOR<Prisma.CartNullableScalarRelationFilter, Prisma.CartWhereInput> | null
   sellerMedicines?: Prisma.MedicineListRelationFilter
   orders?: Prisma.OrderListRelationFilter
+  sellerShipments?: Prisma.ShipmentListRelationFilter
   reviews?: Prisma.ReviewListRelationFilter
+  prescriptions?: Prisma.PrescriptionListRelationFilter
+  payments?: Prisma.PaymentListRelationFilter
+  returnRequests?: Prisma.ReturnRequestListRelationFilter
+  stockMovements?: Prisma.StockMovementListRelationFilter
+  recallNotices?: Prisma.RecallNoticeListRelationFilter
+  sellerCoupons?: Prisma.CouponListRelationFilter
+  addresses?: Prisma.AddressListRelationFilter
+  interactionOverrides?: Prisma.InteractionOverrideListRelationFilter
+  importJobs?: Prisma.ImportJobListRelationFilter
+  sellerApplication?: Prisma.XOR<Prisma.SellerApplicationNullableScalarRelationFilter, Prisma.SellerApplicationWhereInput> | null
+  sellerProfile?: Prisma.XOR<Prisma.SellerProfileNullableScalarRelationFilter, Prisma.SellerProfileWhereInput> | null
+  commissionRate?: Prisma.XOR<Prisma.CommissionRateNullableScalarRelationFilter, Prisma.CommissionRateWhereInput> | null
+  ledgerEntries?: Prisma.SellerLedgerEntryListRelationFilter
+  payoutRequests?: Prisma.PayoutRequestListRelationFilter
 }, "id" | "email">
 
 export type UserOrderByWithAggregationInput = {
@@ -291,6 +366,9 @@ export type UserOrderByWithAggregationInput = {
   phone?: Prisma.SortOrderInput | Prisma.SortOrder
   role?: Prisma.SortOrder
   status?: Prisma.SortOrder
+  banReason?: Prisma.SortOrderInput | Prisma.SortOrder
+  banExpires?: Prisma.SortOrderInput | Prisma.SortOrder
+  currency?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   _count?: Prisma.UserCountOrderByAggregateInput
@@ -311,6 +389,9 @@ export type UserScalarWhereWithAggregatesInput = {
   phone?: Prisma.StringNullableWithAggregatesFilter<"User"> | string | null
   role?: Prisma.EnumUserRoleWithAggregatesFilter<"User"> | $Enums.UserRole
   status?: Prisma.EnumUserStatusWithAggregatesFilter<"User"> | $Enums.UserStatus
+  banReason?: Prisma.StringNullableWithAggregatesFilter<"User"> | string | null
+  banExpires?: Prisma.DateTimeNullableWithAggregatesFilter<"User"> | Date | string | null
+  currency?: Prisma.StringWithAggregatesFilter<"User"> | string
   createdAt?: Prisma.DateTimeWithAggregatesFilter<"User"> | Date | string
   updatedAt?: Prisma.DateTimeWithAggregatesFilter<"User"> | Date | string
 }
@@ -325,6 +406,9 @@ export type UserCreateInput = {
   phone?: string | null
   role?: $Enums.UserRole
   status?: $Enums.UserStatus
+  banReason?: string | null
+  banExpires?: Date | string | null
+  currency?: string
   createdAt?: Date | string
   updatedAt?: Date | string
   sessions?: Prisma.SessionCreateNestedManyWithoutUserInput
@@ -332,7 +416,22 @@ export type UserCreateInput = {
   cart?: Prisma.CartCreateNestedOneWithoutUserInput
   sellerMedicines?: Prisma.MedicineCreateNestedManyWithoutSellerInput
   orders?: Prisma.OrderCreateNestedManyWithoutUserInput
+  sellerShipments?: Prisma.ShipmentCreateNestedManyWithoutSellerInput
   reviews?: Prisma.ReviewCreateNestedManyWithoutUserInput
+  prescriptions?: Prisma.PrescriptionCreateNestedManyWithoutUserInput
+  payments?: Prisma.PaymentCreateNestedManyWithoutUserInput
+  returnRequests?: Prisma.ReturnRequestCreateNestedManyWithoutUserInput
+  stockMovements?: Prisma.StockMovementCreateNestedManyWithoutActorInput
+  recallNotices?: Prisma.RecallNoticeCreateNestedManyWithoutUserInput
+  sellerCoupons?: Prisma.CouponCreateNestedManyWithoutSellerInput
+  addresses?: Prisma.AddressCreateNestedManyWithoutUserInput
+  interactionOverrides?: Prisma.InteractionOverrideCreateNestedManyWithoutUserInput
+  importJobs?: Prisma.ImportJobCreateNestedManyWithoutSellerInput
+  sellerApplication?: Prisma.SellerApplicationCreateNestedOneWithoutUserInput
+  sellerProfile?: Prisma.SellerProfileCreateNestedOneWithoutUserInput
+  commissionRate?: Prisma.CommissionRateCreateNestedOneWithoutSellerInput
+  ledgerEntries?: Prisma.SellerLedgerEntryCreateNestedManyWithoutSellerInput
+  payoutRequests?: Prisma.PayoutRequestCreateNestedManyWithoutSellerInput
 }
 
 export type UserUncheckedCreateInput = {
@@ -345,6 +444,9 @@ export type UserUncheckedCreateInput = {
   phone?: string | null
   role?: $Enums.UserRole
   status?: $Enums.UserStatus
+  banReason?: string | null
+  banExpires?: Date | string | null
+  currency?: string
   createdAt?: Date | string
   updatedAt?: Date | string
   sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput
@@ -352,7 +454,22 @@ export type UserUncheckedCreateInput = {
   cart?: Prisma.CartUncheckedCreateNestedOneWithoutUserInput
   sellerMedicines?: Prisma.MedicineUncheckedCreateNestedManyWithoutSellerInput
   orders?: Prisma.OrderUncheckedCreateNestedManyWithoutUserInput
+  sellerShipments?: Prisma.ShipmentUncheckedCreateNestedManyWithoutSellerInput
   reviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutUserInput
+  prescriptions?: Prisma.PrescriptionUncheckedCreateNestedManyWithoutUserInput
+  payments?: Prisma.PaymentUncheckedCreateNestedManyWithoutUserInput
+  returnRequests?: Prisma.ReturnRequestUncheckedCreateNestedManyWithoutUserInput
+  stockMovements?: Prisma.StockMovementUncheckedCreateNestedManyWithoutActorInput
+  recallNotices?: Prisma.RecallNoticeUncheckedCreateNestedManyWithoutUserInput
+  sellerCoupons?: Prisma.CouponUncheckedCreateNestedManyWithoutSellerInput
+  addresses?: Prisma.AddressUncheckedCreateNestedManyWithoutUserInput
+  interactionOverrides?: Prisma.InteractionOverrideUncheckedCreateNestedManyWithoutUserInput
+  importJobs?: Prisma.ImportJobUncheckedCreateNestedManyWithoutSellerInput
+  sellerApplication?: Prisma.SellerApplicationUncheckedCreateNestedOneWithoutUserInput
+  sellerProfile?: Prisma.SellerProfileUncheckedCreateNestedOneWithoutUserInput
+  commissionRate?: Prisma.CommissionRateUncheckedCreateNestedOneWithoutSellerInput
+  ledgerEntries?: Prisma.SellerLedgerEntryUncheckedCreateNestedManyWithoutSellerInput
+  payoutRequests?: Prisma.PayoutRequestUncheckedCreateNestedManyWithoutSellerInput
 }
 
 export type UserUpdateInput = {
@@ -365,6 +482,9 @@ export type UserUpdateInput = {
   phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
   status?: Prisma.EnumUserStatusFieldUpdateOperationsInput | $Enums.UserStatus
+  banReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  banExpires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput
@@ -372,7 +492,22 @@ export type UserUpdateInput = {
   cart?: Prisma.CartUpdateOneWithoutUserNestedInput
   sellerMedicines?: Prisma.MedicineUpdateManyWithoutSellerNestedInput
   orders?: Prisma.OrderUpdateManyWithoutUserNestedInput
+  sellerShipments?: Prisma.ShipmentUpdateManyWithoutSellerNestedInput
   reviews?: Prisma.ReviewUpdateManyWithoutUserNestedInput
+  prescriptions?: Prisma.PrescriptionUpdateManyWithoutUserNestedInput
+  payments?: Prisma.PaymentUpdateManyWithoutUserNestedInput
+  returnRequests?: Prisma.ReturnRequestUpdateManyWithoutUserNestedInput
+  stockMovements?: Prisma.StockMovementUpdateManyWithoutActorNestedInput
+  recallNotices?: Prisma.RecallNoticeUpdateManyWithoutUserNestedInput
+  sellerCoupons?: Prisma.CouponUpdateManyWithoutSellerNestedInput
+  addresses?: Prisma.AddressUpdateManyWithoutUserNestedInput
+  interactionOverrides?: Prisma.InteractionOverrideUpdateManyWithoutUserNestedInput
+  importJobs?: Prisma.ImportJobUpdateManyWithoutSellerNestedInput
+  sellerApplication?: Prisma.SellerApplicationUpdateOneWithoutUserNestedInput
+  sellerProfile?: Prisma.SellerProfileUpdateOneWithoutUserNestedInput
+  commissionRate?: Prisma.CommissionRateUpdateOneWithoutSellerNestedInput
+  ledgerEntries?: Prisma.SellerLedgerEntryUpdateManyWithoutSellerNestedInput
+  payoutRequests?: Prisma.PayoutRequestUpdateManyWithoutSellerNestedInput
 }
 
 export type UserUncheckedUpdateInput = {
@@ -385,6 +520,9 @@ export type UserUncheckedUpdateInput = {
   phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
   status?: Prisma.EnumUserStatusFieldUpdateOperationsInput | $Enums.UserStatus
+  banReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  banExpires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput
@@ -392,7 +530,22 @@ export type UserUncheckedUpdateInput = {
   cart?: Prisma.CartUncheckedUpdateOneWithoutUserNestedInput
   sellerMedicines?: Prisma.MedicineUncheckedUpdateManyWithoutSellerNestedInput
   orders?: Prisma.OrderUncheckedUpdateManyWithoutUserNestedInput
+  sellerShipments?: Prisma.ShipmentUncheckedUpdateManyWithoutSellerNestedInput
   reviews?: Prisma.ReviewUncheckedUpdateManyWithoutUserNestedInput
+  prescriptions?: Prisma.PrescriptionUncheckedUpdateManyWithoutUserNestedInput
+  payments?: Prisma.PaymentUncheckedUpdateManyWithoutUserNestedInput
+  returnRequests?: Prisma.ReturnRequestUncheckedUpdateManyWithoutUserNestedInput
+  stockMovements?: Prisma.StockMovementUncheckedUpdateManyWithoutActorNestedInput
+  recallNotices?: Prisma.RecallNoticeUncheckedUpdateManyWithoutUserNestedInput
+  sellerCoupons?: Prisma.CouponUncheckedUpdateManyWithoutSellerNestedInput
+  addresses?: Prisma.AddressUncheckedUpdateManyWithoutUserNestedInput
+  interactionOverrides?: Prisma.InteractionOverrideUncheckedUpdateManyWithoutUserNestedInput
+  importJobs?: Prisma.ImportJobUncheckedUpdateManyWithoutSellerNestedInput
+  sellerApplication?: Prisma.SellerApplicationUncheckedUpdateOneWithoutUserNestedInput
+  sellerProfile?: Prisma.SellerProfileUncheckedUpdateOneWithoutUserNestedInput
+  commissionRate?: Prisma.CommissionRateUncheckedUpdateOneWithoutSellerNestedInput
+  ledgerEntries?: Prisma.SellerLedgerEntryUncheckedUpdateManyWithoutSellerNestedInput
+  payoutRequests?: Prisma.PayoutRequestUncheckedUpdateManyWithoutSellerNestedInput
 }
 
 export type UserCreateManyInput = {
@@ -405,6 +558,9 @@ export type UserCreateManyInput = {
   phone?: string | null
   role?: $Enums.UserRole
   status?: $Enums.UserStatus
+  banReason?: string | null
+  banExpires?: Date | string | null
+  currency?: string
   createdAt?: Date | string
   updatedAt?: Date | string
 }
@@ -419,6 +575,9 @@ export type UserUpdateManyMutationInput = {
   phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
   status?: Prisma.EnumUserStatusFieldUpdateOperationsInput | $Enums.UserStatus
+  banReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  banExpires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -433,6 +592,9 @@ export type UserUncheckedUpdateManyInput = {
   phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
   status?: Prisma.EnumUserStatusFieldUpdateOperationsInput | $Enums.UserStatus
+  banReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  banExpires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -457,6 +619,9 @@ export type UserCountOrderByAggregateInput = {
   phone?: Prisma.SortOrder
   role?: Prisma.SortOrder
   status?: Prisma.SortOrder
+  banReason?: Prisma.SortOrder
+  banExpires?: Prisma.SortOrder
+  currency?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
 }
@@ -471,6 +636,9 @@ export type UserMaxOrderByAggregateInput = {
   phone?: Prisma.SortOrder
   role?: Prisma.SortOrder
   status?: Prisma.SortOrder
+  banReason?: Prisma.SortOrder
+  banExpires?: Prisma.SortOrder
+  currency?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
 }
@@ -485,10 +653,27 @@ export type UserMinOrderByAggregateInput = {
   phone?: Prisma.SortOrder
   role?: Prisma.SortOrder
   status?: Prisma.SortOrder
+  banReason?: Prisma.SortOrder
+  banExpires?: Prisma.SortOrder
+  currency?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
 }
 
+export type UserCreateNestedOneWithoutAddressesInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutAddressesInput, Prisma.UserUncheckedCreateWithoutAddressesInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutAddressesInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserUpdateOneRequiredWithoutAddressesNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutAddressesInput, Prisma.UserUncheckedCreateWithoutAddressesInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutAddressesInput
+  upsert?: Prisma.UserUpsertWithoutAddressesInput
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutAddressesInput, Prisma.UserUpdateWithoutAddressesInput>, Prisma.UserUncheckedUpdateWithoutAddressesInput>
+}
+
 export type UserCreateNestedOneWithoutCartInput = {
   create?: Prisma.XOR<Prisma.UserCreateWithoutCartInput, Prisma.UserUncheckedCreateWithoutCartInput>
   connectOrCreate?: Prisma.UserCreateOrConnectWithoutCartInput
@@ -503,6 +688,50 @@ export type UserUpdateOneRequiredWithoutCartNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutCartInput, Prisma.UserUpdateWithoutCartInput>, Prisma.UserUncheckedUpdateWithoutCartInput>
 }
 
+export type UserCreateNestedOneWithoutImportJobsInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutImportJobsInput, Prisma.UserUncheckedCreateWithoutImportJobsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutImportJobsInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserUpdateOneRequiredWithoutImportJobsNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutImportJobsInput, Prisma.UserUncheckedCreateWithoutImportJobsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutImportJobsInput
+  upsert?: Prisma.UserUpsertWithoutImportJobsInput
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutImportJobsInput, Prisma.UserUpdateWithoutImportJobsInput>, Prisma.UserUncheckedUpdateWithoutImportJobsInput>
+}
+
+export type UserCreateNestedOneWithoutSellerCouponsInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutSellerCouponsInput, Prisma.UserUncheckedCreateWithoutSellerCouponsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutSellerCouponsInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserUpdateOneWithoutSellerCouponsNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutSellerCouponsInput, Prisma.UserUncheckedCreateWithoutSellerCouponsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutSellerCouponsInput
+  upsert?: Prisma.UserUpsertWithoutSellerCouponsInput
+  disconnect?: Prisma.UserWhereInput | boolean
+  delete?: Prisma.UserWhereInput | boolean
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutSellerCouponsInput, Prisma.UserUpdateWithoutSellerCouponsInput>, Prisma.UserUncheckedUpdateWithoutSellerCouponsInput>
+}
+
+export type UserCreateNestedOneWithoutInteractionOverridesInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutInteractionOverridesInput, Prisma.UserUncheckedCreateWithoutInteractionOverridesInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutInteractionOverridesInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserUpdateOneRequiredWithoutInteractionOverridesNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutInteractionOverridesInput, Prisma.UserUncheckedCreateWithoutInteractionOverridesInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutInteractionOverridesInput
+  upsert?: Prisma.UserUpsertWithoutInteractionOverridesInput
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutInteractionOverridesInput, Prisma.UserUpdateWithoutInteractionOverridesInput>, Prisma.UserUncheckedUpdateWithoutInteractionOverridesInput>
+}
+
 export type UserCreateNestedOneWithoutSellerMedicinesInput = {
   create?: Prisma.XOR<Prisma.UserCreateWithoutSellerMedicinesInput, Prisma.UserUncheckedCreateWithoutSellerMedicinesInput>
   connectOrCreate?: Prisma.UserCreateOrConnectWithoutSellerMedicinesInput
@@ -533,6 +762,122 @@ export type UserUpdateOneRequiredWithoutOrdersNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutOrdersInput, Prisma.UserUpdateWithoutOrdersInput>, Prisma.UserUncheckedUpdateWithoutOrdersInput>
 }
 
+export type UserCreateNestedOneWithoutSellerShipmentsInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutSellerShipmentsInput, Prisma.UserUncheckedCreateWithoutSellerShipmentsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutSellerShipmentsInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserUpdateOneWithoutSellerShipmentsNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutSellerShipmentsInput, Prisma.UserUncheckedCreateWithoutSellerShipmentsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutSellerShipmentsInput
+  upsert?: Prisma.UserUpsertWithoutSellerShipmentsInput
+  disconnect?: Prisma.UserWhereInput | boolean
+  delete?: Prisma.UserWhereInput | boolean
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutSellerShipmentsInput, Prisma.UserUpdateWithoutSellerShipmentsInput>, Prisma.UserUncheckedUpdateWithoutSellerShipmentsInput>
+}
+
+export type UserCreateNestedOneWithoutPaymentsInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutPaymentsInput, Prisma.UserUncheckedCreateWithoutPaymentsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutPaymentsInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserUpdateOneRequiredWithoutPaymentsNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutPaymentsInput, Prisma.UserUncheckedCreateWithoutPaymentsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutPaymentsInput
+  upsert?: Prisma.UserUpsertWithoutPaymentsInput
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutPaymentsInput, Prisma.UserUpdateWithoutPaymentsInput>, Prisma.UserUncheckedUpdateWithoutPaymentsInput>
+}
+
+export type UserCreateNestedOneWithoutCommissionRateInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutCommissionRateInput, Prisma.UserUncheckedCreateWithoutCommissionRateInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutCommissionRateInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserUpdateOneWithoutCommissionRateNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutCommissionRateInput, Prisma.UserUncheckedCreateWithoutCommissionRateInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutCommissionRateInput
+  upsert?: Prisma.UserUpsertWithoutCommissionRateInput
+  disconnect?: Prisma.UserWhereInput | boolean
+  delete?: Prisma.UserWhereInput | boolean
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutCommissionRateInput, Prisma.UserUpdateWithoutCommissionRateInput>, Prisma.UserUncheckedUpdateWithoutCommissionRateInput>
+}
+
+export type UserCreateNestedOneWithoutLedgerEntriesInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutLedgerEntriesInput, Prisma.UserUncheckedCreateWithoutLedgerEntriesInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutLedgerEntriesInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserUpdateOneRequiredWithoutLedgerEntriesNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutLedgerEntriesInput, Prisma.UserUncheckedCreateWithoutLedgerEntriesInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutLedgerEntriesInput
+  upsert?: Prisma.UserUpsertWithoutLedgerEntriesInput
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutLedgerEntriesInput, Prisma.UserUpdateWithoutLedgerEntriesInput>, Prisma.UserUncheckedUpdateWithoutLedgerEntriesInput>
+}
+
+export type UserCreateNestedOneWithoutPayoutRequestsInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutPayoutRequestsInput, Prisma.UserUncheckedCreateWithoutPayoutRequestsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutPayoutRequestsInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserUpdateOneRequiredWithoutPayoutRequestsNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutPayoutRequestsInput, Prisma.UserUncheckedCreateWithoutPayoutRequestsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutPayoutRequestsInput
+  upsert?: Prisma.UserUpsertWithoutPayoutRequestsInput
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutPayoutRequestsInput, Prisma.UserUpdateWithoutPayoutRequestsInput>, Prisma.UserUncheckedUpdateWithoutPayoutRequestsInput>
+}
+
+export type UserCreateNestedOneWithoutPrescriptionsInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutPrescriptionsInput, Prisma.UserUncheckedCreateWithoutPrescriptionsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutPrescriptionsInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserUpdateOneRequiredWithoutPrescriptionsNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutPrescriptionsInput, Prisma.UserUncheckedCreateWithoutPrescriptionsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutPrescriptionsInput
+  upsert?: Prisma.UserUpsertWithoutPrescriptionsInput
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutPrescriptionsInput, Prisma.UserUpdateWithoutPrescriptionsInput>, Prisma.UserUncheckedUpdateWithoutPrescriptionsInput>
+}
+
+export type UserCreateNestedOneWithoutRecallNoticesInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutRecallNoticesInput, Prisma.UserUncheckedCreateWithoutRecallNoticesInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutRecallNoticesInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserUpdateOneRequiredWithoutRecallNoticesNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutRecallNoticesInput, Prisma.UserUncheckedCreateWithoutRecallNoticesInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutRecallNoticesInput
+  upsert?: Prisma.UserUpsertWithoutRecallNoticesInput
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutRecallNoticesInput, Prisma.UserUpdateWithoutRecallNoticesInput>, Prisma.UserUncheckedUpdateWithoutRecallNoticesInput>
+}
+
+export type UserCreateNestedOneWithoutReturnRequestsInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutReturnRequestsInput, Prisma.UserUncheckedCreateWithoutReturnRequestsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutReturnRequestsInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserUpdateOneRequiredWithoutReturnRequestsNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutReturnRequestsInput, Prisma.UserUncheckedCreateWithoutReturnRequestsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutReturnRequestsInput
+  upsert?: Prisma.UserUpsertWithoutReturnRequestsInput
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutReturnRequestsInput, Prisma.UserUpdateWithoutReturnRequestsInput>, Prisma.UserUncheckedUpdateWithoutReturnRequestsInput>
+}
+
 export type UserCreateNestedOneWithoutReviewsInput = {
   create?: Prisma.XOR<Prisma.UserCreateWithoutReviewsInput, Prisma.UserUncheckedCreateWithoutReviewsInput>
   connectOrCreate?: Prisma.UserCreateOrConnectWithoutReviewsInput
@@ -547,6 +892,50 @@ export type UserUpdateOneRequiredWithoutReviewsNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutReviewsInput, Prisma.UserUpdateWithoutReviewsInput>, Prisma.UserUncheckedUpdateWithoutReviewsInput>
 }
 
+export type UserCreateNestedOneWithoutSellerApplicationInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutSellerApplicationInput, Prisma.UserUncheckedCreateWithoutSellerApplicationInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutSellerApplicationInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserUpdateOneRequiredWithoutSellerApplicationNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutSellerApplicationInput, Prisma.UserUncheckedCreateWithoutSellerApplicationInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutSellerApplicationInput
+  upsert?: Prisma.UserUpsertWithoutSellerApplicationInput
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutSellerApplicationInput, Prisma.UserUpdateWithoutSellerApplicationInput>, Prisma.UserUncheckedUpdateWithoutSellerApplicationInput>
+}
+
+export type UserCreateNestedOneWithoutSellerProfileInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutSellerProfileInput, Prisma.UserUncheckedCreateWithoutSellerProfileInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutSellerProfileInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserUpdateOneRequiredWithoutSellerProfileNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutSellerProfileInput, Prisma.UserUncheckedCreateWithoutSellerProfileInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutSellerProfileInput
+  upsert?: Prisma.UserUpsertWithoutSellerProfileInput
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutSellerProfileInput, Prisma.UserUpdateWithoutSellerProfileInput>, Prisma.UserUncheckedUpdateWithoutSellerProfileInput>
+}
+
+export type UserCreateNestedOneWithoutStockMovementsInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutStockMovementsInput, Prisma.UserUncheckedCreateWithoutStockMovementsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutStockMovementsInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserUpdateOneWithoutStockMovementsNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutStockMovementsInput, Prisma.UserUncheckedCreateWithoutStockMovementsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutStockMovementsInput
+  upsert?: Prisma.UserUpsertWithoutStockMovementsInput
+  disconnect?: Prisma.UserWhereInput | boolean
+  delete?: Prisma.UserWhereInput | boolean
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutStockMovementsInput, Prisma.UserUpdateWithoutStockMovementsInput>, Prisma.UserUncheckedUpdateWithoutStockMovementsInput>
+}
+
 export type EnumUserRoleFieldUpdateOperationsInput = {
   set?: $Enums.UserRole
 }
@@ -583,6 +972,170 @@ export type UserUpdateOneRequiredWithoutAccountsNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutAccountsInput, Prisma.UserUpdateWithoutAccountsInput>, Prisma.UserUncheckedUpdateWithoutAccountsInput>
 }
 
+export type UserCreateWithoutAddressesInput = {
+  id?: string
+  name: string
+  email: string
+  password?: string | null
+  emailVerified?: boolean
+  image?: string | null
+  phone?: string | null
+  role?: $Enums.UserRole
+  status?: $Enums.UserStatus
+  banReason?: string | null
+  banExpires?: Date | string | null
+  currency?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  sessions?: Prisma.SessionCreateNestedManyWithoutUserInput
+  accounts?: Prisma.AccountCreateNestedManyWithoutUserInput
+  cart?: Prisma.CartCreateNestedOneWithoutUserInput
+  sellerMedicines?: Prisma.MedicineCreateNestedManyWithoutSellerInput
+  orders?: Prisma.OrderCreateNestedManyWithoutUserInput
+  sellerShipments?: Prisma.ShipmentCreateNestedManyWithoutSellerInput
+  reviews?: Prisma.ReviewCreateNestedManyWithoutUserInput
+  prescriptions?: Prisma.PrescriptionCreateNestedManyWithoutUserInput
+  payments?: Prisma.PaymentCreateNestedManyWithoutUserInput
+  returnRequests?: Prisma.ReturnRequestCreateNestedManyWithoutUserInput
+  stockMovements?: Prisma.StockMovementCreateNestedManyWithoutActorInput
+  recallNotices?: Prisma.RecallNoticeCreateNestedManyWithoutUserInput
+  sellerCoupons?: Prisma.CouponCreateNestedManyWithoutSellerInput
+  interactionOverrides?: Prisma.InteractionOverrideCreateNestedManyWithoutUserInput
+  importJobs?: Prisma.ImportJobCreateNestedManyWithoutSellerInput
+  sellerApplication?: Prisma.SellerApplicationCreateNestedOneWithoutUserInput
+  sellerProfile?: Prisma.SellerProfileCreateNestedOneWithoutUserInput
+  commissionRate?: Prisma.CommissionRateCreateNestedOneWithoutSellerInput
+  ledgerEntries?: Prisma.SellerLedgerEntryCreateNestedManyWithoutSellerInput
+  payoutRequests?: Prisma.PayoutRequestCreateNestedManyWithoutSellerInput
+}
+
+export type UserUncheckedCreateWithoutAddressesInput = {
+  id?: string
+  name: string
+  email: string
+  password?: string | null
+  emailVerified?: boolean
+  image?: string | null
+  phone?: string | null
+  role?: $Enums.UserRole
+  status?: $Enums.UserStatus
+  banReason?: string | null
+  banExpires?: Date | string | null
+  currency?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput
+  accounts?: Prisma.AccountUncheckedCreateNestedManyWithoutUserInput
+  cart?: Prisma.CartUncheckedCreateNestedOneWithoutUserInput
+  sellerMedicines?: Prisma.MedicineUncheckedCreateNestedManyWithoutSellerInput
+  orders?: Prisma.OrderUncheckedCreateNestedManyWithoutUserInput
+  sellerShipments?: Prisma.ShipmentUncheckedCreateNestedManyWithoutSellerInput
+  reviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutUserInput
+  prescriptions?: Prisma.PrescriptionUncheckedCreateNestedManyWithoutUserInput
+  payments?: Prisma.PaymentUncheckedCreateNestedManyWithoutUserInput
+  returnRequests?: Prisma.ReturnRequestUncheckedCreateNestedManyWithoutUserInput
+  stockMovements?: Prisma.StockMovementUncheckedCreateNestedManyWithoutActorInput
+  recallNotices?: Prisma.RecallNoticeUncheckedCreateNestedManyWithoutUserInput
+  sellerCoupons?: Prisma.CouponUncheckedCreateNestedManyWithoutSellerInput
+  interactionOverrides?: Prisma.InteractionOverrideUncheckedCreateNestedManyWithoutUserInput
+  importJobs?: Prisma.ImportJobUncheckedCreateNestedManyWithoutSellerInput
+  sellerApplication?: Prisma.SellerApplicationUncheckedCreateNestedOneWithoutUserInput
+  sellerProfile?: Prisma.SellerProfileUncheckedCreateNestedOneWithoutUserInput
+  commissionRate?: Prisma.CommissionRateUncheckedCreateNestedOneWithoutSellerInput
+  ledgerEntries?: Prisma.SellerLedgerEntryUncheckedCreateNestedManyWithoutSellerInput
+  payoutRequests?: Prisma.PayoutRequestUncheckedCreateNestedManyWithoutSellerInput
+}
+
+export type UserCreateOrConnectWithoutAddressesInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutAddressesInput, Prisma.UserUncheckedCreateWithoutAddressesInput>
+}
+
+export type UserUpsertWithoutAddressesInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutAddressesInput, Prisma.UserUncheckedUpdateWithoutAddressesInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutAddressesInput, Prisma.UserUncheckedCreateWithoutAddressesInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutAddressesInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutAddressesInput, Prisma.UserUncheckedUpdateWithoutAddressesInput>
+}
+
+export type UserUpdateWithoutAddressesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  password?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  emailVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  image?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  status?: Prisma.EnumUserStatusFieldUpdateOperationsInput | $Enums.UserStatus
+  banReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  banExpires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput
+  accounts?: Prisma.AccountUpdateManyWithoutUserNestedInput
+  cart?: Prisma.CartUpdateOneWithoutUserNestedInput
+  sellerMedicines?: Prisma.MedicineUpdateManyWithoutSellerNestedInput
+  orders?: Prisma.OrderUpdateManyWithoutUserNestedInput
+  sellerShipments?: Prisma.ShipmentUpdateManyWithoutSellerNestedInput
+  reviews?: Prisma.ReviewUpdateManyWithoutUserNestedInput
+  prescriptions?: Prisma.PrescriptionUpdateManyWithoutUserNestedInput
+  payments?: Prisma.PaymentUpdateManyWithoutUserNestedInput
+  returnRequests?: Prisma.ReturnRequestUpdateManyWithoutUserNestedInput
+  stockMovements?: Prisma.StockMovementUpdateManyWithoutActorNestedInput
+  recallNotices?: Prisma.RecallNoticeUpdateManyWithoutUserNestedInput
+  sellerCoupons?: Prisma.CouponUpdateManyWithoutSellerNestedInput
+  interactionOverrides?: Prisma.InteractionOverrideUpdateManyWithoutUserNestedInput
+  importJobs?: Prisma.ImportJobUpdateManyWithoutSellerNestedInput
+  sellerApplication?: Prisma.SellerApplicationUpdateOneWithoutUserNestedInput
+  sellerProfile?: Prisma.SellerProfileUpdateOneWithoutUserNestedInput
+  commissionRate?: Prisma.CommissionRateUpdateOneWithoutSellerNestedInput
+  ledgerEntries?: Prisma.SellerLedgerEntryUpdateManyWithoutSellerNestedInput
+  payoutRequests?: Prisma.PayoutRequestUpdateManyWithoutSellerNestedInput
+}
+
+export type UserUncheckedUpdateWithoutAddressesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  password?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  emailVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  image?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  status?: Prisma.EnumUserStatusFieldUpdateOperationsInput | $Enums.UserStatus
+  banReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  banExpires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput
+  accounts?: Prisma.AccountUncheckedUpdateManyWithoutUserNestedInput
+  cart?: Prisma.CartUncheckedUpdateOneWithoutUserNestedInput
+  sellerMedicines?: Prisma.MedicineUncheckedUpdateManyWithoutSellerNestedInput
+  orders?: Prisma.OrderUncheckedUpdateManyWithoutUserNestedInput
+  sellerShipments?: Prisma.ShipmentUncheckedUpdateManyWithoutSellerNestedInput
+  reviews?: Prisma.ReviewUncheckedUpdateManyWithoutUserNestedInput
+  prescriptions?: Prisma.PrescriptionUncheckedUpdateManyWithoutUserNestedInput
+  payments?: Prisma.PaymentUncheckedUpdateManyWithoutUserNestedInput
+  returnRequests?: Prisma.ReturnRequestUncheckedUpdateManyWithoutUserNestedInput
+  stockMovements?: Prisma.StockMovementUncheckedUpdateManyWithoutActorNestedInput
+  recallNotices?: Prisma.RecallNoticeUncheckedUpdateManyWithoutUserNestedInput
+  sellerCoupons?: Prisma.CouponUncheckedUpdateManyWithoutSellerNestedInput
+  interactionOverrides?: Prisma.InteractionOverrideUncheckedUpdateManyWithoutUserNestedInput
+  importJobs?: Prisma.ImportJobUncheckedUpdateManyWithoutSellerNestedInput
+  sellerApplication?: Prisma.SellerApplicationUncheckedUpdateOneWithoutUserNestedInput
+  sellerProfile?: Prisma.SellerProfileUncheckedUpdateOneWithoutUserNestedInput
+  commissionRate?: Prisma.CommissionRateUncheckedUpdateOneWithoutSellerNestedInput
+  ledgerEntries?: Prisma.SellerLedgerEntryUncheckedUpdateManyWithoutSellerNestedInput
+  payoutRequests?: Prisma.PayoutRequestUncheckedUpdateManyWithoutSellerNestedInput
+}
+
 export type UserCreateWithoutCartInput = {
   id?: string
   name: string
@@ -593,13 +1146,31 @@ export type UserCreateWithoutCartInput = {
   phone?: string | null
   role?: $Enums.UserRole
   status?: $Enums.UserStatus
+  banReason?: string | null
+  banExpires?: Date | string | null
+  currency?: string
   createdAt?: Date | string
   updatedAt?: Date | string
   sessions?: Prisma.SessionCreateNestedManyWithoutUserInput
   accounts?: Prisma.AccountCreateNestedManyWithoutUserInput
   sellerMedicines?: Prisma.MedicineCreateNestedManyWithoutSellerInput
   orders?: Prisma.OrderCreateNestedManyWithoutUserInput
+  sellerShipments?: Prisma.ShipmentCreateNestedManyWithoutSellerInput
   reviews?: Prisma.ReviewCreateNestedManyWithoutUserInput
+  prescriptions?: Prisma.PrescriptionCreateNestedManyWithoutUserInput
+  payments?: Prisma.PaymentCreateNestedManyWithoutUserInput
+  returnRequests?: Prisma.ReturnRequestCreateNestedManyWithoutUserInput
+  stockMovements?: Prisma.StockMovementCreateNestedManyWithoutActorInput
+  recallNotices?: Prisma.RecallNoticeCreateNestedManyWithoutUserInput
+  sellerCoupons?: Prisma.CouponCreateNestedManyWithoutSellerInput
+  addresses?: Prisma.AddressCreateNestedManyWithoutUserInput
+  interactionOverrides?: Prisma.InteractionOverrideCreateNestedManyWithoutUserInput
+  importJobs?: Prisma.ImportJobCreateNestedManyWithoutSellerInput
+  sellerApplication?: Prisma.SellerApplicationCreateNestedOneWithoutUserInput
+  sellerProfile?: Prisma.SellerProfileCreateNestedOneWithoutUserInput
+  commissionRate?: Prisma.CommissionRateCreateNestedOneWithoutSellerInput
+  ledgerEntries?: Prisma.SellerLedgerEntryCreateNestedManyWithoutSellerInput
+  payoutRequests?: Prisma.PayoutRequestCreateNestedManyWithoutSellerInput
 }
 
 export type UserUncheckedCreateWithoutCartInput = {
@@ -612,13 +1183,31 @@ export type UserUncheckedCreateWithoutCartInput = {
   phone?: string | null
   role?: $Enums.UserRole
   status?: $Enums.UserStatus
+  banReason?: string | null
+  banExpires?: Date | string | null
+  currency?: string
   createdAt?: Date | string
   updatedAt?: Date | string
   sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput
   accounts?: Prisma.AccountUncheckedCreateNestedManyWithoutUserInput
   sellerMedicines?: Prisma.MedicineUncheckedCreateNestedManyWithoutSellerInput
   orders?: Prisma.OrderUncheckedCreateNestedManyWithoutUserInput
+  sellerShipments?: Prisma.ShipmentUncheckedCreateNestedManyWithoutSellerInput
   reviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutUserInput
+  prescriptions?: Prisma.PrescriptionUncheckedCreateNestedManyWithoutUserInput
+  payments?: Prisma.PaymentUncheckedCreateNestedManyWithoutUserInput
+  returnRequests?: Prisma.ReturnRequestUncheckedCreateNestedManyWithoutUserInput
+  stockMovements?: Prisma.StockMovementUncheckedCreateNestedManyWithoutActorInput
+  recallNotices?: Prisma.RecallNoticeUncheckedCreateNestedManyWithoutUserInput
+  sellerCoupons?: Prisma.CouponUncheckedCreateNestedManyWithoutSellerInput
+  addresses?: Prisma.AddressUncheckedCreateNestedManyWithoutUserInput
+  interactionOverrides?: Prisma.InteractionOverrideUncheckedCreateNestedManyWithoutUserInput
+  importJobs?: Prisma.ImportJobUncheckedCreateNestedManyWithoutSellerInput
+  sellerApplication?: Prisma.SellerApplicationUncheckedCreateNestedOneWithoutUserInput
+  sellerProfile?: Prisma.SellerProfileUncheckedCreateNestedOneWithoutUserInput
+  commissionRate?: Prisma.CommissionRateUncheckedCreateNestedOneWithoutSellerInput
+  ledgerEntries?: Prisma.SellerLedgerEntryUncheckedCreateNestedManyWithoutSellerInput
+  payoutRequests?: Prisma.PayoutRequestUncheckedCreateNestedManyWithoutSellerInput
 }
 
 export type UserCreateOrConnectWithoutCartInput = {
@@ -647,13 +1236,31 @@ export type UserUpdateWithoutCartInput = {
   phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
   status?: Prisma.EnumUserStatusFieldUpdateOperationsInput | $Enums.UserStatus
+  banReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  banExpires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput
   accounts?: Prisma.AccountUpdateManyWithoutUserNestedInput
   sellerMedicines?: Prisma.MedicineUpdateManyWithoutSellerNestedInput
   orders?: Prisma.OrderUpdateManyWithoutUserNestedInput
+  sellerShipments?: Prisma.ShipmentUpdateManyWithoutSellerNestedInput
   reviews?: Prisma.ReviewUpdateManyWithoutUserNestedInput
+  prescriptions?: Prisma.PrescriptionUpdateManyWithoutUserNestedInput
+  payments?: Prisma.PaymentUpdateManyWithoutUserNestedInput
+  returnRequests?: Prisma.ReturnRequestUpdateManyWithoutUserNestedInput
+  stockMovements?: Prisma.StockMovementUpdateManyWithoutActorNestedInput
+  recallNotices?: Prisma.RecallNoticeUpdateManyWithoutUserNestedInput
+  sellerCoupons?: Prisma.CouponUpdateManyWithoutSellerNestedInput
+  addresses?: Prisma.AddressUpdateManyWithoutUserNestedInput
+  interactionOverrides?: Prisma.InteractionOverrideUpdateManyWithoutUserNestedInput
+  importJobs?: Prisma.ImportJobUpdateManyWithoutSellerNestedInput
+  sellerApplication?: Prisma.SellerApplicationUpdateOneWithoutUserNestedInput
+  sellerProfile?: Prisma.SellerProfileUpdateOneWithoutUserNestedInput
+  commissionRate?: Prisma.CommissionRateUpdateOneWithoutSellerNestedInput
+  ledgerEntries?: Prisma.SellerLedgerEntryUpdateManyWithoutSellerNestedInput
+  payoutRequests?: Prisma.PayoutRequestUpdateManyWithoutSellerNestedInput
 }
 
 export type UserUncheckedUpdateWithoutCartInput = {
@@ -666,16 +1273,34 @@ export type UserUncheckedUpdateWithoutCartInput = {
   phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
   status?: Prisma.EnumUserStatusFieldUpdateOperationsInput | $Enums.UserStatus
+  banReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  banExpires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput
   accounts?: Prisma.AccountUncheckedUpdateManyWithoutUserNestedInput
   sellerMedicines?: Prisma.MedicineUncheckedUpdateManyWithoutSellerNestedInput
   orders?: Prisma.OrderUncheckedUpdateManyWithoutUserNestedInput
+  sellerShipments?: Prisma.ShipmentUncheckedUpdateManyWithoutSellerNestedInput
   reviews?: Prisma.ReviewUncheckedUpdateManyWithoutUserNestedInput
+  prescriptions?: Prisma.PrescriptionUncheckedUpdateManyWithoutUserNestedInput
+  payments?: Prisma.PaymentUncheckedUpdateManyWithoutUserNestedInput
+  returnRequests?: Prisma.ReturnRequestUncheckedUpdateManyWithoutUserNestedInput
+  stockMovements?: Prisma.StockMovementUncheckedUpdateManyWithoutActorNestedInput
+  recallNotices?: Prisma.RecallNoticeUncheckedUpdateManyWithoutUserNestedInput
+  sellerCoupons?: Prisma.CouponUncheckedUpdateManyWithoutSellerNestedInput
+  addresses?: Prisma.AddressUncheckedUpdateManyWithoutUserNestedInput
+  interactionOverrides?: Prisma.InteractionOverrideUncheckedUpdateManyWithoutUserNestedInput
+  importJobs?: Prisma.ImportJobUncheckedUpdateManyWithoutSellerNestedInput
+  sellerApplication?: Prisma.SellerApplicationUncheckedUpdateOneWithoutUserNestedInput
+  sellerProfile?: Prisma.SellerProfileUncheckedUpdateOneWithoutUserNestedInput
+  commissionRate?: Prisma.CommissionRateUncheckedUpdateOneWithoutSellerNestedInput
+  ledgerEntries?: Prisma.SellerLedgerEntryUncheckedUpdateManyWithoutSellerNestedInput
+  payoutRequests?: Prisma.PayoutRequestUncheckedUpdateManyWithoutSellerNestedInput
 }
 
-export type UserCreateWithoutSellerMedicinesInput = {
+export type UserCreateWithoutImportJobsInput = {
   id?: string
   name: string
   email: string
@@ -685,16 +1310,34 @@ export type UserCreateWithoutSellerMedicinesInput = {
   phone?: string | null
   role?: $Enums.UserRole
   status?: $Enums.UserStatus
+  banReason?: string | null
+  banExpires?: Date | string | null
+  currency?: string
   createdAt?: Date | string
   updatedAt?: Date | string
   sessions?: Prisma.SessionCreateNestedManyWithoutUserInput
   accounts?: Prisma.AccountCreateNestedManyWithoutUserInput
   cart?: Prisma.CartCreateNestedOneWithoutUserInput
+  sellerMedicines?: Prisma.MedicineCreateNestedManyWithoutSellerInput
   orders?: Prisma.OrderCreateNestedManyWithoutUserInput
+  sellerShipments?: Prisma.ShipmentCreateNestedManyWithoutSellerInput
   reviews?: Prisma.ReviewCreateNestedManyWithoutUserInput
+  prescriptions?: Prisma.PrescriptionCreateNestedManyWithoutUserInput
+  payments?: Prisma.PaymentCreateNestedManyWithoutUserInput
+  returnRequests?: Prisma.ReturnRequestCreateNestedManyWithoutUserInput
+  stockMovements?: Prisma.StockMovementCreateNestedManyWithoutActorInput
+  recallNotices?: Prisma.RecallNoticeCreateNestedManyWithoutUserInput
+  sellerCoupons?: Prisma.CouponCreateNestedManyWithoutSellerInput
+  addresses?: Prisma.AddressCreateNestedManyWithoutUserInput
+  interactionOverrides?: Prisma.InteractionOverrideCreateNestedManyWithoutUserInput
+  sellerApplication?: Prisma.SellerApplicationCreateNestedOneWithoutUserInput
+  sellerProfile?: Prisma.SellerProfileCreateNestedOneWithoutUserInput
+  commissionRate?: Prisma.CommissionRateCreateNestedOneWithoutSellerInput
+  ledgerEntries?: Prisma.SellerLedgerEntryCreateNestedManyWithoutSellerInput
+  payoutRequests?: Prisma.PayoutRequestCreateNestedManyWithoutSellerInput
 }
 
-export type UserUncheckedCreateWithoutSellerMedicinesInput = {
+export type UserUncheckedCreateWithoutImportJobsInput = {
   id?: string
   name: string
   email: string
@@ -704,32 +1347,50 @@ export type UserUncheckedCreateWithoutSellerMedicinesInput = {
   phone?: string | null
   role?: $Enums.UserRole
   status?: $Enums.UserStatus
+  banReason?: string | null
+  banExpires?: Date | string | null
+  currency?: string
   createdAt?: Date | string
   updatedAt?: Date | string
   sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput
   accounts?: Prisma.AccountUncheckedCreateNestedManyWithoutUserInput
   cart?: Prisma.CartUncheckedCreateNestedOneWithoutUserInput
+  sellerMedicines?: Prisma.MedicineUncheckedCreateNestedManyWithoutSellerInput
   orders?: Prisma.OrderUncheckedCreateNestedManyWithoutUserInput
+  sellerShipments?: Prisma.ShipmentUncheckedCreateNestedManyWithoutSellerInput
   reviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutUserInput
+  prescriptions?: Prisma.PrescriptionUncheckedCreateNestedManyWithoutUserInput
+  payments?: Prisma.PaymentUncheckedCreateNestedManyWithoutUserInput
+  returnRequests?: Prisma.ReturnRequestUncheckedCreateNestedManyWithoutUserInput
+  stockMovements?: Prisma.StockMovementUncheckedCreateNestedManyWithoutActorInput
+  recallNotices?: Prisma.RecallNoticeUncheckedCreateNestedManyWithoutUserInput
+  sellerCoupons?: Prisma.CouponUncheckedCreateNestedManyWithoutSellerInput
+  addresses?: Prisma.AddressUncheckedCreateNestedManyWithoutUserInput
+  interactionOverrides?: Prisma.InteractionOverrideUncheckedCreateNestedManyWithoutUserInput
+  sellerApplication?: Prisma.SellerApplicationUncheckedCreateNestedOneWithoutUserInput
+  sellerProfile?: Prisma.SellerProfileUncheckedCreateNestedOneWithoutUserInput
+  commissionRate?: Prisma.CommissionRateUncheckedCreateNestedOneWithoutSellerInput
+  ledgerEntries?: Prisma.SellerLedgerEntryUncheckedCreateNestedManyWithoutSellerInput
+  payoutRequests?: Prisma.PayoutRequestUncheckedCreateNestedManyWithoutSellerInput
 }
 
-export type UserCreateOrConnectWithoutSellerMedicinesInput = {
+export type UserCreateOrConnectWithoutImportJobsInput = {
   where: Prisma.UserWhereUniqueInput
-  create: Prisma.XOR<Prisma.UserCreateWithoutSellerMedicinesInput, Prisma.UserUncheckedCreateWithoutSellerMedicinesInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutImportJobsInput, Prisma.UserUncheckedCreateWithoutImportJobsInput>
 }
 
-export type UserUpsertWithoutSellerMedicinesInput = {
-  update: Prisma.XOR<Prisma.UserUpdateWithoutSellerMedicinesInput, Prisma.UserUncheckedUpdateWithoutSellerMedicinesInput>
-  create: Prisma.XOR<Prisma.UserCreateWithoutSellerMedicinesInput, Prisma.UserUncheckedCreateWithoutSellerMedicinesInput>
+export type UserUpsertWithoutImportJobsInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutImportJobsInput, Prisma.UserUncheckedUpdateWithoutImportJobsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutImportJobsInput, Prisma.UserUncheckedCreateWithoutImportJobsInput>
   where?: Prisma.UserWhereInput
 }
 
-export type UserUpdateToOneWithWhereWithoutSellerMedicinesInput = {
+export type UserUpdateToOneWithWhereWithoutImportJobsInput = {
   where?: Prisma.UserWhereInput
-  data: Prisma.XOR<Prisma.UserUpdateWithoutSellerMedicinesInput, Prisma.UserUncheckedUpdateWithoutSellerMedicinesInput>
+  data: Prisma.XOR<Prisma.UserUpdateWithoutImportJobsInput, Prisma.UserUncheckedUpdateWithoutImportJobsInput>
 }
 
-export type UserUpdateWithoutSellerMedicinesInput = {
+export type UserUpdateWithoutImportJobsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   name?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.StringFieldUpdateOperationsInput | string
@@ -739,16 +1400,34 @@ export type UserUpdateWithoutSellerMedicinesInput = {
   phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
   status?: Prisma.EnumUserStatusFieldUpdateOperationsInput | $Enums.UserStatus
+  banReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  banExpires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput
   accounts?: Prisma.AccountUpdateManyWithoutUserNestedInput
   cart?: Prisma.CartUpdateOneWithoutUserNestedInput
+  sellerMedicines?: Prisma.MedicineUpdateManyWithoutSellerNestedInput
   orders?: Prisma.OrderUpdateManyWithoutUserNestedInput
+  sellerShipments?: Prisma.ShipmentUpdateManyWithoutSellerNestedInput
   reviews?: Prisma.ReviewUpdateManyWithoutUserNestedInput
+  prescriptions?: Prisma.PrescriptionUpdateManyWithoutUserNestedInput
+  payments?: Prisma.PaymentUpdateManyWithoutUserNestedInput
+  returnRequests?: Prisma.ReturnRequestUpdateManyWithoutUserNestedInput
+  stockMovements?: Prisma.StockMovementUpdateManyWithoutActorNestedInput
+  recallNotices?: Prisma.RecallNoticeUpdateManyWithoutUserNestedInput
+  sellerCoupons?: Prisma.CouponUpdateManyWithoutSellerNestedInput
+  addresses?: Prisma.AddressUpdateManyWithoutUserNestedInput
+  interactionOverrides?: Prisma.InteractionOverrideUpdateManyWithoutUserNestedInput
+  sellerApplication?: Prisma.SellerApplicationUpdateOneWithoutUserNestedInput
+  sellerProfile?: Prisma.SellerProfileUpdateOneWithoutUserNestedInput
+  commissionRate?: Prisma.CommissionRateUpdateOneWithoutSellerNestedInput
+  ledgerEntries?: Prisma.SellerLedgerEntryUpdateManyWithoutSellerNestedInput
+  payoutRequests?: Prisma.PayoutRequestUpdateManyWithoutSellerNestedInput
 }
 
-export type UserUncheckedUpdateWithoutSellerMedicinesInput = {
+export type UserUncheckedUpdateWithoutImportJobsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   name?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.StringFieldUpdateOperationsInput | string
@@ -758,16 +1437,34 @@ export type UserUncheckedUpdateWithoutSellerMedicinesInput = {
   phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
   status?: Prisma.EnumUserStatusFieldUpdateOperationsInput | $Enums.UserStatus
+  banReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  banExpires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput
   accounts?: Prisma.AccountUncheckedUpdateManyWithoutUserNestedInput
   cart?: Prisma.CartUncheckedUpdateOneWithoutUserNestedInput
+  sellerMedicines?: Prisma.MedicineUncheckedUpdateManyWithoutSellerNestedInput
   orders?: Prisma.OrderUncheckedUpdateManyWithoutUserNestedInput
+  sellerShipments?: Prisma.ShipmentUncheckedUpdateManyWithoutSellerNestedInput
   reviews?: Prisma.ReviewUncheckedUpdateManyWithoutUserNestedInput
+  prescriptions?: Prisma.PrescriptionUncheckedUpdateManyWithoutUserNestedInput
+  payments?: Prisma.PaymentUncheckedUpdateManyWithoutUserNestedInput
+  returnRequests?: Prisma.ReturnRequestUncheckedUpdateManyWithoutUserNestedInput
+  stockMovements?: Prisma.StockMovementUncheckedUpdateManyWithoutActorNestedInput
+  recallNotices?: Prisma.RecallNoticeUncheckedUpdateManyWithoutUserNestedInput
+  sellerCoupons?: Prisma.CouponUncheckedUpdateManyWithoutSellerNestedInput
+  addresses?: Prisma.AddressUncheckedUpdateManyWithoutUserNestedInput
+  interactionOverrides?: Prisma.InteractionOverrideUncheckedUpdateManyWithoutUserNestedInput
+  sellerApplication?: Prisma.SellerApplicationUncheckedUpdateOneWithoutUserNestedInput
+  sellerProfile?: Prisma.SellerProfileUncheckedUpdateOneWithoutUserNestedInput
+  commissionRate?: Prisma.CommissionRateUncheckedUpdateOneWithoutSellerNestedInput
+  ledgerEntries?: Prisma.SellerLedgerEntryUncheckedUpdateManyWithoutSellerNestedInput
+  payoutRequests?: Prisma.PayoutRequestUncheckedUpdateManyWithoutSellerNestedInput
 }
 
-export type UserCreateWithoutOrdersInput = {
+export type UserCreateWithoutSellerCouponsInput = {
   id?: string
   name: string
   email: string
@@ -777,16 +1474,34 @@ export type UserCreateWithoutOrdersInput = {
   phone?: string | null
   role?: $Enums.UserRole
   status?: $Enums.UserStatus
+  banReason?: string | null
+  banExpires?: Date | string | null
+  currency?: string
   createdAt?: Date | string
   updatedAt?: Date | string
   sessions?: Prisma.SessionCreateNestedManyWithoutUserInput
   accounts?: Prisma.AccountCreateNestedManyWithoutUserInput
   cart?: Prisma.CartCreateNestedOneWithoutUserInput
   sellerMedicines?: Prisma.MedicineCreateNestedManyWithoutSellerInput
+  orders?: Prisma.OrderCreateNestedManyWithoutUserInput
+  sellerShipments?: Prisma.ShipmentCreateNestedManyWithoutSellerInput
   reviews?: Prisma.ReviewCreateNestedManyWithoutUserInput
+  prescriptions?: Prisma.PrescriptionCreateNestedManyWithoutUserInput
+  payments?: Prisma.PaymentCreateNestedManyWithoutUserInput
+  returnRequests?: Prisma.ReturnRequestCreateNestedManyWithoutUserInput
+  stockMovements?: Prisma.StockMovementCreateNestedManyWithoutActorInput
+  recallNotices?: Prisma.RecallNoticeCreateNestedManyWithoutUserInput
+  addresses?: Prisma.AddressCreateNestedManyWithoutUserInput
+  interactionOverrides?: Prisma.InteractionOverrideCreateNestedManyWithoutUserInput
+  importJobs?: Prisma.ImportJobCreateNestedManyWithoutSellerInput
+  sellerApplication?: Prisma.SellerApplicationCreateNestedOneWithoutUserInput
+  sellerProfile?: Prisma.SellerProfileCreateNestedOneWithoutUserInput
+  commissionRate?: Prisma.CommissionRateCreateNestedOneWithoutSellerInput
+  ledgerEntries?: Prisma.SellerLedgerEntryCreateNestedManyWithoutSellerInput
+  payoutRequests?: Prisma.PayoutRequestCreateNestedManyWithoutSellerInput
 }
 
-export type UserUncheckedCreateWithoutOrdersInput = {
+export type UserUncheckedCreateWithoutSellerCouponsInput = {
   id?: string
   name: string
   email: string
@@ -796,32 +1511,50 @@ export type UserUncheckedCreateWithoutOrdersInput = {
   phone?: string | null
   role?: $Enums.UserRole
   status?: $Enums.UserStatus
+  banReason?: string | null
+  banExpires?: Date | string | null
+  currency?: string
   createdAt?: Date | string
   updatedAt?: Date | string
   sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput
   accounts?: Prisma.AccountUncheckedCreateNestedManyWithoutUserInput
   cart?: Prisma.CartUncheckedCreateNestedOneWithoutUserInput
   sellerMedicines?: Prisma.MedicineUncheckedCreateNestedManyWithoutSellerInput
+  orders?: Prisma.OrderUncheckedCreateNestedManyWithoutUserInput
+  sellerShipments?: Prisma.ShipmentUncheckedCreateNestedManyWithoutSellerInput
   reviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutUserInput
+  prescriptions?: Prisma.PrescriptionUncheckedCreateNestedManyWithoutUserInput
+  payments?: Prisma.PaymentUncheckedCreateNestedManyWithoutUserInput
+  returnRequests?: Prisma.ReturnRequestUncheckedCreateNestedManyWithoutUserInput
+  stockMovements?: Prisma.StockMovementUncheckedCreateNestedManyWithoutActorInput
+  recallNotices?: Prisma.RecallNoticeUncheckedCreateNestedManyWithoutUserInput
+  addresses?: Prisma.AddressUncheckedCreateNestedManyWithoutUserInput
+  interactionOverrides?: Prisma.InteractionOverrideUncheckedCreateNestedManyWithoutUserInput
+  importJobs?: Prisma.ImportJobUncheckedCreateNestedManyWithoutSellerInput
+  sellerApplication?: Prisma.SellerApplicationUncheckedCreateNestedOneWithoutUserInput
+  sellerProfile?: Prisma.SellerProfileUncheckedCreateNestedOneWithoutUserInput
+  commissionRate?: Prisma.CommissionRateUncheckedCreateNestedOneWithoutSellerInput
+  ledgerEntries?: Prisma.SellerLedgerEntryUncheckedCreateNestedManyWithoutSellerInput
+  payoutRequests?: Prisma.PayoutRequestUncheckedCreateNestedManyWithoutSellerInput
 }
 
-export type UserCreateOrConnectWithoutOrdersInput = {
+export type UserCreateOrConnectWithoutSellerCouponsInput = {
   where: Prisma.UserWhereUniqueInput
-  create: Prisma.XOR<Prisma.UserCreateWithoutOrdersInput, Prisma.UserUncheckedCreateWithoutOrdersInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutSellerCouponsInput, Prisma.UserUncheckedCreateWithoutSellerCouponsInput>
 }
 
-export type UserUpsertWithoutOrdersInput = {
-  update: Prisma.XOR<Prisma.UserUpdateWithoutOrdersInput, Prisma.UserUncheckedUpdateWithoutOrdersInput>
-  create: Prisma.XOR<Prisma.UserCreateWithoutOrdersInput, Prisma.UserUncheckedCreateWithoutOrdersInput>
+export type UserUpsertWithoutSellerCouponsInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutSellerCouponsInput, Prisma.UserUncheckedUpdateWithoutSellerCouponsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutSellerCouponsInput, Prisma.UserUncheckedCreateWithoutSellerCouponsInput>
   where?: Prisma.UserWhereInput
 }
 
-export type UserUpdateToOneWithWhereWithoutOrdersInput = {
+export type UserUpdateToOneWithWhereWithoutSellerCouponsInput = {
   where?: Prisma.UserWhereInput
-  data: Prisma.XOR<Prisma.UserUpdateWithoutOrdersInput, Prisma.UserUncheckedUpdateWithoutOrdersInput>
+  data: Prisma.XOR<Prisma.UserUpdateWithoutSellerCouponsInput, Prisma.UserUncheckedUpdateWithoutSellerCouponsInput>
 }
 
-export type UserUpdateWithoutOrdersInput = {
+export type UserUpdateWithoutSellerCouponsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   name?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.StringFieldUpdateOperationsInput | string
@@ -831,16 +1564,34 @@ export type UserUpdateWithoutOrdersInput = {
   phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
   status?: Prisma.EnumUserStatusFieldUpdateOperationsInput | $Enums.UserStatus
+  banReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  banExpires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput
   accounts?: Prisma.AccountUpdateManyWithoutUserNestedInput
   cart?: Prisma.CartUpdateOneWithoutUserNestedInput
   sellerMedicines?: Prisma.MedicineUpdateManyWithoutSellerNestedInput
+  orders?: Prisma.OrderUpdateManyWithoutUserNestedInput
+  sellerShipments?: Prisma.ShipmentUpdateManyWithoutSellerNestedInput
   reviews?: Prisma.ReviewUpdateManyWithoutUserNestedInput
+  prescriptions?: Prisma.PrescriptionUpdateManyWithoutUserNestedInput
+  payments?: Prisma.PaymentUpdateManyWithoutUserNestedInput
+  returnRequests?: Prisma.ReturnRequestUpdateManyWithoutUserNestedInput
+  stockMovements?: Prisma.StockMovementUpdateManyWithoutActorNestedInput
+  recallNotices?: Prisma.RecallNoticeUpdateManyWithoutUserNestedInput
+  addresses?: Prisma.AddressUpdateManyWithoutUserNestedInput
+  interactionOverrides?: Prisma.InteractionOverrideUpdateManyWithoutUserNestedInput
+  importJobs?: Prisma.ImportJobUpdateManyWithoutSellerNestedInput
+  sellerApplication?: Prisma.SellerApplicationUpdateOneWithoutUserNestedInput
+  sellerProfile?: Prisma.SellerProfileUpdateOneWithoutUserNestedInput
+  commissionRate?: Prisma.CommissionRateUpdateOneWithoutSellerNestedInput
+  ledgerEntries?: Prisma.SellerLedgerEntryUpdateManyWithoutSellerNestedInput
+  payoutRequests?: Prisma.PayoutRequestUpdateManyWithoutSellerNestedInput
 }
 
-export type UserUncheckedUpdateWithoutOrdersInput = {
+export type UserUncheckedUpdateWithoutSellerCouponsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   name?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.StringFieldUpdateOperationsInput | string
@@ -850,16 +1601,34 @@ export type UserUncheckedUpdateWithoutOrdersInput = {
   phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
   status?: Prisma.EnumUserStatusFieldUpdateOperationsInput | $Enums.UserStatus
+  banReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  banExpires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput
   accounts?: Prisma.AccountUncheckedUpdateManyWithoutUserNestedInput
   cart?: Prisma.CartUncheckedUpdateOneWithoutUserNestedInput
   sellerMedicines?: Prisma.MedicineUncheckedUpdateManyWithoutSellerNestedInput
+  orders?: Prisma.OrderUncheckedUpdateManyWithoutUserNestedInput
+  sellerShipments?: Prisma.ShipmentUncheckedUpdateManyWithoutSellerNestedInput
   reviews?: Prisma.ReviewUncheckedUpdateManyWithoutUserNestedInput
+  prescriptions?: Prisma.PrescriptionUncheckedUpdateManyWithoutUserNestedInput
+  payments?: Prisma.PaymentUncheckedUpdateManyWithoutUserNestedInput
+  returnRequests?: Prisma.ReturnRequestUncheckedUpdateManyWithoutUserNestedInput
+  stockMovements?: Prisma.StockMovementUncheckedUpdateManyWithoutActorNestedInput
+  recallNotices?: Prisma.RecallNoticeUncheckedUpdateManyWithoutUserNestedInput
+  addresses?: Prisma.AddressUncheckedUpdateManyWithoutUserNestedInput
+  interactionOverrides?: Prisma.InteractionOverrideUncheckedUpdateManyWithoutUserNestedInput
+  importJobs?: Prisma.ImportJobUncheckedUpdateManyWithoutSellerNestedInput
+  sellerApplication?: Prisma.SellerApplicationUncheckedUpdateOneWithoutUserNestedInput
+  sellerProfile?: Prisma.SellerProfileUncheckedUpdateOneWithoutUserNestedInput
+  commissionRate?: Prisma.CommissionRateUncheckedUpdateOneWithoutSellerNestedInput
+  ledgerEntries?: Prisma.SellerLedgerEntryUncheckedUpdateManyWithoutSellerNestedInput
+  payoutRequests?: Prisma.PayoutRequestUncheckedUpdateManyWithoutSellerNestedInput
 }
 
-export type UserCreateWithoutReviewsInput = {
+export type UserCreateWithoutInteractionOverridesInput = {
   id?: string
   name: string
   email: string
@@ -869,6 +1638,9 @@ export type UserCreateWithoutReviewsInput = {
   phone?: string | null
   role?: $Enums.UserRole
   status?: $Enums.UserStatus
+  banReason?: string | null
+  banExpires?: Date | string | null
+  currency?: string
   createdAt?: Date | string
   updatedAt?: Date | string
   sessions?: Prisma.SessionCreateNestedManyWithoutUserInput
@@ -876,9 +1648,24 @@ export type UserCreateWithoutReviewsInput = {
   cart?: Prisma.CartCreateNestedOneWithoutUserInput
   sellerMedicines?: Prisma.MedicineCreateNestedManyWithoutSellerInput
   orders?: Prisma.OrderCreateNestedManyWithoutUserInput
+  sellerShipments?: Prisma.ShipmentCreateNestedManyWithoutSellerInput
+  reviews?: Prisma.ReviewCreateNestedManyWithoutUserInput
+  prescriptions?: Prisma.PrescriptionCreateNestedManyWithoutUserInput
+  payments?: Prisma.PaymentCreateNestedManyWithoutUserInput
+  returnRequests?: Prisma.ReturnRequestCreateNestedManyWithoutUserInput
+  stockMovements?: Prisma.StockMovementCreateNestedManyWithoutActorInput
+  recallNotices?: Prisma.RecallNoticeCreateNestedManyWithoutUserInput
+  sellerCoupons?: Prisma.CouponCreateNestedManyWithoutSellerInput
+  addresses?: Prisma.AddressCreateNestedManyWithoutUserInput
+  importJobs?: Prisma.ImportJobCreateNestedManyWithoutSellerInput
+  sellerApplication?: Prisma.SellerApplicationCreateNestedOneWithoutUserInput
+  sellerProfile?: Prisma.SellerProfileCreateNestedOneWithoutUserInput
+  commissionRate?: Prisma.CommissionRateCreateNestedOneWithoutSellerInput
+  ledgerEntries?: Prisma.SellerLedgerEntryCreateNestedManyWithoutSellerInput
+  payoutRequests?: Prisma.PayoutRequestCreateNestedManyWithoutSellerInput
 }
 
-export type UserUncheckedCreateWithoutReviewsInput = {
+export type UserUncheckedCreateWithoutInteractionOverridesInput = {
   id?: string
   name: string
   email: string
@@ -888,6 +1675,9 @@ export type UserUncheckedCreateWithoutReviewsInput = {
   phone?: string | null
   role?: $Enums.UserRole
   status?: $Enums.UserStatus
+  banReason?: string | null
+  banExpires?: Date | string | null
+  currency?: string
   createdAt?: Date | string
   updatedAt?: Date | string
   sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput
@@ -895,25 +1685,2336 @@ export type UserUncheckedCreateWithoutReviewsInput = {
   cart?: Prisma.CartUncheckedCreateNestedOneWithoutUserInput
   sellerMedicines?: Prisma.MedicineUncheckedCreateNestedManyWithoutSellerInput
   orders?: Prisma.OrderUncheckedCreateNestedManyWithoutUserInput
+  sellerShipments?: Prisma.ShipmentUncheckedCreateNestedManyWithoutSellerInput
+  reviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutUserInput
+  prescriptions?: Prisma.PrescriptionUncheckedCreateNestedManyWithoutUserInput
+  payments?: Prisma.PaymentUncheckedCreateNestedManyWithoutUserInput
+  returnRequests?: Prisma.ReturnRequestUncheckedCreateNestedManyWithoutUserInput
+  stockMovements?: Prisma.StockMovementUncheckedCreateNestedManyWithoutActorInput
+  recallNotices?: Prisma.RecallNoticeUncheckedCreateNestedManyWithoutUserInput
+  sellerCoupons?: Prisma.CouponUncheckedCreateNestedManyWithoutSellerInput
+  addresses?: Prisma.AddressUncheckedCreateNestedManyWithoutUserInput
+  importJobs?: Prisma.ImportJobUncheckedCreateNestedManyWithoutSellerInput
+  sellerApplication?: Prisma.SellerApplicationUncheckedCreateNestedOneWithoutUserInput
+  sellerProfile?: Prisma.SellerProfileUncheckedCreateNestedOneWithoutUserInput
+  commissionRate?: Prisma.CommissionRateUncheckedCreateNestedOneWithoutSellerInput
+  ledgerEntries?: Prisma.SellerLedgerEntryUncheckedCreateNestedManyWithoutSellerInput
+  payoutRequests?: Prisma.PayoutRequestUncheckedCreateNestedManyWithoutSellerInput
 }
 
-export type UserCreateOrConnectWithoutReviewsInput = {
+export type UserCreateOrConnectWithoutInteractionOverridesInput = {
   where: Prisma.UserWhereUniqueInput
-  create: Prisma.XOR<Prisma.UserCreateWithoutReviewsInput, Prisma.UserUncheckedCreateWithoutReviewsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutInteractionOverridesInput, Prisma.UserUncheckedCreateWithoutInteractionOverridesInput>
 }
 
-export type UserUpsertWithoutReviewsInput = {
-  update: Prisma.XOR<Prisma.UserUpdateWithoutReviewsInput, Prisma.UserUncheckedUpdateWithoutReviewsInput>
-  create: Prisma.XOR<Prisma.UserCreateWithoutReviewsInput, Prisma.UserUncheckedCreateWithoutReviewsInput>
+export type UserUpsertWithoutInteractionOverridesInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutInteractionOverridesInput, Prisma.UserUncheckedUpdateWithoutInteractionOverridesInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutInteractionOverridesInput, Prisma.UserUncheckedCreateWithoutInteractionOverridesInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutInteractionOverridesInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutInteractionOverridesInput, Prisma.UserUncheckedUpdateWithoutInteractionOverridesInput>
+}
+
+export type UserUpdateWithoutInteractionOverridesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  password?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  emailVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  image?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  status?: Prisma.EnumUserStatusFieldUpdateOperationsInput | $Enums.UserStatus
+  banReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  banExpires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput
+  accounts?: Prisma.AccountUpdateManyWithoutUserNestedInput
+  cart?: Prisma.CartUpdateOneWithoutUserNestedInput
+  sellerMedicines?: Prisma.MedicineUpdateManyWithoutSellerNestedInput
+  orders?: Prisma.OrderUpdateManyWithoutUserNestedInput
+  sellerShipments?: Prisma.ShipmentUpdateManyWithoutSellerNestedInput
+  reviews?: Prisma.ReviewUpdateManyWithoutUserNestedInput
+  prescriptions?: Prisma.PrescriptionUpdateManyWithoutUserNestedInput
+  payments?: Prisma.PaymentUpdateManyWithoutUserNestedInput
+  returnRequests?: Prisma.ReturnRequestUpdateManyWithoutUserNestedInput
+  stockMovements?: Prisma.StockMovementUpdateManyWithoutActorNestedInput
+  recallNotices?: Prisma.RecallNoticeUpdateManyWithoutUserNestedInput
+  sellerCoupons?: Prisma.CouponUpdateManyWithoutSellerNestedInput
+  addresses?: Prisma.AddressUpdateManyWithoutUserNestedInput
+  importJobs?: Prisma.ImportJobUpdateManyWithoutSellerNestedInput
+  sellerApplication?: Prisma.SellerApplicationUpdateOneWithoutUserNestedInput
+  sellerProfile?: Prisma.SellerProfileUpdateOneWithoutUserNestedInput
+  commissionRate?: Prisma.CommissionRateUpdateOneWithoutSellerNestedInput
+  ledgerEntries?: Prisma.SellerLedgerEntryUpdateManyWithoutSellerNestedInput
+  payoutRequests?: Prisma.PayoutRequestUpdateManyWithoutSellerNestedInput
+}
+
+export type UserUncheckedUpdateWithoutInteractionOverridesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  password?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  emailVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  image?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  status?: Prisma.EnumUserStatusFieldUpdateOperationsInput | $Enums.UserStatus
+  banReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  banExpires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput
+  accounts?: Prisma.AccountUncheckedUpdateManyWithoutUserNestedInput
+  cart?: Prisma.CartUncheckedUpdateOneWithoutUserNestedInput
+  sellerMedicines?: Prisma.MedicineUncheckedUpdateManyWithoutSellerNestedInput
+  orders?: Prisma.OrderUncheckedUpdateManyWithoutUserNestedInput
+  sellerShipments?: Prisma.ShipmentUncheckedUpdateManyWithoutSellerNestedInput
+  reviews?: Prisma.ReviewUncheckedUpdateManyWithoutUserNestedInput
+  prescriptions?: Prisma.PrescriptionUncheckedUpdateManyWithoutUserNestedInput
+  payments?: Prisma.PaymentUncheckedUpdateManyWithoutUserNestedInput
+  returnRequests?: Prisma.ReturnRequestUncheckedUpdateManyWithoutUserNestedInput
+  stockMovements?: Prisma.StockMovementUncheckedUpdateManyWithoutActorNestedInput
+  recallNotices?: Prisma.RecallNoticeUncheckedUpdateManyWithoutUserNestedInput
+  sellerCoupons?: Prisma.CouponUncheckedUpdateManyWithoutSellerNestedInput
+  addresses?: Prisma.AddressUncheckedUpdateManyWithoutUserNestedInput
+  importJobs?: Prisma.ImportJobUncheckedUpdateManyWithoutSellerNestedInput
+  sellerApplication?: Prisma.SellerApplicationUncheckedUpdateOneWithoutUserNestedInput
+  sellerProfile?: Prisma.SellerProfileUncheckedUpdateOneWithoutUserNestedInput
+  commissionRate?: Prisma.CommissionRateUncheckedUpdateOneWithoutSellerNestedInput
+  ledgerEntries?: Prisma.SellerLedgerEntryUncheckedUpdateManyWithoutSellerNestedInput
+  payoutRequests?: Prisma.PayoutRequestUncheckedUpdateManyWithoutSellerNestedInput
+}
+
+export type UserCreateWithoutSellerMedicinesInput = {
+  id?: string
+  name: string
+  email: string
+  password?: string | null
+  emailVerified?: boolean
+  image?: string | null
+  phone?: string | null
+  role?: $Enums.UserRole
+  status?: $Enums.UserStatus
+  banReason?: string | null
+  banExpires?: Date | string | null
+  currency?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  sessions?: Prisma.SessionCreateNestedManyWithoutUserInput
+  accounts?: Prisma.AccountCreateNestedManyWithoutUserInput
+  cart?: Prisma.CartCreateNestedOneWithoutUserInput
+  orders?: Prisma.OrderCreateNestedManyWithoutUserInput
+  sellerShipments?: Prisma.ShipmentCreateNestedManyWithoutSellerInput
+  reviews?: Prisma.ReviewCreateNestedManyWithoutUserInput
+  prescriptions?: Prisma.PrescriptionCreateNestedManyWithoutUserInput
+  payments?: Prisma.PaymentCreateNestedManyWithoutUserInput
+  returnRequests?: Prisma.ReturnRequestCreateNestedManyWithoutUserInput
+  stockMovements?: Prisma.StockMovementCreateNestedManyWithoutActorInput
+  recallNotices?: Prisma.RecallNoticeCreateNestedManyWithoutUserInput
+  sellerCoupons?: Prisma.CouponCreateNestedManyWithoutSellerInput
+  addresses?: Prisma.AddressCreateNestedManyWithoutUserInput
+  interactionOverrides?: Prisma.InteractionOverrideCreateNestedManyWithoutUserInput
+  importJobs?: Prisma.ImportJobCreateNestedManyWithoutSellerInput
+  sellerApplication?: Prisma.SellerApplicationCreateNestedOneWithoutUserInput
+  sellerProfile?: Prisma.SellerProfileCreateNestedOneWithoutUserInput
+  commissionRate?: Prisma.CommissionRateCreateNestedOneWithoutSellerInput
+  ledgerEntries?: Prisma.SellerLedgerEntryCreateNestedManyWithoutSellerInput
+  payoutRequests?: Prisma.PayoutRequestCreateNestedManyWithoutSellerInput
+}
+
+export type UserUncheckedCreateWithoutSellerMedicinesInput = {
+  id?: string
+  name: string
+  email: string
+  password?: string | null
+  emailVerified?: boolean
+  image?: string | null
+  phone?: string | null
+  role?: $Enums.UserRole
+  status?: $Enums.UserStatus
+  banReason?: string | null
+  banExpires?: Date | string | null
+  currency?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput
+  accounts?: Prisma.AccountUncheckedCreateNestedManyWithoutUserInput
+  cart?: Prisma.CartUncheckedCreateNestedOneWithoutUserInput
+  orders?: Prisma.OrderUncheckedCreateNestedManyWithoutUserInput
+  sellerShipments?: Prisma.ShipmentUncheckedCreateNestedManyWithoutSellerInput
+  reviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutUserInput
+  prescriptions?: Prisma.PrescriptionUncheckedCreateNestedManyWithoutUserInput
+  payments?: Prisma.PaymentUncheckedCreateNestedManyWithoutUserInput
+  returnRequests?: Prisma.ReturnRequestUncheckedCreateNestedManyWithoutUserInput
+  stockMovements?: Prisma.StockMovementUncheckedCreateNestedManyWithoutActorInput
+  recallNotices?: Prisma.RecallNoticeUncheckedCreateNestedManyWithoutUserInput
+  sellerCoupons?: Prisma.CouponUncheckedCreateNestedManyWithoutSellerInput
+  addresses?: Prisma.AddressUncheckedCreateNestedManyWithoutUserInput
+  interactionOverrides?: Prisma.InteractionOverrideUncheckedCreateNestedManyWithoutUserInput
+  importJobs?: Prisma.ImportJobUncheckedCreateNestedManyWithoutSellerInput
+  sellerApplication?: Prisma.SellerApplicationUncheckedCreateNestedOneWithoutUserInput
+  sellerProfile?: Prisma.SellerProfileUncheckedCreateNestedOneWithoutUserInput
+  commissionRate?: Prisma.CommissionRateUncheckedCreateNestedOneWithoutSellerInput
+  ledgerEntries?: Prisma.SellerLedgerEntryUncheckedCreateNestedManyWithoutSellerInput
+  payoutRequests?: Prisma.PayoutRequestUncheckedCreateNestedManyWithoutSellerInput
+}
+
+export type UserCreateOrConnectWithoutSellerMedicinesInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutSellerMedicinesInput, Prisma.UserUncheckedCreateWithoutSellerMedicinesInput>
+}
+
+export type UserUpsertWithoutSellerMedicinesInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutSellerMedicinesInput, Prisma.UserUncheckedUpdateWithoutSellerMedicinesInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutSellerMedicinesInput, Prisma.UserUncheckedCreateWithoutSellerMedicinesInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutSellerMedicinesInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutSellerMedicinesInput, Prisma.UserUncheckedUpdateWithoutSellerMedicinesInput>
+}
+
+export type UserUpdateWithoutSellerMedicinesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  password?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  emailVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  image?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  status?: Prisma.EnumUserStatusFieldUpdateOperationsInput | $Enums.UserStatus
+  banReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  banExpires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput
+  accounts?: Prisma.AccountUpdateManyWithoutUserNestedInput
+  cart?: Prisma.CartUpdateOneWithoutUserNestedInput
+  orders?: Prisma.OrderUpdateManyWithoutUserNestedInput
+  sellerShipments?: Prisma.ShipmentUpdateManyWithoutSellerNestedInput
+  reviews?: Prisma.ReviewUpdateManyWithoutUserNestedInput
+  prescriptions?: Prisma.PrescriptionUpdateManyWithoutUserNestedInput
+  payments?: Prisma.PaymentUpdateManyWithoutUserNestedInput
+  returnRequests?: Prisma.ReturnRequestUpdateManyWithoutUserNestedInput
+  stockMovements?: Prisma.StockMovementUpdateManyWithoutActorNestedInput
+  recallNotices?: Prisma.RecallNoticeUpdateManyWithoutUserNestedInput
+  sellerCoupons?: Prisma.CouponUpdateManyWithoutSellerNestedInput
+  addresses?: Prisma.AddressUpdateManyWithoutUserNestedInput
+  interactionOverrides?: Prisma.InteractionOverrideUpdateManyWithoutUserNestedInput
+  importJobs?: Prisma.ImportJobUpdateManyWithoutSellerNestedInput
+  sellerApplication?: Prisma.SellerApplicationUpdateOneWithoutUserNestedInput
+  sellerProfile?: Prisma.SellerProfileUpdateOneWithoutUserNestedInput
+  commissionRate?: Prisma.CommissionRateUpdateOneWithoutSellerNestedInput
+  ledgerEntries?: Prisma.SellerLedgerEntryUpdateManyWithoutSellerNestedInput
+  payoutRequests?: Prisma.PayoutRequestUpdateManyWithoutSellerNestedInput
+}
+
+export type UserUncheckedUpdateWithoutSellerMedicinesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  password?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  emailVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  image?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  status?: Prisma.EnumUserStatusFieldUpdateOperationsInput | $Enums.UserStatus
+  banReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  banExpires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput
+  accounts?: Prisma.AccountUncheckedUpdateManyWithoutUserNestedInput
+  cart?: Prisma.CartUncheckedUpdateOneWithoutUserNestedInput
+  orders?: Prisma.OrderUncheckedUpdateManyWithoutUserNestedInput
+  sellerShipments?: Prisma.ShipmentUncheckedUpdateManyWithoutSellerNestedInput
+  reviews?: Prisma.ReviewUncheckedUpdateManyWithoutUserNestedInput
+  prescriptions?: Prisma.PrescriptionUncheckedUpdateManyWithoutUserNestedInput
+  payments?: Prisma.PaymentUncheckedUpdateManyWithoutUserNestedInput
+  returnRequests?: Prisma.ReturnRequestUncheckedUpdateManyWithoutUserNestedInput
+  stockMovements?: Prisma.StockMovementUncheckedUpdateManyWithoutActorNestedInput
+  recallNotices?: Prisma.RecallNoticeUncheckedUpdateManyWithoutUserNestedInput
+  sellerCoupons?: Prisma.CouponUncheckedUpdateManyWithoutSellerNestedInput
+  addresses?: Prisma.AddressUncheckedUpdateManyWithoutUserNestedInput
+  interactionOverrides?: Prisma.InteractionOverrideUncheckedUpdateManyWithoutUserNestedInput
+  importJobs?: Prisma.ImportJobUncheckedUpdateManyWithoutSellerNestedInput
+  sellerApplication?: Prisma.SellerApplicationUncheckedUpdateOneWithoutUserNestedInput
+  sellerProfile?: Prisma.SellerProfileUncheckedUpdateOneWithoutUserNestedInput
+  commissionRate?: Prisma.CommissionRateUncheckedUpdateOneWithoutSellerNestedInput
+  ledgerEntries?: Prisma.SellerLedgerEntryUncheckedUpdateManyWithoutSellerNestedInput
+  payoutRequests?: Prisma.PayoutRequestUncheckedUpdateManyWithoutSellerNestedInput
+}
+
+export type UserCreateWithoutOrdersInput = {
+  id?: string
+  name: string
+  email: string
+  password?: string | null
+  emailVerified?: boolean
+  image?: string | null
+  phone?: string | null
+  role?: $Enums.UserRole
+  status?: $Enums.UserStatus
+  banReason?: string | null
+  banExpires?: Date | string | null
+  currency?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  sessions?: Prisma.SessionCreateNestedManyWithoutUserInput
+  accounts?: Prisma.AccountCreateNestedManyWithoutUserInput
+  cart?: Prisma.CartCreateNestedOneWithoutUserInput
+  sellerMedicines?: Prisma.MedicineCreateNestedManyWithoutSellerInput
+  sellerShipments?: Prisma.ShipmentCreateNestedManyWithoutSellerInput
+  reviews?: Prisma.ReviewCreateNestedManyWithoutUserInput
+  prescriptions?: Prisma.PrescriptionCreateNestedManyWithoutUserInput
+  payments?: Prisma.PaymentCreateNestedManyWithoutUserInput
+  returnRequests?: Prisma.ReturnRequestCreateNestedManyWithoutUserInput
+  stockMovements?: Prisma.StockMovementCreateNestedManyWithoutActorInput
+  recallNotices?: Prisma.RecallNoticeCreateNestedManyWithoutUserInput
+  sellerCoupons?: Prisma.CouponCreateNestedManyWithoutSellerInput
+  addresses?: Prisma.AddressCreateNestedManyWithoutUserInput
+  interactionOverrides?: Prisma.InteractionOverrideCreateNestedManyWithoutUserInput
+  importJobs?: Prisma.ImportJobCreateNestedManyWithoutSellerInput
+  sellerApplication?: Prisma.SellerApplicationCreateNestedOneWithoutUserInput
+  sellerProfile?: Prisma.SellerProfileCreateNestedOneWithoutUserInput
+  commissionRate?: Prisma.CommissionRateCreateNestedOneWithoutSellerInput
+  ledgerEntries?: Prisma.SellerLedgerEntryCreateNestedManyWithoutSellerInput
+  payoutRequests?: Prisma.PayoutRequestCreateNestedManyWithoutSellerInput
+}
+
+export type UserUncheckedCreateWithoutOrdersInput = {
+  id?: string
+  name: string
+  email: string
+  password?: string | null
+  emailVerified?: boolean
+  image?: string | null
+  phone?: string | null
+  role?: $Enums.UserRole
+  status?: $Enums.UserStatus
+  banReason?: string | null
+  banExpires?: Date | string | null
+  currency?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput
+  accounts?: Prisma.AccountUncheckedCreateNestedManyWithoutUserInput
+  cart?: Prisma.CartUncheckedCreateNestedOneWithoutUserInput
+  sellerMedicines?: Prisma.MedicineUncheckedCreateNestedManyWithoutSellerInput
+  sellerShipments?: Prisma.ShipmentUncheckedCreateNestedManyWithoutSellerInput
+  reviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutUserInput
+  prescriptions?: Prisma.PrescriptionUncheckedCreateNestedManyWithoutUserInput
+  payments?: Prisma.PaymentUncheckedCreateNestedManyWithoutUserInput
+  returnRequests?: Prisma.ReturnRequestUncheckedCreateNestedManyWithoutUserInput
+  stockMovements?: Prisma.StockMovementUncheckedCreateNestedManyWithoutActorInput
+  recallNotices?: Prisma.RecallNoticeUncheckedCreateNestedManyWithoutUserInput
+  sellerCoupons?: Prisma.CouponUncheckedCreateNestedManyWithoutSellerInput
+  addresses?: Prisma.AddressUncheckedCreateNestedManyWithoutUserInput
+  interactionOverrides?: Prisma.InteractionOverrideUncheckedCreateNestedManyWithoutUserInput
+  importJobs?: Prisma.ImportJobUncheckedCreateNestedManyWithoutSellerInput
+  sellerApplication?: Prisma.SellerApplicationUncheckedCreateNestedOneWithoutUserInput
+  sellerProfile?: Prisma.SellerProfileUncheckedCreateNestedOneWithoutUserInput
+  commissionRate?: Prisma.CommissionRateUncheckedCreateNestedOneWithoutSellerInput
+  ledgerEntries?: Prisma.SellerLedgerEntryUncheckedCreateNestedManyWithoutSellerInput
+  payoutRequests?: Prisma.PayoutRequestUncheckedCreateNestedManyWithoutSellerInput
+}
+
+export type UserCreateOrConnectWithoutOrdersInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutOrdersInput, Prisma.UserUncheckedCreateWithoutOrdersInput>
+}
+
+export type UserUpsertWithoutOrdersInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutOrdersInput, Prisma.UserUncheckedUpdateWithoutOrdersInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutOrdersInput, Prisma.UserUncheckedCreateWithoutOrdersInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutOrdersInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutOrdersInput, Prisma.UserUncheckedUpdateWithoutOrdersInput>
+}
+
+export type UserUpdateWithoutOrdersInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  password?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  emailVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  image?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  status?: Prisma.EnumUserStatusFieldUpdateOperationsInput | $Enums.UserStatus
+  banReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  banExpires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput
+  accounts?: Prisma.AccountUpdateManyWithoutUserNestedInput
+  cart?: Prisma.CartUpdateOneWithoutUserNestedInput
+  sellerMedicines?: Prisma.MedicineUpdateManyWithoutSellerNestedInput
+  sellerShipments?: Prisma.ShipmentUpdateManyWithoutSellerNestedInput
+  reviews?: Prisma.ReviewUpdateManyWithoutUserNestedInput
+  prescriptions?: Prisma.PrescriptionUpdateManyWithoutUserNestedInput
+  payments?: Prisma.PaymentUpdateManyWithoutUserNestedInput
+  returnRequests?: Prisma.ReturnRequestUpdateManyWithoutUserNestedInput
+  stockMovements?: Prisma.StockMovementUpdateManyWithoutActorNestedInput
+  recallNotices?: Prisma.RecallNoticeUpdateManyWithoutUserNestedInput
+  sellerCoupons?: Prisma.CouponUpdateManyWithoutSellerNestedInput
+  addresses?: Prisma.AddressUpdateManyWithoutUserNestedInput
+  interactionOverrides?: Prisma.InteractionOverrideUpdateManyWithoutUserNestedInput
+  importJobs?: Prisma.ImportJobUpdateManyWithoutSellerNestedInput
+  sellerApplication?: Prisma.SellerApplicationUpdateOneWithoutUserNestedInput
+  sellerProfile?: Prisma.SellerProfileUpdateOneWithoutUserNestedInput
+  commissionRate?: Prisma.CommissionRateUpdateOneWithoutSellerNestedInput
+  ledgerEntries?: Prisma.SellerLedgerEntryUpdateManyWithoutSellerNestedInput
+  payoutRequests?: Prisma.PayoutRequestUpdateManyWithoutSellerNestedInput
+}
+
+export type UserUncheckedUpdateWithoutOrdersInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  password?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  emailVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  image?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  status?: Prisma.EnumUserStatusFieldUpdateOperationsInput | $Enums.UserStatus
+  banReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  banExpires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput
+  accounts?: Prisma.AccountUncheckedUpdateManyWithoutUserNestedInput
+  cart?: Prisma.CartUncheckedUpdateOneWithoutUserNestedInput
+  sellerMedicines?: Prisma.MedicineUncheckedUpdateManyWithoutSellerNestedInput
+  sellerShipments?: Prisma.ShipmentUncheckedUpdateManyWithoutSellerNestedInput
+  reviews?: Prisma.ReviewUncheckedUpdateManyWithoutUserNestedInput
+  prescriptions?: Prisma.PrescriptionUncheckedUpdateManyWithoutUserNestedInput
+  payments?: Prisma.PaymentUncheckedUpdateManyWithoutUserNestedInput
+  returnRequests?: Prisma.ReturnRequestUncheckedUpdateManyWithoutUserNestedInput
+  stockMovements?: Prisma.StockMovementUncheckedUpdateManyWithoutActorNestedInput
+  recallNotices?: Prisma.RecallNoticeUncheckedUpdateManyWithoutUserNestedInput
+  sellerCoupons?: Prisma.CouponUncheckedUpdateManyWithoutSellerNestedInput
+  addresses?: Prisma.AddressUncheckedUpdateManyWithoutUserNestedInput
+  interactionOverrides?: Prisma.InteractionOverrideUncheckedUpdateManyWithoutUserNestedInput
+  importJobs?: Prisma.ImportJobUncheckedUpdateManyWithoutSellerNestedInput
+  sellerApplication?: Prisma.SellerApplicationUncheckedUpdateOneWithoutUserNestedInput
+  sellerProfile?: Prisma.SellerProfileUncheckedUpdateOneWithoutUserNestedInput
+  commissionRate?: Prisma.CommissionRateUncheckedUpdateOneWithoutSellerNestedInput
+  ledgerEntries?: Prisma.SellerLedgerEntryUncheckedUpdateManyWithoutSellerNestedInput
+  payoutRequests?: Prisma.PayoutRequestUncheckedUpdateManyWithoutSellerNestedInput
+}
+
+export type UserCreateWithoutSellerShipmentsInput = {
+  id?: string
+  name: string
+  email: string
+  password?: string | null
+  emailVerified?: boolean
+  image?: string | null
+  phone?: string | null
+  role?: $Enums.UserRole
+  status?: $Enums.UserStatus
+  banReason?: string | null
+  banExpires?: Date | string | null
+  currency?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  sessions?: Prisma.SessionCreateNestedManyWithoutUserInput
+  accounts?: Prisma.AccountCreateNestedManyWithoutUserInput
+  cart?: Prisma.CartCreateNestedOneWithoutUserInput
+  sellerMedicines?: Prisma.MedicineCreateNestedManyWithoutSellerInput
+  orders?: Prisma.OrderCreateNestedManyWithoutUserInput
+  reviews?: Prisma.ReviewCreateNestedManyWithoutUserInput
+  prescriptions?: Prisma.PrescriptionCreateNestedManyWithoutUserInput
+  payments?: Prisma.PaymentCreateNestedManyWithoutUserInput
+  returnRequests?: Prisma.ReturnRequestCreateNestedManyWithoutUserInput
+  stockMovements?: Prisma.StockMovementCreateNestedManyWithoutActorInput
+  recallNotices?: Prisma.RecallNoticeCreateNestedManyWithoutUserInput
+  sellerCoupons?: Prisma.CouponCreateNestedManyWithoutSellerInput
+  addresses?: Prisma.AddressCreateNestedManyWithoutUserInput
+  interactionOverrides?: Prisma.InteractionOverrideCreateNestedManyWithoutUserInput
+  importJobs?: Prisma.ImportJobCreateNestedManyWithoutSellerInput
+  sellerApplication?: Prisma.SellerApplicationCreateNestedOneWithoutUserInput
+  sellerProfile?: Prisma.SellerProfileCreateNestedOneWithoutUserInput
+  commissionRate?: Prisma.CommissionRateCreateNestedOneWithoutSellerInput
+  ledgerEntries?: Prisma.SellerLedgerEntryCreateNestedManyWithoutSellerInput
+  payoutRequests?: Prisma.PayoutRequestCreateNestedManyWithoutSellerInput
+}
+
+export type UserUncheckedCreateWithoutSellerShipmentsInput = {
+  id?: string
+  name: string
+  email: string
+  password?: string | null
+  emailVerified?: boolean
+  image?: string | null
+  phone?: string | null
+  role?: $Enums.UserRole
+  status?: $Enums.UserStatus
+  banReason?: string | null
+  banExpires?: Date | string | null
+  currency?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput
+  accounts?: Prisma.AccountUncheckedCreateNestedManyWithoutUserInput
+  cart?: Prisma.CartUncheckedCreateNestedOneWithoutUserInput
+  sellerMedicines?: Prisma.MedicineUncheckedCreateNestedManyWithoutSellerInput
+  orders?: Prisma.OrderUncheckedCreateNestedManyWithoutUserInput
+  reviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutUserInput
+  prescriptions?: Prisma.PrescriptionUncheckedCreateNestedManyWithoutUserInput
+  payments?: Prisma.PaymentUncheckedCreateNestedManyWithoutUserInput
+  returnRequests?: Prisma.ReturnRequestUncheckedCreateNestedManyWithoutUserInput
+  stockMovements?: Prisma.StockMovementUncheckedCreateNestedManyWithoutActorInput
+  recallNotices?: Prisma.RecallNoticeUncheckedCreateNestedManyWithoutUserInput
+  sellerCoupons?: Prisma.CouponUncheckedCreateNestedManyWithoutSellerInput
+  addresses?: Prisma.AddressUncheckedCreateNestedManyWithoutUserInput
+  interactionOverrides?: Prisma.InteractionOverrideUncheckedCreateNestedManyWithoutUserInput
+  importJobs?: Prisma.ImportJobUncheckedCreateNestedManyWithoutSellerInput
+  sellerApplication?: Prisma.SellerApplicationUncheckedCreateNestedOneWithoutUserInput
+  sellerProfile?: Prisma.SellerProfileUncheckedCreateNestedOneWithoutUserInput
+  commissionRate?: Prisma.CommissionRateUncheckedCreateNestedOneWithoutSellerInput
+  ledgerEntries?: Prisma.SellerLedgerEntryUncheckedCreateNestedManyWithoutSellerInput
+  payoutRequests?: Prisma.PayoutRequestUncheckedCreateNestedManyWithoutSellerInput
+}
+
+export type UserCreateOrConnectWithoutSellerShipmentsInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutSellerShipmentsInput, Prisma.UserUncheckedCreateWithoutSellerShipmentsInput>
+}
+
+export type UserUpsertWithoutSellerShipmentsInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutSellerShipmentsInput, Prisma.UserUncheckedUpdateWithoutSellerShipmentsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutSellerShipmentsInput, Prisma.UserUncheckedCreateWithoutSellerShipmentsInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutSellerShipmentsInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutSellerShipmentsInput, Prisma.UserUncheckedUpdateWithoutSellerShipmentsInput>
+}
+
+export type UserUpdateWithoutSellerShipmentsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  password?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  emailVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  image?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  status?: Prisma.EnumUserStatusFieldUpdateOperationsInput | $Enums.UserStatus
+  banReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  banExpires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput
+  accounts?: Prisma.AccountUpdateManyWithoutUserNestedInput
+  cart?: Prisma.CartUpdateOneWithoutUserNestedInput
+  sellerMedicines?: Prisma.MedicineUpdateManyWithoutSellerNestedInput
+  orders?: Prisma.OrderUpdateManyWithoutUserNestedInput
+  reviews?: Prisma.ReviewUpdateManyWithoutUserNestedInput
+  prescriptions?: Prisma.PrescriptionUpdateManyWithoutUserNestedInput
+  payments?: Prisma.PaymentUpdateManyWithoutUserNestedInput
+  returnRequests?: Prisma.ReturnRequestUpdateManyWithoutUserNestedInput
+  stockMovements?: Prisma.StockMovementUpdateManyWithoutActorNestedInput
+  recallNotices?: Prisma.RecallNoticeUpdateManyWithoutUserNestedInput
+  sellerCoupons?: Prisma.CouponUpdateManyWithoutSellerNestedInput
+  addresses?: Prisma.AddressUpdateManyWithoutUserNestedInput
+  interactionOverrides?: Prisma.InteractionOverrideUpdateManyWithoutUserNestedInput
+  importJobs?: Prisma.ImportJobUpdateManyWithoutSellerNestedInput
+  sellerApplication?: Prisma.SellerApplicationUpdateOneWithoutUserNestedInput
+  sellerProfile?: Prisma.SellerProfileUpdateOneWithoutUserNestedInput
+  commissionRate?: Prisma.CommissionRateUpdateOneWithoutSellerNestedInput
+  ledgerEntries?: Prisma.SellerLedgerEntryUpdateManyWithoutSellerNestedInput
+  payoutRequests?: Prisma.PayoutRequestUpdateManyWithoutSellerNestedInput
+}
+
+export type UserUncheckedUpdateWithoutSellerShipmentsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  password?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  emailVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  image?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  status?: Prisma.EnumUserStatusFieldUpdateOperationsInput | $Enums.UserStatus
+  banReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  banExpires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput
+  accounts?: Prisma.AccountUncheckedUpdateManyWithoutUserNestedInput
+  cart?: Prisma.CartUncheckedUpdateOneWithoutUserNestedInput
+  sellerMedicines?: Prisma.MedicineUncheckedUpdateManyWithoutSellerNestedInput
+  orders?: Prisma.OrderUncheckedUpdateManyWithoutUserNestedInput
+  reviews?: Prisma.ReviewUncheckedUpdateManyWithoutUserNestedInput
+  prescriptions?: Prisma.PrescriptionUncheckedUpdateManyWithoutUserNestedInput
+  payments?: Prisma.PaymentUncheckedUpdateManyWithoutUserNestedInput
+  returnRequests?: Prisma.ReturnRequestUncheckedUpdateManyWithoutUserNestedInput
+  stockMovements?: Prisma.StockMovementUncheckedUpdateManyWithoutActorNestedInput
+  recallNotices?: Prisma.RecallNoticeUncheckedUpdateManyWithoutUserNestedInput
+  sellerCoupons?: Prisma.CouponUncheckedUpdateManyWithoutSellerNestedInput
+  addresses?: Prisma.AddressUncheckedUpdateManyWithoutUserNestedInput
+  interactionOverrides?: Prisma.InteractionOverrideUncheckedUpdateManyWithoutUserNestedInput
+  importJobs?: Prisma.ImportJobUncheckedUpdateManyWithoutSellerNestedInput
+  sellerApplication?: Prisma.SellerApplicationUncheckedUpdateOneWithoutUserNestedInput
+  sellerProfile?: Prisma.SellerProfileUncheckedUpdateOneWithoutUserNestedInput
+  commissionRate?: Prisma.CommissionRateUncheckedUpdateOneWithoutSellerNestedInput
+  ledgerEntries?: Prisma.SellerLedgerEntryUncheckedUpdateManyWithoutSellerNestedInput
+  payoutRequests?: Prisma.PayoutRequestUncheckedUpdateManyWithoutSellerNestedInput
+}
+
+export type UserCreateWithoutPaymentsInput = {
+  id?: string
+  name: string
+  email: string
+  password?: string | null
+  emailVerified?: boolean
+  image?: string | null
+  phone?: string | null
+  role?: $Enums.UserRole
+  status?: $Enums.UserStatus
+  banReason?: string | null
+  banExpires?: Date | string | null
+  currency?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  sessions?: Prisma.SessionCreateNestedManyWithoutUserInput
+  accounts?: Prisma.AccountCreateNestedManyWithoutUserInput
+  cart?: Prisma.CartCreateNestedOneWithoutUserInput
+  sellerMedicines?: Prisma.MedicineCreateNestedManyWithoutSellerInput
+  orders?: Prisma.OrderCreateNestedManyWithoutUserInput
+  sellerShipments?: Prisma.ShipmentCreateNestedManyWithoutSellerInput
+  reviews?: Prisma.ReviewCreateNestedManyWithoutUserInput
+  prescriptions?: Prisma.PrescriptionCreateNestedManyWithoutUserInput
+  returnRequests?: Prisma.ReturnRequestCreateNestedManyWithoutUserInput
+  stockMovements?: Prisma.StockMovementCreateNestedManyWithoutActorInput
+  recallNotices?: Prisma.RecallNoticeCreateNestedManyWithoutUserInput
+  sellerCoupons?: Prisma.CouponCreateNestedManyWithoutSellerInput
+  addresses?: Prisma.AddressCreateNestedManyWithoutUserInput
+  interactionOverrides?: Prisma.InteractionOverrideCreateNestedManyWithoutUserInput
+  importJobs?: Prisma.ImportJobCreateNestedManyWithoutSellerInput
+  sellerApplication?: Prisma.SellerApplicationCreateNestedOneWithoutUserInput
+  sellerProfile?: Prisma.SellerProfileCreateNestedOneWithoutUserInput
+  commissionRate?: Prisma.CommissionRateCreateNestedOneWithoutSellerInput
+  ledgerEntries?: Prisma.SellerLedgerEntryCreateNestedManyWithoutSellerInput
+  payoutRequests?: Prisma.PayoutRequestCreateNestedManyWithoutSellerInput
+}
+
+export type UserUncheckedCreateWithoutPaymentsInput = {
+  id?: string
+  name: string
+  email: string
+  password?: string | null
+  emailVerified?: boolean
+  image?: string | null
+  phone?: string | null
+  role?: $Enums.UserRole
+  status?: $Enums.UserStatus
+  banReason?: string | null
+  banExpires?: Date | string | null
+  currency?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput
+  accounts?: Prisma.AccountUncheckedCreateNestedManyWithoutUserInput
+  cart?: Prisma.CartUncheckedCreateNestedOneWithoutUserInput
+  sellerMedicines?: Prisma.MedicineUncheckedCreateNestedManyWithoutSellerInput
+  orders?: Prisma.OrderUncheckedCreateNestedManyWithoutUserInput
+  sellerShipments?: Prisma.ShipmentUncheckedCreateNestedManyWithoutSellerInput
+  reviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutUserInput
+  prescriptions?: Prisma.PrescriptionUncheckedCreateNestedManyWithoutUserInput
+  returnRequests?: Prisma.ReturnRequestUncheckedCreateNestedManyWithoutUserInput
+  stockMovements?: Prisma.StockMovementUncheckedCreateNestedManyWithoutActorInput
+  recallNotices?: Prisma.RecallNoticeUncheckedCreateNestedManyWithoutUserInput
+  sellerCoupons?: Prisma.CouponUncheckedCreateNestedManyWithoutSellerInput
+  addresses?: Prisma.AddressUncheckedCreateNestedManyWithoutUserInput
+  interactionOverrides?: Prisma.InteractionOverrideUncheckedCreateNestedManyWithoutUserInput
+  importJobs?: Prisma.ImportJobUncheckedCreateNestedManyWithoutSellerInput
+  sellerApplication?: Prisma.SellerApplicationUncheckedCreateNestedOneWithoutUserInput
+  sellerProfile?: Prisma.SellerProfileUncheckedCreateNestedOneWithoutUserInput
+  commissionRate?: Prisma.CommissionRateUncheckedCreateNestedOneWithoutSellerInput
+  ledgerEntries?: Prisma.SellerLedgerEntryUncheckedCreateNestedManyWithoutSellerInput
+  payoutRequests?: Prisma.PayoutRequestUncheckedCreateNestedManyWithoutSellerInput
+}
+
+export type UserCreateOrConnectWithoutPaymentsInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutPaymentsInput, Prisma.UserUncheckedCreateWithoutPaymentsInput>
+}
+
+export type UserUpsertWithoutPaymentsInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutPaymentsInput, Prisma.UserUncheckedUpdateWithoutPaymentsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutPaymentsInput, Prisma.UserUncheckedCreateWithoutPaymentsInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutPaymentsInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutPaymentsInput, Prisma.UserUncheckedUpdateWithoutPaymentsInput>
+}
+
+export type UserUpdateWithoutPaymentsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  password?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  emailVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  image?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  status?: Prisma.EnumUserStatusFieldUpdateOperationsInput | $Enums.UserStatus
+  banReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  banExpires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput
+  accounts?: Prisma.AccountUpdateManyWithoutUserNestedInput
+  cart?: Prisma.CartUpdateOneWithoutUserNestedInput
+  sellerMedicines?: Prisma.MedicineUpdateManyWithoutSellerNestedInput
+  orders?: Prisma.OrderUpdateManyWithoutUserNestedInput
+  sellerShipments?: Prisma.ShipmentUpdateManyWithoutSellerNestedInput
+  reviews?: Prisma.ReviewUpdateManyWithoutUserNestedInput
+  prescriptions?: Prisma.PrescriptionUpdateManyWithoutUserNestedInput
+  returnRequests?: Prisma.ReturnRequestUpdateManyWithoutUserNestedInput
+  stockMovements?: Prisma.StockMovementUpdateManyWithoutActorNestedInput
+  recallNotices?: Prisma.RecallNoticeUpdateManyWithoutUserNestedInput
+  sellerCoupons?: Prisma.CouponUpdateManyWithoutSellerNestedInput
+  addresses?: Prisma.AddressUpdateManyWithoutUserNestedInput
+  interactionOverrides?: Prisma.InteractionOverrideUpdateManyWithoutUserNestedInput
+  importJobs?: Prisma.ImportJobUpdateManyWithoutSellerNestedInput
+  sellerApplication?: Prisma.SellerApplicationUpdateOneWithoutUserNestedInput
+  sellerProfile?: Prisma.SellerProfileUpdateOneWithoutUserNestedInput
+  commissionRate?: Prisma.CommissionRateUpdateOneWithoutSellerNestedInput
+  ledgerEntries?: Prisma.SellerLedgerEntryUpdateManyWithoutSellerNestedInput
+  payoutRequests?: Prisma.PayoutRequestUpdateManyWithoutSellerNestedInput
+}
+
+export type UserUncheckedUpdateWithoutPaymentsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  password?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  emailVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  image?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  status?: Prisma.EnumUserStatusFieldUpdateOperationsInput | $Enums.UserStatus
+  banReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  banExpires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput
+  accounts?: Prisma.AccountUncheckedUpdateManyWithoutUserNestedInput
+  cart?: Prisma.CartUncheckedUpdateOneWithoutUserNestedInput
+  sellerMedicines?: Prisma.MedicineUncheckedUpdateManyWithoutSellerNestedInput
+  orders?: Prisma.OrderUncheckedUpdateManyWithoutUserNestedInput
+  sellerShipments?: Prisma.ShipmentUncheckedUpdateManyWithoutSellerNestedInput
+  reviews?: Prisma.ReviewUncheckedUpdateManyWithoutUserNestedInput
+  prescriptions?: Prisma.PrescriptionUncheckedUpdateManyWithoutUserNestedInput
+  returnRequests?: Prisma.ReturnRequestUncheckedUpdateManyWithoutUserNestedInput
+  stockMovements?: Prisma.StockMovementUncheckedUpdateManyWithoutActorNestedInput
+  recallNotices?: Prisma.RecallNoticeUncheckedUpdateManyWithoutUserNestedInput
+  sellerCoupons?: Prisma.CouponUncheckedUpdateManyWithoutSellerNestedInput
+  addresses?: Prisma.AddressUncheckedUpdateManyWithoutUserNestedInput
+  interactionOverrides?: Prisma.InteractionOverrideUncheckedUpdateManyWithoutUserNestedInput
+  importJobs?: Prisma.ImportJobUncheckedUpdateManyWithoutSellerNestedInput
+  sellerApplication?: Prisma.SellerApplicationUncheckedUpdateOneWithoutUserNestedInput
+  sellerProfile?: Prisma.SellerProfileUncheckedUpdateOneWithoutUserNestedInput
+  commissionRate?: Prisma.CommissionRateUncheckedUpdateOneWithoutSellerNestedInput
+  ledgerEntries?: Prisma.SellerLedgerEntryUncheckedUpdateManyWithoutSellerNestedInput
+  payoutRequests?: Prisma.PayoutRequestUncheckedUpdateManyWithoutSellerNestedInput
+}
+
+export type UserCreateWithoutCommissionRateInput = {
+  id?: string
+  name: string
+  email: string
+  password?: string | null
+  emailVerified?: boolean
+  image?: string | null
+  phone?: string | null
+  role?: $Enums.UserRole
+  status?: $Enums.UserStatus
+  banReason?: string | null
+  banExpires?: Date | string | null
+  currency?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  sessions?: Prisma.SessionCreateNestedManyWithoutUserInput
+  accounts?: Prisma.AccountCreateNestedManyWithoutUserInput
+  cart?: Prisma.CartCreateNestedOneWithoutUserInput
+  sellerMedicines?: Prisma.MedicineCreateNestedManyWithoutSellerInput
+  orders?: Prisma.OrderCreateNestedManyWithoutUserInput
+  sellerShipments?: Prisma.ShipmentCreateNestedManyWithoutSellerInput
+  reviews?: Prisma.ReviewCreateNestedManyWithoutUserInput
+  prescriptions?: Prisma.PrescriptionCreateNestedManyWithoutUserInput
+  payments?: Prisma.PaymentCreateNestedManyWithoutUserInput
+  returnRequests?: Prisma.ReturnRequestCreateNestedManyWithoutUserInput
+  stockMovements?: Prisma.StockMovementCreateNestedManyWithoutActorInput
+  recallNotices?: Prisma.RecallNoticeCreateNestedManyWithoutUserInput
+  sellerCoupons?: Prisma.CouponCreateNestedManyWithoutSellerInput
+  addresses?: Prisma.AddressCreateNestedManyWithoutUserInput
+  interactionOverrides?: Prisma.InteractionOverrideCreateNestedManyWithoutUserInput
+  importJobs?: Prisma.ImportJobCreateNestedManyWithoutSellerInput
+  sellerApplication?: Prisma.SellerApplicationCreateNestedOneWithoutUserInput
+  sellerProfile?: Prisma.SellerProfileCreateNestedOneWithoutUserInput
+  ledgerEntries?: Prisma.SellerLedgerEntryCreateNestedManyWithoutSellerInput
+  payoutRequests?: Prisma.PayoutRequestCreateNestedManyWithoutSellerInput
+}
+
+export type UserUncheckedCreateWithoutCommissionRateInput = {
+  id?: string
+  name: string
+  email: string
+  password?: string | null
+  emailVerified?: boolean
+  image?: string | null
+  phone?: string | null
+  role?: $Enums.UserRole
+  status?: $Enums.UserStatus
+  banReason?: string | null
+  banExpires?: Date | string | null
+  currency?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput
+  accounts?: Prisma.AccountUncheckedCreateNestedManyWithoutUserInput
+  cart?: Prisma.CartUncheckedCreateNestedOneWithoutUserInput
+  sellerMedicines?: Prisma.MedicineUncheckedCreateNestedManyWithoutSellerInput
+  orders?: Prisma.OrderUncheckedCreateNestedManyWithoutUserInput
+  sellerShipments?: Prisma.ShipmentUncheckedCreateNestedManyWithoutSellerInput
+  reviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutUserInput
+  prescriptions?: Prisma.PrescriptionUncheckedCreateNestedManyWithoutUserInput
+  payments?: Prisma.PaymentUncheckedCreateNestedManyWithoutUserInput
+  returnRequests?: Prisma.ReturnRequestUncheckedCreateNestedManyWithoutUserInput
+  stockMovements?: Prisma.StockMovementUncheckedCreateNestedManyWithoutActorInput
+  recallNotices?: Prisma.RecallNoticeUncheckedCreateNestedManyWithoutUserInput
+  sellerCoupons?: Prisma.CouponUncheckedCreateNestedManyWithoutSellerInput
+  addresses?: Prisma.AddressUncheckedCreateNestedManyWithoutUserInput
+  interactionOverrides?: Prisma.InteractionOverrideUncheckedCreateNestedManyWithoutUserInput
+  importJobs?: Prisma.ImportJobUncheckedCreateNestedManyWithoutSellerInput
+  sellerApplication?: Prisma.SellerApplicationUncheckedCreateNestedOneWithoutUserInput
+  sellerProfile?: Prisma.SellerProfileUncheckedCreateNestedOneWithoutUserInput
+  ledgerEntries?: Prisma.SellerLedgerEntryUncheckedCreateNestedManyWithoutSellerInput
+  payoutRequests?: Prisma.PayoutRequestUncheckedCreateNestedManyWithoutSellerInput
+}
+
+export type UserCreateOrConnectWithoutCommissionRateInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutCommissionRateInput, Prisma.UserUncheckedCreateWithoutCommissionRateInput>
+}
+
+export type UserUpsertWithoutCommissionRateInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutCommissionRateInput, Prisma.UserUncheckedUpdateWithoutCommissionRateInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutCommissionRateInput, Prisma.UserUncheckedCreateWithoutCommissionRateInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutCommissionRateInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutCommissionRateInput, Prisma.UserUncheckedUpdateWithoutCommissionRateInput>
+}
+
+export type UserUpdateWithoutCommissionRateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  password?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  emailVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  image?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  status?: Prisma.EnumUserStatusFieldUpdateOperationsInput | $Enums.UserStatus
+  banReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  banExpires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput
+  accounts?: Prisma.AccountUpdateManyWithoutUserNestedInput
+  cart?: Prisma.CartUpdateOneWithoutUserNestedInput
+  sellerMedicines?: Prisma.MedicineUpdateManyWithoutSellerNestedInput
+  orders?: Prisma.OrderUpdateManyWithoutUserNestedInput
+  sellerShipments?: Prisma.ShipmentUpdateManyWithoutSellerNestedInput
+  reviews?: Prisma.ReviewUpdateManyWithoutUserNestedInput
+  prescriptions?: Prisma.PrescriptionUpdateManyWithoutUserNestedInput
+  payments?: Prisma.PaymentUpdateManyWithoutUserNestedInput
+  returnRequests?: Prisma.ReturnRequestUpdateManyWithoutUserNestedInput
+  stockMovements?: Prisma.StockMovementUpdateManyWithoutActorNestedInput
+  recallNotices?: Prisma.RecallNoticeUpdateManyWithoutUserNestedInput
+  sellerCoupons?: Prisma.CouponUpdateManyWithoutSellerNestedInput
+  addresses?: Prisma.AddressUpdateManyWithoutUserNestedInput
+  interactionOverrides?: Prisma.InteractionOverrideUpdateManyWithoutUserNestedInput
+  importJobs?: Prisma.ImportJobUpdateManyWithoutSellerNestedInput
+  sellerApplication?: Prisma.SellerApplicationUpdateOneWithoutUserNestedInput
+  sellerProfile?: Prisma.SellerProfileUpdateOneWithoutUserNestedInput
+  ledgerEntries?: Prisma.SellerLedgerEntryUpdateManyWithoutSellerNestedInput
+  payoutRequests?: Prisma.PayoutRequestUpdateManyWithoutSellerNestedInput
+}
+
+export type UserUncheckedUpdateWithoutCommissionRateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  password?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  emailVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  image?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  status?: Prisma.EnumUserStatusFieldUpdateOperationsInput | $Enums.UserStatus
+  banReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  banExpires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput
+  accounts?: Prisma.AccountUncheckedUpdateManyWithoutUserNestedInput
+  cart?: Prisma.CartUncheckedUpdateOneWithoutUserNestedInput
+  sellerMedicines?: Prisma.MedicineUncheckedUpdateManyWithoutSellerNestedInput
+  orders?: Prisma.OrderUncheckedUpdateManyWithoutUserNestedInput
+  sellerShipments?: Prisma.ShipmentUncheckedUpdateManyWithoutSellerNestedInput
+  reviews?: Prisma.ReviewUncheckedUpdateManyWithoutUserNestedInput
+  prescriptions?: Prisma.PrescriptionUncheckedUpdateManyWithoutUserNestedInput
+  payments?: Prisma.PaymentUncheckedUpdateManyWithoutUserNestedInput
+  returnRequests?: Prisma.ReturnRequestUncheckedUpdateManyWithoutUserNestedInput
+  stockMovements?: Prisma.StockMovementUncheckedUpdateManyWithoutActorNestedInput
+  recallNotices?: Prisma.RecallNoticeUncheckedUpdateManyWithoutUserNestedInput
+  sellerCoupons?: Prisma.CouponUncheckedUpdateManyWithoutSellerNestedInput
+  addresses?: Prisma.AddressUncheckedUpdateManyWithoutUserNestedInput
+  interactionOverrides?: Prisma.InteractionOverrideUncheckedUpdateManyWithoutUserNestedInput
+  importJobs?: Prisma.ImportJobUncheckedUpdateManyWithoutSellerNestedInput
+  sellerApplication?: Prisma.SellerApplicationUncheckedUpdateOneWithoutUserNestedInput
+  sellerProfile?: Prisma.SellerProfileUncheckedUpdateOneWithoutUserNestedInput
+  ledgerEntries?: Prisma.SellerLedgerEntryUncheckedUpdateManyWithoutSellerNestedInput
+  payoutRequests?: Prisma.PayoutRequestUncheckedUpdateManyWithoutSellerNestedInput
+}
+
+export type UserCreateWithoutLedgerEntriesInput = {
+  id?: string
+  name: string
+  email: string
+  password?: string | null
+  emailVerified?: boolean
+  image?: string | null
+  phone?: string | null
+  role?: $Enums.UserRole
+  status?: $Enums.UserStatus
+  banReason?: string | null
+  banExpires?: Date | string | null
+  currency?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  sessions?: Prisma.SessionCreateNestedManyWithoutUserInput
+  accounts?: Prisma.AccountCreateNestedManyWithoutUserInput
+  cart?: Prisma.CartCreateNestedOneWithoutUserInput
+  sellerMedicines?: Prisma.MedicineCreateNestedManyWithoutSellerInput
+  orders?: Prisma.OrderCreateNestedManyWithoutUserInput
+  sellerShipments?: Prisma.ShipmentCreateNestedManyWithoutSellerInput
+  reviews?: Prisma.ReviewCreateNestedManyWithoutUserInput
+  prescriptions?: Prisma.PrescriptionCreateNestedManyWithoutUserInput
+  payments?: Prisma.PaymentCreateNestedManyWithoutUserInput
+  returnRequests?: Prisma.ReturnRequestCreateNestedManyWithoutUserInput
+  stockMovements?: Prisma.StockMovementCreateNestedManyWithoutActorInput
+  recallNotices?: Prisma.RecallNoticeCreateNestedManyWithoutUserInput
+  sellerCoupons?: Prisma.CouponCreateNestedManyWithoutSellerInput
+  addresses?: Prisma.AddressCreateNestedManyWithoutUserInput
+  interactionOverrides?: Prisma.InteractionOverrideCreateNestedManyWithoutUserInput
+  importJobs?: Prisma.ImportJobCreateNestedManyWithoutSellerInput
+  sellerApplication?: Prisma.SellerApplicationCreateNestedOneWithoutUserInput
+  sellerProfile?: Prisma.SellerProfileCreateNestedOneWithoutUserInput
+  commissionRate?: Prisma.CommissionRateCreateNestedOneWithoutSellerInput
+  payoutRequests?: Prisma.PayoutRequestCreateNestedManyWithoutSellerInput
+}
+
+export type UserUncheckedCreateWithoutLedgerEntriesInput = {
+  id?: string
+  name: string
+  email: string
+  password?: string | null
+  emailVerified?: boolean
+  image?: string | null
+  phone?: string | null
+  role?: $Enums.UserRole
+  status?: $Enums.UserStatus
+  banReason?: string | null
+  banExpires?: Date | string | null
+  currency?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput
+  accounts?: Prisma.AccountUncheckedCreateNestedManyWithoutUserInput
+  cart?: Prisma.CartUncheckedCreateNestedOneWithoutUserInput
+  sellerMedicines?: Prisma.MedicineUncheckedCreateNestedManyWithoutSellerInput
+  orders?: Prisma.OrderUncheckedCreateNestedManyWithoutUserInput
+  sellerShipments?: Prisma.ShipmentUncheckedCreateNestedManyWithoutSellerInput
+  reviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutUserInput
+  prescriptions?: Prisma.PrescriptionUncheckedCreateNestedManyWithoutUserInput
+  payments?: Prisma.PaymentUncheckedCreateNestedManyWithoutUserInput
+  returnRequests?: Prisma.ReturnRequestUncheckedCreateNestedManyWithoutUserInput
+  stockMovements?: Prisma.StockMovementUncheckedCreateNestedManyWithoutActorInput
+  recallNotices?: Prisma.RecallNoticeUncheckedCreateNestedManyWithoutUserInput
+  sellerCoupons?: Prisma.CouponUncheckedCreateNestedManyWithoutSellerInput
+  addresses?: Prisma.AddressUncheckedCreateNestedManyWithoutUserInput
+  interactionOverrides?: Prisma.InteractionOverrideUncheckedCreateNestedManyWithoutUserInput
+  importJobs?: Prisma.ImportJobUncheckedCreateNestedManyWithoutSellerInput
+  sellerApplication?: Prisma.SellerApplicationUncheckedCreateNestedOneWithoutUserInput
+  sellerProfile?: Prisma.SellerProfileUncheckedCreateNestedOneWithoutUserInput
+  commissionRate?: Prisma.CommissionRateUncheckedCreateNestedOneWithoutSellerInput
+  payoutRequests?: Prisma.PayoutRequestUncheckedCreateNestedManyWithoutSellerInput
+}
+
+export type UserCreateOrConnectWithoutLedgerEntriesInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutLedgerEntriesInput, Prisma.UserUncheckedCreateWithoutLedgerEntriesInput>
+}
+
+export type UserUpsertWithoutLedgerEntriesInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutLedgerEntriesInput, Prisma.UserUncheckedUpdateWithoutLedgerEntriesInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutLedgerEntriesInput, Prisma.UserUncheckedCreateWithoutLedgerEntriesInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutLedgerEntriesInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutLedgerEntriesInput, Prisma.UserUncheckedUpdateWithoutLedgerEntriesInput>
+}
+
+export type UserUpdateWithoutLedgerEntriesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  password?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  emailVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  image?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  status?: Prisma.EnumUserStatusFieldUpdateOperationsInput | $Enums.UserStatus
+  banReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  banExpires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput
+  accounts?: Prisma.AccountUpdateManyWithoutUserNestedInput
+  cart?: Prisma.CartUpdateOneWithoutUserNestedInput
+  sellerMedicines?: Prisma.MedicineUpdateManyWithoutSellerNestedInput
+  orders?: Prisma.OrderUpdateManyWithoutUserNestedInput
+  sellerShipments?: Prisma.ShipmentUpdateManyWithoutSellerNestedInput
+  reviews?: Prisma.ReviewUpdateManyWithoutUserNestedInput
+  prescriptions?: Prisma.PrescriptionUpdateManyWithoutUserNestedInput
+  payments?: Prisma.PaymentUpdateManyWithoutUserNestedInput
+  returnRequests?: Prisma.ReturnRequestUpdateManyWithoutUserNestedInput
+  stockMovements?: Prisma.StockMovementUpdateManyWithoutActorNestedInput
+  recallNotices?: Prisma.RecallNoticeUpdateManyWithoutUserNestedInput
+  sellerCoupons?: Prisma.CouponUpdateManyWithoutSellerNestedInput
+  addresses?: Prisma.AddressUpdateManyWithoutUserNestedInput
+  interactionOverrides?: Prisma.InteractionOverrideUpdateManyWithoutUserNestedInput
+  importJobs?: Prisma.ImportJobUpdateManyWithoutSellerNestedInput
+  sellerApplication?: Prisma.SellerApplicationUpdateOneWithoutUserNestedInput
+  sellerProfile?: Prisma.SellerProfileUpdateOneWithoutUserNestedInput
+  commissionRate?: Prisma.CommissionRateUpdateOneWithoutSellerNestedInput
+  payoutRequests?: Prisma.PayoutRequestUpdateManyWithoutSellerNestedInput
+}
+
+export type UserUncheckedUpdateWithoutLedgerEntriesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  password?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  emailVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  image?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  status?: Prisma.EnumUserStatusFieldUpdateOperationsInput | $Enums.UserStatus
+  banReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  banExpires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput
+  accounts?: Prisma.AccountUncheckedUpdateManyWithoutUserNestedInput
+  cart?: Prisma.CartUncheckedUpdateOneWithoutUserNestedInput
+  sellerMedicines?: Prisma.MedicineUncheckedUpdateManyWithoutSellerNestedInput
+  orders?: Prisma.OrderUncheckedUpdateManyWithoutUserNestedInput
+  sellerShipments?: Prisma.ShipmentUncheckedUpdateManyWithoutSellerNestedInput
+  reviews?: Prisma.ReviewUncheckedUpdateManyWithoutUserNestedInput
+  prescriptions?: Prisma.PrescriptionUncheckedUpdateManyWithoutUserNestedInput
+  payments?: Prisma.PaymentUncheckedUpdateManyWithoutUserNestedInput
+  returnRequests?: Prisma.ReturnRequestUncheckedUpdateManyWithoutUserNestedInput
+  stockMovements?: Prisma.StockMovementUncheckedUpdateManyWithoutActorNestedInput
+  recallNotices?: Prisma.RecallNoticeUncheckedUpdateManyWithoutUserNestedInput
+  sellerCoupons?: Prisma.CouponUncheckedUpdateManyWithoutSellerNestedInput
+  addresses?: Prisma.AddressUncheckedUpdateManyWithoutUserNestedInput
+  interactionOverrides?: Prisma.InteractionOverrideUncheckedUpdateManyWithoutUserNestedInput
+  importJobs?: Prisma.ImportJobUncheckedUpdateManyWithoutSellerNestedInput
+  sellerApplication?: Prisma.SellerApplicationUncheckedUpdateOneWithoutUserNestedInput
+  sellerProfile?: Prisma.SellerProfileUncheckedUpdateOneWithoutUserNestedInput
+  commissionRate?: Prisma.CommissionRateUncheckedUpdateOneWithoutSellerNestedInput
+  payoutRequests?: Prisma.PayoutRequestUncheckedUpdateManyWithoutSellerNestedInput
+}
+
+export type UserCreateWithoutPayoutRequestsInput = {
+  id?: string
+  name: string
+  email: string
+  password?: string | null
+  emailVerified?: boolean
+  image?: string | null
+  phone?: string | null
+  role?: $Enums.UserRole
+  status?: $Enums.UserStatus
+  banReason?: string | null
+  banExpires?: Date | string | null
+  currency?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  sessions?: Prisma.SessionCreateNestedManyWithoutUserInput
+  accounts?: Prisma.AccountCreateNestedManyWithoutUserInput
+  cart?: Prisma.CartCreateNestedOneWithoutUserInput
+  sellerMedicines?: Prisma.MedicineCreateNestedManyWithoutSellerInput
+  orders?: Prisma.OrderCreateNestedManyWithoutUserInput
+  sellerShipments?: Prisma.ShipmentCreateNestedManyWithoutSellerInput
+  reviews?: Prisma.ReviewCreateNestedManyWithoutUserInput
+  prescriptions?: Prisma.PrescriptionCreateNestedManyWithoutUserInput
+  payments?: Prisma.PaymentCreateNestedManyWithoutUserInput
+  returnRequests?: Prisma.ReturnRequestCreateNestedManyWithoutUserInput
+  stockMovements?: Prisma.StockMovementCreateNestedManyWithoutActorInput
+  recallNotices?: Prisma.RecallNoticeCreateNestedManyWithoutUserInput
+  sellerCoupons?: Prisma.CouponCreateNestedManyWithoutSellerInput
+  addresses?: Prisma.AddressCreateNestedManyWithoutUserInput
+  interactionOverrides?: Prisma.InteractionOverrideCreateNestedManyWithoutUserInput
+  importJobs?: Prisma.ImportJobCreateNestedManyWithoutSellerInput
+  sellerApplication?: Prisma.SellerApplicationCreateNestedOneWithoutUserInput
+  sellerProfile?: Prisma.SellerProfileCreateNestedOneWithoutUserInput
+  commissionRate?: Prisma.CommissionRateCreateNestedOneWithoutSellerInput
+  ledgerEntries?: Prisma.SellerLedgerEntryCreateNestedManyWithoutSellerInput
+}
+
+export type UserUncheckedCreateWithoutPayoutRequestsInput = {
+  id?: string
+  name: string
+  email: string
+  password?: string | null
+  emailVerified?: boolean
+  image?: string | null
+  phone?: string | null
+  role?: $Enums.UserRole
+  status?: $Enums.UserStatus
+  banReason?: string | null
+  banExpires?: Date | string | null
+  currency?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput
+  accounts?: Prisma.AccountUncheckedCreateNestedManyWithoutUserInput
+  cart?: Prisma.CartUncheckedCreateNestedOneWithoutUserInput
+  sellerMedicines?: Prisma.MedicineUncheckedCreateNestedManyWithoutSellerInput
+  orders?: Prisma.OrderUncheckedCreateNestedManyWithoutUserInput
+  sellerShipments?: Prisma.ShipmentUncheckedCreateNestedManyWithoutSellerInput
+  reviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutUserInput
+  prescriptions?: Prisma.PrescriptionUncheckedCreateNestedManyWithoutUserInput
+  payments?: Prisma.PaymentUncheckedCreateNestedManyWithoutUserInput
+  returnRequests?: Prisma.ReturnRequestUncheckedCreateNestedManyWithoutUserInput
+  stockMovements?: Prisma.StockMovementUncheckedCreateNestedManyWithoutActorInput
+  recallNotices?: Prisma.RecallNoticeUncheckedCreateNestedManyWithoutUserInput
+  sellerCoupons?: Prisma.CouponUncheckedCreateNestedManyWithoutSellerInput
+  addresses?: Prisma.AddressUncheckedCreateNestedManyWithoutUserInput
+  interactionOverrides?: Prisma.InteractionOverrideUncheckedCreateNestedManyWithoutUserInput
+  importJobs?: Prisma.ImportJobUncheckedCreateNestedManyWithoutSellerInput
+  sellerApplication?: Prisma.SellerApplicationUncheckedCreateNestedOneWithoutUserInput
+  sellerProfile?: Prisma.SellerProfileUncheckedCreateNestedOneWithoutUserInput
+  commissionRate?: Prisma.CommissionRateUncheckedCreateNestedOneWithoutSellerInput
+  ledgerEntries?: Prisma.SellerLedgerEntryUncheckedCreateNestedManyWithoutSellerInput
+}
+
+export type UserCreateOrConnectWithoutPayoutRequestsInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutPayoutRequestsInput, Prisma.UserUncheckedCreateWithoutPayoutRequestsInput>
+}
+
+export type UserUpsertWithoutPayoutRequestsInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutPayoutRequestsInput, Prisma.UserUncheckedUpdateWithoutPayoutRequestsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutPayoutRequestsInput, Prisma.UserUncheckedCreateWithoutPayoutRequestsInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutPayoutRequestsInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutPayoutRequestsInput, Prisma.UserUncheckedUpdateWithoutPayoutRequestsInput>
+}
+
+export type UserUpdateWithoutPayoutRequestsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  password?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  emailVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  image?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  status?: Prisma.EnumUserStatusFieldUpdateOperationsInput | $Enums.UserStatus
+  banReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  banExpires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput
+  accounts?: Prisma.AccountUpdateManyWithoutUserNestedInput
+  cart?: Prisma.CartUpdateOneWithoutUserNestedInput
+  sellerMedicines?: Prisma.MedicineUpdateManyWithoutSellerNestedInput
+  orders?: Prisma.OrderUpdateManyWithoutUserNestedInput
+  sellerShipments?: Prisma.ShipmentUpdateManyWithoutSellerNestedInput
+  reviews?: Prisma.ReviewUpdateManyWithoutUserNestedInput
+  prescriptions?: Prisma.PrescriptionUpdateManyWithoutUserNestedInput
+  payments?: Prisma.PaymentUpdateManyWithoutUserNestedInput
+  returnRequests?: Prisma.ReturnRequestUpdateManyWithoutUserNestedInput
+  stockMovements?: Prisma.StockMovementUpdateManyWithoutActorNestedInput
+  recallNotices?: Prisma.RecallNoticeUpdateManyWithoutUserNestedInput
+  sellerCoupons?: Prisma.CouponUpdateManyWithoutSellerNestedInput
+  addresses?: Prisma.AddressUpdateManyWithoutUserNestedInput
+  interactionOverrides?: Prisma.InteractionOverrideUpdateManyWithoutUserNestedInput
+  importJobs?: Prisma.ImportJobUpdateManyWithoutSellerNestedInput
+  sellerApplication?: Prisma.SellerApplicationUpdateOneWithoutUserNestedInput
+  sellerProfile?: Prisma.SellerProfileUpdateOneWithoutUserNestedInput
+  commissionRate?: Prisma.CommissionRateUpdateOneWithoutSellerNestedInput
+  ledgerEntries?: Prisma.SellerLedgerEntryUpdateManyWithoutSellerNestedInput
+}
+
+export type UserUncheckedUpdateWithoutPayoutRequestsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  password?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  emailVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  image?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  status?: Prisma.EnumUserStatusFieldUpdateOperationsInput | $Enums.UserStatus
+  banReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  banExpires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput
+  accounts?: Prisma.AccountUncheckedUpdateManyWithoutUserNestedInput
+  cart?: Prisma.CartUncheckedUpdateOneWithoutUserNestedInput
+  sellerMedicines?: Prisma.MedicineUncheckedUpdateManyWithoutSellerNestedInput
+  orders?: Prisma.OrderUncheckedUpdateManyWithoutUserNestedInput
+  sellerShipments?: Prisma.ShipmentUncheckedUpdateManyWithoutSellerNestedInput
+  reviews?: Prisma.ReviewUncheckedUpdateManyWithoutUserNestedInput
+  prescriptions?: Prisma.PrescriptionUncheckedUpdateManyWithoutUserNestedInput
+  payments?: Prisma.PaymentUncheckedUpdateManyWithoutUserNestedInput
+  returnRequests?: Prisma.ReturnRequestUncheckedUpdateManyWithoutUserNestedInput
+  stockMovements?: Prisma.StockMovementUncheckedUpdateManyWithoutActorNestedInput
+  recallNotices?: Prisma.RecallNoticeUncheckedUpdateManyWithoutUserNestedInput
+  sellerCoupons?: Prisma.CouponUncheckedUpdateManyWithoutSellerNestedInput
+  addresses?: Prisma.AddressUncheckedUpdateManyWithoutUserNestedInput
+  interactionOverrides?: Prisma.InteractionOverrideUncheckedUpdateManyWithoutUserNestedInput
+  importJobs?: Prisma.ImportJobUncheckedUpdateManyWithoutSellerNestedInput
+  sellerApplication?: Prisma.SellerApplicationUncheckedUpdateOneWithoutUserNestedInput
+  sellerProfile?: Prisma.SellerProfileUncheckedUpdateOneWithoutUserNestedInput
+  commissionRate?: Prisma.CommissionRateUncheckedUpdateOneWithoutSellerNestedInput
+  ledgerEntries?: Prisma.SellerLedgerEntryUncheckedUpdateManyWithoutSellerNestedInput
+}
+
+export type UserCreateWithoutPrescriptionsInput = {
+  id?: string
+  name: string
+  email: string
+  password?: string | null
+  emailVerified?: boolean
+  image?: string | null
+  phone?: string | null
+  role?: $Enums.UserRole
+  status?: $Enums.UserStatus
+  banReason?: string | null
+  banExpires?: Date | string | null
+  currency?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  sessions?: Prisma.SessionCreateNestedManyWithoutUserInput
+  accounts?: Prisma.AccountCreateNestedManyWithoutUserInput
+  cart?: Prisma.CartCreateNestedOneWithoutUserInput
+  sellerMedicines?: Prisma.MedicineCreateNestedManyWithoutSellerInput
+  orders?: Prisma.OrderCreateNestedManyWithoutUserInput
+  sellerShipments?: Prisma.ShipmentCreateNestedManyWithoutSellerInput
+  reviews?: Prisma.ReviewCreateNestedManyWithoutUserInput
+  payments?: Prisma.PaymentCreateNestedManyWithoutUserInput
+  returnRequests?: Prisma.ReturnRequestCreateNestedManyWithoutUserInput
+  stockMovements?: Prisma.StockMovementCreateNestedManyWithoutActorInput
+  recallNotices?: Prisma.RecallNoticeCreateNestedManyWithoutUserInput
+  sellerCoupons?: Prisma.CouponCreateNestedManyWithoutSellerInput
+  addresses?: Prisma.AddressCreateNestedManyWithoutUserInput
+  interactionOverrides?: Prisma.InteractionOverrideCreateNestedManyWithoutUserInput
+  importJobs?: Prisma.ImportJobCreateNestedManyWithoutSellerInput
+  sellerApplication?: Prisma.SellerApplicationCreateNestedOneWithoutUserInput
+  sellerProfile?: Prisma.SellerProfileCreateNestedOneWithoutUserInput
+  commissionRate?: Prisma.CommissionRateCreateNestedOneWithoutSellerInput
+  ledgerEntries?: Prisma.SellerLedgerEntryCreateNestedManyWithoutSellerInput
+  payoutRequests?: Prisma.PayoutRequestCreateNestedManyWithoutSellerInput
+}
+
+export type UserUncheckedCreateWithoutPrescriptionsInput = {
+  id?: string
+  name: string
+  email: string
+  password?: string | null
+  emailVerified?: boolean
+  image?: string | null
+  phone?: string | null
+  role?: $Enums.UserRole
+  status?: $Enums.UserStatus
+  banReason?: string | null
+  banExpires?: Date | string | null
+  currency?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput
+  accounts?: Prisma.AccountUncheckedCreateNestedManyWithoutUserInput
+  cart?: Prisma.CartUncheckedCreateNestedOneWithoutUserInput
+  sellerMedicines?: Prisma.MedicineUncheckedCreateNestedManyWithoutSellerInput
+  orders?: Prisma.OrderUncheckedCreateNestedManyWithoutUserInput
+  sellerShipments?: Prisma.ShipmentUncheckedCreateNestedManyWithoutSellerInput
+  reviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutUserInput
+  payments?: Prisma.PaymentUncheckedCreateNestedManyWithoutUserInput
+  returnRequests?: Prisma.ReturnRequestUncheckedCreateNestedManyWithoutUserInput
+  stockMovements?: Prisma.StockMovementUncheckedCreateNestedManyWithoutActorInput
+  recallNotices?: Prisma.RecallNoticeUncheckedCreateNestedManyWithoutUserInput
+  sellerCoupons?: Prisma.CouponUncheckedCreateNestedManyWithoutSellerInput
+  addresses?: Prisma.AddressUncheckedCreateNestedManyWithoutUserInput
+  interactionOverrides?: Prisma.InteractionOverrideUncheckedCreateNestedManyWithoutUserInput
+  importJobs?: Prisma.ImportJobUncheckedCreateNestedManyWithoutSellerInput
+  sellerApplication?: Prisma.SellerApplicationUncheckedCreateNestedOneWithoutUserInput
+  sellerProfile?: Prisma.SellerProfileUncheckedCreateNestedOneWithoutUserInput
+  commissionRate?: Prisma.CommissionRateUncheckedCreateNestedOneWithoutSellerInput
+  ledgerEntries?: Prisma.SellerLedgerEntryUncheckedCreateNestedManyWithoutSellerInput
+  payoutRequests?: Prisma.PayoutRequestUncheckedCreateNestedManyWithoutSellerInput
+}
+
+export type UserCreateOrConnectWithoutPrescriptionsInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutPrescriptionsInput, Prisma.UserUncheckedCreateWithoutPrescriptionsInput>
+}
+
+export type UserUpsertWithoutPrescriptionsInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutPrescriptionsInput, Prisma.UserUncheckedUpdateWithoutPrescriptionsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutPrescriptionsInput, Prisma.UserUncheckedCreateWithoutPrescriptionsInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutPrescriptionsInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutPrescriptionsInput, Prisma.UserUncheckedUpdateWithoutPrescriptionsInput>
+}
+
+export type UserUpdateWithoutPrescriptionsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  password?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  emailVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  image?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  status?: Prisma.EnumUserStatusFieldUpdateOperationsInput | $Enums.UserStatus
+  banReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  banExpires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput
+  accounts?: Prisma.AccountUpdateManyWithoutUserNestedInput
+  cart?: Prisma.CartUpdateOneWithoutUserNestedInput
+  sellerMedicines?: Prisma.MedicineUpdateManyWithoutSellerNestedInput
+  orders?: Prisma.OrderUpdateManyWithoutUserNestedInput
+  sellerShipments?: Prisma.ShipmentUpdateManyWithoutSellerNestedInput
+  reviews?: Prisma.ReviewUpdateManyWithoutUserNestedInput
+  payments?: Prisma.PaymentUpdateManyWithoutUserNestedInput
+  returnRequests?: Prisma.ReturnRequestUpdateManyWithoutUserNestedInput
+  stockMovements?: Prisma.StockMovementUpdateManyWithoutActorNestedInput
+  recallNotices?: Prisma.RecallNoticeUpdateManyWithoutUserNestedInput
+  sellerCoupons?: Prisma.CouponUpdateManyWithoutSellerNestedInput
+  addresses?: Prisma.AddressUpdateManyWithoutUserNestedInput
+  interactionOverrides?: Prisma.InteractionOverrideUpdateManyWithoutUserNestedInput
+  importJobs?: Prisma.ImportJobUpdateManyWithoutSellerNestedInput
+  sellerApplication?: Prisma.SellerApplicationUpdateOneWithoutUserNestedInput
+  sellerProfile?: Prisma.SellerProfileUpdateOneWithoutUserNestedInput
+  commissionRate?: Prisma.CommissionRateUpdateOneWithoutSellerNestedInput
+  ledgerEntries?: Prisma.SellerLedgerEntryUpdateManyWithoutSellerNestedInput
+  payoutRequests?: Prisma.PayoutRequestUpdateManyWithoutSellerNestedInput
+}
+
+export type UserUncheckedUpdateWithoutPrescriptionsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  password?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  emailVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  image?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  status?: Prisma.EnumUserStatusFieldUpdateOperationsInput | $Enums.UserStatus
+  banReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  banExpires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput
+  accounts?: Prisma.AccountUncheckedUpdateManyWithoutUserNestedInput
+  cart?: Prisma.CartUncheckedUpdateOneWithoutUserNestedInput
+  sellerMedicines?: Prisma.MedicineUncheckedUpdateManyWithoutSellerNestedInput
+  orders?: Prisma.OrderUncheckedUpdateManyWithoutUserNestedInput
+  sellerShipments?: Prisma.ShipmentUncheckedUpdateManyWithoutSellerNestedInput
+  reviews?: Prisma.ReviewUncheckedUpdateManyWithoutUserNestedInput
+  payments?: Prisma.PaymentUncheckedUpdateManyWithoutUserNestedInput
+  returnRequests?: Prisma.ReturnRequestUncheckedUpdateManyWithoutUserNestedInput
+  stockMovements?: Prisma.StockMovementUncheckedUpdateManyWithoutActorNestedInput
+  recallNotices?: Prisma.RecallNoticeUncheckedUpdateManyWithoutUserNestedInput
+  sellerCoupons?: Prisma.CouponUncheckedUpdateManyWithoutSellerNestedInput
+  addresses?: Prisma.AddressUncheckedUpdateManyWithoutUserNestedInput
+  interactionOverrides?: Prisma.InteractionOverrideUncheckedUpdateManyWithoutUserNestedInput
+  importJobs?: Prisma.ImportJobUncheckedUpdateManyWithoutSellerNestedInput
+  sellerApplication?: Prisma.SellerApplicationUncheckedUpdateOneWithoutUserNestedInput
+  sellerProfile?: Prisma.SellerProfileUncheckedUpdateOneWithoutUserNestedInput
+  commissionRate?: Prisma.CommissionRateUncheckedUpdateOneWithoutSellerNestedInput
+  ledgerEntries?: Prisma.SellerLedgerEntryUncheckedUpdateManyWithoutSellerNestedInput
+  payoutRequests?: Prisma.PayoutRequestUncheckedUpdateManyWithoutSellerNestedInput
+}
+
+export type UserCreateWithoutRecallNoticesInput = {
+  id?: string
+  name: string
+  email: string
+  password?: string | null
+  emailVerified?: boolean
+  image?: string | null
+  phone?: string | null
+  role?: $Enums.UserRole
+  status?: $Enums.UserStatus
+  banReason?: string | null
+  banExpires?: Date | string | null
+  currency?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  sessions?: Prisma.SessionCreateNestedManyWithoutUserInput
+  accounts?: Prisma.AccountCreateNestedManyWithoutUserInput
+  cart?: Prisma.CartCreateNestedOneWithoutUserInput
+  sellerMedicines?: Prisma.MedicineCreateNestedManyWithoutSellerInput
+  orders?: Prisma.OrderCreateNestedManyWithoutUserInput
+  sellerShipments?: Prisma.ShipmentCreateNestedManyWithoutSellerInput
+  reviews?: Prisma.ReviewCreateNestedManyWithoutUserInput
+  prescriptions?: Prisma.PrescriptionCreateNestedManyWithoutUserInput
+  payments?: Prisma.PaymentCreateNestedManyWithoutUserInput
+  returnRequests?: Prisma.ReturnRequestCreateNestedManyWithoutUserInput
+  stockMovements?: Prisma.StockMovementCreateNestedManyWithoutActorInput
+  sellerCoupons?: Prisma.CouponCreateNestedManyWithoutSellerInput
+  addresses?: Prisma.AddressCreateNestedManyWithoutUserInput
+  interactionOverrides?: Prisma.InteractionOverrideCreateNestedManyWithoutUserInput
+  importJobs?: Prisma.ImportJobCreateNestedManyWithoutSellerInput
+  sellerApplication?: Prisma.SellerApplicationCreateNestedOneWithoutUserInput
+  sellerProfile?: Prisma.SellerProfileCreateNestedOneWithoutUserInput
+  commissionRate?: Prisma.CommissionRateCreateNestedOneWithoutSellerInput
+  ledgerEntries?: Prisma.SellerLedgerEntryCreateNestedManyWithoutSellerInput
+  payoutRequests?: Prisma.PayoutRequestCreateNestedManyWithoutSellerInput
+}
+
+export type UserUncheckedCreateWithoutRecallNoticesInput = {
+  id?: string
+  name: string
+  email: string
+  password?: string | null
+  emailVerified?: boolean
+  image?: string | null
+  phone?: string | null
+  role?: $Enums.UserRole
+  status?: $Enums.UserStatus
+  banReason?: string | null
+  banExpires?: Date | string | null
+  currency?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput
+  accounts?: Prisma.AccountUncheckedCreateNestedManyWithoutUserInput
+  cart?: Prisma.CartUncheckedCreateNestedOneWithoutUserInput
+  sellerMedicines?: Prisma.MedicineUncheckedCreateNestedManyWithoutSellerInput
+  orders?: Prisma.OrderUncheckedCreateNestedManyWithoutUserInput
+  sellerShipments?: Prisma.ShipmentUncheckedCreateNestedManyWithoutSellerInput
+  reviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutUserInput
+  prescriptions?: Prisma.PrescriptionUncheckedCreateNestedManyWithoutUserInput
+  payments?: Prisma.PaymentUncheckedCreateNestedManyWithoutUserInput
+  returnRequests?: Prisma.ReturnRequestUncheckedCreateNestedManyWithoutUserInput
+  stockMovements?: Prisma.StockMovementUncheckedCreateNestedManyWithoutActorInput
+  sellerCoupons?: Prisma.CouponUncheckedCreateNestedManyWithoutSellerInput
+  addresses?: Prisma.AddressUncheckedCreateNestedManyWithoutUserInput
+  interactionOverrides?: Prisma.InteractionOverrideUncheckedCreateNestedManyWithoutUserInput
+  importJobs?: Prisma.ImportJobUncheckedCreateNestedManyWithoutSellerInput
+  sellerApplication?: Prisma.SellerApplicationUncheckedCreateNestedOneWithoutUserInput
+  sellerProfile?: Prisma.SellerProfileUncheckedCreateNestedOneWithoutUserInput
+  commissionRate?: Prisma.CommissionRateUncheckedCreateNestedOneWithoutSellerInput
+  ledgerEntries?: Prisma.SellerLedgerEntryUncheckedCreateNestedManyWithoutSellerInput
+  payoutRequests?: Prisma.PayoutRequestUncheckedCreateNestedManyWithoutSellerInput
+}
+
+export type UserCreateOrConnectWithoutRecallNoticesInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutRecallNoticesInput, Prisma.UserUncheckedCreateWithoutRecallNoticesInput>
+}
+
+export type UserUpsertWithoutRecallNoticesInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutRecallNoticesInput, Prisma.UserUncheckedUpdateWithoutRecallNoticesInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutRecallNoticesInput, Prisma.UserUncheckedCreateWithoutRecallNoticesInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutRecallNoticesInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutRecallNoticesInput, Prisma.UserUncheckedUpdateWithoutRecallNoticesInput>
+}
+
+export type UserUpdateWithoutRecallNoticesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  password?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  emailVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  image?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  status?: Prisma.EnumUserStatusFieldUpdateOperationsInput | $Enums.UserStatus
+  banReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  banExpires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput
+  accounts?: Prisma.AccountUpdateManyWithoutUserNestedInput
+  cart?: Prisma.CartUpdateOneWithoutUserNestedInput
+  sellerMedicines?: Prisma.MedicineUpdateManyWithoutSellerNestedInput
+  orders?: Prisma.OrderUpdateManyWithoutUserNestedInput
+  sellerShipments?: Prisma.ShipmentUpdateManyWithoutSellerNestedInput
+  reviews?: Prisma.ReviewUpdateManyWithoutUserNestedInput
+  prescriptions?: Prisma.PrescriptionUpdateManyWithoutUserNestedInput
+  payments?: Prisma.PaymentUpdateManyWithoutUserNestedInput
+  returnRequests?: Prisma.ReturnRequestUpdateManyWithoutUserNestedInput
+  stockMovements?: Prisma.StockMovementUpdateManyWithoutActorNestedInput
+  sellerCoupons?: Prisma.CouponUpdateManyWithoutSellerNestedInput
+  addresses?: Prisma.AddressUpdateManyWithoutUserNestedInput
+  interactionOverrides?: Prisma.InteractionOverrideUpdateManyWithoutUserNestedInput
+  importJobs?: Prisma.ImportJobUpdateManyWithoutSellerNestedInput
+  sellerApplication?: Prisma.SellerApplicationUpdateOneWithoutUserNestedInput
+  sellerProfile?: Prisma.SellerProfileUpdateOneWithoutUserNestedInput
+  commissionRate?: Prisma.CommissionRateUpdateOneWithoutSellerNestedInput
+  ledgerEntries?: Prisma.SellerLedgerEntryUpdateManyWithoutSellerNestedInput
+  payoutRequests?: Prisma.PayoutRequestUpdateManyWithoutSellerNestedInput
+}
+
+export type UserUncheckedUpdateWithoutRecallNoticesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  password?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  emailVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  image?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  status?: Prisma.EnumUserStatusFieldUpdateOperationsInput | $Enums.UserStatus
+  banReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  banExpires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput
+  accounts?: Prisma.AccountUncheckedUpdateManyWithoutUserNestedInput
+  cart?: Prisma.CartUncheckedUpdateOneWithoutUserNestedInput
+  sellerMedicines?: Prisma.MedicineUncheckedUpdateManyWithoutSellerNestedInput
+  orders?: Prisma.OrderUncheckedUpdateManyWithoutUserNestedInput
+  sellerShipments?: Prisma.ShipmentUncheckedUpdateManyWithoutSellerNestedInput
+  reviews?: Prisma.ReviewUncheckedUpdateManyWithoutUserNestedInput
+  prescriptions?: Prisma.PrescriptionUncheckedUpdateManyWithoutUserNestedInput
+  payments?: Prisma.PaymentUncheckedUpdateManyWithoutUserNestedInput
+  returnRequests?: Prisma.ReturnRequestUncheckedUpdateManyWithoutUserNestedInput
+  stockMovements?: Prisma.StockMovementUncheckedUpdateManyWithoutActorNestedInput
+  sellerCoupons?: Prisma.CouponUncheckedUpdateManyWithoutSellerNestedInput
+  addresses?: Prisma.AddressUncheckedUpdateManyWithoutUserNestedInput
+  interactionOverrides?: Prisma.InteractionOverrideUncheckedUpdateManyWithoutUserNestedInput
+  importJobs?: Prisma.ImportJobUncheckedUpdateManyWithoutSellerNestedInput
+  sellerApplication?: Prisma.SellerApplicationUncheckedUpdateOneWithoutUserNestedInput
+  sellerProfile?: Prisma.SellerProfileUncheckedUpdateOneWithoutUserNestedInput
+  commissionRate?: Prisma.CommissionRateUncheckedUpdateOneWithoutSellerNestedInput
+  ledgerEntries?: Prisma.SellerLedgerEntryUncheckedUpdateManyWithoutSellerNestedInput
+  payoutRequests?: Prisma.PayoutRequestUncheckedUpdateManyWithoutSellerNestedInput
+}
+
+export type UserCreateWithoutReturnRequestsInput = {
+  id?: string
+  name: string
+  email: string
+  password?: string | null
+  emailVerified?: boolean
+  image?: string | null
+  phone?: string | null
+  role?: $Enums.UserRole
+  status?: $Enums.UserStatus
+  banReason?: string | null
+  banExpires?: Date | string | null
+  currency?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  sessions?: Prisma.SessionCreateNestedManyWithoutUserInput
+  accounts?: Prisma.AccountCreateNestedManyWithoutUserInput
+  cart?: Prisma.CartCreateNestedOneWithoutUserInput
+  sellerMedicines?: Prisma.MedicineCreateNestedManyWithoutSellerInput
+  orders?: Prisma.OrderCreateNestedManyWithoutUserInput
+  sellerShipments?: Prisma.ShipmentCreateNestedManyWithoutSellerInput
+  reviews?: Prisma.ReviewCreateNestedManyWithoutUserInput
+  prescriptions?: Prisma.PrescriptionCreateNestedManyWithoutUserInput
+  payments?: Prisma.PaymentCreateNestedManyWithoutUserInput
+  stockMovements?: Prisma.StockMovementCreateNestedManyWithoutActorInput
+  recallNotices?: Prisma.RecallNoticeCreateNestedManyWithoutUserInput
+  sellerCoupons?: Prisma.CouponCreateNestedManyWithoutSellerInput
+  addresses?: Prisma.AddressCreateNestedManyWithoutUserInput
+  interactionOverrides?: Prisma.InteractionOverrideCreateNestedManyWithoutUserInput
+  importJobs?: Prisma.ImportJobCreateNestedManyWithoutSellerInput
+  sellerApplication?: Prisma.SellerApplicationCreateNestedOneWithoutUserInput
+  sellerProfile?: Prisma.SellerProfileCreateNestedOneWithoutUserInput
+  commissionRate?: Prisma.CommissionRateCreateNestedOneWithoutSellerInput
+  ledgerEntries?: Prisma.SellerLedgerEntryCreateNestedManyWithoutSellerInput
+  payoutRequests?: Prisma.PayoutRequestCreateNestedManyWithoutSellerInput
+}
+
+export type UserUncheckedCreateWithoutReturnRequestsInput = {
+  id?: string
+  name: string
+  email: string
+  password?: string | null
+  emailVerified?: boolean
+  image?: string | null
+  phone?: string | null
+  role?: $Enums.UserRole
+  status?: $Enums.UserStatus
+  banReason?: string | null
+  banExpires?: Date | string | null
+  currency?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput
+  accounts?: Prisma.AccountUncheckedCreateNestedManyWithoutUserInput
+  cart?: Prisma.CartUncheckedCreateNestedOneWithoutUserInput
+  sellerMedicines?: Prisma.MedicineUncheckedCreateNestedManyWithoutSellerInput
+  orders?: Prisma.OrderUncheckedCreateNestedManyWithoutUserInput
+  sellerShipments?: Prisma.ShipmentUncheckedCreateNestedManyWithoutSellerInput
+  reviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutUserInput
+  prescriptions?: Prisma.PrescriptionUncheckedCreateNestedManyWithoutUserInput
+  payments?: Prisma.PaymentUncheckedCreateNestedManyWithoutUserInput
+  stockMovements?: Prisma.StockMovementUncheckedCreateNestedManyWithoutActorInput
+  recallNotices?: Prisma.RecallNoticeUncheckedCreateNestedManyWithoutUserInput
+  sellerCoupons?: Prisma.CouponUncheckedCreateNestedManyWithoutSellerInput
+  addresses?: Prisma.AddressUncheckedCreateNestedManyWithoutUserInput
+  interactionOverrides?: Prisma.InteractionOverrideUncheckedCreateNestedManyWithoutUserInput
+  importJobs?: Prisma.ImportJobUncheckedCreateNestedManyWithoutSellerInput
+  sellerApplication?: Prisma.SellerApplicationUncheckedCreateNestedOneWithoutUserInput
+  sellerProfile?: Prisma.SellerProfileUncheckedCreateNestedOneWithoutUserInput
+  commissionRate?: Prisma.CommissionRateUncheckedCreateNestedOneWithoutSellerInput
+  ledgerEntries?: Prisma.SellerLedgerEntryUncheckedCreateNestedManyWithoutSellerInput
+  payoutRequests?: Prisma.PayoutRequestUncheckedCreateNestedManyWithoutSellerInput
+}
+
+export type UserCreateOrConnectWithoutReturnRequestsInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutReturnRequestsInput, Prisma.UserUncheckedCreateWithoutReturnRequestsInput>
+}
+
+export type UserUpsertWithoutReturnRequestsInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutReturnRequestsInput, Prisma.UserUncheckedUpdateWithoutReturnRequestsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutReturnRequestsInput, Prisma.UserUncheckedCreateWithoutReturnRequestsInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutReturnRequestsInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutReturnRequestsInput, Prisma.UserUncheckedUpdateWithoutReturnRequestsInput>
+}
+
+export type UserUpdateWithoutReturnRequestsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  password?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  emailVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  image?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  status?: Prisma.EnumUserStatusFieldUpdateOperationsInput | $Enums.UserStatus
+  banReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  banExpires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput
+  accounts?: Prisma.AccountUpdateManyWithoutUserNestedInput
+  cart?: Prisma.CartUpdateOneWithoutUserNestedInput
+  sellerMedicines?: Prisma.MedicineUpdateManyWithoutSellerNestedInput
+  orders?: Prisma.OrderUpdateManyWithoutUserNestedInput
+  sellerShipments?: Prisma.ShipmentUpdateManyWithoutSellerNestedInput
+  reviews?: Prisma.ReviewUpdateManyWithoutUserNestedInput
+  prescriptions?: Prisma.PrescriptionUpdateManyWithoutUserNestedInput
+  payments?: Prisma.PaymentUpdateManyWithoutUserNestedInput
+  stockMovements?: Prisma.StockMovementUpdateManyWithoutActorNestedInput
+  recallNotices?: Prisma.RecallNoticeUpdateManyWithoutUserNestedInput
+  sellerCoupons?: Prisma.CouponUpdateManyWithoutSellerNestedInput
+  addresses?: Prisma.AddressUpdateManyWithoutUserNestedInput
+  interactionOverrides?: Prisma.InteractionOverrideUpdateManyWithoutUserNestedInput
+  importJobs?: Prisma.ImportJobUpdateManyWithoutSellerNestedInput
+  sellerApplication?: Prisma.SellerApplicationUpdateOneWithoutUserNestedInput
+  sellerProfile?: Prisma.SellerProfileUpdateOneWithoutUserNestedInput
+  commissionRate?: Prisma.CommissionRateUpdateOneWithoutSellerNestedInput
+  ledgerEntries?: Prisma.SellerLedgerEntryUpdateManyWithoutSellerNestedInput
+  payoutRequests?: Prisma.PayoutRequestUpdateManyWithoutSellerNestedInput
+}
+
+export type UserUncheckedUpdateWithoutReturnRequestsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  password?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  emailVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  image?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  status?: Prisma.EnumUserStatusFieldUpdateOperationsInput | $Enums.UserStatus
+  banReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  banExpires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput
+  accounts?: Prisma.AccountUncheckedUpdateManyWithoutUserNestedInput
+  cart?: Prisma.CartUncheckedUpdateOneWithoutUserNestedInput
+  sellerMedicines?: Prisma.MedicineUncheckedUpdateManyWithoutSellerNestedInput
+  orders?: Prisma.OrderUncheckedUpdateManyWithoutUserNestedInput
+  sellerShipments?: Prisma.ShipmentUncheckedUpdateManyWithoutSellerNestedInput
+  reviews?: Prisma.ReviewUncheckedUpdateManyWithoutUserNestedInput
+  prescriptions?: Prisma.PrescriptionUncheckedUpdateManyWithoutUserNestedInput
+  payments?: Prisma.PaymentUncheckedUpdateManyWithoutUserNestedInput
+  stockMovements?: Prisma.StockMovementUncheckedUpdateManyWithoutActorNestedInput
+  recallNotices?: Prisma.RecallNoticeUncheckedUpdateManyWithoutUserNestedInput
+  sellerCoupons?: Prisma.CouponUncheckedUpdateManyWithoutSellerNestedInput
+  addresses?: Prisma.AddressUncheckedUpdateManyWithoutUserNestedInput
+  interactionOverrides?: Prisma.InteractionOverrideUncheckedUpdateManyWithoutUserNestedInput
+  importJobs?: Prisma.ImportJobUncheckedUpdateManyWithoutSellerNestedInput
+  sellerApplication?: Prisma.SellerApplicationUncheckedUpdateOneWithoutUserNestedInput
+  sellerProfile?: Prisma.SellerProfileUncheckedUpdateOneWithoutUserNestedInput
+  commissionRate?: Prisma.CommissionRateUncheckedUpdateOneWithoutSellerNestedInput
+  ledgerEntries?: Prisma.SellerLedgerEntryUncheckedUpdateManyWithoutSellerNestedInput
+  payoutRequests?: Prisma.PayoutRequestUncheckedUpdateManyWithoutSellerNestedInput
+}
+
+export type UserCreateWithoutReviewsInput = {
+  id?: string
+  name: string
+  email: string
+  password?: string | null
+  emailVerified?: boolean
+  image?: string | null
+  phone?: string | null
+  role?: $Enums.UserRole
+  status?: $Enums.UserStatus
+  banReason?: string | null
+  banExpires?: Date | string | null
+  currency?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  sessions?: Prisma.SessionCreateNestedManyWithoutUserInput
+  accounts?: Prisma.AccountCreateNestedManyWithoutUserInput
+  cart?: Prisma.CartCreateNestedOneWithoutUserInput
+  sellerMedicines?: Prisma.MedicineCreateNestedManyWithoutSellerInput
+  orders?: Prisma.OrderCreateNestedManyWithoutUserInput
+  sellerShipments?: Prisma.ShipmentCreateNestedManyWithoutSellerInput
+  prescriptions?: Prisma.PrescriptionCreateNestedManyWithoutUserInput
+  payments?: Prisma.PaymentCreateNestedManyWithoutUserInput
+  returnRequests?: Prisma.ReturnRequestCreateNestedManyWithoutUserInput
+  stockMovements?: Prisma.StockMovementCreateNestedManyWithoutActorInput
+  recallNotices?: Prisma.RecallNoticeCreateNestedManyWithoutUserInput
+  sellerCoupons?: Prisma.CouponCreateNestedManyWithoutSellerInput
+  addresses?: Prisma.AddressCreateNestedManyWithoutUserInput
+  interactionOverrides?: Prisma.InteractionOverrideCreateNestedManyWithoutUserInput
+  importJobs?: Prisma.ImportJobCreateNestedManyWithoutSellerInput
+  sellerApplication?: Prisma.SellerApplicationCreateNestedOneWithoutUserInput
+  sellerProfile?: Prisma.SellerProfileCreateNestedOneWithoutUserInput
+  commissionRate?: Prisma.CommissionRateCreateNestedOneWithoutSellerInput
+  ledgerEntries?: Prisma.SellerLedgerEntryCreateNestedManyWithoutSellerInput
+  payoutRequests?: Prisma.PayoutRequestCreateNestedManyWithoutSellerInput
+}
+
+export type UserUncheckedCreateWithoutReviewsInput = {
+  id?: string
+  name: string
+  email: string
+  password?: string | null
+  emailVerified?: boolean
+  image?: string | null
+  phone?: string | null
+  role?: $Enums.UserRole
+  status?: $Enums.UserStatus
+  banReason?: string | null
+  banExpires?: Date | string | null
+  currency?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput
+  accounts?: Prisma.AccountUncheckedCreateNestedManyWithoutUserInput
+  cart?: Prisma.CartUncheckedCreateNestedOneWithoutUserInput
+  sellerMedicines?: Prisma.MedicineUncheckedCreateNestedManyWithoutSellerInput
+  orders?: Prisma.OrderUncheckedCreateNestedManyWithoutUserInput
+  sellerShipments?: Prisma.ShipmentUncheckedCreateNestedManyWithoutSellerInput
+  prescriptions?: Prisma.PrescriptionUncheckedCreateNestedManyWithoutUserInput
+  payments?: Prisma.PaymentUncheckedCreateNestedManyWithoutUserInput
+  returnRequests?: Prisma.ReturnRequestUncheckedCreateNestedManyWithoutUserInput
+  stockMovements?: Prisma.StockMovementUncheckedCreateNestedManyWithoutActorInput
+  recallNotices?: Prisma.RecallNoticeUncheckedCreateNestedManyWithoutUserInput
+  sellerCoupons?: Prisma.CouponUncheckedCreateNestedManyWithoutSellerInput
+  addresses?: Prisma.AddressUncheckedCreateNestedManyWithoutUserInput
+  interactionOverrides?: Prisma.InteractionOverrideUncheckedCreateNestedManyWithoutUserInput
+  importJobs?: Prisma.ImportJobUncheckedCreateNestedManyWithoutSellerInput
+  sellerApplication?: Prisma.SellerApplicationUncheckedCreateNestedOneWithoutUserInput
+  sellerProfile?: Prisma.SellerProfileUncheckedCreateNestedOneWithoutUserInput
+  commissionRate?: Prisma.CommissionRateUncheckedCreateNestedOneWithoutSellerInput
+  ledgerEntries?: Prisma.SellerLedgerEntryUncheckedCreateNestedManyWithoutSellerInput
+  payoutRequests?: Prisma.PayoutRequestUncheckedCreateNestedManyWithoutSellerInput
+}
+
+export type UserCreateOrConnectWithoutReviewsInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutReviewsInput, Prisma.UserUncheckedCreateWithoutReviewsInput>
+}
+
+export type UserUpsertWithoutReviewsInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutReviewsInput, Prisma.UserUncheckedUpdateWithoutReviewsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutReviewsInput, Prisma.UserUncheckedCreateWithoutReviewsInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutReviewsInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutReviewsInput, Prisma.UserUncheckedUpdateWithoutReviewsInput>
+}
+
+export type UserUpdateWithoutReviewsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  password?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  emailVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  image?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  status?: Prisma.EnumUserStatusFieldUpdateOperationsInput | $Enums.UserStatus
+  banReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  banExpires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput
+  accounts?: Prisma.AccountUpdateManyWithoutUserNestedInput
+  cart?: Prisma.CartUpdateOneWithoutUserNestedInput
+  sellerMedicines?: Prisma.MedicineUpdateManyWithoutSellerNestedInput
+  orders?: Prisma.OrderUpdateManyWithoutUserNestedInput
+  sellerShipments?: Prisma.ShipmentUpdateManyWithoutSellerNestedInput
+  prescriptions?: Prisma.PrescriptionUpdateManyWithoutUserNestedInput
+  payments?: Prisma.PaymentUpdateManyWithoutUserNestedInput
+  returnRequests?: Prisma.ReturnRequestUpdateManyWithoutUserNestedInput
+  stockMovements?: Prisma.StockMovementUpdateManyWithoutActorNestedInput
+  recallNotices?: Prisma.RecallNoticeUpdateManyWithoutUserNestedInput
+  sellerCoupons?: Prisma.CouponUpdateManyWithoutSellerNestedInput
+  addresses?: Prisma.AddressUpdateManyWithoutUserNestedInput
+  interactionOverrides?: Prisma.InteractionOverrideUpdateManyWithoutUserNestedInput
+  importJobs?: Prisma.ImportJobUpdateManyWithoutSellerNestedInput
+  sellerApplication?: Prisma.SellerApplicationUpdateOneWithoutUserNestedInput
+  sellerProfile?: Prisma.SellerProfileUpdateOneWithoutUserNestedInput
+  commissionRate?: Prisma.CommissionRateUpdateOneWithoutSellerNestedInput
+  ledgerEntries?: Prisma.SellerLedgerEntryUpdateManyWithoutSellerNestedInput
+  payoutRequests?: Prisma.PayoutRequestUpdateManyWithoutSellerNestedInput
+}
+
+export type UserUncheckedUpdateWithoutReviewsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  password?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  emailVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  image?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  status?: Prisma.EnumUserStatusFieldUpdateOperationsInput | $Enums.UserStatus
+  banReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  banExpires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput
+  accounts?: Prisma.AccountUncheckedUpdateManyWithoutUserNestedInput
+  cart?: Prisma.CartUncheckedUpdateOneWithoutUserNestedInput
+  sellerMedicines?: Prisma.MedicineUncheckedUpdateManyWithoutSellerNestedInput
+  orders?: Prisma.OrderUncheckedUpdateManyWithoutUserNestedInput
+  sellerShipments?: Prisma.ShipmentUncheckedUpdateManyWithoutSellerNestedInput
+  prescriptions?: Prisma.PrescriptionUncheckedUpdateManyWithoutUserNestedInput
+  payments?: Prisma.PaymentUncheckedUpdateManyWithoutUserNestedInput
+  returnRequests?: Prisma.ReturnRequestUncheckedUpdateManyWithoutUserNestedInput
+  stockMovements?: Prisma.StockMovementUncheckedUpdateManyWithoutActorNestedInput
+  recallNotices?: Prisma.RecallNoticeUncheckedUpdateManyWithoutUserNestedInput
+  sellerCoupons?: Prisma.CouponUncheckedUpdateManyWithoutSellerNestedInput
+  addresses?: Prisma.AddressUncheckedUpdateManyWithoutUserNestedInput
+  interactionOverrides?: Prisma.InteractionOverrideUncheckedUpdateManyWithoutUserNestedInput
+  importJobs?: Prisma.ImportJobUncheckedUpdateManyWithoutSellerNestedInput
+  sellerApplication?: Prisma.SellerApplicationUncheckedUpdateOneWithoutUserNestedInput
+  sellerProfile?: Prisma.SellerProfileUncheckedUpdateOneWithoutUserNestedInput
+  commissionRate?: Prisma.CommissionRateUncheckedUpdateOneWithoutSellerNestedInput
+  ledgerEntries?: Prisma.SellerLedgerEntryUncheckedUpdateManyWithoutSellerNestedInput
+  payoutRequests?: Prisma.PayoutRequestUncheckedUpdateManyWithoutSellerNestedInput
+}
+
+export type UserCreateWithoutSellerApplicationInput = {
+  id?: string
+  name: string
+  email: string
+  password?: string | null
+  emailVerified?: boolean
+  image?: string | null
+  phone?: string | null
+  role?: $Enums.UserRole
+  status?: $Enums.UserStatus
+  banReason?: string | null
+  banExpires?: Date | string | null
+  currency?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  sessions?: Prisma.SessionCreateNestedManyWithoutUserInput
+  accounts?: Prisma.AccountCreateNestedManyWithoutUserInput
+  cart?: Prisma.CartCreateNestedOneWithoutUserInput
+  sellerMedicines?: Prisma.MedicineCreateNestedManyWithoutSellerInput
+  orders?: Prisma.OrderCreateNestedManyWithoutUserInput
+  sellerShipments?: Prisma.ShipmentCreateNestedManyWithoutSellerInput
+  reviews?: Prisma.ReviewCreateNestedManyWithoutUserInput
+  prescriptions?: Prisma.PrescriptionCreateNestedManyWithoutUserInput
+  payments?: Prisma.PaymentCreateNestedManyWithoutUserInput
+  returnRequests?: Prisma.ReturnRequestCreateNestedManyWithoutUserInput
+  stockMovements?: Prisma.StockMovementCreateNestedManyWithoutActorInput
+  recallNotices?: Prisma.RecallNoticeCreateNestedManyWithoutUserInput
+  sellerCoupons?: Prisma.CouponCreateNestedManyWithoutSellerInput
+  addresses?: Prisma.AddressCreateNestedManyWithoutUserInput
+  interactionOverrides?: Prisma.InteractionOverrideCreateNestedManyWithoutUserInput
+  importJobs?: Prisma.ImportJobCreateNestedManyWithoutSellerInput
+  sellerProfile?: Prisma.SellerProfileCreateNestedOneWithoutUserInput
+  commissionRate?: Prisma.CommissionRateCreateNestedOneWithoutSellerInput
+  ledgerEntries?: Prisma.SellerLedgerEntryCreateNestedManyWithoutSellerInput
+  payoutRequests?: Prisma.PayoutRequestCreateNestedManyWithoutSellerInput
+}
+
+export type UserUncheckedCreateWithoutSellerApplicationInput = {
+  id?: string
+  name: string
+  email: string
+  password?: string | null
+  emailVerified?: boolean
+  image?: string | null
+  phone?: string | null
+  role?: $Enums.UserRole
+  status?: $Enums.UserStatus
+  banReason?: string | null
+  banExpires?: Date | string | null
+  currency?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput
+  accounts?: Prisma.AccountUncheckedCreateNestedManyWithoutUserInput
+  cart?: Prisma.CartUncheckedCreateNestedOneWithoutUserInput
+  sellerMedicines?: Prisma.MedicineUncheckedCreateNestedManyWithoutSellerInput
+  orders?: Prisma.OrderUncheckedCreateNestedManyWithoutUserInput
+  sellerShipments?: Prisma.ShipmentUncheckedCreateNestedManyWithoutSellerInput
+  reviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutUserInput
+  prescriptions?: Prisma.PrescriptionUncheckedCreateNestedManyWithoutUserInput
+  payments?: Prisma.PaymentUncheckedCreateNestedManyWithoutUserInput
+  returnRequests?: Prisma.ReturnRequestUncheckedCreateNestedManyWithoutUserInput
+  stockMovements?: Prisma.StockMovementUncheckedCreateNestedManyWithoutActorInput
+  recallNotices?: Prisma.RecallNoticeUncheckedCreateNestedManyWithoutUserInput
+  sellerCoupons?: Prisma.CouponUncheckedCreateNestedManyWithoutSellerInput
+  addresses?: Prisma.AddressUncheckedCreateNestedManyWithoutUserInput
+  interactionOverrides?: Prisma.InteractionOverrideUncheckedCreateNestedManyWithoutUserInput
+  importJobs?: Prisma.ImportJobUncheckedCreateNestedManyWithoutSellerInput
+  sellerProfile?: Prisma.SellerProfileUncheckedCreateNestedOneWithoutUserInput
+  commissionRate?: Prisma.CommissionRateUncheckedCreateNestedOneWithoutSellerInput
+  ledgerEntries?: Prisma.SellerLedgerEntryUncheckedCreateNestedManyWithoutSellerInput
+  payoutRequests?: Prisma.PayoutRequestUncheckedCreateNestedManyWithoutSellerInput
+}
+
+export type UserCreateOrConnectWithoutSellerApplicationInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutSellerApplicationInput, Prisma.UserUncheckedCreateWithoutSellerApplicationInput>
+}
+
+export type UserUpsertWithoutSellerApplicationInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutSellerApplicationInput, Prisma.UserUncheckedUpdateWithoutSellerApplicationInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutSellerApplicationInput, Prisma.UserUncheckedCreateWithoutSellerApplicationInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutSellerApplicationInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutSellerApplicationInput, Prisma.UserUncheckedUpdateWithoutSellerApplicationInput>
+}
+
+export type UserUpdateWithoutSellerApplicationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  password?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  emailVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  image?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  status?: Prisma.EnumUserStatusFieldUpdateOperationsInput | $Enums.UserStatus
+  banReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  banExpires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput
+  accounts?: Prisma.AccountUpdateManyWithoutUserNestedInput
+  cart?: Prisma.CartUpdateOneWithoutUserNestedInput
+  sellerMedicines?: Prisma.MedicineUpdateManyWithoutSellerNestedInput
+  orders?: Prisma.OrderUpdateManyWithoutUserNestedInput
+  sellerShipments?: Prisma.ShipmentUpdateManyWithoutSellerNestedInput
+  reviews?: Prisma.ReviewUpdateManyWithoutUserNestedInput
+  prescriptions?: Prisma.PrescriptionUpdateManyWithoutUserNestedInput
+  payments?: Prisma.PaymentUpdateManyWithoutUserNestedInput
+  returnRequests?: Prisma.ReturnRequestUpdateManyWithoutUserNestedInput
+  stockMovements?: Prisma.StockMovementUpdateManyWithoutActorNestedInput
+  recallNotices?: Prisma.RecallNoticeUpdateManyWithoutUserNestedInput
+  sellerCoupons?: Prisma.CouponUpdateManyWithoutSellerNestedInput
+  addresses?: Prisma.AddressUpdateManyWithoutUserNestedInput
+  interactionOverrides?: Prisma.InteractionOverrideUpdateManyWithoutUserNestedInput
+  importJobs?: Prisma.ImportJobUpdateManyWithoutSellerNestedInput
+  sellerProfile?: Prisma.SellerProfileUpdateOneWithoutUserNestedInput
+  commissionRate?: Prisma.CommissionRateUpdateOneWithoutSellerNestedInput
+  ledgerEntries?: Prisma.SellerLedgerEntryUpdateManyWithoutSellerNestedInput
+  payoutRequests?: Prisma.PayoutRequestUpdateManyWithoutSellerNestedInput
+}
+
+export type UserUncheckedUpdateWithoutSellerApplicationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  password?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  emailVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  image?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  status?: Prisma.EnumUserStatusFieldUpdateOperationsInput | $Enums.UserStatus
+  banReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  banExpires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput
+  accounts?: Prisma.AccountUncheckedUpdateManyWithoutUserNestedInput
+  cart?: Prisma.CartUncheckedUpdateOneWithoutUserNestedInput
+  sellerMedicines?: Prisma.MedicineUncheckedUpdateManyWithoutSellerNestedInput
+  orders?: Prisma.OrderUncheckedUpdateManyWithoutUserNestedInput
+  sellerShipments?: Prisma.ShipmentUncheckedUpdateManyWithoutSellerNestedInput
+  reviews?: Prisma.ReviewUncheckedUpdateManyWithoutUserNestedInput
+  prescriptions?: Prisma.PrescriptionUncheckedUpdateManyWithoutUserNestedInput
+  payments?: Prisma.PaymentUncheckedUpdateManyWithoutUserNestedInput
+  returnRequests?: Prisma.ReturnRequestUncheckedUpdateManyWithoutUserNestedInput
+  stockMovements?: Prisma.StockMovementUncheckedUpdateManyWithoutActorNestedInput
+  recallNotices?: Prisma.RecallNoticeUncheckedUpdateManyWithoutUserNestedInput
+  sellerCoupons?: Prisma.CouponUncheckedUpdateManyWithoutSellerNestedInput
+  addresses?: Prisma.AddressUncheckedUpdateManyWithoutUserNestedInput
+  interactionOverrides?: Prisma.InteractionOverrideUncheckedUpdateManyWithoutUserNestedInput
+  importJobs?: Prisma.ImportJobUncheckedUpdateManyWithoutSellerNestedInput
+  sellerProfile?: Prisma.SellerProfileUncheckedUpdateOneWithoutUserNestedInput
+  commissionRate?: Prisma.CommissionRateUncheckedUpdateOneWithoutSellerNestedInput
+  ledgerEntries?: Prisma.SellerLedgerEntryUncheckedUpdateManyWithoutSellerNestedInput
+  payoutRequests?: Prisma.PayoutRequestUncheckedUpdateManyWithoutSellerNestedInput
+}
+
+export type UserCreateWithoutSellerProfileInput = {
+  id?: string
+  name: string
+  email: string
+  password?: string | null
+  emailVerified?: boolean
+  image?: string | null
+  phone?: string | null
+  role?: $Enums.UserRole
+  status?: $Enums.UserStatus
+  banReason?: string | null
+  banExpires?: Date | string | null
+  currency?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  sessions?: Prisma.SessionCreateNestedManyWithoutUserInput
+  accounts?: Prisma.AccountCreateNestedManyWithoutUserInput
+  cart?: Prisma.CartCreateNestedOneWithoutUserInput
+  sellerMedicines?: Prisma.MedicineCreateNestedManyWithoutSellerInput
+  orders?: Prisma.OrderCreateNestedManyWithoutUserInput
+  sellerShipments?: Prisma.ShipmentCreateNestedManyWithoutSellerInput
+  reviews?: Prisma.ReviewCreateNestedManyWithoutUserInput
+  prescriptions?: Prisma.PrescriptionCreateNestedManyWithoutUserInput
+  payments?: Prisma.PaymentCreateNestedManyWithoutUserInput
+  returnRequests?: Prisma.ReturnRequestCreateNestedManyWithoutUserInput
+  stockMovements?: Prisma.StockMovementCreateNestedManyWithoutActorInput
+  recallNotices?: Prisma.RecallNoticeCreateNestedManyWithoutUserInput
+  sellerCoupons?: Prisma.CouponCreateNestedManyWithoutSellerInput
+  addresses?: Prisma.AddressCreateNestedManyWithoutUserInput
+  interactionOverrides?: Prisma.InteractionOverrideCreateNestedManyWithoutUserInput
+  importJobs?: Prisma.ImportJobCreateNestedManyWithoutSellerInput
+  sellerApplication?: Prisma.SellerApplicationCreateNestedOneWithoutUserInput
+  commissionRate?: Prisma.CommissionRateCreateNestedOneWithoutSellerInput
+  ledgerEntries?: Prisma.SellerLedgerEntryCreateNestedManyWithoutSellerInput
+  payoutRequests?: Prisma.PayoutRequestCreateNestedManyWithoutSellerInput
+}
+
+export type UserUncheckedCreateWithoutSellerProfileInput = {
+  id?: string
+  name: string
+  email: string
+  password?: string | null
+  emailVerified?: boolean
+  image?: string | null
+  phone?: string | null
+  role?: $Enums.UserRole
+  status?: $Enums.UserStatus
+  banReason?: string | null
+  banExpires?: Date | string | null
+  currency?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput
+  accounts?: Prisma.AccountUncheckedCreateNestedManyWithoutUserInput
+  cart?: Prisma.CartUncheckedCreateNestedOneWithoutUserInput
+  sellerMedicines?: Prisma.MedicineUncheckedCreateNestedManyWithoutSellerInput
+  orders?: Prisma.OrderUncheckedCreateNestedManyWithoutUserInput
+  sellerShipments?: Prisma.ShipmentUncheckedCreateNestedManyWithoutSellerInput
+  reviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutUserInput
+  prescriptions?: Prisma.PrescriptionUncheckedCreateNestedManyWithoutUserInput
+  payments?: Prisma.PaymentUncheckedCreateNestedManyWithoutUserInput
+  returnRequests?: Prisma.ReturnRequestUncheckedCreateNestedManyWithoutUserInput
+  stockMovements?: Prisma.StockMovementUncheckedCreateNestedManyWithoutActorInput
+  recallNotices?: Prisma.RecallNoticeUncheckedCreateNestedManyWithoutUserInput
+  sellerCoupons?: Prisma.CouponUncheckedCreateNestedManyWithoutSellerInput
+  addresses?: Prisma.AddressUncheckedCreateNestedManyWithoutUserInput
+  interactionOverrides?: Prisma.InteractionOverrideUncheckedCreateNestedManyWithoutUserInput
+  importJobs?: Prisma.ImportJobUncheckedCreateNestedManyWithoutSellerInput
+  sellerApplication?: Prisma.SellerApplicationUncheckedCreateNestedOneWithoutUserInput
+  commissionRate?: Prisma.CommissionRateUncheckedCreateNestedOneWithoutSellerInput
+  ledgerEntries?: Prisma.SellerLedgerEntryUncheckedCreateNestedManyWithoutSellerInput
+  payoutRequests?: Prisma.PayoutRequestUncheckedCreateNestedManyWithoutSellerInput
+}
+
+export type UserCreateOrConnectWithoutSellerProfileInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutSellerProfileInput, Prisma.UserUncheckedCreateWithoutSellerProfileInput>
+}
+
+export type UserUpsertWithoutSellerProfileInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutSellerProfileInput, Prisma.UserUncheckedUpdateWithoutSellerProfileInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutSellerProfileInput, Prisma.UserUncheckedCreateWithoutSellerProfileInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutSellerProfileInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutSellerProfileInput, Prisma.UserUncheckedUpdateWithoutSellerProfileInput>
+}
+
+export type UserUpdateWithoutSellerProfileInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  password?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  emailVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  image?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  status?: Prisma.EnumUserStatusFieldUpdateOperationsInput | $Enums.UserStatus
+  banReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  banExpires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput
+  accounts?: Prisma.AccountUpdateManyWithoutUserNestedInput
+  cart?: Prisma.CartUpdateOneWithoutUserNestedInput
+  sellerMedicines?: Prisma.MedicineUpdateManyWithoutSellerNestedInput
+  orders?: Prisma.OrderUpdateManyWithoutUserNestedInput
+  sellerShipments?: Prisma.ShipmentUpdateManyWithoutSellerNestedInput
+  reviews?: Prisma.ReviewUpdateManyWithoutUserNestedInput
+  prescriptions?: Prisma.PrescriptionUpdateManyWithoutUserNestedInput
+  payments?: Prisma.PaymentUpdateManyWithoutUserNestedInput
+  returnRequests?: Prisma.ReturnRequestUpdateManyWithoutUserNestedInput
+  stockMovements?: Prisma.StockMovementUpdateManyWithoutActorNestedInput
+  recallNotices?: Prisma.RecallNoticeUpdateManyWithoutUserNestedInput
+  sellerCoupons?: Prisma.CouponUpdateManyWithoutSellerNestedInput
+  addresses?: Prisma.AddressUpdateManyWithoutUserNestedInput
+  interactionOverrides?: Prisma.InteractionOverrideUpdateManyWithoutUserNestedInput
+  importJobs?: Prisma.ImportJobUpdateManyWithoutSellerNestedInput
+  sellerApplication?: Prisma.SellerApplicationUpdateOneWithoutUserNestedInput
+  commissionRate?: Prisma.CommissionRateUpdateOneWithoutSellerNestedInput
+  ledgerEntries?: Prisma.SellerLedgerEntryUpdateManyWithoutSellerNestedInput
+  payoutRequests?: Prisma.PayoutRequestUpdateManyWithoutSellerNestedInput
+}
+
+export type UserUncheckedUpdateWithoutSellerProfileInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  password?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  emailVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  image?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  status?: Prisma.EnumUserStatusFieldUpdateOperationsInput | $Enums.UserStatus
+  banReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  banExpires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput
+  accounts?: Prisma.AccountUncheckedUpdateManyWithoutUserNestedInput
+  cart?: Prisma.CartUncheckedUpdateOneWithoutUserNestedInput
+  sellerMedicines?: Prisma.MedicineUncheckedUpdateManyWithoutSellerNestedInput
+  orders?: Prisma.OrderUncheckedUpdateManyWithoutUserNestedInput
+  sellerShipments?: Prisma.ShipmentUncheckedUpdateManyWithoutSellerNestedInput
+  reviews?: Prisma.ReviewUncheckedUpdateManyWithoutUserNestedInput
+  prescriptions?: Prisma.PrescriptionUncheckedUpdateManyWithoutUserNestedInput
+  payments?: Prisma.PaymentUncheckedUpdateManyWithoutUserNestedInput
+  returnRequests?: Prisma.ReturnRequestUncheckedUpdateManyWithoutUserNestedInput
+  stockMovements?: Prisma.StockMovementUncheckedUpdateManyWithoutActorNestedInput
+  recallNotices?: Prisma.RecallNoticeUncheckedUpdateManyWithoutUserNestedInput
+  sellerCoupons?: Prisma.CouponUncheckedUpdateManyWithoutSellerNestedInput
+  addresses?: Prisma.AddressUncheckedUpdateManyWithoutUserNestedInput
+  interactionOverrides?: Prisma.InteractionOverrideUncheckedUpdateManyWithoutUserNestedInput
+  importJobs?: Prisma.ImportJobUncheckedUpdateManyWithoutSellerNestedInput
+  sellerApplication?: Prisma.SellerApplicationUncheckedUpdateOneWithoutUserNestedInput
+  commissionRate?: Prisma.CommissionRateUncheckedUpdateOneWithoutSellerNestedInput
+  ledgerEntries?: Prisma.SellerLedgerEntryUncheckedUpdateManyWithoutSellerNestedInput
+  payoutRequests?: Prisma.PayoutRequestUncheckedUpdateManyWithoutSellerNestedInput
+}
+
+export type UserCreateWithoutStockMovementsInput = {
+  id?: string
+  name: string
+  email: string
+  password?: string | null
+  emailVerified?: boolean
+  image?: string | null
+  phone?: string | null
+  role?: $Enums.UserRole
+  status?: $Enums.UserStatus
+  banReason?: string | null
+  banExpires?: Date | string | null
+  currency?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  sessions?: Prisma.SessionCreateNestedManyWithoutUserInput
+  accounts?: Prisma.AccountCreateNestedManyWithoutUserInput
+  cart?: Prisma.CartCreateNestedOneWithoutUserInput
+  sellerMedicines?: Prisma.MedicineCreateNestedManyWithoutSellerInput
+  orders?: Prisma.OrderCreateNestedManyWithoutUserInput
+  sellerShipments?: Prisma.ShipmentCreateNestedManyWithoutSellerInput
+  reviews?: Prisma.ReviewCreateNestedManyWithoutUserInput
+  prescriptions?: Prisma.PrescriptionCreateNestedManyWithoutUserInput
+  payments?: Prisma.PaymentCreateNestedManyWithoutUserInput
+  returnRequests?: Prisma.ReturnRequestCreateNestedManyWithoutUserInput
+  recallNotices?: Prisma.RecallNoticeCreateNestedManyWithoutUserInput
+  sellerCoupons?: Prisma.CouponCreateNestedManyWithoutSellerInput
+  addresses?: Prisma.AddressCreateNestedManyWithoutUserInput
+  interactionOverrides?: Prisma.InteractionOverrideCreateNestedManyWithoutUserInput
+  importJobs?: Prisma.ImportJobCreateNestedManyWithoutSellerInput
+  sellerApplication?: Prisma.SellerApplicationCreateNestedOneWithoutUserInput
+  sellerProfile?: Prisma.SellerProfileCreateNestedOneWithoutUserInput
+  commissionRate?: Prisma.CommissionRateCreateNestedOneWithoutSellerInput
+  ledgerEntries?: Prisma.SellerLedgerEntryCreateNestedManyWithoutSellerInput
+  payoutRequests?: Prisma.PayoutRequestCreateNestedManyWithoutSellerInput
+}
+
+export type UserUncheckedCreateWithoutStockMovementsInput = {
+  id?: string
+  name: string
+  email: string
+  password?: string | null
+  emailVerified?: boolean
+  image?: string | null
+  phone?: string | null
+  role?: $Enums.UserRole
+  status?: $Enums.UserStatus
+  banReason?: string | null
+  banExpires?: Date | string | null
+  currency?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput
+  accounts?: Prisma.AccountUncheckedCreateNestedManyWithoutUserInput
+  cart?: Prisma.CartUncheckedCreateNestedOneWithoutUserInput
+  sellerMedicines?: Prisma.MedicineUncheckedCreateNestedManyWithoutSellerInput
+  orders?: Prisma.OrderUncheckedCreateNestedManyWithoutUserInput
+  sellerShipments?: Prisma.ShipmentUncheckedCreateNestedManyWithoutSellerInput
+  reviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutUserInput
+  prescriptions?: Prisma.PrescriptionUncheckedCreateNestedManyWithoutUserInput
+  payments?: Prisma.PaymentUncheckedCreateNestedManyWithoutUserInput
+  returnRequests?: Prisma.ReturnRequestUncheckedCreateNestedManyWithoutUserInput
+  recallNotices?: Prisma.RecallNoticeUncheckedCreateNestedManyWithoutUserInput
+  sellerCoupons?: Prisma.CouponUncheckedCreateNestedManyWithoutSellerInput
+  addresses?: Prisma.AddressUncheckedCreateNestedManyWithoutUserInput
+  interactionOverrides?: Prisma.InteractionOverrideUncheckedCreateNestedManyWithoutUserInput
+  importJobs?: Prisma.ImportJobUncheckedCreateNestedManyWithoutSellerInput
+  sellerApplication?: Prisma.SellerApplicationUncheckedCreateNestedOneWithoutUserInput
+  sellerProfile?: Prisma.SellerProfileUncheckedCreateNestedOneWithoutUserInput
+  commissionRate?: Prisma.CommissionRateUncheckedCreateNestedOneWithoutSellerInput
+  ledgerEntries?: Prisma.SellerLedgerEntryUncheckedCreateNestedManyWithoutSellerInput
+  payoutRequests?: Prisma.PayoutRequestUncheckedCreateNestedManyWithoutSellerInput
+}
+
+export type UserCreateOrConnectWithoutStockMovementsInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutStockMovementsInput, Prisma.UserUncheckedCreateWithoutStockMovementsInput>
+}
+
+export type UserUpsertWithoutStockMovementsInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutStockMovementsInput, Prisma.UserUncheckedUpdateWithoutStockMovementsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutStockMovementsInput, Prisma.UserUncheckedCreateWithoutStockMovementsInput>
   where?: Prisma.UserWhereInput
 }
 
-export type UserUpdateToOneWithWhereWithoutReviewsInput = {
+export type UserUpdateToOneWithWhereWithoutStockMovementsInput = {
   where?: Prisma.UserWhereInput
-  data: Prisma.XOR<Prisma.UserUpdateWithoutReviewsInput, Prisma.UserUncheckedUpdateWithoutReviewsInput>
+  data: Prisma.XOR<Prisma.UserUpdateWithoutStockMovementsInput, Prisma.UserUncheckedUpdateWithoutStockMovementsInput>
 }
 
-export type UserUpdateWithoutReviewsInput = {
+export type UserUpdateWithoutStockMovementsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   name?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.StringFieldUpdateOperationsInput | string
@@ -923,6 +4024,9 @@ export type UserUpdateWithoutReviewsInput = {
   phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
   status?: Prisma.EnumUserStatusFieldUpdateOperationsInput | $Enums.UserStatus
+  banReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  banExpires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput
@@ -930,9 +4034,24 @@ export type UserUpdateWithoutReviewsInput = {
   cart?: Prisma.CartUpdateOneWithoutUserNestedInput
   sellerMedicines?: Prisma.MedicineUpdateManyWithoutSellerNestedInput
   orders?: Prisma.OrderUpdateManyWithoutUserNestedInput
+  sellerShipments?: Prisma.ShipmentUpdateManyWithoutSellerNestedInput
+  reviews?: Prisma.ReviewUpdateManyWithoutUserNestedInput
+  prescriptions?: Prisma.PrescriptionUpdateManyWithoutUserNestedInput
+  payments?: Prisma.PaymentUpdateManyWithoutUserNestedInput
+  returnRequests?: Prisma.ReturnRequestUpdateManyWithoutUserNestedInput
+  recallNotices?: Prisma.RecallNoticeUpdateManyWithoutUserNestedInput
+  sellerCoupons?: Prisma.CouponUpdateManyWithoutSellerNestedInput
+  addresses?: Prisma.AddressUpdateManyWithoutUserNestedInput
+  interactionOverrides?: Prisma.InteractionOverrideUpdateManyWithoutUserNestedInput
+  importJobs?: Prisma.ImportJobUpdateManyWithoutSellerNestedInput
+  sellerApplication?: Prisma.SellerApplicationUpdateOneWithoutUserNestedInput
+  sellerProfile?: Prisma.SellerProfileUpdateOneWithoutUserNestedInput
+  commissionRate?: Prisma.CommissionRateUpdateOneWithoutSellerNestedInput
+  ledgerEntries?: Prisma.SellerLedgerEntryUpdateManyWithoutSellerNestedInput
+  payoutRequests?: Prisma.PayoutRequestUpdateManyWithoutSellerNestedInput
 }
 
-export type UserUncheckedUpdateWithoutReviewsInput = {
+export type UserUncheckedUpdateWithoutStockMovementsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   name?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.StringFieldUpdateOperationsInput | string
@@ -942,6 +4061,9 @@ export type UserUncheckedUpdateWithoutReviewsInput = {
   phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
   status?: Prisma.EnumUserStatusFieldUpdateOperationsInput | $Enums.UserStatus
+  banReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  banExpires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput
@@ -949,6 +4071,21 @@ export type UserUncheckedUpdateWithoutReviewsInput = {
   cart?: Prisma.CartUncheckedUpdateOneWithoutUserNestedInput
   sellerMedicines?: Prisma.MedicineUncheckedUpdateManyWithoutSellerNestedInput
   orders?: Prisma.OrderUncheckedUpdateManyWithoutUserNestedInput
+  sellerShipments?: Prisma.ShipmentUncheckedUpdateManyWithoutSellerNestedInput
+  reviews?: Prisma.ReviewUncheckedUpdateManyWithoutUserNestedInput
+  prescriptions?: Prisma.PrescriptionUncheckedUpdateManyWithoutUserNestedInput
+  payments?: Prisma.PaymentUncheckedUpdateManyWithoutUserNestedInput
+  returnRequests?: Prisma.ReturnRequestUncheckedUpdateManyWithoutUserNestedInput
+  recallNotices?: Prisma.RecallNoticeUncheckedUpdateManyWithoutUserNestedInput
+  sellerCoupons?: Prisma.CouponUncheckedUpdateManyWithoutSellerNestedInput
+  addresses?: Prisma.AddressUncheckedUpdateManyWithoutUserNestedInput
+  interactionOverrides?: Prisma.InteractionOverrideUncheckedUpdateManyWithoutUserNestedInput
+  importJobs?: Prisma.ImportJobUncheckedUpdateManyWithoutSellerNestedInput
+  sellerApplication?: Prisma.SellerApplicationUncheckedUpdateOneWithoutUserNestedInput
+  sellerProfile?: Prisma.SellerProfileUncheckedUpdateOneWithoutUserNestedInput
+  commissionRate?: Prisma.CommissionRateUncheckedUpdateOneWithoutSellerNestedInput
+  ledgerEntries?: Prisma.SellerLedgerEntryUncheckedUpdateManyWithoutSellerNestedInput
+  payoutRequests?: Prisma.PayoutRequestUncheckedUpdateManyWithoutSellerNestedInput
 }
 
 export type UserCreateWithoutSessionsInput = {
@@ -961,13 +4098,31 @@ export type UserCreateWithoutSessionsInput = {
   phone?: string | null
   role?: $Enums.UserRole
   status?: $Enums.UserStatus
+  banReason?: string | null
+  banExpires?: Date | string | null
+  currency?: string
   createdAt?: Date | string
   updatedAt?: Date | string
   accounts?: Prisma.AccountCreateNestedManyWithoutUserInput
   cart?: Prisma.CartCreateNestedOneWithoutUserInput
   sellerMedicines?: Prisma.MedicineCreateNestedManyWithoutSellerInput
   orders?: Prisma.OrderCreateNestedManyWithoutUserInput
+  sellerShipments?: Prisma.ShipmentCreateNestedManyWithoutSellerInput
   reviews?: Prisma.ReviewCreateNestedManyWithoutUserInput
+  prescriptions?: Prisma.PrescriptionCreateNestedManyWithoutUserInput
+  payments?: Prisma.PaymentCreateNestedManyWithoutUserInput
+  returnRequests?: Prisma.ReturnRequestCreateNestedManyWithoutUserInput
+  stockMovements?: Prisma.StockMovementCreateNestedManyWithoutActorInput
+  recallNotices?: Prisma.RecallNoticeCreateNestedManyWithoutUserInput
+  sellerCoupons?: Prisma.CouponCreateNestedManyWithoutSellerInput
+  addresses?: Prisma.AddressCreateNestedManyWithoutUserInput
+  interactionOverrides?: Prisma.InteractionOverrideCreateNestedManyWithoutUserInput
+  importJobs?: Prisma.ImportJobCreateNestedManyWithoutSellerInput
+  sellerApplication?: Prisma.SellerApplicationCreateNestedOneWithoutUserInput
+  sellerProfile?: Prisma.SellerProfileCreateNestedOneWithoutUserInput
+  commissionRate?: Prisma.CommissionRateCreateNestedOneWithoutSellerInput
+  ledgerEntries?: Prisma.SellerLedgerEntryCreateNestedManyWithoutSellerInput
+  payoutRequests?: Prisma.PayoutRequestCreateNestedManyWithoutSellerInput
 }
 
 export type UserUncheckedCreateWithoutSessionsInput = {
@@ -980,13 +4135,31 @@ export type UserUncheckedCreateWithoutSessionsInput = {
   phone?: string | null
   role?: $Enums.UserRole
   status?: $Enums.UserStatus
+  banReason?: string | null
+  banExpires?: Date | string | null
+  currency?: string
   createdAt?: Date | string
   updatedAt?: Date | string
   accounts?: Prisma.AccountUncheckedCreateNestedManyWithoutUserInput
   cart?: Prisma.CartUncheckedCreateNestedOneWithoutUserInput
   sellerMedicines?: Prisma.MedicineUncheckedCreateNestedManyWithoutSellerInput
   orders?: Prisma.OrderUncheckedCreateNestedManyWithoutUserInput
+  sellerShipments?: Prisma.ShipmentUncheckedCreateNestedManyWithoutSellerInput
   reviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutUserInput
+  prescriptions?: Prisma.PrescriptionUncheckedCreateNestedManyWithoutUserInput
+  payments?: Prisma.PaymentUncheckedCreateNestedManyWithoutUserInput
+  returnRequests?: Prisma.ReturnRequestUncheckedCreateNestedManyWithoutUserInput
+  stockMovements?: Prisma.StockMovementUncheckedCreateNestedManyWithoutActorInput
+  recallNotices?: Prisma.RecallNoticeUncheckedCreateNestedManyWithoutUserInput
+  sellerCoupons?: Prisma.CouponUncheckedCreateNestedManyWithoutSellerInput
+  addresses?: Prisma.AddressUncheckedCreateNestedManyWithoutUserInput
+  interactionOverrides?: Prisma.InteractionOverrideUncheckedCreateNestedManyWithoutUserInput
+  importJobs?: Prisma.ImportJobUncheckedCreateNestedManyWithoutSellerInput
+  sellerApplication?: Prisma.SellerApplicationUncheckedCreateNestedOneWithoutUserInput
+  sellerProfile?: Prisma.SellerProfileUncheckedCreateNestedOneWithoutUserInput
+  commissionRate?: Prisma.CommissionRateUncheckedCreateNestedOneWithoutSellerInput
+  ledgerEntries?: Prisma.SellerLedgerEntryUncheckedCreateNestedManyWithoutSellerInput
+  payoutRequests?: Prisma.PayoutRequestUncheckedCreateNestedManyWithoutSellerInput
 }
 
 export type UserCreateOrConnectWithoutSessionsInput = {
@@ -1015,13 +4188,31 @@ export type UserUpdateWithoutSessionsInput = {
   phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
   status?: Prisma.EnumUserStatusFieldUpdateOperationsInput | $Enums.UserStatus
+  banReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  banExpires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   accounts?: Prisma.AccountUpdateManyWithoutUserNestedInput
   cart?: Prisma.CartUpdateOneWithoutUserNestedInput
   sellerMedicines?: Prisma.MedicineUpdateManyWithoutSellerNestedInput
   orders?: Prisma.OrderUpdateManyWithoutUserNestedInput
+  sellerShipments?: Prisma.ShipmentUpdateManyWithoutSellerNestedInput
   reviews?: Prisma.ReviewUpdateManyWithoutUserNestedInput
+  prescriptions?: Prisma.PrescriptionUpdateManyWithoutUserNestedInput
+  payments?: Prisma.PaymentUpdateManyWithoutUserNestedInput
+  returnRequests?: Prisma.ReturnRequestUpdateManyWithoutUserNestedInput
+  stockMovements?: Prisma.StockMovementUpdateManyWithoutActorNestedInput
+  recallNotices?: Prisma.RecallNoticeUpdateManyWithoutUserNestedInput
+  sellerCoupons?: Prisma.CouponUpdateManyWithoutSellerNestedInput
+  addresses?: Prisma.AddressUpdateManyWithoutUserNestedInput
+  interactionOverrides?: Prisma.InteractionOverrideUpdateManyWithoutUserNestedInput
+  importJobs?: Prisma.ImportJobUpdateManyWithoutSellerNestedInput
+  sellerApplication?: Prisma.SellerApplicationUpdateOneWithoutUserNestedInput
+  sellerProfile?: Prisma.SellerProfileUpdateOneWithoutUserNestedInput
+  commissionRate?: Prisma.CommissionRateUpdateOneWithoutSellerNestedInput
+  ledgerEntries?: Prisma.SellerLedgerEntryUpdateManyWithoutSellerNestedInput
+  payoutRequests?: Prisma.PayoutRequestUpdateManyWithoutSellerNestedInput
 }
 
 export type UserUncheckedUpdateWithoutSessionsInput = {
@@ -1034,13 +4225,31 @@ export type UserUncheckedUpdateWithoutSessionsInput = {
   phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
   status?: Prisma.EnumUserStatusFieldUpdateOperationsInput | $Enums.UserStatus
+  banReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  banExpires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   accounts?: Prisma.AccountUncheckedUpdateManyWithoutUserNestedInput
   cart?: Prisma.CartUncheckedUpdateOneWithoutUserNestedInput
   sellerMedicines?: Prisma.MedicineUncheckedUpdateManyWithoutSellerNestedInput
   orders?: Prisma.OrderUncheckedUpdateManyWithoutUserNestedInput
+  sellerShipments?: Prisma.ShipmentUncheckedUpdateManyWithoutSellerNestedInput
   reviews?: Prisma.ReviewUncheckedUpdateManyWithoutUserNestedInput
+  prescriptions?: Prisma.PrescriptionUncheckedUpdateManyWithoutUserNestedInput
+  payments?: Prisma.PaymentUncheckedUpdateManyWithoutUserNestedInput
+  returnRequests?: Prisma.ReturnRequestUncheckedUpdateManyWithoutUserNestedInput
+  stockMovements?: Prisma.StockMovementUncheckedUpdateManyWithoutActorNestedInput
+  recallNotices?: Prisma.RecallNoticeUncheckedUpdateManyWithoutUserNestedInput
+  sellerCoupons?: Prisma.CouponUncheckedUpdateManyWithoutSellerNestedInput
+  addresses?: Prisma.AddressUncheckedUpdateManyWithoutUserNestedInput
+  interactionOverrides?: Prisma.InteractionOverrideUncheckedUpdateManyWithoutUserNestedInput
+  importJobs?: Prisma.ImportJobUncheckedUpdateManyWithoutSellerNestedInput
+  sellerApplication?: Prisma.SellerApplicationUncheckedUpdateOneWithoutUserNestedInput
+  sellerProfile?: Prisma.SellerProfileUncheckedUpdateOneWithoutUserNestedInput
+  commissionRate?: Prisma.CommissionRateUncheckedUpdateOneWithoutSellerNestedInput
+  ledgerEntries?: Prisma.SellerLedgerEntryUncheckedUpdateManyWithoutSellerNestedInput
+  payoutRequests?: Prisma.PayoutRequestUncheckedUpdateManyWithoutSellerNestedInput
 }
 
 export type UserCreateWithoutAccountsInput = {
@@ -1053,13 +4262,31 @@ export type UserCreateWithoutAccountsInput = {
   phone?: string | null
   role?: $Enums.UserRole
   status?: $Enums.UserStatus
+  banReason?: string | null
+  banExpires?: Date | string | null
+  currency?: string
   createdAt?: Date | string
   updatedAt?: Date | string
   sessions?: Prisma.SessionCreateNestedManyWithoutUserInput
   cart?: Prisma.CartCreateNestedOneWithoutUserInput
   sellerMedicines?: Prisma.MedicineCreateNestedManyWithoutSellerInput
   orders?: Prisma.OrderCreateNestedManyWithoutUserInput
+  sellerShipments?: Prisma.ShipmentCreateNestedManyWithoutSellerInput
   reviews?: Prisma.ReviewCreateNestedManyWithoutUserInput
+  prescriptions?: Prisma.PrescriptionCreateNestedManyWithoutUserInput
+  payments?: Prisma.PaymentCreateNestedManyWithoutUserInput
+  returnRequests?: Prisma.ReturnRequestCreateNestedManyWithoutUserInput
+  stockMovements?: Prisma.StockMovementCreateNestedManyWithoutActorInput
+  recallNotices?: Prisma.RecallNoticeCreateNestedManyWithoutUserInput
+  sellerCoupons?: Prisma.CouponCreateNestedManyWithoutSellerInput
+  addresses?: Prisma.AddressCreateNestedManyWithoutUserInput
+  interactionOverrides?: Prisma.InteractionOverrideCreateNestedManyWithoutUserInput
+  importJobs?: Prisma.ImportJobCreateNestedManyWithoutSellerInput
+  sellerApplication?: Prisma.SellerApplicationCreateNestedOneWithoutUserInput
+  sellerProfile?: Prisma.SellerProfileCreateNestedOneWithoutUserInput
+  commissionRate?: Prisma.CommissionRateCreateNestedOneWithoutSellerInput
+  ledgerEntries?: Prisma.SellerLedgerEntryCreateNestedManyWithoutSellerInput
+  payoutRequests?: Prisma.PayoutRequestCreateNestedManyWithoutSellerInput
 }
 
 export type UserUncheckedCreateWithoutAccountsInput = {
@@ -1072,13 +4299,31 @@ export type UserUncheckedCreateWithoutAccountsInput = {
   phone?: string | null
   role?: $Enums.UserRole
   status?: $Enums.UserStatus
+  banReason?: string | null
+  banExpires?: Date | string | null
+  currency?: string
   createdAt?: Date | string
   updatedAt?: Date | string
   sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput
   cart?: Prisma.CartUncheckedCreateNestedOneWithoutUserInput
   sellerMedicines?: Prisma.MedicineUncheckedCreateNestedManyWithoutSellerInput
   orders?: Prisma.OrderUncheckedCreateNestedManyWithoutUserInput
+  sellerShipments?: Prisma.ShipmentUncheckedCreateNestedManyWithoutSellerInput
   reviews?: Prisma.ReviewUncheckedCreateNestedManyWithoutUserInput
+  prescriptions?: Prisma.PrescriptionUncheckedCreateNestedManyWithoutUserInput
+  payments?: Prisma.PaymentUncheckedCreateNestedManyWithoutUserInput
+  returnRequests?: Prisma.ReturnRequestUncheckedCreateNestedManyWithoutUserInput
+  stockMovements?: Prisma.StockMovementUncheckedCreateNestedManyWithoutActorInput
+  recallNotices?: Prisma.RecallNoticeUncheckedCreateNestedManyWithoutUserInput
+  sellerCoupons?: Prisma.CouponUncheckedCreateNestedManyWithoutSellerInput
+  addresses?: Prisma.AddressUncheckedCreateNestedManyWithoutUserInput
+  interactionOverrides?: Prisma.InteractionOverrideUncheckedCreateNestedManyWithoutUserInput
+  importJobs?: Prisma.ImportJobUncheckedCreateNestedManyWithoutSellerInput
+  sellerApplication?: Prisma.SellerApplicationUncheckedCreateNestedOneWithoutUserInput
+  sellerProfile?: Prisma.SellerProfileUncheckedCreateNestedOneWithoutUserInput
+  commissionRate?: Prisma.CommissionRateUncheckedCreateNestedOneWithoutSellerInput
+  ledgerEntries?: Prisma.SellerLedgerEntryUncheckedCreateNestedManyWithoutSellerInput
+  payoutRequests?: Prisma.PayoutRequestUncheckedCreateNestedManyWithoutSellerInput
 }
 
 export type UserCreateOrConnectWithoutAccountsInput = {
@@ -1107,13 +4352,31 @@ export type UserUpdateWithoutAccountsInput = {
   phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
   status?: Prisma.EnumUserStatusFieldUpdateOperationsInput | $Enums.UserStatus
+  banReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  banExpires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput
   cart?: Prisma.CartUpdateOneWithoutUserNestedInput
   sellerMedicines?: Prisma.MedicineUpdateManyWithoutSellerNestedInput
   orders?: Prisma.OrderUpdateManyWithoutUserNestedInput
+  sellerShipments?: Prisma.ShipmentUpdateManyWithoutSellerNestedInput
   reviews?: Prisma.ReviewUpdateManyWithoutUserNestedInput
+  prescriptions?: Prisma.PrescriptionUpdateManyWithoutUserNestedInput
+  payments?: Prisma.PaymentUpdateManyWithoutUserNestedInput
+  returnRequests?: Prisma.ReturnRequestUpdateManyWithoutUserNestedInput
+  stockMovements?: Prisma.StockMovementUpdateManyWithoutActorNestedInput
+  recallNotices?: Prisma.RecallNoticeUpdateManyWithoutUserNestedInput
+  sellerCoupons?: Prisma.CouponUpdateManyWithoutSellerNestedInput
+  addresses?: Prisma.AddressUpdateManyWithoutUserNestedInput
+  interactionOverrides?: Prisma.InteractionOverrideUpdateManyWithoutUserNestedInput
+  importJobs?: Prisma.ImportJobUpdateManyWithoutSellerNestedInput
+  sellerApplication?: Prisma.SellerApplicationUpdateOneWithoutUserNestedInput
+  sellerProfile?: Prisma.SellerProfileUpdateOneWithoutUserNestedInput
+  commissionRate?: Prisma.CommissionRateUpdateOneWithoutSellerNestedInput
+  ledgerEntries?: Prisma.SellerLedgerEntryUpdateManyWithoutSellerNestedInput
+  payoutRequests?: Prisma.PayoutRequestUpdateManyWithoutSellerNestedInput
 }
 
 export type UserUncheckedUpdateWithoutAccountsInput = {
@@ -1126,13 +4389,31 @@ export type UserUncheckedUpdateWithoutAccountsInput = {
   phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
   status?: Prisma.EnumUserStatusFieldUpdateOperationsInput | $Enums.UserStatus
+  banReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  banExpires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput
   cart?: Prisma.CartUncheckedUpdateOneWithoutUserNestedInput
   sellerMedicines?: Prisma.MedicineUncheckedUpdateManyWithoutSellerNestedInput
   orders?: Prisma.OrderUncheckedUpdateManyWithoutUserNestedInput
+  sellerShipments?: Prisma.ShipmentUncheckedUpdateManyWithoutSellerNestedInput
   reviews?: Prisma.ReviewUncheckedUpdateManyWithoutUserNestedInput
+  prescriptions?: Prisma.PrescriptionUncheckedUpdateManyWithoutUserNestedInput
+  payments?: Prisma.PaymentUncheckedUpdateManyWithoutUserNestedInput
+  returnRequests?: Prisma.ReturnRequestUncheckedUpdateManyWithoutUserNestedInput
+  stockMovements?: Prisma.StockMovementUncheckedUpdateManyWithoutActorNestedInput
+  recallNotices?: Prisma.RecallNoticeUncheckedUpdateManyWithoutUserNestedInput
+  sellerCoupons?: Prisma.CouponUncheckedUpdateManyWithoutSellerNestedInput
+  addresses?: Prisma.AddressUncheckedUpdateManyWithoutUserNestedInput
+  interactionOverrides?: Prisma.InteractionOverrideUncheckedUpdateManyWithoutUserNestedInput
+  importJobs?: Prisma.ImportJobUncheckedUpdateManyWithoutSellerNestedInput
+  sellerApplication?: Prisma.SellerApplicationUncheckedUpdateOneWithoutUserNestedInput
+  sellerProfile?: Prisma.SellerProfileUncheckedUpdateOneWithoutUserNestedInput
+  commissionRate?: Prisma.CommissionRateUncheckedUpdateOneWithoutSellerNestedInput
+  ledgerEntries?: Prisma.SellerLedgerEntryUncheckedUpdateManyWithoutSellerNestedInput
+  payoutRequests?: Prisma.PayoutRequestUncheckedUpdateManyWithoutSellerNestedInput
 }
 
 
@@ -1145,7 +4426,19 @@ export type UserCountOutputType = {
   accounts: number
   sellerMedicines: number
   orders: number
+  sellerShipments: number
   reviews: number
+  prescriptions: number
+  payments: number
+  returnRequests: number
+  stockMovements: number
+  recallNotices: number
+  sellerCoupons: number
+  addresses: number
+  interactionOverrides: number
+  importJobs: number
+  ledgerEntries: number
+  payoutRequests: number
 }
 
 export type UserCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
@@ -1153,7 +4446,19 @@ export type UserCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.I
   accounts?: boolean | UserCountOutputTypeCountAccountsArgs
   sellerMedicines?: boolean | UserCountOutputTypeCountSellerMedicinesArgs
   orders?: boolean | UserCountOutputTypeCountOrdersArgs
+  sellerShipments?: boolean | UserCountOutputTypeCountSellerShipmentsArgs
   reviews?: boolean | UserCountOutputTypeCountReviewsArgs
+  prescriptions?: boolean | UserCountOutputTypeCountPrescriptionsArgs
+  payments?: boolean | UserCountOutputTypeCountPaymentsArgs
+  returnRequests?: boolean | UserCountOutputTypeCountReturnRequestsArgs
+  stockMovements?: boolean | UserCountOutputTypeCountStockMovementsArgs
+  recallNotices?: boolean | UserCountOutputTypeCountRecallNoticesArgs
+  sellerCoupons?: boolean | UserCountOutputTypeCountSellerCouponsArgs
+  addresses?: boolean | UserCountOutputTypeCountAddressesArgs
+  interactionOverrides?: boolean | UserCountOutputTypeCountInteractionOverridesArgs
+  importJobs?: boolean | UserCountOutputTypeCountImportJobsArgs
+  ledgerEntries?: boolean | UserCountOutputTypeCountLedgerEntriesArgs
+  payoutRequests?: boolean | UserCountOutputTypeCountPayoutRequestsArgs
 }
 
 /**
@@ -1194,6 +4499,13 @@ export type UserCountOutputTypeCountOrdersArgs<ExtArgs extends runtime.Types.Ext
   where?: Prisma.OrderWhereInput
 }
 
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountSellerShipmentsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ShipmentWhereInput
+}
+
 /**
  * UserCountOutputType without action
  */
@@ -1201,6 +4513,83 @@ export type UserCountOutputTypeCountReviewsArgs<ExtArgs extends runtime.Types.Ex
   where?: Prisma.ReviewWhereInput
 }
 
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountPrescriptionsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.PrescriptionWhereInput
+}
+
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountPaymentsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.PaymentWhereInput
+}
+
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountReturnRequestsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ReturnRequestWhereInput
+}
+
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountStockMovementsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.StockMovementWhereInput
+}
+
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountRecallNoticesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.RecallNoticeWhereInput
+}
+
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountSellerCouponsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.CouponWhereInput
+}
+
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountAddressesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.AddressWhereInput
+}
+
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountInteractionOverridesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.InteractionOverrideWhereInput
+}
+
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountImportJobsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ImportJobWhereInput
+}
+
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountLedgerEntriesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.SellerLedgerEntryWhereInput
+}
+
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountPayoutRequestsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.PayoutRequestWhereInput
+}
+
 
 export type UserSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
@@ -1212,6 +4601,9 @@ export type UserSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = r
   phone?: boolean
   role?: boolean
   status?: boolean
+  banReason?: boolean
+  banExpires?: boolean
+  currency?: boolean
   createdAt?: boolean
   updatedAt?: boolean
   sessions?: boolean | Prisma.User$sessionsArgs<ExtArgs>
@@ -1219,7 +4611,22 @@ export type UserSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = r
   cart?: boolean | Prisma.User$cartArgs<ExtArgs>
   sellerMedicines?: boolean | Prisma.User$sellerMedicinesArgs<ExtArgs>
   orders?: boolean | Prisma.User$ordersArgs<ExtArgs>
+  sellerShipments?: boolean | Prisma.User$sellerShipmentsArgs<ExtArgs>
   reviews?: boolean | Prisma.User$reviewsArgs<ExtArgs>
+  prescriptions?: boolean | Prisma.User$prescriptionsArgs<ExtArgs>
+  payments?: boolean | Prisma.User$paymentsArgs<ExtArgs>
+  returnRequests?: boolean | Prisma.User$returnRequestsArgs<ExtArgs>
+  stockMovements?: boolean | Prisma.User$stockMovementsArgs<ExtArgs>
+  recallNotices?: boolean | Prisma.User$recallNoticesArgs<ExtArgs>
+  sellerCoupons?: boolean | Prisma.User$sellerCouponsArgs<ExtArgs>
+  addresses?: boolean | Prisma.User$addressesArgs<ExtArgs>
+  interactionOverrides?: boolean | Prisma.User$interactionOverridesArgs<ExtArgs>
+  importJobs?: boolean | Prisma.User$importJobsArgs<ExtArgs>
+  sellerApplication?: boolean | Prisma.User$sellerApplicationArgs<ExtArgs>
+  sellerProfile?: boolean | Prisma.User$sellerProfileArgs<ExtArgs>
+  commissionRate?: boolean | Prisma.User$commissionRateArgs<ExtArgs>
+  ledgerEntries?: boolean | Prisma.User$ledgerEntriesArgs<ExtArgs>
+  payoutRequests?: boolean | Prisma.User$payoutRequestsArgs<ExtArgs>
   _count?: boolean | Prisma.UserCountOutputTypeDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["user"]>
 
@@ -1233,6 +4640,9 @@ export type UserSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensio
   phone?: boolean
   role?: boolean
   status?: boolean
+  banReason?: boolean
+  banExpires?: boolean
+  currency?: boolean
   createdAt?: boolean
   updatedAt?: boolean
 }, ExtArgs["result"]["user"]>
@@ -1247,6 +4657,9 @@ export type UserSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensio
   phone?: boolean
   role?: boolean
   status?: boolean
+  banReason?: boolean
+  banExpires?: boolean
+  currency?: boolean
   createdAt?: boolean
   updatedAt?: boolean
 }, ExtArgs["result"]["user"]>
@@ -1261,18 +4674,36 @@ export type UserSelectScalar = {
   phone?: boolean
   role?: boolean
   status?: boolean
+  banReason?: boolean
+  banExpires?: boolean
+  currency?: boolean
   createdAt?: boolean
   updatedAt?: boolean
 }
 
-export type UserOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "name" | "email" | "password" | "emailVerified" | "image" | "phone" | "role" | "status" | "createdAt" | "updatedAt", ExtArgs["result"]["user"]>
+export type UserOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "name" | "email" | "password" | "emailVerified" | "image" | "phone" | "role" | "status" | "banReason" | "banExpires" | "currency" | "createdAt" | "updatedAt", ExtArgs["result"]["user"]>
 export type UserInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   sessions?: boolean | Prisma.User$sessionsArgs<ExtArgs>
   accounts?: boolean | Prisma.User$accountsArgs<ExtArgs>
   cart?: boolean | Prisma.User$cartArgs<ExtArgs>
   sellerMedicines?: boolean | Prisma.User$sellerMedicinesArgs<ExtArgs>
   orders?: boolean | Prisma.User$ordersArgs<ExtArgs>
+  sellerShipments?: boolean | Prisma.User$sellerShipmentsArgs<ExtArgs>
   reviews?: boolean | Prisma.User$reviewsArgs<ExtArgs>
+  prescriptions?: boolean | Prisma.User$prescriptionsArgs<ExtArgs>
+  payments?: boolean | Prisma.User$paymentsArgs<ExtArgs>
+  returnRequests?: boolean | Prisma.User$returnRequestsArgs<ExtArgs>
+  stockMovements?: boolean | Prisma.User$stockMovementsArgs<ExtArgs>
+  recallNotices?: boolean | Prisma.User$recallNoticesArgs<ExtArgs>
+  sellerCoupons?: boolean | Prisma.User$sellerCouponsArgs<ExtArgs>
+  addresses?: boolean | Prisma.User$addressesArgs<ExtArgs>
+  interactionOverrides?: boolean | Prisma.User$interactionOverridesArgs<ExtArgs>
+  importJobs?: boolean | Prisma.User$importJobsArgs<ExtArgs>
+  sellerApplication?: boolean | Prisma.User$sellerApplicationArgs<ExtArgs>
+  sellerProfile?: boolean | Prisma.User$sellerProfileArgs<ExtArgs>
+  commissionRate?: boolean | Prisma.User$commissionRateArgs<ExtArgs>
+  ledgerEntries?: boolean | Prisma.User$ledgerEntriesArgs<ExtArgs>
+  payoutRequests?: boolean | Prisma.User$payoutRequestsArgs<ExtArgs>
   _count?: boolean | Prisma.UserCountOutputTypeDefaultArgs<ExtArgs>
 }
 export type UserIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {}
@@ -1286,7 +4717,22 @@ export type $UserPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs =
     cart: Prisma.$CartPayload<ExtArgs> | null
     sellerMedicines: Prisma.$MedicinePayload<ExtArgs>[]
     orders: Prisma.$OrderPayload<ExtArgs>[]
+    sellerShipments: Prisma.$ShipmentPayload<ExtArgs>[]
     reviews: Prisma.$ReviewPayload<ExtArgs>[]
+    prescriptions: Prisma.$PrescriptionPayload<ExtArgs>[]
+    payments: Prisma.$PaymentPayload<ExtArgs>[]
+    returnRequests: Prisma.$ReturnRequestPayload<ExtArgs>[]
+    stockMovements: Prisma.$StockMovementPayload<ExtArgs>[]
+    recallNotices: Prisma.$RecallNoticePayload<ExtArgs>[]
+    sellerCoupons: Prisma.$CouponPayload<ExtArgs>[]
+    addresses: Prisma.$AddressPayload<ExtArgs>[]
+    interactionOverrides: Prisma.$InteractionOverridePayload<ExtArgs>[]
+    importJobs: Prisma.$ImportJobPayload<ExtArgs>[]
+    sellerApplication: Prisma.$SellerApplicationPayload<ExtArgs> | null
+    sellerProfile: Prisma.$SellerProfilePayload<ExtArgs> | null
+    commissionRate: Prisma.$CommissionRatePayload<ExtArgs> | null
+    ledgerEntries: Prisma.$SellerLedgerEntryPayload<ExtArgs>[]
+    payoutRequests: Prisma.$PayoutRequestPayload<ExtArgs>[]
   }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
     id: string
@@ -1298,6 +4744,9 @@ export type $UserPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs =
     phone: string | null
     role: $Enums.UserRole
     status: $Enums.UserStatus
+    banReason: string | null
+    banExpires: Date | null
+    currency: string
     createdAt: Date
     updatedAt: Date
   }, ExtArgs["result"]["user"]>
@@ -1699,7 +5148,22 @@ export interface Prisma__UserClient<T, Null = never, ExtArgs extends runtime.Typ
   cart<T extends Prisma.User$cartArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$cartArgs<ExtArgs>>): Prisma.Prisma__CartClient<runtime.Types.Result.GetResult<Prisma.$CartPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
   sellerMedicines<T extends Prisma.User$sellerMedicinesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$sellerMedicinesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$MedicinePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   orders<T extends Prisma.User$ordersArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$ordersArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$OrderPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  sellerShipments<T extends Prisma.User$sellerShipmentsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$sellerShipmentsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ShipmentPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   reviews<T extends Prisma.User$reviewsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$reviewsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ReviewPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  prescriptions<T extends Prisma.User$prescriptionsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$prescriptionsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$PrescriptionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  payments<T extends Prisma.User$paymentsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$paymentsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$PaymentPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  returnRequests<T extends Prisma.User$returnRequestsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$returnRequestsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ReturnRequestPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  stockMovements<T extends Prisma.User$stockMovementsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$stockMovementsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$StockMovementPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  recallNotices<T extends Prisma.User$recallNoticesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$recallNoticesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$RecallNoticePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  sellerCoupons<T extends Prisma.User$sellerCouponsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$sellerCouponsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$CouponPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  addresses<T extends Prisma.User$addressesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$addressesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$AddressPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  interactionOverrides<T extends Prisma.User$interactionOverridesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$interactionOverridesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$InteractionOverridePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  importJobs<T extends Prisma.User$importJobsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$importJobsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ImportJobPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  sellerApplication<T extends Prisma.User$sellerApplicationArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$sellerApplicationArgs<ExtArgs>>): Prisma.Prisma__SellerApplicationClient<runtime.Types.Result.GetResult<Prisma.$SellerApplicationPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  sellerProfile<T extends Prisma.User$sellerProfileArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$sellerProfileArgs<ExtArgs>>): Prisma.Prisma__SellerProfileClient<runtime.Types.Result.GetResult<Prisma.$SellerProfilePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  commissionRate<T extends Prisma.User$commissionRateArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$commissionRateArgs<ExtArgs>>): Prisma.Prisma__CommissionRateClient<runtime.Types.Result.GetResult<Prisma.$CommissionRatePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  ledgerEntries<T extends Prisma.User$ledgerEntriesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$ledgerEntriesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SellerLedgerEntryPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  payoutRequests<T extends Prisma.User$payoutRequestsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$payoutRequestsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$PayoutRequestPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
    * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -1738,6 +5202,9 @@ export interface UserFieldRefs {
   readonly phone: Prisma.FieldRef<"User", 'String'>
   readonly role: Prisma.FieldRef<"User", 'UserRole'>
   readonly status: Prisma.FieldRef<"User", 'UserStatus'>
+  readonly banReason: Prisma.FieldRef<"User", 'String'>
+  readonly banExpires: Prisma.FieldRef<"User", 'DateTime'>
+  readonly currency: Prisma.FieldRef<"User", 'String'>
   readonly createdAt: Prisma.FieldRef<"User", 'DateTime'>
   readonly updatedAt: Prisma.FieldRef<"User", 'DateTime'>
 }
@@ -2242,6 +5709,30 @@ export type User$ordersArgs<ExtArgs extends runtime.Types.Extensions.InternalArg
   distinct?: Prisma.OrderScalarFieldEnum | Prisma.OrderScalarFieldEnum[]
 }
 
+/**
+ * User.sellerShipments
+ */
+export type User$sellerShipmentsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Shipment
+   */
+  select?: Prisma.ShipmentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Shipment
+   */
+  omit?: Prisma.ShipmentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShipmentInclude<ExtArgs> | null
+  where?: Prisma.ShipmentWhereInput
+  orderBy?: Prisma.ShipmentOrderByWithRelationInput | Prisma.ShipmentOrderByWithRelationInput[]
+  cursor?: Prisma.ShipmentWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.ShipmentScalarFieldEnum | Prisma.ShipmentScalarFieldEnum[]
+}
+
 /**
  * User.reviews
  */
@@ -2266,6 +5757,327 @@ export type User$reviewsArgs<ExtArgs extends runtime.Types.Extensions.InternalAr
   distinct?: Prisma.ReviewScalarFieldEnum | Prisma.ReviewScalarFieldEnum[]
 }
 
+/**
+ * User.prescriptions
+ */
+export type User$prescriptionsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Prescription
+   */
+  select?: Prisma.PrescriptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Prescription
+   */
+  omit?: Prisma.PrescriptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PrescriptionInclude<ExtArgs> | null
+  where?: Prisma.PrescriptionWhereInput
+  orderBy?: Prisma.PrescriptionOrderByWithRelationInput | Prisma.PrescriptionOrderByWithRelationInput[]
+  cursor?: Prisma.PrescriptionWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.PrescriptionScalarFieldEnum | Prisma.PrescriptionScalarFieldEnum[]
+}
+
+/**
+ * User.payments
+ */
+export type User$paymentsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Payment
+   */
+  select?: Prisma.PaymentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Payment
+   */
+  omit?: Prisma.PaymentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PaymentInclude<ExtArgs> | null
+  where?: Prisma.PaymentWhereInput
+  orderBy?: Prisma.PaymentOrderByWithRelationInput | Prisma.PaymentOrderByWithRelationInput[]
+  cursor?: Prisma.PaymentWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.PaymentScalarFieldEnum | Prisma.PaymentScalarFieldEnum[]
+}
+
+/**
+ * User.returnRequests
+ */
+export type User$returnRequestsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReturnRequest
+   */
+  select?: Prisma.ReturnRequestSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReturnRequest
+   */
+  omit?: Prisma.ReturnRequestOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ReturnRequestInclude<ExtArgs> | null
+  where?: Prisma.ReturnRequestWhereInput
+  orderBy?: Prisma.ReturnRequestOrderByWithRelationInput | Prisma.ReturnRequestOrderByWithRelationInput[]
+  cursor?: Prisma.ReturnRequestWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.ReturnRequestScalarFieldEnum | Prisma.ReturnRequestScalarFieldEnum[]
+}
+
+/**
+ * User.stockMovements
+ */
+export type User$stockMovementsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the StockMovement
+   */
+  select?: Prisma.StockMovementSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the StockMovement
+   */
+  omit?: Prisma.StockMovementOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.StockMovementInclude<ExtArgs> | null
+  where?: Prisma.StockMovementWhereInput
+  orderBy?: Prisma.StockMovementOrderByWithRelationInput | Prisma.StockMovementOrderByWithRelationInput[]
+  cursor?: Prisma.StockMovementWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.StockMovementScalarFieldEnum | Prisma.StockMovementScalarFieldEnum[]
+}
+
+/**
+ * User.recallNotices
+ */
+export type User$recallNoticesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RecallNotice
+   */
+  select?: Prisma.RecallNoticeSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RecallNotice
+   */
+  omit?: Prisma.RecallNoticeOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RecallNoticeInclude<ExtArgs> | null
+  where?: Prisma.RecallNoticeWhereInput
+  orderBy?: Prisma.RecallNoticeOrderByWithRelationInput | Prisma.RecallNoticeOrderByWithRelationInput[]
+  cursor?: Prisma.RecallNoticeWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.RecallNoticeScalarFieldEnum | Prisma.RecallNoticeScalarFieldEnum[]
+}
+
+/**
+ * User.sellerCoupons
+ */
+export type User$sellerCouponsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Coupon
+   */
+  select?: Prisma.CouponSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Coupon
+   */
+  omit?: Prisma.CouponOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CouponInclude<ExtArgs> | null
+  where?: Prisma.CouponWhereInput
+  orderBy?: Prisma.CouponOrderByWithRelationInput | Prisma.CouponOrderByWithRelationInput[]
+  cursor?: Prisma.CouponWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.CouponScalarFieldEnum | Prisma.CouponScalarFieldEnum[]
+}
+
+/**
+ * User.addresses
+ */
+export type User$addressesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Address
+   */
+  select?: Prisma.AddressSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Address
+   */
+  omit?: Prisma.AddressOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AddressInclude<ExtArgs> | null
+  where?: Prisma.AddressWhereInput
+  orderBy?: Prisma.AddressOrderByWithRelationInput | Prisma.AddressOrderByWithRelationInput[]
+  cursor?: Prisma.AddressWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.AddressScalarFieldEnum | Prisma.AddressScalarFieldEnum[]
+}
+
+/**
+ * User.interactionOverrides
+ */
+export type User$interactionOverridesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InteractionOverride
+   */
+  select?: Prisma.InteractionOverrideSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InteractionOverride
+   */
+  omit?: Prisma.InteractionOverrideOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InteractionOverrideInclude<ExtArgs> | null
+  where?: Prisma.InteractionOverrideWhereInput
+  orderBy?: Prisma.InteractionOverrideOrderByWithRelationInput | Prisma.InteractionOverrideOrderByWithRelationInput[]
+  cursor?: Prisma.InteractionOverrideWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.InteractionOverrideScalarFieldEnum | Prisma.InteractionOverrideScalarFieldEnum[]
+}
+
+/**
+ * User.importJobs
+ */
+export type User$importJobsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ImportJob
+   */
+  select?: Prisma.ImportJobSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ImportJob
+   */
+  omit?: Prisma.ImportJobOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ImportJobInclude<ExtArgs> | null
+  where?: Prisma.ImportJobWhereInput
+  orderBy?: Prisma.ImportJobOrderByWithRelationInput | Prisma.ImportJobOrderByWithRelationInput[]
+  cursor?: Prisma.ImportJobWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.ImportJobScalarFieldEnum | Prisma.ImportJobScalarFieldEnum[]
+}
+
+/**
+ * User.sellerApplication
+ */
+export type User$sellerApplicationArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SellerApplication
+   */
+  select?: Prisma.SellerApplicationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SellerApplication
+   */
+  omit?: Prisma.SellerApplicationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SellerApplicationInclude<ExtArgs> | null
+  where?: Prisma.SellerApplicationWhereInput
+}
+
+/**
+ * User.sellerProfile
+ */
+export type User$sellerProfileArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SellerProfile
+   */
+  select?: Prisma.SellerProfileSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SellerProfile
+   */
+  omit?: Prisma.SellerProfileOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SellerProfileInclude<ExtArgs> | null
+  where?: Prisma.SellerProfileWhereInput
+}
+
+/**
+ * User.commissionRate
+ */
+export type User$commissionRateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CommissionRate
+   */
+  select?: Prisma.CommissionRateSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CommissionRate
+   */
+  omit?: Prisma.CommissionRateOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CommissionRateInclude<ExtArgs> | null
+  where?: Prisma.CommissionRateWhereInput
+}
+
+/**
+ * User.ledgerEntries
+ */
+export type User$ledgerEntriesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SellerLedgerEntry
+   */
+  select?: Prisma.SellerLedgerEntrySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SellerLedgerEntry
+   */
+  omit?: Prisma.SellerLedgerEntryOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SellerLedgerEntryInclude<ExtArgs> | null
+  where?: Prisma.SellerLedgerEntryWhereInput
+  orderBy?: Prisma.SellerLedgerEntryOrderByWithRelationInput | Prisma.SellerLedgerEntryOrderByWithRelationInput[]
+  cursor?: Prisma.SellerLedgerEntryWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.SellerLedgerEntryScalarFieldEnum | Prisma.SellerLedgerEntryScalarFieldEnum[]
+}
+
+/**
+ * User.payoutRequests
+ */
+export type User$payoutRequestsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PayoutRequest
+   */
+  select?: Prisma.PayoutRequestSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PayoutRequest
+   */
+  omit?: Prisma.PayoutRequestOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PayoutRequestInclude<ExtArgs> | null
+  where?: Prisma.PayoutRequestWhereInput
+  orderBy?: Prisma.PayoutRequestOrderByWithRelationInput | Prisma.PayoutRequestOrderByWithRelationInput[]
+  cursor?: Prisma.PayoutRequestWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.PayoutRequestScalarFieldEnum | Prisma.PayoutRequestScalarFieldEnum[]
+}
+
 /**
  * User without action
  */
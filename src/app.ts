@@ -5,6 +5,8 @@ import { toNodeHandler } from "better-auth/node";
 import { auth } from "./lib/auth";
 import { notFound } from "./middleware/notFound";
 import errorHandler from "./middleware/globalErrorHandler";
+import { captureRawBody } from "./middleware/rawBody";
+import { moneyJson } from "./middleware/moneyJson";
 
 const app: Application = express();
 
@@ -46,7 +48,8 @@ app.use(
 
 app.set('trust proxy', true);
 app.all("/api/auth/*splat", toNodeHandler(auth));
-app.use(express.json());
+app.use(express.json({ verify: captureRawBody }));
+app.use(moneyJson);
 
 
 app.use('/api', router)
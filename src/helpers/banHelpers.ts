@@ -0,0 +1,30 @@
+import { prisma } from "../lib/prisma";
+
+type ActiveBan = {
+    banReason: string | null;
+    banExpires: Date | null;
+}
+
+/**
+ * Returns the user's ban while it is still in effect, otherwise null.
+ * Temporary bans whose banExpires has passed are lifted on read.
+ */
+const getActiveBan = async (userId: string): Promise<ActiveBan | null> => {
+    const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { status: true, banReason: true, banExpires: true },
+    });
+    if (!user || user.status !== "BAN") return null;
+
+    if (user.banExpires && user.banExpires <= new Date()) {
+        await prisma.user.update({
+            where: { id: userId },
+            data: { status: "UNBAN", banReason: null, banExpires: null },
+        });
+        return null;
+    }
+
+    return { banReason: user.banReason, banExpires: user.banExpires };
+}
+
+export default getActiveBan;
@@ -0,0 +1,91 @@
+type CsvValue = string | number | boolean | Date | null | undefined;
+
+/** Text starting with one of these is read as a formula by spreadsheet apps */
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+const PLAIN_NUMBER = /^[-+]?\d+(\.\d+)?$/;
+
+const needsFormulaGuard = (text: string) => FORMULA_PREFIX.test(text) && !PLAIN_NUMBER.test(text);
+
+const escapeCsv = (value: CsvValue) => {
+    if (value === null || value === undefined) return "";
+    let text = value instanceof Date ? value.toISOString() : String(value);
+    // plain numbers (e.g. negative amounts) stay as they are; other text is kept from running as a formula
+    if (needsFormulaGuard(text)) text = `'${text}`;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/** Undo the `'` that `toCsv` puts before formula-like text, so an exported file imports unchanged */
+export const stripFormulaGuard = (text: string) =>
+    text.startsWith("'") && needsFormulaGuard(text.slice(1)) ? text.slice(1) : text;
+
+/**
+ * Serialize rows to RFC 4180 CSV using the given column keys as header.
+ */
+const toCsv = <T extends Record<string, CsvValue>>(columns: (keyof T & string)[], rows: T[]) => {
+    const lines = [columns.join(",")];
+    for (const row of rows) {
+        lines.push(columns.map((column) => escapeCsv(row[column])).join(","));
+    }
+    return lines.join("\r\n");
+};
+
+/**
+ * Parse RFC 4180 CSV (quoted fields, "" escapes, CRLF or LF) into rows of cells.
+ * Blank lines are skipped.
+ */
+export const parseCsv = (text: string) => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = "";
+    let quoted = false;
+
+    const endRow = () => {
+        row.push(cell);
+        if (row.length > 1 || row[0] !== "") rows.push(row);
+        row = [];
+        cell = "";
+    };
+
+    const input = text.replace(/^\uFEFF/, "");
+    for (let i = 0; i < input.length; i++) {
+        const ch = input[i];
+        if (quoted) {
+            if (ch === '"' && input[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (ch === '"') {
+                quoted = false;
+            } else {
+                cell += ch;
+            }
+        } else if (ch === '"') {
+            quoted = true;
+        } else if (ch === ",") {
+            row.push(cell);
+            cell = "";
+        } else if (ch === "\n" || ch === "\r") {
+            if (ch === "\r" && input[i + 1] === "\n") i++;
+            endRow();
+        } else {
+            cell += ch;
+        }
+    }
+    if (cell !== "" || row.length > 0) endRow();
+    return rows;
+};
+
+/**
+ * Parse CSV with a header row into records keyed by (trimmed) column name.
+ * `line` is the 1-based line of the record in the file, for error reports.
+ */
+export const parseCsvRecords = (text: string) => {
+    const [header, ...rows] = parseCsv(text);
+    if (!header) return [];
+    const columns = header.map((c) => c.trim());
+    return rows.map((cells, i) => ({
+        line: i + 2,
+        values: Object.fromEntries(columns.map((c, j) => [c, (cells[j] ?? "").trim()])) as Record<string, string>,
+    }));
+};
+
+export default toCsv;
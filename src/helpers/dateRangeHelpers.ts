@@ -0,0 +1,99 @@
+import { ServiceError } from "../lib/error";
+
+export const GRANULARITIES = ["day", "week", "month"] as const;
+export type Granularity = (typeof GRANULARITIES)[number];
+
+type DateRangeQuery = {
+    from?: unknown;
+    to?: unknown;
+    granularity?: unknown;
+};
+
+type DateRangeDefaults = {
+    days: number;
+    granularity: Granularity;
+};
+
+export type DateRange = {
+    from: Date;
+    to: Date; // exclusive
+    granularity: Granularity;
+};
+
+/** Upper bound on buckets per chart, e.g. ~13 months of days */
+const MAX_PERIODS = 400;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Helper: parse a date; a bare YYYY-MM-DD upper bound includes that whole day */
+const parseDate = (value: unknown, field: string, endOfDay = false) => {
+    if (value === undefined || value === null || value === "") return undefined;
+    const text = String(value).trim();
+    const date = new Date(text);
+    if (isNaN(date.getTime())) throw new ServiceError(`Invalid ${field} date`, 400);
+    if (endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(text)) date.setUTCDate(date.getUTCDate() + 1);
+    return date;
+};
+
+/** Start of the period containing `date`, in UTC; weeks start on Monday like Postgres date_trunc */
+export const periodStart = (date: Date, granularity: Granularity) => {
+    const start = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+    if (granularity === "week") start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7));
+    if (granularity === "month") start.setUTCDate(1);
+    return start;
+};
+
+const nextPeriod = (start: Date, granularity: Granularity) => {
+    const next = new Date(start);
+    if (granularity === "day") next.setUTCDate(next.getUTCDate() + 1);
+    if (granularity === "week") next.setUTCDate(next.getUTCDate() + 7);
+    if (granularity === "month") next.setUTCMonth(next.getUTCMonth() + 1);
+    return next;
+};
+
+/** ISO 8601 key of the period containing `date`: 2026-10-19, 2026-W43 or 2026-10 */
+export const periodKey = (date: Date, granularity: Granularity) => {
+    const start = periodStart(date, granularity);
+    if (granularity === "day") return start.toISOString().slice(0, 10);
+    if (granularity === "month") return start.toISOString().slice(0, 7);
+
+    // ISO week-numbering year is the year of the week's Thursday
+    const thursday = new Date(start.getTime() + 3 * DAY_MS);
+    const year = thursday.getUTCFullYear();
+    const week = Math.floor((thursday.getTime() - Date.UTC(year, 0, 1)) / (7 * DAY_MS)) + 1;
+    return `${year}-W${String(week).padStart(2, "0")}`;
+};
+
+/** Every period key of the range in order, so empty periods can be reported as zero */
+export const periodKeys = (range: DateRange) => {
+    const keys: string[] = [];
+    for (let start = periodStart(range.from, range.granularity); start < range.to; start = nextPeriod(start, range.granularity)) {
+        keys.push(periodKey(start, range.granularity));
+    }
+    return keys;
+};
+
+/**
+ * Parse ?from=&to=&granularity= into a half-open UTC range.
+ * Defaults to the last `days` days; 400 on bad dates, an empty range or too many periods.
+ */
+const dateRangeHelpers = (query: DateRangeQuery, defaults: DateRangeDefaults): DateRange => {
+    const granularity = (typeof query.granularity === "string" && query.granularity
+        ? query.granularity.toLowerCase()
+        : defaults.granularity) as Granularity;
+    if (!GRANULARITIES.includes(granularity)) {
+        throw new ServiceError(`granularity must be one of ${GRANULARITIES.join(", ")}`, 400);
+    }
+
+    const to = parseDate(query.to, "to", true) ?? new Date();
+    const from = parseDate(query.from, "from") ?? new Date(to.getTime() - defaults.days * DAY_MS);
+    if (from >= to) throw new ServiceError("from must be before to", 400);
+
+    const range = { from, to, granularity };
+    if (periodKeys(range).length > MAX_PERIODS) {
+        throw new ServiceError(`Date range is too long for granularity=${granularity}; use a coarser granularity`, 400);
+    }
+    return range;
+};
+
+export default dateRangeHelpers;
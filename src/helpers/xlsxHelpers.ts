@@ -0,0 +1,230 @@
+import { crc32, inflateRawSync } from "node:zlib";
+
+type XlsxValue = string | number | boolean | Date | null | undefined;
+
+export const XLSX_CONTENT_TYPE = "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+/** XLSX files are zip archives; every archive starts with a local file header "PK\3\4" */
+export const isXlsx = (buffer: Buffer) => buffer.length > 4 && buffer.readUInt32LE(0) === 0x04034b50;
+
+const decodeXml = (text: string) =>
+    text.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (_, entity: string) => {
+        const named: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'" };
+        if (entity[0] !== "#") return named[entity.toLowerCase()] ?? "";
+        const code = entity[1] === "x" || entity[1] === "X" ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+        return String.fromCodePoint(code);
+    });
+
+const encodeXml = (text: string) =>
+    text
+        .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, "")
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;");
+
+/** Uncompressed size limits; the sheet of the largest accepted import is a few MB */
+const MAX_ENTRY_BYTES = 20 * 1024 * 1024;
+const MAX_TOTAL_BYTES = 50 * 1024 * 1024;
+
+/**
+ * Helper: reader for the entries of a zip archive by name (stored or deflated).
+ * Entries are inflated on first read, at most MAX_ENTRY_BYTES each and MAX_TOTAL_BYTES
+ * altogether, so a zip bomb is rejected instead of exhausting memory.
+ */
+const readZip = (buffer: Buffer) => {
+    // end of central directory record: last 22 bytes + up to 64 KiB of comment
+    let eocd = -1;
+    for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 22 - 0xffff); i--) {
+        if (buffer.readUInt32LE(i) === 0x06054b50) {
+            eocd = i;
+            break;
+        }
+    }
+    if (eocd < 0) throw new Error("Not a zip archive");
+
+    const entries = new Map<string, { method: number; data: Buffer; size: number }>();
+    const count = buffer.readUInt16LE(eocd + 10);
+    let offset = buffer.readUInt32LE(eocd + 16);
+    for (let n = 0; n < count; n++) {
+        if (buffer.readUInt32LE(offset) !== 0x02014b50) throw new Error("Corrupt zip central directory");
+        const method = buffer.readUInt16LE(offset + 10);
+        const compressedSize = buffer.readUInt32LE(offset + 20);
+        const size = buffer.readUInt32LE(offset + 24);
+        const nameLength = buffer.readUInt16LE(offset + 28);
+        const extraLength = buffer.readUInt16LE(offset + 30);
+        const commentLength = buffer.readUInt16LE(offset + 32);
+        const localOffset = buffer.readUInt32LE(offset + 42);
+        const name = buffer.toString("utf8", offset + 46, offset + 46 + nameLength);
+
+        const dataStart = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+        if (dataStart + compressedSize > buffer.length) throw new Error("Corrupt zip entry");
+        if (method === 0 || method === 8) {
+            entries.set(name, { method, data: buffer.subarray(dataStart, dataStart + compressedSize), size });
+        }
+
+        offset += 46 + nameLength + extraLength + commentLength;
+    }
+
+    let total = 0;
+    return (name: string) => {
+        const entry = entries.get(name);
+        if (!entry) return undefined;
+
+        // the declared size can lie, so inflation is capped as well
+        const limit = Math.min(MAX_ENTRY_BYTES, MAX_TOTAL_BYTES - total);
+        if (entry.size > limit || (entry.method === 0 && entry.data.length > limit)) {
+            throw new Error(`Zip entry ${name} is too large`);
+        }
+        const data = entry.method === 0 ? entry.data : inflateRawSync(entry.data, { maxOutputLength: limit });
+        total += data.length;
+        return data;
+    };
+};
+
+/** Helper: zero-based column index of a cell reference, e.g. "AB12" -> 27 */
+const columnIndex = (ref: string) => {
+    let index = 0;
+    for (const ch of ref.replace(/\d+$/, "").toUpperCase()) index = index * 26 + (ch.charCodeAt(0) - 64);
+    return index - 1;
+};
+
+const columnName = (index: number) => {
+    let name = "";
+    for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+    return name;
+};
+
+/** Helper: concatenated text of all <t> runs (rich text is flattened) */
+const textOf = (xml: string) => [...xml.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g)].map((m) => decodeXml(m[1]!)).join("");
+
+/**
+ * Read the first worksheet of an XLSX workbook into rows of cell strings,
+ * the same shape `parseCsv` returns. Empty rows are skipped.
+ */
+export const parseXlsx = (buffer: Buffer) => {
+    const readEntry = readZip(buffer);
+    const xml = (name: string) => readEntry(name)?.toString("utf8");
+
+    const sharedStrings = [...(xml("xl/sharedStrings.xml") ?? "").matchAll(/<si>([\s\S]*?)<\/si>/g)].map((m) => textOf(m[1]!));
+
+    // first sheet in workbook order, resolved through the workbook relationships
+    const firstSheetRel = /<sheet\s[^>]*r:id="([^"]+)"/.exec(xml("xl/workbook.xml") ?? "")?.[1];
+    const target = firstSheetRel
+        ? new RegExp(`<Relationship\\s[^>]*Id="${firstSheetRel}"[^>]*Target="([^"]+)"`).exec(xml("xl/_rels/workbook.xml.rels") ?? "")?.[1]
+        : undefined;
+    const sheetPath = target ? (target.startsWith("/") ? target.slice(1) : `xl/${target}`) : "xl/worksheets/sheet1.xml";
+    const sheet = xml(sheetPath);
+    if (!sheet) throw new Error("Workbook has no worksheet");
+
+    const rows: string[][] = [];
+    for (const rowMatch of sheet.matchAll(/<row\b[^>]*>([\s\S]*?)<\/row>/g)) {
+        const row: string[] = [];
+        for (const cell of rowMatch[1]!.matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+            const attrs = cell[1]!;
+            const body = cell[2] ?? "";
+            const ref = /\br="([A-Z]+\d+)"/.exec(attrs)?.[1];
+            const type = /\bt="(\w+)"/.exec(attrs)?.[1];
+            const raw = /<v>([\s\S]*?)<\/v>/.exec(body)?.[1];
+
+            let value = "";
+            if (type === "s") value = sharedStrings[Number(raw)] ?? "";
+            else if (type === "inlineStr") value = textOf(body);
+            else if (type === "b") value = raw === "1" ? "true" : "false";
+            else if (raw !== undefined) value = decodeXml(raw);
+
+            const index = ref ? columnIndex(ref) : row.length;
+            while (row.length < index) row.push("");
+            row[index] = value;
+        }
+        if (row.some((v) => v !== "")) rows.push(row);
+    }
+    return rows;
+};
+
+/** Helper: zip archive with stored (uncompressed) entries */
+const writeZip = (entries: { name: string; data: Buffer }[]) => {
+    const locals: Buffer[] = [];
+    const centrals: Buffer[] = [];
+    let offset = 0;
+    for (const { name, data } of entries) {
+        const fileName = Buffer.from(name, "utf8");
+        const checksum = crc32(data);
+
+        const local = Buffer.alloc(30);
+        local.writeUInt32LE(0x04034b50, 0);
+        local.writeUInt16LE(20, 4); // version needed
+        local.writeUInt32LE(checksum, 14);
+        local.writeUInt32LE(data.length, 18);
+        local.writeUInt32LE(data.length, 22);
+        local.writeUInt16LE(fileName.length, 26);
+        locals.push(local, fileName, data);
+
+        const central = Buffer.alloc(46);
+        central.writeUInt32LE(0x02014b50, 0);
+        central.writeUInt16LE(20, 4); // version made by
+        central.writeUInt16LE(20, 6); // version needed
+        central.writeUInt32LE(checksum, 16);
+        central.writeUInt32LE(data.length, 20);
+        central.writeUInt32LE(data.length, 24);
+        central.writeUInt16LE(fileName.length, 28);
+        central.writeUInt32LE(offset, 42);
+        centrals.push(central, fileName);
+
+        offset += local.length + fileName.length + data.length;
+    }
+
+    const directory = Buffer.concat(centrals);
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(entries.length, 8);
+    end.writeUInt16LE(entries.length, 10);
+    end.writeUInt32LE(directory.length, 12);
+    end.writeUInt32LE(offset, 16);
+    return Buffer.concat([...locals, directory, end]);
+};
+
+/**
+ * Serialize rows to a single-sheet XLSX workbook using the given column keys as header.
+ * Numbers are written as numbers, everything else as inline strings.
+ */
+export const toXlsx = <T extends Record<string, XlsxValue>>(columns: (keyof T & string)[], rows: T[], sheetName = "Sheet1") => {
+    const cell = (value: XlsxValue, ref: string) => {
+        if (value === null || value === undefined || value === "") return "";
+        if (typeof value === "number" && Number.isFinite(value)) return `<c r="${ref}"><v>${value}</v></c>`;
+        const text = value instanceof Date ? value.toISOString() : String(value);
+        return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${encodeXml(text)}</t></is></c>`;
+    };
+    const rowXml = (values: XlsxValue[], r: number) =>
+        `<row r="${r}">${values.map((v, i) => cell(v, `${columnName(i)}${r}`)).join("")}</row>`;
+
+    const sheetRows = [rowXml(columns, 1), ...rows.map((row, i) => rowXml(columns.map((c) => row[c]), i + 2))];
+    const xmlHeader = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+    const ns = "http://schemas.openxmlformats.org";
+
+    const files: Record<string, string> = {
+        "[Content_Types].xml":
+            `<Types xmlns="${ns}/package/2006/content-types">` +
+            `<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>` +
+            `<Default Extension="xml" ContentType="application/xml"/>` +
+            `<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>` +
+            `<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>` +
+            `</Types>`,
+        "_rels/.rels":
+            `<Relationships xmlns="${ns}/package/2006/relationships">` +
+            `<Relationship Id="rId1" Type="${ns}/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>` +
+            `</Relationships>`,
+        "xl/workbook.xml":
+            `<workbook xmlns="${ns}/spreadsheetml/2006/main" xmlns:r="${ns}/officeDocument/2006/relationships">` +
+            `<sheets><sheet name="${encodeXml(sheetName.slice(0, 31))}" sheetId="1" r:id="rId1"/></sheets>` +
+            `</workbook>`,
+        "xl/_rels/workbook.xml.rels":
+            `<Relationships xmlns="${ns}/package/2006/relationships">` +
+            `<Relationship Id="rId1" Type="${ns}/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>` +
+            `</Relationships>`,
+        "xl/worksheets/sheet1.xml":
+            `<worksheet xmlns="${ns}/spreadsheetml/2006/main"><sheetData>${sheetRows.join("")}</sheetData></worksheet>`,
+    };
+
+    return writeZip(Object.entries(files).map(([name, xml]) => ({ name, data: Buffer.from(xmlHeader + xml, "utf8") })));
+};
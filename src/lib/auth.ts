@@ -1,6 +1,8 @@
 import { betterAuth } from "better-auth";
 import { prismaAdapter } from "better-auth/adapters/prisma";
+import { APIError } from "better-auth/api";
 import { prisma } from "./prisma";
+import getActiveBan from "../helpers/banHelpers";
 
 export const auth = betterAuth({
     database: prismaAdapter(prisma, {
@@ -11,7 +13,8 @@ export const auth = betterAuth({
             role: {
                 type: "string",
                 defaultValue: "CUSTOMER",
-                required: false
+                required: false,
+                input: false // sellers are approved through /api/seller-applications
             },
             phone: {
                 type: "string",
@@ -32,6 +35,24 @@ export const auth = betterAuth({
     emailAndPassword: {
         enabled: true,
     },
+    databaseHooks: {
+        session: {
+            create: {
+                // Reject sign-in (email & social) for banned accounts
+                before: async (session) => {
+                    const ban = await getActiveBan(session.userId);
+                    if (ban) {
+                        throw new APIError("FORBIDDEN", {
+                            code: "USER_BANNED",
+                            message: ban.banReason
+                                ? `Your account has been banned: ${ban.banReason}`
+                                : "Your account has been banned",
+                        });
+                    }
+                },
+            },
+        },
+    },
     socialProviders: {
         google: {
             prompt: "select_account consent",
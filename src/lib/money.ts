@@ -0,0 +1,116 @@
+import { Prisma } from "../generated/prisma/client";
+import { ServiceError } from "./error";
+
+/**
+ * Money helpers. Amounts are Prisma Decimals (DECIMAL(12,2) columns) and all
+ * arithmetic goes through here so nothing is summed as a binary float.
+ */
+export type Money = Prisma.Decimal;
+export type MoneyInput = Prisma.Decimal | number | string;
+
+export const Decimal = Prisma.Decimal;
+
+/** ISO 4217 code of stored amounts */
+export const DEFAULT_CURRENCY = (process.env.CURRENCY || "BDT").toUpperCase();
+
+export const ZERO = new Decimal(0);
+
+/** Helper: Decimal from number/string/Decimal (null and undefined are zero) */
+export const money = (value: MoneyInput | null | undefined): Money => {
+    if (value === null || value === undefined || value === "") return ZERO;
+    return value instanceof Decimal ? value : new Decimal(value);
+};
+
+/** Round half-up to minor units (2 decimal places) */
+export const roundMoney = (value: MoneyInput) => money(value).toDecimalPlaces(2, Decimal.ROUND_HALF_UP);
+
+export const addMoney = (...values: (MoneyInput | null | undefined)[]) =>
+    values.reduce<Money>((sum, v) => sum.plus(money(v)), ZERO);
+
+export const subtractMoney = (a: MoneyInput, b: MoneyInput) => money(a).minus(money(b));
+
+export const multiplyMoney = (amount: MoneyInput, factor: MoneyInput) => money(amount).times(money(factor));
+
+/** percent of an amount, e.g. VAT or percentage discount */
+export const percentOf = (amount: MoneyInput, percent: MoneyInput) => money(amount).times(money(percent)).dividedBy(100);
+
+export const sumMoney = <T>(items: T[], pick: (item: T) => MoneyInput | null | undefined) =>
+    items.reduce<Money>((sum, item) => sum.plus(money(pick(item))), ZERO);
+
+export const minMoney = (...values: MoneyInput[]) => Decimal.min(...values.map(money));
+
+export const maxMoney = (...values: MoneyInput[]) => Decimal.max(...values.map(money));
+
+/**
+ * Helper: parse a client supplied amount (number or string).
+ * Undefined when absent; 400 unless it is a non-negative amount with at most 2 decimals.
+ */
+export const parseMoney = (value: unknown, field: string): Money | undefined => {
+    if (value === undefined || value === null || value === "") return undefined;
+    let amount: Money | undefined;
+    if (typeof value === "number" || typeof value === "string") {
+        try {
+            amount = new Decimal(value);
+        } catch {
+            amount = undefined;
+        }
+    }
+    if (!amount || !amount.isFinite() || amount.isNegative() || amount.decimalPlaces() > 2) {
+        throw new ServiceError(`${field} must be a non-negative amount with at most 2 decimals`, 400);
+    }
+    return amount;
+};
+
+/** "1234.50" — the wire format used in API responses */
+export const toMoneyString = (value: MoneyInput) => roundMoney(value).toFixed(2);
+
+/** Human readable amount for logs, CSV exports and notifications, e.g. "BDT 1,234.50" */
+export const formatMoney = (value: MoneyInput, currency = DEFAULT_CURRENCY) => {
+    const [whole = "0", fraction = "00"] = toMoneyString(value).split(".");
+    return `${currency} ${whole.replace(/\B(?=(\d{3})+(?!\d))/g, ",")}.${fraction}`;
+};
+
+/** Decimal fields that are exchange rates, not amounts: sent with full precision */
+const RATE_KEYS = new Set(["rate", "exchangeRate"]);
+
+/** Amounts in the sibling `baseCurrency` (the seller's), not in the object's currency */
+const BASE_AMOUNT_KEYS = new Set(["basePrice"]);
+
+/** Nested objects priced in their parent's currency: order / cart lines, shipments, payments, refunds, redemptions */
+const SAME_CURRENCY_KEYS = new Set(["items", "shipments", "payments", "refunds", "coupons", "redemptions"]);
+
+/** Helper: currency of an object's amounts; undefined when it cannot be told */
+const currencyOf = (value: Record<string, any>, inherited: string | undefined) => {
+    if (typeof value.currency === "string") return value.currency;
+    // a medicine is priced in its seller's currency, whatever it is nested in
+    if (value.price instanceof Decimal && ("sellerId" in value || "seller" in value)) {
+        return typeof value.seller?.currency === "string" ? value.seller.currency : undefined;
+    }
+    return inherited;
+};
+
+/**
+ * Deep-convert a response payload: Decimal amounts become fixed 2-decimal strings and an object
+ * carrying amounts gets a `currency` code (unless it already has one). Objects are in the store
+ * currency unless they carry their own; only lines, shipments, payments and the like take their
+ * parent's. Rates and percentage coupon values are sent as plain numbers and never labelled.
+ */
+export const serializeMoney = (value: any, currency: string | undefined = DEFAULT_CURRENCY): any => {
+    if (value instanceof Decimal) return toMoneyString(value);
+    if (Array.isArray(value)) return value.map((v) => serializeMoney(v, currency));
+    if (value === null || typeof value !== "object" || value instanceof Date || Buffer.isBuffer(value)) return value;
+
+    const ownCurrency = currencyOf(value, currency);
+    const out: Record<string, any> = {};
+    let hasAmount = false;
+    for (const [key, v] of Object.entries(value)) {
+        if (v instanceof Decimal && (RATE_KEYS.has(key) || (key === "value" && value.type === "PERCENTAGE"))) {
+            out[key] = v.toString();
+            continue;
+        }
+        if (v instanceof Decimal && !BASE_AMOUNT_KEYS.has(key)) hasAmount = true;
+        out[key] = serializeMoney(v, SAME_CURRENCY_KEYS.has(key) ? ownCurrency : DEFAULT_CURRENCY);
+    }
+    if (hasAmount && ownCurrency !== undefined && out.currency === undefined) out.currency = ownCurrency;
+    return out;
+};
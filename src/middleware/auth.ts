@@ -1,6 +1,7 @@
 import { NextFunction, Request, Response } from "express";
 import { auth as betterAuth } from "../lib/auth";
 import { UserRole } from "../types";
+import getActiveBan from "../helpers/banHelpers";
 
 declare global {
     namespace Express {
@@ -30,6 +31,19 @@ const auth = (...rules: UserRole[]) => {
             })
         }
 
+        // status is read from DB: the cookie cache can outlive a ban
+        const ban = await getActiveBan(session.user.id);
+        if (ban) {
+            return res.status(403).json({
+                success: false,
+                code: "USER_BANNED",
+                message: ban.banExpires
+                    ? `Your account is suspended until ${ban.banExpires.toISOString()}`
+                    : "Your account has been banned",
+                data: ban
+            })
+        }
+
         req.user = {
             id: session.user.id,
             email: session.user.email,
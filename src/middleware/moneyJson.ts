@@ -0,0 +1,9 @@
+import { NextFunction, Request, Response } from "express";
+import { serializeMoney } from "../lib/money";
+
+// res.json wrapper: Decimal amounts go out as "1234.50" strings with a currency code
+export const moneyJson = (_req: Request, res: Response, next: NextFunction) => {
+    const json = res.json.bind(res);
+    res.json = (body?: any) => json(serializeMoney(body));
+    next();
+};
@@ -0,0 +1,14 @@
+import { IncomingMessage } from "http";
+
+declare global {
+    namespace Express {
+        interface Request {
+            rawBody?: Buffer;
+        }
+    }
+}
+
+// body-parser "verify" hook: keep the exact bytes for webhook signature checks
+export const captureRawBody = (req: IncomingMessage, _res: unknown, buf: Buffer) => {
+    (req as any).rawBody = buf;
+};
@@ -1,15 +1,26 @@
 import { Request, Response } from "express";
 import { AdminService } from "./admin.service";
+import { ServiceError } from "../../lib/error";
+import dateRangeHelpers from "../../helpers/dateRangeHelpers";
 
 const send = (res: Response, code: number, message: string, data?: any) =>
     res.status(code).json({ success: code >= 200 && code < 300, message, data });
 
+/**
+ * GET /api/admin/stats?from=2026-01-01&to=2026-06-30&granularity=day|week|month
+ * Default range: the last 180 days by month.
+ */
 const getStats = async (req: Request, res: Response) => {
     try {
-        const result = await AdminService.getStats();
+        const range = dateRangeHelpers(req.query, { days: 180, granularity: "month" });
+        // without an explicit `to` the range ends "now", so cache on the query rather than the dates
+        const cacheKey = JSON.stringify([req.query.from ?? null, req.query.to ?? null, range.granularity]);
+
+        const result = await AdminService.getStats(range, cacheKey);
         return send(res, 200, "Admin stats retrieved successfully", result);
     } catch (err: any) {
-        return send(res, 500, err?.message || "Failed to retrieve admin stats");
+        const status = err instanceof ServiceError ? err.statusCode : 500;
+        return send(res, status, err?.message || "Failed to retrieve admin stats");
     }
 };
 
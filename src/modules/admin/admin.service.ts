@@ -1,94 +1,116 @@
 import { prisma } from "../../lib/prisma";
+import { ServiceError } from "../../lib/error";
+import { DEFAULT_CURRENCY, sumMoney, ZERO, type Money } from "../../lib/money";
+import { periodKey, periodKeys, type DateRange } from "../../helpers/dateRangeHelpers";
 
-const getStats = async () => {
-    // 1. Core Metrics
-    const totalRevenueResult = await prisma.order.aggregate({
-        _sum: { total: true },
-        where: { status: { not: "CANCELLED" } },
-    });
-    
-    const totalRevenue = totalRevenueResult._sum.total || 0;
-    const totalUsers = await prisma.user.count();
-    const totalCustomers = await prisma.user.count({ where: { role: "CUSTOMER" } });
-    const totalSellers = await prisma.user.count({ where: { role: "SELLER" } });
-    const bannedUsers = await prisma.user.count({ where: { status: "BAN" } });
-
-    const totalOrders = await prisma.order.count();
-    const pendingOrders = await prisma.order.count({ where: { status: "PLACED" } });
-    const deliveredOrders = await prisma.order.count({ where: { status: "DELIVERED" } });
-    const cancelledOrders = await prisma.order.count({ where: { status: "CANCELLED" } });
-
-    const totalMedicines = await prisma.medicine.count();
-    const activeMedicines = await prisma.medicine.count({ where: { isActive: true } });
-    const featuredMedicines = await prisma.medicine.count({ where: { isFeatured: true } });
-
-    // 2. Orders by Status (For Pie Chart)
-    const ordersByStatusRaw = await prisma.order.groupBy({
-        by: ['status'],
-        _count: { status: true }
-    });
-    const ordersByStatus = ordersByStatusRaw.map((item: any) => ({
-        status: item.status,
-        count: item._count.status
-    }));
+type StatsCacheEntry = {
+    expiresAt: number;
+    stats: Promise<Awaited<ReturnType<typeof computeStats>>>;
+};
 
-    // 3. Revenue over last 6 months (For Bar/Line Chart)
-    const sixMonthsAgo = new Date();
-    sixMonthsAgo.setMonth(sixMonthsAgo.getMonth() - 6);
+/** Dashboard stats are reused for a short while; they are polled, not edited */
+const STATS_CACHE_TTL_MS = 60 * 1000;
+const STATS_CACHE_MAX_ENTRIES = 100;
+const statsCache = new Map<string, StatsCacheEntry>();
 
-    const recentOrders = await prisma.order.findMany({
-        where: {
-            status: { not: "CANCELLED" },
-            createdAt: { gte: sixMonthsAgo }
-        },
-        select: {
-            total: true,
-            createdAt: true
-        }
-    });
+const computeStats = async (range: DateRange) => {
+    const { from, to, granularity } = range;
 
-    // Group recent orders by month
-    const revenueByMonthMap: Record<string, number> = {};
-    recentOrders.forEach((order: any) => {
-        const monthYear = order.createdAt.toLocaleString('default', { month: 'short', year: 'numeric' });
-        revenueByMonthMap[monthYear] = (revenueByMonthMap[monthYear] || 0) + Number(order.total);
-    });
+    // order totals are in their checkout currency; revenue is reported in the store currency
+    const [[users], [medicines], ordersByStatusRaw, revenueRows, [commission], recentTransactions] = await Promise.all([
+        prisma.$queryRaw<{ total: number; customers: number; sellers: number; banned: number }[]>`
+            SELECT COUNT(*)::int AS total,
+                COUNT(*) FILTER (WHERE "role" = 'CUSTOMER')::int AS customers,
+                COUNT(*) FILTER (WHERE "role" = 'SELLER')::int AS sellers,
+                COUNT(*) FILTER (WHERE "status" = 'BAN')::int AS banned
+            FROM "user"`,
+        prisma.$queryRaw<{ total: number; active: number; featured: number }[]>`
+            SELECT COUNT(*)::int AS total,
+                COUNT(*) FILTER (WHERE "isActive")::int AS active,
+                COUNT(*) FILTER (WHERE "isFeatured")::int AS featured
+            FROM "medicine"`,
+        prisma.$queryRaw<{ status: string; count: number }[]>`
+            SELECT "status"::text AS status, COUNT(*)::int AS count
+            FROM "order"
+            WHERE "createdAt" >= ${from} AND "createdAt" < ${to}
+            GROUP BY 1`,
+        prisma.$queryRaw<{ period: Date; revenue: Money; orders: number }[]>`
+            SELECT date_trunc(${granularity}, "createdAt") AS period,
+                SUM(ROUND("total" / "exchangeRate", 2)) AS revenue,
+                COUNT(*)::int AS orders
+            FROM "order"
+            WHERE "status" <> 'CANCELLED' AND "createdAt" >= ${from} AND "createdAt" < ${to}
+            GROUP BY 1
+            ORDER BY 1`,
+        // platform's cut: commission on delivered sales less commission handed back on refunds
+        prisma.$queryRaw<{ commission: Money | null }[]>`
+            SELECT SUM("commission") AS commission
+            FROM "seller_ledger_entry"
+            WHERE "createdAt" >= ${from} AND "createdAt" < ${to}`,
+        prisma.order.findMany({
+            where: { createdAt: { gte: from, lt: to } },
+            take: 5,
+            orderBy: { createdAt: "desc" },
+            include: { user: { select: { name: true, email: true } } },
+        }),
+    ]);
 
-    const revenueByMonth = Object.entries(revenueByMonthMap).map(([month, revenue]) => ({
-        month,
-        revenue
-    })).reverse();
+    const countOf = (status: string) => ordersByStatusRaw.find((s) => s.status === status)?.count ?? 0;
 
-    // 4. Recent Transactions
-    const recentTransactions = await prisma.order.findMany({
-        take: 5,
-        orderBy: { createdAt: 'desc' },
-        include: {
-            user: { select: { name: true, email: true } }
-        }
-    });
+    // every period of the range is reported, empty ones as zero
+    const byKey = new Map(revenueRows.map((r) => [periodKey(r.period, granularity), r]));
+    const revenueByPeriod = periodKeys(range).map((period) => ({
+        period,
+        revenue: byKey.get(period)?.revenue ?? ZERO,
+        orders: byKey.get(period)?.orders ?? 0,
+    }));
 
     return {
-        totalRevenue,
-        totalOrders,
-        totalUsers,
-        totalCustomers,
-        totalSellers,
-        bannedUsers,
-        pendingOrders,
-        deliveredOrders,
-        cancelledOrders,
-        totalMedicines,
-        activeMedicines,
-        featuredMedicines,
+        range: { from, to, granularity },
+        currency: DEFAULT_CURRENCY,
+        totalRevenue: sumMoney(revenueRows, (r) => r.revenue),
+        platformCommission: commission?.commission ?? ZERO,
+        totalOrders: ordersByStatusRaw.reduce((sum, s) => sum + s.count, 0),
+        totalUsers: users?.total ?? 0,
+        totalCustomers: users?.customers ?? 0,
+        totalSellers: users?.sellers ?? 0,
+        bannedUsers: users?.banned ?? 0,
+        pendingOrders: countOf("PLACED"),
+        deliveredOrders: countOf("DELIVERED"),
+        cancelledOrders: countOf("CANCELLED"),
+        totalMedicines: medicines?.total ?? 0,
+        activeMedicines: medicines?.active ?? 0,
+        featuredMedicines: medicines?.featured ?? 0,
         charts: {
-            ordersByStatus,
-            revenueByMonth
+            ordersByStatus: ordersByStatusRaw,
+            revenueByPeriod,
         },
-        recentTransactions
+        recentTransactions,
     };
 };
 
+/**
+ * Admin dashboard for orders placed in the range (user and medicine counts are current totals).
+ * Results are cached per range for STATS_CACHE_TTL_MS.
+ */
+const getStats = async (range: DateRange, cacheKey = JSON.stringify(range)) => {
+    const now = Date.now();
+    const cached = statsCache.get(cacheKey);
+    if (cached && cached.expiresAt > now) return cached.stats;
+
+    for (const [key, entry] of statsCache) {
+        if (entry.expiresAt <= now || statsCache.size >= STATS_CACHE_MAX_ENTRIES) statsCache.delete(key);
+    }
+    const stats = computeStats(range).catch((err) => {
+        // failures are not cached
+        statsCache.delete(cacheKey);
+        console.error("getStats error:", err);
+        throw new ServiceError("Failed to retrieve admin stats", 500);
+    });
+    statsCache.set(cacheKey, { expiresAt: now + STATS_CACHE_TTL_MS, stats });
+    return stats;
+};
+
 export const AdminService = {
     getStats,
 };
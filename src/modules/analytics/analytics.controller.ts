@@ -0,0 +1,42 @@
+import { Request, Response } from "express";
+import { analyticsService } from "./analytics.service";
+import { ServiceError } from "../../lib/error";
+import dateRangeHelpers from "../../helpers/dateRangeHelpers";
+
+const send = (res: Response, code: number, message: string, data?: any) =>
+    res.status(code).json({ message, data });
+
+const sendError = (res: Response, err: any, fallback: string) => {
+    const status = err instanceof ServiceError ? err.statusCode : 500;
+    const message = err?.message || fallback;
+    const details = err instanceof ServiceError ? err.details : undefined;
+    return res.status(status).json({ message, details });
+};
+
+const DEFAULT_LOW_STOCK = 10;
+
+/**
+ * GET /api/seller/stats?from=2026-10-01&to=2026-10-31&granularity=day|week|month&lowStock=10
+ * Default range: the last 30 days by day.
+ */
+const getSellerStats = async (req: Request, res: Response) => {
+    try {
+        const user = (req as any).user;
+        if (!user?.id) return send(res, 401, "Unauthorized");
+
+        const range = dateRangeHelpers(req.query, { days: 30, granularity: "day" });
+        const lowStockThreshold = req.query.lowStock === undefined ? DEFAULT_LOW_STOCK : Number(req.query.lowStock);
+        if (!Number.isInteger(lowStockThreshold) || lowStockThreshold < 0) {
+            return send(res, 400, "lowStock must be a non-negative integer");
+        }
+
+        const stats = await analyticsService.getSellerStats(user.id, { ...range, lowStockThreshold });
+        return send(res, 200, "Seller stats fetched", stats);
+    } catch (err) {
+        return sendError(res, err, "Failed to fetch seller stats");
+    }
+};
+
+export const analyticsController = {
+    getSellerStats,
+};
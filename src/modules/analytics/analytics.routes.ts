@@ -0,0 +1,11 @@
+import { Router } from "express";
+import { analyticsController } from "./analytics.controller";
+import auth from "../../middleware/auth";
+import { UserRole } from "../../types";
+
+const router = Router();
+
+// Seller dashboard
+router.get("/stats", auth(UserRole.SELLER), analyticsController.getSellerStats);
+
+export const analyticsRouter = router;
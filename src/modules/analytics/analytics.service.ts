@@ -0,0 +1,115 @@
+import { prisma } from "../../lib/prisma";
+import { ServiceError } from "../../lib/error";
+import { DEFAULT_CURRENCY, sumMoney, ZERO, type Money } from "../../lib/money";
+import { periodKey, periodKeys, type DateRange } from "../../helpers/dateRangeHelpers";
+
+type SellerStatsOptions = DateRange & {
+    lowStockThreshold: number;
+};
+
+type PeriodRow = { period: Date; revenue: Money; units: number; orders: number };
+type MedicineRow = { medicineId: string; name: string; units: number; revenue: Money };
+type StatusRow = { status: string; count: number };
+
+const TOP_PRODUCTS = 10;
+const STOCK_LIST_LIMIT = 100;
+
+/**
+ * Seller dashboard for orders placed in the range, scoped to the seller's medicines.
+ * Revenue is in the store currency and net of returned units; cancelled items are left out
+ * of revenue and units but counted in the status breakdown and cancellation rate.
+ */
+const getSellerStats = async (sellerId: string, opts: SellerStatsOptions) => {
+    const { from, to, granularity, lowStockThreshold } = opts;
+
+    try {
+        const [periods, medicines, statuses, rating, outOfStock, lowStock] = await Promise.all([
+            prisma.$queryRaw<PeriodRow[]>`
+                SELECT date_trunc(${granularity}, o."createdAt") AS period,
+                    SUM(ROUND(oi."unitPrice" * (oi."quantity" - oi."returnedQuantity") / o."exchangeRate", 2)) AS revenue,
+                    SUM(oi."quantity" - oi."returnedQuantity")::int AS units,
+                    COUNT(DISTINCT o."id")::int AS orders
+                FROM "order_item" oi
+                JOIN "order" o ON o."id" = oi."orderId"
+                JOIN "medicine" m ON m."id" = oi."medicineId"
+                WHERE m."sellerId" = ${sellerId} AND oi."orderItemStatus" <> 'CANCELLED'
+                    AND o."createdAt" >= ${from} AND o."createdAt" < ${to}
+                GROUP BY 1
+                ORDER BY 1`,
+            prisma.$queryRaw<MedicineRow[]>`
+                SELECT m."id" AS "medicineId", m."name",
+                    SUM(oi."quantity" - oi."returnedQuantity")::int AS units,
+                    SUM(ROUND(oi."unitPrice" * (oi."quantity" - oi."returnedQuantity") / o."exchangeRate", 2)) AS revenue
+                FROM "order_item" oi
+                JOIN "order" o ON o."id" = oi."orderId"
+                JOIN "medicine" m ON m."id" = oi."medicineId"
+                WHERE m."sellerId" = ${sellerId} AND oi."orderItemStatus" <> 'CANCELLED'
+                    AND o."createdAt" >= ${from} AND o."createdAt" < ${to}
+                GROUP BY m."id", m."name"
+                ORDER BY units DESC, m."name"`,
+            prisma.$queryRaw<StatusRow[]>`
+                SELECT oi."orderItemStatus"::text AS status, COUNT(*)::int AS count
+                FROM "order_item" oi
+                JOIN "order" o ON o."id" = oi."orderId"
+                JOIN "medicine" m ON m."id" = oi."medicineId"
+                WHERE m."sellerId" = ${sellerId} AND o."createdAt" >= ${from} AND o."createdAt" < ${to}
+                GROUP BY 1`,
+            prisma.review.aggregate({
+                where: { medicine: { sellerId }, createdAt: { gte: from, lt: to } },
+                _avg: { rating: true },
+                _count: { rating: true },
+            }),
+            prisma.medicine.findMany({
+                where: { sellerId, isActive: true, stock: { lte: 0 } },
+                select: { id: true, name: true, sku: true, stock: true },
+                orderBy: { name: "asc" },
+                take: STOCK_LIST_LIMIT,
+            }),
+            prisma.medicine.findMany({
+                where: { sellerId, isActive: true, stock: { gt: 0, lte: lowStockThreshold } },
+                select: { id: true, name: true, sku: true, stock: true },
+                orderBy: [{ stock: "asc" }, { name: "asc" }],
+                take: STOCK_LIST_LIMIT,
+            }),
+        ]);
+
+        // every period of the range is reported, empty ones as zero
+        const byKey = new Map(periods.map((p) => [periodKey(p.period, granularity), p]));
+        const revenueByPeriod = periodKeys(opts).map((period) => ({
+            period,
+            revenue: byKey.get(period)?.revenue ?? ZERO,
+            units: byKey.get(period)?.units ?? 0,
+            orders: byKey.get(period)?.orders ?? 0,
+        }));
+
+        const orderItemStatus = Object.fromEntries(statuses.map((s) => [s.status, s.count]));
+        const totalItems = statuses.reduce((sum, s) => sum + s.count, 0);
+        const cancelledItems = orderItemStatus.CANCELLED ?? 0;
+
+        return {
+            range: { from, to, granularity },
+            currency: DEFAULT_CURRENCY,
+            summary: {
+                revenue: sumMoney(periods, (p) => p.revenue),
+                units: periods.reduce((sum, p) => sum + p.units, 0),
+                orders: periods.reduce((sum, p) => sum + p.orders, 0),
+                averageRating: rating._avg.rating ?? null,
+                reviewCount: rating._count.rating ?? 0,
+                // % of the range's order items that were cancelled
+                cancellationRate: totalItems ? Math.round((cancelledItems / totalItems) * 1000) / 10 : null,
+            },
+            revenueByPeriod,
+            unitsByMedicine: medicines,
+            topProducts: [...medicines].sort((a, b) => b.revenue.comparedTo(a.revenue)).slice(0, TOP_PRODUCTS),
+            orderItemStatus,
+            stock: { lowStockThreshold, lowStock, outOfStock },
+        };
+    } catch (err: any) {
+        console.error("getSellerStats error:", err);
+        throw new ServiceError("Failed to fetch seller stats", 500);
+    }
+};
+
+export const analyticsService = {
+    getSellerStats,
+};
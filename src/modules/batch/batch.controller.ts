@@ -0,0 +1,98 @@
+import { Request, Response } from "express";
+import { batchService } from "./batch.service";
+import { ServiceError } from "../../lib/error";
+
+const send = (res: Response, code: number, message: string, data?: any) =>
+    res.status(code).json({ message, data });
+
+const sendError = (res: Response, err: any, fallback: string) => {
+    const status = err instanceof ServiceError ? err.statusCode : 500;
+    const message = err?.message || fallback;
+    const details = err instanceof ServiceError ? err.details : undefined;
+    return res.status(status).json({ message, details });
+};
+
+const listBatches = async (req: Request, res: Response) => {
+    try {
+        const user = (req as any).user;
+        if (!user?.id) return send(res, 401, "Unauthorized");
+
+        const data = await batchService.listBatches(user, req.params.medicineId as string);
+        return send(res, 200, "Batches fetched", data);
+    } catch (err) {
+        return sendError(res, err, "Failed to fetch batches");
+    }
+};
+
+/**
+ * POST /api/batches/medicines/:medicineId
+ * Seller receives a lot (body: { batchNumber, expiryDate, quantity, manufactureDate?, purchaseCost? })
+ */
+const receiveBatch = async (req: Request, res: Response) => {
+    try {
+        const user = (req as any).user;
+        if (!user?.id) return send(res, 401, "Unauthorized");
+
+        const { batchNumber, manufactureDate, expiryDate, quantity, purchaseCost } = req.body ?? {};
+        const batch = await batchService.receiveBatch(user, req.params.medicineId as string, {
+            batchNumber,
+            manufactureDate,
+            expiryDate,
+            quantity,
+            purchaseCost,
+        });
+        return send(res, 201, "Batch received", batch);
+    } catch (err) {
+        return sendError(res, err, "Failed to receive batch");
+    }
+};
+
+/**
+ * PATCH /api/batches/:id
+ * Seller corrects a batch count (body: { quantity, reason? })
+ */
+const adjustBatch = async (req: Request, res: Response) => {
+    try {
+        const user = (req as any).user;
+        if (!user?.id) return send(res, 401, "Unauthorized");
+
+        const { quantity, reason } = req.body ?? {};
+        const batch = await batchService.adjustBatch(user, req.params.id as string, { quantity, reason });
+        return send(res, 200, "Batch updated", batch);
+    } catch (err) {
+        return sendError(res, err, "Failed to update batch");
+    }
+};
+
+/**
+ * GET /api/batches/expiring?days=30
+ */
+const getExpiringReport = async (req: Request, res: Response) => {
+    try {
+        const user = (req as any).user;
+        if (!user?.id) return send(res, 401, "Unauthorized");
+
+        const days = req.query.days === undefined ? 30 : Number(req.query.days);
+        const data = await batchService.getExpiringReport(user, days);
+        return send(res, 200, "Expiring batches fetched", data);
+    } catch (err) {
+        return sendError(res, err, "Failed to fetch expiring batches");
+    }
+};
+
+const writeOffExpired = async (_req: Request, res: Response) => {
+    try {
+        const data = await batchService.writeOffExpired();
+        return send(res, 200, "Expired batches written off", data);
+    } catch (err) {
+        return sendError(res, err, "Failed to write off expired batches");
+    }
+};
+
+export const batchController = {
+    listBatches,
+    receiveBatch,
+    adjustBatch,
+    getExpiringReport,
+    writeOffExpired,
+};
@@ -0,0 +1,15 @@
+import { Router } from "express";
+import { batchController } from "./batch.controller";
+import auth from "../../middleware/auth";
+import { UserRole } from "../../types";
+
+const router = Router();
+
+router.get("/expiring", auth(UserRole.SELLER, UserRole.ADMIN), batchController.getExpiringReport);
+router.post("/write-off-expired", auth(UserRole.ADMIN), batchController.writeOffExpired);
+
+router.get("/medicines/:medicineId", auth(UserRole.SELLER, UserRole.ADMIN), batchController.listBatches);
+router.post("/medicines/:medicineId", auth(UserRole.SELLER), batchController.receiveBatch);
+router.patch("/:id", auth(UserRole.SELLER), batchController.adjustBatch);
+
+export const batchRouter = router;
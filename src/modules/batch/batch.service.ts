@@ -0,0 +1,322 @@
+import { prisma } from "../../lib/prisma";
+import { ServiceError } from "../../lib/error";
+import { multiplyMoney, parseMoney, sumMoney } from "../../lib/money";
+import type { User } from "../../generated/prisma/client";
+import type { StockMovementType } from "../../generated/prisma/enums";
+import { recordStockMovement } from "../stock/stock.service";
+
+type ReceiveBatchType = {
+    batchNumber?: string;
+    manufactureDate?: string | null;
+    expiryDate?: string;
+    quantity?: number | string;
+    purchaseCost?: number | string | null;
+};
+
+type AdjustBatchType = {
+    quantity?: number | string;
+    reason?: string | null;
+};
+
+type MovementMeta = {
+    type: StockMovementType;
+    actorId?: string | null | undefined;
+    reason?: string | null | undefined;
+    orderId?: string | null | undefined;
+    returnRequestId?: string | null | undefined;
+};
+
+/** Batch number used for stock recorded without lot information */
+export const UNBATCHED = "UNBATCHED";
+
+/** Helper: batches that can be sold at `at` (on hand, not expired, not recalled) */
+export const sellableBatchWhere = (at: Date = new Date()) => ({
+    quantity: { gt: 0 },
+    recallId: null,
+    OR: [{ expiryDate: null }, { expiryDate: { gt: at } }],
+});
+
+const parseDate = (value: any, field: string) => {
+    const date = new Date(value);
+    if (value === undefined || value === null || value === "" || Number.isNaN(date.getTime())) {
+        throw new ServiceError(`${field} must be a valid date`, 400);
+    }
+    return date;
+};
+
+/**
+ * Write off every expired batch still holding units (EXPIRY_WRITE_OFF),
+ * so expired lots never count as sellable stock.
+ * Must be called inside a transaction.
+ */
+export const writeOffExpiredBatches = async (tx: any, opts: { medicineIds?: string[] } = {}) => {
+    const where: any = { quantity: { gt: 0 }, expiryDate: { lte: new Date() } };
+    if (opts.medicineIds) where.medicineId = { in: opts.medicineIds };
+
+    const expired = await tx.medicineBatch.findMany({ where });
+    for (const batch of expired) {
+        await recordStockMovement(tx, {
+            medicineId: batch.medicineId,
+            batchId: batch.id,
+            type: "EXPIRY_WRITE_OFF",
+            quantity: -batch.quantity,
+            reason: `Batch ${batch.batchNumber} expired`,
+        });
+    }
+    return expired.length;
+};
+
+/**
+ * Take units out of stock first-expiry-first-out across sellable batches.
+ * Returns the allocation per batch. Throws 409 when sellable stock is short.
+ * Must be called inside a transaction.
+ */
+export const consumeStock = async (tx: any, medicineId: string, quantity: number, meta: MovementMeta) => {
+    const batches = await tx.medicineBatch.findMany({
+        where: { medicineId, ...sellableBatchWhere() },
+        orderBy: [{ expiryDate: { sort: "asc", nulls: "last" } }, { createdAt: "asc" }],
+        include: { medicine: { select: { name: true } } },
+    });
+
+    const available = batches.reduce((sum: number, b: any) => sum + b.quantity, 0);
+    if (available < quantity) {
+        const name = batches[0]?.medicine.name ?? "medicine";
+        throw new ServiceError(`Insufficient stock for ${name}`, 409);
+    }
+
+    const allocations: { batchId: string; quantity: number }[] = [];
+    let remaining = quantity;
+    for (const batch of batches) {
+        if (remaining === 0) break;
+        const take = Math.min(batch.quantity, remaining);
+        await recordStockMovement(tx, { medicineId, batchId: batch.id, quantity: -take, ...meta });
+        allocations.push({ batchId: batch.id, quantity: take });
+        remaining -= take;
+    }
+    return allocations;
+};
+
+/**
+ * Put units into stock. Without a batch they go to the medicine's UNBATCHED batch.
+ * Must be called inside a transaction.
+ */
+export const addStock = async (tx: any, medicineId: string, quantity: number, meta: MovementMeta, batchId?: string) => {
+    if (!batchId) {
+        const batch = await tx.medicineBatch.upsert({
+            where: { medicineId_batchNumber: { medicineId, batchNumber: UNBATCHED } },
+            update: {},
+            create: { medicineId, batchNumber: UNBATCHED },
+        });
+        batchId = batch.id;
+    }
+    return await recordStockMovement(tx, { medicineId, batchId, quantity, ...meta });
+};
+
+/**
+ * Apply a signed stock correction: additions go to the UNBATCHED batch,
+ * removals are taken first-expiry-first-out.
+ * Must be called inside a transaction.
+ */
+export const adjustStock = async (tx: any, medicineId: string, delta: number, meta: MovementMeta) => {
+    if (delta > 0) return await addStock(tx, medicineId, delta, meta);
+    if (delta < 0) return await consumeStock(tx, medicineId, -delta, meta);
+    return null;
+};
+
+/**
+ * Return units of an order item to the batch(es) it was picked from
+ * (cancellation or resellable return). Orders placed before batch
+ * tracking go back to the UNBATCHED batch; units of recalled batches
+ * are not restocked.
+ * Must be called inside a transaction.
+ */
+export const restockOrderItem = async (
+    tx: any,
+    item: { id: string; medicineId: string },
+    quantity: number,
+    meta: MovementMeta
+) => {
+    const allocations = await tx.orderItemBatch.findMany({
+        where: { orderItemId: item.id },
+        orderBy: { createdAt: "asc" },
+        include: { batch: { select: { recallId: true } } },
+    });
+
+    let remaining = quantity;
+    for (const allocation of allocations) {
+        if (remaining === 0) break;
+        const put = Math.min(allocation.quantity, remaining);
+        if (!allocation.batch.recallId) await addStock(tx, item.medicineId, put, meta, allocation.batchId);
+        remaining -= put;
+    }
+    if (remaining > 0) await addStock(tx, item.medicineId, remaining, meta);
+};
+
+/** Helper: seller may only manage batches of own medicines */
+const getOwnedMedicine = async (user: User, medicineId: string) => {
+    const medicine = await prisma.medicine.findUnique({
+        where: { id: medicineId },
+        select: { id: true, name: true, stock: true, sellerId: true },
+    });
+    if (!medicine) throw new ServiceError("Medicine not found", 404);
+    if (user.role === "SELLER" && medicine.sellerId !== user.id) throw new ServiceError("Unauthorized", 403);
+    return medicine;
+};
+
+// Seller services
+
+const listBatches = async (user: User, medicineId: string) => {
+    const medicine = await getOwnedMedicine(user, medicineId);
+    try {
+        const now = new Date();
+        const batches = await prisma.medicineBatch.findMany({
+            where: { medicineId },
+            orderBy: [{ expiryDate: { sort: "asc", nulls: "last" } }, { createdAt: "asc" }],
+        });
+
+        return {
+            medicine,
+            sellableStock: batches
+                .filter((b) => b.quantity > 0 && !b.recallId && (!b.expiryDate || b.expiryDate > now))
+                .reduce((sum, b) => sum + b.quantity, 0),
+            batches: batches.map((b) => ({ ...b, isExpired: !!b.expiryDate && b.expiryDate <= now })),
+        };
+    } catch (err: any) {
+        console.error("listBatches error:", err);
+        throw new ServiceError("Failed to fetch batches", 500);
+    }
+};
+
+/**
+ * Receive a new lot (or top up an existing lot with the same number and expiry).
+ */
+const receiveBatch = async (user: User, medicineId: string, data: ReceiveBatchType) => {
+    await getOwnedMedicine(user, medicineId);
+
+    const batchNumber = typeof data.batchNumber === "string" ? data.batchNumber.trim() : "";
+    if (!batchNumber) throw new ServiceError("batchNumber is required", 400);
+    if (batchNumber.toUpperCase() === UNBATCHED) throw new ServiceError(`${UNBATCHED} is a reserved batch number`, 400);
+
+    const quantity = Number(data.quantity);
+    if (!Number.isInteger(quantity) || quantity <= 0) throw new ServiceError("quantity must be a positive integer", 400);
+
+    const expiryDate = parseDate(data.expiryDate, "expiryDate");
+    const manufactureDate = data.manufactureDate ? parseDate(data.manufactureDate, "manufactureDate") : null;
+    if (expiryDate <= new Date()) throw new ServiceError("Cannot receive an expired batch", 400);
+    if (manufactureDate && manufactureDate >= expiryDate) {
+        throw new ServiceError("manufactureDate must be before expiryDate", 400);
+    }
+
+    const purchaseCost = parseMoney(data.purchaseCost, "purchaseCost") ?? null;
+
+    try {
+        return await prisma.$transaction(async (tx) => {
+            const existing = await tx.medicineBatch.findUnique({
+                where: { medicineId_batchNumber: { medicineId, batchNumber } },
+            });
+            if (existing?.recallId) throw new ServiceError(`Batch ${batchNumber} has been recalled`, 409);
+            if (existing && existing.expiryDate?.getTime() !== expiryDate.getTime()) {
+                throw new ServiceError(`Batch ${batchNumber} already exists with a different expiry date`, 409);
+            }
+
+            const batch = existing ?? await tx.medicineBatch.create({
+                data: { medicineId, batchNumber, manufactureDate, expiryDate, purchaseCost },
+            });
+            await addStock(tx, medicineId, quantity, { type: "RECEIVED", actorId: user.id, reason: `Received batch ${batchNumber}` }, batch.id);
+
+            return await tx.medicineBatch.findUniqueOrThrow({ where: { id: batch.id } });
+        });
+    } catch (err: any) {
+        if (err instanceof ServiceError) throw err;
+        console.error("receiveBatch error:", err);
+        throw new ServiceError("Failed to receive batch", 500);
+    }
+};
+
+/**
+ * Set a batch to a counted quantity; the difference is an ADJUSTMENT movement.
+ */
+const adjustBatch = async (user: User, batchId: string, data: AdjustBatchType) => {
+    const quantity = Number(data.quantity);
+    if (!Number.isInteger(quantity) || quantity < 0) throw new ServiceError("quantity must be a non-negative integer", 400);
+
+    try {
+        return await prisma.$transaction(async (tx) => {
+            const batch = await tx.medicineBatch.findUnique({
+                where: { id: batchId },
+                include: { medicine: { select: { sellerId: true } } },
+            });
+            if (!batch) throw new ServiceError("Batch not found", 404);
+            if (user.role === "SELLER" && batch.medicine.sellerId !== user.id) throw new ServiceError("Unauthorized", 403);
+            if (batch.recallId) throw new ServiceError(`Batch ${batch.batchNumber} has been recalled`, 409);
+
+            await recordStockMovement(tx, {
+                medicineId: batch.medicineId,
+                batchId,
+                type: "ADJUSTMENT",
+                quantity: quantity - batch.quantity,
+                actorId: user.id,
+                reason: data.reason || `Batch ${batch.batchNumber} counted`,
+            });
+
+            return await tx.medicineBatch.findUniqueOrThrow({ where: { id: batchId } });
+        });
+    } catch (err: any) {
+        if (err instanceof ServiceError) throw err;
+        console.error("adjustBatch error:", err);
+        throw new ServiceError("Failed to adjust batch", 500);
+    }
+};
+
+/**
+ * Batches with stock on hand expiring within `days` (seller: own medicines).
+ */
+const getExpiringReport = async (user: User, days: number) => {
+    if (!Number.isInteger(days) || days <= 0) throw new ServiceError("days must be a positive integer", 400);
+
+    try {
+        const now = new Date();
+        const until = new Date(now.getTime() + days * 24 * 60 * 60 * 1000);
+
+        const where: any = { quantity: { gt: 0 }, recallId: null, expiryDate: { gt: now, lte: until } };
+        if (user.role === "SELLER") where.medicine = { sellerId: user.id };
+
+        const batches = await prisma.medicineBatch.findMany({
+            where,
+            orderBy: { expiryDate: "asc" },
+            include: { medicine: { select: { id: true, name: true, genericName: true, sellerId: true } } },
+        });
+
+        return {
+            days,
+            totalUnits: batches.reduce((sum, b) => sum + b.quantity, 0),
+            totalCost: sumMoney(batches, (b) => multiplyMoney(b.purchaseCost ?? 0, b.quantity)),
+            batches: batches.map((b) => ({
+                ...b,
+                daysLeft: Math.ceil((b.expiryDate!.getTime() - now.getTime()) / (24 * 60 * 60 * 1000)),
+            })),
+        };
+    } catch (err: any) {
+        console.error("getExpiringReport error:", err);
+        throw new ServiceError("Failed to fetch expiring batches", 500);
+    }
+};
+
+/** Expiry job: write off every expired batch */
+const writeOffExpired = async () => {
+    try {
+        const writtenOff = await prisma.$transaction((tx) => writeOffExpiredBatches(tx));
+        return { writtenOff };
+    } catch (err: any) {
+        console.error("writeOffExpired error:", err);
+        throw new ServiceError("Failed to write off expired batches", 500);
+    }
+};
+
+export const batchService = {
+    listBatches,
+    receiveBatch,
+    adjustBatch,
+    getExpiringReport,
+    writeOffExpired,
+};
@@ -7,7 +7,8 @@ const send = (res: Response, code: number, message: string, data?: any) =>
 const sendError = (res: Response, err: any, fallback: string) => {
     const status = err instanceof ServiceError ? err.statusCode : 500;
     const message = err?.message || fallback;
-    return res.status(status).json({ message });
+    const details = err instanceof ServiceError ? err.details : undefined;
+    return res.status(status).json({ message, details });
 };
 
 const addMedicineToCart = async (req: Request, res: Response) => {
@@ -23,18 +24,41 @@ const addMedicineToCart = async (req: Request, res: Response) => {
     }
 };
 
+/**
+ * GET /api/cart[?currency=USD]
+ */
 const getCart = async (req: Request, res: Response) => {
     try {
         const userId = req.user?.id;
         if (!userId) return send(res, 401, "Unauthorized");
 
-        const cart = await cartService.getCart(userId);
+        const currency = typeof req.query.currency === "string" ? req.query.currency : undefined;
+        const cart = await cartService.getCart(userId, { currency });
         return send(res, 200, "Cart fetched", cart);
     } catch (err) {
         return sendError(res, err, "Failed to fetch cart");
     }
 };
 
+/**
+ * GET /api/cart/quote?addressId=... | ?shippingAddress=... [&currency=USD]
+ * Price breakdown before placing the order
+ */
+const getQuote = async (req: Request, res: Response) => {
+    try {
+        const userId = req.user?.id;
+        if (!userId) return send(res, 401, "Unauthorized");
+
+        const addressId = typeof req.query.addressId === "string" ? req.query.addressId : undefined;
+        const shippingAddress = typeof req.query.shippingAddress === "string" ? req.query.shippingAddress : undefined;
+        const currency = typeof req.query.currency === "string" ? req.query.currency : undefined;
+        const quote = await cartService.getQuote(userId, { addressId, shippingAddress, currency });
+        return send(res, 200, "Cart quote fetched", quote);
+    } catch (err) {
+        return sendError(res, err, "Failed to fetch cart quote");
+    }
+};
+
 const updateItem = async (req: Request, res: Response) => {
     try {
         const userId = req.user?.id;
@@ -62,9 +86,41 @@ const removeItem = async (req: Request, res: Response) => {
     }
 };
 
+/**
+ * POST /api/cart/coupons
+ * body: { code }
+ */
+const applyCoupon = async (req: Request, res: Response) => {
+    try {
+        const userId = req.user?.id;
+        if (!userId) return send(res, 401, "Unauthorized");
+
+        const { code } = req.body ?? {};
+        const cart = await cartService.applyCoupon(userId, code);
+        return send(res, 200, "Coupon applied", cart);
+    } catch (err) {
+        return sendError(res, err, "Failed to apply coupon");
+    }
+};
+
+const removeCoupon = async (req: Request, res: Response) => {
+    try {
+        const userId = req.user?.id;
+        if (!userId) return send(res, 401, "Unauthorized");
+
+        const cart = await cartService.removeCoupon(userId, req.params.code as string);
+        return send(res, 200, "Coupon removed", cart);
+    } catch (err) {
+        return sendError(res, err, "Failed to remove coupon");
+    }
+};
+
 export const cartController = {
     addMedicineToCart,
     getCart,
+    getQuote,
     updateItem,
     removeItem,
+    applyCoupon,
+    removeCoupon,
 };
\ No newline at end of file
@@ -7,7 +7,10 @@ const router = Router();
 
 router.post("/items", auth(UserRole.CUSTOMER), cartController.addMedicineToCart);
 router.get("/", auth(UserRole.CUSTOMER), cartController.getCart);
+router.get("/quote", auth(UserRole.CUSTOMER), cartController.getQuote);
 router.put("/items/:id", auth(UserRole.CUSTOMER), cartController.updateItem);
 router.delete("/items/:id", auth(UserRole.CUSTOMER), cartController.removeItem);
+router.post("/coupons", auth(UserRole.CUSTOMER), cartController.applyCoupon);
+router.delete("/coupons/:code", auth(UserRole.CUSTOMER), cartController.removeCoupon);
 
 export const cartRouter = router;
\ No newline at end of file
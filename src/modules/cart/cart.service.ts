@@ -1,13 +1,15 @@
 import { prisma } from "../../lib/prisma";
-
-export class ServiceError extends Error {
-    statusCode: number;
-    constructor(message: string, statusCode = 400) {
-        super(message);
-        this.statusCode = statusCode;
-        Object.setPrototypeOf(this, ServiceError.prototype);
-    }
-}
+import { ServiceError } from "../../lib/error";
+import { DEFAULT_CURRENCY, ZERO, type Money } from "../../lib/money";
+import { getCouponIssue, normalizeCouponCode } from "../coupon/coupon.service";
+import { convertMoney, findExchangeRates, getExchangeRates, normalizeCurrency } from "../currency/currency.service";
+import { priceOrder } from "../pricing/pricing.service";
+import { findAlternatives } from "../medicine/medicine.service";
+import { checkInteractions } from "../interaction/interaction.service";
+import { assertPurchaseLimits } from "../limit/limit.service";
+import { findUserAddress, formatAddress } from "../profile/profile.service";
+
+export { ServiceError };
 
 type AddMedicineType = {
     medicineId?: string;
@@ -17,7 +19,7 @@ type AddMedicineType = {
 type CartItemResponse = {
     id: string;
     quantity: number;
-    unitPrice: number;
+    unitPrice: Money;
     medicine: {
         id: string;
         name: string;
@@ -35,6 +37,15 @@ type CartItemResponse = {
  * Add item to cart (create cart if not exists). If item exists, increment quantity.
  * Uses transaction to ensure consistency.
 */
+/** Helper: the cart's lines as they would be with `medicineId` at `quantity` */
+const cartLinesWith = async (tx: any, cartId: string, medicineId: string, quantity: number) => {
+    const others: { medicineId: string; quantity: number }[] = await tx.cartItem.findMany({
+        where: { cartId, medicineId: { not: medicineId } },
+        select: { medicineId: true, quantity: true },
+    });
+    return [...others, { medicineId, quantity }];
+};
+
 const addMedicineToCart = async (userId: string, data: AddMedicineType): Promise<CartItemResponse> => {
     const { medicineId, quantity } = data;
 
@@ -84,6 +95,7 @@ const addMedicineToCart = async (userId: string, data: AddMedicineType): Promise
             if (existing) {
                 const newQty = existing.quantity + qty;
                 if (newQty > medicine.stock) throw new ServiceError("Requested quantity exceeds stock", 409);
+                await assertPurchaseLimits(tx, userId, await cartLinesWith(tx, cart.id, medicineId, newQty), medicineId);
 
                 const updated = await tx.cartItem.update({
                     where: { id: existing.id },
@@ -113,6 +125,7 @@ const addMedicineToCart = async (userId: string, data: AddMedicineType): Promise
 
             // new cart item
             if (qty > medicine.stock) throw new ServiceError("Requested quantity exceeds stock", 409);
+            await assertPurchaseLimits(tx, userId, await cartLinesWith(tx, cart.id, medicineId, qty), medicineId);
 
             const created = await tx.cartItem.create({
                 data: {
@@ -147,8 +160,25 @@ const addMedicineToCart = async (userId: string, data: AddMedicineType): Promise
     }
 };
 
+type CartViewOptions = {
+    shippingAddress?: string | undefined;
+    currency?: string | undefined;
+};
+
+/** Substitutes suggested per unavailable cart item */
+const SUBSTITUTE_LIMIT = 3;
 
-const getCart = async (userId: string) => {
+/**
+ * Cart with price breakdown. Shipping is only quoted when a shipping address is given.
+ * Prices are converted to `currency` (default: store currency) at today's rates.
+ * A missing rate does not fail the cart: without a rate from the store currency it is priced
+ * in the store currency instead, and items that still cannot be converted are left out of the
+ * totals (`priceUnavailable`); `pricingWarnings` says which.
+ * Items that went inactive or out of stock carry `substitutes` (same generic and strength).
+ * `interactionWarnings` lists known interactions between the cart's medicines.
+ */
+const getCart = async (userId: string, opts: CartViewOptions = {}) => {
+    const currency = normalizeCurrency(opts.currency) ?? DEFAULT_CURRENCY;
     try {
         const cart = await prisma.cart.findUnique({
             where: { userId },
@@ -167,16 +197,38 @@ const getCart = async (userId: string) => {
                                 stock: true,
                                 isActive: true,
                                 categoryId: true,
-                                sellerId: true
+                                sellerId: true,
+                                weightGrams: true,
+                                strength: true,
+                                strengthUnit: true,
+                                ingredients: { select: { name: true } },
+                                category: { select: { isPrescriptionRequired: true, vatRate: true } },
+                                seller: { select: { currency: true } },
                             },
                         },
+                        prescription: { select: { id: true, status: true, expiryDate: true } },
                     },
                 },
+                coupons: { orderBy: { createdAt: "asc" }, include: { coupon: true } },
             },
         });
 
         if (!cart) {
-            return { items: [], subtotal: 0 };
+            return {
+                currency,
+                items: [],
+                subtotal: ZERO,
+                discount: ZERO,
+                shippingFee: ZERO,
+                shippingDiscount: ZERO,
+                tax: ZERO,
+                total: ZERO,
+                shippingZone: null,
+                coupons: [],
+                invalidCoupons: [],
+                interactionWarnings: [],
+                pricingWarnings: [],
+            };
         }
 
         // compute subtotal using stored unitPrice (but ensure unitPrice matches current medicine.price if needed)
@@ -195,19 +247,92 @@ const getCart = async (userId: string) => {
                 categoryId: it.medicine.categoryId,
                 sellerId: it.medicine.sellerId
             },
+            prescriptionRequired: it.medicine.category?.isPrescriptionRequired === true,
+            prescription: it.prescription,
             createdAt: it.createdAt,
             updatedAt: it.updatedAt,
         }));
 
-        const subtotal = items.reduce((total, it) => total + it.unitPrice * it.quantity, 0);
+        const sourceOf = (it: (typeof cart.items)[number]) => it.medicine.seller?.currency ?? DEFAULT_CURRENCY;
+        const pricingWarnings: string[] = [];
+        let priceCurrency = currency;
+        let rates = await findExchangeRates(prisma, [DEFAULT_CURRENCY, ...cart.items.map(sourceOf)], priceCurrency);
+        if (!rates.has(DEFAULT_CURRENCY)) {
+            pricingWarnings.push(`No exchange rate from ${DEFAULT_CURRENCY} to ${currency}; prices are shown in ${DEFAULT_CURRENCY}`);
+            priceCurrency = DEFAULT_CURRENCY;
+            rates = await findExchangeRates(prisma, cart.items.map(sourceOf), priceCurrency);
+        }
+        const priced = cart.items.filter((it) => rates.has(sourceOf(it)));
+        for (const it of cart.items.filter((it) => !rates.has(sourceOf(it)))) {
+            pricingWarnings.push(`No exchange rate from ${sourceOf(it)} to ${priceCurrency}; ${it.medicine.name} is left out of the totals`);
+        }
+
+        const pricing = await priceOrder(prisma, {
+            userId,
+            lines: priced.map((it) => ({
+                medicineId: it.medicine.id,
+                categoryId: it.medicine.categoryId,
+                sellerId: it.medicine.sellerId,
+                unitPrice: it.unitPrice,
+                quantity: it.quantity,
+                vatRate: it.medicine.category?.vatRate ?? 0,
+                weightGrams: it.medicine.weightGrams,
+                currency: it.medicine.seller?.currency ?? DEFAULT_CURRENCY,
+            })),
+            coupons: cart.coupons.map((c) => c.coupon),
+            shippingAddress: opts.shippingAddress,
+            currency: priceCurrency,
+        });
+        const { lines, ...breakdown } = pricing;
+        const lineOf = new Map(priced.map((it, i) => [it.id, lines[i]]));
         const cartCount = cart.items.length;
-        return { items, subtotal, cartCount };
+
+        const substitutes = new Map<string, Awaited<ReturnType<typeof findAlternatives>>>();
+        for (const it of cart.items) {
+            if (it.medicine.isActive && it.medicine.stock >= it.quantity) continue;
+            substitutes.set(it.id, await findAlternatives(prisma, it.medicine, { currency: priceCurrency, limit: SUBSTITUTE_LIMIT }));
+        }
+
+        const interactionWarnings = await checkInteractions(prisma, userId, cart.items.map((it) => it.medicine));
+
+        return {
+            items: items.map((it) => ({
+                ...it,
+                unitPrice: lineOf.get(it.id)?.unitPrice ?? it.unitPrice,
+                taxAmount: lineOf.get(it.id)?.taxAmount ?? ZERO,
+                priceUnavailable: !lineOf.has(it.id),
+                available: !substitutes.has(it.id),
+                substitutes: substitutes.get(it.id) ?? [],
+            })),
+            ...breakdown,
+            cartCount,
+            interactionWarnings,
+            pricingWarnings,
+        };
     } catch (err: any) {
+        if (err instanceof ServiceError) throw err;
         console.error("getCart error:", err);
         throw new ServiceError("Failed to fetch cart", 500);
     }
 };
 
+/**
+ * Quote for the cart delivered to a given address (shipping zone fee, discounts, VAT).
+ * Address: saved addressId, free-text shippingAddress, or the default saved address.
+ */
+const getQuote = async (
+    userId: string,
+    opts: { addressId?: string | undefined; shippingAddress?: string | undefined; currency?: string | undefined }
+) => {
+    let shippingAddress = opts.shippingAddress?.trim();
+    if (opts.addressId || !shippingAddress) {
+        const address = await findUserAddress(prisma, userId, opts.addressId);
+        if (address) shippingAddress = formatAddress(address);
+    }
+    if (!shippingAddress) throw new ServiceError("addressId or shippingAddress is required", 400);
+    return await getCart(userId, { shippingAddress, currency: opts.currency });
+};
+
 /**
  * Update cart item quantity. If quantity === 0 => delete item.
  * Validate stock before update.
@@ -240,6 +365,12 @@ const updateItem = async (userId: string, cartItemId: string, quantity?: number)
             }
 
             if (qty > cartItem.medicine.stock) throw new ServiceError("Requested quantity exceeds stock", 409);
+            await assertPurchaseLimits(
+                tx,
+                userId,
+                await cartLinesWith(tx, cartItem.cart.id, cartItem.medicine.id, qty),
+                cartItem.medicine.id
+            );
 
             const updated = await tx.cartItem.update({
                 where: { id: cartItemId },
@@ -295,6 +426,80 @@ const removeItem = async (userId: string, cartItemId: string) => {
     }
 };
 
+/**
+ * Apply coupon code to the cart.
+ * Validates the coupon against current cart contents and the stacking rules
+ * (a non-stackable coupon can't be combined with any other).
+ */
+const applyCoupon = async (userId: string, code?: string) => {
+    const normalized = normalizeCouponCode(code);
+    if (!normalized) throw new ServiceError("code is required", 400);
+
+    try {
+        const cart = await prisma.cart.findUnique({
+            where: { userId },
+            include: {
+                items: {
+                    include: {
+                        medicine: { select: { id: true, categoryId: true, sellerId: true, seller: { select: { currency: true } } } },
+                    },
+                },
+                coupons: { include: { coupon: true } },
+            },
+        });
+        if (!cart || cart.items.length === 0) throw new ServiceError("Cart is empty", 400);
+
+        const coupon = await prisma.coupon.findUnique({ where: { code: normalized } });
+        if (!coupon) throw new ServiceError("Coupon not found", 404);
+
+        if (cart.coupons.some((c) => c.couponId === coupon.id)) throw new ServiceError("Coupon already applied", 409);
+        if (cart.coupons.length > 0 && (!coupon.stackable || cart.coupons.some((c) => !c.coupon.stackable))) {
+            throw new ServiceError("Coupon cannot be combined with other coupons", 409);
+        }
+
+        // coupon amounts are in the store currency
+        const rates = await getExchangeRates(prisma, cart.items.map((it) => it.medicine.seller?.currency ?? DEFAULT_CURRENCY), DEFAULT_CURRENCY);
+        const issue = await getCouponIssue(prisma, coupon, {
+            userId,
+            lines: cart.items.map((it) => ({
+                medicineId: it.medicineId,
+                categoryId: it.medicine.categoryId,
+                sellerId: it.medicine.sellerId,
+                unitPrice: convertMoney(it.unitPrice, rates.get(it.medicine.seller?.currency ?? DEFAULT_CURRENCY)!),
+                quantity: it.quantity,
+            })),
+        });
+        if (issue) throw new ServiceError(issue, 400);
+
+        await prisma.cartCoupon.create({ data: { cartId: cart.id, couponId: coupon.id } });
+        return await getCart(userId);
+    } catch (err: any) {
+        if (err instanceof ServiceError) throw err;
+        console.error("applyCoupon error:", err);
+        throw new ServiceError("Failed to apply coupon", 500);
+    }
+};
+
+/**
+ * Remove coupon code from the cart
+ */
+const removeCoupon = async (userId: string, code?: string) => {
+    const normalized = normalizeCouponCode(code);
+    if (!normalized) throw new ServiceError("code is required", 400);
+
+    try {
+        const { count } = await prisma.cartCoupon.deleteMany({
+            where: { cart: { userId }, coupon: { code: normalized } },
+        });
+        if (count === 0) throw new ServiceError("Coupon is not applied to the cart", 404);
+        return await getCart(userId);
+    } catch (err: any) {
+        if (err instanceof ServiceError) throw err;
+        console.error("removeCoupon error:", err);
+        throw new ServiceError("Failed to remove coupon", 500);
+    }
+};
+
 /** helper to format cart item response */
 const formatCartItem = (ci: any) => ({
     id: ci.id,
@@ -316,6 +521,9 @@ const formatCartItem = (ci: any) => ({
 export const cartService = {
     addMedicineToCart,
     getCart,
+    getQuote,
     updateItem,
     removeItem,
+    applyCoupon,
+    removeCoupon,
 };
\ No newline at end of file
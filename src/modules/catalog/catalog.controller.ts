@@ -0,0 +1,112 @@
+import { Request, Response } from "express";
+import { catalogService } from "./catalog.service";
+import { ServiceError } from "../../lib/error";
+import paginationSortingHelpers from "../../helpers/paginationSortingHelpers";
+
+const send = (res: Response, code: number, message: string, data?: any) =>
+    res.status(code).json({ message, data });
+
+const sendError = (res: Response, err: any, fallback: string) => {
+    const status = err instanceof ServiceError ? err.statusCode : 500;
+    const message = err?.message || fallback;
+    const details = err instanceof ServiceError ? err.details : undefined;
+    return res.status(status).json({ message, details });
+};
+
+/**
+ * POST /api/catalog/imports?dryRun=true&fileName=stock.xlsx&mapping={"Product":"name","MRP":"price"}
+ * Raw CSV or XLSX body; responds 202 with the queued job to poll
+ */
+const startImport = async (req: Request, res: Response) => {
+    try {
+        const user = (req as any).user;
+        if (!user?.id) return send(res, 401, "Unauthorized");
+
+        const job = await catalogService.startImport(user.id, {
+            file: Buffer.isBuffer(req.body) || typeof req.body === "string" ? req.body : undefined,
+            fileName: typeof req.query.fileName === "string" ? req.query.fileName : undefined,
+            mapping: req.query.mapping,
+            dryRun: req.query.dryRun === "true",
+        });
+        return send(res, 202, job.dryRun ? "Dry run queued" : "Import queued", job);
+    } catch (err) {
+        return sendError(res, err, "Failed to start import");
+    }
+};
+
+const listImportJobs = async (req: Request, res: Response) => {
+    try {
+        const user = (req as any).user;
+        if (!user?.id) return send(res, 401, "Unauthorized");
+
+        const { page, limit, skip, sortBy, sortOrder } = paginationSortingHelpers(req.query);
+        const data = await catalogService.listImportJobs(user.id, { page, limit, skip, sortBy, sortOrder });
+        return send(res, 200, "Import jobs fetched", data);
+    } catch (err) {
+        return sendError(res, err, "Failed to fetch import jobs");
+    }
+};
+
+/**
+ * GET /api/catalog/imports/:id
+ * Status, progress counters and row-level errors
+ */
+const getImportJob = async (req: Request, res: Response) => {
+    try {
+        const user = (req as any).user;
+        if (!user?.id) return send(res, 401, "Unauthorized");
+
+        const job = await catalogService.getImportJob(user.id, req.params.id as string);
+        return send(res, 200, "Import job fetched", job);
+    } catch (err) {
+        return sendError(res, err, "Failed to fetch import job");
+    }
+};
+
+/**
+ * POST /api/catalog/imports/process
+ * Run the import worker now instead of waiting for the schedule
+ */
+const processImportJobs = async (req: Request, res: Response) => {
+    try {
+        const result = await catalogService.processImportJobs();
+        return send(res, 200, "Import jobs processed", result);
+    } catch (err) {
+        return sendError(res, err, "Failed to process import jobs");
+    }
+};
+
+/**
+ * GET /api/catalog/export?format=xlsx[&status=&search=&category=&inStock=]
+ * Download of the seller's catalog in the import layout
+ */
+const exportCatalog = async (req: Request, res: Response) => {
+    try {
+        const user = (req as any).user;
+        if (!user?.id) return send(res, 401, "Unauthorized");
+
+        const text = (key: string) => (typeof req.query[key] === "string" ? (req.query[key] as string).trim() || undefined : undefined);
+        const inStock = req.query.inStock === "true" ? true : req.query.inStock === "false" ? false : undefined;
+
+        const file = await catalogService.exportCatalog(user.id, text("format"), {
+            status: text("status"),
+            search: text("search"),
+            category: text("category"),
+            manufacturer: text("manufacturer"),
+            inStock,
+        });
+        res.setHeader("Content-Type", file.contentType);
+        res.setHeader("Content-Disposition", `attachment; filename="catalog.${file.format}"`);
+        return res.status(200).send(file.body);
+    } catch (err) {
+        return sendError(res, err, "Failed to export catalog");
+    }
+};
+
+export const catalogController = {
+    startImport,
+    listImportJobs,
+    getImportJob,
+    processImportJobs,
+    exportCatalog,
+};
@@ -0,0 +1,21 @@
+import express, { Router } from "express";
+import { catalogController } from "./catalog.controller";
+import { XLSX_CONTENT_TYPE } from "../../helpers/xlsxHelpers";
+import auth from "../../middleware/auth";
+import { UserRole } from "../../types";
+
+const router = Router();
+
+// Seller: bulk import / export of the own catalog
+router.post(
+    "/imports",
+    auth(UserRole.SELLER),
+    express.raw({ type: ["text/csv", "text/plain", XLSX_CONTENT_TYPE, "application/octet-stream"], limit: "10mb" }),
+    catalogController.startImport
+);
+router.get("/imports", auth(UserRole.SELLER), catalogController.listImportJobs);
+router.post("/imports/process", auth(UserRole.ADMIN), catalogController.processImportJobs);
+router.get("/imports/:id", auth(UserRole.SELLER), catalogController.getImportJob);
+router.get("/export", auth(UserRole.SELLER), catalogController.exportCatalog);
+
+export const catalogRouter = router;
@@ -0,0 +1,505 @@
+import { prisma } from "../../lib/prisma";
+import { ServiceError } from "../../lib/error";
+import { Prisma, type Medicine } from "../../generated/prisma/client";
+import type { MedicineWhereInput } from "../../generated/prisma/models";
+import toCsv, { parseCsv, stripFormulaGuard } from "../../helpers/csvHelpers";
+import { isXlsx, parseXlsx, toXlsx, XLSX_CONTENT_TYPE } from "../../helpers/xlsxHelpers";
+import { toMoneyString } from "../../lib/money";
+import { medicineService, validateMedicineInput, type MedicineInput } from "../medicine/medicine.service";
+import { assertApprovedSeller } from "../onboarding/onboarding.service";
+
+type PaginationType = {
+    page: number,
+    limit: number,
+    skip: number,
+    sortBy: string,
+    sortOrder: string,
+}
+
+/** Medicine fields a file column can map to; also the export / template header */
+const CATALOG_COLUMNS = [
+    "sku",
+    "name",
+    "genericName",
+    "description",
+    "price",
+    "stock",
+    "manufacturer",
+    "category",
+    "imageUrl",
+    "weightGrams",
+    "dosageForm",
+    "strength",
+    "strengthUnit",
+    "packSize",
+    "route",
+    "storageConditions",
+    "registrationNumber",
+    "ingredients",
+    "maxPerOrder",
+    "maxPerPeriod",
+    "limitPeriodDays",
+    "isActive",
+] as const;
+
+type CatalogColumn = (typeof CATALOG_COLUMNS)[number];
+type IntegerColumn = "stock" | "weightGrams" | "packSize" | "maxPerOrder" | "maxPerPeriod" | "limitPeriodDays";
+
+type ImportInput = {
+    file?: Buffer | string | undefined;
+    fileName?: string | undefined;
+    mapping?: unknown;
+    dryRun?: boolean;
+};
+
+type ImportRow = { row: number; values: Partial<Record<CatalogColumn, string>> };
+
+type RowError = { row: number; sku: string | null; message: string };
+
+/** Whole-number cells; other numeric fields (price, strength) are validated as text */
+const INTEGER_COLUMNS = new Set<CatalogColumn>(["stock", "weightGrams", "packSize", "maxPerOrder", "maxPerPeriod", "limitPeriodDays"]);
+const isIntegerColumn = (field: CatalogColumn): field is IntegerColumn => INTEGER_COLUMNS.has(field);
+
+const MAX_IMPORT_ROWS = 5000;
+const MAX_REPORTED_ERRORS = 500;
+const PROGRESS_EVERY = 50;
+const EXPORT_PAGE_SIZE = 100;
+/** Jobs one worker run takes from the queue */
+const JOBS_PER_RUN = 10;
+/** A PROCESSING job with no progress for this long lost its worker (timeout or crash) */
+const STALE_JOB_MS = 15 * 60 * 1000;
+
+/** Helper: header / column names compared without case, spaces or punctuation */
+const columnKey = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+/**
+ * Helper: resolve which medicine field every file column feeds.
+ * Explicit `mapping` ({ "File header": "field" }) wins; other headers are matched by name.
+ */
+const resolveColumns = (header: string[], mapping: Record<string, string>) => {
+    const known = new Map(CATALOG_COLUMNS.map((c) => [columnKey(c), c]));
+    const headerKeys = header.map(columnKey);
+
+    for (const [column, field] of Object.entries(mapping)) {
+        if (!known.has(columnKey(String(field)))) {
+            throw new ServiceError(`Unknown field "${field}" in mapping; expected one of ${CATALOG_COLUMNS.join(", ")}`, 400);
+        }
+        if (!headerKeys.includes(columnKey(column))) throw new ServiceError(`Column "${column}" not found in the file`, 400);
+    }
+    const mapped = new Map(Object.entries(mapping).map(([column, field]) => [columnKey(column), known.get(columnKey(String(field)))!]));
+
+    const fields = headerKeys.map((key) => mapped.get(key) ?? known.get(key));
+    const seen = new Set<CatalogColumn>();
+    for (const field of fields) {
+        if (!field) continue;
+        if (seen.has(field)) throw new ServiceError(`More than one column maps to "${field}"`, 400);
+        seen.add(field);
+    }
+    if (!seen.has("sku")) throw new ServiceError("A sku column is required to match rows to your medicines", 400);
+    return fields;
+};
+
+const parseMapping = (mapping: unknown): Record<string, string> => {
+    if (mapping === undefined || mapping === null || mapping === "") return {};
+    let parsed = mapping;
+    if (typeof mapping === "string") {
+        try {
+            parsed = JSON.parse(mapping);
+        } catch {
+            throw new ServiceError("mapping must be a JSON object of file column -> field", 400);
+        }
+    }
+    if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+        throw new ServiceError("mapping must be a JSON object of file column -> field", 400);
+    }
+    return parsed as Record<string, string>;
+};
+
+/** Helper: file rows (CSV or XLSX, detected from the content) as mapped records */
+const readImportFile = (file: Buffer | string, mapping: Record<string, string>) => {
+    const format = Buffer.isBuffer(file) && isXlsx(file) ? "xlsx" : "csv";
+    let rows: string[][];
+    try {
+        rows = format === "xlsx" ? parseXlsx(file as Buffer) : parseCsv(file.toString()).map((cells) => cells.map(stripFormulaGuard));
+    } catch {
+        throw new ServiceError(`Could not read the ${format} file`, 400);
+    }
+
+    const [header, ...data] = rows;
+    if (!header || data.length === 0) throw new ServiceError("The file has no data rows", 400);
+    if (data.length > MAX_IMPORT_ROWS) throw new ServiceError(`At most ${MAX_IMPORT_ROWS} rows can be imported at once`, 400);
+
+    const fields = resolveColumns(header, mapping);
+    const records: ImportRow[] = data.map((cells, i) => {
+        const values: ImportRow["values"] = {};
+        fields.forEach((field, j) => {
+            const cell = (cells[j] ?? "").trim();
+            if (field && cell !== "") values[field] = cell;
+        });
+        return { row: i + 2, values };
+    });
+    return { format, records };
+};
+
+/** Helper: "Paracetamol 500mg + Caffeine 65 mg" -> [{ name, amount, unit }] */
+const parseIngredients = (text: string) =>
+    text.split(/[+;]/).map((part) => {
+        const match = /^(.*?)\s+(\d+(?:\.\d+)?)\s*([a-z%][a-z%/0-9.]*)?$/i.exec(part.trim());
+        return match
+            ? { name: match[1]!, amount: Number(match[2]), unit: match[3] ?? null }
+            : { name: part.trim(), amount: null, unit: null };
+    });
+
+const formatIngredients = (ingredients: { name: string; amount: number | null; unit: string | null }[]) =>
+    ingredients.map((i) => [i.name, i.amount !== null ? `${i.amount}${i.unit ?? ""}` : ""].join(" ").trim()).join(" + ");
+
+const parseBoolean = (text: string) => {
+    const value = text.toLowerCase();
+    if (["true", "yes", "1"].includes(value)) return true;
+    if (["false", "no", "0"].includes(value)) return false;
+    throw new ServiceError("isActive must be true or false", 400);
+};
+
+/**
+ * Helper: turn a mapped row into an add/update medicine body.
+ * Empty cells are left out, so updates keep the current value.
+ */
+const toMedicineBody = (values: ImportRow["values"], categories: Map<string, string>) => {
+    const body: MedicineInput = {};
+    for (const [field, cell] of Object.entries(values) as [CatalogColumn, string][]) {
+        if (field === "category") {
+            const categoryId = categories.get(cell.toLowerCase());
+            if (!categoryId) throw new ServiceError(`Unknown category "${cell}"`, 400);
+            body.categoryId = categoryId;
+        } else if (field === "ingredients") {
+            body.ingredients = parseIngredients(cell);
+        } else if (field === "isActive") {
+            body.isActive = parseBoolean(cell);
+        } else if (isIntegerColumn(field)) {
+            body[field] = Number(cell);
+        } else {
+            body[field] = cell;
+        }
+    }
+    return body;
+};
+
+/** Helper: categories by lower-case id, name and slug */
+const loadCategoryLookup = async () => {
+    const categories = await prisma.category.findMany({ select: { id: true, name: true, slug: true } });
+    const lookup = new Map<string, string>();
+    for (const c of categories) {
+        lookup.set(c.id.toLowerCase(), c.id);
+        lookup.set(c.name.toLowerCase(), c.id);
+        if (c.slug) lookup.set(c.slug.toLowerCase(), c.id);
+    }
+    return lookup;
+};
+
+/**
+ * Process a claimed import job's rows: upsert each by sku (create when the seller has no
+ * medicine with it), or on a dry run only validate and count. Rows fail independently.
+ */
+const runImportJob = async (jobId: string, sellerId: string, records: ImportRow[], dryRun: boolean) => {
+    const counts = { createdCount: 0, updatedCount: 0, failedCount: 0 };
+    const errors: RowError[] = [];
+    try {
+        const categories = await loadCategoryLookup();
+        const skus = records.map((r) => r.values.sku).filter((s): s is string => !!s);
+        const existing = new Map(
+            (await prisma.medicine.findMany({ where: { sellerId, sku: { in: skus } } })).map((m) => [m.sku!, m])
+        );
+        const seen = new Set<string>();
+
+        for (const [i, { row, values }] of records.entries()) {
+            const sku = values.sku ?? null;
+            try {
+                if (!sku) throw new ServiceError("sku is required", 400);
+                if (seen.has(sku)) throw new ServiceError(`Duplicate sku "${sku}" in the file`, 400);
+                seen.add(sku);
+
+                const body = toMedicineBody(values, categories);
+                const medicine = existing.get(sku);
+                if (medicine) {
+                    if (dryRun) validateMedicineInput(body, medicine);
+                    else await medicineService.updateMedicine(medicine.id, body, sellerId);
+                    counts.updatedCount++;
+                } else {
+                    if (!body.name) throw new ServiceError("name is required for a new medicine", 400);
+                    body.stock ??= 0;
+                    if (dryRun) validateMedicineInput(body);
+                    else await medicineService.addMedicine(body, sellerId);
+                    counts.createdCount++;
+                }
+            } catch (err: any) {
+                counts.failedCount++;
+                if (!(err instanceof ServiceError)) console.error("runImportJob row error:", err);
+                if (errors.length < MAX_REPORTED_ERRORS) {
+                    errors.push({ row, sku, message: err instanceof ServiceError ? err.message : "Failed to save row" });
+                }
+            }
+
+            if ((i + 1) % PROGRESS_EVERY === 0) {
+                await prisma.importJob.update({ where: { id: jobId }, data: { processedRows: i + 1, ...counts } });
+            }
+        }
+
+        await prisma.importJob.update({
+            where: { id: jobId },
+            data: {
+                status: "COMPLETED",
+                processedRows: records.length,
+                ...counts,
+                errors,
+                rows: Prisma.DbNull,
+                finishedAt: new Date(),
+            },
+        });
+    } catch (err: any) {
+        console.error("runImportJob error:", err);
+        await prisma.importJob
+            .update({
+                where: { id: jobId },
+                data: {
+                    status: "FAILED",
+                    ...counts,
+                    errors,
+                    error: "Import failed unexpectedly",
+                    rows: Prisma.DbNull,
+                    finishedAt: new Date(),
+                },
+            })
+            .catch((updateErr) => console.error("runImportJob status error:", updateErr));
+    }
+};
+
+/**
+ * Queue a bulk import from a CSV or XLSX file.
+ * The file and mapping are checked up front (400); the mapped rows are stored on the job
+ * for the import worker, and progress / row-level errors are read from the returned job.
+ */
+const startImport = async (sellerId: string, input: ImportInput) => {
+    await assertApprovedSeller(prisma, sellerId);
+    if (!input.file || input.file.length === 0) throw new ServiceError("A CSV or XLSX file is required", 400);
+    const mapping = parseMapping(input.mapping);
+    const { format, records } = readImportFile(input.file, mapping);
+    const dryRun = input.dryRun === true;
+
+    let job;
+    try {
+        job = await prisma.importJob.create({
+            data: {
+                sellerId,
+                format,
+                fileName: input.fileName ?? null,
+                dryRun,
+                mapping,
+                totalRows: records.length,
+                rows: records,
+            },
+            omit: { rows: true },
+        });
+    } catch (err: any) {
+        console.error("startImport error:", err);
+        throw new ServiceError("Failed to start import", 500);
+    }
+    return job;
+};
+
+/** Helper: jobs whose worker died mid-way would otherwise stay PROCESSING forever */
+const failStaleJobs = async (sellerId?: string) => {
+    await prisma.importJob.updateMany({
+        where: {
+            ...(sellerId && { sellerId }),
+            status: "PROCESSING",
+            updatedAt: { lt: new Date(Date.now() - STALE_JOB_MS) },
+        },
+        data: {
+            status: "FAILED",
+            error: "Import was interrupted; upload the file again",
+            rows: Prisma.DbNull,
+            finishedAt: new Date(),
+        },
+    });
+};
+
+/**
+ * Import worker: take up to JOBS_PER_RUN queued jobs, oldest first, and process them.
+ * A job is claimed with a PENDING -> PROCESSING update, so overlapping runs never share one.
+ * Run on a schedule (`npm run job:process-imports`).
+ */
+const processImportJobs = async () => {
+    try {
+        await failStaleJobs();
+
+        let processed = 0;
+        while (processed < JOBS_PER_RUN) {
+            const next = await prisma.importJob.findFirst({
+                where: { status: "PENDING" },
+                orderBy: { createdAt: "asc" },
+                select: { id: true },
+            });
+            if (!next) break;
+
+            const { count } = await prisma.importJob.updateMany({
+                where: { id: next.id, status: "PENDING" },
+                data: { status: "PROCESSING", startedAt: new Date() },
+            });
+            if (!count) continue; // claimed by another run
+
+            const job = await prisma.importJob.findUniqueOrThrow({ where: { id: next.id } });
+            await runImportJob(job.id, job.sellerId, (job.rows ?? []) as ImportRow[], job.dryRun);
+            processed++;
+        }
+        return { processed };
+    } catch (err: any) {
+        console.error("processImportJobs error:", err);
+        throw new ServiceError("Failed to process import jobs", 500);
+    }
+};
+
+const getImportJob = async (sellerId: string, id: string) => {
+    await failStaleJobs(sellerId);
+    const job = await prisma.importJob.findUnique({ where: { id }, omit: { rows: true } });
+    if (!job || job.sellerId !== sellerId) throw new ServiceError("Import job not found", 404);
+    return job;
+};
+
+const listImportJobs = async (sellerId: string, opts: PaginationType) => {
+    const { page, limit, skip, sortBy, sortOrder } = opts;
+    try {
+        await failStaleJobs(sellerId);
+        const where = { sellerId };
+        const [items, total] = await Promise.all([
+            prisma.importJob.findMany({
+                where,
+                skip,
+                take: limit,
+                orderBy: { [sortBy]: sortOrder },
+                omit: { errors: true, mapping: true, rows: true },
+            }),
+            prisma.importJob.count({ where }),
+        ]);
+
+        return {
+            items,
+            pagination: {
+                total,
+                page,
+                limit,
+                totalPages: Math.ceil(total / limit),
+            },
+        };
+    } catch (err: any) {
+        console.error("listImportJobs error:", err);
+        throw new ServiceError("Failed to fetch import jobs", 500);
+    }
+};
+
+type CatalogMedicine = Medicine & {
+    category: { name: string } | null;
+    ingredients: { name: string; amount: number | null; unit: string | null }[];
+};
+
+type ExportFilters = {
+    status?: string | undefined;
+    search?: string | undefined;
+    category?: string | undefined;
+    manufacturer?: string | undefined;
+    inStock?: boolean | undefined;
+};
+
+/** Export ?status= -> listing condition; inactive and license-suspended listings are exported too by default */
+const EXPORT_STATUSES: Record<string, MedicineWhereInput> = {
+    ALL: {},
+    ACTIVE: { isActive: true },
+    INACTIVE: { isActive: false, licenseSuspended: false },
+    SUSPENDED: { licenseSuspended: true },
+};
+
+/**
+ * Seller's whole catalog, whatever the listing status unless `status` narrows it, as CSV or XLSX
+ * in the import column layout so the file can be edited and re-imported.
+ */
+const exportCatalog = async (sellerId: string, format: string | undefined, filters: ExportFilters = {}) => {
+    const type = (format ?? "csv").toLowerCase();
+    if (type !== "csv" && type !== "xlsx") throw new ServiceError("format must be csv or xlsx", 400);
+    const status = (filters.status ?? "ALL").toUpperCase();
+    const statusCondition = EXPORT_STATUSES[status];
+    if (!statusCondition) throw new ServiceError(`status must be one of ${Object.keys(EXPORT_STATUSES).join(", ")}`, 400);
+
+    const { search, category, manufacturer, inStock } = filters;
+    const andConditions: MedicineWhereInput[] = [{ sellerId }, statusCondition];
+    if (search) {
+        andConditions.push({
+            OR: [
+                { name: { contains: search, mode: "insensitive" } },
+                { genericName: { contains: search, mode: "insensitive" } },
+                { sku: { contains: search, mode: "insensitive" } },
+            ],
+        });
+    }
+    if (manufacturer) andConditions.push({ manufacturer: { contains: manufacturer, mode: "insensitive" } });
+    if (typeof inStock === "boolean") andConditions.push(inStock ? { stock: { gt: 0 } } : { stock: { lte: 0 } });
+    if (category) {
+        andConditions.push({
+            OR: [{ categoryId: category }, { category: { name: { equals: category, mode: "insensitive" } } }],
+        });
+    }
+
+    const medicines: CatalogMedicine[] = [];
+    try {
+        for (let skip = 0; ; skip += EXPORT_PAGE_SIZE) {
+            const page = await prisma.medicine.findMany({
+                where: { AND: andConditions },
+                skip,
+                take: EXPORT_PAGE_SIZE,
+                orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+                include: { category: { select: { name: true } }, ingredients: true },
+            });
+            medicines.push(...page);
+            if (page.length < EXPORT_PAGE_SIZE) break;
+        }
+    } catch (err: any) {
+        console.error("exportCatalog error:", err);
+        throw new ServiceError("Failed to export catalog", 500);
+    }
+
+    const rows = medicines.map((m) => ({
+        sku: m.sku,
+        name: m.name,
+        genericName: m.genericName,
+        description: m.description,
+        price: toMoneyString(m.price),
+        stock: m.stock,
+        manufacturer: m.manufacturer,
+        category: m.category?.name ?? null,
+        imageUrl: m.imageUrl,
+        weightGrams: m.weightGrams,
+        dosageForm: m.dosageForm,
+        strength: m.strength,
+        strengthUnit: m.strengthUnit,
+        packSize: m.packSize,
+        route: m.route,
+        storageConditions: m.storageConditions,
+        registrationNumber: m.registrationNumber,
+        ingredients: formatIngredients(m.ingredients),
+        maxPerOrder: m.maxPerOrder,
+        maxPerPeriod: m.maxPerPeriod,
+        limitPeriodDays: m.limitPeriodDays,
+        isActive: m.isActive,
+    }));
+
+    const columns = [...CATALOG_COLUMNS];
+    return type === "xlsx"
+        ? { format: type, contentType: XLSX_CONTENT_TYPE, body: toXlsx(columns, rows, "Catalog") }
+        : { format: type, contentType: "text/csv; charset=utf-8", body: toCsv(columns, rows) };
+};
+
+export const catalogService = {
+    startImport,
+    getImportJob,
+    listImportJobs,
+    processImportJobs,
+    exportCatalog,
+};
@@ -8,7 +8,8 @@ const send = (res: Response, code: number, message: string, data?: any) =>
 const sendError = (res: Response, err: any, fallback: string) => {
     const status = err instanceof ServiceError ? err.statusCode : 500;
     const message = err?.message || fallback;
-    return res.status(status).json({ message });
+    const details = err instanceof ServiceError ? err.details : undefined;
+    return res.status(status).json({ message, details });
 };
 
 // Public
@@ -47,10 +48,10 @@ const getCategoryById = async (req: Request, res: Response) => {
 // Admin only
 const createCategory = async (req: Request, res: Response) => {
     try {
-        const { name, slug, description, isPrescriptionRequired } = req.body;
+        const { name, slug, description, isPrescriptionRequired, vatRate } = req.body;
         if (!name || typeof name !== "string") return send(res, 400, "Name is required");
 
-        const category = await categoryService.createCategory({ name, slug, description, isPrescriptionRequired });
+        const category = await categoryService.createCategory({ name, slug, description, isPrescriptionRequired, vatRate });
         return send(res, 201, "Category created successfully", category);
     } catch (err) {
         return sendError(res, err, "Failed to create category");
@@ -59,8 +60,8 @@ const createCategory = async (req: Request, res: Response) => {
 
 const updateCategory = async (req: Request, res: Response) => {
     try {
-        const { name, slug, description, isPrescriptionRequired } = req.body;
-        const updated = await categoryService.updateCategory(req.params.id as string, { name, slug, description, isPrescriptionRequired });
+        const { name, slug, description, isPrescriptionRequired, vatRate } = req.body;
+        const updated = await categoryService.updateCategory(req.params.id as string, { name, slug, description, isPrescriptionRequired, vatRate });
         return send(res, 200, "Category updated successfully", updated);
     } catch (err) {
         return sendError(res, err, "Failed to update category");
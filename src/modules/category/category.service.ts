@@ -1,24 +1,30 @@
 import { Category } from "../../generated/prisma/client";
 import { prisma } from "../../lib/prisma";
+import { ServiceError } from "../../lib/error";
+import { validatePurchaseLimits } from "../limit/limit.service";
 
-export class ServiceError extends Error {
-    statusCode: number;
-    constructor(message: string, statusCode = 400) {
-        super(message);
-        this.statusCode = statusCode;
-        Object.setPrototypeOf(this, ServiceError.prototype);
-    }
-}
+export { ServiceError };
 
 type CreateDataType = {
     name: string;
     slug?: string | null;
     description?: string | null;
     isPrescriptionRequired?: boolean | null;
+    vatRate?: number | string | null;
+    maxPerOrder?: number | string | null;
+    maxPerPeriod?: number | string | null;
+    limitPeriodDays?: number | string | null;
 };
 
 type UpdateDataType = Partial<CreateDataType>;
 
+/** VAT % must be within 0-100 */
+const parseVatRate = (raw: number | string) => {
+    const rate = Number(raw);
+    if (Number.isNaN(rate) || rate < 0 || rate > 100) throw new ServiceError("vatRate must be between 0 and 100", 400);
+    return rate;
+};
+
 /** simple slugify helper */
 const slugify = (s: string) =>
     s
@@ -103,6 +109,8 @@ const getCategoryById = async (id: string): Promise<Category | null> => {
 const createCategory = async (data: CreateDataType): Promise<Category> => {
     const name = (data.name || "").trim();
     if (!name) throw new ServiceError("Name is required", 400);
+    const vatRate = data.vatRate === undefined || data.vatRate === null ? 0 : parseVatRate(data.vatRate);
+    const limits = validatePurchaseLimits(data);
 
     // normalize slug candidate
     const baseSlug = data.slug && data.slug.trim() ? slugify(data.slug) : slugify(name);
@@ -121,7 +129,9 @@ const createCategory = async (data: CreateDataType): Promise<Category> => {
                 name,
                 slug: uniqueSlug,
                 description: data.description ?? null,
-                isPrescriptionRequired: data.isPrescriptionRequired ?? false
+                isPrescriptionRequired: data.isPrescriptionRequired ?? false,
+                vatRate,
+                ...limits,
             },
         });
     } catch (err: any) {
@@ -157,6 +167,9 @@ const updateCategory = async (id: string, data: UpdateDataType): Promise<Categor
             }
         }
 
+        if (data.vatRate !== undefined && data.vatRate !== null) updateData.vatRate = parseVatRate(data.vatRate);
+        Object.assign(updateData, validatePurchaseLimits(data, existing));
+
         if (data.slug !== undefined) {
             const baseSlug = data.slug && data.slug.trim() ? slugify(data.slug) : slugify(updateData.name ?? existing.name);
 
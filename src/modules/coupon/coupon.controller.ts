@@ -0,0 +1,78 @@
+import { Request, Response } from "express";
+import { couponService } from "./coupon.service";
+import { ServiceError } from "../../lib/error";
+import paginationSortingHelpers from "../../helpers/paginationSortingHelpers";
+
+const send = (res: Response, code: number, message: string, data?: any) =>
+    res.status(code).json({ message, data });
+
+const sendError = (res: Response, err: any, fallback: string) => {
+    const status = err instanceof ServiceError ? err.statusCode : 500;
+    const message = err?.message || fallback;
+    const details = err instanceof ServiceError ? err.details : undefined;
+    return res.status(status).json({ message, details });
+};
+
+/**
+ * POST /api/coupons
+ * Admin creates any coupon; seller creates coupons for own products
+ * (body: { code, type, value, scope?, categoryId?, sellerId?, maxDiscount?, minOrderValue?,
+ *   usageLimit?, perUserLimit?, stackable?, startsAt?, endsAt?, description? })
+ */
+const createCoupon = async (req: Request, res: Response) => {
+    try {
+        const user = (req as any).user;
+        if (!user?.id) return send(res, 401, "Unauthorized");
+
+        const coupon = await couponService.createCoupon(user, req.body ?? {});
+        return send(res, 201, "Coupon created", coupon);
+    } catch (err) {
+        return sendError(res, err, "Failed to create coupon");
+    }
+};
+
+const listCoupons = async (req: Request, res: Response) => {
+    try {
+        const user = (req as any).user;
+        if (!user?.id) return send(res, 401, "Unauthorized");
+
+        const isActive = req.query.isActive === undefined ? undefined : req.query.isActive === "true";
+        const { page, limit, skip, sortBy, sortOrder } = paginationSortingHelpers(req.query);
+
+        const data = await couponService.listCoupons(user, { page, limit, skip, sortBy, sortOrder, isActive });
+        return send(res, 200, "Coupons fetched", data);
+    } catch (err) {
+        return sendError(res, err, "Failed to fetch coupons");
+    }
+};
+
+const updateCoupon = async (req: Request, res: Response) => {
+    try {
+        const user = (req as any).user;
+        if (!user?.id) return send(res, 401, "Unauthorized");
+
+        const coupon = await couponService.updateCoupon(user, req.params.id as string, req.body ?? {});
+        return send(res, 200, "Coupon updated", coupon);
+    } catch (err) {
+        return sendError(res, err, "Failed to update coupon");
+    }
+};
+
+const deactivateCoupon = async (req: Request, res: Response) => {
+    try {
+        const user = (req as any).user;
+        if (!user?.id) return send(res, 401, "Unauthorized");
+
+        const coupon = await couponService.deactivateCoupon(user, req.params.id as string);
+        return send(res, 200, "Coupon deactivated", coupon);
+    } catch (err) {
+        return sendError(res, err, "Failed to deactivate coupon");
+    }
+};
+
+export const couponController = {
+    createCoupon,
+    listCoupons,
+    updateCoupon,
+    deactivateCoupon,
+};
@@ -0,0 +1,14 @@
+import { Router } from "express";
+import { couponController } from "./coupon.controller";
+import auth from "../../middleware/auth";
+import { UserRole } from "../../types";
+
+const router = Router();
+
+// Admin: all coupons; Seller: own SELLER-scoped coupons
+router.post("/", auth(UserRole.ADMIN, UserRole.SELLER), couponController.createCoupon);
+router.get("/", auth(UserRole.ADMIN, UserRole.SELLER), couponController.listCoupons);
+router.patch("/:id", auth(UserRole.ADMIN, UserRole.SELLER), couponController.updateCoupon);
+router.delete("/:id", auth(UserRole.ADMIN, UserRole.SELLER), couponController.deactivateCoupon);
+
+export const couponRouter = router;
@@ -0,0 +1,412 @@
+import { prisma } from "../../lib/prisma";
+import { ServiceError } from "../../lib/error";
+import type { Coupon, User } from "../../generated/prisma/client";
+import { CouponScope, CouponType } from "../../generated/prisma/enums";
+import {
+    addMoney,
+    formatMoney,
+    minMoney,
+    money,
+    multiplyMoney,
+    parseMoney,
+    percentOf,
+    roundMoney,
+    subtractMoney,
+    sumMoney,
+    ZERO,
+    type Money,
+    type MoneyInput,
+} from "../../lib/money";
+
+type CouponInputType = {
+    code?: string;
+    description?: string | null;
+    type?: string;
+    value?: number | string;
+    maxDiscount?: number | string | null;
+    scope?: string;
+    categoryId?: string | null;
+    sellerId?: string | null;
+    minOrderValue?: number | string | null;
+    usageLimit?: number | string | null;
+    perUserLimit?: number | string | null;
+    stackable?: boolean;
+    startsAt?: string | null;
+    endsAt?: string | null;
+    isActive?: boolean;
+};
+
+type PaginationType = {
+    page: number,
+    limit: number,
+    skip: number,
+    sortBy: string,
+    sortOrder: string,
+}
+
+/** One priced cart/order line as seen by the discount engine */
+export type PricingLine = {
+    medicineId: string;
+    categoryId: string | null;
+    sellerId: string | null;
+    unitPrice: MoneyInput;
+    quantity: number;
+};
+
+export type AppliedDiscount = {
+    couponId: string;
+    code: string;
+    type: CouponType;
+    scope: CouponScope;
+    description: string | null;
+    discount: Money;
+};
+
+const lineAmount = (line: PricingLine) => multiplyMoney(line.unitPrice, line.quantity);
+
+/** Helper: normalize coupon code for lookups */
+export const normalizeCouponCode = (code?: string | null) => String(code ?? "").trim().toUpperCase();
+
+/** Helper: does a line fall under the coupon's scope */
+const isEligibleLine = (coupon: Coupon, line: PricingLine) => {
+    if (coupon.scope === CouponScope.CATEGORY) return line.categoryId === coupon.categoryId;
+    if (coupon.scope === CouponScope.SELLER) return line.sellerId === coupon.sellerId;
+    return true;
+};
+
+/**
+ * Helper: reason a coupon cannot be used for these lines, or null when usable.
+ * Checks active flag, validity window, usage limits and min order value
+ * (against the subtotal of lines in scope).
+ */
+export const getCouponIssue = async (
+    tx: any,
+    coupon: Coupon,
+    ctx: { userId: string; lines: PricingLine[]; at?: Date; currency?: string }
+) => {
+    const at = ctx.at ?? new Date();
+    if (!coupon.isActive) return "Coupon is not active";
+    if (coupon.startsAt && coupon.startsAt > at) return "Coupon is not valid yet";
+    if (coupon.endsAt && coupon.endsAt < at) return "Coupon has expired";
+    if (coupon.usageLimit !== null && coupon.usedCount >= coupon.usageLimit) return "Coupon usage limit reached";
+
+    if (coupon.perUserLimit !== null) {
+        const used = await tx.couponRedemption.count({ where: { couponId: coupon.id, userId: ctx.userId } });
+        if (used >= coupon.perUserLimit) return "You have already used this coupon the maximum number of times";
+    }
+
+    const eligible = ctx.lines.filter((line) => isEligibleLine(coupon, line));
+    if (eligible.length === 0) return "No items in the cart are eligible for this coupon";
+
+    const eligibleSubtotal = sumMoney(eligible, lineAmount);
+    if (coupon.minOrderValue !== null && eligibleSubtotal.lessThan(coupon.minOrderValue)) {
+        return `Minimum order value of ${formatMoney(coupon.minOrderValue, ctx.currency)} not met`;
+    }
+    return null;
+};
+
+/**
+ * Discount engine shared by the cart and checkout.
+ * - Coupons apply in the order given; a non-stackable coupon is only honoured on its own
+ * - PERCENTAGE (capped by maxDiscount) and FIXED reduce the lines in scope, never below zero
+ * - FREE_SHIPPING waives the shipping fee once
+ */
+export const calculateDiscounts = async (
+    tx: any,
+    input: { userId: string; lines: PricingLine[]; coupons: Coupon[]; shippingFee?: MoneyInput; at?: Date; currency?: string }
+) => {
+    const shippingFee = roundMoney(input.shippingFee ?? 0);
+    const subtotal = roundMoney(sumMoney(input.lines, lineAmount));
+    const remaining = input.lines.map(lineAmount);
+
+    const applied: AppliedDiscount[] = [];
+    const rejected: { code: string; reason: string }[] = [];
+    let shippingDiscount = ZERO;
+
+    for (const coupon of input.coupons) {
+        if (input.coupons.length > 1 && !coupon.stackable) {
+            rejected.push({ code: coupon.code, reason: "Coupon cannot be combined with other coupons" });
+            continue;
+        }
+
+        const issue = await getCouponIssue(tx, coupon, input);
+        if (issue) {
+            rejected.push({ code: coupon.code, reason: issue });
+            continue;
+        }
+
+        let discount = ZERO;
+        if (coupon.type === CouponType.FREE_SHIPPING) {
+            discount = subtractMoney(shippingFee, shippingDiscount);
+            shippingDiscount = shippingFee;
+        } else {
+            const indexes = input.lines.map((line, i) => (isEligibleLine(coupon, line) ? i : -1)).filter((i) => i >= 0);
+            const base = addMoney(...indexes.map((i) => remaining[i]!));
+
+            discount = coupon.type === CouponType.PERCENTAGE ? percentOf(base, coupon.value) : money(coupon.value);
+            if (coupon.maxDiscount !== null) discount = minMoney(discount, coupon.maxDiscount);
+            discount = roundMoney(minMoney(discount, base));
+
+            // spread over lines in scope so later coupons see what is left
+            if (base.greaterThan(0)) {
+                for (const i of indexes) {
+                    remaining[i] = remaining[i]!.minus(discount.times(remaining[i]!).dividedBy(base));
+                }
+            }
+        }
+
+        applied.push({
+            couponId: coupon.id,
+            code: coupon.code,
+            type: coupon.type,
+            scope: coupon.scope,
+            description: coupon.description,
+            discount,
+        });
+    }
+
+    const itemDiscount = sumMoney(applied.filter((a) => a.type !== CouponType.FREE_SHIPPING), (a) => a.discount);
+
+    return {
+        subtotal,
+        // per line amount left after item discounts, same order as input.lines
+        lineTotals: remaining,
+        discount: itemDiscount,
+        shippingFee,
+        shippingDiscount,
+        total: addMoney(subtotal, shippingFee).minus(itemDiscount).minus(shippingDiscount),
+        applied,
+        rejected,
+    };
+};
+
+/**
+ * Record coupon redemptions for a new order and consume usage.
+ * Fails with 409 when a coupon ran out of uses concurrently.
+ * Must be called inside a transaction.
+ */
+export const redeemCoupons = async (
+    tx: any,
+    order: { id: string; userId: string },
+    applied: AppliedDiscount[]
+) => {
+    for (const a of applied) {
+        // guarded increment so concurrent checkouts cannot exceed usageLimit
+        const count: number = await tx.$executeRaw`
+            UPDATE "coupon" SET "usedCount" = "usedCount" + 1
+            WHERE "id" = ${a.couponId} AND ("usageLimit" IS NULL OR "usedCount" < "usageLimit")`;
+        if (count === 0) throw new ServiceError(`Coupon ${a.code} usage limit reached`, 409);
+
+        await tx.couponRedemption.create({
+            data: { couponId: a.couponId, orderId: order.id, userId: order.userId, code: a.code, discount: a.discount },
+        });
+    }
+};
+
+/**
+ * Give coupon uses back when an order is cancelled.
+ * The discount stays recorded on the Order itself.
+ * Must be called inside a transaction.
+ */
+export const releaseCouponRedemptions = async (tx: any, orderId: string) => {
+    const redemptions = await tx.couponRedemption.findMany({ where: { orderId } });
+    for (const r of redemptions) {
+        await tx.coupon.update({ where: { id: r.couponId }, data: { usedCount: { decrement: 1 } } });
+    }
+    await tx.couponRedemption.deleteMany({ where: { orderId } });
+};
+
+// Admin / Seller services
+
+const optionalNumber = (value: any, field: string, opts: { integer?: boolean; min?: number } = {}) => {
+    if (value === undefined) return undefined;
+    if (value === null || value === "") return null;
+    const n = Number(value);
+    if (Number.isNaN(n) || (opts.integer && !Number.isInteger(n)) || (opts.min !== undefined && n < opts.min)) {
+        throw new ServiceError(`${field} must be a ${opts.integer ? "whole" : "valid"} number${opts.min !== undefined ? ` >= ${opts.min}` : ""}`, 400);
+    }
+    return n;
+};
+
+const optionalMoney = (value: any, field: string) => {
+    if (value === undefined) return undefined;
+    if (value === null || value === "") return null;
+    return parseMoney(value, field)!;
+};
+
+const optionalDate = (value: any, field: string) => {
+    if (value === undefined) return undefined;
+    if (value === null || value === "") return null;
+    const date = new Date(value);
+    if (Number.isNaN(date.getTime())) throw new ServiceError(`${field} must be a valid date`, 400);
+    return date;
+};
+
+/** Helper: validate value against type */
+const assertValue = (type: CouponType, value: Money) => {
+    if (type === CouponType.PERCENTAGE && (value.lessThanOrEqualTo(0) || value.greaterThan(100))) {
+        throw new ServiceError("value must be between 0 and 100 for PERCENTAGE coupons", 400);
+    }
+    if (type === CouponType.FIXED && value.lessThanOrEqualTo(0)) throw new ServiceError("value must be positive for FIXED coupons", 400);
+};
+
+/**
+ * Create coupon.
+ * - admin: any scope
+ * - seller: always scoped to own products (scope SELLER)
+ */
+const createCoupon = async (user: User, data: CouponInputType) => {
+    const code = normalizeCouponCode(data.code);
+    if (!/^[A-Z0-9_-]{3,32}$/.test(code)) {
+        throw new ServiceError("code must be 3-32 letters, digits, '-' or '_'", 400);
+    }
+
+    const type = String(data.type ?? "").toUpperCase() as CouponType;
+    if (!Object.values(CouponType).includes(type)) {
+        throw new ServiceError(`type must be one of ${Object.values(CouponType).join(", ")}`, 400);
+    }
+    const value = type === CouponType.FREE_SHIPPING ? ZERO : optionalMoney(data.value, "value") ?? ZERO;
+    assertValue(type, value);
+
+    let scope = String(data.scope ?? CouponScope.ORDER).toUpperCase() as CouponScope;
+    let sellerId = data.sellerId ?? null;
+    if (user.role === "SELLER") {
+        scope = CouponScope.SELLER;
+        sellerId = user.id;
+    }
+    if (!Object.values(CouponScope).includes(scope)) {
+        throw new ServiceError(`scope must be one of ${Object.values(CouponScope).join(", ")}`, 400);
+    }
+    if (scope === CouponScope.CATEGORY && !data.categoryId) throw new ServiceError("categoryId is required for CATEGORY coupons", 400);
+    if (scope === CouponScope.SELLER && !sellerId) throw new ServiceError("sellerId is required for SELLER coupons", 400);
+
+    const startsAt = optionalDate(data.startsAt, "startsAt") ?? null;
+    const endsAt = optionalDate(data.endsAt, "endsAt") ?? null;
+    if (startsAt && endsAt && startsAt >= endsAt) throw new ServiceError("startsAt must be before endsAt", 400);
+
+    try {
+        return await prisma.coupon.create({
+            data: {
+                code,
+                description: data.description ?? null,
+                type,
+                value,
+                maxDiscount: optionalMoney(data.maxDiscount, "maxDiscount") ?? null,
+                scope,
+                categoryId: scope === CouponScope.CATEGORY ? data.categoryId! : null,
+                sellerId: scope === CouponScope.SELLER ? sellerId : null,
+                minOrderValue: optionalMoney(data.minOrderValue, "minOrderValue") ?? null,
+                usageLimit: optionalNumber(data.usageLimit, "usageLimit", { integer: true, min: 1 }) ?? null,
+                perUserLimit: optionalNumber(data.perUserLimit, "perUserLimit", { integer: true, min: 1 }) ?? null,
+                stackable: data.stackable === true,
+                startsAt,
+                endsAt,
+                isActive: data.isActive !== false,
+                createdBy: user.id,
+            },
+        });
+    } catch (err: any) {
+        if (err?.code === "P2002") throw new ServiceError("Coupon code already exists", 409);
+        if (err?.code === "P2003") throw new ServiceError("Category or seller not found", 404);
+        console.error("createCoupon error:", err);
+        throw new ServiceError("Failed to create coupon", 500);
+    }
+};
+
+const listCoupons = async (user: User, opts: PaginationType & { isActive?: boolean | undefined }) => {
+    const { page, limit, skip, sortBy, sortOrder, isActive } = opts;
+    try {
+        const where: any = {};
+        if (isActive !== undefined) where.isActive = isActive;
+        if (user.role === "SELLER") where.sellerId = user.id;
+
+        const [items, total] = await Promise.all([
+            prisma.coupon.findMany({
+                where,
+                skip,
+                take: limit,
+                orderBy: { [sortBy]: sortOrder },
+                include: { category: { select: { id: true, name: true } } },
+            }),
+            prisma.coupon.count({ where }),
+        ]);
+
+        return {
+            items,
+            pagination: {
+                total,
+                page,
+                limit,
+                totalPages: Math.ceil(total / limit),
+            },
+        };
+    } catch (err: any) {
+        console.error("listCoupons error:", err);
+        throw new ServiceError("Failed to fetch coupons", 500);
+    }
+};
+
+/** Helper: coupon exists and seller owns it */
+const getOwnedCoupon = async (user: User, id: string) => {
+    const coupon = await prisma.coupon.findUnique({ where: { id } });
+    if (!coupon) throw new ServiceError("Coupon not found", 404);
+    if (user.role === "SELLER" && coupon.sellerId !== user.id) throw new ServiceError("Unauthorized", 403);
+    return coupon;
+};
+
+/**
+ * Update coupon terms. Code, type and scope are fixed once created.
+ */
+const updateCoupon = async (user: User, id: string, data: CouponInputType) => {
+    const coupon = await getOwnedCoupon(user, id);
+
+    const value = coupon.type === CouponType.FREE_SHIPPING ? undefined : optionalMoney(data.value, "value");
+    if (value !== undefined) assertValue(coupon.type, value ?? ZERO);
+
+    const startsAt = optionalDate(data.startsAt, "startsAt");
+    const endsAt = optionalDate(data.endsAt, "endsAt");
+    const nextStart = startsAt === undefined ? coupon.startsAt : startsAt;
+    const nextEnd = endsAt === undefined ? coupon.endsAt : endsAt;
+    if (nextStart && nextEnd && nextStart >= nextEnd) throw new ServiceError("startsAt must be before endsAt", 400);
+
+    const update: any = {
+        description: data.description,
+        value: value ?? undefined,
+        maxDiscount: optionalMoney(data.maxDiscount, "maxDiscount"),
+        minOrderValue: optionalMoney(data.minOrderValue, "minOrderValue"),
+        usageLimit: optionalNumber(data.usageLimit, "usageLimit", { integer: true, min: 1 }),
+        perUserLimit: optionalNumber(data.perUserLimit, "perUserLimit", { integer: true, min: 1 }),
+        stackable: typeof data.stackable === "boolean" ? data.stackable : undefined,
+        isActive: typeof data.isActive === "boolean" ? data.isActive : undefined,
+        startsAt,
+        endsAt,
+    };
+
+    try {
+        return await prisma.coupon.update({ where: { id }, data: update });
+    } catch (err: any) {
+        console.error("updateCoupon error:", err);
+        throw new ServiceError("Failed to update coupon", 500);
+    }
+};
+
+/** Deactivate coupon (kept for redemption history); also removed from carts */
+const deactivateCoupon = async (user: User, id: string) => {
+    await getOwnedCoupon(user, id);
+    try {
+        return await prisma.$transaction(async (tx) => {
+            await tx.cartCoupon.deleteMany({ where: { couponId: id } });
+            return await tx.coupon.update({ where: { id }, data: { isActive: false } });
+        });
+    } catch (err: any) {
+        console.error("deactivateCoupon error:", err);
+        throw new ServiceError("Failed to deactivate coupon", 500);
+    }
+};
+
+export const couponService = {
+    createCoupon,
+    listCoupons,
+    updateCoupon,
+    deactivateCoupon,
+};
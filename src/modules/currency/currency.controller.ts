@@ -0,0 +1,69 @@
+import { Request, Response } from "express";
+import { currencyService } from "./currency.service";
+import { ServiceError } from "../../lib/error";
+
+const send = (res: Response, code: number, message: string, data?: any) =>
+    res.status(code).json({ message, data });
+
+const sendError = (res: Response, err: any, fallback: string) => {
+    const status = err instanceof ServiceError ? err.statusCode : 500;
+    const message = err?.message || fallback;
+    const details = err instanceof ServiceError ? err.details : undefined;
+    return res.status(status).json({ message, details });
+};
+
+const getCurrentRates = async (_req: Request, res: Response) => {
+    try {
+        const rates = await currencyService.getCurrentRates();
+        return send(res, 200, "Exchange rates fetched", rates);
+    } catch (err) {
+        return sendError(res, err, "Failed to fetch exchange rates");
+    }
+};
+
+/**
+ * GET /api/exchange-rates/history?baseCurrency=USD&quoteCurrency=BDT
+ */
+const listRates = async (req: Request, res: Response) => {
+    try {
+        const rates = await currencyService.listRates({
+            baseCurrency: req.query.baseCurrency as string,
+            quoteCurrency: req.query.quoteCurrency as string,
+        });
+        return send(res, 200, "Exchange rate history fetched", rates);
+    } catch (err) {
+        return sendError(res, err, "Failed to fetch exchange rates");
+    }
+};
+
+/**
+ * POST /api/exchange-rates
+ * body: { baseCurrency, quoteCurrency, rate, effectiveFrom? }
+ */
+const createRate = async (req: Request, res: Response) => {
+    try {
+        const user = (req as any).user;
+        if (!user?.id) return send(res, 401, "Unauthorized");
+
+        const rate = await currencyService.createRate(req.body ?? {}, user.id);
+        return send(res, 201, "Exchange rate created", rate);
+    } catch (err) {
+        return sendError(res, err, "Failed to create exchange rate");
+    }
+};
+
+const deleteRate = async (req: Request, res: Response) => {
+    try {
+        await currencyService.deleteRate(req.params.id as string);
+        return send(res, 200, "Exchange rate deleted");
+    } catch (err) {
+        return sendError(res, err, "Failed to delete exchange rate");
+    }
+};
+
+export const currencyController = {
+    getCurrentRates,
+    listRates,
+    createRate,
+    deleteRate,
+};
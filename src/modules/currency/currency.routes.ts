@@ -0,0 +1,16 @@
+import { Router } from "express";
+import { currencyController } from "./currency.controller";
+import auth from "../../middleware/auth";
+import { UserRole } from "../../types";
+
+const router = Router();
+
+// Public: rates in effect now
+router.get("/", currencyController.getCurrentRates);
+
+// Admin: manage rates
+router.get("/history", auth(UserRole.ADMIN), currencyController.listRates);
+router.post("/", auth(UserRole.ADMIN), currencyController.createRate);
+router.delete("/:id", auth(UserRole.ADMIN), currencyController.deleteRate);
+
+export const currencyRouter = router;
@@ -0,0 +1,185 @@
+import { prisma } from "../../lib/prisma";
+import { ServiceError } from "../../lib/error";
+import { Decimal, DEFAULT_CURRENCY, multiplyMoney, roundMoney, type Money, type MoneyInput } from "../../lib/money";
+
+/** Exchange rates share the Decimal type of amounts */
+type Rate = Money;
+
+type RateInputType = {
+    baseCurrency?: string;
+    quoteCurrency?: string;
+    rate?: number | string;
+    effectiveFrom?: string;
+};
+
+/** Rates are stored and applied with 8 decimal places */
+const RATE_PLACES = 8;
+
+const ONE = new Decimal(1);
+
+/**
+ * Helper: validate an ISO 4217 code (e.g. "usd" -> "USD").
+ * Undefined when absent; 400 when it is not a 3-letter code.
+ */
+export const normalizeCurrency = (value: unknown, field = "currency") => {
+    if (value === undefined || value === null || value === "") return undefined;
+    const code = String(value).trim().toUpperCase();
+    if (!/^[A-Z]{3}$/.test(code)) throw new ServiceError(`${field} must be a 3-letter ISO 4217 code`, 400);
+    return code;
+};
+
+/** Helper: latest stored rate of a pair effective at the given time */
+const findRate = async (tx: any, base: string, quote: string, at: Date): Promise<Rate | null> => {
+    const row = await tx.exchangeRate.findFirst({
+        where: { baseCurrency: base, quoteCurrency: quote, effectiveFrom: { lte: at } },
+        orderBy: { effectiveFrom: "desc" },
+        select: { rate: true },
+    });
+    return row?.rate ?? null;
+};
+
+/**
+ * Helper: how many `to` units one `from` unit buys at a point in time.
+ * Uses the stored pair, else the inverse pair, else a cross rate through the store currency.
+ * 400 when no rate is configured.
+ */
+export const getExchangeRate = async (tx: any, from: string, to: string, at = new Date()): Promise<Rate> => {
+    if (from === to) return ONE;
+
+    const direct = await findRate(tx, from, to, at);
+    if (direct) return direct;
+
+    const inverse = await findRate(tx, to, from, at);
+    if (inverse) return ONE.dividedBy(inverse).toDecimalPlaces(RATE_PLACES, Decimal.ROUND_HALF_UP);
+
+    if (from !== DEFAULT_CURRENCY && to !== DEFAULT_CURRENCY) {
+        const toStore = await getExchangeRate(tx, from, DEFAULT_CURRENCY, at);
+        const fromStore = await getExchangeRate(tx, DEFAULT_CURRENCY, to, at);
+        return toStore.times(fromStore).toDecimalPlaces(RATE_PLACES, Decimal.ROUND_HALF_UP);
+    }
+    throw new ServiceError(`No exchange rate from ${from} to ${to}`, 400);
+};
+
+/** Helper: rates from several currencies into one, keyed by source currency */
+export const getExchangeRates = async (tx: any, from: string[], to: string, at = new Date()) => {
+    const rates = new Map<string, Rate>();
+    for (const currency of new Set(from)) {
+        rates.set(currency, await getExchangeRate(tx, currency, to, at));
+    }
+    return rates;
+};
+
+/** Helper: like getExchangeRates, but currencies without a configured rate are left out */
+export const findExchangeRates = async (tx: any, from: string[], to: string, at = new Date()) => {
+    const rates = new Map<string, Rate>();
+    for (const currency of new Set(from)) {
+        try {
+            rates.set(currency, await getExchangeRate(tx, currency, to, at));
+        } catch (err) {
+            if (!(err instanceof ServiceError)) throw err;
+        }
+    }
+    return rates;
+};
+
+/** Helper: amount converted with a rate, rounded to minor units */
+export const convertMoney = (amount: MoneyInput, rate: MoneyInput) => roundMoney(multiplyMoney(amount, rate));
+
+const parseRate = (value: unknown) => {
+    let rate: Rate | undefined;
+    if (typeof value === "number" || typeof value === "string") {
+        try {
+            rate = new Decimal(value);
+        } catch {
+            rate = undefined;
+        }
+    }
+    if (!rate || !rate.isFinite() || rate.lessThanOrEqualTo(0) || rate.decimalPlaces() > RATE_PLACES) {
+        throw new ServiceError(`rate must be a positive number with at most ${RATE_PLACES} decimals`, 400);
+    }
+    return rate;
+};
+
+/** Rates in effect now, one per currency pair */
+const getCurrentRates = async () => {
+    try {
+        const rows = await prisma.exchangeRate.findMany({
+            where: { effectiveFrom: { lte: new Date() } },
+            orderBy: [{ baseCurrency: "asc" }, { quoteCurrency: "asc" }, { effectiveFrom: "desc" }],
+        });
+        const seen = new Set<string>();
+        const current = rows.filter((r) => {
+            const pair = `${r.baseCurrency}/${r.quoteCurrency}`;
+            if (seen.has(pair)) return false;
+            seen.add(pair);
+            return true;
+        });
+        return { storeCurrency: DEFAULT_CURRENCY, rates: current };
+    } catch (err: any) {
+        console.error("getCurrentRates error:", err);
+        throw new ServiceError("Failed to fetch exchange rates", 500);
+    }
+};
+
+/** Full rate history (including scheduled rates), optionally for one pair */
+const listRates = async (query: { baseCurrency?: string; quoteCurrency?: string }) => {
+    const baseCurrency = normalizeCurrency(query.baseCurrency, "baseCurrency");
+    const quoteCurrency = normalizeCurrency(query.quoteCurrency, "quoteCurrency");
+
+    try {
+        const where: any = {};
+        if (baseCurrency) where.baseCurrency = baseCurrency;
+        if (quoteCurrency) where.quoteCurrency = quoteCurrency;
+        return await prisma.exchangeRate.findMany({
+            where,
+            orderBy: [{ baseCurrency: "asc" }, { quoteCurrency: "asc" }, { effectiveFrom: "desc" }],
+        });
+    } catch (err: any) {
+        console.error("listRates error:", err);
+        throw new ServiceError("Failed to fetch exchange rates", 500);
+    }
+};
+
+/**
+ * Add a rate for a pair. Rates are never edited: a new row with a later
+ * effectiveFrom (default now) replaces the previous one from that moment.
+ */
+const createRate = async (data: RateInputType, adminId: string) => {
+    const baseCurrency = normalizeCurrency(data.baseCurrency, "baseCurrency");
+    const quoteCurrency = normalizeCurrency(data.quoteCurrency, "quoteCurrency");
+    if (!baseCurrency || !quoteCurrency) throw new ServiceError("baseCurrency and quoteCurrency are required", 400);
+    if (baseCurrency === quoteCurrency) throw new ServiceError("baseCurrency and quoteCurrency must differ", 400);
+
+    const rate = parseRate(data.rate);
+    const effectiveFrom = data.effectiveFrom ? new Date(data.effectiveFrom) : new Date();
+    if (isNaN(effectiveFrom.getTime())) throw new ServiceError("Invalid effectiveFrom date", 400);
+
+    try {
+        return await prisma.exchangeRate.create({
+            data: { baseCurrency, quoteCurrency, rate, effectiveFrom, createdBy: adminId },
+        });
+    } catch (err: any) {
+        if (err?.code === "P2002") throw new ServiceError("A rate for this pair already starts at effectiveFrom", 409);
+        console.error("createRate error:", err);
+        throw new ServiceError("Failed to create exchange rate", 500);
+    }
+};
+
+/** Delete a rate; orders keep the rate recorded at checkout */
+const deleteRate = async (id: string) => {
+    const existing = await prisma.exchangeRate.findUnique({ where: { id } });
+    if (!existing) throw new ServiceError("Exchange rate not found", 404);
+    try {
+        return await prisma.exchangeRate.delete({ where: { id } });
+    } catch (err: any) {
+        console.error("deleteRate error:", err);
+        throw new ServiceError("Failed to delete exchange rate", 500);
+    }
+};
+
+export const currencyService = {
+    getCurrentRates,
+    listRates,
+    createRate,
+    deleteRate,
+};
@@ -0,0 +1,120 @@
+import { Request, Response } from "express";
+import { interactionService } from "./interaction.service";
+import { ServiceError } from "../../lib/error";
+import paginationSortingHelpers from "../../helpers/paginationSortingHelpers";
+
+const send = (res: Response, code: number, message: string, data?: any) =>
+    res.status(code).json({ message, data });
+
+const sendError = (res: Response, err: any, fallback: string) => {
+    const status = err instanceof ServiceError ? err.statusCode : 500;
+    const message = err?.message || fallback;
+    const details = err instanceof ServiceError ? err.details : undefined;
+    return res.status(status).json({ message, details });
+};
+
+/**
+ * GET /api/interactions?ingredient=warfarin&severity=MAJOR
+ */
+const listInteractions = async (req: Request, res: Response) => {
+    try {
+        const ingredient = typeof req.query.ingredient === "string" ? req.query.ingredient : undefined;
+        const severity = typeof req.query.severity === "string" ? req.query.severity : undefined;
+        const { page, limit, skip, sortBy, sortOrder } = paginationSortingHelpers(req.query);
+
+        const data = await interactionService.listInteractions({ page, limit, skip, sortBy, sortOrder, ingredient, severity });
+        return send(res, 200, "Interactions fetched", data);
+    } catch (err) {
+        return sendError(res, err, "Failed to fetch interactions");
+    }
+};
+
+/**
+ * POST /api/interactions
+ * body: { ingredientA, ingredientB, severity, description }
+ */
+const createInteraction = async (req: Request, res: Response) => {
+    try {
+        const user = (req as any).user;
+        if (!user?.id) return send(res, 401, "Unauthorized");
+
+        const interaction = await interactionService.createInteraction(req.body ?? {}, user.id);
+        return send(res, 201, "Interaction created", interaction);
+    } catch (err) {
+        return sendError(res, err, "Failed to create interaction");
+    }
+};
+
+const updateInteraction = async (req: Request, res: Response) => {
+    try {
+        const interaction = await interactionService.updateInteraction(req.params.id as string, req.body ?? {});
+        return send(res, 200, "Interaction updated", interaction);
+    } catch (err) {
+        return sendError(res, err, "Failed to update interaction");
+    }
+};
+
+const deleteInteraction = async (req: Request, res: Response) => {
+    try {
+        await interactionService.deleteInteraction(req.params.id as string);
+        return send(res, 200, "Interaction deleted");
+    } catch (err) {
+        return sendError(res, err, "Failed to delete interaction");
+    }
+};
+
+/**
+ * POST /api/interactions/import
+ * Raw text/csv body, or JSON { csv }
+ */
+const importInteractions = async (req: Request, res: Response) => {
+    try {
+        const user = (req as any).user;
+        if (!user?.id) return send(res, 401, "Unauthorized");
+
+        const csv = typeof req.body === "string" ? req.body : req.body?.csv;
+        const result = await interactionService.importInteractions(csv, user.id);
+        return send(res, 200, "Interactions imported", result);
+    } catch (err) {
+        return sendError(res, err, "Failed to import interactions");
+    }
+};
+
+/**
+ * POST /api/interactions/overrides
+ * body: { userId, interactionId, reason }
+ */
+const createOverride = async (req: Request, res: Response) => {
+    try {
+        const user = (req as any).user;
+        if (!user?.id) return send(res, 401, "Unauthorized");
+
+        const override = await interactionService.createOverride(user, req.body ?? {});
+        return send(res, 201, "Interaction override recorded", override);
+    } catch (err) {
+        return sendError(res, err, "Failed to record override");
+    }
+};
+
+/**
+ * GET /api/interactions/overrides?userId=...
+ */
+const listOverrides = async (req: Request, res: Response) => {
+    try {
+        const userId = typeof req.query.userId === "string" ? req.query.userId : undefined;
+        const overrides = await interactionService.listOverrides(userId);
+        return send(res, 200, "Interaction overrides fetched", overrides);
+    } catch (err) {
+        return sendError(res, err, "Failed to fetch overrides");
+    }
+};
+
+export const interactionController = {
+    listInteractions,
+    createInteraction,
+    updateInteraction,
+    deleteInteraction,
+    importInteractions,
+    createOverride,
+    listOverrides,
+};
@@ -0,0 +1,24 @@
+import express, { Router } from "express";
+import { interactionController } from "./interaction.controller";
+import auth from "../../middleware/auth";
+import { UserRole } from "../../types";
+
+const router = Router();
+
+// Pharmacist overrides (admins and sellers)
+router.get("/overrides", auth(UserRole.ADMIN, UserRole.SELLER), interactionController.listOverrides);
+router.post("/overrides", auth(UserRole.ADMIN, UserRole.SELLER), interactionController.createOverride);
+
+// Admin: manage the interaction table
+router.get("/", auth(UserRole.ADMIN), interactionController.listInteractions);
+router.post("/", auth(UserRole.ADMIN), interactionController.createInteraction);
+router.post(
+    "/import",
+    auth(UserRole.ADMIN),
+    express.text({ type: ["text/csv", "text/plain"], limit: "5mb" }),
+    interactionController.importInteractions
+);
+router.patch("/:id", auth(UserRole.ADMIN), interactionController.updateInteraction);
+router.delete("/:id", auth(UserRole.ADMIN), interactionController.deleteInteraction);
+
+export const interactionRouter = router;
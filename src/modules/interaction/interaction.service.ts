@@ -0,0 +1,306 @@
+import { prisma } from "../../lib/prisma";
+import { ServiceError } from "../../lib/error";
+import type { DrugInteraction } from "../../generated/prisma/client";
+import { InteractionSeverity } from "../../generated/prisma/enums";
+import { parseCsvRecords } from "../../helpers/csvHelpers";
+
+type InteractionInputType = {
+    ingredientA?: string;
+    ingredientB?: string;
+    severity?: string;
+    description?: string;
+};
+
+type PaginationType = {
+    page: number,
+    limit: number,
+    skip: number,
+    sortBy: string,
+    sortOrder: string,
+}
+
+/** What the checker needs to know about a cart/order medicine */
+export type InteractionMedicine = {
+    id: string;
+    name: string;
+    genericName: string | null;
+    ingredients: { name: string }[];
+};
+
+export type InteractionWarning = {
+    interactionId: string;
+    severity: InteractionSeverity;
+    description: string;
+    ingredients: [string, string];
+    medicines: { id: string; name: string }[];
+    overridden: boolean; // a pharmacist override is waiting for the next checkout
+};
+
+const SEVERITY_RANK: Record<InteractionSeverity, number> = {
+    MINOR: 0,
+    MODERATE: 1,
+    MAJOR: 2,
+    CONTRAINDICATED: 3,
+};
+
+/** Helper: ingredient names are matched case- and spacing-insensitively */
+const normalizeIngredient = (name?: string | null) => String(name ?? "").trim().replace(/\s+/g, " ").toLowerCase();
+
+/** Helper: a pair is stored once, alphabetically ordered */
+const orderedPair = (a: string, b: string): [string, string] => (a < b ? [a, b] : [b, a]);
+
+/**
+ * Helper: active ingredients of a medicine.
+ * Structured ingredients when present, else the generic name split on "+" / "," with strengths removed.
+ */
+const activeIngredientsOf = (medicine: InteractionMedicine) => {
+    const names = medicine.ingredients.length
+        ? medicine.ingredients.map((i) => i.name)
+        : (medicine.genericName ?? "").split(/[+,]/).map((part) => part.replace(/\b\d+(?:\.\d+)?\s*[a-z%/0-9.]*/gi, ""));
+    return [...new Set(names.map(normalizeIngredient).filter(Boolean))];
+};
+
+/**
+ * Interactions between ingredients of different medicines, most severe first.
+ * `overridden` is true when the customer holds an unused pharmacist override for it.
+ */
+export const checkInteractions = async (
+    tx: any,
+    userId: string,
+    medicines: InteractionMedicine[]
+): Promise<InteractionWarning[]> => {
+    const byIngredient = new Map<string, InteractionMedicine[]>();
+    for (const medicine of medicines) {
+        for (const ingredient of activeIngredientsOf(medicine)) {
+            const list = byIngredient.get(ingredient) ?? [];
+            if (!list.some((m) => m.id === medicine.id)) list.push(medicine);
+            byIngredient.set(ingredient, list);
+        }
+    }
+    const ingredients = [...byIngredient.keys()];
+    if (ingredients.length < 2) return [];
+
+    const interactions: DrugInteraction[] = await tx.drugInteraction.findMany({
+        where: { ingredientA: { in: ingredients }, ingredientB: { in: ingredients } },
+    });
+
+    const warnings: InteractionWarning[] = [];
+    for (const interaction of interactions) {
+        const left = byIngredient.get(interaction.ingredientA) ?? [];
+        const right = byIngredient.get(interaction.ingredientB) ?? [];
+        // a combination product's own ingredients are not flagged against each other
+        const involved = [...new Map([...left, ...right].map((m) => [m.id, m])).values()];
+        if (involved.length < 2) continue;
+
+        warnings.push({
+            interactionId: interaction.id,
+            severity: interaction.severity,
+            description: interaction.description,
+            ingredients: [interaction.ingredientA, interaction.ingredientB],
+            medicines: involved.map((m) => ({ id: m.id, name: m.name })),
+            overridden: false,
+        });
+    }
+    if (warnings.length === 0) return [];
+
+    const overrides: { interactionId: string }[] = await tx.interactionOverride.findMany({
+        where: { userId, orderId: null, interactionId: { in: warnings.map((w) => w.interactionId) } },
+        select: { interactionId: true },
+    });
+    const overridden = new Set(overrides.map((o) => o.interactionId));
+    for (const w of warnings) w.overridden = overridden.has(w.interactionId);
+
+    return warnings.sort((a, b) => SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity]);
+};
+
+/** Helper: contraindicated interactions that still block checkout */
+export const blockingInteractions = (warnings: InteractionWarning[]) =>
+    warnings.filter((w) => w.severity === InteractionSeverity.CONTRAINDICATED && !w.overridden);
+
+/**
+ * Mark the overrides used by a new order so they cannot be reused.
+ * Must be called inside the checkout transaction.
+ */
+export const consumeInteractionOverrides = async (
+    tx: any,
+    order: { id: string; userId: string },
+    warnings: InteractionWarning[]
+) => {
+    for (const w of warnings.filter((w) => w.overridden)) {
+        const override = await tx.interactionOverride.findFirst({
+            where: { userId: order.userId, interactionId: w.interactionId, orderId: null },
+            orderBy: { createdAt: "asc" },
+        });
+        if (override) await tx.interactionOverride.update({ where: { id: override.id }, data: { orderId: order.id } });
+    }
+};
+
+const validateInteraction = (data: InteractionInputType, existing?: DrugInteraction) => {
+    const a = data.ingredientA === undefined ? existing?.ingredientA : normalizeIngredient(data.ingredientA);
+    const b = data.ingredientB === undefined ? existing?.ingredientB : normalizeIngredient(data.ingredientB);
+    if (!a || !b) throw new ServiceError("ingredientA and ingredientB are required", 400);
+    if (a === b) throw new ServiceError("ingredientA and ingredientB must differ", 400);
+
+    const severity = (data.severity === undefined ? existing?.severity : String(data.severity).trim().toUpperCase()) as InteractionSeverity;
+    if (!Object.values(InteractionSeverity).includes(severity)) {
+        throw new ServiceError(`severity must be one of ${Object.values(InteractionSeverity).join(", ")}`, 400);
+    }
+
+    const description = data.description === undefined ? existing?.description : String(data.description).trim();
+    if (!description) throw new ServiceError("description is required", 400);
+
+    const [ingredientA, ingredientB] = orderedPair(a, b);
+    return { ingredientA, ingredientB, severity, description };
+};
+
+const listInteractions = async (opts: PaginationType & { ingredient?: string | undefined; severity?: string | undefined }) => {
+    const { page, limit, skip, sortBy, sortOrder } = opts;
+    try {
+        const where: any = {};
+        const ingredient = normalizeIngredient(opts.ingredient);
+        if (ingredient) {
+            where.OR = [{ ingredientA: { contains: ingredient } }, { ingredientB: { contains: ingredient } }];
+        }
+        if (opts.severity) where.severity = opts.severity.toUpperCase();
+
+        const [items, total] = await Promise.all([
+            prisma.drugInteraction.findMany({ where, skip, take: limit, orderBy: { [sortBy]: sortOrder } }),
+            prisma.drugInteraction.count({ where }),
+        ]);
+
+        return {
+            items,
+            pagination: {
+                total,
+                page,
+                limit,
+                totalPages: Math.ceil(total / limit),
+            },
+        };
+    } catch (err: any) {
+        console.error("listInteractions error:", err);
+        throw new ServiceError("Failed to fetch interactions", 500);
+    }
+};
+
+const createInteraction = async (data: InteractionInputType, adminId: string) => {
+    const interaction = validateInteraction(data);
+    try {
+        return await prisma.drugInteraction.create({ data: { ...interaction, createdBy: adminId } });
+    } catch (err: any) {
+        if (err?.code === "P2002") throw new ServiceError("An interaction for this ingredient pair already exists", 409);
+        console.error("createInteraction error:", err);
+        throw new ServiceError("Failed to create interaction", 500);
+    }
+};
+
+const updateInteraction = async (id: string, data: InteractionInputType) => {
+    const existing = await prisma.drugInteraction.findUnique({ where: { id } });
+    if (!existing) throw new ServiceError("Interaction not found", 404);
+    const interaction = validateInteraction(data, existing);
+
+    try {
+        return await prisma.drugInteraction.update({ where: { id }, data: interaction });
+    } catch (err: any) {
+        if (err?.code === "P2002") throw new ServiceError("An interaction for this ingredient pair already exists", 409);
+        console.error("updateInteraction error:", err);
+        throw new ServiceError("Failed to update interaction", 500);
+    }
+};
+
+const deleteInteraction = async (id: string) => {
+    const existing = await prisma.drugInteraction.findUnique({ where: { id } });
+    if (!existing) throw new ServiceError("Interaction not found", 404);
+    try {
+        return await prisma.drugInteraction.delete({ where: { id } });
+    } catch (err: any) {
+        console.error("deleteInteraction error:", err);
+        throw new ServiceError("Failed to delete interaction", 500);
+    }
+};
+
+/**
+ * Seed / refresh the knowledge table from CSV
+ * (header: ingredientA,ingredientB,severity,description).
+ * Rows are upserted by ingredient pair; invalid rows are reported and skipped.
+ */
+const importInteractions = async (csv: string, adminId?: string) => {
+    if (typeof csv !== "string" || csv.trim() === "") throw new ServiceError("CSV content is required", 400);
+
+    const records = parseCsvRecords(csv);
+    const result = { created: 0, updated: 0, errors: [] as { line: number; message: string }[] };
+
+    for (const { line, values } of records) {
+        try {
+            const interaction = validateInteraction(values);
+            const pair = { ingredientA: interaction.ingredientA, ingredientB: interaction.ingredientB };
+            const existing = await prisma.drugInteraction.findUnique({ where: { ingredientA_ingredientB: pair } });
+            if (existing) {
+                await prisma.drugInteraction.update({ where: { id: existing.id }, data: interaction });
+                result.updated++;
+            } else {
+                await prisma.drugInteraction.create({ data: { ...interaction, createdBy: adminId ?? null } });
+                result.created++;
+            }
+        } catch (err: any) {
+            if (!(err instanceof ServiceError)) console.error("importInteractions error:", err);
+            result.errors.push({ line, message: err instanceof ServiceError ? err.message : "Failed to save row" });
+        }
+    }
+    return result;
+};
+
+/**
+ * Pharmacist (admin / seller) approval for a customer to buy a contraindicated combination.
+ * Valid for the customer's next order containing the pair.
+ */
+const createOverride = async (
+    approver: { id: string },
+    data: { userId?: string; interactionId?: string; reason?: string }
+) => {
+    if (!data.userId || !data.interactionId) throw new ServiceError("userId and interactionId are required", 400);
+    const reason = String(data.reason ?? "").trim();
+    if (!reason) throw new ServiceError("reason is required", 400);
+
+    const [customer, interaction] = await Promise.all([
+        prisma.user.findUnique({ where: { id: data.userId }, select: { id: true } }),
+        prisma.drugInteraction.findUnique({ where: { id: data.interactionId } }),
+    ]);
+    if (!customer) throw new ServiceError("User not found", 404);
+    if (!interaction) throw new ServiceError("Interaction not found", 404);
+
+    try {
+        return await prisma.interactionOverride.create({
+            data: { userId: customer.id, interactionId: interaction.id, approvedBy: approver.id, reason },
+            include: { interaction: true },
+        });
+    } catch (err: any) {
+        console.error("createOverride error:", err);
+        throw new ServiceError("Failed to record override", 500);
+    }
+};
+
+/** Overrides of a customer (used ones carry the orderId) */
+const listOverrides = async (userId?: string) => {
+    try {
+        return await prisma.interactionOverride.findMany({
+            where: userId ? { userId } : {},
+            orderBy: { createdAt: "desc" },
+            include: { interaction: true },
+            take: 100,
+        });
+    } catch (err: any) {
+        console.error("listOverrides error:", err);
+        throw new ServiceError("Failed to fetch overrides", 500);
+    }
+};
+
+export const interactionService = {
+    listInteractions,
+    createInteraction,
+    updateInteraction,
+    deleteInteraction,
+    importInteractions,
+    createOverride,
+    listOverrides,
+};
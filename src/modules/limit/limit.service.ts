@@ -0,0 +1,149 @@
+import { ServiceError } from "../../lib/error";
+
+/** Limit settings shared by medicines and categories; null = no limit */
+export type PurchaseLimits = {
+    maxPerOrder: number | null;
+    maxPerPeriod: number | null;
+    limitPeriodDays: number | null;
+};
+
+type PurchaseLimitInput = {
+    maxPerOrder?: unknown;
+    maxPerPeriod?: unknown;
+    limitPeriodDays?: unknown;
+};
+
+type LimitLine = { medicineId: string; quantity: number };
+
+type LimitRule = PurchaseLimits & {
+    scope: "MEDICINE" | "CATEGORY";
+    id: string;
+    name: string;
+    medicineIds: string[];
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const optionalLimit = (value: unknown, field: string) => {
+    if (value === undefined) return undefined;
+    if (value === null || value === "") return null;
+    const n = Number(value);
+    if (!Number.isInteger(n) || n <= 0) throw new ServiceError(`${field} must be a positive whole number`, 400);
+    return n;
+};
+
+/**
+ * Helper: validate the limit fields of a medicine / category create or update body.
+ * Only given fields are returned; a per-period limit needs its period and vice versa.
+ */
+export const validatePurchaseLimits = (data: PurchaseLimitInput, existing?: PurchaseLimits) => {
+    const fields: Partial<PurchaseLimits> = {};
+    const maxPerOrder = optionalLimit(data.maxPerOrder, "maxPerOrder");
+    const maxPerPeriod = optionalLimit(data.maxPerPeriod, "maxPerPeriod");
+    const limitPeriodDays = optionalLimit(data.limitPeriodDays, "limitPeriodDays");
+    if (maxPerOrder !== undefined) fields.maxPerOrder = maxPerOrder;
+    if (maxPerPeriod !== undefined) fields.maxPerPeriod = maxPerPeriod;
+    if (limitPeriodDays !== undefined) fields.limitPeriodDays = limitPeriodDays;
+
+    const period = maxPerPeriod === undefined ? existing?.maxPerPeriod ?? null : maxPerPeriod;
+    const days = limitPeriodDays === undefined ? existing?.limitPeriodDays ?? null : limitPeriodDays;
+    if ((period === null) !== (days === null)) {
+        throw new ServiceError("maxPerPeriod and limitPeriodDays must be set together", 400);
+    }
+    return fields;
+};
+
+const hasLimit = (l: PurchaseLimits) => l.maxPerOrder !== null || l.maxPerPeriod !== null;
+
+const units = (n: number) => `${n} unit${n === 1 ? "" : "s"}`;
+
+/** Helper: units the customer bought under a rule in the last `days` days (cancelled and returned units excluded) */
+const purchasedSince = async (tx: any, userId: string, rule: LimitRule, days: number) => {
+    const since = new Date(Date.now() - days * DAY_MS);
+    const { _sum } = await tx.orderItem.aggregate({
+        where: {
+            orderItemStatus: { not: "CANCELLED" },
+            order: { userId, status: { not: "CANCELLED" }, createdAt: { gte: since } },
+            ...(rule.scope === "MEDICINE" ? { medicineId: rule.id } : { medicine: { categoryId: rule.id } }),
+        },
+        _sum: { quantity: true, returnedQuantity: true },
+    });
+    return Math.max(0, (_sum.quantity ?? 0) - (_sum.returnedQuantity ?? 0));
+};
+
+/**
+ * Helper: serialize a customer's limit checks until the transaction ends, so two checkouts
+ * at once cannot both pass a per-period limit on the same past purchases.
+ */
+const lockCustomerLimits = async (tx: any, userId: string) => {
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`purchase-limits:${userId}`}))`;
+};
+
+/**
+ * Enforce per-customer purchase limits for the given cart/order lines.
+ * Medicine limits count that medicine; category limits count all its medicines together.
+ * Pass `medicineId` to check only the rules that medicine falls under (cart edits).
+ * Per-period checks hold a per-customer lock until `tx` ends; call this in the transaction
+ * that creates the order. 409 explaining the limit when exceeded.
+ */
+export const assertPurchaseLimits = async (tx: any, userId: string, lines: LimitLine[], medicineId?: string) => {
+    const quantities = new Map<string, number>();
+    for (const line of lines) quantities.set(line.medicineId, (quantities.get(line.medicineId) ?? 0) + line.quantity);
+
+    const limitFields = { maxPerOrder: true, maxPerPeriod: true, limitPeriodDays: true };
+    const medicines: (PurchaseLimits & {
+        id: string;
+        name: string;
+        category: (PurchaseLimits & { id: string; name: string }) | null;
+    })[] = await tx.medicine.findMany({
+        where: { id: { in: [...quantities.keys()] } },
+        select: { id: true, name: true, ...limitFields, category: { select: { id: true, name: true, ...limitFields } } },
+    });
+
+    const rules = new Map<string, LimitRule>();
+    for (const m of medicines) {
+        const { category, ...medicine } = m;
+        if (hasLimit(medicine)) {
+            rules.set(`medicine:${m.id}`, { ...medicine, scope: "MEDICINE", medicineIds: [m.id] });
+        }
+        if (category && hasLimit(category)) {
+            const key = `category:${category.id}`;
+            const rule = rules.get(key) ?? { ...category, scope: "CATEGORY", medicineIds: [] };
+            rule.medicineIds.push(m.id);
+            rules.set(key, rule);
+        }
+    }
+
+    if ([...rules.values()].some((rule) => rule.maxPerPeriod !== null)) await lockCustomerLimits(tx, userId);
+
+    for (const rule of rules.values()) {
+        if (medicineId && !rule.medicineIds.includes(medicineId)) continue;
+
+        const label = rule.scope === "MEDICINE" ? `${rule.name} is` : `Medicines in ${rule.name} are`;
+        const requested = rule.medicineIds.reduce((sum, id) => sum + (quantities.get(id) ?? 0), 0);
+        const details = {
+            scope: rule.scope,
+            id: rule.id,
+            maxPerOrder: rule.maxPerOrder,
+            maxPerPeriod: rule.maxPerPeriod,
+            limitPeriodDays: rule.limitPeriodDays,
+            requested,
+        };
+
+        if (rule.maxPerOrder !== null && requested > rule.maxPerOrder) {
+            throw new ServiceError(`${label} limited to ${units(rule.maxPerOrder)} per order`, 409, details);
+        }
+        if (rule.maxPerPeriod !== null && rule.limitPeriodDays !== null) {
+            const purchased = await purchasedSince(tx, userId, rule, rule.limitPeriodDays);
+            if (purchased + requested > rule.maxPerPeriod) {
+                const remaining = Math.max(0, rule.maxPerPeriod - purchased);
+                throw new ServiceError(
+                    `${label} limited to ${units(rule.maxPerPeriod)} per ${rule.limitPeriodDays} days; ` +
+                    `you bought ${units(purchased)} in that period, so at most ${units(remaining)} more can be ordered`,
+                    409,
+                    { ...details, purchased }
+                );
+            }
+        }
+    }
+};
@@ -10,10 +10,23 @@ const send = (res: Response, code: number, message: string, data?: any) =>
 const sendError = (res: Response, err: any, fallback: string) => {
     const status = err instanceof ServiceError ? err.statusCode : 500;
     const message = err?.message || fallback;
-    return res.status(status).json({ message });
+    const details = err instanceof ServiceError ? err.details : undefined;
+    return res.status(status).json({ message, details });
 };
 
 
+/** Helper: structured drug filters, e.g. ?dosageForm=syrup&strength=500mg&ingredient=paracetamol */
+const drugInfoFilters = (query: Request["query"]) => {
+    const text = (key: string) => (typeof query[key] === "string" && query[key].trim() !== "" ? query[key].trim() : undefined);
+    return {
+        dosageForm: text("dosageForm"),
+        route: text("route"),
+        strength: text("strength"),
+        ingredient: text("ingredient"),
+        registrationNumber: text("registrationNumber"),
+    };
+};
+
 // Public controllers
 const getAllMedicines = async (req: Request, res: Response, next: NextFunction) => {
     try {
@@ -22,6 +35,7 @@ const getAllMedicines = async (req: Request, res: Response, next: NextFunction)
         const categoryString = typeof category === "string" ? category.trim() : undefined;
         const manufacturerString = typeof manufacturer === "string" ? manufacturer.trim() : undefined;
         const sellerId = typeof req.query.sellerId === "string" ? req.query.sellerId : undefined;
+        const currency = typeof req.query.currency === "string" ? req.query.currency : undefined;
 
         const minPrice = req.query.minPrice ? Number(req.query.minPrice) : undefined;
         const maxPrice = req.query.maxPrice ? Number(req.query.maxPrice) : undefined;
@@ -43,7 +57,9 @@ const getAllMedicines = async (req: Request, res: Response, next: NextFunction)
                     : undefined
             : undefined;
 
-        const { page, limit, skip, sortBy, sortOrder } = paginationSortingHelpers(req.query);
+        const { page, limit, skip, sortBy: requestedSortBy, sortOrder } = paginationSortingHelpers(req.query);
+        // searches are ranked by relevance unless another order is asked for
+        const sortBy = searchString && !req.query.sortBy ? "relevance" : requestedSortBy;
 
         if (minPrice !== undefined && Number.isNaN(minPrice)) {
             return send(res, 400, "Invalid minPrice");
@@ -64,6 +80,8 @@ const getAllMedicines = async (req: Request, res: Response, next: NextFunction)
             maxPrice,
             inStock,
             isFeatured,
+            currency,
+            ...drugInfoFilters(req.query),
             page,
             limit,
             skip,
@@ -83,6 +101,24 @@ const getAllMedicines = async (req: Request, res: Response, next: NextFunction)
 };
 
 
+/**
+ * GET /api/medicines/suggest?q=nap&limit=8
+ * Typeahead; responses are short-lived cacheable
+ */
+const getSuggestions = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const q = typeof req.query.q === "string" ? req.query.q : undefined;
+        const limit = req.query.limit ? Number(req.query.limit) : undefined;
+        if (limit !== undefined && Number.isNaN(limit)) return send(res, 400, "Invalid limit");
+
+        const data = await medicineService.getSuggestions(q, limit);
+        res.set("Cache-Control", "public, max-age=60");
+        return send(res, 200, "Suggestions fetched successfully", data);
+    } catch (err) {
+        next(err);
+    }
+};
+
 const getMedicinesBySeller = async (req: Request, res: Response, next: NextFunction) => {
     try {
         if (!req.user?.id) return send(res, 401, "Unauthorized");
@@ -134,6 +170,7 @@ const getMedicinesBySeller = async (req: Request, res: Response, next: NextFunct
             maxPrice,
             inStock,
             isFeatured,
+            ...drugInfoFilters(req.query),
             page,
             limit,
             skip,
@@ -164,6 +201,20 @@ const getMedicineById = async (req: Request, res: Response, next: NextFunction)
     }
 };
 
+/**
+ * GET /api/medicines/:id/alternatives[?currency=USD]
+ * In-stock brands with the same generic and strength, cheapest first
+ */
+const getAlternatives = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const currency = typeof req.query.currency === "string" ? req.query.currency : undefined;
+        const data = await medicineService.getAlternatives(req.params.id as string, currency);
+        return send(res, 200, "Alternatives fetched successfully", data);
+    } catch (err) {
+        next(err);
+    }
+};
+
 // Seller controllers
 const addMedicine = async (req: Request, res: Response, next: NextFunction) => {
     try {
@@ -201,8 +252,8 @@ const deleteMedicine = async (req: Request, res: Response, next: NextFunction) =
 const updateStock = async (req: Request, res: Response, next: NextFunction) => {
     try {
         if (!req.user?.id) return send(res, 401, "Unauthorized");
-        const { stock } = req.body;
-        const medicine = await medicineService.updateStock(req.params.id as string, stock, req.user.id);
+        const { stock, reason } = req.body;
+        const medicine = await medicineService.updateStock(req.params.id as string, stock, req.user.id, reason);
         return send(res, 200, "Stock updated successfully", medicine);
     } catch (err) {
         // return sendError(res, err, "Failed to update stock");
@@ -212,8 +263,10 @@ const updateStock = async (req: Request, res: Response, next: NextFunction) => {
 
 export const medicineController = {
     getAllMedicines,
+    getSuggestions,
     getMedicinesBySeller,
     getMedicineById,
+    getAlternatives,
     addMedicine,
     updateMedicine,
     deleteMedicine,
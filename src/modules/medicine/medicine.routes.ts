@@ -8,8 +8,10 @@ const router = Router();
 
 // Public routes
 router.get("/", medicineController.getAllMedicines);
+router.get("/suggest", medicineController.getSuggestions);
 router.get("/seller", auth(UserRole.SELLER), medicineController.getMedicinesBySeller);
 router.get("/:id", medicineController.getMedicineById);
+router.get("/:id/alternatives", medicineController.getAlternatives);
 
 
 // Seller-only routes 
@@ -1,7 +1,13 @@
-import { Medicine } from "../../generated/prisma/client";
+import { Medicine, Prisma } from "../../generated/prisma/client";
+import { AdministrationRoute, DosageForm } from "../../generated/prisma/enums";
 import { MedicineWhereInput } from "../../generated/prisma/models";
 import { ServiceError } from "../../lib/error";
 import { prisma } from "../../lib/prisma";
+import { DEFAULT_CURRENCY, money, parseMoney, type Money } from "../../lib/money";
+import { addStock, adjustStock } from "../batch/batch.service";
+import { convertMoney, findExchangeRates, normalizeCurrency } from "../currency/currency.service";
+import { validatePurchaseLimits } from "../limit/limit.service";
+import { assertApprovedSeller } from "../onboarding/onboarding.service";
 
 
 // Public services
@@ -14,6 +20,12 @@ type SearchFilters = {
     maxPrice: number | undefined;
     inStock: boolean | undefined;
     isFeatured: boolean | undefined,
+    currency?: string | undefined,
+    dosageForm?: string | undefined,
+    route?: string | undefined,
+    strength?: string | undefined,
+    ingredient?: string | undefined,
+    registrationNumber?: string | undefined,
     page: number,
     limit: number,
     skip: number,
@@ -21,23 +33,345 @@ type SearchFilters = {
     sortOrder: string,
 };
 
+type IngredientInput = {
+    name?: string;
+    amount?: number | string | null;
+    unit?: string | null;
+};
+
+type DrugInfoInput = {
+    dosageForm?: string | null;
+    strength?: number | string | null;
+    strengthUnit?: string | null;
+    packSize?: number | string | null;
+    route?: string | null;
+    storageConditions?: string | null;
+    registrationNumber?: string | null;
+    ingredients?: IngredientInput[];
+};
+
+/** Body of an add / update medicine request; the bulk catalog import builds the same shape */
+export type MedicineInput = DrugInfoInput & {
+    name?: string | undefined;
+    genericName?: string | null | undefined;
+    description?: string | null | undefined;
+    price?: number | string | undefined;
+    stock?: number | undefined;
+    manufacturer?: string | null | undefined;
+    imageUrl?: string | null | undefined;
+    categoryId?: string | null | undefined;
+    weightGrams?: number | null | undefined;
+    sku?: string | null | undefined;
+    isActive?: boolean | undefined;
+    maxPerOrder?: number | null | undefined;
+    maxPerPeriod?: number | null | undefined;
+    limitPeriodDays?: number | null | undefined;
+};
+
+const MAX_INGREDIENTS = 20;
+
+/** Seller fields safe for public medicine payloads (no email, phone or account data) */
+const PUBLIC_SELLER_SELECT = {
+    id: true,
+    name: true,
+    image: true,
+    currency: true,
+    sellerProfile: { select: { storeName: true, slug: true, logoUrl: true, rating: true } },
+} as const;
+
+/** Helper: enum value from any casing; undefined when absent, null when cleared */
+const optionalEnum = <T extends string>(value: unknown, values: Record<string, T>, field: string) => {
+    if (value === undefined) return undefined;
+    if (value === null || value === "") return null;
+    const v = String(value).trim().toUpperCase() as T;
+    if (!Object.values(values).includes(v)) throw new ServiceError(`${field} must be one of ${Object.values(values).join(", ")}`, 400);
+    return v;
+};
+
+/** Helper: unit such as mg, mcg, iu, % or mg/5ml (stored lower-case, no spaces) */
+const optionalUnit = (value: unknown, field: string) => {
+    if (value === undefined) return undefined;
+    if (value === null || value === "") return null;
+    const unit = String(value).replace(/\s+/g, "").toLowerCase();
+    if (!/^[a-z%]+(\/\d*(\.\d+)?[a-z]+)?$/.test(unit)) throw new ServiceError(`Invalid ${field}`, 400);
+    return unit;
+};
+
+const optionalPositive = (value: unknown, field: string, integer = false) => {
+    if (value === undefined) return undefined;
+    if (value === null || value === "") return null;
+    const n = Number(value);
+    if (!Number.isFinite(n) || n <= 0 || (integer && !Number.isInteger(n))) {
+        throw new ServiceError(`${field} must be a positive ${integer ? "whole number" : "number"}`, 400);
+    }
+    return n;
+};
+
+const optionalText = (value: unknown) => {
+    if (value === undefined) return undefined;
+    const text = value === null ? "" : String(value).trim();
+    return text === "" ? null : text;
+};
+
+/**
+ * Helper: validate structured drug fields of a create/update body.
+ * `ingredients` (when given) replaces the whole list; strength needs a unit.
+ */
+const validateDrugInfo = (data: DrugInfoInput, existing?: { strength: number | null; strengthUnit: string | null }) => {
+    const fields: any = {
+        dosageForm: optionalEnum(data.dosageForm, DosageForm, "dosageForm"),
+        strength: optionalPositive(data.strength, "strength"),
+        strengthUnit: optionalUnit(data.strengthUnit, "strengthUnit"),
+        packSize: optionalPositive(data.packSize, "packSize", true),
+        route: optionalEnum(data.route, AdministrationRoute, "route"),
+        storageConditions: optionalText(data.storageConditions),
+        registrationNumber: optionalText(data.registrationNumber)?.toUpperCase(),
+    };
+    const strength = fields.strength === undefined ? existing?.strength ?? null : fields.strength;
+    const strengthUnit = fields.strengthUnit === undefined ? existing?.strengthUnit ?? null : fields.strengthUnit;
+    if (strength !== null && strengthUnit === null) throw new ServiceError("strengthUnit is required with strength", 400);
+
+    let ingredients: { name: string; amount: number | null; unit: string | null }[] | undefined;
+    if (data.ingredients !== undefined) {
+        if (!Array.isArray(data.ingredients) || data.ingredients.length > MAX_INGREDIENTS) {
+            throw new ServiceError(`ingredients must be a list of at most ${MAX_INGREDIENTS} items`, 400);
+        }
+        ingredients = data.ingredients.map((ing, i) => {
+            const name = optionalText(ing?.name);
+            if (!name) throw new ServiceError(`ingredients[${i}].name is required`, 400);
+            return {
+                name,
+                amount: optionalPositive(ing.amount, `ingredients[${i}].amount`) ?? null,
+                unit: optionalUnit(ing.unit, `ingredients[${i}].unit`) ?? null,
+            };
+        });
+    }
+    return { fields, ingredients };
+};
+
+/** Helper: "500mg", "500 mg" or "500" from a strength filter */
+const parseStrengthFilter = (value: string) => {
+    const match = /^(\d+(?:\.\d+)?)\s*([a-z%][a-z%/0-9.]*)?$/i.exec(value.trim());
+    if (!match) throw new ServiceError("Invalid strength filter, e.g. 500mg", 400);
+    return { strength: Number(match[1]), strengthUnit: match[2] ? optionalUnit(match[2], "strength unit") : undefined };
+};
+
+/**
+ * Helper: where-conditions for the structured drug filters shared by the public and seller listings.
+ * dosageForm / route accept a comma separated list; ingredient matches part of an ingredient name.
+ */
+const drugInfoConditions = (filters: Partial<SearchFilters>) => {
+    const conditions: MedicineWhereInput[] = [];
+    const list = (value: string) => value.split(",").map((v) => v.trim()).filter(Boolean);
+
+    if (filters.dosageForm) {
+        const forms = list(filters.dosageForm).map((v) => optionalEnum(v, DosageForm, "dosageForm")!);
+        conditions.push({ dosageForm: { in: forms } });
+    }
+    if (filters.route) {
+        const routes = list(filters.route).map((v) => optionalEnum(v, AdministrationRoute, "route")!);
+        conditions.push({ route: { in: routes } });
+    }
+    if (filters.strength) {
+        const { strength, strengthUnit } = parseStrengthFilter(filters.strength);
+        conditions.push(strengthUnit ? { strength, strengthUnit } : { strength });
+    }
+    if (filters.ingredient) {
+        conditions.push({ ingredients: { some: { name: { contains: filters.ingredient, mode: "insensitive" } } } });
+    }
+    if (filters.registrationNumber) {
+        conditions.push({ registrationNumber: { equals: filters.registrationNumber.trim(), mode: "insensitive" } });
+    }
+    return conditions;
+};
+
+/**
+ * Helper: tag each medicine with its price currency (the seller's base currency).
+ * With a target currency the price is converted at today's rate; the seller's
+ * own price stays available as basePrice / baseCurrency.
+ * Items whose currency has no rate keep their own price and currency.
+ */
+const withCurrency = async <T extends { price: Money; seller: { currency: string } | null }>(items: T[], currency?: string) => {
+    const sourceOf = (m: T) => m.seller?.currency ?? DEFAULT_CURRENCY;
+    if (!currency) return items.map((m) => ({ ...m, currency: sourceOf(m) }));
+
+    const rates = await findExchangeRates(prisma, items.map(sourceOf), currency);
+    return items.map((m) => {
+        const rate = rates.get(sourceOf(m));
+        if (!rate) return { ...m, currency: sourceOf(m) };
+        return {
+            ...m,
+            price: convertMoney(m.price, rate),
+            currency,
+            basePrice: m.price,
+            baseCurrency: sourceOf(m),
+            exchangeRate: rate,
+        };
+    });
+};
+
+/**
+ * Helper: minPrice / maxPrice are in the requested currency (store currency by default)
+ * while medicines are priced in their seller's currency, so the bounds are converted
+ * per seller currency. Listings in a currency without a rate cannot be compared and are left out.
+ */
+const priceRangeCondition = async (
+    minPrice: number | undefined,
+    maxPrice: number | undefined,
+    currency = DEFAULT_CURRENCY
+): Promise<MedicineWhereInput> => {
+    const sellers = await prisma.user.findMany({ distinct: ["currency"], select: { currency: true } });
+    const rates = await findExchangeRates(prisma, [DEFAULT_CURRENCY, ...sellers.map((s) => s.currency)], currency);
+
+    return {
+        OR: [...rates].map(([source, rate]) => {
+            const price: any = {};
+            if (minPrice !== undefined) price.gte = money(minPrice).dividedBy(rate);
+            if (maxPrice !== undefined) price.lte = money(maxPrice).dividedBy(rate);
+            const seller: MedicineWhereInput = source === DEFAULT_CURRENCY
+                ? { OR: [{ sellerId: null }, { seller: { currency: source } }] }
+                : { seller: { currency: source } };
+            return { AND: [seller, { price }] };
+        }),
+    };
+};
+
+/** Text search keeps the best N matches; filters, sorting and paging apply within them */
+/** Best search matches considered before the other filters and paging; beyond it `totalIsCapped` is set */
+const SEARCH_CANDIDATE_LIMIT = 1000;
+
+const HEADLINE_OPTIONS = "StartSel=<mark>, StopSel=</mark>";
+const SNIPPET_OPTIONS = `${HEADLINE_OPTIONS}, MaxFragments=2, MaxWords=20, MinWords=6, FragmentDelimiter=" … "`;
+
+type SearchHit = { id: string; rank: number };
+
+type SearchHighlight = { name: string; genericName: string | null; description: string | null };
+
+/** Helper: ILIKE pattern with the user's % and _ taken literally */
+const likePattern = (text: string, prefix = "%", suffix = "%") => `${prefix}${text.replace(/[\\%_]/g, "\\$&")}${suffix}`;
+
+/** Helper: brand names are not stemmed, descriptions are, so match against both */
+const searchQuery = (search: string) =>
+    Prisma.sql`(websearch_to_tsquery('simple', ${search}) || websearch_to_tsquery('english', ${search}))`;
+
+/**
+ * Helper: active medicines matching a search text, best first, up to SEARCH_CANDIDATE_LIMIT
+ * (one more is fetched so callers can tell the list was cut).
+ * - full-text on the weighted document (name > genericName > description)
+ * - trigram similarity on name / genericName so misspelled brand names still match
+ * - plain substring matches, as before
+ */
+const findSearchHits = async (search: string) => {
+    const pattern = likePattern(search);
+    const hits = await prisma.$queryRaw<SearchHit[]>`
+        SELECT m."id",
+            (ts_rank_cd(m."searchVector", q.query)
+                + GREATEST(similarity(m."name", ${search}), similarity(coalesce(m."genericName", ''), ${search})))::float8 AS rank
+        FROM "medicine" m, (SELECT ${searchQuery(search)} AS query) q
+        WHERE m."isActive" = true
+            AND (m."searchVector" @@ q.query
+                OR m."name" % ${search} OR m."genericName" % ${search}
+                OR m."name" ILIKE ${pattern} OR m."genericName" ILIKE ${pattern})
+        ORDER BY rank DESC, m."id"
+        LIMIT ${SEARCH_CANDIDATE_LIMIT + 1}`;
+    return { hits: hits.slice(0, SEARCH_CANDIDATE_LIMIT), capped: hits.length > SEARCH_CANDIDATE_LIMIT };
+};
+
+/** Helper: matched terms wrapped in <mark> for one page of results */
+const getSearchHighlights = async (ids: string[], search: string) => {
+    if (ids.length === 0) return new Map<string, SearchHighlight>();
+    const rows = await prisma.$queryRaw<(SearchHighlight & { id: string })[]>`
+        SELECT m."id",
+            ts_headline('simple', m."name", q.query, ${HEADLINE_OPTIONS + ", HighlightAll=true"}) AS "name",
+            CASE WHEN m."genericName" IS NULL THEN NULL
+                ELSE ts_headline('simple', m."genericName", q.query, ${HEADLINE_OPTIONS + ", HighlightAll=true"}) END AS "genericName",
+            CASE WHEN m."description" IS NULL THEN NULL
+                ELSE ts_headline('english', m."description", q.query, ${SNIPPET_OPTIONS}) END AS "description"
+        FROM "medicine" m, (SELECT ${searchQuery(search)} AS query) q
+        WHERE m."id" IN (${Prisma.join(ids)})`;
+    return new Map(rows.map(({ id, ...highlight }) => [id, highlight]));
+};
+
+const SUGGEST_MIN_LENGTH = 2;
+const SUGGEST_DEFAULT_LIMIT = 8;
+const SUGGEST_MAX_LIMIT = 20;
+
+type SuggestionType = "MEDICINE" | "GENERIC" | "MANUFACTURER" | "CATEGORY";
+
+type Suggestion = { type: SuggestionType; value: string; id: string | null; score: number };
+
+/**
+ * Typeahead: medicine names, generic names, manufacturers and categories containing
+ * the text, ranked prefix matches first, then by word similarity; duplicates collapse
+ * per type. `id` links a medicine or category. When nothing starts with the text,
+ * `didYouMean` offers the closest names by trigram similarity.
+ * Reads only indexed text columns, so it is cheap enough to call on every keystroke.
+ */
+const getSuggestions = async (q: string | undefined, limitInput?: number) => {
+    const query = (q ?? "").trim();
+    const limit = Math.min(Math.max(1, Math.floor(limitInput || SUGGEST_DEFAULT_LIMIT)), SUGGEST_MAX_LIMIT);
+    if (query.length < SUGGEST_MIN_LENGTH) return { query, suggestions: [], didYouMean: [] };
+
+    const contains = likePattern(query);
+    const prefix = likePattern(query, "");
+
+    try {
+        const rows = await prisma.$queryRaw<Suggestion[]>`
+            WITH hits AS (
+                SELECT 'MEDICINE' AS type, m."id" AS id, m."name" AS value
+                FROM "medicine" m WHERE m."isActive" = true AND m."name" ILIKE ${contains}
+                UNION ALL
+                SELECT 'GENERIC', NULL, m."genericName"
+                FROM "medicine" m WHERE m."isActive" = true AND m."genericName" ILIKE ${contains}
+                UNION ALL
+                SELECT 'MANUFACTURER', NULL, m."manufacturer"
+                FROM "medicine" m WHERE m."isActive" = true AND m."manufacturer" ILIKE ${contains}
+                UNION ALL
+                SELECT 'CATEGORY', c."id", c."name"
+                FROM "category" c WHERE c."name" ILIKE ${contains}
+            )
+            SELECT type, MIN(value) AS value, MIN(id) AS id,
+                (MAX(CASE WHEN value ILIKE ${prefix} THEN 1 ELSE 0 END) + MAX(word_similarity(${query}, value)))::float8 AS score
+            FROM hits
+            GROUP BY type, lower(value)
+            ORDER BY score DESC, MIN(value)
+            LIMIT ${limit}`;
+
+        const suggestions = rows.map(({ score: _score, ...s }) => s);
+
+        let didYouMean: string[] = [];
+        if (!rows.some((r) => r.score >= 1)) {
+            const corrections = await prisma.$queryRaw<{ value: string }[]>`
+                SELECT value FROM (
+                    SELECT DISTINCT m."name" AS value FROM "medicine" m WHERE m."isActive" = true AND m."name" % ${query}
+                    UNION
+                    SELECT DISTINCT m."genericName" FROM "medicine" m WHERE m."isActive" = true AND m."genericName" % ${query}
+                ) names
+                ORDER BY similarity(value, ${query}) DESC, value
+                LIMIT 3`;
+            const shown = new Set(suggestions.map((s) => s.value.toLowerCase()));
+            didYouMean = corrections.map((c) => c.value).filter((v) => !shown.has(v.toLowerCase()));
+        }
+
+        return { query, suggestions, didYouMean };
+    } catch (err) {
+        console.error("getSuggestions error:", err);
+        throw new ServiceError("Failed to fetch suggestions", 500);
+    }
+};
 
+/**
+ * Public listing.
+ * - `search`: ranked full-text + fuzzy match; each result gets a `highlight` with <mark>ed snippets
+ * - `sortBy=relevance` orders by match quality (createdAt when there is no search text)
+ */
 const getAllMedicines = async (filters: SearchFilters) => {
     const { search, category, manufacturer, sellerId, isFeatured, minPrice, maxPrice, inStock, page = 1, limit = 20, skip, sortBy = "createdAt", sortOrder = "desc",
     } = filters;
+    const currency = normalizeCurrency(filters.currency);
 
     // build conditions
-    const andConditions: MedicineWhereInput[] = [{ isActive: true }];
-
-    if (search) {
-        andConditions.push({
-            OR: [
-                { name: { contains: search, mode: "insensitive" } },
-                { genericName: { contains: search, mode: "insensitive" } },
-                { description: { contains: search, mode: "insensitive" } },
-            ],
-        });
-    }
+    const andConditions: MedicineWhereInput[] = [{ isActive: true }, ...drugInfoConditions(filters)];
 
     if (manufacturer) {
         andConditions.push({ manufacturer: { contains: manufacturer, mode: "insensitive" } });
@@ -47,13 +381,6 @@ const getAllMedicines = async (filters: SearchFilters) => {
         andConditions.push({ sellerId });
     }
 
-    if (minPrice !== undefined || maxPrice !== undefined) {
-        const price: any = {};
-        if (minPrice !== undefined) price.gte = minPrice;
-        if (maxPrice !== undefined) price.lte = maxPrice;
-        andConditions.push({ price });
-    }
-
     if (typeof inStock === "boolean") {
         andConditions.push(inStock ? { stock: { gt: 0 } } : { stock: { lte: 0 } });
     }
@@ -75,21 +402,47 @@ const getAllMedicines = async (filters: SearchFilters) => {
     }
 
     try {
+        if (minPrice !== undefined || maxPrice !== undefined) {
+            andConditions.push(await priceRangeCondition(minPrice, maxPrice, currency));
+        }
+
+        const found = search ? await findSearchHits(search) : null;
+        const hits = found?.hits ?? null;
+        if (hits) andConditions.push({ id: { in: hits.map((h) => h.id) } });
+
         const where = andConditions.length ? { AND: andConditions } : {};
+        const include = { seller: { select: PUBLIC_SELLER_SELECT }, category: true, ingredients: true };
+
+        let items;
+        let total;
+        if (hits && sortBy === "relevance") {
+            // rank order comes from the search query, so page over the filtered ids here
+            const rankOf = new Map(hits.map((h, i) => [h.id, i]));
+            const matched = await prisma.medicine.findMany({ where, select: { id: true } });
+            const pageIds = matched
+                .map((m) => m.id)
+                .sort((a, b) => rankOf.get(a)! - rankOf.get(b)!)
+                .slice(skip, skip + limit);
+            const rows = await prisma.medicine.findMany({ where: { id: { in: pageIds } }, include });
+            items = pageIds.map((id) => rows.find((r) => r.id === id)!).filter(Boolean);
+            total = matched.length;
+        } else {
+            [items, total] = await Promise.all([
+                prisma.medicine.findMany({
+                    where,
+                    take: limit,
+                    skip,
+                    orderBy: sortBy === "relevance" ? { createdAt: "desc" } : { [sortBy]: sortOrder },
+                    include,
+                }),
+                prisma.medicine.count({ where }),
+            ]);
+        }
 
-        const [items, total] = await Promise.all([
-            prisma.medicine.findMany({
-                where,
-                take: limit,
-                skip,
-                orderBy: { [sortBy]: sortOrder },
-                include: {
-                    seller: true,
-                    category: true
-                }
-            }),
-            prisma.medicine.count({ where }),
-        ]);
+        if (search) {
+            const highlights = await getSearchHighlights(items.map((m) => m.id), search);
+            items = items.map((m) => ({ ...m, highlight: highlights.get(m.id) ?? null }));
+        }
 
         return {
             ok: true,
@@ -98,10 +451,13 @@ const getAllMedicines = async (filters: SearchFilters) => {
                 page,
                 limit,
                 totalPages: Math.ceil(total / limit),
+                // only the best SEARCH_CANDIDATE_LIMIT matches were considered, so total is a lower bound
+                totalIsCapped: found?.capped ?? false,
             },
-            data: items,
+            data: await withCurrency(items, currency),
         };
     } catch (err) {
+        if (err instanceof ServiceError) throw err;
         console.error("searchMedicines error:", err);
         throw new ServiceError("Database error while searching medicines", 500);
     }
@@ -110,6 +466,7 @@ const getAllMedicines = async (filters: SearchFilters) => {
 
 
 const getMedicinesBySeller = async (sellerId: string | undefined, filters: Partial<SearchFilters> = {}) => {
+    const drugConditions = drugInfoConditions(filters);
     try {
         if (!sellerId) {
             return { ok: false, error: { message: "sellerId is required" } };
@@ -131,7 +488,7 @@ const getMedicinesBySeller = async (sellerId: string | undefined, filters: Parti
         } = filters as any;
 
         // Build where clause scoped to seller
-        const andConditions: MedicineWhereInput[] = [{ sellerId, isActive: true }];
+        const andConditions: MedicineWhereInput[] = [{ sellerId, isActive: true }, ...drugConditions];
 
         if (search) {
             andConditions.push({
@@ -148,10 +505,7 @@ const getMedicinesBySeller = async (sellerId: string | undefined, filters: Parti
         }
 
         if (minPrice !== undefined || maxPrice !== undefined) {
-            const price: any = {};
-            if (minPrice !== undefined) price.gte = minPrice;
-            if (maxPrice !== undefined) price.lte = maxPrice;
-            andConditions.push({ price });
+            andConditions.push(await priceRangeCondition(minPrice, maxPrice, normalizeCurrency(filters.currency)));
         }
 
         if (typeof inStock === "boolean") {
@@ -179,7 +533,7 @@ const getMedicinesBySeller = async (sellerId: string | undefined, filters: Parti
                 take: limit,
                 skip,
                 orderBy: { [sortBy]: sortOrder },
-                include: { category: true },
+                include: { category: true, ingredients: true, seller: { select: { currency: true } } },
             }),
             prisma.medicine.count({ where }),
         ]);
@@ -193,7 +547,7 @@ const getMedicinesBySeller = async (sellerId: string | undefined, filters: Parti
                     limit,
                     totalPages: Math.ceil(total / limit),
                 },
-                data: items,
+                data: await withCurrency(items),
             },
         };
     } catch (err) {
@@ -210,11 +564,12 @@ const getMedicineById = async (id: string) => {
             where: { id },
             include: {
                 category: true,
-                seller: true,
+                seller: { select: PUBLIC_SELLER_SELECT },
+                ingredients: true,
             },
         });
 
-        return medicine;
+        return medicine && { ...medicine, currency: medicine.seller?.currency ?? DEFAULT_CURRENCY };
     } catch (error) {
         console.error("getMedicineById error:", error);
         throw error;
@@ -223,52 +578,230 @@ const getMedicineById = async (id: string) => {
 };
 
 
-// Seller services
-const addMedicine = async (data: Medicine, sellerId: string) => {
+/** Strength written in a name, e.g. "Napa Extend 665 mg" */
+const STRENGTH_PATTERN = /(\d+(?:\.\d+)?)\s*(mcg|mg|g|ml|iu|%)(?![a-z])/gi;
+
+/** Helper: normalized strengths found in the texts ("665mg"), or null when none is stated */
+const strengthKey = (...texts: (string | null | undefined)[]) => {
+    const found = new Set<string>();
+    for (const text of texts) {
+        for (const match of (text ?? "").matchAll(STRENGTH_PATTERN)) {
+            found.add(`${Number(match[1])}${match[2]!.toLowerCase()}`);
+        }
+    }
+    return found.size ? [...found].sort().join("+") : null;
+};
+
+type AlternativeSource = {
+    id: string;
+    name: string;
+    genericName: string | null;
+    strength: number | null;
+    strengthUnit: string | null;
+    ingredients: { name: string }[];
+};
+
+/** Helper: structured strength when set, else the strength written in the names */
+const strengthOf = (m: Omit<AlternativeSource, "id" | "ingredients">) =>
+    m.strength !== null && m.strengthUnit ? `${m.strength}${m.strengthUnit}` : strengthKey(m.name, m.genericName);
+
+/** Helper: comparable set of active ingredient names */
+const ingredientKey = (ingredients: { name: string }[]) =>
+    ingredients.length ? [...new Set(ingredients.map((i) => i.name.trim().toLowerCase()))].sort().join("+") : null;
+
+/**
+ * Helper: in-stock, active medicines with the same generic name (case-insensitive) or the
+ * same set of active ingredients and, when both state one, the same strength; cheapest
+ * first with prices in `currency` (default: store currency).
+ */
+export const findAlternatives = async (
+    tx: any,
+    medicine: AlternativeSource,
+    opts: { currency?: string | undefined; limit?: number | undefined } = {}
+) => {
+    const genericName = medicine.genericName?.trim();
+    const ingredients = ingredientKey(medicine.ingredients);
+    if (!genericName && !ingredients) return [];
+
+    const sameActive: MedicineWhereInput[] = [];
+    if (genericName) sameActive.push({ genericName: { equals: genericName, mode: "insensitive" } });
+    if (ingredients) {
+        sameActive.push({ ingredients: { some: { name: { in: medicine.ingredients.map((i) => i.name), mode: "insensitive" } } } });
+    }
+
+    const candidates: (Medicine & {
+        ingredients: { name: string }[];
+        seller: { id: string; name: string; currency: string } | null;
+    })[] = await tx.medicine.findMany({
+        where: {
+            id: { not: medicine.id },
+            isActive: true,
+            stock: { gt: 0 },
+            OR: sameActive,
+        },
+        include: { category: true, ingredients: true, seller: { select: { id: true, name: true, currency: true } } },
+    });
+
+    const strength = strengthOf(medicine);
+    const sameStrength = candidates.filter((c) => {
+        const sameGeneric = !!genericName && c.genericName?.trim().toLowerCase() === genericName.toLowerCase();
+        if (!sameGeneric && ingredientKey(c.ingredients) !== ingredients) return false;
+        const other = strengthOf(c);
+        return !strength || !other || other === strength;
+    });
+
+    const priced = await withCurrency(sameStrength, opts.currency ?? DEFAULT_CURRENCY);
+    return priced.sort((a, b) => a.price.comparedTo(b.price)).slice(0, opts.limit ?? 20);
+};
+
+/** Cheaper / other brands of the same generic and strength that are in stock */
+const getAlternatives = async (id: string, currency?: string) => {
+    const target = normalizeCurrency(currency);
+    const medicine = await prisma.medicine.findUnique({
+        where: { id },
+        select: {
+            id: true,
+            name: true,
+            genericName: true,
+            strength: true,
+            strengthUnit: true,
+            price: true,
+            ingredients: { select: { name: true } },
+            seller: { select: { currency: true } },
+        },
+    });
+    if (!medicine) throw new ServiceError("Medicine not found", 404);
+
     try {
-        if (typeof data.price !== "number" || data.price < 0) throw new ServiceError("Invalid price", 400);
+        const [current] = await withCurrency([medicine], target ?? DEFAULT_CURRENCY);
+        const alternatives = await findAlternatives(prisma, medicine, { currency: target });
+        return { medicine: current, alternatives };
+    } catch (err) {
+        if (err instanceof ServiceError) throw err;
+        console.error("getAlternatives error:", err);
+        throw new ServiceError("Failed to fetch alternatives", 500);
+    }
+};
 
-        const { name, genericName, description, price, stock, manufacturer, imageUrl, categoryId } = data;
-        return await prisma.medicine.create({
-            data: {
-                name,
-                genericName,
-                description,
-                price,
-                stock,
-                manufacturer,
-                imageUrl,
-                categoryId,
-                sellerId,
-            },
+/** Helper: shipping weight is optional, else whole grams */
+const isValidWeight = (weightGrams?: number | null) =>
+    weightGrams === undefined || weightGrams === null || (Number.isInteger(weightGrams) && weightGrams >= 0);
+
+/** Helper: seller SKU, trimmed; undefined when absent, null when cleared */
+const optionalSku = (value: unknown) => {
+    const sku = optionalText(value);
+    if (sku && sku.length > 64) throw new ServiceError("sku must be at most 64 characters", 400);
+    return sku;
+};
+
+/**
+ * Helper: validate a create body, or an update body when `existing` is given.
+ * Shared with the bulk catalog import so both report the same errors.
+ */
+export const validateMedicineInput = (data: MedicineInput, existing?: Medicine) => {
+    const price = parseMoney(data.price, "price") ?? existing?.price;
+    if (price === undefined) throw new ServiceError("Invalid price", 400);
+
+    const stock = existing ? data.stock : data.stock ?? NaN;
+    if (stock !== undefined && (!Number.isInteger(stock) || stock < 0)) throw new ServiceError("Invalid stock value", 400);
+    if (!isValidWeight(data.weightGrams)) throw new ServiceError("Invalid weightGrams value", 400);
+
+    return {
+        price,
+        stock,
+        sku: optionalSku(data.sku),
+        drugInfo: validateDrugInfo(data, existing),
+        limits: validatePurchaseLimits(data, existing),
+    };
+};
+
+// Seller services
+const addMedicine = async (data: MedicineInput, sellerId: string) => {
+    try {
+        const { price, stock, sku, drugInfo, limits } = validateMedicineInput(data);
+        const { name, genericName, description, manufacturer, imageUrl, categoryId, weightGrams } = data;
+        if (!name) throw new ServiceError("name is required", 400);
+        await assertApprovedSeller(prisma, sellerId);
+
+        return await prisma.$transaction(async (tx) => {
+            const medicine = await tx.medicine.create({
+                data: {
+                    name,
+                    genericName,
+                    description,
+                    price,
+                    stock: 0,
+                    manufacturer,
+                    imageUrl,
+                    weightGrams,
+                    sku,
+                    ...drugInfo.fields,
+                    ...limits,
+                    categoryId,
+                    sellerId,
+                    ingredients: { create: drugInfo.ingredients ?? [] },
+                },
+                include: { ingredients: true },
+            });
+            // opening stock goes through the ledger; lots are added later via /api/batches
+            await addStock(tx, medicine.id, stock ?? 0, {
+                type: "INITIAL",
+                actorId: sellerId,
+                reason: "Opening stock",
+            });
+            return { ...medicine, stock };
         });
-    } catch (err) {
+    } catch (err: any) {
+        if (err instanceof ServiceError) throw err;
+        if (err?.code === "P2002") throw new ServiceError("You already have a medicine with this sku", 409);
         throw new ServiceError("Database error while adding medicine", 500);
     }
 };
 
-const updateMedicine = async (id: string, data: Medicine, sellerId: string) => {
+const updateMedicine = async (id: string, data: MedicineInput, sellerId: string) => {
     const medicine = await prisma.medicine.findUnique({ where: { id } });
     if (!medicine) throw new ServiceError("Medicine not found", 404);
     if (medicine.sellerId !== sellerId) throw new ServiceError("Unauthorized", 403);
 
-    const { name, genericName, description, price, stock, manufacturer, imageUrl, categoryId, isActive } = data;
+    const { name, genericName, description, stock, manufacturer, imageUrl, categoryId, isActive, weightGrams } = data;
+    const { price, sku, drugInfo, limits } = validateMedicineInput(data, medicine);
+    await assertApprovedSeller(prisma, sellerId);
+    if (medicine.licenseSuspended && isActive === true) {
+        throw new ServiceError("This listing is suspended until your license renewal is approved", 403);
+    }
     try {
-        return await prisma.medicine.update({
-            where: { id },
-            data: {
-                name,
-                genericName,
-                description,
-                price,
-                stock,
-                manufacturer,
-                imageUrl,
-                categoryId,
-                isActive
-            },
+        return await prisma.$transaction(async (tx) => {
+            if (stock !== undefined) {
+                const current = await tx.medicine.findUniqueOrThrow({ where: { id }, select: { stock: true } });
+                await adjustStock(tx, id, stock - current.stock, {
+                    type: "ADJUSTMENT",
+                    actorId: sellerId,
+                    reason: "Medicine updated",
+                });
+            }
+            return await tx.medicine.update({
+                where: { id },
+                data: {
+                    name,
+                    genericName,
+                    description,
+                    price,
+                    manufacturer,
+                    imageUrl,
+                    weightGrams,
+                    sku,
+                    ...drugInfo.fields,
+                    ...limits,
+                    categoryId,
+                    isActive,
+                    ...(drugInfo.ingredients && { ingredients: { deleteMany: {}, create: drugInfo.ingredients } }),
+                },
+                include: { ingredients: true },
+            });
         });
-    } catch (err) {
+    } catch (err: any) {
+        if (err instanceof ServiceError) throw err;
+        if (err?.code === "P2002") throw new ServiceError("You already have a medicine with this sku", 409);
         throw new ServiceError("Database error while updating medicine", 500);
     }
 };
@@ -310,8 +843,12 @@ const deleteMedicine = async (id: string, sellerId: string) => {
     }
 };
 
-const updateStock = async (id: string, stock: number, sellerId: string) => {
-    if (typeof stock !== "number" || stock < 0) {
+/**
+ * Set stock to a counted value; the difference is recorded as an ADJUSTMENT movement
+ * (additions land in the UNBATCHED batch, removals are taken FEFO).
+ */
+const updateStock = async (id: string, stock: number, sellerId: string, reason?: string) => {
+    if (typeof stock !== "number" || !Number.isInteger(stock) || stock < 0) {
         throw new ServiceError("Invalid stock value", 400);
     }
 
@@ -320,11 +857,17 @@ const updateStock = async (id: string, stock: number, sellerId: string) => {
     if (medicine.sellerId !== sellerId) throw new ServiceError("Unauthorized", 403);
 
     try {
-        return await prisma.medicine.update({
-            where: { id },
-            data: { stock },
+        return await prisma.$transaction(async (tx) => {
+            const current = await tx.medicine.findUniqueOrThrow({ where: { id }, select: { stock: true } });
+            await adjustStock(tx, id, stock - current.stock, {
+                type: "ADJUSTMENT",
+                actorId: sellerId,
+                reason: reason || "Manual stock update",
+            });
+            return await tx.medicine.findUniqueOrThrow({ where: { id } });
         });
     } catch (err) {
+        if (err instanceof ServiceError) throw err;
         throw new ServiceError("Database error while updating stock", 500);
     }
 };
@@ -332,8 +875,10 @@ const updateStock = async (id: string, stock: number, sellerId: string) => {
 
 export const medicineService = {
     getAllMedicines,
+    getSuggestions,
     getMedicinesBySeller,
     getMedicineById,
+    getAlternatives,
     addMedicine,
     updateMedicine,
     deleteMedicine,
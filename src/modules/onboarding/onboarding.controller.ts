@@ -0,0 +1,105 @@
+import { Request, Response } from "express";
+import { onboardingService } from "./onboarding.service";
+import { ServiceError } from "../../lib/error";
+import paginationSortingHelpers from "../../helpers/paginationSortingHelpers";
+
+const send = (res: Response, code: number, message: string, data?: any) =>
+    res.status(code).json({ message, data });
+
+const sendError = (res: Response, err: any, fallback: string) => {
+    const status = err instanceof ServiceError ? err.statusCode : 500;
+    const message = err?.message || fallback;
+    const details = err instanceof ServiceError ? err.details : undefined;
+    return res.status(status).json({ message, details });
+};
+
+/**
+ * POST /api/seller-applications
+ * body: { businessName, tradeLicenseNumber, pharmacyLicenseNumber, licenseExpiresAt,
+ *   documents: [{ type, fileUrl, fileName? }] }
+ */
+const submitApplication = async (req: Request, res: Response) => {
+    try {
+        const user = (req as any).user;
+        if (!user?.id) return send(res, 401, "Unauthorized");
+
+        const application = await onboardingService.submitApplication(user, req.body ?? {});
+        return send(res, 201, "Seller application submitted", application);
+    } catch (err) {
+        return sendError(res, err, "Failed to submit seller application");
+    }
+};
+
+const getMyApplication = async (req: Request, res: Response) => {
+    try {
+        const user = (req as any).user;
+        if (!user?.id) return send(res, 401, "Unauthorized");
+
+        const application = await onboardingService.getMyApplication(user.id);
+        return send(res, 200, "Seller application fetched", application);
+    } catch (err) {
+        return sendError(res, err, "Failed to fetch seller application");
+    }
+};
+
+/**
+ * GET /api/seller-applications?status=PENDING
+ */
+const listApplications = async (req: Request, res: Response) => {
+    try {
+        const status = typeof req.query.status === "string" ? req.query.status : undefined;
+        const { page, limit, skip } = paginationSortingHelpers(req.query);
+
+        const data = await onboardingService.listApplications({ page, limit, skip, status });
+        return send(res, 200, "Seller applications fetched", data);
+    } catch (err) {
+        return sendError(res, err, "Failed to fetch seller applications");
+    }
+};
+
+const getApplication = async (req: Request, res: Response) => {
+    try {
+        const application = await onboardingService.getApplication(req.params.id as string);
+        return send(res, 200, "Seller application fetched", application);
+    } catch (err) {
+        return sendError(res, err, "Failed to fetch seller application");
+    }
+};
+
+/**
+ * PATCH /api/seller-applications/:id/review
+ * body: { decision: "APPROVE" | "REJECT" | "REQUEST_CHANGES", note? }
+ */
+const reviewApplication = async (req: Request, res: Response) => {
+    try {
+        const user = (req as any).user;
+        if (!user?.id) return send(res, 401, "Unauthorized");
+
+        const application = await onboardingService.reviewApplication(user, req.params.id as string, req.body ?? {});
+        return send(res, 200, "Seller application reviewed", application);
+    } catch (err) {
+        return sendError(res, err, "Failed to review seller application");
+    }
+};
+
+/**
+ * POST /api/seller-applications/suspend-expired
+ * Run the license-expiry suspension now (also `npm run job:suspend-expired-licenses`)
+ */
+const suspendExpiredLicenses = async (_req: Request, res: Response) => {
+    try {
+        const result = await onboardingService.suspendExpiredLicenses();
+        return send(res, 200, "Expired seller licenses suspended", result);
+    } catch (err) {
+        return sendError(res, err, "Failed to suspend expired licenses");
+    }
+};
+
+export const onboardingController = {
+    submitApplication,
+    getMyApplication,
+    listApplications,
+    getApplication,
+    reviewApplication,
+    suspendExpiredLicenses,
+};
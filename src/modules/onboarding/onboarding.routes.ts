@@ -0,0 +1,18 @@
+import { Router } from "express";
+import { onboardingController } from "./onboarding.controller";
+import auth from "../../middleware/auth";
+import { UserRole } from "../../types";
+
+const router = Router();
+
+// Applicant endpoints (customers apply; sellers resubmit or renew)
+router.post("/", auth(UserRole.CUSTOMER, UserRole.SELLER), onboardingController.submitApplication);
+router.get("/me", auth(UserRole.CUSTOMER, UserRole.SELLER), onboardingController.getMyApplication);
+
+// Admin: review queue
+router.get("/", auth(UserRole.ADMIN), onboardingController.listApplications);
+router.post("/suspend-expired", auth(UserRole.ADMIN), onboardingController.suspendExpiredLicenses);
+router.get("/:id", auth(UserRole.ADMIN), onboardingController.getApplication);
+router.patch("/:id/review", auth(UserRole.ADMIN), onboardingController.reviewApplication);
+
+export const onboardingRouter = router;
@@ -0,0 +1,292 @@
+import { prisma } from "../../lib/prisma";
+import { ServiceError } from "../../lib/error";
+import type { User } from "../../generated/prisma/client";
+import { SellerApplicationStatus, SellerDocumentType } from "../../generated/prisma/enums";
+
+type DocumentInput = {
+    type?: string;
+    fileUrl?: string;
+    fileName?: string | null;
+};
+
+type ApplicationInputType = {
+    businessName?: string;
+    tradeLicenseNumber?: string;
+    pharmacyLicenseNumber?: string;
+    licenseExpiresAt?: string;
+    documents?: DocumentInput[];
+};
+
+type ReviewApplicationType = {
+    decision?: string;
+    note?: string | null;
+};
+
+type QueueOptions = {
+    page: number;
+    limit: number;
+    skip: number;
+    status?: string | undefined;
+};
+
+const MAX_DOCUMENTS = 10;
+
+/** Documents every application must include */
+const REQUIRED_DOCUMENTS = [SellerDocumentType.TRADE_LICENSE, SellerDocumentType.PHARMACY_LICENSE];
+
+/** Review decision -> resulting status */
+const DECISIONS: Record<string, SellerApplicationStatus> = {
+    APPROVE: SellerApplicationStatus.APPROVED,
+    REJECT: SellerApplicationStatus.REJECTED,
+    REQUEST_CHANGES: SellerApplicationStatus.CHANGES_REQUESTED,
+};
+
+/**
+ * Helper: sellers may list medicines only with an approved application and an unexpired license,
+ * or while a renewal is reviewed and the previously approved license is still valid. 403 otherwise.
+ */
+export const assertApprovedSeller = async (tx: any, sellerId: string) => {
+    const application = await tx.sellerApplication.findUnique({
+        where: { userId: sellerId },
+        select: { status: true, licenseExpiresAt: true, approvedUntil: true },
+    });
+    if (!application) throw new ServiceError("Submit a seller application before listing medicines", 403);
+    if (application.approvedUntil && application.approvedUntil > new Date()) return;
+    if (application.status !== SellerApplicationStatus.APPROVED && application.status !== SellerApplicationStatus.SUSPENDED) {
+        throw new ServiceError(`Your seller application must be approved before you can list medicines (current: ${application.status})`, 403);
+    }
+    if (application.status === SellerApplicationStatus.SUSPENDED || application.licenseExpiresAt <= new Date()) {
+        throw new ServiceError("Your pharmacy license has expired; submit a renewal to list medicines", 403);
+    }
+};
+
+const requiredText = (value: unknown, field: string) => {
+    const text = typeof value === "string" ? value.trim() : "";
+    if (!text) throw new ServiceError(`${field} is required`, 400);
+    return text;
+};
+
+const validateDocuments = (documents: unknown) => {
+    if (!Array.isArray(documents) || documents.length === 0 || documents.length > MAX_DOCUMENTS) {
+        throw new ServiceError(`documents must be a list of 1-${MAX_DOCUMENTS} uploaded files`, 400);
+    }
+    const parsed = documents.map((doc: DocumentInput, i) => {
+        const type = String(doc?.type ?? "").toUpperCase() as SellerDocumentType;
+        if (!Object.values(SellerDocumentType).includes(type)) {
+            throw new ServiceError(`documents[${i}].type must be one of ${Object.values(SellerDocumentType).join(", ")}`, 400);
+        }
+        const fileUrl = requiredText(doc.fileUrl, `documents[${i}].fileUrl`);
+        if (!/^https?:\/\//i.test(fileUrl)) throw new ServiceError(`documents[${i}].fileUrl must be an http(s) URL`, 400);
+        return { type, fileUrl, fileName: typeof doc.fileName === "string" ? doc.fileName.trim() || null : null };
+    });
+
+    const missing = REQUIRED_DOCUMENTS.filter((type) => !parsed.some((d) => d.type === type));
+    if (missing.length) throw new ServiceError(`Missing required document(s): ${missing.join(", ")}`, 400);
+    return parsed;
+};
+
+/**
+ * Submit (or resubmit after review / suspension) the caller's seller application.
+ * An approved seller submits a renewal the same way and keeps listing on the approved
+ * license until the renewal is reviewed. Documents are stored elsewhere first; the body carries their URLs.
+ */
+const submitApplication = async (user: User, data: ApplicationInputType) => {
+    if (user.role === "ADMIN") throw new ServiceError("Admins cannot apply as sellers", 403);
+
+    const businessName = requiredText(data.businessName, "businessName");
+    const tradeLicenseNumber = requiredText(data.tradeLicenseNumber, "tradeLicenseNumber").toUpperCase();
+    const pharmacyLicenseNumber = requiredText(data.pharmacyLicenseNumber, "pharmacyLicenseNumber").toUpperCase();
+    const licenseExpiresAt = new Date(requiredText(data.licenseExpiresAt, "licenseExpiresAt"));
+    if (isNaN(licenseExpiresAt.getTime())) throw new ServiceError("Invalid licenseExpiresAt date", 400);
+    if (licenseExpiresAt <= new Date()) throw new ServiceError("The pharmacy license has already expired", 400);
+    const documents = validateDocuments(data.documents);
+
+    const existing = await prisma.sellerApplication.findUnique({ where: { userId: user.id } });
+    const approvedUntil =
+        existing?.status === SellerApplicationStatus.APPROVED ? existing.licenseExpiresAt : (existing?.approvedUntil ?? null);
+
+    const fields = {
+        businessName,
+        tradeLicenseNumber,
+        pharmacyLicenseNumber,
+        licenseExpiresAt,
+        status: SellerApplicationStatus.PENDING,
+        submittedAt: new Date(),
+        reviewedBy: null,
+        reviewedAt: null,
+        approvedUntil,
+    };
+    try {
+        return await prisma.sellerApplication.upsert({
+            where: { userId: user.id },
+            create: { ...fields, userId: user.id, documents: { create: documents } },
+            update: { ...fields, documents: { deleteMany: {}, create: documents } },
+            include: { documents: true },
+        });
+    } catch (err: any) {
+        console.error("submitApplication error:", err);
+        throw new ServiceError("Failed to submit seller application", 500);
+    }
+};
+
+const getMyApplication = async (userId: string) => {
+    const application = await prisma.sellerApplication.findUnique({ where: { userId }, include: { documents: true } });
+    if (!application) throw new ServiceError("No seller application found", 404);
+    return application;
+};
+
+/** Admin review queue, oldest submission first (default: pending applications) */
+const listApplications = async (opts: QueueOptions) => {
+    const status = (opts.status ?? SellerApplicationStatus.PENDING).toUpperCase() as SellerApplicationStatus;
+    if (!Object.values(SellerApplicationStatus).includes(status)) {
+        throw new ServiceError(`status must be one of ${Object.values(SellerApplicationStatus).join(", ")}`, 400);
+    }
+    const { page, limit, skip } = opts;
+
+    try {
+        const where = { status };
+        const [items, total] = await Promise.all([
+            prisma.sellerApplication.findMany({
+                where,
+                skip,
+                take: limit,
+                orderBy: { submittedAt: "asc" },
+                include: { user: { select: { id: true, name: true, email: true, phone: true } }, documents: true },
+            }),
+            prisma.sellerApplication.count({ where }),
+        ]);
+
+        return {
+            items,
+            pagination: {
+                total,
+                page,
+                limit,
+                totalPages: Math.ceil(total / limit),
+            },
+        };
+    } catch (err: any) {
+        console.error("listApplications error:", err);
+        throw new ServiceError("Failed to fetch seller applications", 500);
+    }
+};
+
+const getApplication = async (id: string) => {
+    const application = await prisma.sellerApplication.findUnique({
+        where: { id },
+        include: { user: { select: { id: true, name: true, email: true, phone: true, role: true } }, documents: true },
+    });
+    if (!application) throw new ServiceError("Seller application not found", 404);
+    return application;
+};
+
+/**
+ * Approve, reject or send back a pending application.
+ * Approval makes the applicant a SELLER and restores listings hidden by a license lapse;
+ * rejection (e.g. of a renewal) hides the seller's active listings. A renewal sent back for
+ * changes keeps the approved license in force.
+ */
+const reviewApplication = async (admin: User, id: string, data: ReviewApplicationType) => {
+    const decision = String(data.decision ?? "").toUpperCase();
+    const status = DECISIONS[decision];
+    if (!status) throw new ServiceError(`decision must be one of ${Object.keys(DECISIONS).join(", ")}`, 400);
+    const note = typeof data.note === "string" ? data.note.trim() : "";
+    if (status !== SellerApplicationStatus.APPROVED && !note) {
+        throw new ServiceError("A note is required when rejecting or requesting changes", 400);
+    }
+
+    try {
+        return await prisma.$transaction(async (tx) => {
+            const application = await tx.sellerApplication.findUnique({ where: { id } });
+            if (!application) throw new ServiceError("Seller application not found", 404);
+            if (application.status !== SellerApplicationStatus.PENDING) {
+                throw new ServiceError(`Only pending applications can be reviewed (current: ${application.status})`, 409);
+            }
+            if (status === SellerApplicationStatus.APPROVED && application.licenseExpiresAt <= new Date()) {
+                throw new ServiceError("Cannot approve an application with an expired license", 400);
+            }
+
+            const updated = await tx.sellerApplication.update({
+                where: { id },
+                data: {
+                    status,
+                    reviewedBy: admin.id,
+                    reviewedAt: new Date(),
+                    reviewNote: note || null,
+                    ...(status !== SellerApplicationStatus.CHANGES_REQUESTED && { approvedUntil: null }),
+                    ...(status === SellerApplicationStatus.APPROVED && { suspendedAt: null }),
+                },
+                include: { documents: true },
+            });
+
+            if (status === SellerApplicationStatus.APPROVED) {
+                await tx.user.update({ where: { id: application.userId }, data: { role: "SELLER" } });
+                await tx.medicine.updateMany({
+                    where: { sellerId: application.userId, licenseSuspended: true },
+                    data: { isActive: true, licenseSuspended: false },
+                });
+            }
+            if (status === SellerApplicationStatus.REJECTED) {
+                await tx.medicine.updateMany({
+                    where: { sellerId: application.userId, isActive: true },
+                    data: { isActive: false, licenseSuspended: true },
+                });
+            }
+            return updated;
+        });
+    } catch (err: any) {
+        if (err instanceof ServiceError) throw err;
+        console.error("reviewApplication error:", err);
+        throw new ServiceError("Failed to review seller application", 500);
+    }
+};
+
+/**
+ * Suspend approved sellers whose pharmacy license has lapsed and hide their active listings.
+ * A renewal still under review when the approved license lapses stays in the queue, but the
+ * listings are hidden until it is approved. Run on a schedule (`npm run job:suspend-expired-licenses`).
+ */
+const suspendExpiredLicenses = async (at = new Date()) => {
+    try {
+        const expired = await prisma.sellerApplication.findMany({
+            where: {
+                OR: [
+                    { status: SellerApplicationStatus.APPROVED, licenseExpiresAt: { lte: at } },
+                    { approvedUntil: { lte: at } },
+                ],
+            },
+            select: { id: true, userId: true, status: true },
+        });
+
+        let medicines = 0;
+        for (const application of expired) {
+            const { count } = await prisma.$transaction(async (tx) => {
+                await tx.sellerApplication.update({
+                    where: { id: application.id },
+                    data:
+                        application.status === SellerApplicationStatus.APPROVED
+                            ? { status: SellerApplicationStatus.SUSPENDED, suspendedAt: at }
+                            : { approvedUntil: null, suspendedAt: at },
+                });
+                return await tx.medicine.updateMany({
+                    where: { sellerId: application.userId, isActive: true },
+                    data: { isActive: false, licenseSuspended: true },
+                });
+            });
+            medicines += count;
+        }
+        return { suspended: expired.length, medicines };
+    } catch (err: any) {
+        console.error("suspendExpiredLicenses error:", err);
+        throw new ServiceError("Failed to suspend expired licenses", 500);
+    }
+};
+
+export const onboardingService = {
+    submitApplication,
+    getMyApplication,
+    listApplications,
+    getApplication,
+    reviewApplication,
+    suspendExpiredLicenses,
+};
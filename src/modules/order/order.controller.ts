@@ -7,7 +7,8 @@ const send = (res: Response, code: number, message: string, data?: any) =>
 const sendError = (res: Response, err: any, fallback: string) => {
     const status = err instanceof ServiceError ? err.statusCode : 500;
     const message = err?.message || fallback;
-    return res.status(status).json({ message });
+    const details = err instanceof ServiceError ? err.details : undefined;
+    return res.status(status).json({ message, details });
 };
 
 const createOrder = async (req: Request, res: Response) => {
@@ -15,11 +16,14 @@ const createOrder = async (req: Request, res: Response) => {
         const userId = req.user?.id;
         if (!userId) return send(res, 401, "Unauthorized");
 
-        const { shippingName, shippingPhone, shippingAddress } = req.body ?? {};
+        const { addressId, shippingName, shippingPhone, shippingAddress, paymentMethod, currency } = req.body ?? {};
         const order = await orderService.createOrder(userId, {
+            addressId,
             shippingName,
             shippingPhone,
             shippingAddress,
+            paymentMethod,
+            currency,
         });
 
         return send(res, 201, "Order placed successfully", order);
@@ -130,6 +134,70 @@ export const updateOrderItemStatusBySeller = async (req: Request, res: Response)
     }
 };
 
+/**
+ * GET /api/orders/seller/shipments
+ * Seller lists own shipments (one per order they sell into)
+ */
+const listSellerShipments = async (req: Request, res: Response) => {
+    try {
+        const user = (req as any).user;
+        if (!user?.id) return send(res, 401, "Unauthorized");
+
+        const { search, status, startDate, endDate } = req.query;
+        const { page, limit, sortBy, sortOrder } = paginationSortingHelpers(req.query);
+
+        const shipments = await orderService.listSellerShipments(user, {
+            search: typeof search === "string" ? search.trim() : undefined,
+            status: typeof status === "string" ? status.trim().toUpperCase() : undefined,
+            startDate: typeof startDate === "string" ? startDate : undefined,
+            endDate: typeof endDate === "string" ? endDate : undefined,
+            page,
+            limit,
+            sortBy,
+            sortOrder
+        });
+        return send(res, 200, "Shipments fetched", shipments);
+    } catch (err) {
+        return sendError(res, err, "Failed to fetch shipments");
+    }
+};
+
+const getSellerShipment = async (req: Request, res: Response) => {
+    try {
+        const user = (req as any).user;
+        if (!user?.id) return send(res, 401, "Unauthorized");
+
+        const shipment = await orderService.getSellerShipment(user, req.params.id as string);
+        return send(res, 200, "Shipment fetched", shipment);
+    } catch (err) {
+        return sendError(res, err, "Failed to fetch shipment");
+    }
+};
+
+/**
+ * PATCH /api/orders/seller/shipments/:id/status
+ * Seller updates own shipment (body: { status, trackingNumber?, carrier?, notes? })
+ */
+const updateShipmentStatusBySeller = async (req: Request, res: Response) => {
+    try {
+        const user = (req as any).user;
+        if (!user?.id) return send(res, 401, "Unauthorized");
+
+        const { status, trackingNumber, carrier, notes } = req.body ?? {};
+        if (!status) return send(res, 400, "status is required");
+
+        const updated = await orderService.updateShipmentStatusBySeller(user, req.params.id as string, {
+            status,
+            trackingNumber,
+            carrier,
+            notes,
+        });
+        return send(res, 200, "Shipment status updated", updated);
+    } catch (err) {
+        return sendError(res, err, "Failed to update shipment status");
+    }
+};
+
 // Admin updates whole order status
 export const updateOrderStatusByAdmin = async (req: Request, res: Response) => {
     try {
@@ -157,7 +225,7 @@ const getOrderStatusHistory = async (req: Request, res: Response) => {
         if (!user?.id) return send(res, 401, "Unauthorized");
 
         const orderId = req.params.id;
-        const history = await orderService.getOrderStatusHistory(orderId as string);
+        const history = await orderService.getOrderStatusHistory(user, orderId as string);
         return send(res, 200, "Status history fetched", history);
     } catch (err) {
         return sendError(res, err, "Failed to fetch status history");
@@ -189,6 +257,9 @@ export const orderController = {
     cancelOrderByCustomer,
     updateOrderStatusByAdmin,
     updateOrderItemStatusBySeller,
+    listSellerShipments,
+    getSellerShipment,
+    updateShipmentStatusBySeller,
     getOrderStatusHistory,
     getDeliveredMedicinesForReview
 };
\ No newline at end of file
@@ -9,6 +9,12 @@ const router = Router();
 router.post("/", auth(UserRole.CUSTOMER), orderController.createOrder);
 router.get("/", auth(), orderController.listOrders);
 router.get("/delivered-medicines", auth(), orderController.getDeliveredMedicinesForReview);
+
+// Seller: own shipments (declared before "/:id")
+router.get("/seller/shipments", auth(UserRole.SELLER), orderController.listSellerShipments);
+router.get("/seller/shipments/:id", auth(UserRole.SELLER), orderController.getSellerShipment);
+router.patch("/seller/shipments/:id/status", auth(UserRole.SELLER), orderController.updateShipmentStatusBySeller);
+
 router.get("/:id", auth(), orderController.getOrder);
 router.get("/:id/track", auth(), orderController.getOrderStatus);
 router.patch("/:id/cancel", auth(), orderController.cancelOrderByCustomer);
@@ -1,26 +1,42 @@
 import { prisma } from "../../lib/prisma";
 import type { User } from "../../generated/prisma/client";
+import { PaymentStatus } from "../../generated/prisma/enums";
+import { isLineVerified, reopenPrescriptions, requiresPrescription } from "../prescription/prescription.service";
+import {
+    cancelOrderPayments,
+    createOrderPayment,
+    isAwaitingOnlinePayment,
+    normalizePaymentMethod,
+    paymentService,
+    refundCancelledShipment,
+    settleCashOnDelivery,
+} from "../payment/payment.service";
+import { consumeStock, restockOrderItem, writeOffExpiredBatches } from "../batch/batch.service";
+import { redeemCoupons, releaseCouponRedemptions } from "../coupon/coupon.service";
+import { priceOrder } from "../pricing/pricing.service";
+import { findUserAddress, toShippingSnapshot } from "../profile/profile.service";
+import { normalizeCurrency } from "../currency/currency.service";
+import { blockingInteractions, checkInteractions, consumeInteractionOverrides } from "../interaction/interaction.service";
+import { assertPurchaseLimits } from "../limit/limit.service";
+import { creditDeliveredItems } from "../payout/payout.service";
+import { ServiceError } from "../../lib/error";
+import { DEFAULT_CURRENCY, formatMoney, multiplyMoney, sumMoney } from "../../lib/money";
 
 // ** Allowed transitions map(source -> allowed next states) */s
 const VALID_TRANSITIONS: Record<string, string[]> = {
+    PENDING_VERIFICATION: ["PLACED", "CONFIRMS", "CANCELLED"],
     PLACED: ["PROCESSING", "CANCELLED", "CONFIRMS"],
     CONFIRMS: ["PROCESSING", "CANCELLED"],
     PROCESSING: ["SHIPPED", "CANCELLED"],
+    PARTIALLY_SHIPPED: ["SHIPPED", "DELIVERED"],
     SHIPPED: ["DELIVERED"],
-    DELIVERED: [],
+    DELIVERED: [], // returns are handled per item by the return module
     CANCELLED: [],
 };
 
 /** Helper: normalize status */
 const normalizeStatus = (s: string) => String(s ?? "").toUpperCase();
-export class ServiceError extends Error {
-    statusCode: number;
-    constructor(message: string, statusCode = 400) {
-        super(message);
-        this.statusCode = statusCode;
-        Object.setPrototypeOf(this, ServiceError.prototype);
-    }
-}
+export { ServiceError };
 
 
 const createStatusHistory = async (
@@ -28,11 +44,13 @@ const createStatusHistory = async (
     orderId: string,
     status: string,
     changedBy?: string,
-    notes?: string
+    notes?: string,
+    shipmentId?: string
 ) => {
     return await tx.orderStatusHistory.create({
         data: {
             orderId,
+            shipmentId,
             status: status as any,
             changedBy,
             notes,
@@ -40,31 +58,133 @@ const createStatusHistory = async (
     });
 };
 
+/** Progress rank used to derive the parent order status from its shipments */
+const STATUS_RANK: Record<string, number> = {
+    PENDING_VERIFICATION: 0,
+    PLACED: 1,
+    CONFIRMS: 2,
+    PROCESSING: 3,
+    SHIPPED: 4,
+    DELIVERED: 5,
+};
+
+/**
+ * Helper: derive parent order status from its shipment statuses.
+ * - all cancelled -> CANCELLED (cancelled shipments are otherwise ignored)
+ * - some (not all) shipped/delivered -> PARTIALLY_SHIPPED
+ * - otherwise the slowest shipment decides
+ */
+export const deriveOrderStatus = (statuses: string[]) => {
+    const active = statuses.filter((s) => s !== "CANCELLED");
+    if (active.length === 0) return "CANCELLED";
+
+    const dispatched = active.filter((s) => s === "SHIPPED" || s === "DELIVERED");
+    if (dispatched.length > 0 && dispatched.length < active.length) return "PARTIALLY_SHIPPED";
+
+    return active.reduce((slowest, s) => ((STATUS_RANK[s] ?? 0) < (STATUS_RANK[slowest] ?? 0) ? s : slowest));
+};
+
+/**
+ * Helper: move one shipment to a new status and reconcile.
+ * - Syncs orderItemStatus of the shipment's items
+ * - Credits the seller's balance once the items are DELIVERED
+ * - Writes shipment history, then re-derives the parent order status
+ * Must be called inside a transaction.
+ */
+const applyShipmentStatus = async (
+    tx: any,
+    shipment: { id: string; orderId: string; status: string },
+    status: string,
+    changedBy: string,
+    extra: { trackingNumber?: string | undefined; carrier?: string | undefined; notes?: string | undefined } = {}
+) => {
+    const data: any = { status };
+    if (extra.trackingNumber !== undefined) data.trackingNumber = extra.trackingNumber;
+    if (extra.carrier !== undefined) data.carrier = extra.carrier;
+    if (status === "SHIPPED") data.shippedAt = new Date();
+    if (status === "DELIVERED") data.deliveredAt = new Date();
+
+    await tx.shipment.update({ where: { id: shipment.id }, data });
+    await tx.orderItem.updateMany({ where: { shipmentId: shipment.id }, data: { orderItemStatus: status } });
+    if (status === "DELIVERED") await creditDeliveredItems(tx, { shipmentId: shipment.id });
+    await createStatusHistory(
+        tx,
+        shipment.orderId,
+        status,
+        changedBy,
+        extra.notes ?? `Shipment status changed from ${shipment.status} to ${status}`,
+        shipment.id
+    );
+
+    const [order, shipments] = await Promise.all([
+        tx.order.findUnique({ where: { id: shipment.orderId }, select: { status: true } }),
+        tx.shipment.findMany({ where: { orderId: shipment.orderId }, select: { status: true } }),
+    ]);
+    const derived = deriveOrderStatus(shipments.map((s: any) => s.status));
+    if (order && order.status !== derived) {
+        await tx.order.update({ where: { id: shipment.orderId }, data: { status: derived } });
+        await createStatusHistory(tx, shipment.orderId, derived, changedBy, `Order status derived from shipments`);
+        if (derived === "DELIVERED") await settleCashOnDelivery(tx, shipment.orderId);
+        if (derived === "CANCELLED") {
+            await cancelOrderPayments(tx, shipment.orderId, "Order cancelled");
+            await releaseCouponRedemptions(tx, shipment.orderId);
+        }
+    }
+    if (status === "CANCELLED" && derived !== "CANCELLED") {
+        await refundCancelledShipment(tx, shipment.id, "Shipment cancelled by seller");
+    }
+};
+
 type CreateOrderType = {
+    addressId?: string;
     shippingName?: string;
     shippingPhone?: string;
     shippingAddress?: string;
+    paymentMethod?: string;
+    currency?: string;
 };
 
 /**
- * Create order from user's cart (Cash on Delivery).
- * - Validate address
+ * Create order from user's cart.
+ * - Cash on Delivery by default; online methods open a gateway session after commit
+ * - Shipping address: saved addressId (snapshotted onto the order), free-text fields, or the default address
  * - Load cart + medicines
- * - Validate stock
- * - Create Order + OrderItems, decrement stock, clear cart in a single transaction
+ * - Validate stock (expired batches written off first) and per-customer purchase limits
+ * - Orders with Rx lines start as PENDING_VERIFICATION until each line is verified
+ *   against its prescription (earlier approvals do not carry over)
+ * - One shipment (fulfillment group) per seller
+ * - Price breakdown (subtotal, discount, zone shipping, VAT, total) is stored on the order,
+ *   in the requested currency together with the exchange rates used
+ * - Cart coupons are re-validated and redeemed; an invalid coupon blocks checkout
+ * - Drug interactions are checked; a contraindicated pair blocks checkout unless a pharmacist
+ *   override is on file (the override is consumed by the order)
+ * - Create Order + Shipments + OrderItems, allocate stock FEFO, clear cart in a single transaction
  */
 const createOrder = async (userId: string, data: CreateOrderType) => {
-    const { shippingName, shippingPhone, shippingAddress } = data;
-
-    if (!shippingAddress || typeof shippingAddress !== "string" || shippingAddress.trim() === "") {
-        throw new ServiceError("Active shippingPhone number & shippingAddress is required", 400);
-    }
-    if (!shippingPhone || typeof shippingPhone !== "string" || shippingPhone.trim() === "") {
-        throw new ServiceError("Active shippingPhone number & shippingAddress is required", 409)
+    const { addressId, shippingName, shippingPhone, shippingAddress } = data;
+    const paymentMethod = normalizePaymentMethod(data.paymentMethod);
+    const currency = normalizeCurrency(data.currency) ?? DEFAULT_CURRENCY;
+
+    let shipping: ReturnType<typeof toShippingSnapshot> | { shippingName: string | null; shippingPhone: string; shippingAddress: string };
+    const savedAddress = addressId || !shippingAddress ? await findUserAddress(prisma, userId, addressId) : null;
+    if (savedAddress) {
+        shipping = toShippingSnapshot(savedAddress);
+    } else {
+        if (!shippingAddress || typeof shippingAddress !== "string" || shippingAddress.trim() === "") {
+            throw new ServiceError("Active shippingPhone number & shippingAddress is required", 400);
+        }
+        if (!shippingPhone || typeof shippingPhone !== "string" || shippingPhone.trim() === "") {
+            throw new ServiceError("Active shippingPhone number & shippingAddress is required", 409)
+        }
+        shipping = { shippingName: shippingName ?? null, shippingPhone, shippingAddress };
     }
 
     try {
-        return await prisma.$transaction(async (tx) => {
+        const created = await prisma.$transaction(async (tx) => {
+            // expired batches must not count as sellable stock
+            const cartMedicines = await tx.cartItem.findMany({ where: { cart: { userId } }, select: { medicineId: true } });
+            await writeOffExpiredBatches(tx, { medicineIds: cartMedicines.map((it) => it.medicineId) });
+
             // load cart with items and medicine
             const cart = await tx.cart.findUnique({
                 where: { userId },
@@ -72,10 +192,17 @@ const createOrder = async (userId: string, data: CreateOrderType) => {
                     items: {
                         include: {
                             medicine: {
-                                select: { id: true, price: true, stock: true, isActive: true, sellerId: true, name: true },
+                                select: {
+                                    id: true, price: true, stock: true, isActive: true, sellerId: true, name: true, categoryId: true,
+                                    weightGrams: true, genericName: true,
+                                    ingredients: { select: { name: true } },
+                                    category: { select: { isPrescriptionRequired: true, vatRate: true } },
+                                    seller: { select: { currency: true } },
+                                },
                             },
                         },
                     },
+                    coupons: { orderBy: { createdAt: "asc" }, include: { coupon: true } },
                 },
             });
 
@@ -93,50 +220,136 @@ const createOrder = async (userId: string, data: CreateOrderType) => {
                 }
             }
 
-            // compute total
-            const total = cart.items.reduce((total, it) => total + it.medicine.price * it.quantity, 0);
+            // per-customer quantity limits, against the customer's recent orders; held locked until this order is saved
+            await assertPurchaseLimits(tx, userId, cart.items.map((it) => ({ medicineId: it.medicine.id, quantity: it.quantity })));
+
+            // contraindicated combinations need a pharmacist override
+            const interactionWarnings = await checkInteractions(tx, userId, cart.items.map((it) => it.medicine));
+            const blocking = blockingInteractions(interactionWarnings);
+            if (blocking.length) {
+                const pair = blocking[0]!.medicines.map((m) => m.name).join(" + ");
+                throw new ServiceError(`${pair} must not be taken together; a pharmacist override is required`, 409, blocking);
+            }
+
+            // price breakdown: coupons, delivery zone fee, VAT
+            const pricing = await priceOrder(tx, {
+                userId,
+                lines: cart.items.map((it) => ({
+                    medicineId: it.medicine.id,
+                    categoryId: it.medicine.categoryId,
+                    sellerId: it.medicine.sellerId,
+                    unitPrice: it.medicine.price,
+                    quantity: it.quantity,
+                    vatRate: it.medicine.category?.vatRate ?? 0,
+                    weightGrams: it.medicine.weightGrams,
+                    currency: it.medicine.seller?.currency ?? DEFAULT_CURRENCY,
+                })),
+                coupons: cart.coupons.map((c) => c.coupon),
+                shippingAddress: shipping.shippingAddress,
+                currency,
+            });
+            const rejected = pricing.invalidCoupons[0];
+            if (rejected) {
+                throw new ServiceError(`Coupon ${rejected.code} can't be applied: ${rejected.reason}`, 409, pricing.invalidCoupons);
+            }
+            const total = pricing.total;
+            // unit prices in the order currency
+            const unitPrices = new Map(cart.items.map((it, i) => [it.id, pricing.lines[i]?.unitPrice ?? it.medicine.price]));
+
+            // Rx lines hold the order until a reviewer checks them against their prescription
+            const pendingVerification = cart.items.some((it) => requiresPrescription(it.medicine));
+            const initialStatus = pendingVerification ? "PENDING_VERIFICATION" : "PLACED";
 
             // create order
             const order = await tx.order.create({
                 data: {
                     userId,
+                    subtotal: pricing.subtotal,
+                    discount: pricing.discount,
+                    shippingFee: pricing.shippingFee,
+                    shippingDiscount: pricing.shippingDiscount,
+                    tax: pricing.tax,
                     total,
-                    status: "PLACED",
-                    shippingName: shippingName ?? null,
-                    shippingPhone,
-                    shippingAddress,
-
+                    currency: pricing.currency,
+                    exchangeRate: pricing.exchangeRate,
+                    shippingZoneId: pricing.shippingZone?.id ?? null,
+                    status: initialStatus,
+                    ...shipping,
                 },
             });
 
 
-            await createStatusHistory(tx, order.id, "PLACED", userId, "Order created");
+            await createStatusHistory(
+                tx,
+                order.id,
+                initialStatus,
+                userId,
+                pendingVerification ? "Order created, awaiting prescription verification" : "Order created"
+            );
+
+            // group cart items by seller -> one shipment each
+            const itemsBySeller = new Map<string | null, typeof cart.items>();
+            for (const it of cart.items) {
+                const group = itemsBySeller.get(it.medicine.sellerId) ?? [];
+                group.push(it);
+                itemsBySeller.set(it.medicine.sellerId, group);
+            }
+
+            const shipmentIdBySeller = new Map<string | null, string>();
+            for (const [sellerId, items] of itemsBySeller) {
+                const shipment = await tx.shipment.create({
+                    data: {
+                        orderId: order.id,
+                        sellerId,
+                        status: initialStatus,
+                        subtotal: sumMoney(items, (it) => multiplyMoney(unitPrices.get(it.id)!, it.quantity)),
+                    },
+                });
+                shipmentIdBySeller.set(sellerId, shipment.id);
+                await createStatusHistory(tx, order.id, initialStatus, userId, "Shipment created", shipment.id);
+            }
 
-            // create order items and decrement stock
-            const orderItemCreates = cart.items.map((it) =>
-                tx.orderItem.create({
+            // create order items, picking stock first-expiry-first-out and recording the batches
+            for (const [i, it] of cart.items.entries()) {
+                const orderItem = await tx.orderItem.create({
                     data: {
                         orderId: order.id,
                         medicineId: it.medicine.id,
                         quantity: it.quantity,
-                        unitPrice: it.medicine.price,
+                        unitPrice: unitPrices.get(it.id)!,
+                        basePrice: it.medicine.price,
+                        baseCurrency: it.medicine.seller?.currency ?? DEFAULT_CURRENCY,
+                        exchangeRate: pricing.lines[i]?.exchangeRate ?? 1,
+                        vatRate: pricing.lines[i]?.vatRate ?? 0,
+                        taxAmount: pricing.lines[i]?.taxAmount ?? 0,
+                        orderItemStatus: initialStatus,
+                        shipmentId: shipmentIdBySeller.get(it.medicine.sellerId) ?? null,
+                        prescriptionId: it.prescriptionId,
                     },
-                })
-            );
+                });
 
-            // decrement stock operations
-            const stockUpdates = cart.items.map((it) =>
-                tx.medicine.update({
-                    where: { id: it.medicine.id },
-                    data: { stock: { decrement: it.quantity } },
-                })
-            );
+                const allocations = await consumeStock(tx, it.medicine.id, it.quantity, {
+                    type: "ORDER_PLACED",
+                    actorId: userId,
+                    orderId: order.id,
+                });
+                await tx.orderItemBatch.createMany({
+                    data: allocations.map((a) => ({ orderItemId: orderItem.id, ...a })),
+                });
+            }
+
+            // attached prescriptions have new lines to review
+            await reopenPrescriptions(tx, cart.items.map((it) => it.prescriptionId));
+
+            await redeemCoupons(tx, order, pricing.coupons);
 
-            // execute creations and stock updates
-            await Promise.all([...orderItemCreates, ...stockUpdates]);
+            await consumeInteractionOverrides(tx, order, interactionWarnings);
 
-            // clear cart items (delete)
+            await createOrderPayment(tx, order, paymentMethod);
+
+            // clear cart items and applied coupons
             await tx.cartItem.deleteMany({ where: { cartId: cart.id } });
+            await tx.cartCoupon.deleteMany({ where: { cartId: cart.id } });
 
             // optional: delete cart record itself
             // await tx.cart.delete({ where: { id: cart.id } });
@@ -150,18 +363,29 @@ const createOrder = async (userId: string, data: CreateOrderType) => {
                             medicine: { select: { id: true, name: true, imageUrl: true, manufacturer: true } },
                         },
                     },
+                    shipments: true,
+                    payments: { select: { id: true } },
                     user: { select: { id: true, name: true, email: true } },
                 },
             });
 
             // log for audit (simple console; replace with structured logger)
-            console.info(`Order created: ${order.id} by user ${userId} total=${total}`);
+            console.info(`Order created: ${order.id} by user ${userId} total=${formatMoney(total, pricing.currency)} payment=${paymentMethod}`);
 
             // placeholder: notify (email/webhook)
             // notifyOrderCreated(created);
 
-            return created;
+            return { ...created!, interactionWarnings };
+        });
+
+        // gateway call happens after commit; the order stands even if it fails,
+        // and payment can be retried from /api/payments
+        const { payments, ...rest } = created;
+        const payment = await paymentService.startPayment(payments[0]!.id).catch((err) => {
+            console.error("createOrder startPayment error:", err);
+            return { id: payments[0]!.id, provider: paymentMethod, status: PaymentStatus.PENDING };
         });
+        return { ...rest, payment };
     } catch (err: any) {
         if (err instanceof ServiceError) throw err;
         console.error("createOrder error:", err);
@@ -173,7 +397,8 @@ const createOrder = async (userId: string, data: CreateOrderType) => {
 /**
  * List orders:
  * - If admin: return all orders (with pagination)
- * - If seller: return orders that contain medicines sold by this seller
+ * - If seller: return orders that contain medicines sold by this seller,
+ *   with items and shipments narrowed to the seller's own
  * - If customer: return user's orders
  */
 type OrderFilters = {
@@ -195,9 +420,10 @@ const listOrders = async (user: User, filters: OrderFilters = {}) => {
         const skip = (page - 1) * limit;
 
         const where: any = {};
+        const isSeller = user.role === "SELLER";
 
         // Role-based scoping
-        if (user.role === "SELLER") {
+        if (isSeller) {
             where.items = {
                 some: {
                     medicine: {
@@ -248,6 +474,7 @@ const listOrders = async (user: User, filters: OrderFilters = {}) => {
                 orderBy: { [sortBy]: sortOrder },
                 include: {
                     items: {
+                        ...(isSeller ? { where: { medicine: { sellerId: user.id } } } : {}),
                         include: {
                             medicine: {
                                 select: {
@@ -256,6 +483,7 @@ const listOrders = async (user: User, filters: OrderFilters = {}) => {
                             }
                         }
                     },
+                    shipments: isSeller ? { where: { sellerId: user.id } } : true,
                     user: { select: { id: true, name: true, email: true } }
                 },
             }),
@@ -280,18 +508,50 @@ const listOrders = async (user: User, filters: OrderFilters = {}) => {
 /**
  * Get single order with authorization:
  * - admin: any
- * - seller: only if order contains seller's medicine
+ * - seller: only if order contains seller's medicine, narrowed to the seller's own items, shipments and recalls
  * - customer: only own orders
  */
 const getOrder = async (user: User, orderId: string) => {
     try {
+        const isSeller = user.role === "SELLER";
         const order = await prisma.order.findUnique({
             where: { id: orderId },
             include:
             {
                 items: {
+                    ...(isSeller ? { where: { medicine: { sellerId: user.id } } } : {}),
                     include:
-                        { medicine: true }
+                    {
+                        medicine: true,
+                        prescription: true,
+                        batches: {
+                            select: {
+                                quantity: true,
+                                batch: { select: { id: true, batchNumber: true, expiryDate: true } },
+                            },
+                        },
+                    }
+                },
+                shipments: isSeller ? { where: { sellerId: user.id } } : true,
+                coupons: { select: { code: true, discount: true } },
+                shippingZone: { select: { id: true, name: true } },
+                recallNotices: {
+                    ...(isSeller ? { where: { orderItem: { medicine: { sellerId: user.id } } } } : {}),
+                    select: {
+                        orderItemId: true,
+                        quantity: true,
+                        createdAt: true,
+                        recall: {
+                            select: {
+                                id: true,
+                                severity: true,
+                                status: true,
+                                reason: true,
+                                instructions: true,
+                                medicine: { select: { id: true, name: true } },
+                            },
+                        },
+                    },
                 },
                 user: { select: { id: true, name: true, email: true } }
             },
@@ -300,9 +560,8 @@ const getOrder = async (user: User, orderId: string) => {
 
         if (user.role === "ADMIN") return order;
 
-        if (user.role === "SELLER") {
-            const hasSellerItem = order.items.some((it) => it.medicine.sellerId === user.id);
-            if (!hasSellerItem) throw new ServiceError("Unauthorized", 403);
+        if (isSeller) {
+            if (!order.items.length) throw new ServiceError("Unauthorized", 403);
             return order;
         }
 
@@ -318,8 +577,9 @@ const getOrder = async (user: User, orderId: string) => {
 
 /**
  * Customer cancels their own order.
- * - Allowed only when current status is PLACED (before confirm/processing).
+ * - Allowed only when current status is PENDING_VERIFICATION or PLACED (before confirm/processing).
  * - Restores stock for each order item.
+ * - Pending payments are cancelled; an online payment already taken is owed back as a refund.
  * - Runs in a transaction.
  */
 const cancelOrderByCustomer = async (user: User, orderId: string) => {
@@ -341,18 +601,29 @@ const cancelOrderByCustomer = async (user: User, orderId: string) => {
             const current = order.status;
 
             // allow cancel only when order is PLACED (before confirm/processing)
-            if (current !== "PLACED") {
+            if (current !== "PLACED" && current !== "PENDING_VERIFICATION") {
                 throw new ServiceError("You can cancel the order only before it is confirmed or processed by seller", 400);
             }
 
-            // restock each medicine (because stock was decremented at order creation)
+            // restock each medicine (because stock was decremented at order creation);
+            // items of shipments already cancelled by their seller were restocked then
             for (const it of order.items) {
-                await tx.medicine.update({
-                    where: { id: it.medicine.id },
-                    data: { stock: { increment: it.quantity } },
+                if (it.orderItemStatus === "CANCELLED") continue;
+                await restockOrderItem(tx, it, it.quantity, {
+                    type: "ORDER_CANCELLED",
+                    actorId: user.id,
+                    reason: "Order cancelled by customer",
+                    orderId,
                 });
             }
 
+            // cancel every shipment and its items along with the order
+            await tx.shipment.updateMany({ where: { orderId }, data: { status: "CANCELLED" } });
+            await tx.orderItem.updateMany({ where: { orderId }, data: { orderItemStatus: "CANCELLED" } });
+            await createStatusHistory(tx, orderId, upper, user.id, "Order cancelled by customer");
+            await cancelOrderPayments(tx, orderId, "Order cancelled by customer");
+            await releaseCouponRedemptions(tx, orderId);
+
             // update order status to CANCELLED
             const updated = await tx.order.update({
                 where: { id: orderId },
@@ -396,7 +667,9 @@ const getOrderStatus = async (orderId: string) => {
  * - Seller must own at least one item in the order.
  * - Admin can update any order.
  * - Enforces VALID_TRANSITIONS.
- * - If status becomes CANCELLED, prevents cancellation after SHIPPED/DELIVERED.
+ * - If status becomes CANCELLED, prevents cancellation after SHIPPED/DELIVERED; money already paid is refunded.
+ * - Rx orders cannot leave PENDING_VERIFICATION or be confirmed until every Rx line is verified against its prescription.
+ * - Cascades the new status to every shipment that has not already reached it.
  * - Runs in a transaction.
 **/
 const updateOrderStatusByAdmin = async (user: User, orderId: string, newStatus: string) => {
@@ -406,13 +679,24 @@ const updateOrderStatusByAdmin = async (user: User, orderId: string, newStatus:
     if (!VALID_STATUSES.includes(upper)) {
         throw new ServiceError("Invalid status", 400);
     }
+    if (upper === "PARTIALLY_SHIPPED") {
+        throw new ServiceError("PARTIALLY_SHIPPED is derived from shipments and cannot be set directly", 400);
+    }
 
     try {
         return await prisma.$transaction(async (tx) => {
             const order = await tx.order.findUnique({
                 where: { id: orderId },
                 include: {
-                    items: { include: { medicine: { select: { id: true, sellerId: true, name: true } } } },
+                    shipments: { select: { id: true, status: true } },
+                    items: {
+                        include: {
+                            medicine: {
+                                select: { id: true, sellerId: true, name: true, category: { select: { isPrescriptionRequired: true } } },
+                            },
+                            prescription: { select: { status: true, expiryDate: true } },
+                        },
+                    },
                 },
             });
             if (!order) throw new ServiceError("Order not found", 404);
@@ -442,6 +726,55 @@ const updateOrderStatusByAdmin = async (user: User, orderId: string, newStatus:
                 throw new ServiceError(`Invalid status transition from ${current} to ${upper}`, 400);
             }
 
+            // Prescription gate
+            if (upper !== "CANCELLED" && (current === "PENDING_VERIFICATION" || upper === "CONFIRMS")) {
+                const unverified = order.items.filter(
+                    (it) => requiresPrescription(it.medicine) && !isLineVerified(it)
+                );
+                if (unverified.length) {
+                    const names = unverified.map((it) => it.medicine.name).join(", ");
+                    throw new ServiceError(`Approved prescription required for: ${names}`, 409);
+                }
+            }
+
+            // Online payments must succeed before the order is confirmed
+            if (upper === "CONFIRMS" && await isAwaitingOnlinePayment(tx, orderId)) {
+                throw new ServiceError("Order is awaiting online payment", 409);
+            }
+
+            // Cascade to shipments that are behind the new status
+            const pending = order.shipments.filter((sh) =>
+                sh.status !== "CANCELLED" &&
+                (upper === "CANCELLED" || (STATUS_RANK[sh.status] ?? 0) < (STATUS_RANK[upper] ?? 0))
+            );
+            const blocked = pending.filter((sh) => !(VALID_TRANSITIONS[sh.status] ?? []).includes(upper));
+            if (blocked.length) {
+                throw new ServiceError(`Shipment(s) cannot move to ${upper}: ${blocked.map((sh) => `${sh.id} (${sh.status})`).join(", ")}`, 400);
+            }
+            for (const sh of pending) {
+                if (upper === "CANCELLED") {
+                    for (const it of order.items.filter((it) => it.shipmentId === sh.id)) {
+                        await restockOrderItem(tx, it, it.quantity, {
+                            type: "ORDER_CANCELLED",
+                            actorId: user.id,
+                            reason: "Order cancelled by admin",
+                            orderId,
+                        });
+                    }
+                }
+                // same timestamps as applyShipmentStatus; the return window runs from deliveredAt
+                await tx.shipment.update({
+                    where: { id: sh.id },
+                    data: {
+                        status: upper as any,
+                        ...(upper === "SHIPPED" && { shippedAt: new Date() }),
+                        ...(upper === "DELIVERED" && { deliveredAt: new Date() }),
+                    },
+                });
+                await tx.orderItem.updateMany({ where: { shipmentId: sh.id }, data: { orderItemStatus: upper as any } });
+                await createStatusHistory(tx, orderId, upper, user.id, `Shipment status changed from ${sh.status} to ${upper} by admin`, sh.id);
+            }
+
             const updated = await tx.order.update({
                 where: { id: orderId },
                 data: { status: upper as any },
@@ -461,6 +794,15 @@ const updateOrderStatusByAdmin = async (user: User, orderId: string, newStatus:
                 `Status changed from ${current} to ${upper} by admin`
             );
 
+            if (upper === "DELIVERED") {
+                await settleCashOnDelivery(tx, orderId);
+                await creditDeliveredItems(tx, { orderId });
+            }
+            if (upper === "CANCELLED") {
+                await cancelOrderPayments(tx, orderId, `Order cancelled by ${user.role.toLowerCase()}`);
+                await releaseCouponRedemptions(tx, orderId);
+            }
+
             // console.info(`Order ${orderId} status changed ${current} -> ${upper} by ${user.id} (${user.role})`);
 
             return updated;
@@ -473,47 +815,211 @@ const updateOrderStatusByAdmin = async (user: User, orderId: string, newStatus:
 };
 
 
-export const updateOrderItemStatusBySeller = async (user: User, orderItemId: string, newStatus: string) => {
-    const upper = normalizeStatus(newStatus);
-    if (!Object.keys(VALID_TRANSITIONS).includes(upper)) {
+type ShipmentFilters = {
+    status?: string | undefined;
+    search?: string | undefined;
+    startDate?: string | undefined;
+    endDate?: string | undefined;
+    page?: number | undefined;
+    limit?: number | undefined;
+    sortBy?: string | undefined;
+    sortOrder?: string | undefined;
+};
+
+/**
+ * List seller's own shipments (fulfillment groups) with their items only.
+ */
+const listSellerShipments = async (user: User, filters: ShipmentFilters = {}) => {
+    try {
+        const { status, search, startDate, endDate, page = 1, limit = 10, sortBy = "createdAt", sortOrder = "desc" } = filters;
+        const skip = (page - 1) * limit;
+
+        const where: any = { sellerId: user.id };
+        if (status) where.status = status;
+        if (search) {
+            where.OR = [
+                { orderId: { contains: search, mode: "insensitive" } },
+                { trackingNumber: { contains: search, mode: "insensitive" } },
+                { order: { shippingName: { contains: search, mode: "insensitive" } } },
+                { items: { some: { medicine: { name: { contains: search, mode: "insensitive" } } } } },
+            ];
+        }
+        if (startDate || endDate) {
+            where.createdAt = {};
+            if (startDate) where.createdAt.gte = new Date(startDate);
+            if (endDate) where.createdAt.lte = new Date(endDate);
+        }
+
+        const [items, total] = await Promise.all([
+            prisma.shipment.findMany({
+                where,
+                skip,
+                take: limit,
+                orderBy: { [sortBy]: sortOrder },
+                include: {
+                    items: {
+                        include: { medicine: { select: { id: true, name: true, imageUrl: true, genericName: true, manufacturer: true } } },
+                    },
+                    order: {
+                        select: {
+                            id: true, status: true, shippingName: true, shippingPhone: true, shippingAddress: true, createdAt: true,
+                            user: { select: { id: true, name: true, email: true } },
+                        },
+                    },
+                },
+            }),
+            prisma.shipment.count({ where }),
+        ]);
+
+        return {
+            items,
+            pagination: {
+                total,
+                page,
+                limit,
+                totalPages: Math.ceil(total / limit),
+            },
+        };
+    } catch (err: any) {
+        console.error("listSellerShipments error:", err);
+        throw new ServiceError("Failed to list shipments", 500);
+    }
+};
+
+const getSellerShipment = async (user: User, shipmentId: string) => {
+    try {
+        const shipment = await prisma.shipment.findUnique({
+            where: { id: shipmentId },
+            include: {
+                items: { include: { medicine: true, prescription: true } },
+                order: {
+                    select: {
+                        id: true, status: true, shippingName: true, shippingPhone: true, shippingAddress: true, createdAt: true,
+                        user: { select: { id: true, name: true, email: true } },
+                    },
+                },
+                statusHistory: { orderBy: { changedAt: "asc" } },
+            },
+        });
+        if (!shipment) throw new ServiceError("Shipment not found", 404);
+        if (user.role !== "ADMIN" && shipment.sellerId !== user.id) throw new ServiceError("Unauthorized", 403);
+        return shipment;
+    } catch (err: any) {
+        if (err instanceof ServiceError) throw err;
+        console.error("getSellerShipment error:", err);
+        throw new ServiceError("Failed to fetch shipment", 500);
+    }
+};
+
+type ShipmentUpdateType = {
+    status?: string;
+    trackingNumber?: string | undefined;
+    carrier?: string | undefined;
+    notes?: string | undefined;
+};
+
+/**
+ * Seller updates status of own shipment.
+ * - Enforces VALID_TRANSITIONS; tracking number required when shipping.
+ * - Cancelling restores stock of the shipment's items (ledger ORDER_CANCELLED) and refunds
+ *   the shipment's share of an online payment already taken.
+ * - Parent order status is re-derived from all shipments.
+ */
+const updateShipmentStatusBySeller = async (user: User, shipmentId: string, data: ShipmentUpdateType) => {
+    const upper = normalizeStatus(data.status ?? "");
+    if (!Object.keys(VALID_TRANSITIONS).includes(upper) || upper === "PENDING_VERIFICATION" || upper === "PARTIALLY_SHIPPED") {
         throw new ServiceError("Invalid status", 400);
     }
 
     try {
         return await prisma.$transaction(async (tx) => {
-            // fetch order item with medicine and order
-            const item = await tx.orderItem.findUnique({
-                where: { id: orderItemId },
-                include: { medicine: { select: { sellerId: true, id: true, name: true } }, order: { select: { id: true, status: true } } },
+            const shipment = await tx.shipment.findUnique({
+                where: { id: shipmentId },
+                include: {
+                    order: { select: { id: true, status: true } },
+                    items: { select: { id: true, medicineId: true, quantity: true } },
+                },
             });
-            if (!item) throw new ServiceError("Order item not found", 404);
+            if (!shipment) throw new ServiceError("Shipment not found", 404);
+            if (shipment.sellerId !== user.id) throw new ServiceError("Unauthorized: you don't own this shipment", 403);
 
-            // authorization: seller must own the medicine
-            if (user.role === "SELLER" && item.medicine.sellerId !== user.id) {
-                throw new ServiceError("Unauthorized: you don't own this item", 403);
+            if (shipment.order.status === "PENDING_VERIFICATION") {
+                throw new ServiceError("Order is awaiting prescription verification", 409);
             }
-
-            const current = item.orderItemStatus;
-            if (current === upper) {
-                // return fresh item
-                return await tx.orderItem.findUnique({ where: { id: orderItemId }, include: { medicine: true, order: true } });
+            if (upper !== "CANCELLED" && await isAwaitingOnlinePayment(tx, shipment.orderId)) {
+                throw new ServiceError("Order is awaiting online payment", 409);
             }
 
-            // validate transition for order item status
-            const allowed = VALID_TRANSITIONS[current] ?? [];
-            if (!allowed.includes(upper)) {
-                throw new ServiceError(`Invalid status transition from ${current} to ${upper}`, 400);
+            const current = shipment.status;
+            if (current !== upper) {
+                const allowed = VALID_TRANSITIONS[current] ?? [];
+                if (!allowed.includes(upper)) {
+                    throw new ServiceError(`Invalid status transition from ${current} to ${upper}`, 400);
+                }
+
+                const trackingNumber = data.trackingNumber ?? shipment.trackingNumber ?? undefined;
+                if (upper === "SHIPPED" && !trackingNumber) {
+                    throw new ServiceError("trackingNumber is required to ship", 400);
+                }
+
+                if (upper === "CANCELLED") {
+                    for (const it of shipment.items) {
+                        await restockOrderItem(tx, it, it.quantity, {
+                            type: "ORDER_CANCELLED",
+                            actorId: user.id,
+                            reason: "Shipment cancelled by seller",
+                            orderId: shipment.orderId,
+                        });
+                    }
+                }
+
+                await applyShipmentStatus(tx, shipment, upper, user.id, {
+                    trackingNumber: data.trackingNumber,
+                    carrier: data.carrier,
+                    notes: data.notes,
+                });
+            } else if (data.trackingNumber !== undefined || data.carrier !== undefined) {
+                // same status: only tracking details change
+                const details: any = {};
+                if (data.trackingNumber !== undefined) details.trackingNumber = data.trackingNumber;
+                if (data.carrier !== undefined) details.carrier = data.carrier;
+                await tx.shipment.update({ where: { id: shipmentId }, data: details });
             }
 
-            // update only the order item status
-            const updatedItem = await tx.orderItem.update({
-                where: { id: orderItemId },
-                data: { orderItemStatus: upper as any },
-                include: { medicine: true, order: true },
+            return await tx.shipment.findUnique({
+                where: { id: shipmentId },
+                include: { items: { include: { medicine: true } }, order: true },
             });
+        });
+    } catch (err: any) {
+        if (err instanceof ServiceError) throw err;
+        console.error("updateShipmentStatusBySeller error:", err);
+        throw new ServiceError("Failed to update shipment status", 500);
+    }
+};
 
-            return updatedItem;
+/**
+ * Seller updates status via one of the order items.
+ * Kept for existing clients: items move together with their shipment,
+ * so this updates the whole shipment the item belongs to.
+ */
+export const updateOrderItemStatusBySeller = async (user: User, orderItemId: string, newStatus: string) => {
+    try {
+        const item = await prisma.orderItem.findUnique({
+            where: { id: orderItemId },
+            select: { shipmentId: true, medicine: { select: { sellerId: true } } },
         });
+        if (!item) throw new ServiceError("Order item not found", 404);
+
+        // authorization: seller must own the medicine
+        if (user.role === "SELLER" && item.medicine.sellerId !== user.id) {
+            throw new ServiceError("Unauthorized: you don't own this item", 403);
+        }
+        if (!item.shipmentId) throw new ServiceError("Order item has no shipment", 409);
+
+        await updateShipmentStatusBySeller(user, item.shipmentId, { status: newStatus });
+
+        return await prisma.orderItem.findUnique({ where: { id: orderItemId }, include: { medicine: true, order: true, shipment: true } });
     } catch (err: any) {
         if (err instanceof ServiceError) throw err;
         console.error("updateOrderItemStatusBySeller error:", err);
@@ -523,16 +1029,35 @@ export const updateOrderItemStatusBySeller = async (user: User, orderItemId: str
 
 /**
  * Get order status history
- * For Order tracking page 
+ * For Order tracking page; only the order's customer, its sellers and admins may read it
  */
-const getOrderStatusHistory = async (orderId: string) => {
+const getOrderStatusHistory = async (user: User, orderId: string) => {
     try {
+        const order = await prisma.order.findUnique({
+            where: { id: orderId },
+            select: { userId: true, items: { select: { medicine: { select: { sellerId: true } } } } },
+        });
+        if (!order) throw new ServiceError("Order not found", 404);
+
+        if (user.role === "SELLER") {
+            const hasSellerItem = order.items.some((it) => it.medicine.sellerId === user.id);
+            if (!hasSellerItem) throw new ServiceError("Unauthorized", 403);
+        } else if (user.role !== "ADMIN" && order.userId !== user.id) {
+            throw new ServiceError("Unauthorized", 403);
+        }
+
         const history = await prisma.orderStatusHistory.findMany({
             where: { orderId },
             orderBy: { changedAt: "asc" },
+            include: {
+                returnRequest: {
+                    select: { id: true, quantity: true, orderItemId: true, refund: { select: { amount: true, status: true } } },
+                },
+            },
         });
         return history;
     } catch (err: any) {
+        if (err instanceof ServiceError) throw err;
         console.error("getOrderStatusHistory error:", err);
         throw new ServiceError("Failed to fetch order status history", 500);
     }
@@ -612,6 +1137,9 @@ export const orderService = {
     cancelOrderByCustomer,
     updateOrderStatusByAdmin,
     updateOrderItemStatusBySeller,
+    listSellerShipments,
+    getSellerShipment,
+    updateShipmentStatusBySeller,
     getOrderStatusHistory,
     getDeliveredMedicinesForReview
 };
\ No newline at end of file
@@ -0,0 +1,101 @@
+import { Request, Response } from "express";
+import { paymentService } from "./payment.service";
+import { ServiceError } from "../../lib/error";
+import paginationSortingHelpers from "../../helpers/paginationSortingHelpers";
+
+const send = (res: Response, code: number, message: string, data?: any) =>
+    res.status(code).json({ message, data });
+
+const sendError = (res: Response, err: any, fallback: string) => {
+    const status = err instanceof ServiceError ? err.statusCode : 500;
+    const message = err?.message || fallback;
+    const details = err instanceof ServiceError ? err.details : undefined;
+    return res.status(status).json({ message, details });
+};
+
+/**
+ * POST /api/payments/orders/:orderId
+ * Customer starts or retries payment (body: { paymentMethod })
+ */
+const initiatePayment = async (req: Request, res: Response) => {
+    try {
+        const user = (req as any).user;
+        if (!user?.id) return send(res, 401, "Unauthorized");
+
+        const { paymentMethod } = req.body ?? {};
+        const payment = await paymentService.initiatePayment(user, req.params.orderId as string, paymentMethod);
+        return send(res, 201, "Payment initiated", payment);
+    } catch (err) {
+        return sendError(res, err, "Failed to initiate payment");
+    }
+};
+
+const getOrderPayments = async (req: Request, res: Response) => {
+    try {
+        const user = (req as any).user;
+        if (!user?.id) return send(res, 401, "Unauthorized");
+
+        const payments = await paymentService.getOrderPayments(user, req.params.orderId as string);
+        return send(res, 200, "Payments fetched", payments);
+    } catch (err) {
+        return sendError(res, err, "Failed to fetch payments");
+    }
+};
+
+/**
+ * POST /api/payments/webhooks/:provider
+ * Gateway callback; authenticated by provider signature, not session
+ */
+const handleWebhook = async (req: Request, res: Response) => {
+    try {
+        const result = await paymentService.handleWebhook(req.params.provider as string, {
+            headers: req.headers,
+            rawBody: req.rawBody,
+            body: req.body,
+        });
+        return send(res, 200, "Callback processed", result);
+    } catch (err) {
+        return sendError(res, err, "Failed to process payment callback");
+    }
+};
+
+/**
+ * GET /api/payments/refunds
+ * Admin lists refunds of cancelled orders and shipments (?status=PENDING|COMPLETED)
+ */
+const listRefunds = async (req: Request, res: Response) => {
+    try {
+        const status = typeof req.query.status === "string" ? req.query.status.trim().toUpperCase() : undefined;
+        const { page, limit, skip, sortBy, sortOrder } = paginationSortingHelpers(req.query);
+
+        const data = await paymentService.listRefunds({ page, limit, skip, sortBy, sortOrder, status });
+        return send(res, 200, "Refunds fetched", data);
+    } catch (err) {
+        return sendError(res, err, "Failed to fetch refunds");
+    }
+};
+
+/**
+ * PATCH /api/payments/refunds/:id
+ * Admin records the refund payout (body: { reference? })
+ */
+const completeRefund = async (req: Request, res: Response) => {
+    try {
+        const user = (req as any).user;
+        if (!user?.id) return send(res, 401, "Unauthorized");
+
+        const { reference } = req.body ?? {};
+        const updated = await paymentService.completeRefund(user, req.params.id as string, { reference });
+        return send(res, 200, "Refund completed", updated);
+    } catch (err) {
+        return sendError(res, err, "Failed to complete refund");
+    }
+};
+
+export const paymentController = {
+    initiatePayment,
+    getOrderPayments,
+    handleWebhook,
+    listRefunds,
+    completeRefund,
+};
@@ -0,0 +1,23 @@
+import express, { Router } from "express";
+import { paymentController } from "./payment.controller";
+import auth from "../../middleware/auth";
+import { UserRole } from "../../types";
+import { captureRawBody } from "../../middleware/rawBody";
+
+const router = Router();
+
+// Gateway callbacks (signature verified, no session); IPNs arrive form encoded
+router.post(
+    "/webhooks/:provider",
+    express.urlencoded({ extended: false, verify: captureRawBody }),
+    paymentController.handleWebhook
+);
+
+router.post("/orders/:orderId", auth(UserRole.CUSTOMER), paymentController.initiatePayment);
+router.get("/orders/:orderId", auth(), paymentController.getOrderPayments);
+
+// Admin: refunds of cancelled orders and shipments
+router.get("/refunds", auth(UserRole.ADMIN), paymentController.listRefunds);
+router.patch("/refunds/:id", auth(UserRole.ADMIN), paymentController.completeRefund);
+
+export const paymentRouter = router;
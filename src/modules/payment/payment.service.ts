@@ -0,0 +1,509 @@
+import { prisma } from "../../lib/prisma";
+import { ServiceError } from "../../lib/error";
+import {
+    formatMoney,
+    minMoney,
+    multiplyMoney,
+    roundMoney,
+    subtractMoney,
+    sumMoney,
+    toMoneyString,
+    ZERO,
+    type Money,
+} from "../../lib/money";
+import type { User } from "../../generated/prisma/client";
+import { PaymentProvider as PaymentProviderName, PaymentStatus, RefundStatus } from "../../generated/prisma/enums";
+import { getPaymentProvider } from "./providers";
+import type { WebhookRequest } from "./providers";
+
+type CompleteRefundType = {
+    reference?: string | null;
+};
+
+type PaginationType = {
+    page: number,
+    limit: number,
+    skip: number,
+    sortBy: string,
+    sortOrder: string,
+}
+
+export const PAYMENT_METHODS = Object.values(PaymentProviderName);
+
+/** Helper: validate the paymentMethod sent at checkout (defaults to COD) */
+export const normalizePaymentMethod = (method?: string | null): PaymentProviderName => {
+    const upper = String(method ?? PaymentProviderName.COD).toUpperCase() as PaymentProviderName;
+    if (!PAYMENT_METHODS.includes(upper)) {
+        throw new ServiceError(`paymentMethod must be one of ${PAYMENT_METHODS.join(", ")}`, 400);
+    }
+    if (upper !== PaymentProviderName.COD) getPaymentProvider(upper);
+    return upper;
+};
+
+/** Helper: the payment that counts for an order: a succeeded one, else the latest attempt */
+const latestPayment = async (tx: any, orderId: string) =>
+    (await tx.payment.findFirst({
+        where: { orderId, status: PaymentStatus.SUCCEEDED },
+        select: { provider: true, status: true },
+    })) ??
+    (await tx.payment.findFirst({
+        where: { orderId },
+        orderBy: { createdAt: "desc" },
+        select: { provider: true, status: true },
+    }));
+
+/**
+ * Helper: order chose an online method whose payment has not SUCCEEDED yet.
+ * COD orders never wait (cash is collected on delivery). Used to gate CONFIRMS.
+ */
+export const isAwaitingOnlinePayment = async (tx: any, orderId: string) => {
+    const latest = await latestPayment(tx, orderId);
+    return !!latest && latest.provider !== PaymentProviderName.COD && latest.status !== PaymentStatus.SUCCEEDED;
+};
+
+/** Helper: order has been paid through an online gateway */
+export const isPaidOnline = async (tx: any, orderId: string) => {
+    const latest = await latestPayment(tx, orderId);
+    return !!latest && latest.provider !== PaymentProviderName.COD && latest.status === PaymentStatus.SUCCEEDED;
+};
+
+/**
+ * Create the PENDING payment row for a new order.
+ * Must be called inside the checkout transaction.
+ */
+export const createOrderPayment = async (
+    tx: any,
+    order: { id: string; userId: string; total: Money; currency: string },
+    provider: PaymentProviderName
+) => {
+    return await tx.payment.create({
+        data: {
+            orderId: order.id,
+            userId: order.userId,
+            provider,
+            amount: order.total,
+            currency: order.currency,
+        },
+    });
+};
+
+/**
+ * Move a paid order from PLACED to CONFIRMS (shipments and items follow).
+ * Orders still awaiting prescription verification are left untouched.
+ * Must be called inside a transaction.
+ */
+export const confirmPaidOrder = async (tx: any, orderId: string) => {
+    const order = await tx.order.findUnique({ where: { id: orderId }, select: { status: true } });
+    if (!order || order.status !== "PLACED") return;
+
+    await tx.shipment.updateMany({ where: { orderId, status: "PLACED" }, data: { status: "CONFIRMS" } });
+    await tx.orderItem.updateMany({ where: { orderId, orderItemStatus: "PLACED" }, data: { orderItemStatus: "CONFIRMS" } });
+    await tx.order.update({ where: { id: orderId }, data: { status: "CONFIRMS" } });
+    await tx.orderStatusHistory.create({
+        data: { orderId, status: "CONFIRMS", notes: "Payment received" },
+    });
+};
+
+/**
+ * Mark pending cash-on-delivery payment as collected once the order is DELIVERED.
+ * Must be called inside a transaction.
+ */
+export const settleCashOnDelivery = async (tx: any, orderId: string) => {
+    await tx.payment.updateMany({
+        where: { orderId, provider: PaymentProviderName.COD, status: PaymentStatus.PENDING },
+        data: { status: PaymentStatus.SUCCEEDED, paidAt: new Date() },
+    });
+};
+
+/**
+ * Cancel every pending payment of an order (order cancelled).
+ * Must be called inside a transaction.
+ */
+export const cancelPendingPayments = async (tx: any, orderId: string) => {
+    await tx.payment.updateMany({
+        where: { orderId, status: PaymentStatus.PENDING },
+        data: { status: PaymentStatus.CANCELLED },
+    });
+};
+
+/**
+ * Helper: amount owed back for `quantity` units of an order line: the line's share of the
+ * coupon-discounted subtotal (coupons are shared pro rata) plus the VAT paid on those units.
+ */
+export const lineRefundAmount = (
+    order: { subtotal: Money; discount: Money },
+    item: { unitPrice: Money; quantity: number; taxAmount: Money },
+    quantity: number
+) => {
+    let net = multiplyMoney(item.unitPrice, quantity);
+    if (order.subtotal.greaterThan(0)) {
+        net = net.times(subtractMoney(order.subtotal, order.discount)).dividedBy(order.subtotal);
+    }
+    const tax = multiplyMoney(item.taxAmount, quantity).dividedBy(item.quantity);
+    return roundMoney(net.plus(tax));
+};
+
+/**
+ * Helper: open a PENDING refund on a succeeded payment, for `amount` or whatever is
+ * not refunded yet, never more than what is left of the payment.
+ */
+const openRefund = async (
+    tx: any,
+    payment: { id: string; orderId: string; provider: PaymentProviderName; amount: Money },
+    amount: Money | undefined,
+    data: { reason: string; shipmentId?: string | undefined }
+) => {
+    const refunded = await tx.refund.aggregate({ where: { paymentId: payment.id }, _sum: { amount: true } });
+    const remaining = subtractMoney(payment.amount, refunded._sum.amount ?? ZERO);
+    const value = roundMoney(amount ? minMoney(amount, remaining) : remaining);
+    if (!value.greaterThan(0)) return null;
+
+    return await tx.refund.create({
+        data: {
+            orderId: payment.orderId,
+            paymentId: payment.id,
+            method: payment.provider,
+            amount: value,
+            reason: data.reason,
+            shipmentId: data.shipmentId ?? null,
+        },
+    });
+};
+
+/**
+ * Void the payments of a cancelled order: pending attempts are cancelled and
+ * money already taken is owed back as a PENDING refund.
+ * Must be called inside a transaction.
+ */
+export const cancelOrderPayments = async (tx: any, orderId: string, reason: string) => {
+    await cancelPendingPayments(tx, orderId);
+
+    const paid = await tx.payment.findMany({ where: { orderId, status: PaymentStatus.SUCCEEDED } });
+    for (const payment of paid) {
+        await openRefund(tx, payment, undefined, { reason });
+    }
+};
+
+/**
+ * Owe back the lines of a cancelled shipment when the rest of a paid order goes ahead.
+ * Must be called inside a transaction.
+ */
+export const refundCancelledShipment = async (tx: any, shipmentId: string, reason: string) => {
+    const shipment = await tx.shipment.findUnique({
+        where: { id: shipmentId },
+        include: {
+            order: { select: { subtotal: true, discount: true } },
+            items: { select: { unitPrice: true, quantity: true, taxAmount: true } },
+        },
+    });
+    if (!shipment) return;
+
+    const payment = await tx.payment.findFirst({
+        where: { orderId: shipment.orderId, status: PaymentStatus.SUCCEEDED },
+        orderBy: { createdAt: "desc" },
+    });
+    if (!payment) return;
+
+    const amount = sumMoney(shipment.items, (it: any) => lineRefundAmount(shipment.order, it, it.quantity));
+    await openRefund(tx, payment, amount, { reason, shipmentId });
+};
+
+/**
+ * Move a payment to REFUNDED once its completed refunds cover it.
+ * Must be called inside a transaction.
+ */
+export const settleRefundedPayment = async (tx: any, paymentId: string | null) => {
+    if (!paymentId) return;
+    const payment = await tx.payment.findUnique({
+        where: { id: paymentId },
+        include: { refunds: { where: { status: RefundStatus.COMPLETED }, select: { amount: true } } },
+    });
+    if (payment && sumMoney(payment.refunds, (r: any) => r.amount).greaterThanOrEqualTo(payment.amount)) {
+        await tx.payment.update({ where: { id: payment.id }, data: { status: PaymentStatus.REFUNDED } });
+    }
+};
+
+/**
+ * Open a gateway session for a PENDING online payment.
+ * Runs outside the checkout transaction (network call); on failure the
+ * payment is marked FAILED and the customer can retry.
+ */
+const startPayment = async (paymentId: string) => {
+    const payment = await prisma.payment.findUnique({
+        where: { id: paymentId },
+        include: {
+            user: { select: { name: true, email: true } },
+            order: { select: { id: true, shippingName: true, shippingPhone: true, shippingAddress: true } },
+        },
+    });
+    if (!payment) throw new ServiceError("Payment not found", 404);
+    if (payment.provider === PaymentProviderName.COD) {
+        return { id: payment.id, provider: payment.provider, status: payment.status };
+    }
+
+    try {
+        const result = await getPaymentProvider(payment.provider).createPayment({
+            paymentId: payment.id,
+            orderId: payment.orderId,
+            amount: payment.amount,
+            currency: payment.currency,
+            customer: {
+                name: payment.order.shippingName || payment.user.name,
+                email: payment.user.email,
+                phone: payment.order.shippingPhone,
+                address: payment.order.shippingAddress,
+            },
+        });
+
+        const updated = await prisma.payment.update({
+            where: { id: payment.id },
+            data: { providerRef: result.providerRef, redirectUrl: result.redirectUrl ?? null },
+        });
+
+        return {
+            id: updated.id,
+            provider: updated.provider,
+            status: updated.status,
+            redirectUrl: result.redirectUrl,
+            clientSecret: result.clientSecret,
+        };
+    } catch (err: any) {
+        console.error("startPayment error:", err);
+        const reason = err?.message || "Failed to start payment";
+        await prisma.payment.update({
+            where: { id: payment.id },
+            data: { status: PaymentStatus.FAILED, failureReason: reason },
+        });
+        return { id: payment.id, provider: payment.provider, status: PaymentStatus.FAILED, failureReason: reason };
+    }
+};
+
+/**
+ * Customer (re)starts payment for an unpaid order, optionally switching provider.
+ * Previous pending online attempts are cancelled.
+ */
+const initiatePayment = async (user: User, orderId: string, method?: string) => {
+    const provider = normalizePaymentMethod(method);
+
+    try {
+        const payment = await prisma.$transaction(async (tx) => {
+            const order = await tx.order.findUnique({
+                where: { id: orderId },
+                include: { payments: { select: { status: true } } },
+            });
+            if (!order) throw new ServiceError("Order not found", 404);
+            if (order.userId !== user.id) throw new ServiceError("Unauthorized", 403);
+            if (order.status === "CANCELLED") throw new ServiceError("Order is cancelled", 400);
+            if (order.payments.some((p) => p.status === PaymentStatus.SUCCEEDED)) {
+                throw new ServiceError("Order is already paid", 409);
+            }
+
+            await cancelPendingPayments(tx, orderId);
+            return await createOrderPayment(tx, order, provider);
+        });
+
+        return await startPayment(payment.id);
+    } catch (err: any) {
+        if (err instanceof ServiceError) throw err;
+        console.error("initiatePayment error:", err);
+        throw new ServiceError("Failed to initiate payment", 500);
+    }
+};
+
+const getOrderPayments = async (user: User, orderId: string) => {
+    try {
+        const order = await prisma.order.findUnique({ where: { id: orderId }, select: { userId: true } });
+        if (!order) throw new ServiceError("Order not found", 404);
+        if (user.role !== "ADMIN" && order.userId !== user.id) throw new ServiceError("Unauthorized", 403);
+
+        return await prisma.payment.findMany({
+            where: { orderId },
+            orderBy: { createdAt: "desc" },
+            omit: { rawPayload: true },
+        });
+    } catch (err: any) {
+        if (err instanceof ServiceError) throw err;
+        console.error("getOrderPayments error:", err);
+        throw new ServiceError("Failed to fetch payments", 500);
+    }
+};
+
+/**
+ * Gateway callback (webhook / IPN).
+ * - Signature is verified by the provider adapter
+ * - Idempotent: each gateway event id is processed once; payments only leave PENDING once
+ * - Amount mismatch fails the payment instead of confirming the order
+ * - SUCCEEDED moves the order to CONFIRMS
+ * - A success reported for an attempt already cancelled is recorded; it is refunded when the
+ *   order was cancelled or paid by another attempt, otherwise it pays the order
+ */
+const handleWebhook = async (providerName: string, req: WebhookRequest) => {
+    const provider = getPaymentProvider(providerName);
+    const event = await provider.parseWebhook(req);
+    if (!event.eventId || !event.providerRef) throw new ServiceError("Malformed callback", 400);
+
+    try {
+        return await prisma.$transaction(async (tx) => {
+            const duplicate = await tx.paymentWebhookEvent.findUnique({
+                where: { provider_eventId: { provider: provider.name, eventId: event.eventId } },
+            });
+            if (duplicate) return { duplicate: true };
+
+            const payment = await tx.payment.findUnique({
+                where: { provider_providerRef: { provider: provider.name, providerRef: event.providerRef } },
+            });
+
+            await tx.paymentWebhookEvent.create({
+                data: {
+                    provider: provider.name,
+                    eventId: event.eventId,
+                    paymentId: payment?.id ?? null,
+                    payload: event.raw ?? {},
+                },
+            });
+
+            if (!payment || event.status === "IGNORED") return { ignored: true };
+            const lateSuccess = payment.status === PaymentStatus.CANCELLED && event.status === "SUCCEEDED";
+            if (payment.status !== PaymentStatus.PENDING && !lateSuccess) return { ignored: true, status: payment.status };
+
+            if (event.status === "SUCCEEDED" && event.amount !== undefined && !roundMoney(event.amount).equals(payment.amount)) {
+                await tx.payment.update({
+                    where: { id: payment.id },
+                    data: {
+                        status: PaymentStatus.FAILED,
+                        failureReason: `Amount mismatch: expected ${toMoneyString(payment.amount)}, received ${toMoneyString(event.amount)}`,
+                        rawPayload: event.raw ?? {},
+                    },
+                });
+                return { status: PaymentStatus.FAILED };
+            }
+
+            const status = event.status as PaymentStatus;
+            await tx.payment.update({
+                where: { id: payment.id },
+                data: {
+                    status,
+                    rawPayload: event.raw ?? {},
+                    paidAt: status === PaymentStatus.SUCCEEDED ? new Date() : null,
+                },
+            });
+
+            if (status === PaymentStatus.SUCCEEDED && lateSuccess) {
+                const [order, paidElsewhere] = await Promise.all([
+                    tx.order.findUnique({ where: { id: payment.orderId }, select: { status: true } }),
+                    tx.payment.count({
+                        where: { orderId: payment.orderId, status: PaymentStatus.SUCCEEDED, id: { not: payment.id } },
+                    }),
+                ]);
+                if (!order || order.status === "CANCELLED" || paidElsewhere > 0) {
+                    await openRefund(tx, payment, undefined, { reason: "Payment received after it was cancelled" });
+                    return { status, refunded: true };
+                }
+                // the customer's newer attempt is no longer needed
+                await cancelPendingPayments(tx, payment.orderId);
+            }
+
+            if (status === PaymentStatus.SUCCEEDED) {
+                await confirmPaidOrder(tx, payment.orderId);
+            }
+
+            return { status };
+        });
+    } catch (err: any) {
+        if (err instanceof ServiceError) throw err;
+        // concurrent delivery of the same event
+        if (err?.code === "P2002") return { duplicate: true };
+        console.error("handleWebhook error:", err);
+        throw new ServiceError("Failed to process payment callback", 500);
+    }
+};
+
+// Admin services: refunds of cancelled orders and shipments
+
+const listRefunds = async (opts: PaginationType & { status?: string | undefined }) => {
+    const { page, limit, skip, sortBy, sortOrder, status } = opts;
+    try {
+        const where: any = { returnRequestId: null };
+        if (status) where.status = status;
+
+        const [items, total] = await Promise.all([
+            prisma.refund.findMany({
+                where,
+                skip,
+                take: limit,
+                orderBy: { [sortBy]: sortOrder },
+                include: { payment: { select: { id: true, provider: true, providerRef: true, currency: true } } },
+            }),
+            prisma.refund.count({ where }),
+        ]);
+
+        return {
+            items,
+            pagination: {
+                total,
+                page,
+                limit,
+                totalPages: Math.ceil(total / limit),
+            },
+        };
+    } catch (err: any) {
+        console.error("listRefunds error:", err);
+        throw new ServiceError("Failed to fetch refunds", 500);
+    }
+};
+
+/**
+ * Mark the refund of a cancelled order or shipment as paid out.
+ * Refunds of returns are completed from the return request instead.
+ */
+const completeRefund = async (user: User, id: string, data: CompleteRefundType) => {
+    try {
+        return await prisma.$transaction(async (tx) => {
+            const refund = await tx.refund.findUnique({ where: { id } });
+            if (!refund) throw new ServiceError("Refund not found", 404);
+            if (refund.returnRequestId) {
+                throw new ServiceError("Refunds of returns are completed from the return request", 409);
+            }
+            if (refund.status === RefundStatus.COMPLETED) throw new ServiceError("Refund already completed", 409);
+
+            const updated = await tx.refund.update({
+                where: { id },
+                data: {
+                    status: RefundStatus.COMPLETED,
+                    reference: data.reference ?? null,
+                    processedBy: user.id,
+                    processedAt: new Date(),
+                },
+            });
+            await settleRefundedPayment(tx, refund.paymentId);
+
+            const order = await tx.order.findUnique({ where: { id: refund.orderId }, select: { status: true, currency: true } });
+            if (order) {
+                await tx.orderStatusHistory.create({
+                    data: {
+                        orderId: refund.orderId,
+                        shipmentId: refund.shipmentId,
+                        status: order.status,
+                        changedBy: user.id,
+                        notes: `Refund of ${formatMoney(refund.amount, order.currency)} issued via ${refund.method}`,
+                    },
+                });
+            }
+
+            return updated;
+        });
+    } catch (err: any) {
+        if (err instanceof ServiceError) throw err;
+        console.error("completeRefund error:", err);
+        throw new ServiceError("Failed to complete refund", 500);
+    }
+};
+
+export const paymentService = {
+    startPayment,
+    initiatePayment,
+    getOrderPayments,
+    handleWebhook,
+    listRefunds,
+    completeRefund,
+};
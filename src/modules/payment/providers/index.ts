@@ -0,0 +1,23 @@
+import { ServiceError } from "../../../lib/error";
+import { mockProvider } from "./mock.provider";
+import { sslcommerzProvider } from "./sslcommerz.provider";
+import { stripeProvider } from "./stripe.provider";
+import type { OnlineProviderName, PaymentProvider } from "./payment.provider";
+
+const providers: Record<OnlineProviderName, PaymentProvider> = {
+    MOCK: mockProvider,
+    STRIPE: stripeProvider,
+    SSLCOMMERZ: sslcommerzProvider,
+};
+
+/** Resolve an online gateway adapter by name (COD has no adapter) */
+export const getPaymentProvider = (name: string): PaymentProvider => {
+    const provider = providers[String(name).toUpperCase() as OnlineProviderName];
+    if (!provider) throw new ServiceError(`Unsupported payment provider: ${name}`, 400);
+    if (provider.name === "MOCK" && process.env.ENABLE_MOCK_PAYMENTS !== "true") {
+        throw new ServiceError("Mock payments are not enabled", 400);
+    }
+    return provider;
+};
+
+export type { PaymentProvider, OnlineProviderName, WebhookRequest } from "./payment.provider";
@@ -0,0 +1,58 @@
+import crypto from "crypto";
+import { ServiceError } from "../../../lib/error";
+import type { PaymentProvider } from "./payment.provider";
+import { money, toMoneyString } from "../../../lib/money";
+
+/** Helper: mock payments are opt-in and need their own signing secret */
+const secret = () => {
+    const value = process.env.MOCK_PAYMENT_SECRET;
+    if (process.env.ENABLE_MOCK_PAYMENTS !== "true" || !value) {
+        throw new ServiceError("Mock payments are not enabled", 503);
+    }
+    return value;
+};
+
+/** Helper: sign a mock callback body (used by tests / local tooling) */
+export const signMockPayload = (rawBody: string) =>
+    crypto.createHmac("sha256", secret()).update(rawBody).digest("hex");
+
+/**
+ * Local provider for development and tests, enabled with ENABLE_MOCK_PAYMENTS=true
+ * and a MOCK_PAYMENT_SECRET.
+ * Callbacks are JSON { eventId, providerRef, status, amount } signed with
+ * HMAC-SHA256 of the raw body in the "x-mock-signature" header.
+ */
+export const mockProvider: PaymentProvider = {
+    name: "MOCK",
+
+    createPayment: async (input) => {
+        secret();
+        const providerRef = `mock_${crypto.randomUUID()}`;
+        const appUrl = process.env.APP_URL || "http://localhost:3000";
+        return {
+            providerRef,
+            redirectUrl: `${appUrl}/payment/mock?ref=${providerRef}&amount=${toMoneyString(input.amount)}`,
+            raw: { providerRef, amount: toMoneyString(input.amount), currency: input.currency },
+        };
+    },
+
+    parseWebhook: async ({ headers, rawBody, body }) => {
+        const signature = headers["x-mock-signature"];
+        if (typeof signature !== "string" || !rawBody) throw new ServiceError("Missing signature", 401);
+
+        const expected = Buffer.from(signMockPayload(rawBody.toString("utf8")));
+        const received = Buffer.from(signature);
+        if (expected.length !== received.length || !crypto.timingSafeEqual(expected, received)) {
+            throw new ServiceError("Invalid signature", 401);
+        }
+
+        const status = String(body?.status ?? "").toUpperCase();
+        return {
+            eventId: String(body?.eventId ?? ""),
+            providerRef: String(body?.providerRef ?? ""),
+            status: status === "SUCCEEDED" || status === "FAILED" || status === "CANCELLED" ? status : "IGNORED",
+            amount: body?.amount !== undefined ? money(body.amount) : undefined,
+            raw: body,
+        };
+    },
+};
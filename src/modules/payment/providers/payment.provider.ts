@@ -0,0 +1,50 @@
+import type { IncomingHttpHeaders } from "http";
+import type { Money } from "../../../lib/money";
+
+export type OnlineProviderName = "MOCK" | "STRIPE" | "SSLCOMMERZ";
+
+export type CreatePaymentInput = {
+    paymentId: string;
+    orderId: string;
+    amount: Money;
+    currency: string;
+    customer: {
+        name: string;
+        email: string;
+        phone: string;
+        address: string;
+    };
+};
+
+export type CreatePaymentResult = {
+    providerRef: string;
+    redirectUrl?: string | undefined; // hosted page (SSLCommerz / bKash style)
+    clientSecret?: string | undefined; // card flow confirmed on the client (Stripe style)
+    raw?: any;
+};
+
+export type WebhookRequest = {
+    headers: IncomingHttpHeaders;
+    rawBody?: Buffer | undefined;
+    body: any;
+};
+
+export type WebhookResult = {
+    eventId: string;
+    providerRef: string;
+    status: "SUCCEEDED" | "FAILED" | "CANCELLED" | "IGNORED";
+    amount?: Money | undefined;
+    raw: any;
+};
+
+/**
+ * Contract every gateway adapter implements.
+ * - createPayment starts a payment for an order and returns what the client needs
+ * - parseWebhook verifies the callback signature and normalizes the outcome;
+ *   it must throw (ServiceError 401) when the signature is invalid
+ */
+export interface PaymentProvider {
+    name: OnlineProviderName;
+    createPayment(input: CreatePaymentInput): Promise<CreatePaymentResult>;
+    parseWebhook(req: WebhookRequest): Promise<WebhookResult>;
+}
@@ -0,0 +1,113 @@
+import crypto from "crypto";
+import { ServiceError } from "../../../lib/error";
+import type { PaymentProvider } from "./payment.provider";
+import { money, toMoneyString } from "../../../lib/money";
+
+const baseUrl = () =>
+    process.env.SSLCOMMERZ_SANDBOX === "false"
+        ? "https://securepay.sslcommerz.com"
+        : "https://sandbox.sslcommerz.com";
+
+const credentials = () => {
+    const storeId = process.env.SSLCOMMERZ_STORE_ID;
+    const storePassword = process.env.SSLCOMMERZ_STORE_PASSWORD;
+    if (!storeId || !storePassword) throw new ServiceError("Mobile wallet payments are not configured", 503);
+    return { storeId, storePassword };
+};
+
+const md5 = (value: string) => crypto.createHash("md5").update(value).digest("hex");
+
+/**
+ * Helper: verify IPN "verify_sign".
+ * Gateway signs the fields listed in verify_key plus md5(store_passwd), sorted by key.
+ */
+const isValidSignature = (body: Record<string, any>, storePassword: string) => {
+    const { verify_sign: verifySign, verify_key: verifyKey } = body;
+    if (typeof verifySign !== "string" || typeof verifyKey !== "string") return false;
+
+    const fields: Record<string, string> = { store_passwd: md5(storePassword) };
+    for (const key of verifyKey.split(",")) fields[key] = String(body[key] ?? "");
+
+    const payload = Object.keys(fields)
+        .sort()
+        .map((key) => `${key}=${fields[key]}`)
+        .join("&");
+    return md5(payload) === verifySign;
+};
+
+/**
+ * SSLCommerz / bKash style mobile-wallet flow.
+ * - createPayment opens a gateway session and returns the hosted page url
+ * - the gateway posts an IPN (form encoded) to /api/payments/webhooks/sslcommerz;
+ *   VALID callbacks are re-checked against the validation API
+ */
+export const sslcommerzProvider: PaymentProvider = {
+    name: "SSLCOMMERZ",
+
+    createPayment: async (input) => {
+        const { storeId, storePassword } = credentials();
+        const appUrl = process.env.APP_URL || "http://localhost:3000";
+        const apiUrl = process.env.BETTER_AUTH_URL || "http://localhost:5000";
+
+        const form = new URLSearchParams({
+            store_id: storeId,
+            store_passwd: storePassword,
+            total_amount: toMoneyString(input.amount),
+            currency: input.currency,
+            tran_id: input.paymentId,
+            success_url: `${appUrl}/payment/success?orderId=${input.orderId}`,
+            fail_url: `${appUrl}/payment/failed?orderId=${input.orderId}`,
+            cancel_url: `${appUrl}/payment/cancelled?orderId=${input.orderId}`,
+            ipn_url: `${apiUrl}/api/payments/webhooks/sslcommerz`,
+            cus_name: input.customer.name,
+            cus_email: input.customer.email,
+            cus_phone: input.customer.phone,
+            cus_add1: input.customer.address,
+            cus_country: "Bangladesh",
+            shipping_method: "NO",
+            product_name: `Order ${input.orderId}`,
+            product_category: "Medicine",
+            product_profile: "general",
+            value_a: input.orderId,
+        });
+
+        const res = await fetch(`${baseUrl()}/gwprocess/v4/api.php`, { method: "POST", body: form });
+        const data: any = await res.json();
+        if (!res.ok || data?.status !== "SUCCESS" || !data?.GatewayPageURL) {
+            throw new ServiceError(data?.failedreason || "Failed to start mobile wallet payment", 502);
+        }
+
+        return { providerRef: input.paymentId, redirectUrl: data.GatewayPageURL, raw: data };
+    },
+
+    parseWebhook: async ({ body }) => {
+        const { storeId, storePassword } = credentials();
+        if (!body || !isValidSignature(body, storePassword)) throw new ServiceError("Invalid signature", 401);
+
+        const gatewayStatus = String(body.status ?? "").toUpperCase();
+        let status: "SUCCEEDED" | "FAILED" | "CANCELLED" | "IGNORED" = "IGNORED";
+        if (gatewayStatus === "FAILED") status = "FAILED";
+        if (gatewayStatus === "CANCELLED") status = "CANCELLED";
+
+        if (gatewayStatus === "VALID" || gatewayStatus === "VALIDATED") {
+            const query = new URLSearchParams({
+                val_id: String(body.val_id ?? ""),
+                store_id: storeId,
+                store_passwd: storePassword,
+                format: "json",
+            });
+            const res = await fetch(`${baseUrl()}/validator/api/validationserverAPI.php?${query}`);
+            const validation: any = await res.json();
+            const validStatus = String(validation?.status ?? "").toUpperCase();
+            status = res.ok && (validStatus === "VALID" || validStatus === "VALIDATED") ? "SUCCEEDED" : "FAILED";
+        }
+
+        return {
+            eventId: String(body.val_id || `${body.tran_id}:${gatewayStatus}`),
+            providerRef: String(body.tran_id ?? ""),
+            status,
+            amount: body.amount !== undefined ? money(body.amount) : undefined,
+            raw: body,
+        };
+    },
+};
@@ -0,0 +1,93 @@
+import crypto from "crypto";
+import { ServiceError } from "../../../lib/error";
+import type { PaymentProvider } from "./payment.provider";
+import { money, roundMoney, type Money } from "../../../lib/money";
+
+const STRIPE_API = "https://api.stripe.com/v1";
+const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+/** Helper: Stripe amounts are integers in the currency's minor unit */
+const toMinorUnits = (amount: Money) => roundMoney(amount).times(100).toNumber();
+
+/**
+ * Stripe-style card flow.
+ * - createPayment creates a PaymentIntent; the client confirms it with clientSecret
+ * - webhooks are verified with the "stripe-signature" header (t=...,v1=...)
+ */
+export const stripeProvider: PaymentProvider = {
+    name: "STRIPE",
+
+    createPayment: async (input) => {
+        const secretKey = process.env.STRIPE_SECRET_KEY;
+        if (!secretKey) throw new ServiceError("Card payments are not configured", 503);
+
+        const form = new URLSearchParams({
+            amount: String(toMinorUnits(input.amount)),
+            currency: input.currency.toLowerCase(),
+            "automatic_payment_methods[enabled]": "true",
+            "metadata[orderId]": input.orderId,
+            "metadata[paymentId]": input.paymentId,
+            receipt_email: input.customer.email,
+        });
+
+        const res = await fetch(`${STRIPE_API}/payment_intents`, {
+            method: "POST",
+            headers: {
+                Authorization: `Bearer ${secretKey}`,
+                "Content-Type": "application/x-www-form-urlencoded",
+                "Idempotency-Key": input.paymentId,
+            },
+            body: form,
+        });
+        const data: any = await res.json();
+        if (!res.ok) {
+            throw new ServiceError(data?.error?.message || "Failed to create card payment", 502);
+        }
+
+        return { providerRef: data.id, clientSecret: data.client_secret, raw: data };
+    },
+
+    parseWebhook: async ({ headers, rawBody }) => {
+        const webhookSecret = process.env.STRIPE_WEBHOOK_SECRET;
+        if (!webhookSecret) throw new ServiceError("Card payments are not configured", 503);
+
+        const header = headers["stripe-signature"];
+        if (typeof header !== "string" || !rawBody) throw new ServiceError("Missing signature", 401);
+
+        const parts = Object.fromEntries(header.split(",").map((kv) => kv.split("=") as [string, string]));
+        const timestamp = Number(parts["t"]);
+        const signatures = header.split(",").filter((kv) => kv.startsWith("v1=")).map((kv) => kv.slice(3));
+        if (!timestamp || signatures.length === 0) throw new ServiceError("Invalid signature", 401);
+
+        if (Math.abs(Date.now() / 1000 - timestamp) > SIGNATURE_TOLERANCE_SECONDS) {
+            throw new ServiceError("Signature timestamp outside tolerance", 401);
+        }
+
+        const expected = Buffer.from(
+            crypto.createHmac("sha256", webhookSecret).update(`${timestamp}.${rawBody.toString("utf8")}`).digest("hex")
+        );
+        const valid = signatures.some((sig) => {
+            const received = Buffer.from(sig);
+            return received.length === expected.length && crypto.timingSafeEqual(received, expected);
+        });
+        if (!valid) throw new ServiceError("Invalid signature", 401);
+
+        const event = JSON.parse(rawBody.toString("utf8"));
+        const intent = event?.data?.object ?? {};
+        const statusByType: Record<string, "SUCCEEDED" | "FAILED" | "CANCELLED"> = {
+            "payment_intent.succeeded": "SUCCEEDED",
+            "payment_intent.payment_failed": "FAILED",
+            "payment_intent.canceled": "CANCELLED",
+        };
+
+        return {
+            eventId: String(event?.id ?? ""),
+            providerRef: String(intent.id ?? ""),
+            status: statusByType[event?.type] ?? "IGNORED",
+            amount: typeof intent.amount_received === "number" && intent.amount_received > 0
+                ? money(intent.amount_received).dividedBy(100)
+                : undefined,
+            raw: event,
+        };
+    },
+};
@@ -0,0 +1,167 @@
+import { Request, Response } from "express";
+import { payoutService } from "./payout.service";
+import { ServiceError } from "../../lib/error";
+import paginationSortingHelpers from "../../helpers/paginationSortingHelpers";
+
+const send = (res: Response, code: number, message: string, data?: any) =>
+    res.status(code).json({ message, data });
+
+const sendError = (res: Response, err: any, fallback: string) => {
+    const status = err instanceof ServiceError ? err.statusCode : 500;
+    const message = err?.message || fallback;
+    const details = err instanceof ServiceError ? err.details : undefined;
+    return res.status(status).json({ message, details });
+};
+
+const text = (req: Request, key: string) =>
+    typeof req.query[key] === "string" ? (req.query[key] as string).trim() || undefined : undefined;
+
+/**
+ * GET /api/payouts/balance (admins: ?sellerId=)
+ */
+const getBalance = async (req: Request, res: Response) => {
+    try {
+        const user = (req as any).user;
+        if (!user?.id) return send(res, 401, "Unauthorized");
+
+        const balance = await payoutService.getBalance(user, text(req, "sellerId"));
+        return send(res, 200, "Balance fetched", balance);
+    } catch (err) {
+        return sendError(res, err, "Failed to fetch balance");
+    }
+};
+
+/**
+ * GET /api/payouts/ledger?type=SALE|REFUND|PAYOUT (admins: &sellerId=)
+ */
+const listLedger = async (req: Request, res: Response) => {
+    try {
+        const user = (req as any).user;
+        if (!user?.id) return send(res, 401, "Unauthorized");
+
+        const { page, limit, skip } = paginationSortingHelpers(req.query);
+        const data = await payoutService.listLedger(user, { page, limit, skip, sellerId: text(req, "sellerId"), type: text(req, "type") });
+        return send(res, 200, "Ledger fetched", data);
+    } catch (err) {
+        return sendError(res, err, "Failed to fetch ledger");
+    }
+};
+
+/**
+ * GET /api/payouts/statement?from=2026-10-01&to=2026-10-31&format=json|csv|xlsx (admins: &sellerId=)
+ */
+const getStatement = async (req: Request, res: Response) => {
+    try {
+        const user = (req as any).user;
+        if (!user?.id) return send(res, 401, "Unauthorized");
+
+        const statement = await payoutService.getStatement(user, {
+            sellerId: text(req, "sellerId"),
+            from: text(req, "from"),
+            to: text(req, "to"),
+        });
+        const format = text(req, "format") ?? "json";
+        if (format.toLowerCase() === "json") return send(res, 200, "Statement fetched", statement);
+
+        const file = payoutService.statementFile(statement, format);
+        res.setHeader("Content-Type", file.contentType);
+        res.setHeader("Content-Disposition", `attachment; filename="${file.fileName}"`);
+        return res.status(200).send(file.body);
+    } catch (err) {
+        return sendError(res, err, "Failed to build statement");
+    }
+};
+
+/**
+ * POST /api/payouts
+ * body: { amount, note? }
+ */
+const requestPayout = async (req: Request, res: Response) => {
+    try {
+        const user = (req as any).user;
+        if (!user?.id) return send(res, 401, "Unauthorized");
+
+        const payout = await payoutService.requestPayout(user, req.body ?? {});
+        return send(res, 201, "Payout requested", payout);
+    } catch (err) {
+        return sendError(res, err, "Failed to request payout");
+    }
+};
+
+/**
+ * GET /api/payouts?status=REQUESTED (admins: &sellerId=)
+ */
+const listPayouts = async (req: Request, res: Response) => {
+    try {
+        const user = (req as any).user;
+        if (!user?.id) return send(res, 401, "Unauthorized");
+
+        const { page, limit, skip } = paginationSortingHelpers(req.query);
+        const data = await payoutService.listPayouts(user, { page, limit, skip, sellerId: text(req, "sellerId"), status: text(req, "status") });
+        return send(res, 200, "Payouts fetched", data);
+    } catch (err) {
+        return sendError(res, err, "Failed to fetch payouts");
+    }
+};
+
+/**
+ * PATCH /api/payouts/:id/review
+ * body: { decision: "APPROVE" | "REJECT", reference?, note? }
+ */
+const reviewPayout = async (req: Request, res: Response) => {
+    try {
+        const user = (req as any).user;
+        if (!user?.id) return send(res, 401, "Unauthorized");
+
+        const payout = await payoutService.reviewPayout(user, req.params.id as string, req.body ?? {});
+        return send(res, 200, "Payout reviewed", payout);
+    } catch (err) {
+        return sendError(res, err, "Failed to review payout");
+    }
+};
+
+const listCommissionRates = async (_req: Request, res: Response) => {
+    try {
+        const rates = await payoutService.listCommissionRates();
+        return send(res, 200, "Commission rates fetched", rates);
+    } catch (err) {
+        return sendError(res, err, "Failed to fetch commission rates");
+    }
+};
+
+/**
+ * PUT /api/payouts/commission-rates
+ * body: { rate, categoryId? | sellerId? } - neither sets the global rate
+ */
+const setCommissionRate = async (req: Request, res: Response) => {
+    try {
+        const user = (req as any).user;
+        if (!user?.id) return send(res, 401, "Unauthorized");
+
+        const rate = await payoutService.setCommissionRate(user, req.body ?? {});
+        return send(res, 200, "Commission rate saved", rate);
+    } catch (err) {
+        return sendError(res, err, "Failed to set commission rate");
+    }
+};
+
+const deleteCommissionRate = async (req: Request, res: Response) => {
+    try {
+        await payoutService.deleteCommissionRate(req.params.id as string);
+        return send(res, 200, "Commission rate deleted");
+    } catch (err) {
+        return sendError(res, err, "Failed to delete commission rate");
+    }
+};
+
+export const payoutController = {
+    getBalance,
+    listLedger,
+    getStatement,
+    requestPayout,
+    listPayouts,
+    reviewPayout,
+    listCommissionRates,
+    setCommissionRate,
+    deleteCommissionRate,
+};
@@ -0,0 +1,23 @@
+import { Router } from "express";
+import { payoutController } from "./payout.controller";
+import auth from "../../middleware/auth";
+import { UserRole } from "../../types";
+
+const router = Router();
+
+// Admin: commission rates
+router.get("/commission-rates", auth(UserRole.ADMIN), payoutController.listCommissionRates);
+router.put("/commission-rates", auth(UserRole.ADMIN), payoutController.setCommissionRate);
+router.delete("/commission-rates/:id", auth(UserRole.ADMIN), payoutController.deleteCommissionRate);
+
+// Seller balance and statements (admins pass ?sellerId=)
+router.get("/balance", auth(UserRole.SELLER, UserRole.ADMIN), payoutController.getBalance);
+router.get("/ledger", auth(UserRole.SELLER, UserRole.ADMIN), payoutController.listLedger);
+router.get("/statement", auth(UserRole.SELLER, UserRole.ADMIN), payoutController.getStatement);
+
+// Payout requests
+router.post("/", auth(UserRole.SELLER), payoutController.requestPayout);
+router.get("/", auth(UserRole.SELLER, UserRole.ADMIN), payoutController.listPayouts);
+router.patch("/:id/review", auth(UserRole.ADMIN), payoutController.reviewPayout);
+
+export const payoutRouter = router;
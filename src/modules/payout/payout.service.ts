@@ -0,0 +1,547 @@
+import { prisma } from "../../lib/prisma";
+import { ServiceError } from "../../lib/error";
+import type { User } from "../../generated/prisma/client";
+import { LedgerEntryType, PayoutStatus } from "../../generated/prisma/enums";
+import toCsv from "../../helpers/csvHelpers";
+import { toXlsx, XLSX_CONTENT_TYPE } from "../../helpers/xlsxHelpers";
+import {
+    DEFAULT_CURRENCY,
+    formatMoney,
+    maxMoney,
+    money,
+    multiplyMoney,
+    parseMoney,
+    percentOf,
+    roundMoney,
+    subtractMoney,
+    toMoneyString,
+    ZERO,
+    type Money,
+} from "../../lib/money";
+
+type CommissionRateInput = {
+    categoryId?: string | null;
+    sellerId?: string | null;
+    rate?: number | string;
+};
+
+type PayoutInput = {
+    amount?: number | string;
+    note?: string | null;
+};
+
+type ReviewPayoutType = {
+    decision?: string;
+    reference?: string | null;
+    note?: string | null;
+};
+
+type PaginationType = {
+    page: number;
+    limit: number;
+    skip: number;
+};
+
+type LedgerFilters = PaginationType & {
+    sellerId?: string | undefined;
+    type?: string | undefined;
+};
+
+type PayoutFilters = PaginationType & {
+    sellerId?: string | undefined;
+    status?: string | undefined;
+};
+
+type StatementOptions = {
+    sellerId?: string | undefined;
+    from?: string | undefined;
+    to?: string | undefined;
+};
+
+type LedgerRow = {
+    type: LedgerEntryType;
+    amount: Money;
+    commission: Money | null;
+};
+
+/** Review decision -> resulting status */
+const DECISIONS: Record<string, PayoutStatus> = {
+    APPROVE: PayoutStatus.PAID,
+    REJECT: PayoutStatus.REJECTED,
+};
+
+const STATEMENT_COLUMNS = ["date", "type", "description", "orderId", "grossAmount", "commissionRate", "commission", "amount", "balance"] as const;
+
+const parseRate = (raw: unknown) => {
+    const rate = Number(raw);
+    if (raw === undefined || raw === null || raw === "" || Number.isNaN(rate) || rate < 0 || rate > 100) {
+        throw new ServiceError("rate must be between 0 and 100", 400);
+    }
+    return rate;
+};
+
+/** Helper: admins pick the seller, sellers always see their own */
+const sellerScope = (user: User, sellerId?: string) => {
+    if (user.role !== "ADMIN") return user.id;
+    if (!sellerId) throw new ServiceError("sellerId is required", 400);
+    return sellerId;
+};
+
+/** Helper: parse a date; a bare YYYY-MM-DD upper bound includes that whole day */
+const parseDate = (value: string | undefined, field: string, endOfDay = false) => {
+    if (!value) return undefined;
+    const date = new Date(value);
+    if (isNaN(date.getTime())) throw new ServiceError(`Invalid ${field} date`, 400);
+    if (endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value)) date.setUTCDate(date.getUTCDate() + 1);
+    return date;
+};
+
+/**
+ * Helper: commission % for a seller's medicine in a category.
+ * Seller rate > category rate > global rate > 0.
+ */
+export const resolveCommissionRate = async (tx: any, sellerId: string, categoryId: string | null) => {
+    const rates: { sellerId: string | null; categoryId: string | null; rate: number }[] = await tx.commissionRate.findMany({
+        where: { OR: [{ sellerId }, ...(categoryId ? [{ categoryId }] : []), { sellerId: null, categoryId: null }] },
+    });
+    const rate =
+        rates.find((r) => r.sellerId === sellerId) ??
+        rates.find((r) => categoryId && r.categoryId === categoryId) ??
+        rates.find((r) => !r.sellerId && !r.categoryId);
+    return rate?.rate ?? 0;
+};
+
+/**
+ * Helper: credit sellers for delivered order items not credited yet.
+ * The sale is the line total less its share of the order's coupon discount, in the store
+ * currency (VAT and shipping are not seller revenue); the platform commission is taken off.
+ * Must be called inside a transaction.
+ */
+export const creditDeliveredItems = async (tx: any, where: { orderId?: string; shipmentId?: string }) => {
+    const items = await tx.orderItem.findMany({
+        where: { ...where, orderItemStatus: { not: "CANCELLED" }, ledgerEntries: { none: { type: LedgerEntryType.SALE } } },
+        include: {
+            order: { select: { subtotal: true, discount: true, exchangeRate: true } },
+            medicine: { select: { name: true, sellerId: true, categoryId: true } },
+        },
+    });
+
+    for (const item of items) {
+        const sellerId = item.medicine.sellerId;
+        if (!sellerId) continue;
+
+        let net = multiplyMoney(item.unitPrice, item.quantity);
+        if (item.order.subtotal.greaterThan(0)) {
+            net = net.times(subtractMoney(item.order.subtotal, item.order.discount)).dividedBy(item.order.subtotal);
+        }
+        const gross = roundMoney(net.dividedBy(item.order.exchangeRate));
+        const rate = await resolveCommissionRate(tx, sellerId, item.medicine.categoryId);
+        const commission = roundMoney(percentOf(gross, rate));
+
+        await tx.sellerLedgerEntry.create({
+            data: {
+                sellerId,
+                type: LedgerEntryType.SALE,
+                amount: subtractMoney(gross, commission),
+                grossAmount: gross,
+                commission,
+                commissionRate: rate,
+                orderId: item.orderId,
+                orderItemId: item.id,
+                description: `${item.quantity} x ${item.medicine.name}`,
+            },
+        });
+    }
+};
+
+/**
+ * Helper: debit the seller for a completed refund - the refunded units' share of the
+ * sale credit, with the platform handing back its commission on them.
+ * Must be called inside a transaction.
+ */
+export const debitRefund = async (tx: any, refund: { id: string; orderItemId: string; quantity: number }) => {
+    const [sale, existing] = await Promise.all([
+        tx.sellerLedgerEntry.findFirst({
+            where: { orderItemId: refund.orderItemId, type: LedgerEntryType.SALE },
+            include: { orderItem: { select: { quantity: true } } },
+        }),
+        tx.sellerLedgerEntry.findUnique({ where: { refundId: refund.id } }),
+    ]);
+    if (!sale?.orderItem || existing) return;
+
+    const share = (value: Money) => roundMoney(multiplyMoney(value, refund.quantity).dividedBy(sale.orderItem.quantity));
+    const gross = share(sale.grossAmount ?? sale.amount);
+    const commission = share(sale.commission ?? ZERO);
+
+    await tx.sellerLedgerEntry.create({
+        data: {
+            sellerId: sale.sellerId,
+            type: LedgerEntryType.REFUND,
+            amount: subtractMoney(commission, gross),
+            grossAmount: gross.negated(),
+            commission: commission.negated(),
+            commissionRate: sale.commissionRate,
+            orderId: sale.orderId,
+            orderItemId: refund.orderItemId,
+            refundId: refund.id,
+            description: `Refund of ${refund.quantity} unit(s)`,
+        },
+    });
+};
+
+/** Helper: ledger balance, optionally as it stood before a date */
+const balanceOf = async (tx: any, sellerId: string, before?: Date) => {
+    const agg = await tx.sellerLedgerEntry.aggregate({
+        where: { sellerId, ...(before && { createdAt: { lt: before } }) },
+        _sum: { amount: true },
+    });
+    return money(agg._sum.amount);
+};
+
+/** Helper: sum of payout requests still waiting for review */
+const pendingPayoutsOf = async (tx: any, sellerId: string) => {
+    const agg = await tx.payoutRequest.aggregate({
+        where: { sellerId, status: PayoutStatus.REQUESTED },
+        _sum: { amount: true },
+    });
+    return money(agg._sum.amount);
+};
+
+/** Helper: sales, refunds, payouts (as positive amounts) and net commission of ledger rows */
+const totalsOf = (rows: LedgerRow[]) => {
+    const sum = (type: LedgerEntryType, pick: (r: LedgerRow) => Money | null) =>
+        rows.filter((r) => r.type === type).reduce<Money>((total, r) => total.plus(money(pick(r))), ZERO);
+    return {
+        sales: sum(LedgerEntryType.SALE, (r) => r.amount),
+        refunds: sum(LedgerEntryType.REFUND, (r) => r.amount).negated(),
+        payouts: sum(LedgerEntryType.PAYOUT, (r) => r.amount).negated(),
+        commission: sum(LedgerEntryType.SALE, (r) => r.commission).plus(sum(LedgerEntryType.REFUND, (r) => r.commission)),
+    };
+};
+
+/** Balance, amount held by open payout requests and what can still be requested */
+const getBalance = async (user: User, sellerId?: string) => {
+    const id = sellerScope(user, sellerId);
+    try {
+        const [balance, pendingPayouts, byType] = await Promise.all([
+            balanceOf(prisma, id),
+            pendingPayoutsOf(prisma, id),
+            prisma.sellerLedgerEntry.groupBy({ by: ["type"], where: { sellerId: id }, _sum: { amount: true, commission: true } }),
+        ]);
+        const totals = totalsOf(
+            byType.map((t) => ({ type: t.type, amount: money(t._sum.amount), commission: t._sum.commission }))
+        );
+
+        return {
+            sellerId: id,
+            currency: DEFAULT_CURRENCY,
+            balance,
+            pendingPayouts,
+            available: maxMoney(subtractMoney(balance, pendingPayouts), ZERO),
+            totals,
+        };
+    } catch (err: any) {
+        console.error("getBalance error:", err);
+        throw new ServiceError("Failed to fetch balance", 500);
+    }
+};
+
+const listLedger = async (user: User, filters: LedgerFilters) => {
+    const sellerId = sellerScope(user, filters.sellerId);
+    const type = filters.type?.toUpperCase() as LedgerEntryType | undefined;
+    if (type && !Object.values(LedgerEntryType).includes(type)) {
+        throw new ServiceError(`type must be one of ${Object.values(LedgerEntryType).join(", ")}`, 400);
+    }
+    const { page, limit, skip } = filters;
+
+    try {
+        const where = { sellerId, ...(type && { type }) };
+        const [items, total] = await Promise.all([
+            prisma.sellerLedgerEntry.findMany({ where, skip, take: limit, orderBy: { createdAt: "desc" } }),
+            prisma.sellerLedgerEntry.count({ where }),
+        ]);
+
+        return {
+            items,
+            pagination: {
+                total,
+                page,
+                limit,
+                totalPages: Math.ceil(total / limit),
+            },
+        };
+    } catch (err: any) {
+        console.error("listLedger error:", err);
+        throw new ServiceError("Failed to fetch ledger", 500);
+    }
+};
+
+/**
+ * Settlement statement for a period (default: the current month so far):
+ * opening balance, every entry with the running balance, period totals and closing balance.
+ */
+const getStatement = async (user: User, opts: StatementOptions) => {
+    const sellerId = sellerScope(user, opts.sellerId);
+    const now = new Date();
+    const from = parseDate(opts.from, "from") ?? new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+    const to = parseDate(opts.to, "to", true) ?? now;
+    if (from >= to) throw new ServiceError("from must be before to", 400);
+
+    try {
+        const [seller, openingBalance, entries] = await Promise.all([
+            prisma.user.findUnique({
+                where: { id: sellerId },
+                select: { id: true, name: true, email: true, sellerProfile: { select: { storeName: true } } },
+            }),
+            balanceOf(prisma, sellerId, from),
+            prisma.sellerLedgerEntry.findMany({
+                where: { sellerId, createdAt: { gte: from, lt: to } },
+                orderBy: { createdAt: "asc" },
+            }),
+        ]);
+        if (!seller) throw new ServiceError("Seller not found", 404);
+
+        let balance = openingBalance;
+        const rows = entries.map((entry) => {
+            balance = balance.plus(entry.amount);
+            return { ...entry, balance };
+        });
+
+        return {
+            seller,
+            currency: DEFAULT_CURRENCY,
+            period: { from, to },
+            openingBalance,
+            totals: totalsOf(entries),
+            closingBalance: balance,
+            entries: rows,
+        };
+    } catch (err: any) {
+        if (err instanceof ServiceError) throw err;
+        console.error("getStatement error:", err);
+        throw new ServiceError("Failed to build statement", 500);
+    }
+};
+
+/** A statement as a CSV or XLSX download (one row per ledger entry) */
+const statementFile = (statement: Awaited<ReturnType<typeof getStatement>>, format: string) => {
+    const type = format.toLowerCase();
+    if (type !== "csv" && type !== "xlsx") throw new ServiceError("format must be json, csv or xlsx", 400);
+
+    const rows = statement.entries.map((e) => ({
+        date: e.createdAt,
+        type: e.type,
+        description: e.description,
+        orderId: e.orderId,
+        grossAmount: e.grossAmount === null ? null : toMoneyString(e.grossAmount),
+        commissionRate: e.commissionRate,
+        commission: e.commission === null ? null : toMoneyString(e.commission),
+        amount: toMoneyString(e.amount),
+        balance: toMoneyString(e.balance),
+    }));
+    const columns = [...STATEMENT_COLUMNS];
+    const day = (d: Date) => d.toISOString().slice(0, 10);
+    // the period end is exclusive; name the file after its last day
+    const fileName = `statement-${day(statement.period.from)}-${day(new Date(statement.period.to.getTime() - 1))}.${type}`;
+
+    return type === "xlsx"
+        ? { fileName, contentType: XLSX_CONTENT_TYPE, body: toXlsx(columns, rows, "Statement") }
+        : { fileName, contentType: "text/csv; charset=utf-8", body: toCsv(columns, rows) };
+};
+
+/** Seller asks to be paid out; the amount cannot exceed the balance not already requested */
+const requestPayout = async (user: User, data: PayoutInput) => {
+    const amount = parseMoney(data.amount, "amount");
+    if (!amount || amount.isZero()) throw new ServiceError("amount must be greater than 0", 400);
+    const note = typeof data.note === "string" ? data.note.trim() || null : null;
+
+    try {
+        return await prisma.$transaction(async (tx) => {
+            const [balance, pending] = await Promise.all([balanceOf(tx, user.id), pendingPayoutsOf(tx, user.id)]);
+            const available = subtractMoney(balance, pending);
+            if (amount.greaterThan(available)) {
+                throw new ServiceError(
+                    `Requested ${formatMoney(amount)} exceeds your available balance of ${formatMoney(maxMoney(available, ZERO))}`,
+                    409
+                );
+            }
+            return await tx.payoutRequest.create({ data: { sellerId: user.id, amount, note } });
+        });
+    } catch (err: any) {
+        if (err instanceof ServiceError) throw err;
+        console.error("requestPayout error:", err);
+        throw new ServiceError("Failed to request payout", 500);
+    }
+};
+
+/** Sellers see their own requests; admins see all (oldest open request first) */
+const listPayouts = async (user: User, filters: PayoutFilters) => {
+    const status = filters.status?.toUpperCase() as PayoutStatus | undefined;
+    if (status && !Object.values(PayoutStatus).includes(status)) {
+        throw new ServiceError(`status must be one of ${Object.values(PayoutStatus).join(", ")}`, 400);
+    }
+    const sellerId = user.role === "ADMIN" ? filters.sellerId : user.id;
+    const { page, limit, skip } = filters;
+
+    try {
+        const where = { ...(sellerId && { sellerId }), ...(status && { status }) };
+        const [items, total] = await Promise.all([
+            prisma.payoutRequest.findMany({
+                where,
+                skip,
+                take: limit,
+                orderBy: { createdAt: user.role === "ADMIN" ? "asc" : "desc" },
+                include: { seller: { select: { id: true, name: true, email: true } } },
+            }),
+            prisma.payoutRequest.count({ where }),
+        ]);
+
+        return {
+            items,
+            pagination: {
+                total,
+                page,
+                limit,
+                totalPages: Math.ceil(total / limit),
+            },
+        };
+    } catch (err: any) {
+        console.error("listPayouts error:", err);
+        throw new ServiceError("Failed to fetch payouts", 500);
+    }
+};
+
+/**
+ * Admin settles (APPROVE, with the transfer reference) or rejects (with a note) a payout request.
+ * Settling debits the seller's balance.
+ */
+const reviewPayout = async (admin: User, id: string, data: ReviewPayoutType) => {
+    const decision = String(data.decision ?? "").toUpperCase();
+    const status = DECISIONS[decision];
+    if (!status) throw new ServiceError(`decision must be one of ${Object.keys(DECISIONS).join(", ")}`, 400);
+    const reference = typeof data.reference === "string" ? data.reference.trim() : "";
+    const note = typeof data.note === "string" ? data.note.trim() : "";
+    if (status === PayoutStatus.PAID && !reference) throw new ServiceError("reference is required when settling a payout", 400);
+    if (status === PayoutStatus.REJECTED && !note) throw new ServiceError("A note is required when rejecting a payout", 400);
+
+    try {
+        return await prisma.$transaction(async (tx) => {
+            const payout = await tx.payoutRequest.findUnique({ where: { id } });
+            if (!payout) throw new ServiceError("Payout request not found", 404);
+            if (payout.status !== PayoutStatus.REQUESTED) {
+                throw new ServiceError(`Payout request is already ${payout.status}`, 409);
+            }
+
+            if (status === PayoutStatus.PAID) {
+                // refunds since the request may have lowered the balance
+                const balance = await balanceOf(tx, payout.sellerId);
+                if (payout.amount.greaterThan(balance)) {
+                    throw new ServiceError(`Seller balance of ${formatMoney(balance)} no longer covers this payout`, 409);
+                }
+                await tx.sellerLedgerEntry.create({
+                    data: {
+                        sellerId: payout.sellerId,
+                        type: LedgerEntryType.PAYOUT,
+                        amount: payout.amount.negated(),
+                        payoutId: payout.id,
+                        description: `Payout ${reference}`,
+                    },
+                });
+            }
+
+            return await tx.payoutRequest.update({
+                where: { id },
+                data: {
+                    status,
+                    reference: reference || null,
+                    reviewNote: note || null,
+                    reviewedBy: admin.id,
+                    reviewedAt: new Date(),
+                },
+                include: { seller: { select: { id: true, name: true, email: true } } },
+            });
+        });
+    } catch (err: any) {
+        if (err instanceof ServiceError) throw err;
+        console.error("reviewPayout error:", err);
+        throw new ServiceError("Failed to review payout", 500);
+    }
+};
+
+/** Global rate first, then category and seller overrides */
+const listCommissionRates = async () => {
+    try {
+        const rates = await prisma.commissionRate.findMany({
+            include: {
+                category: { select: { id: true, name: true } },
+                seller: { select: { id: true, name: true, email: true } },
+            },
+            orderBy: { createdAt: "asc" },
+        });
+        const rank = (r: { categoryId: string | null; sellerId: string | null }) => (r.sellerId ? 2 : r.categoryId ? 1 : 0);
+        return rates.sort((a, b) => rank(a) - rank(b));
+    } catch (err: any) {
+        console.error("listCommissionRates error:", err);
+        throw new ServiceError("Failed to fetch commission rates", 500);
+    }
+};
+
+/** Set the global rate, or a category or seller override (one of categoryId / sellerId) */
+const setCommissionRate = async (admin: User, data: CommissionRateInput) => {
+    const rate = parseRate(data.rate);
+    const categoryId = data.categoryId || null;
+    const sellerId = data.sellerId || null;
+    if (categoryId && sellerId) throw new ServiceError("Set either categoryId or sellerId, not both", 400);
+
+    try {
+        if (categoryId && !(await prisma.category.findUnique({ where: { id: categoryId }, select: { id: true } }))) {
+            throw new ServiceError("Category not found", 404);
+        }
+        if (sellerId) {
+            const seller = await prisma.user.findUnique({ where: { id: sellerId }, select: { role: true } });
+            if (!seller || seller.role !== "SELLER") throw new ServiceError("Seller not found", 404);
+        }
+
+        if (categoryId || sellerId) {
+            return await prisma.commissionRate.upsert({
+                where: categoryId ? { categoryId } : { sellerId: sellerId! },
+                create: { categoryId, sellerId, rate, updatedBy: admin.id },
+                update: { rate, updatedBy: admin.id },
+            });
+        }
+
+        const global = await prisma.commissionRate.findFirst({ where: { categoryId: null, sellerId: null } });
+        return global
+            ? await prisma.commissionRate.update({ where: { id: global.id }, data: { rate, updatedBy: admin.id } })
+            : await prisma.commissionRate.create({ data: { rate, updatedBy: admin.id } });
+    } catch (err: any) {
+        if (err instanceof ServiceError) throw err;
+        console.error("setCommissionRate error:", err);
+        throw new ServiceError("Failed to set commission rate", 500);
+    }
+};
+
+const deleteCommissionRate = async (id: string) => {
+    const rate = await prisma.commissionRate.findUnique({ where: { id } });
+    if (!rate) throw new ServiceError("Commission rate not found", 404);
+
+    try {
+        await prisma.commissionRate.delete({ where: { id } });
+    } catch (err: any) {
+        console.error("deleteCommissionRate error:", err);
+        throw new ServiceError("Failed to delete commission rate", 500);
+    }
+};
+
+export const payoutService = {
+    getBalance,
+    listLedger,
+    getStatement,
+    statementFile,
+    requestPayout,
+    listPayouts,
+    reviewPayout,
+    listCommissionRates,
+    setCommissionRate,
+    deleteCommissionRate,
+};
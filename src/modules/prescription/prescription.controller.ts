@@ -0,0 +1,126 @@
+import { Request, Response } from "express";
+import { prescriptionService } from "./prescription.service";
+import { ServiceError } from "../../lib/error";
+import paginationSortingHelpers from "../../helpers/paginationSortingHelpers";
+
+const send = (res: Response, code: number, message: string, data?: any) =>
+    res.status(code).json({ message, data });
+
+const sendError = (res: Response, err: any, fallback: string) => {
+    const status = err instanceof ServiceError ? err.statusCode : 500;
+    const message = err?.message || fallback;
+    const details = err instanceof ServiceError ? err.details : undefined;
+    return res.status(status).json({ message, details });
+};
+
+/**
+ * POST /api/prescriptions
+ * Customer uploads prescription metadata (file already stored, body: { fileUrl, ... })
+ */
+const createPrescription = async (req: Request, res: Response) => {
+    try {
+        const userId = req.user?.id;
+        if (!userId) return send(res, 401, "Unauthorized");
+
+        const { fileUrl, fileType, patientName, doctorName, doctorRegNo, issueDate, expiryDate } = req.body ?? {};
+        const prescription = await prescriptionService.createPrescription(userId, {
+            fileUrl,
+            fileType,
+            patientName,
+            doctorName,
+            doctorRegNo,
+            issueDate,
+            expiryDate,
+        });
+        return send(res, 201, "Prescription uploaded", prescription);
+    } catch (err) {
+        return sendError(res, err, "Failed to upload prescription");
+    }
+};
+
+const getMyPrescriptions = async (req: Request, res: Response) => {
+    try {
+        const userId = req.user?.id;
+        if (!userId) return send(res, 401, "Unauthorized");
+
+        const status = typeof req.query.status === "string" ? req.query.status.trim().toUpperCase() : undefined;
+        const { page, limit, skip, sortBy, sortOrder } = paginationSortingHelpers(req.query);
+
+        const data = await prescriptionService.getMyPrescriptions(userId, { page, limit, skip, sortBy, sortOrder, status });
+        return send(res, 200, "Prescriptions fetched", data);
+    } catch (err) {
+        return sendError(res, err, "Failed to fetch prescriptions");
+    }
+};
+
+const getPrescription = async (req: Request, res: Response) => {
+    try {
+        const user = (req as any).user;
+        if (!user?.id) return send(res, 401, "Unauthorized");
+
+        const prescription = await prescriptionService.getPrescription(user, req.params.id as string);
+        return send(res, 200, "Prescription fetched", prescription);
+    } catch (err) {
+        return sendError(res, err, "Failed to fetch prescription");
+    }
+};
+
+/**
+ * PATCH /api/prescriptions/:id/attach
+ * Attach to cart items, or to an order awaiting verification (body: { orderId?, itemIds? })
+ */
+const attachPrescription = async (req: Request, res: Response) => {
+    try {
+        const userId = req.user?.id;
+        if (!userId) return send(res, 401, "Unauthorized");
+
+        const { orderId, itemIds } = req.body ?? {};
+        const result = await prescriptionService.attachPrescription(userId, req.params.id as string, { orderId, itemIds });
+        return send(res, 200, "Prescription attached", result);
+    } catch (err) {
+        return sendError(res, err, "Failed to attach prescription");
+    }
+};
+
+const getReviewQueue = async (req: Request, res: Response) => {
+    try {
+        const user = (req as any).user;
+        if (!user?.id) return send(res, 401, "Unauthorized");
+
+        const status = typeof req.query.status === "string" ? req.query.status.trim().toUpperCase() : undefined;
+        const { page, limit, skip, sortBy, sortOrder } = paginationSortingHelpers(req.query);
+
+        const data = await prescriptionService.getReviewQueue(user, { page, limit, skip, sortBy, sortOrder, status });
+        return send(res, 200, "Prescription review queue fetched", data);
+    } catch (err) {
+        return sendError(res, err, "Failed to fetch prescription review queue");
+    }
+};
+
+/**
+ * PATCH /api/prescriptions/:id/review
+ * Admin or Seller approves/rejects (body: { status, note })
+ */
+const reviewPrescription = async (req: Request, res: Response) => {
+    try {
+        const user = (req as any).user;
+        if (!user?.id) return send(res, 401, "Unauthorized");
+
+        const { status, note } = req.body ?? {};
+        if (!status) return send(res, 400, "status is required");
+
+        const updated = await prescriptionService.reviewPrescription(user, req.params.id as string, { status, note });
+        return send(res, 200, "Prescription reviewed", updated);
+    } catch (err) {
+        return sendError(res, err, "Failed to review prescription");
+    }
+};
+
+export const prescriptionController = {
+    createPrescription,
+    getMyPrescriptions,
+    getPrescription,
+    attachPrescription,
+    getReviewQueue,
+    reviewPrescription,
+};
@@ -0,0 +1,19 @@
+import { Router } from "express";
+import { prescriptionController } from "./prescription.controller";
+import auth from "../../middleware/auth";
+import { UserRole } from "../../types";
+
+const router = Router();
+
+// Customer endpoints
+router.post("/", auth(UserRole.CUSTOMER), prescriptionController.createPrescription);
+router.get("/", auth(UserRole.CUSTOMER), prescriptionController.getMyPrescriptions);
+router.patch("/:id/attach", auth(UserRole.CUSTOMER), prescriptionController.attachPrescription);
+
+// Admin/Seller: review queue
+router.get("/review-queue", auth(UserRole.ADMIN, UserRole.SELLER), prescriptionController.getReviewQueue);
+router.patch("/:id/review", auth(UserRole.ADMIN, UserRole.SELLER), prescriptionController.reviewPrescription);
+
+router.get("/:id", auth(), prescriptionController.getPrescription);
+
+export const prescriptionRouter = router;
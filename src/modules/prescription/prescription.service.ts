@@ -0,0 +1,487 @@
+import { prisma } from "../../lib/prisma";
+import { ServiceError } from "../../lib/error";
+import type { User } from "../../generated/prisma/client";
+import { PrescriptionFileType, PrescriptionStatus } from "../../generated/prisma/enums";
+import { confirmPaidOrder, isPaidOnline } from "../payment/payment.service";
+
+type CreatePrescriptionType = {
+    fileUrl?: string;
+    fileType?: string;
+    patientName?: string;
+    doctorName?: string;
+    doctorRegNo?: string | null;
+    issueDate?: string;
+    expiryDate?: string | null;
+};
+
+type AttachPrescriptionType = {
+    orderId?: string | undefined;
+    itemIds?: string[] | undefined;
+};
+
+type ReviewPrescriptionType = {
+    status?: string;
+    note?: string | null;
+};
+
+type PaginationType = {
+    page: number,
+    limit: number,
+    skip: number,
+    sortBy: string,
+    sortOrder: string,
+}
+
+const IMAGE_EXTENSIONS = [".jpg", ".jpeg", ".png", ".webp", ".heic"];
+
+/** Helper: does this medicine belong to an Rx-only category */
+export const requiresPrescription = (medicine: { category?: { isPrescriptionRequired: boolean | null } | null }) =>
+    medicine.category?.isPrescriptionRequired === true;
+
+/**
+ * Helper: an Rx line is covered once a reviewer verified it against its prescription,
+ * and only while that prescription is neither rejected nor expired.
+ * Approval is per line, so an approved prescription does not cover lines attached later.
+ */
+export const isLineVerified = (
+    item: {
+        prescriptionVerifiedAt: Date | null;
+        prescription: { status: string; expiryDate: Date | null } | null | undefined;
+    },
+    at: Date = new Date()
+) => {
+    if (!item.prescriptionVerifiedAt || !item.prescription) return false;
+    if (item.prescription.status === PrescriptionStatus.REJECTED) return false;
+    if (item.prescription.expiryDate && item.prescription.expiryDate < at) return false;
+    return true;
+};
+
+/**
+ * Put approved prescriptions back in the review queue when new lines are attached to them.
+ * Must be called inside a transaction.
+ */
+export const reopenPrescriptions = async (tx: any, prescriptionIds: (string | null)[]) => {
+    const ids = [...new Set(prescriptionIds.filter((id): id is string => !!id))];
+    if (ids.length === 0) return;
+    await tx.prescription.updateMany({
+        where: { id: { in: ids }, status: PrescriptionStatus.APPROVED },
+        data: { status: PrescriptionStatus.PENDING },
+    });
+};
+
+/** Helper: detect file type from url extension when client does not send it */
+const resolveFileType = (fileUrl: string, fileType?: string) => {
+    if (fileType) {
+        const upper = String(fileType).toUpperCase();
+        if (upper !== PrescriptionFileType.IMAGE && upper !== PrescriptionFileType.PDF) {
+            throw new ServiceError("fileType must be IMAGE or PDF", 400);
+        }
+        return upper as PrescriptionFileType;
+    }
+
+    const path = fileUrl.split("?")[0]!.toLowerCase();
+    if (path.endsWith(".pdf")) return PrescriptionFileType.PDF;
+    if (IMAGE_EXTENSIONS.some((ext) => path.endsWith(ext))) return PrescriptionFileType.IMAGE;
+    throw new ServiceError("Prescription must be an image (jpg, png, webp, heic) or a PDF", 400);
+};
+
+const parseDate = (value: any, field: string) => {
+    const date = new Date(value);
+    if (value === undefined || value === null || value === "" || Number.isNaN(date.getTime())) {
+        throw new ServiceError(`${field} must be a valid date`, 400);
+    }
+    return date;
+};
+
+/**
+ * Promote an order out of PENDING_VERIFICATION once every Rx line
+ * has been verified against an unexpired prescription.
+ * Orders already paid online go straight on to CONFIRMS.
+ * Must be called inside a transaction.
+ */
+export const syncOrderVerification = async (tx: any, orderId: string, changedBy?: string) => {
+    const order = await tx.order.findUnique({
+        where: { id: orderId },
+        include: {
+            items: {
+                include: {
+                    medicine: { select: { id: true, category: { select: { isPrescriptionRequired: true } } } },
+                    prescription: { select: { status: true, expiryDate: true } },
+                },
+            },
+        },
+    });
+    if (!order || order.status !== "PENDING_VERIFICATION") return order;
+
+    const verified = order.items
+        .filter((it: any) => requiresPrescription(it.medicine))
+        .every((it: any) => isLineVerified(it));
+    if (!verified) return order;
+
+    await tx.shipment.updateMany({
+        where: { orderId, status: "PENDING_VERIFICATION" },
+        data: { status: "PLACED" },
+    });
+    await tx.orderItem.updateMany({
+        where: { orderId, orderItemStatus: "PENDING_VERIFICATION" },
+        data: { orderItemStatus: "PLACED" },
+    });
+    const updated = await tx.order.update({
+        where: { id: orderId },
+        data: { status: "PLACED" },
+    });
+    await tx.orderStatusHistory.create({
+        data: {
+            orderId,
+            status: "PLACED",
+            changedBy,
+            notes: "All prescriptions verified",
+        },
+    });
+
+    if (await isPaidOnline(tx, orderId)) {
+        await confirmPaidOrder(tx, orderId);
+    }
+
+    return updated;
+};
+
+// Customer services
+const createPrescription = async (userId: string, data: CreatePrescriptionType) => {
+    const { fileUrl, patientName, doctorName, doctorRegNo } = data;
+
+    if (!fileUrl || typeof fileUrl !== "string" || fileUrl.trim() === "") {
+        throw new ServiceError("fileUrl is required", 400);
+    }
+    if (!patientName || typeof patientName !== "string" || patientName.trim() === "") {
+        throw new ServiceError("patientName is required", 400);
+    }
+    if (!doctorName || typeof doctorName !== "string" || doctorName.trim() === "") {
+        throw new ServiceError("doctorName is required", 400);
+    }
+
+    const fileType = resolveFileType(fileUrl.trim(), data.fileType);
+    const issueDate = parseDate(data.issueDate, "issueDate");
+    const expiryDate = data.expiryDate ? parseDate(data.expiryDate, "expiryDate") : null;
+
+    if (issueDate > new Date()) throw new ServiceError("issueDate cannot be in the future", 400);
+    if (expiryDate && expiryDate <= issueDate) throw new ServiceError("expiryDate must be after issueDate", 400);
+    if (expiryDate && expiryDate < new Date()) throw new ServiceError("Prescription has already expired", 400);
+
+    try {
+        return await prisma.prescription.create({
+            data: {
+                userId,
+                fileUrl: fileUrl.trim(),
+                fileType,
+                patientName: patientName.trim(),
+                doctorName: doctorName.trim(),
+                doctorRegNo: doctorRegNo ?? null,
+                issueDate,
+                expiryDate,
+            },
+        });
+    } catch (err: any) {
+        console.error("createPrescription error:", err);
+        throw new ServiceError("Failed to upload prescription", 500);
+    }
+};
+
+const getMyPrescriptions = async (userId: string, opts: PaginationType & { status?: string | undefined }) => {
+    const { page, limit, skip, sortBy, sortOrder, status } = opts;
+    try {
+        const where: any = { userId };
+        if (status) where.status = status;
+
+        const [items, total] = await Promise.all([
+            prisma.prescription.findMany({
+                where,
+                skip,
+                take: limit,
+                orderBy: { [sortBy]: sortOrder },
+                include: {
+                    orderItems: { select: { id: true, orderId: true, medicine: { select: { id: true, name: true } } } },
+                },
+            }),
+            prisma.prescription.count({ where }),
+        ]);
+
+        return {
+            items,
+            pagination: {
+                total,
+                page,
+                limit,
+                totalPages: Math.ceil(total / limit),
+            },
+        };
+    } catch (err: any) {
+        console.error("getMyPrescriptions error:", err);
+        throw new ServiceError("Failed to fetch prescriptions", 500);
+    }
+};
+
+/**
+ * Get single prescription with authorization:
+ * - admin: any
+ * - seller: only if attached to an order item of seller's medicine
+ * - customer: only own prescriptions
+ */
+const getPrescription = async (user: User, id: string) => {
+    try {
+        const prescription = await prisma.prescription.findUnique({
+            where: { id },
+            include: {
+                user: { select: { id: true, name: true, email: true } },
+                orderItems: {
+                    include: { medicine: { select: { id: true, name: true, sellerId: true } } },
+                },
+            },
+        });
+        if (!prescription) throw new ServiceError("Prescription not found", 404);
+
+        if (user.role === "ADMIN") return prescription;
+
+        if (user.role === "SELLER") {
+            const hasSellerItem = prescription.orderItems.some((it) => it.medicine.sellerId === user.id);
+            if (!hasSellerItem) throw new ServiceError("Unauthorized", 403);
+            return prescription;
+        }
+
+        if (prescription.userId !== user.id) throw new ServiceError("Unauthorized", 403);
+        return prescription;
+    } catch (err: any) {
+        if (err instanceof ServiceError) throw err;
+        console.error("getPrescription error:", err);
+        throw new ServiceError("Failed to fetch prescription", 500);
+    }
+};
+
+/**
+ * Attach a prescription to Rx lines of the customer's cart, or of an order
+ * still waiting for verification (when orderId is given).
+ * - itemIds limits which lines are covered; defaults to every Rx line.
+ * - The new lines need review, so an approved prescription goes back to PENDING.
+ */
+const attachPrescription = async (userId: string, prescriptionId: string, data: AttachPrescriptionType) => {
+    const { orderId, itemIds } = data;
+    if (itemIds !== undefined && (!Array.isArray(itemIds) || itemIds.some((id) => typeof id !== "string"))) {
+        throw new ServiceError("itemIds must be an array of ids", 400);
+    }
+
+    try {
+        return await prisma.$transaction(async (tx) => {
+            const prescription = await tx.prescription.findUnique({ where: { id: prescriptionId } });
+            if (!prescription) throw new ServiceError("Prescription not found", 404);
+            if (prescription.userId !== userId) throw new ServiceError("Unauthorized", 403);
+            if (prescription.status === PrescriptionStatus.REJECTED) {
+                throw new ServiceError("Rejected prescriptions cannot be attached", 400);
+            }
+            if (prescription.expiryDate && prescription.expiryDate < new Date()) {
+                throw new ServiceError("Prescription has expired", 400);
+            }
+
+            await reopenPrescriptions(tx, [prescriptionId]);
+
+            const medicineInclude = {
+                medicine: { select: { id: true, name: true, category: { select: { isPrescriptionRequired: true } } } },
+            };
+
+            if (orderId) {
+                const order = await tx.order.findUnique({
+                    where: { id: orderId },
+                    include: { items: { include: medicineInclude } },
+                });
+                if (!order) throw new ServiceError("Order not found", 404);
+                if (order.userId !== userId) throw new ServiceError("Unauthorized", 403);
+                if (order.status !== "PENDING_VERIFICATION") {
+                    throw new ServiceError("Prescriptions can only be attached to orders awaiting verification", 400);
+                }
+
+                const targets = order.items.filter((it) =>
+                    requiresPrescription(it.medicine) && (!itemIds || itemIds.includes(it.id))
+                );
+                if (targets.length === 0) throw new ServiceError("No prescription-required items to attach", 400);
+
+                await tx.orderItem.updateMany({
+                    where: { id: { in: targets.map((it) => it.id) } },
+                    data: { prescriptionId, prescriptionVerifiedAt: null, prescriptionVerifiedBy: null },
+                });
+
+                return await tx.order.findUnique({
+                    where: { id: orderId },
+                    include: { items: { include: { medicine: { select: { id: true, name: true } }, prescription: true } } },
+                });
+            }
+
+            const cart = await tx.cart.findUnique({
+                where: { userId },
+                include: { items: { include: medicineInclude } },
+            });
+            if (!cart || cart.items.length === 0) throw new ServiceError("Cart is empty", 400);
+
+            const targets = cart.items.filter((it) =>
+                requiresPrescription(it.medicine) && (!itemIds || itemIds.includes(it.id))
+            );
+            if (targets.length === 0) throw new ServiceError("No prescription-required items to attach", 400);
+
+            await tx.cartItem.updateMany({
+                where: { id: { in: targets.map((it) => it.id) } },
+                data: { prescriptionId },
+            });
+
+            return {
+                prescriptionId,
+                attachedItems: targets.map((it) => ({ id: it.id, medicineId: it.medicine.id, medicineName: it.medicine.name })),
+            };
+        });
+    } catch (err: any) {
+        if (err instanceof ServiceError) throw err;
+        console.error("attachPrescription error:", err);
+        throw new ServiceError("Failed to attach prescription", 500);
+    }
+};
+
+// Reviewer services (Admin / Seller)
+
+/**
+ * Review queue:
+ * - admin: every prescription
+ * - seller: prescriptions attached to order items of seller's medicines
+ * Defaults to PENDING prescriptions, oldest first.
+ */
+const getReviewQueue = async (user: User, opts: PaginationType & { status?: string | undefined }) => {
+    const { page, limit, skip, status } = opts;
+    try {
+        const where: any = { status: status || PrescriptionStatus.PENDING };
+        if (user.role === "SELLER") {
+            // pending ones only while the seller still has unchecked lines on them
+            where.orderItems = {
+                some: {
+                    medicine: { sellerId: user.id },
+                    ...(where.status === PrescriptionStatus.PENDING && { prescriptionVerifiedAt: null }),
+                },
+            };
+        }
+
+        const [items, total] = await Promise.all([
+            prisma.prescription.findMany({
+                where,
+                skip,
+                take: limit,
+                orderBy: { createdAt: "asc" },
+                include: {
+                    user: { select: { id: true, name: true, email: true, phone: true } },
+                    orderItems: {
+                        include: { medicine: { select: { id: true, name: true, genericName: true, sellerId: true } } },
+                    },
+                },
+            }),
+            prisma.prescription.count({ where }),
+        ]);
+
+        return {
+            items,
+            pagination: {
+                total,
+                page,
+                limit,
+                totalPages: Math.ceil(total / limit),
+            },
+        };
+    } catch (err: any) {
+        console.error("getReviewQueue error:", err);
+        throw new ServiceError("Failed to fetch prescription review queue", 500);
+    }
+};
+
+/**
+ * Approve or reject a prescription.
+ * - Seller must own a medicine on an order item covered by the prescription.
+ * - Approval verifies the lines the reviewer may check: every unchecked line for admin,
+ *   the seller's own lines for a seller. The prescription stays PENDING while lines of
+ *   orders awaiting verification are still unchecked.
+ * - Approval re-checks the affected orders and releases the ones fully verified.
+ * - Rejection applies to the prescription, and so to every line it covers.
+ */
+const reviewPrescription = async (user: User, id: string, data: ReviewPrescriptionType) => {
+    const status = String(data.status ?? "").toUpperCase();
+    if (status !== PrescriptionStatus.APPROVED && status !== PrescriptionStatus.REJECTED) {
+        throw new ServiceError("status must be APPROVED or REJECTED", 400);
+    }
+    if (status === PrescriptionStatus.REJECTED && (!data.note || String(data.note).trim() === "")) {
+        throw new ServiceError("A note is required when rejecting a prescription", 400);
+    }
+
+    try {
+        return await prisma.$transaction(async (tx) => {
+            const prescription = await tx.prescription.findUnique({
+                where: { id },
+                include: {
+                    orderItems: {
+                        include: { medicine: { select: { sellerId: true } }, order: { select: { status: true } } },
+                    },
+                },
+            });
+            if (!prescription) throw new ServiceError("Prescription not found", 404);
+
+            const reviewable = user.role === "SELLER"
+                ? prescription.orderItems.filter((it) => it.medicine.sellerId === user.id)
+                : prescription.orderItems;
+            if (user.role === "SELLER" && reviewable.length === 0) throw new ServiceError("Unauthorized", 403);
+
+            if (status === PrescriptionStatus.APPROVED && prescription.expiryDate && prescription.expiryDate < new Date()) {
+                throw new ServiceError("Cannot approve an expired prescription", 400);
+            }
+
+            const now = new Date();
+            const lines = status === PrescriptionStatus.APPROVED
+                ? reviewable.filter((it) => !it.prescriptionVerifiedAt)
+                : [];
+            if (lines.length) {
+                await tx.orderItem.updateMany({
+                    where: { id: { in: lines.map((it) => it.id) } },
+                    data: { prescriptionVerifiedAt: now, prescriptionVerifiedBy: user.id },
+                });
+            }
+
+            // other reviewers still have to check their lines of orders awaiting verification
+            const verifiedIds = new Set(lines.map((it) => it.id));
+            const outstanding = prescription.orderItems.some((it) =>
+                !it.prescriptionVerifiedAt && !verifiedIds.has(it.id) && it.order.status === "PENDING_VERIFICATION"
+            );
+
+            const updated = await tx.prescription.update({
+                where: { id },
+                data: {
+                    status: status === PrescriptionStatus.APPROVED && outstanding
+                        ? PrescriptionStatus.PENDING
+                        : status as PrescriptionStatus,
+                    reviewedBy: user.id,
+                    reviewedAt: now,
+                    reviewNote: data.note ?? null,
+                },
+            });
+
+            const orderIds = [...new Set(lines.map((it) => it.orderId))];
+            for (const orderId of orderIds) {
+                await syncOrderVerification(tx, orderId, user.id);
+            }
+
+            return updated;
+        });
+    } catch (err: any) {
+        if (err instanceof ServiceError) throw err;
+        console.error("reviewPrescription error:", err);
+        throw new ServiceError("Failed to review prescription", 500);
+    }
+};
+
+export const prescriptionService = {
+    createPrescription,
+    getMyPrescriptions,
+    getPrescription,
+    attachPrescription,
+    getReviewQueue,
+    reviewPrescription,
+};
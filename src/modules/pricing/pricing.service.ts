@@ -0,0 +1,97 @@
+import type { Coupon, ShippingZone } from "../../generated/prisma/client";
+import { CouponType } from "../../generated/prisma/enums";
+import { calculateDiscounts, type PricingLine } from "../coupon/coupon.service";
+import { calculateShippingFee, resolveShippingZone } from "../shipping/shipping.service";
+import { convertMoney, getExchangeRates } from "../currency/currency.service";
+import { DEFAULT_CURRENCY, multiplyMoney, percentOf, roundMoney, sumMoney, type Money } from "../../lib/money";
+
+export type PricedLine = PricingLine & {
+    vatRate: number;
+    weightGrams: number | null;
+    currency: string; // currency of unitPrice (the seller's base currency)
+};
+
+const convertOptional = (amount: Money | null, rate: Money) => (amount === null ? null : convertMoney(amount, rate));
+
+/** Helper: coupon amounts (set in the store currency) in the checkout currency */
+const convertCoupon = (coupon: Coupon, rate: Money): Coupon => ({
+    ...coupon,
+    value: coupon.type === CouponType.FIXED ? convertMoney(coupon.value, rate) : coupon.value,
+    maxDiscount: convertOptional(coupon.maxDiscount, rate),
+    minOrderValue: convertOptional(coupon.minOrderValue, rate),
+});
+
+/** Helper: zone fees (set in the store currency) in the checkout currency */
+const convertZone = (zone: ShippingZone, rate: Money): ShippingZone => ({
+    ...zone,
+    baseFee: convertMoney(zone.baseFee, rate),
+    perKgFee: convertOptional(zone.perKgFee, rate),
+    freeShippingThreshold: convertOptional(zone.freeShippingThreshold, rate),
+});
+
+/**
+ * Price breakdown shared by the cart quote and checkout.
+ * - Currency: line prices (seller currency), coupon amounts and zone fees (store currency)
+ *   are converted to the requested currency first, so every amount below is in it
+ * - Shipping: zone resolved from the address (skipped when no address is given)
+ * - Discount: coupons via the discount engine (FREE_SHIPPING waives the fee)
+ * - Tax: category VAT on each line after its share of the discount
+ * total = subtotal - discount + shippingFee - shippingDiscount + tax
+ */
+export const priceOrder = async (
+    tx: any,
+    input: {
+        userId: string;
+        lines: PricedLine[];
+        coupons: Coupon[];
+        shippingAddress?: string | undefined;
+        currency?: string | undefined;
+    }
+) => {
+    const currency = input.currency ?? DEFAULT_CURRENCY;
+    const rates = await getExchangeRates(tx, [DEFAULT_CURRENCY, ...input.lines.map((line) => line.currency)], currency);
+    const storeRate = rates.get(DEFAULT_CURRENCY)!;
+
+    const priced = input.lines.map((line) => ({
+        ...line,
+        unitPrice: convertMoney(line.unitPrice, rates.get(line.currency)!),
+        exchangeRate: rates.get(line.currency)!,
+    }));
+    const subtotal = sumMoney(priced, (line) => multiplyMoney(line.unitPrice, line.quantity));
+    const weightGrams = priced.reduce((sum, line) => sum + (line.weightGrams ?? 0) * line.quantity, 0);
+
+    const zone = input.shippingAddress ? await resolveShippingZone(tx, input.shippingAddress) : null;
+    const shippingFee = roundMoney(calculateShippingFee(zone && convertZone(zone, storeRate), { subtotal, weightGrams }));
+
+    const pricing = await calculateDiscounts(tx, {
+        userId: input.userId,
+        lines: priced,
+        coupons: input.coupons.map((coupon) => convertCoupon(coupon, storeRate)),
+        shippingFee,
+        currency,
+    });
+
+    const lines = priced.map((line, i) => ({
+        medicineId: line.medicineId,
+        unitPrice: line.unitPrice,
+        exchangeRate: line.exchangeRate,
+        vatRate: line.vatRate,
+        taxAmount: roundMoney(percentOf(pricing.lineTotals[i] ?? 0, line.vatRate)),
+    }));
+    const tax = sumMoney(lines, (line) => line.taxAmount);
+
+    return {
+        currency,
+        exchangeRate: storeRate,
+        subtotal: pricing.subtotal,
+        discount: pricing.discount,
+        shippingFee: pricing.shippingFee,
+        shippingDiscount: pricing.shippingDiscount,
+        tax,
+        total: pricing.total.plus(tax),
+        shippingZone: zone ? { id: zone.id, name: zone.name } : null,
+        lines,
+        coupons: pricing.applied,
+        invalidCoupons: pricing.rejected,
+    };
+};
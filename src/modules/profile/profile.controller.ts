@@ -7,7 +7,8 @@ const send = (res: Response, code: number, message: string, data?: any) =>
 const sendError = (res: Response, err: any, fallback: string) => {
     const status = err instanceof ServiceError ? err.statusCode : 500;
     const message = err?.message || fallback;
-    return res.status(status).json({ message });
+    const details = err instanceof ServiceError ? err.details : undefined;
+    return res.status(status).json({ message, details });
 };
 
 // GET /api/users/me
@@ -70,9 +71,63 @@ const changePassword = async (req: Request, res: Response) => {
     }
 };
 
+// GET /api/profile/me/addresses
+const listAddresses = async (req: Request, res: Response) => {
+    try {
+        const userId = req.user?.id;
+        if (!userId) return send(res, 401, "Unauthorized");
+
+        const addresses = await profileService.listAddresses(userId);
+        return send(res, 200, "Addresses fetched successfully", addresses);
+    } catch (err) {
+        return sendError(res, err, "Failed to fetch addresses");
+    }
+};
+
+// Body: { label?, recipientName, phone, division, district, upazila?, street, postalCode?, latitude?, longitude?, isDefault? }
+const createAddress = async (req: Request, res: Response) => {
+    try {
+        const userId = req.user?.id;
+        if (!userId) return send(res, 401, "Unauthorized");
+
+        const address = await profileService.createAddress(userId, req.body ?? {});
+        return send(res, 201, "Address added successfully", address);
+    } catch (err) {
+        return sendError(res, err, "Failed to add address");
+    }
+};
+
+const updateAddress = async (req: Request, res: Response) => {
+    try {
+        const userId = req.user?.id;
+        if (!userId) return send(res, 401, "Unauthorized");
+
+        const address = await profileService.updateAddress(userId, req.params.id as string, req.body ?? {});
+        return send(res, 200, "Address updated successfully", address);
+    } catch (err) {
+        return sendError(res, err, "Failed to update address");
+    }
+};
+
+const deleteAddress = async (req: Request, res: Response) => {
+    try {
+        const userId = req.user?.id;
+        if (!userId) return send(res, 401, "Unauthorized");
+
+        await profileService.deleteAddress(userId, req.params.id as string);
+        return send(res, 200, "Address deleted successfully");
+    } catch (err) {
+        return sendError(res, err, "Failed to delete address");
+    }
+};
+
 
 export const profileController = {
     getProfile,
     updateProfile,
     changePassword,
+    listAddresses,
+    createAddress,
+    updateAddress,
+    deleteAddress,
 };
\ No newline at end of file
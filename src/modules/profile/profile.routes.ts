@@ -8,4 +8,9 @@ router.get("/me", auth(), profileController.getProfile);
 router.put("/me", auth(), profileController.updateProfile);
 router.patch("/me/password", auth(), profileController.changePassword);
 
+router.get("/me/addresses", auth(), profileController.listAddresses);
+router.post("/me/addresses", auth(), profileController.createAddress);
+router.patch("/me/addresses/:id", auth(), profileController.updateAddress);
+router.delete("/me/addresses/:id", auth(), profileController.deleteAddress);
+
 export const profileRouter = router;
\ No newline at end of file
@@ -1,15 +1,10 @@
-import { User } from "../../generated/prisma/client";
+import { Address, User } from "../../generated/prisma/client";
 import { auth } from "../../lib/auth";
 import { prisma } from "../../lib/prisma";
+import { ServiceError } from "../../lib/error";
+import { normalizeCurrency } from "../currency/currency.service";
 
-export class ServiceError extends Error {
-    statusCode: number;
-    constructor(message: string, statusCode = 400) {
-        super(message);
-        this.statusCode = statusCode;
-        Object.setPrototypeOf(this, ServiceError.prototype);
-    }
-}
+export { ServiceError };
 
 const getProfile = async (userId: string): Promise<User | null> => {
     try {
@@ -31,11 +26,15 @@ const updateProfile = async (userId: string, data: Partial<User>): Promise<Parti
         if (!user) throw new ServiceError("User not found", 404);
 
         const { name, image, phone } = data;
+        const currency = normalizeCurrency(data.currency);
+        // a seller's base currency is the currency their medicine prices are set in
+        if (currency !== undefined && user.role !== "SELLER") throw new ServiceError("Only sellers can set a base currency", 403);
 
         const updateData: Partial<User> = {};
         if (name !== undefined) updateData.name = name;
         if (image !== undefined) updateData.image = image;
         if (phone !== undefined) updateData.phone = phone;
+        if (currency !== undefined) updateData.currency = currency;
 
         const result = await prisma.user.update({
             where: { id: userId },
@@ -115,9 +114,158 @@ const changePassword = async (
 };
 
 
+type AddressInputType = {
+    label?: string | null;
+    recipientName?: string;
+    phone?: string;
+    division?: string;
+    district?: string;
+    upazila?: string | null;
+    street?: string;
+    postalCode?: string | null;
+    latitude?: number | string | null;
+    longitude?: number | string | null;
+    isDefault?: boolean;
+};
+
+const REQUIRED_ADDRESS_FIELDS = ["recipientName", "phone", "division", "district", "street"] as const;
+
+/** Helper: one-line address used on orders and for delivery zone lookup */
+export const formatAddress = (a: Pick<Address, "street" | "upazila" | "district" | "division" | "postalCode">) =>
+    [a.street, a.upazila, a.district, [a.division, a.postalCode].filter(Boolean).join(" ")].filter(Boolean).join(", ");
+
+/**
+ * Helper: order snapshot of a saved address (copied, so later edits don't rewrite history)
+ */
+export const toShippingSnapshot = (a: Address) => ({
+    addressId: a.id,
+    shippingName: a.recipientName,
+    shippingPhone: a.phone,
+    shippingAddress: formatAddress(a),
+    shippingDivision: a.division,
+    shippingDistrict: a.district,
+    shippingUpazila: a.upazila,
+    shippingPostalCode: a.postalCode,
+    shippingLatitude: a.latitude,
+    shippingLongitude: a.longitude,
+});
+
+/**
+ * Helper: saved address owned by the user.
+ * Without an id the default address is returned (null when there is none).
+ */
+export const findUserAddress = async (tx: any, userId: string, addressId?: string): Promise<Address | null> => {
+    if (!addressId) return await tx.address.findFirst({ where: { userId, isDefault: true } });
+
+    const address = await tx.address.findUnique({ where: { id: addressId } });
+    if (!address || address.userId !== userId) throw new ServiceError("Address not found", 404);
+    return address;
+};
+
+const parseCoordinate = (value: any, field: string, limit: number) => {
+    if (value === undefined) return undefined;
+    if (value === null || value === "") return null;
+    const n = Number(value);
+    if (Number.isNaN(n) || Math.abs(n) > limit) throw new ServiceError(`${field} must be between -${limit} and ${limit}`, 400);
+    return n;
+};
+
+const normalizeAddress = (data: AddressInputType, partial: boolean) => {
+    for (const field of REQUIRED_ADDRESS_FIELDS) {
+        const value = data[field];
+        if ((!partial || value !== undefined) && (typeof value !== "string" || value.trim() === "")) {
+            throw new ServiceError(`${field} is required`, 400);
+        }
+    }
+    if (data.phone !== undefined && !/^\+?[0-9][0-9\s-]{5,19}$/.test(data.phone.trim())) {
+        throw new ServiceError("phone is not a valid phone number", 400);
+    }
+
+    const trimOrNull = (v?: string | null) => (v === undefined ? undefined : v === null || v.trim() === "" ? null : v.trim());
+    const address: any = {
+        label: trimOrNull(data.label),
+        recipientName: data.recipientName?.trim(),
+        phone: data.phone?.trim(),
+        division: data.division?.trim(),
+        district: data.district?.trim(),
+        upazila: trimOrNull(data.upazila),
+        street: data.street?.trim(),
+        postalCode: trimOrNull(data.postalCode),
+        latitude: parseCoordinate(data.latitude, "latitude", 90),
+        longitude: parseCoordinate(data.longitude, "longitude", 180),
+        isDefault: typeof data.isDefault === "boolean" ? data.isDefault : undefined,
+    };
+    return address;
+};
+
+const listAddresses = async (userId: string) => {
+    try {
+        return await prisma.address.findMany({
+            where: { userId },
+            orderBy: [{ isDefault: "desc" }, { createdAt: "desc" }],
+        });
+    } catch (err) {
+        console.error("listAddresses error:", err);
+        throw new ServiceError("Failed to fetch addresses", 500);
+    }
+};
+
+/**
+ * Add address. The first address becomes the default; a new default unsets the previous one.
+ */
+const createAddress = async (userId: string, data: AddressInputType) => {
+    const address = normalizeAddress(data, false);
+    try {
+        return await prisma.$transaction(async (tx) => {
+            const count = await tx.address.count({ where: { userId } });
+            const isDefault = address.isDefault === true || count === 0;
+            if (isDefault) await tx.address.updateMany({ where: { userId }, data: { isDefault: false } });
+            return await tx.address.create({ data: { ...address, userId, isDefault } });
+        });
+    } catch (err) {
+        console.error("createAddress error:", err);
+        throw new ServiceError("Failed to create address", 500);
+    }
+};
+
+const updateAddress = async (userId: string, id: string, data: AddressInputType) => {
+    await findUserAddress(prisma, userId, id);
+    const address = normalizeAddress(data, true);
+    if (address.isDefault === false) delete address.isDefault; // pick another default instead
+    try {
+        return await prisma.$transaction(async (tx) => {
+            if (address.isDefault) await tx.address.updateMany({ where: { userId, id: { not: id } }, data: { isDefault: false } });
+            return await tx.address.update({ where: { id }, data: address });
+        });
+    } catch (err) {
+        console.error("updateAddress error:", err);
+        throw new ServiceError("Failed to update address", 500);
+    }
+};
+
+/** Delete address; past orders keep their snapshot. Default moves to the latest remaining address. */
+const deleteAddress = async (userId: string, id: string) => {
+    const existing = await findUserAddress(prisma, userId, id);
+    try {
+        await prisma.$transaction(async (tx) => {
+            await tx.address.delete({ where: { id } });
+            if (existing?.isDefault) {
+                const next = await tx.address.findFirst({ where: { userId }, orderBy: { createdAt: "desc" } });
+                if (next) await tx.address.update({ where: { id: next.id }, data: { isDefault: true } });
+            }
+        });
+    } catch (err) {
+        console.error("deleteAddress error:", err);
+        throw new ServiceError("Failed to delete address", 500);
+    }
+};
 
 export const profileService = {
     getProfile,
     updateProfile,
     changePassword,
+    listAddresses,
+    createAddress,
+    updateAddress,
+    deleteAddress,
 };
\ No newline at end of file
@@ -0,0 +1,131 @@
+import { Request, Response } from "express";
+import { recallService } from "./recall.service";
+import { ServiceError } from "../../lib/error";
+import paginationSortingHelpers from "../../helpers/paginationSortingHelpers";
+
+const send = (res: Response, code: number, message: string, data?: any) =>
+    res.status(code).json({ message, data });
+
+const sendError = (res: Response, err: any, fallback: string) => {
+    const status = err instanceof ServiceError ? err.statusCode : 500;
+    const message = err?.message || fallback;
+    const details = err instanceof ServiceError ? err.details : undefined;
+    return res.status(status).json({ message, details });
+};
+
+/**
+ * POST /api/recalls
+ * Admin or Seller opens a recall
+ * (body: { medicineId, batchNumbers?, manufacturedFrom?, manufacturedTo?, severity, reason, instructions })
+ */
+const createRecall = async (req: Request, res: Response) => {
+    try {
+        const user = (req as any).user;
+        if (!user?.id) return send(res, 401, "Unauthorized");
+
+        const { medicineId, batchNumbers, manufacturedFrom, manufacturedTo, severity, reason, instructions } = req.body ?? {};
+        const recall = await recallService.createRecall(user, {
+            medicineId,
+            batchNumbers,
+            manufacturedFrom,
+            manufacturedTo,
+            severity,
+            reason,
+            instructions,
+        });
+        return send(res, 201, "Recall created", recall);
+    } catch (err) {
+        return sendError(res, err, "Failed to create recall");
+    }
+};
+
+const listRecalls = async (req: Request, res: Response) => {
+    try {
+        const user = (req as any).user;
+        if (!user?.id) return send(res, 401, "Unauthorized");
+
+        const status = typeof req.query.status === "string" ? req.query.status.trim().toUpperCase() : undefined;
+        const { page, limit, skip, sortBy, sortOrder } = paginationSortingHelpers(req.query);
+
+        const data = await recallService.listRecalls(user, { page, limit, skip, sortBy, sortOrder, status });
+        return send(res, 200, "Recalls fetched", data);
+    } catch (err) {
+        return sendError(res, err, "Failed to fetch recalls");
+    }
+};
+
+const getRecall = async (req: Request, res: Response) => {
+    try {
+        const user = (req as any).user;
+        if (!user?.id) return send(res, 401, "Unauthorized");
+
+        const recall = await recallService.getRecall(user, req.params.id as string);
+        return send(res, 200, "Recall fetched", recall);
+    } catch (err) {
+        return sendError(res, err, "Failed to fetch recall");
+    }
+};
+
+const getNotificationList = async (req: Request, res: Response) => {
+    try {
+        const user = (req as any).user;
+        if (!user?.id) return send(res, 401, "Unauthorized");
+
+        const rows = await recallService.getNotificationList(user, req.params.id as string);
+        return send(res, 200, "Recall notification list fetched", rows);
+    } catch (err) {
+        return sendError(res, err, "Failed to fetch recall notification list");
+    }
+};
+
+/**
+ * GET /api/recalls/:id/notifications/export
+ * Notification list as CSV download
+ */
+const exportNotificationsCsv = async (req: Request, res: Response) => {
+    try {
+        const user = (req as any).user;
+        if (!user?.id) return send(res, 401, "Unauthorized");
+
+        const csv = await recallService.exportNotificationsCsv(user, req.params.id as string);
+        res.setHeader("Content-Type", "text/csv; charset=utf-8");
+        res.setHeader("Content-Disposition", `attachment; filename="recall-${req.params.id}-notifications.csv"`);
+        return res.status(200).send(csv);
+    } catch (err) {
+        return sendError(res, err, "Failed to export recall notification list");
+    }
+};
+
+const markNotified = async (req: Request, res: Response) => {
+    try {
+        const user = (req as any).user;
+        if (!user?.id) return send(res, 401, "Unauthorized");
+
+        const result = await recallService.markNotified(user, req.params.id as string);
+        return send(res, 200, "Recall notices marked as notified", result);
+    } catch (err) {
+        return sendError(res, err, "Failed to update recall notices");
+    }
+};
+
+const closeRecall = async (req: Request, res: Response) => {
+    try {
+        const user = (req as any).user;
+        if (!user?.id) return send(res, 401, "Unauthorized");
+
+        const recall = await recallService.closeRecall(user, req.params.id as string);
+        return send(res, 200, "Recall closed", recall);
+    } catch (err) {
+        return sendError(res, err, "Failed to close recall");
+    }
+};
+
+export const recallController = {
+    createRecall,
+    listRecalls,
+    getRecall,
+    getNotificationList,
+    exportNotificationsCsv,
+    markNotified,
+    closeRecall,
+};
@@ -0,0 +1,17 @@
+import { Router } from "express";
+import { recallController } from "./recall.controller";
+import auth from "../../middleware/auth";
+import { UserRole } from "../../types";
+
+const router = Router();
+
+// Admin/Seller: recalls of own medicines (admin: all)
+router.post("/", auth(UserRole.ADMIN, UserRole.SELLER), recallController.createRecall);
+router.get("/", auth(UserRole.ADMIN, UserRole.SELLER), recallController.listRecalls);
+router.get("/:id", auth(UserRole.ADMIN, UserRole.SELLER), recallController.getRecall);
+router.get("/:id/notifications", auth(UserRole.ADMIN, UserRole.SELLER), recallController.getNotificationList);
+router.get("/:id/notifications/export", auth(UserRole.ADMIN, UserRole.SELLER), recallController.exportNotificationsCsv);
+router.patch("/:id/notifications/notified", auth(UserRole.ADMIN, UserRole.SELLER), recallController.markNotified);
+router.patch("/:id/close", auth(UserRole.ADMIN, UserRole.SELLER), recallController.closeRecall);
+
+export const recallRouter = router;
@@ -0,0 +1,326 @@
+import { prisma } from "../../lib/prisma";
+import { ServiceError } from "../../lib/error";
+import type { User } from "../../generated/prisma/client";
+import { RecallSeverity, RecallStatus } from "../../generated/prisma/enums";
+import { recordStockMovement } from "../stock/stock.service";
+import toCsv from "../../helpers/csvHelpers";
+
+type CreateRecallType = {
+    medicineId?: string;
+    batchNumbers?: string[];
+    manufacturedFrom?: string | null;
+    manufacturedTo?: string | null;
+    severity?: string;
+    reason?: string;
+    instructions?: string;
+};
+
+type PaginationType = {
+    page: number,
+    limit: number,
+    skip: number,
+    sortBy: string,
+    sortOrder: string,
+}
+
+const parseDate = (value: any, field: string) => {
+    const date = new Date(value);
+    if (value === undefined || value === null || value === "" || Number.isNaN(date.getTime())) {
+        throw new ServiceError(`${field} must be a valid date`, 400);
+    }
+    return date;
+};
+
+/** Helper: load recall and check seller owns the recalled medicine */
+const getOwnedRecall = async (user: User, id: string) => {
+    const recall = await prisma.recall.findUnique({
+        where: { id },
+        include: { medicine: { select: { id: true, name: true, sellerId: true } } },
+    });
+    if (!recall) throw new ServiceError("Recall not found", 404);
+    if (user.role === "SELLER" && recall.medicine.sellerId !== user.id) throw new ServiceError("Unauthorized", 403);
+    return recall;
+};
+
+/**
+ * Open a recall.
+ * - Matches the medicine's batches by batch number and/or manufacture date range
+ * - Quarantines matched batches at once (RECALLED movement, never sellable again)
+ * - Creates a notice for every non-cancelled order item picked from those batches
+ */
+const createRecall = async (user: User, data: CreateRecallType) => {
+    const { medicineId, reason, instructions } = data;
+    const severity = String(data.severity ?? "").toUpperCase();
+    const batchNumbers = Array.isArray(data.batchNumbers)
+        ? [...new Set(data.batchNumbers.filter((b) => typeof b === "string" && b.trim() !== "").map((b) => b.trim()))]
+        : [];
+    const manufacturedFrom = data.manufacturedFrom ? parseDate(data.manufacturedFrom, "manufacturedFrom") : null;
+    const manufacturedTo = data.manufacturedTo ? parseDate(data.manufacturedTo, "manufacturedTo") : null;
+
+    if (!medicineId) throw new ServiceError("medicineId is required", 400);
+    if (!Object.values(RecallSeverity).includes(severity as RecallSeverity)) {
+        throw new ServiceError(`severity must be one of ${Object.values(RecallSeverity).join(", ")}`, 400);
+    }
+    if (!reason || typeof reason !== "string" || reason.trim() === "") throw new ServiceError("reason is required", 400);
+    if (!instructions || typeof instructions !== "string" || instructions.trim() === "") {
+        throw new ServiceError("instructions are required", 400);
+    }
+    if (batchNumbers.length === 0 && !manufacturedFrom && !manufacturedTo) {
+        throw new ServiceError("batchNumbers or a manufacture date range is required", 400);
+    }
+    if (manufacturedFrom && manufacturedTo && manufacturedFrom > manufacturedTo) {
+        throw new ServiceError("manufacturedFrom must be before manufacturedTo", 400);
+    }
+
+    const medicine = await prisma.medicine.findUnique({ where: { id: medicineId }, select: { id: true, sellerId: true } });
+    if (!medicine) throw new ServiceError("Medicine not found", 404);
+    if (user.role === "SELLER" && medicine.sellerId !== user.id) throw new ServiceError("Unauthorized", 403);
+
+    try {
+        return await prisma.$transaction(async (tx) => {
+            const criteria: any[] = [];
+            if (batchNumbers.length) criteria.push({ batchNumber: { in: batchNumbers } });
+            if (manufacturedFrom || manufacturedTo) {
+                const range: any = {};
+                if (manufacturedFrom) range.gte = manufacturedFrom;
+                if (manufacturedTo) range.lte = manufacturedTo;
+                criteria.push({ manufactureDate: range });
+            }
+
+            const batches = await tx.medicineBatch.findMany({
+                where: { medicineId, recallId: null, OR: criteria },
+            });
+            if (batches.length === 0) throw new ServiceError("No batches of this medicine match the recall", 404);
+
+            const recall = await tx.recall.create({
+                data: {
+                    medicineId,
+                    batchNumbers,
+                    manufacturedFrom,
+                    manufacturedTo,
+                    severity: severity as RecallSeverity,
+                    reason: reason.trim(),
+                    instructions: instructions.trim(),
+                    createdBy: user.id,
+                },
+            });
+
+            // quarantine: stock of recalled lots leaves sellable inventory immediately
+            for (const batch of batches) {
+                await tx.medicineBatch.update({ where: { id: batch.id }, data: { recallId: recall.id } });
+                await recordStockMovement(tx, {
+                    medicineId,
+                    batchId: batch.id,
+                    type: "RECALLED",
+                    quantity: -batch.quantity,
+                    actorId: user.id,
+                    reason: `Recall ${recall.id}: ${recall.reason}`,
+                });
+            }
+
+            // trace affected order items through their batch allocations
+            const allocations = await tx.orderItemBatch.findMany({
+                where: {
+                    batchId: { in: batches.map((b) => b.id) },
+                    orderItem: { orderItemStatus: { not: "CANCELLED" } },
+                },
+                include: { orderItem: { select: { id: true, orderId: true, order: { select: { userId: true } } } } },
+            });
+            const byItem = new Map<string, { orderId: string; orderItemId: string; userId: string; quantity: number }>();
+            for (const a of allocations) {
+                const entry = byItem.get(a.orderItemId) ?? {
+                    orderId: a.orderItem.orderId,
+                    orderItemId: a.orderItemId,
+                    userId: a.orderItem.order.userId,
+                    quantity: 0,
+                };
+                entry.quantity += a.quantity;
+                byItem.set(a.orderItemId, entry);
+            }
+            await tx.recallNotice.createMany({
+                data: [...byItem.values()].map((n) => ({ recallId: recall.id, ...n })),
+                skipDuplicates: true,
+            });
+
+            console.info(`Recall ${recall.id} opened by ${user.id}: ${batches.length} batch(es), ${byItem.size} order item(s) affected`);
+
+            return {
+                ...recall,
+                batches: batches.map((b) => ({ id: b.id, batchNumber: b.batchNumber, quarantined: b.quantity })),
+                affectedOrderItems: byItem.size,
+                affectedCustomers: new Set([...byItem.values()].map((n) => n.userId)).size,
+            };
+        });
+    } catch (err: any) {
+        if (err instanceof ServiceError) throw err;
+        console.error("createRecall error:", err);
+        throw new ServiceError("Failed to create recall", 500);
+    }
+};
+
+const listRecalls = async (user: User, opts: PaginationType & { status?: string | undefined }) => {
+    const { page, limit, skip, sortBy, sortOrder, status } = opts;
+    try {
+        const where: any = {};
+        if (status) where.status = status;
+        if (user.role === "SELLER") where.medicine = { sellerId: user.id };
+
+        const [items, total] = await Promise.all([
+            prisma.recall.findMany({
+                where,
+                skip,
+                take: limit,
+                orderBy: { [sortBy]: sortOrder },
+                include: {
+                    medicine: { select: { id: true, name: true } },
+                    _count: { select: { batches: true, notices: true } },
+                },
+            }),
+            prisma.recall.count({ where }),
+        ]);
+
+        return {
+            items,
+            pagination: {
+                total,
+                page,
+                limit,
+                totalPages: Math.ceil(total / limit),
+            },
+        };
+    } catch (err: any) {
+        console.error("listRecalls error:", err);
+        throw new ServiceError("Failed to fetch recalls", 500);
+    }
+};
+
+const getRecall = async (user: User, id: string) => {
+    const recall = await getOwnedRecall(user, id);
+    try {
+        const [batches, notices] = await Promise.all([
+            prisma.medicineBatch.findMany({
+                where: { recallId: id },
+                select: { id: true, batchNumber: true, manufactureDate: true, expiryDate: true },
+            }),
+            prisma.recallNotice.findMany({ where: { recallId: id }, select: { userId: true, notifiedAt: true } }),
+        ]);
+
+        return {
+            ...recall,
+            batches,
+            affectedOrderItems: notices.length,
+            affectedCustomers: new Set(notices.map((n) => n.userId)).size,
+            pendingNotifications: notices.filter((n) => !n.notifiedAt).length,
+        };
+    } catch (err: any) {
+        console.error("getRecall error:", err);
+        throw new ServiceError("Failed to fetch recall", 500);
+    }
+};
+
+/**
+ * Notification list: one row per affected order item with customer contact details.
+ */
+const getNotificationList = async (user: User, id: string) => {
+    const recall = await getOwnedRecall(user, id);
+    try {
+        const notices = await prisma.recallNotice.findMany({
+            where: { recallId: id },
+            orderBy: { createdAt: "asc" },
+            include: {
+                user: { select: { id: true, name: true, email: true, phone: true } },
+                order: { select: { id: true, status: true, shippingName: true, shippingPhone: true, shippingAddress: true, createdAt: true } },
+                orderItem: {
+                    select: {
+                        id: true,
+                        orderItemStatus: true,
+                        batches: { where: { batch: { recallId: id } }, select: { batch: { select: { batchNumber: true } } } },
+                    },
+                },
+            },
+        });
+
+        return notices.map((n) => ({
+            noticeId: n.id,
+            customerId: n.user.id,
+            customerName: n.order.shippingName || n.user.name,
+            email: n.user.email,
+            phone: n.order.shippingPhone || n.user.phone,
+            shippingAddress: n.order.shippingAddress,
+            orderId: n.order.id,
+            orderedAt: n.order.createdAt,
+            orderItemId: n.orderItem.id,
+            itemStatus: n.orderItem.orderItemStatus,
+            medicine: recall.medicine.name,
+            batchNumbers: n.orderItem.batches.map((b) => b.batch.batchNumber).join(" "),
+            quantity: n.quantity,
+            severity: recall.severity,
+            notifiedAt: n.notifiedAt,
+        }));
+    } catch (err: any) {
+        console.error("getNotificationList error:", err);
+        throw new ServiceError("Failed to fetch recall notification list", 500);
+    }
+};
+
+const exportNotificationsCsv = async (user: User, id: string) => {
+    const rows = await getNotificationList(user, id);
+    return toCsv(
+        [
+            "customerName",
+            "email",
+            "phone",
+            "shippingAddress",
+            "orderId",
+            "orderedAt",
+            "orderItemId",
+            "itemStatus",
+            "medicine",
+            "batchNumbers",
+            "quantity",
+            "severity",
+            "notifiedAt",
+        ],
+        rows
+    );
+};
+
+/** Mark every pending notice of a recall as notified (after customers were contacted) */
+const markNotified = async (user: User, id: string) => {
+    await getOwnedRecall(user, id);
+    try {
+        const { count } = await prisma.recallNotice.updateMany({
+            where: { recallId: id, notifiedAt: null },
+            data: { notifiedAt: new Date() },
+        });
+        return { notified: count };
+    } catch (err: any) {
+        console.error("markNotified error:", err);
+        throw new ServiceError("Failed to update recall notices", 500);
+    }
+};
+
+/** Close a recall; quarantined batches stay unsellable */
+const closeRecall = async (user: User, id: string) => {
+    const recall = await getOwnedRecall(user, id);
+    if (recall.status === RecallStatus.CLOSED) throw new ServiceError("Recall is already closed", 409);
+    try {
+        return await prisma.recall.update({
+            where: { id },
+            data: { status: RecallStatus.CLOSED, closedAt: new Date() },
+        });
+    } catch (err: any) {
+        console.error("closeRecall error:", err);
+        throw new ServiceError("Failed to close recall", 500);
+    }
+};
+
+export const recallService = {
+    createRecall,
+    listRecalls,
+    getRecall,
+    getNotificationList,
+    exportNotificationsCsv,
+    markNotified,
+    closeRecall,
+};
@@ -0,0 +1,102 @@
+import { Request, Response } from "express";
+import { returnService } from "./return.service";
+import { ServiceError } from "../../lib/error";
+import paginationSortingHelpers from "../../helpers/paginationSortingHelpers";
+
+const send = (res: Response, code: number, message: string, data?: any) =>
+    res.status(code).json({ message, data });
+
+const sendError = (res: Response, err: any, fallback: string) => {
+    const status = err instanceof ServiceError ? err.statusCode : 500;
+    const message = err?.message || fallback;
+    const details = err instanceof ServiceError ? err.details : undefined;
+    return res.status(status).json({ message, details });
+};
+
+/**
+ * POST /api/returns
+ * Customer requests a return (body: { orderItemId, quantity, reason, photos? })
+ */
+const createReturn = async (req: Request, res: Response) => {
+    try {
+        const userId = req.user?.id;
+        if (!userId) return send(res, 401, "Unauthorized");
+
+        const { orderItemId, quantity, reason, photos } = req.body ?? {};
+        const request = await returnService.createReturn(userId, { orderItemId, quantity, reason, photos });
+        return send(res, 201, "Return requested", request);
+    } catch (err) {
+        return sendError(res, err, "Failed to create return request");
+    }
+};
+
+const listReturns = async (req: Request, res: Response) => {
+    try {
+        const user = (req as any).user;
+        if (!user?.id) return send(res, 401, "Unauthorized");
+
+        const status = typeof req.query.status === "string" ? req.query.status.trim().toUpperCase() : undefined;
+        const { page, limit, skip, sortBy, sortOrder } = paginationSortingHelpers(req.query);
+
+        const data = await returnService.listReturns(user, { page, limit, skip, sortBy, sortOrder, status });
+        return send(res, 200, "Return requests fetched", data);
+    } catch (err) {
+        return sendError(res, err, "Failed to fetch return requests");
+    }
+};
+
+const getReturn = async (req: Request, res: Response) => {
+    try {
+        const user = (req as any).user;
+        if (!user?.id) return send(res, 401, "Unauthorized");
+
+        const request = await returnService.getReturn(user, req.params.id as string);
+        return send(res, 200, "Return request fetched", request);
+    } catch (err) {
+        return sendError(res, err, "Failed to fetch return request");
+    }
+};
+
+/**
+ * PATCH /api/returns/:id/review
+ * Admin or Seller approves/rejects (body: { status, condition, note })
+ */
+const reviewReturn = async (req: Request, res: Response) => {
+    try {
+        const user = (req as any).user;
+        if (!user?.id) return send(res, 401, "Unauthorized");
+
+        const { status, condition, note } = req.body ?? {};
+        if (!status) return send(res, 400, "status is required");
+
+        const updated = await returnService.reviewReturn(user, req.params.id as string, { status, condition, note });
+        return send(res, 200, "Return request reviewed", updated);
+    } catch (err) {
+        return sendError(res, err, "Failed to review return request");
+    }
+};
+
+/**
+ * PATCH /api/returns/:id/refund
+ * Admin or Seller records the refund payout (body: { reference? })
+ */
+const completeRefund = async (req: Request, res: Response) => {
+    try {
+        const user = (req as any).user;
+        if (!user?.id) return send(res, 401, "Unauthorized");
+
+        const { reference } = req.body ?? {};
+        const updated = await returnService.completeRefund(user, req.params.id as string, { reference });
+        return send(res, 200, "Refund completed", updated);
+    } catch (err) {
+        return sendError(res, err, "Failed to complete refund");
+    }
+};
+
+export const returnController = {
+    createReturn,
+    listReturns,
+    getReturn,
+    reviewReturn,
+    completeRefund,
+};
@@ -0,0 +1,18 @@
+import { Router } from "express";
+import { returnController } from "./return.controller";
+import auth from "../../middleware/auth";
+import { UserRole } from "../../types";
+
+const router = Router();
+
+// Customer endpoints
+router.post("/", auth(UserRole.CUSTOMER), returnController.createReturn);
+
+// Admin/Seller: review and refund
+router.patch("/:id/review", auth(UserRole.ADMIN, UserRole.SELLER), returnController.reviewReturn);
+router.patch("/:id/refund", auth(UserRole.ADMIN, UserRole.SELLER), returnController.completeRefund);
+
+router.get("/", auth(), returnController.listReturns);
+router.get("/:id", auth(), returnController.getReturn);
+
+export const returnRouter = router;
@@ -0,0 +1,392 @@
+import { prisma } from "../../lib/prisma";
+import { ServiceError } from "../../lib/error";
+import { formatMoney } from "../../lib/money";
+import type { User } from "../../generated/prisma/client";
+import { PaymentStatus, RefundStatus, ReturnCondition, ReturnStatus } from "../../generated/prisma/enums";
+import { restockOrderItem } from "../batch/batch.service";
+import { debitRefund } from "../payout/payout.service";
+import { lineRefundAmount, settleRefundedPayment } from "../payment/payment.service";
+
+type CreateReturnType = {
+    orderItemId?: string;
+    quantity?: number | string;
+    reason?: string;
+    photos?: string[];
+};
+
+type ReviewReturnType = {
+    status?: string;
+    condition?: string;
+    note?: string | null;
+};
+
+type CompleteRefundType = {
+    reference?: string | null;
+};
+
+type PaginationType = {
+    page: number,
+    limit: number,
+    skip: number,
+    sortBy: string,
+    sortOrder: string,
+}
+
+/** Days after delivery during which a customer may request a return */
+export const RETURN_WINDOW_DAYS = 7;
+
+const returnInclude = {
+    orderItem: {
+        select: {
+            id: true,
+            quantity: true,
+            unitPrice: true,
+            taxAmount: true,
+            returnedQuantity: true,
+            medicine: { select: { id: true, name: true, imageUrl: true, sellerId: true } },
+        },
+    },
+    refund: true,
+};
+
+/** Helper: a return step is recorded on the order's status history (order status itself is unchanged) */
+const createReturnHistory = async (
+    tx: any,
+    request: { id: string; orderId: string },
+    returnStatus: ReturnStatus,
+    changedBy: string,
+    notes: string
+) => {
+    const order = await tx.order.findUnique({ where: { id: request.orderId }, select: { status: true } });
+    return await tx.orderStatusHistory.create({
+        data: {
+            orderId: request.orderId,
+            status: order.status,
+            returnRequestId: request.id,
+            returnStatus,
+            changedBy,
+            notes,
+        },
+    });
+};
+
+/** Helper: seller may only act on returns of their own medicines */
+const assertCanManage = (user: User, request: { orderItem: { medicine: { sellerId: string | null } } }) => {
+    if (user.role === "SELLER" && request.orderItem.medicine.sellerId !== user.id) {
+        throw new ServiceError("Unauthorized", 403);
+    }
+};
+
+// Customer services
+
+/**
+ * Customer opens a return for (part of) a delivered order item.
+ * - Item must be DELIVERED and within RETURN_WINDOW_DAYS of delivery
+ * - Quantity cannot exceed what is left after open/accepted returns; the item row is locked
+ *   so concurrent requests for the same item are checked one after the other
+ */
+const createReturn = async (userId: string, data: CreateReturnType) => {
+    const { orderItemId, reason } = data;
+    const quantity = Number(data.quantity);
+    const photos = Array.isArray(data.photos) ? data.photos.filter((p) => typeof p === "string" && p.trim() !== "") : [];
+
+    if (!orderItemId) throw new ServiceError("orderItemId is required", 400);
+    if (!Number.isInteger(quantity) || quantity <= 0) throw new ServiceError("quantity must be a positive integer", 400);
+    if (!reason || typeof reason !== "string" || reason.trim() === "") {
+        throw new ServiceError("reason is required", 400);
+    }
+
+    try {
+        return await prisma.$transaction(async (tx) => {
+            await tx.$queryRaw`SELECT "id" FROM "order_item" WHERE "id" = ${orderItemId} FOR UPDATE`;
+            const item = await tx.orderItem.findUnique({
+                where: { id: orderItemId },
+                include: {
+                    order: { select: { id: true, userId: true, updatedAt: true } },
+                    shipment: { select: { deliveredAt: true } },
+                    medicine: { select: { name: true } },
+                    returns: { where: { status: { not: ReturnStatus.REJECTED } }, select: { quantity: true } },
+                },
+            });
+            if (!item) throw new ServiceError("Order item not found", 404);
+            if (item.order.userId !== userId) throw new ServiceError("Unauthorized", 403);
+            if (item.orderItemStatus !== "DELIVERED") {
+                throw new ServiceError("Only delivered items can be returned", 400);
+            }
+
+            const deliveredAt = item.shipment?.deliveredAt ?? item.order.updatedAt;
+            const deadline = new Date(deliveredAt.getTime() + RETURN_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+            if (deadline < new Date()) {
+                throw new ServiceError(`Return window of ${RETURN_WINDOW_DAYS} days has passed`, 400);
+            }
+
+            const alreadyReturned = item.returns.reduce((sum, r) => sum + r.quantity, 0);
+            const returnable = item.quantity - alreadyReturned;
+            if (quantity > returnable) {
+                throw new ServiceError(`Only ${returnable} unit(s) of ${item.medicine.name} can be returned`, 409);
+            }
+
+            const request = await tx.returnRequest.create({
+                data: {
+                    orderId: item.orderId,
+                    orderItemId: item.id,
+                    userId,
+                    quantity,
+                    reason: reason.trim(),
+                    photos,
+                },
+                include: returnInclude,
+            });
+
+            await createReturnHistory(
+                tx,
+                request,
+                ReturnStatus.REQUESTED,
+                userId,
+                `Return requested: ${quantity} x ${item.medicine.name}`
+            );
+
+            return request;
+        });
+    } catch (err: any) {
+        if (err instanceof ServiceError) throw err;
+        console.error("createReturn error:", err);
+        throw new ServiceError("Failed to create return request", 500);
+    }
+};
+
+/**
+ * List returns:
+ * - customer: own requests
+ * - seller: requests on their medicines
+ * - admin: every request
+ */
+const listReturns = async (user: User, opts: PaginationType & { status?: string | undefined }) => {
+    const { page, limit, skip, sortBy, sortOrder, status } = opts;
+    try {
+        const where: any = {};
+        if (status) where.status = status;
+        if (user.role === "CUSTOMER") where.userId = user.id;
+        if (user.role === "SELLER") where.orderItem = { medicine: { sellerId: user.id } };
+
+        const [items, total] = await Promise.all([
+            prisma.returnRequest.findMany({
+                where,
+                skip,
+                take: limit,
+                orderBy: { [sortBy]: sortOrder },
+                include: returnInclude,
+            }),
+            prisma.returnRequest.count({ where }),
+        ]);
+
+        return {
+            items,
+            pagination: {
+                total,
+                page,
+                limit,
+                totalPages: Math.ceil(total / limit),
+            },
+        };
+    } catch (err: any) {
+        console.error("listReturns error:", err);
+        throw new ServiceError("Failed to fetch return requests", 500);
+    }
+};
+
+const getReturn = async (user: User, id: string) => {
+    try {
+        const request = await prisma.returnRequest.findUnique({
+            where: { id },
+            include: {
+                ...returnInclude,
+                user: { select: { id: true, name: true, email: true, phone: true } },
+                statusHistory: { orderBy: { changedAt: "asc" } },
+            },
+        });
+        if (!request) throw new ServiceError("Return request not found", 404);
+        if (user.role === "CUSTOMER" && request.userId !== user.id) throw new ServiceError("Unauthorized", 403);
+        assertCanManage(user, request);
+
+        return request;
+    } catch (err: any) {
+        if (err instanceof ServiceError) throw err;
+        console.error("getReturn error:", err);
+        throw new ServiceError("Failed to fetch return request", 500);
+    }
+};
+
+// Reviewer services (Admin / Seller)
+
+/**
+ * Approve or reject a return.
+ * - Approve requires the received condition: RESELLABLE units are restocked, DAMAGED are written off
+ * - Approve opens a PENDING refund linked to the order's settled payment (online or COD)
+ * - Reject requires a note
+ */
+const reviewReturn = async (user: User, id: string, data: ReviewReturnType) => {
+    const status = String(data.status ?? "").toUpperCase();
+    if (status !== ReturnStatus.APPROVED && status !== ReturnStatus.REJECTED) {
+        throw new ServiceError("status must be APPROVED or REJECTED", 400);
+    }
+    const condition = data.condition ? String(data.condition).toUpperCase() : undefined;
+    if (status === ReturnStatus.APPROVED && condition !== ReturnCondition.RESELLABLE && condition !== ReturnCondition.DAMAGED) {
+        throw new ServiceError("condition must be RESELLABLE or DAMAGED", 400);
+    }
+    if (status === ReturnStatus.REJECTED && (!data.note || String(data.note).trim() === "")) {
+        throw new ServiceError("A note is required when rejecting a return", 400);
+    }
+
+    try {
+        return await prisma.$transaction(async (tx) => {
+            const request = await tx.returnRequest.findUnique({ where: { id }, include: returnInclude });
+            if (!request) throw new ServiceError("Return request not found", 404);
+            assertCanManage(user, request);
+            if (request.status !== ReturnStatus.REQUESTED) {
+                throw new ServiceError(`Return request is already ${request.status}`, 409);
+            }
+
+            const medicineName = request.orderItem.medicine.name;
+
+            if (status === ReturnStatus.REJECTED) {
+                const rejected = await tx.returnRequest.update({
+                    where: { id },
+                    data: {
+                        status: ReturnStatus.REJECTED,
+                        reviewedBy: user.id,
+                        reviewedAt: new Date(),
+                        reviewNote: data.note ?? null,
+                    },
+                    include: returnInclude,
+                });
+                await createReturnHistory(tx, request, ReturnStatus.REJECTED, user.id, `Return rejected: ${data.note}`);
+                return rejected;
+            }
+
+            const restock = condition === ReturnCondition.RESELLABLE;
+            if (restock) {
+                await restockOrderItem(tx, { id: request.orderItemId, medicineId: request.orderItem.medicine.id }, request.quantity, {
+                    type: "RETURNED",
+                    actorId: user.id,
+                    reason: request.reason,
+                    orderId: request.orderId,
+                    returnRequestId: request.id,
+                });
+            }
+            await tx.orderItem.update({
+                where: { id: request.orderItemId },
+                data: { returnedQuantity: { increment: request.quantity } },
+            });
+
+            const payment = await tx.payment.findFirst({
+                where: { orderId: request.orderId, status: { in: [PaymentStatus.SUCCEEDED, PaymentStatus.REFUNDED] } },
+                orderBy: { createdAt: "desc" },
+            });
+
+            const order = await tx.order.findUniqueOrThrow({
+                where: { id: request.orderId },
+                select: { subtotal: true, discount: true },
+            });
+            const amount = lineRefundAmount(order, request.orderItem, request.quantity);
+
+            const approved = await tx.returnRequest.update({
+                where: { id },
+                data: {
+                    status: ReturnStatus.APPROVED,
+                    condition: condition as ReturnCondition,
+                    restocked: restock,
+                    reviewedBy: user.id,
+                    reviewedAt: new Date(),
+                    reviewNote: data.note ?? null,
+                    refund: {
+                        create: {
+                            orderId: request.orderId,
+                            paymentId: payment?.id ?? null,
+                            method: payment?.provider ?? "COD",
+                            amount,
+                        },
+                    },
+                },
+                include: returnInclude,
+            });
+
+            await createReturnHistory(
+                tx,
+                request,
+                ReturnStatus.APPROVED,
+                user.id,
+                `Return approved: ${request.quantity} x ${medicineName} (${restock ? "restocked" : "damaged, not restocked"})`
+            );
+
+            return approved;
+        });
+    } catch (err: any) {
+        if (err instanceof ServiceError) throw err;
+        console.error("reviewReturn error:", err);
+        throw new ServiceError("Failed to review return request", 500);
+    }
+};
+
+/**
+ * Mark the refund of an approved return as paid out.
+ * Once a payment is fully refunded it moves to REFUNDED.
+ */
+const completeRefund = async (user: User, id: string, data: CompleteRefundType) => {
+    try {
+        return await prisma.$transaction(async (tx) => {
+            const request = await tx.returnRequest.findUnique({ where: { id }, include: returnInclude });
+            if (!request) throw new ServiceError("Return request not found", 404);
+            assertCanManage(user, request);
+            if (request.status !== ReturnStatus.APPROVED || !request.refund) {
+                throw new ServiceError("Only approved returns can be refunded", 409);
+            }
+            if (request.refund.status === RefundStatus.COMPLETED) {
+                throw new ServiceError("Refund already completed", 409);
+            }
+
+            await tx.refund.update({
+                where: { id: request.refund.id },
+                data: {
+                    status: RefundStatus.COMPLETED,
+                    reference: data.reference ?? null,
+                    processedBy: user.id,
+                    processedAt: new Date(),
+                },
+            });
+            await debitRefund(tx, { id: request.refund.id, orderItemId: request.orderItemId, quantity: request.quantity });
+
+            await settleRefundedPayment(tx, request.refund.paymentId);
+
+            const updated = await tx.returnRequest.update({
+                where: { id },
+                data: { status: ReturnStatus.REFUNDED },
+                include: returnInclude,
+            });
+
+            // refunds are in the order's checkout currency
+            const order = await tx.order.findUnique({ where: { id: request.orderId }, select: { currency: true } });
+            await createReturnHistory(
+                tx,
+                request,
+                ReturnStatus.REFUNDED,
+                user.id,
+                `Refund of ${formatMoney(request.refund.amount, order?.currency)} issued via ${request.refund.method}`
+            );
+
+            return updated;
+        });
+    } catch (err: any) {
+        if (err instanceof ServiceError) throw err;
+        console.error("completeRefund error:", err);
+        throw new ServiceError("Failed to complete refund", 500);
+    }
+};
+
+export const returnService = {
+    createReturn,
+    listReturns,
+    getReturn,
+    reviewReturn,
+    completeRefund,
+};
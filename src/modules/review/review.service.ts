@@ -1,14 +1,9 @@
 import { prisma } from "../../lib/prisma";
+import { ServiceError } from "../../lib/error";
 import type { User } from "../../generated/prisma/client";
+import { refreshSellerRating } from "../seller/seller.service";
 
-export class ServiceError extends Error {
-    statusCode: number;
-    constructor(message: string, statusCode = 400) {
-        super(message);
-        this.statusCode = statusCode;
-        Object.setPrototypeOf(this, ServiceError.prototype);
-    }
-}
+export { ServiceError };
 
 type ReviewType = {
     rating?: any;
@@ -72,6 +67,7 @@ const createReview = async (userId: string, medicineId: string, data: ReviewType
                     comment,
                 },
             });
+            await refreshSellerRating(tx, medicineId);
 
             // aggregate meta
             const agg = await tx.review.aggregate({
@@ -117,6 +113,7 @@ const updateReview = async (user: User, medicineId: string, data: ReviewType) =>
                 where: { id: existing.id },
                 data
             });
+            await refreshSellerRating(tx, medicineId);
 
             const agg = await tx.review.aggregate({
                 where: { medicineId },
@@ -150,6 +147,7 @@ const deleteReview = async (user: User, reviewId: string) => {
             }
 
             await tx.review.delete({ where: { id: reviewId } });
+            await refreshSellerRating(tx, existing.medicineId);
 
             // optional: recompute average for the medicine and return it (not required)
             return;
@@ -0,0 +1,64 @@
+import { Request, Response } from "express";
+import { sellerService } from "./seller.service";
+import { ServiceError } from "../../lib/error";
+import paginationSortingHelpers from "../../helpers/paginationSortingHelpers";
+
+const send = (res: Response, code: number, message: string, data?: any) =>
+    res.status(code).json({ message, data });
+
+const sendError = (res: Response, err: any, fallback: string) => {
+    const status = err instanceof ServiceError ? err.statusCode : 500;
+    const message = err?.message || fallback;
+    const details = err instanceof ServiceError ? err.details : undefined;
+    return res.status(status).json({ message, details });
+};
+
+const getMyProfile = async (req: Request, res: Response) => {
+    try {
+        const user = (req as any).user;
+        if (!user?.id) return send(res, 401, "Unauthorized");
+
+        const profile = await sellerService.getMyProfile(user.id);
+        return send(res, 200, "Storefront fetched", profile);
+    } catch (err) {
+        return sendError(res, err, "Failed to fetch storefront");
+    }
+};
+
+/**
+ * PUT /api/sellers/me
+ * body: { storeName, slug?, logoUrl?, description?, address?,
+ *   operatingHours?: { mon: { open: "09:00", close: "21:00" }, ..., sun: null } }
+ */
+const upsertProfile = async (req: Request, res: Response) => {
+    try {
+        const user = (req as any).user;
+        if (!user?.id) return send(res, 401, "Unauthorized");
+
+        const profile = await sellerService.upsertProfile(user, req.body ?? {});
+        return send(res, 200, "Storefront saved", profile);
+    } catch (err) {
+        return sendError(res, err, "Failed to save storefront");
+    }
+};
+
+/**
+ * GET /api/sellers/:slug?page=&limit=&sortBy=&sortOrder=&currency=
+ */
+const getStorefront = async (req: Request, res: Response) => {
+    try {
+        const { page, limit, skip, sortBy, sortOrder } = paginationSortingHelpers(req.query);
+        const currency = typeof req.query.currency === "string" ? req.query.currency : undefined;
+
+        const data = await sellerService.getStorefront(req.params.slug as string, { page, limit, skip, sortBy, sortOrder, currency });
+        return send(res, 200, "Store fetched", data);
+    } catch (err) {
+        return sendError(res, err, "Failed to fetch store");
+    }
+};
+
+export const sellerController = {
+    getMyProfile,
+    upsertProfile,
+    getStorefront,
+};
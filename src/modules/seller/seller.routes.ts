@@ -0,0 +1,15 @@
+import { Router } from "express";
+import { sellerController } from "./seller.controller";
+import auth from "../../middleware/auth";
+import { UserRole } from "../../types";
+
+const router = Router();
+
+// Seller: own storefront
+router.get("/me", auth(UserRole.SELLER), sellerController.getMyProfile);
+router.put("/me", auth(UserRole.SELLER), sellerController.upsertProfile);
+
+// Public store page
+router.get("/:slug", sellerController.getStorefront);
+
+export const sellerRouter = router;
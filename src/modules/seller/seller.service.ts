@@ -0,0 +1,251 @@
+import { prisma } from "../../lib/prisma";
+import { ServiceError } from "../../lib/error";
+import type { User } from "../../generated/prisma/client";
+import { medicineService } from "../medicine/medicine.service";
+
+type OpeningHours = { open: string; close: string } | null;
+
+type ProfileInputType = {
+    storeName?: string;
+    slug?: string | null;
+    logoUrl?: string | null;
+    description?: string | null;
+    address?: string | null;
+    operatingHours?: Record<string, OpeningHours> | null;
+};
+
+type StorefrontOptions = {
+    page: number;
+    limit: number;
+    skip: number;
+    sortBy: string;
+    sortOrder: string;
+    currency?: string | undefined;
+};
+
+const DAYS = ["mon", "tue", "wed", "thu", "fri", "sat", "sun"];
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/** simple slugify helper */
+const slugify = (s: string) =>
+    s
+        .toString()
+        .trim()
+        .toLowerCase()
+        .replace(/[^a-z0-9\- ]+/g, "")
+        .replace(/\s+/g, "-")
+        .replace(/\-+/g, "-")
+        .replace(/^-|-$/g, "");
+
+const ensureUniqueSlug = async (base: string, userId: string) => {
+    let candidate = base;
+    let i = 1;
+    // loop until the slug is free (or already ours)
+    while (true) {
+        const exists = await prisma.sellerProfile.findUnique({ where: { slug: candidate }, select: { userId: true } });
+        if (!exists || exists.userId === userId) return candidate;
+        candidate = `${base}-${i++}`;
+    }
+};
+
+/** Helper: trimmed text; undefined when absent, null when cleared */
+const optionalText = (value: unknown, field: string, max: number) => {
+    if (value === undefined) return undefined;
+    if (value === null) return null;
+    if (typeof value !== "string") throw new ServiceError(`${field} must be text`, 400);
+    const text = value.trim();
+    if (text.length > max) throw new ServiceError(`${field} must be at most ${max} characters`, 400);
+    return text || null;
+};
+
+/** Helper: { mon: { open: "09:00", close: "21:00" }, ..., sun: null }; missing days are closed */
+const validateOperatingHours = (hours: unknown) => {
+    if (hours === undefined) return undefined;
+    if (hours === null) return null;
+    if (typeof hours !== "object" || Array.isArray(hours)) {
+        throw new ServiceError(`operatingHours must be an object keyed by ${DAYS.join(", ")}`, 400);
+    }
+    const unknownDay = Object.keys(hours).find((day) => !DAYS.includes(day.toLowerCase()));
+    if (unknownDay) throw new ServiceError(`Unknown day "${unknownDay}" in operatingHours`, 400);
+
+    const entries = Object.fromEntries(Object.entries(hours).map(([day, value]) => [day.toLowerCase(), value]));
+    const parsed: Record<string, OpeningHours> = {};
+    for (const day of DAYS) {
+        const value = entries[day];
+        if (value === undefined || value === null) {
+            parsed[day] = null;
+            continue;
+        }
+        const { open, close } = value as { open?: unknown; close?: unknown };
+        if (typeof open !== "string" || typeof close !== "string" || !TIME_PATTERN.test(open) || !TIME_PATTERN.test(close)) {
+            throw new ServiceError(`operatingHours.${day} needs open and close times as HH:MM`, 400);
+        }
+        if (open >= close) throw new ServiceError(`operatingHours.${day}: open must be before close`, 400);
+        parsed[day] = { open, close };
+    }
+    return parsed;
+};
+
+/**
+ * Helper: recompute the cached rating of the seller who lists the medicine.
+ * Call after a review of that medicine is created, changed or removed.
+ */
+export const refreshSellerRating = async (tx: any, medicineId: string) => {
+    const medicine = await tx.medicine.findUnique({ where: { id: medicineId }, select: { sellerId: true } });
+    if (!medicine?.sellerId) return;
+
+    const agg = await tx.review.aggregate({
+        where: { medicine: { sellerId: medicine.sellerId } },
+        _avg: { rating: true },
+        _count: { rating: true },
+    });
+    await tx.sellerProfile.updateMany({
+        where: { userId: medicine.sellerId },
+        data: { rating: agg._avg.rating ?? null, reviewCount: agg._count.rating ?? 0 },
+    });
+};
+
+const getMyProfile = async (userId: string) => {
+    const profile = await prisma.sellerProfile.findUnique({ where: { userId } });
+    if (!profile) throw new ServiceError("You have not set up a storefront yet", 404);
+    return profile;
+};
+
+/**
+ * Create or update the caller's storefront.
+ * The slug defaults to the store name and stays fixed unless a new one is sent.
+ */
+const upsertProfile = async (user: User, data: ProfileInputType) => {
+    const existing = await prisma.sellerProfile.findUnique({ where: { userId: user.id } });
+
+    const storeName = optionalText(data.storeName, "storeName", 100);
+    if (storeName === null || (!existing && !storeName)) throw new ServiceError("storeName is required", 400);
+    const logoUrl = optionalText(data.logoUrl, "logoUrl", 500);
+    if (logoUrl && !/^https?:\/\//i.test(logoUrl)) throw new ServiceError("logoUrl must be an http(s) URL", 400);
+    const description = optionalText(data.description, "description", 2000);
+    const address = optionalText(data.address, "address", 500);
+    const operatingHours = validateOperatingHours(data.operatingHours);
+
+    const requestedSlug = optionalText(data.slug, "slug", 60);
+    if (requestedSlug !== undefined && requestedSlug !== null && !slugify(requestedSlug)) {
+        throw new ServiceError("slug must contain letters or digits", 400);
+    }
+
+    try {
+        let slug: string | undefined;
+        if (requestedSlug) {
+            slug = slugify(requestedSlug);
+            const taken = await prisma.sellerProfile.findUnique({ where: { slug } });
+            if (taken && taken.userId !== user.id) throw new ServiceError("This store URL is already taken", 409);
+        } else if (!existing || requestedSlug === null) {
+            slug = await ensureUniqueSlug(slugify(storeName ?? existing!.storeName) || "store", user.id);
+        }
+
+        const fields: any = {};
+        if (storeName !== undefined) fields.storeName = storeName;
+        if (slug !== undefined) fields.slug = slug;
+        if (logoUrl !== undefined) fields.logoUrl = logoUrl;
+        if (description !== undefined) fields.description = description;
+        if (address !== undefined) fields.address = address;
+        if (operatingHours !== undefined) fields.operatingHours = operatingHours;
+
+        return await prisma.$transaction(async (tx) => {
+            const profile = await tx.sellerProfile.upsert({
+                where: { userId: user.id },
+                create: { ...fields, userId: user.id },
+                update: fields,
+            });
+            if (existing) return profile;
+
+            // a new storefront starts with the reviews the seller already has
+            const agg = await tx.review.aggregate({
+                where: { medicine: { sellerId: user.id } },
+                _avg: { rating: true },
+                _count: { rating: true },
+            });
+            return await tx.sellerProfile.update({
+                where: { id: profile.id },
+                data: { rating: agg._avg.rating ?? null, reviewCount: agg._count.rating ?? 0 },
+            });
+        });
+    } catch (err: any) {
+        if (err instanceof ServiceError) throw err;
+        if (err?.code === "P2002") throw new ServiceError("This store URL is already taken", 409);
+        console.error("upsertProfile error:", err);
+        throw new ServiceError("Failed to save storefront", 500);
+    }
+};
+
+/** Helper: shipment outcomes and average hours from order to dispatch */
+const fulfilmentStats = async (sellerId: string) => {
+    const [byStatus, [dispatch]] = await Promise.all([
+        prisma.shipment.groupBy({ by: ["status"], where: { sellerId }, _count: { _all: true } }),
+        prisma.$queryRaw<{ hours: number | null }[]>`
+            SELECT (AVG(EXTRACT(EPOCH FROM ("shippedAt" - "createdAt"))) / 3600)::float8 AS hours
+            FROM "shipment" WHERE "sellerId" = ${sellerId} AND "shippedAt" IS NOT NULL`,
+    ]);
+
+    const count = (status: string) => byStatus.find((s) => s.status === status)?._count._all ?? 0;
+    const delivered = count("DELIVERED");
+    const cancelled = count("CANCELLED");
+    const hours = dispatch?.hours ?? null;
+    return {
+        totalOrders: byStatus.reduce((sum, s) => sum + s._count._all, 0),
+        delivered,
+        cancelled,
+        // share of closed orders that were delivered rather than cancelled
+        fulfilmentRate: delivered + cancelled ? Math.round((delivered / (delivered + cancelled)) * 1000) / 10 : null,
+        avgDispatchHours: hours === null ? null : Math.round(hours * 10) / 10,
+    };
+};
+
+/** Public storefront: profile, rating, fulfilment stats and a page of active medicines */
+const getStorefront = async (slug: string, opts: StorefrontOptions) => {
+    const profile = await prisma.sellerProfile.findUnique({
+        where: { slug: slug.toLowerCase() },
+        include: { user: { select: { id: true, name: true, image: true, role: true, status: true } } },
+    });
+    if (!profile || profile.user.role !== "SELLER" || profile.user.status === "BAN") {
+        throw new ServiceError("Store not found", 404);
+    }
+
+    try {
+        const { user, userId, ...store } = profile;
+        const [fulfilment, medicines] = await Promise.all([
+            fulfilmentStats(userId),
+            medicineService.getAllMedicines({
+                search: undefined,
+                category: undefined,
+                manufacturer: undefined,
+                sellerId: userId,
+                minPrice: undefined,
+                maxPrice: undefined,
+                inStock: undefined,
+                isFeatured: undefined,
+                currency: opts.currency,
+                page: opts.page,
+                limit: opts.limit,
+                skip: opts.skip,
+                sortBy: opts.sortBy,
+                sortOrder: opts.sortOrder,
+            }),
+        ]);
+
+        return {
+            store: { ...store, seller: { id: user.id, name: user.name, image: user.image } },
+            rating: { average: store.rating, reviewCount: store.reviewCount },
+            fulfilment,
+            medicines: { items: medicines.data, pagination: medicines.pagination },
+        };
+    } catch (err: any) {
+        if (err instanceof ServiceError) throw err;
+        console.error("getStorefront error:", err);
+        throw new ServiceError("Failed to fetch store", 500);
+    }
+};
+
+export const sellerService = {
+    getMyProfile,
+    upsertProfile,
+    getStorefront,
+};
@@ -0,0 +1,60 @@
+import { Request, Response } from "express";
+import { shippingService } from "./shipping.service";
+import { ServiceError } from "../../lib/error";
+
+const send = (res: Response, code: number, message: string, data?: any) =>
+    res.status(code).json({ message, data });
+
+const sendError = (res: Response, err: any, fallback: string) => {
+    const status = err instanceof ServiceError ? err.statusCode : 500;
+    const message = err?.message || fallback;
+    const details = err instanceof ServiceError ? err.details : undefined;
+    return res.status(status).json({ message, details });
+};
+
+const listZones = async (_req: Request, res: Response) => {
+    try {
+        const zones = await shippingService.listZones();
+        return send(res, 200, "Shipping zones fetched", zones);
+    } catch (err) {
+        return sendError(res, err, "Failed to fetch shipping zones");
+    }
+};
+
+/**
+ * POST /api/shipping-zones
+ * body: { name, areas, feeType, baseFee, baseWeightGrams?, perKgFee?, freeShippingThreshold?, isDefault? }
+ */
+const createZone = async (req: Request, res: Response) => {
+    try {
+        const zone = await shippingService.createZone(req.body ?? {});
+        return send(res, 201, "Shipping zone created", zone);
+    } catch (err) {
+        return sendError(res, err, "Failed to create shipping zone");
+    }
+};
+
+const updateZone = async (req: Request, res: Response) => {
+    try {
+        const zone = await shippingService.updateZone(req.params.id as string, req.body ?? {});
+        return send(res, 200, "Shipping zone updated", zone);
+    } catch (err) {
+        return sendError(res, err, "Failed to update shipping zone");
+    }
+};
+
+const deleteZone = async (req: Request, res: Response) => {
+    try {
+        await shippingService.deleteZone(req.params.id as string);
+        return send(res, 200, "Shipping zone deleted");
+    } catch (err) {
+        return sendError(res, err, "Failed to delete shipping zone");
+    }
+};
+
+export const shippingController = {
+    listZones,
+    createZone,
+    updateZone,
+    deleteZone,
+};
@@ -0,0 +1,16 @@
+import { Router } from "express";
+import { shippingController } from "./shipping.controller";
+import auth from "../../middleware/auth";
+import { UserRole } from "../../types";
+
+const router = Router();
+
+// Public: active delivery zones
+router.get("/", shippingController.listZones);
+
+// Admin: manage zones
+router.post("/", auth(UserRole.ADMIN), shippingController.createZone);
+router.patch("/:id", auth(UserRole.ADMIN), shippingController.updateZone);
+router.delete("/:id", auth(UserRole.ADMIN), shippingController.deleteZone);
+
+export const shippingRouter = router;
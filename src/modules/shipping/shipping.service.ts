@@ -0,0 +1,165 @@
+import { prisma } from "../../lib/prisma";
+import { ServiceError } from "../../lib/error";
+import type { ShippingZone } from "../../generated/prisma/client";
+import { ShippingFeeType } from "../../generated/prisma/enums";
+import { addMoney, money, multiplyMoney, parseMoney, ZERO, type MoneyInput } from "../../lib/money";
+
+type ZoneInputType = {
+    name?: string;
+    areas?: string[];
+    isDefault?: boolean;
+    feeType?: string;
+    baseFee?: number | string;
+    baseWeightGrams?: number | string | null;
+    perKgFee?: number | string | null;
+    freeShippingThreshold?: number | string | null;
+    isActive?: boolean;
+};
+
+const normalizeAreas = (areas?: string[]) =>
+    Array.isArray(areas)
+        ? [...new Set(areas.filter((a) => typeof a === "string" && a.trim() !== "").map((a) => a.trim().toLowerCase()))]
+        : undefined;
+
+const optionalMoney = (value: any, field: string) => {
+    if (value === undefined) return undefined;
+    if (value === null || value === "") return null;
+    return parseMoney(value, field)!;
+};
+
+const optionalGrams = (value: any, field: string) => {
+    if (value === undefined) return undefined;
+    if (value === null || value === "") return null;
+    const n = Number(value);
+    if (!Number.isInteger(n) || n < 0) throw new ServiceError(`${field} must be a non-negative whole number`, 400);
+    return n;
+};
+
+/**
+ * Helper: delivery zone for a shipping address.
+ * First active zone with an area keyword found in the address wins, else the default zone.
+ * Returns null when no zones are configured (delivery is free); 400 when none covers the address.
+ */
+export const resolveShippingZone = async (tx: any, address: string): Promise<ShippingZone | null> => {
+    const zones: ShippingZone[] = await tx.shippingZone.findMany({
+        where: { isActive: true },
+        orderBy: { createdAt: "asc" },
+    });
+    if (zones.length === 0) return null;
+
+    const haystack = address.toLowerCase();
+    const matched = zones.find((z) => z.areas.some((area) => haystack.includes(area)));
+    const zone = matched ?? zones.find((z) => z.isDefault);
+    if (!zone) throw new ServiceError("Delivery is not available for this address", 400);
+    return zone;
+};
+
+/**
+ * Helper: delivery fee of a zone for a parcel.
+ * - FLAT: baseFee
+ * - WEIGHT_BASED: baseFee + perKgFee for every started kg above baseWeightGrams
+ * - free once subtotal reaches freeShippingThreshold
+ */
+export const calculateShippingFee = (zone: ShippingZone | null, parcel: { subtotal: MoneyInput; weightGrams: number }) => {
+    if (!zone) return ZERO;
+    if (zone.freeShippingThreshold !== null && money(parcel.subtotal).greaterThanOrEqualTo(zone.freeShippingThreshold)) return ZERO;
+    if (zone.feeType === ShippingFeeType.FLAT) return zone.baseFee;
+
+    const extraGrams = Math.max(0, parcel.weightGrams - (zone.baseWeightGrams ?? 0));
+    return addMoney(zone.baseFee, multiplyMoney(zone.perKgFee ?? 0, Math.ceil(extraGrams / 1000)));
+};
+
+const validateZone = (data: ZoneInputType, existing?: ShippingZone) => {
+    const feeType = (data.feeType === undefined ? existing?.feeType : String(data.feeType).toUpperCase()) as ShippingFeeType;
+    if (!Object.values(ShippingFeeType).includes(feeType)) {
+        throw new ServiceError(`feeType must be one of ${Object.values(ShippingFeeType).join(", ")}`, 400);
+    }
+
+    const baseFee = optionalMoney(data.baseFee, "baseFee");
+    if (!existing && (baseFee === undefined || baseFee === null)) throw new ServiceError("baseFee is required", 400);
+
+    const perKgFee = optionalMoney(data.perKgFee, "perKgFee");
+    if (feeType === ShippingFeeType.WEIGHT_BASED && (perKgFee === undefined ? existing?.perKgFee ?? null : perKgFee) === null) {
+        throw new ServiceError("perKgFee is required for WEIGHT_BASED zones", 400);
+    }
+
+    const zone: any = {
+        name: data.name?.trim(),
+        areas: normalizeAreas(data.areas),
+        isDefault: typeof data.isDefault === "boolean" ? data.isDefault : undefined,
+        feeType,
+        baseFee: baseFee ?? undefined,
+        baseWeightGrams: optionalGrams(data.baseWeightGrams, "baseWeightGrams"),
+        perKgFee,
+        freeShippingThreshold: optionalMoney(data.freeShippingThreshold, "freeShippingThreshold"),
+        isActive: typeof data.isActive === "boolean" ? data.isActive : undefined,
+    };
+    return zone;
+};
+
+const listZones = async () => {
+    try {
+        return await prisma.shippingZone.findMany({
+            where: { isActive: true },
+            orderBy: { createdAt: "asc" },
+        });
+    } catch (err: any) {
+        console.error("listZones error:", err);
+        throw new ServiceError("Failed to fetch shipping zones", 500);
+    }
+};
+
+/** Create zone; only one zone can be the default */
+const createZone = async (data: ZoneInputType) => {
+    if (!data.name || data.name.trim() === "") throw new ServiceError("name is required", 400);
+    const zone = validateZone(data);
+
+    try {
+        return await prisma.$transaction(async (tx) => {
+            if (zone.isDefault) await tx.shippingZone.updateMany({ data: { isDefault: false } });
+            return await tx.shippingZone.create({
+                data: { ...zone, areas: zone.areas ?? [] },
+            });
+        });
+    } catch (err: any) {
+        if (err?.code === "P2002") throw new ServiceError("Shipping zone name already exists", 409);
+        console.error("createZone error:", err);
+        throw new ServiceError("Failed to create shipping zone", 500);
+    }
+};
+
+const updateZone = async (id: string, data: ZoneInputType) => {
+    const existing = await prisma.shippingZone.findUnique({ where: { id } });
+    if (!existing) throw new ServiceError("Shipping zone not found", 404);
+    const zone = validateZone(data, existing);
+
+    try {
+        return await prisma.$transaction(async (tx) => {
+            if (zone.isDefault) await tx.shippingZone.updateMany({ where: { id: { not: id } }, data: { isDefault: false } });
+            return await tx.shippingZone.update({ where: { id }, data: zone });
+        });
+    } catch (err: any) {
+        if (err?.code === "P2002") throw new ServiceError("Shipping zone name already exists", 409);
+        console.error("updateZone error:", err);
+        throw new ServiceError("Failed to update shipping zone", 500);
+    }
+};
+
+/** Delete zone; past orders keep their stored fees */
+const deleteZone = async (id: string) => {
+    const existing = await prisma.shippingZone.findUnique({ where: { id } });
+    if (!existing) throw new ServiceError("Shipping zone not found", 404);
+    try {
+        return await prisma.shippingZone.delete({ where: { id } });
+    } catch (err: any) {
+        console.error("deleteZone error:", err);
+        throw new ServiceError("Failed to delete shipping zone", 500);
+    }
+};
+
+export const shippingService = {
+    listZones,
+    createZone,
+    updateZone,
+    deleteZone,
+};
@@ -0,0 +1,72 @@
+import { Request, Response } from "express";
+import { stockService } from "./stock.service";
+import { ServiceError } from "../../lib/error";
+import paginationSortingHelpers from "../../helpers/paginationSortingHelpers";
+
+const send = (res: Response, code: number, message: string, data?: any) =>
+    res.status(code).json({ message, data });
+
+const sendError = (res: Response, err: any, fallback: string) => {
+    const status = err instanceof ServiceError ? err.statusCode : 500;
+    const message = err?.message || fallback;
+    const details = err instanceof ServiceError ? err.details : undefined;
+    return res.status(status).json({ message, details });
+};
+
+/**
+ * GET /api/stock/medicines/:medicineId/movements
+ * Ledger of one medicine (query: type?, page, limit)
+ */
+const getMedicineMovements = async (req: Request, res: Response) => {
+    try {
+        const user = (req as any).user;
+        if (!user?.id) return send(res, 401, "Unauthorized");
+
+        const type = typeof req.query.type === "string" ? req.query.type.trim().toUpperCase() : undefined;
+        const { page, limit, skip, sortBy, sortOrder } = paginationSortingHelpers(req.query);
+
+        const data = await stockService.getMedicineMovements(user, req.params.medicineId as string, {
+            page,
+            limit,
+            skip,
+            sortBy,
+            sortOrder,
+            type,
+        });
+        return send(res, 200, "Stock movements fetched", data);
+    } catch (err) {
+        return sendError(res, err, "Failed to fetch stock movements");
+    }
+};
+
+const getDriftReport = async (req: Request, res: Response) => {
+    try {
+        const user = (req as any).user;
+        if (!user?.id) return send(res, 401, "Unauthorized");
+
+        const data = await stockService.getDriftReport(user);
+        return send(res, 200, "Stock drift report fetched", data);
+    } catch (err) {
+        return sendError(res, err, "Failed to fetch stock drift report");
+    }
+};
+
+/**
+ * POST /api/stock/reconcile
+ * Admin runs the reconciliation job on demand (body: { sellerId? })
+ */
+const reconcileStock = async (req: Request, res: Response) => {
+    try {
+        const { sellerId } = req.body ?? {};
+        const result = await stockService.reconcileStock({ sellerId });
+        return send(res, 200, "Stock reconciled", result);
+    } catch (err) {
+        return sendError(res, err, "Failed to reconcile stock");
+    }
+};
+
+export const stockController = {
+    getMedicineMovements,
+    getDriftReport,
+    reconcileStock,
+};
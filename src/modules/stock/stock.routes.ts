@@ -0,0 +1,12 @@
+import { Router } from "express";
+import { stockController } from "./stock.controller";
+import auth from "../../middleware/auth";
+import { UserRole } from "../../types";
+
+const router = Router();
+
+router.get("/medicines/:medicineId/movements", auth(UserRole.SELLER, UserRole.ADMIN), stockController.getMedicineMovements);
+router.get("/drift", auth(UserRole.SELLER, UserRole.ADMIN), stockController.getDriftReport);
+router.post("/reconcile", auth(UserRole.ADMIN), stockController.reconcileStock);
+
+export const stockRouter = router;
@@ -0,0 +1,180 @@
+import { prisma } from "../../lib/prisma";
+import { ServiceError } from "../../lib/error";
+import type { User } from "../../generated/prisma/client";
+import { StockMovementType } from "../../generated/prisma/enums";
+
+type StockMovementInput = {
+    medicineId: string;
+    batchId?: string | null | undefined;
+    type: StockMovementType;
+    quantity: number; // signed delta
+    actorId?: string | null | undefined;
+    reason?: string | null | undefined;
+    orderId?: string | null | undefined;
+    returnRequestId?: string | null | undefined;
+};
+
+type PaginationType = {
+    page: number,
+    limit: number,
+    skip: number,
+    sortBy: string,
+    sortOrder: string,
+}
+
+/**
+ * The only way stock changes: apply a signed delta to Medicine.stock (and the
+ * batch, when given) and append the matching ledger row. Rejects (409) a
+ * movement that would take stock below zero, so concurrent checkouts cannot oversell.
+ * Must be called inside a transaction.
+ */
+export const recordStockMovement = async (tx: any, movement: StockMovementInput) => {
+    if (!Number.isInteger(movement.quantity) || movement.quantity === 0) return null;
+
+    if (movement.batchId) {
+        const batch = await tx.medicineBatch.update({
+            where: { id: movement.batchId },
+            data: { quantity: { increment: movement.quantity } },
+            select: { quantity: true, batchNumber: true },
+        });
+        if (batch.quantity < 0) throw new ServiceError(`Insufficient stock in batch ${batch.batchNumber}`, 409);
+    }
+
+    const medicine = await tx.medicine.update({
+        where: { id: movement.medicineId },
+        data: { stock: { increment: movement.quantity } },
+        select: { stock: true, name: true },
+    });
+    if (medicine.stock < 0) throw new ServiceError(`Insufficient stock for ${medicine.name}`, 409);
+
+    return await tx.stockMovement.create({
+        data: {
+            medicineId: movement.medicineId,
+            batchId: movement.batchId ?? null,
+            type: movement.type,
+            quantity: movement.quantity,
+            balanceAfter: medicine.stock,
+            actorId: movement.actorId ?? null,
+            reason: movement.reason ?? null,
+            orderId: movement.orderId ?? null,
+            returnRequestId: movement.returnRequestId ?? null,
+        },
+    });
+};
+
+/**
+ * Movement history of one medicine, newest first.
+ * Seller may only view their own medicines.
+ */
+const getMedicineMovements = async (
+    user: User,
+    medicineId: string,
+    opts: PaginationType & { type?: string | undefined }
+) => {
+    const { page, limit, skip, type } = opts;
+
+    const medicine = await prisma.medicine.findUnique({
+        where: { id: medicineId },
+        select: { id: true, name: true, stock: true, stockDrift: true, stockReconciledAt: true, sellerId: true },
+    });
+    if (!medicine) throw new ServiceError("Medicine not found", 404);
+    if (user.role === "SELLER" && medicine.sellerId !== user.id) throw new ServiceError("Unauthorized", 403);
+
+    if (type && !Object.values(StockMovementType).includes(type as StockMovementType)) {
+        throw new ServiceError(`type must be one of ${Object.values(StockMovementType).join(", ")}`, 400);
+    }
+
+    try {
+        const where: any = { medicineId };
+        if (type) where.type = type;
+
+        const [items, total] = await Promise.all([
+            prisma.stockMovement.findMany({
+                where,
+                skip,
+                take: limit,
+                orderBy: { createdAt: "desc" },
+                include: { actor: { select: { id: true, name: true, role: true } } },
+            }),
+            prisma.stockMovement.count({ where }),
+        ]);
+
+        return {
+            medicine,
+            items,
+            pagination: {
+                total,
+                page,
+                limit,
+                totalPages: Math.ceil(total / limit),
+            },
+        };
+    } catch (err: any) {
+        console.error("getMedicineMovements error:", err);
+        throw new ServiceError("Failed to fetch stock movements", 500);
+    }
+};
+
+/**
+ * Reconciliation job: compare every medicine's stock with its ledger balance
+ * and store the difference in stockDrift. Stock is not corrected here; drift
+ * is surfaced for a seller/admin ADJUSTMENT.
+ */
+const reconcileStock = async (opts: { sellerId?: string | undefined } = {}) => {
+    try {
+        const medicines = await prisma.medicine.findMany({
+            where: opts.sellerId ? { sellerId: opts.sellerId } : {},
+            select: { id: true, name: true, stock: true, sellerId: true },
+        });
+        const balances = await prisma.stockMovement.groupBy({
+            by: ["medicineId"],
+            where: { medicineId: { in: medicines.map((m) => m.id) } },
+            _sum: { quantity: true },
+        });
+        const balanceById = new Map(balances.map((b) => [b.medicineId, b._sum.quantity ?? 0]));
+
+        const reconciledAt = new Date();
+        const drifted = [];
+        for (const medicine of medicines) {
+            const ledgerBalance = balanceById.get(medicine.id) ?? 0;
+            const drift = medicine.stock - ledgerBalance;
+            await prisma.medicine.update({
+                where: { id: medicine.id },
+                data: { stockDrift: drift, stockReconciledAt: reconciledAt },
+            });
+            if (drift !== 0) drifted.push({ ...medicine, ledgerBalance, drift });
+        }
+
+        if (drifted.length > 0) {
+            console.warn(`Stock reconciliation: ${drifted.length} medicine(s) drifted from the ledger`);
+        }
+
+        return { checked: medicines.length, reconciledAt, drifted };
+    } catch (err: any) {
+        console.error("reconcileStock error:", err);
+        throw new ServiceError("Failed to reconcile stock", 500);
+    }
+};
+
+/** Medicines flagged by the last reconciliation (seller: own only) */
+const getDriftReport = async (user: User) => {
+    try {
+        const where: any = { stockDrift: { not: 0 } };
+        if (user.role === "SELLER") where.sellerId = user.id;
+
+        return await prisma.medicine.findMany({
+            where,
+            orderBy: { stockReconciledAt: "desc" },
+            select: { id: true, name: true, stock: true, stockDrift: true, stockReconciledAt: true, sellerId: true },
+        });
+    } catch (err: any) {
+        console.error("getDriftReport error:", err);
+        throw new ServiceError("Failed to fetch stock drift report", 500);
+    }
+};
+
+export const stockService = {
+    getMedicineMovements,
+    reconcileStock,
+    getDriftReport,
+};
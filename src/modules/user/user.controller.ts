@@ -8,7 +8,8 @@ const send = (res: Response, code: number, message: string, data?: any) =>
 const sendError = (res: Response, err: any, fallback: string) => {
     const status = err instanceof ServiceError ? err.statusCode : 500;
     const message = err?.message || fallback;
-    return res.status(status).json({ message });
+    const details = err instanceof ServiceError ? err.details : undefined;
+    return res.status(status).json({ message, details });
 };
 
 
@@ -38,19 +39,28 @@ const getAllUsers = async (req: Request, res: Response) => {
     }
 };
 
-// Ban/Unban user
+// Ban/Unban user (body: { status, banReason?, banExpires? })
 const updateUserStatus = async (req: Request, res: Response) => {
     try {
         const { id } = req.params;
-        const { status } = req.body;
+        const { status, banReason, banExpires } = req.body ?? {};
 
         if (status !== UserStatus.BAN && status !== UserStatus.UNBAN) {
             return res.status(400).json({ message: "Invalid status" });
         }
 
-        await userService.updateUserStatus(id as string, status as UserStatus);
+        const expiresAt = banExpires ? new Date(banExpires) : null;
+        if (expiresAt && Number.isNaN(expiresAt.getTime())) {
+            return res.status(400).json({ message: "Invalid banExpires" });
+        }
+        if (banReason !== undefined && banReason !== null && typeof banReason !== "string") {
+            return res.status(400).json({ message: "Invalid banReason" });
+        }
 
-        const updatedUser = await userService.updateUserStatus(id as string, status);
+        const updatedUser = await userService.updateUserStatus(id as string, status as UserStatus, {
+            reason: banReason,
+            expiresAt,
+        });
         return send(res, 200, "User status updated successfully", updatedUser);
     } catch (err) {
         return sendError(res, err, "Failed to update user status");
@@ -1,14 +1,8 @@
 import { UserStatus } from "../../generated/prisma/enums";
 import { prisma } from "../../lib/prisma";
+import { ServiceError } from "../../lib/error";
 
-export class ServiceError extends Error {
-    statusCode: number;
-    constructor(message: string, statusCode = 400) {
-        super(message);
-        this.statusCode = statusCode;
-        Object.setPrototypeOf(this, ServiceError.prototype);
-    }
-}
+export { ServiceError };
 
 // Get all users (customers + sellers)
 type UserFilters = {
@@ -48,6 +42,8 @@ const getAllUsers = async (filters: UserFilters = {}) => {
                     email: true,
                     role: true,
                     status: true,
+                    banReason: true,
+                    banExpires: true,
                     image: true,
                     createdAt: true,
                 }
@@ -70,17 +66,48 @@ const getAllUsers = async (filters: UserFilters = {}) => {
     }
 };
 
-// Update user status (ban/unban)
-const updateUserStatus = async (id: string, status: UserStatus) => {
+type BanOptions = {
+    reason?: string | null | undefined;
+    expiresAt?: Date | null | undefined;
+};
+
+/**
+ * Update user status (ban/unban)
+ * - BAN stores optional reason/expiry (temporary suspension) and revokes every session
+ * - UNBAN clears reason/expiry
+ */
+const updateUserStatus = async (id: string, status: UserStatus, options: BanOptions = {}) => {
+    const { reason, expiresAt } = options;
+    if (status === UserStatus.BAN && expiresAt && expiresAt <= new Date()) {
+        throw new ServiceError("banExpires must be in the future", 400);
+    }
+
     try {
         const user = await prisma.user.findUnique({ where: { id } });
         if (!user) throw new ServiceError("User not found", 404);
 
-        return await prisma.user.update({
-            where: { id },
-            data: { status },
-        });
+        if (status === UserStatus.UNBAN) {
+            return await prisma.user.update({
+                where: { id },
+                data: { status, banReason: null, banExpires: null },
+            });
+        }
+
+        const [updated] = await prisma.$transaction([
+            prisma.user.update({
+                where: { id },
+                data: {
+                    status,
+                    banReason: reason ?? null,
+                    banExpires: expiresAt ?? null,
+                },
+            }),
+            prisma.session.deleteMany({ where: { userId: id } }),
+        ]);
+
+        return updated;
     } catch (err) {
+        if (err instanceof ServiceError) throw err;
         console.error("updateUserStatus error:", err);
         throw new ServiceError("Database error while updating user status", 500);
     }
@@ -9,6 +9,21 @@ import { cartRouter } from "../modules/cart/cart.routes";
 import { orderRouter } from "../modules/order/order.routes";
 import { reviewRouter } from "../modules/review/review.routes";
 import { adminRouter } from "../modules/admin/admin.routes";
+import { prescriptionRouter } from "../modules/prescription/prescription.routes";
+import { paymentRouter } from "../modules/payment/payment.routes";
+import { returnRouter } from "../modules/return/return.routes";
+import { stockRouter } from "../modules/stock/stock.routes";
+import { batchRouter } from "../modules/batch/batch.routes";
+import { recallRouter } from "../modules/recall/recall.routes";
+import { couponRouter } from "../modules/coupon/coupon.routes";
+import { shippingRouter } from "../modules/shipping/shipping.routes";
+import { currencyRouter } from "../modules/currency/currency.routes";
+import { interactionRouter } from "../modules/interaction/interaction.routes";
+import { catalogRouter } from "../modules/catalog/catalog.routes";
+import { onboardingRouter } from "../modules/onboarding/onboarding.routes";
+import { sellerRouter } from "../modules/seller/seller.routes";
+import { payoutRouter } from "../modules/payout/payout.routes";
+import { analyticsRouter } from "../modules/analytics/analytics.routes";
 
 const router = express.Router();
 
@@ -18,6 +33,21 @@ router.use('/profile', profileRouter);
 router.use('/cart', cartRouter);
 router.use('/orders', orderRouter);
 router.use('/reviews', reviewRouter);
+router.use('/prescriptions', prescriptionRouter);
+router.use('/payments', paymentRouter);
+router.use('/returns', returnRouter);
+router.use('/stock', stockRouter);
+router.use('/batches', batchRouter);
+router.use('/recalls', recallRouter);
+router.use('/coupons', couponRouter);
+router.use('/shipping-zones', shippingRouter);
+router.use('/exchange-rates', currencyRouter);
+router.use('/interactions', interactionRouter);
+router.use('/catalog', catalogRouter);
+router.use('/seller-applications', onboardingRouter);
+router.use('/sellers', sellerRouter);
+router.use('/payouts', payoutRouter);
+router.use('/seller', analyticsRouter);
 router.use('/admin/users', auth(UserRole.ADMIN), userRouter);
 router.use('/admin', adminRouter);
 
@@ -0,0 +1,16 @@
+import { prisma } from "../lib/prisma";
+import { catalogService } from "../modules/catalog/catalog.service";
+
+const processImportJobs = async () => {
+    try {
+        const { processed } = await catalogService.processImportJobs();
+        console.log(`Processed ${processed} catalog import job(s)`);
+    } catch (err) {
+        console.error(err);
+        process.exitCode = 1;
+    } finally {
+        await prisma.$disconnect();
+    }
+};
+
+processImportJobs();
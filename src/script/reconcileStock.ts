@@ -0,0 +1,19 @@
+import { prisma } from "../lib/prisma";
+import { stockService } from "../modules/stock/stock.service";
+
+const reconcileStock = async () => {
+    try {
+        const { checked, drifted } = await stockService.reconcileStock();
+        console.log(`Checked ${checked} medicine(s), ${drifted.length} drifted`);
+        for (const m of drifted) {
+            console.log(`  ${m.id} ${m.name}: stock=${m.stock} ledger=${m.ledgerBalance} drift=${m.drift}`);
+        }
+    } catch (err) {
+        console.error(err);
+        process.exitCode = 1;
+    } finally {
+        await prisma.$disconnect();
+    }
+};
+
+reconcileStock();
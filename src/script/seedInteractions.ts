@@ -0,0 +1,28 @@
+import { readFile } from "node:fs/promises";
+import { prisma } from "../lib/prisma";
+import { interactionService } from "../modules/interaction/interaction.service";
+
+const seedInteractions = async () => {
+    const file = process.argv[2];
+    if (!file) {
+        console.error("Usage: npm run seed:interactions -- <interactions.csv>");
+        process.exitCode = 1;
+        return;
+    }
+
+    try {
+        const csv = await readFile(file, "utf8");
+        const { created, updated, errors } = await interactionService.importInteractions(csv);
+        console.log(`Imported interactions: ${created} created, ${updated} updated, ${errors.length} rejected`);
+        for (const e of errors) {
+            console.log(`  line ${e.line}: ${e.message}`);
+        }
+    } catch (err) {
+        console.error(err);
+        process.exitCode = 1;
+    } finally {
+        await prisma.$disconnect();
+    }
+};
+
+seedInteractions();
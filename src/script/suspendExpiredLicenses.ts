@@ -0,0 +1,16 @@
+import { prisma } from "../lib/prisma";
+import { onboardingService } from "../modules/onboarding/onboarding.service";
+
+const suspendExpiredLicenses = async () => {
+    try {
+        const { suspended, medicines } = await onboardingService.suspendExpiredLicenses();
+        console.log(`Suspended ${suspended} seller(s) with lapsed licenses, hid ${medicines} listing(s)`);
+    } catch (err) {
+        console.error(err);
+        process.exitCode = 1;
+    } finally {
+        await prisma.$disconnect();
+    }
+};
+
+suspendExpiredLicenses();
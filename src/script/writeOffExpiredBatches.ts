@@ -0,0 +1,16 @@
+import { prisma } from "../lib/prisma";
+import { batchService } from "../modules/batch/batch.service";
+
+const writeOffExpiredBatches = async () => {
+    try {
+        const { writtenOff } = await batchService.writeOffExpired();
+        console.log(`Wrote off ${writtenOff} expired batch(es)`);
+    } catch (err) {
+        console.error(err);
+        process.exitCode = 1;
+    } finally {
+        await prisma.$disconnect();
+    }
+};
+
+writeOffExpiredBatches();